@@ -17,13 +17,14 @@ import { isAuthRoute, AuthRouter } from "@/routing/authRouter";
 import { PageSkeleton } from "@/components/skeletons/page-skeleton";
 import { ErrorBoundary } from "@/components/error-boundary";
 import { useDragDropFix } from "@/hooks/use-drag-fix";
+import { TwoFactorGate } from "@/features/two-factor";
 
 const TenantLayout = lazy(() => import("@/routing/tenantRouter").then(m => ({ default: m.TenantLayout })));
 const SuperLayout = lazy(() => import("@/routing/superRouter").then(m => ({ default: m.SuperLayout })));
 const ClientPortalLayout = lazy(() => import("@/routing/portalRouter").then(m => ({ default: m.ClientPortalLayout })));
 
 function AppLayout() {
-  const { isAuthenticated, isLoading, user } = useAuth();
+  const { isAuthenticated, isLoading, user, twoFactorGate } = useAuth();
   const { appMode } = useAppMode();
   const [location] = useLocation();
 
@@ -41,6 +42,10 @@ function AppLayout() {
     return <Redirect to="/login" />;
   }
 
+  if (twoFactorGate) {
+    return <TwoFactorGate gate={twoFactorGate} />;
+  }
+
   const isSuperUser = user?.role === "super_user";
   const isClientUser = user?.role === "client";
   const isSuperRoute = location.startsWith("/super-admin");
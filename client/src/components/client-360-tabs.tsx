@@ -89,6 +89,7 @@ import {
 } from "@/components/ui/select";
 import { RichTextEditor, RichTextViewer } from "@/components/ui/rich-text-editor";
 import { RequestApprovalDialog } from "@/components/request-approval-dialog";
+import { ProofingDialog } from "@/features/proofing";
 import { useAuth } from "@/lib/auth";
 
 export interface CrmSummary {
@@ -1459,6 +1460,8 @@ interface ApprovalItem {
   dueAt: string | null;
   createdAt: string;
   requesterName: string;
+  assetId: string | null;
+  proof: { assetTitle: string | null; versionNumber: number; mimeType: string | null } | null;
 }
 
 export interface EffectivePermissions {
@@ -1472,6 +1475,7 @@ export function ApprovalsTab({ clientId }: { clientId: string }) {
   const [showApprovalDialog, setShowApprovalDialog] = useState(false);
   const [approvalFilterValues, setApprovalFilterValues] = useState<Record<string, string>>({});
   const [approvalSearch, setApprovalSearch] = useState("");
+  const [proofingAsset, setProofingAsset] = useState<{ id: string; title: string; clientId: string } | null>(null);
 
   const { data: approvals = [], isLoading } = useQuery<ApprovalItem[]>({
     queryKey: ["/api/crm/clients", clientId, "approvals"],
@@ -1582,6 +1586,17 @@ export function ApprovalsTab({ clientId }: { clientId: string }) {
                       </p>
                     )}
                   </div>
+                  {a.assetId && a.proof && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setProofingAsset({ id: a.assetId!, title: a.proof!.assetTitle || a.title, clientId })}
+                      data-testid={`button-open-proof-${a.id}`}
+                    >
+                      <Eye className="h-4 w-4 mr-1" />
+                      Proof v{a.proof.versionNumber}
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -1594,6 +1609,11 @@ export function ApprovalsTab({ clientId }: { clientId: string }) {
         onOpenChange={setShowApprovalDialog}
         clientId={clientId}
       />
+
+      <ProofingDialog
+        asset={proofingAsset}
+        onOpenChange={(open) => { if (!open) setProofingAsset(null); }}
+      />
     </div>
   );
 }
@@ -6,6 +6,8 @@
  * Features:
  * - Keyboard shortcut: ⌘K (Mac) / Ctrl+K (Windows) to toggle open/close
  * - Tenant-scoped search: All searches are scoped to current tenant (403 if no tenant context)
+ * - Full-text matches in comments, notes, tickets, conversations, chat and files, with snippets
+ * - Saved task views, filtered by name
  * - Debounced search: 200ms debounce to reduce API calls
  * - Quick actions: New Task, New Project, Start Timer (shown when search query < 2 chars)
  * - Result navigation: Click or Enter to navigate to selected item
@@ -36,8 +38,12 @@ import {
   Plus,
   Timer,
   Search,
+  FileText,
+  ListFilter,
 } from "lucide-react";
 import { useDebounce } from "@/hooks/use-debounce";
+import { SearchEntityType, SEARCH_ENTITY_LABELS, type SearchHit, type SearchResponse, type SearchSnippet } from "@shared/search";
+import type { SavedView } from "@shared/schema";
 
 /** Shape of search results from /api/search endpoint */
 interface SearchResult {
@@ -46,6 +52,47 @@ interface SearchResult {
   tasks: Array<{ id: string; name: string; type: string; projectId: string; status: string }>;
 }
 
+/** Types shown under "Content"; clients, projects and tasks have their own groups. */
+const CONTENT_TYPES = [
+  SearchEntityType.COMMENT,
+  SearchEntityType.CLIENT_NOTE,
+  SearchEntityType.PROJECT_NOTE,
+  SearchEntityType.TICKET,
+  SearchEntityType.TICKET_MESSAGE,
+  SearchEntityType.CONVERSATION,
+  SearchEntityType.CONVERSATION_MESSAGE,
+  SearchEntityType.CHAT_MESSAGE,
+  SearchEntityType.ASSET,
+].join(",");
+
+function contentHref(hit: SearchHit): string {
+  switch (hit.type) {
+    case SearchEntityType.COMMENT:
+      return hit.projectId ? `/projects/${hit.projectId}?task=${hit.taskId}` : "/my-tasks";
+    case SearchEntityType.PROJECT_NOTE:
+      return `/projects/${hit.projectId}`;
+    case SearchEntityType.TICKET:
+    case SearchEntityType.TICKET_MESSAGE:
+      return `/support/${hit.parentId}`;
+    case SearchEntityType.CHAT_MESSAGE:
+      return "/chat";
+    default:
+      return hit.clientId ? `/clients/${hit.clientId}` : "/";
+  }
+}
+
+function HighlightedSnippet({ snippet }: { snippet: SearchSnippet }) {
+  const parts: JSX.Element[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach(([start, end], index) => {
+    if (start > cursor) parts.push(<span key={`t${index}`}>{snippet.text.slice(cursor, start)}</span>);
+    parts.push(<mark key={`m${index}`} className="bg-primary/20 text-foreground rounded-sm">{snippet.text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  if (cursor < snippet.text.length) parts.push(<span key="rest">{snippet.text.slice(cursor)}</span>);
+  return <span className="block text-xs text-muted-foreground truncate">{parts}</span>;
+}
+
 interface CommandPaletteProps {
   onNewTask?: () => void;
   onNewProject?: () => void;
@@ -63,6 +110,16 @@ export function CommandPalette({ onNewTask, onNewProject, onStartTimer }: Comman
     enabled: debouncedSearch.length >= 2,
   });
 
+  const { data: contentResults } = useQuery<SearchResponse>({
+    queryKey: ["/api/search/all", { q: debouncedSearch, types: CONTENT_TYPES, limit: 8 }],
+    enabled: debouncedSearch.length >= 2,
+  });
+
+  const { data: savedViews = [] } = useQuery<SavedView[]>({
+    queryKey: ["/api/saved-views"],
+    enabled: open,
+  });
+
   useEffect(() => {
     const down = (e: KeyboardEvent) => {
       if (e.key === "k" && (e.metaKey || e.ctrlKey)) {
@@ -85,17 +142,22 @@ export function CommandPalette({ onNewTask, onNewProject, onStartTimer }: Comman
     handleSelect(() => setLocation(path));
   }, [handleSelect, setLocation]);
 
-  const hasResults = searchResults && (
+  const contentHits = contentResults?.hits ?? [];
+  const viewQuery = debouncedSearch.trim().toLowerCase();
+  const matchingViews = savedViews
+    .filter((view) => view.name.toLowerCase().includes(viewQuery))
+    .slice(0, 8);
+  const hasResults = (searchResults && (
     searchResults.clients.length > 0 ||
     searchResults.projects.length > 0 ||
     searchResults.tasks.length > 0
-  );
+  )) || contentHits.length > 0 || matchingViews.length > 0;
 
   return (
     <CommandDialog open={open} onOpenChange={setOpen}>
       <Command shouldFilter={false} className="rounded-lg border shadow-md">
         <CommandInput
-          placeholder="Search clients, projects, tasks..."
+          placeholder="Search clients, projects, tasks, notes, messages..."
           value={search}
           onValueChange={setSearch}
           data-testid="input-command-search"
@@ -128,6 +190,32 @@ export function CommandPalette({ onNewTask, onNewProject, onStartTimer }: Comman
                 <Timer className="mr-2 h-4 w-4" />
                 <span>Start Timer</span>
               </CommandItem>
+              <CommandItem
+                onSelect={() => navigateTo("/views/new")}
+                data-testid="command-new-view"
+              >
+                <ListFilter className="mr-2 h-4 w-4" />
+                <span>New Saved View</span>
+              </CommandItem>
+            </CommandGroup>
+          )}
+
+          {matchingViews.length > 0 && (
+            <CommandGroup heading="Saved Views">
+              {matchingViews.map((view) => (
+                <CommandItem
+                  key={view.id}
+                  value={`view-${view.id}`}
+                  onSelect={() => navigateTo(`/views/${view.id}`)}
+                  data-testid={`command-view-${view.id}`}
+                >
+                  <ListFilter className="mr-2 h-4 w-4" />
+                  <span className="truncate">{view.name}</span>
+                  {view.visibility === "team" && (
+                    <span className="ml-auto text-xs text-muted-foreground">Team</span>
+                  )}
+                </CommandItem>
+              ))}
             </CommandGroup>
           )}
 
@@ -190,6 +278,31 @@ export function CommandPalette({ onNewTask, onNewProject, onStartTimer }: Comman
               </CommandGroup>
             </>
           )}
+
+          {contentHits.length > 0 && (
+            <>
+              <CommandSeparator />
+              <CommandGroup heading="Content">
+                {contentHits.map((hit) => (
+                  <CommandItem
+                    key={`${hit.type}-${hit.id}`}
+                    value={`${hit.type}-${hit.id}`}
+                    onSelect={() => navigateTo(contentHref(hit))}
+                    data-testid={`command-${hit.type}-${hit.id}`}
+                  >
+                    <FileText className="mr-2 h-4 w-4 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0 flex-1">
+                      <span className="block truncate">{hit.title}</span>
+                      {hit.snippet && <HighlightedSnippet snippet={hit.snippet} />}
+                    </div>
+                    <span className="ml-2 shrink-0 text-xs text-muted-foreground">
+                      {SEARCH_ENTITY_LABELS[hit.type]}
+                    </span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </>
+          )}
         </CommandList>
       </Command>
     </CommandDialog>
@@ -35,6 +35,7 @@ import { CommentAttachments, type CommentAttachmentMeta } from "@/components/com
 import { CommentDropzone } from "@/components/uploads/CommentDropzone";
 import { useAttachmentUploadQueue } from "@/lib/uploads/useAttachmentUploadQueue";
 import { useToast } from "@/hooks/use-toast";
+import { RemindMeButton } from "@/features/reminders";
 import type { Comment, User } from "@shared/schema";
 
 interface CommentWithUser extends Comment {
@@ -324,6 +325,14 @@ export function CommentThread({
                           </Button>
                         </>
                       )}
+                      {entityType === "task" && !readOnly && (
+                        <RemindMeButton
+                          sourceType="comment"
+                          sourceId={comment.id}
+                          message={`Follow up on ${comment.user?.name || "a"}'s comment`}
+                          className="h-6 px-2 text-xs"
+                        />
+                      )}
                       {comment.isResolved ? (
                         <Button
                           size="sm"
@@ -11,9 +11,18 @@ import type { LucideIcon } from "lucide-react";
 
 export type TaskStatus = "todo" | "in_progress" | "in_review" | "blocked" | "done" | "completed";
 
+/** A status from the project's custom workflow. */
+export interface StatusSelectorOption {
+  key: string;
+  name: string;
+  color: string;
+}
+
 interface StatusSelectorProps {
   value: TaskStatus;
   onChange: (value: TaskStatus) => void;
+  /** Custom workflow statuses; the built-in list is used when omitted. */
+  options?: StatusSelectorOption[] | null;
   disabled?: boolean;
   error?: boolean;
   className?: string;
@@ -53,6 +62,15 @@ const statusConfig: Record<TaskStatus, { label: string; icon: LucideIcon; color:
   },
 };
 
+function WorkflowStatusIndicator({ option }: { option: StatusSelectorOption }) {
+  return (
+    <span className="flex items-center gap-2">
+      <span className="h-2.5 w-2.5 rounded-full shrink-0" style={{ backgroundColor: option.color }} />
+      <span>{option.name}</span>
+    </span>
+  );
+}
+
 function StatusIndicator({ status }: { status: TaskStatus }) {
   const config = statusConfig[status] ?? statusConfig.todo;
   const Icon = config.icon;
@@ -67,11 +85,13 @@ function StatusIndicator({ status }: { status: TaskStatus }) {
 export function StatusSelector({
   value,
   onChange,
+  options,
   disabled = false,
   error = false,
   className,
   "data-testid": testId,
 }: StatusSelectorProps) {
+  const current = options?.find((o) => o.key === value);
   return (
     <Select value={value} onValueChange={(v) => onChange(v as TaskStatus)} disabled={disabled}>
       <SelectTrigger
@@ -83,15 +103,21 @@ export function StatusSelector({
         data-testid={testId}
       >
         <SelectValue>
-          <StatusIndicator status={value} />
+          {current ? <WorkflowStatusIndicator option={current} /> : <StatusIndicator status={value} />}
         </SelectValue>
       </SelectTrigger>
       <SelectContent>
-        {(Object.keys(statusConfig) as TaskStatus[]).map((status) => (
-          <SelectItem key={status} value={status}>
-            <StatusIndicator status={status} />
-          </SelectItem>
-        ))}
+        {options
+          ? options.map((option) => (
+              <SelectItem key={option.key} value={option.key}>
+                <WorkflowStatusIndicator option={option} />
+              </SelectItem>
+            ))
+          : (Object.keys(statusConfig) as TaskStatus[]).map((status) => (
+              <SelectItem key={status} value={status}>
+                <StatusIndicator status={status} />
+              </SelectItem>
+            ))}
       </SelectContent>
     </Select>
   );
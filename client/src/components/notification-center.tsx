@@ -3,7 +3,7 @@ import { useQuery, useMutation, useQueryClient, useInfiniteQuery } from "@tansta
 import {
   Bell, Check, CheckCheck, Settings, Clock, MessageSquare,
   Users, FolderKanban, X, Headphones, FileText, Hash,
-  AlertTriangle, ChevronRight, Loader2, Layers,
+  AlertTriangle, ChevronRight, Loader2, Layers, AlarmClock,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -23,6 +23,7 @@ import type { ServerToClientEvents } from "@shared/events";
 import { useTaskDrawerOptional } from "@/lib/task-drawer-context";
 import { useLocation } from "wouter";
 import { useFeatureFlags } from "@/hooks/use-feature-flags";
+import { RemindersPanel } from "@/features/reminders";
 
 interface GroupMeta {
   count: number;
@@ -133,6 +134,7 @@ const NOTIFICATION_TYPE_ICONS: Record<NotificationType, typeof Bell> = {
 };
 
 function getNotificationIcon(type: string) {
+  if (type === "reminder") return AlarmClock;
   return NOTIFICATION_TYPE_ICONS[type as NotificationType] || Bell;
 }
 
@@ -396,7 +398,7 @@ function NotificationGroupRow({
 
 export function NotificationCenter() {
   const [isOpen, setIsOpen] = useState(false);
-  const [activeTab, setActiveTab] = useState<"notifications" | "settings">("notifications");
+  const [activeTab, setActiveTab] = useState<"notifications" | "reminders" | "settings">("notifications");
   const [filterTab, setFilterTab] = useState<FilterTab>("all");
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -725,7 +727,7 @@ export function NotificationCenter() {
         </Button>
       </PopoverTrigger>
       <PopoverContent className="w-[calc(100vw-2rem)] sm:w-[420px] max-w-[420px] p-0 notif-panel-motion origin-top-right" align="end">
-        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "notifications" | "settings")}>
+        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "notifications" | "reminders" | "settings")}>
           <div className="flex items-center justify-between px-4 py-3 border-b">
             <h3 className="font-semibold text-sm">Notifications</h3>
             <div className="flex items-center gap-2">
@@ -733,6 +735,9 @@ export function NotificationCenter() {
                 <TabsTrigger value="notifications" className="h-7 px-2 text-xs" data-testid="tab-notifications">
                   <Bell className="h-3.5 w-3.5" />
                 </TabsTrigger>
+                <TabsTrigger value="reminders" className="h-7 px-2 text-xs" data-testid="tab-reminders">
+                  <AlarmClock className="h-3.5 w-3.5" />
+                </TabsTrigger>
                 <TabsTrigger value="settings" className="h-7 px-2 text-xs" data-testid="tab-notification-settings">
                   <Settings className="h-3.5 w-3.5" />
                 </TabsTrigger>
@@ -998,6 +1003,10 @@ export function NotificationCenter() {
             </div>
           </TabsContent>
 
+          <TabsContent value="reminders" className="m-0">
+            <RemindersPanel />
+          </TabsContent>
+
           <TabsContent value="settings" className="m-0">
             <ScrollArea className="h-80">
               {preferencesLoading ? (
@@ -299,6 +299,8 @@ interface WorkloadEmployee {
   dueSoonCount: number;
   overdueCount: number;
   avgCompletionDays: number | null;
+  avgLeadTimeDays: number | null;
+  avgCycleTimeDays: number | null;
   backlogCount: number;
 }
 
@@ -335,6 +337,7 @@ function WorkloadTab({ rangeDays }: { rangeDays: number }) {
                 <TableHead>Due Soon</TableHead>
                 <TableHead>Overdue</TableHead>
                 <TableHead>Avg Completion Days</TableHead>
+                <TableHead>Cycle Time</TableHead>
                 <TableHead>Backlog</TableHead>
               </TableRow>
             </TableHeader>
@@ -364,6 +367,9 @@ function WorkloadTab({ rangeDays }: { rangeDays: number }) {
                   <TableCell className="text-sm text-muted-foreground">
                     {e.avgCompletionDays !== null ? `${Math.round(e.avgCompletionDays * 10) / 10}d` : "—"}
                   </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {e.avgCycleTimeDays !== null ? `${e.avgCycleTimeDays}d` : "—"}
+                  </TableCell>
                   <TableCell>
                     {e.backlogCount >= 5 ? (
                       <Badge variant="destructive">{e.backlogCount}</Badge>
@@ -377,7 +383,7 @@ function WorkloadTab({ rangeDays }: { rangeDays: number }) {
               ))}
               {(data?.employees ?? []).length === 0 && !isLoading && (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">No workload data found</TableCell>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground py-8">No workload data found</TableCell>
                 </TableRow>
               )}
             </TableBody>
@@ -1076,6 +1082,8 @@ interface ProjectRisk {
   openEstimatedHours: number;
   throughputPerWeek: number;
   predictedWeeksToClear: number;
+  criticalPathHours?: number;
+  criticalPathWeeks?: number;
   deadlineRisk: "Low" | "Medium" | "High";
   explanation: string[];
 }
@@ -1350,7 +1358,7 @@ function ForecastsTab({ horizonWeeks }: { horizonWeeks: number }) {
                           <span className={p.overdueCount > 0 ? "text-red-600 font-medium" : ""}>{p.overdueCount}</span>
                         </TableCell>
                         <TableCell className="text-center">{p.throughputPerWeek}</TableCell>
-                        <TableCell className="text-center">{p.predictedWeeksToClear}</TableCell>
+                        <TableCell className="text-center">{Math.max(p.predictedWeeksToClear, p.criticalPathWeeks ?? 0)}</TableCell>
                         <TableCell className="text-center">
                           <Badge className={cn("text-xs", RISK_COLORS[p.deadlineRisk])}>
                             {p.deadlineRisk}
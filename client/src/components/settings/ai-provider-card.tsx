@@ -0,0 +1,385 @@
+import { useState, useEffect, type ReactNode } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Save, TestTube, Eye, EyeOff, Sparkles, ChevronDown, ChevronRight } from "lucide-react";
+
+// Self-hosted endpoints and custom API URLs are system-only; see TENANT_AI_DRIVERS on the server.
+type AIDriver = "openai" | "anthropic" | "azure_openai" | "fake";
+
+const DRIVER_OPTIONS: Array<{ value: AIDriver; label: string; description: string; modelPlaceholder: string }> = [
+  { value: "openai", label: "OpenAI", description: "OpenAI API", modelPlaceholder: "gpt-4o-mini" },
+  { value: "anthropic", label: "Anthropic", description: "Anthropic Messages API", modelPlaceholder: "claude-3-5-haiku-latest" },
+  { value: "azure_openai", label: "Azure OpenAI", description: "A model deployment in your Azure OpenAI resource", modelPlaceholder: "my-gpt-4o-deployment" },
+  { value: "fake", label: "Fake (testing)", description: "Deterministic canned responses; nothing leaves the server", modelPlaceholder: "fake-model" },
+];
+
+const FEATURES: Array<{ value: string; label: string }> = [
+  { value: "task_breakdown", label: "Task breakdown" },
+  { value: "project_plan", label: "Project planning" },
+  { value: "task_description", label: "Task descriptions" },
+  { value: "chat_summary", label: "Chat summaries" },
+  { value: "chat_reply", label: "Chat reply drafts" },
+  { value: "chat_to_task", label: "Chat message to task" },
+  { value: "employee_summary", label: "Employee summaries" },
+];
+
+interface AIIntegration {
+  status: "not_configured" | "configured" | "error";
+  publicConfig: Record<string, any> | null;
+  secretConfigured: boolean;
+  lastTestedAt: string | null;
+  secretMasked?: { apiKeyMasked?: string | null };
+}
+
+interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+interface AIUsageSummary {
+  totals: UsageTotals;
+  byFeature: Array<UsageTotals & { feature: string }>;
+  byModel: Array<UsageTotals & { driver: string; model: string }>;
+}
+
+interface AIProviderCardProps {
+  integration: AIIntegration | undefined;
+  statusBadge: ReactNode;
+}
+
+const EMPTY_FORM = {
+  enabled: true,
+  driver: "openai" as AIDriver,
+  model: "",
+  maxTokens: "",
+  temperature: "",
+  azureEndpoint: "",
+  azureApiVersion: "",
+  apiKey: "",
+  featureModels: {} as Record<string, string>,
+};
+
+type AIForm = typeof EMPTY_FORM;
+
+function toPayload(form: AIForm): Record<string, unknown> {
+  const payload: Record<string, unknown> = {
+    enabled: form.enabled,
+    driver: form.driver,
+    model: form.model || undefined,
+    maxTokens: form.maxTokens ? Number(form.maxTokens) : undefined,
+    temperature: form.temperature ? Number(form.temperature) : undefined,
+    featureModels: form.featureModels,
+  };
+  if (form.driver === "azure_openai") {
+    Object.assign(payload, { azureEndpoint: form.azureEndpoint, azureApiVersion: form.azureApiVersion || undefined });
+  }
+  // A blank key keeps the stored value
+  if (form.apiKey.trim()) payload.apiKey = form.apiKey;
+  return payload;
+}
+
+const formatNumber = (value: number) => value.toLocaleString();
+
+export function AIProviderCard({ integration, statusBadge }: AIProviderCardProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<AIForm>(EMPTY_FORM);
+  const [showKey, setShowKey] = useState(false);
+  const [showFeatureModels, setShowFeatureModels] = useState(false);
+
+  useEffect(() => {
+    const config = integration?.publicConfig;
+    if (!config) return;
+    setForm((prev) => ({
+      ...prev,
+      enabled: config.enabled ?? true,
+      driver: DRIVER_OPTIONS.some((option) => option.value === config.driver) ? config.driver : prev.driver,
+      model: config.model || "",
+      maxTokens: config.maxTokens ? String(config.maxTokens) : "",
+      temperature: config.temperature !== undefined ? String(config.temperature) : "",
+      azureEndpoint: config.azureEndpoint || "",
+      azureApiVersion: config.azureApiVersion || "",
+      featureModels: config.featureModels || {},
+    }));
+  }, [integration]);
+
+  const { data: usage } = useQuery<AIUsageSummary>({
+    queryKey: ["/api/v1/ai/usage?days=30"],
+  });
+
+  const set = <K extends keyof AIForm>(key: K, value: AIForm[K]) => setForm((prev) => ({ ...prev, [key]: value }));
+  const driver = DRIVER_OPTIONS.find((option) => option.value === form.driver);
+  const needsKey = form.driver !== "fake";
+  const isConfigured = integration?.status === "configured";
+  const keyMask = integration?.secretMasked?.apiKeyMasked;
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: AIForm) => apiRequest("PUT", "/api/v1/tenant/integrations/ai", toPayload(data)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/tenant/integrations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/ai/status"] });
+      setForm((prev) => ({ ...prev, apiKey: "" }));
+      toast({ title: "AI settings saved successfully" });
+    },
+    onError: (err: any) => {
+      toast({ title: err?.message || "Failed to save AI settings", variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/v1/tenant/integrations/ai/test", {});
+      return res.json();
+    },
+    onSuccess: (response: { success: boolean; message?: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/tenant/integrations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/ai/usage?days=30"] });
+      if (response.success) {
+        toast({ title: response.message || "AI provider test successful" });
+      } else {
+        toast({ title: response.message || "AI provider test failed", variant: "destructive" });
+      }
+    },
+    onError: () => {
+      toast({ title: "Failed to test AI provider", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <div className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5 text-primary" />
+            <CardTitle className="text-lg">AI Provider</CardTitle>
+          </div>
+          {statusBadge}
+        </div>
+        <CardDescription>
+          Choose which model provider powers AI features. When configured, this takes precedence over the OpenAI integration.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="ai-enabled">Enable AI Features</Label>
+            <p className="text-xs text-muted-foreground">When off, the system default provider is used</p>
+          </div>
+          <Switch
+            id="ai-enabled"
+            checked={form.enabled}
+            onCheckedChange={(checked) => set("enabled", checked)}
+            data-testid="switch-ai-enabled"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="ai-driver">Provider</Label>
+          <Select value={form.driver} onValueChange={(value) => set("driver", value as AIDriver)}>
+            <SelectTrigger id="ai-driver" data-testid="select-ai-driver">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DRIVER_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{driver?.description}</p>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="ai-model">{form.driver === "azure_openai" ? "Deployment" : "Default Model"}</Label>
+            <Input
+              id="ai-model"
+              placeholder={driver?.modelPlaceholder}
+              value={form.model}
+              onChange={(e) => set("model", e.target.value)}
+              data-testid="input-ai-model"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ai-max-tokens">Max Tokens</Label>
+            <Input
+              id="ai-max-tokens"
+              type="number"
+              placeholder="2000"
+              value={form.maxTokens}
+              onChange={(e) => set("maxTokens", e.target.value)}
+              data-testid="input-ai-max-tokens"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ai-temperature">Temperature</Label>
+            <Input
+              id="ai-temperature"
+              type="number"
+              step="0.1"
+              min="0"
+              max="2"
+              placeholder="0.7"
+              value={form.temperature}
+              onChange={(e) => set("temperature", e.target.value)}
+              data-testid="input-ai-temperature"
+            />
+          </div>
+        </div>
+
+        {form.driver === "azure_openai" && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="ai-azureEndpoint">Endpoint</Label>
+              <Input
+                id="ai-azureEndpoint"
+                placeholder="https://my-resource.openai.azure.com"
+                value={form.azureEndpoint}
+                onChange={(e) => set("azureEndpoint", e.target.value)}
+                data-testid="input-ai-azure-endpoint"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ai-azureApiVersion">API Version (Optional)</Label>
+              <Input
+                id="ai-azureApiVersion"
+                placeholder="2024-10-21"
+                value={form.azureApiVersion}
+                onChange={(e) => set("azureApiVersion", e.target.value)}
+                data-testid="input-ai-azure-api-version"
+              />
+            </div>
+          </div>
+        )}
+
+        {needsKey && (
+          <div className="space-y-2">
+            <Label htmlFor="ai-apiKey">API Key</Label>
+            <div className="flex gap-2">
+              <Input
+                id="ai-apiKey"
+                type={showKey ? "text" : "password"}
+                placeholder={keyMask ? `${keyMask} — enter a new value to replace` : ""}
+                value={form.apiKey}
+                onChange={(e) => set("apiKey", e.target.value)}
+                data-testid="input-ai-api-key"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={() => setShowKey(!showKey)}
+                data-testid="button-toggle-ai-key"
+              >
+                {showKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="px-0"
+            onClick={() => setShowFeatureModels(!showFeatureModels)}
+            data-testid="button-toggle-ai-feature-models"
+          >
+            {showFeatureModels ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+            Model per feature
+          </Button>
+          {showFeatureModels && (
+            <div className="grid gap-3 sm:grid-cols-2">
+              {FEATURES.map((feature) => (
+                <div key={feature.value} className="space-y-1">
+                  <Label htmlFor={`ai-feature-${feature.value}`} className="text-xs">{feature.label}</Label>
+                  <Input
+                    id={`ai-feature-${feature.value}`}
+                    className="h-8"
+                    placeholder={form.model || driver?.modelPlaceholder}
+                    value={form.featureModels[feature.value] ?? ""}
+                    onChange={(e) => set("featureModels", { ...form.featureModels, [feature.value]: e.target.value })}
+                    data-testid={`input-ai-feature-model-${feature.value}`}
+                  />
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground sm:col-span-2">Leave blank to use the default model.</p>
+            </div>
+          )}
+        </div>
+
+        {usage && usage.totals.calls > 0 && (
+          <div className="rounded-md border p-3 space-y-2" data-testid="ai-usage-summary">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">Usage, last 30 days</span>
+              <span className="text-muted-foreground">
+                {formatNumber(usage.totals.calls)} calls · {formatNumber(usage.totals.inputTokens + usage.totals.outputTokens)} tokens
+              </span>
+            </div>
+            <div className="space-y-1">
+              {usage.byFeature.map((row) => (
+                <div key={row.feature} className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>{FEATURES.find((f) => f.value === row.feature)?.label ?? row.feature}</span>
+                  <span>
+                    {formatNumber(row.inputTokens)} in / {formatNumber(row.outputTokens)} out
+                    {row.failedCalls > 0 && ` · ${row.failedCalls} failed`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {integration?.lastTestedAt && (
+          <p className="text-xs text-muted-foreground">
+            Last tested: {new Date(integration.lastTestedAt).toLocaleString()}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2 flex-wrap">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => testMutation.mutate()}
+            disabled={testMutation.isPending || !isConfigured}
+            data-testid="button-test-ai"
+          >
+            {testMutation.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <>
+                <TestTube className="h-4 w-4 mr-2" />
+                Test Connection
+              </>
+            )}
+          </Button>
+          <Button
+            type="button"
+            onClick={() => saveMutation.mutate(form)}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-ai"
+          >
+            {saveMutation.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <>
+                <Save className="h-4 w-4 mr-2" />
+                Save AI Settings
+              </>
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,456 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Plus, Pencil, Trash2, Receipt } from "lucide-react";
+import { format } from "date-fns";
+import type { BillingRate, Client, Project } from "@shared/schema";
+import { userDisplayName, type CustomFieldUserOption } from "@/features/customFields";
+import { formatMoney } from "@/features/billing";
+
+const ANY = "__any__";
+
+interface RateFormState {
+  userId: string;
+  role: string;
+  clientId: string;
+  projectId: string;
+  amount: string;
+  currency: string;
+  effectiveFrom: string;
+  effectiveTo: string;
+}
+
+const defaultFormState = (): RateFormState => ({
+  userId: ANY,
+  role: ANY,
+  clientId: ANY,
+  projectId: ANY,
+  amount: "",
+  currency: "USD",
+  effectiveFrom: format(new Date(), "yyyy-MM-dd"),
+  effectiveTo: "",
+});
+
+const orNull = (value: string) => (value === ANY ? null : value);
+
+export function BillingRatesTab() {
+  const { toast } = useToast();
+  const [sheetOpen, setSheetOpen] = useState(false);
+  const [editingRate, setEditingRate] = useState<BillingRate | null>(null);
+  const [formState, setFormState] = useState<RateFormState>(defaultFormState);
+  const [deleteRate, setDeleteRate] = useState<BillingRate | null>(null);
+
+  const ratesQuery = useQuery<BillingRate[]>({ queryKey: queryKeys.billing.rates });
+  const { data: users = [] } = useQuery<CustomFieldUserOption[]>({ queryKey: queryKeys.users.all });
+  const { data: clients = [] } = useQuery<Client[]>({ queryKey: queryKeys.clients.all });
+  const { data: projects = [] } = useQuery<Project[]>({ queryKey: queryKeys.projects.all });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: queryKeys.billing.rates });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: Record<string, unknown>) => {
+      const res = await apiRequest("POST", "/api/billing-rates", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Rate created", description: "New invoices will use this rate." });
+      closeSheet();
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to create rate", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Record<string, unknown> }) => {
+      const res = await apiRequest("PATCH", `/api/billing-rates/${id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Rate updated", description: "Existing invoices keep the rate they were built with." });
+      closeSheet();
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to update rate", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/billing-rates/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Rate deleted" });
+      setDeleteRate(null);
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to delete rate", description: err.message, variant: "destructive" });
+    },
+  });
+
+  function openCreateSheet() {
+    setEditingRate(null);
+    setFormState(defaultFormState());
+    setSheetOpen(true);
+  }
+
+  function openEditSheet(rate: BillingRate) {
+    setEditingRate(rate);
+    setFormState({
+      userId: rate.userId ?? ANY,
+      role: rate.role ?? ANY,
+      clientId: rate.clientId ?? ANY,
+      projectId: rate.projectId ?? ANY,
+      amount: (rate.rateCents / 100).toFixed(2),
+      currency: rate.currency,
+      effectiveFrom: rate.effectiveFrom,
+      effectiveTo: rate.effectiveTo ?? "",
+    });
+    setSheetOpen(true);
+  }
+
+  function closeSheet() {
+    setSheetOpen(false);
+    setEditingRate(null);
+    setFormState(defaultFormState());
+  }
+
+  function handleSubmit() {
+    const amount = Number(formState.amount);
+    if (!formState.amount || !Number.isFinite(amount) || amount < 0) {
+      toast({ title: "Rate required", description: "Enter an hourly rate of zero or more.", variant: "destructive" });
+      return;
+    }
+    const shared = {
+      rateCents: Math.round(amount * 100),
+      currency: formState.currency.trim().toUpperCase() || "USD",
+      effectiveFrom: formState.effectiveFrom,
+      effectiveTo: formState.effectiveTo || null,
+    };
+    if (editingRate) {
+      updateMutation.mutate({ id: editingRate.id, data: shared });
+    } else {
+      createMutation.mutate({
+        ...shared,
+        userId: orNull(formState.userId),
+        role: orNull(formState.role),
+        clientId: orNull(formState.clientId),
+        projectId: orNull(formState.projectId),
+      });
+    }
+  }
+
+  const userName = (id: string) => {
+    const user = users.find((u) => u.id === id);
+    return user ? userDisplayName(user) : "Unknown user";
+  };
+  const clientName = (id: string) => {
+    const client = clients.find((c) => c.id === id);
+    return client?.displayName || client?.companyName || "Unknown client";
+  };
+  const projectName = (id: string) => projects.find((p) => p.id === id)?.name ?? "Unknown project";
+
+  function describeScope(rate: BillingRate): string {
+    const parts: string[] = [];
+    if (rate.projectId) parts.push(projectName(rate.projectId));
+    if (rate.clientId) parts.push(clientName(rate.clientId));
+    if (rate.userId) parts.push(userName(rate.userId));
+    if (rate.role) parts.push(rate.role === "admin" ? "Admins" : "Employees");
+    return parts.length > 0 ? parts.join(" · ") : "Default (everyone)";
+  }
+
+  const isSubmitting = createMutation.isPending || updateMutation.isPending;
+  const rates = ratesQuery.data || [];
+  const clientProjects = formState.clientId === ANY
+    ? projects
+    : projects.filter((p) => p.clientId === formState.clientId);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Receipt className="h-5 w-5 text-primary" />
+              Billing Rates
+            </CardTitle>
+            <CardDescription>
+              Hourly rates used to price out-of-scope time on client invoices. The most specific matching rate wins: project, then client, then person, then role.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={openCreateSheet} data-testid="button-create-billing-rate">
+            <Plus className="h-4 w-4 mr-1" />
+            New Rate
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {ratesQuery.isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : rates.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Receipt className="h-10 w-10 mx-auto mb-3 opacity-40" />
+              <p className="text-sm">No billing rates yet.</p>
+              <p className="text-xs mt-1">Start with a default rate, then add overrides for specific clients, projects or people.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {rates.map((rate) => (
+                <div
+                  key={rate.id}
+                  className="flex items-center justify-between gap-3 p-3 rounded-md border"
+                  data-testid={`billing-rate-row-${rate.id}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium text-sm truncate">{describeScope(rate)}</span>
+                      <Badge variant="outline" className="text-xs shrink-0">
+                        {formatMoney(rate.rateCents, rate.currency)}/h
+                      </Badge>
+                    </div>
+                    <div className="mt-1 text-xs text-muted-foreground">
+                      From {rate.effectiveFrom}{rate.effectiveTo ? ` to ${rate.effectiveTo}` : ""}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => openEditSheet(rate)}
+                      data-testid={`button-edit-billing-rate-${rate.id}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setDeleteRate(rate)}
+                      data-testid={`button-delete-billing-rate-${rate.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Sheet open={sheetOpen} onOpenChange={setSheetOpen}>
+        <SheetContent className="sm:max-w-lg overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>{editingRate ? "Edit Billing Rate" : "Create Billing Rate"}</SheetTitle>
+            <SheetDescription>
+              {editingRate
+                ? "Who the rate applies to is fixed once created; add a new rate to change it."
+                : "Leave a target as Any to apply the rate more broadly."}
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="space-y-5 mt-6">
+            <div>
+              <Label>Client</Label>
+              <Select
+                value={formState.clientId}
+                disabled={!!editingRate}
+                onValueChange={(v) => setFormState({ ...formState, clientId: v, projectId: ANY })}
+              >
+                <SelectTrigger data-testid="select-billing-rate-client">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any client</SelectItem>
+                  {clients.map((client) => (
+                    <SelectItem key={client.id} value={client.id}>
+                      {client.displayName || client.companyName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label>Project</Label>
+              <Select
+                value={formState.projectId}
+                disabled={!!editingRate}
+                onValueChange={(v) => setFormState({ ...formState, projectId: v })}
+              >
+                <SelectTrigger data-testid="select-billing-rate-project">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any project</SelectItem>
+                  {clientProjects.map((project) => (
+                    <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Person</Label>
+                <Select
+                  value={formState.userId}
+                  disabled={!!editingRate}
+                  onValueChange={(v) => setFormState({ ...formState, userId: v })}
+                >
+                  <SelectTrigger data-testid="select-billing-rate-user">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Anyone</SelectItem>
+                    {users.map((user) => (
+                      <SelectItem key={user.id} value={user.id}>{userDisplayName(user)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Role</Label>
+                <Select
+                  value={formState.role}
+                  disabled={!!editingRate}
+                  onValueChange={(v) => setFormState({ ...formState, role: v })}
+                >
+                  <SelectTrigger data-testid="select-billing-rate-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any role</SelectItem>
+                    <SelectItem value="admin">Admin</SelectItem>
+                    <SelectItem value="employee">Employee</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="billing-rate-amount">Hourly Rate</Label>
+                <Input
+                  id="billing-rate-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formState.amount}
+                  onChange={(e) => setFormState({ ...formState, amount: e.target.value })}
+                  placeholder="150.00"
+                  data-testid="input-billing-rate-amount"
+                />
+              </div>
+              <div>
+                <Label htmlFor="billing-rate-currency">Currency</Label>
+                <Input
+                  id="billing-rate-currency"
+                  value={formState.currency}
+                  maxLength={3}
+                  onChange={(e) => setFormState({ ...formState, currency: e.target.value.toUpperCase() })}
+                  placeholder="USD"
+                  data-testid="input-billing-rate-currency"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="billing-rate-from">Effective From</Label>
+                <Input
+                  id="billing-rate-from"
+                  type="date"
+                  value={formState.effectiveFrom}
+                  onChange={(e) => setFormState({ ...formState, effectiveFrom: e.target.value })}
+                  data-testid="input-billing-rate-from"
+                />
+              </div>
+              <div>
+                <Label htmlFor="billing-rate-to">Effective To (optional)</Label>
+                <Input
+                  id="billing-rate-to"
+                  type="date"
+                  value={formState.effectiveTo}
+                  onChange={(e) => setFormState({ ...formState, effectiveTo: e.target.value })}
+                  data-testid="input-billing-rate-to"
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-2 pt-4">
+              <Button
+                className="flex-1"
+                onClick={handleSubmit}
+                disabled={isSubmitting}
+                data-testid="button-submit-billing-rate"
+              >
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                {editingRate ? "Save Changes" : "Create Rate"}
+              </Button>
+              <Button variant="outline" onClick={closeSheet} data-testid="button-cancel-billing-rate">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <AlertDialog open={!!deleteRate} onOpenChange={() => setDeleteRate(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Billing Rate</AlertDialogTitle>
+            <AlertDialogDescription>
+              Invoices already generated keep their amounts. Future invoices fall back to the next matching rate.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete-billing-rate">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteRate && deleteMutation.mutate(deleteRate.id)}
+              className="bg-destructive text-destructive-foreground"
+              data-testid="button-confirm-delete-billing-rate"
+            >
+              {deleteMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,433 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { formatErrorForToast } from "@/lib/parseApiError";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CalendarDays, Clock, Loader2, Plus, Star, Trash2 } from "lucide-react";
+import type { Holiday, HolidayCalendar, User, UserCapacityProfile } from "@shared/schema";
+import { WEEKDAY_LABELS, formatDateRange, minutesToHours } from "@/features/capacity";
+
+type CalendarWithHolidays = HolidayCalendar & { holidays: Holiday[] };
+
+const NO_CALENDAR = "__default__";
+
+function invalidateCapacity() {
+  queryClient.invalidateQueries({ queryKey: queryKeys.capacity.holidayCalendars });
+  queryClient.invalidateQueries({ queryKey: ["/api/capacity/profiles"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/timesheets/review"] });
+}
+
+function userLabel(user: User): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.name || user.email;
+}
+
+function HolidayCalendarsCard({ calendars, isLoading }: { calendars: CalendarWithHolidays[]; isLoading: boolean }) {
+  const { toast } = useToast();
+  const [newCalendarName, setNewCalendarName] = useState("");
+  const [holidayDrafts, setHolidayDrafts] = useState<Record<string, { date: string; name: string }>>({});
+
+  const onError = (title: string) => (err: unknown) => {
+    toast({ title, description: formatErrorForToast(err).description, variant: "destructive" });
+  };
+
+  const createCalendarMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", "/api/holiday-calendars", { name, isDefault: calendars.length === 0 });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateCapacity();
+      setNewCalendarName("");
+      toast({ title: "Holiday calendar created" });
+    },
+    onError: onError("Failed to create calendar"),
+  });
+
+  const makeDefaultMutation = useMutation({
+    mutationFn: async (calendar: HolidayCalendar) => {
+      const res = await apiRequest("PATCH", `/api/holiday-calendars/${calendar.id}`, { name: calendar.name, isDefault: true });
+      return res.json();
+    },
+    onSuccess: () => invalidateCapacity(),
+    onError: onError("Failed to update calendar"),
+  });
+
+  const deleteCalendarMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/holiday-calendars/${id}`);
+    },
+    onSuccess: () => {
+      invalidateCapacity();
+      toast({ title: "Holiday calendar deleted" });
+    },
+    onError: onError("Failed to delete calendar"),
+  });
+
+  const addHolidayMutation = useMutation({
+    mutationFn: async ({ calendarId, date, name }: { calendarId: string; date: string; name: string }) => {
+      const res = await apiRequest("POST", `/api/holiday-calendars/${calendarId}/holidays`, { date, name });
+      return res.json();
+    },
+    onSuccess: (_data, { calendarId }) => {
+      invalidateCapacity();
+      setHolidayDrafts((prev) => ({ ...prev, [calendarId]: { date: "", name: "" } }));
+    },
+    onError: onError("Failed to add holiday"),
+  });
+
+  const deleteHolidayMutation = useMutation({
+    mutationFn: async ({ calendarId, id }: { calendarId: string; id: string }) => {
+      await apiRequest("DELETE", `/api/holiday-calendars/${calendarId}/holidays/${id}`);
+    },
+    onSuccess: () => invalidateCapacity(),
+    onError: onError("Failed to remove holiday"),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5 text-primary" />
+          Holiday Calendars
+        </CardTitle>
+        <CardDescription>
+          Holidays remove working hours from capacity. People use the default calendar unless their working hours name another.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          calendars.map((calendar) => {
+            const draft = holidayDrafts[calendar.id] ?? { date: "", name: "" };
+            return (
+              <div key={calendar.id} className="rounded-md border p-3 space-y-3" data-testid={`holiday-calendar-${calendar.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm">{calendar.name}</span>
+                    {calendar.isDefault && <Badge variant="secondary" className="text-[10px] py-0 h-4">Default</Badge>}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {!calendar.isDefault && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => makeDefaultMutation.mutate(calendar)}
+                        disabled={makeDefaultMutation.isPending}
+                        data-testid={`button-default-calendar-${calendar.id}`}
+                      >
+                        <Star className="h-4 w-4 mr-1" />
+                        Make default
+                      </Button>
+                    )}
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => deleteCalendarMutation.mutate(calendar.id)}
+                      disabled={deleteCalendarMutation.isPending}
+                      data-testid={`button-delete-calendar-${calendar.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {calendar.holidays.length > 0 && (
+                  <div className="space-y-1">
+                    {calendar.holidays.map((holiday) => (
+                      <div key={holiday.id} className="flex items-center justify-between text-sm">
+                        <span>
+                          <span className="text-muted-foreground mr-2">{formatDateRange(holiday.date, holiday.date)}</span>
+                          {holiday.name}
+                        </span>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-7 w-7"
+                          onClick={() => deleteHolidayMutation.mutate({ calendarId: calendar.id, id: holiday.id })}
+                          data-testid={`button-delete-holiday-${holiday.id}`}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="date"
+                    className="w-40"
+                    value={draft.date}
+                    onChange={(e) => setHolidayDrafts((prev) => ({ ...prev, [calendar.id]: { ...draft, date: e.target.value } }))}
+                    data-testid={`input-holiday-date-${calendar.id}`}
+                  />
+                  <Input
+                    placeholder="Holiday name"
+                    value={draft.name}
+                    onChange={(e) => setHolidayDrafts((prev) => ({ ...prev, [calendar.id]: { ...draft, name: e.target.value } }))}
+                    data-testid={`input-holiday-name-${calendar.id}`}
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => addHolidayMutation.mutate({ calendarId: calendar.id, date: draft.date, name: draft.name.trim() })}
+                    disabled={!draft.date || !draft.name.trim() || addHolidayMutation.isPending}
+                    data-testid={`button-add-holiday-${calendar.id}`}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="New calendar, e.g. UK bank holidays"
+            value={newCalendarName}
+            onChange={(e) => setNewCalendarName(e.target.value)}
+            data-testid="input-new-holiday-calendar"
+          />
+          <Button
+            size="sm"
+            onClick={() => createCalendarMutation.mutate(newCalendarName.trim())}
+            disabled={!newCalendarName.trim() || createCalendarMutation.isPending}
+            data-testid="button-create-holiday-calendar"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New Calendar
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ProfileFormState {
+  timezone: string;
+  hours: string[];
+  holidayCalendarId: string;
+  effectiveFrom: string;
+}
+
+function defaultProfileForm(): ProfileFormState {
+  return {
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+    hours: ["8", "8", "8", "8", "8", "0", "0"],
+    holidayCalendarId: NO_CALENDAR,
+    effectiveFrom: format(new Date(), "yyyy-MM-dd"),
+  };
+}
+
+function WorkingHoursCard({ calendars }: { calendars: CalendarWithHolidays[] }) {
+  const { toast } = useToast();
+  const [userId, setUserId] = useState<string>("");
+  const [form, setForm] = useState<ProfileFormState>(defaultProfileForm);
+
+  const { data: users = [] } = useQuery<User[]>({ queryKey: ["/api/users"] });
+  const { data: profiles = [], isLoading } = useQuery<UserCapacityProfile[]>({
+    queryKey: queryKeys.capacity.profiles(userId),
+    enabled: !!userId,
+  });
+
+  // Start the form from the latest profile so edits only change what the admin touches
+  useEffect(() => {
+    const latest = profiles[profiles.length - 1];
+    setForm(latest ? {
+      timezone: latest.timezone,
+      hours: latest.weekdayMinutes.map((minutes) => String(minutesToHours(minutes))),
+      holidayCalendarId: latest.holidayCalendarId ?? NO_CALENDAR,
+      effectiveFrom: format(new Date(), "yyyy-MM-dd"),
+    } : defaultProfileForm());
+  }, [profiles]);
+
+  const onError = (title: string) => (err: unknown) => {
+    toast({ title, description: formatErrorForToast(err).description, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/capacity/profiles/${userId}`, {
+        timezone: form.timezone.trim(),
+        weekdayMinutes: form.hours.map((h) => Math.round((Number(h) || 0) * 60)),
+        holidayCalendarId: form.holidayCalendarId === NO_CALENDAR ? null : form.holidayCalendarId,
+        effectiveFrom: form.effectiveFrom,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateCapacity();
+      toast({ title: "Working hours saved" });
+    },
+    onError: onError("Failed to save working hours"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/capacity/profiles/${id}`);
+    },
+    onSuccess: () => invalidateCapacity(),
+    onError: onError("Failed to delete working hours"),
+  });
+
+  const calendarName = (id: string | null) =>
+    calendars.find((calendar) => calendar.id === id)?.name ?? "Default calendar";
+  const weeklyHours = form.hours.reduce((sum, h) => sum + (Number(h) || 0), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5 text-primary" />
+          Working Hours
+        </CardTitle>
+        <CardDescription>
+          Hours per weekday drive capacity in timesheets, workload reports, forecasts and alerts.
+          People without working hours are assumed to work 8 hours Monday to Friday.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="max-w-sm">
+          <Label>Person</Label>
+          <Select value={userId} onValueChange={setUserId}>
+            <SelectTrigger data-testid="select-capacity-user">
+              <SelectValue placeholder="Choose a person" />
+            </SelectTrigger>
+            <SelectContent>
+              {users.map((user) => (
+                <SelectItem key={user.id} value={user.id}>{userLabel(user)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {userId && (isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {profiles.length > 0 && (
+              <div className="space-y-1">
+                {profiles.map((profile) => (
+                  <div key={profile.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm" data-testid={`capacity-profile-${profile.id}`}>
+                    <span>
+                      From {profile.effectiveFrom}{profile.effectiveTo ? ` to ${profile.effectiveTo}` : ""}
+                      <span className="text-muted-foreground">
+                        {" · "}{minutesToHours(profile.weekdayMinutes.reduce((sum, m) => sum + m, 0))}h / week
+                        {" · "}{profile.timezone}
+                        {" · "}{calendarName(profile.holidayCalendarId)}
+                      </span>
+                    </span>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      onClick={() => deleteMutation.mutate(profile.id)}
+                      data-testid={`button-delete-capacity-profile-${profile.id}`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-7 gap-2">
+              {WEEKDAY_LABELS.map((label, index) => (
+                <div key={label}>
+                  <Label className="text-xs">{label}</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={24}
+                    step={0.5}
+                    value={form.hours[index]}
+                    onChange={(e) => setForm({ ...form, hours: form.hours.map((h, i) => (i === index ? e.target.value : h)) })}
+                    data-testid={`input-capacity-hours-${index}`}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="grid gap-3 sm:grid-cols-3">
+              <div>
+                <Label htmlFor="capacity-timezone">Timezone</Label>
+                <Input
+                  id="capacity-timezone"
+                  value={form.timezone}
+                  onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+                  placeholder="Europe/London"
+                  data-testid="input-capacity-timezone"
+                />
+              </div>
+              <div>
+                <Label>Holiday calendar</Label>
+                <Select value={form.holidayCalendarId} onValueChange={(holidayCalendarId) => setForm({ ...form, holidayCalendarId })}>
+                  <SelectTrigger data-testid="select-capacity-calendar">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CALENDAR}>Tenant default</SelectItem>
+                    {calendars.map((calendar) => (
+                      <SelectItem key={calendar.id} value={calendar.id}>{calendar.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="capacity-effective-from">Effective from</Label>
+                <Input
+                  id="capacity-effective-from"
+                  type="date"
+                  value={form.effectiveFrom}
+                  onChange={(e) => setForm({ ...form, effectiveFrom: e.target.value })}
+                  data-testid="input-capacity-effective-from"
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">{weeklyHours}h per week</span>
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={!form.effectiveFrom || !form.timezone.trim() || saveMutation.isPending}
+                data-testid="button-save-capacity-profile"
+              >
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                Save Working Hours
+              </Button>
+            </div>
+          </>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function CapacityTab() {
+  const { data: calendars = [], isLoading } = useQuery<CalendarWithHolidays[]>({
+    queryKey: queryKeys.capacity.holidayCalendars,
+  });
+
+  return (
+    <div className="space-y-6">
+      <WorkingHoursCard calendars={calendars} />
+      <HolidayCalendarsCard calendars={calendars} isLoading={isLoading} />
+    </div>
+  );
+}
@@ -0,0 +1,500 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Plus, Pencil, Trash2, SlidersHorizontal, ArrowUp, ArrowDown } from "lucide-react";
+import {
+  CustomFieldEntityType,
+  CustomFieldType,
+  type CustomFieldDefinition,
+  type CustomFieldEntityTypeValue,
+  type CustomFieldTypeValue,
+} from "@shared/schema";
+
+const ENTITY_OPTIONS: { value: CustomFieldEntityTypeValue; label: string }[] = [
+  { value: CustomFieldEntityType.TASK, label: "Tasks" },
+  { value: CustomFieldEntityType.PROJECT, label: "Projects" },
+  { value: CustomFieldEntityType.CLIENT, label: "Clients" },
+];
+
+const FIELD_TYPE_LABELS: Record<CustomFieldTypeValue, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  select: "Single select",
+  multi_select: "Multi select",
+  user: "User",
+  url: "URL",
+  currency: "Currency",
+};
+
+const SELECT_TYPES: string[] = [CustomFieldType.SELECT, CustomFieldType.MULTI_SELECT];
+
+interface FieldFormState {
+  label: string;
+  key: string;
+  fieldType: CustomFieldTypeValue;
+  description: string;
+  options: string;
+  currencyCode: string;
+  isRequired: boolean;
+}
+
+const defaultFormState: FieldFormState = {
+  label: "",
+  key: "",
+  fieldType: CustomFieldType.TEXT,
+  description: "",
+  options: "",
+  currencyCode: "USD",
+  isRequired: false,
+};
+
+function toFieldKey(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^[^a-z]+|_+$/g, "")
+    .slice(0, 50);
+}
+
+function parseOptions(text: string): string[] {
+  return text.split("\n").map((o) => o.trim()).filter(Boolean);
+}
+
+export function CustomFieldsTab() {
+  const { toast } = useToast();
+  const [entityType, setEntityType] = useState<CustomFieldEntityTypeValue>(CustomFieldEntityType.TASK);
+  const [sheetOpen, setSheetOpen] = useState(false);
+  const [editingField, setEditingField] = useState<CustomFieldDefinition | null>(null);
+  const [formState, setFormState] = useState<FieldFormState>(defaultFormState);
+  const [keyTouched, setKeyTouched] = useState(false);
+  const [deleteField, setDeleteField] = useState<CustomFieldDefinition | null>(null);
+
+  const fieldsKey = queryKeys.customFields.definitions(entityType);
+  const fieldsQuery = useQuery<CustomFieldDefinition[]>({ queryKey: fieldsKey });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.customFields.all });
+    queryClient.invalidateQueries({ queryKey: ["/api/custom-fields/values"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: Record<string, unknown>) => {
+      const res = await apiRequest("POST", "/api/custom-fields", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Field created", description: "The custom field is now available." });
+      closeSheet();
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to create field", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Record<string, unknown> }) => {
+      const res = await apiRequest("PATCH", `/api/custom-fields/${id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to update field", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/custom-fields/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Field deleted", description: "The field and its values have been removed." });
+      setDeleteField(null);
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to delete field", description: err.message, variant: "destructive" });
+    },
+  });
+
+  function openCreateSheet() {
+    setEditingField(null);
+    setFormState(defaultFormState);
+    setKeyTouched(false);
+    setSheetOpen(true);
+  }
+
+  function openEditSheet(field: CustomFieldDefinition) {
+    setEditingField(field);
+    setFormState({
+      label: field.label,
+      key: field.key,
+      fieldType: field.fieldType as CustomFieldTypeValue,
+      description: field.description ?? "",
+      options: field.options.join("\n"),
+      currencyCode: field.currencyCode ?? "USD",
+      isRequired: field.isRequired,
+    });
+    setKeyTouched(true);
+    setSheetOpen(true);
+  }
+
+  function closeSheet() {
+    setSheetOpen(false);
+    setEditingField(null);
+    setFormState(defaultFormState);
+  }
+
+  function handleSubmit() {
+    if (!formState.label.trim()) {
+      toast({ title: "Label required", description: "Enter a label for the field.", variant: "destructive" });
+      return;
+    }
+    const isSelect = SELECT_TYPES.includes(formState.fieldType);
+    const options = parseOptions(formState.options);
+    if (isSelect && options.length === 0) {
+      toast({ title: "Options required", description: "Add at least one option, one per line.", variant: "destructive" });
+      return;
+    }
+
+    const shared = {
+      label: formState.label.trim(),
+      description: formState.description.trim() || null,
+      isRequired: formState.isRequired,
+      ...(isSelect ? { options } : {}),
+      ...(formState.fieldType === CustomFieldType.CURRENCY ? { currencyCode: formState.currencyCode } : {}),
+    };
+
+    if (editingField) {
+      updateMutation.mutate(
+        { id: editingField.id, data: shared },
+        {
+          onSuccess: () => {
+            toast({ title: "Field updated", description: "The custom field has been updated." });
+            closeSheet();
+          },
+        },
+      );
+    } else {
+      createMutation.mutate({
+        ...shared,
+        entityType,
+        key: formState.key || toFieldKey(formState.label),
+        fieldType: formState.fieldType,
+      });
+    }
+  }
+
+  function moveField(index: number, direction: -1 | 1) {
+    const target = fields[index + direction];
+    const field = fields[index];
+    if (!target || !field) return;
+    updateMutation.mutate({ id: field.id, data: { orderIndex: index + direction } });
+    updateMutation.mutate({ id: target.id, data: { orderIndex: index } });
+  }
+
+  const isSubmitting = createMutation.isPending || updateMutation.isPending;
+  const fields = fieldsQuery.data || [];
+  const isSelect = SELECT_TYPES.includes(formState.fieldType);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <SlidersHorizontal className="h-5 w-5 text-primary" />
+              Custom Fields
+            </CardTitle>
+            <CardDescription>
+              Track your own metadata on tasks, projects and clients. Fields appear in detail drawers, list filters, search and CSV import/export.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={entityType} onValueChange={(v) => setEntityType(v as CustomFieldEntityTypeValue)}>
+              <SelectTrigger className="w-32" data-testid="select-custom-field-entity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ENTITY_OPTIONS.map((opt) => (
+                  <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={openCreateSheet} data-testid="button-create-custom-field">
+              <Plus className="h-4 w-4 mr-1" />
+              New Field
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {fieldsQuery.isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : fields.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <SlidersHorizontal className="h-10 w-10 mx-auto mb-3 opacity-40" />
+              <p className="text-sm">No custom fields defined for {entityType}s yet.</p>
+              <p className="text-xs mt-1">Add fields such as a campaign ID, contract value or deliverable type.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {fields.map((field, index) => (
+                <div
+                  key={field.id}
+                  className="flex items-center justify-between gap-3 p-3 rounded-md border"
+                  data-testid={`custom-field-row-${field.key}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium text-sm truncate">{field.label}</span>
+                      <Badge variant="outline" className="text-xs shrink-0">
+                        {FIELD_TYPE_LABELS[field.fieldType as CustomFieldTypeValue] || field.fieldType}
+                      </Badge>
+                      {field.isRequired && (
+                        <Badge variant="secondary" className="text-[10px] py-0 h-4">Required</Badge>
+                      )}
+                    </div>
+                    <div className="mt-1 text-xs text-muted-foreground truncate">
+                      <code>{field.key}</code>
+                      {field.options.length > 0 && <span> · {field.options.join(", ")}</span>}
+                      {field.currencyCode && <span> · {field.currencyCode}</span>}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      disabled={index === 0 || updateMutation.isPending}
+                      onClick={() => moveField(index, -1)}
+                      data-testid={`button-move-up-${field.key}`}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      disabled={index === fields.length - 1 || updateMutation.isPending}
+                      onClick={() => moveField(index, 1)}
+                      data-testid={`button-move-down-${field.key}`}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => openEditSheet(field)}
+                      data-testid={`button-edit-custom-field-${field.key}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setDeleteField(field)}
+                      data-testid={`button-delete-custom-field-${field.key}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Sheet open={sheetOpen} onOpenChange={setSheetOpen}>
+        <SheetContent className="sm:max-w-lg overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>{editingField ? "Edit Custom Field" : "Create Custom Field"}</SheetTitle>
+            <SheetDescription>
+              {editingField
+                ? "The key and type are fixed once a field is created."
+                : `Add a field to every ${entityType} in this workspace.`}
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="space-y-5 mt-6">
+            <div>
+              <Label htmlFor="custom-field-label">Label</Label>
+              <Input
+                id="custom-field-label"
+                value={formState.label}
+                onChange={(e) =>
+                  setFormState({
+                    ...formState,
+                    label: e.target.value,
+                    key: keyTouched ? formState.key : toFieldKey(e.target.value),
+                  })
+                }
+                placeholder="e.g. Campaign ID"
+                data-testid="input-custom-field-label"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="custom-field-key">Key</Label>
+              <Input
+                id="custom-field-key"
+                value={formState.key}
+                disabled={!!editingField}
+                onChange={(e) => {
+                  setKeyTouched(true);
+                  setFormState({ ...formState, key: e.target.value });
+                }}
+                placeholder="campaign_id"
+                data-testid="input-custom-field-key"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Used for filters and as the <code>custom.{formState.key || "key"}</code> CSV column.
+              </p>
+            </div>
+
+            <div>
+              <Label>Type</Label>
+              <Select
+                value={formState.fieldType}
+                disabled={!!editingField}
+                onValueChange={(v) => setFormState({ ...formState, fieldType: v as CustomFieldTypeValue })}
+              >
+                <SelectTrigger data-testid="select-custom-field-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FIELD_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isSelect && (
+              <div>
+                <Label htmlFor="custom-field-options">Options</Label>
+                <Textarea
+                  id="custom-field-options"
+                  value={formState.options}
+                  onChange={(e) => setFormState({ ...formState, options: e.target.value })}
+                  placeholder={"One option per line"}
+                  rows={5}
+                  data-testid="input-custom-field-options"
+                />
+              </div>
+            )}
+
+            {formState.fieldType === CustomFieldType.CURRENCY && (
+              <div>
+                <Label htmlFor="custom-field-currency">Currency Code</Label>
+                <Input
+                  id="custom-field-currency"
+                  value={formState.currencyCode}
+                  maxLength={3}
+                  onChange={(e) => setFormState({ ...formState, currencyCode: e.target.value.toUpperCase() })}
+                  placeholder="USD"
+                  data-testid="input-custom-field-currency"
+                />
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="custom-field-description">Help Text (optional)</Label>
+              <Input
+                id="custom-field-description"
+                value={formState.description}
+                onChange={(e) => setFormState({ ...formState, description: e.target.value })}
+                data-testid="input-custom-field-description"
+              />
+            </div>
+
+            <div className="flex items-center justify-between pt-2 border-t">
+              <div>
+                <p className="text-sm">Required</p>
+                <p className="text-xs text-muted-foreground">Values cannot be cleared and imports must supply one</p>
+              </div>
+              <Switch
+                checked={formState.isRequired}
+                onCheckedChange={(v) => setFormState({ ...formState, isRequired: v })}
+                data-testid="switch-custom-field-required"
+              />
+            </div>
+
+            <div className="flex gap-2 pt-4">
+              <Button
+                className="flex-1"
+                onClick={handleSubmit}
+                disabled={isSubmitting}
+                data-testid="button-submit-custom-field"
+              >
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                {editingField ? "Save Changes" : "Create Field"}
+              </Button>
+              <Button variant="outline" onClick={closeSheet} data-testid="button-cancel-custom-field">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <AlertDialog open={!!deleteField} onOpenChange={() => setDeleteField(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Custom Field</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes "{deleteField?.label}" and every value stored for it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete-custom-field">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteField && deleteMutation.mutate(deleteField.id)}
+              className="bg-destructive text-destructive-foreground"
+              data-testid="button-confirm-delete-custom-field"
+            >
+              {deleteMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ interface EmailLog {
   subject: string;
   status: string;
   providerMessageId: string | null;
+  transport: string | null;
   lastError: string | null;
   requestId: string | null;
   resendCount: number | null;
@@ -52,6 +53,7 @@ const MESSAGE_TYPE_LABELS: Record<string, string> = {
   mention_notification: "Mention",
   forgot_password: "Password Reset",
   test_email: "Test Email",
+  support_reply: "Support Reply",
   other: "Other",
 };
 
@@ -174,6 +176,7 @@ export function EmailLogsTab() {
                 <SelectItem value="mention_notification">Mention</SelectItem>
                 <SelectItem value="forgot_password">Password Reset</SelectItem>
                 <SelectItem value="test_email">Test Email</SelectItem>
+                <SelectItem value="support_reply">Support Reply</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -214,6 +217,9 @@ export function EmailLogsTab() {
                           </TableCell>
                           <TableCell>
                             <span className="text-sm">{MESSAGE_TYPE_LABELS[email.messageType] || email.messageType}</span>
+                            {email.transport && (
+                              <span className="text-xs text-muted-foreground block">via {email.transport}</span>
+                            )}
                           </TableCell>
                           <TableCell>
                             <span className="text-sm">{email.toEmail}</span>
@@ -0,0 +1,526 @@
+import { useState, useEffect, type ReactNode } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Save, Send, TestTube, Eye, EyeOff, Mail } from "lucide-react";
+
+// The development log and file drivers are only available in system settings
+type EmailDriver = "mailgun" | "smtp" | "ses" | "postmark";
+
+const DRIVER_OPTIONS: Array<{ value: EmailDriver; label: string; description: string }> = [
+  { value: "smtp", label: "SMTP", description: "Any SMTP relay, such as Microsoft 365, Google Workspace or your own server" },
+  { value: "ses", label: "Amazon SES", description: "Amazon SES v2 API, or an SES-compatible endpoint" },
+  { value: "postmark", label: "Postmark", description: "Postmark API, or a Postmark-compatible endpoint" },
+  { value: "mailgun", label: "Mailgun", description: "Mailgun HTTP API" },
+];
+
+interface EmailIntegration {
+  status: "not_configured" | "configured" | "error";
+  publicConfig: Record<string, any> | null;
+  secretConfigured: boolean;
+  lastTestedAt: string | null;
+  secretMasked?: {
+    apiKeyMasked?: string | null;
+    passwordMasked?: string | null;
+    accessKeyIdMasked?: string | null;
+    secretAccessKeyMasked?: string | null;
+  };
+}
+
+interface EmailTransportCardProps {
+  integration: EmailIntegration | undefined;
+  statusBadge: ReactNode;
+}
+
+const EMPTY_FORM = {
+  driver: "smtp" as EmailDriver,
+  fromEmail: "",
+  replyTo: "",
+  mailgunDomain: "",
+  mailgunRegion: "US" as "US" | "EU",
+  smtpHost: "",
+  smtpPort: "",
+  smtpSecure: false,
+  smtpUsername: "",
+  sesRegion: "",
+  sesEndpoint: "",
+  sesConfigurationSet: "",
+  postmarkServerUrl: "",
+  postmarkMessageStream: "",
+  mailgunApiKey: "",
+  smtpPassword: "",
+  sesAccessKeyId: "",
+  sesSecretAccessKey: "",
+  postmarkServerToken: "",
+};
+
+type EmailForm = typeof EMPTY_FORM;
+
+const SECRET_FIELDS = ["mailgunApiKey", "smtpPassword", "sesAccessKeyId", "sesSecretAccessKey", "postmarkServerToken"] as const;
+
+function toPayload(form: EmailForm): Record<string, unknown> {
+  const payload: Record<string, unknown> = {
+    driver: form.driver,
+    fromEmail: form.fromEmail,
+    replyTo: form.replyTo || null,
+  };
+  switch (form.driver) {
+    case "mailgun":
+      Object.assign(payload, { mailgunDomain: form.mailgunDomain, mailgunRegion: form.mailgunRegion });
+      break;
+    case "smtp":
+      Object.assign(payload, {
+        smtpHost: form.smtpHost,
+        smtpPort: form.smtpPort ? Number(form.smtpPort) : undefined,
+        smtpSecure: form.smtpSecure,
+        smtpUsername: form.smtpUsername || undefined,
+      });
+      break;
+    case "ses":
+      Object.assign(payload, {
+        sesRegion: form.sesRegion,
+        sesEndpoint: form.sesEndpoint,
+        sesConfigurationSet: form.sesConfigurationSet || undefined,
+      });
+      break;
+    case "postmark":
+      Object.assign(payload, {
+        postmarkServerUrl: form.postmarkServerUrl,
+        postmarkMessageStream: form.postmarkMessageStream || undefined,
+      });
+      break;
+  }
+  // Blank secrets keep the stored value
+  for (const field of SECRET_FIELDS) {
+    if (form[field].trim()) payload[field] = form[field];
+  }
+  return payload;
+}
+
+export function EmailTransportCard({ integration, statusBadge }: EmailTransportCardProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<EmailForm>(EMPTY_FORM);
+  const [showSecrets, setShowSecrets] = useState(false);
+  const [showTestEmailDialog, setShowTestEmailDialog] = useState(false);
+  const [testEmailAddress, setTestEmailAddress] = useState("");
+
+  useEffect(() => {
+    const config = integration?.publicConfig;
+    if (!config) return;
+    setForm((prev) => ({
+      ...prev,
+      driver: DRIVER_OPTIONS.some((o) => o.value === config.driver) ? config.driver : prev.driver,
+      fromEmail: config.fromEmail || "",
+      replyTo: config.replyTo || "",
+      mailgunDomain: config.mailgunDomain || "",
+      mailgunRegion: config.mailgunRegion || "US",
+      smtpHost: config.smtpHost || "",
+      smtpPort: config.smtpPort ? String(config.smtpPort) : "",
+      smtpSecure: !!config.smtpSecure,
+      smtpUsername: config.smtpUsername || "",
+      sesRegion: config.sesRegion || "",
+      sesEndpoint: config.sesEndpoint || "",
+      sesConfigurationSet: config.sesConfigurationSet || "",
+      postmarkServerUrl: config.postmarkServerUrl || "",
+      postmarkMessageStream: config.postmarkMessageStream || "",
+    }));
+  }, [integration]);
+
+  const set = <K extends keyof EmailForm>(key: K, value: EmailForm[K]) => setForm((prev) => ({ ...prev, [key]: value }));
+  const masked = integration?.secretMasked;
+  const isConfigured = integration?.status === "configured";
+  const secretPlaceholder = (mask: string | null | undefined) => (mask ? `${mask} — enter a new value to replace` : "");
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: EmailForm) => apiRequest("PUT", "/api/v1/tenant/integrations/email", toPayload(data)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/tenant/integrations"] });
+      setForm((prev) => ({
+        ...prev,
+        mailgunApiKey: "",
+        smtpPassword: "",
+        sesAccessKeyId: "",
+        sesSecretAccessKey: "",
+        postmarkServerToken: "",
+      }));
+      toast({ title: "Email settings saved successfully" });
+    },
+    onError: (err: any) => {
+      toast({ title: err?.message || "Failed to save email settings", variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/v1/tenant/integrations/email/test", {});
+      return res.json();
+    },
+    onSuccess: (response: { success: boolean; message?: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/tenant/integrations"] });
+      if (response.success) {
+        toast({ title: "Email connection test successful" });
+      } else {
+        toast({ title: response.message || "Email connection test failed", variant: "destructive" });
+      }
+    },
+    onError: () => {
+      toast({ title: "Failed to test email connection", variant: "destructive" });
+    },
+  });
+
+  const sendTestEmailMutation = useMutation({
+    mutationFn: async (toEmail: string) => {
+      return apiRequest("POST", "/api/v1/tenant/integrations/email/send-test-email", { toEmail });
+    },
+    onSuccess: () => {
+      setShowTestEmailDialog(false);
+      setTestEmailAddress("");
+      toast({ title: "Test email sent successfully", description: "Check the Email Logs tab for its delivery status." });
+    },
+    onError: (err: any) => {
+      const errorMessage = err?.data?.error?.message || err?.message || "Unknown error";
+      toast({ title: "Failed to send test email", description: errorMessage, variant: "destructive" });
+    },
+  });
+
+  const secretInput = (id: keyof EmailForm & typeof SECRET_FIELDS[number], label: string, mask?: string | null) => (
+    <div className="space-y-2">
+      <Label htmlFor={`email-${id}`}>{label}</Label>
+      <Input
+        id={`email-${id}`}
+        type={showSecrets ? "text" : "password"}
+        placeholder={secretPlaceholder(mask)}
+        value={form[id]}
+        onChange={(e) => set(id, e.target.value)}
+        data-testid={`input-email-${id}`}
+      />
+    </div>
+  );
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2 flex-wrap">
+            <div className="flex items-center gap-2">
+              <Mail className="h-5 w-5 text-primary" />
+              <CardTitle className="text-lg">Email Delivery</CardTitle>
+            </div>
+            {statusBadge}
+          </div>
+          <CardDescription>
+            Choose how outgoing email is delivered. When configured, this takes precedence over the Mailgun integration.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="email-driver">Provider</Label>
+            <Select value={form.driver} onValueChange={(value) => set("driver", value as EmailDriver)}>
+              <SelectTrigger id="email-driver" data-testid="select-email-driver">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DRIVER_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {DRIVER_OPTIONS.find((option) => option.value === form.driver)?.description}
+            </p>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="email-fromEmail">From Email</Label>
+              <Input
+                id="email-fromEmail"
+                placeholder="Acme <noreply@acme.com>"
+                value={form.fromEmail}
+                onChange={(e) => set("fromEmail", e.target.value)}
+                data-testid="input-email-from-email"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="email-replyTo">Reply-To Email (Optional)</Label>
+              <Input
+                id="email-replyTo"
+                type="email"
+                placeholder="support@acme.com"
+                value={form.replyTo}
+                onChange={(e) => set("replyTo", e.target.value)}
+                data-testid="input-email-reply-to"
+              />
+            </div>
+          </div>
+
+          {form.driver === "smtp" && (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="email-smtpHost">SMTP Host</Label>
+                <Input
+                  id="email-smtpHost"
+                  placeholder="smtp.example.com"
+                  value={form.smtpHost}
+                  onChange={(e) => set("smtpHost", e.target.value)}
+                  data-testid="input-email-smtp-host"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="email-smtpPort">Port</Label>
+                <Input
+                  id="email-smtpPort"
+                  type="number"
+                  placeholder={form.smtpSecure ? "465" : "587"}
+                  value={form.smtpPort}
+                  onChange={(e) => set("smtpPort", e.target.value)}
+                  data-testid="input-email-smtp-port"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="email-smtpUsername">Username (Optional)</Label>
+                <Input
+                  id="email-smtpUsername"
+                  value={form.smtpUsername}
+                  onChange={(e) => set("smtpUsername", e.target.value)}
+                  data-testid="input-email-smtp-username"
+                />
+              </div>
+              {secretInput("smtpPassword", "Password", masked?.passwordMasked)}
+              <div className="flex items-center gap-2 sm:col-span-2">
+                <Switch
+                  id="email-smtpSecure"
+                  checked={form.smtpSecure}
+                  onCheckedChange={(checked) => set("smtpSecure", checked)}
+                  data-testid="switch-email-smtp-secure"
+                />
+                <Label htmlFor="email-smtpSecure">Use implicit TLS (otherwise STARTTLS when offered)</Label>
+              </div>
+            </div>
+          )}
+
+          {form.driver === "ses" && (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="email-sesRegion">Region</Label>
+                <Input
+                  id="email-sesRegion"
+                  placeholder="us-east-1"
+                  value={form.sesRegion}
+                  onChange={(e) => set("sesRegion", e.target.value)}
+                  data-testid="input-email-ses-region"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="email-sesConfigurationSet">Configuration Set (Optional)</Label>
+                <Input
+                  id="email-sesConfigurationSet"
+                  value={form.sesConfigurationSet}
+                  onChange={(e) => set("sesConfigurationSet", e.target.value)}
+                  data-testid="input-email-ses-configuration-set"
+                />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="email-sesEndpoint">Custom Endpoint (Optional)</Label>
+                <Input
+                  id="email-sesEndpoint"
+                  placeholder="https://email.us-east-1.amazonaws.com"
+                  value={form.sesEndpoint}
+                  onChange={(e) => set("sesEndpoint", e.target.value)}
+                  data-testid="input-email-ses-endpoint"
+                />
+              </div>
+              {secretInput("sesAccessKeyId", "Access Key ID", masked?.accessKeyIdMasked)}
+              {secretInput("sesSecretAccessKey", "Secret Access Key", masked?.secretAccessKeyMasked)}
+              <p className="text-xs text-muted-foreground sm:col-span-2">
+                Leave the keys empty to use the server's AWS credentials.
+              </p>
+            </div>
+          )}
+
+          {form.driver === "postmark" && (
+            <div className="grid gap-4 sm:grid-cols-2">
+              {secretInput("postmarkServerToken", "Server Token", masked?.apiKeyMasked)}
+              <div className="space-y-2">
+                <Label htmlFor="email-postmarkMessageStream">Message Stream (Optional)</Label>
+                <Input
+                  id="email-postmarkMessageStream"
+                  placeholder="outbound"
+                  value={form.postmarkMessageStream}
+                  onChange={(e) => set("postmarkMessageStream", e.target.value)}
+                  data-testid="input-email-postmark-stream"
+                />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="email-postmarkServerUrl">API URL (Optional)</Label>
+                <Input
+                  id="email-postmarkServerUrl"
+                  placeholder="https://api.postmarkapp.com"
+                  value={form.postmarkServerUrl}
+                  onChange={(e) => set("postmarkServerUrl", e.target.value)}
+                  data-testid="input-email-postmark-url"
+                />
+              </div>
+            </div>
+          )}
+
+          {form.driver === "mailgun" && (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="email-mailgunDomain">Domain</Label>
+                <Input
+                  id="email-mailgunDomain"
+                  placeholder="mg.acme.com"
+                  value={form.mailgunDomain}
+                  onChange={(e) => set("mailgunDomain", e.target.value)}
+                  data-testid="input-email-mailgun-domain"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="email-mailgunRegion">Region</Label>
+                <Select value={form.mailgunRegion} onValueChange={(value) => set("mailgunRegion", value as "US" | "EU")}>
+                  <SelectTrigger id="email-mailgunRegion" data-testid="select-email-mailgun-region">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="US">US</SelectItem>
+                    <SelectItem value="EU">EU</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {secretInput("mailgunApiKey", "API Key", masked?.apiKeyMasked)}
+            </div>
+          )}
+
+          {["smtp", "ses", "postmark", "mailgun"].includes(form.driver) && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowSecrets(!showSecrets)}
+              data-testid="button-toggle-email-secrets"
+            >
+              {showSecrets ? <EyeOff className="h-4 w-4 mr-2" /> : <Eye className="h-4 w-4 mr-2" />}
+              {showSecrets ? "Hide credentials" : "Show credentials"}
+            </Button>
+          )}
+
+          {integration?.lastTestedAt && (
+            <p className="text-xs text-muted-foreground">
+              Last tested: {new Date(integration.lastTestedAt).toLocaleString()}
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2 flex-wrap">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => testMutation.mutate()}
+              disabled={testMutation.isPending || !isConfigured}
+              data-testid="button-test-email"
+            >
+              {testMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <>
+                  <TestTube className="h-4 w-4 mr-2" />
+                  Test Connection
+                </>
+              )}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setShowTestEmailDialog(true)}
+              disabled={!isConfigured}
+              data-testid="button-email-send-test-email"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              Send Test Email
+            </Button>
+            <Button
+              type="button"
+              onClick={() => saveMutation.mutate(form)}
+              disabled={saveMutation.isPending || !form.fromEmail}
+              data-testid="button-save-email"
+            >
+              {saveMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Email Settings
+                </>
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={showTestEmailDialog} onOpenChange={setShowTestEmailDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Send Test Email</DialogTitle>
+            <DialogDescription>
+              Send a test email through the configured provider. It is queued and retried like any other email.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="email-test-address">Recipient Email Address</Label>
+              <Input
+                id="email-test-address"
+                type="email"
+                placeholder="you@example.com"
+                value={testEmailAddress}
+                onChange={(e) => setTestEmailAddress(e.target.value)}
+                data-testid="input-email-test-address"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setShowTestEmailDialog(false);
+                setTestEmailAddress("");
+              }}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => sendTestEmailMutation.mutate(testEmailAddress)}
+              disabled={sendTestEmailMutation.isPending || !testEmailAddress.includes("@")}
+              data-testid="button-email-confirm-send-test-email"
+            >
+              {sendTestEmailMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <>
+                  <Send className="h-4 w-4 mr-2" />
+                  Send Email
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
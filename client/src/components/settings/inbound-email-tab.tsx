@@ -0,0 +1,362 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Copy, Inbox, Loader2, Paperclip, RefreshCw } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { InboundEmailStatus, InboundQuarantineReason, type InboundEmail } from "@shared/schema";
+
+interface MailboxSettings {
+  domain: string | null;
+  mailboxKey: string;
+  enabled: boolean;
+  address: string | null;
+}
+
+type InboundEmailRow = Omit<InboundEmail, "receivedAt" | "reviewedAt"> & {
+  receivedAt: string;
+  reviewedAt: string | null;
+};
+
+interface ClientOption {
+  id: string;
+  companyName: string;
+}
+
+const ALL = "all";
+
+const STATUS_VARIANTS: Record<string, "secondary" | "destructive" | "outline" | "default"> = {
+  [InboundEmailStatus.PROCESSED]: "secondary",
+  [InboundEmailStatus.QUARANTINED]: "default",
+  [InboundEmailStatus.DISCARDED]: "outline",
+  [InboundEmailStatus.IGNORED]: "outline",
+  [InboundEmailStatus.FAILED]: "destructive",
+};
+
+const QUARANTINE_LABELS: Record<string, string> = {
+  [InboundQuarantineReason.UNKNOWN_SENDER]: "Unknown sender",
+  [InboundQuarantineReason.AMBIGUOUS_SENDER]: "Sender belongs to several clients",
+  [InboundQuarantineReason.INTERNAL_SENDER]: "Sent by a team member",
+  [InboundQuarantineReason.NOT_PERMITTED]: "Sender may not reply here",
+  [InboundQuarantineReason.TARGET_CLOSED]: "Conversation is closed",
+};
+
+/** Tenant admin settings for the inbound mailbox and review of quarantined mail. */
+export function InboundEmailTab() {
+  const { toast } = useToast();
+  const [mailboxKey, setMailboxKey] = useState("");
+  const [statusFilter, setStatusFilter] = useState<string>(InboundEmailStatus.QUARANTINED);
+  const [releaseTarget, setReleaseTarget] = useState<InboundEmailRow | null>(null);
+  const [releaseClientId, setReleaseClientId] = useState("");
+  const [addContact, setAddContact] = useState(true);
+
+  const { data: settings, isLoading } = useQuery<MailboxSettings>({
+    queryKey: queryKeys.inboundEmail.settings,
+  });
+
+  const { data: messages, isLoading: messagesLoading, refetch: refetchMessages } = useQuery<{ emails: InboundEmailRow[]; total: number }>({
+    queryKey: queryKeys.inboundEmail.messages(statusFilter === ALL ? undefined : statusFilter),
+  });
+
+  const { data: clients = [] } = useQuery<ClientOption[]>({
+    queryKey: ["/api/clients"],
+    enabled: !!releaseTarget,
+    select: (data: any) => {
+      if (Array.isArray(data)) return data;
+      if (data?.clients) return data.clients;
+      return [];
+    },
+  });
+
+  useEffect(() => {
+    if (settings) setMailboxKey(settings.mailboxKey);
+  }, [settings]);
+
+  const onError = (title: string) => (err: Error) => {
+    toast({ title, description: err.message, variant: "destructive" });
+  };
+
+  const settingsMutation = useMutation({
+    mutationFn: async (values: { enabled: boolean; mailboxKey: string }) => {
+      const res = await apiRequest("PUT", "/api/inbound-email/settings", values);
+      return res.json() as Promise<MailboxSettings>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKeys.inboundEmail.settings, data);
+      toast({ title: "Inbound email settings saved" });
+    },
+    onError: onError("Failed to save settings"),
+  });
+
+  const invalidateMessages = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/inbound-email/messages"] });
+  };
+
+  const releaseMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/inbound-email/messages/${releaseTarget!.id}/release`, {
+        clientId: releaseClientId,
+        addContact,
+      });
+    },
+    onSuccess: () => {
+      invalidateMessages();
+      setReleaseTarget(null);
+      toast({ title: "Ticket created from email" });
+    },
+    onError: onError("Failed to release email"),
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/inbound-email/messages/${id}/discard`);
+    },
+    onSuccess: invalidateMessages,
+    onError: onError("Failed to discard email"),
+  });
+
+  const openRelease = (email: InboundEmailRow) => {
+    setReleaseTarget(email);
+    setReleaseClientId("");
+    setAddContact(true);
+  };
+
+  const copyAddress = async () => {
+    if (!settings?.address) return;
+    await navigator.clipboard.writeText(settings.address);
+    toast({ title: "Address copied" });
+  };
+
+  if (isLoading || !settings) {
+    return (
+      <div className="flex justify-center py-10">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const keyChanged = mailboxKey.trim() !== settings.mailboxKey;
+
+  return (
+    <div className="space-y-6">
+      <Card data-testid="card-inbound-mailbox">
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Inbox className="h-5 w-5" />
+            Inbound Email
+          </CardTitle>
+          <CardDescription>
+            Mail sent to this address from a client contact or portal user opens a support ticket. Replies to
+            ticket, conversation and mention emails are added to the thread they came from. Mail from unknown
+            senders waits in quarantine below.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!settings.domain ? (
+            <p className="text-sm text-muted-foreground">
+              Inbound email is not set up on this server. Ask your platform administrator to configure an inbound domain.
+            </p>
+          ) : (
+            <>
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <Label htmlFor="inbound-enabled">Accept inbound mail</Label>
+                  <p className="text-xs text-muted-foreground">When off, mail to the address is rejected.</p>
+                </div>
+                <Switch
+                  id="inbound-enabled"
+                  checked={settings.enabled}
+                  disabled={settingsMutation.isPending}
+                  onCheckedChange={(enabled) => settingsMutation.mutate({ enabled, mailboxKey: settings.mailboxKey })}
+                  data-testid="switch-inbound-enabled"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="inbound-mailbox-key">Address</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id="inbound-mailbox-key"
+                    value={mailboxKey}
+                    onChange={(e) => setMailboxKey(e.target.value.toLowerCase())}
+                    className="max-w-xs font-mono"
+                    data-testid="input-inbound-mailbox-key"
+                  />
+                  <span className="font-mono text-sm text-muted-foreground">@{settings.domain}</span>
+                  {keyChanged ? (
+                    <Button
+                      size="sm"
+                      onClick={() => settingsMutation.mutate({ enabled: settings.enabled, mailboxKey: mailboxKey.trim() })}
+                      disabled={settingsMutation.isPending || !mailboxKey.trim()}
+                      data-testid="button-save-inbound-mailbox"
+                    >
+                      Save
+                    </Button>
+                  ) : (
+                    <Button size="icon" variant="ghost" onClick={copyAddress} title="Copy address">
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Forward your support address here. Renaming it stops mail to the old address.
+                </p>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-inbound-messages">
+        <CardHeader className="flex flex-row items-start justify-between gap-3">
+          <div>
+            <CardTitle className="text-lg">Received Mail</CardTitle>
+            <CardDescription>
+              Release a quarantined message to file it as a ticket for a client, or discard it.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-40" data-testid="select-inbound-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                {Object.values(InboundEmailStatus).map((status) => (
+                  <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="icon" variant="ghost" onClick={() => refetchMessages()} title="Refresh">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {messagesLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : !messages || messages.emails.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No messages match.</p>
+          ) : (
+            <div className="divide-y rounded-md border">
+              {messages.emails.map((email) => (
+                <div key={email.id} className="flex items-start justify-between gap-3 px-3 py-2" data-testid={`inbound-email-${email.id}`}>
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={STATUS_VARIANTS[email.status] ?? "outline"} className="capitalize">{email.status}</Badge>
+                      <span className="text-sm font-medium truncate">{email.subject || "(no subject)"}</span>
+                      {email.attachments.length > 0 && (
+                        <span className="flex items-center text-xs text-muted-foreground">
+                          <Paperclip className="h-3 w-3 mr-0.5" />
+                          {email.attachments.length}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {format(new Date(email.receivedAt), "MMM d, HH:mm")}
+                      {" · "}
+                      {email.fromName ? `${email.fromName} <${email.fromEmail}>` : email.fromEmail}
+                      {email.quarantineReason && ` · ${QUARANTINE_LABELS[email.quarantineReason] ?? email.quarantineReason}`}
+                      {email.targetType && ` · filed to ${email.targetType.replace(/_/g, " ")}`}
+                    </div>
+                    {email.error && <div className="text-xs text-destructive truncate">{email.error}</div>}
+                    {email.status === InboundEmailStatus.QUARANTINED && email.bodyText && (
+                      <p className="text-xs text-muted-foreground line-clamp-2 whitespace-pre-line">{email.bodyText}</p>
+                    )}
+                  </div>
+                  {email.status === InboundEmailStatus.QUARANTINED && (
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button size="sm" variant="outline" onClick={() => openRelease(email)} data-testid={`button-release-inbound-${email.id}`}>
+                        Release
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => discardMutation.mutate(email.id)}
+                        disabled={discardMutation.isPending}
+                        data-testid={`button-discard-inbound-${email.id}`}
+                      >
+                        Discard
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!releaseTarget} onOpenChange={(open) => !open && setReleaseTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Release email</DialogTitle>
+            <DialogDescription>
+              Create a support ticket from “{releaseTarget?.subject || "(no subject)"}” for a client.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              <Label>Client</Label>
+              <Select value={releaseClientId} onValueChange={setReleaseClientId}>
+                <SelectTrigger data-testid="select-release-client">
+                  <SelectValue placeholder="Choose a client" />
+                </SelectTrigger>
+                <SelectContent>
+                  {clients.map((client) => (
+                    <SelectItem key={client.id} value={client.id}>{client.companyName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="release-add-contact"
+                checked={addContact}
+                onCheckedChange={(checked) => setAddContact(checked === true)}
+              />
+              <Label htmlFor="release-add-contact" className="font-normal">
+                Add {releaseTarget?.fromEmail} as a contact so future mail is filed automatically
+              </Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReleaseTarget(null)}>Cancel</Button>
+            <Button
+              onClick={() => releaseMutation.mutate()}
+              disabled={!releaseClientId || releaseMutation.isPending}
+              data-testid="button-confirm-release"
+            >
+              {releaseMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Create Ticket
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
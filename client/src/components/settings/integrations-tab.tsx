@@ -22,9 +22,12 @@ import {
 import { SiSlack, SiZapier, SiGooglecalendar, SiCloudflare, SiOpenai } from "react-icons/si";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { EmailTransportCard } from "./email-transport-card";
+import { AIProviderCard } from "./ai-provider-card";
 
 interface SecretMaskedInfo {
   apiKeyMasked?: string | null;
+  passwordMasked?: string | null;
   accessKeyIdMasked?: string | null;
   secretAccessKeyMasked?: string | null;
 }
@@ -78,9 +81,11 @@ export function IntegrationsTab() {
     queryKey: ["/api/v1/tenant/integrations"],
   });
 
+  const emailIntegration = data?.integrations?.find(i => i.provider === "email");
   const mailgunIntegration = data?.integrations?.find(i => i.provider === "mailgun");
   const r2Integration = data?.integrations?.find(i => i.provider === "r2");
   const openaiIntegration = data?.integrations?.find(i => i.provider === "openai");
+  const aiIntegration = data?.integrations?.find(i => i.provider === "ai");
 
   useEffect(() => {
     if (mailgunIntegration?.publicConfig) {
@@ -337,6 +342,11 @@ export function IntegrationsTab() {
 
   return (
     <div className="space-y-6">
+      <EmailTransportCard
+        integration={emailIntegration}
+        statusBadge={getStatusBadge(emailIntegration?.status || "not_configured")}
+      />
+
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between gap-2 flex-wrap">
@@ -655,6 +665,11 @@ export function IntegrationsTab() {
         </CardContent>
       </Card>
 
+      <AIProviderCard
+        integration={aiIntegration}
+        statusBadge={getStatusBadge(aiIntegration?.status || "not_configured")}
+      />
+
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between gap-2 flex-wrap">
@@ -0,0 +1,450 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Download, Loader2, Plus, RefreshCw, UserX } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DataSubjectRequestStatus,
+  DataSubjectRequestType,
+  type DataSubjectRequest,
+  type DataSubjectRequestEvent,
+  type DataSubjectRequestTypeValue,
+  type DataSubjectTypeValue,
+} from "@shared/schema";
+
+type RequestRow = Omit<DataSubjectRequest, "decidedAt" | "completedAt" | "createdAt" | "updatedAt"> & {
+  decidedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+};
+
+type EventRow = Pick<DataSubjectRequestEvent, "id" | "eventType" | "message" | "actorUserId"> & {
+  createdAt: string;
+  actorName: string | null;
+};
+
+type RequestDetail = RequestRow & { events: EventRow[] };
+
+interface SubjectCandidate {
+  subjectType: DataSubjectTypeValue;
+  id: string;
+  name: string;
+  email: string | null;
+  detail: string;
+}
+
+const STATUS_VARIANTS: Record<string, "secondary" | "destructive" | "outline" | "default"> = {
+  [DataSubjectRequestStatus.PENDING_APPROVAL]: "outline",
+  [DataSubjectRequestStatus.APPROVED]: "default",
+  [DataSubjectRequestStatus.PROCESSING]: "default",
+  [DataSubjectRequestStatus.COMPLETED]: "secondary",
+  [DataSubjectRequestStatus.REJECTED]: "outline",
+  [DataSubjectRequestStatus.FAILED]: "destructive",
+};
+
+const statusLabel = (status: string) => status.replace(/_/g, " ");
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Tenant admin workflow for data subject export and erasure requests. */
+export function PrivacyTab() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [type, setType] = useState<DataSubjectRequestTypeValue>(DataSubjectRequestType.EXPORT);
+  const [search, setSearch] = useState("");
+  const [subject, setSubject] = useState<SubjectCandidate | null>(null);
+  const [reason, setReason] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+
+  const { data: requests = [], isLoading, refetch } = useQuery<RequestRow[]>({
+    queryKey: queryKeys.privacy.requests,
+  });
+
+  const trimmedSearch = search.trim();
+  const { data: candidates = [], isFetching: searching } = useQuery<SubjectCandidate[]>({
+    queryKey: queryKeys.privacy.subjects(trimmedSearch),
+    enabled: createOpen && trimmedSearch.length >= 2,
+  });
+
+  const { data: selected } = useQuery<RequestDetail>({
+    queryKey: queryKeys.privacy.request(selectedId ?? ""),
+    enabled: !!selectedId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.privacy.requests });
+  };
+
+  const onError = (title: string) => (err: Error) => {
+    toast({ title, description: err.message, variant: "destructive" });
+  };
+
+  const resetCreate = () => {
+    setCreateOpen(false);
+    setType(DataSubjectRequestType.EXPORT);
+    setSearch("");
+    setSubject(null);
+    setReason("");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      if (!subject) return;
+      await apiRequest("POST", "/api/data-subject-requests", {
+        type,
+        subjectType: subject.subjectType,
+        subjectId: subject.id,
+        reason: reason.trim(),
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      resetCreate();
+      toast({ title: "Request created", description: "Another admin needs to approve it." });
+    },
+    onError: onError("Failed to create request"),
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: string; decision: "approve" | "reject" }) => {
+      await apiRequest("POST", `/api/data-subject-requests/${id}/${decision}`, { note: note.trim() || undefined });
+    },
+    onSuccess: (_data, { decision }) => {
+      invalidate();
+      setNote("");
+      toast({ title: decision === "approve" ? "Request approved" : "Request rejected" });
+    },
+    onError: onError("Failed to record decision"),
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("GET", `/api/data-subject-requests/${id}/download`);
+      return res.json() as Promise<{ url: string }>;
+    },
+    onSuccess: ({ url }) => {
+      window.open(url, "_blank", "noopener");
+      if (selectedId) queryClient.invalidateQueries({ queryKey: queryKeys.privacy.request(selectedId) });
+    },
+    onError: onError("Failed to download archive"),
+  });
+
+  const canDecide = (request: RequestRow) =>
+    request.status === DataSubjectRequestStatus.PENDING_APPROVAL &&
+    request.requestedByUserId !== user?.id;
+
+  return (
+    <div className="space-y-6">
+      <Card data-testid="card-data-subject-requests">
+        <CardHeader className="flex flex-row items-start justify-between gap-3">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <UserX className="h-5 w-5" />
+              Data Subject Requests
+            </CardTitle>
+            <CardDescription>
+              Export everything recorded about a person, or erase them by replacing their identity with a pseudonym.
+              Tasks, time and conversations are kept. A second admin must approve each request.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <Button size="icon" variant="ghost" onClick={() => refetch()} title="Refresh">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+            <Button size="sm" onClick={() => setCreateOpen(true)} data-testid="button-new-data-subject-request">
+              <Plus className="h-4 w-4 mr-1" />
+              New Request
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : requests.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No data subject requests yet.</p>
+          ) : (
+            <div className="divide-y rounded-md border">
+              {requests.map((request) => (
+                <div
+                  key={request.id}
+                  className="flex items-center justify-between gap-3 px-3 py-2 cursor-pointer hover-elevate"
+                  onClick={() => setSelectedId(request.id)}
+                  data-testid={`data-subject-request-${request.id}`}
+                >
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={STATUS_VARIANTS[request.status] ?? "outline"} className="capitalize">
+                        {statusLabel(request.status)}
+                      </Badge>
+                      <span className="text-sm font-medium capitalize">{request.type}</span>
+                      <span className="text-sm truncate">{request.subjectLabel}</span>
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {format(new Date(request.createdAt), "MMM d, yyyy HH:mm")}
+                      {" · "}
+                      {request.reason}
+                    </div>
+                  </div>
+                  {request.type === DataSubjectRequestType.EXPORT && request.archiveKey && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        downloadMutation.mutate(request.id);
+                      }}
+                      disabled={downloadMutation.isPending}
+                      data-testid={`button-download-export-${request.id}`}
+                    >
+                      <Download className="h-4 w-4 mr-1" />
+                      Download
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={createOpen} onOpenChange={(open) => { if (!open) resetCreate(); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New Data Subject Request</DialogTitle>
+            <DialogDescription>Nothing runs until a different admin approves the request.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Request</Label>
+              <Select value={type} onValueChange={(value) => setType(value as DataSubjectRequestTypeValue)}>
+                <SelectTrigger data-testid="select-data-subject-request-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DataSubjectRequestType.EXPORT}>Export all data</SelectItem>
+                  <SelectItem value={DataSubjectRequestType.ERASURE}>Erase (pseudonymize)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="data-subject-search">Person</Label>
+              {subject ? (
+                <div className="flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{subject.name}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {subject.email ?? "No email"} · {subject.detail}
+                    </div>
+                  </div>
+                  <Button size="sm" variant="ghost" onClick={() => setSubject(null)}>Change</Button>
+                </div>
+              ) : (
+                <>
+                  <Input
+                    id="data-subject-search"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search users and client contacts by name or email"
+                    data-testid="input-data-subject-search"
+                  />
+                  {trimmedSearch.length >= 2 && (
+                    <div className="max-h-48 overflow-y-auto divide-y rounded-md border">
+                      {searching ? (
+                        <div className="flex justify-center py-3">
+                          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                        </div>
+                      ) : candidates.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-3">No matches.</p>
+                      ) : (
+                        candidates.map((candidate) => (
+                          <button
+                            key={`${candidate.subjectType}-${candidate.id}`}
+                            type="button"
+                            className="w-full text-left px-3 py-2 hover-elevate"
+                            onClick={() => setSubject(candidate)}
+                            data-testid={`data-subject-candidate-${candidate.id}`}
+                          >
+                            <div className="text-sm font-medium">{candidate.name}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {candidate.email ?? "No email"} · {candidate.detail}
+                            </div>
+                          </button>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="data-subject-reason">Reason</Label>
+              <Textarea
+                id="data-subject-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="For example: emailed request received 3 March, ticket reference"
+                data-testid="input-data-subject-reason"
+              />
+            </div>
+            {type === DataSubjectRequestType.ERASURE && (
+              <p className="text-sm text-destructive">
+                Erasure cannot be undone. The person's accounts are deactivated and their name and email are replaced
+                everywhere they appear.
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={resetCreate}>Cancel</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!subject || !reason.trim() || createMutation.isPending}
+              data-testid="button-create-data-subject-request"
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Create Request
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Sheet open={!!selectedId} onOpenChange={(open) => { if (!open) { setSelectedId(null); setNote(""); } }}>
+        <SheetContent className="sm:max-w-xl overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle className="capitalize">{selected ? `${selected.type} request` : "Request"}</SheetTitle>
+            <SheetDescription>{selected?.subjectLabel ?? "Loading…"}</SheetDescription>
+          </SheetHeader>
+          {selected && (
+            <div className="space-y-4 mt-4 text-sm">
+              <div className="grid grid-cols-2 gap-2">
+                <span className="text-muted-foreground">Status</span>
+                <span className="capitalize">{statusLabel(selected.status)}</span>
+                <span className="text-muted-foreground">Reason</span>
+                <span>{selected.reason}</span>
+                {selected.decisionNote && (
+                  <>
+                    <span className="text-muted-foreground">Decision note</span>
+                    <span>{selected.decisionNote}</span>
+                  </>
+                )}
+                {selected.archiveSizeBytes != null && (
+                  <>
+                    <span className="text-muted-foreground">Archive</span>
+                    <span>{formatBytes(selected.archiveSizeBytes)}</span>
+                  </>
+                )}
+                {selected.error && (
+                  <>
+                    <span className="text-muted-foreground">Error</span>
+                    <span className="text-destructive">{selected.error}</span>
+                  </>
+                )}
+              </div>
+
+              {selected.summary && (
+                <div className="space-y-1">
+                  <Label>{selected.type === DataSubjectRequestType.EXPORT ? "Records found" : "Records changed"}</Label>
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-1 rounded-md border p-3">
+                    {Object.entries(selected.summary).map(([category, count]) => (
+                      <div key={category} className="flex justify-between">
+                        <span className="text-muted-foreground">{category.replace(/_/g, " ")}</span>
+                        <span>{count}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {canDecide(selected) && (
+                <div className="space-y-2 rounded-md border p-3">
+                  <Label htmlFor="data-subject-note">Decision note</Label>
+                  <Textarea
+                    id="data-subject-note"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="Optional"
+                    data-testid="input-data-subject-note"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => decideMutation.mutate({ id: selected.id, decision: "reject" })}
+                      disabled={decideMutation.isPending}
+                      data-testid="button-reject-data-subject-request"
+                    >
+                      Reject
+                    </Button>
+                    <Button
+                      variant={selected.type === DataSubjectRequestType.ERASURE ? "destructive" : "default"}
+                      onClick={() => decideMutation.mutate({ id: selected.id, decision: "approve" })}
+                      disabled={decideMutation.isPending}
+                      data-testid="button-approve-data-subject-request"
+                    >
+                      {decideMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                      Approve
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <Label>Audit trail</Label>
+                <div className="divide-y rounded-md border">
+                  {selected.events.map((event) => (
+                    <div key={event.id} className="px-3 py-2" data-testid={`data-subject-event-${event.id}`}>
+                      <div className="flex items-center justify-between gap-2">
+                        <span>{event.message}</span>
+                        <span className="text-xs text-muted-foreground shrink-0">
+                          {format(new Date(event.createdAt), "MMM d, HH:mm:ss")}
+                        </span>
+                      </div>
+                      <div className="text-xs text-muted-foreground">{event.actorName ?? "System"}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { SsoSettingsCard } from "@/features/sso";
+
+export function SecurityTab() {
+  const { toast } = useToast();
+  const { data: settingsData, isLoading } = useQuery<{ tenantSettings: { requireTwoFactor?: boolean } | null }>({
+    queryKey: ["/api/v1/tenant/settings"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (requireTwoFactor: boolean) => {
+      const res = await apiRequest("PATCH", "/api/v1/tenant/settings", { requireTwoFactor });
+      return res.json();
+    },
+    onSuccess: (_data, requireTwoFactor) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/tenant/settings"] });
+      toast({ title: requireTwoFactor ? "Two-factor authentication is now required" : "Two-factor authentication is now optional" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card data-testid="card-security-settings">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Two-Factor Authentication
+          </CardTitle>
+          <CardDescription>
+            Members set up 2FA from their profile. Admins can reset it for a member who loses their device from the user list.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="require-two-factor">Require for everyone in this organization</Label>
+                <p className="text-sm text-muted-foreground">
+                  Members without an authenticator app are asked to set one up before they can continue.
+                  Make sure your own account has 2FA turned on first.
+                </p>
+              </div>
+              <Switch
+                id="require-two-factor"
+                checked={settingsData?.tenantSettings?.requireTwoFactor ?? false}
+                onCheckedChange={(checked) => saveMutation.mutate(checked)}
+                disabled={saveMutation.isPending}
+                data-testid="switch-tenant-require-two-factor"
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+      <SsoSettingsCard />
+    </div>
+  );
+}
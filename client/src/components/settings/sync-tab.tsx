@@ -0,0 +1,529 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { ArrowLeftRight, Loader2, RefreshCw, Settings2, Unplug } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  SYNC_TASK_FIELDS,
+  SyncDirection,
+  SyncFieldRule,
+  SyncRunStatus,
+  type SyncConnection,
+  type SyncDirectionValue,
+  type SyncFieldRuleValue,
+  type SyncRun,
+  type SyncTaskField,
+} from "@shared/schema";
+
+type ConnectionRow = Omit<SyncConnection, "nextRunAt" | "lastRunAt" | "lastSuccessAt" | "createdAt" | "updatedAt"> & {
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastSuccessAt: string | null;
+};
+
+type RunRow = Omit<SyncRun, "startedAt" | "finishedAt"> & {
+  startedAt: string;
+  finishedAt: string | null;
+};
+
+interface ProviderRow {
+  provider: string;
+  supported: boolean;
+  connection: ConnectionRow | null;
+  lastRun: RunRow | null;
+  mappedTasks: number;
+}
+
+interface SyncableProject {
+  remoteProjectId: string;
+  localProjectId: string;
+  name: string;
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  asana: "Asana",
+  jira: "Jira",
+  trello: "Trello",
+  linear: "Linear",
+};
+
+const FIELD_LABELS: Record<SyncTaskField, string> = {
+  title: "Title",
+  description: "Description",
+  completed: "Completion",
+  dueDate: "Due date",
+};
+
+const DIRECTION_LABELS: Record<SyncDirectionValue, string> = {
+  [SyncDirection.BOTH]: "Two-way",
+  [SyncDirection.PULL]: "Pull only (remote wins)",
+  [SyncDirection.PUSH]: "Push only (local wins)",
+};
+
+const RUN_VARIANTS: Record<string, "secondary" | "destructive" | "outline"> = {
+  [SyncRunStatus.RUNNING]: "outline",
+  [SyncRunStatus.SUCCEEDED]: "secondary",
+  [SyncRunStatus.FAILED]: "destructive",
+};
+
+function runSummary(run: RunRow): string {
+  return `${run.createdCount} created · ${run.pulledCount} pulled · ${run.pushedCount} pushed · ${run.conflictCount} conflicts · ${run.errorCount} errors`;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  return String(value);
+}
+
+/** Tenant admin dashboard for two-way task sync: connection settings, field rules and run log. */
+export function SyncTab() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<ProviderRow | null>(null);
+  const [projectIds, setProjectIds] = useState<string[]>([]);
+  const [direction, setDirection] = useState<SyncDirectionValue>(SyncDirection.BOTH);
+  const [pollInterval, setPollInterval] = useState("15");
+  const [rules, setRules] = useState<Partial<Record<SyncTaskField, SyncFieldRuleValue>>>({});
+  const [enabled, setEnabled] = useState(true);
+  const [disconnectTarget, setDisconnectTarget] = useState<string | null>(null);
+  const [logProvider, setLogProvider] = useState<string | null>(null);
+  const [selectedRun, setSelectedRun] = useState<RunRow | null>(null);
+
+  const { data: providers = [], isLoading } = useQuery<ProviderRow[]>({
+    queryKey: queryKeys.sync.providers,
+  });
+
+  const connected = providers.filter((p) => p.connection);
+  const activeLogProvider = logProvider ?? connected[0]?.provider ?? null;
+
+  const { data: projects = [], isLoading: projectsLoading } = useQuery<SyncableProject[]>({
+    queryKey: queryKeys.sync.projects(editing?.provider ?? ""),
+    enabled: !!editing,
+  });
+
+  const { data: runs = [], isLoading: runsLoading, refetch: refetchRuns } = useQuery<RunRow[]>({
+    queryKey: queryKeys.sync.runs(activeLogProvider ?? ""),
+    enabled: !!activeLogProvider,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/sync/providers"] });
+  };
+
+  const onError = (title: string) => (err: Error) => {
+    toast({ title, description: err.message, variant: "destructive" });
+  };
+
+  const openEditor = (row: ProviderRow) => {
+    setEditing(row);
+    setProjectIds(row.connection?.remoteProjectIds ?? []);
+    setDirection((row.connection?.direction as SyncDirectionValue) ?? SyncDirection.BOTH);
+    setPollInterval(String(row.connection?.pollIntervalMinutes ?? 15));
+    setRules(row.connection?.fieldRules ?? {});
+    setEnabled(row.connection?.isEnabled ?? true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!editing) return;
+      await apiRequest("PUT", `/api/sync/providers/${editing.provider}`, {
+        remoteProjectIds: projectIds,
+        direction,
+        pollIntervalMinutes: Number(pollInterval),
+        fieldRules: rules,
+        isEnabled: enabled,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      setEditing(null);
+      toast({ title: enabled ? "Sync saved, first run queued" : "Sync saved" });
+    },
+    onError: onError("Failed to save sync"),
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (provider: string) => {
+      await apiRequest("POST", `/api/sync/providers/${provider}/run`);
+    },
+    onSuccess: () => {
+      toast({ title: "Sync queued" });
+      setTimeout(invalidate, 3000);
+    },
+    onError: onError("Failed to start sync"),
+  });
+
+  const disconnectMutation = useMutation({
+    mutationFn: async (provider: string) => {
+      await apiRequest("DELETE", `/api/sync/providers/${provider}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      setDisconnectTarget(null);
+      toast({ title: "Sync disconnected" });
+    },
+    onError: onError("Failed to disconnect"),
+  });
+
+  const toggleProject = (id: string, checked: boolean) => {
+    setProjectIds((current) => (checked ? [...current, id] : current.filter((p) => p !== id)));
+  };
+
+  const intervalValid = Number.isInteger(Number(pollInterval)) && Number(pollInterval) >= 5 && Number(pollInterval) <= 1440;
+
+  return (
+    <div className="space-y-6">
+      <Card data-testid="card-sync-providers">
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <ArrowLeftRight className="h-5 w-5" />
+            Two-way Sync
+          </CardTitle>
+          <CardDescription>
+            Keep imported projects in step with an external tracker. Remote edits are pulled on a schedule and
+            local edits are pushed back; fields edited on both sides are resolved by the rules you choose.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="divide-y rounded-md border">
+              {providers.map((row) => {
+                const { connection, lastRun } = row;
+                return (
+                  <div key={row.provider} className="flex items-start justify-between gap-3 px-3 py-2" data-testid={`sync-provider-${row.provider}`}>
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{PROVIDER_LABELS[row.provider] ?? row.provider}</span>
+                        {!row.supported ? (
+                          <Badge variant="outline">Coming soon</Badge>
+                        ) : !connection ? (
+                          <Badge variant="outline">Not connected</Badge>
+                        ) : connection.isEnabled ? (
+                          <Badge variant="secondary">{DIRECTION_LABELS[connection.direction as SyncDirectionValue] ?? connection.direction}</Badge>
+                        ) : (
+                          <Badge variant="outline">Paused</Badge>
+                        )}
+                      </div>
+                      {connection && (
+                        <div className="text-xs text-muted-foreground">
+                          {connection.remoteProjectIds.length} project(s) · {row.mappedTasks} linked tasks
+                          {connection.lastSuccessAt
+                            ? ` · Last synced ${formatDistanceToNow(new Date(connection.lastSuccessAt), { addSuffix: true })}`
+                            : " · Never synced"}
+                          {connection.nextRunAt && ` · Next ${formatDistanceToNow(new Date(connection.nextRunAt), { addSuffix: true })}`}
+                        </div>
+                      )}
+                      {lastRun && <div className="text-xs text-muted-foreground">Last run: {runSummary(lastRun)}</div>}
+                      {connection?.lastError && <div className="text-xs text-destructive">{connection.lastError}</div>}
+                    </div>
+                    {row.supported && (
+                      <div className="flex items-center gap-1 shrink-0">
+                        {connection && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => runMutation.mutate(row.provider)}
+                            disabled={!connection.isEnabled || runMutation.isPending}
+                            data-testid={`button-sync-now-${row.provider}`}
+                          >
+                            <RefreshCw className="h-4 w-4 mr-1" />
+                            Sync now
+                          </Button>
+                        )}
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => openEditor(row)}
+                          title="Configure"
+                          data-testid={`button-configure-sync-${row.provider}`}
+                        >
+                          <Settings2 className="h-4 w-4" />
+                        </Button>
+                        {connection && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setDisconnectTarget(row.provider)}
+                            title="Disconnect"
+                            data-testid={`button-disconnect-sync-${row.provider}`}
+                          >
+                            <Unplug className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {activeLogProvider && (
+        <Card data-testid="card-sync-runs">
+          <CardHeader className="flex flex-row items-start justify-between gap-3">
+            <div>
+              <CardTitle className="text-lg">Sync Runs</CardTitle>
+              <CardDescription>Open a run to see the conflicts it resolved and the items that failed.</CardDescription>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              {connected.length > 1 && (
+                <Select value={activeLogProvider} onValueChange={setLogProvider}>
+                  <SelectTrigger className="w-36" data-testid="select-sync-run-provider">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {connected.map((row) => (
+                      <SelectItem key={row.provider} value={row.provider}>{PROVIDER_LABELS[row.provider] ?? row.provider}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button size="icon" variant="ghost" onClick={() => refetchRuns()} title="Refresh">
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {runsLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : runs.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No runs yet.</p>
+            ) : (
+              <div className="divide-y rounded-md border">
+                {runs.map((run) => (
+                  <div
+                    key={run.id}
+                    className="flex items-center justify-between gap-3 px-3 py-2 cursor-pointer hover-elevate"
+                    onClick={() => setSelectedRun(run)}
+                    data-testid={`sync-run-${run.id}`}
+                  >
+                    <div className="min-w-0 space-y-0.5">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={RUN_VARIANTS[run.status] ?? "outline"} className="capitalize">{run.status}</Badge>
+                        <span className="text-sm">{format(new Date(run.startedAt), "MMM d, HH:mm:ss")}</span>
+                        <span className="text-xs text-muted-foreground capitalize">{run.trigger}</span>
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">{run.error ?? runSummary(run)}</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => { if (!open) setEditing(null); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? `${PROVIDER_LABELS[editing.provider] ?? editing.provider} Sync` : "Sync"}</DialogTitle>
+            <DialogDescription>Only imported projects can be synced; import a project first to link its tasks.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Projects</Label>
+              {projectsLoading ? (
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              ) : projects.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No imported projects yet.</p>
+              ) : (
+                <div className="max-h-40 overflow-y-auto space-y-2 text-sm">
+                  {projects.map((project) => (
+                    <label key={project.remoteProjectId} className="flex items-center gap-2">
+                      <Checkbox
+                        checked={projectIds.includes(project.remoteProjectId)}
+                        onCheckedChange={(checked) => toggleProject(project.remoteProjectId, checked === true)}
+                        data-testid={`checkbox-sync-project-${project.remoteProjectId}`}
+                      />
+                      <span>{project.name}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Direction</Label>
+                <Select value={direction} onValueChange={(value) => setDirection(value as SyncDirectionValue)}>
+                  <SelectTrigger data-testid="select-sync-direction">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(SyncDirection).map((value) => (
+                      <SelectItem key={value} value={value}>{DIRECTION_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="sync-interval">Poll every (minutes)</Label>
+                <Input
+                  id="sync-interval"
+                  type="number"
+                  min={5}
+                  max={1440}
+                  value={pollInterval}
+                  onChange={(e) => setPollInterval(e.target.value)}
+                  data-testid="input-sync-interval"
+                />
+              </div>
+            </div>
+            {direction === SyncDirection.BOTH && (
+              <div className="space-y-2">
+                <Label>When both sides changed a field</Label>
+                {SYNC_TASK_FIELDS.map((field) => (
+                  <div key={field} className="flex items-center justify-between gap-3 text-sm">
+                    <span>{FIELD_LABELS[field]}</span>
+                    <Select
+                      value={rules[field] ?? SyncFieldRule.LAST_WRITER_WINS}
+                      onValueChange={(value) => setRules((current) => ({ ...current, [field]: value as SyncFieldRuleValue }))}
+                    >
+                      <SelectTrigger className="w-52" data-testid={`select-sync-rule-${field}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={SyncFieldRule.LAST_WRITER_WINS}>Latest edit wins</SelectItem>
+                        <SelectItem value={SyncFieldRule.LOCAL_AUTHORITATIVE}>Always keep ours</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <Label htmlFor="sync-enabled">Enabled</Label>
+              <Switch id="sync-enabled" checked={enabled} onCheckedChange={setEnabled} data-testid="switch-sync-enabled" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!intervalValid || saveMutation.isPending}
+              data-testid="button-save-sync"
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!disconnectTarget} onOpenChange={(open) => { if (!open) setDisconnectTarget(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Disconnect sync?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Scheduled runs stop and the run log is removed. Task links are kept, so reconnecting picks up where it left off.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => disconnectTarget && disconnectMutation.mutate(disconnectTarget)}
+              data-testid="button-confirm-disconnect-sync"
+            >
+              Disconnect
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Sheet open={!!selectedRun} onOpenChange={(open) => { if (!open) setSelectedRun(null); }}>
+        <SheetContent className="sm:max-w-xl overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Sync run</SheetTitle>
+            <SheetDescription>
+              {selectedRun ? format(new Date(selectedRun.startedAt), "MMM d, yyyy HH:mm:ss") : ""}
+            </SheetDescription>
+          </SheetHeader>
+          {selectedRun && (
+            <div className="space-y-4 mt-4 text-sm">
+              <p className="text-muted-foreground">{runSummary(selectedRun)}</p>
+              {selectedRun.error && <p className="text-destructive">{selectedRun.error}</p>}
+              {selectedRun.conflicts.length > 0 && (
+                <div className="space-y-1">
+                  <Label>Conflicts</Label>
+                  <div className="divide-y rounded-md border">
+                    {selectedRun.conflicts.map((conflict, i) => (
+                      <div key={i} className="px-3 py-2 space-y-0.5">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{FIELD_LABELS[conflict.field] ?? conflict.field}</span>
+                          <Badge variant="outline" className="text-xs">{conflict.winner} kept</Badge>
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          Ours: {formatValue(conflict.localValue)} · Theirs: {formatValue(conflict.remoteValue)}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {selectedRun.errors.length > 0 && (
+                <div className="space-y-1">
+                  <Label>Errors</Label>
+                  <div className="divide-y rounded-md border">
+                    {selectedRun.errors.map((error, i) => (
+                      <div key={i} className="px-3 py-2 text-xs">
+                        <span className="font-mono text-muted-foreground">{error.remoteId ?? error.localTaskId}</span>{" "}
+                        <span className="text-destructive">{error.message}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+}
@@ -20,7 +20,7 @@ import {
 } from "@/components/ui/table";
 import { 
   Plus, UserPlus, Users, Mail, MoreHorizontal, Copy, Trash2, 
-  Edit, RefreshCw, X, ChevronDown, ChevronRight, UserMinus, Key, Eye, EyeOff
+  Edit, RefreshCw, X, ChevronDown, ChevronRight, UserMinus, Key, Eye, EyeOff, ShieldOff
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -277,6 +277,19 @@ export function TeamTab({ isAdmin = true }: TeamTabProps) {
     },
   });
 
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("POST", `/api/users/${id}/reset-two-factor`);
+    },
+    onSuccess: () => {
+      toast({ title: "Two-factor authentication reset", description: "The user can sign in with their password and set up 2FA again." });
+    },
+    onError: (error: any) => {
+      const message = error?.message || "Failed to reset two-factor authentication";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    },
+  });
+
   const openResetPasswordDialog = (user: User) => {
     setResetPasswordUser(user);
     setNewPassword("");
@@ -539,6 +552,17 @@ export function TeamTab({ isAdmin = true }: TeamTabProps) {
                                 <Key className="h-4 w-4 mr-2" />
                                 Reset Password
                               </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => {
+                                  if (confirm(`Reset two-factor authentication for ${user.email}?`)) {
+                                    resetTwoFactorMutation.mutate(user.id);
+                                  }
+                                }}
+                                data-testid={`menu-reset-two-factor-${user.id}`}
+                              >
+                                <ShieldOff className="h-4 w-4 mr-2" />
+                                Reset 2FA
+                              </DropdownMenuItem>
                               <DropdownMenuItem
                                 onClick={() => toggleUserStatusMutation.mutate({ 
                                   id: user.id, 
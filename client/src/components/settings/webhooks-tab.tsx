@@ -0,0 +1,495 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Copy, Loader2, Plus, RefreshCw, RotateCw, Trash2, Webhook } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { WebhookDeliveryStatus, type PublicWebhookEndpoint, type WebhookDelivery } from "@shared/schema";
+import { WEBHOOK_EVENT_TYPES } from "@shared/events";
+
+type EndpointRow = Omit<PublicWebhookEndpoint, "lastSuccessAt" | "lastFailureAt" | "createdAt" | "updatedAt"> & {
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  createdAt: string;
+};
+
+type DeliveryRow = Omit<WebhookDelivery, "nextAttemptAt" | "deliveredAt" | "createdAt" | "updatedAt"> & {
+  nextAttemptAt: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+};
+
+const ALL = "all";
+
+const STATUS_VARIANTS: Record<string, "secondary" | "destructive" | "outline" | "default"> = {
+  [WebhookDeliveryStatus.PENDING]: "outline",
+  [WebhookDeliveryStatus.RETRYING]: "default",
+  [WebhookDeliveryStatus.SUCCEEDED]: "secondary",
+  [WebhookDeliveryStatus.DEAD]: "destructive",
+};
+
+/** Tenant admin management of outbound webhook endpoints and their delivery log. */
+export function WebhooksTab() {
+  const { toast } = useToast();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<string[]>([]);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<EndpointRow | null>(null);
+  const [endpointFilter, setEndpointFilter] = useState(ALL);
+  const [statusFilter, setStatusFilter] = useState(ALL);
+  const [selectedDeliveryId, setSelectedDeliveryId] = useState<string | null>(null);
+
+  const { data: endpoints = [], isLoading } = useQuery<EndpointRow[]>({
+    queryKey: queryKeys.webhooks.endpoints,
+  });
+
+  const { data: deliveries = [], isLoading: deliveriesLoading, refetch: refetchDeliveries } = useQuery<DeliveryRow[]>({
+    queryKey: queryKeys.webhooks.deliveries(
+      endpointFilter === ALL ? undefined : endpointFilter,
+      statusFilter === ALL ? undefined : statusFilter,
+    ),
+  });
+
+  const { data: selectedDelivery } = useQuery<DeliveryRow>({
+    queryKey: queryKeys.webhooks.delivery(selectedDeliveryId ?? ""),
+    enabled: !!selectedDeliveryId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/webhook-endpoints"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/webhook-deliveries"] });
+  };
+
+  const onError = (title: string) => (err: Error) => {
+    toast({ title, description: err.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/webhook-endpoints", {
+        url: url.trim(),
+        description: description.trim() || null,
+        events,
+      });
+      return res.json() as Promise<{ secret: string }>;
+    },
+    onSuccess: ({ secret }) => {
+      invalidate();
+      setCreateOpen(false);
+      setUrl("");
+      setDescription("");
+      setEvents([]);
+      setRevealedSecret(secret);
+    },
+    onError: onError("Failed to add endpoint"),
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      await apiRequest("PATCH", `/api/webhook-endpoints/${id}`, { isActive });
+    },
+    onSuccess: invalidate,
+    onError: onError("Failed to update endpoint"),
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/webhook-endpoints/${id}/rotate-secret`);
+      return res.json() as Promise<{ secret: string }>;
+    },
+    onSuccess: ({ secret }) => setRevealedSecret(secret),
+    onError: onError("Failed to rotate secret"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/webhook-endpoints/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      setDeleteTarget(null);
+      toast({ title: "Endpoint deleted" });
+    },
+    onError: onError("Failed to delete endpoint"),
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/webhook-deliveries/${id}/redeliver`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Redelivery queued" });
+    },
+    onError: onError("Failed to redeliver"),
+  });
+
+  const toggleEvent = (event: string, checked: boolean) => {
+    setEvents((current) => (checked ? [...current, event] : current.filter((e) => e !== event)));
+  };
+
+  const copySecret = async () => {
+    if (!revealedSecret) return;
+    await navigator.clipboard.writeText(revealedSecret);
+    toast({ title: "Secret copied to clipboard" });
+  };
+
+  const endpointUrl = (id: string) => endpoints.find((e) => e.id === id)?.url ?? "Deleted endpoint";
+
+  return (
+    <div className="space-y-6">
+      <Card data-testid="card-webhook-endpoints">
+        <CardHeader className="flex flex-row items-start justify-between gap-3">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Webhook className="h-5 w-5" />
+              Webhooks
+            </CardTitle>
+            <CardDescription>
+              POST signed JSON events to your own HTTPS endpoints. Verify the <code>X-Webhook-Signature</code> header
+              (<code>t=…,v1=…</code>, HMAC-SHA256 of <code>t.body</code>) with the endpoint secret.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setCreateOpen(true)} data-testid="button-new-webhook">
+            <Plus className="h-4 w-4 mr-1" />
+            Add Endpoint
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : endpoints.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No webhook endpoints yet.</p>
+          ) : (
+            <div className="divide-y rounded-md border">
+              {endpoints.map((endpoint) => (
+                <div key={endpoint.id} className="flex items-start justify-between gap-3 px-3 py-2" data-testid={`webhook-endpoint-${endpoint.id}`}>
+                  <div className="min-w-0 space-y-1">
+                    <div className="font-mono text-sm truncate">{endpoint.url}</div>
+                    {endpoint.description && (
+                      <div className="text-sm text-muted-foreground">{endpoint.description}</div>
+                    )}
+                    <div className="flex flex-wrap gap-1">
+                      {endpoint.events.map((event) => (
+                        <Badge key={event} variant="outline" className="text-xs font-normal">{event}</Badge>
+                      ))}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {endpoint.lastSuccessAt
+                        ? `Last success ${formatDistanceToNow(new Date(endpoint.lastSuccessAt), { addSuffix: true })}`
+                        : "No successful deliveries"}
+                      {endpoint.lastFailureAt &&
+                        ` · Last failure ${formatDistanceToNow(new Date(endpoint.lastFailureAt), { addSuffix: true })}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Switch
+                      checked={endpoint.isActive}
+                      onCheckedChange={(isActive) => toggleActiveMutation.mutate({ id: endpoint.id, isActive })}
+                      title={endpoint.isActive ? "Disable" : "Enable"}
+                      data-testid={`switch-webhook-active-${endpoint.id}`}
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => rotateMutation.mutate(endpoint.id)}
+                      disabled={rotateMutation.isPending}
+                      title="Rotate secret"
+                      data-testid={`button-rotate-webhook-${endpoint.id}`}
+                    >
+                      <RotateCw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setDeleteTarget(endpoint)}
+                      title="Delete"
+                      data-testid={`button-delete-webhook-${endpoint.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-webhook-deliveries">
+        <CardHeader className="flex flex-row items-start justify-between gap-3">
+          <div>
+            <CardTitle className="text-lg">Delivery Log</CardTitle>
+            <CardDescription>
+              Failed deliveries retry with exponential backoff. Dead deliveries ran out of retries and can be redelivered.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <Select value={endpointFilter} onValueChange={setEndpointFilter}>
+              <SelectTrigger className="w-48" data-testid="select-webhook-delivery-endpoint">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All endpoints</SelectItem>
+                {endpoints.map((endpoint) => (
+                  <SelectItem key={endpoint.id} value={endpoint.id}>{endpoint.url}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-36" data-testid="select-webhook-delivery-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                {Object.values(WebhookDeliveryStatus).map((status) => (
+                  <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="icon" variant="ghost" onClick={() => refetchDeliveries()} title="Refresh">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {deliveriesLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No deliveries match.</p>
+          ) : (
+            <div className="divide-y rounded-md border">
+              {deliveries.map((delivery) => (
+                <div
+                  key={delivery.id}
+                  className="flex items-center justify-between gap-3 px-3 py-2 cursor-pointer hover-elevate"
+                  onClick={() => setSelectedDeliveryId(delivery.id)}
+                  data-testid={`webhook-delivery-${delivery.id}`}
+                >
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={STATUS_VARIANTS[delivery.status] ?? "outline"} className="capitalize">{delivery.status}</Badge>
+                      <span className="text-sm font-medium">{delivery.eventType}</span>
+                      {delivery.lastStatusCode != null && (
+                        <span className="text-xs text-muted-foreground">HTTP {delivery.lastStatusCode}</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {format(new Date(delivery.createdAt), "MMM d, HH:mm:ss")}
+                      {" · "}
+                      {endpointUrl(delivery.endpointId)}
+                      {" · "}
+                      {delivery.attempts}/{delivery.maxAttempts} attempts
+                      {delivery.nextAttemptAt && ` · next ${formatDistanceToNow(new Date(delivery.nextAttemptAt), { addSuffix: true })}`}
+                    </div>
+                  </div>
+                  {(delivery.status === WebhookDeliveryStatus.DEAD || delivery.status === WebhookDeliveryStatus.SUCCEEDED) && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        redeliverMutation.mutate(delivery.id);
+                      }}
+                      disabled={redeliverMutation.isPending}
+                      data-testid={`button-redeliver-${delivery.id}`}
+                    >
+                      Redeliver
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add Webhook Endpoint</DialogTitle>
+            <DialogDescription>Endpoints must be public HTTPS URLs.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="webhook-url">URL</Label>
+              <Input
+                id="webhook-url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://example.com/hooks/myworkday"
+                data-testid="input-webhook-url"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="webhook-description">Description</Label>
+              <Input
+                id="webhook-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Optional"
+                data-testid="input-webhook-description"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                {WEBHOOK_EVENT_TYPES.map((event) => (
+                  <label key={event} className="flex items-center gap-2">
+                    <Checkbox
+                      checked={events.includes(event)}
+                      onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                      data-testid={`checkbox-webhook-event-${event}`}
+                    />
+                    <span className="font-mono text-xs">{event}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!url.trim() || events.length === 0 || createMutation.isPending}
+              data-testid="button-create-webhook"
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Add Endpoint
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!revealedSecret} onOpenChange={(open) => { if (!open) setRevealedSecret(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Signing secret</DialogTitle>
+            <DialogDescription>This is the only time the secret is shown. Store it with your receiver.</DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={revealedSecret ?? ""} className="font-mono text-xs" data-testid="input-webhook-secret" />
+            <Button size="icon" variant="outline" onClick={copySecret} data-testid="button-copy-webhook-secret">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => { if (!open) setDeleteTarget(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete endpoint?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget?.url} will stop receiving events and its delivery log will be removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTarget && deleteMutation.mutate(deleteTarget.id)}
+              data-testid="button-confirm-delete-webhook"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Sheet open={!!selectedDeliveryId} onOpenChange={(open) => { if (!open) setSelectedDeliveryId(null); }}>
+        <SheetContent className="sm:max-w-xl overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>{selectedDelivery?.eventType ?? "Delivery"}</SheetTitle>
+            <SheetDescription>
+              {selectedDelivery ? `Event ${selectedDelivery.eventId}` : "Loading…"}
+            </SheetDescription>
+          </SheetHeader>
+          {selectedDelivery && (
+            <div className="space-y-4 mt-4 text-sm">
+              <div className="grid grid-cols-2 gap-2">
+                <span className="text-muted-foreground">Status</span>
+                <span className="capitalize">{selectedDelivery.status}</span>
+                <span className="text-muted-foreground">Attempts</span>
+                <span>{selectedDelivery.attempts}/{selectedDelivery.maxAttempts}</span>
+                <span className="text-muted-foreground">Last response</span>
+                <span>
+                  {selectedDelivery.lastStatusCode != null ? `HTTP ${selectedDelivery.lastStatusCode}` : "—"}
+                  {selectedDelivery.lastDurationMs != null && ` in ${selectedDelivery.lastDurationMs} ms`}
+                </span>
+                {selectedDelivery.lastError && (
+                  <>
+                    <span className="text-muted-foreground">Error</span>
+                    <span className="text-destructive">{selectedDelivery.lastError}</span>
+                  </>
+                )}
+              </div>
+              <div className="space-y-1">
+                <Label>Payload</Label>
+                <pre className="rounded-md bg-muted p-3 text-xs overflow-x-auto">
+                  {JSON.stringify(selectedDelivery.payload, null, 2)}
+                </pre>
+              </div>
+              {selectedDelivery.lastResponseBody && (
+                <div className="space-y-1">
+                  <Label>Response body</Label>
+                  <pre className="rounded-md bg-muted p-3 text-xs overflow-x-auto whitespace-pre-wrap">
+                    {selectedDelivery.lastResponseBody}
+                  </pre>
+                </div>
+              )}
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+}
@@ -0,0 +1,498 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { formatErrorForToast } from "@/lib/parseApiError";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Plus, Pencil, Trash2, Workflow, ArrowUp, ArrowDown, X } from "lucide-react";
+import type { StatusCategoryValue, WorkflowRequiredFieldValue } from "@shared/schema";
+import {
+  CATEGORY_LABELS,
+  REQUIRED_FIELD_LABELS,
+  toStatusKey,
+  type WorkflowSetWithStatuses,
+} from "@/features/workflows";
+
+const STATUS_COLORS = ["#6B7280", "#3B82F6", "#8B5CF6", "#F59E0B", "#EF4444", "#10B981", "#06B6D4", "#EC4899"];
+
+interface StatusRow {
+  key: string;
+  name: string;
+  color: string;
+  category: StatusCategoryValue;
+  requiredFields: WorkflowRequiredFieldValue[];
+  /** null allows moving to any status. */
+  allowedTransitions: string[] | null;
+  /** Saved statuses keep their key so tasks stay on them. */
+  saved: boolean;
+}
+
+interface SetFormState {
+  name: string;
+  description: string;
+  isDefault: boolean;
+  statuses: StatusRow[];
+}
+
+const STARTER_STATUSES: StatusRow[] = [
+  { key: "todo", name: "To Do", color: "#6B7280", category: "not_started", requiredFields: [], allowedTransitions: null, saved: false },
+  { key: "in_progress", name: "In Progress", color: "#3B82F6", category: "active", requiredFields: [], allowedTransitions: null, saved: false },
+  { key: "done", name: "Done", color: "#10B981", category: "done", requiredFields: [], allowedTransitions: null, saved: false },
+];
+
+const defaultFormState: SetFormState = { name: "", description: "", isDefault: false, statuses: STARTER_STATUSES };
+
+function uniqueKey(name: string, rows: StatusRow[], index: number): string {
+  const base = toStatusKey(name) || "status";
+  let key = base;
+  for (let n = 2; rows.some((r, i) => i !== index && r.key === key); n++) key = `${base}_${n}`;
+  return key;
+}
+
+export function WorkflowsTab() {
+  const { toast } = useToast();
+  const [sheetOpen, setSheetOpen] = useState(false);
+  const [editingSet, setEditingSet] = useState<WorkflowSetWithStatuses | null>(null);
+  const [formState, setFormState] = useState<SetFormState>(defaultFormState);
+  const [deleteSet, setDeleteSet] = useState<WorkflowSetWithStatuses | null>(null);
+
+  const setsQuery = useQuery<WorkflowSetWithStatuses[]>({ queryKey: queryKeys.workflows.all });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.workflows.all });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+  };
+
+  const onError = (title: string) => (err: unknown) => {
+    toast({ title, description: formatErrorForToast(err).description, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string | null; data: Record<string, unknown> }) => {
+      const res = await apiRequest(id ? "PUT" : "POST", id ? `/api/workflows/${id}` : "/api/workflows", data);
+      return res.json();
+    },
+    onSuccess: (_data, { id }) => {
+      invalidate();
+      toast({ title: id ? "Workflow updated" : "Workflow created" });
+      closeSheet();
+    },
+    onError: onError("Failed to save workflow"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/workflows/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Workflow deleted", description: "Its projects are back on the built-in statuses." });
+      setDeleteSet(null);
+    },
+    onError: onError("Failed to delete workflow"),
+  });
+
+  function openCreateSheet() {
+    setEditingSet(null);
+    setFormState(defaultFormState);
+    setSheetOpen(true);
+  }
+
+  function openEditSheet(set: WorkflowSetWithStatuses) {
+    setEditingSet(set);
+    setFormState({
+      name: set.name,
+      description: set.description ?? "",
+      isDefault: set.isDefault,
+      statuses: set.statuses.map((s) => ({
+        key: s.key,
+        name: s.name,
+        color: s.color,
+        category: s.category as StatusCategoryValue,
+        requiredFields: s.requiredFields as WorkflowRequiredFieldValue[],
+        allowedTransitions: s.allowedTransitions as string[] | null,
+        saved: true,
+      })),
+    });
+    setSheetOpen(true);
+  }
+
+  function closeSheet() {
+    setSheetOpen(false);
+    setEditingSet(null);
+    setFormState(defaultFormState);
+  }
+
+  function updateRow(index: number, patch: Partial<StatusRow>) {
+    setFormState((prev) => {
+      const statuses = prev.statuses.map((row, i) => {
+        if (i !== index) return row;
+        const next = { ...row, ...patch };
+        if (patch.name !== undefined && !row.saved) next.key = uniqueKey(patch.name, prev.statuses, index);
+        return next;
+      });
+      // Keep transition lists pointing at renamed keys
+      const oldKey = prev.statuses[index].key;
+      const newKey = statuses[index].key;
+      return {
+        ...prev,
+        statuses: oldKey === newKey ? statuses : statuses.map((row) => ({
+          ...row,
+          allowedTransitions: row.allowedTransitions?.map((k) => (k === oldKey ? newKey : k)) ?? null,
+        })),
+      };
+    });
+  }
+
+  function addRow() {
+    setFormState((prev) => ({
+      ...prev,
+      statuses: [
+        ...prev.statuses,
+        {
+          key: uniqueKey("New status", prev.statuses, -1),
+          name: "New status",
+          color: STATUS_COLORS[prev.statuses.length % STATUS_COLORS.length],
+          category: "active",
+          requiredFields: [],
+          allowedTransitions: null,
+          saved: false,
+        },
+      ],
+    }));
+  }
+
+  function removeRow(index: number) {
+    setFormState((prev) => {
+      const removed = prev.statuses[index].key;
+      return {
+        ...prev,
+        statuses: prev.statuses
+          .filter((_, i) => i !== index)
+          .map((row) => ({ ...row, allowedTransitions: row.allowedTransitions?.filter((k) => k !== removed) ?? null })),
+      };
+    });
+  }
+
+  function moveRow(index: number, direction: -1 | 1) {
+    setFormState((prev) => {
+      const statuses = [...prev.statuses];
+      const target = index + direction;
+      if (target < 0 || target >= statuses.length) return prev;
+      [statuses[index], statuses[target]] = [statuses[target], statuses[index]];
+      return { ...prev, statuses };
+    });
+  }
+
+  function toggle<T>(list: T[], value: T, on: boolean): T[] {
+    return on ? Array.from(new Set([...list, value])) : list.filter((v) => v !== value);
+  }
+
+  function handleSubmit() {
+    if (!formState.name.trim()) {
+      toast({ title: "Name required", description: "Enter a name for the workflow.", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate({
+      id: editingSet?.id ?? null,
+      data: {
+        name: formState.name.trim(),
+        description: formState.description.trim() || null,
+        isDefault: formState.isDefault,
+        statuses: formState.statuses.map(({ saved: _saved, ...row }) => ({ ...row, name: row.name.trim() })),
+      },
+    });
+  }
+
+  const sets = setsQuery.data || [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Workflow className="h-5 w-5 text-primary" />
+              Workflows
+            </CardTitle>
+            <CardDescription>
+              Define the statuses a project's tasks move through, which moves are allowed, and what a task needs before it enters a status.
+              Projects without a workflow use the built-in statuses.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={openCreateSheet} data-testid="button-create-workflow">
+            <Plus className="h-4 w-4 mr-1" />
+            New Workflow
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {setsQuery.isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : sets.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Workflow className="h-10 w-10 mx-auto mb-3 opacity-40" />
+              <p className="text-sm">No workflows yet.</p>
+              <p className="text-xs mt-1">Create one such as Backlog → Design → QA → Approved → Shipped.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {sets.map((set) => (
+                <div
+                  key={set.id}
+                  className="flex items-center justify-between gap-3 p-3 rounded-md border"
+                  data-testid={`workflow-row-${set.id}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium text-sm truncate">{set.name}</span>
+                      {set.isDefault && <Badge variant="secondary" className="text-[10px] py-0 h-4">Default</Badge>}
+                      <span className="text-xs text-muted-foreground">
+                        {set.projectCount} project{set.projectCount === 1 ? "" : "s"}
+                      </span>
+                    </div>
+                    <div className="mt-1.5 flex items-center gap-1 flex-wrap">
+                      {set.statuses.map((status) => (
+                        <span key={status.id} className="flex items-center gap-1 text-xs text-muted-foreground mr-2">
+                          <span className="h-2 w-2 rounded-full" style={{ backgroundColor: status.color }} />
+                          {status.name}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button size="icon" variant="ghost" onClick={() => openEditSheet(set)} data-testid={`button-edit-workflow-${set.id}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" onClick={() => setDeleteSet(set)} data-testid={`button-delete-workflow-${set.id}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Sheet open={sheetOpen} onOpenChange={setSheetOpen}>
+        <SheetContent className="sm:max-w-2xl overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>{editingSet ? "Edit Workflow" : "Create Workflow"}</SheetTitle>
+            <SheetDescription>
+              {editingSet
+                ? "Tasks on a removed status move to the first status of the same category."
+                : "Assign the workflow to projects from the project drawer."}
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="space-y-5 mt-6">
+            <div>
+              <Label htmlFor="workflow-name">Name</Label>
+              <Input
+                id="workflow-name"
+                value={formState.name}
+                onChange={(e) => setFormState({ ...formState, name: e.target.value })}
+                placeholder="e.g. Creative production"
+                data-testid="input-workflow-name"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="workflow-description">Description (optional)</Label>
+              <Input
+                id="workflow-description"
+                value={formState.description}
+                onChange={(e) => setFormState({ ...formState, description: e.target.value })}
+                data-testid="input-workflow-description"
+              />
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Statuses</Label>
+                <Button size="sm" variant="outline" onClick={addRow} disabled={formState.statuses.length >= 30} data-testid="button-add-workflow-status">
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Status
+                </Button>
+              </div>
+
+              {formState.statuses.map((row, index) => (
+                <div key={index} className="rounded-md border p-3 space-y-3" data-testid={`workflow-status-${index}`}>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={row.name}
+                      onChange={(e) => updateRow(index, { name: e.target.value })}
+                      className="h-8 flex-1"
+                      data-testid={`input-workflow-status-name-${index}`}
+                    />
+                    <Select value={row.category} onValueChange={(v) => updateRow(index, { category: v as StatusCategoryValue })}>
+                      <SelectTrigger className="h-8 w-32" data-testid={`select-workflow-status-category-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button size="icon" variant="ghost" className="h-8 w-8" disabled={index === 0} onClick={() => moveRow(index, -1)}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-8 w-8" disabled={index === formState.statuses.length - 1} onClick={() => moveRow(index, 1)}>
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      aria-label="Remove status"
+                      disabled={formState.statuses.length === 1}
+                      onClick={() => removeRow(index)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <div className="flex items-center gap-1.5">
+                    {STATUS_COLORS.map((color) => (
+                      <button
+                        key={color}
+                        type="button"
+                        aria-label={`Color ${color}`}
+                        className={cn("h-5 w-5 rounded-full border-2", row.color === color ? "border-foreground" : "border-transparent")}
+                        style={{ backgroundColor: color }}
+                        onClick={() => updateRow(index, { color })}
+                      />
+                    ))}
+                    <code className="ml-auto text-xs text-muted-foreground">{row.key}</code>
+                  </div>
+
+                  <div className="flex items-center gap-3 flex-wrap text-xs">
+                    <span className="text-muted-foreground">Requires</span>
+                    {(Object.entries(REQUIRED_FIELD_LABELS) as [WorkflowRequiredFieldValue, string][]).map(([field, label]) => (
+                      <label key={field} className="flex items-center gap-1.5">
+                        <Checkbox
+                          checked={row.requiredFields.includes(field)}
+                          onCheckedChange={(v) => updateRow(index, { requiredFields: toggle(row.requiredFields, field, v === true) })}
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+
+                  <div className="flex items-center gap-3 flex-wrap text-xs">
+                    <label className="flex items-center gap-1.5">
+                      <Checkbox
+                        checked={row.allowedTransitions === null}
+                        onCheckedChange={(v) => updateRow(index, { allowedTransitions: v === true ? null : [] })}
+                      />
+                      Can move to any status
+                    </label>
+                    {row.allowedTransitions !== null &&
+                      formState.statuses
+                        .filter((other) => other.key !== row.key)
+                        .map((other) => (
+                          <label key={other.key} className="flex items-center gap-1.5">
+                            <Checkbox
+                              checked={row.allowedTransitions!.includes(other.key)}
+                              onCheckedChange={(v) =>
+                                updateRow(index, { allowedTransitions: toggle(row.allowedTransitions ?? [], other.key, v === true) })
+                              }
+                            />
+                            {other.name}
+                          </label>
+                        ))}
+                  </div>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                A workflow needs at least one "Not started" status for new tasks and one "Done" status for completion.
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between pt-2 border-t">
+              <div>
+                <p className="text-sm">Default for new projects</p>
+                <p className="text-xs text-muted-foreground">New projects start on this workflow unless another is chosen</p>
+              </div>
+              <Switch
+                checked={formState.isDefault}
+                onCheckedChange={(v) => setFormState({ ...formState, isDefault: v })}
+                data-testid="switch-workflow-default"
+              />
+            </div>
+
+            <div className="flex gap-2 pt-4">
+              <Button className="flex-1" onClick={handleSubmit} disabled={saveMutation.isPending} data-testid="button-submit-workflow">
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                {editingSet ? "Save Changes" : "Create Workflow"}
+              </Button>
+              <Button variant="outline" onClick={closeSheet} data-testid="button-cancel-workflow">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <AlertDialog open={!!deleteSet} onOpenChange={() => setDeleteSet(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Workflow</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteSet?.projectCount
+                ? `"${deleteSet.name}" is used by ${deleteSet.projectCount} project(s). Their tasks move to the matching built-in statuses.`
+                : `This permanently removes "${deleteSet?.name}".`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete-workflow">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteSet && deleteMutation.mutate(deleteSet.id)}
+              className="bg-destructive text-destructive-foreground"
+              data-testid="button-confirm-delete-workflow"
+            >
+              {deleteMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -27,9 +27,25 @@ interface StatusBadgeProps {
   status: Status;
   showLabel?: boolean;
   size?: "sm" | "default";
+  /** The matching status of a custom project workflow, shown with its own name and color. */
+  workflowStatus?: { name: string; color: string } | null;
 }
 
-export function StatusBadge({ status, showLabel = true, size = "default" }: StatusBadgeProps) {
+export function StatusBadge({ status, showLabel = true, size = "default", workflowStatus }: StatusBadgeProps) {
+  if (workflowStatus) {
+    return (
+      <Badge
+        variant="secondary"
+        className={cn("gap-1 border-0 font-normal", size === "sm" && "px-1.5 py-0 text-[10px]")}
+        style={{ backgroundColor: `${workflowStatus.color}26`, color: workflowStatus.color }}
+        data-testid={`badge-status-${status}`}
+      >
+        <Circle className={cn("h-3 w-3 fill-current", size === "sm" && "h-2.5 w-2.5")} />
+        {showLabel && <span>{workflowStatus.name}</span>}
+      </Badge>
+    );
+  }
+
   const config = statusConfig[status] ?? statusConfig.todo;
   const Icon = config.icon;
 
@@ -26,6 +26,8 @@ import {
   Pin,
   GripVertical,
   LifeBuoy,
+  ListFilter,
+  Share2,
 } from "lucide-react";
 import {
   DndContext,
@@ -70,7 +72,7 @@ import { CreateProjectDialog } from "@/features/projects";
 import { TeamDrawer } from "@/features/teams";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import type { Project, Team, Workspace, Client, ClientDivision } from "@shared/schema";
+import type { Project, Team, Workspace, Client, ClientDivision, SavedView } from "@shared/schema";
 
 interface UiPreferences {
   sidebarProjectOrder?: string[] | null;
@@ -194,6 +196,10 @@ export function TenantSidebar() {
     queryKey: ["/api/teams"],
   });
 
+  const { data: savedViews } = useQuery<SavedView[]>({
+    queryKey: ["/api/saved-views"],
+  });
+
   const { data: clients } = useQuery<Client[]>({
     queryKey: ["/api/clients"],
   });
@@ -432,6 +438,45 @@ export function TenantSidebar() {
           </Collapsible>
         </SidebarGroup>
 
+        <SidebarGroup>
+          <Collapsible defaultOpen className="group/collapsible">
+            <div className="flex items-center justify-between pr-2">
+              <CollapsibleTrigger asChild>
+                <SidebarGroupLabel className="cursor-pointer hover-elevate rounded-md px-2 py-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                  <ChevronDown className="h-3 w-3 transition-transform group-data-[state=closed]/collapsible:-rotate-90" />
+                  <span className="ml-1">Views</span>
+                </SidebarGroupLabel>
+              </CollapsibleTrigger>
+              <Button variant="ghost" size="icon" asChild data-testid="button-add-view">
+                <Link href="/views/new">
+                  <Plus className="h-4 w-4" />
+                </Link>
+              </Button>
+            </div>
+            <CollapsibleContent>
+              <SidebarGroupContent>
+                <SidebarMenu>
+                  {savedViews?.map((view) => (
+                    <SidebarMenuItem key={view.id}>
+                      <SidebarMenuButton asChild isActive={location === `/views/${view.id}`}>
+                        <Link href={`/views/${view.id}`} data-testid={`link-view-${view.id}`}>
+                          {view.visibility === "team" ? <Share2 className="h-4 w-4" /> : <ListFilter className="h-4 w-4" />}
+                          <span className="truncate">{view.name}</span>
+                        </Link>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  ))}
+                  {(!savedViews || savedViews.length === 0) && (
+                    <div className="px-3 py-2 text-xs text-muted-foreground">
+                      No saved views yet
+                    </div>
+                  )}
+                </SidebarMenu>
+              </SidebarGroupContent>
+            </CollapsibleContent>
+          </Collapsible>
+        </SidebarGroup>
+
         <SidebarGroup>
           <Collapsible defaultOpen className="group/collapsible">
             <div className="flex items-center justify-between pr-2">
@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Copy, FileCode, KeyRound, Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { ApiTokenResource, type PublicApiToken } from "@shared/schema";
+
+type ApiTokenRow = Omit<PublicApiToken, "expiresAt" | "lastUsedAt" | "revokedAt" | "createdAt"> & {
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  userName: string;
+  userEmail: string;
+};
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "No expiry" },
+];
+
+const RESOURCES = Object.values(ApiTokenResource);
+
+function tokenState(token: ApiTokenRow): { label: string; variant: "secondary" | "destructive" | "outline" } {
+  if (token.revokedAt) return { label: "Revoked", variant: "destructive" };
+  if (token.expiresAt && new Date(token.expiresAt) <= new Date()) return { label: "Expired", variant: "outline" };
+  return { label: "Active", variant: "secondary" };
+}
+
+/** Lists, creates and revokes the current user's personal API tokens. */
+export function ApiTokensCard() {
+  const { toast } = useToast();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [expiry, setExpiry] = useState("90");
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<ApiTokenRow[]>({
+    queryKey: queryKeys.apiTokens.list(),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/api-tokens", {
+        name: name.trim(),
+        scopes,
+        expiresInDays: expiry === "never" ? null : Number(expiry),
+      });
+      return res.json() as Promise<{ token: string }>;
+    },
+    onSuccess: ({ token }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+      setCreateOpen(false);
+      setName("");
+      setScopes([]);
+      setCreatedSecret(token);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to create token", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/api-tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+      toast({ title: "Token revoked" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to revoke token", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setScopes((current) => (checked ? [...current, scope] : current.filter((s) => s !== scope)));
+  };
+
+  const copySecret = async () => {
+    if (!createdSecret) return;
+    await navigator.clipboard.writeText(createdSecret);
+    toast({ title: "Token copied to clipboard" });
+  };
+
+  return (
+    <Card data-testid="card-api-tokens">
+      <CardHeader className="flex flex-row items-start justify-between gap-3">
+        <div>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            API Tokens
+          </CardTitle>
+          <CardDescription>
+            Personal tokens for scripts and BI tools. Send them as <code>Authorization: Bearer &lt;token&gt;</code>;
+            they act as you, limited to the scopes you grant.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Button variant="ghost" size="sm" asChild>
+            <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer" data-testid="link-openapi-spec">
+              <FileCode className="h-4 w-4 mr-1" />
+              API Spec
+            </a>
+          </Button>
+          <Button size="sm" onClick={() => setCreateOpen(true)} data-testid="button-new-api-token">
+            <Plus className="h-4 w-4 mr-1" />
+            New Token
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">You have no API tokens.</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {tokens.map((token) => {
+              const state = tokenState(token);
+              return (
+                <div key={token.id} className="flex items-start justify-between gap-3 px-3 py-2" data-testid={`api-token-${token.id}`}>
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{token.name}</span>
+                      <code className="text-xs text-muted-foreground">{token.tokenPrefix}…</code>
+                      <Badge variant={state.variant}>{state.label}</Badge>
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {token.scopes.map((scope) => (
+                        <Badge key={scope} variant="outline" className="text-xs font-normal">{scope}</Badge>
+                      ))}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      Created {format(new Date(token.createdAt), "MMM d, yyyy")}
+                      {" · "}
+                      {token.expiresAt ? `Expires ${format(new Date(token.expiresAt), "MMM d, yyyy")}` : "No expiry"}
+                      {" · "}
+                      {token.lastUsedAt
+                        ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                        : "Never used"}
+                    </div>
+                  </div>
+                  {!token.revokedAt && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => revokeMutation.mutate(token.id)}
+                      disabled={revokeMutation.isPending}
+                      title="Revoke"
+                      data-testid={`button-revoke-api-token-${token.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New API Token</DialogTitle>
+            <DialogDescription>Write access to a resource includes read access.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="api-token-name">Name</Label>
+              <Input
+                id="api-token-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Weekly BI export"
+                data-testid="input-api-token-name"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger data-testid="select-api-token-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              <div className="grid grid-cols-[1fr_auto_auto] items-center gap-x-4 gap-y-2 text-sm">
+                <span />
+                <span className="text-xs text-muted-foreground">Read</span>
+                <span className="text-xs text-muted-foreground">Write</span>
+                {RESOURCES.map((resource) => (
+                  <div key={resource} className="contents">
+                    <span className="capitalize">{resource}</span>
+                    {(["read", "write"] as const).map((access) => {
+                      const scope = `${access}:${resource}`;
+                      return (
+                        <Checkbox
+                          key={scope}
+                          checked={scopes.includes(scope)}
+                          onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                          data-testid={`checkbox-scope-${access}-${resource}`}
+                        />
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+              data-testid="button-create-api-token"
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Create Token
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!createdSecret} onOpenChange={(open) => { if (!open) setCreatedSecret(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Copy your new token</DialogTitle>
+            <DialogDescription>This is the only time the token is shown. Store it somewhere safe.</DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={createdSecret ?? ""} className="font-mono text-xs" data-testid="input-api-token-secret" />
+            <Button size="icon" variant="outline" onClick={copySecret} data-testid="button-copy-api-token">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setCreatedSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1 @@
+export { ApiTokensCard } from "./api-tokens-card";
@@ -57,6 +57,7 @@ import {
   FolderInput,
   LayoutGrid,
   List,
+  MessageSquareText,
 } from "lucide-react";
 import {
   DndContext,
@@ -77,6 +78,7 @@ import {
   arrayMove,
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
+import { ProofingDialog } from "@/features/proofing";
 import { restrictToWindowEdges } from "@dnd-kit/modifiers";
 import { useDroppable } from "@dnd-kit/core";
 
@@ -551,6 +553,7 @@ export function AssetLibraryPanel({ clientId }: Props) {
   const [moveAsset, setMoveAsset] = useState<Asset | null>(null);
   const [moveTargetFolderId, setMoveTargetFolderId] = useState<string>("__root__");
   const [viewMode, setViewMode] = useState<ViewMode>("list");
+  const [proofingAsset, setProofingAsset] = useState<Asset | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const foldersQuery = useQuery<AssetFolder[]>({
@@ -1459,6 +1462,14 @@ export function AssetLibraryPanel({ clientId }: Props) {
                   Open in Context
                 </Button>
               )}
+              <Button
+                variant="outline"
+                onClick={() => { setProofingAsset(selectedAsset); setSelectedAsset(null); }}
+                data-testid="button-open-proofing"
+              >
+                <MessageSquareText className="w-4 h-4 mr-1" />
+                Proofing
+              </Button>
               <Button onClick={() => handleDownload(selectedAsset)} data-testid="button-download-asset">
                 <Download className="w-4 h-4 mr-1" />
                 Download
@@ -1467,6 +1478,11 @@ export function AssetLibraryPanel({ clientId }: Props) {
           </DialogContent>
         </Dialog>
       )}
+
+      <ProofingDialog
+        asset={proofingAsset}
+        onOpenChange={(open) => { if (!open) setProofingAsset(null); }}
+      />
     </div>
   );
 }
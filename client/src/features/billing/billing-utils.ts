@@ -0,0 +1,11 @@
+export function formatMoney(cents: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency: currency.toUpperCase() }).format(cents / 100);
+  } catch {
+    return `${(cents / 100).toFixed(2)} ${currency}`;
+  }
+}
+
+export function formatHours(seconds: number): string {
+  return `${(seconds / 3600).toFixed(2)}h`;
+}
@@ -0,0 +1,430 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, startOfMonth, endOfMonth, subMonths } from "date-fns";
+import { FileText, Plus, Loader2, Download, Receipt, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import {
+  InvoiceGroupBy,
+  InvoiceStatus,
+  type Invoice,
+  type InvoiceGroupByValue,
+  type InvoiceStatusValue,
+  type InvoiceWithLines,
+} from "@shared/schema";
+import { formatHours, formatMoney } from "./billing-utils";
+
+interface InvoicePreview {
+  currency: string | null;
+  lines: { groupKey: string | null; description: string; quantitySeconds: number; rateCents: number; amountCents: number }[];
+  totalSeconds: number;
+  subtotalCents: number;
+  unratedEntryIds: string[];
+  currencies: string[];
+}
+
+const GROUP_BY_OPTIONS: { value: InvoiceGroupByValue; label: string }[] = [
+  { value: InvoiceGroupBy.PROJECT, label: "Project" },
+  { value: InvoiceGroupBy.TASK, label: "Task" },
+  { value: InvoiceGroupBy.USER, label: "Person" },
+];
+
+function InvoiceStatusBadge({ status }: { status: string }) {
+  switch (status) {
+    case InvoiceStatus.PAID:
+      return <Badge variant="default" className="bg-green-600 text-white">Paid</Badge>;
+    case InvoiceStatus.ISSUED:
+      return <Badge variant="default">Issued</Badge>;
+    case InvoiceStatus.VOID:
+      return <Badge variant="outline" className="text-muted-foreground">Void</Badge>;
+    default:
+      return <Badge variant="secondary">Draft</Badge>;
+  }
+}
+
+function LinesTable({ lines, currency }: { lines: InvoicePreview["lines"]; currency: string }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Description</TableHead>
+          <TableHead className="text-right">Hours</TableHead>
+          <TableHead className="text-right">Rate</TableHead>
+          <TableHead className="text-right">Amount</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {lines.map((line) => (
+          <TableRow key={line.groupKey ?? "general"}>
+            <TableCell className="max-w-[220px] truncate">{line.description}</TableCell>
+            <TableCell className="text-right">{formatHours(line.quantitySeconds)}</TableCell>
+            <TableCell className="text-right">{formatMoney(line.rateCents, currency)}</TableCell>
+            <TableCell className="text-right">{formatMoney(line.amountCents, currency)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+/** Client profile section: invoices generated from the client's billable time. */
+export function ClientInvoicesPanel({ clientId }: { clientId: string }) {
+  const { toast } = useToast();
+  const lastMonth = subMonths(new Date(), 1);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [periodStart, setPeriodStart] = useState(format(startOfMonth(lastMonth), "yyyy-MM-dd"));
+  const [periodEnd, setPeriodEnd] = useState(format(endOfMonth(lastMonth), "yyyy-MM-dd"));
+  const [groupBy, setGroupBy] = useState<InvoiceGroupByValue>(InvoiceGroupBy.PROJECT);
+  const [notes, setNotes] = useState("");
+  const [preview, setPreview] = useState<InvoicePreview | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: invoices = [], isLoading } = useQuery<Invoice[]>({
+    queryKey: queryKeys.billing.invoices(clientId),
+  });
+
+  const { data: selected } = useQuery<InvoiceWithLines>({
+    queryKey: queryKeys.billing.invoice(selectedId ?? ""),
+    enabled: !!selectedId,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+
+  const request = () => ({ clientId, periodStart, periodEnd, groupBy, notes: notes.trim() || null });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/invoices/preview", request());
+      return res.json() as Promise<InvoicePreview>;
+    },
+    onSuccess: setPreview,
+    onError: (err: any) => {
+      toast({ title: "Failed to preview invoice", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/invoices", request());
+      return res.json() as Promise<InvoiceWithLines>;
+    },
+    onSuccess: (invoice) => {
+      invalidate();
+      toast({ title: "Draft invoice created", description: `${invoice.number} locks ${formatHours(invoice.totalSeconds)} of time.` });
+      setCreateOpen(false);
+      setPreview(null);
+      setNotes("");
+      setSelectedId(invoice.id);
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to create invoice", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: InvoiceStatusValue }) => {
+      const res = await apiRequest("PATCH", `/api/invoices/${id}`, { status });
+      return res.json();
+    },
+    onSuccess: () => invalidate(),
+    onError: (err: any) => {
+      toast({ title: "Failed to update invoice", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/invoices/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      setSelectedId(null);
+      toast({ title: "Draft deleted", description: "Its time entries can be invoiced again." });
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to delete invoice", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const canCreate = !!preview && preview.lines.length > 0 && preview.unratedEntryIds.length === 0 && preview.currencies.length <= 1;
+
+  return (
+    <div className="space-y-6" data-testid="client-invoices-panel">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Receipt className="h-5 w-5 text-primary" />
+              Invoices
+            </CardTitle>
+            <CardDescription>Built from uninvoiced out-of-scope time at your billing rates.</CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setCreateOpen(true)} data-testid="button-new-invoice">
+            <Plus className="h-4 w-4 mr-1" />
+            New Invoice
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : invoices.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <FileText className="h-10 w-10 mx-auto mb-3 opacity-40" />
+              <p className="text-sm">No invoices for this client yet.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Hours</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invoices.map((invoice) => (
+                  <TableRow
+                    key={invoice.id}
+                    className="cursor-pointer"
+                    onClick={() => setSelectedId(invoice.id)}
+                    data-testid={`invoice-row-${invoice.id}`}
+                  >
+                    <TableCell className="font-medium">{invoice.number}</TableCell>
+                    <TableCell>{invoice.periodStart} – {invoice.periodEnd}</TableCell>
+                    <TableCell><InvoiceStatusBadge status={invoice.status} /></TableCell>
+                    <TableCell className="text-right">{formatHours(invoice.totalSeconds)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(invoice.subtotalCents, invoice.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={createOpen} onOpenChange={(open) => { setCreateOpen(open); if (!open) setPreview(null); }}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Invoice</DialogTitle>
+            <DialogDescription>
+              Uninvoiced out-of-scope time in the period is priced with the most specific matching rate card.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <Label htmlFor="invoice-period-start">From</Label>
+              <Input
+                id="invoice-period-start"
+                type="date"
+                value={periodStart}
+                onChange={(e) => { setPeriodStart(e.target.value); setPreview(null); }}
+                data-testid="input-invoice-period-start"
+              />
+            </div>
+            <div>
+              <Label htmlFor="invoice-period-end">To</Label>
+              <Input
+                id="invoice-period-end"
+                type="date"
+                value={periodEnd}
+                onChange={(e) => { setPeriodEnd(e.target.value); setPreview(null); }}
+                data-testid="input-invoice-period-end"
+              />
+            </div>
+            <div>
+              <Label>Group lines by</Label>
+              <Select value={groupBy} onValueChange={(v) => { setGroupBy(v as InvoiceGroupByValue); setPreview(null); }}>
+                <SelectTrigger data-testid="select-invoice-group-by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GROUP_BY_OPTIONS.map((opt) => (
+                    <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="invoice-notes">Notes (optional)</Label>
+            <Textarea
+              id="invoice-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              data-testid="input-invoice-notes"
+            />
+          </div>
+
+          {preview && (
+            <div className="space-y-3">
+              {preview.unratedEntryIds.length > 0 && (
+                <div className="flex items-center gap-2 text-sm text-destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  {preview.unratedEntryIds.length} time {preview.unratedEntryIds.length === 1 ? "entry has" : "entries have"} no applicable billing rate.
+                </div>
+              )}
+              {preview.currencies.length > 1 && (
+                <div className="flex items-center gap-2 text-sm text-destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  Rates use more than one currency ({preview.currencies.join(", ")}).
+                </div>
+              )}
+              {preview.lines.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No uninvoiced billable time in this period.</p>
+              ) : (
+                <>
+                  <LinesTable lines={preview.lines} currency={preview.currency ?? "USD"} />
+                  <div className="flex justify-between text-sm font-medium px-2">
+                    <span>Total {formatHours(preview.totalSeconds)}</span>
+                    <span>{formatMoney(preview.subtotalCents, preview.currency ?? "USD")}</span>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => previewMutation.mutate()}
+              disabled={previewMutation.isPending}
+              data-testid="button-preview-invoice"
+            >
+              {previewMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Preview
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!canCreate || createMutation.isPending}
+              data-testid="button-create-invoice"
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Create Draft
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Sheet open={!!selectedId} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <SheetContent className="sm:max-w-xl overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle className="flex items-center gap-2">
+              {selected?.number ?? "Invoice"}
+              {selected && <InvoiceStatusBadge status={selected.status} />}
+            </SheetTitle>
+            <SheetDescription>
+              {selected ? `${selected.periodStart} – ${selected.periodEnd}` : "Loading..."}
+            </SheetDescription>
+          </SheetHeader>
+
+          {selected && (
+            <div className="space-y-5 mt-6">
+              <LinesTable lines={selected.lines} currency={selected.currency} />
+              <div className="flex justify-between text-sm font-medium px-2">
+                <span>Total {formatHours(selected.totalSeconds)}</span>
+                <span>{formatMoney(selected.subtotalCents, selected.currency)}</span>
+              </div>
+              {selected.notes && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{selected.notes}</p>}
+
+              <div className="flex flex-wrap gap-2 pt-2 border-t">
+                <Button variant="outline" size="sm" asChild>
+                  <a href={`/api/invoices/${selected.id}/export?format=pdf`} data-testid="link-invoice-pdf">
+                    <Download className="h-4 w-4 mr-1" />
+                    PDF
+                  </a>
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <a href={`/api/invoices/${selected.id}/export?format=csv`} data-testid="link-invoice-csv">
+                    <Download className="h-4 w-4 mr-1" />
+                    CSV
+                  </a>
+                </Button>
+                {selected.status === InvoiceStatus.DRAFT && (
+                  <Button
+                    size="sm"
+                    onClick={() => statusMutation.mutate({ id: selected.id, status: InvoiceStatus.ISSUED })}
+                    disabled={statusMutation.isPending}
+                    data-testid="button-issue-invoice"
+                  >
+                    Issue
+                  </Button>
+                )}
+                {selected.status === InvoiceStatus.ISSUED && (
+                  <Button
+                    size="sm"
+                    onClick={() => statusMutation.mutate({ id: selected.id, status: InvoiceStatus.PAID })}
+                    disabled={statusMutation.isPending}
+                    data-testid="button-mark-paid"
+                  >
+                    Mark Paid
+                  </Button>
+                )}
+                {(selected.status === InvoiceStatus.DRAFT || selected.status === InvoiceStatus.ISSUED) && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => statusMutation.mutate({ id: selected.id, status: InvoiceStatus.VOID })}
+                    disabled={statusMutation.isPending}
+                    data-testid="button-void-invoice"
+                  >
+                    Void
+                  </Button>
+                )}
+                {selected.status === InvoiceStatus.DRAFT && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-destructive"
+                    onClick={() => deleteMutation.mutate(selected.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid="button-delete-invoice"
+                  >
+                    Delete Draft
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+}
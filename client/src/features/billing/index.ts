@@ -0,0 +1,2 @@
+export { ClientInvoicesPanel } from "./client-invoices-panel";
+export { formatHours, formatMoney } from "./billing-utils";
@@ -0,0 +1,55 @@
+import { addDays, format, parseISO } from "date-fns";
+import { TimeOffStatus, TimeOffType, type TimeOffRequest } from "@shared/schema";
+
+/** A time-off request as returned by GET /api/time-off. */
+export interface TimeOffListItem extends Omit<TimeOffRequest, "createdAt" | "updatedAt" | "reviewedAt"> {
+  userName: string | null;
+  userEmail: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+export const TIME_OFF_STATUS_LABELS: Record<string, string> = {
+  [TimeOffStatus.PENDING]: "Pending",
+  [TimeOffStatus.APPROVED]: "Approved",
+  [TimeOffStatus.REJECTED]: "Rejected",
+  [TimeOffStatus.CANCELLED]: "Cancelled",
+};
+
+export const TIME_OFF_TYPE_LABELS: Record<string, string> = {
+  [TimeOffType.VACATION]: "Vacation",
+  [TimeOffType.SICK]: "Sick leave",
+  [TimeOffType.PERSONAL]: "Personal",
+  [TimeOffType.OTHER]: "Other",
+};
+
+export function formatDateRange(startDate: string, endDate: string): string {
+  const start = parseISO(startDate);
+  if (startDate === endDate) return format(start, "EEE, MMM d, yyyy");
+  return `${format(start, "MMM d")} – ${format(parseISO(endDate), "MMM d, yyyy")}`;
+}
+
+/** "Full day" or the partial hours per day. */
+export function formatDayPortion(minutesPerDay: number | null): string {
+  if (minutesPerDay === null) return "Full day";
+  return `${Math.round((minutesPerDay / 60) * 10) / 10}h / day`;
+}
+
+/** Exclusive end date for an all-day calendar event covering through `endDate`. */
+export function allDayEnd(endDate: string): string {
+  return format(addDays(parseISO(endDate), 1), "yyyy-MM-dd");
+}
+
+export function minutesToHours(minutes: number): number {
+  return Math.round((minutes / 60) * 100) / 100;
+}
+
+export function invalidateTimeOff(queryClient: { invalidateQueries: (filters: { queryKey: readonly unknown[] }) => unknown }) {
+  queryClient.invalidateQueries({ queryKey: ["/api/time-off"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/my-calendar/events"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/calendar/events"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/timesheets/week"] });
+}
@@ -0,0 +1,12 @@
+export { MyTimeOffPanel } from "./my-time-off-panel";
+export { TimeOffApprovalQueue } from "./time-off-approval-queue";
+export { TimeOffStatusBadge } from "./time-off-status-badge";
+export {
+  TIME_OFF_TYPE_LABELS,
+  WEEKDAY_LABELS,
+  allDayEnd,
+  formatDateRange,
+  formatDayPortion,
+  minutesToHours,
+  type TimeOffListItem,
+} from "./capacity-utils";
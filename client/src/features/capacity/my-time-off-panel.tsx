@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CalendarOff, Loader2, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { TimeOffStatus, TimeOffType } from "@shared/schema";
+import { TimeOffStatusBadge } from "./time-off-status-badge";
+import {
+  TIME_OFF_TYPE_LABELS,
+  formatDateRange,
+  formatDayPortion,
+  invalidateTimeOff,
+  type TimeOffListItem,
+} from "./capacity-utils";
+
+interface RequestFormState {
+  type: string;
+  startDate: string;
+  endDate: string;
+  partialDay: boolean;
+  hoursPerDay: string;
+  note: string;
+}
+
+function emptyForm(): RequestFormState {
+  const today = format(new Date(), "yyyy-MM-dd");
+  return { type: TimeOffType.VACATION, startDate: today, endDate: today, partialDay: false, hoursPerDay: "4", note: "" };
+}
+
+/** The current user's time-off requests, with a form to request more and cancel existing ones. */
+export function MyTimeOffPanel() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<RequestFormState>(emptyForm);
+
+  const { data: requests = [], isLoading } = useQuery<TimeOffListItem[]>({
+    queryKey: queryKeys.capacity.timeOff({ userId: user?.id }),
+    enabled: !!user?.id,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (state: RequestFormState) => {
+      const res = await apiRequest("POST", "/api/time-off", {
+        type: state.type,
+        startDate: state.startDate,
+        endDate: state.endDate,
+        minutesPerDay: state.partialDay ? Math.round(Number(state.hoursPerDay) * 60) : null,
+        note: state.note.trim() || null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateTimeOff(queryClient);
+      toast({ title: "Time off requested", description: "An admin has been asked to approve it." });
+      setOpen(false);
+      setForm(emptyForm());
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to request time off", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/time-off/${id}/cancel`);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateTimeOff(queryClient);
+      toast({ title: "Time off cancelled" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to cancel time off", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const hours = Number(form.hoursPerDay);
+  const isValid = !!form.startDate && !!form.endDate && form.endDate >= form.startDate &&
+    (!form.partialDay || (hours >= 0.25 && hours <= 24));
+
+  return (
+    <Card data-testid="my-time-off-panel">
+      <CardHeader className="flex flex-row items-start justify-between gap-3">
+        <div>
+          <CardTitle>Time Off</CardTitle>
+          <CardDescription>Approved time off reduces your capacity in timesheets and workload reports.</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setOpen(true)} data-testid="button-request-time-off">
+          <Plus className="h-4 w-4 mr-1" />
+          Request Time Off
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : requests.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
+            <CalendarOff className="h-8 w-8 mb-2" />
+            <p className="text-sm">No time off requested yet.</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Dates</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Comment</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requests.map((request) => (
+                <TableRow key={request.id} data-testid={`time-off-row-${request.id}`}>
+                  <TableCell>
+                    <div className="font-medium">{formatDateRange(request.startDate, request.endDate)}</div>
+                    <div className="text-xs text-muted-foreground">{formatDayPortion(request.minutesPerDay)}</div>
+                  </TableCell>
+                  <TableCell>{TIME_OFF_TYPE_LABELS[request.type] ?? request.type}</TableCell>
+                  <TableCell><TimeOffStatusBadge status={request.status} /></TableCell>
+                  <TableCell className="max-w-xs text-sm text-muted-foreground">
+                    {request.reviewComment || request.note || "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {(request.status === TimeOffStatus.PENDING || request.status === TimeOffStatus.APPROVED) && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => cancelMutation.mutate(request.id)}
+                        disabled={cancelMutation.isPending}
+                        data-testid={`button-cancel-time-off-${request.id}`}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Cancel
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) setForm(emptyForm()); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request Time Off</DialogTitle>
+            <DialogDescription>Your request is sent to the workspace admins for approval.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Type</Label>
+              <Select value={form.type} onValueChange={(type) => setForm({ ...form, type })}>
+                <SelectTrigger data-testid="select-time-off-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TIME_OFF_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="time-off-start">From</Label>
+                <Input
+                  id="time-off-start"
+                  type="date"
+                  value={form.startDate}
+                  onChange={(e) => setForm({
+                    ...form,
+                    startDate: e.target.value,
+                    endDate: form.endDate < e.target.value ? e.target.value : form.endDate,
+                  })}
+                  data-testid="input-time-off-start"
+                />
+              </div>
+              <div>
+                <Label htmlFor="time-off-end">To</Label>
+                <Input
+                  id="time-off-end"
+                  type="date"
+                  value={form.endDate}
+                  min={form.startDate}
+                  onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                  data-testid="input-time-off-end"
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <Label htmlFor="time-off-partial">Part of each day only</Label>
+              <Switch
+                id="time-off-partial"
+                checked={form.partialDay}
+                onCheckedChange={(partialDay) => setForm({ ...form, partialDay })}
+                data-testid="switch-time-off-partial"
+              />
+            </div>
+            {form.partialDay && (
+              <div>
+                <Label htmlFor="time-off-hours">Hours per day</Label>
+                <Input
+                  id="time-off-hours"
+                  type="number"
+                  min={0.25}
+                  max={24}
+                  step={0.25}
+                  value={form.hoursPerDay}
+                  onChange={(e) => setForm({ ...form, hoursPerDay: e.target.value })}
+                  data-testid="input-time-off-hours"
+                />
+              </div>
+            )}
+            <div>
+              <Label htmlFor="time-off-note">Note</Label>
+              <Textarea
+                id="time-off-note"
+                value={form.note}
+                onChange={(e) => setForm({ ...form, note: e.target.value })}
+                placeholder="Optional context for your approver"
+                rows={2}
+                data-testid="input-time-off-note"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => createMutation.mutate(form)}
+              disabled={!isValid || createMutation.isPending}
+              data-testid="button-submit-time-off"
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Submit Request
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
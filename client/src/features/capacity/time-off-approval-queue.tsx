@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Check, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { TimeOffStatus } from "@shared/schema";
+import {
+  TIME_OFF_TYPE_LABELS,
+  formatDateRange,
+  formatDayPortion,
+  invalidateTimeOff,
+  type TimeOffListItem,
+} from "./capacity-utils";
+
+/** Admin queue of pending time-off requests with approve / reject. */
+export function TimeOffApprovalQueue() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [rejecting, setRejecting] = useState<TimeOffListItem | null>(null);
+  const [comment, setComment] = useState("");
+
+  const { data: requests = [], isLoading } = useQuery<TimeOffListItem[]>({
+    queryKey: queryKeys.capacity.timeOff({ status: TimeOffStatus.PENDING }),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, status, comment }: { id: string; status: string; comment?: string }) => {
+      const res = await apiRequest("POST", `/api/time-off/${id}/review`, { status, comment });
+      return res.json();
+    },
+    onSuccess: (_data, vars) => {
+      invalidateTimeOff(queryClient);
+      toast({ title: vars.status === TimeOffStatus.APPROVED ? "Time off approved" : "Time off rejected" });
+      setRejecting(null);
+      setComment("");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to review time off", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card data-testid="time-off-approval-queue">
+      <CardHeader>
+        <CardTitle>Time Off Approvals</CardTitle>
+        <CardDescription>Pending requests from your team.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : requests.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">Nothing waiting for approval.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Person</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Note</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requests.map((request) => (
+                <TableRow key={request.id} data-testid={`time-off-approval-row-${request.id}`}>
+                  <TableCell className="font-medium">{request.userName || request.userEmail}</TableCell>
+                  <TableCell>
+                    <div>{formatDateRange(request.startDate, request.endDate)}</div>
+                    <div className="text-xs text-muted-foreground">{formatDayPortion(request.minutesPerDay)}</div>
+                  </TableCell>
+                  <TableCell>{TIME_OFF_TYPE_LABELS[request.type] ?? request.type}</TableCell>
+                  <TableCell className="max-w-xs text-sm text-muted-foreground">{request.note || "—"}</TableCell>
+                  <TableCell className="text-right">
+                    {request.userId !== user?.id && (
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => reviewMutation.mutate({ id: request.id, status: TimeOffStatus.APPROVED })}
+                          disabled={reviewMutation.isPending}
+                          data-testid={`button-approve-time-off-${request.id}`}
+                        >
+                          <Check className="h-4 w-4 mr-1" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setRejecting(request)}
+                          data-testid={`button-reject-time-off-${request.id}`}
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => { if (!open) { setRejecting(null); setComment(""); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Time Off</DialogTitle>
+            <DialogDescription>
+              {rejecting && `${rejecting.userName || rejecting.userEmail} will be notified.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="time-off-reject-comment">Comment</Label>
+            <Textarea
+              id="time-off-reject-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Why can't this be approved?"
+              rows={3}
+              data-testid="input-time-off-reject-comment"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              onClick={() => rejecting && reviewMutation.mutate({
+                id: rejecting.id,
+                status: TimeOffStatus.REJECTED,
+                comment: comment.trim() || undefined,
+              })}
+              disabled={reviewMutation.isPending}
+              data-testid="button-confirm-reject-time-off"
+            >
+              {reviewMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
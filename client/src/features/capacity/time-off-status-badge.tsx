@@ -0,0 +1,17 @@
+import { Badge } from "@/components/ui/badge";
+import { TimeOffStatus } from "@shared/schema";
+import { TIME_OFF_STATUS_LABELS } from "./capacity-utils";
+
+export function TimeOffStatusBadge({ status }: { status: string }) {
+  const label = TIME_OFF_STATUS_LABELS[status] ?? status;
+  switch (status) {
+    case TimeOffStatus.APPROVED:
+      return <Badge className="bg-green-600 text-white" data-testid="badge-time-off-status">{label}</Badge>;
+    case TimeOffStatus.PENDING:
+      return <Badge variant="default" data-testid="badge-time-off-status">{label}</Badge>;
+    case TimeOffStatus.REJECTED:
+      return <Badge variant="destructive" data-testid="badge-time-off-status">{label}</Badge>;
+    default:
+      return <Badge variant="secondary" data-testid="badge-time-off-status">{label}</Badge>;
+  }
+}
@@ -43,10 +43,10 @@ export const SLASH_COMMANDS: SlashCommand[] = [
   {
     name: "remind",
     description: "Set a reminder notification",
-    usage: "/remind in 30 minutes Check deployment",
+    usage: "/remind tomorrow 9am Check deployment",
     icon: Bell,
     requiresArgs: true,
-    argPlaceholder: "in <time> <message>",
+    argPlaceholder: "<when> <message>",
     category: "utility",
   },
   {
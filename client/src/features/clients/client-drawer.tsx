@@ -25,6 +25,7 @@ import {
 } from "@/components/ui/select";
 import { Building2 } from "lucide-react";
 import type { Client } from "@shared/schema";
+import { CustomFieldsSection } from "@/features/customFields";
 
 const clientSchema = z.object({
   companyName: z.string().min(1, "Company name is required"),
@@ -315,6 +316,10 @@ export function ClientDrawer({
           />
         </form>
       </Form>
+
+      {mode === "edit" && client && (
+        <CustomFieldsSection entityType="client" entityId={client.id} className="mt-6" />
+      )}
     </FullScreenDrawer>
   );
 }
@@ -13,6 +13,7 @@ import {
   Globe,
   PackageOpen,
   Settings2,
+  Receipt,
 } from "lucide-react";
 
 export interface ClientProfileSection {
@@ -23,6 +24,7 @@ export interface ClientProfileSection {
   primary: boolean;
   requiresCrmFlag?: keyof CrmFlagRequirements;
   requiresFeatureFlag?: keyof FeatureFlagRequirements;
+  requiresAdmin?: boolean;
   badgeText?: string;
   isControlCenter?: boolean;
 }
@@ -57,15 +59,18 @@ export const ALL_CLIENT_PROFILE_SECTIONS: ClientProfileSection[] = [
   { id: "messages", label: "Messages", icon: MessageSquare, testId: "tab-messages", primary: false, requiresCrmFlag: "clientMessaging" },
   { id: "portal", label: "Portal Users", icon: Globe, testId: "tab-portal", primary: false },
   { id: "asset-library", label: "Asset Library", icon: PackageOpen, testId: "tab-asset-library", primary: true, requiresFeatureFlag: "assetLibraryV2" },
+  { id: "invoices", label: "Invoices", icon: Receipt, testId: "tab-invoices", primary: false, requiresAdmin: true },
 ];
 
 export function getVisibleSections(
   crmFlags: Partial<CrmFlagRequirements>,
   featureFlags: Partial<FeatureFlagRequirements>,
+  options: { isAdmin?: boolean } = {},
 ): ClientProfileSection[] {
   return ALL_CLIENT_PROFILE_SECTIONS.filter((section) => {
     if (section.requiresCrmFlag && !crmFlags[section.requiresCrmFlag]) return false;
     if (section.requiresFeatureFlag && !featureFlags[section.requiresFeatureFlag]) return false;
+    if (section.requiresAdmin && !options.isAdmin) return false;
     return true;
   });
 }
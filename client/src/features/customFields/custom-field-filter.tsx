@@ -0,0 +1,149 @@
+import { useCallback, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { SlidersHorizontal, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { queryKeys } from "@/lib/queryKeys";
+import { CustomFieldType, type CustomFieldDefinition, type CustomFieldEntityTypeValue } from "@shared/schema";
+import { matchesCustomFieldFilters, type CustomFieldValueMap } from "@shared/customFields";
+import { userDisplayName, type CustomFieldUserOption } from "./custom-field-input";
+
+const ANY = "__any__";
+
+const FILTER_PLACEHOLDERS: Record<string, string> = {
+  [CustomFieldType.NUMBER]: "e.g. 10 or 5..20",
+  [CustomFieldType.CURRENCY]: "e.g. 1000.. or ..500",
+  [CustomFieldType.DATE]: "e.g. 2025-01-01..2025-03-31",
+  [CustomFieldType.TEXT]: "Contains...",
+  [CustomFieldType.URL]: "Contains...",
+};
+
+/**
+ * Custom-field filter state for a list view: definitions, bulk values and a predicate over
+ * entity ids. Tasks are scoped to a project when `projectId` is given.
+ */
+export function useCustomFieldFilter(entityType: CustomFieldEntityTypeValue, projectId?: string) {
+  const [filters, setFilters] = useState<Record<string, string>>({});
+
+  const { data: definitions = [] } = useQuery<CustomFieldDefinition[]>({
+    queryKey: queryKeys.customFields.definitions(entityType),
+  });
+
+  const activeCount = Object.values(filters).filter((f) => f.trim()).length;
+
+  const { data: values = {} } = useQuery<Record<string, CustomFieldValueMap>>({
+    queryKey: queryKeys.customFields.valuesForList(entityType, projectId),
+    enabled: activeCount > 0,
+  });
+
+  const matches = useCallback(
+    (entityId: string) => activeCount === 0 || matchesCustomFieldFilters(definitions, values[entityId], filters),
+    [activeCount, definitions, values, filters],
+  );
+
+  return { definitions, filters, setFilters, activeCount, matches };
+}
+
+interface CustomFieldFilterButtonProps {
+  definitions: CustomFieldDefinition[];
+  filters: Record<string, string>;
+  onChange: (filters: Record<string, string>) => void;
+}
+
+/** Popover with one filter input per custom field; hidden when the tenant has no fields. */
+export function CustomFieldFilterButton({ definitions, filters, onChange }: CustomFieldFilterButtonProps) {
+  const hasUserField = definitions.some((d) => d.fieldType === CustomFieldType.USER);
+  const { data: users = [] } = useQuery<CustomFieldUserOption[]>({
+    queryKey: ["/api/users"],
+    enabled: hasUserField,
+  });
+
+  const activeCount = useMemo(() => Object.values(filters).filter((f) => f.trim()).length, [filters]);
+
+  if (definitions.length === 0) return null;
+
+  const setFilter = (key: string, value: string) => {
+    const next = { ...filters };
+    if (value.trim()) next[key] = value;
+    else delete next[key];
+    onChange(next);
+  };
+
+  const renderInput = (field: CustomFieldDefinition) => {
+    const current = filters[field.key] ?? "";
+    const selectOptions =
+      field.fieldType === CustomFieldType.USER
+        ? users.map((u) => ({ value: u.id, label: userDisplayName(u) }))
+        : field.fieldType === CustomFieldType.SELECT || field.fieldType === CustomFieldType.MULTI_SELECT
+          ? field.options.map((o) => ({ value: o, label: o }))
+          : null;
+
+    if (selectOptions) {
+      return (
+        <Select value={current || ANY} onValueChange={(v) => setFilter(field.key, v === ANY ? "" : v)}>
+          <SelectTrigger className="h-8" data-testid={`filter-custom-field-${field.key}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any</SelectItem>
+            <SelectItem value="!">Not set</SelectItem>
+            {selectOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        value={current}
+        onChange={(e) => setFilter(field.key, e.target.value)}
+        placeholder={FILTER_PLACEHOLDERS[field.fieldType]}
+        className="h-8"
+        data-testid={`filter-custom-field-${field.key}`}
+      />
+    );
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1.5" data-testid="button-custom-field-filters">
+          <SlidersHorizontal className="h-3.5 w-3.5" />
+          Fields
+          {activeCount > 0 && (
+            <Badge variant="secondary" className="h-4 px-1 text-[10px]">{activeCount}</Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">Filter by custom fields</span>
+          {activeCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => onChange({})}>
+              <X className="h-3 w-3 mr-1" />
+              Clear
+            </Button>
+          )}
+        </div>
+        {definitions.map((field) => (
+          <div key={field.id} className="space-y-1">
+            <Label className="text-xs text-muted-foreground">{field.label}</Label>
+            {renderInput(field)}
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
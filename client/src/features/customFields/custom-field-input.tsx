@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { CustomFieldType, type CustomFieldDefinition } from "@shared/schema";
+import type { CustomFieldValue } from "@shared/customFields";
+
+export interface CustomFieldUserOption {
+  id: string;
+  email: string;
+  firstName?: string | null;
+  lastName?: string | null;
+}
+
+interface CustomFieldInputProps {
+  field: CustomFieldDefinition;
+  value: CustomFieldValue | undefined;
+  users?: CustomFieldUserOption[];
+  onCommit: (value: CustomFieldValue | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const NONE = "__none__";
+
+export function userDisplayName(user: CustomFieldUserOption): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email;
+}
+
+/**
+ * Editor for a single custom field value. Free-text inputs commit on blur; pickers commit on
+ * change. Committing an empty value clears the field.
+ */
+export function CustomFieldInput({ field, value, users = [], onCommit, disabled, className }: CustomFieldInputProps) {
+  const [draft, setDraft] = useState(value === undefined ? "" : String(value));
+
+  useEffect(() => {
+    setDraft(value === undefined ? "" : String(value));
+  }, [value]);
+
+  const commitDraft = () => {
+    const current = value === undefined ? "" : String(value);
+    if (draft.trim() === current) return;
+    onCommit(draft.trim() === "" ? null : draft.trim());
+  };
+
+  const testId = `custom-field-${field.key}`;
+
+  switch (field.fieldType) {
+    case CustomFieldType.SELECT:
+      return (
+        <Select
+          value={typeof value === "string" ? value : NONE}
+          onValueChange={(v) => onCommit(v === NONE ? null : v)}
+          disabled={disabled}
+        >
+          <SelectTrigger className={className} data-testid={testId}>
+            <SelectValue placeholder="Select..." />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>None</SelectItem>
+            {field.options.map((option) => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+
+    case CustomFieldType.MULTI_SELECT: {
+      const selected = Array.isArray(value) ? value : [];
+      const toggle = (option: string) => {
+        const next = selected.includes(option)
+          ? selected.filter((o) => o !== option)
+          : [...selected, option];
+        onCommit(next.length > 0 ? next : null);
+      };
+      return (
+        <div className={cn("flex flex-wrap gap-1.5", className)} data-testid={testId}>
+          {field.options.map((option) => (
+            <Badge
+              key={option}
+              variant={selected.includes(option) ? "default" : "outline"}
+              className={cn("cursor-pointer select-none toggle-elevate", disabled && "pointer-events-none opacity-60")}
+              onClick={() => toggle(option)}
+            >
+              {option}
+            </Badge>
+          ))}
+        </div>
+      );
+    }
+
+    case CustomFieldType.USER:
+      return (
+        <Select
+          value={typeof value === "string" ? value : NONE}
+          onValueChange={(v) => onCommit(v === NONE ? null : v)}
+          disabled={disabled}
+        >
+          <SelectTrigger className={className} data-testid={testId}>
+            <SelectValue placeholder="Select user..." />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>None</SelectItem>
+            {users.map((user) => (
+              <SelectItem key={user.id} value={user.id}>{userDisplayName(user)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+
+    case CustomFieldType.DATE:
+      return (
+        <Input
+          type="date"
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            onCommit(e.target.value || null);
+          }}
+          disabled={disabled}
+          className={className}
+          data-testid={testId}
+        />
+      );
+
+    case CustomFieldType.NUMBER:
+    case CustomFieldType.CURRENCY:
+      return (
+        <div className={cn("flex items-center gap-2", className)}>
+          <Input
+            type="number"
+            step={field.fieldType === CustomFieldType.CURRENCY ? "0.01" : "any"}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commitDraft}
+            disabled={disabled}
+            data-testid={testId}
+          />
+          {field.fieldType === CustomFieldType.CURRENCY && field.currencyCode && (
+            <span className="text-xs text-muted-foreground shrink-0">{field.currencyCode}</span>
+          )}
+        </div>
+      );
+
+    default:
+      return (
+        <Input
+          type={field.fieldType === CustomFieldType.URL ? "url" : "text"}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commitDraft}
+          placeholder={field.fieldType === CustomFieldType.URL ? "https://" : undefined}
+          disabled={disabled}
+          className={className}
+          data-testid={testId}
+        />
+      );
+  }
+}
@@ -0,0 +1,78 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { SlidersHorizontal } from "lucide-react";
+import { FormFieldWrapper } from "@/components/forms";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { cn } from "@/lib/utils";
+import type { CustomFieldDefinition, CustomFieldEntityTypeValue } from "@shared/schema";
+import type { CustomFieldValue, CustomFieldValueMap } from "@shared/customFields";
+import { CustomFieldInput, type CustomFieldUserOption } from "./custom-field-input";
+
+interface CustomFieldsSectionProps {
+  entityType: CustomFieldEntityTypeValue;
+  entityId: string;
+  readOnly?: boolean;
+  className?: string;
+}
+
+/** Drawer section listing the tenant's custom fields for an entity; renders nothing when none are defined. */
+export function CustomFieldsSection({ entityType, entityId, readOnly, className }: CustomFieldsSectionProps) {
+  const { toast } = useToast();
+
+  const { data: definitions = [] } = useQuery<CustomFieldDefinition[]>({
+    queryKey: queryKeys.customFields.definitions(entityType),
+  });
+
+  const valuesKey = queryKeys.customFields.values(entityType, entityId);
+  const { data: values = {} } = useQuery<CustomFieldValueMap>({
+    queryKey: valuesKey,
+    enabled: definitions.length > 0,
+  });
+
+  const hasUserField = definitions.some((d) => d.fieldType === "user");
+  const { data: users = [] } = useQuery<CustomFieldUserOption[]>({
+    queryKey: ["/api/users"],
+    enabled: hasUserField,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (patch: Record<string, CustomFieldValue | null>) => {
+      const res = await apiRequest("PUT", `/api/custom-fields/values/${entityType}/${entityId}`, { values: patch });
+      return res.json() as Promise<CustomFieldValueMap>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(valuesKey, updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/custom-fields/values", entityType] });
+    },
+    onError: (err: Error) => {
+      queryClient.invalidateQueries({ queryKey: valuesKey });
+      toast({ title: "Failed to save field", description: err.message, variant: "destructive" });
+    },
+  });
+
+  if (definitions.length === 0) return null;
+
+  return (
+    <div className={cn("grid grid-cols-1 sm:grid-cols-2 gap-4", className)} data-testid="custom-fields-section">
+      {definitions.map((field) => (
+        <FormFieldWrapper
+          key={field.id}
+          label={field.label}
+          labelIcon={<SlidersHorizontal className="h-3.5 w-3.5" />}
+          required={field.isRequired}
+          helpText={field.description ?? undefined}
+        >
+          <CustomFieldInput
+            field={field}
+            value={values[field.key]}
+            users={users}
+            disabled={readOnly || saveMutation.isPending}
+            onCommit={(value) => saveMutation.mutate({ [field.key]: value })}
+            className="h-8"
+          />
+        </FormFieldWrapper>
+      ))}
+    </div>
+  );
+}
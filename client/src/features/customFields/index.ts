@@ -0,0 +1,4 @@
+export { CustomFieldInput, userDisplayName } from "./custom-field-input";
+export type { CustomFieldUserOption } from "./custom-field-input";
+export { CustomFieldsSection } from "./custom-fields-section";
+export { CustomFieldFilterButton, useCustomFieldFilter } from "./custom-field-filter";
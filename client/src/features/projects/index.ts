@@ -3,6 +3,7 @@ export { ProjectDetailDrawer } from "./project-detail-drawer";
 export { ProjectSettingsSheet } from "./project-settings-sheet";
 export { ProjectMembersSheet } from "./project-members-sheet";
 export { ProjectCalendar } from "./project-calendar";
+export { ProjectTimeline } from "./project-timeline";
 export { ProjectActivityFeed } from "./project-activity-feed";
 export { CreateProjectDialog } from "./create-project-dialog";
 export { AIProjectPlanner } from "./ai-project-planner";
@@ -39,6 +39,7 @@ interface CalendarEvent {
   assignees: { user?: User }[];
   tags: { tag?: Tag }[];
   isSubtask: boolean;
+  isBlocked?: boolean;
 }
 
 interface ProjectCalendarProps {
@@ -167,7 +168,7 @@ export function ProjectCalendar({
   const fullCalendarEvents = useMemo(() => {
     return filteredEvents.map((event) => ({
       id: event.id,
-      title: event.isSubtask ? `↳ ${event.title}` : event.title,
+      title: `${event.isBlocked ? "⛔ " : ""}${event.isSubtask ? `↳ ${event.title}` : event.title}`,
       start: event.dueDate ? new Date(event.dueDate) : undefined,
       allDay: true,
       backgroundColor: statusColors[event.status] || "#6B7280",
@@ -175,6 +176,7 @@ export function ProjectCalendar({
       textColor: "#FFFFFF",
       extendedProps: {
         isSubtask: event.isSubtask,
+        isBlocked: !!event.isBlocked,
         parentTaskId: event.parentTaskId,
         status: event.status,
         priority: event.priority,
@@ -47,6 +47,8 @@ import { Tooltip as UITooltip, TooltipContent, TooltipTrigger } from "@/componen
 import type { Project, Client, Team, TaskWithRelations } from "@shared/schema";
 import { ProjectNotesTab } from "@/components/project-notes-tab";
 import { ShareModal } from "@/features/sharing/share-modal";
+import { CustomFieldsSection } from "@/features/customFields";
+import { ProjectWorkflowCard, isDoneStatus, useProjectWorkflow } from "@/features/workflows";
 
 interface ProjectAnalytics {
   projectId: string;
@@ -154,6 +156,8 @@ export function ProjectDetailDrawer({ project, open, onOpenChange, onEdit }: Pro
     staleTime: 30000,
   });
 
+  const workflowStatuses = useProjectWorkflow(open ? project?.id : null);
+
   const [budgetInput, setBudgetInput] = useState<string>("");
 
   const updateProjectMutation = useMutation({
@@ -173,8 +177,8 @@ export function ProjectDetailDrawer({ project, open, onOpenChange, onEdit }: Pro
   const client = clients?.find(c => c.id === currentProject.clientId);
   const team = teams?.find(t => t.id === currentProject.teamId);
 
-  const openTasks = tasks?.filter(t => t.status !== "done") || [];
-  const completedTasks = tasks?.filter(t => t.status === "done") || [];
+  const openTasks = tasks?.filter(t => !isDoneStatus(t.status, workflowStatuses)) || [];
+  const completedTasks = tasks?.filter(t => isDoneStatus(t.status, workflowStatuses)) || [];
   const overdueTasks = openTasks.filter(t => t.dueDate && new Date(t.dueDate) < new Date());
 
   return (
@@ -335,6 +339,13 @@ export function ProjectDetailDrawer({ project, open, onOpenChange, onEdit }: Pro
               </CardContent>
             </Card>
 
+            <ProjectWorkflowCard
+              projectId={currentProject.id}
+              canEdit={user?.role === "admin" || isSuperUser}
+            />
+
+            <CustomFieldsSection entityType="project" entityId={currentProject.id} />
+
             <div className="flex gap-2">
               <Button variant="outline" className="flex-1" asChild>
                 <Link href={`/projects/${currentProject.id}`}>
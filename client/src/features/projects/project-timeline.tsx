@@ -0,0 +1,415 @@
+import { useState, useMemo, useEffect, useRef, useCallback } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { addDays, format, isSameDay, startOfDay } from "date-fns";
+import { CalendarClock, Diamond } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { cn } from "@/lib/utils";
+import type { SectionWithTasks, TaskDependency, TaskWithRelations } from "@shared/schema";
+import {
+  DAY_WIDTH,
+  applyBarDrag,
+  dayOffset,
+  findBudgetExhaustionDate,
+  getTaskSpan,
+  getTimelineRange,
+  type BarDragMode,
+  type TimelineZoom,
+} from "./timeline-utils";
+
+interface ProjectTimelineProps {
+  projectId: string;
+  sections: SectionWithTasks[];
+  budgetMinutes?: number | null;
+  onTaskSelect: (task: TaskWithRelations) => void;
+}
+
+type Row =
+  | { kind: "section"; id: string; name: string }
+  | { kind: "task"; task: TaskWithRelations };
+
+interface DragState {
+  taskId: string;
+  mode: BarDragMode;
+  originX: number;
+  deltaDays: number;
+}
+
+const ROW_HEIGHT = 34;
+const HEADER_HEIGHT = 40;
+const LABEL_WIDTH = 260;
+
+const statusColors: Record<string, string> = {
+  todo: "bg-slate-400",
+  in_progress: "bg-blue-500",
+  blocked: "bg-red-500",
+  done: "bg-emerald-500",
+};
+
+export function ProjectTimeline({ projectId, sections, budgetMinutes, onTaskSelect }: ProjectTimelineProps) {
+  const { toast } = useToast();
+  const [zoom, setZoom] = useState<TimelineZoom>("day");
+  const [cascadeDates, setCascadeDates] = useState(true);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  dragRef.current = drag;
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const dayWidth = DAY_WIDTH[zoom];
+  const today = useMemo(() => startOfDay(new Date()), []);
+
+  const { data: dependencyGraph } = useQuery<{ dependencies: TaskDependency[]; blocked: Record<string, string[]> }>({
+    queryKey: queryKeys.projects.dependencies(projectId),
+    enabled: !!projectId,
+  });
+
+  const rows = useMemo<Row[]>(() => {
+    const result: Row[] = [];
+    for (const section of sections) {
+      result.push({ kind: "section", id: section.id, name: section.name });
+      for (const task of section.tasks ?? []) {
+        result.push({ kind: "task", task });
+      }
+    }
+    return result;
+  }, [sections]);
+
+  const allTasks = useMemo(
+    () => rows.flatMap((row) => (row.kind === "task" ? [row.task] : [])),
+    [rows]
+  );
+
+  const range = useMemo(() => {
+    const spans = allTasks.map(getTaskSpan).filter((s): s is NonNullable<typeof s> => s !== null);
+    return getTimelineRange(spans, today, zoom === "month" ? 30 : 7);
+  }, [allTasks, today, zoom]);
+
+  const budgetDate = useMemo(
+    () => findBudgetExhaustionDate(allTasks, budgetMinutes),
+    [allTasks, budgetMinutes]
+  );
+
+  const updateTaskMutation = useMutation({
+    mutationFn: async ({ taskId, data }: { taskId: string; data: Record<string, unknown> }) => {
+      return apiRequest("PATCH", `/api/tasks/${taskId}`, data);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects.sections(projectId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects.tasks(projectId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects.calendarEvents(projectId) });
+    },
+    onError: () => {
+      toast({ title: "Failed to update task dates", variant: "destructive" });
+    },
+  });
+
+  const scrollToToday = useCallback(() => {
+    if (!scrollRef.current) return;
+    scrollRef.current.scrollLeft = Math.max(0, dayOffset(range, today) * dayWidth - 120);
+  }, [range, today, dayWidth]);
+
+  useEffect(() => {
+    scrollToToday();
+    // Only re-center when the zoom level changes, not on every data refresh
+  }, [zoom]);
+
+  useEffect(() => {
+    if (!drag) return;
+    const handleMove = (e: PointerEvent) => {
+      setDrag((current) => current && { ...current, deltaDays: Math.round((e.clientX - current.originX) / dayWidth) });
+    };
+    const handleUp = () => {
+      const current = dragRef.current;
+      setDrag(null);
+      if (!current || current.deltaDays === 0) return;
+      const task = allTasks.find((t) => t.id === current.taskId);
+      if (!task) return;
+      const { startDate, dueDate } = applyBarDrag(task, current.mode, current.deltaDays);
+      updateTaskMutation.mutate({
+        taskId: task.id,
+        data: { startDate, dueDate, cascadeDates },
+      });
+    };
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    return () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+    };
+  }, [drag?.taskId, dayWidth, allTasks, cascadeDates]);
+
+  const startDrag = (e: React.PointerEvent, taskId: string, mode: BarDragMode) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({ taskId, mode, originX: e.clientX, deltaDays: 0 });
+  };
+
+  /** Span to render for a task, including the live preview while it is being dragged. */
+  const displaySpan = (task: TaskWithRelations) => {
+    if (drag?.taskId === task.id && drag.deltaDays !== 0) {
+      return getTaskSpan(applyBarDrag(task, drag.mode, drag.deltaDays));
+    }
+    return getTaskSpan(task);
+  };
+
+  const rowIndexByTaskId = useMemo(() => {
+    const map = new Map<string, number>();
+    rows.forEach((row, index) => {
+      if (row.kind === "task") map.set(row.task.id, index);
+    });
+    return map;
+  }, [rows]);
+
+  const headerTicks = useMemo(() => {
+    const ticks: { offset: number; label: string; major: boolean }[] = [];
+    for (let i = 0; i < range.days; i++) {
+      const date = addDays(range.start, i);
+      if (zoom === "day") {
+        ticks.push({ offset: i, label: format(date, "d"), major: date.getDate() === 1 || i === 0 });
+      } else if (zoom === "week" && date.getDay() === 1) {
+        ticks.push({ offset: i, label: format(date, "MMM d"), major: true });
+      } else if (zoom === "month" && date.getDate() === 1) {
+        ticks.push({ offset: i, label: format(date, "MMM yyyy"), major: true });
+      }
+    }
+    return ticks;
+  }, [range, zoom]);
+
+  const gridWidth = range.days * dayWidth;
+  const bodyHeight = rows.length * ROW_HEIGHT;
+  const todayX = dayOffset(range, today) * dayWidth;
+  const blocked = dependencyGraph?.blocked ?? {};
+
+  const dependencyPaths = (dependencyGraph?.dependencies ?? []).flatMap((dep) => {
+    const fromRow = rowIndexByTaskId.get(dep.predecessorTaskId);
+    const toRow = rowIndexByTaskId.get(dep.successorTaskId);
+    if (fromRow === undefined || toRow === undefined) return [];
+    const fromTask = (rows[fromRow] as { task: TaskWithRelations }).task;
+    const toTask = (rows[toRow] as { task: TaskWithRelations }).task;
+    const fromSpan = displaySpan(fromTask);
+    const toSpan = displaySpan(toTask);
+    if (!fromSpan || !toSpan) return [];
+    const x1 = (dayOffset(range, fromSpan.end) + 1) * dayWidth;
+    const x2 = dayOffset(range, toSpan.start) * dayWidth;
+    const y1 = fromRow * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const y2 = toRow * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const elbow = Math.max(x1 + 6, Math.min(x2 - 6, x1 + 12));
+    return [{ id: dep.id, d: `M ${x1} ${y1} H ${elbow} V ${y2} H ${x2}` }];
+  });
+
+  return (
+    <div className="flex flex-col h-full" data-testid="project-timeline">
+      <div className="flex flex-wrap items-center gap-3 px-3 sm:px-4 lg:px-6 py-2 border-b border-border">
+        <Select value={zoom} onValueChange={(v) => setZoom(v as TimelineZoom)}>
+          <SelectTrigger className="w-[120px] h-8" data-testid="select-timeline-zoom">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="day">Days</SelectItem>
+            <SelectItem value="week">Weeks</SelectItem>
+            <SelectItem value="month">Months</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={scrollToToday} data-testid="button-timeline-today">
+          <CalendarClock className="h-3.5 w-3.5 mr-1" />
+          Today
+        </Button>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="timeline-cascade"
+            checked={cascadeDates}
+            onCheckedChange={setCascadeDates}
+            data-testid="switch-timeline-cascade"
+          />
+          <Label htmlFor="timeline-cascade" className="text-sm">Shift dependent tasks</Label>
+        </div>
+        {budgetDate && (
+          <span className="text-xs text-destructive" data-testid="text-budget-exhausted">
+            Estimates exceed budget by {format(budgetDate, "MMM d")}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-1 min-h-0 overflow-hidden">
+        <div className="shrink-0 border-r border-border bg-background" style={{ width: LABEL_WIDTH }}>
+          <div className="border-b border-border" style={{ height: HEADER_HEIGHT }} />
+          {rows.map((row) =>
+            row.kind === "section" ? (
+              <div
+                key={`section-${row.id}`}
+                className="flex items-center px-3 text-xs font-semibold uppercase tracking-wide text-muted-foreground bg-muted/40"
+                style={{ height: ROW_HEIGHT }}
+              >
+                {row.name}
+              </div>
+            ) : (
+              <button
+                key={row.task.id}
+                type="button"
+                className="flex items-center w-full gap-2 px-3 text-sm text-left truncate hover-elevate"
+                style={{ height: ROW_HEIGHT }}
+                onClick={() => onTaskSelect(row.task)}
+                data-testid={`timeline-label-${row.task.id}`}
+              >
+                {row.task.isMilestone && <Diamond className="h-3 w-3 shrink-0 text-amber-500" />}
+                <span className={cn("truncate", row.task.status === "done" && "line-through text-muted-foreground")}>
+                  {row.task.title}
+                </span>
+              </button>
+            )
+          )}
+        </div>
+
+        <div ref={scrollRef} className="flex-1 overflow-auto">
+          <div className="relative" style={{ width: gridWidth, minHeight: HEADER_HEIGHT + bodyHeight }}>
+            <div className="sticky top-0 z-10 border-b border-border bg-background" style={{ height: HEADER_HEIGHT }}>
+              {headerTicks.map((tick) => (
+                <div
+                  key={tick.offset}
+                  className={cn(
+                    "absolute top-0 h-full border-l border-border/60 px-1 text-[10px] text-muted-foreground flex items-end pb-1",
+                    tick.major && "font-medium text-foreground"
+                  )}
+                  style={{ left: tick.offset * dayWidth }}
+                >
+                  {tick.label}
+                </div>
+              ))}
+            </div>
+
+            <div className="relative" style={{ height: bodyHeight }}>
+              {rows.map((row, index) =>
+                row.kind === "section" ? (
+                  <div
+                    key={`section-bg-${row.id}`}
+                    className="absolute left-0 right-0 bg-muted/40"
+                    style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+                  />
+                ) : null
+              )}
+
+              <div
+                className="absolute top-0 bottom-0 w-px bg-primary z-[1]"
+                style={{ left: todayX }}
+                title="Today"
+                data-testid="timeline-today-marker"
+              />
+              {budgetDate && (
+                <div
+                  className="absolute top-0 bottom-0 border-l-2 border-dashed border-destructive z-[1]"
+                  style={{ left: (dayOffset(range, budgetDate) + 1) * dayWidth }}
+                  title={`Budget exhausted ${format(budgetDate, "MMM d, yyyy")}`}
+                  data-testid="timeline-budget-marker"
+                />
+              )}
+
+              <svg className="absolute inset-0 pointer-events-none z-[2]" width={gridWidth} height={bodyHeight}>
+                <defs>
+                  <marker id="timeline-arrow" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                    <path d="M0,0 L6,3 L0,6 Z" className="fill-muted-foreground" />
+                  </marker>
+                </defs>
+                {dependencyPaths.map((path) => (
+                  <path
+                    key={path.id}
+                    d={path.d}
+                    fill="none"
+                    className="stroke-muted-foreground"
+                    strokeWidth={1}
+                    markerEnd="url(#timeline-arrow)"
+                  />
+                ))}
+              </svg>
+
+              {rows.map((row, index) => {
+                if (row.kind !== "task") return null;
+                const task = row.task;
+                const span = displaySpan(task);
+                const top = index * ROW_HEIGHT;
+                if (!span) {
+                  return (
+                    <div
+                      key={task.id}
+                      className="absolute text-[11px] text-muted-foreground italic px-2 flex items-center"
+                      style={{ top, height: ROW_HEIGHT, left: todayX }}
+                    >
+                      Unscheduled
+                    </div>
+                  );
+                }
+
+                const left = dayOffset(range, span.start) * dayWidth;
+                if (task.isMilestone) {
+                  const x = dayOffset(range, span.end) * dayWidth + dayWidth / 2;
+                  return (
+                    <Tooltip key={task.id}>
+                      <TooltipTrigger asChild>
+                        <div
+                          className="absolute z-[3] h-3.5 w-3.5 rotate-45 bg-amber-500 border border-amber-700 cursor-grab"
+                          style={{ top: top + ROW_HEIGHT / 2 - 7, left: x - 7 }}
+                          onPointerDown={(e) => startDrag(e, task.id, "move")}
+                          onClick={() => onTaskSelect(task)}
+                          data-testid={`timeline-milestone-${task.id}`}
+                        />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        {task.title} · {format(span.end, "MMM d, yyyy")}
+                      </TooltipContent>
+                    </Tooltip>
+                  );
+                }
+
+                const width = Math.max((dayOffset(range, span.end) - dayOffset(range, span.start) + 1) * dayWidth, 6);
+                const isBlocked = !!blocked[task.id];
+                return (
+                  <Tooltip key={task.id}>
+                    <TooltipTrigger asChild>
+                      <div
+                        className={cn(
+                          "absolute z-[3] rounded-md text-[11px] text-white px-2 flex items-center select-none cursor-grab shadow-sm group",
+                          statusColors[task.status] ?? "bg-slate-400",
+                          isBlocked && "ring-2 ring-destructive",
+                          drag?.taskId === task.id && "opacity-80 cursor-grabbing"
+                        )}
+                        style={{ top: top + 6, height: ROW_HEIGHT - 12, left, width }}
+                        onPointerDown={(e) => startDrag(e, task.id, "move")}
+                        onDoubleClick={() => onTaskSelect(task)}
+                        data-testid={`timeline-bar-${task.id}`}
+                      >
+                        <div
+                          className="absolute left-0 top-0 h-full w-1.5 cursor-ew-resize opacity-0 group-hover:opacity-100 bg-black/20 rounded-l-md"
+                          onPointerDown={(e) => startDrag(e, task.id, "resize-start")}
+                        />
+                        {width > 48 && <span className="truncate">{task.title}</span>}
+                        <div
+                          className="absolute right-0 top-0 h-full w-1.5 cursor-ew-resize opacity-0 group-hover:opacity-100 bg-black/20 rounded-r-md"
+                          onPointerDown={(e) => startDrag(e, task.id, "resize-end")}
+                        />
+                      </div>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      {task.title} · {format(span.start, "MMM d")}
+                      {!isSameDay(span.start, span.end) && ` – ${format(span.end, "MMM d")}`}
+                      {isBlocked && " · blocked"}
+                    </TooltipContent>
+                  </Tooltip>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
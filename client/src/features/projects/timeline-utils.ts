@@ -0,0 +1,117 @@
+import { addDays, differenceInCalendarDays, startOfDay } from "date-fns";
+
+export type TimelineZoom = "day" | "week" | "month";
+export type BarDragMode = "move" | "resize-start" | "resize-end";
+
+/** Pixel width of one day column per zoom level */
+export const DAY_WIDTH: Record<TimelineZoom, number> = {
+  day: 36,
+  week: 14,
+  month: 4,
+};
+
+type DateLike = string | Date | null | undefined;
+
+export interface SchedulableTask {
+  startDate?: DateLike;
+  dueDate?: DateLike;
+  estimateMinutes?: number | null;
+}
+
+/** Inclusive day range a task occupies, normalized to local midnight. */
+export interface TimelineSpan {
+  start: Date;
+  end: Date;
+}
+
+export interface TimelineRange {
+  start: Date;
+  days: number;
+}
+
+function toDate(value: DateLike): Date | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Span covered by a task. Tasks with only one of startDate/dueDate occupy a single day;
+ * tasks with neither are unscheduled (null).
+ */
+export function getTaskSpan(task: SchedulableTask): TimelineSpan | null {
+  const start = toDate(task.startDate);
+  const due = toDate(task.dueDate);
+  if (!start && !due) return null;
+  const first = startOfDay(start ?? due!);
+  const last = startOfDay(due ?? start!);
+  return last < first ? { start: last, end: first } : { start: first, end: last };
+}
+
+/** Visible range covering every span plus today, padded on both sides. */
+export function getTimelineRange(spans: TimelineSpan[], today: Date, padDays = 7): TimelineRange {
+  let min = startOfDay(today);
+  let max = startOfDay(today);
+  for (const span of spans) {
+    if (span.start < min) min = span.start;
+    if (span.end > max) max = span.end;
+  }
+  const start = addDays(min, -padDays);
+  return { start, days: differenceInCalendarDays(addDays(max, padDays), start) + 1 };
+}
+
+export function dayOffset(range: TimelineRange, date: Date): number {
+  return differenceInCalendarDays(date, range.start);
+}
+
+/**
+ * New start/due dates after dragging a bar by `deltaDays`. Existing times of day are kept,
+ * a missing date is filled in from the span when a resize needs it, and resizing never
+ * lets the start pass the due date.
+ */
+export function applyBarDrag(
+  task: SchedulableTask,
+  mode: BarDragMode,
+  deltaDays: number,
+): { startDate: Date | null; dueDate: Date | null } {
+  const start = toDate(task.startDate);
+  const due = toDate(task.dueDate);
+  const span = getTaskSpan(task);
+  if (!span || deltaDays === 0) return { startDate: start, dueDate: due };
+
+  if (mode === "move") {
+    return {
+      startDate: start ? addDays(start, deltaDays) : null,
+      dueDate: due ? addDays(due, deltaDays) : null,
+    };
+  }
+
+  if (mode === "resize-start") {
+    const next = addDays(start ?? span.start, deltaDays);
+    const dueDate = due ?? span.end;
+    return { startDate: startOfDay(next) > startOfDay(dueDate) ? startOfDay(dueDate) : next, dueDate };
+  }
+
+  const next = addDays(due ?? span.end, deltaDays);
+  const startDate = start ?? span.start;
+  return { startDate, dueDate: startOfDay(next) < startOfDay(startDate) ? startDate : next };
+}
+
+/**
+ * Day on which the project's budget runs out if estimated work is burned down in due-date
+ * order, or null when estimates fit the budget (or no budget is set).
+ */
+export function findBudgetExhaustionDate(tasks: SchedulableTask[], budgetMinutes: number | null | undefined): Date | null {
+  if (!budgetMinutes || budgetMinutes <= 0) return null;
+  const scheduled = tasks
+    .map((task) => ({ span: getTaskSpan(task), minutes: task.estimateMinutes ?? 0 }))
+    .filter((t): t is { span: TimelineSpan; minutes: number } => t.span !== null && t.minutes > 0)
+    .sort((a, b) => a.span.end.getTime() - b.span.end.getTime());
+
+  let total = 0;
+  for (const { span, minutes } of scheduled) {
+    total += minutes;
+    if (total > budgetMinutes) return span.end;
+  }
+  return null;
+}
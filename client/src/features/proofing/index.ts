@@ -0,0 +1,3 @@
+export { ProofReview, VERSION_STATUS_LABELS, type AssetVersionItem } from "./proof-review";
+export { ProofingDialog } from "./proofing-dialog";
+export { ProofCanvas, type CanvasPin } from "./proof-canvas";
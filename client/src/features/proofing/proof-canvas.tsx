@@ -0,0 +1,181 @@
+import { useRef, useState } from "react";
+import { cn } from "@/lib/utils";
+import type { ProofPin } from "@shared/schema";
+
+export interface CanvasPin {
+  id: string;
+  number: number;
+  pin: ProofPin;
+  resolved: boolean;
+}
+
+interface ProofCanvasProps {
+  url: string;
+  mimeType: string;
+  title: string;
+  /** 1-based page shown for PDFs. */
+  page: number;
+  pins: CanvasPin[];
+  selectedPinId: string | null;
+  draftPin: ProofPin | null;
+  /** While true, clicking marks a point and dragging marks a region. */
+  placing: boolean;
+  onPlace: (pin: ProofPin) => void;
+  onSelectPin: (id: string) => void;
+}
+
+/** Drags shorter than this (as a fraction of the canvas) count as a click. */
+const MIN_REGION = 0.01;
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function PinMarker({ pin, label, selected, resolved, draft, onClick }: {
+  pin: ProofPin;
+  label: string;
+  selected?: boolean;
+  resolved?: boolean;
+  draft?: boolean;
+  onClick?: () => void;
+}) {
+  const tone = draft
+    ? "border-primary bg-primary/10"
+    : resolved
+      ? "border-muted-foreground/60 bg-muted-foreground/10"
+      : "border-amber-500 bg-amber-500/10";
+  const badgeTone = draft ? "bg-primary" : resolved ? "bg-muted-foreground" : "bg-amber-500";
+
+  if (pin.width !== undefined && pin.height !== undefined) {
+    return (
+      <div
+        className={cn("absolute border-2 rounded-sm pointer-events-auto cursor-pointer", tone, selected && "ring-2 ring-primary")}
+        style={{ left: `${pin.x * 100}%`, top: `${pin.y * 100}%`, width: `${pin.width * 100}%`, height: `${pin.height * 100}%` }}
+        onClick={(e) => { e.stopPropagation(); onClick?.(); }}
+      >
+        <span className={cn("absolute -top-3 -left-3 h-6 w-6 rounded-full text-white text-xs font-semibold flex items-center justify-center", badgeTone)}>
+          {label}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      className={cn(
+        "absolute h-6 w-6 -translate-x-1/2 -translate-y-1/2 rounded-full text-white text-xs font-semibold flex items-center justify-center shadow pointer-events-auto",
+        badgeTone,
+        selected && "ring-2 ring-primary ring-offset-1",
+      )}
+      style={{ left: `${pin.x * 100}%`, top: `${pin.y * 100}%` }}
+      onClick={(e) => { e.stopPropagation(); onClick?.(); }}
+      aria-label={`Comment ${label}`}
+    >
+      {label}
+    </button>
+  );
+}
+
+/**
+ * Renders an image or one page of a PDF with comment pins laid over it. Pin coordinates
+ * are fractions of the rendered area, so they survive resizing.
+ */
+export function ProofCanvas({
+  url,
+  mimeType,
+  title,
+  page,
+  pins,
+  selectedPinId,
+  draftPin,
+  placing,
+  onPlace,
+  onSelectPin,
+}: ProofCanvasProps) {
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [dragPin, setDragPin] = useState<ProofPin | null>(null);
+  const isPdf = mimeType === "application/pdf";
+
+  const toFraction = (event: React.PointerEvent) => {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((event.clientX - rect.left) / rect.width),
+      y: clamp((event.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const regionBetween = (a: { x: number; y: number }, b: { x: number; y: number }): ProofPin => {
+    const pin: ProofPin = { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y) };
+    const width = Math.abs(a.x - b.x);
+    const height = Math.abs(a.y - b.y);
+    if (width >= MIN_REGION && height >= MIN_REGION) {
+      pin.width = width;
+      pin.height = height;
+    } else {
+      pin.x = a.x;
+      pin.y = a.y;
+    }
+    if (isPdf) pin.page = page;
+    return pin;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (!placing) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragStart(toFraction(event));
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!dragStart) return;
+    setDragPin(regionBetween(dragStart, toFraction(event)));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (!dragStart) return;
+    onPlace(regionBetween(dragStart, toFraction(event)));
+    setDragStart(null);
+    setDragPin(null);
+  };
+
+  const visiblePins = pins.filter((p) => !isPdf || p.pin.page === page);
+  const shownDraft = dragPin ?? (draftPin && (!isPdf || draftPin.page === page) ? draftPin : null);
+
+  return (
+    <div className="relative w-full rounded-md border bg-muted/40 overflow-hidden" data-testid="proof-canvas">
+      <div ref={surfaceRef} className="relative">
+        {isPdf ? (
+          <iframe
+            key={`${url}-${page}`}
+            src={`${url}#page=${page}&toolbar=0&navpanes=0&view=Fit`}
+            title={title}
+            className="w-full aspect-[1/1.294] bg-white"
+          />
+        ) : (
+          <img src={url} alt={title} className="w-full h-auto block select-none" draggable={false} />
+        )}
+
+        <div
+          className={cn("absolute inset-0", placing ? "cursor-crosshair" : "pointer-events-none")}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          data-testid="proof-canvas-overlay"
+        >
+          {visiblePins.map((p) => (
+            <PinMarker
+              key={p.id}
+              pin={p.pin}
+              label={String(p.number)}
+              selected={p.id === selectedPinId}
+              resolved={p.resolved}
+              onClick={() => onSelectPin(p.id)}
+            />
+          ))}
+          {shownDraft && <PinMarker pin={shownDraft} label="+" draft />}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,399 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ChevronLeft, ChevronRight, CheckCircle2, MapPin, RotateCcw, Reply, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { AssetVersionStatus, ProofPin } from "@shared/schema";
+import { ProofCanvas, type CanvasPin } from "./proof-canvas";
+
+export interface AssetVersionItem {
+  id: string;
+  assetId: string;
+  versionNumber: number;
+  mimeType: string;
+  sizeBytes: number;
+  note: string | null;
+  status: AssetVersionStatus;
+  uploaderName: string | null;
+  openCommentCount: number;
+  createdAt: string;
+}
+
+interface ProofCommentItem {
+  id: string;
+  versionId: string;
+  parentCommentId: string | null;
+  authorUserId: string | null;
+  authorName: string;
+  authorRole: string | null;
+  body: string;
+  pin: ProofPin | null;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+export const VERSION_STATUS_LABELS: Record<AssetVersionStatus, string> = {
+  draft: "Draft",
+  in_review: "In review",
+  approved: "Approved",
+  changes_requested: "Changes requested",
+};
+
+function isProofable(mimeType: string): boolean {
+  return mimeType.startsWith("image/") || mimeType === "application/pdf";
+}
+
+interface ProofReviewProps {
+  assetId: string;
+  title: string;
+  /** Pins the review to one version (e.g. the one an approval request covers). */
+  versionId?: string;
+  /** Rendered above the canvas with the version being shown (upload, request approval). */
+  actions?: (version: AssetVersionItem) => ReactNode;
+}
+
+/**
+ * Proof viewer: the asset's version stack, the selected version with comment pins, and
+ * the comment threads. Used by tenant users from the asset library and by portal users
+ * from their approvals.
+ */
+export function ProofReview({ assetId, title, versionId: fixedVersionId, actions }: ProofReviewProps) {
+  const { toast } = useToast();
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(fixedVersionId ?? null);
+  const [page, setPage] = useState(1);
+  const [placing, setPlacing] = useState(false);
+  const [draftPin, setDraftPin] = useState<ProofPin | null>(null);
+  const [draftBody, setDraftBody] = useState("");
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState("");
+  const [selectedThreadId, setSelectedThreadId] = useState<string | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+
+  const versionsQuery = useQuery<AssetVersionItem[]>({
+    queryKey: queryKeys.proofing.versions(assetId),
+  });
+  const versions = versionsQuery.data ?? [];
+  const version = versions.find((v) => v.id === selectedVersionId) ?? (fixedVersionId ? undefined : versions[0]);
+
+  useEffect(() => {
+    setPage(1);
+    setPlacing(false);
+    setDraftPin(null);
+    setSelectedThreadId(null);
+  }, [version?.id]);
+
+  const downloadQuery = useQuery<{ url: string }>({
+    queryKey: queryKeys.proofing.download(version?.id ?? ""),
+    enabled: !!version && isProofable(version.mimeType),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const commentsQuery = useQuery<ProofCommentItem[]>({
+    queryKey: queryKeys.proofing.comments(version?.id ?? ""),
+    enabled: !!version,
+  });
+  const comments = commentsQuery.data ?? [];
+
+  const threads = useMemo(() => {
+    const topLevel = comments.filter((c) => !c.parentCommentId);
+    return topLevel.map((comment, index) => ({
+      comment,
+      number: index + 1,
+      replies: comments.filter((c) => c.parentCommentId === comment.id),
+    }));
+  }, [comments]);
+  const visibleThreads = threads.filter((t) => showResolved || !t.comment.resolvedAt);
+
+  const canvasPins: CanvasPin[] = visibleThreads
+    .filter((t) => t.comment.pin)
+    .map((t) => ({ id: t.comment.id, number: t.number, pin: t.comment.pin!, resolved: !!t.comment.resolvedAt }));
+
+  const invalidate = () => {
+    if (!version) return;
+    queryClient.invalidateQueries({ queryKey: queryKeys.proofing.comments(version.id) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.proofing.versions(assetId) });
+  };
+
+  const commentMutation = useMutation({
+    mutationFn: async (data: { body: string; pin?: ProofPin | null; parentCommentId?: string }) => {
+      const res = await apiRequest("POST", `/api/v1/asset-versions/${version!.id}/comments`, data);
+      return res.json();
+    },
+    onSuccess: (_, data) => {
+      invalidate();
+      if (data.parentCommentId) {
+        setReplyTo(null);
+        setReplyBody("");
+      } else {
+        setDraftBody("");
+        setDraftPin(null);
+        setPlacing(false);
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not add comment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, resolved }: { id: string; resolved: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/v1/proof-comments/${id}`, { resolved });
+      return res.json();
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Could not update comment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const selectThread = (id: string) => {
+    setSelectedThreadId(id);
+    const pinPage = threads.find((t) => t.comment.id === id)?.comment.pin?.page;
+    if (pinPage) setPage(pinPage);
+  };
+
+  if (versionsQuery.isLoading) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+  if (!version) {
+    return <p className="text-sm text-muted-foreground">This version is no longer available.</p>;
+  }
+
+  const isPdf = version.mimeType === "application/pdf";
+  const proofable = isProofable(version.mimeType);
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[minmax(0,1fr)_320px]" data-testid="proof-review">
+      <div className="space-y-3 min-w-0">
+        <div className="flex items-center gap-2 flex-wrap">
+          {fixedVersionId ? (
+            <span className="text-sm font-medium">Version {version.versionNumber}</span>
+          ) : (
+            <Select value={version.id} onValueChange={setSelectedVersionId}>
+              <SelectTrigger className="w-48" data-testid="select-proof-version">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((v) => (
+                  <SelectItem key={v.id} value={v.id}>
+                    Version {v.versionNumber}{v.openCommentCount > 0 ? ` (${v.openCommentCount} open)` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Badge variant={version.status === "approved" ? "default" : version.status === "changes_requested" ? "destructive" : "outline"}>
+            {VERSION_STATUS_LABELS[version.status]}
+          </Badge>
+          <span className="text-xs text-muted-foreground">
+            {version.uploaderName ? `${version.uploaderName}, ` : ""}
+            {formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })}
+          </span>
+          <div className="ml-auto flex items-center gap-2">{actions?.(version)}</div>
+        </div>
+        {version.note && <p className="text-sm text-muted-foreground">{version.note}</p>}
+
+        {!proofable ? (
+          <div className="rounded-md border bg-muted/40 p-8 text-center text-sm text-muted-foreground">
+            Pinned comments are available for images and PDFs. You can still leave general comments.
+          </div>
+        ) : downloadQuery.data?.url ? (
+          <ProofCanvas
+            url={downloadQuery.data.url}
+            mimeType={version.mimeType}
+            title={title}
+            page={page}
+            pins={canvasPins}
+            selectedPinId={selectedThreadId}
+            draftPin={draftPin}
+            placing={placing}
+            onPlace={(pin) => { setDraftPin(pin); setPlacing(false); }}
+            onSelectPin={selectThread}
+          />
+        ) : downloadQuery.isError ? (
+          <div className="rounded-md border bg-muted/40 p-8 text-center text-sm text-muted-foreground">
+            Preview unavailable
+          </div>
+        ) : (
+          <Skeleton className="h-96 w-full" />
+        )}
+
+        {proofable && (
+          <div className="flex items-center gap-2 flex-wrap">
+            <Button
+              size="sm"
+              variant={placing ? "default" : "outline"}
+              onClick={() => setPlacing(!placing)}
+              data-testid="button-place-pin"
+            >
+              <MapPin className="h-4 w-4 mr-1" />
+              {placing ? "Click or drag on the proof" : "Pin a comment"}
+            </Button>
+            {isPdf && (
+              <div className="flex items-center gap-1 ml-auto">
+                <Button size="icon" variant="ghost" disabled={page <= 1} onClick={() => setPage(page - 1)} aria-label="Previous page">
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Label htmlFor="proof-page" className="text-xs text-muted-foreground">Page</Label>
+                <Input
+                  id="proof-page"
+                  type="number"
+                  min={1}
+                  value={page}
+                  onChange={(e) => setPage(Math.max(1, parseInt(e.target.value) || 1))}
+                  className="h-8 w-16"
+                  data-testid="input-proof-page"
+                />
+                <Button size="icon" variant="ghost" onClick={() => setPage(page + 1)} aria-label="Next page">
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3 min-w-0">
+        <div className="space-y-2 rounded-md border p-3">
+          {draftPin && (
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>
+                Pinned {draftPin.width !== undefined ? "region" : "point"}
+                {draftPin.page ? ` on page ${draftPin.page}` : ""}
+              </span>
+              <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => setDraftPin(null)} aria-label="Remove pin">
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+          <Textarea
+            placeholder={draftPin ? "Comment on the pinned spot..." : "Leave a comment..."}
+            value={draftBody}
+            onChange={(e) => setDraftBody(e.target.value)}
+            rows={3}
+            className="resize-none"
+            data-testid="input-proof-comment"
+          />
+          <Button
+            size="sm"
+            disabled={!draftBody.trim() || commentMutation.isPending}
+            onClick={() => commentMutation.mutate({ body: draftBody.trim(), pin: draftPin })}
+            data-testid="button-add-proof-comment"
+          >
+            Comment
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">Comments</span>
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Switch checked={showResolved} onCheckedChange={setShowResolved} data-testid="switch-show-resolved" />
+            Show resolved
+          </label>
+        </div>
+
+        {commentsQuery.isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : visibleThreads.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No {showResolved ? "" : "open "}comments on this version.</p>
+        ) : (
+          <div className="space-y-2">
+            {visibleThreads.map(({ comment, number, replies }) => (
+              <div
+                key={comment.id}
+                className={`rounded-md border p-3 space-y-2 ${comment.id === selectedThreadId ? "border-primary" : ""} ${comment.resolvedAt ? "opacity-70" : ""}`}
+                onClick={() => selectThread(comment.id)}
+                data-testid={`proof-thread-${comment.id}`}
+              >
+                <div className="flex items-start gap-2">
+                  <span className={`mt-0.5 h-5 w-5 shrink-0 rounded-full text-white text-[10px] font-semibold flex items-center justify-center ${comment.resolvedAt ? "bg-muted-foreground" : comment.pin ? "bg-amber-500" : "bg-muted-foreground/60"}`}>
+                    {number}
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground flex-wrap">
+                      <span className="font-medium text-foreground">{comment.authorName}</span>
+                      {comment.authorRole === "client" && <Badge variant="secondary" className="text-[10px] px-1 py-0">Client</Badge>}
+                      <span>{formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}</span>
+                      {comment.pin?.page && <span>p. {comment.pin.page}</span>}
+                    </div>
+                    <p className="text-sm whitespace-pre-wrap break-words">{comment.body}</p>
+                  </div>
+                </div>
+
+                {replies.map((reply) => (
+                  <div key={reply.id} className="ml-7 border-l-2 pl-2">
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <span className="font-medium text-foreground">{reply.authorName}</span>
+                      <span>{formatDistanceToNow(new Date(reply.createdAt), { addSuffix: true })}</span>
+                    </div>
+                    <p className="text-sm whitespace-pre-wrap break-words">{reply.body}</p>
+                  </div>
+                ))}
+
+                {replyTo === comment.id ? (
+                  <div className="ml-7 space-y-2" onClick={(e) => e.stopPropagation()}>
+                    <Textarea
+                      value={replyBody}
+                      onChange={(e) => setReplyBody(e.target.value)}
+                      rows={2}
+                      className="resize-none"
+                      placeholder="Reply..."
+                      data-testid={`input-proof-reply-${comment.id}`}
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        disabled={!replyBody.trim() || commentMutation.isPending}
+                        onClick={() => commentMutation.mutate({ body: replyBody.trim(), parentCommentId: comment.id })}
+                      >
+                        Reply
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setReplyTo(null)}>Cancel</Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="ml-7 flex gap-1" onClick={(e) => e.stopPropagation()}>
+                    <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => { setReplyTo(comment.id); setReplyBody(""); }}>
+                      <Reply className="h-3 w-3 mr-1" />
+                      Reply
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 px-2"
+                      disabled={resolveMutation.isPending}
+                      onClick={() => resolveMutation.mutate({ id: comment.id, resolved: !comment.resolvedAt })}
+                      data-testid={`button-resolve-${comment.id}`}
+                    >
+                      {comment.resolvedAt ? (
+                        <><RotateCcw className="h-3 w-3 mr-1" />Reopen</>
+                      ) : (
+                        <><CheckCircle2 className="h-3 w-3 mr-1" />Resolve</>
+                      )}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
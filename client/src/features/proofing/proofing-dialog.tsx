@@ -0,0 +1,169 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Send, Upload } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ProofReview, type AssetVersionItem } from "./proof-review";
+
+interface ProofingDialogProps {
+  asset: { id: string; title: string; clientId: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function RequestApprovalDialog({ asset, version, onClose }: {
+  asset: { id: string; title: string; clientId: string };
+  version: AssetVersionItem;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState(`Review ${asset.title} (v${version.versionNumber})`);
+  const [instructions, setInstructions] = useState("");
+  const [dueAt, setDueAt] = useState("");
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/v1/assets/${asset.id}/approval-requests`, {
+        versionId: version.id,
+        title: title.trim() || undefined,
+        instructions: instructions.trim() || undefined,
+        dueAt: dueAt || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.proofing.versions(asset.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.proofing.approvals(asset.id) });
+      queryClient.invalidateQueries({ queryKey: ["/api/crm/clients", asset.clientId, "approvals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/assets"] });
+      toast({ title: "Approval requested", description: "The client can review this version in their portal." });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not request approval", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Request client approval</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            The asset becomes visible in the client portal, where the client can comment on and approve version {version.versionNumber}.
+          </p>
+          <div className="space-y-1">
+            <Label htmlFor="proof-approval-title">Title</Label>
+            <Input id="proof-approval-title" value={title} onChange={(e) => setTitle(e.target.value)} maxLength={200} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="proof-approval-instructions">Instructions</Label>
+            <Textarea
+              id="proof-approval-instructions"
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+              rows={3}
+              className="resize-none"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="proof-approval-due">Due date</Label>
+            <Input id="proof-approval-due" type="date" value={dueAt} onChange={(e) => setDueAt(e.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => requestMutation.mutate()} disabled={requestMutation.isPending} data-testid="button-send-proof-approval">
+            Send request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** Tenant-side proofing: review comments, upload new versions and ask the client to approve one. */
+export function ProofingDialog({ asset, onOpenChange }: ProofingDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [approvalVersion, setApprovalVersion] = useState<AssetVersionItem | null>(null);
+
+  const handleUpload = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!asset || !file) return;
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await fetch(`/api/v1/assets/${asset.id}/versions/upload`, {
+        method: "POST",
+        credentials: "include",
+        body: formData,
+      });
+      if (!res.ok) {
+        const errData = await res.json().catch(() => ({}));
+        throw new Error(errData.message || `Upload failed (${res.status})`);
+      }
+      queryClient.invalidateQueries({ queryKey: queryKeys.proofing.versions(asset.id) });
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/assets"] });
+      toast({ title: "New version uploaded" });
+    } catch (err: any) {
+      toast({ title: "Upload failed", description: err.message, variant: "destructive" });
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <Dialog open={!!asset} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-8">Proofing: {asset?.title}</DialogTitle>
+        </DialogHeader>
+        {asset && (
+          <ProofReview
+            assetId={asset.id}
+            title={asset.title}
+            actions={(version) => (
+              <>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  className="hidden"
+                  onChange={(e) => handleUpload(e.target.files)}
+                  data-testid="input-upload-version"
+                />
+                <Button size="sm" variant="outline" disabled={uploading} onClick={() => fileInputRef.current?.click()}>
+                  <Upload className="h-4 w-4 mr-1" />
+                  {uploading ? "Uploading..." : "New version"}
+                </Button>
+                <Button size="sm" onClick={() => setApprovalVersion(version)} data-testid="button-request-proof-approval">
+                  <Send className="h-4 w-4 mr-1" />
+                  Request approval
+                </Button>
+              </>
+            )}
+          />
+        )}
+        {asset && approvalVersion && (
+          <RequestApprovalDialog asset={asset} version={approvalVersion} onClose={() => setApprovalVersion(null)} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,3 @@
+export { RemindersPanel } from "./reminders-panel";
+export { RemindMeButton } from "./remind-me-button";
+export type { Reminder } from "./reminder-utils";
@@ -0,0 +1,74 @@
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlarmClock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatErrorForToast } from "@/lib/parseApiError";
+import { REMINDER_PRESETS, currentTimeZone, type Reminder } from "./reminder-utils";
+
+interface RemindMeButtonProps {
+  sourceType: "task" | "comment";
+  sourceId: string;
+  /** Text of the reminder, e.g. the task title. */
+  message: string;
+  className?: string;
+}
+
+/** "Remind me" menu for a task or comment. */
+export function RemindMeButton({ sourceType, sourceId, message, className }: RemindMeButtonProps) {
+  const { toast } = useToast();
+
+  const createMutation = useMutation({
+    mutationFn: async (remindAt: string) => {
+      const res = await apiRequest("POST", "/api/reminders", {
+        sourceType,
+        sourceId,
+        message: message.trim().slice(0, 1000) || "Reminder",
+        remindAt,
+        timezone: currentTimeZone(),
+      });
+      return res.json() as Promise<Reminder>;
+    },
+    onSuccess: (reminder) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+      toast({ title: "Reminder set", description: format(new Date(reminder.remindAt), "EEE, MMM d 'at' p") });
+    },
+    onError: (err) => {
+      const { title, description } = formatErrorForToast(err);
+      toast({ title, description, variant: "destructive" });
+    },
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={className}
+          disabled={createMutation.isPending}
+          data-testid={`button-remind-me-${sourceType}`}
+        >
+          <AlarmClock className="h-3.5 w-3.5 mr-1" />
+          Remind me
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs">Remind me</DropdownMenuLabel>
+        {REMINDER_PRESETS.map((preset) => (
+          <DropdownMenuItem key={preset.value} onSelect={() => createMutation.mutate(preset.value)}>
+            {preset.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,24 @@
+export interface Reminder {
+  id: string;
+  message: string;
+  remindAt: string;
+  status: "pending" | "sent" | "cancelled";
+  sourceType: "chat" | "task" | "comment";
+  sourceId: string | null;
+  taskId: string | null;
+  snoozeCount: number;
+  firedAt: string | null;
+}
+
+/** Quick choices offered by "Remind me" and "Snooze"; the server parses the phrases. */
+export const REMINDER_PRESETS = [
+  { label: "In 1 hour", value: "in 1 hour" },
+  { label: "In 3 hours", value: "in 3 hours" },
+  { label: "Tomorrow morning", value: "tomorrow 9am" },
+  { label: "Next Monday", value: "next monday 9am" },
+] as const;
+
+/** The browser's IANA zone, so "tomorrow 9am" means 9am where the user is. */
+export function currentTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
@@ -0,0 +1,159 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { AlarmClock, Loader2, X } from "lucide-react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { formatErrorForToast } from "@/lib/parseApiError";
+import { getSocket } from "@/lib/realtime/socket";
+import type { ServerToClientEvents } from "@shared/events";
+import { REMINDER_PRESETS, currentTimeZone, type Reminder } from "./reminder-utils";
+
+function invalidateReminders() {
+  queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+}
+
+function reminderHref(reminder: Reminder): string | null {
+  if (reminder.taskId) return `/tasks?taskId=${reminder.taskId}`;
+  if (reminder.sourceType === "chat" && reminder.sourceId) return `/chat?channel=${reminder.sourceId}`;
+  return null;
+}
+
+/** The current user's upcoming and recently delivered reminders, with snooze and cancel. */
+export function RemindersPanel() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  const { data: pending = [], isLoading } = useQuery<Reminder[]>({
+    queryKey: queryKeys.reminders.list("pending"),
+  });
+  const { data: sent = [] } = useQuery<Reminder[]>({
+    queryKey: queryKeys.reminders.list("sent"),
+  });
+
+  useEffect(() => {
+    const socket = getSocket();
+    const handleDue: ServerToClientEvents["reminder:due"] = () => invalidateReminders();
+    socket.on("reminder:due", handleDue);
+    return () => {
+      socket.off("reminder:due", handleDue);
+    };
+  }, []);
+
+  const onError = (err: unknown) => {
+    const { title, description } = formatErrorForToast(err);
+    toast({ title, description, variant: "destructive" });
+  };
+
+  const snoozeMutation = useMutation({
+    mutationFn: async ({ id, until }: { id: string; until: string }) => {
+      await apiRequest("POST", `/api/reminders/${id}/snooze`, { until, timezone: currentTimeZone() });
+    },
+    onSuccess: () => {
+      invalidateReminders();
+      toast({ title: "Reminder snoozed" });
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/reminders/${id}/cancel`);
+    },
+    onSuccess: invalidateReminders,
+    onError,
+  });
+
+  const renderRow = (reminder: Reminder) => {
+    const href = reminderHref(reminder);
+    const when = new Date(reminder.remindAt);
+    return (
+      <div key={reminder.id} className="flex items-start gap-2 px-4 py-2 border-b last:border-b-0" data-testid={`reminder-${reminder.id}`}>
+        <AlarmClock className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+        <div className="min-w-0 flex-1">
+          <button
+            type="button"
+            className="block w-full text-left text-sm truncate hover:underline disabled:no-underline"
+            disabled={!href}
+            onClick={() => href && setLocation(href)}
+          >
+            {reminder.message}
+          </button>
+          <p className="text-xs text-muted-foreground" title={format(when, "PPpp")}>
+            {reminder.status === "pending"
+              ? `${format(when, "EEE, MMM d 'at' p")}${reminder.snoozeCount > 0 ? " · snoozed" : ""}`
+              : `Delivered ${formatDistanceToNow(new Date(reminder.firedAt ?? when), { addSuffix: true })}`}
+          </p>
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" disabled={snoozeMutation.isPending} data-testid={`button-snooze-${reminder.id}`}>
+              Snooze
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {REMINDER_PRESETS.map((preset) => (
+              <DropdownMenuItem key={preset.value} onSelect={() => snoozeMutation.mutate({ id: reminder.id, until: preset.value })}>
+                {preset.label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        {reminder.status === "pending" && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            aria-label="Cancel reminder"
+            disabled={cancelMutation.isPending}
+            onClick={() => cancelMutation.mutate(reminder.id)}
+            data-testid={`button-cancel-reminder-${reminder.id}`}
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-6">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="h-80">
+      {pending.length === 0 && sent.length === 0 ? (
+        <div className="p-6 text-center text-sm text-muted-foreground">
+          No reminders. Use "Remind me" on a task or type /remind tomorrow 9am … in chat.
+        </div>
+      ) : (
+        <>
+          <p className="px-4 pt-3 pb-1 text-xs font-medium text-muted-foreground">Upcoming</p>
+          {pending.length === 0
+            ? <p className="px-4 pb-2 text-xs text-muted-foreground">Nothing scheduled</p>
+            : pending.map(renderRow)}
+          {sent.length > 0 && (
+            <>
+              <p className="px-4 pt-3 pb-1 text-xs font-medium text-muted-foreground">Delivered</p>
+              {sent.slice(0, 10).map(renderRow)}
+            </>
+          )}
+        </>
+      )}
+    </ScrollArea>
+  );
+}
@@ -0,0 +1,2 @@
+export { TaskFilterBuilder, useTaskFilterOptions, type FilterOption, type TaskFilterOptions } from "./task-filter-builder";
+export { SavedViewTasks, groupTasks } from "./saved-view-tasks";
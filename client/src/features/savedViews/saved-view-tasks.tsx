@@ -0,0 +1,173 @@
+import { useMemo } from "react";
+import { isPast, isToday, isThisWeek } from "date-fns";
+import { TaskCard } from "@/features/tasks/task-card";
+import { StatusBadge } from "@/components/status-badge";
+import { PriorityBadge } from "@/components/priority-badge";
+import { DueDateBadge } from "@/components/due-date-badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { TaskGroupBy, type TaskGroupByValue, type TaskViewLayoutValue } from "@shared/taskFilters";
+import type { TaskWithRelations } from "@shared/schema";
+import { PRIORITY_LABELS, STATUS_LABELS, type TaskFilterOptions } from "./task-filter-builder";
+
+interface TaskGroup {
+  key: string;
+  label: string;
+  tasks: TaskWithRelations[];
+}
+
+const DUE_BUCKETS = ["overdue", "today", "week", "later", "none"] as const;
+const DUE_BUCKET_LABELS: Record<typeof DUE_BUCKETS[number], string> = {
+  overdue: "Overdue",
+  today: "Today",
+  week: "This week",
+  later: "Later",
+  none: "No due date",
+};
+
+function dueBucket(task: TaskWithRelations): typeof DUE_BUCKETS[number] {
+  if (!task.dueDate) return "none";
+  const due = new Date(task.dueDate);
+  if (isToday(due)) return "today";
+  if (isPast(due)) return "overdue";
+  return isThisWeek(due) ? "week" : "later";
+}
+
+/** Group keys of a task; tasks with several assignees appear under each of them. */
+function groupKeys(task: TaskWithRelations, groupBy: TaskGroupByValue): string[] {
+  switch (groupBy) {
+    case TaskGroupBy.STATUS: return [task.status];
+    case TaskGroupBy.PRIORITY: return [task.priority];
+    case TaskGroupBy.ASSIGNEE: return task.assignees?.length ? task.assignees.map((a) => a.userId) : [""];
+    case TaskGroupBy.PROJECT: return [task.projectId ?? ""];
+    case TaskGroupBy.CLIENT: return [task.project?.clientId ?? ""];
+    case TaskGroupBy.DUE_DATE: return [dueBucket(task)];
+    default: return [""];
+  }
+}
+
+function groupLabel(key: string, groupBy: TaskGroupByValue, options: TaskFilterOptions): string {
+  const find = (field: keyof TaskFilterOptions) => options[field]?.find((o) => o.value === key)?.label;
+  switch (groupBy) {
+    case TaskGroupBy.STATUS: return STATUS_LABELS[key] ?? key;
+    case TaskGroupBy.PRIORITY: return PRIORITY_LABELS[key] ?? key;
+    case TaskGroupBy.ASSIGNEE: return key ? find("assignee") ?? "Unknown user" : "Unassigned";
+    case TaskGroupBy.PROJECT: return key ? find("project") ?? "Unknown project" : "No project";
+    case TaskGroupBy.CLIENT: return key ? find("client") ?? "Unknown client" : "No client";
+    case TaskGroupBy.DUE_DATE: return DUE_BUCKET_LABELS[key as typeof DUE_BUCKETS[number]];
+    default: return "All tasks";
+  }
+}
+
+/** Fixed orders where the values have one; otherwise groups keep first-seen (i.e. sort) order. */
+const GROUP_ORDER: Partial<Record<TaskGroupByValue, readonly string[]>> = {
+  [TaskGroupBy.STATUS]: Object.keys(STATUS_LABELS),
+  [TaskGroupBy.PRIORITY]: Object.keys(PRIORITY_LABELS),
+  [TaskGroupBy.DUE_DATE]: DUE_BUCKETS,
+};
+
+export function groupTasks(tasks: TaskWithRelations[], groupBy: TaskGroupByValue, options: TaskFilterOptions): TaskGroup[] {
+  const groups = new Map<string, TaskWithRelations[]>();
+  for (const task of tasks) {
+    for (const key of groupKeys(task, groupBy)) {
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(task);
+    }
+  }
+  const order = GROUP_ORDER[groupBy];
+  const keys = Array.from(groups.keys());
+  if (order) keys.sort((a, b) => (order.indexOf(a) + 1 || order.length + 1) - (order.indexOf(b) + 1 || order.length + 1));
+  return keys.map((key) => ({ key, label: groupLabel(key, groupBy, options), tasks: groups.get(key)! }));
+}
+
+interface SavedViewTasksProps {
+  tasks: TaskWithRelations[];
+  layout: TaskViewLayoutValue;
+  groupBy: TaskGroupByValue;
+  options: TaskFilterOptions;
+  onOpen: (task: TaskWithRelations) => void;
+}
+
+export function SavedViewTasks({ tasks, layout, groupBy, options, onOpen }: SavedViewTasksProps) {
+  // A board without grouping has nothing to lay out in columns, so it falls back to status.
+  const effectiveGroupBy = layout === "board" && groupBy === TaskGroupBy.NONE ? TaskGroupBy.STATUS : groupBy;
+  const groups = useMemo(() => groupTasks(tasks, effectiveGroupBy, options), [tasks, effectiveGroupBy, options]);
+  const projectName = (id: string | null) => (id ? options.project?.find((o) => o.value === id)?.label : undefined);
+
+  if (layout === "board") {
+    return (
+      <div className="flex gap-4 overflow-x-auto pb-2" data-testid="saved-view-board">
+        {groups.map((group) => (
+          <div key={group.key} className="w-72 shrink-0 space-y-2">
+            <div className="flex items-center justify-between px-1 text-sm font-medium">
+              <span className="truncate">{group.label}</span>
+              <span className="text-muted-foreground">{group.tasks.length}</span>
+            </div>
+            {group.tasks.map((task) => (
+              <TaskCard key={task.id} task={task} view="board" onSelect={() => onOpen(task)} />
+            ))}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (layout === "table") {
+    return (
+      <Table data-testid="saved-view-table">
+        <TableHeader>
+          <TableRow>
+            <TableHead>Title</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Priority</TableHead>
+            <TableHead>Due</TableHead>
+            <TableHead className="text-right">Estimate</TableHead>
+            <TableHead>Project</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {groups.map((group) => [
+            effectiveGroupBy !== TaskGroupBy.NONE && (
+              <TableRow key={`group-${group.key}`} className="bg-muted/40 hover:bg-muted/40">
+                <TableCell colSpan={6} className="py-1.5 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                  {group.label} · {group.tasks.length}
+                </TableCell>
+              </TableRow>
+            ),
+            ...group.tasks.map((task) => (
+              <TableRow
+                key={`${group.key}-${task.id}`}
+                className="cursor-pointer"
+                onClick={() => onOpen(task)}
+                data-testid={`saved-view-row-${task.id}`}
+              >
+                <TableCell className="max-w-[24rem] truncate font-medium">{task.title}</TableCell>
+                <TableCell><StatusBadge status={task.status as any} size="sm" /></TableCell>
+                <TableCell><PriorityBadge priority={task.priority as any} size="sm" /></TableCell>
+                <TableCell><DueDateBadge date={task.dueDate} size="sm" /></TableCell>
+                <TableCell className="text-right tabular-nums">{task.estimateMinutes ?? "—"}</TableCell>
+                <TableCell className="truncate text-muted-foreground">{task.project?.name ?? projectName(task.projectId) ?? "Personal"}</TableCell>
+              </TableRow>
+            )),
+          ])}
+        </TableBody>
+      </Table>
+    );
+  }
+
+  return (
+    <div className="space-y-6" data-testid="saved-view-list">
+      {groups.map((group) => (
+        <section key={group.key} className="space-y-1">
+          {effectiveGroupBy !== TaskGroupBy.NONE && (
+            <h3 className="px-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+              {group.label} · {group.tasks.length}
+            </h3>
+          )}
+          {group.tasks.map((task) => (
+            <TaskCard key={task.id} task={task} view="list" onSelect={() => onOpen(task)} />
+          ))}
+        </section>
+      ))}
+    </div>
+  );
+}
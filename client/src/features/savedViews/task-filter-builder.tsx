@@ -0,0 +1,325 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Plus, X, Check, ChevronsUpDown, FolderTree } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { queryKeys } from "@/lib/queryKeys";
+import { TaskPriority, TaskStatus, type Client, type Project, type Tag, type Workspace } from "@shared/schema";
+import {
+  CURRENT_USER,
+  TASK_FILTER_FIELD_LABELS,
+  TASK_FILTER_OPERATORS,
+  TASK_FILTER_OPERATOR_LABELS,
+  TaskFilterField,
+  TaskFilterOperator,
+  conditionProblem,
+  isFilterGroup,
+  type TaskFilterCondition,
+  type TaskFilterFieldValue,
+  type TaskFilterGroup,
+  type TaskFilterOperatorValue,
+} from "@shared/taskFilters";
+
+export interface FilterOption {
+  value: string;
+  label: string;
+}
+
+/** Choices for the list fields, keyed by field. */
+export type TaskFilterOptions = Partial<Record<TaskFilterFieldValue, FilterOption[]>>;
+
+export const STATUS_LABELS: Record<string, string> = {
+  [TaskStatus.TODO]: "To Do",
+  [TaskStatus.IN_PROGRESS]: "In Progress",
+  [TaskStatus.BLOCKED]: "Blocked",
+  [TaskStatus.DONE]: "Done",
+};
+
+export const PRIORITY_LABELS: Record<string, string> = {
+  [TaskPriority.URGENT]: "Urgent",
+  [TaskPriority.HIGH]: "High",
+  [TaskPriority.MEDIUM]: "Medium",
+  [TaskPriority.LOW]: "Low",
+};
+
+const MAX_GROUP_DEPTH = 3;
+const FIELDS = Object.values(TaskFilterField);
+const LIST_OPS: TaskFilterOperatorValue[] = [TaskFilterOperator.IN, TaskFilterOperator.NOT_IN];
+const DAY_OPS: TaskFilterOperatorValue[] = [TaskFilterOperator.LAST_DAYS, TaskFilterOperator.NEXT_DAYS];
+
+export function useTaskFilterOptions(): TaskFilterOptions {
+  const { data: users = [] } = useQuery<{ id: string; email: string; firstName?: string | null; lastName?: string | null }[]>({
+    queryKey: queryKeys.users.all,
+  });
+  const { data: projects = [] } = useQuery<Project[]>({ queryKey: queryKeys.projects.all });
+  const { data: clients = [] } = useQuery<Client[]>({ queryKey: queryKeys.clients.all });
+  const { data: workspace } = useQuery<Workspace>({ queryKey: queryKeys.workspaces.current });
+  const { data: tags = [] } = useQuery<Tag[]>({
+    queryKey: queryKeys.workspaces.tags(workspace?.id ?? ""),
+    enabled: !!workspace?.id,
+  });
+
+  return useMemo(() => ({
+    status: Object.entries(STATUS_LABELS).map(([value, label]) => ({ value, label })),
+    priority: Object.entries(PRIORITY_LABELS).map(([value, label]) => ({ value, label })),
+    assignee: [
+      { value: CURRENT_USER, label: "Me" },
+      ...users.map((u) => ({ value: u.id, label: [u.firstName, u.lastName].filter(Boolean).join(" ") || u.email })),
+    ],
+    tag: tags.map((t) => ({ value: t.id, label: t.name })),
+    project: projects.map((p) => ({ value: p.id, label: p.name })),
+    client: clients.map((c) => ({ value: c.id, label: c.companyName })),
+  }), [users, projects, clients, tags]);
+}
+
+function defaultCondition(field: TaskFilterFieldValue, op = TASK_FILTER_OPERATORS[field][0]): TaskFilterCondition {
+  if (LIST_OPS.includes(op)) return { field, op, value: [] };
+  if (DAY_OPS.includes(op)) return { field, op, value: 7 };
+  if (field === TaskFilterField.ESTIMATE) return { field, op, value: 60, valueTo: op === TaskFilterOperator.BETWEEN ? 120 : undefined };
+  if (op === TaskFilterOperator.IS_EMPTY || op === TaskFilterOperator.IS_NOT_EMPTY) return { field, op };
+  return { field, op, value: "", valueTo: op === TaskFilterOperator.BETWEEN ? "" : undefined };
+}
+
+function ValuePicker({ options, selected, onChange, testId }: {
+  options: FilterOption[];
+  selected: string[];
+  onChange: (values: string[]) => void;
+  testId: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const labels = new Map(options.map((o) => [o.value, o.label]));
+  const toggle = (value: string) =>
+    onChange(selected.includes(value) ? selected.filter((v) => v !== value) : [...selected, value]);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="min-w-[10rem] max-w-[20rem] justify-between" data-testid={testId}>
+          <span className="truncate">
+            {selected.length === 0 ? "Select…" : selected.map((v) => labels.get(v) ?? "Unknown").join(", ")}
+          </span>
+          <ChevronsUpDown className="ml-2 h-3.5 w-3.5 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search…" />
+          <CommandList>
+            <CommandEmpty>No matches</CommandEmpty>
+            <CommandGroup>
+              {options.map((option) => (
+                <CommandItem key={option.value} value={option.label} onSelect={() => toggle(option.value)}>
+                  <Check className={cn("mr-2 h-4 w-4", selected.includes(option.value) ? "opacity-100" : "opacity-0")} />
+                  <span className="truncate">{option.label}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function ValueEditor({ condition, options, onChange, testId }: {
+  condition: TaskFilterCondition;
+  options: TaskFilterOptions;
+  onChange: (condition: TaskFilterCondition) => void;
+  testId: string;
+}) {
+  const { field, op } = condition;
+  if (op === TaskFilterOperator.IS_EMPTY || op === TaskFilterOperator.IS_NOT_EMPTY) return null;
+
+  if (LIST_OPS.includes(op)) {
+    return (
+      <ValuePicker
+        options={options[field] ?? []}
+        selected={Array.isArray(condition.value) ? condition.value : []}
+        onChange={(value) => onChange({ ...condition, value })}
+        testId={testId}
+      />
+    );
+  }
+
+  if (DAY_OPS.includes(op)) {
+    return (
+      <div className="flex items-center gap-2">
+        <Input
+          type="number"
+          min={0}
+          className="h-8 w-20"
+          value={typeof condition.value === "number" ? condition.value : ""}
+          onChange={(e) => onChange({ ...condition, value: e.target.value === "" ? null : Number(e.target.value) })}
+          data-testid={testId}
+        />
+        <span className="text-sm text-muted-foreground">days</span>
+      </div>
+    );
+  }
+
+  const numeric = field === TaskFilterField.ESTIMATE;
+  const inputType = numeric ? "number" : field === TaskFilterField.TEXT ? "text" : "date";
+  const parse = (raw: string) => (numeric ? (raw === "" ? null : Number(raw)) : raw);
+  const shown = (value: TaskFilterCondition["value"]) => (value === null || value === undefined || Array.isArray(value) ? "" : value);
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        type={inputType}
+        className={cn("h-8", inputType === "text" ? "w-48" : "w-36")}
+        value={shown(condition.value)}
+        onChange={(e) => onChange({ ...condition, value: parse(e.target.value) })}
+        data-testid={testId}
+      />
+      {op === TaskFilterOperator.BETWEEN && (
+        <>
+          <span className="text-sm text-muted-foreground">and</span>
+          <Input
+            type={inputType}
+            className="h-8 w-36"
+            value={shown(condition.valueTo)}
+            onChange={(e) => onChange({ ...condition, valueTo: parse(e.target.value) })}
+            data-testid={`${testId}-to`}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+function ConditionRow({ condition, options, onChange, onRemove, testId }: {
+  condition: TaskFilterCondition;
+  options: TaskFilterOptions;
+  onChange: (condition: TaskFilterCondition) => void;
+  onRemove: () => void;
+  testId: string;
+}) {
+  const problem = conditionProblem(condition);
+  return (
+    <div
+      className={cn("flex flex-wrap items-center gap-2 rounded-md border px-2 py-1.5", problem && "border-destructive/60")}
+      title={problem ?? undefined}
+      data-testid={testId}
+    >
+      <Select value={condition.field} onValueChange={(field) => onChange(defaultCondition(field as TaskFilterFieldValue))}>
+        <SelectTrigger className="h-8 w-40" data-testid={`${testId}-field`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {FIELDS.map((field) => (
+            <SelectItem key={field} value={field}>{TASK_FILTER_FIELD_LABELS[field]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={condition.op}
+        onValueChange={(op) => onChange(defaultCondition(condition.field, op as TaskFilterOperatorValue))}
+      >
+        <SelectTrigger className="h-8 w-44" data-testid={`${testId}-op`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {TASK_FILTER_OPERATORS[condition.field].map((op) => (
+            <SelectItem key={op} value={op}>{TASK_FILTER_OPERATOR_LABELS[op]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <ValueEditor condition={condition} options={options} onChange={onChange} testId={`${testId}-value`} />
+      <Button variant="ghost" size="icon" className="ml-auto h-7 w-7" onClick={onRemove} data-testid={`${testId}-remove`}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+interface TaskFilterBuilderProps {
+  value: TaskFilterGroup;
+  onChange: (value: TaskFilterGroup) => void;
+  options: TaskFilterOptions;
+  /** Removes this group from its parent; absent on the root group. */
+  onRemove?: () => void;
+  depth?: number;
+  testId?: string;
+}
+
+export function TaskFilterBuilder({ value, onChange, options, onRemove, depth = 1, testId = "filter-group" }: TaskFilterBuilderProps) {
+  const replaceRule = (index: number, rule: TaskFilterCondition | TaskFilterGroup) =>
+    onChange({ ...value, rules: value.rules.map((r, i) => (i === index ? rule : r)) });
+  const removeRule = (index: number) => onChange({ ...value, rules: value.rules.filter((_, i) => i !== index) });
+
+  return (
+    <div className={cn("space-y-2", depth > 1 && "rounded-md border border-dashed p-2")} data-testid={testId}>
+      <div className="flex items-center gap-2 text-sm">
+        {depth > 1 && <FolderTree className="h-4 w-4 text-muted-foreground" />}
+        <span className="text-muted-foreground">Match</span>
+        <Select value={value.combinator} onValueChange={(combinator) => onChange({ ...value, combinator: combinator as "and" | "or" })}>
+          <SelectTrigger className="h-8 w-20" data-testid={`${testId}-combinator`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="and">all</SelectItem>
+            <SelectItem value="or">any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-muted-foreground">of these conditions</span>
+        {value.rules.length === 0 && depth === 1 && <Badge variant="secondary">All tasks</Badge>}
+        {onRemove && (
+          <Button variant="ghost" size="icon" className="ml-auto h-7 w-7" onClick={onRemove} data-testid={`${testId}-remove`}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {value.rules.map((rule, index) =>
+        isFilterGroup(rule) ? (
+          <TaskFilterBuilder
+            key={index}
+            value={rule}
+            onChange={(group) => replaceRule(index, group)}
+            onRemove={() => removeRule(index)}
+            options={options}
+            depth={depth + 1}
+            testId={`${testId}-${index}`}
+          />
+        ) : (
+          <ConditionRow
+            key={index}
+            condition={rule}
+            options={options}
+            onChange={(condition) => replaceRule(index, condition)}
+            onRemove={() => removeRule(index)}
+            testId={`${testId}-${index}`}
+          />
+        ),
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange({ ...value, rules: [...value.rules, defaultCondition(TaskFilterField.STATUS)] })}
+          data-testid={`${testId}-add-condition`}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Condition
+        </Button>
+        {depth < MAX_GROUP_DEPTH && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...value, rules: [...value.rules, { combinator: "or", rules: [defaultCondition(TaskFilterField.STATUS)] }] })}
+            data-testid={`${testId}-add-group`}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
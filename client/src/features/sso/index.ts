@@ -0,0 +1,2 @@
+export { SsoSettingsCard } from "./sso-settings-card";
+export { useSsoDiscovery, type SsoDiscovery } from "./use-sso-discovery";
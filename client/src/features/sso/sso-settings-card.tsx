@@ -0,0 +1,408 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Copy, KeyRound, Loader2, PlugZap, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { formatErrorForToast } from "@/lib/parseApiError";
+
+type Protocol = "oidc" | "saml";
+
+interface SsoPublicConfig {
+  enabled: boolean;
+  protocol: Protocol;
+  displayName?: string | null;
+  emailDomains: string[];
+  allowJitProvisioning: boolean;
+  passwordLoginDisabled: boolean;
+  oidcIssuerUrl?: string | null;
+  oidcClientId?: string | null;
+  samlEntryPoint?: string | null;
+  samlIdpIssuer?: string | null;
+  samlIdpCert?: string | null;
+}
+
+interface SsoSettingsResponse {
+  integration: {
+    status: string;
+    publicConfig: SsoPublicConfig | null;
+    secretConfigured: boolean;
+    secretMasked?: { clientSecretMasked?: string | null };
+  } | null;
+  urls: {
+    oidcRedirectUri: string;
+    samlAcsUrl: string;
+    samlEntityId: string;
+  };
+}
+
+interface FormState {
+  enabled: boolean;
+  protocol: Protocol;
+  displayName: string;
+  emailDomains: string;
+  allowJitProvisioning: boolean;
+  passwordLoginDisabled: boolean;
+  oidcIssuerUrl: string;
+  oidcClientId: string;
+  oidcClientSecret: string;
+  samlEntryPoint: string;
+  samlIdpIssuer: string;
+  samlIdpCert: string;
+}
+
+function toForm(config: SsoPublicConfig | null | undefined): FormState {
+  return {
+    enabled: config?.enabled ?? false,
+    protocol: config?.protocol ?? "oidc",
+    displayName: config?.displayName ?? "",
+    emailDomains: (config?.emailDomains ?? []).join(", "),
+    allowJitProvisioning: config?.allowJitProvisioning ?? true,
+    passwordLoginDisabled: config?.passwordLoginDisabled ?? false,
+    oidcIssuerUrl: config?.oidcIssuerUrl ?? "",
+    oidcClientId: config?.oidcClientId ?? "",
+    oidcClientSecret: "",
+    samlEntryPoint: config?.samlEntryPoint ?? "",
+    samlIdpIssuer: config?.samlIdpIssuer ?? "",
+    samlIdpCert: config?.samlIdpCert ?? "",
+  };
+}
+
+function CopyField({ label, value, testId }: { label: string; value: string; testId: string }) {
+  const { toast } = useToast();
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <div className="flex gap-2">
+        <Input readOnly value={value} className="font-mono text-xs" data-testid={testId} />
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={async () => {
+            await navigator.clipboard.writeText(value);
+            toast({ title: `${label} copied` });
+          }}
+        >
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/** Tenant admin settings for the organization's OIDC or SAML identity provider. */
+export function SsoSettingsCard() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<FormState>(toForm(null));
+  const [confirmRemove, setConfirmRemove] = useState(false);
+
+  const { data, isLoading } = useQuery<SsoSettingsResponse>({ queryKey: queryKeys.sso.settings });
+
+  useEffect(() => {
+    if (data) setForm(toForm(data.integration?.publicConfig));
+  }, [data]);
+
+  const update = <K extends keyof FormState>(key: K, value: FormState[K]) => setForm((prev) => ({ ...prev, [key]: value }));
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: queryKeys.sso.settings });
+  const showError = (err: unknown) => {
+    const { title, description } = formatErrorForToast(err);
+    toast({ title, description, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const isOidc = form.protocol === "oidc";
+      await apiRequest("PUT", "/api/sso/settings", {
+        enabled: form.enabled,
+        protocol: form.protocol,
+        displayName: form.displayName.trim() || null,
+        emailDomains: form.emailDomains.split(/[\s,]+/).map((d) => d.trim()).filter(Boolean),
+        allowJitProvisioning: form.allowJitProvisioning,
+        passwordLoginDisabled: form.passwordLoginDisabled,
+        oidcIssuerUrl: isOidc ? form.oidcIssuerUrl.trim() || null : null,
+        oidcClientId: isOidc ? form.oidcClientId.trim() || null : null,
+        ...(isOidc && form.oidcClientSecret.trim() ? { oidcClientSecret: form.oidcClientSecret.trim() } : {}),
+        samlEntryPoint: isOidc ? null : form.samlEntryPoint.trim() || null,
+        samlIdpIssuer: isOidc ? null : form.samlIdpIssuer.trim() || null,
+        samlIdpCert: isOidc ? null : form.samlIdpCert.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Single sign-on settings saved" });
+    },
+    onError: showError,
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/sso/settings/test");
+      return res.json() as Promise<{ success: boolean; message: string }>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: result.success ? "Connection successful" : "Connection failed",
+        description: result.message,
+        variant: result.success ? "default" : "destructive",
+      });
+    },
+    onError: showError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/sso/settings");
+    },
+    onSuccess: () => {
+      setConfirmRemove(false);
+      invalidate();
+      toast({ title: "Single sign-on removed" });
+    },
+    onError: showError,
+  });
+
+  const configured = !!data?.integration?.publicConfig;
+  const secretMasked = data?.integration?.secretMasked?.clientSecretMasked;
+
+  return (
+    <Card data-testid="card-sso-settings">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Single Sign-On
+          {data?.integration?.publicConfig?.enabled && <Badge variant="secondary">On</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Let members sign in with your identity provider (Okta, Entra ID, Google Workspace, Keycloak…) over OIDC or SAML.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !data ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <form
+            className="space-y-5"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="sso-enabled">Enable single sign-on</Label>
+                <p className="text-sm text-muted-foreground">Shows "Continue with SSO" on the login page for your members.</p>
+              </div>
+              <Switch id="sso-enabled" checked={form.enabled} onCheckedChange={(v) => update("enabled", v)} data-testid="switch-sso-enabled" />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Protocol</Label>
+                <Select value={form.protocol} onValueChange={(v) => update("protocol", v as Protocol)}>
+                  <SelectTrigger data-testid="select-sso-protocol">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="oidc">OpenID Connect</SelectItem>
+                    <SelectItem value="saml">SAML 2.0</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sso-display-name">Button label</Label>
+                <Input
+                  id="sso-display-name"
+                  placeholder="Okta"
+                  value={form.displayName}
+                  onChange={(e) => update("displayName", e.target.value)}
+                  data-testid="input-sso-display-name"
+                />
+              </div>
+            </div>
+
+            {form.protocol === "oidc" ? (
+              <div className="space-y-4">
+                <CopyField label="Redirect URI" value={data.urls.oidcRedirectUri} testId="text-sso-redirect-uri" />
+                <div className="space-y-2">
+                  <Label htmlFor="sso-issuer">Issuer URL</Label>
+                  <Input
+                    id="sso-issuer"
+                    placeholder="https://login.example.com"
+                    value={form.oidcIssuerUrl}
+                    onChange={(e) => update("oidcIssuerUrl", e.target.value)}
+                    data-testid="input-sso-issuer"
+                  />
+                </div>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="sso-client-id">Client ID</Label>
+                    <Input
+                      id="sso-client-id"
+                      value={form.oidcClientId}
+                      onChange={(e) => update("oidcClientId", e.target.value)}
+                      data-testid="input-sso-client-id"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="sso-client-secret">Client secret</Label>
+                    <Input
+                      id="sso-client-secret"
+                      type="password"
+                      autoComplete="off"
+                      placeholder={secretMasked ?? ""}
+                      value={form.oidcClientSecret}
+                      onChange={(e) => update("oidcClientSecret", e.target.value)}
+                      data-testid="input-sso-client-secret"
+                    />
+                    {secretMasked && <p className="text-xs text-muted-foreground">Leave blank to keep the saved secret.</p>}
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <CopyField label="ACS URL" value={data.urls.samlAcsUrl} testId="text-sso-acs-url" />
+                  <CopyField label="SP entity ID / metadata URL" value={data.urls.samlEntityId} testId="text-sso-entity-id" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sso-entry-point">IdP SSO URL</Label>
+                  <Input
+                    id="sso-entry-point"
+                    placeholder="https://idp.example.com/sso/saml"
+                    value={form.samlEntryPoint}
+                    onChange={(e) => update("samlEntryPoint", e.target.value)}
+                    data-testid="input-sso-entry-point"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sso-idp-issuer">IdP entity ID (optional)</Label>
+                  <Input
+                    id="sso-idp-issuer"
+                    value={form.samlIdpIssuer}
+                    onChange={(e) => update("samlIdpIssuer", e.target.value)}
+                    data-testid="input-sso-idp-issuer"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sso-idp-cert">IdP signing certificate</Label>
+                  <Textarea
+                    id="sso-idp-cert"
+                    rows={4}
+                    className="font-mono text-xs"
+                    placeholder="-----BEGIN CERTIFICATE-----"
+                    value={form.samlIdpCert}
+                    onChange={(e) => update("samlIdpCert", e.target.value)}
+                    data-testid="input-sso-idp-cert"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="sso-domains">Email domains</Label>
+              <Input
+                id="sso-domains"
+                placeholder="example.com, example.co.uk"
+                value={form.emailDomains}
+                onChange={(e) => update("emailDomains", e.target.value)}
+                data-testid="input-sso-domains"
+              />
+              <p className="text-xs text-muted-foreground">
+                People who type an address at these domains on the login page are sent to your identity provider.
+                Only addresses at these domains may sign in through it.
+              </p>
+            </div>
+
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="sso-jit">Create accounts on first sign-in</Label>
+                <p className="text-sm text-muted-foreground">
+                  New people from your email domains join the organization as employees without an invitation.
+                </p>
+              </div>
+              <Switch id="sso-jit" checked={form.allowJitProvisioning} onCheckedChange={(v) => update("allowJitProvisioning", v)} data-testid="switch-sso-jit" />
+            </div>
+
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="sso-password-disabled">Turn off password sign-in</Label>
+                <p className="text-sm text-muted-foreground">
+                  Members must use single sign-on. Admins keep password sign-in so they can fix a broken configuration.
+                </p>
+              </div>
+              <Switch
+                id="sso-password-disabled"
+                checked={form.passwordLoginDisabled}
+                onCheckedChange={(v) => update("passwordLoginDisabled", v)}
+                data-testid="switch-sso-password-disabled"
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-2 pt-2">
+              <Button type="submit" disabled={saveMutation.isPending} data-testid="button-sso-save">
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                Save
+              </Button>
+              {configured && (
+                <>
+                  <Button type="button" variant="outline" onClick={() => testMutation.mutate()} disabled={testMutation.isPending} data-testid="button-sso-test">
+                    {testMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <PlugZap className="h-4 w-4 mr-1" />}
+                    Test connection
+                  </Button>
+                  <Button type="button" variant="ghost" className="text-destructive" onClick={() => setConfirmRemove(true)} data-testid="button-sso-remove">
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Remove
+                  </Button>
+                </>
+              )}
+            </div>
+          </form>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmRemove} onOpenChange={setConfirmRemove}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove single sign-on?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Members will sign in with a password again. Those created through single sign-on will need to reset theirs.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => removeMutation.mutate()} data-testid="button-sso-remove-confirm">
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+import { useDebounce } from "@/hooks/use-debounce";
+
+export interface SsoDiscovery {
+  sso: boolean;
+  tenantId?: string;
+  displayName?: string;
+  passwordLoginDisabled?: boolean;
+  loginUrl?: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Asks the server whether the typed email signs in through an organization's identity provider. */
+export function useSsoDiscovery(email: string): SsoDiscovery | null {
+  const debounced = useDebounce(email.trim().toLowerCase(), 400);
+  const { data } = useQuery<SsoDiscovery>({
+    queryKey: ["/api/auth/sso/discover", debounced],
+    queryFn: async () => {
+      const res = await fetch(`/api/auth/sso/discover?email=${encodeURIComponent(debounced)}`, { credentials: "include" });
+      if (!res.ok) return { sso: false };
+      return res.json();
+    },
+    enabled: EMAIL_PATTERN.test(debounced),
+    staleTime: 60_000,
+    retry: false,
+  });
+  return EMAIL_PATTERN.test(debounced) && data?.sso ? data : null;
+}
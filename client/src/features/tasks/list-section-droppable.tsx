@@ -11,6 +11,7 @@ interface ListSectionDroppableProps {
   onAddTask?: () => void;
   onTaskSelect?: (task: TaskWithRelations) => void;
   onTaskStatusChange?: (taskId: string, completed: boolean) => void;
+  blockedTaskIds?: Set<string>;
 }
 
 export function ListSectionDroppable({
@@ -18,6 +19,7 @@ export function ListSectionDroppable({
   onAddTask,
   onTaskSelect,
   onTaskStatusChange,
+  blockedTaskIds,
 }: ListSectionDroppableProps) {
   const tasks = section.tasks || [];
   const taskIds = tasks.map((t) => t.id);
@@ -53,6 +55,7 @@ export function ListSectionDroppable({
               view="list"
               onSelect={() => onTaskSelect?.(task)}
               onStatusChange={(completed) => onTaskStatusChange?.(task.id, completed)}
+              isBlocked={blockedTaskIds?.has(task.id)}
             />
           ))}
           {tasks.length === 0 && (
@@ -32,6 +32,7 @@ interface SectionColumnProps {
   onEditSection?: (sectionId: string, name: string) => void;
   onDeleteSection?: (sectionId: string) => void;
   onClearSectionTasks?: (sectionId: string) => void;
+  blockedTaskIds?: Set<string>;
 }
 
 export function SectionColumn({
@@ -42,6 +43,7 @@ export function SectionColumn({
   onEditSection,
   onDeleteSection,
   onClearSectionTasks,
+  blockedTaskIds,
 }: SectionColumnProps) {
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [clearDialogOpen, setClearDialogOpen] = useState(false);
@@ -156,6 +158,7 @@ export function SectionColumn({
                 view="board"
                 onSelect={() => onTaskSelect?.(task)}
                 onStatusChange={(completed) => onTaskStatusChange?.(task.id, completed)}
+                isBlocked={blockedTaskIds?.has(task.id)}
               />
             ))}
           </SortableContext>
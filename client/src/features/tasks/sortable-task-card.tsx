@@ -12,6 +12,7 @@ interface SortableTaskCardProps {
   onDueDateChange?: (dueDate: Date | null) => void;
   showQuickActions?: boolean;
   projectId?: string;
+  isBlocked?: boolean;
 }
 
 export function SortableTaskCard({
@@ -23,6 +24,7 @@ export function SortableTaskCard({
   onDueDateChange,
   showQuickActions = false,
   projectId,
+  isBlocked,
 }: SortableTaskCardProps) {
   const {
     attributes,
@@ -51,6 +53,7 @@ export function SortableTaskCard({
         isDragging={isDragging}
         showQuickActions={showQuickActions}
         projectId={projectId}
+        isBlocked={isBlocked}
       />
     </div>
   );
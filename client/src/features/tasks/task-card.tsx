@@ -28,6 +28,7 @@ import {
   CalendarDays,
   Link2,
   Lock,
+  Ban,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import type { TaskWithRelations, User, Tag } from "@shared/schema";
@@ -47,6 +48,7 @@ interface TaskCardProps {
   isDragging?: boolean;
   showQuickActions?: boolean;
   projectId?: string;
+  isBlocked?: boolean;
 }
 
 function useTaskLink(task: TaskWithRelations, projectId?: string) {
@@ -64,7 +66,7 @@ function useTaskLink(task: TaskWithRelations, projectId?: string) {
 }
 
 export const TaskCard = memo(forwardRef<HTMLDivElement, TaskCardProps>(function TaskCard(
-  { task, view = "list", onSelect, onStatusChange, onPriorityChange, onDueDateChange, dragHandleProps, isDragging, showQuickActions = false, projectId },
+  { task, view = "list", onSelect, onStatusChange, onPriorityChange, onDueDateChange, dragHandleProps, isDragging, showQuickActions = false, projectId, isBlocked = false },
   ref
 ) {
   const [dueDatePopoverOpen, setDueDatePopoverOpen] = useState(false);
@@ -172,6 +174,14 @@ export const TaskCard = memo(forwardRef<HTMLDivElement, TaskCardProps>(function
                 <TooltipContent>Private task</TooltipContent>
               </Tooltip>
             )}
+            {isBlocked && !isCompleted && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Ban className="h-3.5 w-3.5 text-destructive shrink-0" data-testid={`icon-blocked-${task.id}`} />
+                </TooltipTrigger>
+                <TooltipContent>Blocked by an unfinished dependency</TooltipContent>
+              </Tooltip>
+            )}
             {hasProject && (
               <Button
                 variant="ghost"
@@ -285,6 +295,14 @@ export const TaskCard = memo(forwardRef<HTMLDivElement, TaskCardProps>(function
                   <TooltipContent>Private task</TooltipContent>
                 </Tooltip>
               )}
+              {isBlocked && !isCompleted && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Ban className="h-3.5 w-3.5 text-destructive" data-testid={`icon-blocked-${task.id}`} />
+                  </TooltipTrigger>
+                  <TooltipContent>Blocked by an unfinished dependency</TooltipContent>
+                </Tooltip>
+              )}
               {hasProject && (
                 <Button
                   variant="ghost"
@@ -390,6 +408,14 @@ export const TaskCard = memo(forwardRef<HTMLDivElement, TaskCardProps>(function
               <TooltipContent>Private task</TooltipContent>
             </Tooltip>
           )}
+          {isBlocked && !isCompleted && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Ban className="h-3.5 w-3.5 text-destructive shrink-0" data-testid={`icon-blocked-${task.id}`} />
+              </TooltipTrigger>
+              <TooltipContent>Blocked by an unfinished dependency</TooltipContent>
+            </Tooltip>
+          )}
           {hasProject && (
             <Button
               variant="ghost"
@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Ban, GitBranch, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { StatusBadge } from "@/components/status-badge";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { cn } from "@/lib/utils";
+import { TaskDependencyType, type TaskDependency, type TaskWithRelations } from "@shared/schema";
+
+type LinkedTask = {
+  id: string;
+  title: string;
+  status: string;
+  projectId: string | null;
+};
+
+type DependencyRow = { dependency: TaskDependency; task: LinkedTask };
+
+type TaskDependenciesResponse = {
+  blockedBy: DependencyRow[];
+  blocking: DependencyRow[];
+  isBlocked: boolean;
+  blockingPredecessorIds: string[];
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  [TaskDependencyType.FINISH_TO_START]: "Finish → Start",
+  [TaskDependencyType.START_TO_START]: "Start → Start",
+  [TaskDependencyType.FINISH_TO_FINISH]: "Finish → Finish",
+  [TaskDependencyType.START_TO_FINISH]: "Start → Finish",
+};
+
+interface TaskDependencyListProps {
+  taskId: string;
+  projectId: string;
+}
+
+export function TaskDependencyList({ taskId, projectId }: TaskDependencyListProps) {
+  const { toast } = useToast();
+  const [isAdding, setIsAdding] = useState(false);
+  const [predecessorId, setPredecessorId] = useState("");
+  const [type, setType] = useState<string>(TaskDependencyType.FINISH_TO_START);
+
+  const { data } = useQuery<TaskDependenciesResponse>({
+    queryKey: queryKeys.tasks.dependencies(taskId),
+  });
+
+  const { data: projectTasks = [] } = useQuery<TaskWithRelations[]>({
+    queryKey: queryKeys.projects.tasks(projectId),
+    enabled: isAdding,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.tasks.dependencies(taskId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.projects.dependencies(projectId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.projects.calendarEvents(projectId) });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/tasks/${taskId}/dependencies`, {
+        predecessorTaskId: predecessorId,
+        type,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      setIsAdding(false);
+      setPredecessorId("");
+      setType(TaskDependencyType.FINISH_TO_START);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not add dependency", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (dependencyId: string) => {
+      return apiRequest("DELETE", `/api/tasks/${taskId}/dependencies/${dependencyId}`);
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Could not remove dependency", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const blockedBy = data?.blockedBy ?? [];
+  const blocking = data?.blocking ?? [];
+  const blockingIds = new Set(data?.blockingPredecessorIds ?? []);
+  const linkedIds = new Set([taskId, ...blockedBy.map((row) => row.task.id)]);
+  const candidates = projectTasks.filter((t) => !linkedIds.has(t.id));
+
+  const renderRow = (row: DependencyRow, direction: "blockedBy" | "blocking") => (
+    <div
+      key={row.dependency.id}
+      className="group flex items-center gap-2 py-1.5 px-2 rounded-md hover-elevate"
+      data-testid={`dependency-${direction}-${row.dependency.id}`}
+    >
+      <StatusBadge status={row.task.status as any} size="sm" />
+      <span
+        className={cn(
+          "flex-1 text-sm truncate",
+          row.task.status === "done" && "line-through text-muted-foreground"
+        )}
+      >
+        {row.task.title}
+      </span>
+      {direction === "blockedBy" && blockingIds.has(row.task.id) && (
+        <Ban className="h-3.5 w-3.5 text-destructive shrink-0" />
+      )}
+      <Badge variant="outline" className="text-[10px] shrink-0">
+        {TYPE_LABELS[row.dependency.type] ?? row.dependency.type}
+        {row.dependency.lagDays !== 0 && ` ${row.dependency.lagDays > 0 ? "+" : ""}${row.dependency.lagDays}d`}
+      </Badge>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 opacity-0 group-hover:opacity-100"
+        onClick={() => removeMutation.mutate(row.dependency.id)}
+        disabled={removeMutation.isPending}
+        data-testid={`button-remove-dependency-${row.dependency.id}`}
+      >
+        <X className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 font-medium text-foreground text-[16px]">
+          <GitBranch className="h-3.5 w-3.5" />
+          Dependencies
+          {data?.isBlocked && (
+            <Badge variant="destructive" className="text-[10px]" data-testid="badge-task-blocked">
+              Blocked
+            </Badge>
+          )}
+        </label>
+        {!isAdding && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsAdding(true)}
+            data-testid="button-add-dependency"
+          >
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add
+          </Button>
+        )}
+      </div>
+
+      {isAdding && (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={predecessorId} onValueChange={setPredecessorId}>
+            <SelectTrigger className="flex-1" data-testid="select-dependency-predecessor">
+              <SelectValue placeholder="Blocked by…" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map((t) => (
+                <SelectItem key={t.id} value={t.id}>
+                  {t.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={type} onValueChange={setType}>
+            <SelectTrigger className="sm:w-[160px]" data-testid="select-dependency-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              onClick={() => addMutation.mutate()}
+              disabled={!predecessorId || addMutation.isPending}
+              data-testid="button-save-dependency"
+            >
+              Add
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setIsAdding(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {blockedBy.length > 0 && (
+        <div>
+          <div className="text-xs font-medium text-muted-foreground mb-1">Blocked by</div>
+          {blockedBy.map((row) => renderRow(row, "blockedBy"))}
+        </div>
+      )}
+      {blocking.length > 0 && (
+        <div>
+          <div className="text-xs font-medium text-muted-foreground mb-1">Blocking</div>
+          {blocking.map((row) => renderRow(row, "blocking"))}
+        </div>
+      )}
+      {blockedBy.length === 0 && blocking.length === 0 && !isAdding && (
+        <div className="text-sm text-muted-foreground">No dependencies</div>
+      )}
+    </div>
+  );
+}
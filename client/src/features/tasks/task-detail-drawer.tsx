@@ -1,6 +1,6 @@
 import { useState, useEffect, useMemo, useCallback, useRef } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { X, Calendar, Users, Tag, Flag, Layers, CalendarIcon, Clock, Timer, Play, Eye, Square, Pause, ChevronRight, Building2, FolderKanban, Loader2, CheckSquare, Save, Check, Plus, Trash2, Link2, Lock, Share2 } from "lucide-react";
+import { X, Calendar, Users, Tag, Flag, Layers, CalendarIcon, Clock, Timer, Play, Eye, Square, Pause, ChevronRight, Building2, FolderKanban, Loader2, CheckSquare, Save, Check, Plus, Trash2, Link2, Lock, Share2, Diamond } from "lucide-react";
 import { useAuth } from "@/lib/auth";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from "@/components/ui/sheet";
@@ -34,9 +34,13 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { cn } from "@/lib/utils";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { SubtaskList } from "./subtask-list";
+import { TaskDependencyList } from "./task-dependency-list";
+import { TaskRecurrenceEditor, type RecurrenceEditScopeValue } from "./task-recurrence-editor";
+import { RemindMeButton } from "@/features/reminders";
 import { SubtaskDetailDrawer } from "./subtask-detail-drawer";
 import { CommentThread } from "@/components/comment-thread";
 import { AttachmentUploader } from "@/components/attachment-uploader";
@@ -53,6 +57,8 @@ import { DrawerActionBar } from "@/components/layout/drawer-action-bar";
 import { FormFieldWrapper, DatePickerWithChips, PrioritySelector, StatusSelector, type PriorityLevel, type TaskStatus } from "@/components/forms";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { ShareModal } from "@/features/sharing/share-modal";
+import { CustomFieldsSection } from "@/features/customFields";
+import { isDoneStatus, useProjectWorkflow } from "@/features/workflows";
 import type { TaskWithRelations, User, Tag as TagType, Comment, Project, Client } from "@shared/schema";
 
 type ActiveTimer = {
@@ -99,7 +105,7 @@ interface TaskDetailDrawerProps {
   task: TaskWithRelations | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onUpdate?: (taskId: string, data: Partial<TaskWithRelations>) => void;
+  onUpdate?: (taskId: string, data: Partial<TaskWithRelations> & { recurrenceScope?: RecurrenceEditScopeValue }) => void;
   onAddComment?: (taskId: string, body: string) => void;
   onRefresh?: () => void;
   availableTags?: TagType[];
@@ -175,6 +181,7 @@ export function TaskDetailDrawer({
   const [tagPopoverOpen, setTagPopoverOpen] = useState(false);
   const [isCreatingTag, setIsCreatingTag] = useState(false);
   const [shareModalOpen, setShareModalOpen] = useState(false);
+  const [recurrenceScope, setRecurrenceScope] = useState<RecurrenceEditScopeValue>("this");
   const [newTagName, setNewTagName] = useState("");
   const [newTagColor, setNewTagColor] = useState("#3b82f6");
   
@@ -438,6 +445,11 @@ export function TaskDetailDrawer({
     enabled: !!task?.id && open,
   });
 
+  const workflowStatuses = useProjectWorkflow(task?.projectId);
+  const isDone = (status: string | undefined) => isDoneStatus(status, workflowStatuses);
+  const doneStatus = workflowStatuses?.find((s) => s.category === "done")?.key ?? "done";
+  const reopenStatus = workflowStatuses?.find((s) => s.category === "not_started")?.key ?? "todo";
+
   const { data: projectContext, isLoading: projectContextLoading, isError: projectContextError } = useQuery<ProjectContext>({
     queryKey: ["/api/projects", task?.projectId, "context"],
     queryFn: async () => {
@@ -601,7 +613,7 @@ export function TaskDetailDrawer({
   });
 
   const handleMarkAsComplete = () => {
-    if (task?.status === "done" || timeEntriesLoading) return;
+    if (isDone(task?.status) || timeEntriesLoading) return;
     
     if (timeEntries.length === 0) {
       setShowTimeTrackingPrompt(true);
@@ -613,7 +625,7 @@ export function TaskDetailDrawer({
   const completeTaskDirectly = async () => {
     setIsCompletingTask(true);
     try {
-      await updateTaskStatusMutation.mutateAsync("done");
+      await updateTaskStatusMutation.mutateAsync(doneStatus);
       toast({ title: "Task completed", description: `"${task?.title}" marked as done` });
       resetCompletionState();
       onOpenChange(false);
@@ -627,10 +639,10 @@ export function TaskDetailDrawer({
   const [isReopeningTask, setIsReopeningTask] = useState(false);
 
   const handleMarkAsIncomplete = async () => {
-    if (task?.status !== "done") return;
+    if (!isDone(task?.status)) return;
     setIsReopeningTask(true);
     try {
-      await updateTaskStatusMutation.mutateAsync("todo");
+      await updateTaskStatusMutation.mutateAsync(reopenStatus);
       toast({ title: "Task reopened", description: `"${task?.title}" marked as incomplete` });
     } catch (error) {
       toast({ title: "Failed to reopen task", variant: "destructive" });
@@ -678,7 +690,7 @@ export function TaskDetailDrawer({
         clientId: projectContext?.clientId || null,
       });
       
-      await updateTaskStatusMutation.mutateAsync("done");
+      await updateTaskStatusMutation.mutateAsync(doneStatus);
       toast({ 
         title: "Task completed with time logged", 
         description: `Logged ${completionTimeHours}h ${completionTimeMinutes}m for "${task?.title}"` 
@@ -701,7 +713,7 @@ export function TaskDetailDrawer({
   };
 
   const handleStatusChange = (newStatus: string) => {
-    if (newStatus === "done" && task?.status !== "done") {
+    if (isDone(newStatus) && !isDone(task?.status)) {
       if (timeEntriesLoading) return;
       
       if (timeEntries.length === 0) {
@@ -763,21 +775,33 @@ export function TaskDetailDrawer({
     invalidateTaskQueries();
   }, [onRefresh, invalidateTaskQueries]);
 
+  useEffect(() => {
+    setRecurrenceScope("this");
+  }, [task?.id]);
+
+  // Field edits on a recurring task carry the chosen "this / this and future" scope
+  const updateFields = useCallback(
+    (taskId: string, data: Partial<TaskWithRelations>) => {
+      onUpdate?.(taskId, recurrenceScope === "future" ? { ...data, recurrenceScope } : data);
+    },
+    [onUpdate, recurrenceScope]
+  );
+
   const saveAndClose = useCallback(() => {
     closingRef.current = true;
     if (task && title.trim() && title !== task.title) {
-      onUpdate?.(task.id, { title: title.trim() });
+      updateFields(task.id, { title: title.trim() });
     }
     if (task) {
       const currentPlain = toPlainText(description);
       const taskPlain = toPlainText(task.description);
       if (currentPlain !== taskPlain) {
-        onUpdate?.(task.id, { description });
+        updateFields(task.id, { description });
       }
     }
     markClean();
     onOpenChange(false);
-  }, [task?.id, task?.title, task?.description, title, description, onUpdate, markClean, onOpenChange]);
+  }, [task?.id, task?.title, task?.description, title, description, updateFields, markClean, onOpenChange]);
 
   const drawerContentClass = isMobile 
     ? "w-full flex flex-col h-full p-0 overflow-hidden" 
@@ -853,7 +877,7 @@ export function TaskDetailDrawer({
 
   const handleTitleSave = () => {
     if (title.trim() && title !== task.title) {
-      onUpdate?.(task.id, { title: title.trim() });
+      updateFields(task.id, { title: title.trim() });
     }
     setEditingTitle(false);
   };
@@ -871,7 +895,7 @@ export function TaskDetailDrawer({
     const currentPlain = toPlainText(description);
     const taskPlain = toPlainText(task.description);
     if (currentPlain !== taskPlain) {
-      onUpdate?.(task.id, { description: description || null });
+      updateFields(task.id, { description: description || null });
       markClean();
     }
   };
@@ -908,7 +932,10 @@ export function TaskDetailDrawer({
           <div className="flex items-center justify-between gap-2 flex-wrap">
             <div className="flex items-center gap-2">
               <SheetTitle className="sr-only">Task Details</SheetTitle>
-              <StatusBadge status={task.status as any} />
+              <StatusBadge
+                status={task.status as any}
+                workflowStatus={workflowStatuses?.find((s) => s.key === task.status)}
+              />
             </div>
             <div className="flex items-center gap-1">
               {(task as any).visibility === "private" && (
@@ -933,6 +960,7 @@ export function TaskDetailDrawer({
                   <Share2 className="h-4 w-4" />
                 </Button>
               )}
+              <RemindMeButton sourceType="task" sourceId={task.id} message={task.title} className="h-9 px-2" />
               {task.projectId && (
                 <Button
                   variant="ghost"
@@ -1091,7 +1119,7 @@ export function TaskDetailDrawer({
               >
                 <DatePickerWithChips
                   value={task.dueDate ? new Date(task.dueDate) : null}
-                  onChange={(date) => onUpdate?.(task.id, { dueDate: date as any })}
+                  onChange={(date) => updateFields(task.id, { dueDate: date as any })}
                   className={cn(isMobile ? "w-full h-10" : "w-[180px] h-8")}
                   data-testid="button-due-date"
                 />
@@ -1103,7 +1131,7 @@ export function TaskDetailDrawer({
               >
                 <PrioritySelector
                   value={task.priority as PriorityLevel}
-                  onChange={(value) => onUpdate?.(task.id, { priority: value })}
+                  onChange={(value) => updateFields(task.id, { priority: value })}
                   className={cn(isMobile ? "w-full h-10" : "w-[140px] h-8")}
                   data-testid="select-priority"
                 />
@@ -1116,6 +1144,7 @@ export function TaskDetailDrawer({
                 <StatusSelector
                   value={task.status as TaskStatus}
                   onChange={handleStatusChange}
+                  options={workflowStatuses}
                   className={cn(isMobile ? "w-full h-10" : "w-[140px] h-8")}
                   data-testid="select-status"
                 />
@@ -1135,7 +1164,7 @@ export function TaskDetailDrawer({
                     const val = estimateMinutes.trim();
                     const parsed = val ? parseInt(val, 10) : null;
                     if (parsed !== task.estimateMinutes) {
-                      onUpdate?.(task.id, { estimateMinutes: parsed });
+                      updateFields(task.id, { estimateMinutes: parsed });
                     }
                   }}
                   placeholder="0"
@@ -1144,6 +1173,20 @@ export function TaskDetailDrawer({
                 />
               </FormFieldWrapper>
 
+              {task.projectId && !task.isPersonal && (
+                <FormFieldWrapper
+                  label="Milestone"
+                  labelIcon={<Diamond className="h-3.5 w-3.5" />}
+                  helpText="Shown as a diamond on the timeline"
+                >
+                  <Switch
+                    checked={task.isMilestone}
+                    onCheckedChange={(checked) => updateFields(task.id, { isMilestone: checked })}
+                    data-testid="switch-milestone"
+                  />
+                </FormFieldWrapper>
+              )}
+
               <FormFieldWrapper
                 label="Watchers"
                 labelIcon={<Eye className="h-3.5 w-3.5" />}
@@ -1156,6 +1199,10 @@ export function TaskDetailDrawer({
                 />
               </FormFieldWrapper>
             </div>
+
+            {!task.isPersonal && (
+              <CustomFieldsSection entityType="task" entityId={task.id} />
+            )}
           </div>
 
           <Separator />
@@ -1222,7 +1269,28 @@ export function TaskDetailDrawer({
             />
           </div>
 
-          <div 
+          <div
+            className="p-3 sm:p-4 border border-border"
+            style={{ borderRadius: "10px" }}
+          >
+            <TaskRecurrenceEditor
+              task={task}
+              editScope={recurrenceScope}
+              onEditScopeChange={setRecurrenceScope}
+              onChange={onRefresh}
+            />
+          </div>
+
+          {task.projectId && !task.isPersonal && (
+            <div
+              className="p-3 sm:p-4 border border-border"
+              style={{ borderRadius: "10px" }}
+            >
+              <TaskDependencyList taskId={task.id} projectId={task.projectId} />
+            </div>
+          )}
+
+          <div
             className="p-3 sm:p-4 dark:bg-[hsl(var(--section-tags))] border border-[#ade8f5] dark:border-[hsl(var(--section-tags-border))] bg-[#edf4f54d]"
             style={{ borderRadius: "10px" }}
           >
@@ -1500,11 +1568,11 @@ export function TaskDetailDrawer({
           showSave={true}
           onSave={saveAndClose}
           saveLabel="Save Task"
-          showComplete={task.status !== "done"}
+          showComplete={!isDone(task.status)}
           onMarkComplete={handleMarkAsComplete}
           completeDisabled={timeEntriesLoading || isCompletingTask}
           isCompleting={isCompletingTask}
-          showIncomplete={task.status === "done"}
+          showIncomplete={isDone(task.status)}
           onMarkIncomplete={handleMarkAsIncomplete}
           incompleteDisabled={isReopeningTask}
           isIncompleting={isReopeningTask}
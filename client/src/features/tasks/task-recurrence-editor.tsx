@@ -0,0 +1,378 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { format } from "date-fns";
+import { RecurrenceGenerateMode, type TaskRecurrence, type TaskWithRelations } from "@shared/schema";
+
+export type RecurrenceEditScopeValue = "this" | "future";
+
+type Frequency = "DAILY" | "WEEKLY" | "MONTHLY";
+type MonthlyMode = "day" | "weekday";
+type EndMode = "never" | "count" | "until";
+
+interface RuleDraft {
+  freq: Frequency;
+  interval: number;
+  weekdays: string[];
+  monthlyMode: MonthlyMode;
+  endMode: EndMode;
+  count: number;
+  until: string;
+  generateMode: string;
+}
+
+const WEEKDAYS = [
+  { code: "MO", label: "Mon" },
+  { code: "TU", label: "Tue" },
+  { code: "WE", label: "Wed" },
+  { code: "TH", label: "Thu" },
+  { code: "FR", label: "Fri" },
+  { code: "SA", label: "Sat" },
+  { code: "SU", label: "Sun" },
+];
+const JS_DAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const ORDINAL_LABELS: Record<string, string> = { "1": "first", "2": "second", "3": "third", "4": "fourth", "5": "fifth", "-1": "last" };
+const UNIT_LABELS: Record<Frequency, string> = { DAILY: "day", WEEKLY: "week", MONTHLY: "month" };
+
+/** The anchor date (due, else start) drives weekday / day-of-month defaults. */
+function anchorOf(task: TaskWithRelations): Date {
+  return new Date(task.dueDate ?? task.startDate ?? Date.now());
+}
+
+function nthWeekdayOf(date: Date): string {
+  const nth = Math.ceil(date.getUTCDate() / 7);
+  return `${nth > 4 ? -1 : nth}${JS_DAY_CODES[date.getUTCDay()]}`;
+}
+
+function buildRRule(draft: RuleDraft, anchor: Date): string {
+  const parts = [`FREQ=${draft.freq}`];
+  if (draft.interval > 1) parts.push(`INTERVAL=${draft.interval}`);
+  if (draft.freq === "WEEKLY" && draft.weekdays.length > 0) parts.push(`BYDAY=${draft.weekdays.join(",")}`);
+  if (draft.freq === "MONTHLY") {
+    parts.push(draft.monthlyMode === "weekday" ? `BYDAY=${nthWeekdayOf(anchor)}` : `BYMONTHDAY=${anchor.getUTCDate()}`);
+  }
+  if (draft.endMode === "count") parts.push(`COUNT=${Math.max(draft.count, 1)}`);
+  if (draft.endMode === "until" && draft.until) parts.push(`UNTIL=${draft.until.replace(/-/g, "")}`);
+  return parts.join(";");
+}
+
+function parseDraft(recurrence: TaskRecurrence | null | undefined, anchor: Date): RuleDraft {
+  const draft: RuleDraft = {
+    freq: "WEEKLY",
+    interval: 1,
+    weekdays: [JS_DAY_CODES[anchor.getUTCDay()]],
+    monthlyMode: "day",
+    endMode: "never",
+    count: 10,
+    until: "",
+    generateMode: RecurrenceGenerateMode.ON_COMPLETION,
+  };
+  if (!recurrence) return draft;
+
+  draft.generateMode = recurrence.generateMode;
+  for (const part of recurrence.rrule.split(";")) {
+    const [key, value] = part.split("=");
+    if (key === "FREQ") draft.freq = value as Frequency;
+    if (key === "INTERVAL") draft.interval = Number(value);
+    if (key === "BYDAY") {
+      draft.weekdays = value.split(",").map((d) => d.replace(/^[+-]?\d+/, ""));
+      if (/\d/.test(value)) draft.monthlyMode = "weekday";
+    }
+    if (key === "COUNT") {
+      draft.endMode = "count";
+      draft.count = Number(value);
+    }
+    if (key === "UNTIL") {
+      draft.endMode = "until";
+      draft.until = `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+    }
+  }
+  return draft;
+}
+
+/** "MO" → "Mon", "2TU" → "the second Tue" */
+function weekdayLabel(token: string): string {
+  const match = /^([+-]?\d+)?(\w{2})$/.exec(token);
+  const label = WEEKDAYS.find((d) => d.code === match?.[2])?.label ?? token;
+  return match?.[1] ? `the ${ORDINAL_LABELS[match[1]] ?? match[1]} ${label}` : label;
+}
+
+export function describeRRule(rrule: string): string {
+  const fields = Object.fromEntries(rrule.split(";").map((p) => p.split("=")));
+  const freq = fields.FREQ as Frequency;
+  const interval = Number(fields.INTERVAL ?? 1);
+  let text = interval > 1 ? `Every ${interval} ${UNIT_LABELS[freq]}s` : `Every ${UNIT_LABELS[freq]}`;
+
+  if (fields.BYDAY) {
+    text += ` on ${(fields.BYDAY as string).split(",").map(weekdayLabel).join(", ")}`;
+  }
+  if (fields.BYMONTHDAY) text += ` on day ${fields.BYMONTHDAY}`;
+  if (fields.COUNT) text += `, ${fields.COUNT} times`;
+  if (fields.UNTIL) {
+    const u = fields.UNTIL as string;
+    text += `, until ${u.slice(0, 4)}-${u.slice(4, 6)}-${u.slice(6, 8)}`;
+  }
+  return text;
+}
+
+interface TaskRecurrenceEditorProps {
+  task: TaskWithRelations;
+  editScope: RecurrenceEditScopeValue;
+  onEditScopeChange: (scope: RecurrenceEditScopeValue) => void;
+  onChange?: () => void;
+}
+
+export function TaskRecurrenceEditor({ task, editScope, onEditScopeChange, onChange }: TaskRecurrenceEditorProps) {
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const anchor = anchorOf(task);
+
+  const { data: recurrence } = useQuery<TaskRecurrence | null>({
+    queryKey: queryKeys.tasks.recurrence(task.id),
+  });
+
+  const [draft, setDraft] = useState<RuleDraft>(() => parseDraft(recurrence, anchor));
+  useEffect(() => {
+    if (!isEditing) setDraft(parseDraft(recurrence, anchor));
+  }, [recurrence, isEditing, task.dueDate, task.startDate]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.tasks.recurrence(task.id) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.tasks.detail(task.id) });
+    onChange?.();
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PUT", `/api/tasks/${task.id}/recurrence`, {
+        rrule: buildRRule(draft, anchor),
+        generateMode: draft.generateMode,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      setIsEditing(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save repeat rule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async () => apiRequest("DELETE", `/api/tasks/${task.id}/recurrence`),
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Could not stop repeating", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const isActive = !!recurrence?.isActive;
+  const update = (patch: Partial<RuleDraft>) => setDraft((d) => ({ ...d, ...patch }));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 font-medium text-foreground text-[16px]">
+          <Repeat className="h-3.5 w-3.5" />
+          Repeat
+        </label>
+        {!isEditing && (
+          <div className="flex gap-1">
+            <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)} data-testid="button-edit-recurrence">
+              {isActive ? "Edit" : "Set repeat"}
+            </Button>
+            {isActive && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => stopMutation.mutate()}
+                disabled={stopMutation.isPending}
+                data-testid="button-stop-recurrence"
+              >
+                Stop
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {!isEditing && recurrence && (
+        <div className="space-y-2 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <span data-testid="text-recurrence-summary">{describeRRule(recurrence.rrule)}</span>
+            {!isActive && <Badge variant="secondary">Ended</Badge>}
+          </div>
+          {isActive && recurrence.nextOccurrenceAt && (
+            <div className="text-muted-foreground">
+              Next: {format(new Date(recurrence.nextOccurrenceAt), "MMM d, yyyy")}
+              {recurrence.generateMode === RecurrenceGenerateMode.ON_COMPLETION
+                ? " (created when this task is completed)"
+                : " (created when this task comes due)"}
+            </div>
+          )}
+          {isActive && (
+            <div className="flex items-center gap-2">
+              <span className="text-muted-foreground">Edits apply to</span>
+              <Select value={editScope} onValueChange={(v) => onEditScopeChange(v as RecurrenceEditScopeValue)}>
+                <SelectTrigger className="w-[200px] h-8" data-testid="select-recurrence-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="this">This task only</SelectItem>
+                  <SelectItem value="future">This and future tasks</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+      )}
+
+      {!isEditing && !recurrence && (
+        <div className="text-sm text-muted-foreground">Does not repeat</div>
+      )}
+
+      {isEditing && (
+        <div className="space-y-3 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <span>Every</span>
+            <Input
+              type="number"
+              min={1}
+              max={999}
+              value={draft.interval}
+              onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className="w-[70px] h-8"
+              data-testid="input-recurrence-interval"
+            />
+            <Select value={draft.freq} onValueChange={(v) => update({ freq: v as Frequency })}>
+              <SelectTrigger className="w-[120px] h-8" data-testid="select-recurrence-frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="DAILY">day(s)</SelectItem>
+                <SelectItem value="WEEKLY">week(s)</SelectItem>
+                <SelectItem value="MONTHLY">month(s)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {draft.freq === "WEEKLY" && (
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAYS.map((day) => {
+                const selected = draft.weekdays.includes(day.code);
+                return (
+                  <Button
+                    key={day.code}
+                    type="button"
+                    size="sm"
+                    variant={selected ? "default" : "outline"}
+                    className="h-7 px-2"
+                    onClick={() =>
+                      update({
+                        weekdays: selected
+                          ? draft.weekdays.filter((d) => d !== day.code)
+                          : [...draft.weekdays, day.code],
+                      })
+                    }
+                    data-testid={`button-recurrence-weekday-${day.code}`}
+                  >
+                    {day.label}
+                  </Button>
+                );
+              })}
+            </div>
+          )}
+
+          {draft.freq === "MONTHLY" && (
+            <Select value={draft.monthlyMode} onValueChange={(v) => update({ monthlyMode: v as MonthlyMode })}>
+              <SelectTrigger className="w-[260px] h-8" data-testid="select-recurrence-monthly-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">On day {anchor.getUTCDate()}</SelectItem>
+                <SelectItem value="weekday">On {weekdayLabel(nthWeekdayOf(anchor))}</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span>Ends</span>
+            <Select value={draft.endMode} onValueChange={(v) => update({ endMode: v as EndMode })}>
+              <SelectTrigger className="w-[130px] h-8" data-testid="select-recurrence-end">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="count">After</SelectItem>
+                <SelectItem value="until">On date</SelectItem>
+              </SelectContent>
+            </Select>
+            {draft.endMode === "count" && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={draft.count}
+                  onChange={(e) => update({ count: parseInt(e.target.value, 10) || 1 })}
+                  className="w-[80px] h-8"
+                  data-testid="input-recurrence-count"
+                />
+                <span>occurrences</span>
+              </>
+            )}
+            {draft.endMode === "until" && (
+              <Input
+                type="date"
+                value={draft.until}
+                onChange={(e) => update({ until: e.target.value })}
+                className="w-[160px] h-8"
+                data-testid="input-recurrence-until"
+              />
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span>Create next</span>
+            <Select value={draft.generateMode} onValueChange={(v) => update({ generateMode: v })}>
+              <SelectTrigger className="w-[200px] h-8" data-testid="select-recurrence-generate-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={RecurrenceGenerateMode.ON_COMPLETION}>When completed</SelectItem>
+                <SelectItem value={RecurrenceGenerateMode.ON_SCHEDULE}>When this one comes due</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || (draft.endMode === "until" && !draft.until)}
+              data-testid="button-save-recurrence"
+            >
+              Save
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setIsEditing(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { ProjectTemplate } from "@shared/schema";
+import { collectTemplateRoles, templateUsesDates, type ProjectTemplateContent } from "@shared/projectTemplates";
+
+const UNASSIGNED = "__unassigned__";
+
+type TenantUser = { id: string; email: string; firstName?: string | null; lastName?: string | null };
+
+interface ApplyTemplateResult {
+  tasksCreated: number;
+  attachmentsSkipped: number;
+  unmappedRoles: string[];
+}
+
+function displayName(user: TenantUser): string {
+  const name = [user.firstName, user.lastName].filter(Boolean).join(" ");
+  return name || user.email;
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/** True when applying needs a start date or role mapping, so the dialog should be shown. */
+export function templateNeedsSetup(template: ProjectTemplate): boolean {
+  const content = template.content as ProjectTemplateContent | undefined;
+  return templateUsesDates(content) || collectTemplateRoles(content).length > 0;
+}
+
+interface ApplyTemplateDialogProps {
+  projectId: string;
+  template: ProjectTemplate | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Picks the start date and maps the template's roles to people before applying it to a project. */
+export function ApplyTemplateDialog({ projectId, template, onOpenChange }: ApplyTemplateDialogProps) {
+  const { toast } = useToast();
+  const content = template?.content as ProjectTemplateContent | undefined;
+  const roles = collectTemplateRoles(content);
+  const usesDates = templateUsesDates(content);
+  const [startDate, setStartDate] = useState(today);
+  const [assignments, setAssignments] = useState<Record<string, string>>({});
+
+  const { data: users = [] } = useQuery<TenantUser[]>({
+    queryKey: ["/api/users"],
+    enabled: !!template && roles.length > 0,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/projects/${projectId}/apply-template`, {
+        templateId: template!.id,
+        startDate: usesDates && startDate ? startDate : undefined,
+        roleAssignments: assignments,
+      });
+      return res.json() as Promise<ApplyTemplateResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "sections"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "tasks"] });
+      const notes: string[] = [];
+      if (result.unmappedRoles.length) notes.push(`Unassigned roles: ${result.unmappedRoles.join(", ")}.`);
+      if (result.attachmentsSkipped) notes.push(`${result.attachmentsSkipped} attachment(s) could not be copied.`);
+      toast({
+        title: "Template applied",
+        description: [`${result.tasksCreated} tasks added to this project.`, ...notes].join(" "),
+      });
+      setAssignments({});
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to apply template", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!template} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Apply {template?.name}</DialogTitle>
+          <DialogDescription>Add this template's sections and tasks to the project.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {usesDates && (
+            <div className="space-y-1">
+              <Label htmlFor="template-start-date">Start date</Label>
+              <Input
+                id="template-start-date"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                data-testid="input-template-start-date"
+              />
+              <p className="text-xs text-muted-foreground">Task dates are calculated from this day.</p>
+            </div>
+          )}
+          {roles.length > 0 && (
+            <div className="space-y-2">
+              <Label>Roles</Label>
+              {roles.map((role) => (
+                <div key={role} className="flex items-center gap-2">
+                  <span className="text-sm w-28 truncate" title={role}>{role}</span>
+                  <Select
+                    value={assignments[role] ?? UNASSIGNED}
+                    onValueChange={(value) => {
+                      const next = { ...assignments };
+                      if (value === UNASSIGNED) delete next[role];
+                      else next[role] = value;
+                      setAssignments(next);
+                    }}
+                  >
+                    <SelectTrigger className="flex-1" data-testid={`select-template-role-${role}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNASSIGNED}>Leave unassigned</SelectItem>
+                      {users.map((user) => (
+                        <SelectItem key={user.id} value={user.id}>{displayName(user)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => applyMutation.mutate()}
+            disabled={applyMutation.isPending || (usesDates && !startDate)}
+            data-testid="button-confirm-apply-template"
+          >
+            {applyMutation.isPending ? "Applying..." : "Apply Template"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,3 @@
+export { TemplateTaskEditor, formatDayOffset } from "./template-task-editor";
+export { ApplyTemplateDialog, templateNeedsSetup } from "./apply-template-dialog";
+export { SaveAsTemplateDialog } from "./save-as-template-dialog";
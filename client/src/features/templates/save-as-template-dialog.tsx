@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { ProjectMember, User } from "@shared/schema";
+
+type MemberWithUser = ProjectMember & { user?: User };
+
+interface SaveAsTemplateDialogProps {
+  project: { id: string; name: string };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Captures the project as a new template. Members given a role become that role's
+ * placeholder; tasks assigned to anyone else are saved unassigned.
+ */
+export function SaveAsTemplateDialog({ project, open, onOpenChange }: SaveAsTemplateDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState(`${project.name} template`);
+  const [description, setDescription] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [roles, setRoles] = useState<Record<string, string>>({});
+  const [includeAttachments, setIncludeAttachments] = useState(true);
+
+  const { data: members = [] } = useQuery<MemberWithUser[]>({
+    queryKey: ["/api/projects", project.id, "members"],
+    enabled: open,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const mappedRoles: Record<string, string> = {};
+      Object.keys(roles).forEach((userId) => {
+        const role = roles[userId].trim();
+        if (role) mappedRoles[userId] = role;
+      });
+      const res = await apiRequest("POST", `/api/project-templates/from-project/${project.id}`, {
+        name: name.trim(),
+        description: description.trim() || undefined,
+        startDate: startDate || undefined,
+        roles: mappedRoles,
+        includeAttachments,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/project-templates"] });
+      toast({ title: "Template saved", description: "Find it on the Templates page." });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save template", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Save as template</DialogTitle>
+          <DialogDescription>
+            Sections, tasks, subtasks, tags, estimates and dates are copied. Dates are stored relative to the start date.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="save-template-name">Template name</Label>
+            <Input
+              id="save-template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={200}
+              data-testid="input-save-template-name"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="save-template-description">Description</Label>
+            <Textarea
+              id="save-template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              className="resize-none"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="save-template-start">Start date</Label>
+            <Input id="save-template-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            <p className="text-xs text-muted-foreground">Leave empty to use the earliest task date.</p>
+          </div>
+          {members.length > 0 && (
+            <div className="space-y-2">
+              <Label>Roles</Label>
+              <p className="text-xs text-muted-foreground">
+                Give people a role such as "Designer" to keep their assignments as placeholders.
+              </p>
+              {members.map((member) => {
+                const label = [member.user?.firstName, member.user?.lastName].filter(Boolean).join(" ") || member.user?.email || member.userId;
+                return (
+                  <div key={member.userId} className="flex items-center gap-2">
+                    <span className="text-sm w-40 truncate" title={label}>{label}</span>
+                    <Input
+                      className="flex-1 h-8"
+                      value={roles[member.userId] ?? ""}
+                      onChange={(e) => setRoles({ ...roles, [member.userId]: e.target.value })}
+                      placeholder="No role"
+                      maxLength={60}
+                      data-testid={`input-save-template-role-${member.userId}`}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          <label className="flex items-center justify-between gap-2 text-sm">
+            Copy task attachments
+            <Switch checked={includeAttachments} onCheckedChange={setIncludeAttachments} />
+          </label>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || !name.trim()}
+            data-testid="button-confirm-save-template"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Template"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
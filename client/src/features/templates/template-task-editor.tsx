@@ -0,0 +1,323 @@
+import { useRef, useState } from "react";
+import { Paperclip, Plus, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  TEMPLATE_TASK_PRIORITIES,
+  type TemplateAttachment,
+  type TemplateSubtask,
+  type TemplateTask,
+} from "@shared/projectTemplates";
+
+const NO_ROLE = "__none__";
+
+function parseOptionalInt(value: string): number | undefined {
+  if (value.trim() === "") return undefined;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/** "Day 3", "Day -2": offsets are days from the project start date chosen when applying. */
+export function formatDayOffset(offset: number | undefined): string | null {
+  return offset === undefined ? null : `Day ${offset}`;
+}
+
+interface TemplateTaskEditorProps {
+  task: TemplateTask;
+  roles: string[];
+  onChange: (task: TemplateTask) => void;
+}
+
+/** Details of one template task: dates, estimate, roles, tags, subtasks and default attachments. */
+export function TemplateTaskEditor({ task, roles, onChange }: TemplateTaskEditorProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [tagInput, setTagInput] = useState("");
+  const subtasks: TemplateSubtask[] = (task.subtasks ?? []).map((s) => (typeof s === "string" ? { title: s } : s));
+
+  const update = (patch: Partial<TemplateTask>) => onChange({ ...task, ...patch });
+
+  const updateSubtask = (index: number, patch: Partial<TemplateSubtask>) => {
+    const next = subtasks.map((s, i) => (i === index ? { ...s, ...patch } : s));
+    update({ subtasks: next });
+  };
+
+  const toggleRole = (role: string) => {
+    const current = task.assigneeRoles ?? [];
+    const next = current.includes(role) ? current.filter((r) => r !== role) : [...current, role];
+    update({ assigneeRoles: next.length ? next : undefined });
+  };
+
+  const addTag = () => {
+    const tag = tagInput.trim();
+    if (!tag) return;
+    const current = task.tags ?? [];
+    if (!current.some((t) => t.toLowerCase() === tag.toLowerCase())) update({ tags: [...current, tag] });
+    setTagInput("");
+  };
+
+  const handleUpload = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await fetch("/api/project-templates/attachments", {
+        method: "POST",
+        credentials: "include",
+        body: formData,
+      });
+      if (!res.ok) {
+        const errData = await res.json().catch(() => ({}));
+        throw new Error(errData.message || `Upload failed (${res.status})`);
+      }
+      const attachment: TemplateAttachment = await res.json();
+      update({ attachments: [...(task.attachments ?? []), attachment] });
+    } catch (err: any) {
+      toast({ title: "Upload failed", description: err.message, variant: "destructive" });
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md bg-muted/40 p-3" data-testid="template-task-editor">
+      <Textarea
+        value={task.description ?? ""}
+        onChange={(e) => update({ description: e.target.value || undefined })}
+        placeholder="Description"
+        rows={2}
+        className="resize-none"
+      />
+
+      <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+        <div className="space-y-1">
+          <Label className="text-xs">Priority</Label>
+          <Select value={task.priority ?? "medium"} onValueChange={(v) => update({ priority: v as TemplateTask["priority"] })}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TEMPLATE_TASK_PRIORITIES.map((p) => (
+                <SelectItem key={p} value={p} className="capitalize">{p}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Start (day)</Label>
+          <Input
+            type="number"
+            className="h-8"
+            value={task.startOffsetDays ?? ""}
+            onChange={(e) => update({ startOffsetDays: parseOptionalInt(e.target.value) })}
+            placeholder="—"
+            data-testid="input-template-task-start-offset"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Due (day)</Label>
+          <Input
+            type="number"
+            className="h-8"
+            value={task.dueOffsetDays ?? ""}
+            onChange={(e) => update({ dueOffsetDays: parseOptionalInt(e.target.value) })}
+            placeholder="—"
+            data-testid="input-template-task-due-offset"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Estimate (min)</Label>
+          <Input
+            type="number"
+            min={1}
+            className="h-8"
+            value={task.estimateMinutes ?? ""}
+            onChange={(e) => {
+              const minutes = parseOptionalInt(e.target.value);
+              update({ estimateMinutes: minutes && minutes > 0 ? minutes : undefined });
+            }}
+            placeholder="—"
+          />
+        </div>
+      </div>
+      {task.startOffsetDays !== undefined && task.dueOffsetDays !== undefined && task.startOffsetDays > task.dueOffsetDays && (
+        <p className="text-xs text-destructive">The start day must be on or before the due day.</p>
+      )}
+
+      <label className="flex items-center gap-2 text-sm">
+        <Checkbox checked={task.isMilestone ?? false} onCheckedChange={(checked) => update({ isMilestone: checked === true || undefined })} />
+        Milestone
+      </label>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Assign to roles</Label>
+        {roles.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Add roles to the template to assign tasks to them.</p>
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            {roles.map((role) => {
+              const active = task.assigneeRoles?.includes(role) ?? false;
+              return (
+                <Badge
+                  key={role}
+                  variant={active ? "default" : "outline"}
+                  className="cursor-pointer"
+                  onClick={() => toggleRole(role)}
+                >
+                  {role}
+                </Badge>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Tags</Label>
+        <div className="flex flex-wrap items-center gap-1">
+          {(task.tags ?? []).map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button
+                type="button"
+                aria-label={`Remove tag ${tag}`}
+                onClick={() => {
+                  const next = (task.tags ?? []).filter((t) => t !== tag);
+                  update({ tags: next.length ? next : undefined });
+                }}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          <Input
+            className="h-7 w-32"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addTag();
+              }
+            }}
+            onBlur={addTag}
+            placeholder="Add tag"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Subtasks</Label>
+        {subtasks.map((subtask, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              className="h-8 flex-1"
+              value={subtask.title}
+              onChange={(e) => updateSubtask(index, { title: e.target.value })}
+              placeholder="Subtask title"
+            />
+            <Input
+              type="number"
+              className="h-8 w-20"
+              value={subtask.dueOffsetDays ?? ""}
+              onChange={(e) => updateSubtask(index, { dueOffsetDays: parseOptionalInt(e.target.value) })}
+              placeholder="Due day"
+              title="Due day, relative to the project start"
+            />
+            {roles.length > 0 && (
+              <Select
+                value={subtask.assigneeRole ?? NO_ROLE}
+                onValueChange={(v) => updateSubtask(index, { assigneeRole: v === NO_ROLE ? undefined : v })}
+              >
+                <SelectTrigger className="h-8 w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ROLE}>No role</SelectItem>
+                  {roles.map((role) => (
+                    <SelectItem key={role} value={role}>{role}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => {
+                const next = subtasks.filter((_, i) => i !== index);
+                update({ subtasks: next.length ? next : undefined });
+              }}
+              aria-label="Remove subtask"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-muted-foreground"
+          onClick={() => update({ subtasks: [...subtasks, { title: "New subtask" }] })}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Subtask
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Default attachments</Label>
+        {(task.attachments ?? []).map((attachment, index) => (
+          <div key={attachment.storageKey} className="flex items-center gap-2 text-sm">
+            <Paperclip className="h-4 w-4 text-muted-foreground shrink-0" />
+            <span className="truncate flex-1">{attachment.fileName}</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => {
+                const next = (task.attachments ?? []).filter((_, i) => i !== index);
+                update({ attachments: next.length ? next : undefined });
+              }}
+              aria-label={`Remove ${attachment.fileName}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          onChange={(e) => handleUpload(e.target.files)}
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-muted-foreground"
+          disabled={uploading}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Paperclip className="h-4 w-4 mr-1" />
+          {uploading ? "Uploading..." : "Attach File"}
+        </Button>
+      </div>
+    </div>
+  );
+}
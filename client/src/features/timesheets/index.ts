@@ -0,0 +1,5 @@
+export { MyTimesheetPanel } from "./my-timesheet-panel";
+export type { TimesheetWeek } from "./my-timesheet-panel";
+export { TimesheetReviewQueue } from "./timesheet-review-queue";
+export { TimesheetStatusBadge } from "./timesheet-status-badge";
+export { currentWeekStart } from "./timesheet-utils";
@@ -0,0 +1,166 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, parseISO, addDays } from "date-fns";
+import { ChevronLeft, ChevronRight, Loader2, Lock, Send, MessageSquareWarning } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { TimesheetStatus, type Timesheet, type TimesheetStatusValue } from "@shared/schema";
+import { TimesheetStatusBadge } from "./timesheet-status-badge";
+import { currentWeekStart, formatHours, formatWeekRange, invalidateTimesheets, shiftWeek } from "./timesheet-utils";
+
+export interface TimesheetWeek {
+  weekStart: string;
+  userId: string;
+  status: TimesheetStatusValue;
+  timesheet: Timesheet | null;
+  dailySeconds: number[];
+  totalSeconds: number;
+  capacitySeconds: number;
+  entries: {
+    id: string;
+    startTime: string;
+    durationSeconds: number;
+    title: string | null;
+    description: string | null;
+    projectName: string | null;
+    taskTitle: string | null;
+  }[];
+}
+
+const DAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+interface MyTimesheetPanelProps {
+  weekStart: string;
+  onWeekChange: (weekStart: string) => void;
+}
+
+/** The current user's weekly timesheet: daily totals, entries, and submission for approval. */
+export function MyTimesheetPanel({ weekStart, onWeekChange }: MyTimesheetPanelProps) {
+  const { toast } = useToast();
+  const { data: week, isLoading } = useQuery<TimesheetWeek>({
+    queryKey: queryKeys.timesheets.week(weekStart),
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/timesheets/submit", { weekStart });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateTimesheets(queryClient);
+      toast({ title: "Timesheet submitted", description: "Your manager has been notified." });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to submit timesheet", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const isFutureWeek = weekStart > currentWeekStart();
+  const canSubmit = !!week && !isFutureWeek &&
+    (week.status === TimesheetStatus.DRAFT || week.status === TimesheetStatus.REJECTED);
+  const utilization = week && week.capacitySeconds > 0
+    ? Math.min(100, (week.totalSeconds / week.capacitySeconds) * 100)
+    : 0;
+
+  return (
+    <Card data-testid="my-timesheet-panel">
+      <CardHeader className="flex flex-row items-start justify-between gap-3">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            Timesheet
+            {week && <TimesheetStatusBadge status={week.status} />}
+          </CardTitle>
+          <CardDescription>{formatWeekRange(weekStart)}</CardDescription>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button size="icon" variant="ghost" onClick={() => onWeekChange(shiftWeek(weekStart, -1))} data-testid="button-timesheet-prev-week">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => onWeekChange(currentWeekStart())} data-testid="button-timesheet-this-week">
+            This Week
+          </Button>
+          <Button size="icon" variant="ghost" onClick={() => onWeekChange(shiftWeek(weekStart, 1))} data-testid="button-timesheet-next-week">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {isLoading || !week ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {week.status === TimesheetStatus.REJECTED && week.timesheet?.reviewComment && (
+              <div className="flex items-start gap-2 rounded-md border border-destructive/40 bg-destructive/5 p-3 text-sm" data-testid="text-timesheet-rejection">
+                <MessageSquareWarning className="h-4 w-4 mt-0.5 text-destructive shrink-0" />
+                <span>{week.timesheet.reviewComment}</span>
+              </div>
+            )}
+            {week.status === TimesheetStatus.APPROVED && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Lock className="h-4 w-4" />
+                Approved — time entries in this week are locked.
+              </div>
+            )}
+
+            <div className="grid grid-cols-7 gap-2">
+              {DAY_LABELS.map((label, index) => (
+                <div key={label} className="rounded-md border p-2 text-center" data-testid={`timesheet-day-${index}`}>
+                  <div className="text-xs text-muted-foreground">{label}</div>
+                  <div className="text-xs text-muted-foreground">{format(addDays(parseISO(weekStart), index), "d")}</div>
+                  <div className="text-sm font-medium mt-1">{formatHours(week.dailySeconds[index] ?? 0)}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span>Total</span>
+                <span className="font-medium">
+                  {formatHours(week.totalSeconds)} of {formatHours(week.capacitySeconds)} expected
+                </span>
+              </div>
+              <Progress value={utilization} className="h-2" />
+            </div>
+
+            {week.entries.length > 0 ? (
+              <div className="divide-y rounded-md border">
+                {week.entries.map((entry) => (
+                  <div key={entry.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <div className="truncate">
+                        {entry.title || entry.description || entry.taskTitle || "Untitled entry"}
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {format(new Date(entry.startTime), "EEE MMM d, h:mm a")}
+                        {entry.projectName && ` · ${entry.projectName}`}
+                      </div>
+                    </div>
+                    <span className="shrink-0 font-medium">{formatHours(entry.durationSeconds)}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-4">No time tracked this week.</p>
+            )}
+
+            <div className="flex justify-end">
+              <Button
+                onClick={() => submitMutation.mutate()}
+                disabled={!canSubmit || submitMutation.isPending}
+                data-testid="button-submit-timesheet"
+              >
+                {submitMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                {week.status === TimesheetStatus.REJECTED ? "Resubmit for Approval" : "Submit for Approval"}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,269 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Check, ChevronLeft, ChevronRight, Loader2, BellRing, RotateCcw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { cn } from "@/lib/utils";
+import { TimesheetStatus, type TimesheetStatusValue } from "@shared/schema";
+import { TimesheetStatusBadge } from "./timesheet-status-badge";
+import { currentWeekStart, formatHours, formatWeekRange, invalidateTimesheets, shiftWeek } from "./timesheet-utils";
+
+interface ReviewQueueRow {
+  user: { id: string; name: string; email: string; firstName: string | null; lastName: string | null };
+  timesheetId: string | null;
+  status: TimesheetStatusValue;
+  trackedSeconds: number;
+  submittedSeconds: number | null;
+  capacitySeconds: number;
+  submittedAt: string | null;
+  reviewComment: string | null;
+}
+
+interface ReviewQueueResponse {
+  weekStart: string;
+  rows: ReviewQueueRow[];
+}
+
+function personName(user: ReviewQueueRow["user"]): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.name || user.email;
+}
+
+interface TimesheetReviewQueueProps {
+  weekStart: string;
+  onWeekChange: (weekStart: string) => void;
+}
+
+/** Admin queue of everyone's timesheet for a week, with approve / reject / reopen and reminders. */
+export function TimesheetReviewQueue({ weekStart, onWeekChange }: TimesheetReviewQueueProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [rejecting, setRejecting] = useState<ReviewQueueRow | null>(null);
+  const [comment, setComment] = useState("");
+
+  const { data, isLoading } = useQuery<ReviewQueueResponse>({
+    queryKey: queryKeys.timesheets.review(weekStart),
+  });
+  const rows = data?.rows ?? [];
+  const missing = rows.filter((r) => r.status === TimesheetStatus.DRAFT || r.status === TimesheetStatus.REJECTED);
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, status, comment }: { id: string; status: string; comment?: string }) => {
+      const res = await apiRequest("POST", `/api/timesheets/${id}/review`, { status, comment });
+      return res.json();
+    },
+    onSuccess: (_data, vars) => {
+      invalidateTimesheets(queryClient);
+      toast({ title: vars.status === TimesheetStatus.APPROVED ? "Timesheet approved" : "Timesheet rejected" });
+      setRejecting(null);
+      setComment("");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to review timesheet", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/timesheets/${id}/reopen`);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateTimesheets(queryClient);
+      toast({ title: "Timesheet reopened", description: "Its time entries can be edited again." });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to reopen timesheet", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const remindMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/timesheets/reminders", { weekStart });
+      return res.json() as Promise<{ notified: number }>;
+    },
+    onSuccess: ({ notified }) => {
+      toast({ title: "Reminders sent", description: `${notified} ${notified === 1 ? "person was" : "people were"} reminded.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to send reminders", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card data-testid="timesheet-review-queue">
+      <CardHeader className="flex flex-row items-start justify-between gap-3">
+        <div>
+          <CardTitle>Timesheet Review</CardTitle>
+          <CardDescription>{formatWeekRange(weekStart)}</CardDescription>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => remindMutation.mutate()}
+            disabled={missing.length === 0 || remindMutation.isPending}
+            data-testid="button-timesheet-remind"
+          >
+            <BellRing className="h-4 w-4 mr-1" />
+            Remind {missing.length > 0 ? `(${missing.length})` : ""}
+          </Button>
+          <Button size="icon" variant="ghost" onClick={() => onWeekChange(shiftWeek(weekStart, -1))} data-testid="button-review-prev-week">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => onWeekChange(currentWeekStart())} data-testid="button-review-this-week">
+            This Week
+          </Button>
+          <Button size="icon" variant="ghost" onClick={() => onWeekChange(shiftWeek(weekStart, 1))} data-testid="button-review-next-week">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Person</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Tracked</TableHead>
+                <TableHead className="text-right">Capacity</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => {
+                const ratio = row.capacitySeconds > 0 ? row.trackedSeconds / row.capacitySeconds : 0;
+                const isSelf = row.user.id === user?.id;
+                return (
+                  <TableRow key={row.user.id} data-testid={`timesheet-review-row-${row.user.id}`}>
+                    <TableCell className="font-medium">{personName(row.user)}</TableCell>
+                    <TableCell><TimesheetStatusBadge status={row.status} /></TableCell>
+                    <TableCell className="text-right">
+                      {formatHours(row.trackedSeconds)}
+                      {row.submittedSeconds !== null && row.submittedSeconds !== row.trackedSeconds && (
+                        <span className="block text-xs text-amber-600">
+                          {formatHours(row.submittedSeconds)} at submission
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell
+                      className={cn(
+                        "text-right",
+                        ratio < 0.9 && "text-amber-600",
+                        ratio > 1.1 && "text-destructive",
+                      )}
+                    >
+                      {Math.round(ratio * 100)}% of {formatHours(row.capacitySeconds)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        {row.status === TimesheetStatus.SUBMITTED && row.timesheetId && !isSelf && (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => reviewMutation.mutate({ id: row.timesheetId!, status: TimesheetStatus.APPROVED })}
+                              disabled={reviewMutation.isPending}
+                              data-testid={`button-approve-timesheet-${row.user.id}`}
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Approve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setRejecting(row)}
+                              data-testid={`button-reject-timesheet-${row.user.id}`}
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              Reject
+                            </Button>
+                          </>
+                        )}
+                        {(row.status === TimesheetStatus.APPROVED || row.status === TimesheetStatus.SUBMITTED) && row.timesheetId && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => reopenMutation.mutate(row.timesheetId!)}
+                            disabled={reopenMutation.isPending}
+                            data-testid={`button-reopen-timesheet-${row.user.id}`}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Reopen
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => { if (!open) { setRejecting(null); setComment(""); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Timesheet</DialogTitle>
+            <DialogDescription>
+              {rejecting && `${personName(rejecting.user)} will be notified and can correct and resubmit.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="timesheet-reject-comment">Comment</Label>
+            <Textarea
+              id="timesheet-reject-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="What needs to change?"
+              rows={3}
+              data-testid="input-timesheet-reject-comment"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              onClick={() => rejecting?.timesheetId && reviewMutation.mutate({
+                id: rejecting.timesheetId,
+                status: TimesheetStatus.REJECTED,
+                comment: comment.trim(),
+              })}
+              disabled={!comment.trim() || reviewMutation.isPending}
+              data-testid="button-confirm-reject-timesheet"
+            >
+              {reviewMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
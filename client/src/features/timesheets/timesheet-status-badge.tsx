@@ -0,0 +1,17 @@
+import { Badge } from "@/components/ui/badge";
+import { TimesheetStatus } from "@shared/schema";
+import { TIMESHEET_STATUS_LABELS } from "./timesheet-utils";
+
+export function TimesheetStatusBadge({ status }: { status: string }) {
+  const label = TIMESHEET_STATUS_LABELS[status] ?? status;
+  switch (status) {
+    case TimesheetStatus.APPROVED:
+      return <Badge className="bg-green-600 text-white" data-testid="badge-timesheet-status">{label}</Badge>;
+    case TimesheetStatus.SUBMITTED:
+      return <Badge variant="default" data-testid="badge-timesheet-status">{label}</Badge>;
+    case TimesheetStatus.REJECTED:
+      return <Badge variant="destructive" data-testid="badge-timesheet-status">{label}</Badge>;
+    default:
+      return <Badge variant="secondary" data-testid="badge-timesheet-status">{label}</Badge>;
+  }
+}
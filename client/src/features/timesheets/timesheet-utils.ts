@@ -0,0 +1,32 @@
+import { addDays, addWeeks, format, parseISO, startOfWeek } from "date-fns";
+import { TimesheetStatus } from "@shared/schema";
+
+/** Monday (YYYY-MM-DD) of the week containing `date`, matching the server's week key. */
+export function currentWeekStart(date: Date = new Date()): string {
+  return format(startOfWeek(date, { weekStartsOn: 1 }), "yyyy-MM-dd");
+}
+
+export function shiftWeek(weekStart: string, weeks: number): string {
+  return format(addWeeks(parseISO(weekStart), weeks), "yyyy-MM-dd");
+}
+
+export function formatWeekRange(weekStart: string): string {
+  const start = parseISO(weekStart);
+  return `${format(start, "MMM d")} – ${format(addDays(start, 6), "MMM d, yyyy")}`;
+}
+
+export function formatHours(seconds: number): string {
+  return `${(seconds / 3600).toFixed(1)}h`;
+}
+
+export const TIMESHEET_STATUS_LABELS: Record<string, string> = {
+  [TimesheetStatus.DRAFT]: "Not submitted",
+  [TimesheetStatus.SUBMITTED]: "Submitted",
+  [TimesheetStatus.APPROVED]: "Approved",
+  [TimesheetStatus.REJECTED]: "Rejected",
+};
+
+export function invalidateTimesheets(queryClient: { invalidateQueries: (filters: { queryKey: readonly unknown[] }) => unknown }) {
+  queryClient.invalidateQueries({ queryKey: ["/api/timesheets/week"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/timesheets/review"] });
+}
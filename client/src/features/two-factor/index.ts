@@ -0,0 +1,3 @@
+export { TwoFactorCard } from "./two-factor-card";
+export { TwoFactorChallenge, TwoFactorEnrollment } from "./two-factor-challenge";
+export { TwoFactorGate } from "./two-factor-gate";
@@ -0,0 +1,43 @@
+import { Copy, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+
+/** Recovery codes with copy and download actions; shown only right after they are issued. */
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+  const text = codes.join("\n");
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(text);
+    toast({ title: "Recovery codes copied to clipboard" });
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([`${text}\n`], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "myworkday-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/50 p-3 font-mono text-sm" data-testid="list-recovery-codes">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={copy} data-testid="button-copy-recovery-codes">
+          <Copy className="h-4 w-4 mr-1" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={download} data-testid="button-download-recovery-codes">
+          <Download className="h-4 w-4 mr-1" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
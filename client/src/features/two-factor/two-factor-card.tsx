@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Loader2, MonitorSmartphone, ShieldCheck, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { formatErrorForToast } from "@/lib/parseApiError";
+import { TwoFactorEnrollment } from "./two-factor-challenge";
+import { RecoveryCodesList } from "./recovery-codes-list";
+
+interface TrustedDeviceRow {
+  id: string;
+  label: string | null;
+  ipAddress: string | null;
+  expiresAt: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  requiredBy: "platform" | "tenant" | null;
+  recoveryCodesRemaining: number;
+  trustedDevices: TrustedDeviceRow[];
+}
+
+type CodeAction = "disable" | "regenerate";
+
+/** Profile card for turning 2FA on or off, replacing recovery codes and forgetting devices. */
+export function TwoFactorCard() {
+  const { toast } = useToast();
+  const [enrollOpen, setEnrollOpen] = useState(false);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState("");
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: queryKeys.twoFactor.status,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: queryKeys.twoFactor.status });
+
+  const closeCodeDialog = () => {
+    setCodeAction(null);
+    setCode("");
+  };
+
+  const codeMutation = useMutation({
+    mutationFn: async (action: CodeAction) => {
+      if (action === "disable") {
+        await apiRequest("POST", "/api/auth/2fa/disable", { code: code.trim() });
+        return null;
+      }
+      const res = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code: code.trim() });
+      return (await res.json() as { recoveryCodes: string[] }).recoveryCodes;
+    },
+    onSuccess: (codes, action) => {
+      invalidate();
+      closeCodeDialog();
+      if (codes) setNewCodes(codes);
+      if (action === "disable") toast({ title: "Two-factor authentication turned off" });
+    },
+    onError: (err) => {
+      const { title, description } = formatErrorForToast(err);
+      toast({ title, description, variant: "destructive" });
+      setCode("");
+    },
+  });
+
+  const forgetDeviceMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/auth/2fa/devices/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Device forgotten" });
+    },
+    onError: (err) => {
+      const { title, description } = formatErrorForToast(err);
+      toast({ title, description, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card data-testid="card-two-factor">
+      <CardHeader className="flex flex-row items-start justify-between gap-3">
+        <div>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Two-Factor Authentication
+            {status?.enabled && <Badge variant="secondary">On</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Require a code from an authenticator app in addition to your password when you sign in.
+            {status?.required && (
+              <> Required by your {status.requiredBy === "platform" ? "platform" : "organization"} administrator.</>
+            )}
+          </CardDescription>
+        </div>
+        {status && !status.enabled && (
+          <Button size="sm" onClick={() => setEnrollOpen(true)} data-testid="button-enable-two-factor">
+            Turn on
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading || !status ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : status.enabled ? (
+          <div className="space-y-4">
+            <div className="text-sm text-muted-foreground">
+              Turned on {status.enabledAt ? format(new Date(status.enabledAt), "MMM d, yyyy") : ""}
+              {" · "}
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => setCodeAction("regenerate")} data-testid="button-regenerate-recovery-codes">
+                New recovery codes
+              </Button>
+              {!status.required && (
+                <Button variant="outline" size="sm" onClick={() => setCodeAction("disable")} data-testid="button-disable-two-factor">
+                  Turn off
+                </Button>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Remembered devices</Label>
+              {status.trustedDevices.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No devices skip the code at sign-in.</p>
+              ) : (
+                <div className="divide-y rounded-md border">
+                  {status.trustedDevices.map((device) => (
+                    <div key={device.id} className="flex items-center justify-between gap-3 px-3 py-2" data-testid={`trusted-device-${device.id}`}>
+                      <div className="min-w-0 flex items-start gap-2">
+                        <MonitorSmartphone className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                        <div className="min-w-0">
+                          <div className="text-sm truncate">{device.label || "Unknown browser"}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {device.ipAddress ? `${device.ipAddress} · ` : ""}
+                            {device.lastUsedAt
+                              ? `Last used ${formatDistanceToNow(new Date(device.lastUsedAt), { addSuffix: true })}`
+                              : `Added ${formatDistanceToNow(new Date(device.createdAt), { addSuffix: true })}`}
+                            {" · "}
+                            Expires {format(new Date(device.expiresAt), "MMM d")}
+                          </div>
+                        </div>
+                      </div>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => forgetDeviceMutation.mutate(device.id)}
+                        disabled={forgetDeviceMutation.isPending}
+                        title="Forget device"
+                        data-testid={`button-forget-device-${device.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Two-factor authentication is off.</p>
+        )}
+      </CardContent>
+
+      <Dialog open={enrollOpen} onOpenChange={setEnrollOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Turn on two-factor authentication</DialogTitle>
+          </DialogHeader>
+          {enrollOpen && (
+            <TwoFactorEnrollment
+              intro="Scan this QR code with an authenticator app (Google Authenticator, 1Password, Authy…), then enter the 6-digit code it shows."
+              onComplete={() => {
+                setEnrollOpen(false);
+                invalidate();
+              }}
+              onCancel={() => setEnrollOpen(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!codeAction} onOpenChange={(open) => { if (!open) closeCodeDialog(); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{codeAction === "disable" ? "Turn off two-factor authentication" : "Replace recovery codes"}</DialogTitle>
+            <DialogDescription>
+              {codeAction === "disable"
+                ? "Enter a code from your authenticator app to confirm. Remembered devices will be forgotten."
+                : "Enter a code from your authenticator app. Your current recovery codes will stop working."}
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            autoFocus
+            autoComplete="one-time-code"
+            inputMode="numeric"
+            placeholder="123456"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            data-testid="input-two-factor-confirm-code"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={closeCodeDialog}>Cancel</Button>
+            <Button
+              variant={codeAction === "disable" ? "destructive" : "default"}
+              onClick={() => codeAction && codeMutation.mutate(codeAction)}
+              disabled={!/^\d{6}$/.test(code.trim()) || codeMutation.isPending}
+              data-testid="button-two-factor-confirm"
+            >
+              {codeMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              {codeAction === "disable" ? "Turn off" : "Replace codes"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!newCodes} onOpenChange={(open) => { if (!open) setNewCodes(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Your new recovery codes</DialogTitle>
+            <DialogDescription>Each code works once. This is the only time they are shown.</DialogDescription>
+          </DialogHeader>
+          {newCodes && <RecoveryCodesList codes={newCodes} />}
+          <DialogFooter>
+            <Button onClick={() => setNewCodes(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
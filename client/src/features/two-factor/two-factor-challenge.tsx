@@ -0,0 +1,241 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest } from "@/lib/queryClient";
+import { getErrorMessage, parseApiError } from "@/lib/parseApiError";
+import type { TwoFactorGate } from "@/lib/auth";
+import { RecoveryCodesList } from "./recovery-codes-list";
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+}
+
+interface TwoFactorChallengeProps {
+  gate: TwoFactorGate;
+  /** Called once the server has accepted the code (and, for enrollment, codes were shown). */
+  onComplete: () => void | Promise<void>;
+  onCancel?: () => void;
+}
+
+/**
+ * Second step of sign-in: asks for an authenticator or recovery code, or walks the user
+ * through mandatory enrollment. Works for pending logins and for sessions the 2FA guard
+ * is blocking.
+ */
+export function TwoFactorChallenge({ gate, onComplete, onCancel }: TwoFactorChallengeProps) {
+  return gate === "enroll"
+    ? (
+      <TwoFactorEnrollment
+        intro="Your organization requires two-factor authentication. Scan this QR code with an authenticator app (Google Authenticator, 1Password, Authy…), then enter the 6-digit code it shows."
+        onComplete={onComplete}
+        onCancel={onCancel}
+      />
+    )
+    : <VerifyStep onComplete={onComplete} onCancel={onCancel} />;
+}
+
+function VerifyStep({ onComplete, onCancel }: Omit<TwoFactorChallengeProps, "gate">) {
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [rememberDevice, setRememberDevice] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const body = useRecoveryCode
+        ? { recoveryCode: code.trim(), rememberDevice }
+        : { code: code.trim(), rememberDevice };
+      await apiRequest("POST", "/api/auth/2fa/verify", body);
+    },
+    onSuccess: () => onComplete(),
+    onError: (err) => {
+      setError(getErrorMessage(parseApiError(err)));
+      setCode("");
+    },
+  });
+
+  const canSubmit = useRecoveryCode ? code.trim().length >= 10 : /^\d{6}$/.test(code.trim());
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        setError(null);
+        if (canSubmit) verifyMutation.mutate();
+      }}
+    >
+      <div className="flex items-center gap-2 p-3 bg-primary/10 rounded-lg">
+        <ShieldCheck className="h-5 w-5 text-primary shrink-0" />
+        <p className="text-sm text-muted-foreground">
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when you set up two-factor authentication."
+            : "Enter the 6-digit code from your authenticator app."}
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="two-factor-code">{useRecoveryCode ? "Recovery code" : "Authentication code"}</Label>
+        <Input
+          id="two-factor-code"
+          autoFocus
+          autoComplete="one-time-code"
+          inputMode={useRecoveryCode ? "text" : "numeric"}
+          placeholder={useRecoveryCode ? "abcde-fghij" : "123456"}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          disabled={verifyMutation.isPending}
+          data-testid="input-two-factor-code"
+        />
+        {error && <p className="text-sm text-destructive" data-testid="text-two-factor-error">{error}</p>}
+      </div>
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="two-factor-remember"
+          checked={rememberDevice}
+          onCheckedChange={(checked) => setRememberDevice(checked === true)}
+          data-testid="checkbox-two-factor-remember"
+        />
+        <Label htmlFor="two-factor-remember" className="text-sm font-normal">
+          Don't ask again on this device for 30 days
+        </Label>
+      </div>
+      <Button type="submit" className="w-full" disabled={!canSubmit || verifyMutation.isPending} data-testid="button-two-factor-verify">
+        {verifyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Verify
+      </Button>
+      <div className="flex justify-between">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode("");
+            setError(null);
+          }}
+          data-testid="button-two-factor-toggle-recovery"
+        >
+          {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" className="text-muted-foreground" onClick={onCancel} data-testid="button-two-factor-cancel">
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+interface TwoFactorEnrollmentProps extends Omit<TwoFactorChallengeProps, "gate"> {
+  intro: string;
+}
+
+/** QR code, confirmation code and the one-time recovery code display. */
+export function TwoFactorEnrollment({ intro, onComplete, onCancel }: TwoFactorEnrollmentProps) {
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/setup");
+      return res.json() as Promise<TwoFactorSetup>;
+    },
+    onError: (err) => setError(getErrorMessage(parseApiError(err))),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/enable", { code: code.trim() });
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => setRecoveryCodes(data.recoveryCodes),
+    onError: (err) => {
+      setError(getErrorMessage(parseApiError(err)));
+      setCode("");
+    },
+  });
+
+  useEffect(() => {
+    setupMutation.mutate();
+  }, []);
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Two-factor authentication is on. Save these recovery codes somewhere safe. Each one works once if you
+          lose access to your authenticator app, and they won't be shown again.
+        </p>
+        <RecoveryCodesList codes={recoveryCodes} />
+        <Button className="w-full" onClick={() => onComplete()} data-testid="button-two-factor-continue">
+          I've saved my codes
+        </Button>
+      </div>
+    );
+  }
+
+  const setup = setupMutation.data;
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        setError(null);
+        if (/^\d{6}$/.test(code.trim())) enableMutation.mutate();
+      }}
+    >
+      <p className="text-sm text-muted-foreground">{intro}</p>
+      <div className="flex flex-col items-center gap-2">
+        {setup ? (
+          <>
+            <img src={setup.qrCodeDataUrl} alt="Authenticator QR code" className="h-44 w-44" data-testid="img-two-factor-qr" />
+            <code className="text-xs text-muted-foreground break-all text-center" data-testid="text-two-factor-secret">
+              {setup.secret}
+            </code>
+          </>
+        ) : (
+          <div className="h-44 flex items-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="two-factor-enroll-code">Authentication code</Label>
+        <Input
+          id="two-factor-enroll-code"
+          autoComplete="one-time-code"
+          inputMode="numeric"
+          placeholder="123456"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          disabled={!setup || enableMutation.isPending}
+          data-testid="input-two-factor-enroll-code"
+        />
+        {error && <p className="text-sm text-destructive" data-testid="text-two-factor-error">{error}</p>}
+      </div>
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={!setup || !/^\d{6}$/.test(code.trim()) || enableMutation.isPending}
+        data-testid="button-two-factor-enable"
+      >
+        {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Turn on two-factor authentication
+      </Button>
+      {onCancel && (
+        <Button type="button" variant="ghost" className="w-full text-muted-foreground" onClick={onCancel}>
+          Cancel
+        </Button>
+      )}
+    </form>
+  );
+}
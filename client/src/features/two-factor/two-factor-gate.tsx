@@ -0,0 +1,28 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth, type TwoFactorGate as Gate } from "@/lib/auth";
+import { TwoFactorChallenge } from "./two-factor-challenge";
+
+/**
+ * Full-screen step shown instead of the app when the session is signed in but has not
+ * passed two-factor authentication (e.g. after accepting an invite, or once an admin
+ * starts requiring 2FA).
+ */
+export function TwoFactorGate({ gate }: { gate: Gate }) {
+  const { refetch, logout } = useAuth();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md" data-testid="card-two-factor-gate">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">Two-factor authentication</CardTitle>
+          <CardDescription className="text-center">
+            {gate === "enroll" ? "Set up two-factor authentication to continue" : "Confirm it's you to continue"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TwoFactorChallenge gate={gate} onComplete={() => refetch()} onCancel={() => logout()} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
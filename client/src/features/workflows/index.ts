@@ -0,0 +1,10 @@
+export { ProjectWorkflowCard } from "./project-workflow-card";
+export { useProjectWorkflow } from "./use-project-workflow";
+export {
+  CATEGORY_LABELS,
+  REQUIRED_FIELD_LABELS,
+  isDoneStatus,
+  toStatusKey,
+  toStatusOptions,
+} from "./workflow-utils";
+export type { ProjectWorkflow, StatusOption, WorkflowSetWithStatuses } from "./workflow-utils";
@@ -0,0 +1,88 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Workflow } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { formatErrorForToast } from "@/lib/parseApiError";
+import type { ProjectWorkflow, WorkflowSetWithStatuses } from "./workflow-utils";
+
+const BUILT_IN = "__built_in__";
+
+/** Shows and switches the workflow a project's tasks follow. */
+export function ProjectWorkflowCard({ projectId, canEdit }: { projectId: string; canEdit: boolean }) {
+  const { toast } = useToast();
+  const { data: workflow } = useQuery<ProjectWorkflow>({ queryKey: queryKeys.workflows.project(projectId) });
+  const { data: sets = [] } = useQuery<WorkflowSetWithStatuses[]>({
+    queryKey: queryKeys.workflows.all,
+    enabled: canEdit,
+  });
+
+  const setMutation = useMutation({
+    mutationFn: async (statusSetId: string | null) => {
+      const res = await apiRequest("PUT", `/api/projects/${projectId}/workflow`, { statusSetId });
+      return res.json() as Promise<ProjectWorkflow>;
+    },
+    onSuccess: (next) => {
+      queryClient.setQueryData(queryKeys.workflows.project(projectId), next);
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      toast({ title: "Workflow updated", description: "Existing tasks moved to the closest matching status." });
+    },
+    onError: (err) => {
+      const { title, description } = formatErrorForToast(err);
+      toast({ title, description, variant: "destructive" });
+    },
+  });
+
+  const current = workflow?.statusSet?.id ?? BUILT_IN;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <Workflow className="h-4 w-4" />
+          Workflow
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {canEdit ? (
+          <Select
+            value={current}
+            onValueChange={(v) => setMutation.mutate(v === BUILT_IN ? null : v)}
+            disabled={setMutation.isPending}
+          >
+            <SelectTrigger className="h-8" data-testid="select-project-workflow">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={BUILT_IN}>Built-in statuses</SelectItem>
+              {sets.map((set) => (
+                <SelectItem key={set.id} value={set.id}>{set.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <p className="text-sm">{workflow?.statusSet?.name ?? "Built-in statuses"}</p>
+        )}
+        {workflow && workflow.statuses.length > 0 && (
+          <div className="flex items-center gap-1 flex-wrap">
+            {workflow.statuses.map((status) => (
+              <span key={status.id} className="flex items-center gap-1 text-xs text-muted-foreground mr-2">
+                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: status.color }} />
+                {status.name}
+              </span>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/queryKeys";
+import { toStatusOptions, type ProjectWorkflow, type StatusOption } from "./workflow-utils";
+
+/** The project's custom statuses, or null while it uses the built-in ones. */
+export function useProjectWorkflow(projectId: string | null | undefined): StatusOption[] | null {
+  const { data } = useQuery<ProjectWorkflow>({
+    queryKey: queryKeys.workflows.project(projectId ?? ""),
+    enabled: !!projectId,
+  });
+  return data && data.statuses.length > 0 ? toStatusOptions(data.statuses) : null;
+}
@@ -0,0 +1,61 @@
+import type {
+  StatusCategoryValue,
+  WorkflowRequiredFieldValue,
+  WorkflowStatus,
+  WorkflowStatusSet,
+} from "@shared/schema";
+
+export interface WorkflowSetWithStatuses extends WorkflowStatusSet {
+  statuses: WorkflowStatus[];
+  projectCount: number;
+}
+
+export interface ProjectWorkflow {
+  statusSet: WorkflowStatusSet | null;
+  statuses: WorkflowStatus[];
+}
+
+/** A status as offered in selectors and badges. */
+export interface StatusOption {
+  key: string;
+  name: string;
+  color: string;
+  category: StatusCategoryValue;
+}
+
+export const CATEGORY_LABELS: Record<StatusCategoryValue, string> = {
+  not_started: "Not started",
+  active: "Active",
+  done: "Done",
+  cancelled: "Cancelled",
+};
+
+export const REQUIRED_FIELD_LABELS: Record<WorkflowRequiredFieldValue, string> = {
+  assignee: "Assignee",
+  dueDate: "Due date",
+  estimate: "Estimate",
+  description: "Description",
+};
+
+export function toStatusKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^[^a-z]+|_+$/g, "")
+    .slice(0, 40);
+}
+
+export function toStatusOptions(statuses: WorkflowStatus[]): StatusOption[] {
+  return statuses.map((s) => ({
+    key: s.key,
+    name: s.name,
+    color: s.color,
+    category: s.category as StatusCategoryValue,
+  }));
+}
+
+/** Whether a task status counts as done, by category when the project has a workflow. */
+export function isDoneStatus(status: string | null | undefined, workflow: StatusOption[] | null): boolean {
+  if (!workflow) return status === "done" || status === "completed";
+  return workflow.some((s) => s.key === status && s.category === "done");
+}
@@ -22,12 +22,21 @@ interface UserImpersonationData {
   startedAt: string;
 }
 
+/** What the session still needs before the app is usable; see /api/auth/2fa. */
+export type TwoFactorGate = "enroll" | "verify";
+
+type SessionUser = Omit<User, "passwordHash">;
+
 interface AuthContextType {
-  user: Omit<User, "passwordHash"> | null;
+  user: SessionUser | null;
   isLoading: boolean;
   isAuthenticated: boolean;
   userImpersonation: UserImpersonationData | null;
-  login: (email: string, password: string) => Promise<{ success: boolean; error?: string; user?: Omit<User, "passwordHash"> }>;
+  /** Set when a logged-in session has not yet passed two-factor authentication. */
+  twoFactorGate: TwoFactorGate | null;
+  login: (email: string, password: string) => Promise<{ success: boolean; error?: string; user?: SessionUser; twoFactor?: TwoFactorGate }>;
+  /** Loads the session after a 2FA challenge succeeds and returns the signed-in user. */
+  completeTwoFactor: () => Promise<SessionUser | null>;
   logout: () => Promise<void>;
   refetch: () => Promise<void>;
 }
@@ -54,6 +63,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<Omit<User, "passwordHash"> | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [userImpersonation, setUserImpersonation] = useState<UserImpersonationData | null>(null);
+  const [twoFactorGate, setTwoFactorGate] = useState<TwoFactorGate | null>(null);
   const [, setLocation] = useLocation();
 
   const fetchUser = useCallback(async (retries = 2) => {
@@ -76,6 +86,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         
         setUser(data.user);
         setUserImpersonation(data.impersonation || null);
+        setTwoFactorGate(data.twoFactorGate || null);
         setSuperUserFlag(data.user?.role === UserRole.SUPER_USER);
         markAuthenticated();
         triggerPrefetch(data.user?.role);
@@ -103,6 +114,22 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     fetchUser();
   }, [fetchUser]);
 
+  const loadSession = async (): Promise<SessionUser | null> => {
+    const meResponse = await fetch("/api/auth/me", {
+      credentials: "include",
+    });
+    if (!meResponse.ok) return null;
+    const meData = await meResponse.json();
+    setUser(meData.user);
+    setUserImpersonation(meData.impersonation || null);
+    setTwoFactorGate(meData.twoFactorGate || null);
+    setIsLoading(false);
+    setSuperUserFlag(meData.user?.role === UserRole.SUPER_USER);
+    markAuthenticated();
+    triggerPrefetch(meData.user?.role);
+    return meData.user;
+  };
+
   const login = async (email: string, password: string) => {
     try {
       clearActingAsState();
@@ -114,22 +141,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         body: JSON.stringify({ email, password }),
       });
       const data = await response.json();
+      if (response.ok && data.twoFactorRequired) {
+        return { success: false, twoFactor: data.gate as TwoFactorGate };
+      }
       if (response.ok && data.user) {
         setUser(data.user);
         markAuthenticated();
-        
-        const meResponse = await fetch("/api/auth/me", {
-          credentials: "include",
-        });
-        if (meResponse.ok) {
-          const meData = await meResponse.json();
-          setUser(meData.user);
-          setUserImpersonation(meData.impersonation || null);
-          setIsLoading(false);
-          setSuperUserFlag(meData.user?.role === UserRole.SUPER_USER);
-          triggerPrefetch(meData.user?.role);
-        }
-        
+        await loadSession();
         return { success: true, user: data.user };
       }
       return { success: false, error: data.error || "Login failed" };
@@ -151,6 +169,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       resetPrefetchState();
       setUser(null);
       setUserImpersonation(null);
+      setTwoFactorGate(null);
       setLocation("/login");
     }
   };
@@ -162,7 +181,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         isAuthenticated: !!user,
         userImpersonation,
+        twoFactorGate,
         login,
+        completeTwoFactor: loadSession,
         logout,
         refetch: fetchUser,
       }}
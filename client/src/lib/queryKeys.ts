@@ -5,6 +5,7 @@ export const queryKeys = {
     sections: (id: string) => ["/api/projects", id, "sections"] as const,
     tasks: (id: string) => ["/api/projects", id, "tasks"] as const,
     calendarEvents: (id: string) => ["/api/projects", id, "calendar-events"] as const,
+    dependencies: (id: string) => ["/api/projects", id, "dependencies"] as const,
     context: (id: string) => ["/api/projects", id, "context"] as const,
     v1: ["/api/v1/projects"] as const,
   },
@@ -15,6 +16,9 @@ export const queryKeys = {
     detail: (id: string) => ["/api/tasks", id] as const,
     subtasks: (id: string) => ["/api/tasks", id, "subtasks"] as const,
     childTasks: (id: string) => ["/api/tasks", id, "childtasks"] as const,
+    dependencies: (id: string) => ["/api/tasks", id, "dependencies"] as const,
+    recurrence: (id: string) => ["/api/tasks", id, "recurrence"] as const,
+    query: (body: unknown) => ["/api/tasks", "query", body] as const,
     comments: (id: string) => ["/api/tasks", id, "comments"] as const,
     attachments: (projectId: string, taskId: string) =>
       ["/api/projects", projectId, "tasks", taskId, "attachments"] as const,
@@ -27,6 +31,87 @@ export const queryKeys = {
     divisions: (id: string) => ["/api/v1/clients", id, "divisions"] as const,
   },
 
+  billing: {
+    rates: ["/api/billing-rates"] as const,
+    invoices: (clientId?: string) => ["/api/invoices", { clientId }] as const,
+    invoice: (id: string) => ["/api/invoices", id] as const,
+  },
+
+  timesheets: {
+    week: (weekStart: string, userId?: string) => ["/api/timesheets/week", { weekStart, userId }] as const,
+    review: (weekStart: string) => ["/api/timesheets/review", { weekStart }] as const,
+  },
+
+  apiTokens: {
+    list: (all?: boolean) => ["/api/api-tokens", { all: all ? "true" : undefined }] as const,
+  },
+
+  twoFactor: {
+    status: ["/api/auth/2fa/status"] as const,
+  },
+
+  sso: {
+    settings: ["/api/sso/settings"] as const,
+  },
+
+  reminders: {
+    list: (status?: string) => ["/api/reminders", { status }] as const,
+  },
+
+  webhooks: {
+    endpoints: ["/api/webhook-endpoints"] as const,
+    deliveries: (endpointId?: string, status?: string) => ["/api/webhook-deliveries", { endpointId, status }] as const,
+    delivery: (id: string) => ["/api/webhook-deliveries", id] as const,
+  },
+
+  sync: {
+    providers: ["/api/sync/providers"] as const,
+    projects: (provider: string) => ["/api/sync/providers", provider, "projects"] as const,
+    runs: (provider: string) => ["/api/sync/providers", provider, "runs"] as const,
+  },
+
+  privacy: {
+    requests: ["/api/data-subject-requests"] as const,
+    request: (id: string) => ["/api/data-subject-requests", id] as const,
+    subjects: (q: string) => ["/api/data-subject-requests/subjects", { q }] as const,
+  },
+
+  customFields: {
+    all: ["/api/custom-fields"] as const,
+    definitions: (entityType: string) => ["/api/custom-fields", { entityType }] as const,
+    values: (entityType: string, entityId: string) => ["/api/custom-fields/values", entityType, entityId] as const,
+    valuesForList: (entityType: string, projectId?: string) =>
+      ["/api/custom-fields/values", entityType, { projectId }] as const,
+  },
+
+  workflows: {
+    all: ["/api/workflows"] as const,
+    project: (projectId: string) => ["/api/projects", projectId, "workflow"] as const,
+  },
+
+  capacity: {
+    profiles: (userId?: string) => ["/api/capacity/profiles", { userId }] as const,
+    holidayCalendars: ["/api/holiday-calendars"] as const,
+    timeOff: (filters: { userId?: string; status?: string } = {}) => ["/api/time-off", filters] as const,
+  },
+
+  inboundEmail: {
+    settings: ["/api/inbound-email/settings"] as const,
+    messages: (status?: string) => ["/api/inbound-email/messages", { status }] as const,
+  },
+
+  savedViews: {
+    all: ["/api/saved-views"] as const,
+    detail: (id: string) => ["/api/saved-views", id] as const,
+  },
+
+  proofing: {
+    versions: (assetId: string) => ["/api/v1/assets", assetId, "versions"] as const,
+    approvals: (assetId: string) => ["/api/v1/assets", assetId, "approval-requests"] as const,
+    download: (versionId: string) => ["/api/v1/asset-versions", versionId, "download"] as const,
+    comments: (versionId: string) => ["/api/v1/asset-versions", versionId, "comments"] as const,
+  },
+
   teams: {
     all: ["/api/teams"] as const,
   },
@@ -8,6 +8,7 @@ function invalidateProjectViews(queryClient: ReturnType<typeof useQueryClient>,
   queryClient.invalidateQueries({ queryKey: queryKeys.projects.sections(projectId) });
   queryClient.invalidateQueries({ queryKey: queryKeys.projects.tasks(projectId) });
   queryClient.invalidateQueries({ queryKey: queryKeys.projects.calendarEvents(projectId) });
+  queryClient.invalidateQueries({ queryKey: queryKeys.projects.dependencies(projectId) });
 }
 
 function invalidateParentTask(queryClient: ReturnType<typeof useQueryClient>, parentTaskId: string | null | undefined) {
@@ -75,6 +76,7 @@ export function useProjectSocket(projectId: string | null | undefined) {
       if (payload.projectId === projectId) {
         invalidateProjectViews(queryClient, projectId);
         queryClient.invalidateQueries({ queryKey: queryKeys.tasks.detail(payload.taskId) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.tasks.dependencies(payload.taskId) });
         invalidateParentTask(queryClient, payload.parentTaskId);
       }
     };
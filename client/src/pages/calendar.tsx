@@ -35,7 +35,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { TaskDetailDrawer } from "@/features/tasks/task-detail-drawer";
 import { FullScreenDrawer } from "@/components/ui/full-screen-drawer";
-import type { TaskWithRelations, TimeEntryWithRelations, Client, Project, User } from "@shared/schema";
+import { allDayEnd, formatDayPortion } from "@/features/capacity";
+import type { TaskWithRelations, TimeEntryWithRelations, Client, Project, User, Holiday } from "@shared/schema";
 
 interface CalendarTask {
   id: string;
@@ -47,18 +48,30 @@ interface CalendarTask {
   assignees: Array<{ userId: string; user?: { id: string; name: string; email: string } }>;
 }
 
+type CalendarEventType = "task" | "time_entry" | "time_off" | "holiday";
+
+/** Approved time off as returned with calendar events (no notes). */
+interface CalendarTimeOff {
+  id: string;
+  userId: string;
+  userName: string | null;
+  startDate: string;
+  endDate: string;
+  minutesPerDay: number | null;
+}
+
 interface CalendarEvent {
   id: string;
   title: string;
   start: string;
   end?: string;
   allDay: boolean;
-  type: "task" | "time_entry";
+  type: CalendarEventType;
   backgroundColor: string;
   borderColor: string;
   textColor: string;
   extendedProps: {
-    type: "task" | "time_entry";
+    type: CalendarEventType;
     status?: string;
     priority?: string;
     scope?: string;
@@ -77,6 +90,8 @@ interface CalendarDataResponse {
   clients: Client[];
   projects: Project[];
   users: User[];
+  timeOff?: CalendarTimeOff[];
+  holidays?: Holiday[];
 }
 
 const priorityColors: Record<string, string> = {
@@ -109,6 +124,7 @@ export default function CalendarPage() {
   const [scopeFilter, setScopeFilter] = useState<string>("all");
   const [showTasks, setShowTasks] = useState(true);
   const [showTimeEntries, setShowTimeEntries] = useState(true);
+  const [showTimeOff, setShowTimeOff] = useState(true);
 
   const [selectedTask, setSelectedTask] = useState<TaskWithRelations | null>(null);
   const [taskDrawerOpen, setTaskDrawerOpen] = useState(false);
@@ -216,8 +232,41 @@ export default function CalendarPage() {
       }
     }
     
+    if (showTimeOff) {
+      for (const holiday of calendarData.holidays ?? []) {
+        events.push({
+          id: `holiday-${holiday.id}`,
+          title: holiday.name,
+          start: holiday.date,
+          allDay: true,
+          type: "holiday",
+          backgroundColor: "#F97316",
+          borderColor: "#EA580C",
+          textColor: "#FFFFFF",
+          extendedProps: { type: "holiday" },
+        });
+      }
+
+      for (const request of calendarData.timeOff ?? []) {
+        if (assigneeFilter !== "all" && request.userId !== assigneeFilter) continue;
+        const portion = request.minutesPerDay !== null ? ` (${formatDayPortion(request.minutesPerDay)})` : "";
+        events.push({
+          id: `time-off-${request.id}`,
+          title: `${request.userName || "Someone"} – off${portion}`,
+          start: request.startDate,
+          end: allDayEnd(request.endDate),
+          allDay: true,
+          type: "time_off",
+          backgroundColor: "#FDBA74",
+          borderColor: "#F97316",
+          textColor: "#7C2D12",
+          extendedProps: { type: "time_off", userId: request.userId },
+        });
+      }
+    }
+
     return events;
-  }, [calendarData, clientFilter, projectFilter, assigneeFilter, scopeFilter, showTasks, showTimeEntries]);
+  }, [calendarData, clientFilter, projectFilter, assigneeFilter, scopeFilter, showTasks, showTimeEntries, showTimeOff]);
 
   const handleEventClick = useCallback(async (info: EventClickArg) => {
     const eventType = info.event.extendedProps.type;
@@ -276,6 +325,7 @@ export default function CalendarPage() {
     scopeFilter !== "all",
     !showTasks,
     !showTimeEntries,
+    !showTimeOff,
   ].filter(Boolean).length;
 
   const clearFilters = () => {
@@ -285,6 +335,7 @@ export default function CalendarPage() {
     setScopeFilter("all");
     setShowTasks(true);
     setShowTimeEntries(true);
+    setShowTimeOff(true);
   };
 
   const formatDuration = (seconds: number) => {
@@ -479,6 +530,15 @@ export default function CalendarPage() {
                     >
                       Time Entries
                     </Button>
+                    <Button
+                      variant={showTimeOff ? "default" : "outline"}
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => setShowTimeOff(!showTimeOff)}
+                      data-testid="button-toggle-time-off"
+                    >
+                      Time Off
+                    </Button>
                   </div>
                 </div>
 
@@ -518,6 +578,15 @@ export default function CalendarPage() {
             <div className="h-3 w-3 rounded" style={{ backgroundColor: "#10B981" }} />
             <span>Task: Done</span>
           </div>
+          <span className="mx-2">|</span>
+          <div className="flex items-center gap-1">
+            <div className="h-3 w-3 rounded" style={{ backgroundColor: "#F97316" }} />
+            <span>Holiday</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <div className="h-3 w-3 rounded" style={{ backgroundColor: "#FDBA74" }} />
+            <span>Time Off</span>
+          </div>
         </div>
         <div className="ml-auto text-xs text-muted-foreground">
           {filteredEvents.length} event{filteredEvents.length !== 1 ? "s" : ""}
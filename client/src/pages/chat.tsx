@@ -2122,7 +2122,8 @@ export default function ChatPage() {
 
   const slashCommandMutation = useMutation({
     mutationFn: async ({ command, args, channelId }: { command: string; args: string; channelId?: string }) => {
-      const res = await apiRequest("POST", "/api/v1/chat/slash-command", { command, args, channelId });
+      const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const res = await apiRequest("POST", "/api/v1/chat/slash-command", { command, args, channelId, timezone });
       return res.json();
     },
     onSuccess: (data) => {
@@ -95,6 +95,7 @@ import {
   Check,
   Settings2,
   ShieldCheck,
+  Receipt,
 } from "lucide-react";
 import { useLocation } from "wouter";
 import { useAuth } from "@/lib/auth";
@@ -102,6 +103,7 @@ import { useCrmFlags } from "@/hooks/use-crm-flags";
 import { useFeatureFlags } from "@/hooks/use-feature-flags";
 import { AssetLibraryPanel } from "@/features/assetLibrary/AssetLibraryPanel";
 import { StartTimerDrawer } from "@/features/timer/start-timer-drawer";
+import { ClientInvoicesPanel } from "@/features/billing";
 import { DivisionDrawer, ClientSectionSwitcher, getVisibleSections, CONTROL_CENTER_CHILD_IDS, useClientProfileSection, ClientCommandPalette, ClientCommandPaletteMobileTrigger, useClientCommandPaletteState, ControlCenterSection } from "@/features/clients";
 import { ClientPortalUsersTab } from "@/components/client-portal-users-tab";
 import { ClientNotesTab } from "@/components/client-notes-tab";
@@ -306,9 +308,11 @@ export default function ClientDetailPage() {
   const crmFlags = useCrmFlags();
   const featureFlags = useFeatureFlags();
 
+  const isAdmin = user?.role === "admin" || user?.role === "super_user";
+
   const allVisibleSections = useMemo(
-    () => getVisibleSections(crmFlags, featureFlags),
-    [crmFlags, featureFlags],
+    () => getVisibleSections(crmFlags, featureFlags, { isAdmin }),
+    [crmFlags, featureFlags, isAdmin],
   );
 
   const hasControlCenter = useMemo(
@@ -931,6 +935,12 @@ export default function ClientDetailPage() {
                     <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Beta</Badge>
                   </TabsTrigger>
                 )}
+                {isAdmin && (
+                  <TabsTrigger value="invoices" data-testid="tab-invoices">
+                    <Receipt className="h-3.5 w-3.5 mr-1" />
+                    Invoices
+                  </TabsTrigger>
+                )}
               </TabsList>
             </div>
           )}
@@ -2421,6 +2431,12 @@ export default function ClientDetailPage() {
               <AssetLibraryPanel clientId={clientId || ""} />
             </TabsContent>
           )}
+
+          {isAdmin && (
+            <TabsContent value="invoices" className="p-6">
+              <ClientInvoicesPanel clientId={clientId || ""} />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
 
@@ -14,12 +14,14 @@ import {
   User,
   Calendar,
   FileText,
+  FileImage,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Skeleton } from "@/components/ui/skeleton";
+import { ProofReview } from "@/features/proofing";
 
 interface ApprovalRequest {
   id: string;
@@ -39,6 +41,10 @@ interface ApprovalRequest {
   updatedAt: string;
   requesterName: string;
   clientName?: string;
+  assetId: string | null;
+  assetVersionId: string | null;
+  /** Set when the request covers a version of a deliverable the client can comment on. */
+  proof: { assetTitle: string | null; versionNumber: number; mimeType: string | null } | null;
 }
 
 function StatusBadge({ status }: { status: string }) {
@@ -75,6 +81,11 @@ function ApprovalCard({
             <div className="flex items-center gap-2 flex-wrap mb-1">
               <h3 className="font-medium" data-testid={`approval-title-${approval.id}`}>{approval.title}</h3>
               <StatusBadge status={approval.status} />
+              {approval.proof && (
+                <Badge variant="secondary" data-testid={`badge-proof-${approval.id}`}>
+                  <FileImage className="h-3 w-3 mr-1" /> Proof v{approval.proof.versionNumber}
+                </Badge>
+              )}
             </div>
             <div className="flex items-center gap-3 text-sm text-muted-foreground flex-wrap">
               <span className="flex items-center gap-1">
@@ -118,6 +129,14 @@ function ApprovalCard({
               </div>
             )}
 
+            {approval.proof && approval.assetId && approval.assetVersionId && (
+              <ProofReview
+                assetId={approval.assetId}
+                versionId={approval.assetVersionId}
+                title={approval.proof.assetTitle || approval.title}
+              />
+            )}
+
             {approval.responseComment && (
               <div className="rounded-md border p-3">
                 <div className="flex items-center gap-1 text-sm font-medium mb-1">
@@ -153,7 +172,7 @@ function ApprovalCard({
                     data-testid={`button-approve-${approval.id}`}
                   >
                     <CheckCircle2 className="h-4 w-4 mr-1" />
-                    Approve
+                    {approval.proof ? `Approve version ${approval.proof.versionNumber}` : "Approve"}
                   </Button>
                   <Button
                     variant="destructive"
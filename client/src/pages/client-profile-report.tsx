@@ -89,6 +89,11 @@ interface ClientProfileData {
     nonBillableHours: number;
     estimatedHours: number;
     variance: number;
+    revenue: number;
+    revenueCurrency: string | null;
+    billedHours: number;
+    realizedRate: number | null;
+    otherCurrencyRevenue: { currency: string; revenue: number }[];
   };
   sla: {
     totalTasks: number;
@@ -501,6 +506,26 @@ export default function ClientProfileReportPage() {
                         <span className="text-muted-foreground">Non-Billable Time</span>
                         <span className="font-medium" data-testid="text-non-billable-hours">{data.timeTracking.nonBillableHours}h</span>
                       </div>
+                      <div className="flex justify-between items-center text-sm border-t pt-3">
+                        <span className="text-muted-foreground">Invoiced Revenue ({data.timeTracking.billedHours}h billed)</span>
+                        <span className="font-medium" data-testid="text-invoiced-revenue">
+                          {data.timeTracking.revenue.toFixed(2)} {data.timeTracking.revenueCurrency ?? ""}
+                        </span>
+                      </div>
+                      {data.timeTracking.otherCurrencyRevenue.map((r) => (
+                        <div key={r.currency} className="flex justify-between items-center text-sm">
+                          <span className="text-muted-foreground pl-3">Also invoiced</span>
+                          <span className="font-medium">{r.revenue.toFixed(2)} {r.currency}</span>
+                        </div>
+                      ))}
+                      <div className="flex justify-between items-center text-sm border-t pt-3">
+                        <span className="text-muted-foreground">Realized Rate (revenue / hours worked)</span>
+                        <span className="font-medium" data-testid="text-realized-rate">
+                          {data.timeTracking.realizedRate !== null
+                            ? `${data.timeTracking.realizedRate.toFixed(2)} ${data.timeTracking.revenueCurrency ?? ""}/h`
+                            : "—"}
+                        </span>
+                      </div>
                       <div className="flex justify-between items-center text-sm border-t pt-3">
                         <span className="text-muted-foreground">Tasks Created (in range)</span>
                         <span className="font-medium">{data.activity.tasksCreatedInRange}</span>
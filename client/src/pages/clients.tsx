@@ -11,6 +11,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { VirtualizedList } from "@/components/ui/virtualized-list";
 import { useFeatureFlags } from "@/hooks/use-feature-flags";
 import { ClientDrawer } from "@/features/clients";
+import { CustomFieldFilterButton, useCustomFieldFilter } from "@/features/customFields";
 import {
   Sheet,
   SheetContent,
@@ -1527,6 +1528,8 @@ export default function ClientsPage() {
     "name-asc"
   );
   const { views, saveView, deleteView } = useSavedViews("clients-saved-views");
+  const customFieldFilter = useCustomFieldFilter("client");
+  const { activeCount: customFilterCount, matches: matchesCustomFields, setFilters: setCustomFilters } = customFieldFilter;
   const [, navigate] = useLocation();
 
   const {
@@ -1720,7 +1723,8 @@ export default function ClientsPage() {
 
   const handleClearFilters = useCallback(() => {
     setFilterValues({});
-  }, [setFilterValues]);
+    setCustomFilters({});
+  }, [setFilterValues, setCustomFilters]);
 
   const handleSelectClient = useCallback((id: string) => {
     setSelectedIds((prev) => {
@@ -1822,7 +1826,7 @@ export default function ClientsPage() {
         filterValues.tag === "all" ||
         (client.tags && client.tags.includes(filterValues.tag));
 
-      return matchesSearch && matchesStage && matchesIndustry && matchesTag;
+      return matchesSearch && matchesStage && matchesIndustry && matchesTag && matchesCustomFields(client.id);
     });
 
     result.sort((a, b) => {
@@ -1857,7 +1861,7 @@ export default function ClientsPage() {
     });
 
     return result;
-  }, [hierarchyClients, searchQuery, filterValues, sortValue, activeSegment]);
+  }, [hierarchyClients, searchQuery, filterValues, sortValue, activeSegment, matchesCustomFields]);
 
   const vipClients = useMemo(() => {
     if (!filteredAndSortedClients) return [];
@@ -1924,7 +1928,7 @@ export default function ClientsPage() {
     return groups.sort((a, b) => a.parent.companyName.localeCompare(b.parent.companyName));
   }, [filteredAndSortedClients, vipClientIds, viewMode]);
 
-  const hasActiveFilters = Object.values(filterValues).some(
+  const hasActiveFilters = customFilterCount > 0 || Object.values(filterValues).some(
     (v) => v && v !== "all"
   );
 
@@ -2002,6 +2006,12 @@ export default function ClientsPage() {
         onSortChange={setSortValue}
         actions={
           <div className="flex items-center gap-2">
+            <CustomFieldFilterButton
+              definitions={customFieldFilter.definitions}
+              filters={customFieldFilter.filters}
+              onChange={setCustomFilters}
+            />
+
             <div className="flex items-center border rounded-md">
               <Button
                 variant={density === "comfortable" ? "secondary" : "ghost"}
@@ -89,6 +89,14 @@ interface ProfileData {
     backlog: number;
     avgCompletionDays: number | null;
   };
+  flow: {
+    completedCount: number;
+    avgLeadTimeDays: number | null;
+    medianLeadTimeDays: number | null;
+    avgCycleTimeDays: number | null;
+    medianCycleTimeDays: number | null;
+    timeInStatus: Array<{ status: string; category: string; taskCount: number; totalHours: number; avgHours: number }>;
+  };
   timeTracking: {
     totalHours: number;
     billableHours: number;
@@ -749,6 +757,41 @@ export default function EmployeeProfileReportPage() {
                       </div>
                     </div>
 
+                    <div className="grid grid-cols-2 gap-4" data-testid="section-flow">
+                      <div className="p-3 border rounded-lg">
+                        <p className="text-[10px] text-muted-foreground uppercase">Lead Time</p>
+                        <p className="text-lg font-semibold" data-testid="text-lead-time">
+                          {data.flow.avgLeadTimeDays !== null ? `${data.flow.avgLeadTimeDays}d` : "—"}
+                        </p>
+                        <p className="text-[10px] text-muted-foreground">
+                          median {data.flow.medianLeadTimeDays !== null ? `${data.flow.medianLeadTimeDays}d` : "—"}
+                        </p>
+                      </div>
+                      <div className="p-3 border rounded-lg">
+                        <p className="text-[10px] text-muted-foreground uppercase">Cycle Time</p>
+                        <p className="text-lg font-semibold" data-testid="text-cycle-time">
+                          {data.flow.avgCycleTimeDays !== null ? `${data.flow.avgCycleTimeDays}d` : "—"}
+                        </p>
+                        <p className="text-[10px] text-muted-foreground">
+                          median {data.flow.medianCycleTimeDays !== null ? `${data.flow.medianCycleTimeDays}d` : "—"}
+                        </p>
+                      </div>
+                    </div>
+
+                    {data.flow.timeInStatus.length > 0 && (
+                      <div className="space-y-2">
+                        <h4 className="text-sm font-semibold">Time in Status</h4>
+                        {data.flow.timeInStatus.map((item) => (
+                          <div key={item.status} className="flex items-center justify-between text-xs">
+                            <span className="capitalize truncate">{item.status.replace(/_/g, " ")}</span>
+                            <span className="text-muted-foreground">
+                              {item.totalHours}h total · {item.avgHours}h avg across {item.taskCount}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
                     <div className="space-y-4">
                       <h4 className="text-sm font-semibold">Breakdown by Status</h4>
                       <div className="space-y-2">
@@ -410,10 +410,10 @@ function EmployeeDashboardSection({
     );
 
     const completedToday = tasks.filter(t => {
-      if (t.status !== "done" || !t.updatedAt) return false;
-      const updated = new Date(t.updatedAt);
-      updated.setHours(0, 0, 0, 0);
-      return updated.getTime() === today.getTime();
+      if (!t.completedAt) return false;
+      const completed = new Date(t.completedAt);
+      completed.setHours(0, 0, 0, 0);
+      return completed.getTime() === today.getTime();
     });
 
     const stats = {
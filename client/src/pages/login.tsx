@@ -1,12 +1,14 @@
 import { useState, useEffect } from "react";
 import { useLocation, useSearch } from "wouter";
-import { useAuth } from "@/lib/auth";
+import { useAuth, type TwoFactorGate } from "@/lib/auth";
+import { TwoFactorChallenge } from "@/features/two-factor";
+import { useSsoDiscovery } from "@/features/sso";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, LogIn, UserPlus, Shield, Eye, EyeOff, FlaskConical, Crown, ShieldCheck, User } from "lucide-react";
+import { Loader2, LogIn, UserPlus, Shield, Eye, EyeOff, FlaskConical, Crown, ShieldCheck, User, KeyRound } from "lucide-react";
 import { UserRole } from "@shared/schema";
 import { getStorageUrl } from "@/lib/storageUrl";
 import appIcon from "@assets/Symbol_1767994625714.png";
@@ -64,7 +66,10 @@ export default function LoginPage() {
   const [bootstrapRequired, setBootstrapRequired] = useState(false);
   const [isCheckingBootstrap, setIsCheckingBootstrap] = useState(true);
   const [branding, setBranding] = useState<LoginBranding>({ appName: null, loginMessage: null, logoUrl: null, iconUrl: null, faviconUrl: null, primaryColor: null });
-  const { login } = useAuth();
+  const [twoFactorGate, setTwoFactorGate] = useState<TwoFactorGate | null>(null);
+  const { login, completeTwoFactor } = useAuth();
+  const sso = useSsoDiscovery(email);
+  const passwordHidden = !!sso?.passwordLoginDisabled;
   const { toast } = useToast();
   const [, setLocation] = useLocation();
   const searchString = useSearch();
@@ -180,8 +185,16 @@ export default function LoginPage() {
     fetchLoginBranding();
   }, []);
 
+  const startSso = () => {
+    if (sso?.loginUrl) window.location.assign(sso.loginUrl);
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (passwordHidden) {
+      startSso();
+      return;
+    }
     if (!email || !password) {
       toast({
         title: "Missing credentials",
@@ -202,6 +215,8 @@ export default function LoginPage() {
       });
       const isSuperUser = result.user?.role === UserRole.SUPER_USER;
       setLocation(isSuperUser ? "/super-admin/dashboard" : "/");
+    } else if (result.twoFactor) {
+      setTwoFactorGate(result.twoFactor);
     } else {
       toast({
         title: "Login failed",
@@ -211,6 +226,20 @@ export default function LoginPage() {
     }
   };
 
+  const handleTwoFactorComplete = async () => {
+    const user = await completeTwoFactor();
+    setTwoFactorGate(null);
+    if (!user) {
+      toast({ title: "Login failed", description: "Please sign in again", variant: "destructive" });
+      return;
+    }
+    toast({
+      title: "Welcome back!",
+      description: "You have been logged in successfully",
+    });
+    setLocation(user.role === UserRole.SUPER_USER ? "/super-admin/dashboard" : "/");
+  };
+
   const handleBootstrapRegister = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!email || !password) {
@@ -302,14 +331,25 @@ export default function LoginPage() {
             {branding.appName || "MyWorkDay"}
           </CardTitle>
           <CardDescription className="text-center" data-testid="text-login-description">
-            {showBootstrap 
+            {twoFactorGate
+              ? "Two-factor authentication"
+              : showBootstrap 
               ? "Create the first admin account to get started"
               : branding.loginMessage || "Enter your credentials to access your workspace"
             }
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {showBootstrap ? (
+          {twoFactorGate ? (
+            <TwoFactorChallenge
+              gate={twoFactorGate}
+              onComplete={handleTwoFactorComplete}
+              onCancel={() => {
+                setTwoFactorGate(null);
+                setPassword("");
+              }}
+            />
+          ) : showBootstrap ? (
             <form onSubmit={handleBootstrapRegister} className="space-y-4">
               <div className="flex items-center gap-2 p-3 bg-primary/10 rounded-lg mb-4">
                 <Shield className="h-5 w-5 text-primary" />
@@ -424,54 +464,71 @@ export default function LoginPage() {
                     data-testid="input-email"
                   />
                 </div>
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <Label htmlFor="password">Password</Label>
-                    <a
-                      href="/auth/forgot-password"
-                      className="text-xs text-muted-foreground hover:text-primary hover:underline"
-                      data-testid="link-forgot-password"
-                    >
-                      Forgot password?
-                    </a>
-                  </div>
-                  <div className="relative">
-                    <Input
-                      id="password"
-                      type={showPassword ? "text" : "password"}
-                      placeholder="Enter your password"
-                      value={password}
-                      onChange={(e) => setPassword(e.target.value)}
-                      disabled={isSubmitting}
-                      className="pr-10"
-                      data-testid="input-password"
-                    />
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="icon"
-                      className="absolute right-0 top-0 h-full px-3 no-default-hover-elevate no-default-active-elevate hover:bg-transparent"
-                      onClick={() => setShowPassword(!showPassword)}
-                      tabIndex={-1}
-                      data-testid="button-toggle-password"
-                    >
-                      {showPassword ? <EyeOff className="h-4 w-4 text-muted-foreground" /> : <Eye className="h-4 w-4 text-muted-foreground" />}
-                    </Button>
+                {!passwordHidden && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="password">Password</Label>
+                      <a
+                        href="/auth/forgot-password"
+                        className="text-xs text-muted-foreground hover:text-primary hover:underline"
+                        data-testid="link-forgot-password"
+                      >
+                        Forgot password?
+                      </a>
+                    </div>
+                    <div className="relative">
+                      <Input
+                        id="password"
+                        type={showPassword ? "text" : "password"}
+                        placeholder="Enter your password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        disabled={isSubmitting}
+                        className="pr-10"
+                        data-testid="input-password"
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="absolute right-0 top-0 h-full px-3 no-default-hover-elevate no-default-active-elevate hover:bg-transparent"
+                        onClick={() => setShowPassword(!showPassword)}
+                        tabIndex={-1}
+                        data-testid="button-toggle-password"
+                      >
+                        {showPassword ? <EyeOff className="h-4 w-4 text-muted-foreground" /> : <Eye className="h-4 w-4 text-muted-foreground" />}
+                      </Button>
+                    </div>
                   </div>
-                </div>
-                <Button
-                  type="submit"
-                  className="w-full"
-                  disabled={isSubmitting}
-                  data-testid="button-login"
-                >
-                  {isSubmitting ? (
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  ) : (
-                    <LogIn className="mr-2 h-4 w-4" />
-                  )}
-                  {isSubmitting ? "Signing in..." : "Sign in"}
-                </Button>
+                )}
+                {!passwordHidden && (
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={isSubmitting}
+                    data-testid="button-login"
+                  >
+                    {isSubmitting ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <LogIn className="mr-2 h-4 w-4" />
+                    )}
+                    {isSubmitting ? "Signing in..." : "Sign in"}
+                  </Button>
+                )}
+                {sso && (
+                  <Button
+                    type="button"
+                    variant={passwordHidden ? "default" : "outline"}
+                    className="w-full"
+                    onClick={startSso}
+                    disabled={isSubmitting}
+                    data-testid="button-login-sso"
+                  >
+                    <KeyRound className="mr-2 h-4 w-4" />
+                    Continue with {sso.displayName || "SSO"}
+                  </Button>
+                )}
               </form>
               
               {bootstrapRequired && (
@@ -494,7 +551,7 @@ export default function LoginPage() {
         </CardContent>
       </Card>
 
-      {isDevMode && !showBootstrap && (
+      {isDevMode && !showBootstrap && !twoFactorGate && (
         <Card className="w-full max-w-md mt-4 border-dashed border-muted-foreground/30" data-testid="card-dev-credentials">
           <CardHeader className="pb-3 pt-4 px-4">
             <div className="flex items-center gap-2">
@@ -542,6 +599,8 @@ export default function LoginPage() {
                         toast({ title: "Welcome!", description: `Logged in as ${account.label}` });
                         const isSuperUser = result.user?.role === UserRole.SUPER_USER;
                         setLocation(isSuperUser ? "/super-admin/dashboard" : "/");
+                      } else if (result.twoFactor) {
+                        setTwoFactorGate(result.twoFactor);
                       } else {
                         toast({ title: "Login failed", description: result.error || "Invalid credentials", variant: "destructive" });
                       }
@@ -7,7 +7,7 @@ import interactionPlugin from "@fullcalendar/interaction";
 import type { EventClickArg, DatesSetArg, DateSelectArg } from "@fullcalendar/core";
 import { 
   Clock, Calendar, ChevronLeft, ChevronRight, Play, AlertCircle, 
-  CheckCircle2, Circle, Timer, ListTodo
+  CheckCircle2, Circle, Timer, ListTodo, CalendarOff
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -19,8 +19,9 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { TaskDetailDrawer } from "@/features/tasks/task-detail-drawer";
 import { FullScreenDrawer } from "@/components/ui/full-screen-drawer";
+import { TIME_OFF_TYPE_LABELS, allDayEnd, formatDayPortion } from "@/features/capacity";
 import { Link } from "wouter";
-import type { TaskWithRelations, TimeEntryWithRelations } from "@shared/schema";
+import { TimeOffStatus, type Holiday, type TaskWithRelations, type TimeEntryWithRelations, type TimeOffRequest } from "@shared/schema";
 
 interface CalendarTask {
   id: string;
@@ -33,18 +34,20 @@ interface CalendarTask {
   assignees?: Array<{ userId: string; user?: { id: string; name: string; email: string } }>;
 }
 
+type MyCalendarEventType = "task" | "time_entry" | "personal_task" | "time_off" | "holiday";
+
 interface MyCalendarEvent {
   id: string;
   title: string;
   start: string;
   end?: string;
   allDay: boolean;
-  type: "task" | "time_entry" | "personal_task";
+  type: MyCalendarEventType;
   backgroundColor: string;
   borderColor: string;
   textColor: string;
   extendedProps: {
-    type: "task" | "time_entry" | "personal_task";
+    type: MyCalendarEventType;
     status?: string;
     priority?: string;
     isOverdue?: boolean;
@@ -58,6 +61,8 @@ interface MyCalendarDataResponse {
   tasks: CalendarTask[];
   personalTasks: CalendarTask[];
   timeEntries: TimeEntryWithRelations[];
+  timeOff?: TimeOffRequest[];
+  holidays?: Holiday[];
 }
 
 const statusColors: Record<string, string> = {
@@ -94,6 +99,7 @@ export default function MyCalendarPage() {
   const [showTasks, setShowTasks] = useState(true);
   const [showPersonalTasks, setShowPersonalTasks] = useState(true);
   const [showTimeEntries, setShowTimeEntries] = useState(true);
+  const [showTimeOff, setShowTimeOff] = useState(true);
   
   const [selectedTask, setSelectedTask] = useState<TaskWithRelations | null>(null);
   const [taskDrawerOpen, setTaskDrawerOpen] = useState(false);
@@ -225,8 +231,41 @@ export default function MyCalendarPage() {
       }
     }
     
+    if (showTimeOff) {
+      for (const holiday of calendarData.holidays ?? []) {
+        events.push({
+          id: `holiday-${holiday.id}`,
+          title: holiday.name,
+          start: holiday.date,
+          allDay: true,
+          type: "holiday",
+          backgroundColor: "#F97316",
+          borderColor: "#EA580C",
+          textColor: "#FFFFFF",
+          extendedProps: { type: "holiday" },
+        });
+      }
+
+      for (const request of calendarData.timeOff ?? []) {
+        const isPending = request.status === TimeOffStatus.PENDING;
+        const label = TIME_OFF_TYPE_LABELS[request.type] ?? "Time off";
+        events.push({
+          id: `time-off-${request.id}`,
+          title: `${label}${request.minutesPerDay !== null ? ` (${formatDayPortion(request.minutesPerDay)})` : ""}${isPending ? " – pending" : ""}`,
+          start: request.startDate,
+          end: allDayEnd(request.endDate),
+          allDay: true,
+          type: "time_off",
+          backgroundColor: isPending ? "#FDBA74" : "#F97316",
+          borderColor: "#EA580C",
+          textColor: "#FFFFFF",
+          extendedProps: { type: "time_off", status: request.status },
+        });
+      }
+    }
+
     return events;
-  }, [calendarData, showTasks, showPersonalTasks, showTimeEntries]);
+  }, [calendarData, showTasks, showPersonalTasks, showTimeEntries, showTimeOff]);
   
   const handleEventClick = useCallback(async (info: EventClickArg) => {
     const eventType = info.event.extendedProps.type;
@@ -339,6 +378,17 @@ export default function MyCalendarPage() {
                 <Timer className="h-3 w-3" /> Time
               </Label>
             </div>
+            <div className="flex items-center gap-2">
+              <Checkbox 
+                id="show-time-off" 
+                checked={showTimeOff} 
+                onCheckedChange={(c) => setShowTimeOff(!!c)}
+                data-testid="checkbox-show-time-off"
+              />
+              <Label htmlFor="show-time-off" className="text-sm flex items-center gap-1">
+                <CalendarOff className="h-3 w-3" /> Time Off
+              </Label>
+            </div>
           </div>
           
           <div className="flex items-center gap-1 border rounded-md">
@@ -437,6 +487,10 @@ export default function MyCalendarPage() {
               <div className="w-3 h-3 rounded" style={{ backgroundColor: "#06B6D4" }} />
               <span>Non-billable</span>
             </div>
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-3 rounded" style={{ backgroundColor: "#F97316" }} />
+              <span>Time Off / Holiday</span>
+            </div>
           </div>
           
           <div className="flex items-center gap-2">
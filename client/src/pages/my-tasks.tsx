@@ -323,7 +323,7 @@ function computeDashboardStats(tasks: TaskWithRelations[]): DashboardStats {
   const todayTasks = tasks.filter(t => t.dueDate && isToday(new Date(t.dueDate)) && t.status !== "done");
   const overdueTasks = tasks.filter(t => t.dueDate && isPast(new Date(t.dueDate)) && !isToday(new Date(t.dueDate)) && t.status !== "done");
   const inProgressTasks = tasks.filter(t => t.status === "in_progress");
-  const completedThisWeek = tasks.filter(t => t.status === "done" && t.updatedAt && new Date(t.updatedAt) >= weekAgo);
+  const completedThisWeek = tasks.filter(t => t.completedAt && new Date(t.completedAt) >= weekAgo);
   
   const recentlyAdded = tasks
     .filter(t => t.createdAt && new Date(t.createdAt) >= weekAgo && t.status !== "done")
@@ -331,8 +331,8 @@ function computeDashboardStats(tasks: TaskWithRelations[]): DashboardStats {
     .slice(0, 5);
   
   const recentlyCompleted = tasks
-    .filter(t => t.status === "done" && t.updatedAt && new Date(t.updatedAt) >= weekAgo)
-    .sort((a, b) => new Date(b.updatedAt!).getTime() - new Date(a.updatedAt!).getTime())
+    .filter(t => t.completedAt && new Date(t.completedAt) >= weekAgo)
+    .sort((a, b) => new Date(b.completedAt!).getTime() - new Date(a.completedAt!).getTime())
     .slice(0, 5);
   
   const totalTasks = tasks.length;
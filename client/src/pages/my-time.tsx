@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { Clock, Calendar, TrendingUp, AlertTriangle, Play, Edit, FileWarning, Timer, BarChart3, List } from "lucide-react";
+import { Clock, Calendar, TrendingUp, AlertTriangle, Play, Edit, FileWarning, Timer, BarChart3, List, ClipboardCheck, UserCheck, CalendarOff } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -12,6 +12,9 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Link } from "wouter";
 import { TimeTrackingContent } from "./time-tracking";
+import { useAuth } from "@/lib/auth";
+import { MyTimesheetPanel, TimesheetReviewQueue, currentWeekStart } from "@/features/timesheets";
+import { MyTimeOffPanel, TimeOffApprovalQueue } from "@/features/capacity";
 
 interface TimeStats {
   total: number;
@@ -284,15 +287,25 @@ export default function MyTimePage() {
   const { toast } = useToast();
   const [location] = useLocation();
   const [activeTab, setActiveTab] = useState("dashboard");
+  const [weekStart, setWeekStart] = useState(currentWeekStart());
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin" || user?.role === "super_user";
   
-  // Auto-switch to entries tab when edit param is present in URL
+  // Auto-switch to entries tab when edit param is present in URL; notifications link to ?tab=&week=
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
     const editId = params.get("edit");
+    const tab = params.get("tab");
+    const week = params.get("week");
     if (editId) {
       setActiveTab("entries");
+    } else if (tab === "timesheet" || tab === "time-off" || (tab === "review" && isAdmin)) {
+      setActiveTab(tab);
     }
-  }, [location]);
+    if (week && /^\d{4}-\d{2}-\d{2}$/.test(week)) {
+      setWeekStart(week);
+    }
+  }, [location, isAdmin]);
   
   const { data: stats, isLoading, error } = useQuery<MyTimeStats>({
     queryKey: ["/api/time-entries/my/stats"],
@@ -368,6 +381,20 @@ export default function MyTimePage() {
               <List className="h-4 w-4 mr-2" />
               Time Entries
             </TabsTrigger>
+            <TabsTrigger value="timesheet" data-testid="tab-timesheet">
+              <ClipboardCheck className="h-4 w-4 mr-2" />
+              Timesheet
+            </TabsTrigger>
+            <TabsTrigger value="time-off" data-testid="tab-time-off">
+              <CalendarOff className="h-4 w-4 mr-2" />
+              Time Off
+            </TabsTrigger>
+            {isAdmin && (
+              <TabsTrigger value="review" data-testid="tab-timesheet-review">
+                <UserCheck className="h-4 w-4 mr-2" />
+                Review
+              </TabsTrigger>
+            )}
           </TabsList>
           
           <TabsContent value="dashboard" className="flex-1 space-y-6">
@@ -415,6 +442,21 @@ export default function MyTimePage() {
           <TabsContent value="entries" className="flex-1">
             <TimeTrackingContent />
           </TabsContent>
+
+          <TabsContent value="timesheet" className="flex-1">
+            <MyTimesheetPanel weekStart={weekStart} onWeekChange={setWeekStart} />
+          </TabsContent>
+
+          <TabsContent value="time-off" className="flex-1 space-y-6">
+            {isAdmin && <TimeOffApprovalQueue />}
+            <MyTimeOffPanel />
+          </TabsContent>
+
+          {isAdmin && (
+            <TabsContent value="review" className="flex-1">
+              <TimesheetReviewQueue weekStart={weekStart} onWeekChange={setWeekStart} />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
       
@@ -18,6 +18,7 @@ import {
   LayoutGrid,
   List,
   Calendar as CalendarIcon,
+  GanttChartSquare,
   Plus,
   MoreHorizontal,
   ChevronLeft,
@@ -33,6 +34,7 @@ import {
   Link2,
   Lock,
   Share2,
+  Save,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -42,8 +44,10 @@ import { TaskCard } from "@/features/tasks/task-card";
 import { ListSectionDroppable } from "@/features/tasks/list-section-droppable";
 import { TaskDetailDrawer } from "@/features/tasks/task-detail-drawer";
 import { TaskCreateDrawer } from "@/features/tasks/task-create-drawer";
-import { ProjectCalendar, ProjectSettingsSheet, ProjectMembersSheet, ProjectActivityFeed, AIProjectPlanner } from "@/features/projects";
+import { ProjectCalendar, ProjectTimeline, ProjectSettingsSheet, ProjectMembersSheet, ProjectActivityFeed, AIProjectPlanner } from "@/features/projects";
 import { StartTimerDrawer } from "@/features/timer/start-timer-drawer";
+import { ApplyTemplateDialog, SaveAsTemplateDialog, templateNeedsSetup } from "@/features/templates";
+import { CustomFieldFilterButton, useCustomFieldFilter } from "@/features/customFields";
 import {
   Sheet,
   SheetContent,
@@ -99,7 +103,7 @@ import {
 } from "@/components/ui/breadcrumb";
 import type { Client } from "@shared/schema";
 
-type ViewType = "board" | "list" | "calendar";
+type ViewType = "board" | "list" | "calendar" | "timeline";
 
 export default function ProjectPage() {
   const [, params] = useRoute("/projects/:id");
@@ -137,6 +141,8 @@ export default function ProjectPage() {
   const [deleteSectionDialogOpen, setDeleteSectionDialogOpen] = useState(false);
   const [sectionToDelete, setSectionToDelete] = useState<string | null>(null);
   const [templatePopoverOpen, setTemplatePopoverOpen] = useState(false);
+  const [setupTemplate, setSetupTemplate] = useState<ProjectTemplate | null>(null);
+  const [saveTemplateOpen, setSaveTemplateOpen] = useState(false);
 
   const { prompt: promptSectionName, PromptDialogComponent: SectionNameDialog } = usePromptDialog({
     title: "Create Section",
@@ -177,8 +183,28 @@ export default function ProjectPage() {
     enabled: !!projectId,
   });
 
+  const { data: dependencyGraph } = useQuery<{ blocked: Record<string, string[]> }>({
+    queryKey: ["/api/projects", projectId, "dependencies"],
+    enabled: !!projectId,
+  });
+
+  const blockedTaskIds = useMemo(
+    () => new Set(Object.keys(dependencyGraph?.blocked ?? {})),
+    [dependencyGraph],
+  );
+
   const displaySections = localSections || sections;
 
+  const customFieldFilter = useCustomFieldFilter("task", projectId);
+  const { activeCount: customFilterCount, matches: matchesCustomFields } = customFieldFilter;
+  const listSections = useMemo(() => {
+    if (customFilterCount === 0) return displaySections;
+    return displaySections?.map((section) => ({
+      ...section,
+      tasks: section.tasks?.filter((t) => matchesCustomFields(t.id)),
+    }));
+  }, [displaySections, customFilterCount, matchesCustomFields]);
+
   const activeTask = activeTaskId
     ? displaySections?.flatMap((s) => s.tasks || []).find((t) => t.id === activeTaskId)
     : null;
@@ -218,6 +244,7 @@ export default function ProjectPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "sections"] });
       queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "dependencies"] });
       queryClient.invalidateQueries({ queryKey: ["/api/tasks/my"] });
       if (selectedTask) {
         queryClient.invalidateQueries({ queryKey: ["/api/tasks", selectedTask.id] });
@@ -828,9 +855,21 @@ export default function ProjectPage() {
                   <CalendarIcon className="h-3.5 w-3.5" />
                   <span className="hidden sm:inline">Calendar</span>
                 </TabsTrigger>
+                <TabsTrigger value="timeline" className="gap-1 md:gap-1.5 text-xs md:text-sm" data-testid="tab-timeline">
+                  <GanttChartSquare className="h-3.5 w-3.5" />
+                  <span className="hidden sm:inline">Timeline</span>
+                </TabsTrigger>
               </TabsList>
             </Tabs>
 
+            {view === "list" && (
+              <CustomFieldFilterButton
+                definitions={customFieldFilter.definitions}
+                filters={customFieldFilter.filters}
+                onChange={customFieldFilter.setFilters}
+              />
+            )}
+
             <div className="flex items-center gap-1 md:gap-2 shrink-0">
               <Button 
                 variant="default" 
@@ -947,6 +986,12 @@ export default function ProjectPage() {
                     <FileStack className="h-4 w-4 mr-2" />
                     Apply Template
                   </DropdownMenuItem>
+                  {isAdmin && (
+                    <DropdownMenuItem onClick={() => setSaveTemplateOpen(true)} data-testid="menu-save-as-template-mobile">
+                      <Save className="h-4 w-4 mr-2" />
+                      Save as Template
+                    </DropdownMenuItem>
+                  )}
                 </DropdownMenuContent>
               </DropdownMenu>
               <Popover open={templatePopoverOpen} onOpenChange={setTemplatePopoverOpen}>
@@ -982,7 +1027,14 @@ export default function ProjectPage() {
                             <button
                               key={tpl.id}
                               className="w-full text-left p-2 rounded-md hover-elevate cursor-pointer disabled:opacity-50"
-                              onClick={() => applyTemplateMutation.mutate(tpl.id)}
+                              onClick={() => {
+                                if (templateNeedsSetup(tpl)) {
+                                  setTemplatePopoverOpen(false);
+                                  setSetupTemplate(tpl);
+                                } else {
+                                  applyTemplateMutation.mutate(tpl.id);
+                                }
+                              }}
                               disabled={applyTemplateMutation.isPending}
                               data-testid={`template-option-${tpl.id}`}
                             >
@@ -1008,6 +1060,23 @@ export default function ProjectPage() {
                       </div>
                     )}
                   </ScrollArea>
+                  {isAdmin && (
+                    <div className="p-2 border-t">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-full justify-start"
+                        onClick={() => {
+                          setTemplatePopoverOpen(false);
+                          setSaveTemplateOpen(true);
+                        }}
+                        data-testid="button-save-as-template"
+                      >
+                        <Save className="h-4 w-4 mr-2" />
+                        Save project as template
+                      </Button>
+                    </div>
+                  )}
                 </PopoverContent>
               </Popover>
               <Button
@@ -1069,6 +1138,7 @@ export default function ProjectPage() {
                     onEditSection={handleEditSection}
                     onDeleteSection={openDeleteSectionDialog}
                     onClearSectionTasks={(sectionId) => clearSectionTasksMutation.mutate(sectionId)}
+                    blockedTaskIds={blockedTaskIds}
                   />
                 </div>
               ))}
@@ -1104,13 +1174,14 @@ export default function ProjectPage() {
             onDragEnd={handleDragEnd}
           >
             <div className="px-3 sm:px-4 lg:px-6 py-4 md:py-6 h-full overflow-y-auto">
-              {displaySections?.map((section) => (
+              {listSections?.map((section) => (
                 <ListSectionDroppable
                   key={section.id}
                   section={section}
                   onAddTask={() => handleAddTask(section.id)}
                   onTaskSelect={handleTaskSelect}
                   onTaskStatusChange={handleStatusChange}
+                  blockedTaskIds={blockedTaskIds}
                 />
               ))}
               <Button
@@ -1146,6 +1217,15 @@ export default function ProjectPage() {
             }}
           />
         )}
+
+        {view === "timeline" && projectId && sections && (
+          <ProjectTimeline
+            projectId={projectId}
+            sections={sections}
+            budgetMinutes={project?.budgetMinutes}
+            onTaskSelect={handleTaskSelect}
+          />
+        )}
       </div>
       <TaskDetailDrawer
         task={selectedTask}
@@ -1184,6 +1264,20 @@ export default function ProjectPage() {
           onOpenChange={setMembersOpen}
         />
       )}
+      {projectId && (
+        <ApplyTemplateDialog
+          projectId={projectId}
+          template={setupTemplate}
+          onOpenChange={(open) => { if (!open) setSetupTemplate(null); }}
+        />
+      )}
+      {project && isAdmin && saveTemplateOpen && (
+        <SaveAsTemplateDialog
+          project={project}
+          open={saveTemplateOpen}
+          onOpenChange={setSaveTemplateOpen}
+        />
+      )}
       <Sheet open={aiPlannerOpen} onOpenChange={setAiPlannerOpen}>
         <SheetContent className="w-[440px] sm:w-[540px] flex flex-col">
           <SheetHeader className="flex-shrink-0">
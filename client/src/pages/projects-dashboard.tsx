@@ -45,6 +45,7 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import { CustomFieldFilterButton, useCustomFieldFilter } from "@/features/customFields";
 
 interface ProjectWithCounts extends Project {
   openTaskCount?: number;
@@ -76,6 +77,8 @@ export default function ProjectsDashboard() {
   const [clientFilter, setClientFilter] = useState<string>("all");
   const [divisionFilter, setDivisionFilter] = useState<string>("all");
   const [teamFilter, setTeamFilter] = useState<string>("all");
+  const customFieldFilter = useCustomFieldFilter("project");
+  const { activeCount: customFilterCount, matches: matchesCustomFields, setFilters: setCustomFilters } = customFieldFilter;
   const [createProjectOpen, setCreateProjectOpen] = useState(false);
   const [editProjectOpen, setEditProjectOpen] = useState(false);
   const [editingProject, setEditingProject] = useState<ProjectWithCounts | null>(null);
@@ -177,7 +180,7 @@ export default function ProjectsDashboard() {
     setDivisionFilter("all");
   };
 
-  const hasActiveFilters = searchQuery || statusFilter !== "active" || clientFilter !== "all" || divisionFilter !== "all" || teamFilter !== "all";
+  const hasActiveFilters = searchQuery || statusFilter !== "active" || clientFilter !== "all" || divisionFilter !== "all" || teamFilter !== "all" || customFilterCount > 0;
 
   const handleClearFilters = () => {
     setSearchQuery("");
@@ -185,6 +188,7 @@ export default function ProjectsDashboard() {
     setClientFilter("all");
     setDivisionFilter("all");
     setTeamFilter("all");
+    setCustomFilters({});
   };
 
   const filteredProjects = useMemo(() => {
@@ -207,7 +211,9 @@ export default function ProjectsDashboard() {
         
         const matchesTeam = teamFilter === "all" || project.teamId === teamFilter;
         
-        return matchesSearch && matchesStatus && matchesClient && matchesDivision && matchesTeam;
+        const matchesCustom = matchesCustomFields(project.id);
+
+        return matchesSearch && matchesStatus && matchesClient && matchesDivision && matchesTeam && matchesCustom;
       })
       .sort((a, b) => {
         const aSticky = a.stickyAt ? new Date(a.stickyAt).getTime() : 0;
@@ -217,7 +223,7 @@ export default function ProjectsDashboard() {
         if (aSticky && bSticky) return aSticky - bSticky;
         return 0;
       });
-  }, [projects, searchQuery, statusFilter, clientFilter, divisionFilter, teamFilter]);
+  }, [projects, searchQuery, statusFilter, clientFilter, divisionFilter, teamFilter, matchesCustomFields]);
 
   const [, navigate] = useLocation();
 
@@ -460,6 +466,12 @@ export default function ProjectsDashboard() {
             </SelectContent>
           </Select>
 
+          <CustomFieldFilterButton
+            definitions={customFieldFilter.definitions}
+            filters={customFieldFilter.filters}
+            onChange={setCustomFilters}
+          />
+
           {hasActiveFilters && (
             <Button
               variant="ghost"
@@ -0,0 +1,320 @@
+import { useEffect, useMemo, useState } from "react";
+import { useLocation, useParams } from "wouter";
+import { keepPreviousData, useMutation, useQuery } from "@tanstack/react-query";
+import { ArrowDownAZ, ArrowUpAZ, Filter, LayoutGrid, List, ListFilter, Save, Table2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PageShell, PageHeader, EmptyState, LoadingState, ErrorState, ConfirmDialog } from "@/components/layout";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryKeys } from "@/lib/queryKeys";
+import { cn } from "@/lib/utils";
+import { SavedViewTasks, TaskFilterBuilder, useTaskFilterOptions } from "@/features/savedViews";
+import { SavedViewVisibility, type SavedView, type Team, type TaskWithRelations } from "@shared/schema";
+import {
+  EMPTY_TASK_FILTER,
+  TaskGroupBy,
+  TaskSortField,
+  TaskViewLayout,
+  taskFilterGroupSchema,
+  type TaskFilterGroup,
+  type TaskGroupByValue,
+  type TaskSort,
+  type TaskSortFieldValue,
+  type TaskViewLayoutValue,
+} from "@shared/taskFilters";
+
+type SavedViewWithAccess = SavedView & { canEdit: boolean };
+
+interface ViewDraft {
+  name: string;
+  visibility: SavedView["visibility"];
+  teamId: string | null;
+  filter: TaskFilterGroup;
+  sort: TaskSort;
+  groupBy: TaskGroupByValue;
+  layout: TaskViewLayoutValue;
+}
+
+const NEW_VIEW: ViewDraft = {
+  name: "",
+  visibility: SavedViewVisibility.PERSONAL,
+  teamId: null,
+  filter: EMPTY_TASK_FILTER,
+  sort: [],
+  groupBy: TaskGroupBy.NONE,
+  layout: TaskViewLayout.LIST,
+};
+
+const LAYOUTS = [
+  { value: TaskViewLayout.LIST, label: "List", icon: List },
+  { value: TaskViewLayout.BOARD, label: "Board", icon: LayoutGrid },
+  { value: TaskViewLayout.TABLE, label: "Table", icon: Table2 },
+];
+
+const GROUP_BY_LABELS: Record<TaskGroupByValue, string> = {
+  none: "No grouping",
+  status: "Status",
+  priority: "Priority",
+  assignee: "Assignee",
+  project: "Project",
+  client: "Client",
+  dueDate: "Due date",
+};
+
+const SORT_LABELS: Record<TaskSortFieldValue, string> = {
+  dueDate: "Due date",
+  startDate: "Start date",
+  priority: "Priority",
+  status: "Status",
+  title: "Title",
+  estimateMinutes: "Estimate",
+  createdAt: "Created",
+  updatedAt: "Updated",
+};
+
+function toDraft(view: SavedView): ViewDraft {
+  const { name, visibility, teamId, filter, sort, groupBy, layout } = view;
+  return { name, visibility, teamId, filter, sort, groupBy, layout };
+}
+
+function taskHref(task: TaskWithRelations): string {
+  return task.projectId ? `/projects/${task.projectId}?task=${task.id}` : "/my-tasks";
+}
+
+export default function SavedViewPage() {
+  const { id } = useParams<{ id: string }>();
+  const isNew = id === "new";
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const options = useTaskFilterOptions();
+  const [draft, setDraft] = useState<ViewDraft>(NEW_VIEW);
+  const [showFilters, setShowFilters] = useState(true);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const { data: view, isLoading: viewLoading, error: viewError } = useQuery<SavedViewWithAccess>({
+    queryKey: queryKeys.savedViews.detail(id),
+    enabled: !isNew,
+  });
+
+  const { data: teams = [] } = useQuery<Team[]>({ queryKey: queryKeys.teams.all });
+
+  useEffect(() => {
+    setDraft(view && !isNew ? toDraft(view) : NEW_VIEW);
+  }, [view, isNew]);
+
+  const filterValid = useMemo(() => taskFilterGroupSchema.safeParse(draft.filter).success, [draft.filter]);
+  const queryBody = { filter: draft.filter, sort: draft.sort };
+
+  const { data: result, isFetching } = useQuery<{ tasks: TaskWithRelations[]; hasMore: boolean }>({
+    queryKey: queryKeys.tasks.query(queryBody),
+    queryFn: async () => (await apiRequest("POST", "/api/tasks/query", queryBody)).json(),
+    enabled: filterValid && (isNew || !!view),
+    placeholderData: keepPreviousData,
+  });
+
+  const canEdit = isNew || !!view?.canEdit;
+  const dirty = isNew || (!!view && JSON.stringify(toDraft(view)) !== JSON.stringify(draft));
+  const update = (patch: Partial<ViewDraft>) => setDraft((current) => ({ ...current, ...patch }));
+
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<SavedViewWithAccess> => {
+      const body = { ...draft, teamId: draft.visibility === SavedViewVisibility.TEAM ? draft.teamId : null };
+      const res = isNew
+        ? await apiRequest("POST", "/api/saved-views", body)
+        : await apiRequest("PATCH", `/api/saved-views/${id}`, body);
+      return res.json();
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedViews.all });
+      toast({ title: isNew ? "View created" : "View saved" });
+      if (isNew) navigate(`/views/${saved.id}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save view", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/saved-views/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedViews.all });
+      toast({ title: "View deleted" });
+      navigate("/my-tasks");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not delete view", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!isNew && viewLoading) return <PageShell><LoadingState type="page" /></PageShell>;
+  if (!isNew && (viewError || !view)) {
+    return (
+      <PageShell>
+        <ErrorState title="View not found" error={viewError as Error | null} />
+      </PageShell>
+    );
+  }
+
+  const primarySort = draft.sort[0];
+  const canSave = canEdit && dirty && filterValid && draft.name.trim().length > 0
+    && (draft.visibility !== SavedViewVisibility.TEAM || !!draft.teamId);
+
+  return (
+    <PageShell>
+      <PageHeader
+        icon={<ListFilter className="h-5 w-5" />}
+        title={canEdit ? (
+          <Input
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="Untitled view"
+            className="h-9 max-w-md text-lg font-semibold"
+            data-testid="input-view-name"
+          />
+        ) : draft.name}
+        subtitle={!canEdit ? "Shared with your team" : undefined}
+        actions={
+          <div className="flex items-center gap-2">
+            {canEdit && (
+              <>
+                <Select
+                  value={draft.visibility === SavedViewVisibility.TEAM ? draft.teamId ?? "" : SavedViewVisibility.PERSONAL}
+                  onValueChange={(value) => value === SavedViewVisibility.PERSONAL
+                    ? update({ visibility: SavedViewVisibility.PERSONAL, teamId: null })
+                    : update({ visibility: SavedViewVisibility.TEAM, teamId: value })}
+                >
+                  <SelectTrigger className="h-9 w-44" data-testid="select-view-visibility">
+                    <SelectValue placeholder="Share with…" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SavedViewVisibility.PERSONAL}>Only me</SelectItem>
+                    {teams.map((team) => (
+                      <SelectItem key={team.id} value={team.id}>Team: {team.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending} data-testid="button-save-view">
+                  <Save className="mr-2 h-4 w-4" />
+                  {isNew ? "Create view" : "Save"}
+                </Button>
+              </>
+            )}
+            {!isNew && view?.canEdit && (
+              <Button variant="ghost" size="icon" onClick={() => setConfirmDelete(true)} data-testid="button-delete-view">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        }
+      />
+
+      <div className="mb-4 flex flex-wrap items-center gap-2">
+        <div className="flex rounded-md border p-0.5">
+          {LAYOUTS.map(({ value, label, icon: Icon }) => (
+            <Button
+              key={value}
+              variant={draft.layout === value ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => update({ layout: value })}
+              data-testid={`button-layout-${value}`}
+            >
+              <Icon className="mr-1 h-4 w-4" />
+              {label}
+            </Button>
+          ))}
+        </div>
+        <Select value={draft.groupBy} onValueChange={(groupBy) => update({ groupBy: groupBy as TaskGroupByValue })}>
+          <SelectTrigger className="h-9 w-40" data-testid="select-group-by">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(TaskGroupBy).map((value) => (
+              <SelectItem key={value} value={value}>{GROUP_BY_LABELS[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={primarySort?.field ?? TaskSortField.DUE_DATE}
+          onValueChange={(field) => update({ sort: [{ field: field as TaskSortFieldValue, direction: primarySort?.direction ?? "asc" }] })}
+        >
+          <SelectTrigger className="h-9 w-40" data-testid="select-sort">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(TaskSortField).map((value) => (
+              <SelectItem key={value} value={value}>Sort: {SORT_LABELS[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-9 w-9"
+          onClick={() => update({
+            sort: [{ field: primarySort?.field ?? TaskSortField.DUE_DATE, direction: primarySort?.direction === "desc" ? "asc" : "desc" }],
+          })}
+          data-testid="button-sort-direction"
+        >
+          {primarySort?.direction === "desc" ? <ArrowUpAZ className="h-4 w-4" /> : <ArrowDownAZ className="h-4 w-4" />}
+        </Button>
+        <Button
+          variant={showFilters ? "secondary" : "outline"}
+          size="sm"
+          className="h-9"
+          onClick={() => setShowFilters((shown) => !shown)}
+          data-testid="button-toggle-filters"
+        >
+          <Filter className="mr-1 h-4 w-4" />
+          Filters
+        </Button>
+        {isFetching && <span className="text-xs text-muted-foreground">Updating…</span>}
+      </div>
+
+      {showFilters && (
+        <Card className="mb-4">
+          <CardContent className="pt-4">
+            <TaskFilterBuilder value={draft.filter} onChange={(filter) => update({ filter })} options={options} />
+            {!filterValid && (
+              <p className="mt-2 text-xs text-destructive">Complete the highlighted conditions to see results.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {!result ? (
+        filterValid ? <LoadingState type="list" /> : null
+      ) : result.tasks.length === 0 ? (
+        <EmptyState icon={<ListFilter className="h-10 w-10" />} title="No matching tasks" description="Adjust the filters to widen the view." />
+      ) : (
+        <div className={cn(isFetching && "opacity-70 transition-opacity")}>
+          <SavedViewTasks
+            tasks={result.tasks}
+            layout={draft.layout}
+            groupBy={draft.groupBy}
+            options={options}
+            onOpen={(task) => navigate(taskHref(task))}
+          />
+          {result.hasMore && (
+            <p className="mt-4 text-center text-xs text-muted-foreground">
+              Showing the first {result.tasks.length} tasks. Narrow the filters to see the rest.
+            </p>
+          )}
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={confirmDelete}
+        onOpenChange={setConfirmDelete}
+        title="Delete view?"
+        description={`"${view?.name ?? ""}" will be removed for everyone it is shared with. Tasks are not affected.`}
+        confirmLabel="Delete"
+        variant="destructive"
+        onConfirm={() => deleteMutation.mutate()}
+        isLoading={deleteMutation.isPending}
+      />
+    </PageShell>
+  );
+}
@@ -1,12 +1,21 @@
 import { useLocation, useRoute, Redirect } from "wouter";
 import { useAuth } from "@/lib/auth";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Settings as SettingsIcon, Puzzle, FileText, Mail, MessageSquare, Zap, FileArchive, Bell, Newspaper } from "lucide-react";
+import { Settings as SettingsIcon, Puzzle, FileText, Mail, MessageSquare, Zap, FileArchive, Bell, Newspaper, SlidersHorizontal, Receipt, Webhook, ArrowLeftRight, ShieldCheck, Workflow, CalendarClock, Inbox, UserX } from "lucide-react";
 import { IntegrationsTab } from "@/components/settings/integrations-tab";
 import { AgreementTab } from "@/components/settings/agreement-tab";
 import { EmailLogsTab } from "@/components/settings/email-logs-tab";
+import { InboundEmailTab } from "@/components/settings/inbound-email-tab";
 import { MessagesTab } from "@/components/settings/messages-tab";
 import { PipelineAutomationTab } from "@/components/settings/pipeline-automation-tab";
+import { CustomFieldsTab } from "@/components/settings/custom-fields-tab";
+import { WorkflowsTab } from "@/components/settings/workflows-tab";
+import { CapacityTab } from "@/components/settings/capacity-tab";
+import { BillingRatesTab } from "@/components/settings/billing-rates-tab";
+import { WebhooksTab } from "@/components/settings/webhooks-tab";
+import { SyncTab } from "@/components/settings/sync-tab";
+import { SecurityTab } from "@/components/settings/security-tab";
+import { PrivacyTab } from "@/components/settings/privacy-tab";
 import { DefaultTenantDocumentsManager } from "@/features/tenantDefaultDocs";
 import AlertRulesPage from "@/pages/settings-alerts";
 import DigestConfigPage from "@/pages/settings-digest";
@@ -16,7 +25,16 @@ const BASE_SETTINGS_TABS = [
   { id: "integrations", label: "Integrations", icon: Puzzle, flag: null },
   { id: "messages", label: "Messages", icon: MessageSquare, flag: null },
   { id: "email-logs", label: "Email Logs", icon: Mail, flag: null },
+  { id: "inbound-email", label: "Inbound Email", icon: Inbox, flag: null },
   { id: "automation", label: "Automation", icon: Zap, flag: null },
+  { id: "custom-fields", label: "Custom Fields", icon: SlidersHorizontal, flag: null },
+  { id: "workflows", label: "Workflows", icon: Workflow, flag: null },
+  { id: "capacity", label: "Capacity", icon: CalendarClock, flag: null },
+  { id: "billing-rates", label: "Billing Rates", icon: Receipt, flag: null },
+  { id: "webhooks", label: "Webhooks", icon: Webhook, flag: null },
+  { id: "sync", label: "Sync", icon: ArrowLeftRight, flag: null },
+  { id: "security", label: "Security", icon: ShieldCheck, flag: null },
+  { id: "privacy", label: "Privacy", icon: UserX, flag: null },
   { id: "agreement", label: "Agreement", icon: FileText, flag: null },
   { id: "default-docs", label: "Default Docs", icon: FileArchive, flag: null },
   { id: "alerts", label: "Alerts", icon: Bell, flag: "enableAlertAutomation" as const },
@@ -84,10 +102,46 @@ export default function SettingsPage() {
             <EmailLogsTab />
           </TabsContent>
 
+          <TabsContent value="inbound-email" className="mt-6">
+            <InboundEmailTab />
+          </TabsContent>
+
           <TabsContent value="automation" className="mt-6">
             <PipelineAutomationTab />
           </TabsContent>
 
+          <TabsContent value="custom-fields" className="mt-6">
+            <CustomFieldsTab />
+          </TabsContent>
+
+          <TabsContent value="workflows" className="mt-6">
+            <WorkflowsTab />
+          </TabsContent>
+
+          <TabsContent value="capacity" className="mt-6">
+            <CapacityTab />
+          </TabsContent>
+
+          <TabsContent value="billing-rates" className="mt-6">
+            <BillingRatesTab />
+          </TabsContent>
+
+          <TabsContent value="webhooks" className="mt-6">
+            <WebhooksTab />
+          </TabsContent>
+
+          <TabsContent value="sync" className="mt-6">
+            <SyncTab />
+          </TabsContent>
+
+          <TabsContent value="security" className="mt-6">
+            <SecurityTab />
+          </TabsContent>
+
+          <TabsContent value="privacy" className="mt-6">
+            <PrivacyTab />
+          </TabsContent>
+
           <TabsContent value="agreement" className="mt-6">
             <AgreementTab />
           </TabsContent>
@@ -16,7 +16,10 @@ import {
   Building2,
   ChevronRight,
   RefreshCw,
-  Info
+  Info,
+  Scale,
+  RotateCcw,
+  Trash2
 } from "lucide-react";
 import { 
   Card, 
@@ -58,7 +61,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import type { DataRetentionPolicy } from "@shared/schema";
+import { Textarea } from "@/components/ui/textarea";
+import type { Client, DataRetentionPolicy, RetentionEntityType, RetentionLegalHold, UpsertDataRetentionPolicy } from "@shared/schema";
 
 interface RetentionAuditSummary {
   tenantId: string;
@@ -76,6 +80,47 @@ interface RetentionAuditSummary {
   };
 }
 
+interface RetentionEntityReport {
+  entityType: RetentionEntityType;
+  label: string;
+  policy: DataRetentionPolicy | null;
+  supportsSoftArchive: boolean;
+  total: number;
+  archived: number;
+  wouldArchive: number;
+  wouldPurge: number;
+  heldByLegalHold: number;
+  restorable: number;
+}
+
+interface RetentionDryRunReport {
+  tenantId: string;
+  generatedAt: string;
+  entities: RetentionEntityReport[];
+  activeLegalHolds: RetentionLegalHold[];
+}
+
+type LegalHoldRow = RetentionLegalHold & { clientName: string };
+
+const ENTITY_SHORT_LABELS: Record<string, string> = {
+  tasks: "Tasks",
+  chat_messages: "Chat",
+  comments: "Comments",
+  activity_log: "Activity",
+  time_entries: "Time",
+  client_messages: "Client msgs",
+  support_tickets: "Tickets",
+  email_outbox: "Email",
+  error_logs: "Errors",
+  assets: "Assets",
+};
+
+function invalidateRetention(tenantId: string) {
+  queryClient.invalidateQueries({ queryKey: ["/api/v1/super/retention/audit"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/v1/super/retention/dry-run", tenantId] });
+  queryClient.invalidateQueries({ queryKey: ["/api/v1/super/retention/holds", tenantId] });
+}
+
 export default function SuperAdminRetentionPage() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -95,16 +140,17 @@ export default function SuperAdminRetentionPage() {
       const res = await apiRequest("POST", `/api/v1/super/retention/run/${tenantId}`);
       return res.json();
     },
-    onSuccess: (data) => {
+    onSuccess: (data, tenantId) => {
       toast({
-        title: "Archive run completed",
-        description: `Archived ${data.tasksArchived ?? 0} tasks and ${data.messagesArchived ?? 0} messages.`,
+        title: data.errors?.length ? "Retention run finished with errors" : "Retention run completed",
+        description: `Archived ${data.archived ?? 0} and purged ${data.purged ?? 0} records.`,
+        variant: data.errors?.length ? "destructive" : undefined,
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/v1/super/retention/audit"] });
+      invalidateRetention(tenantId);
     },
     onError: (error: Error) => {
       toast({
-        title: "Archive run failed",
+        title: "Retention run failed",
         description: error.message,
         variant: "destructive",
       });
@@ -112,13 +158,13 @@ export default function SuperAdminRetentionPage() {
   });
 
   const updatePolicyMutation = useMutation({
-    mutationFn: async ({ tenantId, policy }: { tenantId: string; policy: any }) => {
+    mutationFn: async ({ tenantId, policy }: { tenantId: string; policy: UpsertDataRetentionPolicy }) => {
       const res = await apiRequest("POST", `/api/v1/super/retention/policies/${tenantId}`, policy);
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (_data, { tenantId }) => {
       toast({ title: "Policy updated" });
-      queryClient.invalidateQueries({ queryKey: ["/api/v1/super/retention/audit"] });
+      invalidateRetention(tenantId);
     },
     onError: (error: Error) => {
       toast({
@@ -264,7 +310,7 @@ export default function SuperAdminRetentionPage() {
                               variant={p.isEnabled ? "default" : "secondary"}
                               className="text-[10px]"
                             >
-                              {p.entityType === 'tasks' ? 'Tasks' : 'Chat'}: {p.retentionDays}d
+                              {ENTITY_SHORT_LABELS[p.entityType] ?? p.entityType}: {p.retentionDays}d{p.archiveMode === 'hard' ? ' (purge)' : ''}
                             </Badge>
                           ))
                         )}
@@ -301,43 +347,20 @@ export default function SuperAdminRetentionPage() {
                               Configure
                             </Button>
                           </DialogTrigger>
-                          <DialogContent className="max-w-2xl">
+                          <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
                             <DialogHeader>
                               <DialogTitle>Retention Policy: {tenant.tenantName}</DialogTitle>
                               <DialogDescription>
-                                Configure how long data should be kept before being soft-archived.
+                                Configure how long data is kept, preview the next run and place legal holds.
                               </DialogDescription>
                             </DialogHeader>
-                            <div className="space-y-6 py-4">
-                              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                                <PolicyForm 
-                                  entityType="tasks" 
-                                  tenantId={tenant.tenantId} 
-                                  existingPolicy={tenant.policies.find(p => p.entityType === 'tasks')}
-                                  onSave={(p) => updatePolicyMutation.mutate({ tenantId: tenant.tenantId, policy: p })}
-                                  isPending={updatePolicyMutation.isPending}
-                                />
-                                <PolicyForm 
-                                  entityType="chat_messages" 
-                                  tenantId={tenant.tenantId} 
-                                  existingPolicy={tenant.policies.find(p => p.entityType === 'chat_messages')}
-                                  onSave={(p) => updatePolicyMutation.mutate({ tenantId: tenant.tenantId, policy: p })}
-                                  isPending={updatePolicyMutation.isPending}
-                                />
-                              </div>
-
-                              <div className="bg-muted p-4 rounded-md">
-                                <h4 className="text-sm font-semibold flex items-center gap-2 mb-2">
-                                  <Info className="h-4 w-4 text-primary" />
-                                  What happens during archiving?
-                                </h4>
-                                <p className="text-xs text-muted-foreground leading-relaxed">
-                                  <strong>Soft Archive:</strong> Data is not deleted. It is marked with an <code>archivedAt</code> timestamp.
-                                  Archived data is hidden from regular users but remains available for Super Admins.
-                                  Tasks must be in 'done' status for at least the retention period to be eligible.
-                                </p>
-                              </div>
-                            </div>
+                            {selectedTenant?.tenantId === tenant.tenantId && (
+                              <TenantRetentionDetails
+                                tenantId={tenant.tenantId}
+                                onSavePolicy={(p) => updatePolicyMutation.mutate({ tenantId: tenant.tenantId, policy: p })}
+                                isSaving={updatePolicyMutation.isPending}
+                              />
+                            )}
                           </DialogContent>
                         </Dialog>
 
@@ -346,7 +369,7 @@ export default function SuperAdminRetentionPage() {
                           size="sm"
                           className="hover-elevate text-primary"
                           onClick={() => runMutation.mutate(tenant.tenantId)}
-                          disabled={runMutation.isPending || (tenant.tasks.eligibleForArchive === 0 && tenant.chatMessages.eligibleForArchive === 0)}
+                          disabled={runMutation.isPending || !tenant.policies.some(p => p.isEnabled)}
                           data-testid={`button-run-${tenant.tenantId}`}
                         >
                           {runMutation.isPending && runMutation.variables === tenant.tenantId ? (
@@ -369,28 +392,336 @@ export default function SuperAdminRetentionPage() {
   );
 }
 
-function PolicyForm({ 
-  entityType, 
-  tenantId, 
-  existingPolicy, 
+function TenantRetentionDetails({
+  tenantId,
+  onSavePolicy,
+  isSaving,
+}: {
+  tenantId: string;
+  onSavePolicy: (policy: UpsertDataRetentionPolicy) => void;
+  isSaving: boolean;
+}) {
+  const { data: report, isLoading } = useQuery<RetentionDryRunReport>({
+    queryKey: ["/api/v1/super/retention/dry-run", tenantId],
+  });
+
+  if (isLoading || !report) {
+    return (
+      <div className="py-12 text-center">
+        <Loader2 className="h-6 w-6 animate-spin mx-auto text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Tabs defaultValue="policies" className="py-2">
+      <TabsList>
+        <TabsTrigger value="policies" data-testid="tab-retention-policies">Policies</TabsTrigger>
+        <TabsTrigger value="dry-run" data-testid="tab-retention-dry-run">Dry Run</TabsTrigger>
+        <TabsTrigger value="holds" data-testid="tab-retention-holds">Legal Holds</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="policies" className="space-y-6 pt-2">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {report.entities.map((entity) => (
+            <PolicyForm
+              key={entity.entityType}
+              entity={entity}
+              onSave={onSavePolicy}
+              isPending={isSaving}
+            />
+          ))}
+        </div>
+
+        <div className="bg-muted p-4 rounded-md">
+          <h4 className="text-sm font-semibold flex items-center gap-2 mb-2">
+            <Info className="h-4 w-4 text-primary" />
+            What happens during a run?
+          </h4>
+          <p className="text-xs text-muted-foreground leading-relaxed">
+            <strong>Soft Archive:</strong> Tasks and chat messages are not deleted. They are marked with an <code>archivedAt</code> timestamp
+            and can be restored. Tasks must be in 'done' status for at least the retention period to be eligible.
+          </p>
+          <p className="text-xs text-muted-foreground leading-relaxed mt-2">
+            <strong>Hard Purge:</strong> Records are deleted with everything attached to them, including files in object storage.
+            Tasks and chat messages are archived first and purged once the restore window has passed. Records of a client under
+            a legal hold are never purged, and invoiced time is always kept.
+          </p>
+        </div>
+      </TabsContent>
+
+      <TabsContent value="dry-run" className="pt-2">
+        <DryRunTable tenantId={tenantId} report={report} />
+      </TabsContent>
+
+      <TabsContent value="holds" className="pt-2">
+        <LegalHolds tenantId={tenantId} />
+      </TabsContent>
+    </Tabs>
+  );
+}
+
+function DryRunTable({ tenantId, report }: { tenantId: string; report: RetentionDryRunReport }) {
+  const { toast } = useToast();
+
+  const restoreMutation = useMutation({
+    mutationFn: async (entityType: RetentionEntityType) => {
+      const res = await apiRequest("POST", `/api/v1/super/retention/restore/${tenantId}`, { entityType });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Records restored", description: `${data.restored} records are live again.` });
+      invalidateRetention(tenantId);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Restore failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        What a run would do right now. Generated {new Date(report.generatedAt).toLocaleString()}.
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Records</TableHead>
+            <TableHead>Policy</TableHead>
+            <TableHead className="text-right">Total</TableHead>
+            <TableHead className="text-right">Would Archive</TableHead>
+            <TableHead className="text-right">Would Purge</TableHead>
+            <TableHead className="text-right">On Hold</TableHead>
+            <TableHead className="text-right">Restorable</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {report.entities.map((entity) => (
+            <TableRow key={entity.entityType} data-testid={`row-dry-run-${entity.entityType}`}>
+              <TableCell className="font-medium">{entity.label}</TableCell>
+              <TableCell>
+                {entity.policy?.isEnabled ? (
+                  <Badge variant={entity.policy.archiveMode === "hard" ? "destructive" : "default"} className="text-[10px]">
+                    {entity.policy.retentionDays}d {entity.policy.archiveMode === "hard" ? "purge" : "archive"}
+                  </Badge>
+                ) : (
+                  <span className="text-xs text-muted-foreground">Off</span>
+                )}
+              </TableCell>
+              <TableCell className="text-right">{entity.total}</TableCell>
+              <TableCell className="text-right">{entity.wouldArchive}</TableCell>
+              <TableCell className={`text-right ${entity.wouldPurge > 0 ? "text-destructive font-bold" : ""}`}>
+                {entity.wouldPurge}
+              </TableCell>
+              <TableCell className="text-right">{entity.heldByLegalHold}</TableCell>
+              <TableCell className="text-right">
+                {entity.supportsSoftArchive ? (
+                  <div className="flex items-center justify-end gap-2">
+                    <span>{entity.restorable}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2"
+                      disabled={entity.archived === 0 || restoreMutation.isPending}
+                      onClick={() => restoreMutation.mutate(entity.entityType)}
+                      data-testid={`button-restore-${entity.entityType}`}
+                    >
+                      <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                      Restore
+                    </Button>
+                  </div>
+                ) : (
+                  <span className="text-xs text-muted-foreground">—</span>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <p className="text-xs text-muted-foreground">
+        Restore brings back every archived record of that type. Restored records are archived again on the next run unless the policy is disabled or lengthened first.
+      </p>
+    </div>
+  );
+}
+
+function LegalHolds({ tenantId }: { tenantId: string }) {
+  const { toast } = useToast();
+  const [clientId, setClientId] = useState("");
+  const [reason, setReason] = useState("");
+
+  const { data: holds = [], isLoading } = useQuery<LegalHoldRow[]>({
+    queryKey: ["/api/v1/super/retention/holds", tenantId],
+  });
+  const { data: clientsResponse } = useQuery<{ clients: Client[] }>({
+    queryKey: ["/api/v1/super/tenants", tenantId, "clients"],
+  });
+
+  const placeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/v1/super/retention/holds/${tenantId}`, { clientId, reason });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Legal hold placed" });
+      setClientId("");
+      setReason("");
+      invalidateRetention(tenantId);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to place legal hold", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: async (holdId: string) => {
+      const res = await apiRequest("POST", `/api/v1/super/retention/holds/${tenantId}/${holdId}/release`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Legal hold released" });
+      invalidateRetention(tenantId);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to release legal hold", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const heldClientIds = new Set(holds.filter((h) => !h.releasedAt).map((h) => h.clientId));
+  const availableClients = (clientsResponse?.clients ?? []).filter((c) => !heldClientIds.has(c.id));
+
+  return (
+    <div className="space-y-4">
+      <Card className="border-border">
+        <CardHeader className="pb-3 pt-4 px-4">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Scale className="h-4 w-4" />
+            Place a Legal Hold
+          </CardTitle>
+          <CardDescription>
+            Nothing linked to the client is purged while the hold is active. Archiving still runs.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="px-4 pb-4 space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="legal-hold-client" className="text-sm">Client</Label>
+            <Select value={clientId} onValueChange={setClientId}>
+              <SelectTrigger id="legal-hold-client" data-testid="select-legal-hold-client">
+                <SelectValue placeholder="Select client" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableClients.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>{c.companyName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="legal-hold-reason" className="text-sm">Reason</Label>
+            <Textarea
+              id="legal-hold-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Litigation notice received 2026-03-01"
+              rows={2}
+              data-testid="input-legal-hold-reason"
+            />
+          </div>
+        </CardContent>
+        <CardFooter className="px-4 pb-4 pt-0">
+          <Button
+            size="sm"
+            onClick={() => placeMutation.mutate()}
+            disabled={!clientId || !reason.trim() || placeMutation.isPending}
+            data-testid="button-place-legal-hold"
+          >
+            {placeMutation.isPending ? <Loader2 className="h-3 w-3 mr-2 animate-spin" /> : null}
+            Place Hold
+          </Button>
+        </CardFooter>
+      </Card>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Client</TableHead>
+            <TableHead>Reason</TableHead>
+            <TableHead>Placed</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {isLoading ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center">
+                <Loader2 className="h-5 w-5 animate-spin mx-auto text-primary" />
+              </TableCell>
+            </TableRow>
+          ) : holds.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center text-muted-foreground">
+                No legal holds.
+              </TableCell>
+            </TableRow>
+          ) : (
+            holds.map((hold) => (
+              <TableRow key={hold.id} data-testid={`row-legal-hold-${hold.id}`}>
+                <TableCell className="font-medium">{hold.clientName}</TableCell>
+                <TableCell className="text-sm max-w-xs truncate" title={hold.reason}>{hold.reason}</TableCell>
+                <TableCell className="text-sm">{new Date(hold.placedAt).toLocaleDateString()}</TableCell>
+                <TableCell>
+                  {hold.releasedAt ? (
+                    <Badge variant="secondary">Released {new Date(hold.releasedAt).toLocaleDateString()}</Badge>
+                  ) : (
+                    <Badge variant="default">Active</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  {!hold.releasedAt && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => releaseMutation.mutate(hold.id)}
+                      disabled={releaseMutation.isPending}
+                      data-testid={`button-release-legal-hold-${hold.id}`}
+                    >
+                      Release
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+function PolicyForm({
+  entity,
   onSave,
-  isPending 
-}: { 
-  entityType: string; 
-  tenantId: string; 
-  existingPolicy?: DataRetentionPolicy;
-  onSave: (policy: any) => void;
+  isPending
+}: {
+  entity: RetentionEntityReport;
+  onSave: (policy: UpsertDataRetentionPolicy) => void;
   isPending: boolean;
 }) {
+  const { entityType, policy: existingPolicy } = entity;
   const [days, setDays] = useState(existingPolicy?.retentionDays?.toString() || "365");
   const [enabled, setEnabled] = useState(existingPolicy?.isEnabled || false);
+  const [mode, setMode] = useState<"soft" | "hard">(
+    existingPolicy?.archiveMode === "hard" || !entity.supportsSoftArchive ? "hard" : "soft"
+  );
+  const [restoreWindow, setRestoreWindow] = useState(existingPolicy?.restoreWindowDays?.toString() || "30");
 
   return (
     <Card className="border-border">
       <CardHeader className="pb-3 pt-4 px-4">
         <CardTitle className="text-base flex items-center gap-2">
-          {entityType === 'tasks' ? <FileText className="h-4 w-4" /> : <MessageSquare className="h-4 w-4" />}
-          {entityType === 'tasks' ? 'Task Retention' : 'Chat Retention'}
+          {entityType === 'tasks' ? <FileText className="h-4 w-4" /> : entityType === 'chat_messages' ? <MessageSquare className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+          {entity.label}
         </CardTitle>
       </CardHeader>
       <CardContent className="px-4 pb-4 space-y-4">
@@ -418,6 +749,34 @@ function PolicyForm({
             </SelectContent>
           </Select>
         </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${entityType}-mode`} className="text-sm">After Retention</Label>
+          <Select value={mode} onValueChange={(v) => setMode(v as "soft" | "hard")} disabled={!entity.supportsSoftArchive}>
+            <SelectTrigger id={`${entityType}-mode`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {entity.supportsSoftArchive && <SelectItem value="soft">Soft archive</SelectItem>}
+              <SelectItem value="hard">Hard purge</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {entity.supportsSoftArchive && mode === "hard" && (
+          <div className="space-y-2">
+            <Label htmlFor={`${entityType}-restore-window`} className="text-sm">Restore Window</Label>
+            <Select value={restoreWindow} onValueChange={setRestoreWindow}>
+              <SelectTrigger id={`${entityType}-restore-window`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="0">None (purge on archive)</SelectItem>
+                <SelectItem value="7">7 Days</SelectItem>
+                <SelectItem value="30">30 Days</SelectItem>
+                <SelectItem value="90">90 Days</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
       </CardContent>
       <CardFooter className="px-4 pb-4 pt-0">
         <Button 
@@ -427,7 +786,8 @@ function PolicyForm({
             entityType,
             isEnabled: enabled,
             retentionDays: parseInt(days),
-            archiveMode: 'soft'
+            archiveMode: mode,
+            restoreWindowDays: parseInt(restoreWindow),
           })}
           disabled={isPending}
         >
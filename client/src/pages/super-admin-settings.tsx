@@ -9,6 +9,7 @@ import { Badge } from "@/components/ui/badge";
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/lib/auth";
@@ -54,6 +55,7 @@ interface SystemSettings {
   platformVersion: string | null;
   maintenanceMode: boolean;
   maintenanceMessage: string | null;
+  requireTwoFactor: boolean | null;
 }
 
 interface TenantAgreementStatus {
@@ -1313,6 +1315,10 @@ export default function SuperAdminSettingsPage() {
               <Mail className="h-4 w-4 mr-2" />
               Email Templates
             </TabsTrigger>
+            <TabsTrigger value="security" data-testid="tab-security">
+              <Shield className="h-4 w-4 mr-2" />
+              Security
+            </TabsTrigger>
           </TabsList>
           </div>
 
@@ -1323,6 +1329,39 @@ export default function SuperAdminSettingsPage() {
             />
           </TabsContent>
 
+          <TabsContent value="security">
+            <Card>
+              <CardHeader>
+                <CardTitle>Security</CardTitle>
+                <CardDescription>Sign-in requirements that apply to every user on the platform</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {settingsLoading ? (
+                  <div className="flex items-center justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                  </div>
+                ) : (
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1">
+                      <Label htmlFor="requireTwoFactor">Require two-factor authentication</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Every user, including super admins, must set up an authenticator app before they can use the app.
+                        Users without it are asked to enroll at their next request.
+                      </p>
+                    </div>
+                    <Switch
+                      id="requireTwoFactor"
+                      checked={systemSettings?.requireTwoFactor ?? false}
+                      onCheckedChange={(checked) => updateSettingsMutation.mutate({ requireTwoFactor: checked })}
+                      disabled={updateSettingsMutation.isPending}
+                      data-testid="switch-require-two-factor"
+                    />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="branding">
             <Card>
               <CardHeader>
@@ -19,7 +19,7 @@ import { Redirect } from "wouter";
 import { 
   Loader2, Shield, Save, Mail, Plus, Link, Copy, MoreHorizontal, Camera,
   UserCheck, UserX, Clock, AlertCircle, KeyRound, Eye, EyeOff, Trash2, Send,
-  Search, Building2, Users, ChevronLeft, ChevronRight, Activity, Edit, X
+  Search, Building2, Users, ChevronLeft, ChevronRight, Activity, Edit, X, ShieldOff
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -285,6 +285,20 @@ export default function SuperAdminUsers() {
     },
   });
 
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/v1/super/users/${id}/2fa/reset`);
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Two-factor authentication reset", description: data.message });
+    },
+    onError: (error: any) => {
+      const parsed = parseApiError(error);
+      toast({ title: "Failed to reset two-factor authentication", description: parsed.message, variant: "destructive" });
+    },
+  });
+
   const deleteAdminMutation = useMutation({
     mutationFn: async (id: string) => {
       const res = await apiRequest("DELETE", `/api/v1/super/admins/${id}`);
@@ -915,6 +929,19 @@ export default function SuperAdminUsers() {
                                   Reset Password
                                 </DropdownMenuItem>
                               )}
+                              {admin.id !== user?.id && (
+                                <DropdownMenuItem
+                                  onClick={() => {
+                                    if (confirm(`Reset two-factor authentication for ${admin.email}?`)) {
+                                      resetTwoFactorMutation.mutate(admin.id);
+                                    }
+                                  }}
+                                  data-testid={`button-reset-two-factor-${admin.id}`}
+                                >
+                                  <ShieldOff className="h-4 w-4 mr-2" />
+                                  Reset 2FA
+                                </DropdownMenuItem>
+                              )}
                               {admin.isActive ? (
                                 <DropdownMenuItem 
                                   onClick={() => handleDeactivateAdmin(admin)}
@@ -24,6 +24,8 @@ interface TicketMessage {
   bodyText: string;
   visibility: string;
   createdAt: string;
+  /** Sender address of messages that arrived by email. */
+  authorEmail: string | null;
   author: { id: string; name: string | null; email: string } | null;
 }
 
@@ -304,7 +306,7 @@ export default function SupportTicketDetail() {
               ) : (
                 <>
                   {ticket.messages.map((msg) => {
-                    const isPortalUser = msg.authorType === "portal_user";
+                    const isPortalUser = msg.authorType === "portal_user" || msg.authorType === "contact";
                     const isInternalNote = msg.visibility === "internal";
                     return (
                       <Card key={msg.id} className={isInternalNote ? "border-dashed border-yellow-300 dark:border-yellow-700" : ""} data-testid={`card-message-${msg.id}`}>
@@ -312,12 +314,12 @@ export default function SupportTicketDetail() {
                           <div className="flex items-start gap-3">
                             <Avatar className="h-8 w-8 shrink-0">
                               <AvatarFallback className={`text-xs ${isPortalUser ? "bg-accent" : "bg-primary/10"}`}>
-                                {getInitials(msg.author?.name, msg.author?.email)}
+                                {getInitials(msg.author?.name, msg.author?.email ?? msg.authorEmail ?? undefined)}
                               </AvatarFallback>
                             </Avatar>
                             <div className="flex-1 min-w-0">
                               <div className="flex items-center gap-2 flex-wrap">
-                                <span className="font-medium">{msg.author?.name || msg.author?.email || "Unknown"}</span>
+                                <span className="font-medium">{msg.author?.name || msg.author?.email || msg.authorEmail || "Unknown"}</span>
                                 {isPortalUser && <Badge variant="secondary" className="text-xs">Client</Badge>}
                                 {isInternalNote && (
                                   <Badge variant="secondary" className="text-xs bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300">
@@ -39,18 +39,16 @@ import {
   Layers,
   CheckSquare,
   ListChecks,
+  UserCircle,
+  X,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { TemplateTaskEditor, formatDayOffset } from "@/features/templates";
 import type { ProjectTemplate, ProjectTemplateContent } from "@shared/schema";
+import { collectTemplateRoles, type TemplateTask } from "@shared/projectTemplates";
 
-interface TemplateSection {
-  name: string;
-  tasks: Array<{
-    title: string;
-    description?: string;
-    subtasks?: string[];
-  }>;
-}
+type TemplateSection = ProjectTemplateContent["sections"][number];
 
 function TemplateEditor({
   template,
@@ -70,8 +68,32 @@ function TemplateEditor({
   const [sections, setSections] = useState<TemplateSection[]>(
     content?.sections || [{ name: "Section 1", tasks: [] }]
   );
+  const [roles, setRoles] = useState<string[]>(collectTemplateRoles(content));
+  const [roleInput, setRoleInput] = useState("");
+  const [expandedTask, setExpandedTask] = useState<string | null>(null);
   const [bulkInput, setBulkInput] = useState("");
 
+  const handleAddRole = () => {
+    const role = roleInput.trim();
+    if (role && !roles.includes(role)) setRoles([...roles, role]);
+    setRoleInput("");
+  };
+
+  const handleRemoveRole = (role: string) => {
+    setRoles(roles.filter((r) => r !== role));
+    setSections(sections.map((section) => ({
+      ...section,
+      tasks: section.tasks.map((task) => {
+        const assigneeRoles = task.assigneeRoles?.filter((r) => r !== role);
+        return {
+          ...task,
+          assigneeRoles: assigneeRoles?.length ? assigneeRoles : undefined,
+          subtasks: task.subtasks?.map((s) => (typeof s !== "string" && s.assigneeRole === role ? { ...s, assigneeRole: undefined } : s)),
+        };
+      }),
+    })));
+  };
+
   const handleAddSection = () => {
     setSections([...sections, { name: `Section ${sections.length + 1}`, tasks: [] }]);
   };
@@ -108,6 +130,16 @@ function TemplateEditor({
     setSections(updated);
   };
 
+  const handleReplaceTask = (sectionIndex: number, taskIndex: number, task: TemplateTask) => {
+    const updated = [...sections];
+    updated[sectionIndex].tasks[taskIndex] = task;
+    setSections(updated);
+  };
+
+  const hasInvalidDates = sections.some((section) => section.tasks.some((task) => (
+    task.startOffsetDays !== undefined && task.dueOffsetDays !== undefined && task.startOffsetDays > task.dueOffsetDays
+  )));
+
   const handleParseBulkInput = () => {
     if (!bulkInput.trim()) return;
 
@@ -151,7 +183,7 @@ function TemplateEditor({
       name,
       description: description || undefined,
       category,
-      content: { sections },
+      content: roles.length ? { roles, sections } : { sections },
     });
   };
 
@@ -188,6 +220,44 @@ function TemplateEditor({
         />
       </div>
 
+      <div className="border rounded-lg p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <UserCircle className="h-4 w-4 text-muted-foreground" />
+          <Label className="text-base font-medium">Roles</Label>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Placeholders such as "Designer" or "PM". Each role is mapped to a person when the template is applied.
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          {roles.map((role) => (
+            <Badge key={role} variant="secondary" className="gap-1">
+              {role}
+              <button type="button" aria-label={`Remove role ${role}`} onClick={() => handleRemoveRole(role)}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          <Input
+            value={roleInput}
+            onChange={(e) => setRoleInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleAddRole();
+              }
+            }}
+            placeholder="Add role"
+            className="h-8 w-40"
+            maxLength={60}
+            data-testid="input-template-role"
+          />
+          <Button variant="outline" size="sm" onClick={handleAddRole} disabled={!roleInput.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </div>
+
       <div className="border rounded-lg p-4 space-y-4">
         <div className="flex items-center justify-between">
           <Label className="text-base font-medium">Sections & Tasks</Label>
@@ -219,26 +289,54 @@ function TemplateEditor({
               </div>
 
               <div className="pl-6 space-y-2">
-                {section.tasks.map((task, tIdx) => (
-                  <div key={tIdx} className="flex items-center gap-2">
-                    <CheckSquare className="h-4 w-4 text-muted-foreground" />
-                    <Input
-                      value={task.title}
-                      onChange={(e) => handleUpdateTask(sIdx, tIdx, "title", e.target.value)}
-                      className="flex-1"
-                      placeholder="Task title"
-                      data-testid={`input-task-title-${sIdx}-${tIdx}`}
-                    />
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => handleRemoveTask(sIdx, tIdx)}
-                      data-testid={`button-remove-task-${sIdx}-${tIdx}`}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
-                ))}
+                {section.tasks.map((task, tIdx) => {
+                  const taskKey = `${sIdx}-${tIdx}`;
+                  const expanded = expandedTask === taskKey;
+                  const due = formatDayOffset(task.dueOffsetDays);
+                  return (
+                    <div key={tIdx} className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 shrink-0"
+                          onClick={() => setExpandedTask(expanded ? null : taskKey)}
+                          aria-label={expanded ? "Hide task details" : "Show task details"}
+                          data-testid={`button-task-details-${sIdx}-${tIdx}`}
+                        >
+                          <ChevronRight className={cn("h-4 w-4 transition-transform", expanded && "rotate-90")} />
+                        </Button>
+                        <CheckSquare className="h-4 w-4 text-muted-foreground shrink-0" />
+                        <Input
+                          value={task.title}
+                          onChange={(e) => handleUpdateTask(sIdx, tIdx, "title", e.target.value)}
+                          className="flex-1"
+                          placeholder="Task title"
+                          data-testid={`input-task-title-${sIdx}-${tIdx}`}
+                        />
+                        {due && <Badge variant="outline" className="shrink-0">{due}</Badge>}
+                        {task.assigneeRoles?.map((role) => (
+                          <Badge key={role} variant="secondary" className="shrink-0 hidden sm:inline-flex">{role}</Badge>
+                        ))}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleRemoveTask(sIdx, tIdx)}
+                          data-testid={`button-remove-task-${sIdx}-${tIdx}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      {expanded && (
+                        <TemplateTaskEditor
+                          task={task}
+                          roles={roles}
+                          onChange={(next) => handleReplaceTask(sIdx, tIdx, next)}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
                 <Button
                   variant="ghost"
                   size="sm"
@@ -280,7 +378,7 @@ function TemplateEditor({
         <Button variant="outline" onClick={onCancel} data-testid="button-cancel-template">
           Cancel
         </Button>
-        <Button onClick={handleSave} disabled={isLoading || !name.trim()} data-testid="button-save-template">
+        <Button onClick={handleSave} disabled={isLoading || !name.trim() || hasInvalidDates} data-testid="button-save-template">
           {isLoading ? "Saving..." : template ? "Update Template" : "Create Template"}
         </Button>
       </div>
@@ -378,6 +476,10 @@ export default function TemplatesPage() {
     return content?.sections?.reduce((acc, section) => acc + section.tasks.length, 0) || 0;
   };
 
+  const getRoleCount = (template: ProjectTemplate) => {
+    return collectTemplateRoles(template.content as ProjectTemplateContent).length;
+  };
+
   const getSectionCount = (template: ProjectTemplate) => {
     const content = template.content as ProjectTemplateContent;
     return content?.sections?.length || 0;
@@ -394,7 +496,7 @@ export default function TemplatesPage() {
             <div>
               <h1 className="text-xl md:text-2xl font-bold">Project Templates</h1>
               <p className="text-muted-foreground text-sm">
-                Create reusable templates with predefined sections and tasks
+                Create reusable templates with sections, tasks, relative dates and role placeholders
               </p>
             </div>
           </div>
@@ -477,6 +579,12 @@ export default function TemplatesPage() {
                       <CheckSquare className="h-4 w-4" />
                       {getTaskCount(template)} tasks
                     </span>
+                    {getRoleCount(template) > 0 && (
+                      <span className="flex items-center gap-1">
+                        <UserCircle className="h-4 w-4" />
+                        {getRoleCount(template)} roles
+                      </span>
+                    )}
                   </div>
                   <div className="flex items-center justify-end gap-2">
                     <Button
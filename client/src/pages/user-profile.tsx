@@ -17,6 +17,8 @@ import { useTheme } from "@/lib/theme-provider";
 import { type ThemePack } from "@/theme/themePacks";
 import { cn } from "@/lib/utils";
 import { getStorageUrl } from "@/lib/storageUrl";
+import { ApiTokensCard } from "@/features/api-tokens";
+import { TwoFactorCard } from "@/features/two-factor";
 
 function getRoleLabel(role: string) {
   switch (role) {
@@ -388,6 +390,10 @@ export default function UserProfilePage() {
           </form>
 
           <AppearanceCard />
+
+          <TwoFactorCard />
+
+          {user.tenantId && user.role !== "client" && <ApiTokensCard />}
         </div>
       </div>
     </ScrollArea>
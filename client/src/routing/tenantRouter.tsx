@@ -56,6 +56,7 @@ const CalendarPage = lazy(trackChunkLoad("Calendar", () => import("@/pages/calen
 const MyTimePage = lazy(trackChunkLoad("MyTime", () => import("@/pages/my-time")));
 const MyCalendarPage = lazy(trackChunkLoad("MyCalendar", () => import("@/pages/my-calendar")));
 const TeamDetailPage = lazy(trackChunkLoad("TeamDetail", () => import("@/pages/team-detail")));
+const SavedViewPage = lazy(trackChunkLoad("SavedView", () => import("@/pages/saved-view")));
 const SupportTickets = lazy(trackChunkLoad("SupportTickets", () => import("@/pages/support-tickets")));
 const SupportTicketDetail = lazy(trackChunkLoad("SupportTicketDetail", () => import("@/pages/support-ticket-detail")));
 const SupportTemplates = lazy(trackChunkLoad("SupportTemplates", () => import("@/pages/support-templates")));
@@ -148,6 +149,9 @@ function TenantRouter() {
         <Route path="/teams/:id">
           {() => <TenantRouteGuard component={TeamDetailPage} />}
         </Route>
+        <Route path="/views/:id">
+          {() => <TenantRouteGuard component={SavedViewPage} />}
+        </Route>
         <Route path="/support">
           {() => <TenantRouteGuard component={SupportTickets} />}
         </Route>
@@ -0,0 +1,22 @@
+-- Task dependencies (blocked-by / blocking links between tasks)
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "task_dependencies" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id"),
+  "predecessor_task_id" varchar NOT NULL REFERENCES "tasks"("id") ON DELETE CASCADE,
+  "successor_task_id" varchar NOT NULL REFERENCES "tasks"("id") ON DELETE CASCADE,
+  "type" text DEFAULT 'finish_to_start' NOT NULL,
+  "lag_days" integer DEFAULT 0 NOT NULL,
+  "created_by" varchar REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "task_dependencies_unique" ON "task_dependencies" ("predecessor_task_id", "successor_task_id");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "task_dependencies_successor_idx" ON "task_dependencies" ("successor_task_id");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "task_dependencies_tenant_idx" ON "task_dependencies" ("tenant_id");
@@ -0,0 +1,33 @@
+-- Recurring task series (RRULE) and delayed background jobs
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "task_recurrences" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id"),
+  "template_task_id" varchar REFERENCES "tasks"("id") ON DELETE SET NULL,
+  "rrule" text NOT NULL,
+  "dtstart" timestamp NOT NULL,
+  "generate_mode" text DEFAULT 'on_completion' NOT NULL,
+  "occurrence_count" integer DEFAULT 1 NOT NULL,
+  "next_occurrence_at" timestamp,
+  "scheduled_job_id" varchar,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_by" varchar REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "task_recurrences_tenant_idx" ON "task_recurrences" ("tenant_id");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "task_recurrences_template_idx" ON "task_recurrences" ("template_task_id");
+
+--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "recurrence_id" varchar;
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "tasks_recurrence_idx" ON "tasks" ("recurrence_id");
+
+--> statement-breakpoint
+ALTER TABLE "background_jobs" ADD COLUMN IF NOT EXISTS "run_after" timestamp;
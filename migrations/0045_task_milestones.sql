@@ -0,0 +1,4 @@
+-- Milestone flag for the project timeline view
+
+--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "is_milestone" boolean DEFAULT false NOT NULL;
@@ -0,0 +1,43 @@
+-- Tenant-defined custom fields on tasks, projects and clients
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "custom_field_definitions" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id"),
+  "entity_type" text NOT NULL,
+  "key" text NOT NULL,
+  "label" text NOT NULL,
+  "field_type" text NOT NULL,
+  "description" text,
+  "options" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "currency_code" text,
+  "is_required" boolean DEFAULT false NOT NULL,
+  "order_index" integer DEFAULT 0 NOT NULL,
+  "created_by" varchar REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "custom_field_definitions_tenant_entity_key_idx" ON "custom_field_definitions" ("tenant_id", "entity_type", "key");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "custom_field_definitions_tenant_entity_idx" ON "custom_field_definitions" ("tenant_id", "entity_type");
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "custom_field_values" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id"),
+  "field_id" varchar NOT NULL REFERENCES "custom_field_definitions"("id") ON DELETE CASCADE,
+  "entity_type" text NOT NULL,
+  "entity_id" varchar NOT NULL,
+  "value" jsonb NOT NULL,
+  "updated_by" varchar REFERENCES "users"("id"),
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "custom_field_values_field_entity_idx" ON "custom_field_values" ("field_id", "entity_id");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "custom_field_values_entity_idx" ON "custom_field_values" ("tenant_id", "entity_type", "entity_id");
@@ -0,0 +1,78 @@
+-- Billing rate cards and invoices generated from time entries
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "billing_rates" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id"),
+  "user_id" varchar REFERENCES "users"("id") ON DELETE CASCADE,
+  "role" text,
+  "project_id" varchar REFERENCES "projects"("id") ON DELETE CASCADE,
+  "client_id" varchar REFERENCES "clients"("id") ON DELETE CASCADE,
+  "rate_cents" integer NOT NULL,
+  "currency" text DEFAULT 'USD' NOT NULL,
+  "effective_from" date NOT NULL,
+  "effective_to" date,
+  "created_by" varchar REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "billing_rates_tenant_idx" ON "billing_rates" ("tenant_id");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "billing_rates_tenant_client_idx" ON "billing_rates" ("tenant_id", "client_id");
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "invoices" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id"),
+  "client_id" varchar NOT NULL REFERENCES "clients"("id"),
+  "number" text NOT NULL,
+  "status" text DEFAULT 'draft' NOT NULL,
+  "group_by" text DEFAULT 'project' NOT NULL,
+  "period_start" date NOT NULL,
+  "period_end" date NOT NULL,
+  "currency" text DEFAULT 'USD' NOT NULL,
+  "total_seconds" integer DEFAULT 0 NOT NULL,
+  "subtotal_cents" integer DEFAULT 0 NOT NULL,
+  "notes" text,
+  "due_date" date,
+  "issued_at" timestamp,
+  "paid_at" timestamp,
+  "voided_at" timestamp,
+  "created_by" varchar REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "invoices_tenant_number_idx" ON "invoices" ("tenant_id", "number");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "invoices_tenant_client_idx" ON "invoices" ("tenant_id", "client_id");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "invoices_tenant_status_idx" ON "invoices" ("tenant_id", "status");
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "invoice_lines" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id"),
+  "invoice_id" varchar NOT NULL REFERENCES "invoices"("id") ON DELETE CASCADE,
+  "group_key" varchar,
+  "description" text NOT NULL,
+  "quantity_seconds" integer NOT NULL,
+  "rate_cents" integer NOT NULL,
+  "amount_cents" integer NOT NULL,
+  "order_index" integer DEFAULT 0 NOT NULL
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "invoice_lines_invoice_idx" ON "invoice_lines" ("invoice_id");
+
+--> statement-breakpoint
+ALTER TABLE "time_entries" ADD COLUMN IF NOT EXISTS "invoice_id" varchar REFERENCES "invoices"("id") ON DELETE SET NULL;
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "time_entries_invoice_idx" ON "time_entries" ("invoice_id");
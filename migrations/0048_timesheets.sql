@@ -0,0 +1,23 @@
+-- Weekly timesheet submission and approval
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "timesheets" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id"),
+  "user_id" varchar NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "week_start" date NOT NULL,
+  "status" text DEFAULT 'draft' NOT NULL,
+  "total_seconds" integer DEFAULT 0 NOT NULL,
+  "submitted_at" timestamp,
+  "reviewed_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "reviewed_at" timestamp,
+  "review_comment" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "timesheets_tenant_user_week_idx" ON "timesheets" ("tenant_id", "user_id", "week_start");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "timesheets_tenant_status_idx" ON "timesheets" ("tenant_id", "status");
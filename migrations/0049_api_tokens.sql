@@ -0,0 +1,23 @@
+-- Personal API tokens for bearer authentication
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "api_tokens" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id"),
+  "user_id" varchar NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "name" text NOT NULL,
+  "token_prefix" text NOT NULL,
+  "token_hash" text NOT NULL,
+  "scopes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "expires_at" timestamp,
+  "last_used_at" timestamp,
+  "last_used_ip" text,
+  "revoked_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "api_tokens_token_hash_idx" ON "api_tokens" ("token_hash");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "api_tokens_tenant_user_idx" ON "api_tokens" ("tenant_id", "user_id");
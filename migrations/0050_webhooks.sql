@@ -0,0 +1,48 @@
+-- Outbound webhook endpoints and their delivery log
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "webhook_endpoints" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id"),
+  "url" text NOT NULL,
+  "description" text,
+  "events" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "secret_encrypted" text NOT NULL,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_by_user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "last_success_at" timestamp,
+  "last_failure_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "webhook_endpoints_tenant_idx" ON "webhook_endpoints" ("tenant_id");
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "webhook_deliveries" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id"),
+  "endpoint_id" varchar NOT NULL REFERENCES "webhook_endpoints"("id") ON DELETE CASCADE,
+  "event_id" varchar NOT NULL,
+  "event_type" text NOT NULL,
+  "payload" jsonb NOT NULL,
+  "status" text DEFAULT 'pending' NOT NULL,
+  "attempts" integer DEFAULT 0 NOT NULL,
+  "max_attempts" integer NOT NULL,
+  "last_status_code" integer,
+  "last_error" text,
+  "last_response_body" text,
+  "last_duration_ms" integer,
+  "next_attempt_at" timestamp,
+  "delivered_at" timestamp,
+  "redelivery_of" varchar,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "webhook_deliveries_endpoint_created_idx" ON "webhook_deliveries" ("endpoint_id", "created_at");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "webhook_deliveries_tenant_status_idx" ON "webhook_deliveries" ("tenant_id", "status");
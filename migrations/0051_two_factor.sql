@@ -0,0 +1,36 @@
+-- TOTP two-factor authentication, recovery codes and remembered devices
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "user_two_factor" (
+  "user_id" varchar PRIMARY KEY NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "secret_encrypted" text NOT NULL,
+  "enabled_at" timestamp,
+  "recovery_code_hashes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "last_used_step" integer,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "trusted_devices" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" varchar NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "token_hash" text NOT NULL,
+  "label" text,
+  "ip_address" text,
+  "expires_at" timestamp NOT NULL,
+  "last_used_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "trusted_devices_token_hash_idx" ON "trusted_devices" ("token_hash");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "trusted_devices_user_idx" ON "trusted_devices" ("user_id");
+
+--> statement-breakpoint
+ALTER TABLE "tenant_settings" ADD COLUMN IF NOT EXISTS "require_two_factor" boolean DEFAULT false NOT NULL;
+
+--> statement-breakpoint
+ALTER TABLE "system_settings" ADD COLUMN IF NOT EXISTS "require_two_factor" boolean DEFAULT false;
@@ -0,0 +1,19 @@
+-- Per-tenant single sign-on: links IdP subjects to users (config lives in tenant_integrations)
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "user_sso_identities" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id") ON DELETE CASCADE,
+  "user_id" varchar NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "protocol" text NOT NULL,
+  "issuer" text NOT NULL,
+  "subject" text NOT NULL,
+  "last_login_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "user_sso_identities_issuer_subject_idx" ON "user_sso_identities" ("issuer", "subject");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "user_sso_identities_user_idx" ON "user_sso_identities" ("user_id");
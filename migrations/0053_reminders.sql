@@ -0,0 +1,25 @@
+-- Personal reminders (chat /remind, tasks, comments) fired by the background job queue
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "reminders" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id"),
+  "user_id" varchar NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "message" text NOT NULL,
+  "remind_at" timestamp NOT NULL,
+  "status" text DEFAULT 'pending' NOT NULL,
+  "source_type" text DEFAULT 'chat' NOT NULL,
+  "source_id" varchar,
+  "task_id" varchar REFERENCES "tasks"("id") ON DELETE SET NULL,
+  "scheduled_job_id" varchar,
+  "snooze_count" integer DEFAULT 0 NOT NULL,
+  "fired_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "reminders_tenant_user_status_idx" ON "reminders" ("tenant_id", "user_id", "status", "remind_at");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "reminders_task_idx" ON "reminders" ("task_id");
@@ -0,0 +1,43 @@
+-- Per-project workflow status sets; tasks.status stores the status key
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "workflow_status_sets" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id"),
+  "name" text NOT NULL,
+  "description" text,
+  "is_default" boolean DEFAULT false NOT NULL,
+  "created_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "workflow_status_sets_tenant_idx" ON "workflow_status_sets" ("tenant_id");
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "workflow_statuses" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id"),
+  "status_set_id" varchar NOT NULL REFERENCES "workflow_status_sets"("id") ON DELETE CASCADE,
+  "key" text NOT NULL,
+  "name" text NOT NULL,
+  "color" text DEFAULT '#6B7280' NOT NULL,
+  "category" text DEFAULT 'active' NOT NULL,
+  "order_index" integer DEFAULT 0 NOT NULL,
+  "required_fields" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "allowed_transitions" jsonb,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "workflow_statuses_set_key_unique" ON "workflow_statuses" ("status_set_id", "key");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "workflow_statuses_tenant_idx" ON "workflow_statuses" ("tenant_id");
+
+--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "workflow_status_set_id" varchar REFERENCES "workflow_status_sets"("id") ON DELETE SET NULL;
+
+--> statement-breakpoint
+ALTER TABLE "project_templates" ADD COLUMN IF NOT EXISTS "workflow_status_set_id" varchar REFERENCES "workflow_status_sets"("id") ON DELETE SET NULL;
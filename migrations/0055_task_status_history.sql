@@ -0,0 +1,27 @@
+-- Task status transitions and a real completion timestamp.
+-- Existing data is backfilled by server/scripts/backfillTaskStatusHistory.ts
+
+--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "completed_at" timestamp;
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "tasks_tenant_completed_idx" ON "tasks" ("tenant_id", "completed_at");
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "task_status_history" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id"),
+  "task_id" varchar NOT NULL REFERENCES "tasks"("id") ON DELETE CASCADE,
+  "from_status" text,
+  "to_status" text NOT NULL,
+  "to_category" text NOT NULL,
+  "changed_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "source" text DEFAULT 'user' NOT NULL,
+  "changed_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "task_status_history_task_idx" ON "task_status_history" ("task_id", "changed_at");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "task_status_history_tenant_idx" ON "task_status_history" ("tenant_id", "changed_at");
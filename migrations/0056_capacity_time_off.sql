@@ -0,0 +1,72 @@
+-- Per-user working hours, tenant holiday calendars and time-off requests.
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "holiday_calendars" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id"),
+  "name" text NOT NULL,
+  "is_default" boolean DEFAULT false NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "holiday_calendars_tenant_idx" ON "holiday_calendars" ("tenant_id");
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "holidays" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id"),
+  "calendar_id" varchar NOT NULL REFERENCES "holiday_calendars"("id") ON DELETE CASCADE,
+  "date" date NOT NULL,
+  "name" text NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "holidays_calendar_date_unique" ON "holidays" ("calendar_id", "date");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "holidays_tenant_date_idx" ON "holidays" ("tenant_id", "date");
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "user_capacity_profiles" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id"),
+  "user_id" varchar NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "timezone" text DEFAULT 'UTC' NOT NULL,
+  "weekday_minutes" jsonb NOT NULL,
+  "holiday_calendar_id" varchar REFERENCES "holiday_calendars"("id") ON DELETE SET NULL,
+  "effective_from" date NOT NULL,
+  "effective_to" date,
+  "created_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "user_capacity_profiles_user_from_unique" ON "user_capacity_profiles" ("tenant_id", "user_id", "effective_from");
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "time_off_requests" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id"),
+  "user_id" varchar NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "type" text DEFAULT 'vacation' NOT NULL,
+  "start_date" date NOT NULL,
+  "end_date" date NOT NULL,
+  "minutes_per_day" integer,
+  "note" text,
+  "status" text DEFAULT 'pending' NOT NULL,
+  "reviewed_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "reviewed_at" timestamp,
+  "review_comment" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "time_off_requests_tenant_user_idx" ON "time_off_requests" ("tenant_id", "user_id", "start_date");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "time_off_requests_tenant_status_idx" ON "time_off_requests" ("tenant_id", "status");
@@ -0,0 +1,4 @@
+-- Records which email transport driver handled each outbox message.
+
+--> statement-breakpoint
+ALTER TABLE "email_outbox" ADD COLUMN IF NOT EXISTS "transport" text;
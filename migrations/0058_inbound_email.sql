@@ -0,0 +1,67 @@
+-- Inbound email: per-tenant mailboxes, reply tokens and the received-mail log (tickets, conversations, task comments)
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "inbound_mailboxes" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id") ON DELETE CASCADE,
+  "mailbox_key" text NOT NULL,
+  "enabled" boolean DEFAULT false NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "inbound_mailboxes_tenant_unique" ON "inbound_mailboxes" ("tenant_id");
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "inbound_mailboxes_key_unique" ON "inbound_mailboxes" ("mailbox_key");
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "inbound_reply_tokens" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id") ON DELETE CASCADE,
+  "token" text NOT NULL,
+  "target_type" text NOT NULL,
+  "target_id" varchar NOT NULL,
+  "last_used_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "inbound_reply_tokens_token_unique" ON "inbound_reply_tokens" ("token");
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "inbound_reply_tokens_target_unique" ON "inbound_reply_tokens" ("tenant_id", "target_type", "target_id");
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "inbound_emails" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id") ON DELETE CASCADE,
+  "message_id" text NOT NULL,
+  "from_email" text NOT NULL,
+  "from_name" text,
+  "recipient" text NOT NULL,
+  "subject" text DEFAULT '' NOT NULL,
+  "body_text" text DEFAULT '' NOT NULL,
+  "attachments" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "status" text NOT NULL,
+  "quarantine_reason" text,
+  "error" text,
+  "target_type" text,
+  "target_id" varchar,
+  "client_id" varchar REFERENCES "clients"("id") ON DELETE SET NULL,
+  "sender_user_id" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "sender_contact_id" varchar REFERENCES "client_contacts"("id") ON DELETE SET NULL,
+  "reviewed_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "reviewed_at" timestamp,
+  "received_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "inbound_emails_message_unique" ON "inbound_emails" ("tenant_id", "message_id");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "inbound_emails_tenant_status_idx" ON "inbound_emails" ("tenant_id", "status", "received_at");
+
+--> statement-breakpoint
+ALTER TABLE "support_ticket_messages" ADD COLUMN IF NOT EXISTS "author_email" text;
@@ -0,0 +1,89 @@
+-- Full-text search: plain-text extraction for rich-text bodies and GIN indexes on the
+-- search vectors of every searchable entity. The expressions must match the ones in
+-- server/features/search/search.repo.ts exactly or the planner will not use the indexes.
+
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION search_plain_text(doc jsonb) RETURNS text
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+  SELECT coalesce(string_agg(node #>> '{}', ' '), '')
+  FROM jsonb_path_query(doc, 'strict $.**.text ? (@.type() == "string")', '{}', true) AS node
+$$;
+
+--> statement-breakpoint
+-- Text columns hold TipTap JSON, HTML or plain text depending on the editor that wrote them
+CREATE OR REPLACE FUNCTION search_plain_text(body text) RETURNS text
+LANGUAGE plpgsql IMMUTABLE AS $$
+BEGIN
+  IF body IS NULL THEN
+    RETURN '';
+  END IF;
+  IF body ~ '^\s*\{' THEN
+    BEGIN
+      RETURN search_plain_text(body::jsonb);
+    EXCEPTION WHEN others THEN
+      RETURN body;
+    END;
+  END IF;
+  RETURN regexp_replace(body, '<[^>]+>', ' ', 'g');
+END
+$$;
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "clients_search_idx" ON "clients" USING gin (
+  (setweight(to_tsvector('english', coalesce("company_name", '')), 'A') || setweight(to_tsvector('english', coalesce("display_name", '')), 'B'))
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "projects_search_idx" ON "projects" USING gin (
+  (setweight(to_tsvector('english', coalesce("name", '')), 'A') || setweight(to_tsvector('english', search_plain_text("description")), 'B'))
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "tasks_search_idx" ON "tasks" USING gin (
+  (setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', search_plain_text("description")), 'B'))
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "comments_search_idx" ON "comments" USING gin (
+  (to_tsvector('english', search_plain_text("body")))
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "client_notes_search_idx" ON "client_notes" USING gin (
+  (to_tsvector('english', search_plain_text("body")))
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "project_notes_search_idx" ON "project_notes" USING gin (
+  (to_tsvector('english', search_plain_text("body")))
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "support_tickets_search_idx" ON "support_tickets" USING gin (
+  (setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', search_plain_text("description")), 'B'))
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "support_ticket_messages_search_idx" ON "support_ticket_messages" USING gin (
+  (to_tsvector('english', "body_text"))
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "client_conversations_search_idx" ON "client_conversations" USING gin (
+  (to_tsvector('english', "subject"))
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "client_messages_search_idx" ON "client_messages" USING gin (
+  (to_tsvector('english', "body_text"))
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "chat_messages_search_idx" ON "chat_messages" USING gin (
+  (to_tsvector('english', search_plain_text("body")))
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "assets_search_idx" ON "assets" USING gin (
+  (setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("description", '')), 'B'))
+);
@@ -0,0 +1,23 @@
+-- Saved views: named task filters (AND/OR groups) with layout, sort and grouping, personal or shared with a team
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "saved_views" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id") ON DELETE CASCADE,
+  "owner_user_id" varchar NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "name" text NOT NULL,
+  "visibility" text DEFAULT 'personal' NOT NULL,
+  "team_id" varchar REFERENCES "teams"("id") ON DELETE CASCADE,
+  "filter" jsonb NOT NULL,
+  "sort" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "group_by" text DEFAULT 'none' NOT NULL,
+  "layout" text DEFAULT 'list' NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "saved_views_tenant_owner_idx" ON "saved_views" ("tenant_id", "owner_user_id");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "saved_views_team_idx" ON "saved_views" ("team_id");
@@ -0,0 +1,21 @@
+-- Shared realtime state for running several instances: rate-limit counters and oversized cluster bus messages
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "rate_limit_counters" (
+  "key" text PRIMARY KEY NOT NULL,
+  "hits" integer NOT NULL,
+  "reset_at" timestamp NOT NULL
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "rate_limit_counters_reset_idx" ON "rate_limit_counters" ("reset_at");
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "realtime_cluster_payloads" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "payload" text NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "realtime_cluster_payloads_created_idx" ON "realtime_cluster_payloads" ("created_at");
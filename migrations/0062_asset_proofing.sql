@@ -0,0 +1,54 @@
+-- Asset proofing: version stack per asset, pinned review comments, approval requests tied to a version
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "asset_versions" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id") ON DELETE CASCADE,
+  "asset_id" varchar NOT NULL REFERENCES "assets"("id") ON DELETE CASCADE,
+  "version_number" integer NOT NULL,
+  "r2_key" text NOT NULL,
+  "mime_type" text NOT NULL,
+  "size_bytes" integer NOT NULL,
+  "checksum" text,
+  "note" text,
+  "status" text DEFAULT 'draft' NOT NULL,
+  "uploaded_by_user_id" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "asset_versions_asset_number_idx" ON "asset_versions" ("asset_id", "version_number");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "asset_versions_tenant_idx" ON "asset_versions" ("tenant_id");
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "proof_comments" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id") ON DELETE CASCADE,
+  "asset_id" varchar NOT NULL REFERENCES "assets"("id") ON DELETE CASCADE,
+  "version_id" varchar NOT NULL REFERENCES "asset_versions"("id") ON DELETE CASCADE,
+  "parent_comment_id" varchar,
+  "author_user_id" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "body" text NOT NULL,
+  "pin" jsonb,
+  "resolved_at" timestamp,
+  "resolved_by_user_id" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "proof_comments_version_created_idx" ON "proof_comments" ("version_id", "created_at");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "proof_comments_parent_idx" ON "proof_comments" ("parent_comment_id");
+
+--> statement-breakpoint
+ALTER TABLE "approval_requests" ADD COLUMN IF NOT EXISTS "asset_id" varchar REFERENCES "assets"("id") ON DELETE SET NULL;
+
+--> statement-breakpoint
+ALTER TABLE "approval_requests" ADD COLUMN IF NOT EXISTS "asset_version_id" varchar REFERENCES "asset_versions"("id") ON DELETE SET NULL;
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "approval_requests_asset_idx" ON "approval_requests" ("asset_id");
@@ -0,0 +1,19 @@
+-- AI usage metering: one row per model call, summed per tenant, feature and model
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "ai_usage_events" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar REFERENCES "tenants"("id") ON DELETE CASCADE,
+  "user_id" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "feature" text NOT NULL,
+  "driver" text NOT NULL,
+  "model" text NOT NULL,
+  "source" text NOT NULL,
+  "input_tokens" integer DEFAULT 0 NOT NULL,
+  "output_tokens" integer DEFAULT 0 NOT NULL,
+  "succeeded" boolean DEFAULT true NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ai_usage_events_tenant_created_idx" ON "ai_usage_events" ("tenant_id", "created_at");
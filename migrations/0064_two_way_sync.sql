@@ -0,0 +1,47 @@
+-- Two-way task sync: one connection per tenant and provider, plus a run log for the status dashboard
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "sync_connections" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id") ON DELETE CASCADE,
+  "provider" text NOT NULL,
+  "direction" text DEFAULT 'both' NOT NULL,
+  "remote_project_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "field_rules" jsonb DEFAULT '{}'::jsonb NOT NULL,
+  "poll_interval_minutes" integer DEFAULT 15 NOT NULL,
+  "is_enabled" boolean DEFAULT true NOT NULL,
+  "cursor" jsonb DEFAULT '{}'::jsonb NOT NULL,
+  "scheduled_job_id" varchar,
+  "next_run_at" timestamp,
+  "last_run_at" timestamp,
+  "last_success_at" timestamp,
+  "last_error" text,
+  "created_by" varchar NOT NULL REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "sync_connections_tenant_provider_idx" ON "sync_connections" ("tenant_id", "provider");
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "sync_runs" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id") ON DELETE CASCADE,
+  "connection_id" varchar NOT NULL REFERENCES "sync_connections"("id") ON DELETE CASCADE,
+  "trigger" text NOT NULL,
+  "status" text DEFAULT 'running' NOT NULL,
+  "created_count" integer DEFAULT 0 NOT NULL,
+  "pulled_count" integer DEFAULT 0 NOT NULL,
+  "pushed_count" integer DEFAULT 0 NOT NULL,
+  "conflict_count" integer DEFAULT 0 NOT NULL,
+  "error_count" integer DEFAULT 0 NOT NULL,
+  "conflicts" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "errors" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "error" text,
+  "started_at" timestamp DEFAULT now() NOT NULL,
+  "finished_at" timestamp
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sync_runs_connection_started_idx" ON "sync_runs" ("connection_id", "started_at");
@@ -0,0 +1,19 @@
+-- Retention engine: restore window for staged purges, and per-client legal holds that block purging
+
+--> statement-breakpoint
+ALTER TABLE "data_retention_policies" ADD COLUMN IF NOT EXISTS "restore_window_days" integer DEFAULT 30 NOT NULL;
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "retention_legal_holds" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id") ON DELETE CASCADE,
+  "client_id" varchar NOT NULL REFERENCES "clients"("id") ON DELETE CASCADE,
+  "reason" text NOT NULL,
+  "placed_by_user_id" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "placed_at" timestamp DEFAULT now() NOT NULL,
+  "released_at" timestamp,
+  "released_by_user_id" varchar REFERENCES "users"("id") ON DELETE SET NULL
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "retention_legal_holds_tenant_client_idx" ON "retention_legal_holds" ("tenant_id", "client_id");
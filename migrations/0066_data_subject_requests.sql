@@ -0,0 +1,47 @@
+-- Data subject requests: privacy export and erasure with an approval step and an audit trail
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "data_subject_requests" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id") ON DELETE CASCADE,
+  "type" text NOT NULL,
+  "subject_type" text NOT NULL,
+  "subject_user_id" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "subject_contact_id" varchar REFERENCES "client_contacts"("id") ON DELETE SET NULL,
+  "subject_label" text NOT NULL,
+  "reason" text NOT NULL,
+  "status" text DEFAULT 'pending_approval' NOT NULL,
+  "requested_by_user_id" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "decided_by_user_id" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "decided_at" timestamp,
+  "decision_note" text,
+  "job_id" varchar,
+  "summary" jsonb,
+  "archive_key" text,
+  "archive_size_bytes" integer,
+  "error" text,
+  "completed_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "data_subject_requests_tenant_created_idx" ON "data_subject_requests" ("tenant_id", "created_at");
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "data_subject_requests_status_idx" ON "data_subject_requests" ("status");
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "data_subject_request_events" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id") ON DELETE CASCADE,
+  "request_id" varchar NOT NULL REFERENCES "data_subject_requests"("id") ON DELETE CASCADE,
+  "actor_user_id" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "event_type" text NOT NULL,
+  "message" text NOT NULL,
+  "metadata" jsonb,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "data_subject_request_events_request_idx" ON "data_subject_request_events" ("request_id", "created_at");
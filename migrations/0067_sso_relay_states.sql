@@ -0,0 +1,12 @@
+-- Single-use SAML RelayState nonces
+
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "sso_relay_states" (
+  "nonce" varchar PRIMARY KEY NOT NULL,
+  "tenant_id" varchar NOT NULL REFERENCES "tenants"("id") ON DELETE CASCADE,
+  "expires_at" timestamp NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sso_relay_states_expires_idx" ON "sso_relay_states" ("expires_at");
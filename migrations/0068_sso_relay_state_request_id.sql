@@ -0,0 +1,8 @@
+-- Bind each SAML RelayState to the AuthnRequest it was issued with.
+-- Rows written before this recorded consumed nonces, not started logins, so they are dropped.
+
+--> statement-breakpoint
+DELETE FROM "sso_relay_states";
+
+--> statement-breakpoint
+ALTER TABLE "sso_relay_states" ADD COLUMN IF NOT EXISTS "request_id" varchar NOT NULL;
@@ -1,5 +1,5 @@
-import OpenAI from "openai";
-import { getAIProvider } from "../../services/ai/getAIProvider";
+import { getAIProviderOrThrow, type AIProviderResult } from "../../services/ai/getAIProvider";
+import { completeAIJson } from "../../services/ai/completeAI";
 import type { EmployeeSummaryPayload } from "./buildEmployeeSummaryPayload";
 
 export const SUMMARY_VERSION = "1.0";
@@ -63,37 +63,26 @@ function redactCheck(text: string): boolean {
 }
 
 export async function generateEmployeeSummary(
-  tenantId: string,
+  ctx: { tenantId: string; userId?: string | null; provider?: AIProviderResult },
   payload: EmployeeSummaryPayload,
   enableRedaction: boolean
 ): Promise<GeneratedSummary> {
-  const providerResult = await getAIProvider(tenantId);
-  if (!providerResult) {
-    throw new Error("AI is not configured for this tenant. Contact your administrator.");
-  }
-
-  const { config } = providerResult;
-  const client = new OpenAI({ apiKey: config.apiKey });
+  const provider = ctx.provider ?? await getAIProviderOrThrow(ctx.tenantId);
 
   async function callModel(systemPrompt: string): Promise<GeneratedSummary> {
-    const response = await client.chat.completions.create({
-      model: config.model,
+    const { data: parsed } = await completeAIJson<GeneratedSummary>({
+      tenantId: ctx.tenantId,
+      userId: ctx.userId,
+      provider,
+      feature: "employee_summary",
       messages: [
         { role: "system", content: systemPrompt },
         { role: "user", content: buildUserPrompt(payload) },
       ],
-      max_tokens: Math.min(config.maxTokens, 1200),
+      maxTokens: Math.min(provider.config.maxTokens, 1200),
       temperature: 0.4,
-      response_format: { type: "json_object" },
     });
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("AI returned an empty response.");
-    }
-
-    const parsed = JSON.parse(content) as GeneratedSummary;
-
     if (!parsed.headline || !Array.isArray(parsed.wins)) {
       throw new Error("AI response did not match expected schema.");
     }
@@ -9,6 +9,7 @@ import {
 } from "../reports/forecasting/snapshotService";
 import { storage } from "../storage";
 import { emailOutboxService } from "../services/emailOutbox";
+import { taskIsOpen } from "../reports/taskStatusSql";
 
 
 async function dbRows<T extends Record<string, unknown>>(
@@ -203,9 +204,10 @@ async function evaluateRule(rule: AlertRuleRow, now: Date): Promise<void> {
     case "employee_underutilized": {
       const result = await computeCapacityOverload(rule.tenantId, horizonWks);
       for (const user of result.users) {
-        const avgUtilization = user.weeks.length > 0
-          ? user.weeks.reduce((s, w) => s + w.predictedUtilizationPct, 0) / user.weeks.length
-          : 0;
+        // Weeks the user is entirely off say nothing about utilization
+        const workingWeeks = user.weeks.filter((w) => w.availableHours > 0);
+        if (workingWeeks.length === 0) continue;
+        const avgUtilization = workingWeeks.reduce((s, w) => s + w.predictedUtilizationPct, 0) / workingWeeks.length;
         if (avgUtilization >= 50) continue;
         const name = [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email;
         const eventKey = `${rule.id}:${user.userId}:${weekStart}`;
@@ -249,7 +251,7 @@ async function evaluateRule(rule: AlertRuleRow, now: Date): Promise<void> {
           u.first_name,
           u.last_name,
           u.email,
-          COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') THEN t.id END) AS active_tasks,
+          COUNT(DISTINCT CASE WHEN ${taskIsOpen()} THEN t.id END) AS active_tasks,
           COALESCE(SUM(te.duration_seconds) / 3600.0, 0) AS hours_logged
         FROM users u
         LEFT JOIN task_assignees ta ON ta.user_id = u.id AND ta.tenant_id = ${rule.tenantId}
@@ -261,7 +263,7 @@ async function evaluateRule(rule: AlertRuleRow, now: Date): Promise<void> {
         WHERE u.tenant_id = ${rule.tenantId}
           AND u.role IN ('admin', 'employee')
         GROUP BY u.id, u.first_name, u.last_name, u.email
-        HAVING COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') THEN t.id END) >= 3
+        HAVING COUNT(DISTINCT CASE WHEN ${taskIsOpen()} THEN t.id END) >= 3
           AND COALESCE(SUM(te.duration_seconds) / 3600.0, 0) < 1
       `);
       for (const row of complianceRows) {
@@ -24,7 +24,7 @@ import { users, UserRole, platformInvitations, platformAuditEvents, invitations,
 import { eq, sql, and, desc } from "drizzle-orm";
 import { createHash } from "crypto";
 import type { User } from "@shared/schema";
-import type { Express, RequestHandler } from "express";
+import type { Express, Request, RequestHandler, Response } from "express";
 import connectPgSimple from "connect-pg-simple";
 import { Pool } from "pg";
 import { 
@@ -34,6 +34,9 @@ import {
   forgotPasswordRateLimiter,
   userCreateRateLimiter 
 } from "./middleware/rateLimit";
+import { twoFactorService, TRUSTED_DEVICE_COOKIE } from "./features/twoFactor/twoFactor.service";
+import { getSessionTwoFactorGate } from "./middleware/twoFactorEnforcement";
+import { ssoService } from "./features/sso/sso.service";
 
 const scryptAsync = promisify(scrypt);
 
@@ -59,9 +62,88 @@ declare global {
 declare module "express-session" {
   interface SessionData {
     workspaceId?: string;
+    /** Password accepted, waiting for a 2FA code; the user is not logged in yet. */
+    pendingTwoFactor?: { userId: string; issuedAt: number; gate: "enroll" | "verify" };
+    /** Set once this session has passed two-factor authentication. */
+    twoFactorVerifiedAt?: string;
+    /** Last time the 2FA guard found nothing required (see twoFactorEnforcement). */
+    twoFactorCheckedAt?: number;
+    /** OIDC state, nonce and PKCE verifier while the user is at the identity provider. */
+    ssoPending?: import("./features/sso/sso.service").SsoPendingLogin;
   }
 }
 
+/** Reads one cookie from the raw header; the app has no cookie-parser. */
+export function readCookie(req: Request, name: string): string | null {
+  const header = req.headers.cookie;
+  if (!header) return null;
+  for (const part of header.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(rest.join("="));
+  }
+  return null;
+}
+
+/**
+ * Logs `user` in and resolves their default workspace. Shared by password login, the 2FA
+ * challenge that completes it and SSO callbacks (which pass `redirectTo` and get a redirect,
+ * or /login?error=, instead of JSON). Session fields are set after logIn, which regenerates
+ * the session.
+ */
+export function completeLogin(
+  req: Request,
+  res: Response,
+  user: Express.User,
+  options: { twoFactorVerified: boolean; extra?: Record<string, unknown>; redirectTo?: string },
+): void {
+  const fail = (status: number, error: string) => options.redirectTo
+    ? res.redirect(`/login?error=${encodeURIComponent(error)}`)
+    : res.status(status).json({ error });
+
+  req.logIn(user, async (loginErr) => {
+    if (loginErr) {
+      return fail(500, "Login failed");
+    }
+
+    try {
+      // Super users don't need workspace access - they manage the platform
+      const isSuperUser = user.role === UserRole.SUPER_USER;
+
+      let workspaceId: string | undefined = undefined;
+      if (!isSuperUser) {
+        const workspaces = await storage.getWorkspacesByUser(user.id);
+        workspaceId = workspaces.length > 0 ? workspaces[0].id : undefined;
+
+        if (!workspaceId) {
+          req.logout(() => {});
+          return fail(403, "No workspace access. Please contact your administrator.");
+        }
+      } else {
+        // Super users can optionally have a workspace from impersonation
+        const workspaces = await storage.getWorkspacesByUser(user.id);
+        workspaceId = workspaces.length > 0 ? workspaces[0].id : undefined;
+      }
+
+      req.session.workspaceId = workspaceId;
+      if (options.twoFactorVerified) {
+        req.session.twoFactorVerifiedAt = new Date().toISOString();
+      }
+
+      req.session.save((saveErr) => {
+        if (saveErr) {
+          console.error("Session save error:", saveErr);
+        }
+        if (options.redirectTo) return res.redirect(options.redirectTo);
+        return res.json({ ...options.extra, user, workspaceId });
+      });
+    } catch (workspaceErr) {
+      console.error("Workspace lookup error:", workspaceErr);
+      req.logout(() => {});
+      return fail(500, "Failed to resolve workspace");
+    }
+  });
+}
+
 // Singleton session middleware for reuse in Socket.IO
 let sessionMiddlewareInstance: ReturnType<typeof session> | null = null;
 
@@ -144,6 +226,9 @@ export function setupAuth(app: Express): void {
           if (!isValid) {
             return done(null, false, { message: "Invalid email or password" });
           }
+          if (await ssoService.isPasswordLoginBlocked(user)) {
+            return done(null, false, { message: "Your organization signs in with single sign-on. Use \"Continue with SSO\" instead." });
+          }
           const { passwordHash, ...userWithoutPassword } = user;
           return done(null, userWithoutPassword);
         } catch (error) {
@@ -178,46 +263,18 @@ export function setupAuth(app: Express): void {
       if (!user) {
         return res.status(401).json({ error: info?.message || "Invalid credentials" });
       }
-      req.logIn(user, async (loginErr) => {
-        if (loginErr) {
-          return res.status(500).json({ error: "Login failed" });
-        }
-        
-        try {
-          // Super users don't need workspace access - they manage the platform
-          const isSuperUser = user.role === UserRole.SUPER_USER;
-          
-          let workspaceId: string | undefined = undefined;
-          if (!isSuperUser) {
-            const workspaces = await storage.getWorkspacesByUser(user.id);
-            workspaceId = workspaces.length > 0 ? workspaces[0].id : undefined;
-            
-            if (!workspaceId) {
-              req.logout(() => {});
-              return res.status(403).json({ 
-                error: "No workspace access. Please contact your administrator." 
-              });
-            }
-          } else {
-            // Super users can optionally have a workspace from impersonation
-            const workspaces = await storage.getWorkspacesByUser(user.id);
-            workspaceId = workspaces.length > 0 ? workspaces[0].id : undefined;
-          }
-          
-          req.session.workspaceId = workspaceId;
-          
-          req.session.save((saveErr) => {
-            if (saveErr) {
-              console.error("Session save error:", saveErr);
-            }
-            return res.json({ user, workspaceId });
-          });
-        } catch (workspaceErr) {
-          console.error("Workspace lookup error:", workspaceErr);
-          req.logout(() => {});
-          return res.status(500).json({ error: "Failed to resolve workspace" });
+      try {
+        const gate = await twoFactorService.getGate(user, readCookie(req, TRUSTED_DEVICE_COOKIE));
+        if (gate) {
+          req.session.pendingTwoFactor = { userId: user.id, issuedAt: Date.now(), gate };
+          return req.session.save(() => res.json({ twoFactorRequired: true, gate }));
         }
-      });
+        const hasTwoFactor = await twoFactorService.isEnabled(user.id);
+        completeLogin(req, res, user, { twoFactorVerified: hasTwoFactor });
+      } catch (twoFactorErr) {
+        console.error("Two-factor check error:", twoFactorErr);
+        return res.status(500).json({ error: "Authentication error" });
+      }
     })(req, res, next);
   });
 
@@ -243,7 +300,7 @@ export function setupAuth(app: Express): void {
     });
   });
 
-  app.get("/api/auth/me", (req, res) => {
+  app.get("/api/auth/me", async (req, res) => {
     // Prevent caching to ensure fresh user data (especially for avatar updates)
     res.set('Cache-Control', 'no-store, no-cache, must-revalidate, private');
     res.set('Pragma', 'no-cache');
@@ -292,11 +349,20 @@ export function setupAuth(app: Express): void {
       startedAt: session.impersonationStartedAt,
     } : null;
     
+    let twoFactorGate = null;
+    try {
+      twoFactorGate = await getSessionTwoFactorGate(req);
+    } catch (gateErr) {
+      console.error("Two-factor gate lookup error:", gateErr);
+      twoFactorGate = "verify";
+    }
+    
     res.json({ 
       user: req.user, 
       workspaceId: req.session.workspaceId,
       tenantId: user?.tenantId || null,
       impersonation,
+      twoFactorGate,
     });
   });
 
@@ -0,0 +1,78 @@
+import { eq, and, desc, isNull, or, lt } from "drizzle-orm";
+import { db } from "../../db";
+import { apiTokens, users, type ApiToken, type PublicApiToken, type User } from "@shared/schema";
+
+/** Avoids a write on every request: last-used is refreshed at most once per interval. */
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+const publicColumns = {
+  id: apiTokens.id,
+  tenantId: apiTokens.tenantId,
+  userId: apiTokens.userId,
+  name: apiTokens.name,
+  tokenPrefix: apiTokens.tokenPrefix,
+  scopes: apiTokens.scopes,
+  expiresAt: apiTokens.expiresAt,
+  lastUsedAt: apiTokens.lastUsedAt,
+  lastUsedIp: apiTokens.lastUsedIp,
+  revokedAt: apiTokens.revokedAt,
+  createdAt: apiTokens.createdAt,
+};
+
+export type ApiTokenWithUser = PublicApiToken & { userName: string; userEmail: string };
+
+export const apiTokenRepo = {
+  async getById(id: string, tenantId: string): Promise<PublicApiToken | undefined> {
+    const [row] = await db
+      .select(publicColumns)
+      .from(apiTokens)
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.tenantId, tenantId)));
+    return row;
+  },
+
+  /** The token and its owner for a presented secret, regardless of expiry or revocation. */
+  async findByHash(tokenHash: string): Promise<{ token: ApiToken; user: User } | undefined> {
+    const [row] = await db
+      .select({ token: apiTokens, user: users })
+      .from(apiTokens)
+      .innerJoin(users, eq(users.id, apiTokens.userId))
+      .where(eq(apiTokens.tokenHash, tokenHash));
+    return row;
+  },
+
+  async list(tenantId: string, userId?: string): Promise<ApiTokenWithUser[]> {
+    const conditions = [eq(apiTokens.tenantId, tenantId)];
+    if (userId) conditions.push(eq(apiTokens.userId, userId));
+    return db
+      .select({ ...publicColumns, userName: users.name, userEmail: users.email })
+      .from(apiTokens)
+      .innerJoin(users, eq(users.id, apiTokens.userId))
+      .where(and(...conditions))
+      .orderBy(desc(apiTokens.createdAt));
+  },
+
+  async create(values: typeof apiTokens.$inferInsert): Promise<PublicApiToken> {
+    const [row] = await db.insert(apiTokens).values(values).returning(publicColumns);
+    return row;
+  },
+
+  async revoke(id: string, tenantId: string): Promise<PublicApiToken | undefined> {
+    const [row] = await db
+      .update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.tenantId, tenantId), isNull(apiTokens.revokedAt)))
+      .returning(publicColumns);
+    return row;
+  },
+
+  async touchLastUsed(id: string, ip: string | null, now: Date = new Date()): Promise<void> {
+    const staleBefore = new Date(now.getTime() - LAST_USED_RESOLUTION_MS);
+    await db
+      .update(apiTokens)
+      .set({ lastUsedAt: now, lastUsedIp: ip })
+      .where(and(
+        eq(apiTokens.id, id),
+        or(isNull(apiTokens.lastUsedAt), lt(apiTokens.lastUsedAt, staleBefore)),
+      ));
+  },
+};
@@ -0,0 +1,88 @@
+import { AppError } from "../../lib/errors";
+import { UserRole, type ApiToken, type PublicApiToken } from "@shared/schema";
+import { apiTokenRepo, type ApiTokenWithUser } from "./apiToken.repo";
+import { generateApiTokenSecret, hashApiToken } from "./apiTokenSecrets";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CreateApiTokenInput {
+  name: string;
+  scopes: string[];
+  expiresInDays?: number | null;
+}
+
+export interface ApiTokenActor {
+  id: string;
+  tenantId: string | null;
+  role: string;
+}
+
+/** Express.User plus the token it was authenticated with. */
+export interface AuthenticatedApiToken {
+  user: Express.User;
+  token: ApiToken;
+}
+
+function isTenantAdmin(actor: ApiTokenActor): boolean {
+  return actor.role === UserRole.ADMIN || actor.role === UserRole.SUPER_USER;
+}
+
+export const apiTokenService = {
+  /** The actor's own tokens; tenant admins may pass `allUsers` to audit everyone's. */
+  list(tenantId: string, actor: ApiTokenActor, allUsers = false): Promise<ApiTokenWithUser[]> {
+    if (allUsers && !isTenantAdmin(actor)) throw AppError.forbidden("Admin access required");
+    return apiTokenRepo.list(tenantId, allUsers ? undefined : actor.id);
+  },
+
+  /** Creates a token for the actor. The plaintext secret is returned here and never again. */
+  async create(
+    tenantId: string,
+    actor: ApiTokenActor,
+    input: CreateApiTokenInput,
+  ): Promise<{ token: string; apiToken: PublicApiToken }> {
+    if (actor.role === UserRole.CLIENT) throw AppError.forbidden("Client portal users cannot create API tokens");
+    if (actor.tenantId !== tenantId) throw AppError.forbidden("API tokens can only be created in your own tenant");
+
+    const { token, tokenPrefix, tokenHash } = generateApiTokenSecret();
+    const apiToken = await apiTokenRepo.create({
+      tenantId,
+      userId: actor.id,
+      name: input.name,
+      tokenPrefix,
+      tokenHash,
+      scopes: Array.from(new Set(input.scopes)),
+      expiresAt: input.expiresInDays ? new Date(Date.now() + input.expiresInDays * DAY_MS) : null,
+    });
+    return { token, apiToken };
+  },
+
+  /** Revokes one of the actor's tokens, or any tenant token for admins. */
+  async revoke(tenantId: string, id: string, actor: ApiTokenActor): Promise<PublicApiToken> {
+    const existing = await apiTokenRepo.getById(id, tenantId);
+    if (!existing) throw AppError.notFound("API token");
+    if (existing.userId !== actor.id && !isTenantAdmin(actor)) {
+      throw AppError.forbidden("You can only revoke your own API tokens");
+    }
+    if (existing.revokedAt) return existing;
+    const revoked = await apiTokenRepo.revoke(id, tenantId);
+    return revoked ?? existing;
+  },
+
+  /**
+   * Resolves a presented bearer secret to its active owner. Unknown, revoked and expired tokens,
+   * inactive users and users who have left the token's tenant are all rejected the same way.
+   */
+  async authenticate(secret: string, ip: string | null, now: Date = new Date()): Promise<AuthenticatedApiToken> {
+    const found = await apiTokenRepo.findByHash(hashApiToken(secret));
+    const invalid = AppError.unauthorized("Invalid or expired API token");
+    if (!found) throw invalid;
+
+    const { token, user } = found;
+    if (token.revokedAt || (token.expiresAt && token.expiresAt <= now)) throw invalid;
+    if (!user.isActive || user.tenantId !== token.tenantId) throw invalid;
+
+    await apiTokenRepo.touchLastUsed(token.id, ip, now);
+    const { passwordHash: _passwordHash, ...sessionUser } = user;
+    return { user: sessionUser, token };
+  },
+};
@@ -0,0 +1,37 @@
+import { createHash, randomBytes } from "crypto";
+
+/** Every token starts with this so leaked secrets are recognizable (and scannable). */
+export const API_TOKEN_PREFIX = "mwd_";
+
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 8;
+
+export function generateApiTokenSecret(): { token: string; tokenPrefix: string; tokenHash: string } {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { token, tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH), tokenHash: hashApiToken(token) };
+}
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** Extracts a personal API token from `Authorization: Bearer …`, or null if there is none. */
+export function readBearerToken(header: string | undefined): string | null {
+  if (!header) return null;
+  const match = /^Bearer\s+(\S+)$/i.exec(header.trim());
+  if (!match || !match[1].startsWith(API_TOKEN_PREFIX)) return null;
+  return match[1];
+}
+
+/** The scope needed to call `method` on a resource: reads need `read:`, everything else `write:`. */
+export function requiredScope(method: string, resource: string): string {
+  const upper = method.toUpperCase();
+  const access = upper === "GET" || upper === "HEAD" || upper === "OPTIONS" ? "read" : "write";
+  return `${access}:${resource}`;
+}
+
+/** `write:<resource>` implies `read:<resource>`. */
+export function hasScope(granted: readonly string[], required: string): boolean {
+  if (granted.includes(required)) return true;
+  const [access, resource] = required.split(":");
+  return access === "read" && granted.includes(`write:${resource}`);
+}
@@ -5,6 +5,8 @@ import {
   type ClientStageAutomationRule,
   type AutomationTriggerTypeValue,
 } from "@shared/schema";
+import { WEBHOOK_EVENTS } from "@shared/events";
+import { publishWebhookEvent } from "../webhooks/webhook.service";
 
 export interface AutomationEvent {
   tenantId: string;
@@ -183,6 +185,14 @@ export async function evaluateAutomation(
 
         result.outcome = "applied";
         result.reason = `Stage changed from ${currentStage} to ${rule.toStage}`;
+        publishWebhookEvent(event.tenantId, WEBHOOK_EVENTS.CLIENT_STAGE_CHANGED, {
+          clientId: event.clientId,
+          fromStage: currentStage,
+          toStage: rule.toStage,
+          changedByUserId: event.userId,
+          source: "automation",
+          ruleId: rule.id,
+        });
       } catch (err: any) {
         result.outcome = "failed";
         result.reason = err.message || "Failed to update stage";
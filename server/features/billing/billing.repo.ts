@@ -0,0 +1,225 @@
+import { eq, and, or, asc, desc, gte, lt, gt, isNull, inArray, sql } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  billingRates,
+  invoices,
+  invoiceLines,
+  timeEntries,
+  projects,
+  tasks,
+  users,
+  TimeEntryScope,
+  InvoiceStatus,
+  type BillingRate,
+  type InsertBillingRate,
+  type Invoice,
+  type InvoiceLine,
+} from "@shared/schema";
+import { AppError } from "../../lib/errors";
+import type { BillableEntry, BuiltInvoiceLine } from "./invoiceBuilder";
+
+export type BillingRateUpdate = Partial<Pick<BillingRate, "rateCents" | "currency" | "effectiveFrom" | "effectiveTo">>;
+export type InvoiceUpdate = Partial<Pick<Invoice, "status" | "notes" | "dueDate" | "issuedAt" | "paidAt" | "voidedAt">>;
+export type NewInvoice = Omit<Invoice, "id" | "createdAt" | "updatedAt" | "issuedAt" | "paidAt" | "voidedAt">;
+
+export const billingRepo = {
+  async listRates(tenantId: string) {
+    return db
+      .select()
+      .from(billingRates)
+      .where(eq(billingRates.tenantId, tenantId))
+      .orderBy(asc(billingRates.clientId), asc(billingRates.projectId), asc(billingRates.userId), desc(billingRates.effectiveFrom));
+  },
+
+  async getRate(id: string, tenantId: string): Promise<BillingRate | undefined> {
+    const [row] = await db
+      .select()
+      .from(billingRates)
+      .where(and(eq(billingRates.id, id), eq(billingRates.tenantId, tenantId)));
+    return row;
+  },
+
+  async createRate(data: InsertBillingRate): Promise<BillingRate> {
+    const [row] = await db.insert(billingRates).values(data).returning();
+    return row;
+  },
+
+  async updateRate(id: string, tenantId: string, updates: BillingRateUpdate): Promise<BillingRate | undefined> {
+    const [row] = await db
+      .update(billingRates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(billingRates.id, id), eq(billingRates.tenantId, tenantId)))
+      .returning();
+    return row;
+  },
+
+  async deleteRate(id: string, tenantId: string) {
+    await db.delete(billingRates).where(and(eq(billingRates.id, id), eq(billingRates.tenantId, tenantId)));
+  },
+
+  /**
+   * Uninvoiced, out-of-scope (billable) entries for a client in [from, to). Entries count for the
+   * client when they name it directly or belong to one of its projects.
+   */
+  async listBillableEntries(tenantId: string, clientId: string, from: Date, to: Date): Promise<BillableEntry[]> {
+    const rows = await db
+      .select({
+        id: timeEntries.id,
+        userId: timeEntries.userId,
+        userRole: users.role,
+        userName: users.name,
+        userEmail: users.email,
+        clientId: timeEntries.clientId,
+        projectClientId: projects.clientId,
+        projectId: timeEntries.projectId,
+        projectName: projects.name,
+        taskId: timeEntries.taskId,
+        taskTitle: tasks.title,
+        startTime: timeEntries.startTime,
+        durationSeconds: timeEntries.durationSeconds,
+      })
+      .from(timeEntries)
+      .innerJoin(users, eq(users.id, timeEntries.userId))
+      .leftJoin(projects, eq(projects.id, timeEntries.projectId))
+      .leftJoin(tasks, eq(tasks.id, timeEntries.taskId))
+      .where(and(
+        eq(timeEntries.tenantId, tenantId),
+        eq(timeEntries.scope, TimeEntryScope.OUT_OF_SCOPE),
+        isNull(timeEntries.invoiceId),
+        gt(timeEntries.durationSeconds, 0),
+        gte(timeEntries.startTime, from),
+        lt(timeEntries.startTime, to),
+        or(eq(timeEntries.clientId, clientId), eq(projects.clientId, clientId)),
+      ));
+
+    return rows.map((row) => ({
+      id: row.id,
+      userId: row.userId,
+      userRole: row.userRole,
+      userName: row.userName || row.userEmail,
+      clientId: row.clientId ?? row.projectClientId,
+      projectId: row.projectId,
+      projectName: row.projectName,
+      taskId: row.taskId,
+      taskTitle: row.taskTitle,
+      startTime: row.startTime,
+      durationSeconds: row.durationSeconds,
+    }));
+  },
+
+  /** Next sequential `INV-0001` style number for the tenant. */
+  async nextInvoiceNumber(tenantId: string): Promise<string> {
+    const [row] = await db
+      .select({
+        maxSeq: sql<number | null>`MAX(CAST(SUBSTRING(${invoices.number} FROM 5) AS INTEGER))`,
+      })
+      .from(invoices)
+      .where(and(eq(invoices.tenantId, tenantId), sql`${invoices.number} ~ '^INV-[0-9]+$'`));
+    const next = Number(row?.maxSeq ?? 0) + 1;
+    return `INV-${String(next).padStart(4, "0")}`;
+  },
+
+  /**
+   * Inserts the invoice and its lines and stamps the billed entries with the invoice id. Fails
+   * with a conflict if any entry was invoiced concurrently.
+   */
+  async createInvoice(invoice: NewInvoice, lines: BuiltInvoiceLine[]): Promise<Invoice> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(invoices).values(invoice).returning();
+
+      if (lines.length > 0) {
+        await tx.insert(invoiceLines).values(lines.map((line, index) => ({
+          tenantId: invoice.tenantId,
+          invoiceId: created.id,
+          groupKey: line.groupKey,
+          description: line.description,
+          quantitySeconds: line.quantitySeconds,
+          rateCents: line.rateCents,
+          amountCents: line.amountCents,
+          orderIndex: index,
+        })));
+      }
+
+      const entryIds = lines.flatMap((line) => line.entryIds);
+      if (entryIds.length > 0) {
+        const locked = await tx
+          .update(timeEntries)
+          .set({ invoiceId: created.id })
+          .where(and(
+            eq(timeEntries.tenantId, invoice.tenantId),
+            inArray(timeEntries.id, entryIds),
+            isNull(timeEntries.invoiceId),
+          ))
+          .returning({ id: timeEntries.id });
+        if (locked.length !== entryIds.length) {
+          throw AppError.conflict("Some time entries were invoiced by another request; try again");
+        }
+      }
+
+      return created;
+    });
+  },
+
+  async listInvoices(tenantId: string, filters: { clientId?: string; status?: string } = {}) {
+    const conditions = [eq(invoices.tenantId, tenantId)];
+    if (filters.clientId) conditions.push(eq(invoices.clientId, filters.clientId));
+    if (filters.status) conditions.push(eq(invoices.status, filters.status));
+    return db
+      .select()
+      .from(invoices)
+      .where(and(...conditions))
+      .orderBy(desc(invoices.createdAt));
+  },
+
+  async getInvoice(id: string, tenantId: string): Promise<Invoice | undefined> {
+    const [row] = await db
+      .select()
+      .from(invoices)
+      .where(and(eq(invoices.id, id), eq(invoices.tenantId, tenantId)));
+    return row;
+  },
+
+  async getInvoiceLines(invoiceId: string): Promise<InvoiceLine[]> {
+    return db
+      .select()
+      .from(invoiceLines)
+      .where(eq(invoiceLines.invoiceId, invoiceId))
+      .orderBy(asc(invoiceLines.orderIndex));
+  },
+
+  async updateInvoice(id: string, tenantId: string, updates: InvoiceUpdate): Promise<Invoice | undefined> {
+    const [row] = await db
+      .update(invoices)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(invoices.id, id), eq(invoices.tenantId, tenantId)))
+      .returning();
+    return row;
+  },
+
+  /** Marks the invoice void and unlocks its entries so they can be billed again. */
+  async voidInvoice(id: string, tenantId: string): Promise<Invoice | undefined> {
+    return db.transaction(async (tx) => {
+      await tx
+        .update(timeEntries)
+        .set({ invoiceId: null })
+        .where(and(eq(timeEntries.tenantId, tenantId), eq(timeEntries.invoiceId, id)));
+      const [row] = await tx
+        .update(invoices)
+        .set({ status: InvoiceStatus.VOID, voidedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(invoices.id, id), eq(invoices.tenantId, tenantId)))
+        .returning();
+      return row;
+    });
+  },
+
+  /** Deletes a draft invoice (lines cascade) and unlocks its entries. */
+  async deleteInvoice(id: string, tenantId: string) {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(timeEntries)
+        .set({ invoiceId: null })
+        .where(and(eq(timeEntries.tenantId, tenantId), eq(timeEntries.invoiceId, id)));
+      await tx.delete(invoices).where(and(eq(invoices.id, id), eq(invoices.tenantId, tenantId)));
+    });
+  },
+};
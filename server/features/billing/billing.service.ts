@@ -0,0 +1,218 @@
+import { AppError } from "../../lib/errors";
+import { storage } from "../../storage";
+import {
+  InvoiceGroupBy,
+  InvoiceStatus,
+  type BillingRate,
+  type InsertBillingRate,
+  type InvoiceGroupByValue,
+  type InvoiceStatusValue,
+  type InvoiceWithLines,
+} from "@shared/schema";
+import { billingRepo, type BillingRateUpdate, type InvoiceUpdate } from "./billing.repo";
+import { buildInvoice, type BuiltInvoice } from "./invoiceBuilder";
+import { renderInvoiceCsv, renderInvoicePdf } from "./invoiceExport";
+
+type CreateRateInput = Omit<InsertBillingRate, "tenantId" | "createdBy">;
+
+export interface GenerateInvoiceInput {
+  clientId: string;
+  periodStart: string;
+  periodEnd: string;
+  groupBy?: InvoiceGroupByValue;
+  notes?: string | null;
+  dueDate?: string | null;
+}
+
+export interface UpdateInvoiceInput {
+  status?: InvoiceStatusValue;
+  notes?: string | null;
+  dueDate?: string | null;
+}
+
+const STATUS_TRANSITIONS: Record<string, string[]> = {
+  [InvoiceStatus.DRAFT]: [InvoiceStatus.ISSUED, InvoiceStatus.VOID],
+  [InvoiceStatus.ISSUED]: [InvoiceStatus.PAID, InvoiceStatus.VOID],
+  [InvoiceStatus.PAID]: [],
+  [InvoiceStatus.VOID]: [],
+};
+
+function dayStart(date: string): Date {
+  return new Date(`${date}T00:00:00.000Z`);
+}
+
+function dayAfter(date: string): Date {
+  const d = dayStart(date);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d;
+}
+
+async function assertRateTargets(tenantId: string, input: Partial<BillingRate>) {
+  if (input.userId && !(await storage.getUserByIdAndTenant(input.userId, tenantId))) {
+    throw AppError.badRequest("User not found");
+  }
+  if (input.clientId && !(await storage.getClientByIdAndTenant(input.clientId, tenantId))) {
+    throw AppError.badRequest("Client not found");
+  }
+  if (input.projectId) {
+    const project = await storage.getProjectByIdAndTenant(input.projectId, tenantId);
+    if (!project) throw AppError.badRequest("Project not found");
+    if (input.clientId && project.clientId !== input.clientId) {
+      throw AppError.badRequest("Project does not belong to the selected client");
+    }
+  }
+}
+
+export const billingService = {
+  listRates(tenantId: string) {
+    return billingRepo.listRates(tenantId);
+  },
+
+  async createRate(tenantId: string, input: CreateRateInput, userId: string) {
+    await assertRateTargets(tenantId, input);
+    return billingRepo.createRate({
+      ...input,
+      tenantId,
+      currency: input.currency ?? "USD",
+      createdBy: userId,
+    });
+  },
+
+  async updateRate(tenantId: string, id: string, updates: BillingRateUpdate) {
+    const rate = await billingRepo.getRate(id, tenantId);
+    if (!rate) throw AppError.notFound("Billing rate");
+    const effectiveFrom = updates.effectiveFrom ?? rate.effectiveFrom;
+    const effectiveTo = updates.effectiveTo === undefined ? rate.effectiveTo : updates.effectiveTo;
+    if (effectiveTo && effectiveTo < effectiveFrom) {
+      throw AppError.badRequest("effectiveTo must not be before effectiveFrom");
+    }
+    return billingRepo.updateRate(id, tenantId, updates);
+  },
+
+  async deleteRate(tenantId: string, id: string) {
+    const rate = await billingRepo.getRate(id, tenantId);
+    if (!rate) throw AppError.notFound("Billing rate");
+    await billingRepo.deleteRate(id, tenantId);
+  },
+
+  /** Prices the client's uninvoiced billable time for the period without saving anything. */
+  async previewInvoice(tenantId: string, input: GenerateInvoiceInput): Promise<BuiltInvoice> {
+    const client = await storage.getClientByIdAndTenant(input.clientId, tenantId);
+    if (!client) throw AppError.notFound("Client");
+
+    const [entries, cards] = await Promise.all([
+      billingRepo.listBillableEntries(tenantId, input.clientId, dayStart(input.periodStart), dayAfter(input.periodEnd)),
+      billingRepo.listRates(tenantId),
+    ]);
+    return buildInvoice(entries, cards, input.groupBy ?? InvoiceGroupBy.PROJECT);
+  },
+
+  /**
+   * Creates a draft invoice from the client's uninvoiced billable entries in the period and locks
+   * those entries. Every entry must have a rate, and all rates must share one currency.
+   */
+  async generateInvoice(tenantId: string, input: GenerateInvoiceInput, userId: string): Promise<InvoiceWithLines> {
+    const built = await this.previewInvoice(tenantId, input);
+
+    if (built.unratedEntryIds.length > 0) {
+      throw AppError.badRequest(
+        `No billing rate applies to ${built.unratedEntryIds.length} time ${built.unratedEntryIds.length === 1 ? "entry" : "entries"}`,
+        { entryIds: built.unratedEntryIds },
+      );
+    }
+    if (built.currencies.length > 1) {
+      throw AppError.badRequest(`Rates for this period use more than one currency (${built.currencies.join(", ")})`);
+    }
+    if (built.lines.length === 0 || !built.currency) {
+      throw AppError.badRequest("No uninvoiced billable time for this client and period");
+    }
+
+    const invoice = await billingRepo.createInvoice({
+      tenantId,
+      clientId: input.clientId,
+      number: await billingRepo.nextInvoiceNumber(tenantId),
+      status: InvoiceStatus.DRAFT,
+      groupBy: input.groupBy ?? InvoiceGroupBy.PROJECT,
+      periodStart: input.periodStart,
+      periodEnd: input.periodEnd,
+      currency: built.currency,
+      totalSeconds: built.totalSeconds,
+      subtotalCents: built.subtotalCents,
+      notes: input.notes ?? null,
+      dueDate: input.dueDate ?? null,
+      createdBy: userId,
+    }, built.lines);
+
+    return { ...invoice, lines: await billingRepo.getInvoiceLines(invoice.id) };
+  },
+
+  listInvoices(tenantId: string, filters: { clientId?: string; status?: string }) {
+    return billingRepo.listInvoices(tenantId, filters);
+  },
+
+  async getInvoice(tenantId: string, id: string): Promise<InvoiceWithLines> {
+    const invoice = await billingRepo.getInvoice(id, tenantId);
+    if (!invoice) throw AppError.notFound("Invoice");
+    return { ...invoice, lines: await billingRepo.getInvoiceLines(invoice.id) };
+  },
+
+  /** Edits notes/due date and moves the invoice along draft → issued → paid, or to void. */
+  async updateInvoice(tenantId: string, id: string, input: UpdateInvoiceInput): Promise<InvoiceWithLines> {
+    const invoice = await billingRepo.getInvoice(id, tenantId);
+    if (!invoice) throw AppError.notFound("Invoice");
+
+    const isClosed = invoice.status === InvoiceStatus.PAID || invoice.status === InvoiceStatus.VOID;
+    if (isClosed && (input.notes !== undefined || input.dueDate !== undefined)) {
+      throw AppError.conflict(`A ${invoice.status} invoice cannot be edited`);
+    }
+    if (input.status && input.status !== invoice.status && !STATUS_TRANSITIONS[invoice.status]?.includes(input.status)) {
+      throw AppError.conflict(`Cannot change invoice status from ${invoice.status} to ${input.status}`);
+    }
+
+    const updates: InvoiceUpdate = {};
+    if (input.notes !== undefined) updates.notes = input.notes;
+    if (input.dueDate !== undefined) updates.dueDate = input.dueDate;
+    if (input.status === InvoiceStatus.ISSUED && invoice.status !== InvoiceStatus.ISSUED) {
+      updates.status = InvoiceStatus.ISSUED;
+      updates.issuedAt = new Date();
+    } else if (input.status === InvoiceStatus.PAID && invoice.status !== InvoiceStatus.PAID) {
+      updates.status = InvoiceStatus.PAID;
+      updates.paidAt = new Date();
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await billingRepo.updateInvoice(id, tenantId, updates);
+    }
+    if (input.status === InvoiceStatus.VOID && invoice.status !== InvoiceStatus.VOID) {
+      await billingRepo.voidInvoice(id, tenantId);
+    }
+    return this.getInvoice(tenantId, id);
+  },
+
+  /** Only drafts can be deleted; their entries become billable again. */
+  async deleteInvoice(tenantId: string, id: string) {
+    const invoice = await billingRepo.getInvoice(id, tenantId);
+    if (!invoice) throw AppError.notFound("Invoice");
+    if (invoice.status !== InvoiceStatus.DRAFT) {
+      throw AppError.conflict("Only draft invoices can be deleted; void it instead");
+    }
+    await billingRepo.deleteInvoice(id, tenantId);
+  },
+
+  async exportInvoice(tenantId: string, id: string, format: "csv" | "pdf") {
+    const invoice = await this.getInvoice(tenantId, id);
+    const [client, tenant] = await Promise.all([
+      storage.getClientByIdAndTenant(invoice.clientId, tenantId),
+      storage.getTenant(tenantId),
+    ]);
+    const context = {
+      invoice,
+      lines: invoice.lines,
+      clientName: client?.displayName || client?.companyName || "",
+      tenantName: tenant?.name ?? "",
+    };
+    return format === "pdf"
+      ? { filename: `${invoice.number}.pdf`, contentType: "application/pdf", body: renderInvoicePdf(context) }
+      : { filename: `${invoice.number}.csv`, contentType: "text/csv", body: renderInvoiceCsv(context) };
+  },
+};
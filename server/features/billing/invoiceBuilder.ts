@@ -0,0 +1,175 @@
+/**
+ * Pure rate resolution and invoice line grouping. Kept free of database access so the
+ * precedence rules can be tested directly.
+ */
+import { InvoiceGroupBy, type InvoiceGroupByValue } from "@shared/schema";
+
+export interface RateCard {
+  id: string;
+  userId: string | null;
+  role: string | null;
+  projectId: string | null;
+  clientId: string | null;
+  rateCents: number;
+  currency: string;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+}
+
+export interface BillableEntry {
+  id: string;
+  userId: string;
+  userRole: string | null;
+  userName: string;
+  clientId: string | null;
+  projectId: string | null;
+  projectName: string | null;
+  taskId: string | null;
+  taskTitle: string | null;
+  startTime: Date;
+  durationSeconds: number;
+}
+
+export interface BuiltInvoiceLine {
+  groupKey: string | null;
+  description: string;
+  quantitySeconds: number;
+  rateCents: number;
+  amountCents: number;
+  entryIds: string[];
+}
+
+export interface BuiltInvoice {
+  currency: string | null;
+  lines: BuiltInvoiceLine[];
+  totalSeconds: number;
+  subtotalCents: number;
+  /** Entries no rate card applies to; they are left out of the lines. */
+  unratedEntryIds: string[];
+  /** Distinct currencies of the rates used; more than one cannot go on a single invoice. */
+  currencies: string[];
+}
+
+// A dimension set on a card must match the entry. Project beats client, client beats person,
+// person beats role; combinations add up, so a person's rate on a project beats both alone.
+const SPECIFICITY = { projectId: 8, clientId: 4, userId: 2, role: 1 } as const;
+
+function entryDate(entry: BillableEntry): string {
+  return entry.startTime.toISOString().slice(0, 10);
+}
+
+function specificity(card: RateCard): number {
+  return (card.projectId ? SPECIFICITY.projectId : 0) +
+    (card.clientId ? SPECIFICITY.clientId : 0) +
+    (card.userId ? SPECIFICITY.userId : 0) +
+    (card.role ? SPECIFICITY.role : 0);
+}
+
+function cardApplies(card: RateCard, entry: BillableEntry, date: string): boolean {
+  if (card.effectiveFrom > date) return false;
+  if (card.effectiveTo && card.effectiveTo < date) return false;
+  if (card.projectId && card.projectId !== entry.projectId) return false;
+  if (card.clientId && card.clientId !== entry.clientId) return false;
+  if (card.userId && card.userId !== entry.userId) return false;
+  if (card.role && card.role !== entry.userRole) return false;
+  return true;
+}
+
+/**
+ * Picks the rate card for an entry on the entry's (UTC) start date: the most specific card
+ * whose dimensions all match, with the latest effective date breaking ties.
+ */
+export function resolveRate(entry: BillableEntry, cards: RateCard[]): RateCard | null {
+  const date = entryDate(entry);
+  let best: RateCard | null = null;
+  for (const card of cards) {
+    if (!cardApplies(card, entry, date)) continue;
+    if (
+      !best ||
+      specificity(card) > specificity(best) ||
+      (specificity(card) === specificity(best) && card.effectiveFrom > best.effectiveFrom)
+    ) {
+      best = card;
+    }
+  }
+  return best;
+}
+
+export function amountForSeconds(seconds: number, rateCents: number): number {
+  return Math.round((seconds / 3600) * rateCents);
+}
+
+function groupFor(entry: BillableEntry, groupBy: InvoiceGroupByValue): { key: string | null; description: string } {
+  switch (groupBy) {
+    case InvoiceGroupBy.TASK:
+      if (entry.taskId) {
+        const title = entry.taskTitle ?? "Untitled task";
+        return { key: entry.taskId, description: entry.projectName ? `${entry.projectName}: ${title}` : title };
+      }
+      return entry.projectId
+        ? { key: `project:${entry.projectId}`, description: `${entry.projectName ?? "Project"} (general)` }
+        : { key: null, description: "General time" };
+    case InvoiceGroupBy.USER:
+      return { key: entry.userId, description: entry.userName };
+    default:
+      return entry.projectId
+        ? { key: entry.projectId, description: entry.projectName ?? "Untitled project" }
+        : { key: null, description: "General time" };
+  }
+}
+
+/**
+ * Prices each entry at its resolved rate and sums them into one line per group. A line's rate
+ * is the blended hourly rate (amount / hours), since a group can mix people at different rates.
+ */
+export function buildInvoice(
+  entries: BillableEntry[],
+  cards: RateCard[],
+  groupBy: InvoiceGroupByValue,
+): BuiltInvoice {
+  const lines = new Map<string, BuiltInvoiceLine>();
+  const unratedEntryIds: string[] = [];
+  const currencies = new Set<string>();
+
+  const ordered = [...entries].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  for (const entry of ordered) {
+    const card = resolveRate(entry, cards);
+    if (!card) {
+      unratedEntryIds.push(entry.id);
+      continue;
+    }
+    currencies.add(card.currency);
+
+    const group = groupFor(entry, groupBy);
+    const mapKey = group.key ?? "";
+    const line = lines.get(mapKey) ?? {
+      groupKey: group.key,
+      description: group.description,
+      quantitySeconds: 0,
+      rateCents: 0,
+      amountCents: 0,
+      entryIds: [],
+    };
+    line.quantitySeconds += entry.durationSeconds;
+    line.amountCents += amountForSeconds(entry.durationSeconds, card.rateCents);
+    line.entryIds.push(entry.id);
+    lines.set(mapKey, line);
+  }
+
+  const built = Array.from(lines.values())
+    .map((line) => ({
+      ...line,
+      rateCents: line.quantitySeconds > 0 ? Math.round(line.amountCents / (line.quantitySeconds / 3600)) : 0,
+    }))
+    .sort((a, b) => a.description.localeCompare(b.description));
+
+  const currencyList = Array.from(currencies);
+  return {
+    currency: currencyList[0] ?? null,
+    lines: built,
+    totalSeconds: built.reduce((sum, l) => sum + l.quantitySeconds, 0),
+    subtotalCents: built.reduce((sum, l) => sum + l.amountCents, 0),
+    unratedEntryIds,
+    currencies: currencyList,
+  };
+}
@@ -0,0 +1,188 @@
+/**
+ * Invoice export renderers: CSV for spreadsheets/accounting imports and a plain single-font
+ * PDF written directly (no PDF dependency in the tree).
+ */
+import type { Invoice, InvoiceLine } from "@shared/schema";
+
+export interface InvoiceExportContext {
+  invoice: Invoice;
+  lines: InvoiceLine[];
+  clientName: string;
+  tenantName: string;
+}
+
+export function formatMoney(cents: number, currency: string): string {
+  return `${(cents / 100).toFixed(2)} ${currency}`;
+}
+
+function formatHours(seconds: number): string {
+  return (seconds / 3600).toFixed(2);
+}
+
+function csvCell(value: string | number | null | undefined): string {
+  return `"${String(value ?? "").replace(/"/g, '""')}"`;
+}
+
+export function renderInvoiceCsv({ invoice, lines, clientName }: InvoiceExportContext): string {
+  const headers = ["Invoice", "Client", "Period Start", "Period End", "Description", "Hours", "Rate", "Amount", "Currency"];
+  const rows = lines.map((line) => [
+    invoice.number,
+    clientName,
+    invoice.periodStart,
+    invoice.periodEnd,
+    line.description,
+    formatHours(line.quantitySeconds),
+    (line.rateCents / 100).toFixed(2),
+    (line.amountCents / 100).toFixed(2),
+    invoice.currency,
+  ]);
+  rows.push([
+    invoice.number,
+    clientName,
+    invoice.periodStart,
+    invoice.periodEnd,
+    "Total",
+    formatHours(invoice.totalSeconds),
+    "",
+    (invoice.subtotalCents / 100).toFixed(2),
+    invoice.currency,
+  ]);
+  return [headers, ...rows].map((row) => row.map(csvCell).join(",")).join("\n");
+}
+
+// ---- PDF ----
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const LINE_HEIGHT = 16;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - MARGIN * 2) / LINE_HEIGHT);
+
+interface PdfTextLine {
+  text: string;
+  x: number;
+  size?: number;
+  bold?: boolean;
+  /** Right-align the text so it ends at x. */
+  alignRight?: boolean;
+}
+
+type PdfRow = PdfTextLine[];
+
+function pdfEscape(text: string): string {
+  // Built-in fonts only cover WinAnsi; anything outside printable ASCII is replaced.
+  return text.replace(/[^\x20-\x7e]/g, "?").replace(/([\\()])/g, "\\$1");
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}~` : text;
+}
+
+// Helvetica averages roughly half an em per character, which is close enough for right alignment
+function approxWidth(text: string, size: number): number {
+  return text.length * size * 0.5;
+}
+
+function renderPage(rows: PdfRow[]): string {
+  const ops: string[] = [];
+  rows.forEach((row, index) => {
+    const y = PAGE_HEIGHT - MARGIN - (index + 1) * LINE_HEIGHT;
+    for (const cell of row) {
+      const size = cell.size ?? 10;
+      const x = cell.alignRight ? cell.x - approxWidth(cell.text, size) : cell.x;
+      ops.push(`BT /${cell.bold ? "F2" : "F1"} ${size} Tf ${x.toFixed(1)} ${y} Td (${pdfEscape(cell.text)}) Tj ET`);
+    }
+  });
+  return ops.join("\n");
+}
+
+/** Assembles a minimal PDF 1.4 document from pre-laid-out pages. */
+function buildPdf(pages: string[]): Buffer {
+  const objects: string[] = [];
+  const add = (body: string) => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const catalogId = add("");
+  const pagesId = add("");
+  const fontId = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+  const boldFontId = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+
+  const pageIds: number[] = [];
+  for (const content of pages) {
+    const streamId = add(`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`);
+    pageIds.push(add(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 ${fontId} 0 R /F2 ${boldFontId} 0 R >> >> /Contents ${streamId} 0 R >>`,
+    ));
+  }
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+
+  let out = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(Buffer.byteLength(out, "latin1"));
+    out += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefOffset = Buffer.byteLength(out, "latin1");
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    out += `${String(offset).padStart(10, "0")} 00000 n \n`;
+  }
+  out += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(out, "latin1");
+}
+
+const COL_DESCRIPTION = MARGIN;
+const COL_HOURS = 380;
+const COL_RATE = 460;
+const COL_AMOUNT = PAGE_WIDTH - MARGIN;
+
+export function renderInvoicePdf({ invoice, lines, clientName, tenantName }: InvoiceExportContext): Buffer {
+  const rows: PdfRow[] = [
+    [{ text: tenantName, x: MARGIN, size: 16, bold: true }],
+    [],
+    [{ text: `Invoice ${invoice.number}`, x: MARGIN, size: 12, bold: true },
+      { text: invoice.status.toUpperCase(), x: COL_AMOUNT, bold: true, alignRight: true }],
+    [{ text: `Bill to: ${clientName}`, x: MARGIN }],
+    [{ text: `Period: ${invoice.periodStart} to ${invoice.periodEnd}`, x: MARGIN }],
+  ];
+  if (invoice.issuedAt) rows.push([{ text: `Issued: ${invoice.issuedAt.toISOString().slice(0, 10)}`, x: MARGIN }]);
+  if (invoice.dueDate) rows.push([{ text: `Due: ${invoice.dueDate}`, x: MARGIN }]);
+  rows.push([]);
+  rows.push([
+    { text: "Description", x: COL_DESCRIPTION, bold: true },
+    { text: "Hours", x: COL_HOURS, bold: true, alignRight: true },
+    { text: "Rate", x: COL_RATE, bold: true, alignRight: true },
+    { text: "Amount", x: COL_AMOUNT, bold: true, alignRight: true },
+  ]);
+  for (const line of lines) {
+    rows.push([
+      { text: truncate(line.description, 55), x: COL_DESCRIPTION },
+      { text: formatHours(line.quantitySeconds), x: COL_HOURS, alignRight: true },
+      { text: (line.rateCents / 100).toFixed(2), x: COL_RATE, alignRight: true },
+      { text: (line.amountCents / 100).toFixed(2), x: COL_AMOUNT, alignRight: true },
+    ]);
+  }
+  rows.push([]);
+  rows.push([
+    { text: "Total", x: COL_DESCRIPTION, bold: true },
+    { text: formatHours(invoice.totalSeconds), x: COL_HOURS, bold: true, alignRight: true },
+    { text: formatMoney(invoice.subtotalCents, invoice.currency), x: COL_AMOUNT, bold: true, alignRight: true },
+  ]);
+  if (invoice.notes) {
+    rows.push([]);
+    for (const noteLine of invoice.notes.split(/\r?\n/)) {
+      rows.push([{ text: truncate(noteLine, 95), x: MARGIN, size: 9 }]);
+    }
+  }
+
+  const pages: string[] = [];
+  for (let i = 0; i < rows.length; i += LINES_PER_PAGE) {
+    pages.push(renderPage(rows.slice(i, i + LINES_PER_PAGE)));
+  }
+  return buildPdf(pages);
+}
@@ -0,0 +1,261 @@
+import { eq, and, gte, lte, inArray, desc, asc, ne } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  holidayCalendars,
+  holidays,
+  userCapacityProfiles,
+  timeOffRequests,
+  users,
+  TimeOffStatus,
+  UserRole,
+  type Holiday,
+  type HolidayCalendar,
+  type TimeOffRequest,
+  type UserCapacityProfile,
+} from "@shared/schema";
+
+export type CapacityProfileValues = Pick<
+  UserCapacityProfile,
+  "timezone" | "weekdayMinutes" | "holidayCalendarId" | "effectiveFrom" | "effectiveTo"
+>;
+
+export type TimeOffUpdate = Partial<Pick<
+  TimeOffRequest,
+  "status" | "reviewedBy" | "reviewedAt" | "reviewComment"
+>>;
+
+export interface TimeOffFilters {
+  userId?: string;
+  status?: string;
+  /** Requests overlapping [from, to]. */
+  from?: string;
+  to?: string;
+}
+
+export interface TimeOffWithUser extends TimeOffRequest {
+  userName: string | null;
+  userEmail: string | null;
+}
+
+export const capacityRepo = {
+  // ── Capacity profiles ──────────────────────────────────────────────────────
+
+  async listProfiles(tenantId: string, userIds?: string[]): Promise<UserCapacityProfile[]> {
+    const conditions = [eq(userCapacityProfiles.tenantId, tenantId)];
+    if (userIds) {
+      if (userIds.length === 0) return [];
+      conditions.push(inArray(userCapacityProfiles.userId, userIds));
+    }
+    return db
+      .select()
+      .from(userCapacityProfiles)
+      .where(and(...conditions))
+      .orderBy(asc(userCapacityProfiles.userId), asc(userCapacityProfiles.effectiveFrom));
+  },
+
+  async getProfile(id: string, tenantId: string): Promise<UserCapacityProfile | undefined> {
+    const [row] = await db
+      .select()
+      .from(userCapacityProfiles)
+      .where(and(eq(userCapacityProfiles.id, id), eq(userCapacityProfiles.tenantId, tenantId)));
+    return row;
+  },
+
+  /** Creates the profile starting on effectiveFrom, or replaces the one that already starts that day. */
+  async upsertProfile(
+    tenantId: string,
+    userId: string,
+    values: CapacityProfileValues,
+    createdBy: string,
+  ): Promise<UserCapacityProfile> {
+    const [row] = await db
+      .insert(userCapacityProfiles)
+      .values({ tenantId, userId, ...values, createdBy })
+      .onConflictDoUpdate({
+        target: [userCapacityProfiles.tenantId, userCapacityProfiles.userId, userCapacityProfiles.effectiveFrom],
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return row;
+  },
+
+  async deleteProfile(id: string, tenantId: string): Promise<boolean> {
+    const rows = await db
+      .delete(userCapacityProfiles)
+      .where(and(eq(userCapacityProfiles.id, id), eq(userCapacityProfiles.tenantId, tenantId)))
+      .returning({ id: userCapacityProfiles.id });
+    return rows.length > 0;
+  },
+
+  // ── Holiday calendars ──────────────────────────────────────────────────────
+
+  async listCalendars(tenantId: string): Promise<HolidayCalendar[]> {
+    return db
+      .select()
+      .from(holidayCalendars)
+      .where(eq(holidayCalendars.tenantId, tenantId))
+      .orderBy(desc(holidayCalendars.isDefault), asc(holidayCalendars.name));
+  },
+
+  async getCalendar(id: string, tenantId: string): Promise<HolidayCalendar | undefined> {
+    const [row] = await db
+      .select()
+      .from(holidayCalendars)
+      .where(and(eq(holidayCalendars.id, id), eq(holidayCalendars.tenantId, tenantId)));
+    return row;
+  },
+
+  /** Inserts or updates a calendar; marking it default clears the flag on the tenant's others. */
+  async saveCalendar(
+    tenantId: string,
+    id: string | null,
+    values: { name: string; isDefault?: boolean },
+  ): Promise<HolidayCalendar | undefined> {
+    return db.transaction(async (tx) => {
+      if (values.isDefault) {
+        await tx
+          .update(holidayCalendars)
+          .set({ isDefault: false, updatedAt: new Date() })
+          .where(and(
+            eq(holidayCalendars.tenantId, tenantId),
+            eq(holidayCalendars.isDefault, true),
+            ...(id ? [ne(holidayCalendars.id, id)] : []),
+          ));
+      }
+      if (!id) {
+        const [created] = await tx
+          .insert(holidayCalendars)
+          .values({ tenantId, name: values.name, isDefault: values.isDefault ?? false })
+          .returning();
+        return created;
+      }
+      const [updated] = await tx
+        .update(holidayCalendars)
+        .set({ ...values, updatedAt: new Date() })
+        .where(and(eq(holidayCalendars.id, id), eq(holidayCalendars.tenantId, tenantId)))
+        .returning();
+      return updated;
+    });
+  },
+
+  async deleteCalendar(id: string, tenantId: string): Promise<boolean> {
+    const rows = await db
+      .delete(holidayCalendars)
+      .where(and(eq(holidayCalendars.id, id), eq(holidayCalendars.tenantId, tenantId)))
+      .returning({ id: holidayCalendars.id });
+    return rows.length > 0;
+  },
+
+  async listHolidays(tenantId: string, filters: { calendarId?: string; from?: string; to?: string } = {}): Promise<Holiday[]> {
+    const conditions = [eq(holidays.tenantId, tenantId)];
+    if (filters.calendarId) conditions.push(eq(holidays.calendarId, filters.calendarId));
+    if (filters.from) conditions.push(gte(holidays.date, filters.from));
+    if (filters.to) conditions.push(lte(holidays.date, filters.to));
+    return db.select().from(holidays).where(and(...conditions)).orderBy(asc(holidays.date));
+  },
+
+  async addHoliday(tenantId: string, calendarId: string, values: { date: string; name: string }): Promise<Holiday> {
+    const [row] = await db
+      .insert(holidays)
+      .values({ tenantId, calendarId, ...values })
+      .onConflictDoUpdate({
+        target: [holidays.calendarId, holidays.date],
+        set: { name: values.name },
+      })
+      .returning();
+    return row;
+  },
+
+  async deleteHoliday(id: string, calendarId: string, tenantId: string): Promise<boolean> {
+    const rows = await db
+      .delete(holidays)
+      .where(and(eq(holidays.id, id), eq(holidays.calendarId, calendarId), eq(holidays.tenantId, tenantId)))
+      .returning({ id: holidays.id });
+    return rows.length > 0;
+  },
+
+  // ── Time off ───────────────────────────────────────────────────────────────
+
+  async getTimeOff(id: string, tenantId: string): Promise<TimeOffRequest | undefined> {
+    const [row] = await db
+      .select()
+      .from(timeOffRequests)
+      .where(and(eq(timeOffRequests.id, id), eq(timeOffRequests.tenantId, tenantId)));
+    return row;
+  },
+
+  async listTimeOff(tenantId: string, filters: TimeOffFilters = {}): Promise<TimeOffWithUser[]> {
+    const conditions = [eq(timeOffRequests.tenantId, tenantId)];
+    if (filters.userId) conditions.push(eq(timeOffRequests.userId, filters.userId));
+    if (filters.status) conditions.push(eq(timeOffRequests.status, filters.status));
+    if (filters.from) conditions.push(gte(timeOffRequests.endDate, filters.from));
+    if (filters.to) conditions.push(lte(timeOffRequests.startDate, filters.to));
+    const rows = await db
+      .select({ request: timeOffRequests, userName: users.name, userEmail: users.email })
+      .from(timeOffRequests)
+      .leftJoin(users, eq(users.id, timeOffRequests.userId))
+      .where(and(...conditions))
+      .orderBy(desc(timeOffRequests.startDate))
+      .limit(500);
+    return rows.map((row) => ({ ...row.request, userName: row.userName, userEmail: row.userEmail }));
+  },
+
+  /** Approved time off overlapping [from, to], optionally for some users only. */
+  async listApprovedTimeOff(tenantId: string, from: string, to: string, userIds?: string[]): Promise<TimeOffRequest[]> {
+    const conditions = [
+      eq(timeOffRequests.tenantId, tenantId),
+      eq(timeOffRequests.status, TimeOffStatus.APPROVED),
+      gte(timeOffRequests.endDate, from),
+      lte(timeOffRequests.startDate, to),
+    ];
+    if (userIds) {
+      if (userIds.length === 0) return [];
+      conditions.push(inArray(timeOffRequests.userId, userIds));
+    }
+    return db.select().from(timeOffRequests).where(and(...conditions));
+  },
+
+  /** Pending or approved requests of the user that overlap [from, to]. */
+  async findOverlappingTimeOff(tenantId: string, userId: string, from: string, to: string): Promise<TimeOffRequest[]> {
+    return db
+      .select()
+      .from(timeOffRequests)
+      .where(and(
+        eq(timeOffRequests.tenantId, tenantId),
+        eq(timeOffRequests.userId, userId),
+        inArray(timeOffRequests.status, [TimeOffStatus.PENDING, TimeOffStatus.APPROVED]),
+        gte(timeOffRequests.endDate, from),
+        lte(timeOffRequests.startDate, to),
+      ));
+  },
+
+  async createTimeOff(values: typeof timeOffRequests.$inferInsert): Promise<TimeOffRequest> {
+    const [row] = await db.insert(timeOffRequests).values(values).returning();
+    return row;
+  },
+
+  async updateTimeOff(id: string, tenantId: string, updates: TimeOffUpdate): Promise<TimeOffRequest | undefined> {
+    const [row] = await db
+      .update(timeOffRequests)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(timeOffRequests.id, id), eq(timeOffRequests.tenantId, tenantId)))
+      .returning();
+    return row;
+  },
+
+  async isTenantUser(tenantId: string, userId: string): Promise<boolean> {
+    const [row] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.id, userId), eq(users.tenantId, tenantId)));
+    return !!row;
+  },
+
+  async listApproverIds(tenantId: string): Promise<string[]> {
+    const rows = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.tenantId, tenantId), eq(users.isActive, true), eq(users.role, UserRole.ADMIN)));
+    return rows.map((row) => row.id);
+  },
+};
@@ -0,0 +1,302 @@
+import { AppError } from "../../lib/errors";
+import {
+  TimeOffStatus,
+  type HolidayCalendar,
+  type Holiday,
+  type TimeOffRequest,
+  type UserCapacityProfile,
+} from "@shared/schema";
+import {
+  notifyTimeOffRequested,
+  notifyTimeOffReviewed,
+} from "../notifications/notification.service";
+import { capacityRepo, type TimeOffFilters } from "./capacity.repo";
+import {
+  addDaysIso,
+  capacityDays,
+  profileOn,
+  type CapacityCalendarInput,
+  type CapacityDay,
+} from "./capacityCalendar";
+
+export interface CapacityActor {
+  id: string;
+  name: string;
+}
+
+export interface ProfileInput {
+  timezone: string;
+  weekdayMinutes: number[];
+  holidayCalendarId?: string | null;
+  effectiveFrom: string;
+  effectiveTo?: string | null;
+}
+
+export interface TimeOffInput {
+  type: string;
+  startDate: string;
+  endDate: string;
+  minutesPerDay?: number | null;
+  note?: string | null;
+}
+
+export interface ReviewTimeOffInput {
+  status: typeof TimeOffStatus.APPROVED | typeof TimeOffStatus.REJECTED;
+  comment?: string | null;
+}
+
+export interface UserCapacityCalendar extends CapacityCalendarInput {
+  timezone: string;
+}
+
+export interface UserAvailability {
+  userId: string;
+  timezone: string;
+  days: CapacityDay[];
+  baseHours: number;
+  availableHours: number;
+}
+
+export interface WeekCapacity {
+  /** Working hours the profile schedules for the week. */
+  baseHours: number;
+  /** baseHours less holidays and approved time off. */
+  availableHours: number;
+}
+
+/** Longest single time-off request, in days. */
+const MAX_TIME_OFF_DAYS = 366;
+const CANCELLABLE = new Set<string>([TimeOffStatus.PENDING, TimeOffStatus.APPROVED]);
+
+export function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function roundHours(minutes: number): number {
+  return Math.round((minutes / 60) * 10) / 10;
+}
+
+export const capacityService = {
+  // ── Profiles ───────────────────────────────────────────────────────────────
+
+  listProfiles(tenantId: string, userId?: string): Promise<UserCapacityProfile[]> {
+    return capacityRepo.listProfiles(tenantId, userId ? [userId] : undefined);
+  },
+
+  async saveProfile(tenantId: string, userId: string, input: ProfileInput, actorId: string): Promise<UserCapacityProfile> {
+    if (!await capacityRepo.isTenantUser(tenantId, userId)) throw AppError.notFound("User");
+    if (input.holidayCalendarId && !await capacityRepo.getCalendar(input.holidayCalendarId, tenantId)) {
+      throw AppError.badRequest("Unknown holiday calendar");
+    }
+    return capacityRepo.upsertProfile(tenantId, userId, {
+      timezone: input.timezone,
+      weekdayMinutes: input.weekdayMinutes,
+      holidayCalendarId: input.holidayCalendarId ?? null,
+      effectiveFrom: input.effectiveFrom,
+      effectiveTo: input.effectiveTo ?? null,
+    }, actorId);
+  },
+
+  async deleteProfile(tenantId: string, id: string): Promise<void> {
+    if (!await capacityRepo.deleteProfile(id, tenantId)) throw AppError.notFound("Capacity profile");
+  },
+
+  // ── Holiday calendars ──────────────────────────────────────────────────────
+
+  async listCalendars(tenantId: string): Promise<Array<HolidayCalendar & { holidays: Holiday[] }>> {
+    const [calendars, allHolidays] = await Promise.all([
+      capacityRepo.listCalendars(tenantId),
+      capacityRepo.listHolidays(tenantId),
+    ]);
+    return calendars.map((calendar) => ({
+      ...calendar,
+      holidays: allHolidays.filter((holiday) => holiday.calendarId === calendar.id),
+    }));
+  },
+
+  async saveCalendar(tenantId: string, id: string | null, input: { name: string; isDefault?: boolean }): Promise<HolidayCalendar> {
+    const calendar = await capacityRepo.saveCalendar(tenantId, id, input);
+    if (!calendar) throw AppError.notFound("Holiday calendar");
+    return calendar;
+  },
+
+  async deleteCalendar(tenantId: string, id: string): Promise<void> {
+    if (!await capacityRepo.deleteCalendar(id, tenantId)) throw AppError.notFound("Holiday calendar");
+  },
+
+  async addHoliday(tenantId: string, calendarId: string, input: { date: string; name: string }): Promise<Holiday> {
+    if (!await capacityRepo.getCalendar(calendarId, tenantId)) throw AppError.notFound("Holiday calendar");
+    return capacityRepo.addHoliday(tenantId, calendarId, input);
+  },
+
+  async deleteHoliday(tenantId: string, calendarId: string, id: string): Promise<void> {
+    if (!await capacityRepo.deleteHoliday(id, calendarId, tenantId)) throw AppError.notFound("Holiday");
+  },
+
+  /** Holidays between `from` and `to` on the user's calendar (the tenant default without a user or profile). */
+  async holidaysFor(tenantId: string, userId: string | null, from: string, to: string): Promise<Holiday[]> {
+    const [calendars, profiles] = await Promise.all([
+      capacityRepo.listCalendars(tenantId),
+      userId ? capacityRepo.listProfiles(tenantId, [userId]) : Promise.resolve([]),
+    ]);
+    const calendarId = profileOn(profiles, from)?.holidayCalendarId
+      ?? calendars.find((calendar) => calendar.isDefault)?.id;
+    if (!calendarId) return [];
+    return capacityRepo.listHolidays(tenantId, { calendarId, from, to });
+  },
+
+  // ── Time off ───────────────────────────────────────────────────────────────
+
+  listTimeOff(tenantId: string, filters: TimeOffFilters) {
+    return capacityRepo.listTimeOff(tenantId, filters);
+  },
+
+  /** Files a pending request for the actor and notifies the tenant's admins. */
+  async requestTimeOff(tenantId: string, actor: CapacityActor, input: TimeOffInput): Promise<TimeOffRequest> {
+    if (input.endDate > addDaysIso(input.startDate, MAX_TIME_OFF_DAYS - 1)) {
+      throw AppError.badRequest(`Time off requests are limited to ${MAX_TIME_OFF_DAYS} days`);
+    }
+    const overlapping = await capacityRepo.findOverlappingTimeOff(tenantId, actor.id, input.startDate, input.endDate);
+    if (overlapping.length > 0) {
+      throw AppError.conflict("You already have time off requested for some of these days");
+    }
+
+    const request = await capacityRepo.createTimeOff({
+      tenantId,
+      userId: actor.id,
+      type: input.type,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      minutesPerDay: input.minutesPerDay ?? null,
+      note: input.note?.trim() || null,
+    });
+
+    for (const approverId of await capacityRepo.listApproverIds(tenantId)) {
+      await notifyTimeOffRequested(approverId, request.id, actor.name, request.startDate, request.endDate, {
+        tenantId,
+        excludeUserId: actor.id,
+      });
+    }
+    return request;
+  },
+
+  /** Approves or rejects a pending request; approved time off reduces the user's capacity. */
+  async reviewTimeOff(tenantId: string, id: string, reviewer: CapacityActor, input: ReviewTimeOffInput): Promise<TimeOffRequest> {
+    const request = await capacityRepo.getTimeOff(id, tenantId);
+    if (!request) throw AppError.notFound("Time off request");
+    if (request.userId === reviewer.id) throw AppError.forbidden("You cannot review your own time off");
+    if (request.status !== TimeOffStatus.PENDING) {
+      throw AppError.conflict(`Only pending requests can be reviewed; this one is ${request.status}`);
+    }
+
+    const updated = await capacityRepo.updateTimeOff(id, tenantId, {
+      status: input.status,
+      reviewedBy: reviewer.id,
+      reviewedAt: new Date(),
+      reviewComment: input.comment?.trim() || null,
+    });
+    if (!updated) throw AppError.notFound("Time off request");
+
+    await notifyTimeOffReviewed(
+      request.userId,
+      id,
+      request.startDate,
+      input.status,
+      reviewer.name,
+      updated.reviewComment,
+      { tenantId },
+    );
+    return updated;
+  },
+
+  /** Withdraws a pending or approved request; admins may cancel anyone's. */
+  async cancelTimeOff(tenantId: string, id: string, actorId: string, isAdmin: boolean): Promise<TimeOffRequest> {
+    const request = await capacityRepo.getTimeOff(id, tenantId);
+    if (!request) throw AppError.notFound("Time off request");
+    if (request.userId !== actorId && !isAdmin) throw AppError.forbidden("You can only cancel your own time off");
+    if (!CANCELLABLE.has(request.status)) {
+      throw AppError.conflict(`This request is already ${request.status}`);
+    }
+    const updated = await capacityRepo.updateTimeOff(id, tenantId, { status: TimeOffStatus.CANCELLED });
+    if (!updated) throw AppError.notFound("Time off request");
+    return updated;
+  },
+
+  // ── Capacity ───────────────────────────────────────────────────────────────
+
+  /** Everything needed to compute each user's working minutes between `from` and `to`. */
+  async getCalendars(tenantId: string, userIds: string[], from: string, to: string): Promise<Map<string, UserCapacityCalendar>> {
+    if (userIds.length === 0) return new Map();
+    const [profiles, calendars, holidayRows, timeOff] = await Promise.all([
+      capacityRepo.listProfiles(tenantId, userIds),
+      capacityRepo.listCalendars(tenantId),
+      capacityRepo.listHolidays(tenantId, { from, to }),
+      capacityRepo.listApprovedTimeOff(tenantId, from, to, userIds),
+    ]);
+
+    const holidays = new Map<string, Set<string>>();
+    for (const holiday of holidayRows) {
+      if (!holidays.has(holiday.calendarId)) holidays.set(holiday.calendarId, new Set());
+      holidays.get(holiday.calendarId)!.add(holiday.date);
+    }
+    const defaultCalendarId = calendars.find((calendar) => calendar.isDefault)?.id ?? null;
+
+    const result = new Map<string, UserCapacityCalendar>();
+    for (const userId of userIds) {
+      const own = profiles.filter((profile) => profile.userId === userId);
+      result.set(userId, {
+        timezone: own.length > 0 ? own[own.length - 1].timezone : "UTC",
+        profiles: own,
+        holidays,
+        defaultCalendarId,
+        timeOff: timeOff.filter((request) => request.userId === userId),
+      });
+    }
+    return result;
+  },
+
+  /** Day-by-day working hours for each user from `from` to `to`, inclusive. */
+  async availability(tenantId: string, userIds: string[], from: string, to: string): Promise<UserAvailability[]> {
+    const calendars = await this.getCalendars(tenantId, userIds, from, to);
+    return userIds.map((userId) => {
+      const calendar = calendars.get(userId)!;
+      const days = capacityDays(calendar, from, to);
+      return {
+        userId,
+        timezone: calendar.timezone,
+        days,
+        baseHours: roundHours(days.reduce((sum, day) => sum + day.baseMinutes, 0)),
+        availableHours: roundHours(days.reduce((sum, day) => sum + day.availableMinutes, 0)),
+      };
+    });
+  },
+
+  /** Available hours per user between two instants, by their UTC dates. */
+  async availableHoursByUser(tenantId: string, userIds: string[], start: Date, end: Date): Promise<Map<string, number>> {
+    const availability = await this.availability(tenantId, userIds, toIsoDate(start), toIsoDate(end));
+    return new Map(availability.map((user) => [user.userId, user.availableHours]));
+  },
+
+  /** Scheduled and available hours per user per Monday-start week. */
+  async weeklyHoursByUser(tenantId: string, userIds: string[], weekStarts: string[]): Promise<Map<string, Map<string, WeekCapacity>>> {
+    const result = new Map<string, Map<string, WeekCapacity>>();
+    if (weekStarts.length === 0) return result;
+    const sorted = [...weekStarts].sort();
+    const from = sorted[0];
+    const to = addDaysIso(sorted[sorted.length - 1], 6);
+    const calendars = await this.getCalendars(tenantId, userIds, from, to);
+    for (const userId of userIds) {
+      const calendar = calendars.get(userId)!;
+      const weeks = new Map<string, WeekCapacity>();
+      for (const weekStart of weekStarts) {
+        const days = capacityDays(calendar, weekStart, addDaysIso(weekStart, 6));
+        weeks.set(weekStart, {
+          baseHours: roundHours(days.reduce((sum, day) => sum + day.baseMinutes, 0)),
+          availableHours: roundHours(days.reduce((sum, day) => sum + day.availableMinutes, 0)),
+        });
+      }
+      result.set(userId, weeks);
+    }
+    return result;
+  },
+};
@@ -0,0 +1,114 @@
+/**
+ * Capacity arithmetic: working minutes per calendar day from a user's capacity profiles,
+ * their holiday calendar and approved time off. Dates are YYYY-MM-DD; weeks start on Monday,
+ * matching the timesheet and workload reports.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Minutes per weekday (index 0 = Monday) for users without a profile: 8h Monday to Friday. */
+export const DEFAULT_WEEKDAY_MINUTES: readonly number[] = [480, 480, 480, 480, 480, 0, 0];
+
+export interface CapacityProfileRule {
+  weekdayMinutes: number[];
+  holidayCalendarId: string | null;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+}
+
+export interface TimeOffSpan {
+  startDate: string;
+  endDate: string;
+  /** null = the whole working day. */
+  minutesPerDay: number | null;
+}
+
+export interface CapacityCalendarInput {
+  profiles: CapacityProfileRule[];
+  /** Holiday dates keyed by calendar id. */
+  holidays: Map<string, Set<string>>;
+  /** Calendar used when the profile in effect names none. */
+  defaultCalendarId: string | null;
+  /** Approved time off only. */
+  timeOff: TimeOffSpan[];
+}
+
+export interface CapacityDay {
+  date: string;
+  baseMinutes: number;
+  holiday: boolean;
+  timeOffMinutes: number;
+  availableMinutes: number;
+}
+
+function parseDate(value: string): number {
+  return Date.parse(`${value}T00:00:00.000Z`);
+}
+
+function formatDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+export function addDaysIso(date: string, days: number): string {
+  return formatDate(parseDate(date) + days * DAY_MS);
+}
+
+/** Weekday index with Monday = 0. */
+export function weekdayIndex(date: string): number {
+  return (new Date(parseDate(date)).getUTCDay() + 6) % 7;
+}
+
+/** The profile in effect on `date`: the latest one starting on or before it that has not ended. */
+export function profileOn(profiles: CapacityProfileRule[], date: string): CapacityProfileRule | null {
+  let match: CapacityProfileRule | null = null;
+  for (const profile of profiles) {
+    if (profile.effectiveFrom > date) continue;
+    if (match && match.effectiveFrom >= profile.effectiveFrom) continue;
+    match = profile;
+  }
+  if (match?.effectiveTo && match.effectiveTo < date) return null;
+  return match;
+}
+
+export function capacityForDay(input: CapacityCalendarInput, date: string): CapacityDay {
+  const profile = profileOn(input.profiles, date);
+  const weekday = weekdayIndex(date);
+  const baseMinutes = profile ? profile.weekdayMinutes[weekday] ?? 0 : DEFAULT_WEEKDAY_MINUTES[weekday];
+  const calendarId = profile?.holidayCalendarId ?? input.defaultCalendarId;
+  const holiday = !!calendarId && !!input.holidays.get(calendarId)?.has(date);
+
+  let timeOffMinutes = 0;
+  if (!holiday) {
+    for (const span of input.timeOff) {
+      if (date < span.startDate || date > span.endDate) continue;
+      timeOffMinutes += span.minutesPerDay ?? baseMinutes;
+    }
+    timeOffMinutes = Math.min(timeOffMinutes, baseMinutes);
+  }
+
+  return {
+    date,
+    baseMinutes,
+    holiday,
+    timeOffMinutes,
+    availableMinutes: holiday ? 0 : baseMinutes - timeOffMinutes,
+  };
+}
+
+/** One entry per day from `from` to `to`, inclusive. */
+export function capacityDays(input: CapacityCalendarInput, from: string, to: string): CapacityDay[] {
+  const days: CapacityDay[] = [];
+  for (let date = from; date <= to; date = addDaysIso(date, 1)) {
+    days.push(capacityForDay(input, date));
+  }
+  return days;
+}
+
+export function availableMinutes(input: CapacityCalendarInput, from: string, to: string): number {
+  return capacityDays(input, from, to).reduce((sum, day) => sum + day.availableMinutes, 0);
+}
+
+/** Working days (base minutes > 0) in `days` that are lost entirely to a holiday or time off. */
+export function daysOff(days: CapacityDay[]): number {
+  return days.filter((day) => day.baseMinutes > 0 && day.availableMinutes === 0).length;
+}
@@ -5,6 +5,8 @@ import { UserRole, SupportTicketSource, SupportTicketAuthorType, SupportTicketEv
 import type { Request, Response, NextFunction } from "express";
 import { getClientUserAccessibleClients } from "../../middleware/clientAccess";
 import { handleRouteError, AppError } from "../../lib/errors";
+import { publishWebhookEvent } from "../webhooks/webhook.service";
+import { WEBHOOK_EVENTS } from "@shared/events";
 
 const router = Router();
 
@@ -163,6 +165,7 @@ router.post("/tickets", async (req, res) => {
         visibility: "public",
       });
     }
+    publishWebhookEvent(tenantId, WEBHOOK_EVENTS.SUPPORT_TICKET_CREATED, { ticket });
 
     res.status(201).json(ticket);
   } catch (error) {
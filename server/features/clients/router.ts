@@ -23,6 +23,8 @@ import {
 import { UserRole } from "@shared/schema";
 import type { Request } from "express";
 import { handleRouteError, AppError } from "../../lib/errors";
+import { publishWebhookEvent } from "../webhooks/webhook.service";
+import { WEBHOOK_EVENTS } from "@shared/events";
 
 function getCurrentUserId(req: Request): string {
   return req.user?.id || "demo-user-id";
@@ -123,12 +125,22 @@ router.patch("/:id/stage", async (req, res) => {
     const { stage } = schema.parse(req.body);
     const userId = (req.user as any)?.id;
 
+    const before = await storage.getClientByIdAndTenant(req.params.id, tenantId);
     const updated = await storage.updateClientStage(req.params.id, tenantId, stage, userId);
     if (!updated) {
       throw AppError.notFound("Client");
     }
 
     emitClientUpdated(updated);
+    if (before && before.stage !== updated.stage) {
+      publishWebhookEvent(tenantId, WEBHOOK_EVENTS.CLIENT_STAGE_CHANGED, {
+        clientId: updated.id,
+        fromStage: before.stage,
+        toStage: updated.stage,
+        changedByUserId: userId ?? null,
+        source: "manual",
+      });
+    }
     return res.json(updated);
   } catch (error) {
     return handleRouteError(res, error, "PATCH /:id/stage", req);
@@ -211,6 +223,7 @@ router.post("/", async (req, res) => {
       },
       workspaceId,
     );
+    publishWebhookEvent(client.tenantId, WEBHOOK_EVENTS.CLIENT_CREATED, { client });
 
     res.status(201).json(client);
   } catch (error) {
@@ -0,0 +1,180 @@
+import { eq, and, asc, inArray, sql } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  customFieldDefinitions,
+  customFieldValues,
+  clients,
+  projects,
+  tasks,
+  users,
+  CustomFieldEntityType,
+  type CustomFieldDefinition,
+  type CustomFieldEntityTypeValue,
+  type InsertCustomFieldDefinition,
+} from "@shared/schema";
+import type { CustomFieldValue } from "@shared/customFields";
+import { projectVisibilityFilter, visibleTaskFilter } from "../../lib/privateVisibility";
+
+export type CustomFieldDefinitionUpdate = Partial<
+  Pick<CustomFieldDefinition, "label" | "description" | "options" | "currencyCode" | "isRequired" | "orderIndex">
+>;
+
+export interface CustomFieldValueWrite {
+  fieldId: string;
+  value: CustomFieldValue | null;
+}
+
+export const customFieldRepo = {
+  async listDefinitions(tenantId: string, entityType?: CustomFieldEntityTypeValue) {
+    const conditions = [eq(customFieldDefinitions.tenantId, tenantId)];
+    if (entityType) conditions.push(eq(customFieldDefinitions.entityType, entityType));
+    return db
+      .select()
+      .from(customFieldDefinitions)
+      .where(and(...conditions))
+      .orderBy(asc(customFieldDefinitions.entityType), asc(customFieldDefinitions.orderIndex), asc(customFieldDefinitions.createdAt));
+  },
+
+  async getDefinition(id: string, tenantId: string) {
+    const [row] = await db
+      .select()
+      .from(customFieldDefinitions)
+      .where(and(eq(customFieldDefinitions.id, id), eq(customFieldDefinitions.tenantId, tenantId)));
+    return row || null;
+  },
+
+  async createDefinition(input: InsertCustomFieldDefinition) {
+    const [row] = await db.insert(customFieldDefinitions).values(input).returning();
+    return row;
+  },
+
+  async updateDefinition(id: string, tenantId: string, updates: CustomFieldDefinitionUpdate) {
+    const [row] = await db
+      .update(customFieldDefinitions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(customFieldDefinitions.id, id), eq(customFieldDefinitions.tenantId, tenantId)))
+      .returning();
+    return row || null;
+  },
+
+  async deleteDefinition(id: string, tenantId: string) {
+    await db
+      .delete(customFieldDefinitions)
+      .where(and(eq(customFieldDefinitions.id, id), eq(customFieldDefinitions.tenantId, tenantId)));
+  },
+
+  async listValues(tenantId: string, entityType: CustomFieldEntityTypeValue, entityIds?: string[]) {
+    if (entityIds && entityIds.length === 0) return [];
+    const conditions = [
+      eq(customFieldValues.tenantId, tenantId),
+      eq(customFieldValues.entityType, entityType),
+    ];
+    if (entityIds) conditions.push(inArray(customFieldValues.entityId, entityIds));
+    return db
+      .select({
+        entityId: customFieldValues.entityId,
+        fieldId: customFieldValues.fieldId,
+        value: customFieldValues.value,
+      })
+      .from(customFieldValues)
+      .where(and(...conditions));
+  },
+
+  /** Upserts non-null values and deletes cleared ones for a single entity. */
+  async writeValues(
+    tenantId: string,
+    entityType: CustomFieldEntityTypeValue,
+    entityId: string,
+    writes: CustomFieldValueWrite[],
+    userId: string | null,
+  ) {
+    if (writes.length === 0) return;
+    await db.transaction(async (tx) => {
+      const cleared = writes.filter((w) => w.value === null).map((w) => w.fieldId);
+      if (cleared.length > 0) {
+        await tx
+          .delete(customFieldValues)
+          .where(and(
+            eq(customFieldValues.tenantId, tenantId),
+            eq(customFieldValues.entityId, entityId),
+            inArray(customFieldValues.fieldId, cleared),
+          ));
+      }
+
+      const set = writes.filter((w) => w.value !== null);
+      if (set.length > 0) {
+        await tx
+          .insert(customFieldValues)
+          .values(set.map((w) => ({
+            tenantId,
+            fieldId: w.fieldId,
+            entityType,
+            entityId,
+            value: w.value,
+            updatedBy: userId,
+          })))
+          .onConflictDoUpdate({
+            target: [customFieldValues.fieldId, customFieldValues.entityId],
+            set: {
+              value: sql`excluded.value`,
+              updatedBy: sql`excluded.updated_by`,
+              updatedAt: new Date(),
+            },
+          });
+      }
+    });
+  },
+
+  /** Whether the entity exists in the tenant (values are keyed by a bare entity id). */
+  async entityExists(tenantId: string, entityType: CustomFieldEntityTypeValue, entityId: string): Promise<boolean> {
+    const table = entityType === CustomFieldEntityType.TASK
+      ? tasks
+      : entityType === CustomFieldEntityType.PROJECT
+        ? projects
+        : clients;
+    const [row] = await db
+      .select({ id: table.id })
+      .from(table)
+      .where(and(eq(table.id, entityId), eq(table.tenantId, tenantId)));
+    return !!row;
+  },
+
+  /**
+   * Tasks or projects the user may see, optionally narrowed to one entity or one project's
+   * tasks. Undefined for clients, which every staff member may see.
+   */
+  async listVisibleEntityIds(
+    tenantId: string,
+    entityType: CustomFieldEntityTypeValue,
+    userId: string,
+    scope: { entityId?: string; projectId?: string } = {},
+  ): Promise<string[] | undefined> {
+    if (entityType === CustomFieldEntityType.TASK) {
+      const conditions = [visibleTaskFilter(userId, tenantId)];
+      if (scope.entityId) conditions.push(eq(tasks.id, scope.entityId));
+      if (scope.projectId) conditions.push(eq(tasks.projectId, scope.projectId));
+      const rows = await db
+        .select({ id: tasks.id })
+        .from(tasks)
+        .leftJoin(projects, eq(projects.id, tasks.projectId))
+        .where(and(...conditions));
+      return rows.map((r) => r.id);
+    }
+    if (entityType === CustomFieldEntityType.PROJECT) {
+      const conditions = [eq(projects.tenantId, tenantId), projectVisibilityFilter(userId, tenantId)];
+      if (scope.entityId) conditions.push(eq(projects.id, scope.entityId));
+      const rows = await db.select({ id: projects.id }).from(projects).where(and(...conditions));
+      return rows.map((r) => r.id);
+    }
+    return undefined;
+  },
+
+  async getTenantUserIds(tenantId: string, userIds: string[]): Promise<string[]> {
+    if (userIds.length === 0) return [];
+    const rows = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.tenantId, tenantId), inArray(users.id, userIds)));
+    return rows.map((r) => r.id);
+  },
+};
@@ -0,0 +1,226 @@
+import { AppError } from "../../lib/errors";
+import {
+  CustomFieldType,
+  type CustomFieldDefinition,
+  type CustomFieldEntityTypeValue,
+  type InsertCustomFieldDefinition,
+} from "@shared/schema";
+import {
+  normalizeCustomFieldValue,
+  matchesCustomFieldFilters,
+  type CustomFieldValue,
+  type CustomFieldValueMap,
+} from "@shared/customFields";
+import { CUSTOM_FIELD_KEY_PREFIX } from "@shared/imports/fieldCatalog";
+import { customFieldRepo, type CustomFieldDefinitionUpdate, type CustomFieldValueWrite } from "./customField.repo";
+
+type CreateDefinitionInput = Omit<InsertCustomFieldDefinition, "tenantId" | "createdBy">;
+
+const SELECT_TYPES: string[] = [CustomFieldType.SELECT, CustomFieldType.MULTI_SELECT];
+
+function checkOptions(fieldType: string, options: string[] | null | undefined) {
+  if (!SELECT_TYPES.includes(fieldType)) return;
+  if (!options || options.length === 0) {
+    throw AppError.badRequest("Select fields need at least one option");
+  }
+  const lowered = options.map((o) => o.toLowerCase());
+  if (new Set(lowered).size !== lowered.length) {
+    throw AppError.badRequest("Select options must be unique");
+  }
+}
+
+function toKeyedMap(definitions: CustomFieldDefinition[], rows: { fieldId: string; value: unknown }[]): CustomFieldValueMap {
+  const keyById = new Map(definitions.map((d) => [d.id, d.key]));
+  const result: CustomFieldValueMap = {};
+  for (const row of rows) {
+    const key = keyById.get(row.fieldId);
+    if (key) result[key] = row.value as CustomFieldValue;
+  }
+  return result;
+}
+
+export const customFieldService = {
+  listDefinitions(tenantId: string, entityType?: CustomFieldEntityTypeValue) {
+    return customFieldRepo.listDefinitions(tenantId, entityType);
+  },
+
+  async createDefinition(tenantId: string, input: CreateDefinitionInput, userId: string) {
+    checkOptions(input.fieldType, input.options);
+    const existing = await customFieldRepo.listDefinitions(tenantId, input.entityType as CustomFieldEntityTypeValue);
+    if (existing.some((d) => d.key === input.key)) {
+      throw AppError.conflict(`A ${input.entityType} field with key "${input.key}" already exists`);
+    }
+    return customFieldRepo.createDefinition({
+      ...input,
+      tenantId,
+      options: SELECT_TYPES.includes(input.fieldType) ? input.options : [],
+      currencyCode: input.fieldType === CustomFieldType.CURRENCY ? input.currencyCode ?? "USD" : null,
+      orderIndex: input.orderIndex ?? existing.length,
+      createdBy: userId,
+    });
+  },
+
+  async updateDefinition(tenantId: string, id: string, updates: CustomFieldDefinitionUpdate) {
+    const definition = await customFieldRepo.getDefinition(id, tenantId);
+    if (!definition) throw AppError.notFound("Custom field");
+    if (updates.options !== undefined) checkOptions(definition.fieldType, updates.options);
+    return customFieldRepo.updateDefinition(id, tenantId, updates);
+  },
+
+  /** Deletes the field definition together with all of its stored values. */
+  async deleteDefinition(tenantId: string, id: string) {
+    const definition = await customFieldRepo.getDefinition(id, tenantId);
+    if (!definition) throw AppError.notFound("Custom field");
+    await customFieldRepo.deleteDefinition(id, tenantId);
+    return definition;
+  },
+
+  async getValues(tenantId: string, entityType: CustomFieldEntityTypeValue, entityId: string): Promise<CustomFieldValueMap> {
+    if (!(await customFieldRepo.entityExists(tenantId, entityType, entityId))) {
+      throw AppError.notFound("Entity");
+    }
+    const [definitions, rows] = await Promise.all([
+      customFieldRepo.listDefinitions(tenantId, entityType),
+      customFieldRepo.listValues(tenantId, entityType, [entityId]),
+    ]);
+    return toKeyedMap(definitions, rows);
+  },
+
+  /** Values for many entities at once (list views), keyed by entity id then field key. */
+  async getValuesForEntities(
+    tenantId: string,
+    entityType: CustomFieldEntityTypeValue,
+    entityIds?: string[],
+  ): Promise<Record<string, CustomFieldValueMap>> {
+    const [definitions, rows] = await Promise.all([
+      customFieldRepo.listDefinitions(tenantId, entityType),
+      customFieldRepo.listValues(tenantId, entityType, entityIds),
+    ]);
+    const byEntity = new Map<string, typeof rows>();
+    for (const row of rows) {
+      const list = byEntity.get(row.entityId) ?? [];
+      list.push(row);
+      byEntity.set(row.entityId, list);
+    }
+    const result: Record<string, CustomFieldValueMap> = {};
+    for (const [entityId, entityRows] of Array.from(byEntity.entries())) {
+      result[entityId] = toKeyedMap(definitions, entityRows);
+    }
+    return result;
+  },
+
+  /** Throws not found when the entity is missing or is a task or project the user cannot see. */
+  async assertCanAccess(tenantId: string, entityType: CustomFieldEntityTypeValue, entityId: string, userId: string) {
+    const visible = await customFieldRepo.listVisibleEntityIds(tenantId, entityType, userId, { entityId });
+    if (visible ? !visible.includes(entityId) : !(await customFieldRepo.entityExists(tenantId, entityType, entityId))) {
+      throw AppError.notFound("Entity");
+    }
+  },
+
+  /** Values of the entities the user can see; `projectId` narrows tasks to one project. */
+  async getVisibleValues(
+    tenantId: string,
+    entityType: CustomFieldEntityTypeValue,
+    userId: string,
+    projectId?: string,
+  ): Promise<Record<string, CustomFieldValueMap>> {
+    const visible = await customFieldRepo.listVisibleEntityIds(tenantId, entityType, userId, { projectId });
+    if (projectId) return this.getValuesForEntities(tenantId, entityType, visible);
+    const values = await this.getValuesForEntities(tenantId, entityType);
+    if (!visible) return values;
+    const allowed = new Set(visible);
+    const result: Record<string, CustomFieldValueMap> = {};
+    for (const entityId of Object.keys(values)) {
+      if (allowed.has(entityId)) result[entityId] = values[entityId];
+    }
+    return result;
+  },
+
+  /**
+   * Validates and stores values given as `{ fieldKey: rawValue }`. Keys that are absent are left
+   * untouched; null or empty values clear the field unless it is required.
+   */
+  async setValues(
+    tenantId: string,
+    entityType: CustomFieldEntityTypeValue,
+    entityId: string,
+    raw: Record<string, unknown>,
+    userId: string | null,
+  ): Promise<CustomFieldValueMap> {
+    if (!(await customFieldRepo.entityExists(tenantId, entityType, entityId))) {
+      throw AppError.notFound("Entity");
+    }
+    const definitions = await customFieldRepo.listDefinitions(tenantId, entityType);
+    const byKey = new Map(definitions.map((d) => [d.key, d]));
+
+    const errors: { field: string; message: string }[] = [];
+    const writes: CustomFieldValueWrite[] = [];
+    const userIds: string[] = [];
+    for (const [key, value] of Object.entries(raw)) {
+      const definition = byKey.get(key);
+      if (!definition) {
+        errors.push({ field: key, message: `Unknown custom field "${key}"` });
+        continue;
+      }
+      const result = normalizeCustomFieldValue(definition, value);
+      if (!result.ok) {
+        errors.push({ field: key, message: result.error });
+        continue;
+      }
+      if (result.value === null && definition.isRequired) {
+        errors.push({ field: key, message: `${definition.label} is required` });
+        continue;
+      }
+      if (definition.fieldType === CustomFieldType.USER && typeof result.value === "string") {
+        userIds.push(result.value);
+      }
+      writes.push({ fieldId: definition.id, value: result.value });
+    }
+
+    if (userIds.length > 0) {
+      const known = new Set(await customFieldRepo.getTenantUserIds(tenantId, userIds));
+      for (const id of userIds.filter((u) => !known.has(u))) {
+        errors.push({ field: "user", message: `User ${id} not found` });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw AppError.badRequest("Invalid custom field values", errors);
+    }
+
+    await customFieldRepo.writeValues(tenantId, entityType, entityId, writes, userId);
+    const rows = await customFieldRepo.listValues(tenantId, entityType, [entityId]);
+    return toKeyedMap(definitions, rows);
+  },
+
+  /**
+   * CSV columns for the tenant's fields of an entity type. Headers use the import catalog's
+   * `custom.<key>` targets and cells use the import syntax, so exports re-import unchanged.
+   */
+  async getExportColumns(tenantId: string, entityType: CustomFieldEntityTypeValue) {
+    const definitions = await customFieldRepo.listDefinitions(tenantId, entityType);
+    const values = definitions.length > 0 ? await this.getValuesForEntities(tenantId, entityType) : {};
+    return {
+      headers: definitions.map((d) => `${CUSTOM_FIELD_KEY_PREFIX}${d.key}`),
+      cells: (entityId: string) => definitions.map((d) => {
+        const value = values[entityId]?.[d.key];
+        if (value === undefined) return null;
+        return Array.isArray(value) ? value.join("; ") : value;
+      }),
+    };
+  },
+
+  /** Narrows `entityIds` to those whose values satisfy every `{ fieldKey: filter }` entry. */
+  async filterEntityIds(
+    tenantId: string,
+    entityType: CustomFieldEntityTypeValue,
+    entityIds: string[],
+    filters: Record<string, string>,
+  ): Promise<Set<string>> {
+    const [definitions, values] = await Promise.all([
+      customFieldRepo.listDefinitions(tenantId, entityType),
+      this.getValuesForEntities(tenantId, entityType, entityIds),
+    ]);
+    return new Set(entityIds.filter((id) => matchesCustomFieldFilters(definitions, values[id], filters)));
+  },
+};
@@ -0,0 +1,239 @@
+import { eq, and, desc, count, sql } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  inboundMailboxes,
+  inboundReplyTokens,
+  inboundEmails,
+  clientContacts,
+  clientConversations,
+  clientMessages,
+  clientUserAccess,
+  clients,
+  projects,
+  tasks,
+  tenants,
+  users,
+  type ClientConversation,
+  type ClientMessage,
+  type InboundEmail,
+  type InboundMailbox,
+  type InboundReplyToken,
+  type InsertInboundEmail,
+} from "@shared/schema";
+
+export type InboundEmailUpdate = Partial<Pick<
+  InboundEmail,
+  "status" | "quarantineReason" | "error" | "targetType" | "targetId" | "clientId"
+  | "senderUserId" | "senderContactId" | "attachments" | "reviewedBy" | "reviewedAt"
+>>;
+
+export interface SenderRecords {
+  user: { id: string; role: string; isActive: boolean; tenantId: string | null } | null;
+  /** Clients the user may see through the portal, when the user is a portal user. */
+  portalClientIds: string[];
+  contacts: Array<{ id: string; clientId: string }>;
+}
+
+export interface TaskTarget {
+  id: string;
+  title: string;
+  tenantId: string | null;
+  clientId: string | null;
+}
+
+export const inboundEmailRepo = {
+  // ── Mailboxes ──────────────────────────────────────────────────────────────
+
+  async getMailbox(tenantId: string): Promise<InboundMailbox | undefined> {
+    const [row] = await db.select().from(inboundMailboxes).where(eq(inboundMailboxes.tenantId, tenantId));
+    return row;
+  },
+
+  async getMailboxByKey(mailboxKey: string): Promise<InboundMailbox | undefined> {
+    const [row] = await db.select().from(inboundMailboxes).where(eq(inboundMailboxes.mailboxKey, mailboxKey));
+    return row;
+  },
+
+  async upsertMailbox(tenantId: string, values: { mailboxKey: string; enabled: boolean }): Promise<InboundMailbox> {
+    const [row] = await db
+      .insert(inboundMailboxes)
+      .values({ tenantId, ...values })
+      .onConflictDoUpdate({
+        target: inboundMailboxes.tenantId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return row;
+  },
+
+  async getTenantSlug(tenantId: string): Promise<string | null> {
+    const [row] = await db.select({ slug: tenants.slug }).from(tenants).where(eq(tenants.id, tenantId));
+    return row?.slug ?? null;
+  },
+
+  // ── Reply tokens ───────────────────────────────────────────────────────────
+
+  async getReplyToken(token: string): Promise<InboundReplyToken | undefined> {
+    const [row] = await db.select().from(inboundReplyTokens).where(eq(inboundReplyTokens.token, token));
+    return row;
+  },
+
+  /** The target's token, creating it with `candidate` on first use. */
+  async ensureReplyToken(tenantId: string, targetType: string, targetId: string, candidate: string): Promise<InboundReplyToken> {
+    await db
+      .insert(inboundReplyTokens)
+      .values({ tenantId, targetType, targetId, token: candidate })
+      .onConflictDoNothing();
+    const [row] = await db
+      .select()
+      .from(inboundReplyTokens)
+      .where(and(
+        eq(inboundReplyTokens.tenantId, tenantId),
+        eq(inboundReplyTokens.targetType, targetType),
+        eq(inboundReplyTokens.targetId, targetId),
+      ));
+    return row;
+  },
+
+  async touchReplyToken(id: string): Promise<void> {
+    await db.update(inboundReplyTokens).set({ lastUsedAt: new Date() }).where(eq(inboundReplyTokens.id, id));
+  },
+
+  // ── Senders ────────────────────────────────────────────────────────────────
+
+  async findSender(tenantId: string, email: string): Promise<SenderRecords> {
+    const [user] = await db
+      .select({ id: users.id, role: users.role, isActive: users.isActive, tenantId: users.tenantId })
+      .from(users)
+      .where(sql`lower(${users.email}) = ${email}`);
+    const tenantUser = user && user.tenantId === tenantId ? user : null;
+
+    const [portalAccess, contacts] = await Promise.all([
+      tenantUser
+        ? db
+          .select({ clientId: clientUserAccess.clientId })
+          .from(clientUserAccess)
+          .innerJoin(clients, eq(clients.id, clientUserAccess.clientId))
+          .where(and(eq(clientUserAccess.userId, tenantUser.id), eq(clients.tenantId, tenantId)))
+        : Promise.resolve([]),
+      db
+        .select({ id: clientContacts.id, clientId: clientContacts.clientId })
+        .from(clientContacts)
+        .where(and(eq(clientContacts.tenantId, tenantId), sql`lower(${clientContacts.email}) = ${email}`)),
+    ]);
+
+    return {
+      user: tenantUser,
+      portalClientIds: portalAccess.map((row) => row.clientId),
+      contacts,
+    };
+  },
+
+  async createContact(tenantId: string, clientId: string, email: string, name: string | null): Promise<string | null> {
+    const [client] = await db
+      .select({ workspaceId: clients.workspaceId })
+      .from(clients)
+      .where(and(eq(clients.id, clientId), eq(clients.tenantId, tenantId)));
+    if (!client?.workspaceId) return null;
+    const [firstName, ...rest] = (name ?? "").split(/\s+/).filter(Boolean);
+    const [row] = await db
+      .insert(clientContacts)
+      .values({
+        tenantId,
+        clientId,
+        workspaceId: client.workspaceId,
+        email,
+        firstName: firstName ?? null,
+        lastName: rest.join(" ") || null,
+      })
+      .returning({ id: clientContacts.id });
+    return row.id;
+  },
+
+  async clientExists(tenantId: string, clientId: string): Promise<boolean> {
+    const [row] = await db
+      .select({ id: clients.id })
+      .from(clients)
+      .where(and(eq(clients.id, clientId), eq(clients.tenantId, tenantId)));
+    return !!row;
+  },
+
+  // ── Targets ────────────────────────────────────────────────────────────────
+
+  async getConversation(id: string, tenantId: string): Promise<ClientConversation | undefined> {
+    const [row] = await db
+      .select()
+      .from(clientConversations)
+      .where(and(eq(clientConversations.id, id), eq(clientConversations.tenantId, tenantId)));
+    return row;
+  },
+
+  async addConversationMessage(conversation: ClientConversation, authorUserId: string, bodyText: string): Promise<ClientMessage> {
+    const [message] = await db.insert(clientMessages).values({
+      tenantId: conversation.tenantId,
+      conversationId: conversation.id,
+      authorUserId,
+      bodyText,
+      visibility: "public",
+    }).returning();
+    await db
+      .update(clientConversations)
+      .set({ updatedAt: new Date() })
+      .where(eq(clientConversations.id, conversation.id));
+    return message;
+  },
+
+  async getTask(id: string, tenantId: string): Promise<TaskTarget | undefined> {
+    const [row] = await db
+      .select({ id: tasks.id, title: tasks.title, tenantId: tasks.tenantId, clientId: projects.clientId })
+      .from(tasks)
+      .leftJoin(projects, eq(projects.id, tasks.projectId))
+      .where(and(eq(tasks.id, id), eq(tasks.tenantId, tenantId)));
+    return row;
+  },
+
+  // ── Received mail ──────────────────────────────────────────────────────────
+
+  /** Undefined when the tenant already received this Message-ID (provider retries). */
+  async createInboundEmail(values: InsertInboundEmail): Promise<InboundEmail | undefined> {
+    const [row] = await db.insert(inboundEmails).values(values).onConflictDoNothing().returning();
+    return row;
+  },
+
+  async getInboundEmail(id: string, tenantId: string): Promise<InboundEmail | undefined> {
+    const [row] = await db
+      .select()
+      .from(inboundEmails)
+      .where(and(eq(inboundEmails.id, id), eq(inboundEmails.tenantId, tenantId)));
+    return row;
+  },
+
+  async updateInboundEmail(id: string, tenantId: string, updates: InboundEmailUpdate): Promise<InboundEmail | undefined> {
+    const [row] = await db
+      .update(inboundEmails)
+      .set(updates)
+      .where(and(eq(inboundEmails.id, id), eq(inboundEmails.tenantId, tenantId)))
+      .returning();
+    return row;
+  },
+
+  async listInboundEmails(
+    tenantId: string,
+    filters: { status?: string; limit: number; offset: number },
+  ): Promise<{ emails: InboundEmail[]; total: number }> {
+    const conditions = [eq(inboundEmails.tenantId, tenantId)];
+    if (filters.status) conditions.push(eq(inboundEmails.status, filters.status));
+    const where = and(...conditions);
+    const [emails, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(inboundEmails)
+        .where(where)
+        .orderBy(desc(inboundEmails.receivedAt))
+        .limit(filters.limit)
+        .offset(filters.offset),
+      db.select({ total: count() }).from(inboundEmails).where(where),
+    ]);
+    return { emails, total: Number(total) };
+  },
+};
@@ -0,0 +1,477 @@
+import { randomBytes, randomUUID } from "crypto";
+import { AppError } from "../../lib/errors";
+import { storage } from "../../storage";
+import { canViewTask } from "../../lib/privateVisibility";
+import { uploadToS3, validateFile } from "../../s3";
+import { isFilenameUnsafe, sanitizeFilename } from "../../http/middleware/uploadGuards";
+import { emailOutboxService } from "../../services/emailOutbox";
+import { assetService } from "../assetLibrary/asset.service";
+import { publishWebhookEvent } from "../webhooks/webhook.service";
+import { isErasedEmail } from "../privacy/dataSubjectErasure";
+import { WEBHOOK_EVENTS } from "@shared/events";
+import {
+  InboundEmailStatus,
+  InboundEmailTarget,
+  InboundQuarantineReason,
+  SupportTicketAuthorType,
+  SupportTicketEventType,
+  SupportTicketSource,
+  SupportTicketStatus,
+  UserRole,
+  type InboundEmail,
+  type InboundEmailAttachment,
+  type InboundEmailTargetType,
+  type ReleaseInboundEmail,
+  type SupportTicket,
+  type UpdateInboundMailbox,
+} from "@shared/schema";
+import { inboundEmailRepo, type InboundEmailUpdate, type SenderRecords } from "./inboundEmail.repo";
+import {
+  isAutoGenerated,
+  parseInboundAddress,
+  stripQuotedReply,
+  type ParsedInboundEmail,
+} from "./inboundParser";
+
+const MAX_ATTACHMENTS = 10;
+const MAX_TITLE_LENGTH = 500;
+
+export interface InboundMailboxSettings {
+  /** INBOUND_EMAIL_DOMAIN; null when inbound email is not set up on this server. */
+  domain: string | null;
+  mailboxKey: string;
+  enabled: boolean;
+  address: string | null;
+}
+
+export type ReceiveResult =
+  | { accepted: false; reason: string }
+  | { accepted: true; emailId: string; status: string; duplicate?: boolean };
+
+/** Who wrote an inbound message, as far as the tenant's records tell. */
+export interface InboundSender {
+  email: string;
+  name: string | null;
+  /** An active tenant user other than a portal user. */
+  staffUserId: string | null;
+  portalUserId: string | null;
+  /** Clients the sender belongs to, as a portal user or a contact. */
+  clientIds: string[];
+  contactIdByClient: Map<string, string>;
+}
+
+type Delivery = { targetType: InboundEmailTargetType; targetId: string; clientId: string | null };
+type Outcome = Delivery | { quarantineReason: string };
+
+export function inboundDomain(): string | null {
+  return process.env.INBOUND_EMAIL_DOMAIN?.trim().toLowerCase() || null;
+}
+
+export function describeSender(email: string, name: string | null, records: SenderRecords): InboundSender {
+  const user = records.user?.isActive ? records.user : null;
+  const isPortalUser = user?.role === UserRole.CLIENT;
+  const contactIdByClient = new Map(records.contacts.map((contact) => [contact.clientId, contact.id]));
+  const clientIds = new Set<string>(contactIdByClient.keys());
+  if (isPortalUser) records.portalClientIds.forEach((clientId) => clientIds.add(clientId));
+  return {
+    email,
+    name,
+    staffUserId: user && !isPortalUser ? user.id : null,
+    portalUserId: isPortalUser ? user!.id : null,
+    clientIds: Array.from(clientIds),
+    contactIdByClient,
+  };
+}
+
+/** The client a new message from this sender files under, or why it cannot be filed. */
+export function clientForNewMail(sender: InboundSender): { clientId: string } | { quarantineReason: string } {
+  if (sender.clientIds.length === 1) return { clientId: sender.clientIds[0] };
+  if (sender.clientIds.length > 1) return { quarantineReason: InboundQuarantineReason.AMBIGUOUS_SENDER };
+  if (sender.staffUserId) return { quarantineReason: InboundQuarantineReason.INTERNAL_SENDER };
+  return { quarantineReason: InboundQuarantineReason.UNKNOWN_SENDER };
+}
+
+function newReplyToken(): string {
+  return randomBytes(10).toString("hex");
+}
+
+function ticketTitle(subject: string): string {
+  const title = subject.replace(/^\s*((re|fw|fwd|aw|sv)\s*:\s*)+/i, "").trim() || "(no subject)";
+  return title.slice(0, MAX_TITLE_LENGTH);
+}
+
+async function storeAttachments(
+  tenantId: string,
+  emailId: string,
+  files: ParsedInboundEmail["attachments"],
+): Promise<InboundEmailAttachment[]> {
+  const stored: InboundEmailAttachment[] = [];
+  for (let index = 0; index < files.length; index++) {
+    const file = files[index];
+    const record: InboundEmailAttachment = {
+      fileName: file.fileName,
+      mimeType: file.mimeType,
+      sizeBytes: file.content.length,
+      storageKey: null,
+    };
+    stored.push(record);
+
+    if (index >= MAX_ATTACHMENTS) {
+      record.skippedReason = `Only the first ${MAX_ATTACHMENTS} attachments are kept`;
+      continue;
+    }
+    const validation = validateFile(file.mimeType, file.content.length, file.fileName);
+    if (!validation.valid || isFilenameUnsafe(file.fileName)) {
+      record.skippedReason = validation.error || "File type not allowed";
+      continue;
+    }
+    const key = `inbound-email/${tenantId}/${emailId}/${index + 1}-${sanitizeFilename(file.fileName)}`;
+    try {
+      await uploadToS3(file.content, key, file.mimeType, tenantId);
+      record.storageKey = key;
+    } catch (error) {
+      record.skippedReason = error instanceof Error ? error.message : "Upload failed";
+    }
+  }
+  return stored;
+}
+
+/** Files stored attachments in the client's asset library and links them to the target. */
+async function fileAttachments(
+  email: InboundEmail,
+  delivery: Delivery,
+  sender: InboundSender,
+): Promise<InboundEmailAttachment[]> {
+  return Promise.all(email.attachments.map(async (attachment) => {
+    if (!attachment.storageKey || attachment.assetId) return attachment;
+    if (!delivery.clientId) return { ...attachment, skippedReason: "No client to file the attachment under" };
+    const { asset } = await assetService.createAsset({
+      tenantId: email.tenantId,
+      clientId: delivery.clientId,
+      title: attachment.fileName,
+      mimeType: attachment.mimeType,
+      sizeBytes: attachment.sizeBytes,
+      r2Key: attachment.storageKey,
+      sourceType: "email",
+      sourceId: email.id,
+      sourceContextJson: { from: email.fromEmail, subject: email.subject, targetType: delivery.targetType, targetId: delivery.targetId },
+      visibility: "internal",
+      uploadedByType: sender.portalUserId ? "portal_user" : sender.staffUserId ? "tenant_user" : "system",
+      uploadedByUserId: sender.staffUserId,
+      uploadedByPortalUserId: sender.portalUserId,
+    });
+    if (!asset) return attachment;
+    await assetService.createLink(email.tenantId, asset.id, delivery.targetType, delivery.targetId);
+    return { ...attachment, assetId: asset.id };
+  }));
+}
+
+async function createTicket(
+  tenantId: string,
+  clientId: string,
+  sender: InboundSender,
+  email: InboundEmail,
+  extraMetadata: Record<string, unknown> = {},
+): Promise<Delivery> {
+  const authorType = sender.portalUserId ? SupportTicketAuthorType.PORTAL_USER : SupportTicketAuthorType.CONTACT;
+  const ticket = await storage.createSupportTicket({
+    tenantId,
+    clientId,
+    createdByUserId: null,
+    createdByPortalUserId: sender.portalUserId,
+    title: ticketTitle(email.subject),
+    description: email.bodyText || null,
+    priority: "normal",
+    category: "support",
+    source: SupportTicketSource.EMAIL,
+    assignedToUserId: null,
+    dueAt: null,
+    metadataJson: {
+      inboundEmailId: email.id,
+      requesterEmail: sender.email,
+      requesterName: sender.name,
+      ...extraMetadata,
+    },
+  });
+
+  await storage.createSupportTicketEvent({
+    tenantId,
+    ticketId: ticket.id,
+    actorType: authorType,
+    actorPortalUserId: sender.portalUserId,
+    eventType: SupportTicketEventType.CREATED,
+    payloadJson: { title: ticket.title, source: SupportTicketSource.EMAIL },
+  });
+  if (email.bodyText) {
+    await storage.createSupportTicketMessage({
+      tenantId,
+      ticketId: ticket.id,
+      authorType,
+      authorUserId: null,
+      authorPortalUserId: sender.portalUserId,
+      authorEmail: sender.email,
+      bodyText: email.bodyText,
+      visibility: "public",
+    });
+  }
+  publishWebhookEvent(tenantId, WEBHOOK_EVENTS.SUPPORT_TICKET_CREATED, { ticket });
+  return { targetType: InboundEmailTarget.SUPPORT_TICKET, targetId: ticket.id, clientId };
+}
+
+async function replyToTicket(ticket: SupportTicket, sender: InboundSender, email: InboundEmail, bodyText: string): Promise<Outcome> {
+  const isStaff = !!sender.staffUserId;
+  const isClientSide = !!ticket.clientId && sender.clientIds.includes(ticket.clientId);
+  if (!isStaff && !isClientSide) return { quarantineReason: InboundQuarantineReason.NOT_PERMITTED };
+
+  // Closed tickets take no replies (as in the portal); a client's follow-up opens a new one
+  if (ticket.status === SupportTicketStatus.CLOSED) {
+    if (!isClientSide) return { quarantineReason: InboundQuarantineReason.TARGET_CLOSED };
+    return createTicket(ticket.tenantId, ticket.clientId!, sender, email, { followUpOfTicketId: ticket.id });
+  }
+
+  await storage.createSupportTicketMessage({
+    tenantId: ticket.tenantId,
+    ticketId: ticket.id,
+    authorType: isStaff
+      ? SupportTicketAuthorType.TENANT_USER
+      : sender.portalUserId ? SupportTicketAuthorType.PORTAL_USER : SupportTicketAuthorType.CONTACT,
+    authorUserId: sender.staffUserId,
+    authorPortalUserId: isStaff ? null : sender.portalUserId,
+    authorEmail: sender.email,
+    bodyText,
+    visibility: "public",
+  });
+
+  if (isStaff && !ticket.firstResponseAt) {
+    await storage.setTicketFirstResponse(ticket.id, ticket.tenantId, new Date());
+  } else if (!isStaff && ticket.status === SupportTicketStatus.WAITING_ON_CLIENT) {
+    await storage.updateSupportTicket(ticket.id, ticket.tenantId, { status: SupportTicketStatus.OPEN } as any);
+  }
+  return { targetType: InboundEmailTarget.SUPPORT_TICKET, targetId: ticket.id, clientId: ticket.clientId };
+}
+
+async function deliverReply(tenantId: string, targetType: string, targetId: string, sender: InboundSender, email: InboundEmail): Promise<Outcome | null> {
+  const bodyText = stripQuotedReply(email.bodyText);
+
+  switch (targetType) {
+    case InboundEmailTarget.SUPPORT_TICKET: {
+      const ticket = await storage.getSupportTicket(targetId);
+      if (!ticket || ticket.tenantId !== tenantId) return null;
+      return replyToTicket(ticket, sender, email, bodyText);
+    }
+    case InboundEmailTarget.CLIENT_CONVERSATION: {
+      const conversation = await inboundEmailRepo.getConversation(targetId, tenantId);
+      if (!conversation) return null;
+      const authorUserId = sender.staffUserId
+        ?? (sender.portalUserId && sender.clientIds.includes(conversation.clientId) ? sender.portalUserId : null);
+      // Conversation messages need an author account; contacts without portal access cannot post
+      if (!authorUserId) return { quarantineReason: InboundQuarantineReason.NOT_PERMITTED };
+      if (conversation.closedAt) return { quarantineReason: InboundQuarantineReason.TARGET_CLOSED };
+      await inboundEmailRepo.addConversationMessage(conversation, authorUserId, bodyText);
+      return { targetType: InboundEmailTarget.CLIENT_CONVERSATION, targetId, clientId: conversation.clientId };
+    }
+    case InboundEmailTarget.TASK: {
+      const task = await inboundEmailRepo.getTask(targetId, tenantId);
+      if (!task) return null;
+      // A former member of a private task must not keep posting to it by email
+      if (!sender.staffUserId || !await canViewTask(tenantId, task.id, sender.staffUserId)) {
+        return { quarantineReason: InboundQuarantineReason.NOT_PERMITTED };
+      }
+      await storage.createComment({ taskId: task.id, userId: sender.staffUserId, body: bodyText });
+      return { targetType: InboundEmailTarget.TASK, targetId, clientId: task.clientId };
+    }
+    default:
+      return null;
+  }
+}
+
+async function finish(email: InboundEmail, outcome: Outcome, sender: InboundSender, extra: InboundEmailUpdate = {}): Promise<InboundEmail> {
+  if ("quarantineReason" in outcome) {
+    return (await inboundEmailRepo.updateInboundEmail(email.id, email.tenantId, {
+      status: InboundEmailStatus.QUARANTINED,
+      quarantineReason: outcome.quarantineReason,
+      error: null,
+      ...extra,
+    }))!;
+  }
+  const attachments = await fileAttachments(email, outcome, sender);
+  return (await inboundEmailRepo.updateInboundEmail(email.id, email.tenantId, {
+    status: InboundEmailStatus.PROCESSED,
+    quarantineReason: null,
+    error: null,
+    targetType: outcome.targetType,
+    targetId: outcome.targetId,
+    clientId: outcome.clientId,
+    senderContactId: outcome.clientId ? sender.contactIdByClient.get(outcome.clientId) ?? null : null,
+    attachments,
+    ...extra,
+  }))!;
+}
+
+export const inboundEmailService = {
+  // ── Mailbox settings ───────────────────────────────────────────────────────
+
+  async getSettings(tenantId: string): Promise<InboundMailboxSettings> {
+    const domain = inboundDomain();
+    const mailbox = await inboundEmailRepo.getMailbox(tenantId);
+    const mailboxKey = mailbox?.mailboxKey ?? (await inboundEmailRepo.getTenantSlug(tenantId) ?? "").toLowerCase();
+    return {
+      domain,
+      mailboxKey,
+      enabled: mailbox?.enabled ?? false,
+      address: domain && mailboxKey ? `${mailboxKey}@${domain}` : null,
+    };
+  },
+
+  async updateSettings(tenantId: string, input: UpdateInboundMailbox): Promise<InboundMailboxSettings> {
+    const owner = await inboundEmailRepo.getMailboxByKey(input.mailboxKey);
+    if (owner && owner.tenantId !== tenantId) throw AppError.conflict("That mailbox name is already taken");
+    await inboundEmailRepo.upsertMailbox(tenantId, input);
+    return this.getSettings(tenantId);
+  },
+
+  /**
+   * Reply-To address that threads a reply onto the target, or null when the tenant has no
+   * enabled mailbox (callers then keep the transport's default Reply-To).
+   */
+  async replyAddressFor(tenantId: string, targetType: InboundEmailTargetType, targetId: string): Promise<string | null> {
+    const domain = inboundDomain();
+    if (!domain) return null;
+    const mailbox = await inboundEmailRepo.getMailbox(tenantId);
+    if (!mailbox?.enabled) return null;
+    const { token } = await inboundEmailRepo.ensureReplyToken(tenantId, targetType, targetId, newReplyToken());
+    return `${mailbox.mailboxKey}+${token}@${domain}`;
+  },
+
+  /** Emails a public staff reply on an email-sourced ticket to its requester. */
+  async sendTicketReply(ticket: SupportTicket, authorName: string, bodyText: string): Promise<void> {
+    const metadata = (ticket.metadataJson ?? {}) as { requesterEmail?: string };
+    if (ticket.source !== SupportTicketSource.EMAIL || !metadata.requesterEmail) return;
+    if (isErasedEmail(metadata.requesterEmail)) return;
+    const replyTo = await this.replyAddressFor(ticket.tenantId, InboundEmailTarget.SUPPORT_TICKET, ticket.id);
+    await emailOutboxService.sendEmail({
+      tenantId: ticket.tenantId,
+      messageType: "support_reply",
+      toEmail: metadata.requesterEmail,
+      subject: `Re: ${ticket.title}`,
+      textBody: `${bodyText}\n\n— ${authorName}`,
+      replyTo,
+      metadata: { ticketId: ticket.id },
+    });
+  },
+
+  // ── Receiving ──────────────────────────────────────────────────────────────
+
+  async receive(parsed: ParsedInboundEmail): Promise<ReceiveResult> {
+    const domain = inboundDomain();
+    if (!domain) return { accepted: false, reason: "Inbound email is not configured" };
+
+    let match: { recipient: string; tenantId: string; token: string | null } | null = null;
+    for (const recipient of parsed.recipients) {
+      const address = parseInboundAddress(recipient, domain);
+      if (!address) continue;
+      const mailbox = await inboundEmailRepo.getMailboxByKey(address.mailboxKey);
+      if (mailbox?.enabled) {
+        match = { recipient, tenantId: mailbox.tenantId, token: address.token };
+        break;
+      }
+    }
+    if (!match) return { accepted: false, reason: "No enabled mailbox among the recipients" };
+
+    const { tenantId } = match;
+    const autoGenerated = isAutoGenerated(parsed.headers, parsed.from.address);
+    const emailId = randomUUID();
+    const created = await inboundEmailRepo.createInboundEmail({
+      id: emailId,
+      tenantId,
+      messageId: parsed.messageId,
+      fromEmail: parsed.from.address,
+      fromName: parsed.from.name,
+      recipient: match.recipient,
+      subject: parsed.subject,
+      bodyText: parsed.text,
+      // Stays "failed" if processing dies part-way
+      status: autoGenerated ? InboundEmailStatus.IGNORED : InboundEmailStatus.FAILED,
+    });
+    if (!created) return { accepted: true, emailId: "", status: InboundEmailStatus.IGNORED, duplicate: true };
+    if (autoGenerated) return { accepted: true, emailId, status: InboundEmailStatus.IGNORED };
+
+    try {
+      const attachments = await storeAttachments(tenantId, emailId, parsed.attachments);
+      const email = { ...created, attachments };
+      const sender = describeSender(
+        parsed.from.address,
+        parsed.from.name,
+        await inboundEmailRepo.findSender(tenantId, parsed.from.address),
+      );
+      const senderFields: InboundEmailUpdate = { attachments, senderUserId: sender.staffUserId ?? sender.portalUserId };
+
+      let outcome: Outcome | null = null;
+      if (match.token) {
+        const token = await inboundEmailRepo.getReplyToken(match.token);
+        if (token && token.tenantId === tenantId) {
+          outcome = await deliverReply(tenantId, token.targetType, token.targetId, sender, email);
+          if (outcome) await inboundEmailRepo.touchReplyToken(token.id);
+        }
+      }
+      // New mail, or a reply whose token or target no longer exists
+      if (!outcome) {
+        const client = clientForNewMail(sender);
+        outcome = "clientId" in client
+          ? await createTicket(tenantId, client.clientId, sender, email)
+          : client;
+      }
+
+      const result = await finish(email, outcome, sender, senderFields);
+      return { accepted: true, emailId, status: result.status };
+    } catch (error) {
+      console.error(`[inbound-email] processing failed emailId=${emailId}`, error);
+      await inboundEmailRepo.updateInboundEmail(emailId, tenantId, {
+        status: InboundEmailStatus.FAILED,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return { accepted: true, emailId, status: InboundEmailStatus.FAILED };
+    }
+  },
+
+  // ── Quarantine review ──────────────────────────────────────────────────────
+
+  list(tenantId: string, filters: { status?: string; limit: number; offset: number }) {
+    return inboundEmailRepo.listInboundEmails(tenantId, filters);
+  },
+
+  /** Files a quarantined message as a new ticket for the chosen client. */
+  async release(tenantId: string, id: string, input: ReleaseInboundEmail, reviewerId: string): Promise<InboundEmail> {
+    const email = await inboundEmailRepo.getInboundEmail(id, tenantId);
+    if (!email) throw AppError.notFound("Inbound email");
+    if (email.status !== InboundEmailStatus.QUARANTINED) {
+      throw AppError.conflict(`Only quarantined messages can be released; this one is ${email.status}`);
+    }
+    if (!await inboundEmailRepo.clientExists(tenantId, input.clientId)) throw AppError.notFound("Client");
+
+    const sender = describeSender(email.fromEmail, email.fromName, await inboundEmailRepo.findSender(tenantId, email.fromEmail));
+    if (input.addContact && !sender.contactIdByClient.has(input.clientId)) {
+      const contactId = await inboundEmailRepo.createContact(tenantId, input.clientId, email.fromEmail, email.fromName);
+      if (contactId) {
+        sender.contactIdByClient.set(input.clientId, contactId);
+        sender.clientIds.push(input.clientId);
+      }
+    }
+
+    const delivery = await createTicket(tenantId, input.clientId, sender, email, { releasedBy: reviewerId });
+    return finish(email, delivery, sender, { reviewedBy: reviewerId, reviewedAt: new Date() });
+  },
+
+  async discard(tenantId: string, id: string, reviewerId: string): Promise<InboundEmail> {
+    const email = await inboundEmailRepo.getInboundEmail(id, tenantId);
+    if (!email) throw AppError.notFound("Inbound email");
+    if (email.status !== InboundEmailStatus.QUARANTINED) {
+      throw AppError.conflict(`Only quarantined messages can be discarded; this one is ${email.status}`);
+    }
+    return (await inboundEmailRepo.updateInboundEmail(id, tenantId, {
+      status: InboundEmailStatus.DISCARDED,
+      reviewedBy: reviewerId,
+      reviewedAt: new Date(),
+    }))!;
+  },
+};
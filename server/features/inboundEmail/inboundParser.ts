@@ -0,0 +1,231 @@
+/**
+ * Normalizes inbound mail into one shape, whether it arrives as a provider's JSON webhook
+ * payload or as raw MIME, and holds the pure helpers the inbound service routes with.
+ */
+import { createHash } from "crypto";
+import { z } from "zod";
+import { simpleParser, type AddressObject } from "mailparser";
+
+export interface InboundAddress {
+  address: string;
+  name: string | null;
+}
+
+export interface InboundAttachmentFile {
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+export interface ParsedInboundEmail {
+  messageId: string;
+  from: InboundAddress;
+  /** Lowercased To, Cc and envelope recipients; one of them is the tenant mailbox. */
+  recipients: string[];
+  subject: string;
+  text: string;
+  /** Lowercased header names; only the ones routing looks at are kept. */
+  headers: Record<string, string>;
+  attachments: InboundAttachmentFile[];
+}
+
+const KEPT_HEADERS = ["auto-submitted", "precedence", "x-autoreply", "x-autorespond", "x-auto-response-suppress", "x-failed-recipients"];
+const ENVELOPE_HEADERS = ["delivered-to", "x-original-to", "envelope-to"];
+
+const addressListSchema = z.union([z.string(), z.array(z.string())]);
+
+/** The generic webhook body: either pre-parsed fields or the raw MIME message. */
+export const inboundWebhookPayloadSchema = z.union([
+  z.object({
+    raw: z.string().min(1),
+    encoding: z.enum(["utf8", "base64"]).optional().default("utf8"),
+    recipient: z.string().optional(),
+  }),
+  z.object({
+    from: z.string().min(3),
+    to: addressListSchema,
+    cc: addressListSchema.optional(),
+    recipient: z.string().optional(),
+    subject: z.string().optional().default(""),
+    text: z.string().optional(),
+    html: z.string().optional(),
+    messageId: z.string().optional(),
+    headers: z.record(z.string()).optional(),
+    attachments: z.array(z.object({
+      filename: z.string().min(1),
+      contentType: z.string().optional(),
+      content: z.string(),
+    })).optional().default([]),
+  }),
+]);
+
+export type InboundWebhookPayload = z.input<typeof inboundWebhookPayloadSchema>;
+
+const ADDRESS_PATTERN = /(?:(?:"([^"]*)"|([^"<>,;]*?))\s*)?<([^<>\s]+@[^<>\s]+)>|([^\s<>,;"]+@[^\s<>,;"]+)/g;
+
+/** Every address in a header value such as `"Doe, Jane" <jane@x.com>, bob@y.com`. */
+export function parseAddressList(value: string | string[] | undefined | null): InboundAddress[] {
+  if (!value) return [];
+  const result: InboundAddress[] = [];
+  for (const part of Array.isArray(value) ? value : [value]) {
+    for (const match of Array.from(part.matchAll(ADDRESS_PATTERN))) {
+      const address = (match[3] ?? match[4]).trim().toLowerCase();
+      const name = match[3] ? (match[1] ?? match[2])?.trim() || null : null;
+      result.push({ address, name });
+    }
+  }
+  return result;
+}
+
+/**
+ * Splits a recipient on the inbound domain into its mailbox key and optional reply token
+ * (`acme@in.example.com`, `acme+k3j9x2@in.example.com`), or null for any other address.
+ */
+export function parseInboundAddress(address: string, domain: string): { mailboxKey: string; token: string | null } | null {
+  const at = address.lastIndexOf("@");
+  if (at < 1 || address.slice(at + 1).toLowerCase() !== domain.toLowerCase()) return null;
+  const local = address.slice(0, at).toLowerCase();
+  const plus = local.indexOf("+");
+  if (plus === -1) return { mailboxKey: local, token: null };
+  return { mailboxKey: local.slice(0, plus), token: local.slice(plus + 1) || null };
+}
+
+const QUOTE_HEADER_PATTERNS = [
+  /^On .{1,200}wrote:\s*$/,
+  /^-{2,}\s*Original Message\s*-{2,}/i,
+  /^_{10,}\s*$/,
+  /^From: .+$/,
+];
+
+/** The new part of a reply: everything above the quoted original, without trailing `>` lines. */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  let end = lines.length;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    // Gmail wraps long attributions: "On Mon, 2 Mar 2026 at 10:00, Jane Doe <jane@x.com>\nwrote:"
+    const joined = i + 1 < lines.length ? `${line} ${lines[i + 1].trim()}` : line;
+    if (QUOTE_HEADER_PATTERNS.some((pattern) => pattern.test(line)) || /^On .{1,200}wrote:\s*$/.test(joined)) {
+      end = i;
+      break;
+    }
+  }
+  const kept = lines.slice(0, end);
+  while (kept.length > 0 && (kept[kept.length - 1].trim() === "" || kept[kept.length - 1].startsWith(">"))) {
+    kept.pop();
+  }
+  const stripped = kept.join("\n").trim();
+  return stripped || text.trim();
+}
+
+/** Auto-replies, vacation notices and bounces, which must never create tickets or loop. */
+export function isAutoGenerated(headers: Record<string, string>, fromAddress: string): boolean {
+  const autoSubmitted = headers["auto-submitted"]?.toLowerCase();
+  if (autoSubmitted && autoSubmitted !== "no") return true;
+  if (/^(bulk|junk|list|auto_reply)$/i.test(headers["precedence"] ?? "")) return true;
+  if (headers["x-autoreply"] || headers["x-autorespond"] || headers["x-failed-recipients"]) return true;
+  return /^(mailer-daemon|postmaster)@/i.test(fromAddress);
+}
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function fallbackMessageId(parts: string[]): string {
+  return `<${createHash("sha256").update(parts.join("\u0000")).digest("hex").slice(0, 32)}@inbound.local>`;
+}
+
+function addressesOf(value: AddressObject | AddressObject[] | undefined): InboundAddress[] {
+  if (!value) return [];
+  return (Array.isArray(value) ? value : [value]).flatMap((object) =>
+    object.value
+      .filter((entry) => entry.address)
+      .map((entry) => ({ address: entry.address!.toLowerCase(), name: entry.name || null })),
+  );
+}
+
+function uniqueRecipients(addresses: InboundAddress[]): string[] {
+  return Array.from(new Set(addresses.map((entry) => entry.address)));
+}
+
+export async function parseMime(raw: Buffer | string, envelopeRecipient?: string): Promise<ParsedInboundEmail> {
+  const mail = await simpleParser(raw);
+  const headers: Record<string, string> = {};
+  for (const name of KEPT_HEADERS) {
+    const value = mail.headers.get(name);
+    if (value !== undefined) headers[name] = String(value);
+  }
+  const envelope = ENVELOPE_HEADERS.flatMap((name) => {
+    const value = mail.headers.get(name);
+    return value === undefined ? [] : parseAddressList(String(value));
+  });
+
+  const from = addressesOf(mail.from)[0];
+  if (!from) throw new Error("Message has no From address");
+  const text = mail.text ?? (mail.html ? htmlToText(mail.html) : "");
+
+  return {
+    messageId: mail.messageId || fallbackMessageId([from.address, mail.subject ?? "", mail.date?.toISOString() ?? "", text]),
+    from,
+    recipients: uniqueRecipients([
+      ...parseAddressList(envelopeRecipient),
+      ...envelope,
+      ...addressesOf(mail.to),
+      ...addressesOf(mail.cc),
+    ]),
+    subject: mail.subject ?? "",
+    text,
+    headers,
+    attachments: mail.attachments
+      .filter((attachment) => attachment.contentDisposition !== "inline" || !attachment.related)
+      .map((attachment, index) => ({
+        fileName: attachment.filename || `attachment-${index + 1}`,
+        mimeType: attachment.contentType || "application/octet-stream",
+        content: attachment.content,
+      })),
+  };
+}
+
+export async function parseWebhookPayload(payload: z.output<typeof inboundWebhookPayloadSchema>): Promise<ParsedInboundEmail> {
+  if ("raw" in payload) {
+    return parseMime(Buffer.from(payload.raw, payload.encoding), payload.recipient);
+  }
+
+  const from = parseAddressList(payload.from)[0];
+  if (!from) throw new Error("Message has no From address");
+  const text = payload.text ?? (payload.html ? htmlToText(payload.html) : "");
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(payload.headers ?? {})) {
+    if (KEPT_HEADERS.includes(name.toLowerCase())) headers[name.toLowerCase()] = value;
+  }
+
+  return {
+    messageId: payload.messageId || fallbackMessageId([from.address, payload.subject, text]),
+    from,
+    recipients: uniqueRecipients([
+      ...parseAddressList(payload.recipient),
+      ...parseAddressList(payload.to),
+      ...parseAddressList(payload.cc),
+    ]),
+    subject: payload.subject,
+    text,
+    headers,
+    attachments: payload.attachments.map((attachment) => ({
+      fileName: attachment.filename,
+      mimeType: attachment.contentType || "application/octet-stream",
+      content: Buffer.from(attachment.content, "base64"),
+    })),
+  };
+}
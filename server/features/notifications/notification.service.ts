@@ -16,10 +16,17 @@ type NotificationType =
   | "task_status_changed"
   | "crm_followup_due"
   | "approval_response"
+  | "proofing_comment"
   | "chat_message"
   | "client_message"
   | "support_ticket"
-  | "work_order";
+  | "work_order"
+  | "timesheet_submitted"
+  | "timesheet_reviewed"
+  | "timesheet_reminder"
+  | "time_off_requested"
+  | "time_off_reviewed"
+  | "reminder";
 
 type Severity = "info" | "warning" | "urgent";
 
@@ -73,6 +80,13 @@ async function shouldNotifyUser(userId: string, type: NotificationType): Promise
       work_order: "workOrder",
       crm_followup_due: null,
       approval_response: null,
+      proofing_comment: null,
+      timesheet_submitted: null,
+      timesheet_reviewed: null,
+      timesheet_reminder: null,
+      time_off_requested: null,
+      time_off_reviewed: null,
+      reminder: null,
     };
     const field = typeToField[type];
     if (!field) return true;
@@ -635,6 +649,170 @@ export async function notifyApprovalResponse(
   );
 }
 
+export interface ProofingCommentNotice {
+  assetId: string;
+  assetTitle: string;
+  clientId: string;
+  versionId: string;
+  versionNumber: number;
+  commentId: string;
+  authorName: string;
+  body: string;
+}
+
+export async function notifyProofingComment(
+  userId: string,
+  notice: ProofingCommentNotice,
+  context: NotificationContext
+): Promise<void> {
+  const excerpt = notice.body.length > 140 ? `${notice.body.slice(0, 137)}...` : notice.body;
+  await createAndEmitNotification(
+    userId,
+    "proofing_comment",
+    `New proof comment: ${notice.assetTitle} (v${notice.versionNumber})`,
+    `${notice.authorName}: ${excerpt}`,
+    {
+      assetId: notice.assetId,
+      versionId: notice.versionId,
+      commentId: notice.commentId,
+    },
+    context,
+    { entityType: "asset", entityId: notice.assetId, href: `/clients/${notice.clientId}` }
+  );
+}
+
+export async function notifyTimesheetSubmitted(
+  reviewerId: string,
+  timesheetId: string,
+  weekStart: string,
+  submitterName: string,
+  context: NotificationContext
+): Promise<void> {
+  await createAndEmitNotification(
+    reviewerId,
+    "timesheet_submitted",
+    `Timesheet submitted: ${submitterName}`,
+    `${submitterName} submitted their timesheet for the week of ${weekStart}`,
+    { timesheetId, weekStart },
+    context,
+    { entityType: "timesheet", entityId: timesheetId, href: `/my-time?tab=review&week=${weekStart}` }
+  );
+}
+
+export async function notifyTimesheetReviewed(
+  userId: string,
+  timesheetId: string,
+  weekStart: string,
+  status: string,
+  reviewerName: string,
+  comment: string | null,
+  context: NotificationContext
+): Promise<void> {
+  const approved = status === "approved";
+  await createAndEmitNotification(
+    userId,
+    "timesheet_reviewed",
+    `Timesheet ${approved ? "approved" : "rejected"}: week of ${weekStart}`,
+    approved
+      ? `${reviewerName} approved your timesheet`
+      : `${reviewerName} rejected your timesheet${comment ? `: ${comment}` : ""}`,
+    { timesheetId, weekStart, status },
+    context,
+    {
+      severity: approved ? "info" : "warning",
+      entityType: "timesheet",
+      entityId: timesheetId,
+      href: `/my-time?tab=timesheet&week=${weekStart}`,
+    }
+  );
+}
+
+export async function notifyTimesheetMissing(
+  userId: string,
+  weekStart: string,
+  context: NotificationContext
+): Promise<void> {
+  await createAndEmitNotification(
+    userId,
+    "timesheet_reminder",
+    `Timesheet due: week of ${weekStart}`,
+    "Please review and submit your timesheet for approval",
+    { weekStart },
+    context,
+    {
+      severity: "warning",
+      href: `/my-time?tab=timesheet&week=${weekStart}`,
+      dedupeKey: `timesheet-reminder:${weekStart}`,
+    }
+  );
+}
+
+export async function notifyTimeOffRequested(
+  approverId: string,
+  requestId: string,
+  requesterName: string,
+  startDate: string,
+  endDate: string,
+  context: NotificationContext
+): Promise<void> {
+  const range = startDate === endDate ? startDate : `${startDate} – ${endDate}`;
+  await createAndEmitNotification(
+    approverId,
+    "time_off_requested",
+    `Time off requested: ${requesterName}`,
+    `${requesterName} requested time off for ${range}`,
+    { requestId, startDate, endDate },
+    context,
+    { entityType: "time_off_request", entityId: requestId, href: "/my-time?tab=time-off" }
+  );
+}
+
+export async function notifyTimeOffReviewed(
+  userId: string,
+  requestId: string,
+  startDate: string,
+  status: string,
+  reviewerName: string,
+  comment: string | null,
+  context: NotificationContext
+): Promise<void> {
+  const approved = status === "approved";
+  await createAndEmitNotification(
+    userId,
+    "time_off_reviewed",
+    `Time off ${approved ? "approved" : "rejected"}: from ${startDate}`,
+    approved
+      ? `${reviewerName} approved your time off`
+      : `${reviewerName} rejected your time off${comment ? `: ${comment}` : ""}`,
+    { requestId, startDate, status },
+    context,
+    {
+      severity: approved ? "info" : "warning",
+      entityType: "time_off_request",
+      entityId: requestId,
+      href: "/my-time?tab=time-off",
+    }
+  );
+}
+
+export async function notifyReminder(
+  userId: string,
+  reminderId: string,
+  message: string,
+  href: string | null,
+  context: NotificationContext
+): Promise<void> {
+  await createAndEmitNotification(
+    userId,
+    "reminder",
+    "Reminder",
+    message,
+    { reminderId },
+    context,
+    { severity: "warning", entityType: "reminder", entityId: reminderId, href: href ?? undefined }
+  );
+}
+
 export function startFollowUpChecker(): void {
   if (followUpCheckerInterval) {
     clearInterval(followUpCheckerInterval);
@@ -0,0 +1,240 @@
+import { createHash } from "crypto";
+import { and, eq, inArray, sql, type SQL } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import { db } from "../../db";
+import {
+  chatMessages,
+  clientContacts,
+  clientMessages,
+  comments,
+  emailOutbox,
+  inboundEmails,
+  notifications,
+  passwordResetTokens,
+  supportTicketMessages,
+  supportTickets,
+  tasks,
+  timeEntries,
+  trustedDevices,
+  userSsoIdentities,
+  userTwoFactor,
+  users,
+} from "@shared/schema";
+import type { DataSubject } from "./privacy.repo";
+
+export interface Pseudonym {
+  label: string;
+  /** Users need distinct emails, so each record gets its own address */
+  emailFor: (recordId: string) => string;
+}
+
+const digest = (value: string, length: number) => createHash("sha256").update(value).digest("hex").slice(0, length);
+
+const ERASED_EMAIL_DOMAIN = "erased.invalid";
+
+/** Stable for a request, so re-running a failed erasure writes the same values. */
+export function pseudonymFor(requestId: string): Pseudonym {
+  return {
+    label: `Erased user ${digest(requestId, 8)}`,
+    emailFor: (recordId) => `erased-${digest(`${requestId}:${recordId}`, 16)}@${ERASED_EMAIL_DOMAIN}`,
+  };
+}
+
+/** True for addresses written by an erasure; mail to them would only bounce. */
+export function isErasedEmail(email: string): boolean {
+  return email.toLowerCase().endsWith(`@${ERASED_EMAIL_DOMAIN}`);
+}
+
+// Single names are too likely to match ordinary words
+const MIN_NAME_LENGTH = 5;
+
+/** The names and emails to scrub from free text, longest first so overlaps redact fully. */
+export function redactionNeedles(subject: Pick<DataSubject, "names" | "emails">): string[] {
+  const names = subject.names.map((n) => n.trim()).filter((n) => n.includes(" ") && n.length >= MIN_NAME_LENGTH);
+  const needles = Array.from(new Set([...names, ...subject.emails]));
+  return needles.sort((a, b) => b.length - a.length);
+}
+
+/** A case-insensitive Postgres regex matching any needle, or null when there is nothing to scrub. */
+export function redactionPattern(needles: string[]): string | null {
+  if (!needles.length) return null;
+  return needles.map((n) => n.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|");
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+function redact(column: PgColumn, pattern: string, label: string): SQL {
+  return sql`regexp_replace(${column}, ${pattern}, ${label}, 'gi')`;
+}
+
+function matches(column: PgColumn, pattern: string): SQL {
+  return sql`${column} ~* ${pattern}`;
+}
+
+function matchesAny(columns: PgColumn[], pattern: string): SQL {
+  return sql`(${sql.join(columns.map((c) => matches(c, pattern)), sql` OR `)})`;
+}
+
+const ids = (rows: { id: string }[]) => rows.length;
+
+/**
+ * Pseudonymizes the subject in place. Tasks, time, tickets and messages keep their rows and
+ * foreign keys; only identifying fields and mentions of the subject in free text change. The
+ * subject's own notifications are deleted.
+ */
+export async function eraseDataSubject(requestId: string, subject: DataSubject): Promise<Record<string, number>> {
+  const { tenantId, userIds, contactIds, emails } = subject;
+  const pseudonym = pseudonymFor(requestId);
+  const pattern = redactionPattern(redactionNeedles(subject));
+  const primaryEmail = pseudonym.emailFor(userIds[0] ?? contactIds[0] ?? requestId);
+
+  return db.transaction(async (tx: Tx) => {
+    const counts: Record<string, number> = {};
+
+    let erasedUsers = 0;
+    for (const userId of userIds) {
+      const rows = await tx
+        .update(users)
+        .set({
+          name: pseudonym.label,
+          firstName: null,
+          lastName: null,
+          email: pseudonym.emailFor(userId),
+          passwordHash: null,
+          avatarUrl: null,
+          googleId: null,
+          isActive: false,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(users.id, userId), eq(users.tenantId, tenantId)))
+        .returning({ id: users.id });
+      erasedUsers += ids(rows);
+      await tx.execute(sql`DELETE FROM user_sessions WHERE sess->'passport'->>'user' = ${userId}`);
+    }
+    counts.users = erasedUsers;
+    if (userIds.length) {
+      await tx.delete(passwordResetTokens).where(inArray(passwordResetTokens.userId, userIds));
+      await tx.delete(userTwoFactor).where(inArray(userTwoFactor.userId, userIds));
+      await tx.delete(trustedDevices).where(inArray(trustedDevices.userId, userIds));
+      await tx.delete(userSsoIdentities).where(inArray(userSsoIdentities.userId, userIds));
+    }
+
+    counts.contacts = contactIds.length
+      ? ids(await tx
+        .update(clientContacts)
+        .set({ firstName: pseudonym.label, lastName: null, email: null, phone: null, title: null, notes: null, updatedAt: new Date() })
+        .where(and(eq(clientContacts.tenantId, tenantId), inArray(clientContacts.id, contactIds)))
+        .returning({ id: clientContacts.id }))
+      : 0;
+
+    if (emails.length) {
+      counts.ticketAuthorEmails = ids(await tx
+        .update(supportTicketMessages)
+        .set({ authorEmail: primaryEmail })
+        .where(and(eq(supportTicketMessages.tenantId, tenantId), inArray(sql`lower(${supportTicketMessages.authorEmail})`, emails)))
+        .returning({ id: supportTicketMessages.id }));
+      counts.outboxEmails = ids(await tx
+        .update(emailOutbox)
+        .set({ toEmail: primaryEmail })
+        .where(and(eq(emailOutbox.tenantId, tenantId), inArray(sql`lower(${emailOutbox.toEmail})`, emails)))
+        .returning({ id: emailOutbox.id }));
+      counts.ticketRequesters = ids(await tx
+        .update(supportTickets)
+        .set({
+          metadataJson: sql`${supportTickets.metadataJson} || jsonb_build_object('requesterEmail', ${primaryEmail}::text, 'requesterName', ${pseudonym.label}::text)`,
+        })
+        .where(and(
+          eq(supportTickets.tenantId, tenantId),
+          inArray(sql`lower(${supportTickets.metadataJson}->>'requesterEmail')`, emails),
+        ))
+        .returning({ id: supportTickets.id }));
+      counts.inboundEmailSenders = ids(await tx
+        .update(inboundEmails)
+        .set({ fromEmail: primaryEmail, fromName: pseudonym.label })
+        .where(and(eq(inboundEmails.tenantId, tenantId), inArray(sql`lower(${inboundEmails.fromEmail})`, emails)))
+        .returning({ id: inboundEmails.id }));
+    }
+
+    // Their own notifications describe other people's work to them; nothing in them is needed later
+    counts.notifications = userIds.length
+      ? ids(await tx
+        .delete(notifications)
+        .where(and(eq(notifications.tenantId, tenantId), inArray(notifications.userId, userIds)))
+        .returning({ id: notifications.id }))
+      : 0;
+
+    if (pattern) {
+      counts.comments = ids(await tx
+        .update(comments)
+        .set({ body: redact(comments.body, pattern, pseudonym.label) })
+        .where(and(
+          inArray(comments.taskId, tx.select({ id: tasks.id }).from(tasks).where(eq(tasks.tenantId, tenantId))),
+          matches(comments.body, pattern),
+        ))
+        .returning({ id: comments.id }));
+      counts.chatMessages = ids(await tx
+        .update(chatMessages)
+        .set({ body: redact(chatMessages.body, pattern, pseudonym.label) })
+        .where(and(eq(chatMessages.tenantId, tenantId), matches(chatMessages.body, pattern)))
+        .returning({ id: chatMessages.id }));
+      counts.clientMessages = ids(await tx
+        .update(clientMessages)
+        .set({
+          bodyText: redact(clientMessages.bodyText, pattern, pseudonym.label),
+          bodyRich: redact(clientMessages.bodyRich, pattern, pseudonym.label),
+        })
+        .where(and(
+          eq(clientMessages.tenantId, tenantId),
+          matchesAny([clientMessages.bodyText, clientMessages.bodyRich], pattern),
+        ))
+        .returning({ id: clientMessages.id }));
+      counts.ticketMessages = ids(await tx
+        .update(supportTicketMessages)
+        .set({ bodyText: redact(supportTicketMessages.bodyText, pattern, pseudonym.label) })
+        .where(and(eq(supportTicketMessages.tenantId, tenantId), matches(supportTicketMessages.bodyText, pattern)))
+        .returning({ id: supportTicketMessages.id }));
+      counts.tickets = ids(await tx
+        .update(supportTickets)
+        .set({
+          title: redact(supportTickets.title, pattern, pseudonym.label),
+          description: redact(supportTickets.description, pattern, pseudonym.label),
+        })
+        .where(and(eq(supportTickets.tenantId, tenantId), matchesAny([supportTickets.title, supportTickets.description], pattern)))
+        .returning({ id: supportTickets.id }));
+      counts.tasks = ids(await tx
+        .update(tasks)
+        .set({
+          title: redact(tasks.title, pattern, pseudonym.label),
+          description: redact(tasks.description, pattern, pseudonym.label),
+        })
+        .where(and(eq(tasks.tenantId, tenantId), matchesAny([tasks.title, tasks.description], pattern)))
+        .returning({ id: tasks.id }));
+      counts.timeEntries = ids(await tx
+        .update(timeEntries)
+        .set({
+          title: redact(timeEntries.title, pattern, pseudonym.label),
+          description: redact(timeEntries.description, pattern, pseudonym.label),
+        })
+        .where(and(eq(timeEntries.tenantId, tenantId), matchesAny([timeEntries.title, timeEntries.description], pattern)))
+        .returning({ id: timeEntries.id }));
+      counts.inboundEmails = ids(await tx
+        .update(inboundEmails)
+        .set({
+          subject: redact(inboundEmails.subject, pattern, pseudonym.label),
+          bodyText: redact(inboundEmails.bodyText, pattern, pseudonym.label),
+        })
+        .where(and(eq(inboundEmails.tenantId, tenantId), matchesAny([inboundEmails.subject, inboundEmails.bodyText], pattern)))
+        .returning({ id: inboundEmails.id }));
+      counts.notificationText = ids(await tx
+        .update(notifications)
+        .set({
+          title: redact(notifications.title, pattern, pseudonym.label),
+          message: redact(notifications.message, pattern, pseudonym.label),
+        })
+        .where(and(eq(notifications.tenantId, tenantId), matchesAny([notifications.title, notifications.message], pattern)))
+        .returning({ id: notifications.id }));
+    }
+
+    return counts;
+  });
+}
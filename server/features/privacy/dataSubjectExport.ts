@@ -0,0 +1,450 @@
+import { and, eq, inArray, or, sql, type SQL } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  activityLog,
+  assetVersions,
+  assets,
+  chatAttachments,
+  chatMentions,
+  chatMessages,
+  clientContacts,
+  clientConversations,
+  clientMessages,
+  commentMentions,
+  comments,
+  proofComments,
+  subtaskAssignees,
+  subtasks,
+  supportTicketMessages,
+  supportTickets,
+  taskAttachments,
+  taskAssignees,
+  taskWatchers,
+  tasks,
+  timeEntries,
+  users,
+  workspaces,
+  type DataSubjectRequest,
+} from "@shared/schema";
+import type { DataSubject } from "./privacy.repo";
+
+export const DATA_SUBJECT_CATEGORIES = [
+  "profile",
+  "tasks",
+  "comments",
+  "mentions",
+  "chat",
+  "time_entries",
+  "conversations",
+  "tickets",
+  "assets",
+  "activity",
+] as const;
+export type DataSubjectCategory = typeof DATA_SUBJECT_CATEGORIES[number];
+
+export type DataSubjectSections = Record<DataSubjectCategory, Record<string, unknown>[]>;
+
+/** A stored file the subject uploaded; listed in the archive, not copied into it. */
+export interface DataSubjectFile {
+  category: DataSubjectCategory;
+  recordId: string;
+  storageKey: string;
+  fileName: string;
+  mimeType: string | null;
+}
+
+export interface DataSubjectArchive {
+  format: "data-subject-export/v1";
+  generatedAt: string;
+  request: { id: string; tenantId: string; reason: string; approvedAt: string | null };
+  subject: { userIds: string[]; contactIds: string[]; emails: string[] };
+  summary: Record<DataSubjectCategory, number>;
+  records: DataSubjectSections;
+  files: DataSubjectFile[];
+}
+
+// Statement-level guard: drizzle rejects inArray with an empty list
+const anyOf = (column: Parameters<typeof inArray>[0], values: string[]): SQL =>
+  values.length ? inArray(column, values) : sql`false`;
+
+const tenantTaskIds = (tenantId: string) => db.select({ id: tasks.id }).from(tasks).where(eq(tasks.tenantId, tenantId));
+
+async function collectProfile(subject: DataSubject) {
+  const [userRows, contactRows] = await Promise.all([
+    db
+      .select({
+        id: users.id,
+        email: users.email,
+        name: users.name,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        avatarUrl: users.avatarUrl,
+        role: users.role,
+        isActive: users.isActive,
+        createdAt: users.createdAt,
+        updatedAt: users.updatedAt,
+      })
+      .from(users)
+      .where(and(eq(users.tenantId, subject.tenantId), anyOf(users.id, subject.userIds))),
+    db.select().from(clientContacts).where(and(eq(clientContacts.tenantId, subject.tenantId), anyOf(clientContacts.id, subject.contactIds))),
+  ]);
+  return [
+    ...userRows.map((u) => ({ kind: "user", ...u })),
+    ...contactRows.map((c) => ({ kind: "client_contact", ...c })),
+  ];
+}
+
+async function collectTasks(subject: DataSubject) {
+  const { tenantId, userIds } = subject;
+  const [assigned, watched] = await Promise.all([
+    db.select({ taskId: taskAssignees.taskId }).from(taskAssignees).where(anyOf(taskAssignees.userId, userIds)),
+    db.select({ taskId: taskWatchers.taskId }).from(taskWatchers).where(anyOf(taskWatchers.userId, userIds)),
+  ]);
+  const assignedIds = new Set(assigned.map((a) => a.taskId));
+  const watchedIds = new Set(watched.map((w) => w.taskId));
+
+  const taskRows = await db
+    .select({
+      id: tasks.id,
+      projectId: tasks.projectId,
+      title: tasks.title,
+      description: tasks.description,
+      status: tasks.status,
+      dueDate: tasks.dueDate,
+      createdBy: tasks.createdBy,
+      createdAt: tasks.createdAt,
+      updatedAt: tasks.updatedAt,
+    })
+    .from(tasks)
+    .where(and(
+      eq(tasks.tenantId, tenantId),
+      or(
+        anyOf(tasks.createdBy, userIds),
+        anyOf(tasks.id, Array.from(assignedIds)),
+        anyOf(tasks.id, Array.from(watchedIds)),
+      ),
+    ));
+
+  const subtaskRows = await db
+    .select({
+      id: subtasks.id,
+      taskId: subtasks.taskId,
+      title: subtasks.title,
+      status: subtasks.status,
+      dueDate: subtasks.dueDate,
+      createdAt: subtasks.createdAt,
+    })
+    .from(subtasks)
+    .where(and(
+      inArray(subtasks.taskId, tenantTaskIds(tenantId)),
+      or(
+        anyOf(subtasks.assigneeId, userIds),
+        userIds.length
+          ? inArray(subtasks.id, db.select({ id: subtaskAssignees.subtaskId }).from(subtaskAssignees).where(inArray(subtaskAssignees.userId, userIds)))
+          : sql`false`,
+      ),
+    ));
+
+  return [
+    ...taskRows.map((t) => {
+      const relations: string[] = [];
+      if (t.createdBy && userIds.includes(t.createdBy)) relations.push("creator");
+      if (assignedIds.has(t.id)) relations.push("assignee");
+      if (watchedIds.has(t.id)) relations.push("watcher");
+      return { kind: "task", relations, ...t };
+    }),
+    ...subtaskRows.map((s) => ({ kind: "subtask", relations: ["assignee"], ...s })),
+  ];
+}
+
+async function collectComments(subject: DataSubject) {
+  return db
+    .select({
+      id: comments.id,
+      taskId: comments.taskId,
+      subtaskId: comments.subtaskId,
+      body: comments.body,
+      createdAt: comments.createdAt,
+      updatedAt: comments.updatedAt,
+    })
+    .from(comments)
+    .where(and(
+      anyOf(comments.userId, subject.userIds),
+      or(
+        inArray(comments.taskId, tenantTaskIds(subject.tenantId)),
+        inArray(comments.subtaskId, db.select({ id: subtasks.id }).from(subtasks).where(inArray(subtasks.taskId, tenantTaskIds(subject.tenantId)))),
+      ),
+    ));
+}
+
+async function collectMentions(subject: DataSubject) {
+  const [inComments, inChat] = await Promise.all([
+    db
+      .select({ id: commentMentions.id, commentId: commentMentions.commentId, body: comments.body, createdAt: commentMentions.createdAt })
+      .from(commentMentions)
+      .innerJoin(comments, eq(comments.id, commentMentions.commentId))
+      .innerJoin(tasks, eq(tasks.id, comments.taskId))
+      .where(and(eq(tasks.tenantId, subject.tenantId), anyOf(commentMentions.mentionedUserId, subject.userIds))),
+    db
+      .select({ id: chatMentions.id, messageId: chatMentions.messageId, body: chatMessages.body, createdAt: chatMentions.createdAt })
+      .from(chatMentions)
+      .innerJoin(chatMessages, eq(chatMessages.id, chatMentions.messageId))
+      .where(and(eq(chatMentions.tenantId, subject.tenantId), anyOf(chatMentions.mentionedUserId, subject.userIds))),
+  ]);
+  return [
+    ...inComments.map((m) => ({ kind: "comment_mention", ...m })),
+    ...inChat.map((m) => ({ kind: "chat_mention", ...m })),
+  ];
+}
+
+async function collectChat(subject: DataSubject) {
+  return db
+    .select({
+      id: chatMessages.id,
+      channelId: chatMessages.channelId,
+      dmThreadId: chatMessages.dmThreadId,
+      parentMessageId: chatMessages.parentMessageId,
+      body: chatMessages.body,
+      createdAt: chatMessages.createdAt,
+      editedAt: chatMessages.editedAt,
+      deletedAt: chatMessages.deletedAt,
+    })
+    .from(chatMessages)
+    .where(and(eq(chatMessages.tenantId, subject.tenantId), anyOf(chatMessages.authorUserId, subject.userIds)));
+}
+
+async function collectTimeEntries(subject: DataSubject) {
+  return db
+    .select({
+      id: timeEntries.id,
+      clientId: timeEntries.clientId,
+      projectId: timeEntries.projectId,
+      taskId: timeEntries.taskId,
+      title: timeEntries.title,
+      description: timeEntries.description,
+      startTime: timeEntries.startTime,
+      endTime: timeEntries.endTime,
+      durationSeconds: timeEntries.durationSeconds,
+      invoiceId: timeEntries.invoiceId,
+      createdAt: timeEntries.createdAt,
+    })
+    .from(timeEntries)
+    .where(and(eq(timeEntries.tenantId, subject.tenantId), anyOf(timeEntries.userId, subject.userIds)));
+}
+
+async function collectConversations(subject: DataSubject) {
+  const [started, messages] = await Promise.all([
+    db
+      .select({
+        id: clientConversations.id,
+        clientId: clientConversations.clientId,
+        subject: clientConversations.subject,
+        createdAt: clientConversations.createdAt,
+        closedAt: clientConversations.closedAt,
+      })
+      .from(clientConversations)
+      .where(and(eq(clientConversations.tenantId, subject.tenantId), anyOf(clientConversations.createdByUserId, subject.userIds))),
+    db
+      .select({
+        id: clientMessages.id,
+        conversationId: clientMessages.conversationId,
+        bodyText: clientMessages.bodyText,
+        visibility: clientMessages.visibility,
+        createdAt: clientMessages.createdAt,
+      })
+      .from(clientMessages)
+      .where(and(eq(clientMessages.tenantId, subject.tenantId), anyOf(clientMessages.authorUserId, subject.userIds))),
+  ]);
+  return [
+    ...started.map((c) => ({ kind: "conversation", ...c })),
+    ...messages.map((m) => ({ kind: "message", ...m })),
+  ];
+}
+
+/** Tickets the subject opened, in the app or by email; email tickets keep only the requester address. */
+export function ticketsOpenedBy(subject: Pick<DataSubject, "userIds" | "emails">): SQL {
+  return or(
+    anyOf(supportTickets.createdByUserId, subject.userIds),
+    anyOf(supportTickets.createdByPortalUserId, subject.userIds),
+    anyOf(sql`lower(${supportTickets.metadataJson}->>'requesterEmail')`, subject.emails),
+  )!;
+}
+
+async function collectTickets(subject: DataSubject) {
+  const { tenantId, userIds, emails } = subject;
+  const [ticketRows, messageRows] = await Promise.all([
+    db
+      .select({
+        id: supportTickets.id,
+        clientId: supportTickets.clientId,
+        title: supportTickets.title,
+        description: supportTickets.description,
+        status: supportTickets.status,
+        createdAt: supportTickets.createdAt,
+        closedAt: supportTickets.closedAt,
+      })
+      .from(supportTickets)
+      .where(and(eq(supportTickets.tenantId, tenantId), ticketsOpenedBy(subject))),
+    db
+      .select({
+        id: supportTicketMessages.id,
+        ticketId: supportTicketMessages.ticketId,
+        authorEmail: supportTicketMessages.authorEmail,
+        bodyText: supportTicketMessages.bodyText,
+        visibility: supportTicketMessages.visibility,
+        createdAt: supportTicketMessages.createdAt,
+      })
+      .from(supportTicketMessages)
+      .where(and(
+        eq(supportTicketMessages.tenantId, tenantId),
+        or(
+          anyOf(supportTicketMessages.authorUserId, userIds),
+          anyOf(supportTicketMessages.authorPortalUserId, userIds),
+          emails.length ? inArray(sql`lower(${supportTicketMessages.authorEmail})`, emails) : sql`false`,
+        ),
+      )),
+  ]);
+  return [
+    ...ticketRows.map((t) => ({ kind: "ticket", ...t })),
+    ...messageRows.map((m) => ({ kind: "ticket_message", ...m })),
+  ];
+}
+
+async function collectAssets(subject: DataSubject) {
+  const { tenantId, userIds } = subject;
+  const [assetRows, versionRows, proofRows] = await Promise.all([
+    db
+      .select({
+        id: assets.id,
+        clientId: assets.clientId,
+        title: assets.title,
+        description: assets.description,
+        mimeType: assets.mimeType,
+        sizeBytes: assets.sizeBytes,
+        r2Key: assets.r2Key,
+        createdAt: assets.createdAt,
+      })
+      .from(assets)
+      .where(and(eq(assets.tenantId, tenantId), or(anyOf(assets.uploadedByUserId, userIds), anyOf(assets.uploadedByPortalUserId, userIds)))),
+    db
+      .select({
+        id: assetVersions.id,
+        assetId: assetVersions.assetId,
+        versionNumber: assetVersions.versionNumber,
+        mimeType: assetVersions.mimeType,
+        r2Key: assetVersions.r2Key,
+        note: assetVersions.note,
+        createdAt: assetVersions.createdAt,
+      })
+      .from(assetVersions)
+      .where(and(eq(assetVersions.tenantId, tenantId), anyOf(assetVersions.uploadedByUserId, userIds))),
+    db
+      .select({ id: proofComments.id, assetId: proofComments.assetId, versionId: proofComments.versionId, body: proofComments.body, createdAt: proofComments.createdAt })
+      .from(proofComments)
+      .where(and(eq(proofComments.tenantId, tenantId), anyOf(proofComments.authorUserId, userIds))),
+  ]);
+  return [
+    ...assetRows.map((a) => ({ kind: "asset", ...a })),
+    ...versionRows.map((v) => ({ kind: "asset_version", ...v })),
+    ...proofRows.map((p) => ({ kind: "proof_comment", ...p })),
+  ];
+}
+
+async function collectActivity(subject: DataSubject) {
+  return db
+    .select({
+      id: activityLog.id,
+      entityType: activityLog.entityType,
+      entityId: activityLog.entityId,
+      action: activityLog.action,
+      createdAt: activityLog.createdAt,
+    })
+    .from(activityLog)
+    .where(and(
+      anyOf(activityLog.actorUserId, subject.userIds),
+      inArray(activityLog.workspaceId, db.select({ id: workspaces.id }).from(workspaces).where(eq(workspaces.tenantId, subject.tenantId))),
+    ));
+}
+
+const COLLECTORS: Record<DataSubjectCategory, (subject: DataSubject) => Promise<Record<string, unknown>[]>> = {
+  profile: collectProfile,
+  tasks: collectTasks,
+  comments: collectComments,
+  mentions: collectMentions,
+  chat: collectChat,
+  time_entries: collectTimeEntries,
+  conversations: collectConversations,
+  tickets: collectTickets,
+  assets: collectAssets,
+  activity: collectActivity,
+};
+
+export async function collectDataSubjectRecords(subject: DataSubject): Promise<DataSubjectSections> {
+  const sections = {} as DataSubjectSections;
+  for (const category of DATA_SUBJECT_CATEGORIES) {
+    sections[category] = await COLLECTORS[category](subject);
+  }
+  return sections;
+}
+
+/** Files uploaded by the subject: task attachments, chat attachments and asset versions. */
+export async function collectDataSubjectFiles(subject: DataSubject, sections: DataSubjectSections): Promise<DataSubjectFile[]> {
+  const messageIds = sections.chat.map((m) => String(m.id));
+  const [taskFiles, chatFiles] = await Promise.all([
+    db
+      .select({ id: taskAttachments.id, storageKey: taskAttachments.storageKey, fileName: taskAttachments.originalFileName, mimeType: taskAttachments.mimeType })
+      .from(taskAttachments)
+      .where(and(anyOf(taskAttachments.uploadedByUserId, subject.userIds), inArray(taskAttachments.taskId, tenantTaskIds(subject.tenantId)))),
+    db
+      .select({ id: chatAttachments.id, storageKey: chatAttachments.s3Key, fileName: chatAttachments.fileName, mimeType: chatAttachments.mimeType })
+      .from(chatAttachments)
+      .where(and(eq(chatAttachments.tenantId, subject.tenantId), anyOf(chatAttachments.messageId, messageIds))),
+  ]);
+
+  const files: DataSubjectFile[] = [
+    ...taskFiles.map((f) => ({ category: "tasks" as const, recordId: f.id, storageKey: f.storageKey, fileName: f.fileName, mimeType: f.mimeType })),
+    ...chatFiles.map((f) => ({ category: "chat" as const, recordId: f.id, storageKey: f.storageKey, fileName: f.fileName, mimeType: f.mimeType })),
+  ];
+  for (const record of sections.assets) {
+    if (typeof record.r2Key !== "string") continue;
+    files.push({
+      category: "assets",
+      recordId: String(record.id),
+      storageKey: record.r2Key,
+      fileName: typeof record.title === "string" ? record.title : `version ${record.versionNumber}`,
+      mimeType: typeof record.mimeType === "string" ? record.mimeType : null,
+    });
+  }
+  return files;
+}
+
+export function summarizeSections(sections: DataSubjectSections): Record<DataSubjectCategory, number> {
+  const summary = {} as Record<DataSubjectCategory, number>;
+  for (const category of DATA_SUBJECT_CATEGORIES) {
+    summary[category] = sections[category].length;
+  }
+  return summary;
+}
+
+export function buildExportArchive(
+  request: Pick<DataSubjectRequest, "id" | "tenantId" | "reason" | "decidedAt">,
+  subject: DataSubject,
+  sections: DataSubjectSections,
+  files: DataSubjectFile[],
+  now: Date,
+): DataSubjectArchive {
+  return {
+    format: "data-subject-export/v1",
+    generatedAt: now.toISOString(),
+    request: {
+      id: request.id,
+      tenantId: request.tenantId,
+      reason: request.reason,
+      approvedAt: request.decidedAt ? request.decidedAt.toISOString() : null,
+    },
+    subject: { userIds: subject.userIds, contactIds: subject.contactIds, emails: subject.emails },
+    summary: summarizeSections(sections),
+    records: sections,
+    files,
+  };
+}
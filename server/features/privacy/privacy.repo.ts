@@ -0,0 +1,220 @@
+import { and, asc, desc, eq, ilike, inArray, or, sql } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  clientContacts,
+  clients,
+  dataSubjectRequestEvents,
+  dataSubjectRequests,
+  users,
+  type DataSubjectRequest,
+} from "@shared/schema";
+
+export type DataSubjectRequestUpdate = Partial<Omit<DataSubjectRequest, "id" | "tenantId" | "type" | "createdAt">>;
+
+/** A person a request is about, with every account and contact record that identifies them. */
+export interface DataSubject {
+  tenantId: string;
+  userIds: string[];
+  contactIds: string[];
+  /** Lower-cased */
+  emails: string[];
+  /** Full names as written on the user and contact records */
+  names: string[];
+}
+
+export interface SubjectCandidate {
+  subjectType: "user" | "client_contact";
+  id: string;
+  name: string;
+  email: string | null;
+  detail: string;
+}
+
+const SEARCH_LIMIT = 20;
+
+function fullName(first: string | null, last: string | null): string | null {
+  const name = [first, last].filter(Boolean).join(" ").trim();
+  return name || null;
+}
+
+function unique(values: (string | null | undefined)[]): string[] {
+  return Array.from(new Set(values.filter((v): v is string => !!v)));
+}
+
+export const privacyRepo = {
+  async listRequests(tenantId: string) {
+    return db
+      .select()
+      .from(dataSubjectRequests)
+      .where(eq(dataSubjectRequests.tenantId, tenantId))
+      .orderBy(desc(dataSubjectRequests.createdAt));
+  },
+
+  async getRequest(id: string, tenantId: string) {
+    const [row] = await db
+      .select()
+      .from(dataSubjectRequests)
+      .where(and(eq(dataSubjectRequests.id, id), eq(dataSubjectRequests.tenantId, tenantId)));
+    return row || null;
+  },
+
+  async createRequest(input: typeof dataSubjectRequests.$inferInsert) {
+    const [row] = await db.insert(dataSubjectRequests).values(input).returning();
+    return row;
+  },
+
+  async updateRequest(id: string, tenantId: string, updates: DataSubjectRequestUpdate) {
+    const [row] = await db
+      .update(dataSubjectRequests)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(dataSubjectRequests.id, id), eq(dataSubjectRequests.tenantId, tenantId)))
+      .returning();
+    return row || null;
+  },
+
+  /** Moves a request on only if it is still in one of the expected states. */
+  async transitionRequest(id: string, tenantId: string, from: DataSubjectRequest["status"][], updates: DataSubjectRequestUpdate) {
+    const [row] = await db
+      .update(dataSubjectRequests)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(
+        eq(dataSubjectRequests.id, id),
+        eq(dataSubjectRequests.tenantId, tenantId),
+        inArray(dataSubjectRequests.status, from),
+      ))
+      .returning();
+    return row || null;
+  },
+
+  /** Every request naming one of these users or contacts. */
+  async listSubjectRequests(tenantId: string, userIds: string[], contactIds: string[]) {
+    if (!userIds.length && !contactIds.length) return [];
+    return db
+      .select()
+      .from(dataSubjectRequests)
+      .where(and(
+        eq(dataSubjectRequests.tenantId, tenantId),
+        or(
+          userIds.length ? inArray(dataSubjectRequests.subjectUserId, userIds) : sql`false`,
+          contactIds.length ? inArray(dataSubjectRequests.subjectContactId, contactIds) : sql`false`,
+        ),
+      ));
+  },
+
+  async addEvent(input: typeof dataSubjectRequestEvents.$inferInsert) {
+    await db.insert(dataSubjectRequestEvents).values(input);
+  },
+
+  async listEvents(requestId: string, tenantId: string) {
+    return db
+      .select({
+        id: dataSubjectRequestEvents.id,
+        eventType: dataSubjectRequestEvents.eventType,
+        message: dataSubjectRequestEvents.message,
+        metadata: dataSubjectRequestEvents.metadata,
+        createdAt: dataSubjectRequestEvents.createdAt,
+        actorUserId: dataSubjectRequestEvents.actorUserId,
+        actorName: users.name,
+      })
+      .from(dataSubjectRequestEvents)
+      .leftJoin(users, eq(users.id, dataSubjectRequestEvents.actorUserId))
+      .where(and(eq(dataSubjectRequestEvents.requestId, requestId), eq(dataSubjectRequestEvents.tenantId, tenantId)))
+      .orderBy(asc(dataSubjectRequestEvents.createdAt));
+  },
+
+  async getTenantUser(tenantId: string, userId: string) {
+    const [row] = await db.select().from(users).where(and(eq(users.id, userId), eq(users.tenantId, tenantId)));
+    return row || null;
+  },
+
+  async getTenantContact(tenantId: string, contactId: string) {
+    const [row] = await db
+      .select()
+      .from(clientContacts)
+      .where(and(eq(clientContacts.id, contactId), eq(clientContacts.tenantId, tenantId)));
+    return row || null;
+  },
+
+  async searchSubjects(tenantId: string, query: string): Promise<SubjectCandidate[]> {
+    const pattern = `%${query}%`;
+    const [userRows, contactRows] = await Promise.all([
+      db
+        .select({ id: users.id, name: users.name, email: users.email, role: users.role, isActive: users.isActive })
+        .from(users)
+        .where(and(eq(users.tenantId, tenantId), or(ilike(users.name, pattern), ilike(users.email, pattern))))
+        .orderBy(asc(users.name))
+        .limit(SEARCH_LIMIT),
+      db
+        .select({
+          id: clientContacts.id,
+          firstName: clientContacts.firstName,
+          lastName: clientContacts.lastName,
+          email: clientContacts.email,
+          clientName: clients.companyName,
+        })
+        .from(clientContacts)
+        .innerJoin(clients, eq(clients.id, clientContacts.clientId))
+        .where(and(
+          eq(clientContacts.tenantId, tenantId),
+          or(
+            ilike(clientContacts.firstName, pattern),
+            ilike(clientContacts.lastName, pattern),
+            ilike(clientContacts.email, pattern),
+          ),
+        ))
+        .orderBy(asc(clientContacts.lastName))
+        .limit(SEARCH_LIMIT),
+    ]);
+
+    return [
+      ...userRows.map((u): SubjectCandidate => ({
+        subjectType: "user",
+        id: u.id,
+        name: u.name,
+        email: u.email,
+        detail: u.isActive ? u.role : `${u.role}, deactivated`,
+      })),
+      ...contactRows.map((c): SubjectCandidate => ({
+        subjectType: "client_contact",
+        id: c.id,
+        name: fullName(c.firstName, c.lastName) ?? c.email ?? "Unnamed contact",
+        email: c.email,
+        detail: `Contact at ${c.clientName}`,
+      })),
+    ];
+  },
+
+  /**
+   * Widens a user or contact to everything that identifies the same person in the tenant:
+   * a portal user and the client contact records that share its email address.
+   */
+  async resolveSubject(tenantId: string, seed: { userIds: string[]; contactIds: string[] }): Promise<DataSubject> {
+    const seedUsers = seed.userIds.length
+      ? await db.select().from(users).where(and(eq(users.tenantId, tenantId), inArray(users.id, seed.userIds)))
+      : [];
+    const seedContacts = seed.contactIds.length
+      ? await db.select().from(clientContacts).where(and(eq(clientContacts.tenantId, tenantId), inArray(clientContacts.id, seed.contactIds)))
+      : [];
+
+    const emails = unique([...seedUsers.map((u) => u.email), ...seedContacts.map((c) => c.email)].map((e) => e?.toLowerCase()));
+    const [linkedUsers, linkedContacts] = emails.length
+      ? await Promise.all([
+        db.select().from(users).where(and(eq(users.tenantId, tenantId), inArray(sql`lower(${users.email})`, emails))),
+        db.select().from(clientContacts).where(and(eq(clientContacts.tenantId, tenantId), inArray(sql`lower(${clientContacts.email})`, emails))),
+      ])
+      : [[], []];
+
+    const allUsers = seedUsers.concat(linkedUsers);
+    const allContacts = seedContacts.concat(linkedContacts);
+    return {
+      tenantId,
+      userIds: unique(allUsers.map((u) => u.id)),
+      contactIds: unique(allContacts.map((c) => c.id)),
+      emails,
+      names: unique([
+        ...allUsers.map((u) => u.name),
+        ...allContacts.map((c) => fullName(c.firstName, c.lastName)),
+      ]),
+    };
+  },
+};
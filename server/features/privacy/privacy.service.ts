@@ -0,0 +1,262 @@
+import { AppError } from "../../lib/errors";
+import { createLogger } from "../../lib/logger";
+import { enqueueJob } from "../../jobs/queue";
+import { createPresignedDownloadUrl, deleteS3Object, uploadToS3 } from "../../s3";
+import {
+  DataSubjectRequestStatus,
+  DataSubjectRequestType,
+  DataSubjectType,
+  UserRole,
+  type CreateDataSubjectRequest,
+  type DataSubjectRequest,
+  type DataSubjectRequestStatusValue,
+} from "@shared/schema";
+import { privacyRepo, type DataSubject } from "./privacy.repo";
+import { buildExportArchive, collectDataSubjectFiles, collectDataSubjectRecords } from "./dataSubjectExport";
+import { eraseDataSubject, pseudonymFor } from "./dataSubjectErasure";
+
+export const PRIVACY_JOB_TYPE = "data_subject_request";
+
+const log = createLogger("privacy");
+
+const MIN_SEARCH_LENGTH = 2;
+// A request the queue may still be working on
+const RUNNABLE: DataSubjectRequestStatusValue[] = [
+  DataSubjectRequestStatus.APPROVED,
+  DataSubjectRequestStatus.PROCESSING,
+  DataSubjectRequestStatus.FAILED,
+];
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function label(name: string | null, email: string | null): string {
+  if (name && email) return `${name} <${email}>`;
+  return name || email || "Unnamed";
+}
+
+async function getExisting(tenantId: string, id: string): Promise<DataSubjectRequest> {
+  const request = await privacyRepo.getRequest(id, tenantId);
+  if (!request) throw AppError.notFound("Data subject request");
+  return request;
+}
+
+async function resolveRequestSubject(request: DataSubjectRequest): Promise<DataSubject> {
+  if (!request.subjectUserId && !request.subjectContactId) {
+    throw new Error("The subject's records no longer exist");
+  }
+  return privacyRepo.resolveSubject(request.tenantId, {
+    userIds: request.subjectUserId ? [request.subjectUserId] : [],
+    contactIds: request.subjectContactId ? [request.subjectContactId] : [],
+  });
+}
+
+/** Erasure must not lock out the people running it or a platform operator. */
+async function assertErasable(tenantId: string, subject: DataSubject, protectedUserIds: string[]): Promise<void> {
+  if (subject.userIds.some((id) => protectedUserIds.includes(id))) {
+    throw AppError.forbidden("You cannot erase your own account");
+  }
+  for (const userId of subject.userIds) {
+    const user = await privacyRepo.getTenantUser(tenantId, userId);
+    if (user?.role === UserRole.SUPER_USER) {
+      throw AppError.forbidden("Super user accounts cannot be erased");
+    }
+  }
+}
+
+async function runExport(request: DataSubjectRequest, subject: DataSubject) {
+  const records = await collectDataSubjectRecords(subject);
+  const files = await collectDataSubjectFiles(subject, records);
+  const archive = buildExportArchive(request, subject, records, files, new Date());
+  const body = Buffer.from(JSON.stringify(archive, null, 2), "utf8");
+  const archiveKey = `privacy-exports/${request.tenantId}/${request.id}.json`;
+  await uploadToS3(body, archiveKey, "application/json", request.tenantId);
+  return { archiveKey, archiveSizeBytes: body.length, summary: archive.summary, files: files.length };
+}
+
+async function runErasure(request: DataSubjectRequest, subject: DataSubject) {
+  await assertErasable(request.tenantId, subject, [request.requestedByUserId, request.decidedByUserId].filter((v): v is string => !!v));
+  const summary = await eraseDataSubject(request.id, subject);
+
+  // Earlier requests about the same person still name them and may hold an export of their data
+  const pseudonym = pseudonymFor(request.id).label;
+  const related = await privacyRepo.listSubjectRequests(request.tenantId, subject.userIds, subject.contactIds);
+  for (const other of related) {
+    if (other.id === request.id) continue;
+    if (other.archiveKey) {
+      try {
+        await deleteS3Object(other.archiveKey, request.tenantId);
+      } catch (err) {
+        log.warn("Could not delete earlier export archive", { requestId: other.id, error: errorMessage(err) });
+      }
+    }
+    await privacyRepo.updateRequest(other.id, request.tenantId, { subjectLabel: pseudonym, archiveKey: null });
+  }
+  return { summary, subjectLabel: pseudonym, relatedRequests: related.length - 1 };
+}
+
+export const privacyService = {
+  listRequests(tenantId: string) {
+    return privacyRepo.listRequests(tenantId);
+  },
+
+  async getRequest(tenantId: string, id: string) {
+    const request = await getExisting(tenantId, id);
+    return { ...request, events: await privacyRepo.listEvents(id, tenantId) };
+  },
+
+  searchSubjects(tenantId: string, query: string) {
+    const q = query.trim();
+    if (q.length < MIN_SEARCH_LENGTH) return Promise.resolve([]);
+    return privacyRepo.searchSubjects(tenantId, q);
+  },
+
+  async createRequest(tenantId: string, actorId: string, data: CreateDataSubjectRequest): Promise<DataSubjectRequest> {
+    let subjectLabel: string;
+    if (data.subjectType === DataSubjectType.USER) {
+      const user = await privacyRepo.getTenantUser(tenantId, data.subjectId);
+      if (!user) throw AppError.notFound("User");
+      if (data.type === DataSubjectRequestType.ERASURE) {
+        if (user.id === actorId) throw AppError.badRequest("You cannot erase your own account");
+        if (user.role === UserRole.SUPER_USER) throw AppError.badRequest("Super user accounts cannot be erased");
+      }
+      subjectLabel = label(user.name, user.email);
+    } else {
+      const contact = await privacyRepo.getTenantContact(tenantId, data.subjectId);
+      if (!contact) throw AppError.notFound("Client contact");
+      subjectLabel = label([contact.firstName, contact.lastName].filter(Boolean).join(" "), contact.email);
+    }
+
+    const request = await privacyRepo.createRequest({
+      tenantId,
+      type: data.type,
+      subjectType: data.subjectType,
+      subjectUserId: data.subjectType === DataSubjectType.USER ? data.subjectId : null,
+      subjectContactId: data.subjectType === DataSubjectType.CLIENT_CONTACT ? data.subjectId : null,
+      subjectLabel,
+      reason: data.reason,
+      requestedByUserId: actorId,
+    });
+    await privacyRepo.addEvent({
+      tenantId,
+      requestId: request.id,
+      actorUserId: actorId,
+      eventType: "created",
+      message: `${data.type === DataSubjectRequestType.EXPORT ? "Export" : "Erasure"} requested`,
+    });
+    return request;
+  },
+
+  /** A second admin signs off before anything runs. */
+  async approve(tenantId: string, actorId: string, id: string, note?: string): Promise<DataSubjectRequest> {
+    const request = await getExisting(tenantId, id);
+    if (request.status !== DataSubjectRequestStatus.PENDING_APPROVAL) {
+      throw AppError.conflict("Only pending requests can be approved");
+    }
+    if (request.requestedByUserId === actorId) {
+      throw AppError.forbidden("A different admin must approve this request");
+    }
+    if (request.type === DataSubjectRequestType.ERASURE) {
+      const subject = await resolveRequestSubject(request);
+      await assertErasable(tenantId, subject, [actorId]);
+    }
+
+    const approved = await privacyRepo.transitionRequest(id, tenantId, [DataSubjectRequestStatus.PENDING_APPROVAL], {
+      status: DataSubjectRequestStatus.APPROVED,
+      decidedByUserId: actorId,
+      decidedAt: new Date(),
+      decisionNote: note || null,
+    });
+    if (!approved) throw AppError.conflict("The request was decided by someone else");
+
+    const jobId = await enqueueJob({
+      tenantId,
+      userId: actorId,
+      type: PRIVACY_JOB_TYPE,
+      payload: { requestId: id },
+      maxAttempts: 3,
+    });
+    await privacyRepo.addEvent({ tenantId, requestId: id, actorUserId: actorId, eventType: "approved", message: "Request approved", metadata: { jobId } });
+    return (await privacyRepo.updateRequest(id, tenantId, { jobId })) ?? approved;
+  },
+
+  async reject(tenantId: string, actorId: string, id: string, note?: string): Promise<DataSubjectRequest> {
+    const rejected = await privacyRepo.transitionRequest(id, tenantId, [DataSubjectRequestStatus.PENDING_APPROVAL], {
+      status: DataSubjectRequestStatus.REJECTED,
+      decidedByUserId: actorId,
+      decidedAt: new Date(),
+      decisionNote: note || null,
+    });
+    if (!rejected) {
+      await getExisting(tenantId, id);
+      throw AppError.conflict("Only pending requests can be rejected");
+    }
+    await privacyRepo.addEvent({ tenantId, requestId: id, actorUserId: actorId, eventType: "rejected", message: "Request rejected" });
+    return rejected;
+  },
+
+  /** Job entry point. Failures mark the request failed and rethrow so the queue retries. */
+  async processJob(tenantId: string, requestId: string): Promise<DataSubjectRequest | null> {
+    const request = await privacyRepo.transitionRequest(requestId, tenantId, RUNNABLE, {
+      status: DataSubjectRequestStatus.PROCESSING,
+      error: null,
+    });
+    if (!request) return null;
+    await privacyRepo.addEvent({ tenantId, requestId, actorUserId: null, eventType: "processing", message: "Processing started" });
+
+    try {
+      const subject = await resolveRequestSubject(request);
+      if (request.type === DataSubjectRequestType.EXPORT) {
+        const result = await runExport(request, subject);
+        await privacyRepo.addEvent({
+          tenantId,
+          requestId,
+          actorUserId: null,
+          eventType: "completed",
+          message: "Export archive created",
+          metadata: { records: result.summary, files: result.files, sizeBytes: result.archiveSizeBytes },
+        });
+        return privacyRepo.updateRequest(requestId, tenantId, {
+          status: DataSubjectRequestStatus.COMPLETED,
+          archiveKey: result.archiveKey,
+          archiveSizeBytes: result.archiveSizeBytes,
+          summary: result.summary,
+          completedAt: new Date(),
+        });
+      }
+
+      const result = await runErasure(request, subject);
+      await privacyRepo.addEvent({
+        tenantId,
+        requestId,
+        actorUserId: null,
+        eventType: "completed",
+        message: "Subject pseudonymized",
+        metadata: { changed: result.summary, relatedRequests: result.relatedRequests },
+      });
+      return privacyRepo.updateRequest(requestId, tenantId, {
+        status: DataSubjectRequestStatus.COMPLETED,
+        subjectLabel: result.subjectLabel,
+        summary: result.summary,
+        completedAt: new Date(),
+      });
+    } catch (err) {
+      const message = errorMessage(err);
+      log.error("Data subject request failed", { requestId, error: message });
+      await privacyRepo.updateRequest(requestId, tenantId, { status: DataSubjectRequestStatus.FAILED, error: message });
+      await privacyRepo.addEvent({ tenantId, requestId, actorUserId: null, eventType: "failed", message: "Processing failed", metadata: { error: message } });
+      throw err;
+    }
+  },
+
+  async getDownloadUrl(tenantId: string, actorId: string, id: string): Promise<{ url: string }> {
+    const request = await getExisting(tenantId, id);
+    if (request.type !== DataSubjectRequestType.EXPORT || request.status !== DataSubjectRequestStatus.COMPLETED || !request.archiveKey) {
+      throw AppError.badRequest("No export archive is available for this request");
+    }
+    const url = await createPresignedDownloadUrl(request.archiveKey, tenantId);
+    await privacyRepo.addEvent({ tenantId, requestId: id, actorUserId: actorId, eventType: "downloaded", message: "Export archive downloaded" });
+    return { url };
+  },
+};
@@ -0,0 +1,35 @@
+import type { ProofPin } from "@shared/schema";
+
+/** File types the proof viewer can render and pin comments on. */
+export function isProofableMimeType(mimeType: string): boolean {
+  return mimeType.startsWith("image/") || mimeType === "application/pdf";
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Checks a pin against the version it is placed on and rounds its coordinates.
+ * PDFs need a page; images must not have one. Returns an error message on failure.
+ */
+export function normalizePin(pin: ProofPin, mimeType: string): { pin: ProofPin } | { error: string } {
+  if (!isProofableMimeType(mimeType)) {
+    return { error: "Pins can only be placed on images and PDFs" };
+  }
+  const isPdf = mimeType === "application/pdf";
+  if (isPdf && pin.page === undefined) {
+    return { error: "Pins on a PDF need a page number" };
+  }
+  if (!isPdf && pin.page !== undefined) {
+    return { error: "Pins on an image cannot have a page number" };
+  }
+
+  const normalized: ProofPin = { x: round(pin.x), y: round(pin.y) };
+  if (isPdf) normalized.page = pin.page;
+  if (pin.width !== undefined && pin.height !== undefined) {
+    normalized.width = Math.min(round(pin.width), round(1 - normalized.x));
+    normalized.height = Math.min(round(pin.height), round(1 - normalized.y));
+  }
+  return { pin: normalized };
+}
@@ -0,0 +1,220 @@
+import { and, asc, desc, eq, isNotNull, isNull, sql } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  approvalRequests,
+  assets,
+  assetVersions,
+  proofComments,
+  tasks,
+  users,
+  type Asset,
+  type AssetVersionStatus,
+  type InsertAssetVersion,
+  type InsertProofComment,
+} from "@shared/schema";
+
+export const proofingRepo = {
+  async getAsset(tenantId: string, assetId: string) {
+    const [asset] = await db
+      .select()
+      .from(assets)
+      .where(and(eq(assets.id, assetId), eq(assets.tenantId, tenantId), eq(assets.isDeleted, false)))
+      .limit(1);
+    return asset ?? null;
+  },
+
+  async listVersions(tenantId: string, assetId: string) {
+    const openComments = db
+      .select({ versionId: proofComments.versionId, count: sql<number>`count(*)::int`.as("count") })
+      .from(proofComments)
+      .where(and(
+        eq(proofComments.tenantId, tenantId),
+        eq(proofComments.assetId, assetId),
+        isNull(proofComments.parentCommentId),
+        isNull(proofComments.resolvedAt),
+      ))
+      .groupBy(proofComments.versionId)
+      .as("open_comments");
+
+    const rows = await db
+      .select({ version: assetVersions, uploaderName: users.name, openComments: openComments.count })
+      .from(assetVersions)
+      .leftJoin(users, eq(assetVersions.uploadedByUserId, users.id))
+      .leftJoin(openComments, eq(openComments.versionId, assetVersions.id))
+      .where(and(eq(assetVersions.tenantId, tenantId), eq(assetVersions.assetId, assetId)))
+      .orderBy(desc(assetVersions.versionNumber));
+
+    return rows.map((row) => ({
+      ...row.version,
+      uploaderName: row.uploaderName ?? null,
+      openCommentCount: row.openComments ?? 0,
+    }));
+  },
+
+  async getVersion(tenantId: string, versionId: string) {
+    const [version] = await db
+      .select()
+      .from(assetVersions)
+      .where(and(eq(assetVersions.id, versionId), eq(assetVersions.tenantId, tenantId)))
+      .limit(1);
+    return version ?? null;
+  },
+
+  async getLatestVersion(tenantId: string, assetId: string) {
+    const [version] = await db
+      .select()
+      .from(assetVersions)
+      .where(and(eq(assetVersions.tenantId, tenantId), eq(assetVersions.assetId, assetId)))
+      .orderBy(desc(assetVersions.versionNumber))
+      .limit(1);
+    return version ?? null;
+  },
+
+  /** Records the asset's current file as version 1 unless the asset already has versions. */
+  async ensureFirstVersion(asset: Asset) {
+    await db
+      .insert(assetVersions)
+      .values({
+        tenantId: asset.tenantId,
+        assetId: asset.id,
+        versionNumber: 1,
+        r2Key: asset.r2Key,
+        mimeType: asset.mimeType,
+        sizeBytes: asset.sizeBytes,
+        checksum: asset.checksum,
+        uploadedByUserId: asset.uploadedByUserId,
+        createdAt: asset.createdAt,
+      })
+      .onConflictDoNothing({ target: [assetVersions.assetId, assetVersions.versionNumber] });
+  },
+
+  /** Appends a version and points the asset at its file, in one transaction. */
+  async addVersion(values: Omit<InsertAssetVersion, "versionNumber">) {
+    return db.transaction(async (tx) => {
+      // Serializes concurrent uploads to the same asset
+      await tx.select({ id: assets.id }).from(assets).where(eq(assets.id, values.assetId)).for("update");
+      const [{ next }] = await tx
+        .select({ next: sql<number>`coalesce(max(${assetVersions.versionNumber}), 0) + 1` })
+        .from(assetVersions)
+        .where(eq(assetVersions.assetId, values.assetId));
+
+      const [version] = await tx
+        .insert(assetVersions)
+        .values({ ...values, versionNumber: Number(next) })
+        .returning();
+
+      await tx
+        .update(assets)
+        .set({
+          r2Key: values.r2Key,
+          mimeType: values.mimeType,
+          sizeBytes: values.sizeBytes,
+          checksum: values.checksum ?? null,
+          updatedAt: new Date(),
+        })
+        .where(eq(assets.id, values.assetId));
+
+      return version;
+    });
+  },
+
+  async setVersionStatus(tenantId: string, versionId: string, status: AssetVersionStatus) {
+    await db
+      .update(assetVersions)
+      .set({ status })
+      .where(and(eq(assetVersions.id, versionId), eq(assetVersions.tenantId, tenantId)));
+  },
+
+  async markClientVisible(tenantId: string, assetId: string) {
+    await db
+      .update(assets)
+      .set({ visibility: "client_visible", updatedAt: new Date() })
+      .where(and(eq(assets.id, assetId), eq(assets.tenantId, tenantId)));
+  },
+
+  async listComments(tenantId: string, versionId: string) {
+    const rows = await db
+      .select({ comment: proofComments, authorName: users.name, authorRole: users.role })
+      .from(proofComments)
+      .leftJoin(users, eq(proofComments.authorUserId, users.id))
+      .where(and(eq(proofComments.tenantId, tenantId), eq(proofComments.versionId, versionId)))
+      .orderBy(asc(proofComments.createdAt));
+
+    return rows.map((row) => ({
+      ...row.comment,
+      authorName: row.authorName ?? "Unknown",
+      authorRole: row.authorRole ?? null,
+    }));
+  },
+
+  async getComment(tenantId: string, commentId: string) {
+    const [comment] = await db
+      .select()
+      .from(proofComments)
+      .where(and(eq(proofComments.id, commentId), eq(proofComments.tenantId, tenantId)))
+      .limit(1);
+    return comment ?? null;
+  },
+
+  async createComment(values: InsertProofComment) {
+    const [comment] = await db.insert(proofComments).values(values).returning();
+    return comment;
+  },
+
+  async setResolved(tenantId: string, commentId: string, resolvedByUserId: string | null) {
+    const [comment] = await db
+      .update(proofComments)
+      .set({
+        resolvedAt: resolvedByUserId ? new Date() : null,
+        resolvedByUserId,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(proofComments.id, commentId), eq(proofComments.tenantId, tenantId)))
+      .returning();
+    return comment ?? null;
+  },
+
+  async createApprovalRequest(values: typeof approvalRequests.$inferInsert) {
+    const [approval] = await db.insert(approvalRequests).values(values).returning();
+    return approval;
+  },
+
+  async listApprovalsForAsset(tenantId: string, assetId: string) {
+    return db
+      .select()
+      .from(approvalRequests)
+      .where(and(eq(approvalRequests.tenantId, tenantId), eq(approvalRequests.assetId, assetId)))
+      .orderBy(desc(approvalRequests.createdAt));
+  },
+
+  async getLatestApprovalProjectId(tenantId: string, assetId: string): Promise<string | null> {
+    const [row] = await db
+      .select({ projectId: approvalRequests.projectId })
+      .from(approvalRequests)
+      .where(and(
+        eq(approvalRequests.tenantId, tenantId),
+        eq(approvalRequests.assetId, assetId),
+        isNotNull(approvalRequests.projectId),
+      ))
+      .orderBy(desc(approvalRequests.createdAt))
+      .limit(1);
+    return row?.projectId ?? null;
+  },
+
+  async getTaskProjectId(tenantId: string, taskId: string): Promise<string | null> {
+    const [row] = await db
+      .select({ projectId: tasks.projectId })
+      .from(tasks)
+      .where(and(eq(tasks.id, taskId), eq(tasks.tenantId, tenantId)))
+      .limit(1);
+    return row?.projectId ?? null;
+  },
+
+  async listApprovalRequesterIds(tenantId: string, assetId: string): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ userId: approvalRequests.requestedByUserId })
+      .from(approvalRequests)
+      .where(and(eq(approvalRequests.tenantId, tenantId), eq(approvalRequests.assetId, assetId)));
+    return rows.map((row) => row.userId);
+  },
+};
@@ -0,0 +1,243 @@
+/**
+ * Asset Proofing Service
+ *
+ * Version stack, pinned review comments and client sign-off for asset library files.
+ * Tenant users upload versions and ask for approval; portal users review assets of
+ * their clients that are client-visible. Every comment notifies the project team.
+ */
+
+import { AppError } from "../../lib/errors";
+import { createLogger } from "../../lib/logger";
+import { storage } from "../../storage";
+import { createPresignedDownloadUrl } from "../../s3";
+import { getClientUserAccessibleClients } from "../../middleware/clientAccess";
+import {
+  UserRole,
+  type ApprovalRequest,
+  type Asset,
+  type AssetVersion,
+  type CreateAssetVersion,
+  type CreateProofComment,
+  type ProofComment,
+  type RequestProofApproval,
+} from "@shared/schema";
+import { notifyProofingComment } from "../notifications/notification.service";
+import { proofingRepo } from "./proofing.repo";
+import { normalizePin } from "./proofPins";
+
+const proofingLog = createLogger("proofing");
+
+export interface ProofActor {
+  id: string;
+  role: string;
+  name: string;
+}
+
+function isPortalUser(actor: ProofActor): boolean {
+  return actor.role === UserRole.CLIENT;
+}
+
+/** The asset, if the actor may review it; portal users see only client-visible assets of their clients. */
+async function getReviewableAsset(tenantId: string, assetId: string, actor: ProofActor): Promise<Asset> {
+  const asset = await proofingRepo.getAsset(tenantId, assetId);
+  if (!asset) throw AppError.notFound("Asset");
+  if (isPortalUser(actor)) {
+    const clientIds = await getClientUserAccessibleClients(actor.id);
+    if (!clientIds.includes(asset.clientId) || asset.visibility !== "client_visible") {
+      throw AppError.notFound("Asset");
+    }
+  }
+  return asset;
+}
+
+async function getReviewableVersion(
+  tenantId: string,
+  versionId: string,
+  actor: ProofActor,
+): Promise<{ asset: Asset; version: AssetVersion }> {
+  const version = await proofingRepo.getVersion(tenantId, versionId);
+  if (!version) throw AppError.notFound("Version");
+  const asset = await getReviewableAsset(tenantId, version.assetId, actor);
+  return { asset, version };
+}
+
+function requireTenantUser(actor: ProofActor, action: string): void {
+  if (isPortalUser(actor)) throw AppError.forbidden(`Portal users cannot ${action}`);
+}
+
+/**
+ * The project team for an asset: members of the project its latest approval request
+ * names, else of the project or task it was filed from. Assets with no project fall
+ * back to the uploader and whoever requested approval.
+ */
+async function resolveProofTeam(asset: Asset): Promise<string[]> {
+  const context = (asset.sourceContextJson ?? {}) as Record<string, unknown>;
+  let projectId = await proofingRepo.getLatestApprovalProjectId(asset.tenantId, asset.id);
+  if (!projectId && typeof context.projectId === "string") projectId = context.projectId;
+  if (!projectId && asset.sourceType === "project") projectId = asset.sourceId;
+  if (!projectId && asset.sourceType === "task" && asset.sourceId) {
+    projectId = await proofingRepo.getTaskProjectId(asset.tenantId, asset.sourceId);
+  }
+
+  if (projectId) {
+    const members = await storage.getProjectMembers(projectId);
+    if (members.length > 0) return members.map((member) => member.userId);
+  }
+
+  const requesters = await proofingRepo.listApprovalRequesterIds(asset.tenantId, asset.id);
+  const fallback = asset.uploadedByUserId ? [asset.uploadedByUserId, ...requesters] : requesters;
+  return fallback.filter((userId, index) => fallback.indexOf(userId) === index);
+}
+
+async function notifyTeam(asset: Asset, version: AssetVersion, comment: ProofComment, actor: ProofActor): Promise<void> {
+  try {
+    const team = await resolveProofTeam(asset);
+    await Promise.all(team.map((userId) =>
+      notifyProofingComment(userId, {
+        assetId: asset.id,
+        assetTitle: asset.title,
+        clientId: asset.clientId,
+        versionId: version.id,
+        versionNumber: version.versionNumber,
+        commentId: comment.id,
+        authorName: actor.name,
+        body: comment.body,
+      }, { tenantId: asset.tenantId, excludeUserId: actor.id }),
+    ));
+  } catch (error) {
+    proofingLog.error("Failed to notify project team of proofing comment", {
+      assetId: asset.id,
+      commentId: comment.id,
+      error: String(error),
+    });
+  }
+}
+
+export const proofingService = {
+  async listVersions(tenantId: string, assetId: string, actor: ProofActor) {
+    const asset = await getReviewableAsset(tenantId, assetId, actor);
+    // Assets uploaded before proofing existed start their stack on first view
+    await proofingRepo.ensureFirstVersion(asset);
+    return proofingRepo.listVersions(tenantId, assetId);
+  },
+
+  async addVersion(tenantId: string, assetId: string, input: CreateAssetVersion, actor: ProofActor): Promise<AssetVersion> {
+    requireTenantUser(actor, "upload versions");
+    const asset = await getReviewableAsset(tenantId, assetId, actor);
+    if (!input.r2Key.startsWith(`assets/${tenantId}/${asset.clientId}/`)) {
+      throw AppError.badRequest("The uploaded file does not belong to this client's asset library");
+    }
+    if (input.r2Key === asset.r2Key) {
+      throw AppError.badRequest("This file is already the current version");
+    }
+
+    await proofingRepo.ensureFirstVersion(asset);
+    return proofingRepo.addVersion({
+      tenantId,
+      assetId,
+      r2Key: input.r2Key,
+      mimeType: input.mimeType,
+      sizeBytes: input.sizeBytes,
+      checksum: input.checksum ?? null,
+      note: input.note || null,
+      uploadedByUserId: actor.id,
+    });
+  },
+
+  async getVersionDownloadUrl(tenantId: string, versionId: string, actor: ProofActor): Promise<string> {
+    const { version } = await getReviewableVersion(tenantId, versionId, actor);
+    return createPresignedDownloadUrl(version.r2Key, tenantId);
+  },
+
+  async listComments(tenantId: string, versionId: string, actor: ProofActor) {
+    await getReviewableVersion(tenantId, versionId, actor);
+    return proofingRepo.listComments(tenantId, versionId);
+  },
+
+  async addComment(tenantId: string, versionId: string, input: CreateProofComment, actor: ProofActor): Promise<ProofComment> {
+    const { asset, version } = await getReviewableVersion(tenantId, versionId, actor);
+
+    let pin = null;
+    if (input.parentCommentId) {
+      const parent = await proofingRepo.getComment(tenantId, input.parentCommentId);
+      if (!parent || parent.versionId !== versionId || parent.parentCommentId) {
+        throw AppError.badRequest("Replies must point at a comment thread on this version");
+      }
+      if (input.pin) throw AppError.badRequest("Replies cannot be pinned");
+    } else if (input.pin) {
+      const result = normalizePin(input.pin, version.mimeType);
+      if ("error" in result) throw AppError.badRequest(result.error);
+      pin = result.pin;
+    }
+
+    const comment = await proofingRepo.createComment({
+      tenantId,
+      assetId: asset.id,
+      versionId,
+      parentCommentId: input.parentCommentId ?? null,
+      authorUserId: actor.id,
+      body: input.body,
+      pin,
+    });
+    await notifyTeam(asset, version, comment, actor);
+    return comment;
+  },
+
+  async setResolved(tenantId: string, commentId: string, resolved: boolean, actor: ProofActor): Promise<ProofComment> {
+    const comment = await proofingRepo.getComment(tenantId, commentId);
+    if (!comment) throw AppError.notFound("Comment");
+    await getReviewableVersion(tenantId, comment.versionId, actor);
+    if (comment.parentCommentId) throw AppError.badRequest("Resolve the thread, not a reply");
+
+    const updated = await proofingRepo.setResolved(tenantId, commentId, resolved ? actor.id : null);
+    if (!updated) throw AppError.notFound("Comment");
+    return updated;
+  },
+
+  async listApprovalRequests(tenantId: string, assetId: string, actor: ProofActor): Promise<ApprovalRequest[]> {
+    requireTenantUser(actor, "list approval requests");
+    await getReviewableAsset(tenantId, assetId, actor);
+    return proofingRepo.listApprovalsForAsset(tenantId, assetId);
+  },
+
+  /** Asks the client to sign off a version; the asset becomes visible in the portal. */
+  async requestApproval(tenantId: string, assetId: string, input: RequestProofApproval, actor: ProofActor): Promise<ApprovalRequest> {
+    requireTenantUser(actor, "request approvals");
+    const asset = await getReviewableAsset(tenantId, assetId, actor);
+    await proofingRepo.ensureFirstVersion(asset);
+
+    const version = input.versionId
+      ? await proofingRepo.getVersion(tenantId, input.versionId)
+      : await proofingRepo.getLatestVersion(tenantId, assetId);
+    if (!version || version.assetId !== assetId) throw AppError.notFound("Version");
+
+    if (input.projectId) {
+      const project = await storage.getProject(input.projectId);
+      if (!project || project.tenantId !== tenantId) throw AppError.badRequest("Project not found");
+    }
+
+    const approval = await proofingRepo.createApprovalRequest({
+      tenantId,
+      clientId: asset.clientId,
+      projectId: input.projectId ?? null,
+      requestedByUserId: actor.id,
+      title: input.title || `Review ${asset.title} (v${version.versionNumber})`,
+      instructions: input.instructions || null,
+      dueAt: input.dueAt ? new Date(input.dueAt) : null,
+      status: "pending",
+      assetId,
+      assetVersionId: version.id,
+    });
+    await proofingRepo.setVersionStatus(tenantId, version.id, "in_review");
+    if (asset.visibility !== "client_visible") {
+      await proofingRepo.markClientVisible(tenantId, assetId);
+    }
+    return approval;
+  },
+
+  /** Carries a client's answer on an approval request over to the version it covers. */
+  async applyApprovalResponse(approval: ApprovalRequest, status: "approved" | "changes_requested"): Promise<void> {
+    if (!approval.assetVersionId) return;
+    await proofingRepo.setVersionStatus(approval.tenantId, approval.assetVersionId, status);
+  },
+};
@@ -0,0 +1,169 @@
+import { eq, and, gt, ne, sql } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  tasks,
+  taskRecurrences,
+  taskAssignees,
+  taskWatchers,
+  taskTags,
+  taskAccess,
+  subtasks,
+  type InsertTaskRecurrence,
+  type Task,
+  type TaskRecurrence,
+} from "@shared/schema";
+import { taskIsOpen } from "../../reports/taskStatusSql";
+
+export type TaskRecurrenceUpdate = Partial<Omit<TaskRecurrence, "id" | "tenantId" | "createdAt">>;
+
+export const taskRecurrenceRepo = {
+  async getById(id: string, tenantId: string) {
+    const [row] = await db
+      .select()
+      .from(taskRecurrences)
+      .where(and(eq(taskRecurrences.id, id), eq(taskRecurrences.tenantId, tenantId)));
+    return row || null;
+  },
+
+  async getTask(tenantId: string, taskId: string) {
+    const [row] = await db
+      .select()
+      .from(tasks)
+      .where(and(eq(tasks.id, taskId), eq(tasks.tenantId, tenantId)));
+    return row || null;
+  },
+
+  async create(input: InsertTaskRecurrence) {
+    const [row] = await db.insert(taskRecurrences).values(input).returning();
+    return row;
+  },
+
+  async update(id: string, tenantId: string, updates: TaskRecurrenceUpdate) {
+    const [row] = await db
+      .update(taskRecurrences)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(taskRecurrences.id, id), eq(taskRecurrences.tenantId, tenantId)))
+      .returning();
+    return row || null;
+  },
+
+  async setTaskRecurrenceId(tenantId: string, taskId: string, recurrenceId: string | null) {
+    await db
+      .update(tasks)
+      .set({ recurrenceId, updatedAt: new Date() })
+      .where(and(eq(tasks.id, taskId), eq(tasks.tenantId, tenantId)));
+  },
+
+  /**
+   * Copies the template task into a new open instance of the series, together with its
+   * assignees, watchers, tags, private-access grants and (reset) subtasks.
+   */
+  async createInstance(
+    template: Task,
+    recurrenceId: string,
+    schedule: { startDate: Date | null; dueDate: Date | null },
+    status: string,
+  ): Promise<Task> {
+    return db.transaction(async (tx) => {
+      const [{ count }] = template.sectionId
+        ? await tx
+            .select({ count: sql<number>`count(*)::int` })
+            .from(tasks)
+            .where(and(eq(tasks.sectionId, template.sectionId), sql`${tasks.parentTaskId} IS NULL`))
+        : [{ count: 0 }];
+
+      const [instance] = await tx.insert(tasks).values({
+        tenantId: template.tenantId,
+        projectId: template.projectId,
+        sectionId: template.sectionId,
+        parentTaskId: template.parentTaskId,
+        title: template.title,
+        description: template.description,
+        status,
+        priority: template.priority,
+        startDate: schedule.startDate,
+        dueDate: schedule.dueDate,
+        estimateMinutes: template.estimateMinutes,
+        isMilestone: template.isMilestone,
+        isPersonal: template.isPersonal,
+        visibility: template.visibility,
+        createdBy: template.createdBy,
+        orderIndex: count,
+        personalSectionId: template.personalSectionId,
+        personalSortOrder: template.personalSortOrder,
+        recurrenceId,
+      }).returning();
+
+      const assignees = await tx.select().from(taskAssignees).where(eq(taskAssignees.taskId, template.id));
+      if (assignees.length > 0) {
+        await tx.insert(taskAssignees).values(
+          assignees.map((a) => ({ tenantId: a.tenantId, taskId: instance.id, userId: a.userId })),
+        ).onConflictDoNothing();
+      }
+
+      const watchers = await tx.select().from(taskWatchers).where(eq(taskWatchers.taskId, template.id));
+      if (watchers.length > 0) {
+        await tx.insert(taskWatchers).values(
+          watchers.map((w) => ({ tenantId: w.tenantId, taskId: instance.id, userId: w.userId })),
+        ).onConflictDoNothing();
+      }
+
+      const tagLinks = await tx.select().from(taskTags).where(eq(taskTags.taskId, template.id));
+      if (tagLinks.length > 0) {
+        await tx.insert(taskTags).values(
+          tagLinks.map((t) => ({ taskId: instance.id, tagId: t.tagId })),
+        ).onConflictDoNothing();
+      }
+
+      const grants = await tx.select().from(taskAccess).where(eq(taskAccess.taskId, template.id));
+      if (grants.length > 0) {
+        await tx.insert(taskAccess).values(
+          grants.map((g) => ({
+            tenantId: g.tenantId,
+            taskId: instance.id,
+            userId: g.userId,
+            role: g.role,
+            invitedByUserId: g.invitedByUserId,
+          })),
+        ).onConflictDoNothing();
+      }
+
+      const templateSubtasks = await tx.select().from(subtasks).where(eq(subtasks.taskId, template.id));
+      if (templateSubtasks.length > 0) {
+        await tx.insert(subtasks).values(
+          templateSubtasks.map((s) => ({
+            taskId: instance.id,
+            title: s.title,
+            description: s.description,
+            priority: s.priority,
+            assigneeId: s.assigneeId,
+            estimateMinutes: s.estimateMinutes,
+            orderIndex: s.orderIndex,
+          })),
+        );
+      }
+
+      return instance;
+    });
+  },
+
+  /** Applies field edits to the open instances of a series created after `after`. */
+  async updateLaterOpenInstances(
+    tenantId: string,
+    recurrenceId: string,
+    after: Task,
+    updates: Partial<Pick<Task, "title" | "description" | "priority" | "estimateMinutes" | "visibility">>,
+  ): Promise<Task[]> {
+    return db
+      .update(tasks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(
+        eq(tasks.tenantId, tenantId),
+        eq(tasks.recurrenceId, recurrenceId),
+        ne(tasks.id, after.id),
+        gt(tasks.createdAt, after.createdAt),
+        taskIsOpen("tasks"),
+      ))
+      .returning();
+  },
+};
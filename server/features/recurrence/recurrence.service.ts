@@ -0,0 +1,239 @@
+import { AppError } from "../../lib/errors";
+import { enqueueJob, cancelJob } from "../../jobs/queue";
+import {
+  RecurrenceGenerateMode,
+  type Task,
+  type TaskRecurrence,
+} from "@shared/schema";
+import { workflowService } from "../workflows/workflow.service";
+import { statusCategory } from "../workflows/workflowRules";
+import { statusHistoryService } from "../statusHistory/statusHistory.service";
+import { taskRecurrenceRepo } from "./recurrence.repo";
+import { formatRRule, nextOccurrence, parseRRule, RRuleError, type RecurrenceRule } from "./rrule";
+
+export const RECURRING_TASK_JOB_TYPE = "recurring_task";
+
+/** Fields an edit scoped to "this and future" carries over to later open instances. */
+const SERIES_FIELDS = ["title", "description", "priority", "estimateMinutes", "visibility"] as const;
+
+type SetRecurrenceInput = { rrule: string; generateMode?: string };
+type SeriesFieldUpdates = Partial<Pick<Task, typeof SERIES_FIELDS[number]>>;
+
+export const taskRecurrenceService = {
+  async getForTask(tenantId: string, task: Task): Promise<TaskRecurrence | null> {
+    if (!task.recurrenceId) return null;
+    return taskRecurrenceRepo.getById(task.recurrenceId, tenantId);
+  },
+
+  /**
+   * Makes `task` the anchor of a recurring series (creating the series or restarting an
+   * existing one from this task with the new rule).
+   */
+  async setForTask(tenantId: string, task: Task, input: SetRecurrenceInput, userId: string): Promise<TaskRecurrence> {
+    const rule = parseRule(input.rrule);
+    const dtstart = anchorDate(task) ?? new Date();
+    const values = {
+      rrule: formatRRule(rule),
+      dtstart,
+      generateMode: input.generateMode ?? RecurrenceGenerateMode.ON_COMPLETION,
+      templateTaskId: task.id,
+      occurrenceCount: 1,
+      nextOccurrenceAt: nextOccurrence(rule, dtstart, dtstart, 1),
+      isActive: true,
+    };
+
+    const existing = await this.getForTask(tenantId, task);
+    let recurrence: TaskRecurrence | null;
+    if (existing) {
+      if (existing.scheduledJobId) await cancelJob(existing.scheduledJobId);
+      recurrence = await taskRecurrenceRepo.update(existing.id, tenantId, { ...values, scheduledJobId: null });
+    } else {
+      recurrence = await taskRecurrenceRepo.create({ ...values, tenantId, createdBy: userId });
+      await taskRecurrenceRepo.setTaskRecurrenceId(tenantId, task.id, recurrence.id);
+    }
+    if (!recurrence) throw AppError.notFound("Recurrence");
+
+    return scheduleNext(recurrence, task);
+  },
+
+  /** Stops the series; instances that already exist are kept. */
+  async stopForTask(tenantId: string, task: Task): Promise<void> {
+    const recurrence = await this.getForTask(tenantId, task);
+    if (!recurrence) throw AppError.notFound("Recurrence");
+    if (recurrence.scheduledJobId) await cancelJob(recurrence.scheduledJobId);
+    await taskRecurrenceRepo.update(recurrence.id, tenantId, {
+      isActive: false,
+      nextOccurrenceAt: null,
+      scheduledJobId: null,
+    });
+  },
+
+  /**
+   * Called after a task's status changed; spawns the next instance once the task is in a
+   * done-category status. Only the latest instance of an on-completion series spawns the
+   * next one, so re-completing an older instance is a no-op.
+   */
+  async onTaskCompleted(tenantId: string, task: Task): Promise<Task | null> {
+    if (!task.recurrenceId) return null;
+    const { isDone } = await workflowService.statusChecks(tenantId);
+    if (!isDone(task)) return null;
+    const recurrence = await taskRecurrenceRepo.getById(task.recurrenceId, tenantId);
+    if (!recurrence?.isActive || recurrence.generateMode !== RecurrenceGenerateMode.ON_COMPLETION) return null;
+    if (recurrence.templateTaskId !== task.id) return null;
+    return generateNext(recurrence);
+  },
+
+  /** Job entry point for on-schedule series; jobs superseded by a reschedule are ignored. */
+  async runScheduledJob(tenantId: string, recurrenceId: string, jobId: string): Promise<Task | null> {
+    const recurrence = await taskRecurrenceRepo.getById(recurrenceId, tenantId);
+    if (!recurrence?.isActive || recurrence.scheduledJobId !== jobId) return null;
+    return generateNext(recurrence);
+  },
+
+  /**
+   * "This and future" edit: carries series-level field changes over to later open
+   * instances, and re-anchors the schedule when the latest instance's dates moved.
+   */
+  async applyEditToFuture(tenantId: string, task: Task, updates: Record<string, unknown>): Promise<Task[]> {
+    const recurrence = await this.getForTask(tenantId, task);
+    if (!recurrence) return [];
+
+    const seriesUpdates: SeriesFieldUpdates = {};
+    for (const field of SERIES_FIELDS) {
+      if (updates[field] !== undefined) (seriesUpdates as Record<string, unknown>)[field] = updates[field];
+    }
+    const updated = Object.keys(seriesUpdates).length > 0
+      ? await taskRecurrenceRepo.updateLaterOpenInstances(tenantId, recurrence.id, task, seriesUpdates)
+      : [];
+
+    const datesChanged = updates.dueDate !== undefined || updates.startDate !== undefined;
+    const dtstart = anchorDate(task);
+    if (datesChanged && dtstart && recurrence.isActive && recurrence.templateTaskId === task.id) {
+      const rule = parseRule(recurrence.rrule);
+      if (rule.count !== undefined) {
+        rule.count = Math.max(rule.count - recurrence.occurrenceCount, 0) + 1;
+      }
+      if (recurrence.scheduledJobId) await cancelJob(recurrence.scheduledJobId);
+      const reanchored = await taskRecurrenceRepo.update(recurrence.id, tenantId, {
+        rrule: formatRRule(rule),
+        dtstart,
+        occurrenceCount: 1,
+        nextOccurrenceAt: nextOccurrence(rule, dtstart, dtstart, 1),
+        scheduledJobId: null,
+      });
+      if (reanchored) await scheduleNext(reanchored, task);
+    }
+
+    return updated;
+  },
+};
+
+function parseRule(rrule: string): RecurrenceRule {
+  try {
+    return parseRRule(rrule);
+  } catch (error) {
+    if (error instanceof RRuleError) throw AppError.badRequest(`Invalid recurrence rule: ${error.message}`);
+    throw error;
+  }
+}
+
+/** The date a task's occurrence is pinned to: its due date, else its start date. */
+function anchorDate(task: Pick<Task, "startDate" | "dueDate">): Date | null {
+  return task.dueDate ?? task.startDate ?? null;
+}
+
+/** Dates for a new instance: due on the occurrence, keeping the template's start→due span. */
+function instanceSchedule(template: Task, occurrence: Date): { startDate: Date | null; dueDate: Date | null } {
+  if (!template.dueDate && template.startDate) {
+    return { startDate: occurrence, dueDate: null };
+  }
+  const span = template.startDate && template.dueDate
+    ? template.dueDate.getTime() - template.startDate.getTime()
+    : null;
+  return {
+    startDate: span !== null ? new Date(occurrence.getTime() - span) : null,
+    dueDate: occurrence,
+  };
+}
+
+async function generateNext(recurrence: TaskRecurrence): Promise<Task | null> {
+  const { tenantId } = recurrence;
+  const template = recurrence.templateTaskId
+    ? await taskRecurrenceRepo.getTask(tenantId, recurrence.templateTaskId)
+    : null;
+  if (!template) {
+    await taskRecurrenceRepo.update(recurrence.id, tenantId, { isActive: false, nextOccurrenceAt: null, scheduledJobId: null });
+    return null;
+  }
+
+  const rule = parseRRule(recurrence.rrule);
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+
+  // Occurrences that already lapsed are skipped (they still count towards COUNT)
+  let count = recurrence.occurrenceCount;
+  let occurrence = recurrence.nextOccurrenceAt;
+  while (occurrence && occurrence < today) {
+    count++;
+    occurrence = nextOccurrence(rule, recurrence.dtstart, occurrence, count);
+  }
+  if (!occurrence) {
+    await taskRecurrenceRepo.update(recurrence.id, tenantId, {
+      occurrenceCount: count,
+      isActive: false,
+      nextOccurrenceAt: null,
+      scheduledJobId: null,
+    });
+    return null;
+  }
+
+  const status = template.isPersonal
+    ? "todo"
+    : await workflowService.initialStatus(tenantId, template.projectId, "todo") ?? "todo";
+  const created = await taskRecurrenceRepo.createInstance(template, recurrence.id, instanceSchedule(template, occurrence), status);
+  const workflow = template.isPersonal ? null : await workflowService.statusesForProject(tenantId, template.projectId);
+  const instance = await statusHistoryService.onTaskCreated(created, statusCategory(created.status, workflow));
+  count++;
+  const following = nextOccurrence(rule, recurrence.dtstart, occurrence, count);
+
+  const updated = await taskRecurrenceRepo.update(recurrence.id, tenantId, {
+    templateTaskId: instance.id,
+    occurrenceCount: count,
+    nextOccurrenceAt: following,
+    isActive: following !== null,
+    scheduledJobId: null,
+  });
+  if (updated) await scheduleNext(updated, instance);
+
+  return instance;
+}
+
+/**
+ * For on-schedule series, queues a job that creates the next instance once the current
+ * one (`template`) comes due.
+ */
+async function scheduleNext(recurrence: TaskRecurrence, template: Task): Promise<TaskRecurrence> {
+  if (
+    recurrence.generateMode !== RecurrenceGenerateMode.ON_SCHEDULE ||
+    !recurrence.isActive ||
+    !recurrence.nextOccurrenceAt
+  ) {
+    return recurrence;
+  }
+
+  const userId = recurrence.createdBy ?? template.createdBy;
+  if (!userId) {
+    console.warn(`[recurrence] Series ${recurrence.id} has no owner; cannot schedule next instance`);
+    return recurrence;
+  }
+
+  const jobId = await enqueueJob({
+    tenantId: recurrence.tenantId,
+    userId,
+    type: RECURRING_TASK_JOB_TYPE,
+    payload: { recurrenceId: recurrence.id },
+    maxAttempts: 3,
+    runAfter: anchorDate(template) ?? new Date(),
+  });
+  return (await taskRecurrenceRepo.update(recurrence.id, recurrence.tenantId, { scheduledJobId: jobId })) ?? recurrence;
+}
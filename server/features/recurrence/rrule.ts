@@ -0,0 +1,245 @@
+/**
+ * Minimal RFC 5545 RRULE support for recurring tasks.
+ *
+ * Supported: FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY (with nth-weekday ordinals for
+ * MONTHLY, e.g. 2TU or -1FR), BYMONTHDAY (MONTHLY only), COUNT and UNTIL.
+ * All arithmetic is done in UTC and every occurrence keeps DTSTART's time of day.
+ */
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+export interface WeekdaySpec {
+  /** 0 = Sunday … 6 = Saturday (same as Date#getUTCDay) */
+  weekday: number;
+  /** nth weekday of the month (1..5 or -1..-5); MONTHLY only */
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: WeekdaySpec[];
+  byMonthDay: number[];
+  count?: number;
+  until?: Date;
+}
+
+export class RRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RRuleError";
+  }
+}
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const FREQUENCIES: RecurrenceFrequency[] = ["DAILY", "WEEKLY", "MONTHLY"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_PERIODS = 1000;
+
+export function parseRRule(input: string): RecurrenceRule {
+  const body = input.trim().replace(/^RRULE:/i, "");
+  if (!body) throw new RRuleError("RRULE is empty");
+
+  const fields = new Map<string, string>();
+  for (const part of body.split(";")) {
+    if (!part) continue;
+    const [key, value] = part.split("=");
+    if (!key || value === undefined || value === "") {
+      throw new RRuleError(`Malformed RRULE part "${part}"`);
+    }
+    const name = key.trim().toUpperCase();
+    if (fields.has(name)) throw new RRuleError(`Duplicate RRULE part ${name}`);
+    fields.set(name, value.trim().toUpperCase());
+  }
+
+  for (const name of Array.from(fields.keys())) {
+    if (!["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY", "COUNT", "UNTIL", "WKST"].includes(name)) {
+      throw new RRuleError(`Unsupported RRULE part ${name}`);
+    }
+  }
+  if (fields.has("WKST") && fields.get("WKST") !== "MO") {
+    throw new RRuleError("Only WKST=MO is supported");
+  }
+
+  const freq = fields.get("FREQ") as RecurrenceFrequency | undefined;
+  if (!freq) throw new RRuleError("FREQ is required");
+  if (!FREQUENCIES.includes(freq)) throw new RRuleError(`Unsupported FREQ ${freq}`);
+
+  const interval = fields.has("INTERVAL") ? parsePositiveInt(fields.get("INTERVAL")!, "INTERVAL", 999) : 1;
+
+  const byDay: WeekdaySpec[] = [];
+  if (fields.has("BYDAY")) {
+    if (freq === "DAILY") throw new RRuleError("BYDAY is only supported for WEEKLY and MONTHLY rules");
+    for (const token of fields.get("BYDAY")!.split(",")) {
+      const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(token);
+      if (!match) throw new RRuleError(`Invalid BYDAY value "${token}"`);
+      const spec: WeekdaySpec = { weekday: WEEKDAY_CODES.indexOf(match[2]) };
+      if (match[1]) {
+        if (freq !== "MONTHLY") throw new RRuleError("Ordinal BYDAY values are only supported for MONTHLY rules");
+        const ordinal = parseInt(match[1], 10);
+        if (ordinal === 0 || ordinal < -5 || ordinal > 5) throw new RRuleError(`Invalid BYDAY ordinal "${token}"`);
+        spec.ordinal = ordinal;
+      }
+      byDay.push(spec);
+    }
+  }
+
+  const byMonthDay: number[] = [];
+  if (fields.has("BYMONTHDAY")) {
+    if (freq !== "MONTHLY") throw new RRuleError("BYMONTHDAY is only supported for MONTHLY rules");
+    if (byDay.length > 0) throw new RRuleError("BYDAY and BYMONTHDAY cannot be combined");
+    for (const token of fields.get("BYMONTHDAY")!.split(",")) {
+      const day = Number(token);
+      if (!Number.isInteger(day) || day === 0 || day < -31 || day > 31) {
+        throw new RRuleError(`Invalid BYMONTHDAY value "${token}"`);
+      }
+      byMonthDay.push(day);
+    }
+  }
+
+  if (fields.has("COUNT") && fields.has("UNTIL")) {
+    throw new RRuleError("COUNT and UNTIL cannot be combined");
+  }
+  const count = fields.has("COUNT") ? parsePositiveInt(fields.get("COUNT")!, "COUNT", 1000) : undefined;
+  const until = fields.has("UNTIL") ? parseUntil(fields.get("UNTIL")!) : undefined;
+
+  return { freq, interval, byDay, byMonthDay, count, until };
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.ordinal ?? ""}${WEEKDAY_CODES[d.weekday]}`).join(",")}`);
+  }
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")}`);
+  return parts.join(";");
+}
+
+/**
+ * First occurrence strictly after `after`, or null once the series is exhausted.
+ * `generatedCount` is how many occurrences already exist (DTSTART counts as the first),
+ * which is what COUNT is checked against.
+ */
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  after: Date,
+  generatedCount: number,
+): Date | null {
+  if (rule.count !== undefined && generatedCount >= rule.count) return null;
+
+  for (let period = firstRelevantPeriod(rule, dtstart, after), i = 0; i < MAX_PERIODS; period++, i++) {
+    for (const candidate of candidatesForPeriod(rule, dtstart, period)) {
+      if (candidate.getTime() < dtstart.getTime() || candidate.getTime() <= after.getTime()) continue;
+      if (rule.until && candidate.getTime() > rule.until.getTime()) return null;
+      return candidate;
+    }
+  }
+  return null;
+}
+
+function parsePositiveInt(value: string, name: string, max: number): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1 || n > max) {
+    throw new RRuleError(`${name} must be an integer between 1 and ${max}`);
+  }
+  return n;
+}
+
+function parseUntil(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) throw new RRuleError(`Invalid UNTIL value "${value}"`);
+  const [, y, m, d, hh, mm, ss] = match;
+  const date = hh
+    ? new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss))
+    : new Date(Date.UTC(+y, +m - 1, +d, 23, 59, 59));
+  if (isNaN(date.getTime())) throw new RRuleError(`Invalid UNTIL value "${value}"`);
+  return date;
+}
+
+/** Earlier periods can only contain occurrences at or before `after`, so they are skipped. */
+function firstRelevantPeriod(rule: RecurrenceRule, dtstart: Date, after: Date): number {
+  const elapsed = after.getTime() - dtstart.getTime();
+  if (elapsed <= 0) return 0;
+  switch (rule.freq) {
+    case "DAILY":
+      return Math.floor(elapsed / (rule.interval * DAY_MS));
+    case "WEEKLY":
+      return Math.floor((after.getTime() - startOfWeek(dtstart).getTime()) / (rule.interval * 7 * DAY_MS));
+    case "MONTHLY": {
+      const months = (after.getUTCFullYear() - dtstart.getUTCFullYear()) * 12 + after.getUTCMonth() - dtstart.getUTCMonth();
+      return Math.max(0, Math.floor(months / rule.interval));
+    }
+  }
+}
+
+function candidatesForPeriod(rule: RecurrenceRule, dtstart: Date, period: number): Date[] {
+  switch (rule.freq) {
+    case "DAILY":
+      return [new Date(dtstart.getTime() + period * rule.interval * DAY_MS)];
+
+    case "WEEKLY": {
+      const weekStart = startOfWeek(dtstart).getTime() + period * rule.interval * 7 * DAY_MS;
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map((d) => d.weekday) : [dtstart.getUTCDay()];
+      return sortUnique(weekdays.map((weekday) => new Date(weekStart + ((weekday + 6) % 7) * DAY_MS)));
+    }
+
+    case "MONTHLY": {
+      const monthIndex = dtstart.getUTCMonth() + period * rule.interval;
+      const year = dtstart.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = monthIndex % 12;
+      const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+      const days: number[] = [];
+      if (rule.byDay.length > 0) {
+        for (const spec of rule.byDay) {
+          const matching: number[] = [];
+          for (let day = 1; day <= daysInMonth; day++) {
+            if (new Date(Date.UTC(year, month, day)).getUTCDay() === spec.weekday) matching.push(day);
+          }
+          if (spec.ordinal === undefined) {
+            days.push(...matching);
+          } else {
+            const day = spec.ordinal > 0 ? matching[spec.ordinal - 1] : matching[matching.length + spec.ordinal];
+            if (day !== undefined) days.push(day);
+          }
+        }
+      } else if (rule.byMonthDay.length > 0) {
+        for (const value of rule.byMonthDay) {
+          const day = value > 0 ? value : daysInMonth + value + 1;
+          if (day >= 1 && day <= daysInMonth) days.push(day);
+        }
+      } else if (dtstart.getUTCDate() <= daysInMonth) {
+        days.push(dtstart.getUTCDate());
+      }
+
+      return sortUnique(days.map((day) => withTimeOf(dtstart, year, month, day)));
+    }
+  }
+}
+
+function startOfWeek(date: Date): Date {
+  const mondayOffset = (date.getUTCDay() + 6) % 7;
+  return new Date(date.getTime() - mondayOffset * DAY_MS);
+}
+
+function withTimeOf(source: Date, year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(
+    year,
+    month,
+    day,
+    source.getUTCHours(),
+    source.getUTCMinutes(),
+    source.getUTCSeconds(),
+    source.getUTCMilliseconds(),
+  ));
+}
+
+function sortUnique(dates: Date[]): Date[] {
+  const seen = new Map<number, Date>();
+  for (const date of dates) seen.set(date.getTime(), date);
+  return Array.from(seen.values()).sort((a, b) => a.getTime() - b.getTime());
+}
@@ -0,0 +1,268 @@
+/**
+ * Natural-language reminder times.
+ *
+ * Understands relative offsets ("in 30 minutes", "in an hour"), days ("today", "tonight",
+ * "tomorrow", "next week", "friday", "next monday", "2026-03-15") optionally combined with a
+ * time of day ("9am", "at 14:30", "noon", "tomorrow morning"), and full ISO timestamps.
+ * Days and clock times are read in the caller's IANA time zone (UTC when missing or invalid).
+ */
+import { resolveTimezone } from "../../reports/dateRangeResolver";
+
+export interface ReminderTimeOptions {
+  now?: Date;
+  timeZone?: string;
+}
+
+interface Clock {
+  hour: number;
+  minute: number;
+}
+
+interface CalendarDay {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/** Clock time used when only a day is given ("tomorrow", "next monday"). */
+const DEFAULT_CLOCK: Clock = { hour: 9, minute: 0 };
+
+const MINUTE_MS = 60 * 1000;
+const UNIT_MS: Record<string, number> = {
+  minute: MINUTE_MS,
+  hour: 60 * MINUTE_MS,
+  day: 24 * 60 * MINUTE_MS,
+  week: 7 * 24 * 60 * MINUTE_MS,
+};
+
+const UNIT_ALIASES: Record<string, keyof typeof UNIT_MS> = {
+  min: "minute", mins: "minute", minute: "minute", minutes: "minute",
+  h: "hour", hr: "hour", hrs: "hour", hour: "hour", hours: "hour",
+  d: "day", day: "day", days: "day",
+  w: "week", wk: "week", wks: "week", week: "week", weeks: "week",
+};
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const NAMED_CLOCKS: Record<string, Clock> = {
+  morning: { hour: 9, minute: 0 },
+  noon: { hour: 12, minute: 0 },
+  afternoon: { hour: 14, minute: 0 },
+  evening: { hour: 18, minute: 0 },
+  tonight: { hour: 20, minute: 0 },
+  midnight: { hour: 0, minute: 0 },
+};
+
+const ISO_WITH_OFFSET = /^\d{4}-\d{2}-\d{2}t\d{2}:\d{2}(:\d{2}(\.\d+)?)?(z|[+-]\d{2}:?\d{2})$/;
+const ISO_LOCAL = /^(\d{4})-(\d{2})-(\d{2})(?:t(\d{2}):(\d{2}))?$/;
+
+/**
+ * Resolves a phrase to an instant, or null when it is not understood or not in the future.
+ */
+export function parseReminderTime(input: string, options: ReminderTimeOptions = {}): Date | null {
+  const now = options.now ?? new Date();
+  const timeZone = resolveTimezone(options.timeZone);
+  const text = input.trim().toLowerCase().replace(/\s+/g, " ");
+  if (!text) return null;
+
+  const result = parseAbsolute(text, timeZone) ?? parseRelative(text, now) ?? parseDayAndClock(text, now, timeZone);
+  return result && result.getTime() > now.getTime() ? result : null;
+}
+
+/**
+ * Splits `/remind` arguments into a time and a message, e.g. "me tomorrow 9am to check the deploy".
+ * The longest leading phrase that parses as a time wins.
+ */
+export function splitReminderText(
+  input: string,
+  options: ReminderTimeOptions = {},
+): { remindAt: Date; message: string } | null {
+  const words = input.trim().replace(/^me\s+/i, "").split(/\s+/).filter(Boolean);
+  // All of it reads as a time ("tomorrow 9am"): there is no message
+  if (parseReminderTime(words.join(" "), options)) return null;
+  for (let length = Math.min(words.length - 1, 6); length >= 1; length--) {
+    const remindAt = parseReminderTime(words.slice(0, length).join(" "), options);
+    if (!remindAt) continue;
+    const message = words.slice(length).join(" ").replace(/^(to|about|that)\s+/i, "").trim();
+    if (message) return { remindAt, message };
+  }
+  return null;
+}
+
+/** Short label in the user's zone for confirmations, e.g. "Tue, Mar 3, 9:00 AM". */
+export function formatReminderTime(date: Date, timeZone?: string): string {
+  return date.toLocaleString("en-US", {
+    timeZone: resolveTimezone(timeZone),
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function parseAbsolute(text: string, timeZone: string): Date | null {
+  if (ISO_WITH_OFFSET.test(text)) {
+    const date = new Date(text.toUpperCase());
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  const match = text.match(ISO_LOCAL);
+  if (!match) return null;
+  const day = validDay(Number(match[1]), Number(match[2]), Number(match[3]));
+  if (!day) return null;
+  if (match[4] === undefined) return zonedTimeToUtc(day, DEFAULT_CLOCK, timeZone);
+  const clock = { hour: Number(match[4]), minute: Number(match[5]) };
+  return clock.hour < 24 && clock.minute < 60 ? zonedTimeToUtc(day, clock, timeZone) : null;
+}
+
+function parseRelative(text: string, now: Date): Date | null {
+  const match = text.match(/^in (an?|\d{1,4}) ?([a-z]+)$/);
+  if (!match) return null;
+  const unit = UNIT_ALIASES[match[2]];
+  if (!unit) return null;
+  const amount = match[1] === "a" || match[1] === "an" ? 1 : Number(match[1]);
+  if (amount <= 0) return null;
+  return new Date(now.getTime() + amount * UNIT_MS[unit]);
+}
+
+/** "<day> [at] <clock>", "<clock> <day>", a day alone, or a clock alone (today, else tomorrow). */
+function parseDayAndClock(text: string, now: Date, timeZone: string): Date | null {
+  const today = zonedDay(now, timeZone);
+  const candidates: Array<[string, string]> = [[text, ""]];
+  const words = text.split(" ");
+  for (let i = 1; i < words.length; i++) {
+    candidates.push([words.slice(0, i).join(" "), words.slice(i).join(" ")]);
+  }
+
+  for (const [head, tail] of candidates) {
+    const dayFirst = resolveDay(head, today);
+    if (dayFirst) {
+      const clock = tail ? parseClock(tail) : dayFirst.clock;
+      if (clock) return pickDay(dayFirst, clock, now, timeZone);
+    }
+    const clockFirst = parseClock(head);
+    if (clockFirst) {
+      if (!tail) {
+        const sameDay = zonedTimeToUtc(today, clockFirst, timeZone);
+        return sameDay > now ? sameDay : zonedTimeToUtc(addDays(today, 1), clockFirst, timeZone);
+      }
+      const day = resolveDay(tail, today);
+      if (day) return pickDay(day, clockFirst, now, timeZone);
+    }
+  }
+  return null;
+}
+
+interface ResolvedDay {
+  day: CalendarDay;
+  clock: Clock;
+  /** A bare weekday naming today rolls over to next week once the time has passed. */
+  rollsWeekly: boolean;
+}
+
+function resolveDay(text: string, today: CalendarDay): ResolvedDay | null {
+  const phrase = text.replace(/^on /, "");
+  if (phrase === "today") return { day: today, clock: DEFAULT_CLOCK, rollsWeekly: false };
+  if (phrase === "tonight") return { day: today, clock: NAMED_CLOCKS.tonight, rollsWeekly: false };
+  if (phrase === "tomorrow" || phrase === "tmrw") return { day: addDays(today, 1), clock: DEFAULT_CLOCK, rollsWeekly: false };
+  if (phrase === "next week") {
+    const untilMonday = (1 - weekday(today) + 7) % 7 || 7;
+    return { day: addDays(today, untilMonday), clock: DEFAULT_CLOCK, rollsWeekly: false };
+  }
+
+  const iso = phrase.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    const day = validDay(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    return day ? { day, clock: DEFAULT_CLOCK, rollsWeekly: false } : null;
+  }
+
+  const named = phrase.match(/^(next |this )?([a-z]+)$/);
+  if (!named) return null;
+  const target = WEEKDAYS.findIndex((name) => name === named[2] || name.slice(0, 3) === named[2]);
+  if (target === -1) return null;
+  const ahead = (target - weekday(today) + 7) % 7;
+  if (named[1] === "next ") {
+    return { day: addDays(today, ahead || 7), clock: DEFAULT_CLOCK, rollsWeekly: false };
+  }
+  return { day: addDays(today, ahead), clock: DEFAULT_CLOCK, rollsWeekly: ahead === 0 };
+}
+
+function pickDay(resolved: ResolvedDay, clock: Clock, now: Date, timeZone: string): Date {
+  const date = zonedTimeToUtc(resolved.day, clock, timeZone);
+  return resolved.rollsWeekly && date <= now ? zonedTimeToUtc(addDays(resolved.day, 7), clock, timeZone) : date;
+}
+
+function parseClock(text: string): Clock | null {
+  const phrase = text.replace(/^(at|in the) /, "");
+  if (NAMED_CLOCKS[phrase]) return NAMED_CLOCKS[phrase];
+
+  const match = phrase.match(/^(\d{1,2})(?::(\d{2}))? ?(am|pm)?$/);
+  if (!match) return null;
+  const hasAt = phrase !== text;
+  let hour = Number(match[1]);
+  const minute = match[2] ? Number(match[2]) : 0;
+  const meridiem = match[3];
+  // A bare number is only a time after "at" ("at 9"); otherwise it is likely part of the message
+  if (!meridiem && !match[2] && !hasAt) return null;
+  if (minute > 59) return null;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === "pm" ? 12 : 0);
+  } else if (hour > 23) {
+    return null;
+  }
+  return { hour, minute };
+}
+
+function validDay(year: number, month: number, day: number): CalendarDay | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return { year, month, day };
+}
+
+function addDays(day: CalendarDay, days: number): CalendarDay {
+  const date = new Date(Date.UTC(day.year, day.month - 1, day.day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function weekday(day: CalendarDay): number {
+  return new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay();
+}
+
+function zonedFields(date: Date, timeZone: string): CalendarDay & Clock & { second: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value ?? 0);
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute"), second: get("second") };
+}
+
+function zonedDay(date: Date, timeZone: string): CalendarDay {
+  const { year, month, day } = zonedFields(date, timeZone);
+  return { year, month, day };
+}
+
+/** Milliseconds the zone is ahead of UTC at `instant`. */
+function zoneOffset(instant: number, timeZone: string): number {
+  const f = zonedFields(new Date(instant), timeZone);
+  const asUtc = Date.UTC(f.year, f.month - 1, f.day, f.hour, f.minute, f.second);
+  return asUtc - (instant - (((instant % 1000) + 1000) % 1000));
+}
+
+/** The instant the wall-clock time `day clock` occurs in `timeZone` (times in a DST gap move forward). */
+function zonedTimeToUtc(day: CalendarDay, clock: Clock, timeZone: string): Date {
+  const wall = Date.UTC(day.year, day.month - 1, day.day, clock.hour, clock.minute);
+  const offset = zoneOffset(wall, timeZone);
+  const candidate = wall - offset;
+  const actual = zoneOffset(candidate, timeZone);
+  if (actual === offset) return new Date(candidate);
+  const retry = wall - actual;
+  return new Date(zoneOffset(retry, timeZone) === actual ? retry : Math.max(candidate, retry));
+}
@@ -0,0 +1,80 @@
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { db } from "../../db";
+import { comments, reminders, tasks, ReminderStatus, type Reminder, type ReminderStatusValue } from "@shared/schema";
+
+export type ReminderUpdate = Partial<Omit<Reminder, "id" | "tenantId" | "userId" | "createdAt">>;
+
+const LIST_LIMIT = 200;
+
+export const remindersRepo = {
+  async getById(id: string, tenantId: string) {
+    const [row] = await db
+      .select()
+      .from(reminders)
+      .where(and(eq(reminders.id, id), eq(reminders.tenantId, tenantId)));
+    return row || null;
+  },
+
+  /** Pending reminders soonest first; sent and cancelled ones most recent first. */
+  async listForUser(tenantId: string, userId: string, statuses: ReminderStatusValue[]) {
+    const pendingOnly = statuses.length === 1 && statuses[0] === ReminderStatus.PENDING;
+    return db
+      .select()
+      .from(reminders)
+      .where(and(
+        eq(reminders.tenantId, tenantId),
+        eq(reminders.userId, userId),
+        inArray(reminders.status, statuses),
+      ))
+      .orderBy(pendingOnly ? asc(reminders.remindAt) : desc(reminders.remindAt))
+      .limit(LIST_LIMIT);
+  },
+
+  async create(input: typeof reminders.$inferInsert) {
+    const [row] = await db.insert(reminders).values(input).returning();
+    return row;
+  },
+
+  async update(id: string, tenantId: string, updates: ReminderUpdate) {
+    const [row] = await db
+      .update(reminders)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(reminders.id, id), eq(reminders.tenantId, tenantId)))
+      .returning();
+    return row || null;
+  },
+
+  /** Claims a pending reminder for delivery; null when it was snoozed, cancelled or already sent. */
+  async markSent(id: string, tenantId: string, jobId: string) {
+    const now = new Date();
+    const [row] = await db
+      .update(reminders)
+      .set({ status: ReminderStatus.SENT, firedAt: now, scheduledJobId: null, updatedAt: now })
+      .where(and(
+        eq(reminders.id, id),
+        eq(reminders.tenantId, tenantId),
+        eq(reminders.status, ReminderStatus.PENDING),
+        eq(reminders.scheduledJobId, jobId),
+      ))
+      .returning();
+    return row || null;
+  },
+
+  async getTask(tenantId: string, taskId: string) {
+    const [row] = await db
+      .select({ id: tasks.id, title: tasks.title })
+      .from(tasks)
+      .where(and(eq(tasks.id, taskId), eq(tasks.tenantId, tenantId)));
+    return row || null;
+  },
+
+  /** A comment with its task, scoped to the tenant through the task. */
+  async getCommentTask(tenantId: string, commentId: string) {
+    const [row] = await db
+      .select({ commentId: comments.id, taskId: tasks.id, title: tasks.title })
+      .from(comments)
+      .innerJoin(tasks, eq(tasks.id, comments.taskId))
+      .where(and(eq(comments.id, commentId), eq(tasks.tenantId, tenantId)));
+    return row || null;
+  },
+};
@@ -0,0 +1,156 @@
+import { AppError } from "../../lib/errors";
+import { enqueueJob, cancelJob } from "../../jobs/queue";
+import { canViewTask } from "../../lib/privateVisibility";
+import { notifyReminder } from "../notifications/notification.service";
+import { emitReminderDue } from "../../realtime/events";
+import {
+  ReminderSource,
+  ReminderStatus,
+  type CreateReminder,
+  type Reminder,
+  type ReminderSourceType,
+  type ReminderStatusValue,
+} from "@shared/schema";
+import { remindersRepo } from "./reminders.repo";
+import { parseReminderTime } from "./reminderTime";
+
+export const REMINDER_JOB_TYPE = "reminder";
+
+/** How far ahead a reminder may be set. */
+export const MAX_REMINDER_LEAD_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type NewReminder = {
+  message: string;
+  remindAt: Date;
+  sourceType: ReminderSourceType;
+  sourceId: string | null;
+  taskId?: string | null;
+};
+
+export const reminderService = {
+  /** Resolves a natural-language or ISO time, rejecting past and too-distant ones. */
+  resolveTime(input: string, timeZone?: string, now = new Date()): Date {
+    const remindAt = parseReminderTime(input, { now, timeZone });
+    if (!remindAt) {
+      throw AppError.badRequest(
+        `Could not understand "${input}". Try: in 30 minutes, tomorrow 9am, next monday, or 2026-03-15 14:00`
+      );
+    }
+    return this.checkLeadTime(remindAt, now);
+  },
+
+  checkLeadTime(remindAt: Date, now = new Date()): Date {
+    if (remindAt.getTime() - now.getTime() > MAX_REMINDER_LEAD_DAYS * DAY_MS) {
+      throw AppError.badRequest(`Reminders can be set at most ${MAX_REMINDER_LEAD_DAYS} days ahead`);
+    }
+    return remindAt;
+  },
+
+  async list(tenantId: string, userId: string, status?: ReminderStatusValue): Promise<Reminder[]> {
+    const statuses = status ? [status] : [ReminderStatus.PENDING];
+    return remindersRepo.listForUser(tenantId, userId, statuses);
+  },
+
+  async create(tenantId: string, userId: string, input: NewReminder): Promise<Reminder> {
+    const reminder = await remindersRepo.create({
+      tenantId,
+      userId,
+      message: input.message,
+      remindAt: input.remindAt,
+      sourceType: input.sourceType,
+      sourceId: input.sourceId,
+      taskId: input.taskId ?? null,
+    });
+    return schedule(reminder);
+  },
+
+  /** Creates a reminder about a task or a task comment the user can see. */
+  async createForSource(tenantId: string, userId: string, data: CreateReminder): Promise<Reminder> {
+    const remindAt = this.resolveTime(data.remindAt, data.timezone);
+    const task = data.sourceType === ReminderSource.COMMENT
+      ? await remindersRepo.getCommentTask(tenantId, data.sourceId)
+      : await remindersRepo.getTask(tenantId, data.sourceId);
+    if (!task) throw AppError.notFound(data.sourceType === ReminderSource.COMMENT ? "Comment" : "Task");
+    const taskId = "taskId" in task ? task.taskId : task.id;
+    if (!(await canViewTask(tenantId, taskId, userId))) throw AppError.notFound("Task");
+
+    return this.create(tenantId, userId, {
+      message: data.message,
+      remindAt,
+      sourceType: data.sourceType,
+      sourceId: data.sourceId,
+      taskId,
+    });
+  },
+
+  /** Moves a pending or already delivered reminder to a new time. */
+  async snooze(tenantId: string, userId: string, id: string, until: Date): Promise<Reminder> {
+    const reminder = await getOwned(tenantId, userId, id);
+    if (reminder.status === ReminderStatus.CANCELLED) throw AppError.conflict("Reminder was cancelled");
+    if (reminder.scheduledJobId) await cancelJob(reminder.scheduledJobId);
+    const updated = await remindersRepo.update(id, tenantId, {
+      remindAt: until,
+      status: ReminderStatus.PENDING,
+      snoozeCount: reminder.snoozeCount + 1,
+      firedAt: null,
+      scheduledJobId: null,
+    });
+    if (!updated) throw AppError.notFound("Reminder");
+    return schedule(updated);
+  },
+
+  async cancel(tenantId: string, userId: string, id: string): Promise<Reminder> {
+    const reminder = await getOwned(tenantId, userId, id);
+    if (reminder.status !== ReminderStatus.PENDING) throw AppError.conflict("Only pending reminders can be cancelled");
+    if (reminder.scheduledJobId) await cancelJob(reminder.scheduledJobId);
+    const updated = await remindersRepo.update(id, tenantId, {
+      status: ReminderStatus.CANCELLED,
+      scheduledJobId: null,
+    });
+    if (!updated) throw AppError.notFound("Reminder");
+    return updated;
+  },
+
+  /** Job entry point; jobs superseded by a snooze or cancel are ignored. */
+  async runScheduledJob(tenantId: string, reminderId: string, jobId: string): Promise<Reminder | null> {
+    const reminder = await remindersRepo.markSent(reminderId, tenantId, jobId);
+    if (!reminder) return null;
+
+    const href = reminderHref(reminder);
+    await notifyReminder(reminder.userId, reminder.id, reminder.message, href, { tenantId });
+    emitReminderDue(reminder.userId, {
+      reminderId: reminder.id,
+      message: reminder.message,
+      remindAt: reminder.remindAt,
+      href,
+    });
+    return reminder;
+  },
+};
+
+async function getOwned(tenantId: string, userId: string, id: string): Promise<Reminder> {
+  const reminder = await remindersRepo.getById(id, tenantId);
+  if (!reminder || reminder.userId !== userId) throw AppError.notFound("Reminder");
+  return reminder;
+}
+
+/** Where the notification links: the task for task/comment reminders, the channel for chat ones. */
+function reminderHref(reminder: Reminder): string | null {
+  if (reminder.taskId) return `/tasks?taskId=${reminder.taskId}`;
+  if (reminder.sourceType === ReminderSource.CHAT && reminder.sourceId) return `/chat?channel=${reminder.sourceId}`;
+  return null;
+}
+
+async function schedule(reminder: Reminder): Promise<Reminder> {
+  const jobId = await enqueueJob({
+    tenantId: reminder.tenantId,
+    userId: reminder.userId,
+    type: REMINDER_JOB_TYPE,
+    payload: { reminderId: reminder.id },
+    maxAttempts: 3,
+    runAfter: reminder.remindAt,
+  });
+  return (await remindersRepo.update(reminder.id, reminder.tenantId, { scheduledJobId: jobId })) ?? reminder;
+}
@@ -0,0 +1,90 @@
+import { and, asc, eq, inArray, isNull, or, type SQL } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  projects,
+  savedViews,
+  teamMembers,
+  teams,
+  tasks,
+  SavedViewVisibility,
+  type InsertSavedView,
+  type SavedView,
+  type Task,
+} from "@shared/schema";
+import { visibleTaskFilter } from "../../lib/privateVisibility";
+
+export type SavedViewUpdate = Partial<
+  Pick<SavedView, "name" | "visibility" | "teamId" | "filter" | "sort" | "groupBy" | "layout">
+>;
+
+export interface TaskQueryPage {
+  filter: SQL | undefined;
+  orderBy: SQL[];
+  limit: number;
+  offset: number;
+}
+
+export const savedViewRepo = {
+  /** Teams of the tenant the user belongs to. */
+  async listTeamIdsForUser(tenantId: string, userId: string): Promise<string[]> {
+    const rows = await db
+      .select({ id: teams.id })
+      .from(teamMembers)
+      .innerJoin(teams, eq(teams.id, teamMembers.teamId))
+      .where(and(eq(teamMembers.userId, userId), eq(teams.tenantId, tenantId)));
+    return rows.map((row) => row.id);
+  },
+
+  async getTeam(tenantId: string, teamId: string) {
+    const [row] = await db.select().from(teams).where(and(eq(teams.id, teamId), eq(teams.tenantId, tenantId)));
+    return row || null;
+  },
+
+  /** The user's personal views plus team views shared with any of `teamIds`. */
+  async listVisible(tenantId: string, userId: string, teamIds: string[]): Promise<SavedView[]> {
+    const shared = teamIds.length > 0
+      ? and(eq(savedViews.visibility, SavedViewVisibility.TEAM), inArray(savedViews.teamId, teamIds))
+      : undefined;
+    return db
+      .select()
+      .from(savedViews)
+      .where(and(eq(savedViews.tenantId, tenantId), or(eq(savedViews.ownerUserId, userId), shared)))
+      .orderBy(asc(savedViews.name), asc(savedViews.createdAt));
+  },
+
+  async get(id: string, tenantId: string): Promise<SavedView | null> {
+    const [row] = await db.select().from(savedViews).where(and(eq(savedViews.id, id), eq(savedViews.tenantId, tenantId)));
+    return row || null;
+  },
+
+  async create(input: InsertSavedView): Promise<SavedView> {
+    const [row] = await db.insert(savedViews).values(input).returning();
+    return row;
+  },
+
+  async update(id: string, tenantId: string, updates: SavedViewUpdate): Promise<SavedView | null> {
+    const [row] = await db
+      .update(savedViews)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(savedViews.id, id), eq(savedViews.tenantId, tenantId)))
+      .returning();
+    return row || null;
+  },
+
+  async delete(id: string, tenantId: string): Promise<void> {
+    await db.delete(savedViews).where(and(eq(savedViews.id, id), eq(savedViews.tenantId, tenantId)));
+  },
+
+  /** Unarchived tasks the user may see that match the compiled filter, one page plus one row to detect more. */
+  async queryTasks(tenantId: string, userId: string, page: TaskQueryPage): Promise<Task[]> {
+    const rows = await db
+      .select({ task: tasks })
+      .from(tasks)
+      .leftJoin(projects, eq(projects.id, tasks.projectId))
+      .where(and(visibleTaskFilter(userId, tenantId), isNull(tasks.archivedAt), page.filter))
+      .orderBy(...page.orderBy)
+      .limit(page.limit + 1)
+      .offset(page.offset);
+    return rows.map((row) => row.task);
+  },
+};
@@ -0,0 +1,131 @@
+import { AppError } from "../../lib/errors";
+import {
+  SavedViewVisibility,
+  UserRole,
+  type CreateSavedView,
+  type SavedView,
+  type TaskQuery,
+  type TaskWithRelations,
+  type UpdateSavedView,
+} from "@shared/schema";
+import { TaskGroupBy, TaskViewLayout } from "@shared/taskFilters";
+import { hydrateTasks } from "../../http/services/taskBatchHydrator";
+import { savedViewRepo } from "./savedView.repo";
+import { compileTaskFilter, compileTaskSort } from "./taskFilterCompiler";
+
+export interface ViewActor {
+  id: string;
+  role: string;
+}
+
+export type SavedViewWithAccess = SavedView & { canEdit: boolean };
+
+export interface TaskQueryResult {
+  tasks: TaskWithRelations[];
+  hasMore: boolean;
+}
+
+const DEFAULT_PAGE_SIZE = 200;
+
+function isAdmin(actor: ViewActor): boolean {
+  return actor.role === UserRole.ADMIN || actor.role === UserRole.SUPER_USER;
+}
+
+/** Owners edit their views; admins may also edit views shared with a team. */
+function canEdit(view: SavedView, actor: ViewActor): boolean {
+  return view.ownerUserId === actor.id || (view.visibility === SavedViewVisibility.TEAM && isAdmin(actor));
+}
+
+async function canSee(tenantId: string, view: SavedView, actor: ViewActor): Promise<boolean> {
+  if (view.ownerUserId === actor.id) return true;
+  if (view.visibility !== SavedViewVisibility.TEAM || !view.teamId) return false;
+  const teamIds = await savedViewRepo.listTeamIdsForUser(tenantId, actor.id);
+  return teamIds.includes(view.teamId);
+}
+
+/** A team a view is shared with must belong to the tenant, and non-admins must be in it. */
+async function checkTeam(tenantId: string, teamId: string, actor: ViewActor): Promise<void> {
+  const team = await savedViewRepo.getTeam(tenantId, teamId);
+  if (!team) throw AppError.badRequest("Team not found");
+  if (isAdmin(actor)) return;
+  const teamIds = await savedViewRepo.listTeamIdsForUser(tenantId, actor.id);
+  if (!teamIds.includes(teamId)) throw AppError.forbidden("You can only share views with teams you belong to");
+}
+
+async function getVisible(tenantId: string, id: string, actor: ViewActor): Promise<SavedView> {
+  const view = await savedViewRepo.get(id, tenantId);
+  if (!view || !(await canSee(tenantId, view, actor))) throw AppError.notFound("Saved view");
+  return view;
+}
+
+async function getEditable(tenantId: string, id: string, actor: ViewActor): Promise<SavedView> {
+  const view = await getVisible(tenantId, id, actor);
+  if (!canEdit(view, actor)) throw AppError.forbidden("Only the owner of a view can change it");
+  return view;
+}
+
+export const savedViewService = {
+  async list(tenantId: string, actor: ViewActor): Promise<SavedViewWithAccess[]> {
+    const teamIds = await savedViewRepo.listTeamIdsForUser(tenantId, actor.id);
+    const views = await savedViewRepo.listVisible(tenantId, actor.id, teamIds);
+    return views.map((view) => ({ ...view, canEdit: canEdit(view, actor) }));
+  },
+
+  async get(tenantId: string, id: string, actor: ViewActor): Promise<SavedViewWithAccess> {
+    const view = await getVisible(tenantId, id, actor);
+    return { ...view, canEdit: canEdit(view, actor) };
+  },
+
+  async create(tenantId: string, input: CreateSavedView, actor: ViewActor): Promise<SavedViewWithAccess> {
+    const visibility = input.visibility ?? SavedViewVisibility.PERSONAL;
+    const teamId = visibility === SavedViewVisibility.TEAM ? input.teamId! : null;
+    if (teamId) await checkTeam(tenantId, teamId, actor);
+    const view = await savedViewRepo.create({
+      tenantId,
+      ownerUserId: actor.id,
+      name: input.name,
+      visibility,
+      teamId,
+      filter: input.filter,
+      sort: input.sort ?? [],
+      groupBy: input.groupBy ?? TaskGroupBy.NONE,
+      layout: input.layout ?? TaskViewLayout.LIST,
+    });
+    return { ...view, canEdit: true };
+  },
+
+  async update(tenantId: string, id: string, input: UpdateSavedView, actor: ViewActor): Promise<SavedViewWithAccess> {
+    const view = await getEditable(tenantId, id, actor);
+    const visibility = input.visibility ?? view.visibility;
+    const teamId = visibility === SavedViewVisibility.TEAM ? (input.teamId === undefined ? view.teamId : input.teamId) : null;
+    if (visibility === SavedViewVisibility.TEAM) {
+      if (!teamId) throw AppError.badRequest("Pick the team to share the view with");
+      if (teamId !== view.teamId) await checkTeam(tenantId, teamId, actor);
+    }
+    const updated = await savedViewRepo.update(id, tenantId, { ...input, visibility, teamId });
+    if (!updated) throw AppError.notFound("Saved view");
+    return { ...updated, canEdit: canEdit(updated, actor) };
+  },
+
+  async delete(tenantId: string, id: string, actor: ViewActor): Promise<void> {
+    await getEditable(tenantId, id, actor);
+    await savedViewRepo.delete(id, tenantId);
+  },
+
+  /** Tasks the user can see that match an ad-hoc filter, hydrated like GET /tasks/my. */
+  async queryTasks(tenantId: string, userId: string, query: TaskQuery): Promise<TaskQueryResult> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const rows = await savedViewRepo.queryTasks(tenantId, userId, {
+      filter: compileTaskFilter(query.filter, { userId, now: new Date() }),
+      orderBy: compileTaskSort(query.sort ?? []),
+      limit,
+      offset: query.offset ?? 0,
+    });
+    return { tasks: await hydrateTasks(rows.slice(0, limit)), hasMore: rows.length > limit };
+  },
+
+  async runView(tenantId: string, id: string, actor: ViewActor, page: { limit?: number; offset?: number }): Promise<TaskQueryResult> {
+    const view = await getVisible(tenantId, id, actor);
+    return this.queryTasks(tenantId, actor.id, { filter: view.filter, sort: view.sort, ...page });
+  },
+};
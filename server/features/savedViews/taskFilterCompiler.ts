@@ -0,0 +1,181 @@
+import { and, asc, desc, eq, gt, gte, inArray, isNotNull, isNull, lt, not, notInArray, or, sql, type SQL } from "drizzle-orm";
+import { projects, taskAssignees, taskTags, tasks, workflowStatuses, TaskPriority, TaskStatus } from "@shared/schema";
+import {
+  CURRENT_USER,
+  TaskFilterField,
+  TaskFilterOperator,
+  isFilterGroup,
+  type TaskFilterCondition,
+  type TaskFilterGroup,
+  type TaskSort,
+} from "@shared/taskFilters";
+
+export interface FilterContext {
+  userId: string;
+  /** "Today" for relative date conditions; injectable for tests. */
+  now: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_COLUMNS = {
+  [TaskFilterField.START_DATE]: tasks.startDate,
+  [TaskFilterField.DUE_DATE]: tasks.dueDate,
+  [TaskFilterField.CREATED_AT]: tasks.createdAt,
+  [TaskFilterField.COMPLETED_AT]: tasks.completedAt,
+} as const;
+
+const clientOfTask = sql`(SELECT ${projects.clientId} FROM ${projects} WHERE ${projects.id} = ${tasks.projectId})`;
+
+function startOfDay(value: string | Date): Date {
+  const date = typeof value === "string" ? new Date(`${value}T00:00:00.000Z`) : new Date(value);
+  date.setUTCHours(0, 0, 0, 0);
+  return date;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
+
+function listValues(condition: TaskFilterCondition, ctx: FilterContext): string[] {
+  const values = Array.isArray(condition.value) ? condition.value : [];
+  return Array.from(new Set(values.map((v) => (v === CURRENT_USER ? ctx.userId : v))));
+}
+
+/** EXISTS over a link table (assignees, tags), covering the list and presence operators. */
+function linkCondition(condition: TaskFilterCondition, ctx: FilterContext, link: SQL, column: SQL): SQL {
+  const any = sql`EXISTS (SELECT 1 FROM ${link})`;
+  switch (condition.op) {
+    case TaskFilterOperator.IS_EMPTY:
+      return sql`NOT ${any}`;
+    case TaskFilterOperator.IS_NOT_EMPTY:
+      return any;
+  }
+  const matching = sql`EXISTS (SELECT 1 FROM ${link} AND ${column} IN (${sql.join(listValues(condition, ctx).map((v) => sql`${v}`), sql`, `)}))`;
+  return condition.op === TaskFilterOperator.NOT_IN ? sql`NOT ${matching}` : matching;
+}
+
+function dateCondition(column: typeof DATE_COLUMNS[keyof typeof DATE_COLUMNS], condition: TaskFilterCondition, ctx: FilterContext): SQL {
+  const today = startOfDay(ctx.now);
+  switch (condition.op) {
+    case TaskFilterOperator.IS_EMPTY:
+      return isNull(column);
+    case TaskFilterOperator.IS_NOT_EMPTY:
+      return isNotNull(column);
+    case TaskFilterOperator.BEFORE:
+      return lt(column, startOfDay(condition.value as string));
+    case TaskFilterOperator.AFTER:
+      return gte(column, addDays(startOfDay(condition.value as string), 1));
+    case TaskFilterOperator.BETWEEN:
+      return and(
+        gte(column, startOfDay(condition.value as string)),
+        lt(column, addDays(startOfDay(condition.valueTo as string), 1)),
+      )!;
+    case TaskFilterOperator.LAST_DAYS:
+      return and(gte(column, addDays(today, -(condition.value as number))), lt(column, addDays(today, 1)))!;
+    case TaskFilterOperator.NEXT_DAYS:
+      return and(gte(column, today), lt(column, addDays(today, (condition.value as number) + 1)))!;
+  }
+  throw new Error(`Unsupported date operator ${condition.op}`);
+}
+
+function compileCondition(condition: TaskFilterCondition, ctx: FilterContext): SQL {
+  const { field, op } = condition;
+  switch (field) {
+    case TaskFilterField.STATUS:
+    case TaskFilterField.PRIORITY: {
+      const column = field === TaskFilterField.STATUS ? tasks.status : tasks.priority;
+      const values = listValues(condition, ctx);
+      return op === TaskFilterOperator.NOT_IN ? notInArray(column, values) : inArray(column, values);
+    }
+    case TaskFilterField.ASSIGNEE:
+      return linkCondition(condition, ctx, sql`${taskAssignees} WHERE ${taskAssignees.taskId} = ${tasks.id}`, sql`${taskAssignees.userId}`);
+    case TaskFilterField.TAG:
+      return linkCondition(condition, ctx, sql`${taskTags} WHERE ${taskTags.taskId} = ${tasks.id}`, sql`${taskTags.tagId}`);
+    case TaskFilterField.PROJECT:
+    case TaskFilterField.CLIENT: {
+      const column = field === TaskFilterField.PROJECT ? sql`${tasks.projectId}` : clientOfTask;
+      if (op === TaskFilterOperator.IS_EMPTY) return sql`${column} IS NULL`;
+      if (op === TaskFilterOperator.IS_NOT_EMPTY) return sql`${column} IS NOT NULL`;
+      const values = sql.join(listValues(condition, ctx).map((v) => sql`${v}`), sql`, `);
+      return op === TaskFilterOperator.NOT_IN
+        ? sql`(${column} IS NULL OR ${column} NOT IN (${values}))`
+        : sql`${column} IN (${values})`;
+    }
+    case TaskFilterField.ESTIMATE: {
+      const column = tasks.estimateMinutes;
+      switch (op) {
+        case TaskFilterOperator.IS_EMPTY: return isNull(column);
+        case TaskFilterOperator.IS_NOT_EMPTY: return isNotNull(column);
+        case TaskFilterOperator.EQ: return eq(column, condition.value as number);
+        case TaskFilterOperator.LT: return lt(column, condition.value as number);
+        case TaskFilterOperator.GT: return gt(column, condition.value as number);
+        case TaskFilterOperator.BETWEEN:
+          return sql`${column} BETWEEN ${condition.value as number} AND ${condition.valueTo as number}`;
+      }
+      break;
+    }
+    case TaskFilterField.TEXT: {
+      const pattern = `%${escapeLike((condition.value as string).trim())}%`;
+      const matches = sql`(${tasks.title} ILIKE ${pattern} OR coalesce(${tasks.description}, '') ILIKE ${pattern})`;
+      return op === TaskFilterOperator.NOT_CONTAINS ? not(matches) : matches;
+    }
+    default:
+      return dateCondition(DATE_COLUMNS[field], condition, ctx);
+  }
+  throw new Error(`Unsupported operator ${op} for ${field}`);
+}
+
+/**
+ * SQL for a validated filter (see taskFilterGroupSchema), or undefined when it has no
+ * conditions and so matches every task. Joins nothing: relations are EXISTS subqueries on tasks.
+ */
+export function compileTaskFilter(group: TaskFilterGroup, ctx: FilterContext): SQL | undefined {
+  const parts: SQL[] = [];
+  for (const rule of group.rules) {
+    const part = isFilterGroup(rule) ? compileTaskFilter(rule, ctx) : compileCondition(rule, ctx);
+    if (part) parts.push(part);
+  }
+  if (parts.length === 0) return undefined;
+  if (parts.length === 1) return parts[0];
+  return group.combinator === "or" ? or(...parts) : and(...parts);
+}
+
+const PRIORITY_RANK = sql`CASE ${tasks.priority}
+  WHEN ${TaskPriority.URGENT} THEN 0 WHEN ${TaskPriority.HIGH} THEN 1
+  WHEN ${TaskPriority.MEDIUM} THEN 2 WHEN ${TaskPriority.LOW} THEN 3 ELSE 4 END`;
+
+// The status's position in the project's workflow; built-in order for projects without one
+const STATUS_RANK = sql`COALESCE(
+  (SELECT ${workflowStatuses.orderIndex} FROM ${projects}
+     JOIN ${workflowStatuses} ON ${workflowStatuses.statusSetId} = ${projects.workflowStatusSetId}
+    WHERE ${projects.id} = ${tasks.projectId} AND ${workflowStatuses.key} = ${tasks.status}),
+  CASE ${tasks.status}
+    WHEN ${TaskStatus.TODO} THEN 0 WHEN ${TaskStatus.IN_PROGRESS} THEN 1
+    WHEN ${TaskStatus.BLOCKED} THEN 2 WHEN ${TaskStatus.DONE} THEN 3 ELSE 4 END
+)`;
+
+const SORT_EXPRESSIONS: Record<TaskSort[number]["field"], SQL> = {
+  dueDate: sql`${tasks.dueDate}`,
+  startDate: sql`${tasks.startDate}`,
+  priority: PRIORITY_RANK,
+  status: STATUS_RANK,
+  title: sql`lower(${tasks.title})`,
+  estimateMinutes: sql`${tasks.estimateMinutes}`,
+  createdAt: sql`${tasks.createdAt}`,
+  updatedAt: sql`${tasks.updatedAt}`,
+};
+
+/** ORDER BY terms; empty values sort last either way and the id keeps pages stable. */
+export function compileTaskSort(sort: TaskSort): SQL[] {
+  const terms = sort.map(({ field, direction }) =>
+    direction === "desc"
+      ? sql`${SORT_EXPRESSIONS[field]} DESC NULLS LAST`
+      : sql`${SORT_EXPRESSIONS[field]} ASC NULLS LAST`);
+  if (terms.length === 0) terms.push(sql`${tasks.dueDate} ASC NULLS LAST`, desc(tasks.createdAt));
+  return [...terms, asc(tasks.id)];
+}
@@ -0,0 +1,207 @@
+import { and, eq, isNull, or, sql, type SQL } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  assets,
+  chatChannels,
+  chatMessages,
+  clientConversations,
+  clientMessages,
+  clientNotes,
+  clients,
+  comments,
+  projectNotes,
+  projects,
+  subtasks,
+  supportTicketMessages,
+  supportTickets,
+  tasks,
+} from "@shared/schema";
+import { SearchEntityType, type SearchEntityTypeValue } from "@shared/search";
+import { projectVisibilityFilter, visibleTaskFilter } from "../../lib/privateVisibility";
+import { HEADLINE_OPTIONS } from "./searchQuery";
+
+export interface SearchScope {
+  tenantId: string;
+  userId: string;
+  /** to_tsquery('english', …) input, see toPrefixTsQuery. */
+  tsQuery: string;
+}
+
+export interface SearchRow {
+  id: string;
+  title: string | null;
+  status: string | null;
+  created_at: Date;
+  client_id: string | null;
+  project_id: string | null;
+  task_id: string | null;
+  parent_id: string | null;
+  rank: number;
+  headline: string | null;
+}
+
+interface SearchSource {
+  /** Must match the expression indexed in migrations/0059_full_text_search.sql. */
+  vector: SQL;
+  /** Plain text the snippet is cut from. */
+  text: SQL;
+  /** id, title, status, created_at, client_id, project_id, task_id, parent_id */
+  columns: SQL;
+  from: SQL;
+  /** Tenant scope and the caller's visibility rules. */
+  where(scope: SearchScope): SQL;
+}
+
+const weighted = (title: SQL, body: SQL) =>
+  sql`setweight(to_tsvector('english', coalesce(${title}, '')), 'A') || setweight(to_tsvector('english', ${body}), 'B')`;
+
+const visibleTask = (scope: SearchScope) => visibleTaskFilter(scope.userId, scope.tenantId);
+
+const TASK_FROM = sql`${tasks} LEFT JOIN ${projects} ON ${projects.id} = ${tasks.projectId}`;
+
+const SOURCES: Record<SearchEntityTypeValue, SearchSource> = {
+  [SearchEntityType.CLIENT]: {
+    vector: sql`setweight(to_tsvector('english', coalesce(${clients.companyName}, '')), 'A') || setweight(to_tsvector('english', coalesce(${clients.displayName}, '')), 'B')`,
+    text: sql`coalesce(${clients.displayName}, '')`,
+    columns: sql`${clients.id} AS id, ${clients.companyName} AS title, ${clients.status} AS status, ${clients.createdAt} AS created_at,
+      ${clients.id} AS client_id, NULL AS project_id, NULL AS task_id, NULL AS parent_id`,
+    from: sql`${clients}`,
+    where: (scope) => eq(clients.tenantId, scope.tenantId),
+  },
+  [SearchEntityType.PROJECT]: {
+    vector: weighted(sql`${projects.name}`, sql`search_plain_text(${projects.description})`),
+    text: sql`search_plain_text(${projects.description})`,
+    columns: sql`${projects.id} AS id, ${projects.name} AS title, ${projects.status} AS status, ${projects.createdAt} AS created_at,
+      ${projects.clientId} AS client_id, ${projects.id} AS project_id, NULL AS task_id, NULL AS parent_id`,
+    from: sql`${projects}`,
+    where: (scope) => and(eq(projects.tenantId, scope.tenantId), projectVisibilityFilter(scope.userId, scope.tenantId))!,
+  },
+  [SearchEntityType.TASK]: {
+    vector: weighted(sql`${tasks.title}`, sql`search_plain_text(${tasks.description})`),
+    text: sql`search_plain_text(${tasks.description})`,
+    columns: sql`${tasks.id} AS id, ${tasks.title} AS title, ${tasks.status} AS status, ${tasks.createdAt} AS created_at,
+      ${projects.clientId} AS client_id, ${tasks.projectId} AS project_id, ${tasks.id} AS task_id, NULL AS parent_id`,
+    from: TASK_FROM,
+    where: visibleTask,
+  },
+  [SearchEntityType.COMMENT]: {
+    vector: sql`to_tsvector('english', search_plain_text(${comments.body}))`,
+    text: sql`search_plain_text(${comments.body})`,
+    columns: sql`${comments.id} AS id, ${tasks.title} AS title, NULL AS status, ${comments.createdAt} AS created_at,
+      ${projects.clientId} AS client_id, ${tasks.projectId} AS project_id, ${tasks.id} AS task_id, NULL AS parent_id`,
+    // Subtask comments are found through their parent task
+    from: sql`${comments}
+      LEFT JOIN ${subtasks} ON ${subtasks.id} = ${comments.subtaskId}
+      JOIN ${tasks} ON ${tasks.id} = coalesce(${comments.taskId}, ${subtasks.taskId})
+      LEFT JOIN ${projects} ON ${projects.id} = ${tasks.projectId}`,
+    where: visibleTask,
+  },
+  [SearchEntityType.CLIENT_NOTE]: {
+    vector: sql`to_tsvector('english', search_plain_text(${clientNotes.body}))`,
+    text: sql`search_plain_text(${clientNotes.body})`,
+    columns: sql`${clientNotes.id} AS id, ${clients.companyName} AS title, NULL AS status, ${clientNotes.createdAt} AS created_at,
+      ${clientNotes.clientId} AS client_id, NULL AS project_id, NULL AS task_id, NULL AS parent_id`,
+    from: sql`${clientNotes} JOIN ${clients} ON ${clients.id} = ${clientNotes.clientId}`,
+    where: (scope) => eq(clientNotes.tenantId, scope.tenantId),
+  },
+  [SearchEntityType.PROJECT_NOTE]: {
+    vector: sql`to_tsvector('english', search_plain_text(${projectNotes.body}))`,
+    text: sql`search_plain_text(${projectNotes.body})`,
+    columns: sql`${projectNotes.id} AS id, ${projects.name} AS title, NULL AS status, ${projectNotes.createdAt} AS created_at,
+      ${projects.clientId} AS client_id, ${projectNotes.projectId} AS project_id, NULL AS task_id, NULL AS parent_id`,
+    from: sql`${projectNotes} JOIN ${projects} ON ${projects.id} = ${projectNotes.projectId}`,
+    where: (scope) => and(eq(projectNotes.tenantId, scope.tenantId), projectVisibilityFilter(scope.userId, scope.tenantId))!,
+  },
+  [SearchEntityType.TICKET]: {
+    vector: weighted(sql`${supportTickets.title}`, sql`search_plain_text(${supportTickets.description})`),
+    text: sql`search_plain_text(${supportTickets.description})`,
+    columns: sql`${supportTickets.id} AS id, ${supportTickets.title} AS title, ${supportTickets.status} AS status, ${supportTickets.createdAt} AS created_at,
+      ${supportTickets.clientId} AS client_id, NULL AS project_id, NULL AS task_id, ${supportTickets.id} AS parent_id`,
+    from: sql`${supportTickets}`,
+    where: (scope) => eq(supportTickets.tenantId, scope.tenantId),
+  },
+  [SearchEntityType.TICKET_MESSAGE]: {
+    vector: sql`to_tsvector('english', ${supportTicketMessages.bodyText})`,
+    text: sql`${supportTicketMessages.bodyText}`,
+    columns: sql`${supportTicketMessages.id} AS id, ${supportTickets.title} AS title, ${supportTicketMessages.visibility} AS status, ${supportTicketMessages.createdAt} AS created_at,
+      ${supportTickets.clientId} AS client_id, NULL AS project_id, NULL AS task_id, ${supportTickets.id} AS parent_id`,
+    from: sql`${supportTicketMessages} JOIN ${supportTickets} ON ${supportTickets.id} = ${supportTicketMessages.ticketId}`,
+    where: (scope) => eq(supportTicketMessages.tenantId, scope.tenantId),
+  },
+  [SearchEntityType.CONVERSATION]: {
+    vector: sql`to_tsvector('english', ${clientConversations.subject})`,
+    text: sql`${clientConversations.subject}`,
+    columns: sql`${clientConversations.id} AS id, ${clientConversations.subject} AS title,
+      CASE WHEN ${clientConversations.closedAt} IS NULL THEN 'open' ELSE 'closed' END AS status, ${clientConversations.createdAt} AS created_at,
+      ${clientConversations.clientId} AS client_id, ${clientConversations.projectId} AS project_id, NULL AS task_id, ${clientConversations.id} AS parent_id`,
+    from: sql`${clientConversations}`,
+    where: (scope) => eq(clientConversations.tenantId, scope.tenantId),
+  },
+  [SearchEntityType.CONVERSATION_MESSAGE]: {
+    vector: sql`to_tsvector('english', ${clientMessages.bodyText})`,
+    text: sql`${clientMessages.bodyText}`,
+    columns: sql`${clientMessages.id} AS id, ${clientConversations.subject} AS title, ${clientMessages.visibility} AS status, ${clientMessages.createdAt} AS created_at,
+      ${clientConversations.clientId} AS client_id, ${clientConversations.projectId} AS project_id, NULL AS task_id, ${clientConversations.id} AS parent_id`,
+    from: sql`${clientMessages} JOIN ${clientConversations} ON ${clientConversations.id} = ${clientMessages.conversationId}`,
+    where: (scope) => eq(clientMessages.tenantId, scope.tenantId),
+  },
+  [SearchEntityType.CHAT_MESSAGE]: {
+    vector: sql`to_tsvector('english', search_plain_text(${chatMessages.body}))`,
+    text: sql`search_plain_text(${chatMessages.body})`,
+    columns: sql`${chatMessages.id} AS id, coalesce('#' || ${chatChannels.name}, 'Direct message') AS title, NULL AS status, ${chatMessages.createdAt} AS created_at,
+      NULL AS client_id, NULL AS project_id, NULL AS task_id, coalesce(${chatMessages.channelId}, ${chatMessages.dmThreadId}) AS parent_id`,
+    from: sql`${chatMessages} LEFT JOIN ${chatChannels} ON ${chatChannels.id} = ${chatMessages.channelId}`,
+    // Same rule as chat's own search: only channels and DMs the caller is a member of
+    where: (scope) => and(
+      eq(chatMessages.tenantId, scope.tenantId),
+      isNull(chatMessages.deletedAt),
+      isNull(chatMessages.archivedAt),
+      or(
+        sql`EXISTS (SELECT 1 FROM chat_channel_members WHERE chat_channel_members.channel_id = ${chatMessages.channelId} AND chat_channel_members.user_id = ${scope.userId})`,
+        sql`EXISTS (SELECT 1 FROM chat_dm_members WHERE chat_dm_members.dm_thread_id = ${chatMessages.dmThreadId} AND chat_dm_members.user_id = ${scope.userId})`,
+      ),
+    )!,
+  },
+  [SearchEntityType.ASSET]: {
+    vector: sql`setweight(to_tsvector('english', coalesce(${assets.title}, '')), 'A') || setweight(to_tsvector('english', coalesce(${assets.description}, '')), 'B')`,
+    text: sql`coalesce(${assets.description}, '')`,
+    columns: sql`${assets.id} AS id, ${assets.title} AS title, ${assets.mimeType} AS status, ${assets.createdAt} AS created_at,
+      ${assets.clientId} AS client_id, NULL AS project_id, NULL AS task_id, ${assets.folderId} AS parent_id`,
+    from: sql`${assets}`,
+    where: (scope) => and(eq(assets.tenantId, scope.tenantId), eq(assets.isDeleted, false))!,
+  },
+};
+
+export const searchRepo = {
+  /** The best `limit` matches of one type, ranked, with a highlighted headline. */
+  async search(type: SearchEntityTypeValue, scope: SearchScope, limit: number): Promise<SearchRow[]> {
+    const source = SOURCES[type];
+    const query = sql`to_tsquery('english', ${scope.tsQuery})`;
+    const result = await db.execute(sql`
+      SELECT hits.*, ts_headline('english', hits.body, ${query}, ${HEADLINE_OPTIONS}) AS headline
+      FROM (
+        SELECT ${source.columns}, ${source.text} AS body, ts_rank(${source.vector}, ${query}, 1) AS rank
+        FROM ${source.from}
+        WHERE ${source.where(scope)} AND ${source.vector} @@ ${query}
+        ORDER BY rank DESC, created_at DESC
+        LIMIT ${limit}
+      ) hits
+    `);
+    return (result.rows as unknown as Array<SearchRow & { body: string }>).map(({ body: _body, ...row }) => ({
+      ...row,
+      rank: Number(row.rank),
+      created_at: new Date(row.created_at),
+    }));
+  },
+
+  async count(type: SearchEntityTypeValue, scope: SearchScope): Promise<number> {
+    const source = SOURCES[type];
+    const query = sql`to_tsquery('english', ${scope.tsQuery})`;
+    const result = await db.execute(sql`
+      SELECT count(*)::int AS total
+      FROM ${source.from}
+      WHERE ${source.where(scope)} AND ${source.vector} @@ ${query}
+    `);
+    return Number((result.rows[0] as { total: number } | undefined)?.total ?? 0);
+  },
+};
@@ -0,0 +1,70 @@
+import type { SearchEntityTypeValue, SearchHit, SearchResponse } from "@shared/search";
+import { searchRepo, type SearchRow } from "./search.repo";
+import { parseHeadline, toPrefixTsQuery } from "./searchQuery";
+
+export interface SearchOptions {
+  tenantId: string;
+  userId: string;
+  q: string;
+  types: SearchEntityTypeValue[];
+  limit: number;
+  offset?: number;
+  /** Skip the per-type match counts (the command palette does not show them). */
+  withCounts?: boolean;
+}
+
+function toHit(type: SearchEntityTypeValue, row: SearchRow): SearchHit {
+  return {
+    type,
+    id: row.id,
+    title: row.title ?? "",
+    status: row.status,
+    snippet: parseHeadline(row.headline),
+    rank: row.rank,
+    createdAt: row.created_at.toISOString(),
+    clientId: row.client_id,
+    projectId: row.project_id,
+    taskId: row.task_id,
+    parentId: row.parent_id,
+  };
+}
+
+export const searchService = {
+  /**
+   * Ranked matches across the requested types. Each type contributes its best
+   * `offset + limit` rows, so a page is exact for the merged ranking.
+   */
+  async search(options: SearchOptions): Promise<SearchResponse> {
+    const tsQuery = toPrefixTsQuery(options.q);
+    if (!tsQuery || options.types.length === 0) return { hits: [], counts: {}, total: 0 };
+
+    const scope = { tenantId: options.tenantId, userId: options.userId, tsQuery };
+    const offset = options.offset ?? 0;
+    const perType = await Promise.all(options.types.map(async (type) => {
+      const [rows, count] = await Promise.all([
+        searchRepo.search(type, scope, offset + options.limit),
+        options.withCounts === false ? Promise.resolve(null) : searchRepo.count(type, scope),
+      ]);
+      return { type, hits: rows.map((row) => toHit(type, row)), count };
+    }));
+
+    const counts: SearchResponse["counts"] = {};
+    let total = 0;
+    for (const { type, hits, count } of perType) {
+      counts[type] = count ?? hits.length;
+      total += counts[type]!;
+    }
+
+    const hits = perType
+      .flatMap((entry) => entry.hits)
+      .sort((a, b) => b.rank - a.rank || b.createdAt.localeCompare(a.createdAt))
+      .slice(offset, offset + options.limit);
+    return { hits, counts, total };
+  },
+
+  /** Best matches of a single type, in rank order. */
+  async searchType(options: Omit<SearchOptions, "types" | "withCounts">, type: SearchEntityTypeValue) {
+    const { hits } = await this.search({ ...options, types: [type], withCounts: false });
+    return hits;
+  },
+};
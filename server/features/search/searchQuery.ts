@@ -0,0 +1,63 @@
+/**
+ * Pure helpers for full-text search: turning what the user typed into a tsquery and
+ * ts_headline output into a snippet with highlight ranges.
+ */
+import { SEARCH_ENTITY_TYPES, type SearchEntityTypeValue, type SearchSnippet } from "@shared/search";
+
+const MAX_TERMS = 8;
+// Letters and digits in any script; built at runtime because the compile target predates the u flag
+const TERM_PATTERN = new RegExp("[\\p{L}\\p{N}]+", "gu");
+
+// Control characters cannot come from user content that reaches the index, so they
+// delimit matches safely without HTML in the response
+const START_SEL = "\u0001";
+const STOP_SEL = "\u0002";
+
+export const HEADLINE_OPTIONS =
+  `StartSel=${START_SEL}, StopSel=${STOP_SEL}, MaxWords=35, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+
+/**
+ * An AND of prefix terms (`invoice:* & overdue:*`), so results appear while the last word
+ * is still being typed. Null when the input has no searchable terms.
+ */
+export function toPrefixTsQuery(input: string): string | null {
+  const terms = input.toLowerCase().match(TERM_PATTERN);
+  if (!terms) return null;
+  const unique = Array.from(new Set(terms)).slice(0, MAX_TERMS);
+  return unique.map((term) => `${term}:*`).join(" & ");
+}
+
+/** Strips the headline delimiters, recording where each highlighted run was, and collapses whitespace. */
+export function parseHeadline(raw: string | null | undefined): SearchSnippet | null {
+  if (!raw) return null;
+  let text = "";
+  const highlights: Array<[number, number]> = [];
+  let start = -1;
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (char === START_SEL) {
+      start = text.length;
+    } else if (char === STOP_SEL) {
+      if (start >= 0 && text.length > start) highlights.push([start, text.length]);
+      start = -1;
+    } else if (/\s/.test(char)) {
+      if (text.length > 0 && !text.endsWith(" ")) text += " ";
+    } else {
+      text += char;
+    }
+  }
+  text = text.trimEnd();
+  if (!text) return null;
+  return { text, highlights: highlights.map(([from, to]) => [from, Math.min(to, text.length)]) };
+}
+
+/** `types=task,comment` (or repeated `types=`), keeping only known types; all types when absent. */
+export function parseSearchTypes(raw: unknown): SearchEntityTypeValue[] {
+  const values = (Array.isArray(raw) ? raw : [raw])
+    .filter((value): value is string => typeof value === "string")
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+  if (values.length === 0) return [...SEARCH_ENTITY_TYPES];
+  return SEARCH_ENTITY_TYPES.filter((type) => values.includes(type));
+}
@@ -0,0 +1,78 @@
+import { and, eq, gt, lt, ne, sql } from "drizzle-orm";
+import { db } from "../../db";
+import { ssoRelayStates, tenantIntegrations, tenants, userSsoIdentities, type UserSsoIdentity } from "@shared/schema";
+import type { SsoPublicConfig } from "../../services/tenantIntegrations";
+
+const PROVIDER = "sso";
+
+export const ssoRepo = {
+  async findIdentity(issuer: string, subject: string): Promise<UserSsoIdentity | undefined> {
+    const [row] = await db
+      .select()
+      .from(userSsoIdentities)
+      .where(and(eq(userSsoIdentities.issuer, issuer), eq(userSsoIdentities.subject, subject)));
+    return row;
+  },
+
+  async createIdentity(values: { tenantId: string; userId: string; protocol: string; issuer: string; subject: string }): Promise<void> {
+    await db
+      .insert(userSsoIdentities)
+      .values({ ...values, lastLoginAt: new Date() })
+      .onConflictDoNothing();
+  },
+
+  async touchIdentity(id: string): Promise<void> {
+    await db.update(userSsoIdentities).set({ lastLoginAt: new Date() }).where(eq(userSsoIdentities.id, id));
+  },
+
+  async deleteConfig(tenantId: string): Promise<void> {
+    await db
+      .delete(tenantIntegrations)
+      .where(and(eq(tenantIntegrations.tenantId, tenantId), eq(tenantIntegrations.provider, PROVIDER)));
+  },
+
+  async deleteIdentitiesForTenant(tenantId: string): Promise<void> {
+    await db.delete(userSsoIdentities).where(eq(userSsoIdentities.tenantId, tenantId));
+  },
+
+  /** Tenants whose SSO config claims `domain`, optionally excluding one tenant. */
+  async findTenantsClaimingDomain(domain: string, excludeTenantId?: string): Promise<Array<{ tenantId: string; config: SsoPublicConfig }>> {
+    const rows = await db
+      .select({ tenantId: tenantIntegrations.tenantId, config: tenantIntegrations.configPublic })
+      .from(tenantIntegrations)
+      .where(and(
+        eq(tenantIntegrations.provider, PROVIDER),
+        sql`${tenantIntegrations.configPublic} -> 'emailDomains' ? ${domain}`,
+        excludeTenantId ? ne(tenantIntegrations.tenantId, excludeTenantId) : undefined,
+      ));
+    return rows
+      .filter((row): row is { tenantId: string; config: SsoPublicConfig } => !!row.tenantId && !!row.config);
+  },
+
+  /** Records a SAML login this server started. Expired ones are pruned. */
+  async issueRelayState(values: { nonce: string; tenantId: string; requestId: string; expiresAt: Date }): Promise<void> {
+    await db.delete(ssoRelayStates).where(lt(ssoRelayStates.expiresAt, new Date()));
+    await db.insert(ssoRelayStates).values(values);
+  },
+
+  /** Ends a started SAML login and returns its AuthnRequest ID; null when unknown, used or expired. */
+  async consumeRelayState(nonce: string, tenantId: string): Promise<string | null> {
+    const [row] = await db
+      .delete(ssoRelayStates)
+      .where(and(
+        eq(ssoRelayStates.nonce, nonce),
+        eq(ssoRelayStates.tenantId, tenantId),
+        gt(ssoRelayStates.expiresAt, new Date()),
+      ))
+      .returning({ requestId: ssoRelayStates.requestId });
+    return row?.requestId ?? null;
+  },
+
+  async getTenant(tenantId: string): Promise<{ id: string; name: string; status: string } | undefined> {
+    const [row] = await db
+      .select({ id: tenants.id, name: tenants.name, status: tenants.status })
+      .from(tenants)
+      .where(eq(tenants.id, tenantId));
+    return row;
+  },
+};
@@ -0,0 +1,114 @@
+/**
+ * Single sign-on endpoints under /api/auth/sso.
+ *
+ * Registered with the other public auth endpoints (before CSRF protection, which the SAML
+ * POST binding could not pass: the IdP posts the signed response from its own origin).
+ * Browser-facing endpoints redirect to /login?error= on failure instead of returning JSON.
+ */
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { AppError, handleRouteError } from "../../lib/errors";
+import { completeLogin } from "../../auth";
+import { ssoRateLimiter } from "../../middleware/rateLimit";
+import { UserRole, type User } from "@shared/schema";
+import { ssoService } from "./sso.service";
+
+const discoverQuerySchema = z.object({ email: z.string().trim().email().max(320) });
+
+function baseUrl(req: Request): string {
+  return process.env.APP_PUBLIC_URL || `${req.protocol}://${req.get("host")}`;
+}
+
+function redirectWithError(req: Request, res: Response, error: unknown, context: string): void {
+  const message = error instanceof AppError && error.statusCode < 500
+    ? error.message
+    : "Single sign-on failed. Please try again or contact your administrator.";
+  if (!(error instanceof AppError)) {
+    console.error(`[sso] ${context} failed:`, error);
+  }
+  res.redirect(`/login?error=${encodeURIComponent(message)}`);
+}
+
+/**
+ * The IdP's own MFA is not visible here, so SSO sessions pass the same 2FA gate as invite
+ * logins: users with 2FA, or covered by a tenant or platform requirement, verify or enroll.
+ */
+function finishLogin(req: Request, res: Response, user: User): void {
+  const { passwordHash, ...userWithoutPassword } = user;
+  completeLogin(req, res, userWithoutPassword, {
+    twoFactorVerified: false,
+    redirectTo: user.role === UserRole.SUPER_USER ? "/super-admin/dashboard" : "/",
+  });
+}
+
+export function setupSsoEndpoints(app: Express): void {
+  /**
+   * GET /api/auth/sso/discover?email=
+   * Tells the login page whether this address signs in through an identity provider.
+   */
+  app.get("/api/auth/sso/discover", ssoRateLimiter, async (req, res) => {
+    try {
+      const parsed = discoverQuerySchema.safeParse(req.query);
+      if (!parsed.success) return res.json({ sso: false });
+      res.json(await ssoService.discover(parsed.data.email));
+    } catch (error) {
+      handleRouteError(res, error, "GET /api/auth/sso/discover", req);
+    }
+  });
+
+  /**
+   * GET /api/auth/sso/:tenantId/start
+   * Redirects the browser to the tenant's identity provider.
+   */
+  app.get("/api/auth/sso/:tenantId/start", ssoRateLimiter, async (req, res) => {
+    try {
+      const { redirectUrl, pending } = await ssoService.beginLogin(req.params.tenantId, baseUrl(req));
+      if (!pending) return res.redirect(redirectUrl);
+      req.session.ssoPending = pending;
+      req.session.save(() => res.redirect(redirectUrl));
+    } catch (error) {
+      redirectWithError(req, res, error, "start");
+    }
+  });
+
+  /**
+   * GET /api/auth/sso/:tenantId/callback
+   * OIDC redirect URI: exchanges the code and signs the user in.
+   */
+  app.get("/api/auth/sso/:tenantId/callback", async (req, res) => {
+    const pending = req.session.ssoPending;
+    delete req.session.ssoPending;
+    try {
+      const user = await ssoService.completeOidcLogin(req.params.tenantId, baseUrl(req), req.originalUrl, pending);
+      finishLogin(req, res, user);
+    } catch (error) {
+      redirectWithError(req, res, error, "OIDC callback");
+    }
+  });
+
+  /**
+   * POST /api/auth/sso/:tenantId/saml/acs
+   * SAML assertion consumer service (HTTP-POST binding).
+   */
+  app.post("/api/auth/sso/:tenantId/saml/acs", async (req, res) => {
+    try {
+      const user = await ssoService.completeSamlLogin(req.params.tenantId, baseUrl(req), req.body ?? {});
+      finishLogin(req, res, user);
+    } catch (error) {
+      redirectWithError(req, res, error, "SAML ACS");
+    }
+  });
+
+  /**
+   * GET /api/auth/sso/:tenantId/saml/metadata
+   * Service provider metadata to upload to the identity provider.
+   */
+  app.get("/api/auth/sso/:tenantId/saml/metadata", async (req, res) => {
+    try {
+      const xml = await ssoService.getSamlMetadata(req.params.tenantId, baseUrl(req));
+      res.type("application/xml").send(xml);
+    } catch (error) {
+      handleRouteError(res, error, "GET /api/auth/sso/:tenantId/saml/metadata", req);
+    }
+  });
+}
@@ -0,0 +1,432 @@
+import { createHash } from "crypto";
+import { Issuer, generators, type BaseClient } from "openid-client";
+import { SAML, ValidateInResponseTo, type CacheProvider } from "@node-saml/node-saml";
+import { db } from "../../db";
+import { storage } from "../../storage";
+import { AppError } from "../../lib/errors";
+import {
+  SsoProtocol,
+  TenantStatus,
+  UserRole,
+  tenantAuditEvents,
+  users,
+  type UpdateSsoConfig,
+  type User,
+} from "@shared/schema";
+import {
+  tenantIntegrationService,
+  type IntegrationResponse,
+  type SsoPublicConfig,
+  type SsoSecretConfig,
+} from "../../services/tenantIntegrations";
+import { ssoRepo } from "./sso.repo";
+import {
+  emailDomain,
+  isEmailInDomains,
+  issueRelayState,
+  mapOidcClaims,
+  mapSamlProfile,
+  verifyRelayState,
+  type SsoIdentity,
+} from "./ssoIdentity";
+
+const OIDC_CLIENT_TTL_MS = 10 * 60 * 1000;
+export const SSO_PENDING_TTL_MS = 10 * 60 * 1000;
+
+/** OIDC checks kept in the session between the redirect to the IdP and the callback. */
+export interface SsoPendingLogin {
+  tenantId: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  issuedAt: number;
+}
+
+export interface SsoDiscovery {
+  sso: boolean;
+  tenantId?: string;
+  displayName?: string;
+  passwordLoginDisabled?: boolean;
+  loginUrl?: string;
+}
+
+interface LoadedConfig {
+  config: SsoPublicConfig;
+  secrets: SsoSecretConfig;
+}
+
+const oidcClients = new Map<string, { key: string; client: BaseClient; expiresAt: number }>();
+
+function relaySecret(): string {
+  return process.env.SESSION_SECRET || "dasana-dev-secret-key";
+}
+
+export function ssoUrls(baseUrl: string, tenantId: string) {
+  const root = `${baseUrl.replace(/\/$/, "")}/api/auth/sso/${tenantId}`;
+  return {
+    loginUrl: `/api/auth/sso/${tenantId}/start`,
+    oidcRedirectUri: `${root}/callback`,
+    samlAcsUrl: `${root}/saml/acs`,
+    samlEntityId: `${root}/saml/metadata`,
+  };
+}
+
+async function loadConfig(tenantId: string): Promise<LoadedConfig | null> {
+  const row = await tenantIntegrationService.getIntegrationWithSecrets(tenantId, "sso");
+  if (!row?.publicConfig) return null;
+  return {
+    config: row.publicConfig as SsoPublicConfig,
+    secrets: (row.secretConfig as SsoSecretConfig | null) ?? {},
+  };
+}
+
+async function loadEnabledConfig(tenantId: string): Promise<LoadedConfig> {
+  const loaded = await loadConfig(tenantId);
+  if (!loaded?.config.enabled) throw AppError.badRequest("Single sign-on is not enabled for this organization");
+  const tenant = await ssoRepo.getTenant(tenantId);
+  if (!tenant || tenant.status === TenantStatus.SUSPENDED) {
+    throw AppError.forbidden("This organization is not available");
+  }
+  return loaded;
+}
+
+async function getOidcClient(tenantId: string, loaded: LoadedConfig, redirectUri: string): Promise<BaseClient> {
+  const { config, secrets } = loaded;
+  if (!config.oidcIssuerUrl || !config.oidcClientId || !secrets.clientSecret) {
+    throw AppError.badRequest("The OIDC identity provider is not fully configured");
+  }
+  const key = createHash("sha256")
+    .update([config.oidcIssuerUrl, config.oidcClientId, secrets.clientSecret, redirectUri].join("\n"))
+    .digest("hex");
+  const cached = oidcClients.get(tenantId);
+  if (cached && cached.key === key && cached.expiresAt > Date.now()) return cached.client;
+
+  const issuer = await Issuer.discover(config.oidcIssuerUrl);
+  const client = new issuer.Client({
+    client_id: config.oidcClientId,
+    client_secret: secrets.clientSecret,
+    redirect_uris: [redirectUri],
+    response_types: ["code"],
+  });
+  oidcClients.set(tenantId, { key, client, expiresAt: Date.now() + OIDC_CLIENT_TTL_MS });
+  return client;
+}
+
+/**
+ * Stands in for node-saml's request ID cache, which is per process. It holds the one
+ * AuthnRequest of a login: the ID is captured when the request is built, stored with the
+ * RelayState, and is the only InResponseTo accepted for that RelayState.
+ */
+function authnRequestCache(requestId: string | null = null): { provider: CacheProvider; requestId: () => string | null } {
+  let current = requestId;
+  const provider: CacheProvider = {
+    async saveAsync(key, value) {
+      current = key;
+      return { value, createdAt: Date.now() };
+    },
+    async getAsync(key) {
+      return key === current ? new Date().toISOString() : null;
+    },
+    async removeAsync(key) {
+      return key;
+    },
+  };
+  return { provider, requestId: () => current };
+}
+
+function buildSaml(
+  config: SsoPublicConfig,
+  urls: ReturnType<typeof ssoUrls>,
+  requests: CacheProvider = authnRequestCache().provider,
+): SAML {
+  if (!config.samlEntryPoint || !config.samlIdpCert) {
+    throw AppError.badRequest("The SAML identity provider is not fully configured");
+  }
+  return new SAML({
+    entryPoint: config.samlEntryPoint,
+    idpCert: config.samlIdpCert,
+    idpIssuer: config.samlIdpIssuer || undefined,
+    issuer: urls.samlEntityId,
+    callbackUrl: urls.samlAcsUrl,
+    audience: urls.samlEntityId,
+    wantAssertionsSigned: true,
+    // A response must answer the AuthnRequest stored with its RelayState, so a captured
+    // response cannot be replayed with a freshly issued RelayState
+    validateInResponseTo: ValidateInResponseTo.always,
+    cacheProvider: requests,
+    acceptedClockSkewMs: 60_000,
+  });
+}
+
+function toPublicConfig(input: UpdateSsoConfig): SsoPublicConfig {
+  return {
+    enabled: input.enabled,
+    protocol: input.protocol,
+    displayName: input.displayName ?? null,
+    emailDomains: Array.from(new Set(input.emailDomains ?? [])),
+    allowJitProvisioning: input.allowJitProvisioning ?? true,
+    passwordLoginDisabled: input.passwordLoginDisabled ?? false,
+    oidcIssuerUrl: input.oidcIssuerUrl ?? null,
+    oidcClientId: input.oidcClientId ?? null,
+    samlEntryPoint: input.samlEntryPoint ?? null,
+    samlIdpIssuer: input.samlIdpIssuer ?? null,
+    samlIdpCert: input.samlIdpCert ?? null,
+  };
+}
+
+async function recordAudit(
+  tenantId: string,
+  actorUserId: string | null,
+  eventType: string,
+  message: string,
+  metadata: Record<string, unknown> = {},
+): Promise<void> {
+  try {
+    await db.insert(tenantAuditEvents).values({ tenantId, actorUserId, eventType, message, metadata });
+  } catch (error) {
+    console.error(`[sso] Failed to record audit event ${eventType} for tenant ${tenantId}:`, error);
+  }
+}
+
+export const ssoService = {
+  /** Admin view: the stored integration plus the URLs to register at the IdP. */
+  async getSettings(tenantId: string, baseUrl: string): Promise<{ integration: IntegrationResponse | null; urls: ReturnType<typeof ssoUrls> }> {
+    const integration = await tenantIntegrationService.getIntegration(tenantId, "sso");
+    return { integration, urls: ssoUrls(baseUrl, tenantId) };
+  },
+
+  async saveSettings(tenantId: string, input: UpdateSsoConfig, actor: { id: string; email: string }): Promise<IntegrationResponse> {
+    const publicConfig = toPublicConfig(input);
+    for (const domain of publicConfig.emailDomains) {
+      const claimed = await ssoRepo.findTenantsClaimingDomain(domain, tenantId);
+      if (claimed.length > 0) {
+        throw AppError.conflict(`${domain} is already used for single sign-on by another organization`);
+      }
+    }
+
+    const previous = await loadConfig(tenantId);
+    if (input.enabled && input.protocol === SsoProtocol.OIDC && !input.oidcClientSecret && !previous?.secrets.clientSecret) {
+      throw AppError.badRequest("Enter the client secret from your identity provider");
+    }
+    const secretConfig = input.oidcClientSecret ? { clientSecret: input.oidcClientSecret } : undefined;
+    const result = await tenantIntegrationService.upsertIntegration(tenantId, "sso", { publicConfig, secretConfig });
+    oidcClients.delete(tenantId);
+
+    await recordAudit(tenantId, actor.id, "sso_config_updated", `${actor.email} updated single sign-on settings`, {
+      enabled: publicConfig.enabled,
+      protocol: publicConfig.protocol,
+      emailDomains: publicConfig.emailDomains,
+      passwordLoginDisabled: publicConfig.passwordLoginDisabled,
+      previouslyEnabled: previous?.config.enabled ?? false,
+    });
+    return result;
+  },
+
+  async removeSettings(tenantId: string, actor: { id: string; email: string }): Promise<void> {
+    await ssoRepo.deleteConfig(tenantId);
+    await ssoRepo.deleteIdentitiesForTenant(tenantId);
+    oidcClients.delete(tenantId);
+    await recordAudit(tenantId, actor.id, "sso_config_removed", `${actor.email} removed single sign-on`);
+  },
+
+  /** Checks that the IdP is reachable and the config is usable, without signing anyone in. */
+  async testSettings(tenantId: string, baseUrl: string): Promise<{ success: boolean; message: string }> {
+    const loaded = await loadConfig(tenantId);
+    if (!loaded) return { success: false, message: "Single sign-on is not configured" };
+    const urls = ssoUrls(baseUrl, tenantId);
+    try {
+      if (loaded.config.protocol === SsoProtocol.SAML) {
+        await buildSaml(loaded.config, urls).getAuthorizeUrlAsync("test", undefined, {});
+        return { success: true, message: "SAML configuration is valid" };
+      }
+      oidcClients.delete(tenantId);
+      const client = await getOidcClient(tenantId, loaded, urls.oidcRedirectUri);
+      return { success: true, message: `Connected to ${client.issuer.metadata.issuer}` };
+    } catch (error) {
+      return { success: false, message: error instanceof Error ? error.message : "Test failed" };
+    }
+  },
+
+  /**
+   * Login-page routing by the tenant that claims the address's domain, so the answer never
+   * depends on whether an account exists. Super users and users of other tenants use a password.
+   */
+  async discover(email: string): Promise<SsoDiscovery> {
+    const normalized = email.trim().toLowerCase();
+    const domain = emailDomain(normalized);
+    if (!domain) return { sso: false };
+
+    const claimed = await ssoRepo.findTenantsClaimingDomain(domain);
+    const tenantId = claimed.find((row) => row.config.enabled)?.tenantId ?? null;
+    if (!tenantId) return { sso: false };
+
+    const user = await storage.getUserByEmail(normalized);
+    if (user && (user.role === UserRole.SUPER_USER || user.tenantId !== tenantId)) return { sso: false };
+
+    const loaded = await loadConfig(tenantId);
+    if (!loaded?.config.enabled) return { sso: false };
+    return {
+      sso: true,
+      tenantId,
+      displayName: loaded.config.displayName || undefined,
+      passwordLoginDisabled: loaded.config.passwordLoginDisabled && (!user || user.role !== UserRole.ADMIN),
+      loginUrl: ssoUrls("", tenantId).loginUrl,
+    };
+  },
+
+  /** Tenant admins keep password login as a break-glass path when the IdP is misconfigured. */
+  async isPasswordLoginBlocked(user: Pick<User, "role" | "tenantId">): Promise<boolean> {
+    if (!user.tenantId || user.role === UserRole.SUPER_USER || user.role === UserRole.ADMIN) return false;
+    const loaded = await loadConfig(user.tenantId);
+    return !!loaded?.config.enabled && loaded.config.passwordLoginDisabled;
+  },
+
+  /**
+   * Starts a login at the tenant's IdP and returns the URL to redirect to. For OIDC the
+   * returned `pending` checks must be stored in the session.
+   */
+  async beginLogin(tenantId: string, baseUrl: string): Promise<{ redirectUrl: string; pending: SsoPendingLogin | null }> {
+    const loaded = await loadEnabledConfig(tenantId);
+    const urls = ssoUrls(baseUrl, tenantId);
+
+    if (loaded.config.protocol === SsoProtocol.SAML) {
+      const relay = issueRelayState(tenantId, relaySecret());
+      const requests = authnRequestCache();
+      const redirectUrl = await buildSaml(loaded.config, urls, requests.provider)
+        .getAuthorizeUrlAsync(relay.value, undefined, {});
+      const requestId = requests.requestId();
+      if (!requestId) throw AppError.internal("SAML request ID was not generated");
+      await ssoRepo.issueRelayState({ ...relay.claims, requestId });
+      return { redirectUrl, pending: null };
+    }
+
+    const client = await getOidcClient(tenantId, loaded, urls.oidcRedirectUri);
+    const pending: SsoPendingLogin = {
+      tenantId,
+      state: generators.state(),
+      nonce: generators.nonce(),
+      codeVerifier: generators.codeVerifier(),
+      issuedAt: Date.now(),
+    };
+    const redirectUrl = client.authorizationUrl({
+      scope: "openid email profile",
+      state: pending.state,
+      nonce: pending.nonce,
+      code_challenge: generators.codeChallenge(pending.codeVerifier),
+      code_challenge_method: "S256",
+    });
+    return { redirectUrl, pending };
+  },
+
+  /** Exchanges the authorization code and returns the signed-in user. */
+  async completeOidcLogin(
+    tenantId: string,
+    baseUrl: string,
+    callbackUrl: string,
+    pending: SsoPendingLogin | undefined,
+  ): Promise<User> {
+    if (!pending || pending.tenantId !== tenantId || Date.now() - pending.issuedAt > SSO_PENDING_TTL_MS) {
+      throw AppError.badRequest("Your single sign-on attempt expired. Please try again.");
+    }
+    const loaded = await loadEnabledConfig(tenantId);
+    if (loaded.config.protocol !== SsoProtocol.OIDC) throw AppError.badRequest("OIDC is not enabled for this organization");
+    const urls = ssoUrls(baseUrl, tenantId);
+    const client = await getOidcClient(tenantId, loaded, urls.oidcRedirectUri);
+
+    const params = client.callbackParams(callbackUrl);
+    if (params.error) {
+      throw AppError.badRequest(`Your identity provider reported: ${params.error_description || params.error}`);
+    }
+    const tokenSet = await client.callback(urls.oidcRedirectUri, params, {
+      state: pending.state,
+      nonce: pending.nonce,
+      code_verifier: pending.codeVerifier,
+    });
+    let claims: Record<string, unknown> = tokenSet.claims();
+    if (!claims.email && tokenSet.access_token) {
+      claims = { ...(await client.userinfo(tokenSet.access_token)), ...claims };
+    }
+    const identity = mapOidcClaims(claims);
+    if (!identity) throw AppError.badRequest("Your identity provider did not share an email address");
+    return this.resolveUser(tenantId, loaded.config, SsoProtocol.OIDC, client.issuer.metadata.issuer, identity);
+  },
+
+  /** Validates a SAML POST binding response and returns the signed-in user. */
+  async completeSamlLogin(tenantId: string, baseUrl: string, body: Record<string, string>): Promise<User> {
+    const relay = body.RelayState ? verifyRelayState(body.RelayState, relaySecret()) : null;
+    const requestId = relay?.tenantId === tenantId ? await ssoRepo.consumeRelayState(relay.nonce, tenantId) : null;
+    if (!requestId) {
+      throw AppError.badRequest("Your single sign-on attempt expired. Please try again.");
+    }
+    const loaded = await loadEnabledConfig(tenantId);
+    if (loaded.config.protocol !== SsoProtocol.SAML) throw AppError.badRequest("SAML is not enabled for this organization");
+    const saml = buildSaml(loaded.config, ssoUrls(baseUrl, tenantId), authnRequestCache(requestId).provider);
+    const { profile } = await saml.validatePostResponseAsync({ SAMLResponse: body.SAMLResponse ?? "" });
+    const identity = profile ? mapSamlProfile(profile) : null;
+    if (!identity) throw AppError.badRequest("Your identity provider did not share an email address");
+    return this.resolveUser(tenantId, loaded.config, SsoProtocol.SAML, profile!.issuer || loaded.config.samlEntryPoint!, identity);
+  },
+
+  /** SP metadata to upload to the IdP. */
+  async getSamlMetadata(tenantId: string, baseUrl: string): Promise<string> {
+    const loaded = await loadConfig(tenantId);
+    if (!loaded || loaded.config.protocol !== SsoProtocol.SAML) throw AppError.notFound("SAML configuration");
+    return buildSaml(loaded.config, ssoUrls(baseUrl, tenantId)).generateServiceProviderMetadata(null, null);
+  },
+
+  /**
+   * Finds the user for an IdP identity: by linked subject, then by email within the tenant,
+   * then by just-in-time provisioning into the tenant's primary workspace. Provisioning needs
+   * claimed email domains and always creates employees.
+   */
+  async resolveUser(
+    tenantId: string,
+    config: SsoPublicConfig,
+    protocol: string,
+    issuer: string,
+    identity: SsoIdentity,
+  ): Promise<User> {
+    const linked = await ssoRepo.findIdentity(issuer, identity.subject);
+    if (linked) {
+      const user = await storage.getUser(linked.userId);
+      if (!user || user.tenantId !== tenantId) throw AppError.forbidden("This account is not part of this organization");
+      if (!user.isActive) throw AppError.forbidden("Account is deactivated");
+      await ssoRepo.touchIdentity(linked.id);
+      await recordAudit(tenantId, user.id, "sso_login", `${user.email} signed in with single sign-on`, { protocol });
+      return user;
+    }
+
+    if (!identity.emailVerified) throw AppError.forbidden("Your identity provider has not verified your email address");
+    if (config.emailDomains.length > 0 && !isEmailInDomains(identity.email, config.emailDomains)) {
+      throw AppError.forbidden(`${identity.email} is not in a domain this organization allows for single sign-on`);
+    }
+
+    let user = await storage.getUserByEmail(identity.email);
+    if (user) {
+      if (user.tenantId !== tenantId) throw AppError.forbidden("This account is not part of this organization");
+      if (!user.isActive) throw AppError.forbidden("Account is deactivated");
+    } else {
+      if (!config.allowJitProvisioning || config.emailDomains.length === 0) {
+        throw AppError.forbidden("You don't have an account yet. Ask your administrator for an invitation.");
+      }
+      const workspaceId = await storage.getPrimaryWorkspaceId(tenantId);
+      if (!workspaceId) throw AppError.internal("This organization has no workspace to join");
+      const [created] = await db.insert(users).values({
+        name: [identity.firstName, identity.lastName].filter(Boolean).join(" ") || identity.email.split("@")[0],
+        email: identity.email,
+        firstName: identity.firstName,
+        lastName: identity.lastName,
+        role: UserRole.EMPLOYEE,
+        tenantId,
+        isActive: true,
+      }).returning();
+      user = created;
+      await storage.addWorkspaceMember({ userId: user.id, workspaceId, role: "member" });
+      await recordAudit(tenantId, user.id, "sso_user_provisioned", `${user.email} joined through single sign-on`, { protocol, role: UserRole.EMPLOYEE });
+    }
+
+    await ssoRepo.createIdentity({ tenantId, userId: user.id, protocol, issuer, subject: identity.subject });
+    await recordAudit(tenantId, user.id, "sso_login", `${user.email} signed in with single sign-on`, { protocol });
+    return user;
+  },
+};
@@ -0,0 +1,142 @@
+/**
+ * Pure helpers for single sign-on: email-domain routing, mapping OIDC claims and SAML
+ * attributes to one identity shape, and the signed RelayState that carries the tenant
+ * through a SAML POST (the session cookie is SameSite=Lax, so the IdP's cross-site form
+ * post arrives without it).
+ */
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+export const RELAY_STATE_TTL_MS = 10 * 60 * 1000;
+
+export interface SsoIdentity {
+  /** OIDC `sub` or SAML NameID; stable per issuer. */
+  subject: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  /** False only when the IdP explicitly says the address is unverified. */
+  emailVerified: boolean;
+}
+
+export function emailDomain(email: string): string | null {
+  const at = email.lastIndexOf("@");
+  if (at < 1 || at === email.length - 1) return null;
+  return email.slice(at + 1).trim().toLowerCase();
+}
+
+/** Exact domain match; subdomains must be listed separately. */
+export function isEmailInDomains(email: string, domains: string[]): boolean {
+  const domain = emailDomain(email);
+  return !!domain && domains.some((d) => d.trim().toLowerCase() === domain);
+}
+
+function firstString(source: Record<string, unknown>, keys: string[]): string | null {
+  for (const key of keys) {
+    const value = source[key];
+    const candidate = Array.isArray(value) ? value[0] : value;
+    if (typeof candidate === "string" && candidate.trim()) return candidate.trim();
+  }
+  return null;
+}
+
+function splitName(name: string | null): { firstName: string | null; lastName: string | null } {
+  if (!name) return { firstName: null, lastName: null };
+  const [first, ...rest] = name.split(/\s+/);
+  return { firstName: first || null, lastName: rest.join(" ") || null };
+}
+
+export function mapOidcClaims(claims: Record<string, unknown>): SsoIdentity | null {
+  const subject = firstString(claims, ["sub"]);
+  const email = firstString(claims, ["email"]);
+  if (!subject || !email || !emailDomain(email)) return null;
+  const fallback = splitName(firstString(claims, ["name"]));
+  return {
+    subject,
+    email: email.toLowerCase(),
+    firstName: firstString(claims, ["given_name"]) ?? fallback.firstName,
+    lastName: firstString(claims, ["family_name"]) ?? fallback.lastName,
+    emailVerified: claims.email_verified !== false && claims.email_verified !== "false",
+  };
+}
+
+const SAML_EMAIL_ATTRIBUTES = [
+  "email",
+  "mail",
+  "emailAddress",
+  "http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress",
+  "urn:oid:0.9.2342.19200300.100.1.3",
+];
+const SAML_FIRST_NAME_ATTRIBUTES = [
+  "firstName",
+  "givenName",
+  "http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname",
+  "urn:oid:2.5.4.42",
+];
+const SAML_LAST_NAME_ATTRIBUTES = [
+  "lastName",
+  "sn",
+  "surname",
+  "http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname",
+  "urn:oid:2.5.4.4",
+];
+
+/** Maps a validated SAML profile; falls back to the NameID when it is an email address. */
+export function mapSamlProfile(profile: Record<string, unknown>): SsoIdentity | null {
+  const subject = firstString(profile, ["nameID"]);
+  if (!subject) return null;
+  const email = firstString(profile, SAML_EMAIL_ATTRIBUTES) ?? (emailDomain(subject) ? subject : null);
+  if (!email || !emailDomain(email)) return null;
+  const fallback = splitName(firstString(profile, ["displayName", "http://schemas.microsoft.com/identity/claims/displayname"]));
+  return {
+    subject,
+    email: email.toLowerCase(),
+    firstName: firstString(profile, SAML_FIRST_NAME_ATTRIBUTES) ?? fallback.firstName,
+    lastName: firstString(profile, SAML_LAST_NAME_ATTRIBUTES) ?? fallback.lastName,
+    emailVerified: true,
+  };
+}
+
+function relaySignature(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+export interface RelayStateClaims {
+  tenantId: string;
+  /** Consumed at the ACS so each RelayState signs in once. */
+  nonce: string;
+  expiresAt: Date;
+}
+
+/** A new RelayState and the claims it carries. */
+export function issueRelayState(
+  tenantId: string,
+  secret: string,
+  now: Date = new Date(),
+): { value: string; claims: RelayStateClaims } {
+  const claims = { tenantId, nonce: randomBytes(16).toString("hex"), expiresAt: new Date(now.getTime() + RELAY_STATE_TTL_MS) };
+  const payload = Buffer.from(JSON.stringify({ t: claims.tenantId, n: claims.nonce, e: claims.expiresAt.getTime() }))
+    .toString("base64url");
+  return { value: `${payload}.${relaySignature(payload, secret)}`, claims };
+}
+
+/** `<payload>.<hmac>` naming the tenant, with a nonce and expiry. */
+export function signRelayState(tenantId: string, secret: string, now: Date = new Date()): string {
+  return issueRelayState(tenantId, secret, now).value;
+}
+
+/** Reads a RelayState this server issued; null if tampered or expired. */
+export function verifyRelayState(value: string, secret: string, now: Date = new Date()): RelayStateClaims | null {
+  const [payload, signature, ...rest] = value.split(".");
+  if (!payload || !signature || rest.length > 0) return null;
+  const expected = Buffer.from(relaySignature(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  try {
+    const decoded = JSON.parse(Buffer.from(payload, "base64url").toString()) as { t?: unknown; n?: unknown; e?: unknown };
+    if (typeof decoded.t !== "string" || typeof decoded.n !== "string" || !decoded.n) return null;
+    if (typeof decoded.e !== "number" || decoded.e < now.getTime()) return null;
+    return { tenantId: decoded.t, nonce: decoded.n, expiresAt: new Date(decoded.e) };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,103 @@
+import { and, desc, eq, sql } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  StatusChangeSource,
+  taskStatusHistory,
+  tasks,
+  users,
+  type InsertTaskStatusHistory,
+} from "@shared/schema";
+import { statusCategorySql, taskIsDone } from "../../reports/taskStatusSql";
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+function rowCount(result: unknown): number {
+  return (result as { rowCount?: number | null }).rowCount ?? 0;
+}
+
+export const statusHistoryRepo = {
+  async insert(values: InsertTaskStatusHistory[], executor: typeof db | Tx = db): Promise<void> {
+    if (values.length === 0) return;
+    await executor.insert(taskStatusHistory).values(values);
+  },
+
+  async listForTask(tenantId: string, taskId: string) {
+    return db
+      .select({
+        id: taskStatusHistory.id,
+        fromStatus: taskStatusHistory.fromStatus,
+        toStatus: taskStatusHistory.toStatus,
+        toCategory: taskStatusHistory.toCategory,
+        source: taskStatusHistory.source,
+        changedAt: taskStatusHistory.changedAt,
+        changedBy: taskStatusHistory.changedBy,
+        changedByName: users.name,
+      })
+      .from(taskStatusHistory)
+      .leftJoin(users, eq(users.id, taskStatusHistory.changedBy))
+      .where(and(eq(taskStatusHistory.tenantId, tenantId), eq(taskStatusHistory.taskId, taskId)))
+      .orderBy(desc(taskStatusHistory.changedAt));
+  },
+
+  /** Stamps a task created straight into a done status; updated_at is left alone. */
+  async setCompletedAt(taskId: string, completedAt: Date) {
+    const [row] = await db.update(tasks).set({ completedAt }).where(eq(tasks.id, taskId)).returning();
+    return row || null;
+  },
+
+  /**
+   * Copies `status_changed` and `completed` task entries from the activity log. Rows already
+   * copied (same task and time) are skipped, so this can be re-run.
+   */
+  async backfillFromActivityLog(dryRun = false): Promise<number> {
+    const source = sql`
+      SELECT t.tenant_id, t.id AS task_id, t.project_id, al.actor_user_id, al.created_at,
+        CASE WHEN al.action = 'status_changed' THEN al.diff_json->>'from' END AS from_status,
+        COALESCE(al.diff_json->>'to', 'done') AS to_status
+      FROM activity_log al
+      JOIN tasks t ON t.id = al.entity_id
+      WHERE al.entity_type = 'task'
+        AND t.tenant_id IS NOT NULL
+        AND (al.action = 'completed' OR (al.action = 'status_changed' AND al.diff_json->>'to' IS NOT NULL))
+        AND NOT EXISTS (
+          SELECT 1 FROM task_status_history h
+          WHERE h.task_id = t.id AND h.changed_at = al.created_at AND h.source = ${StatusChangeSource.BACKFILL}
+        )
+    `;
+    if (dryRun) {
+      const result = await db.execute(sql`SELECT COUNT(*)::int AS total FROM (${source}) src`);
+      return Number((result.rows[0] as { total?: number } | undefined)?.total ?? 0);
+    }
+    const result = await db.execute(sql`
+      WITH src AS (${source})
+      INSERT INTO task_status_history
+        (tenant_id, task_id, from_status, to_status, to_category, changed_by, source, changed_at)
+      SELECT src.tenant_id, src.task_id, src.from_status, src.to_status,
+        ${statusCategorySql(sql.raw("src.to_status"), sql.raw("src.project_id"))},
+        src.actor_user_id, ${StatusChangeSource.BACKFILL}, src.created_at
+      FROM src
+    `);
+    return rowCount(result);
+  },
+
+  /**
+   * Sets completed_at on done tasks that lack it: the last recorded move into a done status,
+   * else updated_at (the old proxy).
+   */
+  async backfillCompletedAt(dryRun = false): Promise<number> {
+    if (dryRun) {
+      const result = await db.execute(sql`
+        SELECT COUNT(*)::int AS total FROM tasks t WHERE t.completed_at IS NULL AND ${taskIsDone()}
+      `);
+      return Number((result.rows[0] as { total?: number } | undefined)?.total ?? 0);
+    }
+    const result = await db.execute(sql`
+      UPDATE tasks t SET completed_at = COALESCE(
+        (SELECT MAX(h.changed_at) FROM task_status_history h WHERE h.task_id = t.id AND h.to_category = 'done'),
+        t.updated_at
+      )
+      WHERE t.completed_at IS NULL AND ${taskIsDone()}
+    `);
+    return rowCount(result);
+  },
+};
@@ -0,0 +1,50 @@
+import {
+  StatusCategory,
+  StatusChangeSource,
+  type StatusCategoryValue,
+  type StatusChangeSourceValue,
+  type Task,
+} from "@shared/schema";
+import { statusHistoryRepo } from "./statusHistory.repo";
+
+export interface StatusChange {
+  taskId: string;
+  fromStatus: string | null;
+  toStatus: string;
+  toCategory: StatusCategoryValue;
+  changedBy: string | null;
+}
+
+/**
+ * completed_at after a move between categories: stamped on entering done, kept while staying
+ * done, cleared on leaving done.
+ */
+export function nextCompletedAt(
+  fromCategory: StatusCategoryValue,
+  toCategory: StatusCategoryValue,
+  current: Date | null,
+  now = new Date(),
+): Date | null {
+  if (toCategory !== StatusCategory.DONE) return null;
+  return fromCategory === StatusCategory.DONE && current ? current : now;
+}
+
+export const statusHistoryService = {
+  async recordChange(
+    tenantId: string,
+    change: StatusChange,
+    source: StatusChangeSourceValue = StatusChangeSource.USER,
+  ): Promise<void> {
+    await statusHistoryRepo.insert([{ tenantId, ...change, source }]);
+  },
+
+  /** Stamps completed_at on a task that was created in a done status. */
+  async onTaskCreated(task: Task, category: StatusCategoryValue): Promise<Task> {
+    if (category !== StatusCategory.DONE || task.completedAt) return task;
+    return (await statusHistoryRepo.setCompletedAt(task.id, task.createdAt)) ?? task;
+  },
+
+  async listForTask(tenantId: string, taskId: string) {
+    return statusHistoryRepo.listForTask(tenantId, taskId);
+  },
+};
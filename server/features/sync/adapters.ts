@@ -0,0 +1,23 @@
+import { AppError } from "../../lib/errors";
+import { SyncProvider, type SyncProviderValue } from "@shared/schema";
+import type { SyncAdapter, SyncAdapterFactory } from "./syncAdapter";
+import { createAsanaSyncAdapterForTenant } from "./asanaSyncAdapter";
+
+// Jira, Trello and Linear plug in here once they have an adapter
+const adapterFactories: Partial<Record<SyncProviderValue, SyncAdapterFactory>> = {
+  [SyncProvider.ASANA]: createAsanaSyncAdapterForTenant,
+};
+
+export function isSyncProvider(value: string): value is SyncProviderValue {
+  return (Object.values(SyncProvider) as string[]).includes(value);
+}
+
+export function isSyncProviderSupported(provider: SyncProviderValue): boolean {
+  return !!adapterFactories[provider];
+}
+
+export async function getSyncAdapter(tenantId: string, provider: SyncProviderValue): Promise<SyncAdapter> {
+  const factory = adapterFactories[provider];
+  if (!factory) throw AppError.badRequest(`Sync with ${provider} is not available yet`);
+  return factory(tenantId);
+}
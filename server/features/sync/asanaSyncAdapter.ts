@@ -0,0 +1,61 @@
+import { SyncProvider } from "@shared/schema";
+import { AsanaClient, type AsanaTask, type AsanaTaskUpdate } from "../../services/asana/asanaClient";
+import type { RemoteTask, SyncAdapter } from "./syncAdapter";
+import type { SyncTaskValues } from "./syncMerge";
+
+// Asana's modified_since is compared against its own clock, so pulls overlap by this much
+const CURSOR_OVERLAP_MS = 60_000;
+
+type AsanaSyncClient = Pick<AsanaClient, "getTasksModifiedSince" | "getTask" | "updateTask">;
+
+export function toRemoteTask(task: AsanaTask, remoteProjectId?: string): RemoteTask {
+  const membership = task.memberships?.find((m) => !remoteProjectId || m.project.gid === remoteProjectId)
+    ?? task.memberships?.[0];
+  const modifiedAt = task.modified_at ? new Date(task.modified_at) : new Date();
+  return {
+    remoteId: task.gid,
+    remoteProjectId: remoteProjectId ?? membership?.project.gid ?? "",
+    remoteSectionId: membership?.section?.gid ?? null,
+    parentRemoteId: task.parent?.gid ?? null,
+    values: {
+      title: task.name,
+      description: task.notes || null,
+      completed: task.completed,
+      dueDate: task.due_on ?? null,
+    },
+    modifiedAt: isNaN(modifiedAt.getTime()) ? new Date() : modifiedAt,
+  };
+}
+
+export function toAsanaTaskUpdate(changes: Partial<SyncTaskValues>): AsanaTaskUpdate {
+  const update: AsanaTaskUpdate = {};
+  if (changes.title !== undefined) update.name = changes.title;
+  if (changes.description !== undefined) update.notes = changes.description ?? "";
+  if (changes.completed !== undefined) update.completed = changes.completed;
+  if (changes.dueDate !== undefined) update.due_on = changes.dueDate;
+  return update;
+}
+
+export function createAsanaSyncAdapter(client: AsanaSyncClient, now: () => Date = () => new Date()): SyncAdapter {
+  return {
+    provider: SyncProvider.ASANA,
+
+    async listChangedTasks(remoteProjectId, cursor) {
+      const cursorTime = new Date(now().getTime() - CURSOR_OVERLAP_MS).toISOString();
+      const tasks = await client.getTasksModifiedSince(remoteProjectId, cursor);
+      return { tasks: tasks.map((task) => toRemoteTask(task, remoteProjectId)), cursor: cursorTime };
+    },
+
+    async getTask(remoteId) {
+      return toRemoteTask(await client.getTask(remoteId));
+    },
+
+    async updateTask(remoteId, changes) {
+      return toRemoteTask(await client.updateTask(remoteId, toAsanaTaskUpdate(changes)));
+    },
+  };
+}
+
+export async function createAsanaSyncAdapterForTenant(tenantId: string): Promise<SyncAdapter> {
+  return createAsanaSyncAdapter(await AsanaClient.fromTenant(tenantId));
+}
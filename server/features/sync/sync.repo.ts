@@ -0,0 +1,206 @@
+import { and, desc, eq, gt, inArray, sql } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  integrationEntityMap,
+  projects,
+  syncConnections,
+  syncRuns,
+  tasks,
+  type IntegrationEntityMapRow,
+  type SyncConnection,
+  type SyncRun,
+} from "@shared/schema";
+import type { SyncTaskValues } from "./syncMerge";
+
+export type SyncConnectionUpdate = Partial<Omit<SyncConnection, "id" | "tenantId" | "provider" | "createdAt">>;
+export type SyncRunUpdate = Partial<Omit<SyncRun, "id" | "tenantId" | "connectionId" | "trigger" | "startedAt">>;
+
+/** What integrationEntityMap.metadata.sync holds for a synced task. */
+export interface SyncTaskSnapshot {
+  values: SyncTaskValues;
+  remoteModifiedAt: string;
+}
+
+export const syncRepo = {
+  async listConnections(tenantId: string) {
+    return db.select().from(syncConnections).where(eq(syncConnections.tenantId, tenantId));
+  },
+
+  async getConnection(tenantId: string, provider: string) {
+    const [row] = await db
+      .select()
+      .from(syncConnections)
+      .where(and(eq(syncConnections.tenantId, tenantId), eq(syncConnections.provider, provider)));
+    return row || null;
+  },
+
+  async getConnectionById(id: string, tenantId: string) {
+    const [row] = await db
+      .select()
+      .from(syncConnections)
+      .where(and(eq(syncConnections.id, id), eq(syncConnections.tenantId, tenantId)));
+    return row || null;
+  },
+
+  async createConnection(input: typeof syncConnections.$inferInsert) {
+    const [row] = await db.insert(syncConnections).values(input).returning();
+    return row;
+  },
+
+  async updateConnection(id: string, tenantId: string, updates: SyncConnectionUpdate) {
+    const [row] = await db
+      .update(syncConnections)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(syncConnections.id, id), eq(syncConnections.tenantId, tenantId)))
+      .returning();
+    return row || null;
+  },
+
+  async deleteConnection(id: string, tenantId: string) {
+    await db.delete(syncConnections).where(and(eq(syncConnections.id, id), eq(syncConnections.tenantId, tenantId)));
+  },
+
+  /** Claims the scheduled run; null when the connection was rescheduled, disabled or deleted meanwhile. */
+  async claimScheduledRun(id: string, tenantId: string, jobId: string) {
+    const [row] = await db
+      .update(syncConnections)
+      .set({ scheduledJobId: null, nextRunAt: null, updatedAt: new Date() })
+      .where(and(
+        eq(syncConnections.id, id),
+        eq(syncConnections.tenantId, tenantId),
+        eq(syncConnections.scheduledJobId, jobId),
+      ))
+      .returning();
+    return row || null;
+  },
+
+  async createRun(input: typeof syncRuns.$inferInsert) {
+    const [row] = await db.insert(syncRuns).values(input).returning();
+    return row;
+  },
+
+  async updateRun(id: string, updates: SyncRunUpdate) {
+    const [row] = await db.update(syncRuns).set(updates).where(eq(syncRuns.id, id)).returning();
+    return row || null;
+  },
+
+  async listRuns(connectionId: string, tenantId: string, limit: number) {
+    return db
+      .select()
+      .from(syncRuns)
+      .where(and(eq(syncRuns.connectionId, connectionId), eq(syncRuns.tenantId, tenantId)))
+      .orderBy(desc(syncRuns.startedAt))
+      .limit(limit);
+  },
+
+  async countMappedTasks(tenantId: string, provider: string): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(integrationEntityMap)
+      .where(and(
+        eq(integrationEntityMap.tenantId, tenantId),
+        eq(integrationEntityMap.provider, provider),
+        eq(integrationEntityMap.entityType, "task"),
+      ));
+    return row?.count ?? 0;
+  },
+
+  async getMapping(tenantId: string, provider: string, entityType: string, providerEntityId: string) {
+    const [row] = await db
+      .select()
+      .from(integrationEntityMap)
+      .where(and(
+        eq(integrationEntityMap.tenantId, tenantId),
+        eq(integrationEntityMap.provider, provider),
+        eq(integrationEntityMap.entityType, entityType),
+        eq(integrationEntityMap.providerEntityId, providerEntityId),
+      ))
+      .limit(1);
+    return row || null;
+  },
+
+  /** Records the values both sides agree on; bumps updatedAt, which marks the task as synced. */
+  async saveTaskSnapshot(
+    tenantId: string,
+    provider: string,
+    remoteId: string,
+    localTaskId: string,
+    snapshot: SyncTaskSnapshot,
+    previous: IntegrationEntityMapRow | null,
+  ): Promise<void> {
+    const metadata = { ...((previous?.metadata as Record<string, unknown> | null) ?? {}), name: snapshot.values.title, sync: snapshot };
+    await db
+      .insert(integrationEntityMap)
+      .values({ tenantId, provider, entityType: "task", providerEntityId: remoteId, localEntityId: localTaskId, metadata })
+      .onConflictDoUpdate({
+        target: [integrationEntityMap.tenantId, integrationEntityMap.provider, integrationEntityMap.entityType, integrationEntityMap.providerEntityId],
+        set: { localEntityId: localTaskId, metadata, updatedAt: new Date() },
+      });
+  },
+
+  /** Imported remote projects with their local project names. */
+  async listMappedProjects(tenantId: string, provider: string) {
+    return db
+      .select({
+        remoteProjectId: integrationEntityMap.providerEntityId,
+        localProjectId: projects.id,
+        name: projects.name,
+      })
+      .from(integrationEntityMap)
+      .innerJoin(projects, eq(projects.id, integrationEntityMap.localEntityId))
+      .where(and(
+        eq(integrationEntityMap.tenantId, tenantId),
+        eq(integrationEntityMap.provider, provider),
+        eq(integrationEntityMap.entityType, "project"),
+      ))
+      .orderBy(projects.name);
+  },
+
+  /** Synced tasks edited locally since their last sync, oldest edit first. */
+  async listLocallyChangedTasks(tenantId: string, provider: string, localProjectIds: string[], limit: number) {
+    if (localProjectIds.length === 0) return [];
+    return db
+      .select({ mapping: integrationEntityMap, task: tasks })
+      .from(integrationEntityMap)
+      .innerJoin(tasks, eq(tasks.id, integrationEntityMap.localEntityId))
+      .where(and(
+        eq(integrationEntityMap.tenantId, tenantId),
+        eq(integrationEntityMap.provider, provider),
+        eq(integrationEntityMap.entityType, "task"),
+        inArray(tasks.projectId, localProjectIds),
+        gt(tasks.updatedAt, integrationEntityMap.updatedAt),
+      ))
+      .orderBy(tasks.updatedAt)
+      .limit(limit);
+  },
+
+  async getTask(id: string, tenantId: string) {
+    const [row] = await db.select().from(tasks).where(and(eq(tasks.id, id), eq(tasks.tenantId, tenantId)));
+    return row || null;
+  },
+
+  async updateTask(id: string, tenantId: string, updates: Partial<typeof tasks.$inferInsert>) {
+    const [row] = await db
+      .update(tasks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(tasks.id, id), eq(tasks.tenantId, tenantId)))
+      .returning();
+    return row || null;
+  },
+
+  async createTask(input: typeof tasks.$inferInsert) {
+    const [row] = await db.insert(tasks).values(input).returning();
+    return row;
+  },
+
+  async nextOrderIndex(projectId: string, sectionId: string | null): Promise<number> {
+    const [row] = await db
+      .select({ max: sql<number | null>`max(${tasks.orderIndex})` })
+      .from(tasks)
+      .where(and(
+        eq(tasks.projectId, projectId),
+        sectionId ? eq(tasks.sectionId, sectionId) : sql`${tasks.sectionId} IS NULL`,
+      ));
+    return (row?.max ?? -1) + 1;
+  },
+};
@@ -0,0 +1,372 @@
+import { AppError } from "../../lib/errors";
+import { createLogger } from "../../lib/logger";
+import { cancelJob, enqueueJob } from "../../jobs/queue";
+import {
+  StatusChangeSource,
+  SyncDirection,
+  SyncProvider,
+  SyncRunStatus,
+  type IntegrationEntityMapRow,
+  type SyncConflictRecord,
+  type SyncConnection,
+  type SyncDirectionValue,
+  type SyncErrorRecord,
+  type SyncProviderValue,
+  type SyncRun,
+  type Task,
+  type UpsertSyncConnection,
+} from "@shared/schema";
+import { statusHistoryService } from "../statusHistory/statusHistory.service";
+import { workflowService } from "../workflows/workflow.service";
+import { getSyncAdapter, isSyncProviderSupported } from "./adapters";
+import type { RemoteTask, SyncAdapter } from "./syncAdapter";
+import { syncRepo, type SyncTaskSnapshot } from "./sync.repo";
+import {
+  fromSyncDate,
+  mergeTaskValues,
+  syncStatusMap,
+  taskSyncValues,
+  taskUpdateFromSync,
+  type SyncStatusMap,
+} from "./syncMerge";
+
+export const SYNC_JOB_TYPE = "task_sync";
+
+export type SyncTrigger = "schedule" | "manual";
+
+const log = createLogger("sync");
+
+const RUN_LOG_LIMIT = 50;
+const MAX_RECORDED_ITEMS = 50;
+const PUSH_BATCH_LIMIT = 200;
+// A run still marked running after this long is assumed to have died with its process
+const STALE_RUN_MS = 30 * 60 * 1000;
+
+export interface SyncProviderStatus {
+  provider: SyncProviderValue;
+  supported: boolean;
+  connection: SyncConnection | null;
+  lastRun: SyncRun | null;
+  mappedTasks: number;
+}
+
+interface RunTally {
+  createdCount: number;
+  pulledCount: number;
+  pushedCount: number;
+  conflictCount: number;
+  errorCount: number;
+  conflicts: SyncConflictRecord[];
+  errors: SyncErrorRecord[];
+}
+
+interface RunContext {
+  connection: SyncConnection;
+  adapter: SyncAdapter;
+  tally: RunTally;
+  /** Status maps by local project id, loaded once per run. */
+  statusMaps: Map<string, SyncStatusMap>;
+}
+
+async function statusMapFor(ctx: RunContext, projectId: string | null): Promise<SyncStatusMap> {
+  const key = projectId ?? "";
+  let map = ctx.statusMaps.get(key);
+  if (!map) {
+    map = syncStatusMap(await workflowService.statusesForProject(ctx.connection.tenantId, projectId));
+    ctx.statusMaps.set(key, map);
+  }
+  return map;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function recordError(tally: RunTally, error: SyncErrorRecord): void {
+  tally.errorCount++;
+  if (tally.errors.length < MAX_RECORDED_ITEMS) tally.errors.push(error);
+}
+
+async function getExisting(tenantId: string, provider: SyncProviderValue): Promise<SyncConnection> {
+  const connection = await syncRepo.getConnection(tenantId, provider);
+  if (!connection) throw AppError.notFound("Sync connection");
+  return connection;
+}
+
+async function scheduleNext(connection: SyncConnection, delayMs: number): Promise<SyncConnection> {
+  const runAfter = new Date(Date.now() + delayMs);
+  const jobId = await enqueueJob({
+    tenantId: connection.tenantId,
+    userId: connection.createdBy,
+    type: SYNC_JOB_TYPE,
+    payload: { connectionId: connection.id, trigger: "schedule" },
+    runAfter,
+  });
+  return (await syncRepo.updateConnection(connection.id, connection.tenantId, { scheduledJobId: jobId, nextRunAt: runAfter }))
+    ?? connection;
+}
+
+export const syncService = {
+  async listProviders(tenantId: string): Promise<SyncProviderStatus[]> {
+    const connections = await syncRepo.listConnections(tenantId);
+    return Promise.all(Object.values(SyncProvider).map(async (provider) => {
+      const connection = connections.find((c) => c.provider === provider) ?? null;
+      const [lastRun] = connection ? await syncRepo.listRuns(connection.id, tenantId, 1) : [];
+      return {
+        provider,
+        supported: isSyncProviderSupported(provider),
+        connection,
+        lastRun: lastRun ?? null,
+        mappedTasks: connection ? await syncRepo.countMappedTasks(tenantId, provider) : 0,
+      };
+    }));
+  },
+
+  /** Remote projects that can be synced: those already imported, so tasks have a local home. */
+  listSyncableProjects(tenantId: string, provider: SyncProviderValue) {
+    return syncRepo.listMappedProjects(tenantId, provider);
+  },
+
+  async upsertConnection(
+    tenantId: string,
+    userId: string,
+    provider: SyncProviderValue,
+    data: UpsertSyncConnection,
+  ): Promise<SyncConnection> {
+    if (!isSyncProviderSupported(provider)) {
+      throw AppError.badRequest(`Sync with ${provider} is not available yet`);
+    }
+    try {
+      await getSyncAdapter(tenantId, provider);
+    } catch (err) {
+      throw err instanceof AppError ? err : AppError.badRequest(errorMessage(err));
+    }
+
+    if (data.remoteProjectIds) {
+      const mapped = new Set((await syncRepo.listMappedProjects(tenantId, provider)).map((p) => p.remoteProjectId));
+      const unknown = data.remoteProjectIds.filter((id) => !mapped.has(id));
+      if (unknown.length > 0) {
+        throw AppError.badRequest(`Import these projects before syncing them: ${unknown.join(", ")}`);
+      }
+    }
+
+    const existing = await syncRepo.getConnection(tenantId, provider);
+    let connection: SyncConnection;
+    if (existing) {
+      const remoteProjectIds = data.remoteProjectIds ?? existing.remoteProjectIds;
+      // Projects dropped from the sync lose their watermark, so re-adding one starts with a full pull
+      const cursor = Object.fromEntries(
+        Object.entries(existing.cursor).filter(([remoteProjectId]) => remoteProjectIds.includes(remoteProjectId)),
+      );
+      connection = (await syncRepo.updateConnection(existing.id, tenantId, { ...data, remoteProjectIds, cursor })) ?? existing;
+      if (existing.scheduledJobId) await cancelJob(existing.scheduledJobId);
+    } else {
+      connection = await syncRepo.createConnection({ tenantId, provider, createdBy: userId, ...data });
+    }
+
+    if (connection.isEnabled) return scheduleNext(connection, 0);
+    return (await syncRepo.updateConnection(connection.id, tenantId, { scheduledJobId: null, nextRunAt: null })) ?? connection;
+  },
+
+  async deleteConnection(tenantId: string, provider: SyncProviderValue): Promise<void> {
+    const connection = await getExisting(tenantId, provider);
+    if (connection.scheduledJobId) await cancelJob(connection.scheduledJobId);
+    await syncRepo.deleteConnection(connection.id, tenantId);
+  },
+
+  async listRuns(tenantId: string, provider: SyncProviderValue, limit = RUN_LOG_LIMIT): Promise<SyncRun[]> {
+    const connection = await getExisting(tenantId, provider);
+    return syncRepo.listRuns(connection.id, tenantId, Math.min(Math.max(limit, 1), RUN_LOG_LIMIT));
+  },
+
+  async runNow(tenantId: string, userId: string, provider: SyncProviderValue): Promise<{ jobId: string }> {
+    const connection = await getExisting(tenantId, provider);
+    if (!connection.isEnabled) throw AppError.badRequest("Enable the sync connection first");
+    const jobId = await enqueueJob({
+      tenantId,
+      userId,
+      type: SYNC_JOB_TYPE,
+      payload: { connectionId: connection.id, trigger: "manual" },
+    });
+    return { jobId };
+  },
+
+  /** Job entry point. Scheduled runs book the next one when done; manual runs leave the schedule alone. */
+  async runJob(tenantId: string, connectionId: string, jobId: string, trigger: SyncTrigger): Promise<SyncRun | null> {
+    if (trigger === "manual") {
+      const connection = await syncRepo.getConnectionById(connectionId, tenantId);
+      return connection ? runSync(connection, trigger) : null;
+    }
+
+    const claimed = await syncRepo.claimScheduledRun(connectionId, tenantId, jobId);
+    if (!claimed || !claimed.isEnabled) return null;
+    try {
+      return await runSync(claimed, trigger);
+    } finally {
+      const current = await syncRepo.getConnectionById(connectionId, tenantId);
+      if (current?.isEnabled && !current.scheduledJobId) {
+        await scheduleNext(current, current.pollIntervalMinutes * 60_000);
+      }
+    }
+  },
+};
+
+/**
+ * One pass over a connection: pull remote changes per project (creating local tasks for new
+ * remote ones), then push tasks edited locally since their last sync. Per-task failures are
+ * logged on the run and the pass continues.
+ */
+async function runSync(connection: SyncConnection, trigger: SyncTrigger): Promise<SyncRun | null> {
+  const { tenantId } = connection;
+  const [latest] = await syncRepo.listRuns(connection.id, tenantId, 1);
+  if (latest?.status === SyncRunStatus.RUNNING && Date.now() - latest.startedAt.getTime() < STALE_RUN_MS) {
+    log.info("Sync already running, skipping", { tenantId, provider: connection.provider });
+    return null;
+  }
+
+  const run = await syncRepo.createRun({ tenantId, connectionId: connection.id, trigger });
+  const tally: RunTally = {
+    createdCount: 0, pulledCount: 0, pushedCount: 0, conflictCount: 0, errorCount: 0, conflicts: [], errors: [],
+  };
+
+  try {
+    const adapter = await getSyncAdapter(tenantId, connection.provider as SyncProviderValue);
+    const ctx: RunContext = { connection, adapter, tally, statusMaps: new Map() };
+    const mappedProjects = await syncRepo.listMappedProjects(tenantId, connection.provider);
+    const localProjectIds: string[] = [];
+    const cursor = { ...connection.cursor };
+    const reconciled = new Set<string>();
+
+    for (const remoteProjectId of connection.remoteProjectIds) {
+      const project = mappedProjects.find((p) => p.remoteProjectId === remoteProjectId);
+      if (!project) {
+        recordError(tally, { remoteId: remoteProjectId, localTaskId: null, message: "Project is no longer mapped to a local project" });
+        continue;
+      }
+      localProjectIds.push(project.localProjectId);
+      try {
+        const page = await adapter.listChangedTasks(remoteProjectId, cursor[remoteProjectId] ?? null);
+        for (const remote of page.tasks) {
+          if (remote.parentRemoteId) continue;
+          reconciled.add(remote.remoteId);
+          try {
+            await pullTask(ctx, remote, project.localProjectId);
+          } catch (err) {
+            recordError(tally, { remoteId: remote.remoteId, localTaskId: null, message: errorMessage(err) });
+          }
+        }
+        cursor[remoteProjectId] = page.cursor;
+      } catch (err) {
+        recordError(tally, { remoteId: remoteProjectId, localTaskId: null, message: errorMessage(err) });
+      }
+    }
+
+    if (connection.direction !== SyncDirection.PULL) {
+      const changed = await syncRepo.listLocallyChangedTasks(tenantId, connection.provider, localProjectIds, PUSH_BATCH_LIMIT);
+      for (const { mapping, task } of changed) {
+        if (reconciled.has(mapping.providerEntityId)) continue;
+        try {
+          await reconcileTask(ctx, await adapter.getTask(mapping.providerEntityId), mapping, task);
+        } catch (err) {
+          recordError(tally, { remoteId: mapping.providerEntityId, localTaskId: task.id, message: errorMessage(err) });
+        }
+      }
+    }
+
+    const finishedAt = new Date();
+    await syncRepo.updateConnection(connection.id, tenantId, {
+      cursor,
+      lastRunAt: finishedAt,
+      lastSuccessAt: finishedAt,
+      lastError: tally.errorCount > 0 ? `${tally.errorCount} item(s) failed to sync` : null,
+    });
+    return syncRepo.updateRun(run.id, { ...tally, status: SyncRunStatus.SUCCEEDED, finishedAt });
+  } catch (err) {
+    const message = errorMessage(err);
+    log.warn("Sync run failed", { tenantId, provider: connection.provider, error: message });
+    const finishedAt = new Date();
+    await syncRepo.updateConnection(connection.id, tenantId, { lastRunAt: finishedAt, lastError: message });
+    return syncRepo.updateRun(run.id, { ...tally, status: SyncRunStatus.FAILED, error: message, finishedAt });
+  }
+}
+
+async function pullTask(ctx: RunContext, remote: RemoteTask, localProjectId: string): Promise<void> {
+  const { connection } = ctx;
+  const mapping = await syncRepo.getMapping(connection.tenantId, connection.provider, "task", remote.remoteId);
+  const task = mapping ? await syncRepo.getTask(mapping.localEntityId, connection.tenantId) : null;
+  if (mapping && task) {
+    await reconcileTask(ctx, remote, mapping, task);
+    return;
+  }
+  // Push-only connections never bring remote tasks in
+  if (connection.direction === SyncDirection.PUSH) return;
+
+  const sectionMapping = remote.remoteSectionId
+    ? await syncRepo.getMapping(connection.tenantId, connection.provider, "section", remote.remoteSectionId)
+    : null;
+  const sectionId = sectionMapping?.localEntityId ?? null;
+  const statuses = await statusMapFor(ctx, localProjectId);
+  const created = await syncRepo.createTask({
+    tenantId: connection.tenantId,
+    projectId: localProjectId,
+    sectionId,
+    title: remote.values.title,
+    description: remote.values.description,
+    status: remote.values.completed ? statuses.doneStatus : statuses.openStatus,
+    dueDate: fromSyncDate(remote.values.dueDate),
+    completedAt: remote.values.completed ? new Date() : null,
+    createdBy: connection.createdBy,
+    orderIndex: await syncRepo.nextOrderIndex(localProjectId, sectionId),
+  });
+  await syncRepo.saveTaskSnapshot(connection.tenantId, connection.provider, remote.remoteId, created.id, {
+    values: remote.values,
+    remoteModifiedAt: remote.modifiedAt.toISOString(),
+  }, mapping);
+  ctx.tally.createdCount++;
+}
+
+async function reconcileTask(ctx: RunContext, remote: RemoteTask, mapping: IntegrationEntityMapRow, task: Task): Promise<void> {
+  const { connection, adapter, tally } = ctx;
+  const previous = (mapping.metadata as { sync?: SyncTaskSnapshot } | null)?.sync ?? null;
+  const statuses = await statusMapFor(ctx, task.projectId);
+  const result = mergeTaskValues({
+    base: previous?.values ?? null,
+    local: taskSyncValues(task, statuses),
+    localModifiedAt: task.updatedAt,
+    remote: remote.values,
+    remoteModifiedAt: remote.modifiedAt,
+    rules: connection.fieldRules,
+    direction: connection.direction as SyncDirectionValue,
+  });
+
+  if (Object.keys(result.toLocal).length > 0) {
+    const update = taskUpdateFromSync(task, result.toLocal, statuses);
+    await syncRepo.updateTask(task.id, connection.tenantId, update);
+    if (update.status) {
+      await statusHistoryService.recordChange(connection.tenantId, {
+        taskId: task.id,
+        fromStatus: task.status,
+        toStatus: update.status,
+        toCategory: statuses.categoryOf(update.status),
+        changedBy: null,
+      }, StatusChangeSource.SYNC);
+    }
+    tally.pulledCount++;
+  }
+  let remoteModifiedAt = remote.modifiedAt;
+  if (Object.keys(result.toRemote).length > 0) {
+    remoteModifiedAt = (await adapter.updateTask(remote.remoteId, result.toRemote)).modifiedAt;
+    tally.pushedCount++;
+  }
+  for (const conflict of result.conflicts) {
+    tally.conflictCount++;
+    if (tally.conflicts.length < MAX_RECORDED_ITEMS) {
+      tally.conflicts.push({ ...conflict, localTaskId: task.id, remoteId: remote.remoteId });
+    }
+  }
+
+  await syncRepo.saveTaskSnapshot(connection.tenantId, connection.provider, remote.remoteId, task.id, {
+    values: result.merged,
+    remoteModifiedAt: remoteModifiedAt.toISOString(),
+  }, mapping);
+}
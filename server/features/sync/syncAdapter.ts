@@ -0,0 +1,34 @@
+import type { SyncProviderValue } from "@shared/schema";
+import type { SyncTaskValues } from "./syncMerge";
+
+/** A task as an adapter reports it, normalized to the synced fields. */
+export interface RemoteTask {
+  remoteId: string;
+  remoteProjectId: string;
+  /** The remote section/column/status list the task sits in, when the provider has one. */
+  remoteSectionId: string | null;
+  /** Set for remote subtasks, which are not synced. */
+  parentRemoteId: string | null;
+  values: SyncTaskValues;
+  modifiedAt: Date;
+}
+
+export interface RemoteChangePage {
+  tasks: RemoteTask[];
+  /** Opaque watermark to pass to the next listChangedTasks call for the same project. */
+  cursor: string;
+}
+
+/**
+ * Everything the sync engine needs from a provider. Adapters translate between the provider's
+ * API and RemoteTask and own rate limiting and retries; they never touch the database.
+ */
+export interface SyncAdapter {
+  readonly provider: SyncProviderValue;
+  /** Tasks in a remote project changed since the cursor, or all of them for a null cursor. */
+  listChangedTasks(remoteProjectId: string, cursor: string | null): Promise<RemoteChangePage>;
+  getTask(remoteId: string): Promise<RemoteTask>;
+  updateTask(remoteId: string, changes: Partial<SyncTaskValues>): Promise<RemoteTask>;
+}
+
+export type SyncAdapterFactory = (tenantId: string) => Promise<SyncAdapter>;
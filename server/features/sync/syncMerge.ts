@@ -0,0 +1,153 @@
+import {
+  SYNC_TASK_FIELDS,
+  StatusCategory,
+  SyncDirection,
+  SyncFieldRule,
+  type StatusCategoryValue,
+  type SyncConflictRecord,
+  type SyncDirectionValue,
+  type SyncFieldRuleValue,
+  type SyncTaskField,
+  type Task,
+} from "@shared/schema";
+import { statusCategory, type WorkflowStatusRule } from "../workflows/workflowRules";
+
+/** The task fields kept in sync, in a provider-neutral shape. Dates are YYYY-MM-DD. */
+export interface SyncTaskValues {
+  title: string;
+  description: string | null;
+  completed: boolean;
+  dueDate: string | null;
+}
+
+/** How `completed` maps onto one project's statuses. */
+export interface SyncStatusMap {
+  categoryOf(status: string): StatusCategoryValue;
+  /** Status a task moves to when completed on the remote side. */
+  doneStatus: string;
+  /** Status a task moves to when reopened on the remote side. */
+  openStatus: string;
+}
+
+/** Status map for a project's workflow statuses, or the built-in statuses when null. */
+export function syncStatusMap(statuses: WorkflowStatusRule[] | null): SyncStatusMap {
+  const list = statuses ?? [];
+  return {
+    categoryOf: (status) => statusCategory(status, statuses),
+    doneStatus: list.find((s) => s.category === StatusCategory.DONE)?.key ?? "done",
+    openStatus: (list.find((s) => s.category === StatusCategory.NOT_STARTED) ?? list[0])?.key ?? "todo",
+  };
+}
+
+export type SyncFieldRules = Partial<Record<SyncTaskField, SyncFieldRuleValue>>;
+
+export interface MergeInput {
+  /** Values both sides agreed on at the last sync; null before the first one. */
+  base: SyncTaskValues | null;
+  local: SyncTaskValues;
+  localModifiedAt: Date;
+  remote: SyncTaskValues;
+  remoteModifiedAt: Date;
+  rules: SyncFieldRules;
+  direction: SyncDirectionValue;
+}
+
+export interface MergeResult {
+  merged: SyncTaskValues;
+  toLocal: Partial<SyncTaskValues>;
+  toRemote: Partial<SyncTaskValues>;
+  conflicts: Array<Omit<SyncConflictRecord, "localTaskId" | "remoteId">>;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return (a ?? null) === (b ?? null);
+}
+
+/**
+ * Three-way merge of one task. A field edited on one side since `base` flows to the other;
+ * a field edited on both sides is a conflict, won by the newer side under last-writer-wins
+ * (ties go local). Local-authoritative fields always keep the local value, and PULL/PUSH
+ * directions make the remote/local side win every differing field.
+ */
+export function mergeTaskValues(input: MergeInput): MergeResult {
+  const { base, local, remote } = input;
+  const merged = { ...local };
+  const toLocal: Partial<SyncTaskValues> = {};
+  const toRemote: Partial<SyncTaskValues> = {};
+  const conflicts: MergeResult["conflicts"] = [];
+
+  for (const field of SYNC_TASK_FIELDS) {
+    if (sameValue(local[field], remote[field])) continue;
+
+    const localChanged = !base || !sameValue(local[field], base[field]);
+    const remoteChanged = !base || !sameValue(remote[field], base[field]);
+    const rule = input.rules[field] ?? SyncFieldRule.LAST_WRITER_WINS;
+
+    let winner: "local" | "remote";
+    if (input.direction === SyncDirection.PULL) {
+      winner = "remote";
+    } else if (input.direction === SyncDirection.PUSH || rule === SyncFieldRule.LOCAL_AUTHORITATIVE) {
+      winner = "local";
+    } else if (localChanged && remoteChanged) {
+      winner = input.remoteModifiedAt.getTime() > input.localModifiedAt.getTime() ? "remote" : "local";
+    } else {
+      winner = remoteChanged ? "remote" : "local";
+    }
+
+    if (localChanged && remoteChanged) {
+      conflicts.push({ field, localValue: local[field], remoteValue: remote[field], winner });
+    }
+    if (winner === "remote") {
+      (merged as Record<SyncTaskField, unknown>)[field] = remote[field];
+      (toLocal as Record<SyncTaskField, unknown>)[field] = remote[field];
+    } else {
+      (toRemote as Record<SyncTaskField, unknown>)[field] = local[field];
+    }
+  }
+
+  return { merged, toLocal, toRemote, conflicts };
+}
+
+export function toSyncDate(date: Date | null | undefined): string | null {
+  return date ? date.toISOString().slice(0, 10) : null;
+}
+
+export function fromSyncDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function taskSyncValues(
+  task: Pick<Task, "title" | "description" | "status" | "dueDate">,
+  statuses: SyncStatusMap,
+): SyncTaskValues {
+  return {
+    title: task.title,
+    description: task.description || null,
+    completed: statuses.categoryOf(task.status) === StatusCategory.DONE,
+    dueDate: toSyncDate(task.dueDate),
+  };
+}
+
+/** The task columns to write for values that came from the remote side. */
+export function taskUpdateFromSync(
+  task: Pick<Task, "status">,
+  changes: Partial<SyncTaskValues>,
+  statuses: SyncStatusMap,
+  now = new Date(),
+): Partial<Pick<Task, "title" | "description" | "status" | "dueDate" | "completedAt">> {
+  const update: Partial<Pick<Task, "title" | "description" | "status" | "dueDate" | "completedAt">> = {};
+  if (changes.title !== undefined) update.title = changes.title;
+  if (changes.description !== undefined) update.description = changes.description;
+  if (changes.dueDate !== undefined) update.dueDate = fromSyncDate(changes.dueDate);
+  const isDone = statuses.categoryOf(task.status) === StatusCategory.DONE;
+  if (changes.completed === true && !isDone) {
+    update.status = statuses.doneStatus;
+    update.completedAt = now;
+  } else if (changes.completed === false && isDone) {
+    update.status = statuses.openStatus;
+    update.completedAt = null;
+  }
+  return update;
+}
@@ -0,0 +1,128 @@
+import { eq, and, or, inArray, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { db } from "../../db";
+import { tasks, taskDependencies, type InsertTaskDependency } from "@shared/schema";
+
+const predecessorTask = alias(tasks, "predecessor_task");
+const successorTask = alias(tasks, "successor_task");
+
+const linkedTaskColumns = (t: typeof predecessorTask | typeof successorTask) => ({
+  id: t.id,
+  title: t.title,
+  status: t.status,
+  projectId: t.projectId,
+  startDate: t.startDate,
+  dueDate: t.dueDate,
+});
+
+export const taskDependencyRepo = {
+  async getById(id: string, tenantId: string) {
+    const [row] = await db
+      .select()
+      .from(taskDependencies)
+      .where(and(eq(taskDependencies.id, id), eq(taskDependencies.tenantId, tenantId)));
+    return row || null;
+  },
+
+  /** Links touching a single task, with a summary of the task on the other end. */
+  async listForTask(tenantId: string, taskId: string) {
+    const blockedBy = await db
+      .select({ dependency: taskDependencies, task: linkedTaskColumns(predecessorTask) })
+      .from(taskDependencies)
+      .innerJoin(predecessorTask, eq(predecessorTask.id, taskDependencies.predecessorTaskId))
+      .where(and(eq(taskDependencies.tenantId, tenantId), eq(taskDependencies.successorTaskId, taskId)));
+
+    const blocking = await db
+      .select({ dependency: taskDependencies, task: linkedTaskColumns(successorTask) })
+      .from(taskDependencies)
+      .innerJoin(successorTask, eq(successorTask.id, taskDependencies.successorTaskId))
+      .where(and(eq(taskDependencies.tenantId, tenantId), eq(taskDependencies.predecessorTaskId, taskId)));
+
+    return { blockedBy, blocking };
+  },
+
+  /** Every link where either end belongs to the project (cross-project links included). */
+  async listForProject(tenantId: string, projectId: string) {
+    return db
+      .select({ dependency: taskDependencies })
+      .from(taskDependencies)
+      .innerJoin(predecessorTask, eq(predecessorTask.id, taskDependencies.predecessorTaskId))
+      .innerJoin(successorTask, eq(successorTask.id, taskDependencies.successorTaskId))
+      .where(and(
+        eq(taskDependencies.tenantId, tenantId),
+        or(eq(predecessorTask.projectId, projectId), eq(successorTask.projectId, projectId)),
+      ))
+      .then((rows) => rows.map((r) => r.dependency));
+  },
+
+  async findLink(tenantId: string, predecessorTaskId: string, successorTaskId: string) {
+    const [row] = await db
+      .select()
+      .from(taskDependencies)
+      .where(and(
+        eq(taskDependencies.tenantId, tenantId),
+        eq(taskDependencies.predecessorTaskId, predecessorTaskId),
+        eq(taskDependencies.successorTaskId, successorTaskId),
+      ));
+    return row || null;
+  },
+
+  /** Links reachable downstream of a task; UNION stops the walk at existing cycles. */
+  async listDownstream(tenantId: string, rootTaskId: string) {
+    return db
+      .select()
+      .from(taskDependencies)
+      .where(and(
+        eq(taskDependencies.tenantId, tenantId),
+        sql`${taskDependencies.predecessorTaskId} IN (
+          WITH RECURSIVE downstream(id) AS (
+            SELECT ${rootTaskId}::varchar
+            UNION
+            SELECT d.successor_task_id FROM task_dependencies d
+            JOIN downstream ON d.predecessor_task_id = downstream.id
+            WHERE d.tenant_id = ${tenantId}
+          )
+          SELECT id FROM downstream
+        )`,
+      ));
+  },
+
+  async getTaskSchedules(tenantId: string, taskIds: string[]) {
+    if (taskIds.length === 0) return [];
+    return db
+      .select({
+        id: tasks.id,
+        status: tasks.status,
+        startDate: tasks.startDate,
+        dueDate: tasks.dueDate,
+        estimateMinutes: tasks.estimateMinutes,
+        projectId: tasks.projectId,
+        parentTaskId: tasks.parentTaskId,
+        isPersonal: tasks.isPersonal,
+      })
+      .from(tasks)
+      .where(and(eq(tasks.tenantId, tenantId), inArray(tasks.id, taskIds)));
+  },
+
+  async create(input: InsertTaskDependency) {
+    const [row] = await db.insert(taskDependencies).values(input).returning();
+    return row;
+  },
+
+  async delete(id: string, tenantId: string) {
+    const result = await db
+      .delete(taskDependencies)
+      .where(and(eq(taskDependencies.id, id), eq(taskDependencies.tenantId, tenantId)))
+      .returning({ id: taskDependencies.id });
+    return result.length > 0;
+  },
+
+  async updateTaskDates(tenantId: string, taskId: string, startDate: Date | null, dueDate: Date | null) {
+    const [row] = await db
+      .update(tasks)
+      .set({ startDate, dueDate, updatedAt: new Date() })
+      .where(and(eq(tasks.id, taskId), eq(tasks.tenantId, tenantId)))
+      .returning();
+    return row || null;
+  },
+};
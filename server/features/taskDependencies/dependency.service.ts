@@ -0,0 +1,131 @@
+import { AppError } from "../../lib/errors";
+import { TaskDependencyType, type InsertTaskDependency, type Task, type TaskDependency } from "@shared/schema";
+import { workflowService } from "../workflows/workflow.service";
+import { taskDependencyRepo } from "./dependency.repo";
+import {
+  computeCascadeShifts,
+  getBlockedTaskMap,
+  isBlockingEdge,
+  wouldCreateCycle,
+  type DependencyEdge,
+  type ScheduledTask,
+} from "./dependencyGraph";
+
+type AddDependencyInput = Pick<InsertTaskDependency, "predecessorTaskId"> &
+  Partial<Pick<InsertTaskDependency, "type" | "lagDays">>;
+
+export const taskDependencyService = {
+  async getForTask(tenantId: string, taskId: string) {
+    const { blockedBy, blocking } = await taskDependencyRepo.listForTask(tenantId, taskId);
+    const { categoryOf } = await workflowService.statusChecks(tenantId);
+    const blockingPredecessorIds = blockedBy
+      .filter((row) => isBlockingEdge(row.dependency, categoryOf(row.task)))
+      .map((row) => row.task.id);
+    return {
+      blockedBy,
+      blocking,
+      isBlocked: blockingPredecessorIds.length > 0,
+      blockingPredecessorIds,
+    };
+  },
+
+  async add(tenantId: string, successorTaskId: string, input: AddDependencyInput, userId: string) {
+    const { predecessorTaskId } = input;
+    if (predecessorTaskId === successorTaskId) {
+      throw AppError.badRequest("A task cannot depend on itself");
+    }
+
+    const linked = await taskDependencyRepo.getTaskSchedules(tenantId, [predecessorTaskId, successorTaskId]);
+    if (!linked.some((t) => t.id === successorTaskId)) throw AppError.notFound("Task");
+    if (!linked.some((t) => t.id === predecessorTaskId)) throw AppError.notFound("Predecessor task");
+    if (linked.some((t) => t.isPersonal)) {
+      throw AppError.badRequest("Personal tasks cannot have dependencies");
+    }
+
+    if (await taskDependencyRepo.findLink(tenantId, predecessorTaskId, successorTaskId)) {
+      throw AppError.conflict("Dependency already exists");
+    }
+    const downstream = await taskDependencyRepo.listDownstream(tenantId, successorTaskId);
+    if (wouldCreateCycle(downstream, predecessorTaskId, successorTaskId)) {
+      throw AppError.badRequest("Dependency would create a cycle");
+    }
+
+    return taskDependencyRepo.create({
+      tenantId,
+      predecessorTaskId,
+      successorTaskId,
+      type: input.type ?? TaskDependencyType.FINISH_TO_START,
+      lagDays: input.lagDays ?? 0,
+      createdBy: userId,
+    });
+  },
+
+  async remove(tenantId: string, taskId: string, dependencyId: string): Promise<TaskDependency> {
+    const dependency = await taskDependencyRepo.getById(dependencyId, tenantId);
+    if (!dependency || (dependency.successorTaskId !== taskId && dependency.predecessorTaskId !== taskId)) {
+      throw AppError.notFound("Dependency");
+    }
+    await taskDependencyRepo.delete(dependencyId, tenantId);
+    return dependency;
+  },
+
+  /** Project-wide links plus the set of currently blocked tasks (board / calendar badges). */
+  async getProjectGraph(tenantId: string, projectId: string) {
+    const dependencies = await taskDependencyRepo.listForProject(tenantId, projectId);
+    const blocked = await this.getBlockedMap(tenantId, dependencies);
+    return { dependencies, blocked: Object.fromEntries(blocked) };
+  },
+
+  async getBlockedMap(tenantId: string, edges: DependencyEdge[]): Promise<Map<string, string[]>> {
+    if (edges.length === 0) return new Map();
+    const ids = new Set<string>();
+    for (const edge of edges) {
+      ids.add(edge.predecessorTaskId);
+      ids.add(edge.successorTaskId);
+    }
+    const [schedules, { categoryOf }] = await Promise.all([
+      taskDependencyRepo.getTaskSchedules(tenantId, Array.from(ids)),
+      workflowService.statusChecks(tenantId),
+    ]);
+    return getBlockedTaskMap(edges, new Map(schedules.map((t) => [t.id, categoryOf(t)])));
+  },
+
+  /**
+   * Pushes downstream tasks later after `taskId` slipped, returning the tasks that moved.
+   * Callers are responsible for realtime events.
+   */
+  async cascadeFrom(tenantId: string, taskId: string): Promise<Task[]> {
+    const edges = await taskDependencyRepo.listDownstream(tenantId, taskId);
+    const reachable = collectDownstream(edges, taskId);
+    if (reachable.size <= 1) return [];
+
+    const [schedules, { categoryOf }] = await Promise.all([
+      taskDependencyRepo.getTaskSchedules(tenantId, Array.from(reachable)),
+      workflowService.statusChecks(tenantId),
+    ]);
+    const tasksById = new Map<string, ScheduledTask>(schedules.map((t) => [t.id, { ...t, category: categoryOf(t) }]));
+    const shifts = computeCascadeShifts(tasksById, edges, taskId);
+
+    const updated: Task[] = [];
+    for (const shift of shifts) {
+      const row = await taskDependencyRepo.updateTaskDates(tenantId, shift.taskId, shift.startDate, shift.dueDate);
+      if (row) updated.push(row);
+    }
+    return updated;
+  },
+};
+
+function collectDownstream(edges: DependencyEdge[], rootTaskId: string): Set<string> {
+  const reachable = new Set<string>([rootTaskId]);
+  const stack = [rootTaskId];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    for (const edge of edges) {
+      if (edge.predecessorTaskId === current && !reachable.has(edge.successorTaskId)) {
+        reachable.add(edge.successorTaskId);
+        stack.push(edge.successorTaskId);
+      }
+    }
+  }
+  return reachable;
+}
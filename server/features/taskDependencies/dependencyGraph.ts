@@ -0,0 +1,267 @@
+import { StatusCategory, TaskDependencyType, type StatusCategoryValue } from "@shared/schema";
+import { isClosedCategory } from "../workflows/workflowRules";
+
+/**
+ * Pure dependency-graph helpers (no DB access) used by the dependency service,
+ * the tasks router and the deadline-risk forecast. Tasks are judged by their status
+ * category, so custom workflow statuses behave like the built-in ones.
+ */
+
+export interface DependencyEdge {
+  predecessorTaskId: string;
+  successorTaskId: string;
+  type: string;
+  lagDays: number;
+}
+
+export interface ScheduledTask {
+  id: string;
+  category: StatusCategoryValue;
+  startDate: Date | null;
+  dueDate: Date | null;
+  estimateMinutes?: number | null;
+}
+
+export interface CascadeShift {
+  taskId: string;
+  startDate: Date | null;
+  dueDate: Date | null;
+  shiftDays: number;
+}
+
+export interface CriticalPath {
+  taskIds: string[];
+  totalMinutes: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Returns true when linking predecessor → successor would close a loop,
+ * i.e. the predecessor is already reachable from the successor.
+ */
+export function wouldCreateCycle(
+  edges: DependencyEdge[],
+  predecessorTaskId: string,
+  successorTaskId: string,
+): boolean {
+  if (predecessorTaskId === successorTaskId) return true;
+
+  const outgoing = buildOutgoing(edges);
+  const stack = [successorTaskId];
+  const visited = new Set<string>();
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === predecessorTaskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    for (const edge of outgoing.get(current) ?? []) {
+      stack.push(edge.successorTaskId);
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether a predecessor still prevents its successor from starting.
+ * Finish-to-start waits for the predecessor to close; start-to-start waits for it to leave
+ * the not-started category. Finish-to-finish and start-to-finish only constrain the
+ * successor's end, so they never block.
+ */
+export function isBlockingEdge(edge: DependencyEdge, predecessorCategory: StatusCategoryValue): boolean {
+  if (isClosedCategory(predecessorCategory)) return false;
+  switch (edge.type) {
+    case TaskDependencyType.FINISH_TO_START:
+      return true;
+    case TaskDependencyType.START_TO_START:
+      return predecessorCategory === StatusCategory.NOT_STARTED;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Maps each task to the predecessor ids currently blocking it.
+ * Tasks that are not blocked are omitted.
+ */
+export function getBlockedTaskMap(
+  edges: DependencyEdge[],
+  categoryById: Map<string, StatusCategoryValue>,
+): Map<string, string[]> {
+  const blocked = new Map<string, string[]>();
+  for (const edge of edges) {
+    const predecessorCategory = categoryById.get(edge.predecessorTaskId);
+    const successorCategory = categoryById.get(edge.successorTaskId);
+    if (predecessorCategory === undefined || successorCategory === undefined) continue;
+    if (isClosedCategory(successorCategory)) continue;
+    if (!isBlockingEdge(edge, predecessorCategory)) continue;
+    const list = blocked.get(edge.successorTaskId) ?? [];
+    list.push(edge.predecessorTaskId);
+    blocked.set(edge.successorTaskId, list);
+  }
+  return blocked;
+}
+
+/**
+ * Computes the forward date shifts needed downstream of `rootTaskId` so that every
+ * open successor satisfies its constraint again. Tasks only ever move later, and each
+ * shifted task keeps its duration (start and due move together).
+ */
+export function computeCascadeShifts(
+  tasksById: Map<string, ScheduledTask>,
+  edges: DependencyEdge[],
+  rootTaskId: string,
+): CascadeShift[] {
+  const outgoing = buildOutgoing(edges);
+  const schedule = new Map<string, { startDate: Date | null; dueDate: Date | null }>();
+  for (const [id, task] of Array.from(tasksById)) {
+    schedule.set(id, { startDate: task.startDate, dueDate: task.dueDate });
+  }
+
+  const shifts = new Map<string, CascadeShift>();
+  const queue = [rootTaskId];
+  let guard = tasksById.size * Math.max(edges.length, 1) + 1;
+
+  while (queue.length > 0 && guard-- > 0) {
+    const currentId = queue.shift()!;
+    const current = schedule.get(currentId);
+    if (!current) continue;
+
+    for (const edge of outgoing.get(currentId) ?? []) {
+      const successor = tasksById.get(edge.successorTaskId);
+      const successorSchedule = schedule.get(edge.successorTaskId);
+      if (!successor || !successorSchedule || isClosedCategory(successor.category)) continue;
+
+      const anchor = constraintAnchor(edge.type, current);
+      if (!anchor) continue;
+      const required = anchor.getTime() + edge.lagDays * DAY_MS;
+
+      const constrained = constrainedField(edge.type, successorSchedule);
+      if (!constrained || constrained.getTime() >= required) continue;
+
+      const deltaMs = required - constrained.getTime();
+      const next = {
+        startDate: successorSchedule.startDate ? new Date(successorSchedule.startDate.getTime() + deltaMs) : null,
+        dueDate: successorSchedule.dueDate ? new Date(successorSchedule.dueDate.getTime() + deltaMs) : null,
+      };
+      schedule.set(edge.successorTaskId, next);
+
+      const previous = shifts.get(edge.successorTaskId);
+      shifts.set(edge.successorTaskId, {
+        taskId: edge.successorTaskId,
+        startDate: next.startDate,
+        dueDate: next.dueDate,
+        shiftDays: Math.round(((previous?.shiftDays ?? 0) * DAY_MS + deltaMs) / DAY_MS * 100) / 100,
+      });
+      queue.push(edge.successorTaskId);
+    }
+  }
+
+  return Array.from(shifts.values());
+}
+
+/**
+ * Longest chain of open tasks linked by finish-to-start dependencies, weighted by
+ * estimateMinutes. Other link types let work overlap, so they do not lengthen the path.
+ */
+export function computeCriticalPath(tasks: ScheduledTask[], edges: DependencyEdge[]): CriticalPath {
+  const open = new Map<string, ScheduledTask>();
+  for (const task of tasks) {
+    if (!isClosedCategory(task.category)) open.set(task.id, task);
+  }
+  if (open.size === 0) return { taskIds: [], totalMinutes: 0 };
+
+  const sequential = edges.filter(
+    (e) => e.type === TaskDependencyType.FINISH_TO_START && open.has(e.predecessorTaskId) && open.has(e.successorTaskId),
+  );
+  const outgoing = buildOutgoing(sequential);
+  const inDegree = new Map<string, number>();
+  for (const id of Array.from(open.keys())) inDegree.set(id, 0);
+  for (const edge of sequential) {
+    inDegree.set(edge.successorTaskId, (inDegree.get(edge.successorTaskId) ?? 0) + 1);
+  }
+
+  const best = new Map<string, number>();
+  const previous = new Map<string, string | null>();
+  const ready: string[] = [];
+  for (const [id, degree] of Array.from(inDegree)) {
+    if (degree === 0) {
+      ready.push(id);
+      best.set(id, weight(open.get(id)!));
+      previous.set(id, null);
+    }
+  }
+
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    for (const edge of outgoing.get(id) ?? []) {
+      const candidate = best.get(id)! + weight(open.get(edge.successorTaskId)!);
+      if (candidate > (best.get(edge.successorTaskId) ?? -1)) {
+        best.set(edge.successorTaskId, candidate);
+        previous.set(edge.successorTaskId, id);
+      }
+      const remaining = inDegree.get(edge.successorTaskId)! - 1;
+      inDegree.set(edge.successorTaskId, remaining);
+      if (remaining === 0) ready.push(edge.successorTaskId);
+    }
+  }
+
+  let endId: string | null = null;
+  let endTotal = -1;
+  for (const [id, total] of Array.from(best)) {
+    if (total > endTotal) {
+      endId = id;
+      endTotal = total;
+    }
+  }
+
+  const taskIds: string[] = [];
+  let cursor = endId;
+  while (cursor) {
+    taskIds.unshift(cursor);
+    cursor = previous.get(cursor) ?? null;
+  }
+
+  return { taskIds, totalMinutes: Math.max(endTotal, 0) };
+}
+
+function buildOutgoing(edges: DependencyEdge[]): Map<string, DependencyEdge[]> {
+  const outgoing = new Map<string, DependencyEdge[]>();
+  for (const edge of edges) {
+    const list = outgoing.get(edge.predecessorTaskId) ?? [];
+    list.push(edge);
+    outgoing.set(edge.predecessorTaskId, list);
+  }
+  return outgoing;
+}
+
+function constraintAnchor(
+  type: string,
+  predecessor: { startDate: Date | null; dueDate: Date | null },
+): Date | null {
+  switch (type) {
+    case TaskDependencyType.START_TO_START:
+    case TaskDependencyType.START_TO_FINISH:
+      return predecessor.startDate ?? predecessor.dueDate;
+    default:
+      return predecessor.dueDate;
+  }
+}
+
+function constrainedField(
+  type: string,
+  successor: { startDate: Date | null; dueDate: Date | null },
+): Date | null {
+  switch (type) {
+    case TaskDependencyType.FINISH_TO_FINISH:
+    case TaskDependencyType.START_TO_FINISH:
+      return successor.dueDate;
+    default:
+      return successor.startDate ?? successor.dueDate;
+  }
+}
+
+function weight(task: ScheduledTask): number {
+  return Math.max(task.estimateMinutes ?? 0, 0);
+}
@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { z } from "zod";
+import multer from "multer";
 import { db } from "../../db";
 import * as schema from "@shared/schema";
 import { eq, and, desc } from "drizzle-orm";
@@ -7,6 +8,17 @@ import { getEffectiveTenantId } from "../../middleware/tenantContext";
 import { UserRole } from "@shared/schema";
 import type { Request } from "express";
 import { handleRouteError, AppError } from "../../lib/errors";
+import { workflowService } from "../workflows/workflow.service";
+import { projectTemplateContentSchema, saveProjectAsTemplateSchema } from "@shared/projectTemplates";
+import { storage } from "../../storage";
+import { generateTemplateAttachmentKey, isS3Configured, uploadToS3, validateFile } from "../../s3";
+import { isFilenameUnsafe } from "../../http/middleware/uploadGuards";
+import { assertTemplateAttachmentsOwned, templateService } from "./template.service";
+
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 25 * 1024 * 1024 },
+});
 
 const router = Router();
 
@@ -14,25 +26,20 @@ function isAdmin(req: Request): boolean {
   return req.user?.role === UserRole.ADMIN || req.user?.role === UserRole.SUPER_USER;
 }
 
-const templateContentSchema = z.object({
-  sections: z.array(z.object({
-    name: z.string().min(1),
-    tasks: z.array(z.object({
-      title: z.string().min(1),
-      description: z.string().optional(),
-      subtasks: z.array(z.string()).optional(),
-    })),
-  })),
-});
-
 const createTemplateSchema = z.object({
   name: z.string().min(1, "Template name is required"),
   description: z.string().optional(),
   category: z.string().default("general"),
   isDefault: z.boolean().default(false),
-  content: templateContentSchema,
+  content: projectTemplateContentSchema,
+  workflowStatusSetId: z.string().min(1).nullable().optional(),
 });
 
+/** Rejects workflow sets from other tenants. */
+async function checkWorkflow(tenantId: string, workflowStatusSetId: string | null | undefined) {
+  if (workflowStatusSetId) await workflowService.getSet(tenantId, workflowStatusSetId);
+}
+
 const updateTemplateSchema = createTemplateSchema.partial();
 
 router.get("/", async (req, res) => {
@@ -54,6 +61,77 @@ router.get("/", async (req, res) => {
   }
 });
 
+/**
+ * Uploads a default attachment for a template task. The returned reference goes into the
+ * task's `attachments` and is copied onto each task created from the template.
+ */
+router.post("/attachments", attachmentUpload.single("file"), async (req, res) => {
+  try {
+    if (!isAdmin(req)) {
+      throw AppError.forbidden("Admin access required");
+    }
+
+    const tenantId = getEffectiveTenantId(req);
+
+    if (!tenantId) {
+      throw AppError.tenantRequired();
+    }
+
+    if (!isS3Configured()) {
+      throw new AppError(503, "INTERNAL_ERROR", "File storage is not configured.");
+    }
+
+    const file = req.file;
+    if (!file) {
+      throw AppError.badRequest("No file provided");
+    }
+
+    const mimeType = file.mimetype || "application/octet-stream";
+    const fileName = file.originalname || "untitled";
+    const validation = validateFile(mimeType, file.size, fileName);
+    if (!validation.valid) {
+      throw AppError.badRequest(validation.error || "Invalid file");
+    }
+    if (isFilenameUnsafe(fileName)) {
+      throw AppError.badRequest("File type not allowed for security reasons");
+    }
+
+    const storageKey = generateTemplateAttachmentKey(tenantId, fileName);
+    await uploadToS3(file.buffer, storageKey, mimeType, tenantId);
+
+    res.status(201).json({ fileName, mimeType, sizeBytes: file.size, storageKey });
+  } catch (error) {
+    return handleRouteError(res, error, "POST /attachments", req);
+  }
+});
+
+/** Saves an existing project as a new template. */
+router.post("/from-project/:projectId", async (req, res) => {
+  try {
+    if (!isAdmin(req)) {
+      throw AppError.forbidden("Admin access required");
+    }
+
+    const tenantId = getEffectiveTenantId(req);
+
+    if (!tenantId) {
+      throw AppError.tenantRequired();
+    }
+
+    const data = saveProjectAsTemplateSchema.parse(req.body);
+
+    const project = await storage.getProject(req.params.projectId);
+    if (!project || project.tenantId !== tenantId) {
+      throw AppError.notFound("Project");
+    }
+
+    const template = await templateService.saveProjectAsTemplate(tenantId, project, req.user!.id, data);
+    res.status(201).json(template);
+  } catch (error) {
+    return handleRouteError(res, error, "POST /from-project/:projectId", req);
+  }
+});
+
 router.get("/:id", async (req, res) => {
   try {
     if (!isAdmin(req)) {
@@ -97,6 +175,8 @@ router.post("/", async (req, res) => {
     }
 
     const data = createTemplateSchema.parse(req.body);
+    await checkWorkflow(tenantId, data.workflowStatusSetId);
+    assertTemplateAttachmentsOwned(tenantId, data.content);
 
     const [template] = await db.insert(schema.projectTemplates)
       .values({
@@ -106,6 +186,7 @@ router.post("/", async (req, res) => {
         category: data.category,
         isDefault: data.isDefault,
         content: data.content,
+        workflowStatusSetId: data.workflowStatusSetId ?? null,
         createdBy: req.user?.id,
       })
       .returning();
@@ -144,6 +225,8 @@ router.patch("/:id", async (req, res) => {
     }
 
     const data = updateTemplateSchema.parse(req.body);
+    await checkWorkflow(tenantId, data.workflowStatusSetId);
+    if (data.content) assertTemplateAttachmentsOwned(tenantId, data.content);
 
     const [template] = await db.update(schema.projectTemplates)
       .set({
@@ -0,0 +1,349 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "../../db";
+import { projectTemplates, type Project, type ProjectTemplate, type Tag } from "@shared/schema";
+import {
+  projectTemplateContentSchema,
+  saveProjectAsTemplateSchema,
+  type ApplyProjectTemplate,
+  type ProjectTemplateContent,
+  type SaveProjectAsTemplate,
+  type TemplateAttachment,
+} from "@shared/projectTemplates";
+import { AppError } from "../../lib/errors";
+import { createLogger } from "../../lib/logger";
+import { storage } from "../../storage";
+import {
+  copyS3Object,
+  generateStorageKey,
+  generateTemplateAttachmentKey,
+  isS3Configured,
+  templateAttachmentPrefix,
+} from "../../s3";
+import { workflowService } from "../workflows/workflow.service";
+import {
+  captureProjectAsTemplate,
+  planTemplateApplication,
+  type PlannedTask,
+  type ProjectSnapshotTask,
+} from "./templatePlanner";
+
+const templateLog = createLogger("project-templates");
+
+/** Section for tasks that are not in any section when a project is saved as a template. */
+const UNSECTIONED_NAME = "General";
+
+export interface ApplyTemplateResult {
+  sectionsCreated: number;
+  tasksCreated: number;
+  subtasksCreated: number;
+  attachmentsCopied: number;
+  /** Default attachments not copied because storage is unavailable or the copy failed. */
+  attachmentsSkipped: number;
+  unmappedRoles: string[];
+}
+
+async function getTemplate(tenantId: string, templateId: string): Promise<ProjectTemplate> {
+  const [template] = await db.select()
+    .from(projectTemplates)
+    .where(and(eq(projectTemplates.id, templateId), eq(projectTemplates.tenantId, tenantId)))
+    .limit(1);
+  if (!template) throw AppError.notFound("Template");
+  return template;
+}
+
+function parseContent(content: unknown): ProjectTemplateContent {
+  const parsed = projectTemplateContentSchema.safeParse(content ?? { sections: [] });
+  if (!parsed.success) throw AppError.badRequest("Template content is invalid", parsed.error.errors);
+  return parsed.data;
+}
+
+/**
+ * Template attachments are copied server-side, so a key outside the tenant's template
+ * prefix would let a template read another tenant's files.
+ */
+export function assertTemplateAttachmentsOwned(tenantId: string, content: ProjectTemplateContent): void {
+  const prefix = templateAttachmentPrefix(tenantId);
+  for (const section of content.sections) {
+    for (const task of section.tasks) {
+      for (const attachment of task.attachments ?? []) {
+        if (!attachment.storageKey.startsWith(prefix) || attachment.storageKey.includes("..")) {
+          throw AppError.badRequest("Template attachments must be uploaded to this workspace's templates");
+        }
+      }
+    }
+  }
+}
+
+/** Role assignments may only point at users in the tenant. */
+async function checkAssignees(tenantId: string, roleAssignments: Record<string, string> | undefined) {
+  const userIds = Array.from(new Set(Object.values(roleAssignments ?? {})));
+  for (const userId of userIds) {
+    const user = await storage.getUser(userId);
+    if (!user || user.tenantId !== tenantId) {
+      throw AppError.badRequest("Role assignments must reference users in this workspace");
+    }
+  }
+}
+
+/** Finds workspace tags by name (case-insensitive), creating the missing ones. */
+async function resolveTags(workspaceId: string, names: string[]): Promise<Map<string, Tag>> {
+  const byName = new Map<string, Tag>();
+  if (!names.length) return byName;
+  const existing = await storage.getTagsByWorkspace(workspaceId);
+  for (const name of names) {
+    const key = name.toLowerCase();
+    if (byName.has(key)) continue;
+    const tag = existing.find((t) => t.name.toLowerCase() === key) ?? await storage.createTag({ workspaceId, name });
+    byName.set(key, tag);
+  }
+  return byName;
+}
+
+async function copyAttachments(
+  tenantId: string,
+  project: Project,
+  taskId: string,
+  attachments: TemplateAttachment[],
+  userId: string,
+): Promise<{ copied: number; skipped: number }> {
+  if (!attachments.length) return { copied: 0, skipped: 0 };
+  if (!isS3Configured()) return { copied: 0, skipped: attachments.length };
+
+  let copied = 0;
+  for (const attachment of attachments) {
+    const storageKey = generateStorageKey(project.id, taskId, crypto.randomUUID(), attachment.fileName);
+    try {
+      await copyS3Object(attachment.storageKey, storageKey, tenantId);
+      await storage.createTaskAttachment({
+        taskId,
+        projectId: project.id,
+        uploadedByUserId: userId,
+        originalFileName: attachment.fileName,
+        mimeType: attachment.mimeType,
+        fileSizeBytes: attachment.sizeBytes,
+        storageKey,
+        uploadStatus: "complete",
+      });
+      copied++;
+    } catch (error) {
+      templateLog.error("Failed to copy template attachment", {
+        projectId: project.id,
+        taskId,
+        sourceKey: attachment.storageKey,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return { copied, skipped: attachments.length - copied };
+}
+
+async function createPlannedTask(
+  tenantId: string,
+  project: Project,
+  sectionId: string,
+  planned: PlannedTask,
+  orderIndex: number,
+  context: { userId: string; status: string; tags: Map<string, Tag> },
+): Promise<{ subtasks: number; copied: number; skipped: number }> {
+  const task = await storage.createTask({
+    tenantId,
+    projectId: project.id,
+    sectionId,
+    title: planned.title,
+    description: planned.description,
+    status: context.status,
+    priority: planned.priority,
+    startDate: planned.startDate,
+    dueDate: planned.dueDate,
+    estimateMinutes: planned.estimateMinutes,
+    isMilestone: planned.isMilestone,
+    createdBy: context.userId,
+    orderIndex,
+  });
+
+  for (const assigneeId of planned.assigneeIds) {
+    await storage.addTaskAssignee({ tenantId, taskId: task.id, userId: assigneeId });
+  }
+  for (const name of planned.tags) {
+    const tag = context.tags.get(name.toLowerCase());
+    if (tag) await storage.addTaskTag({ taskId: task.id, tagId: tag.id });
+  }
+  for (let i = 0; i < planned.subtasks.length; i++) {
+    const subtask = planned.subtasks[i];
+    const created = await storage.createSubtask({
+      taskId: task.id,
+      title: subtask.title,
+      dueDate: subtask.dueDate,
+      estimateMinutes: subtask.estimateMinutes,
+      assigneeId: subtask.assigneeId,
+      orderIndex: i,
+    });
+    if (subtask.assigneeId) {
+      await storage.addSubtaskAssignee({ tenantId, subtaskId: created.id, userId: subtask.assigneeId });
+    }
+  }
+
+  const { copied, skipped } = await copyAttachments(tenantId, project, task.id, planned.attachments, context.userId);
+  return { subtasks: planned.subtasks.length, copied, skipped };
+}
+
+async function snapshotProject(project: Project, includeAttachments: boolean, tenantId: string) {
+  const sectionsList = await storage.getSectionsByProject(project.id);
+  const tasksList = (await storage.getTasksByProject(project.id)).filter((t) => !t.parentTaskId);
+  const copyFiles = includeAttachments && isS3Configured();
+
+  const toSnapshot = async (task: typeof tasksList[number]): Promise<ProjectSnapshotTask> => {
+    const attachments: TemplateAttachment[] = [];
+    if (copyFiles) {
+      const existing = await storage.getTaskAttachmentsByTask(task.id);
+      for (const attachment of existing.filter((a) => a.uploadStatus === "complete")) {
+        const storageKey = generateTemplateAttachmentKey(tenantId, attachment.originalFileName);
+        try {
+          await copyS3Object(attachment.storageKey, storageKey, tenantId);
+          attachments.push({
+            fileName: attachment.originalFileName,
+            mimeType: attachment.mimeType,
+            sizeBytes: attachment.fileSizeBytes,
+            storageKey,
+          });
+        } catch (error) {
+          templateLog.error("Failed to copy attachment into template", {
+            projectId: project.id,
+            attachmentId: attachment.id,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    }
+    return {
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      startDate: task.startDate,
+      dueDate: task.dueDate,
+      estimateMinutes: task.estimateMinutes,
+      isMilestone: task.isMilestone,
+      assigneeIds: (task.assignees ?? []).map((a) => a.userId),
+      tagNames: (task.tags ?? []).map((t) => t.tag?.name).filter((name): name is string => !!name),
+      subtasks: (task.subtasks ?? []).map((s) => ({
+        title: s.title,
+        dueDate: s.dueDate,
+        estimateMinutes: s.estimateMinutes,
+        assigneeId: s.assigneeId,
+      })),
+      attachments,
+    };
+  };
+
+  const sections: Array<{ name: string; tasks: ProjectSnapshotTask[] }> = [];
+  for (const section of sectionsList) {
+    const sectionTasks = tasksList.filter((t) => t.sectionId === section.id);
+    const snapshots: ProjectSnapshotTask[] = [];
+    for (const task of sectionTasks) snapshots.push(await toSnapshot(task));
+    sections.push({ name: section.name, tasks: snapshots });
+  }
+  const unsectioned = tasksList.filter((t) => !t.sectionId || !sectionsList.some((s) => s.id === t.sectionId));
+  if (unsectioned.length) {
+    const snapshots: ProjectSnapshotTask[] = [];
+    for (const task of unsectioned) snapshots.push(await toSnapshot(task));
+    sections.push({ name: UNSECTIONED_NAME, tasks: snapshots });
+  }
+  return sections;
+}
+
+export const templateService = {
+  /**
+   * Adds a template's sections and tasks to a project. Relative dates are anchored on
+   * `startDate`, role placeholders resolve through `roleAssignments`, tags are matched by
+   * name in the project's workspace and default attachments are copied per task.
+   */
+  async applyTemplate(
+    tenantId: string,
+    project: Project,
+    userId: string,
+    input: ApplyProjectTemplate,
+  ): Promise<ApplyTemplateResult> {
+    const template = await getTemplate(tenantId, input.templateId);
+    const content = parseContent(template.content);
+    assertTemplateAttachmentsOwned(tenantId, content);
+    await checkAssignees(tenantId, input.roleAssignments);
+
+    if (template.workflowStatusSetId) {
+      await workflowService.setProjectWorkflow(tenantId, project.id, template.workflowStatusSetId);
+    }
+
+    const plan = planTemplateApplication(content, {
+      startDate: input.startDate,
+      roleAssignments: input.roleAssignments,
+    });
+    const result: ApplyTemplateResult = {
+      sectionsCreated: 0,
+      tasksCreated: 0,
+      subtasksCreated: 0,
+      attachmentsCopied: 0,
+      attachmentsSkipped: 0,
+      unmappedRoles: plan.unmappedRoles,
+    };
+    if (!plan.sections.length) return result;
+
+    const tagNames: string[] = [];
+    plan.sections.forEach((s) => s.tasks.forEach((t) => tagNames.push(...t.tags)));
+    const context = {
+      userId,
+      status: await workflowService.initialStatus(tenantId, project.id, "todo") ?? "todo",
+      tags: await resolveTags(project.workspaceId, tagNames),
+    };
+
+    const startOrderIndex = (await storage.getSectionsByProject(project.id)).length;
+    for (let si = 0; si < plan.sections.length; si++) {
+      const sectionPlan = plan.sections[si];
+      const section = await storage.createSection({
+        projectId: project.id,
+        name: sectionPlan.name,
+        orderIndex: startOrderIndex + si,
+      });
+      result.sectionsCreated++;
+
+      for (let ti = 0; ti < sectionPlan.tasks.length; ti++) {
+        const created = await createPlannedTask(tenantId, project, section.id, sectionPlan.tasks[ti], ti, context);
+        result.tasksCreated++;
+        result.subtasksCreated += created.subtasks;
+        result.attachmentsCopied += created.copied;
+        result.attachmentsSkipped += created.skipped;
+      }
+    }
+    return result;
+  },
+
+  /**
+   * Captures a project as a new template: sections, tasks, subtasks, tags, estimates,
+   * dates relative to `startDate`, assignees mapped to roles, and copies of attachments.
+   */
+  async saveProjectAsTemplate(
+    tenantId: string,
+    project: Project,
+    userId: string,
+    input: SaveProjectAsTemplate,
+  ): Promise<ProjectTemplate> {
+    const data = saveProjectAsTemplateSchema.parse(input);
+    const sections = await snapshotProject(project, data.includeAttachments, tenantId);
+    const content = parseContent(captureProjectAsTemplate(sections, {
+      startDate: data.startDate,
+      roles: data.roles,
+    }));
+
+    const [template] = await db.insert(projectTemplates)
+      .values({
+        tenantId,
+        name: data.name,
+        description: data.description,
+        category: data.category,
+        isDefault: false,
+        content,
+        workflowStatusSetId: project.workflowStatusSetId ?? null,
+        createdBy: userId,
+      })
+      .returning();
+    return template;
+  },
+};
@@ -0,0 +1,209 @@
+/**
+ * Pure conversion between template content and concrete project data: resolving relative
+ * dates and role placeholders when a template is applied, and turning an existing project
+ * back into template content. No I/O; template.service.ts does the reads and writes.
+ */
+import {
+  collectTemplateRoles,
+  type ProjectTemplateContent,
+  type TemplateAttachment,
+  type TemplateSubtask,
+  type TemplateTask,
+  type TemplateTaskPriority,
+  TEMPLATE_TASK_PRIORITIES,
+} from "@shared/projectTemplates";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PlannedSubtask {
+  title: string;
+  dueDate: Date | null;
+  estimateMinutes: number | null;
+  assigneeId: string | null;
+}
+
+export interface PlannedTask {
+  title: string;
+  description: string | null;
+  priority: TemplateTaskPriority;
+  startDate: Date | null;
+  dueDate: Date | null;
+  estimateMinutes: number | null;
+  isMilestone: boolean;
+  assigneeIds: string[];
+  tags: string[];
+  subtasks: PlannedSubtask[];
+  attachments: TemplateAttachment[];
+}
+
+export interface TemplatePlan {
+  sections: Array<{ name: string; tasks: PlannedTask[] }>;
+  /** Roles the template uses that were not mapped to anyone; their tasks stay unassigned. */
+  unmappedRoles: string[];
+}
+
+export interface PlanOptions {
+  /** YYYY-MM-DD; offsets are ignored without it. */
+  startDate?: string;
+  roleAssignments?: Record<string, string>;
+}
+
+/** Parses YYYY-MM-DD as midnight UTC, the way date-only task fields are stored. */
+export function parseDay(day: string): Date {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, date));
+}
+
+function addDays(anchor: Date | null, offset: number | undefined): Date | null {
+  if (!anchor || offset === undefined) return null;
+  return new Date(anchor.getTime() + offset * DAY_MS);
+}
+
+function startOfUtcDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function dayOffset(anchor: number, date: Date | null | undefined): number | undefined {
+  if (!date) return undefined;
+  return Math.round((startOfUtcDay(date) - anchor) / DAY_MS);
+}
+
+function normalizeSubtask(subtask: string | TemplateSubtask): TemplateSubtask {
+  return typeof subtask === "string" ? { title: subtask } : subtask;
+}
+
+export function planTemplateApplication(content: ProjectTemplateContent, options: PlanOptions = {}): TemplatePlan {
+  const anchor = options.startDate ? parseDay(options.startDate) : null;
+  const assignments = options.roleAssignments ?? {};
+  const resolve = (role: string | undefined) => (role && assignments[role]) || null;
+
+  const sections = content.sections.map((section) => ({
+    name: section.name,
+    tasks: section.tasks.map((task): PlannedTask => {
+      const assigneeIds: string[] = [];
+      (task.assigneeRoles ?? []).forEach((role) => {
+        const userId = resolve(role);
+        if (userId && !assigneeIds.includes(userId)) assigneeIds.push(userId);
+      });
+      return {
+        title: task.title,
+        description: task.description || null,
+        priority: task.priority ?? "medium",
+        startDate: addDays(anchor, task.startOffsetDays),
+        dueDate: addDays(anchor, task.dueOffsetDays),
+        estimateMinutes: task.estimateMinutes ?? null,
+        isMilestone: task.isMilestone ?? false,
+        assigneeIds,
+        tags: Array.from(new Set(task.tags ?? [])),
+        subtasks: (task.subtasks ?? []).map(normalizeSubtask).map((subtask) => ({
+          title: subtask.title,
+          dueDate: addDays(anchor, subtask.dueOffsetDays),
+          estimateMinutes: subtask.estimateMinutes ?? null,
+          assigneeId: resolve(subtask.assigneeRole),
+        })),
+        attachments: task.attachments ?? [],
+      };
+    }),
+  }));
+
+  const unmappedRoles = collectTemplateRoles(content).filter((role) => !assignments[role]);
+  return { sections, unmappedRoles };
+}
+
+export interface ProjectSnapshotTask {
+  title: string;
+  description: string | null;
+  priority: string;
+  startDate: Date | null;
+  dueDate: Date | null;
+  estimateMinutes: number | null;
+  isMilestone: boolean;
+  assigneeIds: string[];
+  tagNames: string[];
+  subtasks: Array<{ title: string; dueDate: Date | null; estimateMinutes: number | null; assigneeId: string | null }>;
+  attachments: TemplateAttachment[];
+}
+
+export interface CaptureOptions {
+  /** YYYY-MM-DD; defaults to the earliest date found in the project. */
+  startDate?: string;
+  /** userId -> role name. */
+  roles: Record<string, string>;
+}
+
+function earliestDay(sections: Array<{ tasks: ProjectSnapshotTask[] }>): number | null {
+  let earliest: number | null = null;
+  const consider = (date: Date | null) => {
+    if (!date) return;
+    const day = startOfUtcDay(date);
+    if (earliest === null || day < earliest) earliest = day;
+  };
+  sections.forEach((section) => section.tasks.forEach((task) => {
+    consider(task.startDate);
+    consider(task.dueDate);
+    task.subtasks.forEach((subtask) => consider(subtask.dueDate));
+  }));
+  return earliest;
+}
+
+/** Turns a project into template content: dates become offsets and mapped assignees become roles. */
+export function captureProjectAsTemplate(
+  sections: Array<{ name: string; tasks: ProjectSnapshotTask[] }>,
+  options: CaptureOptions,
+): ProjectTemplateContent {
+  const anchor = options.startDate ? parseDay(options.startDate).getTime() : earliestDay(sections);
+  const offset = (date: Date | null) => (anchor === null ? undefined : dayOffset(anchor, date));
+  const roleOf = (userId: string | null) => (userId ? options.roles[userId] : undefined);
+  const usedRoles: string[] = [];
+  const useRole = (role: string | undefined) => {
+    if (role && !usedRoles.includes(role)) usedRoles.push(role);
+    return role;
+  };
+
+  const content: ProjectTemplateContent = {
+    sections: sections.map((section) => ({
+      name: section.name,
+      tasks: section.tasks.map((task) => {
+        const captured: TemplateTask = { title: task.title };
+        if (task.description) captured.description = task.description;
+        if ((TEMPLATE_TASK_PRIORITIES as readonly string[]).includes(task.priority) && task.priority !== "medium") {
+          captured.priority = task.priority as TemplateTaskPriority;
+        }
+        const startOffsetDays = offset(task.startDate);
+        const dueOffsetDays = offset(task.dueDate);
+        // A start after the due date would fail content validation, so keep only the due date
+        if (startOffsetDays !== undefined && (dueOffsetDays === undefined || startOffsetDays <= dueOffsetDays)) {
+          captured.startOffsetDays = startOffsetDays;
+        }
+        if (dueOffsetDays !== undefined) captured.dueOffsetDays = dueOffsetDays;
+        if (task.estimateMinutes) captured.estimateMinutes = task.estimateMinutes;
+        if (task.isMilestone) captured.isMilestone = true;
+
+        const assigneeRoles: string[] = [];
+        task.assigneeIds.forEach((userId) => {
+          const role = useRole(roleOf(userId));
+          if (role && !assigneeRoles.includes(role)) assigneeRoles.push(role);
+        });
+        if (assigneeRoles.length) captured.assigneeRoles = assigneeRoles;
+        if (task.tagNames.length) captured.tags = Array.from(new Set(task.tagNames));
+
+        if (task.subtasks.length) {
+          captured.subtasks = task.subtasks.map((subtask) => {
+            const dueOffset = offset(subtask.dueDate);
+            const role = useRole(roleOf(subtask.assigneeId));
+            if (dueOffset === undefined && !subtask.estimateMinutes && !role) return subtask.title;
+            const capturedSubtask: TemplateSubtask = { title: subtask.title };
+            if (dueOffset !== undefined) capturedSubtask.dueOffsetDays = dueOffset;
+            if (subtask.estimateMinutes) capturedSubtask.estimateMinutes = subtask.estimateMinutes;
+            if (role) capturedSubtask.assigneeRole = role;
+            return capturedSubtask;
+          });
+        }
+        if (task.attachments.length) captured.attachments = task.attachments;
+        return captured;
+      }),
+    })),
+  };
+  if (usedRoles.length) content.roles = usedRoles;
+  return content;
+}
@@ -0,0 +1,205 @@
+import { eq, and, gte, lt, inArray, desc, asc, sql } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  timesheets,
+  timeEntries,
+  users,
+  projects,
+  tasks,
+  notifications,
+  TimesheetStatus,
+  UserRole,
+  type Timesheet,
+} from "@shared/schema";
+
+export type TimesheetUpdate = Partial<Pick<
+  Timesheet,
+  "status" | "totalSeconds" | "submittedAt" | "reviewedBy" | "reviewedAt" | "reviewComment"
+>>;
+
+export interface TimesheetUser {
+  id: string;
+  name: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  role: string;
+}
+
+const TIMESHEET_ROLES = [UserRole.ADMIN, UserRole.EMPLOYEE];
+
+export const timesheetRepo = {
+  async getById(id: string, tenantId: string): Promise<Timesheet | undefined> {
+    const [row] = await db
+      .select()
+      .from(timesheets)
+      .where(and(eq(timesheets.id, id), eq(timesheets.tenantId, tenantId)));
+    return row;
+  },
+
+  async getForWeek(tenantId: string, userId: string, weekStart: string): Promise<Timesheet | undefined> {
+    const [row] = await db
+      .select()
+      .from(timesheets)
+      .where(and(
+        eq(timesheets.tenantId, tenantId),
+        eq(timesheets.userId, userId),
+        eq(timesheets.weekStart, weekStart),
+      ));
+    return row;
+  },
+
+  async listForWeek(tenantId: string, weekStart: string): Promise<Timesheet[]> {
+    return db
+      .select()
+      .from(timesheets)
+      .where(and(eq(timesheets.tenantId, tenantId), eq(timesheets.weekStart, weekStart)));
+  },
+
+  async list(tenantId: string, filters: { userId?: string; status?: string } = {}): Promise<Timesheet[]> {
+    const conditions = [eq(timesheets.tenantId, tenantId)];
+    if (filters.userId) conditions.push(eq(timesheets.userId, filters.userId));
+    if (filters.status) conditions.push(eq(timesheets.status, filters.status));
+    return db
+      .select()
+      .from(timesheets)
+      .where(and(...conditions))
+      .orderBy(desc(timesheets.weekStart))
+      .limit(200);
+  },
+
+  /** Creates the week's row as submitted, or moves an existing draft/rejected row to submitted. */
+  async upsertSubmitted(tenantId: string, userId: string, weekStart: string, totalSeconds: number): Promise<Timesheet> {
+    const now = new Date();
+    const [row] = await db
+      .insert(timesheets)
+      .values({
+        tenantId,
+        userId,
+        weekStart,
+        status: TimesheetStatus.SUBMITTED,
+        totalSeconds,
+        submittedAt: now,
+      })
+      .onConflictDoUpdate({
+        target: [timesheets.tenantId, timesheets.userId, timesheets.weekStart],
+        set: {
+          status: TimesheetStatus.SUBMITTED,
+          totalSeconds,
+          submittedAt: now,
+          reviewedBy: null,
+          reviewedAt: null,
+          reviewComment: null,
+          updatedAt: now,
+        },
+      })
+      .returning();
+    return row;
+  },
+
+  async update(id: string, tenantId: string, updates: TimesheetUpdate): Promise<Timesheet | undefined> {
+    const [row] = await db
+      .update(timesheets)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(timesheets.id, id), eq(timesheets.tenantId, tenantId)))
+      .returning();
+    return row;
+  },
+
+  async isWeekApproved(tenantId: string, userId: string, weekStart: string): Promise<boolean> {
+    const [row] = await db
+      .select({ id: timesheets.id })
+      .from(timesheets)
+      .where(and(
+        eq(timesheets.tenantId, tenantId),
+        eq(timesheets.userId, userId),
+        eq(timesheets.weekStart, weekStart),
+        eq(timesheets.status, TimesheetStatus.APPROVED),
+      ));
+    return !!row;
+  },
+
+  async listEntries(tenantId: string, userId: string, from: Date, to: Date) {
+    return db
+      .select({
+        id: timeEntries.id,
+        startTime: timeEntries.startTime,
+        durationSeconds: timeEntries.durationSeconds,
+        description: timeEntries.description,
+        title: timeEntries.title,
+        scope: timeEntries.scope,
+        projectName: projects.name,
+        taskTitle: tasks.title,
+      })
+      .from(timeEntries)
+      .leftJoin(projects, eq(projects.id, timeEntries.projectId))
+      .leftJoin(tasks, eq(tasks.id, timeEntries.taskId))
+      .where(and(
+        eq(timeEntries.tenantId, tenantId),
+        eq(timeEntries.userId, userId),
+        gte(timeEntries.startTime, from),
+        lt(timeEntries.startTime, to),
+      ))
+      .orderBy(asc(timeEntries.startTime));
+  },
+
+  /** Tracked seconds per user for entries starting in [from, to). */
+  async totalsByUser(tenantId: string, from: Date, to: Date): Promise<Map<string, number>> {
+    const rows = await db
+      .select({
+        userId: timeEntries.userId,
+        totalSeconds: sql<number>`COALESCE(SUM(${timeEntries.durationSeconds}), 0)`,
+      })
+      .from(timeEntries)
+      .where(and(
+        eq(timeEntries.tenantId, tenantId),
+        gte(timeEntries.startTime, from),
+        lt(timeEntries.startTime, to),
+      ))
+      .groupBy(timeEntries.userId);
+    return new Map(rows.map((row) => [row.userId, Number(row.totalSeconds)]));
+  },
+
+  /** Active internal users who are expected to submit timesheets. */
+  async listTimesheetUsers(tenantId: string): Promise<TimesheetUser[]> {
+    return db
+      .select({
+        id: users.id,
+        name: users.name,
+        email: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        role: users.role,
+      })
+      .from(users)
+      .where(and(eq(users.tenantId, tenantId), eq(users.isActive, true), inArray(users.role, TIMESHEET_ROLES)))
+      .orderBy(asc(users.name));
+  },
+
+  async listReviewerIds(tenantId: string): Promise<string[]> {
+    const rows = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.tenantId, tenantId), eq(users.isActive, true), eq(users.role, UserRole.ADMIN)));
+    return rows.map((row) => row.id);
+  },
+
+  /** Tenants that have started using timesheets; scheduled reminders are limited to these. */
+  async listTenantIdsWithTimesheets(): Promise<string[]> {
+    const rows = await db.selectDistinct({ tenantId: timesheets.tenantId }).from(timesheets);
+    return rows.map((row) => row.tenantId);
+  },
+
+  async hasNotification(tenantId: string, userId: string, dedupeKey: string): Promise<boolean> {
+    const [row] = await db
+      .select({ id: notifications.id })
+      .from(notifications)
+      .where(and(
+        eq(notifications.tenantId, tenantId),
+        eq(notifications.userId, userId),
+        eq(notifications.dedupeKey, dedupeKey),
+      ))
+      .limit(1);
+    return !!row;
+  },
+};
@@ -0,0 +1,208 @@
+import { AppError } from "../../lib/errors";
+import {
+  TimesheetStatus,
+  type Timesheet,
+  type TimesheetStatusValue,
+} from "@shared/schema";
+import {
+  notifyTimesheetMissing,
+  notifyTimesheetReviewed,
+  notifyTimesheetSubmitted,
+} from "../notifications/notification.service";
+import { capacityService } from "../capacity/capacity.service";
+import { timesheetRepo, type TimesheetUser } from "./timesheet.repo";
+import {
+  dailyTotals,
+  shiftWeek,
+  weekBounds,
+  weekStartOf,
+} from "./timesheetWeek";
+
+export interface TimesheetActor {
+  id: string;
+  name: string;
+}
+
+export interface ReviewTimesheetInput {
+  status: typeof TimesheetStatus.APPROVED | typeof TimesheetStatus.REJECTED;
+  comment?: string | null;
+}
+
+export interface ReviewQueueRow {
+  user: TimesheetUser;
+  timesheetId: string | null;
+  status: TimesheetStatusValue;
+  trackedSeconds: number;
+  submittedSeconds: number | null;
+  capacitySeconds: number;
+  submittedAt: Date | null;
+  reviewComment: string | null;
+}
+
+const SUBMITTABLE = new Set<string>([TimesheetStatus.DRAFT, TimesheetStatus.REJECTED]);
+const REMINDER_DONE = new Set<string>([TimesheetStatus.SUBMITTED, TimesheetStatus.APPROVED]);
+
+export const timesheetService = {
+  /** The user's week: its timesheet (if any), entries, and totals by day against their available hours. */
+  async getWeek(tenantId: string, userId: string, weekStart: string) {
+    const { start, end } = weekBounds(weekStart);
+    const [timesheet, entries, capacity] = await Promise.all([
+      timesheetRepo.getForWeek(tenantId, userId, weekStart),
+      timesheetRepo.listEntries(tenantId, userId, start, end),
+      capacityService.weeklyHoursByUser(tenantId, [userId], [weekStart]),
+    ]);
+    const days = dailyTotals(weekStart, entries);
+    return {
+      weekStart,
+      userId,
+      status: (timesheet?.status ?? TimesheetStatus.DRAFT) as TimesheetStatusValue,
+      timesheet: timesheet ?? null,
+      dailySeconds: days,
+      totalSeconds: days.reduce((sum, s) => sum + s, 0),
+      capacitySeconds: Math.round((capacity.get(userId)?.get(weekStart)?.availableHours ?? 0) * 3600),
+      entries,
+    };
+  },
+
+  list(tenantId: string, filters: { userId?: string; status?: string }) {
+    return timesheetRepo.list(tenantId, filters);
+  },
+
+  /** Submits a draft or rejected week for review and notifies the tenant's admins. */
+  async submit(tenantId: string, actor: TimesheetActor, weekStart: string): Promise<Timesheet> {
+    if (weekStart > weekStartOf(new Date())) {
+      throw AppError.badRequest("Future weeks cannot be submitted");
+    }
+    const existing = await timesheetRepo.getForWeek(tenantId, actor.id, weekStart);
+    if (existing && !SUBMITTABLE.has(existing.status)) {
+      throw AppError.conflict(`Timesheet for the week of ${weekStart} is already ${existing.status}`);
+    }
+
+    const { start, end } = weekBounds(weekStart);
+    const totals = await timesheetRepo.totalsByUser(tenantId, start, end);
+    const timesheet = await timesheetRepo.upsertSubmitted(tenantId, actor.id, weekStart, totals.get(actor.id) ?? 0);
+
+    const reviewerIds = await timesheetRepo.listReviewerIds(tenantId);
+    for (const reviewerId of reviewerIds) {
+      await notifyTimesheetSubmitted(reviewerId, timesheet.id, weekStart, actor.name, { tenantId, excludeUserId: actor.id });
+    }
+    return timesheet;
+  },
+
+  /** Approves (locking the week's entries) or rejects a submitted timesheet. */
+  async review(tenantId: string, id: string, reviewer: TimesheetActor, input: ReviewTimesheetInput): Promise<Timesheet> {
+    const timesheet = await timesheetRepo.getById(id, tenantId);
+    if (!timesheet) throw AppError.notFound("Timesheet");
+    if (timesheet.userId === reviewer.id) throw AppError.forbidden("You cannot review your own timesheet");
+    if (timesheet.status !== TimesheetStatus.SUBMITTED) {
+      throw AppError.conflict(`Only submitted timesheets can be reviewed; this one is ${timesheet.status}`);
+    }
+
+    const { start, end } = weekBounds(timesheet.weekStart);
+    const totals = await timesheetRepo.totalsByUser(tenantId, start, end);
+    const updated = await timesheetRepo.update(id, tenantId, {
+      status: input.status,
+      totalSeconds: totals.get(timesheet.userId) ?? 0,
+      reviewedBy: reviewer.id,
+      reviewedAt: new Date(),
+      reviewComment: input.comment?.trim() || null,
+    });
+    if (!updated) throw AppError.notFound("Timesheet");
+
+    await notifyTimesheetReviewed(
+      timesheet.userId,
+      id,
+      timesheet.weekStart,
+      input.status,
+      reviewer.name,
+      updated.reviewComment,
+      { tenantId },
+    );
+    return updated;
+  },
+
+  /** Returns a submitted or approved week to draft so its entries can be corrected. */
+  async reopen(tenantId: string, id: string): Promise<Timesheet> {
+    const timesheet = await timesheetRepo.getById(id, tenantId);
+    if (!timesheet) throw AppError.notFound("Timesheet");
+    if (timesheet.status === TimesheetStatus.DRAFT) return timesheet;
+    const updated = await timesheetRepo.update(id, tenantId, {
+      status: TimesheetStatus.DRAFT,
+      submittedAt: null,
+      reviewedBy: null,
+      reviewedAt: null,
+      reviewComment: null,
+    });
+    if (!updated) throw AppError.notFound("Timesheet");
+    return updated;
+  },
+
+  /** Every timesheet user's status and tracked hours for the week, for the manager review queue. */
+  async reviewQueue(tenantId: string, weekStart: string): Promise<ReviewQueueRow[]> {
+    const { start, end } = weekBounds(weekStart);
+    const [people, sheets, totals] = await Promise.all([
+      timesheetRepo.listTimesheetUsers(tenantId),
+      timesheetRepo.listForWeek(tenantId, weekStart),
+      timesheetRepo.totalsByUser(tenantId, start, end),
+    ]);
+    const byUser = new Map(sheets.map((sheet) => [sheet.userId, sheet]));
+    const capacity = await capacityService.weeklyHoursByUser(tenantId, people.map((user) => user.id), [weekStart]);
+    return people.map((user) => {
+      const sheet = byUser.get(user.id);
+      return {
+        user,
+        timesheetId: sheet?.id ?? null,
+        status: (sheet?.status ?? TimesheetStatus.DRAFT) as TimesheetStatusValue,
+        trackedSeconds: totals.get(user.id) ?? 0,
+        submittedSeconds: sheet?.submittedAt ? sheet.totalSeconds : null,
+        capacitySeconds: Math.round((capacity.get(user.id)?.get(weekStart)?.availableHours ?? 0) * 3600),
+        submittedAt: sheet?.submittedAt ?? null,
+        reviewComment: sheet?.reviewComment ?? null,
+      };
+    });
+  },
+
+  /**
+   * Reminds users who have not submitted the week (optionally only `userIds`). With
+   * `onlyOnce`, users who were already reminded about this week are skipped.
+   */
+  async sendReminders(
+    tenantId: string,
+    weekStart: string,
+    options: { userIds?: string[]; onlyOnce?: boolean } = {},
+  ): Promise<{ notified: number }> {
+    const rows = await this.reviewQueue(tenantId, weekStart);
+    const wanted = options.userIds ? new Set(options.userIds) : null;
+    let notified = 0;
+    for (const row of rows) {
+      if (REMINDER_DONE.has(row.status)) continue;
+      if (wanted && !wanted.has(row.user.id)) continue;
+      if (options.onlyOnce && await timesheetRepo.hasNotification(tenantId, row.user.id, `timesheet-reminder:${weekStart}`)) {
+        continue;
+      }
+      await notifyTimesheetMissing(row.user.id, weekStart, { tenantId });
+      notified++;
+    }
+    return { notified };
+  },
+
+  /** Scheduled pass: one reminder per user for last week, in tenants that use timesheets. */
+  async remindForPreviousWeek(now: Date = new Date()): Promise<number> {
+    const weekStart = shiftWeek(weekStartOf(now), -1);
+    let total = 0;
+    for (const tenantId of await timesheetRepo.listTenantIdsWithTimesheets()) {
+      const { notified } = await this.sendReminders(tenantId, weekStart, { onlyOnce: true });
+      total += notified;
+    }
+    return total;
+  },
+
+  /** Throws if `startTime` falls in a week the user's approved timesheet has locked. */
+  async assertEntryUnlocked(tenantId: string | null | undefined, userId: string, startTime: Date): Promise<void> {
+    if (!tenantId) return;
+    const weekStart = weekStartOf(startTime);
+    if (await timesheetRepo.isWeekApproved(tenantId, userId, weekStart)) {
+      throw AppError.conflict(`The timesheet for the week of ${weekStart} is approved; its time entries are locked`);
+    }
+  },
+};
@@ -0,0 +1,37 @@
+import { timesheetService } from "./timesheet.service";
+
+let intervalHandle: NodeJS.Timeout | null = null;
+let initialDelayHandle: NodeJS.Timeout | null = null;
+
+const INTERVAL_MS = 6 * 60 * 60 * 1000;
+const INITIAL_DELAY_MS = 45 * 1000;
+
+async function tick(): Promise<void> {
+  try {
+    const notified = await timesheetService.remindForPreviousWeek();
+    console.log(`[timesheet-reminders] Sent ${notified} missing timesheet reminders`);
+  } catch (err) {
+    console.error("[timesheet-reminders] Error sending reminders:", err);
+  }
+}
+
+export function startTimesheetReminderScheduler(): void {
+  if (intervalHandle || initialDelayHandle) return;
+  initialDelayHandle = setTimeout(() => {
+    initialDelayHandle = null;
+    void tick();
+    intervalHandle = setInterval(() => { void tick(); }, INTERVAL_MS);
+  }, INITIAL_DELAY_MS);
+  console.log("[timesheet-reminders] Started missing timesheet reminder scheduler");
+}
+
+export function stopTimesheetReminderScheduler(): void {
+  if (initialDelayHandle) {
+    clearTimeout(initialDelayHandle);
+    initialDelayHandle = null;
+  }
+  if (intervalHandle) {
+    clearInterval(intervalHandle);
+    intervalHandle = null;
+  }
+}
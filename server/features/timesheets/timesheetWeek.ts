@@ -0,0 +1,43 @@
+/**
+ * Timesheet week arithmetic. Weeks run Monday to Sunday in UTC, matching Postgres
+ * `date_trunc('week', ...)` used by the workload reports.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Monday (YYYY-MM-DD) of the UTC week containing `date`. */
+export function weekStartOf(date: Date): string {
+  const day = date.getUTCDay();
+  const offset = day === 0 ? 6 : day - 1;
+  const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) - offset * DAY_MS);
+  return toIsoDate(monday);
+}
+
+/** [start, end) instants covering the week that begins on `weekStart`. */
+export function weekBounds(weekStart: string): { start: Date; end: Date } {
+  const start = new Date(`${weekStart}T00:00:00.000Z`);
+  return { start, end: new Date(start.getTime() + 7 * DAY_MS) };
+}
+
+export function shiftWeek(weekStart: string, weeks: number): string {
+  return toIsoDate(new Date(weekBounds(weekStart).start.getTime() + weeks * 7 * DAY_MS));
+}
+
+/** Seconds per weekday (index 0 = Monday) for entries starting inside the week. */
+export function dailyTotals(
+  weekStart: string,
+  entries: { startTime: Date; durationSeconds: number }[],
+): number[] {
+  const { start, end } = weekBounds(weekStart);
+  const days = [0, 0, 0, 0, 0, 0, 0];
+  for (const entry of entries) {
+    const t = entry.startTime.getTime();
+    if (t < start.getTime() || t >= end.getTime()) continue;
+    days[Math.floor((t - start.getTime()) / DAY_MS)] += entry.durationSeconds;
+  }
+  return days;
+}
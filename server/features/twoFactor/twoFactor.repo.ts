@@ -0,0 +1,105 @@
+import { eq, and, gt, desc } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  systemSettings,
+  tenantSettings,
+  trustedDevices,
+  userTwoFactor,
+  type PublicTrustedDevice,
+  type TrustedDevice,
+  type UserTwoFactor,
+} from "@shared/schema";
+
+const deviceColumns = {
+  id: trustedDevices.id,
+  userId: trustedDevices.userId,
+  label: trustedDevices.label,
+  ipAddress: trustedDevices.ipAddress,
+  expiresAt: trustedDevices.expiresAt,
+  lastUsedAt: trustedDevices.lastUsedAt,
+  createdAt: trustedDevices.createdAt,
+};
+
+export const twoFactorRepo = {
+  async get(userId: string): Promise<UserTwoFactor | undefined> {
+    const [row] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    return row;
+  },
+
+  /** Starts (or restarts) an unconfirmed enrollment with a fresh secret. */
+  async upsertPending(userId: string, secretEncrypted: string): Promise<void> {
+    await db
+      .insert(userTwoFactor)
+      .values({ userId, secretEncrypted })
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: { secretEncrypted, enabledAt: null, recoveryCodeHashes: [], lastUsedStep: null, updatedAt: new Date() },
+      });
+  },
+
+  async update(
+    userId: string,
+    updates: Partial<Pick<UserTwoFactor, "enabledAt" | "recoveryCodeHashes" | "lastUsedStep">>,
+  ): Promise<void> {
+    await db.update(userTwoFactor).set({ ...updates, updatedAt: new Date() }).where(eq(userTwoFactor.userId, userId));
+  },
+
+  async remove(userId: string): Promise<boolean> {
+    const rows = await db.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId)).returning({ userId: userTwoFactor.userId });
+    return rows.length > 0;
+  },
+
+  async getPolicyFlags(tenantId: string | null): Promise<{ platform: boolean; tenant: boolean }> {
+    const [platform] = await db.select({ requireTwoFactor: systemSettings.requireTwoFactor }).from(systemSettings).limit(1);
+    let tenant = false;
+    if (tenantId) {
+      const [row] = await db
+        .select({ requireTwoFactor: tenantSettings.requireTwoFactor })
+        .from(tenantSettings)
+        .where(eq(tenantSettings.tenantId, tenantId));
+      tenant = row?.requireTwoFactor ?? false;
+    }
+    return { platform: platform?.requireTwoFactor ?? false, tenant };
+  },
+
+  async createDevice(values: typeof trustedDevices.$inferInsert): Promise<PublicTrustedDevice> {
+    const [row] = await db.insert(trustedDevices).values(values).returning(deviceColumns);
+    return row;
+  },
+
+  async findActiveDevice(userId: string, tokenHash: string, now: Date): Promise<TrustedDevice | undefined> {
+    const [row] = await db
+      .select()
+      .from(trustedDevices)
+      .where(and(
+        eq(trustedDevices.userId, userId),
+        eq(trustedDevices.tokenHash, tokenHash),
+        gt(trustedDevices.expiresAt, now),
+      ));
+    return row;
+  },
+
+  async touchDevice(id: string, now: Date): Promise<void> {
+    await db.update(trustedDevices).set({ lastUsedAt: now }).where(eq(trustedDevices.id, id));
+  },
+
+  async listDevices(userId: string, now: Date): Promise<PublicTrustedDevice[]> {
+    return db
+      .select(deviceColumns)
+      .from(trustedDevices)
+      .where(and(eq(trustedDevices.userId, userId), gt(trustedDevices.expiresAt, now)))
+      .orderBy(desc(trustedDevices.createdAt));
+  },
+
+  async deleteDevice(id: string, userId: string): Promise<boolean> {
+    const rows = await db
+      .delete(trustedDevices)
+      .where(and(eq(trustedDevices.id, id), eq(trustedDevices.userId, userId)))
+      .returning({ id: trustedDevices.id });
+    return rows.length > 0;
+  },
+
+  async deleteDevicesForUser(userId: string): Promise<void> {
+    await db.delete(trustedDevices).where(eq(trustedDevices.userId, userId));
+  },
+};
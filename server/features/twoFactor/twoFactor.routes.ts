@@ -0,0 +1,185 @@
+/**
+ * Two-factor authentication endpoints under /api/auth/2fa.
+ *
+ * These run outside requireAuth: during password login the session only carries
+ * `pendingTwoFactor` until a code is accepted, so each handler resolves its user from
+ * either the logged-in session or that pending marker.
+ */
+import type { Express, Request, Response } from "express";
+import { storage } from "../../storage";
+import { AppError, handleRouteError, validateBody } from "../../lib/errors";
+import { completeLogin } from "../../auth";
+import { twoFactorRateLimiter } from "../../middleware/rateLimit";
+import { twoFactorCodeSchema, verifyTwoFactorSchema } from "@shared/schema";
+import { twoFactorService, TRUSTED_DEVICE_COOKIE, TRUSTED_DEVICE_DAYS } from "./twoFactor.service";
+
+const PENDING_TTL_MS = 10 * 60 * 1000;
+
+interface ResolvedSubject {
+  user: Express.User;
+  /** True when the password was accepted but the user is not logged in yet. */
+  pending: boolean;
+}
+
+async function resolveSubject(req: Request): Promise<ResolvedSubject> {
+  if (req.isAuthenticated() && req.user) {
+    return { user: req.user, pending: false };
+  }
+  const pendingLogin = req.session.pendingTwoFactor;
+  if (!pendingLogin || Date.now() - pendingLogin.issuedAt > PENDING_TTL_MS) {
+    delete req.session.pendingTwoFactor;
+    throw AppError.unauthorized("Your sign-in has expired. Please sign in again.");
+  }
+  const user = await storage.getUser(pendingLogin.userId);
+  if (!user || !user.isActive) {
+    delete req.session.pendingTwoFactor;
+    throw AppError.unauthorized("Your sign-in has expired. Please sign in again.");
+  }
+  const { passwordHash, ...userWithoutPassword } = user;
+  return { user: userWithoutPassword, pending: true };
+}
+
+async function requireSessionUser(req: Request): Promise<Express.User> {
+  const subject = await resolveSubject(req);
+  if (subject.pending) throw AppError.unauthorized("Authentication required");
+  return subject.user;
+}
+
+function setTrustedDeviceCookie(res: Response, token: string): void {
+  res.cookie(TRUSTED_DEVICE_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: TRUSTED_DEVICE_DAYS * 24 * 60 * 60 * 1000,
+  });
+}
+
+export function setupTwoFactorEndpoints(app: Express): void {
+  /**
+   * GET /api/auth/2fa/status
+   * Enrollment state, policy and remembered devices for the signed-in user.
+   */
+  app.get("/api/auth/2fa/status", async (req, res) => {
+    try {
+      const user = await requireSessionUser(req);
+      res.json(await twoFactorService.getStatus(user));
+    } catch (error) {
+      handleRouteError(res, error, "GET /api/auth/2fa/status", req);
+    }
+  });
+
+  /**
+   * POST /api/auth/2fa/setup
+   * Starts enrollment and returns the secret and QR code. Also available to a pending
+   * login that must enroll before it can finish.
+   */
+  app.post("/api/auth/2fa/setup", twoFactorRateLimiter, async (req, res) => {
+    try {
+      const { user } = await resolveSubject(req);
+      res.json(await twoFactorService.beginEnrollment(user));
+    } catch (error) {
+      handleRouteError(res, error, "POST /api/auth/2fa/setup", req);
+    }
+  });
+
+  /**
+   * POST /api/auth/2fa/enable
+   * Confirms enrollment with a first code. Returns the recovery codes; for a pending
+   * login the response also carries { user, workspaceId } like /api/auth/login.
+   */
+  app.post("/api/auth/2fa/enable", twoFactorRateLimiter, async (req, res) => {
+    try {
+      const data = validateBody(req.body, twoFactorCodeSchema, res, req);
+      if (!data) return;
+      const { user, pending } = await resolveSubject(req);
+      const { recoveryCodes } = await twoFactorService.confirmEnrollment(user, data.code);
+
+      if (pending) {
+        delete req.session.pendingTwoFactor;
+        return completeLogin(req, res, user, { twoFactorVerified: true, extra: { recoveryCodes } });
+      }
+      req.session.twoFactorVerifiedAt = new Date().toISOString();
+      res.json({ recoveryCodes });
+    } catch (error) {
+      handleRouteError(res, error, "POST /api/auth/2fa/enable", req);
+    }
+  });
+
+  /**
+   * POST /api/auth/2fa/verify
+   * Accepts an authenticator or recovery code. Completes a pending login, or marks an
+   * already logged-in session (invite acceptance) as verified.
+   */
+  app.post("/api/auth/2fa/verify", twoFactorRateLimiter, async (req, res) => {
+    try {
+      const data = validateBody(req.body, verifyTwoFactorSchema, res, req);
+      if (!data) return;
+      const { user, pending } = await resolveSubject(req);
+      const { usedRecoveryCode } = await twoFactorService.verify(user, data);
+
+      if (data.rememberDevice) {
+        const { token } = await twoFactorService.rememberDevice(user.id, {
+          label: req.headers["user-agent"] ?? null,
+          ipAddress: req.ip ?? null,
+        });
+        setTrustedDeviceCookie(res, token);
+      }
+
+      if (pending) {
+        delete req.session.pendingTwoFactor;
+        return completeLogin(req, res, user, { twoFactorVerified: true, extra: { usedRecoveryCode } });
+      }
+      req.session.twoFactorVerifiedAt = new Date().toISOString();
+      req.session.save(() => res.json({ ok: true, usedRecoveryCode }));
+    } catch (error) {
+      handleRouteError(res, error, "POST /api/auth/2fa/verify", req);
+    }
+  });
+
+  /**
+   * POST /api/auth/2fa/disable
+   * Turns 2FA off after checking a current code. Refused while policy requires 2FA.
+   */
+  app.post("/api/auth/2fa/disable", twoFactorRateLimiter, async (req, res) => {
+    try {
+      const data = validateBody(req.body, verifyTwoFactorSchema, res, req);
+      if (!data) return;
+      const user = await requireSessionUser(req);
+      await twoFactorService.disable(user, data);
+      res.clearCookie(TRUSTED_DEVICE_COOKIE, { path: "/" });
+      res.json({ ok: true });
+    } catch (error) {
+      handleRouteError(res, error, "POST /api/auth/2fa/disable", req);
+    }
+  });
+
+  /**
+   * POST /api/auth/2fa/recovery-codes
+   * Replaces all recovery codes; the old ones stop working immediately.
+   */
+  app.post("/api/auth/2fa/recovery-codes", twoFactorRateLimiter, async (req, res) => {
+    try {
+      const data = validateBody(req.body, twoFactorCodeSchema, res, req);
+      if (!data) return;
+      const user = await requireSessionUser(req);
+      res.json(await twoFactorService.regenerateRecoveryCodes(user, data.code));
+    } catch (error) {
+      handleRouteError(res, error, "POST /api/auth/2fa/recovery-codes", req);
+    }
+  });
+
+  /**
+   * DELETE /api/auth/2fa/devices/:id
+   * Forgets a remembered device so it must enter a code at next sign-in.
+   */
+  app.delete("/api/auth/2fa/devices/:id", async (req, res) => {
+    try {
+      const user = await requireSessionUser(req);
+      await twoFactorService.forgetDevice(user.id, req.params.id);
+      res.json({ ok: true });
+    } catch (error) {
+      handleRouteError(res, error, "DELETE /api/auth/2fa/devices/:id", req);
+    }
+  });
+}
@@ -0,0 +1,295 @@
+import { createHash, randomBytes } from "crypto";
+import QRCode from "qrcode";
+import { db } from "../../db";
+import { AppError } from "../../lib/errors";
+import { decryptValue, encryptValue, isEncryptionAvailable } from "../../lib/encryption";
+import { platformAuditEvents, tenantAuditEvents, type PublicTrustedDevice } from "@shared/schema";
+import { twoFactorRepo } from "./twoFactor.repo";
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from "./totp";
+
+const ISSUER = "MyWorkDay";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TRUSTED_DEVICE_COOKIE = "mwd_trusted_device";
+export const TRUSTED_DEVICE_DAYS = 30;
+
+/** What a session still needs before it may use the app: nothing, enrollment or a code. */
+export type TwoFactorGate = "enroll" | "verify" | null;
+
+export interface TwoFactorSubject {
+  id: string;
+  email: string;
+  tenantId: string | null;
+}
+
+export interface TwoFactorPolicy {
+  required: boolean;
+  requiredBy: "platform" | "tenant" | null;
+}
+
+export interface TwoFactorStatus extends TwoFactorPolicy {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+  trustedDevices: PublicTrustedDevice[];
+}
+
+export interface TwoFactorProof {
+  code?: string;
+  recoveryCode?: string;
+}
+
+function encryptSecret(secret: string): string {
+  if (!isEncryptionAvailable()) {
+    throw AppError.internal("Two-factor authentication requires APP_ENCRYPTION_KEY to be configured");
+  }
+  return encryptValue(secret);
+}
+
+function hashDeviceToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** Records 2FA changes in the tenant audit log, or the platform log for users without a tenant. */
+async function recordAudit(
+  subject: TwoFactorSubject,
+  actorUserId: string,
+  eventType: string,
+  message: string,
+  metadata: Record<string, unknown> = {},
+): Promise<void> {
+  try {
+    if (subject.tenantId) {
+      await db.insert(tenantAuditEvents).values({
+        tenantId: subject.tenantId,
+        actorUserId,
+        eventType,
+        message,
+        metadata: { targetUserId: subject.id, targetEmail: subject.email, ...metadata },
+      });
+    } else {
+      await db.insert(platformAuditEvents).values({
+        actorUserId,
+        targetUserId: subject.id,
+        eventType,
+        message,
+        metadata,
+      });
+    }
+  } catch (error) {
+    console.error(`[2fa] Failed to record audit event ${eventType} for user ${subject.id}:`, error);
+  }
+}
+
+export const twoFactorService = {
+  async getPolicy(subject: TwoFactorSubject): Promise<TwoFactorPolicy> {
+    const flags = await twoFactorRepo.getPolicyFlags(subject.tenantId);
+    if (flags.platform) return { required: true, requiredBy: "platform" };
+    if (flags.tenant) return { required: true, requiredBy: "tenant" };
+    return { required: false, requiredBy: null };
+  },
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const row = await twoFactorRepo.get(userId);
+    return !!row?.enabledAt;
+  },
+
+  async getStatus(subject: TwoFactorSubject, now: Date = new Date()): Promise<TwoFactorStatus> {
+    const [policy, row, trustedDevices] = await Promise.all([
+      this.getPolicy(subject),
+      twoFactorRepo.get(subject.id),
+      twoFactorRepo.listDevices(subject.id, now),
+    ]);
+    const enabled = !!row?.enabledAt;
+    return {
+      ...policy,
+      enabled,
+      enabledAt: row?.enabledAt ?? null,
+      recoveryCodesRemaining: enabled ? row!.recoveryCodeHashes.length : 0,
+      trustedDevices: enabled ? trustedDevices : [],
+    };
+  },
+
+  /**
+   * What a session for `subject` needs that has not completed 2FA. A valid remembered-device
+   * token stands in for a code.
+   */
+  async getGate(subject: TwoFactorSubject, deviceToken?: string | null, now: Date = new Date()): Promise<TwoFactorGate> {
+    if (await this.isEnabled(subject.id)) {
+      if (deviceToken) {
+        const device = await twoFactorRepo.findActiveDevice(subject.id, hashDeviceToken(deviceToken), now);
+        if (device) {
+          await twoFactorRepo.touchDevice(device.id, now);
+          return null;
+        }
+      }
+      return "verify";
+    }
+    const policy = await this.getPolicy(subject);
+    return policy.required ? "enroll" : null;
+  },
+
+  /** Generates a new unconfirmed secret; 2FA is not active until confirmEnrollment succeeds. */
+  async beginEnrollment(subject: TwoFactorSubject): Promise<{ secret: string; otpauthUri: string; qrCodeDataUrl: string }> {
+    if (await this.isEnabled(subject.id)) {
+      throw AppError.conflict("Two-factor authentication is already enabled");
+    }
+    const secret = generateTotpSecret();
+    await twoFactorRepo.upsertPending(subject.id, encryptSecret(secret));
+    const otpauthUri = buildOtpauthUri(ISSUER, subject.email, secret);
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUri, { margin: 1, width: 220 });
+    return { secret, otpauthUri, qrCodeDataUrl };
+  },
+
+  /** Activates 2FA with the first code from the app and returns the recovery codes, shown once. */
+  async confirmEnrollment(subject: TwoFactorSubject, code: string, now: Date = new Date()): Promise<{ recoveryCodes: string[] }> {
+    const row = await twoFactorRepo.get(subject.id);
+    if (!row) throw AppError.badRequest("Start two-factor setup first");
+    if (row.enabledAt) throw AppError.conflict("Two-factor authentication is already enabled");
+
+    const step = verifyTotp(decryptValue(row.secretEncrypted), code, now);
+    if (step === null) throw AppError.badRequest("That code is not valid. Check your device's clock and try again.");
+
+    const recoveryCodes = generateRecoveryCodes();
+    await twoFactorRepo.update(subject.id, {
+      enabledAt: now,
+      lastUsedStep: step,
+      recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+    });
+    await recordAudit(subject, subject.id, "two_factor_enabled", `${subject.email} enabled two-factor authentication`);
+    return { recoveryCodes };
+  },
+
+  /**
+   * Checks an authenticator code (rejecting one already used) or consumes a recovery code.
+   * Throws a 400 when neither is valid (a 401 would end the pending login).
+   */
+  async verify(subject: TwoFactorSubject, proof: TwoFactorProof, now: Date = new Date()): Promise<{ usedRecoveryCode: boolean }> {
+    const row = await twoFactorRepo.get(subject.id);
+    const invalid = AppError.badRequest("Invalid authentication code");
+    if (!row?.enabledAt) throw invalid;
+
+    if (proof.code) {
+      const step = verifyTotp(decryptValue(row.secretEncrypted), proof.code, now);
+      if (step === null || (row.lastUsedStep !== null && step <= row.lastUsedStep)) throw invalid;
+      await twoFactorRepo.update(subject.id, { lastUsedStep: step });
+      return { usedRecoveryCode: false };
+    }
+
+    if (proof.recoveryCode) {
+      const hash = hashRecoveryCode(proof.recoveryCode);
+      if (!row.recoveryCodeHashes.includes(hash)) throw invalid;
+      const remaining = row.recoveryCodeHashes.filter((h) => h !== hash);
+      await twoFactorRepo.update(subject.id, { recoveryCodeHashes: remaining });
+      await recordAudit(subject, subject.id, "two_factor_recovery_code_used", `${subject.email} signed in with a recovery code`, {
+        recoveryCodesRemaining: remaining.length,
+      });
+      return { usedRecoveryCode: true };
+    }
+
+    throw invalid;
+  },
+
+  async regenerateRecoveryCodes(subject: TwoFactorSubject, code: string): Promise<{ recoveryCodes: string[] }> {
+    await this.verify(subject, { code });
+    const recoveryCodes = generateRecoveryCodes();
+    await twoFactorRepo.update(subject.id, { recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode) });
+    await recordAudit(subject, subject.id, "two_factor_recovery_codes_regenerated", `${subject.email} regenerated 2FA recovery codes`);
+    return { recoveryCodes };
+  },
+
+  /** Turns off the user's own 2FA. Not allowed while a tenant or platform policy requires it. */
+  async disable(subject: TwoFactorSubject, proof: TwoFactorProof): Promise<void> {
+    const policy = await this.getPolicy(subject);
+    if (policy.required) {
+      throw AppError.forbidden(`Two-factor authentication is required by your ${policy.requiredBy === "platform" ? "platform" : "organization"} administrator`);
+    }
+    await this.verify(subject, proof);
+    await twoFactorRepo.remove(subject.id);
+    await twoFactorRepo.deleteDevicesForUser(subject.id);
+    await recordAudit(subject, subject.id, "two_factor_disabled", `${subject.email} disabled two-factor authentication`);
+  },
+
+  /** Admin reset for a locked-out user: removes the enrollment and every remembered device. */
+  async reset(subject: TwoFactorSubject, actor: { id: string; email: string }): Promise<void> {
+    const removed = await twoFactorRepo.remove(subject.id);
+    await twoFactorRepo.deleteDevicesForUser(subject.id);
+    if (!removed) throw AppError.badRequest("This user has not set up two-factor authentication");
+    await recordAudit(subject, actor.id, "two_factor_reset", `${actor.email} reset two-factor authentication for ${subject.email}`, {
+      resetByEmail: actor.email,
+    });
+  },
+
+  /** Audits a tenant (`tenantId` set) or platform-wide change to the 2FA requirement. */
+  async recordRequirementChange(tenantId: string | null, actor: { id: string; email: string }, required: boolean): Promise<void> {
+    const scope = tenantId ? "organization" : "platform";
+    const message = `${actor.email} ${required ? "required" : "stopped requiring"} two-factor authentication for the ${scope}`;
+    try {
+      if (tenantId) {
+        await db.insert(tenantAuditEvents).values({
+          tenantId,
+          actorUserId: actor.id,
+          eventType: "two_factor_requirement_changed",
+          message,
+          metadata: { required },
+        });
+      } else {
+        await db.insert(platformAuditEvents).values({
+          actorUserId: actor.id,
+          eventType: "two_factor_requirement_changed",
+          message,
+          metadata: { required },
+        });
+      }
+    } catch (error) {
+      console.error("[2fa] Failed to record requirement change:", error);
+    }
+  },
+
+  /**
+   * Impersonating a user protected by 2FA, or acting inside a tenant that requires it, needs
+   * a super admin session that itself passed 2FA. Returns whether the target was protected,
+   * for the audit record.
+   */
+  async assertCanImpersonate(
+    actor: TwoFactorSubject,
+    actorVerifiedAt: string | undefined,
+    target: { userId: string | null; tenantId: string },
+  ): Promise<{ targetRequiresTwoFactor: boolean }> {
+    const flags = await twoFactorRepo.getPolicyFlags(target.tenantId);
+    const targetRequiresTwoFactor = flags.platform || flags.tenant || (!!target.userId && await this.isEnabled(target.userId));
+    if (targetRequiresTwoFactor && !actorVerifiedAt) {
+      const gate = (await this.isEnabled(actor.id)) ? "verify" : "enroll";
+      throw AppError.twoFactorRequired(
+        "This account is protected by two-factor authentication. Sign in with two-factor authentication before impersonating it.",
+        gate,
+      );
+    }
+    return { targetRequiresTwoFactor };
+  },
+
+  /** Issues a remembered-device token for the browser; only its hash is stored. */
+  async rememberDevice(userId: string, meta: { label: string | null; ipAddress: string | null }, now: Date = new Date()): Promise<{ token: string; expiresAt: Date }> {
+    const token = randomBytes(32).toString("base64url");
+    const expiresAt = new Date(now.getTime() + TRUSTED_DEVICE_DAYS * DAY_MS);
+    await twoFactorRepo.createDevice({
+      userId,
+      tokenHash: hashDeviceToken(token),
+      label: meta.label?.slice(0, 200) ?? null,
+      ipAddress: meta.ipAddress,
+      expiresAt,
+    });
+    return { token, expiresAt };
+  },
+
+  async forgetDevice(userId: string, deviceId: string): Promise<void> {
+    const deleted = await twoFactorRepo.deleteDevice(deviceId, userId);
+    if (!deleted) throw AppError.notFound("Device");
+  },
+};
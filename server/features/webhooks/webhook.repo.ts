@@ -0,0 +1,149 @@
+import { eq, and, desc, sql } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  webhookEndpoints,
+  webhookDeliveries,
+  type PublicWebhookEndpoint,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+} from "@shared/schema";
+
+const endpointColumns = {
+  id: webhookEndpoints.id,
+  tenantId: webhookEndpoints.tenantId,
+  url: webhookEndpoints.url,
+  description: webhookEndpoints.description,
+  events: webhookEndpoints.events,
+  isActive: webhookEndpoints.isActive,
+  createdByUserId: webhookEndpoints.createdByUserId,
+  lastSuccessAt: webhookEndpoints.lastSuccessAt,
+  lastFailureAt: webhookEndpoints.lastFailureAt,
+  createdAt: webhookEndpoints.createdAt,
+  updatedAt: webhookEndpoints.updatedAt,
+};
+
+/** Delivery log rows omit the payload; it is loaded with getDelivery. */
+const deliveryListColumns = {
+  id: webhookDeliveries.id,
+  tenantId: webhookDeliveries.tenantId,
+  endpointId: webhookDeliveries.endpointId,
+  eventId: webhookDeliveries.eventId,
+  eventType: webhookDeliveries.eventType,
+  status: webhookDeliveries.status,
+  attempts: webhookDeliveries.attempts,
+  maxAttempts: webhookDeliveries.maxAttempts,
+  lastStatusCode: webhookDeliveries.lastStatusCode,
+  lastError: webhookDeliveries.lastError,
+  lastDurationMs: webhookDeliveries.lastDurationMs,
+  nextAttemptAt: webhookDeliveries.nextAttemptAt,
+  deliveredAt: webhookDeliveries.deliveredAt,
+  redeliveryOf: webhookDeliveries.redeliveryOf,
+  createdAt: webhookDeliveries.createdAt,
+  updatedAt: webhookDeliveries.updatedAt,
+};
+
+export type WebhookDeliverySummary = Omit<WebhookDelivery, "payload" | "lastResponseBody">;
+
+export type WebhookEndpointUpdate = Partial<Pick<
+  WebhookEndpoint,
+  "url" | "description" | "events" | "isActive" | "secretEncrypted" | "lastSuccessAt" | "lastFailureAt"
+>>;
+
+export type WebhookDeliveryUpdate = Partial<Pick<
+  WebhookDelivery,
+  | "status"
+  | "attempts"
+  | "lastStatusCode"
+  | "lastError"
+  | "lastResponseBody"
+  | "lastDurationMs"
+  | "nextAttemptAt"
+  | "deliveredAt"
+>>;
+
+export const webhookRepo = {
+  async listEndpoints(tenantId: string): Promise<PublicWebhookEndpoint[]> {
+    return db
+      .select(endpointColumns)
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.tenantId, tenantId))
+      .orderBy(desc(webhookEndpoints.createdAt));
+  },
+
+  async getEndpoint(id: string, tenantId: string): Promise<WebhookEndpoint | undefined> {
+    const [row] = await db
+      .select()
+      .from(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.tenantId, tenantId)));
+    return row;
+  },
+
+  /** Active endpoints subscribed to `eventType`. */
+  async listSubscribers(tenantId: string, eventType: string): Promise<WebhookEndpoint[]> {
+    return db
+      .select()
+      .from(webhookEndpoints)
+      .where(and(
+        eq(webhookEndpoints.tenantId, tenantId),
+        eq(webhookEndpoints.isActive, true),
+        sql`${webhookEndpoints.events} @> ${JSON.stringify([eventType])}::jsonb`,
+      ));
+  },
+
+  async createEndpoint(values: typeof webhookEndpoints.$inferInsert): Promise<PublicWebhookEndpoint> {
+    const [row] = await db.insert(webhookEndpoints).values(values).returning(endpointColumns);
+    return row;
+  },
+
+  async updateEndpoint(id: string, tenantId: string, updates: WebhookEndpointUpdate): Promise<PublicWebhookEndpoint | undefined> {
+    const [row] = await db
+      .update(webhookEndpoints)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.tenantId, tenantId)))
+      .returning(endpointColumns);
+    return row;
+  },
+
+  async deleteEndpoint(id: string, tenantId: string): Promise<boolean> {
+    const rows = await db
+      .delete(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.tenantId, tenantId)))
+      .returning({ id: webhookEndpoints.id });
+    return rows.length > 0;
+  },
+
+  async createDelivery(values: typeof webhookDeliveries.$inferInsert): Promise<WebhookDelivery> {
+    const [row] = await db.insert(webhookDeliveries).values(values).returning();
+    return row;
+  },
+
+  async getDelivery(id: string, tenantId: string): Promise<WebhookDelivery | undefined> {
+    const [row] = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.tenantId, tenantId)));
+    return row;
+  },
+
+  async listDeliveries(
+    tenantId: string,
+    filters: { endpointId?: string; status?: string; limit?: number } = {},
+  ): Promise<WebhookDeliverySummary[]> {
+    const conditions = [eq(webhookDeliveries.tenantId, tenantId)];
+    if (filters.endpointId) conditions.push(eq(webhookDeliveries.endpointId, filters.endpointId));
+    if (filters.status) conditions.push(eq(webhookDeliveries.status, filters.status));
+    return db
+      .select(deliveryListColumns)
+      .from(webhookDeliveries)
+      .where(and(...conditions))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(Math.min(filters.limit ?? 100, 500));
+  },
+
+  async updateDelivery(id: string, updates: WebhookDeliveryUpdate): Promise<void> {
+    await db
+      .update(webhookDeliveries)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(webhookDeliveries.id, id));
+  },
+};
@@ -0,0 +1,290 @@
+import { randomUUID } from "crypto";
+import { request as httpsRequest } from "https";
+import { AppError } from "../../lib/errors";
+import { decryptValue, encryptValue, isEncryptionAvailable } from "../../lib/encryption";
+import { enqueueJob } from "../../jobs/queue";
+import {
+  WebhookDeliveryStatus,
+  type PublicWebhookEndpoint,
+  type WebhookDelivery,
+} from "@shared/schema";
+import type { WebhookEventEnvelope, WebhookEventType } from "@shared/events";
+import { webhookRepo, type WebhookDeliverySummary } from "./webhook.repo";
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_SIGNATURE_HEADER,
+  generateWebhookSecret,
+  isAllowedWebhookUrl,
+  publicOnlyLookup,
+  signWebhookPayload,
+  webhookRetryDelayMs,
+} from "./webhookSecurity";
+
+export const WEBHOOK_DELIVERY_JOB_TYPE = "webhook_delivery";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_STORED_RESPONSE_CHARS = 2000;
+
+export interface WebhookEndpointInput {
+  url?: string;
+  description?: string | null;
+  events?: string[];
+  isActive?: boolean;
+}
+
+function encryptSecret(secret: string): string {
+  if (!isEncryptionAvailable()) {
+    throw AppError.internal("Webhooks require APP_ENCRYPTION_KEY to be configured");
+  }
+  return encryptValue(secret);
+}
+
+function assertAllowedUrl(url: string): void {
+  if (!isAllowedWebhookUrl(url)) {
+    throw AppError.badRequest("Webhook URLs must be public HTTPS addresses");
+  }
+}
+
+/**
+ * POSTs to a webhook endpoint over a connection whose address passed `publicOnlyLookup`.
+ * Redirects are returned as-is rather than followed.
+ */
+function postToEndpoint(url: string, headers: Record<string, string>, body: string): Promise<{ status: number; text: string }> {
+  return new Promise((resolve, reject) => {
+    const req = httpsRequest(url, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+      lookup: publicOnlyLookup,
+    }, (res) => {
+      let text = "";
+      res.setEncoding("utf8");
+      res.on("data", (chunk: string) => {
+        if (text.length < MAX_STORED_RESPONSE_CHARS) text += chunk;
+      });
+      res.on("end", () => {
+        clearTimeout(timer);
+        resolve({ status: res.statusCode ?? 0, text: text.slice(0, MAX_STORED_RESPONSE_CHARS) });
+      });
+      res.on("error", reject);
+    });
+    const timer = setTimeout(() => {
+      req.destroy();
+      reject(new Error("Request timed out"));
+    }, REQUEST_TIMEOUT_MS);
+    req.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    req.end(body);
+  });
+}
+
+async function enqueueDelivery(delivery: WebhookDelivery, userId: string): Promise<void> {
+  await enqueueJob({
+    tenantId: delivery.tenantId,
+    userId,
+    type: WEBHOOK_DELIVERY_JOB_TYPE,
+    payload: { deliveryId: delivery.id },
+    maxAttempts: delivery.maxAttempts,
+  });
+}
+
+export const webhookService = {
+  listEndpoints(tenantId: string): Promise<PublicWebhookEndpoint[]> {
+    return webhookRepo.listEndpoints(tenantId);
+  },
+
+  /** Registers an endpoint. The signing secret is returned here and on rotation, never otherwise. */
+  async createEndpoint(
+    tenantId: string,
+    userId: string,
+    input: WebhookEndpointInput & { url: string; events: string[] },
+  ): Promise<{ secret: string; endpoint: PublicWebhookEndpoint }> {
+    assertAllowedUrl(input.url);
+    const secret = generateWebhookSecret();
+    const endpoint = await webhookRepo.createEndpoint({
+      tenantId,
+      url: input.url,
+      description: input.description ?? null,
+      events: Array.from(new Set(input.events)),
+      isActive: input.isActive ?? true,
+      secretEncrypted: encryptSecret(secret),
+      createdByUserId: userId,
+    });
+    return { secret, endpoint };
+  },
+
+  async updateEndpoint(tenantId: string, id: string, input: WebhookEndpointInput): Promise<PublicWebhookEndpoint> {
+    if (input.url !== undefined) assertAllowedUrl(input.url);
+    const updated = await webhookRepo.updateEndpoint(id, tenantId, {
+      ...input,
+      ...(input.events ? { events: Array.from(new Set(input.events)) } : {}),
+    });
+    if (!updated) throw AppError.notFound("Webhook endpoint");
+    return updated;
+  },
+
+  async deleteEndpoint(tenantId: string, id: string): Promise<void> {
+    const deleted = await webhookRepo.deleteEndpoint(id, tenantId);
+    if (!deleted) throw AppError.notFound("Webhook endpoint");
+  },
+
+  async rotateSecret(tenantId: string, id: string): Promise<{ secret: string; endpoint: PublicWebhookEndpoint }> {
+    const secret = generateWebhookSecret();
+    const endpoint = await webhookRepo.updateEndpoint(id, tenantId, { secretEncrypted: encryptSecret(secret) });
+    if (!endpoint) throw AppError.notFound("Webhook endpoint");
+    return { secret, endpoint };
+  },
+
+  listDeliveries(
+    tenantId: string,
+    filters: { endpointId?: string; status?: string; limit?: number },
+  ): Promise<WebhookDeliverySummary[]> {
+    return webhookRepo.listDeliveries(tenantId, filters);
+  },
+
+  async getDelivery(tenantId: string, id: string): Promise<WebhookDelivery> {
+    const delivery = await webhookRepo.getDelivery(id, tenantId);
+    if (!delivery) throw AppError.notFound("Webhook delivery");
+    return delivery;
+  },
+
+  /** Sends the original payload again as a new delivery, keeping the same event id. */
+  async redeliver(tenantId: string, id: string, userId: string): Promise<WebhookDelivery> {
+    const original = await this.getDelivery(tenantId, id);
+    const endpoint = await webhookRepo.getEndpoint(original.endpointId, tenantId);
+    if (!endpoint) throw AppError.notFound("Webhook endpoint");
+    if (!endpoint.isActive) throw AppError.badRequest("Enable the endpoint before redelivering");
+
+    const delivery = await webhookRepo.createDelivery({
+      tenantId,
+      endpointId: endpoint.id,
+      eventId: original.eventId,
+      eventType: original.eventType,
+      payload: original.payload,
+      maxAttempts: WEBHOOK_MAX_ATTEMPTS,
+      redeliveryOf: original.redeliveryOf ?? original.id,
+    });
+    await enqueueDelivery(delivery, userId);
+    return delivery;
+  },
+
+  /** Records one delivery per subscribed endpoint and queues them. */
+  async publish(tenantId: string, type: WebhookEventType, data: Record<string, unknown>): Promise<number> {
+    const endpoints = await webhookRepo.listSubscribers(tenantId, type);
+    if (endpoints.length === 0) return 0;
+
+    const envelope: WebhookEventEnvelope = {
+      id: randomUUID(),
+      type,
+      tenantId,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+    for (const endpoint of endpoints) {
+      const delivery = await webhookRepo.createDelivery({
+        tenantId,
+        endpointId: endpoint.id,
+        eventId: envelope.id,
+        eventType: type,
+        payload: envelope,
+        maxAttempts: WEBHOOK_MAX_ATTEMPTS,
+      });
+      await enqueueDelivery(delivery, endpoint.createdByUserId);
+    }
+    return endpoints.length;
+  },
+
+  /**
+   * Makes one delivery attempt (the webhook_delivery job). Throws on failure so the job queue
+   * retries with backoff; once attempts are exhausted the delivery is marked dead.
+   */
+  async deliver(tenantId: string, deliveryId: string, now: Date = new Date()): Promise<WebhookDelivery["status"]> {
+    const delivery = await webhookRepo.getDelivery(deliveryId, tenantId);
+    if (!delivery) throw new Error(`Webhook delivery ${deliveryId} not found`);
+    if (delivery.status === WebhookDeliveryStatus.SUCCEEDED || delivery.status === WebhookDeliveryStatus.DEAD) {
+      return delivery.status;
+    }
+
+    const endpoint = await webhookRepo.getEndpoint(delivery.endpointId, tenantId);
+    if (!endpoint || !endpoint.isActive) {
+      await webhookRepo.updateDelivery(delivery.id, {
+        status: WebhookDeliveryStatus.DEAD,
+        lastError: "Endpoint disabled",
+        nextAttemptAt: null,
+      });
+      return WebhookDeliveryStatus.DEAD;
+    }
+
+    const attempt = delivery.attempts + 1;
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(now.getTime() / 1000);
+    const startedAt = Date.now();
+    let statusCode: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    if (!isAllowedWebhookUrl(endpoint.url)) {
+      error = "Endpoint URL is not allowed";
+    } else {
+      try {
+        const response = await postToEndpoint(endpoint.url, {
+          "Content-Type": "application/json",
+          "User-Agent": "MyWorkDay-Webhooks/1.0",
+          "X-Webhook-Event": delivery.eventType,
+          "X-Webhook-Delivery": delivery.id,
+          "X-Webhook-Timestamp": String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(decryptValue(endpoint.secretEncrypted), body, timestamp),
+        }, body);
+        statusCode = response.status;
+        responseBody = response.text;
+        if (statusCode < 200 || statusCode >= 300) error = `HTTP ${statusCode}`;
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+      }
+    }
+
+    const result = {
+      attempts: attempt,
+      lastStatusCode: statusCode,
+      lastResponseBody: responseBody,
+      lastDurationMs: Date.now() - startedAt,
+      lastError: error,
+    };
+
+    if (!error) {
+      await webhookRepo.updateDelivery(delivery.id, {
+        ...result,
+        status: WebhookDeliveryStatus.SUCCEEDED,
+        deliveredAt: new Date(),
+        nextAttemptAt: null,
+      });
+      await webhookRepo.updateEndpoint(endpoint.id, tenantId, { lastSuccessAt: new Date() });
+      return WebhookDeliveryStatus.SUCCEEDED;
+    }
+
+    const exhausted = attempt >= delivery.maxAttempts;
+    await webhookRepo.updateDelivery(delivery.id, {
+      ...result,
+      status: exhausted ? WebhookDeliveryStatus.DEAD : WebhookDeliveryStatus.RETRYING,
+      nextAttemptAt: exhausted ? null : new Date(Date.now() + webhookRetryDelayMs(attempt)),
+    });
+    await webhookRepo.updateEndpoint(endpoint.id, tenantId, { lastFailureAt: new Date() });
+    throw new Error(`Webhook delivery ${delivery.id} failed: ${error}`);
+  },
+};
+
+/**
+ * Fire-and-forget publish for route handlers: webhook failures never fail the request that
+ * triggered the event.
+ */
+export function publishWebhookEvent(
+  tenantId: string | null | undefined,
+  type: WebhookEventType,
+  data: Record<string, unknown>,
+): void {
+  if (!tenantId) return;
+  webhookService.publish(tenantId, type, data).catch((err) => {
+    console.error(`[webhooks] Failed to publish ${type}:`, err);
+  });
+}
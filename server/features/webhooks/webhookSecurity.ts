@@ -0,0 +1,109 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { lookup as dnsLookup } from "dns";
+import { isIP, type LookupFunction } from "net";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+const RETRY_BASE_MS = 60_000;
+const RETRY_MAX_MS = 60 * 60_000;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`. Receivers recompute the HMAC with
+ * their copy of the secret and should reject stale timestamps to prevent replays.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  nowSeconds: number,
+  toleranceSeconds = 300,
+): boolean {
+  const parts = Object.fromEntries(header.split(",").map((part) => part.split("=", 2) as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v1) return false;
+  if (Math.abs(nowSeconds - timestamp) > toleranceSeconds) return false;
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp).split("v1=")[1], "hex");
+  const received = Buffer.from(parts.v1, "hex");
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/** Exponential backoff after failed attempt `attempt` (1-based): 1m, 2m, 4m … capped at 1h. */
+export function webhookRetryDelayMs(attempt: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempt - 1), RETRY_MAX_MS);
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split(".").map(Number);
+  return a === 0 || a === 10 || a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224;
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const lower = address.toLowerCase();
+  if (lower === "::" || lower === "::1") return true;
+  if (lower.startsWith("::ffff:")) {
+    // URL parsing normalizes mapped addresses to hex, e.g. ::ffff:7f00:1
+    const mapped = lower.slice(7);
+    if (isIP(mapped) === 4) return isPrivateIPv4(mapped);
+    const [high, low] = mapped.split(":").map((part) => parseInt(part, 16));
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+}
+
+/** Private, loopback, link-local, multicast or unspecified addresses. */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isPrivateIPv4(address);
+  if (version === 6) return isPrivateIPv6(address);
+  return true;
+}
+
+/**
+ * Rejects endpoints that point back into our own network: localhost, internal hostnames and
+ * private, loopback or link-local IP literals. Hostnames are resolved at connect time by
+ * `publicOnlyLookup`.
+ */
+export function isAllowedWebhookUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== "https:") return false;
+  const host = parsed.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".local") || host.endsWith(".internal")) {
+    return false;
+  }
+  return isIP(host) === 0 || !isPrivateAddress(host);
+}
+
+/**
+ * `lookup` for outbound requests to tenant-supplied hosts. Fails when any resolved address is
+ * private, so a public name pointing (or rebinding) at our network never gets a connection.
+ */
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "");
+    if (addresses.length === 0 || addresses.some((a) => isPrivateAddress(a.address))) {
+      return callback(new Error(`${hostname} resolves to a non-public address`), "");
+    }
+    if (options.all) return callback(null, addresses);
+    return callback(null, addresses[0].address, addresses[0].family);
+  });
+};
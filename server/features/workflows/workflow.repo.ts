@@ -0,0 +1,178 @@
+import { and, asc, count, eq, inArray, isNotNull, sql } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  StatusCategory,
+  StatusChangeSource,
+  projects,
+  tasks,
+  workflowStatusSets,
+  workflowStatuses,
+  type StatusCategoryValue,
+  type WorkflowStatus,
+  type WorkflowStatusSet,
+} from "@shared/schema";
+import { statusHistoryRepo } from "../statusHistory/statusHistory.repo";
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type WorkflowSetValues = Pick<WorkflowStatusSet, "name" | "description" | "isDefault">;
+export type WorkflowStatusValues = Pick<
+  WorkflowStatus,
+  "key" | "name" | "color" | "category" | "orderIndex" | "requiredFields" | "allowedTransitions"
+>;
+
+/** Old status key → new status key (and its category) for the tasks being moved. */
+export type StatusRemap = Map<string, { status: string; category: StatusCategoryValue }>;
+
+/** Task scope of a remap: every project using a set, or a single project. */
+type TaskScope = { setId: string } | { projectId: string };
+
+function scopeCondition(tenantId: string, scope: TaskScope) {
+  if ("projectId" in scope) return and(eq(tasks.tenantId, tenantId), eq(tasks.projectId, scope.projectId));
+  return and(
+    eq(tasks.tenantId, tenantId),
+    inArray(
+      tasks.projectId,
+      db.select({ id: projects.id }).from(projects)
+        .where(and(eq(projects.tenantId, tenantId), eq(projects.workflowStatusSetId, scope.setId))),
+    ),
+  );
+}
+
+/** Moves tasks between status keys, recording each move; updated_at is left alone. */
+async function remapTasks(tx: Tx, tenantId: string, scope: TaskScope, remap: StatusRemap) {
+  for (const [from, to] of Array.from(remap)) {
+    if (from === to.status) continue;
+    const moved = await tx.update(tasks)
+      .set({
+        status: to.status,
+        completedAt: to.category === StatusCategory.DONE ? sql`COALESCE(${tasks.completedAt}, NOW())` : null,
+      })
+      .where(and(scopeCondition(tenantId, scope), eq(tasks.status, from)))
+      .returning({ id: tasks.id });
+    await statusHistoryRepo.insert(moved.map((task) => ({
+      tenantId,
+      taskId: task.id,
+      fromStatus: from,
+      toStatus: to.status,
+      toCategory: to.category,
+      changedBy: null,
+      source: StatusChangeSource.WORKFLOW,
+    })), tx);
+  }
+}
+
+async function clearDefault(tx: Tx, tenantId: string) {
+  await tx.update(workflowStatusSets).set({ isDefault: false })
+    .where(and(eq(workflowStatusSets.tenantId, tenantId), eq(workflowStatusSets.isDefault, true)));
+}
+
+async function insertStatuses(tx: Tx, tenantId: string, statusSetId: string, statuses: WorkflowStatusValues[]) {
+  if (statuses.length === 0) return;
+  await tx.insert(workflowStatuses).values(statuses.map((s) => ({ ...s, tenantId, statusSetId })));
+}
+
+export const workflowRepo = {
+  async listSets(tenantId: string) {
+    return db.select().from(workflowStatusSets)
+      .where(eq(workflowStatusSets.tenantId, tenantId))
+      .orderBy(asc(workflowStatusSets.name));
+  },
+
+  async getSet(id: string, tenantId: string) {
+    const [row] = await db.select().from(workflowStatusSets)
+      .where(and(eq(workflowStatusSets.id, id), eq(workflowStatusSets.tenantId, tenantId)));
+    return row || null;
+  },
+
+  async getDefaultSet(tenantId: string) {
+    const [row] = await db.select().from(workflowStatusSets)
+      .where(and(eq(workflowStatusSets.tenantId, tenantId), eq(workflowStatusSets.isDefault, true)))
+      .limit(1);
+    return row || null;
+  },
+
+  async listStatuses(tenantId: string, setIds?: string[]) {
+    if (setIds && setIds.length === 0) return [];
+    const conditions = [eq(workflowStatuses.tenantId, tenantId)];
+    if (setIds) conditions.push(inArray(workflowStatuses.statusSetId, setIds));
+    return db.select().from(workflowStatuses)
+      .where(and(...conditions))
+      .orderBy(asc(workflowStatuses.orderIndex));
+  },
+
+  async createSet(tenantId: string, values: WorkflowSetValues, statuses: WorkflowStatusValues[], createdBy: string | null) {
+    return db.transaction(async (tx) => {
+      if (values.isDefault) await clearDefault(tx, tenantId);
+      const [set] = await tx.insert(workflowStatusSets).values({ ...values, tenantId, createdBy }).returning();
+      await insertStatuses(tx, tenantId, set.id, statuses);
+      return set;
+    });
+  },
+
+  /** Replaces the set's statuses and moves tasks off removed keys in one transaction. */
+  async updateSet(id: string, tenantId: string, values: WorkflowSetValues, statuses: WorkflowStatusValues[], remap: StatusRemap) {
+    return db.transaction(async (tx) => {
+      if (values.isDefault) await clearDefault(tx, tenantId);
+      const [set] = await tx.update(workflowStatusSets)
+        .set({ ...values, updatedAt: new Date() })
+        .where(and(eq(workflowStatusSets.id, id), eq(workflowStatusSets.tenantId, tenantId)))
+        .returning();
+      if (!set) return null;
+      await tx.delete(workflowStatuses).where(eq(workflowStatuses.statusSetId, id));
+      await insertStatuses(tx, tenantId, id, statuses);
+      await remapTasks(tx, tenantId, { setId: id }, remap);
+      return set;
+    });
+  },
+
+  /** Deletes the set; its projects fall back to the built-in statuses (FK set null). */
+  async deleteSet(id: string, tenantId: string, remap: StatusRemap) {
+    await db.transaction(async (tx) => {
+      await remapTasks(tx, tenantId, { setId: id }, remap);
+      await tx.delete(workflowStatusSets)
+        .where(and(eq(workflowStatusSets.id, id), eq(workflowStatusSets.tenantId, tenantId)));
+    });
+  },
+
+  async countProjectsBySet(tenantId: string): Promise<Map<string, number>> {
+    const rows = await db
+      .select({ setId: projects.workflowStatusSetId, total: count() })
+      .from(projects)
+      .where(and(eq(projects.tenantId, tenantId), isNotNull(projects.workflowStatusSetId)))
+      .groupBy(projects.workflowStatusSetId);
+    return new Map(rows.map((r) => [r.setId as string, Number(r.total)]));
+  },
+
+  /** Projects that use a workflow set, keyed by project id. */
+  async projectSetIds(tenantId: string): Promise<Map<string, string>> {
+    const rows = await db
+      .select({ id: projects.id, setId: projects.workflowStatusSetId })
+      .from(projects)
+      .where(and(eq(projects.tenantId, tenantId), isNotNull(projects.workflowStatusSetId)));
+    return new Map(rows.map((r) => [r.id, r.setId as string]));
+  },
+
+  async getProject(projectId: string, tenantId: string) {
+    const [row] = await db
+      .select({ id: projects.id, workflowStatusSetId: projects.workflowStatusSetId })
+      .from(projects)
+      .where(and(eq(projects.id, projectId), eq(projects.tenantId, tenantId)));
+    return row || null;
+  },
+
+  async setProjectSet(projectId: string, tenantId: string, setId: string | null, remap: StatusRemap) {
+    await db.transaction(async (tx) => {
+      await tx.update(projects)
+        .set({ workflowStatusSetId: setId, updatedAt: new Date() })
+        .where(and(eq(projects.id, projectId), eq(projects.tenantId, tenantId)));
+      await remapTasks(tx, tenantId, { projectId }, remap);
+    });
+  },
+
+  /** Distinct task statuses within a scope. */
+  async taskStatuses(tenantId: string, scope: TaskScope): Promise<string[]> {
+    const rows = await db.selectDistinct({ status: tasks.status }).from(tasks).where(scopeCondition(tenantId, scope));
+    return rows.map((r) => r.status);
+  },
+};
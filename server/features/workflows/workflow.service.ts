@@ -0,0 +1,214 @@
+import { AppError } from "../../lib/errors";
+import {
+  StatusCategory,
+  type StatusCategoryValue,
+  type UpsertWorkflowStatusSet,
+  type WorkflowStatus,
+  type WorkflowStatusSet,
+} from "@shared/schema";
+import { workflowRepo, type StatusRemap, type WorkflowStatusValues } from "./workflow.repo";
+import {
+  builtInStatusFor,
+  checkStatusChange,
+  isClosedCategory,
+  remapStatus,
+  statusCategory,
+  type TaskFieldFacts,
+} from "./workflowRules";
+
+export interface WorkflowStatusSetWithStatuses extends WorkflowStatusSet {
+  statuses: WorkflowStatus[];
+  projectCount: number;
+}
+
+type StatusTask = { projectId: string | null; status: string | null };
+
+export interface TaskStatusChecks {
+  categoryOf: (task: StatusTask) => StatusCategoryValue;
+  isDone: (task: StatusTask) => boolean;
+  isOpen: (task: StatusTask) => boolean;
+}
+
+/** A project's effective workflow; `statusSet` is null when it uses the built-in statuses. */
+export interface ProjectWorkflow {
+  statusSet: WorkflowStatusSet | null;
+  statuses: WorkflowStatus[];
+}
+
+function toStatusValues(input: UpsertWorkflowStatusSet): WorkflowStatusValues[] {
+  return input.statuses.map((s, index) => ({
+    key: s.key,
+    name: s.name,
+    color: s.color ?? "#6B7280",
+    category: s.category,
+    orderIndex: index,
+    requiredFields: s.requiredFields ?? [],
+    allowedTransitions: s.allowedTransitions ?? null,
+  }));
+}
+
+/** Where tasks on keys missing from `next` go, judged by their category under `previous`. */
+function buildRemap(
+  taskStatuses: string[],
+  previous: WorkflowStatus[] | null,
+  next: WorkflowStatusValues[] | null,
+): StatusRemap {
+  const remap: StatusRemap = new Map();
+  for (const status of taskStatuses) {
+    const category = statusCategory(status, previous);
+    const target = next ? remapStatus(status, category, next) : builtInStatusFor(status, category);
+    if (target !== status) remap.set(status, { status: target, category: statusCategory(target, next) });
+  }
+  return remap;
+}
+
+export const workflowService = {
+  async listSets(tenantId: string): Promise<WorkflowStatusSetWithStatuses[]> {
+    const [sets, statuses, counts] = await Promise.all([
+      workflowRepo.listSets(tenantId),
+      workflowRepo.listStatuses(tenantId),
+      workflowRepo.countProjectsBySet(tenantId),
+    ]);
+    return sets.map((set) => ({
+      ...set,
+      statuses: statuses.filter((s) => s.statusSetId === set.id),
+      projectCount: counts.get(set.id) ?? 0,
+    }));
+  },
+
+  async getSet(tenantId: string, id: string): Promise<WorkflowStatusSetWithStatuses> {
+    const set = await workflowRepo.getSet(id, tenantId);
+    if (!set) throw AppError.notFound("Workflow");
+    const [statuses, counts] = await Promise.all([
+      workflowRepo.listStatuses(tenantId, [id]),
+      workflowRepo.countProjectsBySet(tenantId),
+    ]);
+    return { ...set, statuses, projectCount: counts.get(id) ?? 0 };
+  },
+
+  async createSet(tenantId: string, input: UpsertWorkflowStatusSet, userId: string | null) {
+    const set = await workflowRepo.createSet(tenantId, {
+      name: input.name,
+      description: input.description ?? null,
+      isDefault: input.isDefault ?? false,
+    }, toStatusValues(input), userId);
+    return this.getSet(tenantId, set.id);
+  },
+
+  /** Replaces the set's statuses; tasks on removed statuses move to one of the same category. */
+  async updateSet(tenantId: string, id: string, input: UpsertWorkflowStatusSet) {
+    const existing = await this.getSet(tenantId, id);
+    const statuses = toStatusValues(input);
+    const taskStatuses = await workflowRepo.taskStatuses(tenantId, { setId: id });
+    const updated = await workflowRepo.updateSet(id, tenantId, {
+      name: input.name,
+      description: input.description === undefined ? existing.description : input.description,
+      isDefault: input.isDefault ?? existing.isDefault,
+    }, statuses, buildRemap(taskStatuses, existing.statuses, statuses));
+    if (!updated) throw AppError.notFound("Workflow");
+    return this.getSet(tenantId, id);
+  },
+
+  /** Deletes the set; its projects return to the built-in statuses. */
+  async deleteSet(tenantId: string, id: string) {
+    const existing = await this.getSet(tenantId, id);
+    const taskStatuses = await workflowRepo.taskStatuses(tenantId, { setId: id });
+    await workflowRepo.deleteSet(id, tenantId, buildRemap(taskStatuses, existing.statuses, null));
+    return existing;
+  },
+
+  async getProjectWorkflow(tenantId: string, projectId: string): Promise<ProjectWorkflow> {
+    const project = await workflowRepo.getProject(projectId, tenantId);
+    if (!project) throw AppError.notFound("Project");
+    if (!project.workflowStatusSetId) return { statusSet: null, statuses: [] };
+    const [statusSet, statuses] = await Promise.all([
+      workflowRepo.getSet(project.workflowStatusSetId, tenantId),
+      workflowRepo.listStatuses(tenantId, [project.workflowStatusSetId]),
+    ]);
+    return { statusSet, statuses };
+  },
+
+  /** Switches a project's workflow, moving its tasks to statuses of the same category. */
+  async setProjectWorkflow(tenantId: string, projectId: string, statusSetId: string | null): Promise<ProjectWorkflow> {
+    const current = await this.getProjectWorkflow(tenantId, projectId);
+    if ((current.statusSet?.id ?? null) === statusSetId) return current;
+
+    let next: WorkflowStatus[] | null = null;
+    if (statusSetId) {
+      if (!(await workflowRepo.getSet(statusSetId, tenantId))) throw AppError.notFound("Workflow");
+      next = await workflowRepo.listStatuses(tenantId, [statusSetId]);
+    }
+    const taskStatuses = await workflowRepo.taskStatuses(tenantId, { projectId });
+    const previous = current.statusSet ? current.statuses : null;
+    await workflowRepo.setProjectSet(projectId, tenantId, statusSetId, buildRemap(taskStatuses, previous, next));
+    return this.getProjectWorkflow(tenantId, projectId);
+  },
+
+  /** The tenant's default workflow set id, assigned to new projects. */
+  async defaultSetId(tenantId: string): Promise<string | null> {
+    return (await workflowRepo.getDefaultSet(tenantId))?.id ?? null;
+  },
+
+  /** Workflow set for a new project: the requested one (validated), none for null, else the default. */
+  async resolveNewProjectSet(tenantId: string, requested: string | null | undefined): Promise<string | null> {
+    if (requested === null) return null;
+    if (requested === undefined) return this.defaultSetId(tenantId);
+    if (!(await workflowRepo.getSet(requested, tenantId))) throw AppError.badRequest("Unknown workflow");
+    return requested;
+  },
+
+  /** Statuses of the project's workflow, or null for built-in statuses and projectless tasks. */
+  async statusesForProject(tenantId: string, projectId: string | null | undefined): Promise<WorkflowStatus[] | null> {
+    if (!projectId) return null;
+    const project = await workflowRepo.getProject(projectId, tenantId);
+    if (!project?.workflowStatusSetId) return null;
+    const statuses = await workflowRepo.listStatuses(tenantId, [project.workflowStatusSetId]);
+    return statuses.length > 0 ? statuses : null;
+  },
+
+  /** Status for a new task: the requested one if the workflow has it, else its first not-started status. */
+  async initialStatus(tenantId: string, projectId: string | null | undefined, requested?: string | null): Promise<string | undefined> {
+    const statuses = await this.statusesForProject(tenantId, projectId);
+    if (!statuses || statuses.length === 0) return requested ?? undefined;
+    if (requested && statuses.some((s) => s.key === requested)) return requested;
+    return (statuses.find((s) => s.category === StatusCategory.NOT_STARTED) ?? statuses[0]).key;
+  },
+
+  /** Rejects a status change that breaks the project's transition or required-field rules. */
+  async assertStatusChange(
+    tenantId: string,
+    projectId: string | null | undefined,
+    from: string,
+    to: string,
+    task: TaskFieldFacts,
+  ): Promise<WorkflowStatus[] | null> {
+    const statuses = await this.statusesForProject(tenantId, projectId);
+    if (!statuses) return null;
+    const errors = checkStatusChange(statuses, from, to, task);
+    if (errors.length > 0) throw AppError.badRequest(errors.join(". "), { status: to, errors });
+    return statuses;
+  },
+
+  /**
+   * Category, done and open checks for in-memory task lists, following each project's
+   * workflow. Without a tenant only the built-in statuses apply.
+   */
+  async statusChecks(tenantId: string | null | undefined): Promise<TaskStatusChecks> {
+    const [projectSets, statuses] = tenantId
+      ? await Promise.all([workflowRepo.projectSetIds(tenantId), workflowRepo.listStatuses(tenantId)])
+      : [new Map<string, string>(), []];
+    const bySet = new Map<string, WorkflowStatus[]>();
+    for (const status of statuses) {
+      bySet.set(status.statusSetId, [...(bySet.get(status.statusSetId) ?? []), status]);
+    }
+    const categoryOf = (task: StatusTask) => {
+      const setId = task.projectId ? projectSets.get(task.projectId) : undefined;
+      return statusCategory(task.status ?? "", setId ? bySet.get(setId) : null);
+    };
+    return {
+      categoryOf,
+      isDone: (task) => categoryOf(task) === StatusCategory.DONE,
+      isOpen: (task) => !isClosedCategory(categoryOf(task)),
+    };
+  },
+};
@@ -0,0 +1,118 @@
+import {
+  StatusCategory,
+  WorkflowRequiredField,
+  type StatusCategoryValue,
+  type WorkflowRequiredFieldValue,
+} from "@shared/schema";
+
+/** The subset of a workflow status the rules need. */
+export interface WorkflowStatusRule {
+  key: string;
+  name: string;
+  category: string;
+  requiredFields: WorkflowRequiredFieldValue[];
+  allowedTransitions: string[] | null;
+}
+
+/** Task facts checked against a status's required fields. */
+export interface TaskFieldFacts {
+  assigneeCount: number;
+  dueDate: Date | string | null;
+  estimateMinutes: number | null;
+  description: string | null;
+}
+
+/**
+ * Categories of the statuses used by projects without a workflow set, including legacy
+ * values written by older clients and imports. Anything else counts as active.
+ */
+export const BUILT_IN_STATUS_CATEGORIES: Readonly<Record<string, StatusCategoryValue>> = {
+  todo: StatusCategory.NOT_STARTED,
+  in_progress: StatusCategory.ACTIVE,
+  in_review: StatusCategory.ACTIVE,
+  blocked: StatusCategory.ACTIVE,
+  done: StatusCategory.DONE,
+  completed: StatusCategory.DONE,
+  cancelled: StatusCategory.CANCELLED,
+};
+
+const CATEGORIES = new Set<string>(Object.values(StatusCategory));
+
+const REQUIRED_FIELD_LABELS: Record<WorkflowRequiredFieldValue, string> = {
+  [WorkflowRequiredField.ASSIGNEE]: "an assignee",
+  [WorkflowRequiredField.DUE_DATE]: "a due date",
+  [WorkflowRequiredField.ESTIMATE]: "an estimate",
+  [WorkflowRequiredField.DESCRIPTION]: "a description",
+};
+
+/** Category of `status` within `statuses`, or of the built-in status when no set applies. */
+export function statusCategory(status: string, statuses?: WorkflowStatusRule[] | null): StatusCategoryValue {
+  const custom = statuses?.find((s) => s.key === status);
+  if (custom && CATEGORIES.has(custom.category)) return custom.category as StatusCategoryValue;
+  return BUILT_IN_STATUS_CATEGORIES[status] ?? StatusCategory.ACTIVE;
+}
+
+export function isClosedCategory(category: string): boolean {
+  return category === StatusCategory.DONE || category === StatusCategory.CANCELLED;
+}
+
+/** Required fields of `status` that the task does not have yet. */
+export function missingRequiredFields(status: WorkflowStatusRule, task: TaskFieldFacts): WorkflowRequiredFieldValue[] {
+  return status.requiredFields.filter((field) => {
+    switch (field) {
+      case WorkflowRequiredField.ASSIGNEE: return task.assigneeCount === 0;
+      case WorkflowRequiredField.DUE_DATE: return !task.dueDate;
+      case WorkflowRequiredField.ESTIMATE: return !task.estimateMinutes || task.estimateMinutes <= 0;
+      case WorkflowRequiredField.DESCRIPTION: return !task.description?.trim();
+      default: return false;
+    }
+  });
+}
+
+/**
+ * Problems with moving a task from `from` to `to` under a workflow; empty when allowed.
+ * A task whose current status is not part of the set (e.g. after switching sets) may move
+ * anywhere.
+ */
+export function checkStatusChange(
+  statuses: WorkflowStatusRule[],
+  from: string,
+  to: string,
+  task: TaskFieldFacts,
+): string[] {
+  const target = statuses.find((s) => s.key === to);
+  if (!target) return [`"${to}" is not a status in this project's workflow`];
+  if (from === to) return [];
+
+  const errors: string[] = [];
+  const current = statuses.find((s) => s.key === from);
+  if (current?.allowedTransitions && !current.allowedTransitions.includes(to)) {
+    errors.push(`Tasks cannot move from ${current.name} to ${target.name}`);
+  }
+  const missing = missingRequiredFields(target, task);
+  if (missing.length > 0) {
+    errors.push(`${target.name} requires ${missing.map((f) => REQUIRED_FIELD_LABELS[f]).join(", ")}`);
+  }
+  return errors;
+}
+
+/**
+ * Where a task in `status` lands when its project moves to `statuses`: the same key if it
+ * exists, else the first status of the same category, else the first status.
+ */
+export function remapStatus(status: string, category: StatusCategoryValue, statuses: WorkflowStatusRule[]): string {
+  if (statuses.length === 0) return status;
+  if (statuses.some((s) => s.key === status)) return status;
+  return (statuses.find((s) => s.category === category) ?? statuses[0]).key;
+}
+
+/** Built-in status a task lands in when its project drops its workflow set. */
+export function builtInStatusFor(status: string, category: StatusCategoryValue): string {
+  if (BUILT_IN_STATUS_CATEGORIES[status] === category) return status;
+  switch (category) {
+    case StatusCategory.NOT_STARTED: return "todo";
+    case StatusCategory.DONE: return "done";
+    case StatusCategory.CANCELLED: return "cancelled";
+    default: return "in_progress";
+  }
+}
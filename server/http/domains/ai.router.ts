@@ -1,8 +1,6 @@
 import { createApiRouter } from "../routerFactory";
 import { z } from "zod";
 import {
-  isAIEnabled,
-  getAIConfigStatus,
   suggestTaskBreakdown,
   suggestProjectPlan,
   generateTaskDescription,
@@ -17,7 +15,9 @@ import { and, eq, gt, desc } from "drizzle-orm";
 import { getEmployeeProfileReport } from "../../reports/employeeProfileAggregator";
 import { buildEmployeeSummaryPayload, hashPayload } from "../../ai/employeeSummary/buildEmployeeSummaryPayload";
 import { generateEmployeeSummary, SUMMARY_VERSION } from "../../ai/employeeSummary/generateEmployeeSummary";
-import { getAIProvider } from "../../services/ai/getAIProvider";
+import { getAIProvider, getAIStatus, isAIAvailable } from "../../services/ai/getAIProvider";
+import { getAIUsageSummary } from "../../services/ai/completeAI";
+import { modelForFeature } from "../../services/ai/providers";
 
 const router = createApiRouter({
   policy: "authTenant",
@@ -39,6 +39,14 @@ async function requireAdmin(req: any, res: any): Promise<boolean> {
   return true;
 }
 
+function getTenantId(req: any): string {
+  return req.tenant?.effectiveTenantId || req.user?.tenantId;
+}
+
+function aiContext(req: any) {
+  return { tenantId: getTenantId(req), userId: getCurrentUserId(req) };
+}
+
 router.get("/v1/ai/status", async (req, res) => {
   try {
     const currentUserId = getCurrentUserId(req);
@@ -48,11 +56,14 @@ router.get("/v1/ai/status", async (req, res) => {
       return res.json({ enabled: false, isOperational: false, error: null });
     }
 
-    const configStatus = await getAIConfigStatus();
+    const status = await getAIStatus(getTenantId(req));
     res.json({
-      enabled: configStatus.config !== null,
-      isOperational: configStatus.config !== null,
-      error: configStatus.error || null,
+      enabled: status.available,
+      isOperational: status.available,
+      error: status.available ? null : "AI is not configured",
+      driver: status.driver,
+      model: status.model,
+      source: status.source,
     });
   } catch (error) {
     console.error("[AI] Failed to get AI status:", error);
@@ -71,7 +82,7 @@ router.post("/v1/ai/suggest/task-breakdown", async (req, res) => {
     const allowed = await requireAdmin(req, res);
     if (!allowed) return;
 
-    const enabled = await isAIEnabled();
+    const enabled = await isAIAvailable(getTenantId(req));
     if (!enabled) {
       return res.status(400).json({
         error: "AI features are not enabled",
@@ -88,7 +99,7 @@ router.post("/v1/ai/suggest/task-breakdown", async (req, res) => {
     }
 
     const { taskTitle, taskDescription, projectContext } = parsed.data;
-    const suggestion = await suggestTaskBreakdown(taskTitle, taskDescription, projectContext);
+    const suggestion = await suggestTaskBreakdown(aiContext(req), taskTitle, taskDescription, projectContext);
 
     if (!suggestion) {
       return res.status(500).json({ error: "Failed to generate suggestions" });
@@ -115,7 +126,7 @@ router.post("/v1/ai/suggest/project-plan", async (req, res) => {
     const allowed = await requireAdmin(req, res);
     if (!allowed) return;
 
-    const enabled = await isAIEnabled();
+    const enabled = await isAIAvailable(getTenantId(req));
     if (!enabled) {
       return res.status(400).json({
         error: "AI features are not enabled",
@@ -132,7 +143,7 @@ router.post("/v1/ai/suggest/project-plan", async (req, res) => {
     }
 
     const { projectName, projectDescription, clientName, teamSize } = parsed.data;
-    const suggestion = await suggestProjectPlan(projectName, projectDescription, clientName, teamSize);
+    const suggestion = await suggestProjectPlan(aiContext(req), projectName, projectDescription, clientName, teamSize);
 
     if (!suggestion) {
       return res.status(500).json({ error: "Failed to generate project plan" });
@@ -157,7 +168,7 @@ router.post("/v1/ai/suggest/task-description", async (req, res) => {
     const allowed = await requireAdmin(req, res);
     if (!allowed) return;
 
-    const enabled = await isAIEnabled();
+    const enabled = await isAIAvailable(getTenantId(req));
     if (!enabled) {
       return res.status(400).json({
         error: "AI features are not enabled",
@@ -174,7 +185,7 @@ router.post("/v1/ai/suggest/task-description", async (req, res) => {
     }
 
     const { taskTitle, projectContext } = parsed.data;
-    const description = await generateTaskDescription(taskTitle, projectContext);
+    const description = await generateTaskDescription(aiContext(req), taskTitle, projectContext);
 
     if (!description) {
       return res.status(500).json({ error: "Failed to generate description" });
@@ -189,6 +200,20 @@ router.post("/v1/ai/suggest/task-description", async (req, res) => {
   }
 });
 
+router.get("/v1/ai/usage", async (req, res) => {
+  try {
+    const allowed = await requireAdmin(req, res);
+    if (!allowed) return;
+
+    const days = Math.min(Math.max(parseInt(String(req.query.days || "30"), 10) || 30, 1), 365);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    res.json(await getAIUsageSummary(getTenantId(req), since));
+  } catch (error) {
+    console.error("[AI] Failed to get AI usage:", error);
+    res.status(500).json({ error: "Failed to get AI usage" });
+  }
+});
+
 // ============================================================
 // EMPLOYEE AI SUMMARY — Cached, grounded, cost-controlled
 // ============================================================
@@ -261,7 +286,7 @@ async function buildAndStoreSummary(
   }
 
   const generated = await generateEmployeeSummary(
-    tenantId,
+    { tenantId, userId, provider: providerResult },
     payload,
     config.features.enableAiSummaryRedaction
   );
@@ -286,7 +311,7 @@ async function buildAndStoreSummary(
     rangeStart: startDate.toISOString().split("T")[0],
     rangeEnd: endDate.toISOString().split("T")[0],
     inputHash,
-    model: providerResult.config.model,
+    model: modelForFeature(providerResult.config, "employee_summary"),
     summaryVersion: SUMMARY_VERSION,
     headline: generated.headline,
     summaryMarkdown: generated.markdown,
@@ -333,7 +358,7 @@ router.get("/v1/ai/employee/:employeeId/summary", async (req, res) => {
       return res.status(403).json({ error: "AI Employee Summary feature is not enabled.", code: "FEATURE_DISABLED" });
     }
 
-    const tenantId = (req as any).tenant?.effectiveTenantId || (req.user as any)?.tenantId;
+    const tenantId = getTenantId(req);
     const userId = getCurrentUserId(req);
     const { employeeId } = req.params;
     const { startDate, endDate } = parseRangeForSummary(req);
@@ -389,7 +414,7 @@ router.post("/v1/ai/employee/:employeeId/summary/refresh", async (req, res) => {
       return res.status(403).json({ error: "AI Employee Summary feature is not enabled.", code: "FEATURE_DISABLED" });
     }
 
-    const tenantId = (req as any).tenant?.effectiveTenantId || (req.user as any)?.tenantId;
+    const tenantId = getTenantId(req);
     const userId = getCurrentUserId(req);
     const { employeeId } = req.params;
     const { startDate, endDate } = parseRangeForSummary(req);
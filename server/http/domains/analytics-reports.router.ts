@@ -5,6 +5,7 @@ import { UserRole } from "@shared/schema";
 import { AppError, handleRouteError } from "../../lib/errors";
 import { db } from "../../db";
 import { sql } from "drizzle-orm";
+import { taskIsDone, taskIsOpen } from "../../reports/taskStatusSql";
 
 const router = createApiRouter({
   policy: "authTenant",
@@ -35,11 +36,11 @@ router.get("/reports/overview", async (req, res) => {
     const taskStats = firstRow(await db.execute(sql`
       SELECT
         COUNT(*)::int AS total_tasks,
-        COUNT(*) FILTER (WHERE status = 'done')::int AS completed_tasks,
-        COUNT(*) FILTER (WHERE status != 'done')::int AS open_tasks,
-        COUNT(*) FILTER (WHERE due_date < NOW() AND status != 'done')::int AS overdue_tasks,
+        COUNT(*) FILTER (WHERE ${taskIsDone("tasks")})::int AS completed_tasks,
+        COUNT(*) FILTER (WHERE ${taskIsOpen("tasks")})::int AS open_tasks,
+        COUNT(*) FILTER (WHERE due_date < NOW() AND ${taskIsOpen("tasks")})::int AS overdue_tasks,
         CASE WHEN COUNT(*) > 0
-          THEN ROUND(COUNT(*) FILTER (WHERE status = 'done')::numeric / COUNT(*)::numeric * 100, 1)
+          THEN ROUND(COUNT(*) FILTER (WHERE ${taskIsDone("tasks")})::numeric / COUNT(*)::numeric * 100, 1)
           ELSE 0
         END AS completion_rate
       FROM tasks
@@ -108,11 +109,11 @@ router.get("/reports/overview", async (req, res) => {
         GROUP BY DATE(created_at)
       ) c ON c.day = d.day
       LEFT JOIN (
-        SELECT DATE(updated_at) AS day, COUNT(*)::int AS completed
+        SELECT DATE(completed_at) AS day, COUNT(*)::int AS completed
         FROM tasks
-        WHERE tenant_id = ${tenantId} AND is_personal = false AND status = 'done'
-          AND updated_at >= CURRENT_DATE - INTERVAL '29 days'
-        GROUP BY DATE(updated_at)
+        WHERE tenant_id = ${tenantId} AND is_personal = false AND ${taskIsDone("tasks")}
+          AND completed_at >= CURRENT_DATE - INTERVAL '29 days'
+        GROUP BY DATE(completed_at)
       ) comp ON comp.day = d.day
       ORDER BY d.day
     `);
@@ -218,7 +219,7 @@ router.get("/reports/tasks/analytics", async (req, res) => {
         END AS bucket,
         COUNT(*)::int AS count
       FROM tasks
-      WHERE tenant_id = ${tenantId} AND is_personal = false AND status != 'done' AND due_date IS NOT NULL
+      WHERE tenant_id = ${tenantId} AND is_personal = false AND ${taskIsOpen("tasks")} AND due_date IS NOT NULL
       GROUP BY bucket
     `);
 
@@ -240,11 +241,11 @@ router.get("/reports/tasks/analytics", async (req, res) => {
         GROUP BY DATE(created_at)
       ) c ON c.day = d.day
       LEFT JOIN (
-        SELECT DATE(updated_at) AS day, COUNT(*)::int AS completed
+        SELECT DATE(completed_at) AS day, COUNT(*)::int AS completed
         FROM tasks
-        WHERE tenant_id = ${tenantId} AND is_personal = false AND status = 'done'
-          AND updated_at >= CURRENT_DATE - make_interval(days => ${days})
-        GROUP BY DATE(updated_at)
+        WHERE tenant_id = ${tenantId} AND is_personal = false AND ${taskIsDone("tasks")}
+          AND completed_at >= CURRENT_DATE - make_interval(days => ${days})
+        GROUP BY DATE(completed_at)
       ) comp ON comp.day = d.day
       ORDER BY d.day
     `);
@@ -255,9 +256,9 @@ router.get("/reports/tasks/analytics", async (req, res) => {
         p.name AS project_name,
         p.color AS project_color,
         COUNT(t.id)::int AS total,
-        COUNT(t.id) FILTER (WHERE t.status = 'done')::int AS completed,
+        COUNT(t.id) FILTER (WHERE ${taskIsDone()})::int AS completed,
         CASE WHEN COUNT(t.id) > 0
-          THEN ROUND(COUNT(t.id) FILTER (WHERE t.status = 'done')::numeric / COUNT(t.id)::numeric * 100, 1)
+          THEN ROUND(COUNT(t.id) FILTER (WHERE ${taskIsDone()})::numeric / COUNT(t.id)::numeric * 100, 1)
           ELSE 0
         END AS completion_rate
       FROM projects p
@@ -275,9 +276,9 @@ router.get("/reports/tasks/analytics", async (req, res) => {
         COALESCE(u.first_name || ' ' || u.last_name, u.email) AS name,
         u.avatar_url,
         COUNT(t.id)::int AS total_tasks,
-        COUNT(t.id) FILTER (WHERE t.status = 'done')::int AS completed,
-        COUNT(t.id) FILTER (WHERE t.status != 'done')::int AS open,
-        COUNT(t.id) FILTER (WHERE t.due_date < NOW() AND t.status != 'done')::int AS overdue
+        COUNT(t.id) FILTER (WHERE ${taskIsDone()})::int AS completed,
+        COUNT(t.id) FILTER (WHERE ${taskIsOpen()})::int AS open,
+        COUNT(t.id) FILTER (WHERE t.due_date < NOW() AND ${taskIsOpen()})::int AS overdue
       FROM task_assignees ta
       JOIN users u ON u.id = ta.user_id
       JOIN tasks t ON t.id = ta.task_id AND t.is_personal = false AND t.tenant_id = ${tenantId}
@@ -338,7 +339,7 @@ router.get("/reports/clients/analytics", async (req, res) => {
         SELECT
           p.client_id,
           COUNT(tsk.id)::int AS task_count,
-          COUNT(tsk.id) FILTER (WHERE tsk.status = 'done')::int AS completed_tasks
+          COUNT(tsk.id) FILTER (WHERE ${taskIsDone("tsk")})::int AS completed_tasks
         FROM tasks tsk
         JOIN projects p ON p.id = tsk.project_id
         WHERE tsk.tenant_id = ${tenantId} AND tsk.is_personal = false
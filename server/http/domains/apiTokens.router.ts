@@ -0,0 +1,64 @@
+/**
+ * API Tokens Domain Router
+ *
+ * Personal API tokens for scripts and integrations. Managed with a session only: this domain is
+ * not part of the public API, so a token can never create or revoke tokens.
+ *
+ * Endpoint inventory (3 endpoints):
+ *   GET    /api-tokens?all=true  — the current user's tokens (all tenant tokens for admins with ?all)
+ *   POST   /api-tokens           — create a token; the secret is only returned in this response
+ *   DELETE /api-tokens/:id       — revoke a token (own, or any in the tenant for admins)
+ */
+import { Request } from "express";
+import { createApiRouter } from "../routerFactory";
+import { getEffectiveTenantId } from "../../middleware/tenantContext";
+import { AppError, handleRouteError, validateBody } from "../../lib/errors";
+import { createApiTokenSchema } from "@shared/schema";
+import { apiTokenService, type ApiTokenActor } from "../../features/apiTokens/apiToken.service";
+
+const router = createApiRouter({
+  policy: "authTenant",
+  skipEnvelope: true,
+});
+
+function requireTenantId(req: Request): string {
+  const tenantId = getEffectiveTenantId(req);
+  if (!tenantId) throw AppError.tenantRequired();
+  return tenantId;
+}
+
+function currentActor(req: Request): ApiTokenActor {
+  if (!req.user) throw AppError.unauthorized();
+  return { id: req.user.id, tenantId: req.user.tenantId, role: req.user.role };
+}
+
+router.get("/api-tokens", async (req, res) => {
+  try {
+    const tenantId = requireTenantId(req);
+    res.json(await apiTokenService.list(tenantId, currentActor(req), req.query.all === "true"));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/api-tokens", req);
+  }
+});
+
+router.post("/api-tokens", async (req, res) => {
+  try {
+    const tenantId = requireTenantId(req);
+    const data = validateBody(req.body, createApiTokenSchema, res);
+    if (!data) return;
+    res.status(201).json(await apiTokenService.create(tenantId, currentActor(req), data));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/api-tokens", req);
+  }
+});
+
+router.delete("/api-tokens/:id", async (req, res) => {
+  try {
+    const tenantId = requireTenantId(req);
+    res.json(await apiTokenService.revoke(tenantId, req.params.id, currentActor(req)));
+  } catch (error) {
+    return handleRouteError(res, error, "DELETE /api/api-tokens/:id", req);
+  }
+});
+
+export default router;
@@ -0,0 +1,189 @@
+/**
+ * Billing Domain Router
+ *
+ * Hourly rate cards and client invoices generated from billable (out-of-scope) time entries.
+ * Distinct from tenant subscription billing in routes/tenantBilling.ts. Admin only.
+ *
+ * Endpoint inventory (11 endpoints):
+ *   Rate cards:
+ *     GET    /billing-rates                — list rate cards
+ *     POST   /billing-rates                — create (any of userId/role/projectId/clientId, or none for default)
+ *     PATCH  /billing-rates/:id            — update amount/currency/effective dates
+ *     DELETE /billing-rates/:id            — delete
+ *
+ *   Invoices:
+ *     POST   /invoices/preview             — price uninvoiced billable time without saving
+ *     POST   /invoices                     — generate a draft and lock its time entries
+ *     GET    /invoices?clientId=&status=   — list invoices
+ *     GET    /invoices/:id                 — invoice with lines
+ *     PATCH  /invoices/:id                 — notes/due date, or status (issued, paid, void)
+ *     DELETE /invoices/:id                 — delete a draft and unlock its entries
+ *     GET    /invoices/:id/export?format=  — download as csv (default) or pdf
+ */
+import { Request, Response } from "express";
+import { createApiRouter } from "../routerFactory";
+import { getEffectiveTenantId } from "../../middleware/tenantContext";
+import { getCurrentUserId } from "../../routes/helpers";
+import { AppError, handleRouteError, sendError, validateBody } from "../../lib/errors";
+import {
+  UserRole,
+  createBillingRateSchema,
+  updateBillingRateSchema,
+  generateInvoiceSchema,
+  updateInvoiceSchema,
+} from "@shared/schema";
+import { billingService } from "../../features/billing/billing.service";
+
+const router = createApiRouter({
+  policy: "authTenant",
+  skipEnvelope: true,
+});
+
+function requireAdminRole(req: Request, res: Response): boolean {
+  const role = (req.user as any)?.role;
+  if (role !== UserRole.ADMIN && role !== UserRole.SUPER_USER) {
+    sendError(res, AppError.forbidden("Admin access required"), req);
+    return false;
+  }
+  return true;
+}
+
+function requireTenant(req: Request, res: Response): string | null {
+  if (!requireAdminRole(req, res)) return null;
+  const tenantId = getEffectiveTenantId(req);
+  if (!tenantId) {
+    sendError(res, AppError.tenantRequired(), req);
+    return null;
+  }
+  return tenantId;
+}
+
+router.get("/billing-rates", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    res.json(await billingService.listRates(tenantId));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/billing-rates", req);
+  }
+});
+
+router.post("/billing-rates", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, createBillingRateSchema, res);
+    if (!data) return;
+    res.status(201).json(await billingService.createRate(tenantId, data, getCurrentUserId(req)));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/billing-rates", req);
+  }
+});
+
+router.patch("/billing-rates/:id", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, updateBillingRateSchema, res);
+    if (!data) return;
+    res.json(await billingService.updateRate(tenantId, req.params.id, data));
+  } catch (error) {
+    return handleRouteError(res, error, "PATCH /api/billing-rates/:id", req);
+  }
+});
+
+router.delete("/billing-rates/:id", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    await billingService.deleteRate(tenantId, req.params.id);
+    res.status(204).send();
+  } catch (error) {
+    return handleRouteError(res, error, "DELETE /api/billing-rates/:id", req);
+  }
+});
+
+router.post("/invoices/preview", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, generateInvoiceSchema, res);
+    if (!data) return;
+    res.json(await billingService.previewInvoice(tenantId, data));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/invoices/preview", req);
+  }
+});
+
+router.post("/invoices", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, generateInvoiceSchema, res);
+    if (!data) return;
+    res.status(201).json(await billingService.generateInvoice(tenantId, data, getCurrentUserId(req)));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/invoices", req);
+  }
+});
+
+router.get("/invoices", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    const clientId = typeof req.query.clientId === "string" ? req.query.clientId : undefined;
+    const status = typeof req.query.status === "string" ? req.query.status : undefined;
+    res.json(await billingService.listInvoices(tenantId, { clientId, status }));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/invoices", req);
+  }
+});
+
+router.get("/invoices/:id", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    res.json(await billingService.getInvoice(tenantId, req.params.id));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/invoices/:id", req);
+  }
+});
+
+router.patch("/invoices/:id", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, updateInvoiceSchema, res);
+    if (!data) return;
+    res.json(await billingService.updateInvoice(tenantId, req.params.id, data));
+  } catch (error) {
+    return handleRouteError(res, error, "PATCH /api/invoices/:id", req);
+  }
+});
+
+router.delete("/invoices/:id", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    await billingService.deleteInvoice(tenantId, req.params.id);
+    res.status(204).send();
+  } catch (error) {
+    return handleRouteError(res, error, "DELETE /api/invoices/:id", req);
+  }
+});
+
+router.get("/invoices/:id/export", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    const format = req.query.format === "pdf" ? "pdf" : "csv";
+    const file = await billingService.exportInvoice(tenantId, req.params.id, format);
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+    res.send(file.body);
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/invoices/:id/export", req);
+  }
+});
+
+export default router;
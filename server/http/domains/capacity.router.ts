@@ -0,0 +1,296 @@
+/**
+ * Capacity Domain Router
+ *
+ * Per-user working hours (capacity profiles with effective dates), tenant holiday calendars,
+ * and time-off requests with admin approval. Forecasting, utilization reports and timesheets
+ * read available hours through capacityService.
+ *
+ * Endpoint inventory (15 endpoints):
+ *   GET    /capacity/profiles?userId=                  — capacity profiles (own unless admin)
+ *   PUT    /capacity/profiles/:userId                  — admin: create or replace the profile starting on effectiveFrom
+ *   DELETE /capacity/profiles/:id                      — admin: delete a profile
+ *   GET    /capacity/availability?from=&to=&userIds=   — working hours per day after holidays and approved time off
+ *   GET    /holiday-calendars                          — calendars with their holidays
+ *   POST   /holiday-calendars                          — admin: create a calendar
+ *   PATCH  /holiday-calendars/:id                      — admin: rename or make default
+ *   DELETE /holiday-calendars/:id                      — admin: delete a calendar and its holidays
+ *   POST   /holiday-calendars/:id/holidays             — admin: add (or rename) a holiday
+ *   DELETE /holiday-calendars/:id/holidays/:holidayId  — admin: remove a holiday
+ *   GET    /time-off?userId=&status=&from=&to=         — time-off requests (own unless admin)
+ *   GET    /time-off/calendar?from=&to=                — everyone's approved time off, without notes, for calendars
+ *   POST   /time-off                                   — request time off for the current user
+ *   POST   /time-off/:id/review                        — admin: approve or reject a pending request
+ *   POST   /time-off/:id/cancel                        — withdraw a pending or approved request (own, or admin)
+ */
+import { Request, Response } from "express";
+import { createApiRouter } from "../routerFactory";
+import { getEffectiveTenantId } from "../../middleware/tenantContext";
+import { getCurrentUserId } from "../../routes/helpers";
+import { AppError, handleRouteError, sendError, validateBody } from "../../lib/errors";
+import {
+  UserRole,
+  TimeOffStatus,
+  upsertCapacityProfileSchema,
+  upsertHolidayCalendarSchema,
+  createHolidaySchema,
+  createTimeOffRequestSchema,
+  reviewTimeOffRequestSchema,
+} from "@shared/schema";
+import { capacityService, toIsoDate, type CapacityActor } from "../../features/capacity/capacity.service";
+import { addDaysIso } from "../../features/capacity/capacityCalendar";
+
+const router = createApiRouter({
+  policy: "authTenant",
+  skipEnvelope: true,
+});
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_RANGE_DAYS = 366;
+const DEFAULT_RANGE_DAYS = 28;
+const STATUSES = new Set<string>(Object.values(TimeOffStatus));
+
+function isAdmin(req: Request): boolean {
+  const role = req.user?.role;
+  return role === UserRole.ADMIN || role === UserRole.SUPER_USER;
+}
+
+function requireTenant(req: Request, res: Response): string | null {
+  const tenantId = getEffectiveTenantId(req);
+  if (!tenantId) {
+    sendError(res, AppError.tenantRequired(), req);
+    return null;
+  }
+  return tenantId;
+}
+
+function requireAdminTenant(req: Request, res: Response): string | null {
+  if (!isAdmin(req)) {
+    sendError(res, AppError.forbidden("Admin access required"), req);
+    return null;
+  }
+  return requireTenant(req, res);
+}
+
+function currentActor(req: Request): CapacityActor {
+  return {
+    id: getCurrentUserId(req),
+    name: req.user?.name || req.user?.email || "Someone",
+  };
+}
+
+function optionalDate(value: unknown, name: string): string | undefined {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value !== "string" || !DATE_PATTERN.test(value)) throw AppError.badRequest(`${name} must be YYYY-MM-DD`);
+  return value;
+}
+
+/** `?from=&to=` as an inclusive date range; defaults to the next four weeks. */
+function parseRange(query: Request["query"]): { from: string; to: string } {
+  const from = optionalDate(query.from, "from") ?? toIsoDate(new Date());
+  const to = optionalDate(query.to, "to") ?? addDaysIso(from, DEFAULT_RANGE_DAYS - 1);
+  if (to < from) throw AppError.badRequest("to must not be before from");
+  if (to > addDaysIso(from, MAX_RANGE_DAYS - 1)) throw AppError.badRequest(`Range is limited to ${MAX_RANGE_DAYS} days`);
+  return { from, to };
+}
+
+// ── Capacity profiles ─────────────────────────────────────────────────────────
+
+router.get("/capacity/profiles", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    const requestedUserId = typeof req.query.userId === "string" ? req.query.userId : undefined;
+    const userId = isAdmin(req) ? requestedUserId : getCurrentUserId(req);
+    res.json(await capacityService.listProfiles(tenantId, userId));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/capacity/profiles", req);
+  }
+});
+
+router.put("/capacity/profiles/:userId", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, upsertCapacityProfileSchema, res);
+    if (!data) return;
+    res.json(await capacityService.saveProfile(tenantId, req.params.userId, {
+      ...data,
+      timezone: data.timezone ?? "UTC",
+    }, getCurrentUserId(req)));
+  } catch (error) {
+    return handleRouteError(res, error, "PUT /api/capacity/profiles/:userId", req);
+  }
+});
+
+router.delete("/capacity/profiles/:id", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    await capacityService.deleteProfile(tenantId, req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    return handleRouteError(res, error, "DELETE /api/capacity/profiles/:id", req);
+  }
+});
+
+router.get("/capacity/availability", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    const { from, to } = parseRange(req.query);
+    const userIds = typeof req.query.userIds === "string" && req.query.userIds
+      ? req.query.userIds.split(",").filter(Boolean).slice(0, 200)
+      : [getCurrentUserId(req)];
+    res.json({ from, to, users: await capacityService.availability(tenantId, userIds, from, to) });
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/capacity/availability", req);
+  }
+});
+
+// ── Holiday calendars ─────────────────────────────────────────────────────────
+
+router.get("/holiday-calendars", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    res.json(await capacityService.listCalendars(tenantId));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/holiday-calendars", req);
+  }
+});
+
+router.post("/holiday-calendars", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, upsertHolidayCalendarSchema, res);
+    if (!data) return;
+    res.status(201).json(await capacityService.saveCalendar(tenantId, null, data));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/holiday-calendars", req);
+  }
+});
+
+router.patch("/holiday-calendars/:id", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, upsertHolidayCalendarSchema, res);
+    if (!data) return;
+    res.json(await capacityService.saveCalendar(tenantId, req.params.id, data));
+  } catch (error) {
+    return handleRouteError(res, error, "PATCH /api/holiday-calendars/:id", req);
+  }
+});
+
+router.delete("/holiday-calendars/:id", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    await capacityService.deleteCalendar(tenantId, req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    return handleRouteError(res, error, "DELETE /api/holiday-calendars/:id", req);
+  }
+});
+
+router.post("/holiday-calendars/:id/holidays", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, createHolidaySchema, res);
+    if (!data) return;
+    res.status(201).json(await capacityService.addHoliday(tenantId, req.params.id, data));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/holiday-calendars/:id/holidays", req);
+  }
+});
+
+router.delete("/holiday-calendars/:id/holidays/:holidayId", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    await capacityService.deleteHoliday(tenantId, req.params.id, req.params.holidayId);
+    res.status(204).end();
+  } catch (error) {
+    return handleRouteError(res, error, "DELETE /api/holiday-calendars/:id/holidays/:holidayId", req);
+  }
+});
+
+// ── Time off ──────────────────────────────────────────────────────────────────
+
+router.get("/time-off", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    const requestedUserId = typeof req.query.userId === "string" ? req.query.userId : undefined;
+    const userId = isAdmin(req) ? requestedUserId : getCurrentUserId(req);
+    const status = typeof req.query.status === "string" && STATUSES.has(req.query.status) ? req.query.status : undefined;
+    res.json(await capacityService.listTimeOff(tenantId, {
+      userId,
+      status,
+      from: optionalDate(req.query.from, "from"),
+      to: optionalDate(req.query.to, "to"),
+    }));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/time-off", req);
+  }
+});
+
+router.get("/time-off/calendar", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    const { from, to } = parseRange(req.query);
+    const requests = await capacityService.listTimeOff(tenantId, { status: TimeOffStatus.APPROVED, from, to });
+    res.json(requests.map((request) => ({
+      id: request.id,
+      userId: request.userId,
+      userName: request.userName || request.userEmail,
+      startDate: request.startDate,
+      endDate: request.endDate,
+      minutesPerDay: request.minutesPerDay,
+    })));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/time-off/calendar", req);
+  }
+});
+
+router.post("/time-off", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, createTimeOffRequestSchema, res);
+    if (!data) return;
+    res.status(201).json(await capacityService.requestTimeOff(tenantId, currentActor(req), {
+      ...data,
+      type: data.type ?? "vacation",
+    }));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/time-off", req);
+  }
+});
+
+router.post("/time-off/:id/review", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, reviewTimeOffRequestSchema, res);
+    if (!data) return;
+    res.json(await capacityService.reviewTimeOff(tenantId, req.params.id, currentActor(req), data));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/time-off/:id/review", req);
+  }
+});
+
+router.post("/time-off/:id/cancel", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    res.json(await capacityService.cancelTimeOff(tenantId, req.params.id, getCurrentUserId(req), isAdmin(req)));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/time-off/:id/cancel", req);
+  }
+});
+
+export default router;
@@ -5,8 +5,8 @@ import { getCurrentUserId } from "../../../middleware/authContext";
 import { asyncHandler } from "../../../middleware/asyncHandler";
 import { AppError } from "../../../lib/errors";
 import { getCurrentTenantId } from "./shared";
-import { getAIProviderOrThrow, AINotConfiguredError } from "../../../services/ai/getAIProvider";
-import OpenAI from "openai";
+import { getAIProvider, getAIProviderOrThrow } from "../../../services/ai/getAIProvider";
+import { completeAI } from "../../../services/ai/completeAI";
 
 const router = Router();
 
@@ -26,16 +26,6 @@ async function requireAdminForAI(req: Request): Promise<void> {
   }
 }
 
-async function getOpenAIClientForTenant(tenantId: string): Promise<{ client: OpenAI; model: string; maxTokens: number; temperature: number }> {
-  const result = await getAIProviderOrThrow(tenantId);
-  return {
-    client: new OpenAI({ apiKey: result.config.apiKey }),
-    model: result.config.model,
-    maxTokens: result.config.maxTokens,
-    temperature: result.config.temperature,
-  };
-}
-
 router.get(
   "/ai/status",
   asyncHandler(async (req: Request, res: Response) => {
@@ -55,8 +45,7 @@ router.get(
 
     let aiAvailable = false;
     try {
-      const result = await getAIProviderOrThrow(tenantId);
-      aiAvailable = !!result;
+      aiAvailable = (await getAIProvider(tenantId)) !== null;
     } catch {
       aiAvailable = false;
     }
@@ -104,10 +93,10 @@ router.post(
       return `[${time}] ${name}: ${m.body}`;
     }).join("\n");
 
-    const { client, model, maxTokens, temperature } = await getOpenAIClientForTenant(tenantId);
-
-    const response = await client.chat.completions.create({
-      model,
+    const completion = await completeAI({
+      tenantId,
+      userId,
+      feature: "chat_summary",
       messages: [
         {
           role: "system",
@@ -118,16 +107,14 @@ router.post(
           content: `Please summarize the following chat conversation (${messages.length} messages):\n\n${transcript}`,
         },
       ],
-      max_tokens: maxTokens,
-      temperature,
     });
 
-    const summary = response.choices[0]?.message?.content || "Unable to generate summary.";
+    const summary = completion.text || "Unable to generate summary.";
 
     res.json({
       summary,
       messageCount: messages.length,
-      model: response.model,
+      model: completion.model,
     });
   })
 );
@@ -176,10 +163,10 @@ router.post(
       return `[${time}] ${name}: ${m.body}`;
     }).join("\n");
 
-    const { client, model, maxTokens, temperature } = await getOpenAIClientForTenant(tenantId);
-
-    const response = await client.chat.completions.create({
-      model,
+    const completion = await completeAI({
+      tenantId,
+      userId,
+      feature: "chat_summary",
       messages: [
         {
           role: "system",
@@ -190,16 +177,14 @@ router.post(
           content: `Please summarize this thread (${threadMessages.length} messages):\n\n${transcript}`,
         },
       ],
-      max_tokens: maxTokens,
-      temperature,
     });
 
-    const summary = response.choices[0]?.message?.content || "Unable to generate summary.";
+    const summary = completion.text || "Unable to generate summary.";
 
     res.json({
       summary,
       messageCount: threadMessages.length,
-      model: response.model,
+      model: completion.model,
     });
   })
 );
@@ -250,10 +235,13 @@ router.post(
       return `${name}: ${m.body}`;
     }).join("\n");
 
-    const { client, model, maxTokens, temperature } = await getOpenAIClientForTenant(tenantId);
+    const provider = await getAIProviderOrThrow(tenantId);
 
-    const response = await client.chat.completions.create({
-      model,
+    const completion = await completeAI({
+      tenantId,
+      userId,
+      provider,
+      feature: "chat_reply",
       messages: [
         {
           role: "system",
@@ -264,11 +252,11 @@ router.post(
           content: `Based on this conversation, draft a reply:\n\n${transcript}`,
         },
       ],
-      max_tokens: 300,
-      temperature: Math.min(temperature + 0.1, 1.0),
+      maxTokens: 300,
+      temperature: Math.min(provider.config.temperature + 0.1, 1.0),
     });
 
-    const draft = response.choices[0]?.message?.content || "Unable to generate draft.";
+    const draft = completion.text || "Unable to generate draft.";
 
     res.json({ draft });
   })
@@ -309,7 +297,7 @@ router.post(
 
     if (!message) throw AppError.notFound("Message");
 
-    const { client, model, temperature } = await getOpenAIClientForTenant(tenantId);
+    const provider = await getAIProviderOrThrow(tenantId);
 
     const surroundingMessages = allMessages
       .filter(m => {
@@ -323,8 +311,12 @@ router.post(
       })
       .join("\n");
 
-    const response = await client.chat.completions.create({
-      model,
+    const completion = await completeAI({
+      tenantId,
+      userId,
+      provider,
+      feature: "chat_to_task",
+      json: true,
       messages: [
         {
           role: "system",
@@ -335,15 +327,13 @@ router.post(
           content: `Convert this message into a task. Message: "${message.body}"\n\nContext:\n${surroundingMessages}`,
         },
       ],
-      max_tokens: 300,
-      temperature: Math.min(temperature, 0.5),
-      response_format: { type: "json_object" },
+      maxTokens: 300,
+      temperature: Math.min(provider.config.temperature, 0.5),
     });
 
-    const content = response.choices[0]?.message?.content;
     let taskData: { title: string; description?: string; priority?: string };
     try {
-      taskData = JSON.parse(content || "{}");
+      taskData = JSON.parse(completion.text || "{}");
     } catch {
       taskData = { title: message.body.slice(0, 100), description: message.body };
     }
@@ -6,6 +6,9 @@ import { AppError } from "../../../lib/errors";
 import { emitToChatChannel } from "../../../realtime/socket";
 import { CHAT_EVENTS } from "@shared/events";
 import { getCurrentTenantId } from "./shared";
+import { ReminderSource } from "@shared/schema";
+import { reminderService } from "../../../features/reminders/reminders.service";
+import { splitReminderText, formatReminderTime } from "../../../features/reminders/reminderTime";
 
 const router = Router();
 
@@ -70,7 +73,7 @@ router.post(
     const userId = getCurrentUserId(req);
     if (!tenantId) throw AppError.forbidden("Tenant context required");
 
-    const { command, args, channelId } = req.body;
+    const { command, args, channelId, timezone } = req.body;
     if (!command) throw AppError.badRequest("command is required");
 
     const user = await storage.getUser(userId);
@@ -193,40 +196,32 @@ router.post(
       }
 
       case "remind": {
-        if (!args) throw AppError.badRequest("Usage: /remind in 30 minutes Check deployment");
+        if (!args) throw AppError.badRequest("Usage: /remind tomorrow 9am Check deployment");
 
-        const inMatch = args.match(/^in\s+(\d+)\s+(minute|minutes|min|mins|hour|hours|hr|hrs|day|days)\s+(.+)$/i);
-        if (!inMatch) {
+        const parsed = splitReminderText(args, { timeZone: timezone });
+        if (!parsed) {
           throw AppError.badRequest(
-            'Could not parse reminder. Format: /remind in <number> <minutes|hours|days> <message>'
+            "Could not parse reminder. Format: /remind <when> <message>, e.g. /remind in 30 minutes Check deployment or /remind next monday 10am Standup notes"
           );
         }
 
-        const amount = parseInt(inMatch[1], 10);
-        const unit = inMatch[2].toLowerCase();
-        const reminderMessage = inMatch[3].trim().replace(/[<>]/g, "");
+        const reminderMessage = parsed.message.replace(/[<>]/g, "").trim();
         if (!reminderMessage) throw AppError.badRequest("Reminder message cannot be empty");
-
-        let delayMs = 0;
-        let unitLabel = "";
-        if (unit.startsWith("min")) {
-          delayMs = amount * 60 * 1000;
-          unitLabel = amount === 1 ? "minute" : "minutes";
-        } else if (unit.startsWith("h")) {
-          delayMs = amount * 60 * 60 * 1000;
-          unitLabel = amount === 1 ? "hour" : "hours";
-        } else if (unit.startsWith("d")) {
-          delayMs = amount * 24 * 60 * 60 * 1000;
-          unitLabel = amount === 1 ? "day" : "days";
-        }
-
-        const remindAt = new Date(Date.now() + delayMs);
+        if (reminderMessage.length > 1000) throw AppError.badRequest("Reminder message too long (max 1000 chars)");
+        const remindAt = reminderService.checkLeadTime(parsed.remindAt);
+
+        const reminder = await reminderService.create(tenantId, userId, {
+          message: reminderMessage,
+          remindAt,
+          sourceType: ReminderSource.CHAT,
+          sourceId: channelId || null,
+        });
 
         res.json({
           success: true,
           type: "remind",
-          message: `Reminder set: "${reminderMessage}" in ${amount} ${unitLabel}`,
-          data: { remindAt: remindAt.toISOString(), message: reminderMessage },
+          message: `Reminder set for ${formatReminderTime(remindAt, timezone)}: "${reminderMessage}"`,
+          data: { reminderId: reminder.id, remindAt: remindAt.toISOString(), message: reminderMessage },
         });
         break;
       }
@@ -241,7 +236,7 @@ router.post(
               { name: "/assign", usage: "/assign @user", description: "Assign a user to the conversation" },
               { name: "/due", usage: "/due tomorrow", description: "Set a due date reminder" },
               { name: "/create-task", usage: "/create-task Title", description: "Create a new personal task" },
-              { name: "/remind", usage: "/remind in 30 min Message", description: "Set a reminder" },
+              { name: "/remind", usage: "/remind tomorrow 9am Message", description: "Set a reminder (in 30 min, next monday, ...)" },
               { name: "/help", usage: "/help", description: "Show this help" },
             ],
           },
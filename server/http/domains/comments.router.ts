@@ -102,7 +102,11 @@ router.post("/tasks/:taskId/comments", async (req, res) => {
             appName: "MyWorkDay",
           };
           
+          const { inboundEmailService } = await import("../../features/inboundEmail/inboundEmail.service");
+          
           const rendered = await emailTemplateService.renderByKey(tenantId, "mention_notification", templateVars);
+          // Replying to the email adds a comment to the task
+          const replyTo = task ? await inboundEmailService.replyAddressFor(tenantId, "task", task.id) : null;
           
           await emailOutboxService.sendEmail({
             tenantId,
@@ -111,6 +115,7 @@ router.post("/tasks/:taskId/comments", async (req, res) => {
             subject: rendered?.subject || `${commenter?.name || 'Someone'} mentioned you in a comment`,
             textBody: rendered?.textBody || `${commenter?.name || 'Someone'} mentioned you in a comment on task "${task?.title || 'a task'}":\n\n"${plainTextBody}"`,
             htmlBody: rendered?.htmlBody,
+            replyTo,
             metadata: {
               taskId: task?.id,
               taskTitle: task?.title,
@@ -0,0 +1,192 @@
+/**
+ * Custom Fields Domain Router
+ *
+ * Tenant-defined typed fields (text, number, date, select, multi-select, user, URL, currency)
+ * on tasks, projects and clients.
+ *
+ * Endpoint inventory (7 endpoints):
+ *   Definitions:
+ *     GET    /custom-fields?entityType=task          — list definitions (any member)
+ *     POST   /custom-fields                          — create definition (admin)
+ *     PATCH  /custom-fields/:id                      — update label/options/required/order (admin)
+ *     DELETE /custom-fields/:id                      — delete definition and its values (admin)
+ *
+ *   Values (staff only; private tasks and projects the user cannot see are excluded):
+ *     GET    /custom-fields/values/:entityType       — values for many entities (list views);
+ *                                                      tasks may be scoped with ?projectId=
+ *     GET    /custom-fields/values/:entityType/:entityId — values of one entity, keyed by field key
+ *     PUT    /custom-fields/values/:entityType/:entityId — set values ({ values: { key: value } })
+ */
+import { Request, Response } from "express";
+import { createApiRouter } from "../routerFactory";
+import { storage } from "../../storage";
+import { getEffectiveTenantId } from "../../middleware/tenantContext";
+import { getCurrentUserId } from "../../routes/helpers";
+import { AppError, handleRouteError, sendError, validateBody } from "../../lib/errors";
+import {
+  UserRole,
+  CustomFieldEntityType,
+  createCustomFieldDefinitionSchema,
+  updateCustomFieldDefinitionSchema,
+  setCustomFieldValuesSchema,
+  type CustomFieldEntityTypeValue,
+} from "@shared/schema";
+import { customFieldService } from "../../features/customFields/customField.service";
+import { canViewProject } from "../../lib/privateVisibility";
+
+const router = createApiRouter({
+  policy: "authTenant",
+  skipEnvelope: true,
+});
+
+const ENTITY_TYPES = Object.values(CustomFieldEntityType) as string[];
+
+function requireAdminRole(req: Request, res: Response): boolean {
+  const role = req.user?.role;
+  if (role !== UserRole.ADMIN && role !== UserRole.SUPER_USER) {
+    sendError(res, AppError.forbidden("Admin access required"), req);
+    return false;
+  }
+  return true;
+}
+
+/** Portal users never see internal field values such as contract value. */
+function requireStaffRole(req: Request, res: Response): boolean {
+  if (req.user?.role === UserRole.CLIENT) {
+    sendError(res, AppError.forbidden("Staff access required"), req);
+    return false;
+  }
+  return true;
+}
+
+function parseEntityType(value: unknown): CustomFieldEntityTypeValue | null {
+  return typeof value === "string" && ENTITY_TYPES.includes(value) ? value as CustomFieldEntityTypeValue : null;
+}
+
+router.get("/custom-fields", async (req, res) => {
+  try {
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) return sendError(res, AppError.tenantRequired(), req);
+
+    const entityType = req.query.entityType === undefined ? undefined : parseEntityType(req.query.entityType);
+    if (entityType === null) return sendError(res, AppError.badRequest("Invalid entity type"), req);
+
+    res.json(await customFieldService.listDefinitions(tenantId, entityType));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/custom-fields", req);
+  }
+});
+
+router.post("/custom-fields", async (req, res) => {
+  try {
+    if (!requireAdminRole(req, res)) return;
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) return sendError(res, AppError.tenantRequired(), req);
+
+    const data = validateBody(req.body, createCustomFieldDefinitionSchema, res);
+    if (!data) return;
+
+    const definition = await customFieldService.createDefinition(tenantId, data, getCurrentUserId(req));
+    res.status(201).json(definition);
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/custom-fields", req);
+  }
+});
+
+router.patch("/custom-fields/:id", async (req, res) => {
+  try {
+    if (!requireAdminRole(req, res)) return;
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) return sendError(res, AppError.tenantRequired(), req);
+
+    const data = validateBody(req.body, updateCustomFieldDefinitionSchema, res);
+    if (!data) return;
+
+    res.json(await customFieldService.updateDefinition(tenantId, req.params.id, data));
+  } catch (error) {
+    return handleRouteError(res, error, "PATCH /api/custom-fields/:id", req);
+  }
+});
+
+router.delete("/custom-fields/:id", async (req, res) => {
+  try {
+    if (!requireAdminRole(req, res)) return;
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) return sendError(res, AppError.tenantRequired(), req);
+
+    await customFieldService.deleteDefinition(tenantId, req.params.id);
+    res.status(204).send();
+  } catch (error) {
+    return handleRouteError(res, error, "DELETE /api/custom-fields/:id", req);
+  }
+});
+
+router.get("/custom-fields/values/:entityType", async (req, res) => {
+  try {
+    if (!requireStaffRole(req, res)) return;
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) return sendError(res, AppError.tenantRequired(), req);
+
+    const entityType = parseEntityType(req.params.entityType);
+    if (!entityType) return sendError(res, AppError.badRequest("Invalid entity type"), req);
+
+    const userId = getCurrentUserId(req);
+    let projectId: string | undefined;
+    if (entityType === CustomFieldEntityType.TASK && typeof req.query.projectId === "string") {
+      const project = await storage.getProjectByIdAndTenant(req.query.projectId, tenantId);
+      if (!project || !(await canViewProject(tenantId, project.id, userId))) {
+        return sendError(res, AppError.notFound("Project"), req);
+      }
+      projectId = project.id;
+    }
+
+    res.json(await customFieldService.getVisibleValues(tenantId, entityType, userId, projectId));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/custom-fields/values/:entityType", req);
+  }
+});
+
+router.get("/custom-fields/values/:entityType/:entityId", async (req, res) => {
+  try {
+    if (!requireStaffRole(req, res)) return;
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) return sendError(res, AppError.tenantRequired(), req);
+
+    const entityType = parseEntityType(req.params.entityType);
+    if (!entityType) return sendError(res, AppError.badRequest("Invalid entity type"), req);
+
+    await customFieldService.assertCanAccess(tenantId, entityType, req.params.entityId, getCurrentUserId(req));
+    res.json(await customFieldService.getValues(tenantId, entityType, req.params.entityId));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/custom-fields/values/:entityType/:entityId", req);
+  }
+});
+
+router.put("/custom-fields/values/:entityType/:entityId", async (req, res) => {
+  try {
+    if (!requireStaffRole(req, res)) return;
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) return sendError(res, AppError.tenantRequired(), req);
+
+    const entityType = parseEntityType(req.params.entityType);
+    if (!entityType) return sendError(res, AppError.badRequest("Invalid entity type"), req);
+
+    const data = validateBody(req.body, setCustomFieldValuesSchema, res);
+    if (!data) return;
+
+    await customFieldService.assertCanAccess(tenantId, entityType, req.params.entityId, getCurrentUserId(req));
+
+    const values = await customFieldService.setValues(
+      tenantId,
+      entityType,
+      req.params.entityId,
+      data.values,
+      getCurrentUserId(req),
+    );
+    res.json(values);
+  } catch (error) {
+    return handleRouteError(res, error, "PUT /api/custom-fields/values/:entityType/:entityId", req);
+  }
+});
+
+export default router;
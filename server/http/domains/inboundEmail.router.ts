@@ -0,0 +1,109 @@
+/**
+ * Inbound Email Domain Router
+ *
+ * Tenant admins turn on the tenant's inbound mailbox and review mail that could not be filed
+ * automatically (quarantine). Mail itself arrives at /api/v1/webhooks/inbound-email
+ * (inboundEmailWebhook.router.ts).
+ *
+ * Endpoint inventory (5 endpoints):
+ *   GET  /inbound-email/settings              — mailbox address and whether it accepts mail
+ *   PUT  /inbound-email/settings              — enable/disable and rename the mailbox
+ *   GET  /inbound-email/messages              — received mail, newest first (?status=&limit=&offset=)
+ *   POST /inbound-email/messages/:id/release  — file a quarantined message as a ticket for a client
+ *   POST /inbound-email/messages/:id/discard  — drop a quarantined message
+ */
+import { Request, Response } from "express";
+import { z } from "zod";
+import { createApiRouter } from "../routerFactory";
+import { getEffectiveTenantId } from "../../middleware/tenantContext";
+import { AppError, handleRouteError, sendError, validateBody } from "../../lib/errors";
+import {
+  InboundEmailStatus,
+  UserRole,
+  releaseInboundEmailSchema,
+  updateInboundMailboxSchema,
+} from "@shared/schema";
+import { inboundEmailService } from "../../features/inboundEmail/inboundEmail.service";
+
+const router = createApiRouter({
+  policy: "authTenant",
+  skipEnvelope: true,
+});
+
+const listQuerySchema = z.object({
+  status: z.enum(Object.values(InboundEmailStatus) as [string, ...string[]]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+function requireAdminTenant(req: Request, res: Response): string | null {
+  const role = req.user?.role;
+  if (role !== UserRole.ADMIN && role !== UserRole.SUPER_USER) {
+    sendError(res, AppError.forbidden("Admin access required"), req);
+    return null;
+  }
+  const tenantId = getEffectiveTenantId(req);
+  if (!tenantId) {
+    sendError(res, AppError.tenantRequired(), req);
+    return null;
+  }
+  return tenantId;
+}
+
+router.get("/inbound-email/settings", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    res.json(await inboundEmailService.getSettings(tenantId));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/inbound-email/settings", req);
+  }
+});
+
+router.put("/inbound-email/settings", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, updateInboundMailboxSchema, res);
+    if (!data) return;
+    res.json(await inboundEmailService.updateSettings(tenantId, data));
+  } catch (error) {
+    return handleRouteError(res, error, "PUT /api/inbound-email/settings", req);
+  }
+});
+
+router.get("/inbound-email/messages", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const query = listQuerySchema.safeParse(req.query);
+    if (!query.success) return sendError(res, AppError.badRequest("Invalid query", query.error.errors), req);
+    res.json(await inboundEmailService.list(tenantId, query.data));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/inbound-email/messages", req);
+  }
+});
+
+router.post("/inbound-email/messages/:id/release", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, releaseInboundEmailSchema, res);
+    if (!data) return;
+    res.json(await inboundEmailService.release(tenantId, req.params.id, data, req.user!.id));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/inbound-email/messages/:id/release", req);
+  }
+});
+
+router.post("/inbound-email/messages/:id/discard", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    res.json(await inboundEmailService.discard(tenantId, req.params.id, req.user!.id));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/inbound-email/messages/:id/discard", req);
+  }
+});
+
+export default router;
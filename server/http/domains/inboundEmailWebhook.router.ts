@@ -0,0 +1,57 @@
+/**
+ * Inbound Email Webhook Router
+ *
+ * Receives mail for tenant mailboxes (`<key>@INBOUND_EMAIL_DOMAIN`) from the mail provider's
+ * inbound route. Authenticated with INBOUND_EMAIL_WEBHOOK_SECRET, sent as the
+ * X-Inbound-Email-Secret header or a `secret` query parameter for providers that only take a URL.
+ *
+ * Bodies:
+ *   application/json                  — the generic payload (from, to, subject, text, attachments…)
+ *                                       or { raw } with the MIME message
+ *   message/rfc822 | text/plain       — the raw MIME message; `?recipient=` names the envelope recipient
+ *
+ * Endpoint inventory (1 endpoint):
+ *   POST /inbound-email — parse, route to a ticket, conversation or task, or quarantine
+ */
+import { createHash, timingSafeEqual } from "crypto";
+import { raw, type Request } from "express";
+import { createApiRouter } from "../routerFactory";
+import { AppError, handleRouteError } from "../../lib/errors";
+import { inboundEmailService } from "../../features/inboundEmail/inboundEmail.service";
+import {
+  inboundWebhookPayloadSchema,
+  parseMime,
+  parseWebhookPayload,
+} from "../../features/inboundEmail/inboundParser";
+
+const router = createApiRouter({ policy: "public", skipEnvelope: true });
+
+function secretMatches(req: Request, secret: string): boolean {
+  const provided = req.get("x-inbound-email-secret") ?? (typeof req.query.secret === "string" ? req.query.secret : "");
+  if (!provided) return false;
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(provided), digest(secret));
+}
+
+router.post(
+  "/inbound-email",
+  raw({ type: ["message/rfc822", "text/plain"], limit: "25mb" }),
+  async (req, res) => {
+    try {
+      const secret = process.env.INBOUND_EMAIL_WEBHOOK_SECRET;
+      if (!secret) throw new AppError(503, "INTERNAL_ERROR", "Inbound email is not configured");
+      if (!secretMatches(req, secret)) throw AppError.unauthorized("Invalid inbound email secret");
+
+      const parsed = Buffer.isBuffer(req.body)
+        ? await parseMime(req.body, typeof req.query.recipient === "string" ? req.query.recipient : undefined)
+        : await parseWebhookPayload(inboundWebhookPayloadSchema.parse(req.body));
+
+      // Unknown recipients are acknowledged too, so the provider does not keep retrying them
+      res.json(await inboundEmailService.receive(parsed));
+    } catch (error) {
+      return handleRouteError(res, error, "POST /api/v1/webhooks/inbound-email", req);
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,25 @@
+/**
+ * OpenAPI Router
+ *
+ * GET /api/v1/openapi.json — the public API (endpoints callable with API tokens) as OpenAPI 3,
+ * generated from the route registry. Public so API clients can fetch it before authenticating;
+ * it is mounted ahead of the session-guarded /api domains.
+ */
+import { createApiRouter } from "../routerFactory";
+import { handleRouteError } from "../../lib/errors";
+import { buildOpenApiSpec } from "../publicApi";
+
+const router = createApiRouter({
+  policy: "public",
+  skipEnvelope: true,
+});
+
+router.get("/openapi.json", (req, res) => {
+  try {
+    res.json(buildOpenApiSpec());
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/v1/openapi.json", req);
+  }
+});
+
+export default router;
@@ -0,0 +1,120 @@
+/**
+ * Privacy Domain Router
+ *
+ * Data subject requests: an admin asks for an export of everything recorded about a user or
+ * client contact, or for their erasure; a second admin approves before a background job runs it.
+ *
+ * Endpoint inventory (7 endpoints):
+ *   GET    /data-subject-requests                 — requests, newest first
+ *   GET    /data-subject-requests/subjects?q=     — users and client contacts matching a name or email
+ *   POST   /data-subject-requests                 — create a request; it waits for approval
+ *   GET    /data-subject-requests/:id             — one request with its audit trail
+ *   POST   /data-subject-requests/:id/approve     — approve and queue the job (not by the requester)
+ *   POST   /data-subject-requests/:id/reject      — reject a pending request
+ *   GET    /data-subject-requests/:id/download    — presigned URL for a completed export
+ */
+import { Request, Response } from "express";
+import { createApiRouter } from "../routerFactory";
+import { getEffectiveTenantId } from "../../middleware/tenantContext";
+import { getCurrentUserId } from "../../routes/helpers";
+import { AppError, handleRouteError, sendError, validateBody } from "../../lib/errors";
+import { UserRole, createDataSubjectRequestSchema, decideDataSubjectRequestSchema } from "@shared/schema";
+import { privacyService } from "../../features/privacy/privacy.service";
+
+const router = createApiRouter({
+  policy: "authTenant",
+  skipEnvelope: true,
+});
+
+function requireAdminTenant(req: Request, res: Response): string | null {
+  const role = req.user?.role;
+  if (role !== UserRole.ADMIN && role !== UserRole.SUPER_USER) {
+    sendError(res, AppError.forbidden("Admin access required"), req);
+    return null;
+  }
+  const tenantId = getEffectiveTenantId(req);
+  if (!tenantId) {
+    sendError(res, AppError.tenantRequired(), req);
+    return null;
+  }
+  return tenantId;
+}
+
+router.get("/data-subject-requests", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    res.json(await privacyService.listRequests(tenantId));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/data-subject-requests", req);
+  }
+});
+
+router.get("/data-subject-requests/subjects", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const q = typeof req.query.q === "string" ? req.query.q : "";
+    res.json(await privacyService.searchSubjects(tenantId, q));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/data-subject-requests/subjects", req);
+  }
+});
+
+router.post("/data-subject-requests", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, createDataSubjectRequestSchema, res);
+    if (!data) return;
+    res.status(201).json(await privacyService.createRequest(tenantId, getCurrentUserId(req), data));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/data-subject-requests", req);
+  }
+});
+
+router.get("/data-subject-requests/:id", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    res.json(await privacyService.getRequest(tenantId, req.params.id));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/data-subject-requests/:id", req);
+  }
+});
+
+router.post("/data-subject-requests/:id/approve", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body ?? {}, decideDataSubjectRequestSchema, res);
+    if (!data) return;
+    res.json(await privacyService.approve(tenantId, getCurrentUserId(req), req.params.id, data.note));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/data-subject-requests/:id/approve", req);
+  }
+});
+
+router.post("/data-subject-requests/:id/reject", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body ?? {}, decideDataSubjectRequestSchema, res);
+    if (!data) return;
+    res.json(await privacyService.reject(tenantId, getCurrentUserId(req), req.params.id, data.note));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/data-subject-requests/:id/reject", req);
+  }
+});
+
+router.get("/data-subject-requests/:id/download", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    res.json(await privacyService.getDownloadUrl(tenantId, getCurrentUserId(req), req.params.id));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/data-subject-requests/:id/download", req);
+  }
+});
+
+export default router;
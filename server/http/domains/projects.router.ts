@@ -10,7 +10,8 @@
  *     GET    /projects/unassigned              — unassigned projects
  *     GET    /projects/hidden                  — hidden projects for current user
  *     GET    /projects/:id                     — get project by id (tenant-scoped)
- *     POST   /projects                         — create project (with members, client/division validation)
+ *     POST   /projects                         — create project (with members, client/division validation;
+ *                                                  gets the tenant's default workflow unless one is given)
  *     PATCH  /projects/:id                     — update project (with client/division validation, notifications)
  *
  *   Project Members:
@@ -46,7 +47,6 @@ import {
   insertSectionSchema,
   updateProjectSchema,
   updateSectionSchema,
-  projectTemplates,
   projects,
   projectMembers,
   projectNotes,
@@ -66,11 +66,13 @@ import {
   comments,
   projectAccess,
 } from "@shared/schema";
-import type { ProjectTemplateContent } from "@shared/schema";
+import { applyProjectTemplateSchema } from "@shared/projectTemplates";
 import { db } from "../../db";
 import { eq, and, inArray, ilike, asc, desc } from "drizzle-orm";
 import { config } from "../../config";
 import { canManageProjectAccess } from "../../lib/privateVisibility";
+import { workflowService } from "../../features/workflows/workflow.service";
+import { templateService } from "../../features/templates/template.service";
 import { getEffectiveTenantId } from "../../middleware/tenantContext";
 import {
   getCurrentUserId,
@@ -92,6 +94,8 @@ import {
   notifyProjectUpdate,
 } from "../../features/notifications/notification.service";
 import { evaluateAutomation, type AutomationEvent } from "../../features/automation/clientStageAutomation.service";
+import { publishWebhookEvent } from "../../features/webhooks/webhook.service";
+import { WEBHOOK_EVENTS } from "@shared/events";
 
 const router = createApiRouter({ policy: "authTenant", skipEnvelope: true });
 
@@ -302,6 +306,9 @@ router.post("/projects", async (req: Request, res: Response) => {
       workspaceId,
       createdBy: creatorId,
     });
+    if (tenantId) {
+      data.workflowStatusSetId = await workflowService.resolveNewProjectSet(tenantId, data.workflowStatusSetId);
+    }
     
     let project;
     if (tenantId) {
@@ -344,6 +351,7 @@ router.post("/projects", async (req: Request, res: Response) => {
     }
 
     emitProjectCreated(project as any);
+    publishWebhookEvent(project.tenantId, WEBHOOK_EVENTS.PROJECT_CREATED, { project });
 
     if (project.clientId && tenantId) {
       evaluateAutomation({
@@ -902,8 +910,7 @@ router.post("/projects/:projectId/apply-template", async (req: Request, res: Res
     const tenantId = getEffectiveTenantId(req);
     if (!tenantId) throw AppError.tenantRequired();
 
-    const bodySchema = z.object({ templateId: z.string().min(1) });
-    const { templateId } = bodySchema.parse(req.body);
+    const data = applyProjectTemplateSchema.parse(req.body);
 
     const project = await storage.getProject(req.params.projectId);
     if (!project) throw AppError.notFound("Project");
@@ -922,56 +929,8 @@ router.post("/projects/:projectId/apply-template", async (req: Request, res: Res
       }
     }
 
-    const [template] = await db.select()
-      .from(projectTemplates)
-      .where(and(
-        eq(projectTemplates.id, templateId),
-        eq(projectTemplates.tenantId, tenantId)
-      ))
-      .limit(1);
-
-    if (!template) throw AppError.notFound("Template");
-
-    const content = template.content as ProjectTemplateContent;
-    if (!content?.sections?.length) {
-      return res.json({ success: true, sectionsCreated: 0, tasksCreated: 0 });
-    }
-
-    const existingSections = await storage.getSectionsByProject(project.id);
-    const startOrderIndex = existingSections.length;
-
-    let sectionsCreated = 0;
-    let tasksCreated = 0;
-
-    for (let si = 0; si < content.sections.length; si++) {
-      const sectionDef = content.sections[si];
-      const section = await storage.createSection({
-        projectId: project.id,
-        name: sectionDef.name,
-        orderIndex: startOrderIndex + si,
-      });
-      sectionsCreated++;
-
-      if (sectionDef.tasks?.length) {
-        for (let ti = 0; ti < sectionDef.tasks.length; ti++) {
-          const taskDef = sectionDef.tasks[ti];
-          await storage.createTask({
-            tenantId,
-            projectId: project.id,
-            sectionId: section.id,
-            title: taskDef.title,
-            description: taskDef.description || null,
-            status: "todo",
-            priority: "medium",
-            createdBy: getCurrentUserId(req),
-            orderIndex: ti,
-          });
-          tasksCreated++;
-        }
-      }
-    }
-
-    res.json({ success: true, sectionsCreated, tasksCreated });
+    const result = await templateService.applyTemplate(tenantId, project, userId, data);
+    res.json({ success: true, ...result });
   } catch (error) {
     return handleRouteError(res, error, "POST /api/projects/:projectId/apply-template", req);
   }
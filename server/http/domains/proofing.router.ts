@@ -0,0 +1,205 @@
+/**
+ * Proofing Domain Router
+ *
+ * Version stack and pinned review comments on asset library files, and client sign-off
+ * of a version. Tenant users manage versions and approval requests; portal users read
+ * versions and comment on client-visible assets of their clients. Clients answer
+ * approval requests through PATCH /api/crm/approvals/:id.
+ *
+ * Endpoint inventory (9 endpoints):
+ *   Versions:
+ *     GET    /assets/:assetId/versions                — version stack, newest first
+ *     POST   /assets/:assetId/versions                — add a version from a presigned upload
+ *     POST   /assets/:assetId/versions/upload         — add a version (server-proxied upload)
+ *     GET    /asset-versions/:versionId/download      — presigned URL for one version
+ *
+ *   Comments:
+ *     GET    /asset-versions/:versionId/comments      — comments and replies on a version
+ *     POST   /asset-versions/:versionId/comments      — comment (optionally pinned) or reply
+ *     PATCH  /proof-comments/:commentId               — resolve or reopen a thread
+ *
+ *   Approvals:
+ *     GET    /assets/:assetId/approval-requests       — approval requests for the asset
+ *     POST   /assets/:assetId/approval-requests       — ask the client to approve a version
+ */
+import crypto from "crypto";
+import multer from "multer";
+import { Request, Response } from "express";
+import { createApiRouter } from "../routerFactory";
+import { getEffectiveTenantId } from "../../middleware/tenantContext";
+import { AppError, handleRouteError, sendError, validateBody } from "../../lib/errors";
+import { isS3Configured, uploadToS3, validateFile } from "../../s3";
+import { isFilenameUnsafe, sanitizeFilename } from "../middleware/uploadGuards";
+import {
+  UserRole,
+  createAssetVersionSchema,
+  createProofCommentSchema,
+  requestProofApprovalSchema,
+  resolveProofCommentSchema,
+} from "@shared/schema";
+import { proofingService, type ProofActor } from "../../features/proofing/proofing.service";
+import { proofingRepo } from "../../features/proofing/proofing.repo";
+
+const versionUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 25 * 1024 * 1024 },
+});
+
+const router = createApiRouter({
+  policy: "authTenant",
+  skipEnvelope: true,
+});
+
+function resolveScope(req: Request, res: Response): { tenantId: string; actor: ProofActor } | null {
+  const tenantId = getEffectiveTenantId(req);
+  if (!tenantId) {
+    sendError(res, AppError.tenantRequired(), req);
+    return null;
+  }
+  const user = req.user as { id: string; role: string; name?: string | null; email?: string | null };
+  return { tenantId, actor: { id: user.id, role: user.role, name: user.name || user.email || "Someone" } };
+}
+
+router.get("/assets/:assetId/versions", async (req, res) => {
+  try {
+    const scope = resolveScope(req, res);
+    if (!scope) return;
+
+    res.json(await proofingService.listVersions(scope.tenantId, req.params.assetId, scope.actor));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/v1/assets/:assetId/versions", req);
+  }
+});
+
+router.post("/assets/:assetId/versions", async (req, res) => {
+  try {
+    const scope = resolveScope(req, res);
+    if (!scope) return;
+
+    const data = validateBody(req.body, createAssetVersionSchema, res);
+    if (!data) return;
+
+    res.status(201).json(await proofingService.addVersion(scope.tenantId, req.params.assetId, data, scope.actor));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/v1/assets/:assetId/versions", req);
+  }
+});
+
+router.post("/assets/:assetId/versions/upload", versionUpload.single("file"), async (req, res) => {
+  try {
+    const scope = resolveScope(req, res);
+    if (!scope) return;
+
+    if (scope.actor.role === UserRole.CLIENT) {
+      return sendError(res, AppError.forbidden("Portal users cannot upload versions"), req);
+    }
+    if (!isS3Configured()) {
+      return sendError(res, new AppError(503, "INTERNAL_ERROR", "File storage is not configured"), req);
+    }
+
+    const file = req.file;
+    if (!file) return sendError(res, AppError.badRequest("No file provided"), req);
+
+    const mimeType = file.mimetype || "application/octet-stream";
+    const validation = validateFile(mimeType, file.size, file.originalname);
+    if (!validation.valid) return sendError(res, AppError.badRequest(validation.error || "Invalid file"), req);
+    if (isFilenameUnsafe(file.originalname)) {
+      return sendError(res, AppError.badRequest("File type not allowed for security reasons"), req);
+    }
+
+    const asset = await proofingRepo.getAsset(scope.tenantId, req.params.assetId);
+    if (!asset) return sendError(res, AppError.notFound("Asset"), req);
+
+    const r2Key = `assets/${scope.tenantId}/${asset.clientId}/${crypto.randomUUID()}-${sanitizeFilename(file.originalname)}`;
+    await uploadToS3(file.buffer, r2Key, mimeType, scope.tenantId);
+
+    const note = typeof req.body.note === "string" ? req.body.note.trim().slice(0, 1000) : undefined;
+    const version = await proofingService.addVersion(scope.tenantId, asset.id, {
+      r2Key,
+      mimeType,
+      sizeBytes: file.size,
+      note: note || undefined,
+    }, scope.actor);
+    res.status(201).json(version);
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/v1/assets/:assetId/versions/upload", req);
+  }
+});
+
+router.get("/asset-versions/:versionId/download", async (req, res) => {
+  try {
+    const scope = resolveScope(req, res);
+    if (!scope) return;
+
+    const url = await proofingService.getVersionDownloadUrl(scope.tenantId, req.params.versionId, scope.actor);
+    res.json({ url });
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/v1/asset-versions/:versionId/download", req);
+  }
+});
+
+router.get("/asset-versions/:versionId/comments", async (req, res) => {
+  try {
+    const scope = resolveScope(req, res);
+    if (!scope) return;
+
+    res.json(await proofingService.listComments(scope.tenantId, req.params.versionId, scope.actor));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/v1/asset-versions/:versionId/comments", req);
+  }
+});
+
+router.post("/asset-versions/:versionId/comments", async (req, res) => {
+  try {
+    const scope = resolveScope(req, res);
+    if (!scope) return;
+
+    const data = validateBody(req.body, createProofCommentSchema, res);
+    if (!data) return;
+
+    res.status(201).json(await proofingService.addComment(scope.tenantId, req.params.versionId, data, scope.actor));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/v1/asset-versions/:versionId/comments", req);
+  }
+});
+
+router.patch("/proof-comments/:commentId", async (req, res) => {
+  try {
+    const scope = resolveScope(req, res);
+    if (!scope) return;
+
+    const data = validateBody(req.body, resolveProofCommentSchema, res);
+    if (!data) return;
+
+    res.json(await proofingService.setResolved(scope.tenantId, req.params.commentId, data.resolved, scope.actor));
+  } catch (error) {
+    return handleRouteError(res, error, "PATCH /api/v1/proof-comments/:commentId", req);
+  }
+});
+
+router.get("/assets/:assetId/approval-requests", async (req, res) => {
+  try {
+    const scope = resolveScope(req, res);
+    if (!scope) return;
+
+    res.json(await proofingService.listApprovalRequests(scope.tenantId, req.params.assetId, scope.actor));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/v1/assets/:assetId/approval-requests", req);
+  }
+});
+
+router.post("/assets/:assetId/approval-requests", async (req, res) => {
+  try {
+    const scope = resolveScope(req, res);
+    if (!scope) return;
+
+    const data = validateBody(req.body, requestProofApprovalSchema, res);
+    if (!data) return;
+
+    res.status(201).json(await proofingService.requestApproval(scope.tenantId, req.params.assetId, data, scope.actor));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/v1/assets/:assetId/approval-requests", req);
+  }
+});
+
+export default router;
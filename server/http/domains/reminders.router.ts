@@ -0,0 +1,91 @@
+/**
+ * Reminders Domain Router
+ *
+ * The current user's personal reminders. Chat reminders are created with the /remind slash
+ * command; this router creates them for tasks and comments. Due reminders are delivered by
+ * the background job queue as a notification plus a `reminder:due` socket event.
+ *
+ * Endpoint inventory (4 endpoints):
+ *   GET  /reminders?status=        — own reminders (default: pending, soonest first)
+ *   POST /reminders                — remind me about a task or comment ("tomorrow 9am", ISO, ...)
+ *   POST /reminders/:id/snooze     — move a pending or delivered reminder to a new time
+ *   POST /reminders/:id/cancel     — cancel a pending reminder
+ */
+import { Request, Response } from "express";
+import { createApiRouter } from "../routerFactory";
+import { getEffectiveTenantId } from "../../middleware/tenantContext";
+import { getCurrentUserId } from "../../routes/helpers";
+import { AppError, handleRouteError, sendError, validateBody } from "../../lib/errors";
+import {
+  ReminderStatus,
+  createReminderSchema,
+  snoozeReminderSchema,
+  type ReminderStatusValue,
+} from "@shared/schema";
+import { reminderService } from "../../features/reminders/reminders.service";
+
+const router = createApiRouter({
+  policy: "authTenant",
+  skipEnvelope: true,
+});
+
+const STATUSES = new Set<string>(Object.values(ReminderStatus));
+
+function requireTenant(req: Request, res: Response): string | null {
+  const tenantId = getEffectiveTenantId(req);
+  if (!tenantId) {
+    sendError(res, AppError.tenantRequired(), req);
+    return null;
+  }
+  return tenantId;
+}
+
+router.get("/reminders", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    const status = typeof req.query.status === "string" && STATUSES.has(req.query.status)
+      ? req.query.status as ReminderStatusValue
+      : undefined;
+    res.json(await reminderService.list(tenantId, getCurrentUserId(req), status));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/reminders", req);
+  }
+});
+
+router.post("/reminders", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, createReminderSchema, res);
+    if (!data) return;
+    res.status(201).json(await reminderService.createForSource(tenantId, getCurrentUserId(req), data));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/reminders", req);
+  }
+});
+
+router.post("/reminders/:id/snooze", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, snoozeReminderSchema, res);
+    if (!data) return;
+    const until = reminderService.resolveTime(data.until, data.timezone);
+    res.json(await reminderService.snooze(tenantId, getCurrentUserId(req), req.params.id, until));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/reminders/:id/snooze", req);
+  }
+});
+
+router.post("/reminders/:id/cancel", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    res.json(await reminderService.cancel(tenantId, getCurrentUserId(req), req.params.id));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/reminders/:id/cancel", req);
+  }
+});
+
+export default router;
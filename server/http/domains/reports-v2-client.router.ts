@@ -9,6 +9,7 @@ import {
   reportingGuard,
   getTenantId,
 } from "../../reports/utils";
+import { taskIsDone, taskIsOpen } from "../../reports/taskStatusSql";
 
 const router = Router();
 
@@ -58,9 +59,9 @@ router.get("/client/overview", async (req: Request, res: Response) => {
         c.id AS client_id,
         c.company_name,
         COUNT(DISTINCT CASE WHEN p.status = 'active' THEN p.id END) AS active_projects,
-        COUNT(DISTINCT CASE WHEN t.status NOT IN ('done', 'cancelled') THEN t.id END) AS open_tasks,
-        COUNT(DISTINCT CASE WHEN t.status NOT IN ('done', 'cancelled') AND t.due_date < NOW() THEN t.id END) AS overdue_tasks,
-        COUNT(DISTINCT CASE WHEN t.status = 'done' AND t.updated_at BETWEEN ${startDate} AND ${endDate} THEN t.id END) AS completed_in_range,
+        COUNT(DISTINCT CASE WHEN ${taskIsOpen()} THEN t.id END) AS open_tasks,
+        COUNT(DISTINCT CASE WHEN ${taskIsOpen()} AND t.due_date < NOW() THEN t.id END) AS overdue_tasks,
+        COUNT(DISTINCT CASE WHEN ${taskIsDone()} AND t.completed_at BETWEEN ${startDate} AND ${endDate} THEN t.id END) AS completed_in_range,
         COALESCE(SUM(CASE WHEN te.start_time BETWEEN ${startDate} AND ${endDate} THEN te.duration_seconds ELSE 0 END), 0)::float / 3600.0 AS total_hours,
         GREATEST(MAX(t.updated_at), MAX(te.start_time)) AS last_activity_date
       FROM clients c
@@ -214,7 +215,7 @@ router.get("/client/time", async (req: Request, res: Response) => {
         c.id AS client_id,
         c.company_name,
         COALESCE(SUM(CASE WHEN te.start_time BETWEEN ${startDate} AND ${endDate} THEN te.duration_seconds ELSE 0 END), 0) AS total_seconds,
-        COALESCE(SUM(CASE WHEN t.status NOT IN ('done','cancelled') THEN COALESCE(t.estimate_minutes, 0) ELSE 0 END), 0) AS estimated_minutes
+        COALESCE(SUM(CASE WHEN ${taskIsOpen()} THEN COALESCE(t.estimate_minutes, 0) ELSE 0 END), 0) AS estimated_minutes
       FROM clients c
       LEFT JOIN projects p ON p.client_id = c.id AND p.tenant_id = ${tenantId}
       LEFT JOIN tasks t ON t.project_id = p.id AND t.tenant_id = ${tenantId}
@@ -328,24 +329,24 @@ router.get("/client/tasks", async (req: Request, res: Response) => {
       SELECT
         c.id AS client_id,
         c.company_name,
-        COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') THEN t.id END) AS open_task_count,
-        COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') AND t.due_date < NOW() THEN t.id END) AS overdue_count,
-        COUNT(DISTINCT CASE WHEN t.status = 'done' AND t.updated_at BETWEEN ${startDate} AND ${endDate} THEN t.id END) AS completed_in_range,
+        COUNT(DISTINCT CASE WHEN ${taskIsOpen()} THEN t.id END) AS open_task_count,
+        COUNT(DISTINCT CASE WHEN ${taskIsOpen()} AND t.due_date < NOW() THEN t.id END) AS overdue_count,
+        COUNT(DISTINCT CASE WHEN ${taskIsDone()} AND t.completed_at BETWEEN ${startDate} AND ${endDate} THEN t.id END) AS completed_in_range,
         COUNT(DISTINCT CASE
-          WHEN t.status NOT IN ('done','cancelled') AND EXTRACT(days FROM NOW() - t.created_at) < 7
+          WHEN ${taskIsOpen()} AND EXTRACT(days FROM NOW() - t.created_at) < 7
           THEN t.id END) AS aging_under7,
         COUNT(DISTINCT CASE
-          WHEN t.status NOT IN ('done','cancelled')
+          WHEN ${taskIsOpen()}
             AND EXTRACT(days FROM NOW() - t.created_at) >= 7
             AND EXTRACT(days FROM NOW() - t.created_at) < 14
           THEN t.id END) AS aging_7_14,
         COUNT(DISTINCT CASE
-          WHEN t.status NOT IN ('done','cancelled')
+          WHEN ${taskIsOpen()}
             AND EXTRACT(days FROM NOW() - t.created_at) >= 14
             AND EXTRACT(days FROM NOW() - t.created_at) < 30
           THEN t.id END) AS aging_14_30,
         COUNT(DISTINCT CASE
-          WHEN t.status NOT IN ('done','cancelled') AND EXTRACT(days FROM NOW() - t.created_at) >= 30
+          WHEN ${taskIsOpen()} AND EXTRACT(days FROM NOW() - t.created_at) >= 30
           THEN t.id END) AS aging_over30
       FROM clients c
       LEFT JOIN projects p ON p.client_id = c.id AND p.tenant_id = ${tenantId}
@@ -411,12 +412,12 @@ router.get("/client/sla", async (req: Request, res: Response) => {
         c.id AS client_id,
         c.company_name,
         COUNT(DISTINCT t.id) AS total_tasks,
-        COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') AND t.due_date < NOW() THEN t.id END) AS overdue_count,
+        COUNT(DISTINCT CASE WHEN ${taskIsOpen()} AND t.due_date < NOW() THEN t.id END) AS overdue_count,
         COUNT(DISTINCT CASE
-          WHEN t.status = 'done' AND t.due_date IS NOT NULL AND t.updated_at <= t.due_date
+          WHEN ${taskIsDone()} AND t.due_date IS NOT NULL AND t.completed_at <= t.due_date
           THEN t.id END) AS completed_on_time,
         COUNT(DISTINCT CASE
-          WHEN t.status = 'done' AND t.due_date IS NOT NULL
+          WHEN ${taskIsDone()} AND t.due_date IS NOT NULL
           THEN t.id END) AS total_done_with_due
       FROM clients c
       LEFT JOIN projects p ON p.client_id = c.id AND p.tenant_id = ${tenantId}
@@ -491,9 +492,9 @@ router.get("/client/risk", async (req: Request, res: Response) => {
         c.id AS client_id,
         c.company_name,
         COUNT(DISTINCT t.id) AS total_tasks,
-        COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') AND t.due_date < NOW() THEN t.id END) AS overdue_count,
+        COUNT(DISTINCT CASE WHEN ${taskIsOpen()} AND t.due_date < NOW() THEN t.id END) AS overdue_count,
         COALESCE(SUM(CASE WHEN te.start_time BETWEEN ${startDate} AND ${endDate} THEN te.duration_seconds ELSE 0 END), 0) AS total_seconds_in_range,
-        COALESCE(SUM(CASE WHEN t.status NOT IN ('done','cancelled') THEN COALESCE(t.estimate_minutes, 0) ELSE 0 END), 0) AS estimated_minutes,
+        COALESCE(SUM(CASE WHEN ${taskIsOpen()} THEN COALESCE(t.estimate_minutes, 0) ELSE 0 END), 0) AS estimated_minutes,
         COUNT(DISTINCT CASE WHEN p.status = 'active' THEN p.id END) AS active_projects,
         MAX(t.updated_at) AS last_task_update
       FROM clients c
@@ -10,6 +10,10 @@ import {
   getTenantId,
   formatMinutesToHours,
 } from "../../reports/utils";
+import { taskIsDone, taskIsOpen } from "../../reports/taskStatusSql";
+import { getFlowByUser, getFlowSummary, getTimeInStatus } from "../../reports/flowMetrics";
+import { computeUtilizationPct } from "../../reports/metricDefinitions";
+import { capacityService, toIsoDate } from "../../features/capacity/capacity.service";
 
 const router = Router();
 
@@ -45,11 +49,6 @@ router.get("/employee/overview", async (req: Request, res: Response) => {
       ? sql`AND u.id = ANY(ARRAY[${sql.join(filters.userIds.map(id => sql`${id}`), sql`, `)}]::text[])`
       : sql``;
 
-    const daysInRange = Math.max(
-      Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1,
-      1
-    );
-
     const rows = await dbRows<{
       user_id: string;
       first_name: string | null;
@@ -70,15 +69,15 @@ router.get("/employee/overview", async (req: Request, res: Response) => {
         u.email,
         u.avatar_url,
         COUNT(DISTINCT CASE
-          WHEN t.status NOT IN ('done', 'cancelled') THEN t.id
+          WHEN ${taskIsOpen()} THEN t.id
         END) AS active_tasks,
         COUNT(DISTINCT CASE
-          WHEN t.status NOT IN ('done', 'cancelled') AND t.due_date < NOW() THEN t.id
+          WHEN ${taskIsOpen()} AND t.due_date < NOW() THEN t.id
         END) AS overdue_tasks,
         COUNT(DISTINCT CASE
-          WHEN t.status = 'done'
-            AND t.updated_at >= ${startDate}
-            AND t.updated_at <= ${endDate}
+          WHEN ${taskIsDone()}
+            AND t.completed_at >= ${startDate}
+            AND t.completed_at <= ${endDate}
           THEN t.id
         END) AS completed_in_range,
         COALESCE(SUM(
@@ -87,7 +86,7 @@ router.get("/employee/overview", async (req: Request, res: Response) => {
         ), 0) AS total_seconds,
         0 AS billable_seconds,
         COALESCE(SUM(
-          CASE WHEN t.status NOT IN ('done', 'cancelled')
+          CASE WHEN ${taskIsOpen()}
           THEN COALESCE(t.estimate_minutes, 0) ELSE 0 END
         ), 0) AS estimated_minutes
       FROM users u
@@ -109,6 +108,13 @@ router.get("/employee/overview", async (req: Request, res: Response) => {
       ${userFilter}
     `));
 
+    const availableByUser = await capacityService.availableHoursByUser(
+      tenantId,
+      rows.map((r) => r.user_id),
+      startDate,
+      endDate,
+    );
+
     const employees = rows.map((r) => {
       const activeTasks = Number(r.active_tasks);
       const overdueTasks = Number(r.overdue_tasks);
@@ -116,7 +122,8 @@ router.get("/employee/overview", async (req: Request, res: Response) => {
       const totalHours = Math.round(Number(r.total_seconds) / 3600 * 10) / 10;
       const billableHours = Math.round(Number(r.billable_seconds) / 3600 * 10) / 10;
       const estimatedHours = formatMinutesToHours(Number(r.estimated_minutes));
-      const utilizationPct = Math.round(totalHours / (daysInRange * 8) * 100);
+      const availableHours = availableByUser.get(r.user_id) ?? 0;
+      const utilizationPct = computeUtilizationPct(totalHours, availableHours);
       const efficiencyRatio = estimatedHours > 0
         ? Math.round((totalHours / estimatedHours) * 100) / 100
         : null;
@@ -137,6 +144,7 @@ router.get("/employee/overview", async (req: Request, res: Response) => {
         totalHours,
         billableHours,
         estimatedHours,
+        availableHours,
         utilizationPct,
         efficiencyRatio,
         completionRate,
@@ -185,25 +193,25 @@ router.get("/employee/workload", async (req: Request, res: Response) => {
         u.last_name,
         u.email,
         COUNT(DISTINCT CASE
-          WHEN t.status NOT IN ('done', 'cancelled') THEN t.id
+          WHEN ${taskIsOpen()} THEN t.id
         END) AS assigned_count,
         COUNT(DISTINCT CASE
-          WHEN t.status NOT IN ('done', 'cancelled')
+          WHEN ${taskIsOpen()}
             AND t.due_date > NOW()
             AND t.due_date <= NOW() + INTERVAL '7 days'
           THEN t.id
         END) AS due_soon_count,
         COUNT(DISTINCT CASE
-          WHEN t.status NOT IN ('done', 'cancelled') AND t.due_date < NOW() THEN t.id
+          WHEN ${taskIsOpen()} AND t.due_date < NOW() THEN t.id
         END) AS overdue_count,
         AVG(CASE
-          WHEN t.status = 'done'
-            AND t.updated_at >= ${startDate}
-            AND t.updated_at <= ${endDate}
-          THEN EXTRACT(days FROM (t.updated_at - t.created_at))
+          WHEN ${taskIsDone()}
+            AND t.completed_at >= ${startDate}
+            AND t.completed_at <= ${endDate}
+          THEN EXTRACT(days FROM (t.completed_at - t.created_at))
         END) AS avg_completion_days,
         COUNT(DISTINCT CASE
-          WHEN t.status NOT IN ('done', 'cancelled')
+          WHEN ${taskIsOpen()}
             AND t.updated_at < NOW() - INTERVAL '14 days'
           THEN t.id
         END) AS backlog_count
@@ -225,6 +233,13 @@ router.get("/employee/workload", async (req: Request, res: Response) => {
       ${userFilter}
     `));
 
+    const flowByUser = await getFlowByUser({
+      tenantId,
+      startDate,
+      endDate,
+      userIds: filters.userIds,
+    });
+
     const employees = rows.map((r) => ({
       userId: r.user_id,
       firstName: r.first_name,
@@ -236,6 +251,8 @@ router.get("/employee/workload", async (req: Request, res: Response) => {
       avgCompletionDays: r.avg_completion_days != null
         ? Math.round(Number(r.avg_completion_days) * 10) / 10
         : null,
+      avgLeadTimeDays: flowByUser.get(r.user_id)?.avgLeadTimeDays ?? null,
+      avgCycleTimeDays: flowByUser.get(r.user_id)?.avgCycleTimeDays ?? null,
       backlogCount: Number(r.backlog_count),
     }));
 
@@ -253,6 +270,26 @@ router.get("/employee/workload", async (req: Request, res: Response) => {
   }
 });
 
+router.get("/employee/flow", async (req: Request, res: Response) => {
+  try {
+    const tenantId = getTenantId(req);
+    const { startDate, endDate, params } = parseReportRange(req.query as Record<string, unknown>);
+    const filters = normalizeFilters(params);
+    const userId = filters.userIds.length === 1 ? filters.userIds[0] : null;
+    const projectId = filters.projectIds.length === 1 ? filters.projectIds[0] : null;
+
+    const scope = { tenantId, startDate, endDate, userId, projectId };
+    const [summary, timeInStatus] = await Promise.all([
+      getFlowSummary(scope),
+      getTimeInStatus(scope),
+    ]);
+
+    res.json({ summary, timeInStatus, range: { startDate, endDate } });
+  } catch (error) {
+    handleRouteError(res, error, "reports-v2/employee/flow", req);
+  }
+});
+
 router.get("/employee/time", async (req: Request, res: Response) => {
   try {
     const tenantId = getTenantId(req);
@@ -285,7 +322,7 @@ router.get("/employee/time", async (req: Request, res: Response) => {
         ), 0) AS total_seconds,
         0 AS billable_seconds,
         COALESCE(SUM(
-          CASE WHEN t.status NOT IN ('done', 'cancelled')
+          CASE WHEN ${taskIsOpen()}
           THEN COALESCE(t.estimate_minutes, 0) ELSE 0 END
         ), 0) AS estimated_minutes,
         COUNT(DISTINCT
@@ -376,7 +413,7 @@ router.get("/employee/capacity", async (req: Request, res: Response) => {
         date_trunc('week', gs.week)::date AS week_start,
         COALESCE(SUM(CASE
           WHEN t.due_date >= gs.week AND t.due_date < gs.week + INTERVAL '7 days'
-            AND t.status NOT IN ('done', 'cancelled')
+            AND ${taskIsOpen()}
           THEN COALESCE(t.estimate_minutes, 0) ELSE 0
         END), 0) AS planned_minutes,
         COALESCE(SUM(CASE
@@ -408,11 +445,19 @@ router.get("/employee/capacity", async (req: Request, res: Response) => {
         weekStart: string;
         plannedHours: number;
         actualHours: number;
-        utilizationPct: number;
+        availableHours: number;
+        utilizationPct: number | null;
         overAllocated: boolean;
       }>;
     }>();
 
+    const weekKey = (value: string) => toIsoDate(new Date(value));
+    const capacity = await capacityService.weeklyHoursByUser(
+      tenantId,
+      Array.from(new Set(rows.map((r) => r.user_id))),
+      Array.from(new Set(rows.map((r) => weekKey(r.week_start)))),
+    );
+
     for (const r of rows) {
       if (!usersMap.has(r.user_id)) {
         usersMap.set(r.user_id, {
@@ -425,13 +470,15 @@ router.get("/employee/capacity", async (req: Request, res: Response) => {
       }
       const actualHours = Math.round(Number(r.actual_seconds) / 3600 * 10) / 10;
       const plannedHours = Math.round(Number(r.planned_minutes) / 60 * 10) / 10;
-      const utilizationPct = Math.round((actualHours / 40) * 100);
-      const overAllocated = actualHours > 40;
+      const availableHours = capacity.get(r.user_id)?.get(weekKey(r.week_start))?.availableHours ?? 0;
+      const utilizationPct = computeUtilizationPct(actualHours, availableHours);
+      const overAllocated = actualHours > availableHours;
 
       usersMap.get(r.user_id)!.weeks.push({
         weekStart: r.week_start,
         plannedHours,
         actualHours,
+        availableHours,
         utilizationPct,
         overAllocated,
       });
@@ -469,11 +516,11 @@ router.get("/employee/risk", async (req: Request, res: Response) => {
         u.last_name,
         u.email,
         u.avatar_url,
-        COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') THEN t.id END) AS active_tasks,
-        COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') AND t.due_date < NOW() THEN t.id END) AS overdue_count,
+        COUNT(DISTINCT CASE WHEN ${taskIsOpen()} THEN t.id END) AS active_tasks,
+        COUNT(DISTINCT CASE WHEN ${taskIsOpen()} AND t.due_date < NOW() THEN t.id END) AS overdue_count,
         COALESCE(SUM(CASE WHEN te.start_time >= ${startDate} AND te.start_time <= ${endDate} THEN te.duration_seconds ELSE 0 END), 0) AS total_seconds,
         COUNT(DISTINCT CASE
-          WHEN t.status NOT IN ('done','cancelled') AND t.updated_at < NOW() - INTERVAL '14 days'
+          WHEN ${taskIsOpen()} AND t.updated_at < NOW() - INTERVAL '14 days'
           THEN t.id
         END) AS backlog_count,
         GREATEST(${Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24))}, 1) AS days_in_range
@@ -582,9 +629,9 @@ router.get("/employee/trends", async (req: Request, res: Response) => {
       SELECT
         date_trunc('week', gs.week)::date AS week_start,
         COUNT(DISTINCT CASE
-          WHEN t.status = 'done'
-            AND t.updated_at >= gs.week
-            AND t.updated_at < gs.week + INTERVAL '7 days'
+          WHEN ${taskIsDone()}
+            AND t.completed_at >= gs.week
+            AND t.completed_at < gs.week + INTERVAL '7 days'
           THEN t.id
         END) AS completed_tasks,
         COALESCE(SUM(
@@ -6,10 +6,17 @@ import {
   reportingGuard,
   getTenantId,
 } from "../../reports/utils";
+import type { StatusCategoryValue } from "@shared/schema";
+import { computeCriticalPath, type DependencyEdge, type ScheduledTask } from "../../features/taskDependencies/dependencyGraph";
+import { taskIsDone, taskIsOpen, taskStatusCategory } from "../../reports/taskStatusSql";
+import { computeCapacityOverload } from "../../reports/forecasting/snapshotService";
+import { capacityService } from "../../features/capacity/capacity.service";
 
 const router = Router();
 router.use(reportingGuard);
 
+const FULL_TIME_WEEK_HOURS = 40;
+
 async function dbRows<T extends Record<string, unknown>>(
   q: Parameters<typeof db.execute>[0]
 ): Promise<T[]> {
@@ -51,6 +58,50 @@ function isoDate(d: Date): string {
   return d.toISOString().split("T")[0];
 }
 
+/**
+ * Weekly hours each project's critical path can be worked at: the average available hours over
+ * the horizon of the people assigned to its tasks, or a full-time week when nobody is.
+ */
+async function criticalPathWeeklyHours(
+  tenantId: string,
+  pathTaskIds: Map<string, string[]>,
+  horizonWeeks: number,
+): Promise<Map<string, number>> {
+  const result = new Map<string, number>();
+  const taskIds = Array.from(pathTaskIds.values()).flat();
+  if (taskIds.length === 0) return result;
+
+  const assigneeRows = await dbRows<{ task_id: string; user_id: string }>(sql`
+    SELECT task_id, user_id
+    FROM task_assignees
+    WHERE tenant_id = ${tenantId}
+      AND task_id = ANY(ARRAY[${sql.join(taskIds.map((id) => sql`${id}`), sql`, `)}]::text[])
+  `);
+  const assigneesByTask = new Map<string, string[]>();
+  for (const row of assigneeRows) {
+    assigneesByTask.set(row.task_id, [...(assigneesByTask.get(row.task_id) ?? []), row.user_id]);
+  }
+
+  const weekStarts: string[] = [];
+  const firstWeek = startOfMonday(new Date());
+  for (let i = 0; i < horizonWeeks; i++) weekStarts.push(isoDate(addDays(firstWeek, i * 7)));
+  const userIds = Array.from(new Set(assigneeRows.map((row) => row.user_id)));
+  const capacity = await capacityService.weeklyHoursByUser(tenantId, userIds, weekStarts);
+  const averageHours = (userId: string) => {
+    const weeks = Array.from(capacity.get(userId)?.values() ?? []);
+    return weeks.length > 0
+      ? weeks.reduce((sum, week) => sum + week.availableHours, 0) / weeks.length
+      : FULL_TIME_WEEK_HOURS;
+  };
+
+  Array.from(pathTaskIds.entries()).forEach(([projectId, ids]) => {
+    const people = Array.from(new Set(ids.flatMap((id) => assigneesByTask.get(id) ?? [])));
+    if (people.length === 0) return;
+    result.set(projectId, people.reduce((sum, userId) => sum + averageHours(userId), 0) / people.length);
+  });
+  return result;
+}
+
 function buildConfidence(timePct: number, estimatePct: number): "Low" | "Medium" | "High" {
   if (timePct >= 80 && estimatePct >= 60) return "High";
   if (timePct >= 50) return "Medium";
@@ -67,183 +118,17 @@ function buildDataQualityFlags(timePct: number, estimatePct: number, histWeeks:
 
 // ── CAPACITY OVERLOAD FORECAST ────────────────────────────────────────────────
 // GET /forecasting/capacity-overload?weeks=2|4|8
+// Shares the snapshot computation so live forecasts and stored snapshots agree
 router.get("/forecasting/capacity-overload", async (req: Request, res: Response) => {
   try {
     const tenantId = getTenantId(req);
-    const horizonWeeks = parseHorizonWeeks(req);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const asOfDate = new Date(today);
-
-    const historyStart = addDays(today, -28);
-    const historyEnd = new Date(today);
-
-    const forecastStart = startOfMonday(today);
-    const forecastEnd = addDays(forecastStart, horizonWeeks * 7 - 1);
-
-    const forecastWeeks: Date[] = [];
-    for (let i = 0; i < horizonWeeks; i++) {
-      forecastWeeks.push(addDays(forecastStart, i * 7));
-    }
-
-    const historicalRows = await dbRows<{
-      user_id: string;
-      first_name: string | null;
-      last_name: string | null;
-      email: string;
-      week_start: string | null;
-      actual_hours: string;
-    }>(sql`
-      SELECT
-        u.id AS user_id,
-        u.first_name,
-        u.last_name,
-        u.email,
-        to_char(date_trunc('week', te.start_time), 'YYYY-MM-DD') AS week_start,
-        COALESCE(SUM(te.duration_seconds) / 3600.0, 0) AS actual_hours
-      FROM users u
-      LEFT JOIN time_entries te
-        ON te.user_id = u.id
-        AND te.tenant_id = ${tenantId}
-        AND te.start_time >= ${isoDate(historyStart)}
-        AND te.start_time < ${isoDate(historyEnd)}
-      WHERE u.tenant_id = ${tenantId}
-        AND u.role IN ('admin', 'employee')
-      GROUP BY u.id, u.first_name, u.last_name, u.email, date_trunc('week', te.start_time)
-      ORDER BY u.id, week_start
-    `);
-
-    const allUsersRows = await dbRows<{
-      user_id: string;
-      first_name: string | null;
-      last_name: string | null;
-      email: string;
-    }>(sql`
-      SELECT id AS user_id, first_name, last_name, email
-      FROM users
-      WHERE tenant_id = ${tenantId}
-        AND role IN ('admin', 'employee')
-      ORDER BY last_name, first_name
-    `);
-
-    const workloadRows = await dbRows<{
-      user_id: string;
-      week_start: string;
-      due_estimated_hours: string;
-    }>(sql`
-      SELECT
-        ta.user_id,
-        to_char(date_trunc('week', t.due_date), 'YYYY-MM-DD') AS week_start,
-        COALESCE(SUM(t.estimate_minutes) / 60.0, 0) AS due_estimated_hours
-      FROM tasks t
-      JOIN task_assignees ta ON ta.task_id = t.id AND ta.tenant_id = ${tenantId}
-      WHERE t.tenant_id = ${tenantId}
-        AND t.status NOT IN ('done', 'cancelled')
-        AND t.due_date IS NOT NULL
-        AND t.due_date BETWEEN ${isoDate(forecastStart)} AND ${isoDate(forecastEnd)}
-      GROUP BY ta.user_id, date_trunc('week', t.due_date)
-    `);
-
-    const countRow = firstRow(await dbRows<{
-      total_users: string;
-      users_with_time: string;
-      tasks_total: string;
-      tasks_with_estimate: string;
-    }>(sql`
-      SELECT
-        (SELECT COUNT(*) FROM users WHERE tenant_id = ${tenantId} AND role IN ('admin','employee')) AS total_users,
-        (SELECT COUNT(DISTINCT user_id) FROM time_entries
-          WHERE tenant_id = ${tenantId}
-          AND start_time >= ${isoDate(historyStart)} AND start_time < ${isoDate(historyEnd)}) AS users_with_time,
-        (SELECT COUNT(*) FROM tasks WHERE tenant_id = ${tenantId} AND status NOT IN ('done','cancelled')) AS tasks_total,
-        (SELECT COUNT(*) FROM tasks WHERE tenant_id = ${tenantId} AND status NOT IN ('done','cancelled') AND estimate_minutes IS NOT NULL AND estimate_minutes > 0) AS tasks_with_estimate
-    `));
-
-    const totalUsers = Number(countRow?.total_users ?? 0);
-    const usersWithTime = Number(countRow?.users_with_time ?? 0);
-    const tasksTotal = Number(countRow?.tasks_total ?? 0);
-    const tasksWithEst = Number(countRow?.tasks_with_estimate ?? 0);
-    const timePct = totalUsers > 0 ? Math.round(usersWithTime / totalUsers * 100) : 0;
-    const estimatePct = tasksTotal > 0 ? Math.round(tasksWithEst / tasksTotal * 100) : 0;
-
-    const userActualByWeek = new Map<string, Map<string, number>>();
-    for (const row of historicalRows) {
-      if (!row.week_start) continue;
-      if (!userActualByWeek.has(row.user_id)) userActualByWeek.set(row.user_id, new Map());
-      userActualByWeek.get(row.user_id)!.set(row.week_start, Number(row.actual_hours));
-    }
-
-    const userDueEstByWeek = new Map<string, Map<string, number>>();
-    for (const row of workloadRows) {
-      if (!userDueEstByWeek.has(row.user_id)) userDueEstByWeek.set(row.user_id, new Map());
-      userDueEstByWeek.get(row.user_id)!.set(row.week_start, Number(row.due_estimated_hours));
-    }
-
-    const distinctHistWeeks = new Set<string>();
-    for (const row of historicalRows) {
-      if (row.week_start) distinctHistWeeks.add(row.week_start);
-    }
-
-    const confidence = buildConfidence(timePct, estimatePct);
-    const dataQualityFlags = buildDataQualityFlags(timePct, estimatePct, distinctHistWeeks.size);
-
-    const users = allUsersRows.map((u) => {
-      const weeklyMap = userActualByWeek.get(u.user_id) ?? new Map();
-      const weeklyHours = Array.from(weeklyMap.values());
-      const historicalAvg = weeklyHours.length > 0
-        ? weeklyHours.reduce((a, b) => a + b, 0) / weeklyHours.length
-        : 0;
-
-      const weeks = forecastWeeks.map((wStart) => {
-        const weekKey = isoDate(wStart);
-        const dueEstimated = userDueEstByWeek.get(u.user_id)?.get(weekKey) ?? 0;
-        const pressureFactor = Math.min(dueEstimated * 0.25, historicalAvg * 0.4);
-        const predictedHours = Math.round((historicalAvg + pressureFactor) * 10) / 10;
-        const predictedUtilizationPct = Math.round(predictedHours / 40 * 100);
-        const overloadRisk: "Low" | "Medium" | "High" =
-          predictedUtilizationPct >= 110 ? "High" :
-          predictedUtilizationPct >= 90 ? "Medium" : "Low";
-
-        const explanation: string[] = [];
-        explanation.push(`Historical avg ${Math.round(historicalAvg * 10) / 10}h/wk over last 4 weeks`);
-        if (dueEstimated > 0) explanation.push(`${Math.round(dueEstimated * 10) / 10}h of estimated work due this week`);
-        explanation.push(`Predicted: ${predictedHours}h → ${predictedUtilizationPct}% of 40h`);
-        if (overloadRisk === "High") explanation.push("⚠ High overload risk — over 110% capacity");
-        else if (overloadRisk === "Medium") explanation.push("Approaching capacity threshold (90–110%)");
-
-        return {
-          weekStart: weekKey,
-          availableHours: 40,
-          historicalAvgHours: Math.round(historicalAvg * 10) / 10,
-          dueEstimatedHours: Math.round(dueEstimated * 10) / 10,
-          predictedHours,
-          predictedUtilizationPct,
-          overloadRisk,
-          explanation,
-        };
-      });
-
-      return {
-        userId: u.user_id,
-        firstName: u.first_name,
-        lastName: u.last_name,
-        email: u.email,
-        weeks,
-      };
-    });
-
+    const forecast = await computeCapacityOverload(tenantId, parseHorizonWeeks(req));
     res.json({
-      asOfDate: asOfDate.toISOString(),
-      horizonWeeks,
-      confidence,
-      modelVersion: "v1.0",
-      dataQualityFlags,
+      ...forecast,
       explanations: [
-        "Predicted hours = historical 4-week average + 25% of estimated work due that week",
-        "Overload risk: High ≥110%, Medium 90–109%, Low <90% of 40h",
-        confidence === "Low" ? "Low confidence — limited time tracking history" : "",
+        ...forecast.explanations,
+        forecast.confidence === "Low" ? "Low confidence — limited time tracking history" : "",
       ].filter(Boolean),
-      users,
     });
   } catch (err) {
     return handleRouteError(res, err, "GET /forecasting/capacity-overload", req);
@@ -273,17 +158,17 @@ router.get("/forecasting/project-deadline-risk", async (req: Request, res: Respo
         p.id AS project_id,
         p.name AS project_name,
         to_char(p.due_date, 'YYYY-MM-DD') AS due_date,
-        COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') THEN t.id END) AS open_task_count,
+        COUNT(DISTINCT CASE WHEN ${taskIsOpen()} THEN t.id END) AS open_task_count,
         COUNT(DISTINCT CASE
-          WHEN t.status NOT IN ('done','cancelled') AND t.due_date < NOW() THEN t.id
+          WHEN ${taskIsOpen()} AND t.due_date < NOW() THEN t.id
         END) AS overdue_count,
         COALESCE(SUM(CASE
-          WHEN t.status NOT IN ('done','cancelled')
+          WHEN ${taskIsOpen()}
           THEN COALESCE(t.estimate_minutes, 0) ELSE 0
         END) / 60.0, 0) AS open_estimated_hours,
         COUNT(DISTINCT CASE
-          WHEN t.status = 'done'
-          AND t.updated_at >= ${isoDate(historyStart)}
+          WHEN ${taskIsDone()}
+          AND t.completed_at >= ${isoDate(historyStart)}
           THEN t.id
         END) AS completed_in_history
       FROM projects p
@@ -302,13 +187,61 @@ router.get("/forecasting/project-deadline-risk", async (req: Request, res: Respo
         COUNT(*) AS tasks_total,
         COUNT(CASE WHEN estimate_minutes IS NOT NULL AND estimate_minutes > 0 THEN 1 END) AS tasks_with_estimate
       FROM tasks
-      WHERE tenant_id = ${tenantId} AND status NOT IN ('done','cancelled')
+      WHERE tenant_id = ${tenantId} AND ${taskIsOpen("tasks")}
     `));
 
     const tasksTotal = Number(countRow?.tasks_total ?? 0);
     const tasksWithEst = Number(countRow?.tasks_with_estimate ?? 0);
     const estimatePct = tasksTotal > 0 ? Math.round(tasksWithEst / tasksTotal * 100) : 0;
 
+    const openTaskRows = await dbRows<{
+      id: string;
+      project_id: string;
+      category: StatusCategoryValue;
+      estimate_minutes: number | null;
+    }>(sql`
+      SELECT id, project_id, ${taskStatusCategory("tasks")} AS category, estimate_minutes
+      FROM tasks
+      WHERE tenant_id = ${tenantId}
+        AND project_id IS NOT NULL
+        AND archived_at IS NULL
+        AND ${taskIsOpen("tasks")}
+    `);
+
+    const dependencyRows = await dbRows<{
+      predecessor_task_id: string;
+      successor_task_id: string;
+      type: string;
+      lag_days: number;
+    }>(sql`
+      SELECT predecessor_task_id, successor_task_id, type, lag_days
+      FROM task_dependencies
+      WHERE tenant_id = ${tenantId}
+    `);
+
+    const openTasksByProject = new Map<string, ScheduledTask[]>();
+    for (const row of openTaskRows) {
+      const list = openTasksByProject.get(row.project_id) ?? [];
+      list.push({ id: row.id, category: row.category, startDate: null, dueDate: null, estimateMinutes: row.estimate_minutes });
+      openTasksByProject.set(row.project_id, list);
+    }
+    const dependencyEdges: DependencyEdge[] = dependencyRows.map((row) => ({
+      predecessorTaskId: row.predecessor_task_id,
+      successorTaskId: row.successor_task_id,
+      type: row.type,
+      lagDays: Number(row.lag_days),
+    }));
+
+    const criticalPaths = new Map(projectRows.map((row) => [
+      row.project_id,
+      computeCriticalPath(openTasksByProject.get(row.project_id) ?? [], dependencyEdges),
+    ]));
+    const pathWeeklyHours = await criticalPathWeeklyHours(
+      tenantId,
+      new Map(Array.from(criticalPaths, ([projectId, path]) => [projectId, path.taskIds])),
+      horizonWeeks,
+    );
+
     const histWeeks = 4;
     const confidence = buildConfidence(60, estimatePct);
     const dataQualityFlags = buildDataQualityFlags(60, estimatePct, histWeeks);
@@ -325,6 +258,14 @@ router.get("/forecasting/project-deadline-risk", async (req: Request, res: Respo
         ? Math.round(openTaskCount / Math.max(throughputPerWeek, 0.5) * 10) / 10
         : 0;
 
+      // A dependency chain is worked sequentially, so it cannot clear faster than its
+      // assignees' working week allows, regardless of team throughput.
+      const criticalPath = criticalPaths.get(row.project_id)!;
+      const criticalPathHours = Math.round(criticalPath.totalMinutes / 60 * 10) / 10;
+      const weeklyHours = pathWeeklyHours.get(row.project_id) ?? FULL_TIME_WEEK_HOURS;
+      const criticalPathWeeks = Math.round(criticalPathHours / Math.max(weeklyHours, 1) * 10) / 10;
+      const effectiveWeeksToClear = Math.max(predictedWeeksToClear, criticalPathWeeks);
+
       let weeksUntilDue: number | null = null;
       if (row.due_date) {
         const due = new Date(row.due_date);
@@ -339,16 +280,25 @@ router.get("/forecasting/project-deadline-risk", async (req: Request, res: Respo
       explanation.push(`Predicted weeks to clear backlog: ${predictedWeeksToClear}`);
       if (openEstimatedHours > 0) explanation.push(`Open estimated work: ${openEstimatedHours}h`);
       if (recentActualHours > 0) explanation.push(`Recent actual work: ${recentActualHours}h over 4 weeks`);
+      if (criticalPath.taskIds.length > 1) {
+        explanation.push(
+          `Critical path: ${criticalPath.taskIds.length} dependent tasks, ${criticalPathHours}h ` +
+          `(${criticalPathWeeks} weeks at ${Math.round(weeklyHours * 10) / 10}h/week)`,
+        );
+      }
 
       if (weeksUntilDue !== null) {
         explanation.push(`Due in ${weeksUntilDue} weeks`);
         if (weeksUntilDue < 0) {
           deadlineRisk = "High";
           explanation.push("⚠ Project past due date");
-        } else if (predictedWeeksToClear > weeksUntilDue * 1.1 || overdueCount >= 3) {
+        } else if (criticalPathWeeks > weeksUntilDue) {
+          deadlineRisk = "High";
+          explanation.push("⚠ Critical path of dependent tasks extends past the deadline");
+        } else if (effectiveWeeksToClear > weeksUntilDue * 1.1 || overdueCount >= 3) {
           deadlineRisk = "High";
           explanation.push("⚠ Backlog too large to clear before deadline at current throughput");
-        } else if (predictedWeeksToClear > weeksUntilDue * 0.75) {
+        } else if (effectiveWeeksToClear > weeksUntilDue * 0.75) {
           deadlineRisk = "Medium";
           explanation.push("Moderate risk — close to deadline with remaining backlog");
         } else {
@@ -376,6 +326,9 @@ router.get("/forecasting/project-deadline-risk", async (req: Request, res: Respo
         openEstimatedHours,
         throughputPerWeek,
         predictedWeeksToClear,
+        criticalPathTaskIds: criticalPath.taskIds,
+        criticalPathHours,
+        criticalPathWeeks,
         recentActualHoursPerWeek: Math.round(recentActualHours / 4 * 10) / 10,
         deadlineRisk,
         explanation,
@@ -391,7 +344,8 @@ router.get("/forecasting/project-deadline-risk", async (req: Request, res: Respo
       explanations: [
         "Throughput = completed tasks over last 4 weeks ÷ 4",
         "Predicted weeks to clear = open tasks ÷ max(throughput, 0.5)",
-        "High risk if predicted weeks > weeks until due × 1.1, or project is overdue",
+        "Critical path = longest finish-to-start chain of open tasks by estimate, at its assignees' available hours per week (40h when unassigned)",
+        "High risk if the critical path or predicted weeks (× 1.1) exceed weeks until due, or project is overdue",
       ],
       projects,
     });
@@ -429,23 +383,23 @@ router.get("/forecasting/client-risk-trend", async (req: Request, res: Response)
       SELECT
         c.id AS client_id,
         c.company_name,
-        COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') THEN t.id END) AS curr_open,
+        COUNT(DISTINCT CASE WHEN ${taskIsOpen()} THEN t.id END) AS curr_open,
         COUNT(DISTINCT CASE
-          WHEN t.status NOT IN ('done','cancelled') AND t.due_date < NOW() THEN t.id
+          WHEN ${taskIsOpen()} AND t.due_date < NOW() THEN t.id
         END) AS curr_overdue,
         COALESCE(SUM(CASE
           WHEN te.start_time >= ${isoDate(currentStart)} THEN te.duration_seconds ELSE 0
         END) / 3600.0, 0) AS curr_hours,
         COUNT(DISTINCT CASE
-          WHEN t.status = 'done' AND t.updated_at >= ${isoDate(currentStart)} THEN t.id
+          WHEN ${taskIsDone()} AND t.completed_at >= ${isoDate(currentStart)} THEN t.id
         END) AS curr_completed,
         MAX(CASE WHEN t.updated_at >= ${isoDate(currentStart)} THEN t.updated_at END) AS curr_last_activity,
         COUNT(DISTINCT CASE
-          WHEN t.status NOT IN ('done','cancelled')
+          WHEN ${taskIsOpen()}
           AND t.created_at < ${isoDate(currentStart)} THEN t.id
         END) AS prior_open,
         COUNT(DISTINCT CASE
-          WHEN t.status NOT IN ('done','cancelled')
+          WHEN ${taskIsOpen()}
           AND t.due_date < ${isoDate(currentStart)}
           AND t.created_at < ${isoDate(currentStart)} THEN t.id
         END) AS prior_overdue,
@@ -454,9 +408,9 @@ router.get("/forecasting/client-risk-trend", async (req: Request, res: Response)
           AND te.start_time < ${isoDate(currentStart)} THEN te.duration_seconds ELSE 0
         END) / 3600.0, 0) AS prior_hours,
         COUNT(DISTINCT CASE
-          WHEN t.status = 'done'
-          AND t.updated_at >= ${isoDate(priorStart)}
-          AND t.updated_at < ${isoDate(currentStart)} THEN t.id
+          WHEN ${taskIsDone()}
+          AND t.completed_at >= ${isoDate(priorStart)}
+          AND t.completed_at < ${isoDate(currentStart)} THEN t.id
         END) AS prior_completed
       FROM clients c
       LEFT JOIN projects p ON p.client_id = c.id AND p.tenant_id = ${tenantId}
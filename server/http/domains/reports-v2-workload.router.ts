@@ -11,6 +11,10 @@ import {
   formatHours,
   formatMinutesToHours,
 } from "../../reports/utils";
+import { taskIsDone, taskIsOpen } from "../../reports/taskStatusSql";
+import { getFlowByUser, getFlowSummary, getTimeInStatus } from "../../reports/flowMetrics";
+import { computeUtilizationPct } from "../../reports/metricDefinitions";
+import { capacityService, toIsoDate } from "../../features/capacity/capacity.service";
 
 const router = Router();
 
@@ -51,17 +55,17 @@ router.get("/workload/team", async (req: Request, res: Response) => {
         u.email,
         u.avatar_url,
         COUNT(DISTINCT CASE
-          WHEN t.status NOT IN ('done', 'cancelled')
+          WHEN ${taskIsOpen()}
           THEN t.id
         END) AS active_tasks_now,
         COUNT(DISTINCT CASE
-          WHEN t.status NOT IN ('done', 'cancelled') AND t.due_date < NOW()
+          WHEN ${taskIsOpen()} AND t.due_date < NOW()
           THEN t.id
         END) AS overdue_count,
         COUNT(DISTINCT CASE
-          WHEN t.status = 'done'
-            AND t.updated_at >= ${startDate}
-            AND t.updated_at <= ${endDate}
+          WHEN ${taskIsDone()}
+            AND t.completed_at >= ${startDate}
+            AND t.completed_at <= ${endDate}
           THEN t.id
         END) AS completed_count,
         COALESCE(SUM(
@@ -69,11 +73,11 @@ router.get("/workload/team", async (req: Request, res: Response) => {
           THEN te.duration_seconds ELSE 0 END
         ), 0)::float / 3600.0 AS total_hours,
         COALESCE(SUM(
-          CASE WHEN t.status NOT IN ('done', 'cancelled')
+          CASE WHEN ${taskIsOpen()}
           THEN COALESCE(t.estimate_minutes, 0) ELSE 0 END
         ), 0) AS estimated_minutes,
         COUNT(DISTINCT CASE
-          WHEN t.status NOT IN ('done', 'cancelled')
+          WHEN ${taskIsOpen()}
             AND t.due_date > NOW()
             AND t.due_date <= NOW() + INTERVAL '7 days'
           THEN t.id
@@ -97,6 +101,13 @@ router.get("/workload/team", async (req: Request, res: Response) => {
       ${userFilter}
     `));
 
+    const flowByUser = await getFlowByUser({
+      tenantId,
+      startDate,
+      endDate,
+      userIds: filters.userIds,
+    });
+
     const team = rows.map((r) => {
       const activeTasks = Number(r.active_tasks_now);
       const overdueCount = Number(r.overdue_count);
@@ -125,6 +136,8 @@ router.get("/workload/team", async (req: Request, res: Response) => {
         estimatedHours,
         efficiencyRatio,
         overdueRate,
+        avgLeadTimeDays: flowByUser.get(r.user_id)?.avgLeadTimeDays ?? null,
+        avgCycleTimeDays: flowByUser.get(r.user_id)?.avgCycleTimeDays ?? null,
       };
     });
 
@@ -171,11 +184,11 @@ router.get("/workload/users/:userId", async (req: Request, res: Response) => {
       due_soon: string;
     }>(sql`
       SELECT
-        COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') THEN t.id END) AS active_tasks,
-        COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') AND t.due_date < NOW() THEN t.id END) AS overdue_count,
-        COUNT(DISTINCT CASE WHEN t.status='done' AND t.updated_at BETWEEN ${startDate} AND ${endDate} THEN t.id END) AS completed_count,
+        COUNT(DISTINCT CASE WHEN ${taskIsOpen()} THEN t.id END) AS active_tasks,
+        COUNT(DISTINCT CASE WHEN ${taskIsOpen()} AND t.due_date < NOW() THEN t.id END) AS overdue_count,
+        COUNT(DISTINCT CASE WHEN ${taskIsDone()} AND t.completed_at BETWEEN ${startDate} AND ${endDate} THEN t.id END) AS completed_count,
         COALESCE(SUM(CASE WHEN te.start_time BETWEEN ${startDate} AND ${endDate} THEN te.duration_seconds ELSE 0 END), 0)::float / 3600.0 AS total_hours,
-        COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') AND t.due_date > NOW() AND t.due_date <= NOW() + INTERVAL '7 days' THEN t.id END) AS due_soon
+        COUNT(DISTINCT CASE WHEN ${taskIsOpen()} AND t.due_date > NOW() AND t.due_date <= NOW() + INTERVAL '7 days' THEN t.id END) AS due_soon
       FROM users u
       LEFT JOIN task_assignees ta ON ta.user_id = u.id AND ta.tenant_id = ${tenantId}
       LEFT JOIN tasks t ON t.id = ta.task_id AND t.tenant_id = ${tenantId}
@@ -190,7 +203,7 @@ router.get("/workload/users/:userId", async (req: Request, res: Response) => {
     }>(sql`
       SELECT
         gs.day::date AS day,
-        COUNT(DISTINCT CASE WHEN t.status='done' AND t.updated_at::date = gs.day::date THEN t.id END) AS completed_tasks,
+        COUNT(DISTINCT CASE WHEN ${taskIsDone()} AND t.completed_at::date = gs.day::date THEN t.id END) AS completed_tasks,
         COALESCE(SUM(CASE WHEN te.start_time::date = gs.day::date THEN te.duration_seconds ELSE 0 END), 0)::float / 3600.0 AS hours_tracked
       FROM generate_series(${startDate}::date, ${endDate}::date, '1 day'::interval) AS gs(day)
       LEFT JOIN task_assignees ta ON ta.tenant_id = ${tenantId} AND ta.user_id = ${userId}
@@ -223,6 +236,12 @@ router.get("/workload/users/:userId", async (req: Request, res: Response) => {
       LIMIT 5
     `);
 
+    const flowScope = { tenantId, startDate, endDate, userId };
+    const [flow, timeInStatus] = await Promise.all([
+      getFlowSummary(flowScope),
+      getTimeInStatus(flowScope),
+    ]);
+
     const overdueTaskSample = await db.execute<{
       id: string;
       title: string;
@@ -236,7 +255,7 @@ router.get("/workload/users/:userId", async (req: Request, res: Response) => {
       LEFT JOIN projects p ON p.id = t.project_id
       WHERE t.tenant_id = ${tenantId}
         AND ta.user_id = ${userId}
-        AND t.status NOT IN ('done', 'cancelled')
+        AND ${taskIsOpen()}
         AND t.due_date < NOW()
       ORDER BY t.due_date ASC
       LIMIT 10
@@ -257,6 +276,7 @@ router.get("/workload/users/:userId", async (req: Request, res: Response) => {
         totalHours: Math.round(Number(summaryRow?.total_hours ?? 0) * 10) / 10,
         dueSoonCount: Number(summaryRow?.due_soon ?? 0),
       },
+      flow: { ...flow, timeInStatus },
       dailyTrend: dailyTrend.map(r => ({
         day: r.day,
         completedTasks: Number(r.completed_tasks),
@@ -309,7 +329,7 @@ router.get("/workload/capacity", async (req: Request, res: Response) => {
         date_trunc('week', gs.week)::date AS week_start,
         COALESCE(SUM(CASE
           WHEN t.due_date >= gs.week AND t.due_date < gs.week + INTERVAL '7 days'
-            AND t.status NOT IN ('done','cancelled')
+            AND ${taskIsOpen()}
           THEN COALESCE(t.estimate_minutes, 0) ELSE 0
         END), 0) AS estimated_minutes,
         COALESCE(SUM(CASE
@@ -341,6 +361,7 @@ router.get("/workload/capacity", async (req: Request, res: Response) => {
         weekStart: string;
         estimatedHours: number;
         actualHours: number;
+        availableHours: number;
         utilizationPct: number | null;
       }>;
     }>();
@@ -357,21 +378,34 @@ router.get("/workload/capacity", async (req: Request, res: Response) => {
       }
       const actualHours = Math.round(Number(r.actual_seconds) / 3600 * 10) / 10;
       const estimatedHours = Math.round(Number(r.estimated_minutes) / 60 * 10) / 10;
-      const availableHours = 40;
-      const utilizationPct = actualHours > 0
-        ? Math.round((actualHours / availableHours) * 100)
-        : null;
 
       usersMap.get(r.user_id)!.weeks.push({
         weekStart: r.week_start,
         estimatedHours,
         actualHours,
-        utilizationPct,
+        availableHours: 0,
+        utilizationPct: null,
       });
     }
 
+    const weekKey = (value: string) => toIsoDate(new Date(value));
+    const users = Array.from(usersMap.values());
+    const capacity = await capacityService.weeklyHoursByUser(
+      tenantId,
+      users.map((u) => u.userId),
+      Array.from(new Set(users.flatMap((u) => u.weeks.map((w) => weekKey(w.weekStart))))),
+    );
+    for (const user of users) {
+      for (const week of user.weeks) {
+        week.availableHours = capacity.get(user.userId)?.get(weekKey(week.weekStart))?.availableHours ?? 0;
+        week.utilizationPct = week.actualHours > 0
+          ? computeUtilizationPct(week.actualHours, week.availableHours)
+          : null;
+      }
+    }
+
     res.json({
-      users: Array.from(usersMap.values()),
+      users,
       range: { startDate, endDate },
     });
   } catch (error) {
@@ -401,8 +435,8 @@ router.get("/workload/risk", async (req: Request, res: Response) => {
         u.last_name,
         u.email,
         u.avatar_url,
-        COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') THEN t.id END) AS active_tasks,
-        COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') AND t.due_date < NOW() THEN t.id END) AS overdue_count,
+        COUNT(DISTINCT CASE WHEN ${taskIsOpen()} THEN t.id END) AS active_tasks,
+        COUNT(DISTINCT CASE WHEN ${taskIsOpen()} AND t.due_date < NOW() THEN t.id END) AS overdue_count,
         COALESCE(SUM(CASE WHEN te.start_time BETWEEN ${startDate} AND ${endDate} THEN te.duration_seconds ELSE 0 END), 0) AS total_seconds,
         GREATEST(${Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24))}, 1) AS days_in_range
       FROM users u
@@ -1,85 +1,171 @@
 import { createApiRouter } from "../routerFactory";
-import { getRetentionAuditSummary, getAllTenantsAuditSummary } from "../../retention/retentionAudit";
-import { runSoftArchive } from "../../retention/softArchiveRunner";
+import { getRetentionAuditSummary, getAllTenantsAuditSummary, getRetentionDryRun } from "../../retention/retentionAudit";
+import { runRetention } from "../../retention/retentionRunner";
+import { RETENTION_ENTITIES, restoreRows, supportsSoftArchive } from "../../retention/retentionEntities";
+import { listLegalHolds, placeLegalHold, releaseLegalHold } from "../../retention/legalHolds";
 import { db } from "../../db";
-import { dataRetentionPolicies } from "@shared/schema";
+import {
+  dataRetentionPolicies,
+  upsertDataRetentionPolicySchema,
+  createLegalHoldSchema,
+  RETENTION_ENTITY_TYPES,
+} from "@shared/schema";
 import { eq, and } from "drizzle-orm";
 import { z } from "zod";
+import { AppError, handleRouteError, validateBody } from "../../lib/errors";
 
 const retentionRouter = createApiRouter({ policy: "superUser" });
 
 // GET /api/v1/super/retention/audit
 retentionRouter.get("/audit", async (req, res) => {
-  const summaries = await getAllTenantsAuditSummary();
-  res.json(summaries);
+  try {
+    const summaries = await getAllTenantsAuditSummary();
+    res.json(summaries);
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/v1/super/retention/audit", req);
+  }
 });
 
 // GET /api/v1/super/retention/audit/:tenantId
 retentionRouter.get("/audit/:tenantId", async (req, res) => {
-  const summary = await getRetentionAuditSummary(req.params.tenantId);
-  res.json(summary);
+  try {
+    const summary = await getRetentionAuditSummary(req.params.tenantId);
+    res.json(summary);
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/v1/super/retention/audit/:tenantId", req);
+  }
+});
+
+// GET /api/v1/super/retention/dry-run/:tenantId — what a run would archive, purge and keep on hold
+retentionRouter.get("/dry-run/:tenantId", async (req, res) => {
+  try {
+    res.json(await getRetentionDryRun(req.params.tenantId));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/v1/super/retention/dry-run/:tenantId", req);
+  }
 });
 
 // POST /api/v1/super/retention/run/:tenantId
 retentionRouter.post("/run/:tenantId", async (req, res) => {
-  const result = await runSoftArchive(req.params.tenantId);
-  res.json(result);
+  try {
+    const result = await runRetention(req.params.tenantId);
+    res.json(result);
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/v1/super/retention/run/:tenantId", req);
+  }
+});
+
+const restoreSchema = z.object({
+  entityType: z.enum(RETENTION_ENTITY_TYPES),
+  // Omit to restore everything still in the archive
+  ids: z.array(z.string().min(1)).min(1).max(1000).optional(),
+});
+
+// POST /api/v1/super/retention/restore/:tenantId — un-archive records that have not been purged yet
+retentionRouter.post("/restore/:tenantId", async (req, res) => {
+  try {
+    const data = validateBody(req.body, restoreSchema, res);
+    if (!data) return;
+    if (!supportsSoftArchive(data.entityType)) {
+      throw AppError.badRequest("This entity type is never soft-archived");
+    }
+    const restored = await restoreRows(RETENTION_ENTITIES[data.entityType], req.params.tenantId, data.ids);
+    res.json({ entityType: data.entityType, restored });
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/v1/super/retention/restore/:tenantId", req);
+  }
+});
+
+// Legal holds
+retentionRouter.get("/holds/:tenantId", async (req, res) => {
+  try {
+    res.json(await listLegalHolds(req.params.tenantId));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/v1/super/retention/holds/:tenantId", req);
+  }
+});
+
+retentionRouter.post("/holds/:tenantId", async (req, res) => {
+  try {
+    const data = validateBody(req.body, createLegalHoldSchema, res);
+    if (!data) return;
+    const hold = await placeLegalHold(req.params.tenantId, (req.user as any)?.id ?? null, data);
+    res.status(201).json(hold);
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/v1/super/retention/holds/:tenantId", req);
+  }
+});
+
+retentionRouter.post("/holds/:tenantId/:holdId/release", async (req, res) => {
+  try {
+    res.json(await releaseLegalHold(req.params.tenantId, req.params.holdId, (req.user as any)?.id ?? null));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/v1/super/retention/holds/:tenantId/:holdId/release", req);
+  }
 });
 
 // CRUD for policies
 retentionRouter.get("/policies", async (req, res) => {
-  const policies = await db.select().from(dataRetentionPolicies);
-  res.json(policies);
+  try {
+    const policies = await db.select().from(dataRetentionPolicies);
+    res.json(policies);
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/v1/super/retention/policies", req);
+  }
 });
 
 retentionRouter.get("/policies/:tenantId", async (req, res) => {
-  const policies = await db.select().from(dataRetentionPolicies).where(eq(dataRetentionPolicies.tenantId, req.params.tenantId));
-  res.json(policies);
-});
-
-const policySchema = z.object({
-  entityType: z.enum(["tasks", "chat_messages"]),
-  isEnabled: z.boolean(),
-  retentionDays: z.number().int().min(1),
-  archiveMode: z.enum(["soft", "hard"]).default("soft"),
+  try {
+    const policies = await db.select().from(dataRetentionPolicies).where(eq(dataRetentionPolicies.tenantId, req.params.tenantId));
+    res.json(policies);
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/v1/super/retention/policies/:tenantId", req);
+  }
 });
 
 retentionRouter.post("/policies/:tenantId", async (req, res) => {
-  const tenantId = req.params.tenantId;
-  const validated = policySchema.parse(req.body);
-
-  const [existing] = await db.select().from(dataRetentionPolicies).where(
-    and(
-      eq(dataRetentionPolicies.tenantId, tenantId),
-      eq(dataRetentionPolicies.entityType, validated.entityType)
-    )
-  ).limit(1);
-
-  if (existing) {
-    const [updated] = await db.update(dataRetentionPolicies)
-      .set({
-        retentionDays: validated.retentionDays,
-        isEnabled: validated.isEnabled,
-        archiveMode: validated.archiveMode,
-        updatedAt: new Date(),
-        updatedByUserId: (req.user as any)?.id,
-      })
-      .where(eq(dataRetentionPolicies.id, existing.id))
-      .returning();
-    res.json(updated);
-  } else {
-    const [inserted] = await db.insert(dataRetentionPolicies)
-      .values({
-        tenantId,
-        entityType: validated.entityType,
-        retentionDays: validated.retentionDays,
-        isEnabled: validated.isEnabled,
-        archiveMode: validated.archiveMode,
-        createdByUserId: (req.user as any)?.id,
-        updatedByUserId: (req.user as any)?.id,
-      })
-      .returning();
-    res.json(inserted);
+  try {
+    const tenantId = req.params.tenantId;
+    const validated = validateBody(req.body, upsertDataRetentionPolicySchema, res);
+    if (!validated) return;
+
+    const [existing] = await db.select().from(dataRetentionPolicies).where(
+      and(
+        eq(dataRetentionPolicies.tenantId, tenantId),
+        eq(dataRetentionPolicies.entityType, validated.entityType)
+      )
+    ).limit(1);
+
+    if (existing) {
+      const [updated] = await db.update(dataRetentionPolicies)
+        .set({
+          retentionDays: validated.retentionDays,
+          isEnabled: validated.isEnabled,
+          archiveMode: validated.archiveMode,
+          restoreWindowDays: validated.restoreWindowDays,
+          updatedAt: new Date(),
+          updatedByUserId: (req.user as any)?.id,
+        })
+        .where(eq(dataRetentionPolicies.id, existing.id))
+        .returning();
+      res.json(updated);
+    } else {
+      const [inserted] = await db.insert(dataRetentionPolicies)
+        .values({
+          tenantId,
+          entityType: validated.entityType,
+          retentionDays: validated.retentionDays,
+          isEnabled: validated.isEnabled,
+          archiveMode: validated.archiveMode,
+          restoreWindowDays: validated.restoreWindowDays,
+          createdByUserId: (req.user as any)?.id,
+          updatedByUserId: (req.user as any)?.id,
+        })
+        .returning();
+      res.json(inserted);
+    }
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/v1/super/retention/policies/:tenantId", req);
   }
 });
 
@@ -0,0 +1,146 @@
+/**
+ * Saved Views Domain Router
+ *
+ * Server-side task filtering (AND/OR groups over status, priority, assignee, tags, dates,
+ * estimate, project, client and text — see shared/taskFilters.ts) and named views over it,
+ * personal or shared with a team.
+ *
+ * Endpoint inventory (7 endpoints):
+ *   Query:
+ *     POST   /tasks/query                 — tasks matching { filter, sort, limit, offset }
+ *
+ *   Views:
+ *     GET    /saved-views                 — own views plus views shared with the user's teams
+ *     POST   /saved-views                 — create a view
+ *     GET    /saved-views/:id             — one view
+ *     PATCH  /saved-views/:id             — update (owner; admins for team views)
+ *     DELETE /saved-views/:id             — delete (owner; admins for team views)
+ *     GET    /saved-views/:id/tasks       — run the view (?limit=&offset=)
+ */
+import { Request, Response } from "express";
+import { createApiRouter } from "../routerFactory";
+import { getEffectiveTenantId } from "../../middleware/tenantContext";
+import { AppError, handleRouteError, sendError, validateBody } from "../../lib/errors";
+import {
+  UserRole,
+  createSavedViewSchema,
+  taskQuerySchema,
+  updateSavedViewSchema,
+} from "@shared/schema";
+import { savedViewService, type ViewActor } from "../../features/savedViews/savedView.service";
+
+const router = createApiRouter({
+  policy: "authTenant",
+  skipEnvelope: true,
+});
+
+/** Tenant and acting user, or null after sending the error. Portal users have no task views. */
+function resolveScope(req: Request, res: Response): { tenantId: string; actor: ViewActor } | null {
+  const tenantId = getEffectiveTenantId(req);
+  if (!tenantId) {
+    sendError(res, AppError.tenantRequired(), req);
+    return null;
+  }
+  const user = req.user as { id: string; role: string } | undefined;
+  if (!user || user.role === UserRole.CLIENT) {
+    sendError(res, AppError.forbidden("Saved views are not available to portal users"), req);
+    return null;
+  }
+  return { tenantId, actor: { id: user.id, role: user.role } };
+}
+
+function parsePage(query: Request["query"]): { limit: number; offset: number } {
+  return {
+    limit: Math.min(Math.max(parseInt(query.limit as string) || 200, 1), 500),
+    offset: Math.max(parseInt(query.offset as string) || 0, 0),
+  };
+}
+
+router.post("/tasks/query", async (req, res) => {
+  try {
+    const scope = resolveScope(req, res);
+    if (!scope) return;
+
+    const data = validateBody(req.body, taskQuerySchema, res);
+    if (!data) return;
+
+    res.json(await savedViewService.queryTasks(scope.tenantId, scope.actor.id, data));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/tasks/query", req);
+  }
+});
+
+router.get("/saved-views", async (req, res) => {
+  try {
+    const scope = resolveScope(req, res);
+    if (!scope) return;
+
+    res.json(await savedViewService.list(scope.tenantId, scope.actor));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/saved-views", req);
+  }
+});
+
+router.post("/saved-views", async (req, res) => {
+  try {
+    const scope = resolveScope(req, res);
+    if (!scope) return;
+
+    const data = validateBody(req.body, createSavedViewSchema, res);
+    if (!data) return;
+
+    res.status(201).json(await savedViewService.create(scope.tenantId, data, scope.actor));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/saved-views", req);
+  }
+});
+
+router.get("/saved-views/:id", async (req, res) => {
+  try {
+    const scope = resolveScope(req, res);
+    if (!scope) return;
+
+    res.json(await savedViewService.get(scope.tenantId, req.params.id, scope.actor));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/saved-views/:id", req);
+  }
+});
+
+router.patch("/saved-views/:id", async (req, res) => {
+  try {
+    const scope = resolveScope(req, res);
+    if (!scope) return;
+
+    const data = validateBody(req.body, updateSavedViewSchema, res);
+    if (!data) return;
+
+    res.json(await savedViewService.update(scope.tenantId, req.params.id, data, scope.actor));
+  } catch (error) {
+    return handleRouteError(res, error, "PATCH /api/saved-views/:id", req);
+  }
+});
+
+router.delete("/saved-views/:id", async (req, res) => {
+  try {
+    const scope = resolveScope(req, res);
+    if (!scope) return;
+
+    await savedViewService.delete(scope.tenantId, req.params.id, scope.actor);
+    res.status(204).send();
+  } catch (error) {
+    return handleRouteError(res, error, "DELETE /api/saved-views/:id", req);
+  }
+});
+
+router.get("/saved-views/:id/tasks", async (req, res) => {
+  try {
+    const scope = resolveScope(req, res);
+    if (!scope) return;
+
+    res.json(await savedViewService.runView(scope.tenantId, req.params.id, scope.actor, parsePage(req.query)));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/saved-views/:id/tasks", req);
+  }
+});
+
+export default router;
@@ -0,0 +1,87 @@
+/**
+ * Single Sign-On Settings Domain Router
+ *
+ * Tenant admins configure the organization's OIDC or SAML identity provider. The config is
+ * stored as the "sso" tenant integration; the client secret is encrypted and never returned.
+ * The login flow itself lives in features/sso/sso.routes.ts under /api/auth/sso.
+ *
+ * Endpoint inventory (4 endpoints):
+ *   GET    /sso/settings      — stored config plus the redirect/ACS URLs to register at the IdP
+ *   PUT    /sso/settings      — save the config (secrets are write-only)
+ *   DELETE /sso/settings      — remove SSO and unlink every IdP identity
+ *   POST   /sso/settings/test — check the IdP is reachable without signing anyone in
+ */
+import { Request, Response } from "express";
+import { createApiRouter } from "../routerFactory";
+import { getEffectiveTenantId } from "../../middleware/tenantContext";
+import { AppError, handleRouteError, sendError, validateBody } from "../../lib/errors";
+import { UserRole, updateSsoConfigSchema } from "@shared/schema";
+import { ssoService } from "../../features/sso/sso.service";
+
+const router = createApiRouter({
+  policy: "authTenant",
+  skipEnvelope: true,
+});
+
+function requireAdminTenant(req: Request, res: Response): string | null {
+  const role = req.user?.role;
+  if (role !== UserRole.ADMIN && role !== UserRole.SUPER_USER) {
+    sendError(res, AppError.forbidden("Admin access required"), req);
+    return null;
+  }
+  const tenantId = getEffectiveTenantId(req);
+  if (!tenantId) {
+    sendError(res, AppError.tenantRequired(), req);
+    return null;
+  }
+  return tenantId;
+}
+
+function baseUrl(req: Request): string {
+  return process.env.APP_PUBLIC_URL || `${req.protocol}://${req.get("host")}`;
+}
+
+router.get("/sso/settings", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    res.json(await ssoService.getSettings(tenantId, baseUrl(req)));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/sso/settings", req);
+  }
+});
+
+router.put("/sso/settings", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, updateSsoConfigSchema, res);
+    if (!data) return;
+    res.json(await ssoService.saveSettings(tenantId, data, req.user!));
+  } catch (error) {
+    return handleRouteError(res, error, "PUT /api/sso/settings", req);
+  }
+});
+
+router.delete("/sso/settings", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    await ssoService.removeSettings(tenantId, req.user!);
+    res.status(204).end();
+  } catch (error) {
+    return handleRouteError(res, error, "DELETE /api/sso/settings", req);
+  }
+});
+
+router.post("/sso/settings/test", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    res.json(await ssoService.testSettings(tenantId, baseUrl(req)));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/sso/settings/test", req);
+  }
+});
+
+export default router;
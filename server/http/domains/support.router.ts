@@ -3,6 +3,9 @@ import { createApiRouter } from "../routerFactory";
 import { storage } from "../../storage";
 import { getEffectiveTenantId } from "../../middleware/tenantContext";
 import { AppError, handleRouteError } from "../../lib/errors";
+import { publishWebhookEvent } from "../../features/webhooks/webhook.service";
+import { inboundEmailService } from "../../features/inboundEmail/inboundEmail.service";
+import { WEBHOOK_EVENTS } from "@shared/events";
 import { SupportTicketStatus, SupportTicketPriority, SupportTicketCategory, SupportTicketAuthorType, SupportTicketEventType, SupportTicketSource } from "@shared/schema";
 
 const router = createApiRouter({ policy: "authTenant" });
@@ -190,6 +193,8 @@ router.post("/tickets", async (req, res) => {
       })();
     }
 
+    publishWebhookEvent(tenantId, WEBHOOK_EVENTS.SUPPORT_TICKET_CREATED, { ticket });
+
     res.status(201).json(ticket);
   } catch (error) {
     return handleRouteError(res, error, "POST /api/v1/support/tickets", req);
@@ -262,6 +267,13 @@ router.patch("/tickets/:id", async (req, res) => {
     }
 
     const updated = await storage.updateSupportTicket(existing.id, tenantId, updates as any);
+    if (updates.status !== undefined) {
+      publishWebhookEvent(tenantId, WEBHOOK_EVENTS.SUPPORT_TICKET_STATUS_CHANGED, {
+        ticket: updated,
+        fromStatus: existing.status,
+        toStatus: updates.status,
+      });
+    }
     res.json(updated);
   } catch (error) {
     return handleRouteError(res, error, "PATCH /api/v1/support/tickets/:id", req);
@@ -322,6 +334,13 @@ router.post("/tickets/:id/messages", async (req, res) => {
       await storage.setTicketFirstResponse(ticket.id, tenantId, new Date());
     }
 
+    if (body.visibility === "public") {
+      const authorName = req.user!.name || req.user!.email;
+      inboundEmailService.sendTicketReply(ticket, authorName, body.bodyText).catch((err) => {
+        console.error(`[support] reply email failed ticketId=${ticket.id}`, err);
+      });
+    }
+
     res.status(201).json(message);
   } catch (error) {
     return handleRouteError(res, error, "POST /api/v1/support/tickets/:id/messages", req);
@@ -553,7 +572,15 @@ router.post("/tickets/:ticketId/apply-macro", async (req, res) => {
     }
 
     if (Object.keys(ticketUpdates).length > 0) {
-      await storage.updateSupportTicket(ticket.id, tenantId, ticketUpdates as any);
+      const updated = await storage.updateSupportTicket(ticket.id, tenantId, ticketUpdates as any);
+      if (ticketUpdates.status !== undefined) {
+        publishWebhookEvent(tenantId, WEBHOOK_EVENTS.SUPPORT_TICKET_STATUS_CHANGED, {
+          ticket: updated,
+          fromStatus: ticket.status,
+          toStatus: ticketUpdates.status,
+          macroId: macro.id,
+        });
+      }
     }
 
     await storage.createSupportTicketEvent({
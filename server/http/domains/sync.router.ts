@@ -0,0 +1,126 @@
+/**
+ * Two-way Sync Domain Router
+ *
+ * Tenant admins connect the workspace to an external task tracker, pick which imported projects
+ * stay in sync, set per-field conflict rules and watch the run log.
+ *
+ * Endpoint inventory (6 endpoints):
+ *   GET    /sync/providers                      — every provider with its connection, last run and mapped task count
+ *   GET    /sync/providers/:provider/projects   — imported remote projects that can be synced
+ *   PUT    /sync/providers/:provider            — create or update the connection; schedules a run right away
+ *   DELETE /sync/providers/:provider            — disconnect (ID mappings are kept for a later reconnect)
+ *   POST   /sync/providers/:provider/run        — queue a sync now
+ *   GET    /sync/providers/:provider/runs?limit= — run log, newest first
+ */
+import { Request, Response } from "express";
+import { createApiRouter } from "../routerFactory";
+import { getEffectiveTenantId } from "../../middleware/tenantContext";
+import { getCurrentUserId } from "../../routes/helpers";
+import { AppError, handleRouteError, sendError, validateBody } from "../../lib/errors";
+import { UserRole, upsertSyncConnectionSchema, type SyncProviderValue } from "@shared/schema";
+import { syncService } from "../../features/sync/sync.service";
+import { isSyncProvider } from "../../features/sync/adapters";
+
+const router = createApiRouter({
+  policy: "authTenant",
+  skipEnvelope: true,
+});
+
+function requireAdminTenant(req: Request, res: Response): string | null {
+  const role = req.user?.role;
+  if (role !== UserRole.ADMIN && role !== UserRole.SUPER_USER) {
+    sendError(res, AppError.forbidden("Admin access required"), req);
+    return null;
+  }
+  const tenantId = getEffectiveTenantId(req);
+  if (!tenantId) {
+    sendError(res, AppError.tenantRequired(), req);
+    return null;
+  }
+  return tenantId;
+}
+
+function providerParam(req: Request, res: Response): SyncProviderValue | null {
+  const { provider } = req.params;
+  if (!isSyncProvider(provider)) {
+    sendError(res, AppError.notFound("Sync provider"), req);
+    return null;
+  }
+  return provider;
+}
+
+router.get("/sync/providers", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    res.json(await syncService.listProviders(tenantId));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/sync/providers", req);
+  }
+});
+
+router.get("/sync/providers/:provider/projects", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const provider = providerParam(req, res);
+    if (!provider) return;
+    res.json(await syncService.listSyncableProjects(tenantId, provider));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/sync/providers/:provider/projects", req);
+  }
+});
+
+router.put("/sync/providers/:provider", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const provider = providerParam(req, res);
+    if (!provider) return;
+    const data = validateBody(req.body, upsertSyncConnectionSchema, res);
+    if (!data) return;
+    res.json(await syncService.upsertConnection(tenantId, getCurrentUserId(req), provider, data));
+  } catch (error) {
+    return handleRouteError(res, error, "PUT /api/sync/providers/:provider", req);
+  }
+});
+
+router.delete("/sync/providers/:provider", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const provider = providerParam(req, res);
+    if (!provider) return;
+    await syncService.deleteConnection(tenantId, provider);
+    res.status(204).end();
+  } catch (error) {
+    return handleRouteError(res, error, "DELETE /api/sync/providers/:provider", req);
+  }
+});
+
+router.post("/sync/providers/:provider/run", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const provider = providerParam(req, res);
+    if (!provider) return;
+    res.status(202).json(await syncService.runNow(tenantId, getCurrentUserId(req), provider));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/sync/providers/:provider/run", req);
+  }
+});
+
+router.get("/sync/providers/:provider/runs", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const provider = providerParam(req, res);
+    if (!provider) return;
+    const limit = typeof req.query.limit === "string" ? Number(req.query.limit) || undefined : undefined;
+    res.json(await syncService.listRuns(tenantId, provider, limit));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/sync/providers/:provider/runs", req);
+  }
+});
+
+export default router;
@@ -4,20 +4,27 @@
  * Migrated from:
  *   - server/routes/tasks.router.ts (22 endpoints, task-core only)
  *
- * Endpoint inventory (22 endpoints):
+ * Endpoint inventory (29 endpoints):
  *   Project-scoped task queries:
  *     GET    /projects/:projectId/tasks            — list tasks by project
- *     GET    /projects/:projectId/calendar-events  — calendar events for project tasks
+ *     GET    /projects/:projectId/calendar-events  — calendar events for project tasks (with blocked flags)
  *     GET    /projects/:projectId/activity          — project activity log
+ *     GET    /projects/:projectId/dependencies      — dependency links + blocked task map
  *
  *   Task CRUD:
  *     GET    /tasks/my                              — current user's tasks
  *     GET    /tasks/:id                             — get task by id (with relations)
  *     GET    /tasks/:id/childtasks                  — get child tasks of a task
+ *     GET    /tasks/:id/status-history              — status transitions, newest first
  *     POST   /tasks                                 — create task (with assignee auto-assign)
  *     POST   /tasks/personal                        — create personal task
  *     POST   /tasks/:taskId/childtasks              — create child task
- *     PATCH  /tasks/:id                             — update task (status, priority, dates, etc.)
+ *     PATCH  /tasks/:id                             — update task (status, priority, dates, etc.;
+ *                                                      status changes follow the project workflow,
+ *                                                      are recorded in the status history and
+ *                                                      maintain completedAt;
+ *                                                      cascadeDates=true shifts dependent tasks;
+ *                                                      recurrenceScope="future" edits later instances)
  *     DELETE /tasks/:id                             — delete task
  *     POST   /tasks/:id/move                        — move task to section/position
  *
@@ -30,6 +37,16 @@
  *     POST   /tasks/:taskId/watchers                — add watcher
  *     DELETE /tasks/:taskId/watchers/:userId         — remove watcher
  *
+ *   Task Dependencies (blocked-by / blocking):
+ *     GET    /tasks/:taskId/dependencies            — predecessors and successors
+ *     POST   /tasks/:taskId/dependencies            — add predecessor (rejects cycles)
+ *     DELETE /tasks/:taskId/dependencies/:dependencyId — remove link
+ *
+ *   Task Recurrence (RRULE series):
+ *     GET    /tasks/:taskId/recurrence              — series the task belongs to (or null)
+ *     PUT    /tasks/:taskId/recurrence              — set rule, (re)starting the series at this task
+ *     DELETE /tasks/:taskId/recurrence              — stop the series
+ *
  *   Personal Task Sections (My Tasks):
  *     GET    /v1/my-tasks/sections                  — list personal sections
  *     POST   /v1/my-tasks/sections                  — create personal section
@@ -63,7 +80,12 @@ import {
   insertTaskSchema,
   updateTaskSchema,
   addAssigneeSchema,
+  addTaskDependencySchema,
+  setTaskRecurrenceSchema,
+  RecurrenceEditScope,
+  StatusCategory,
   taskAccess,
+  type Task,
 } from "@shared/schema";
 import { db } from "../../db";
 import { eq, and } from "drizzle-orm";
@@ -83,6 +105,13 @@ import {
   notifyTaskStatusChanged,
 } from "../../features/notifications/notification.service";
 import { evaluateAutomation } from "../../features/automation/clientStageAutomation.service";
+import { taskDependencyService } from "../../features/taskDependencies/dependency.service";
+import { taskRecurrenceService } from "../../features/recurrence/recurrence.service";
+import { publishWebhookEvent } from "../../features/webhooks/webhook.service";
+import { workflowService } from "../../features/workflows/workflow.service";
+import { statusCategory } from "../../features/workflows/workflowRules";
+import { nextCompletedAt, statusHistoryService } from "../../features/statusHistory/statusHistory.service";
+import { WEBHOOK_EVENTS } from "@shared/events";
 
 const router = createApiRouter({ policy: "authTenant", skipEnvelope: true });
 
@@ -112,7 +141,11 @@ router.get("/projects/:projectId/tasks", async (req, res) => {
 router.get("/projects/:projectId/calendar-events", async (req, res) => {
   try {
     const { start, end, includeSubtasks } = req.query;
+    const tenantId = getEffectiveTenantId(req);
     const tasks = await storage.getTasksByProject(req.params.projectId);
+    const blockedMap = tenantId
+      ? new Map(Object.entries((await taskDependencyService.getProjectGraph(tenantId, req.params.projectId)).blocked))
+      : new Map<string, string[]>();
 
     const startDate = start ? new Date(start as string) : null;
     const endDate = end ? new Date(end as string) : null;
@@ -130,6 +163,8 @@ router.get("/projects/:projectId/calendar-events", async (req, res) => {
       assignees: any[];
       tags: any[];
       isSubtask: boolean;
+      isBlocked: boolean;
+      blockedByTaskIds: string[];
     }
 
     const events: CalendarEvent[] = [];
@@ -154,6 +189,8 @@ router.get("/projects/:projectId/calendar-events", async (req, res) => {
             assignees: task.assignees || [],
             tags: task.tags || [],
             isSubtask: !!task.parentTaskId,
+            isBlocked: blockedMap.has(task.id),
+            blockedByTaskIds: blockedMap.get(task.id) ?? [],
           });
         }
       }
@@ -179,6 +216,8 @@ router.get("/projects/:projectId/calendar-events", async (req, res) => {
                 assignees: childTask.assignees || [],
                 tags: childTask.tags || [],
                 isSubtask: true,
+                isBlocked: blockedMap.has(childTask.id),
+                blockedByTaskIds: blockedMap.get(childTask.id) ?? [],
               });
             }
           }
@@ -215,6 +254,24 @@ router.get("/projects/:projectId/activity", async (req, res) => {
   }
 });
 
+router.get("/projects/:projectId/dependencies", async (req, res) => {
+  try {
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) {
+      return sendError(res, AppError.tenantRequired(), req);
+    }
+    const project = await storage.getProjectByIdAndTenant(req.params.projectId, tenantId);
+    if (!project) {
+      return sendError(res, AppError.notFound("Project"), req);
+    }
+
+    const graph = await taskDependencyService.getProjectGraph(tenantId, project.id);
+    res.json(graph);
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/projects/:projectId/dependencies", req);
+  }
+});
+
 // ---------------------------------------------------------------------------
 // Task CRUD
 // ---------------------------------------------------------------------------
@@ -458,6 +515,21 @@ router.get("/tasks/:id", async (req, res) => {
   }
 });
 
+router.get("/tasks/:id/status-history", async (req, res) => {
+  try {
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) {
+      return sendError(res, AppError.tenantRequired(), req);
+    }
+    if (!(await canViewTask(tenantId, req.params.id, getCurrentUserId(req)))) {
+      return sendError(res, AppError.notFound("Task"), req);
+    }
+    res.json(await statusHistoryService.listForTask(tenantId, req.params.id));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/tasks/:id/status-history", req);
+  }
+});
+
 router.get("/tasks/:id/childtasks", async (req, res) => {
   try {
     const childTasks = await storage.getChildTasks(req.params.id);
@@ -506,10 +578,16 @@ router.post("/tasks", async (req, res) => {
         throw AppError.badRequest("Invalid section: section not found or does not belong to this project");
       }
     }
+
+    const workflow = tenantId && !data.isPersonal ? await workflowService.statusesForProject(tenantId, data.projectId) : null;
+    if (tenantId && data.projectId && !data.isPersonal) {
+      data.status = await workflowService.initialStatus(tenantId, data.projectId, data.status);
+    }
     
-    const task = tenantId 
+    const created = tenantId 
       ? await storage.createTaskWithTenant(data, tenantId)
       : await storage.createTask(data);
+    const task = await statusHistoryService.onTaskCreated(created, statusCategory(created.status, workflow));
 
     if (task.visibility === 'private' && config.features.enablePrivateTasks && tenantId) {
       try {
@@ -588,6 +666,9 @@ router.post("/tasks", async (req, res) => {
         emitTaskCreated(task.projectId, taskWithRelations as any);
       }
     }
+    if (!task.isPersonal) {
+      publishWebhookEvent(task.tenantId, WEBHOOK_EVENTS.TASK_CREATED, { task });
+    }
 
     res.status(201).json(taskWithRelations);
   } catch (error) {
@@ -619,9 +700,14 @@ router.post("/tasks/:taskId/childtasks", async (req, res) => {
     });
 
     const effectiveTenantId = parentTask.tenantId || tenantId;
-    const task = effectiveTenantId
+    const workflow = effectiveTenantId ? await workflowService.statusesForProject(effectiveTenantId, data.projectId) : null;
+    if (effectiveTenantId) {
+      data.status = await workflowService.initialStatus(effectiveTenantId, data.projectId, data.status);
+    }
+    const created = effectiveTenantId
       ? await storage.createTaskWithTenant({ ...data, parentTaskId }, effectiveTenantId)
       : await storage.createChildTask(parentTaskId, data);
+    const task = await statusHistoryService.onTaskCreated(created, statusCategory(created.status, workflow));
 
     if (body.assigneeId) {
       try {
@@ -640,6 +726,7 @@ router.post("/tasks/:taskId/childtasks", async (req, res) => {
     if (taskWithRelations && parentTask.projectId) {
       emitTaskCreated(parentTask.projectId, taskWithRelations as any);
     }
+    publishWebhookEvent(task.tenantId, WEBHOOK_EVENTS.TASK_CREATED, { task });
 
     res.status(201).json(taskWithRelations);
   } catch (error) {
@@ -660,6 +747,7 @@ router.patch("/tasks/:id", async (req, res) => {
     
     const taskBefore = await storage.getTaskWithRelations(req.params.id);
     
+    const cascadeDates = req.body.cascadeDates === true;
     const updateData: any = { ...data };
     if (updateData.isPersonal === true) {
       updateData.projectId = null;
@@ -673,6 +761,32 @@ router.patch("/tasks/:id", async (req, res) => {
     if (updateData.startDate !== undefined) {
       updateData.startDate = updateData.startDate ? new Date(updateData.startDate) : null;
     }
+
+    const previousStatus = taskBefore?.status;
+    const statusChanged = taskBefore !== undefined && updateData.status !== undefined && updateData.status !== previousStatus;
+    const projectIdAfter = updateData.projectId !== undefined ? updateData.projectId : taskBefore?.projectId;
+    if (tenantId && taskBefore && statusChanged) {
+      const pick = <K extends "dueDate" | "estimateMinutes" | "description">(key: K) =>
+        updateData[key] !== undefined ? updateData[key] : taskBefore[key];
+      await workflowService.assertStatusChange(
+        tenantId,
+        projectIdAfter,
+        taskBefore.status,
+        updateData.status,
+        {
+          assigneeCount: taskBefore.assignees?.length ?? 0,
+          dueDate: pick("dueDate"),
+          estimateMinutes: pick("estimateMinutes"),
+          description: pick("description"),
+        },
+      );
+    }
+    const workflow = statusChanged && tenantId ? await workflowService.statusesForProject(tenantId, projectIdAfter) : null;
+    const fromCategory = statusCategory(previousStatus ?? "", workflow);
+    const toCategory = statusCategory(updateData.status ?? previousStatus ?? "", workflow);
+    if (statusChanged) {
+      updateData.completedAt = nextCompletedAt(fromCategory, toCategory, taskBefore?.completedAt ?? null);
+    }
     
     if (updateData.visibility !== undefined && config.features.enablePrivateTasks && tenantId) {
       if (!(await canManageTaskAccess(tenantId, req.params.id, userId))) {
@@ -711,11 +825,60 @@ router.patch("/tasks/:id", async (req, res) => {
 
     const taskWithRelations = await storage.getTaskWithRelations(task.id);
 
+    const completedNow = statusChanged && toCategory === StatusCategory.DONE && fromCategory !== StatusCategory.DONE;
+    if (statusChanged && task.tenantId) {
+      await statusHistoryService.recordChange(task.tenantId, {
+        taskId: task.id,
+        fromStatus: previousStatus ?? null,
+        toStatus: task.status,
+        toCategory,
+        changedBy: userId,
+      });
+    }
+
     if (task.isPersonal && task.createdBy) {
       emitMyTaskUpdated(task.createdBy, task.id, data, getCurrentWorkspaceId(req));
     } else if (task.projectId) {
       emitTaskUpdated(task.id, task.projectId, task.parentTaskId, data);
     }
+    if (!task.isPersonal) {
+      publishWebhookEvent(task.tenantId, WEBHOOK_EVENTS.TASK_UPDATED, { task, changes: data });
+      if (completedNow) {
+        publishWebhookEvent(task.tenantId, WEBHOOK_EVENTS.TASK_COMPLETED, { task, completedByUserId: userId });
+      }
+    }
+
+    const datesSlipped = taskBefore && (
+      isLater(updateData.dueDate, taskBefore.dueDate) || isLater(updateData.startDate, taskBefore.startDate)
+    );
+    if (cascadeDates && datesSlipped && tenantId && !task.isPersonal) {
+      const shifted = await taskDependencyService.cascadeFrom(tenantId, task.id);
+      for (const moved of shifted) {
+        if (moved.projectId) {
+          emitTaskUpdated(moved.id, moved.projectId, moved.parentTaskId, {
+            startDate: moved.startDate,
+            dueDate: moved.dueDate,
+          });
+        }
+      }
+    }
+
+    if (tenantId && task.recurrenceId) {
+      if (req.body.recurrenceScope === RecurrenceEditScope.FUTURE) {
+        const laterInstances = await taskRecurrenceService.applyEditToFuture(tenantId, task, updateData);
+        for (const instance of laterInstances) {
+          if (instance.projectId) {
+            emitTaskUpdated(instance.id, instance.projectId, instance.parentTaskId, {});
+          }
+        }
+      }
+      if (updateData.status && updateData.status !== taskBefore?.status) {
+        const nextInstance = await taskRecurrenceService.onTaskCompleted(tenantId, task);
+        if (nextInstance) {
+          await emitRecurringInstanceCreated(nextInstance, getCurrentWorkspaceId(req));
+        }
+      }
+    }
 
     if (taskBefore && !task.isPersonal) {
       const currentUser = await storage.getUser(userId);
@@ -724,7 +887,7 @@ router.patch("/tasks/:id", async (req, res) => {
       const projectName = project?.name || "Unknown project";
       const notificationContext = { tenantId, excludeUserId: userId };
 
-      if (updateData.status === "completed" && taskBefore.status !== "completed") {
+      if (completedNow) {
         const assignees = (taskWithRelations as any)?.assignees || [];
         for (const assignee of assignees) {
           if (assignee.id !== userId) {
@@ -760,7 +923,7 @@ router.patch("/tasks/:id", async (req, res) => {
           if (task.sectionId && section && task.projectId) {
             const projectTasks = await storage.getTasksByProject(task.projectId);
             const sectionTasks = projectTasks.filter(t => t.sectionId === task.sectionId);
-            const allComplete = sectionTasks.every(t => t.id === task.id ? true : t.status === "completed");
+            const allComplete = sectionTasks.every(t => t.id === task.id ? true : statusCategory(t.status, workflow) === StatusCategory.DONE);
             if (allComplete && sectionTasks.length > 0) {
               evaluateAutomation({
                 tenantId,
@@ -780,7 +943,8 @@ router.patch("/tasks/:id", async (req, res) => {
         }
       }
 
-      if (updateData.status && updateData.status !== taskBefore.status && updateData.status !== "completed") {
+      if (statusChanged && !completedNow) {
+        const statusLabel = workflow?.find((s) => s.key === task.status)?.name ?? task.status;
         const assignees = (taskWithRelations as any)?.assignees || [];
         for (const assignee of assignees) {
           if (assignee.id !== userId) {
@@ -788,7 +952,7 @@ router.patch("/tasks/:id", async (req, res) => {
               assignee.id,
               task.id,
               task.title,
-              updateData.status,
+              statusLabel,
               currentUserName,
               notificationContext
             ).catch(() => {});
@@ -846,6 +1010,13 @@ router.delete("/tasks/:id", async (req, res) => {
         task.parentTaskId,
       );
     }
+    if (!task.isPersonal) {
+      publishWebhookEvent(task.tenantId, WEBHOOK_EVENTS.TASK_DELETED, {
+        taskId: task.id,
+        projectId: task.projectId,
+        deletedByUserId: currentUserId,
+      });
+    }
 
     res.status(204).send();
   } catch (error) {
@@ -1032,4 +1203,157 @@ router.delete("/tasks/:taskId/watchers/:userId", async (req, res) => {
   }
 });
 
+// ---------------------------------------------------------------------------
+// Task Dependencies
+// ---------------------------------------------------------------------------
+
+router.get("/tasks/:taskId/dependencies", async (req, res) => {
+  try {
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) {
+      return sendError(res, AppError.tenantRequired(), req);
+    }
+    const task = await storage.getTaskByIdAndTenant(req.params.taskId, tenantId);
+    if (!task || !(await canViewTask(tenantId, task.id, getCurrentUserId(req)))) {
+      return sendError(res, AppError.notFound("Task"), req);
+    }
+
+    const dependencies = await taskDependencyService.getForTask(tenantId, task.id);
+    res.json(dependencies);
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/tasks/:taskId/dependencies", req);
+  }
+});
+
+router.post("/tasks/:taskId/dependencies", async (req, res) => {
+  try {
+    const data = validateBody(req.body, addTaskDependencySchema, res);
+    if (!data) return;
+
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) {
+      return sendError(res, AppError.tenantRequired(), req);
+    }
+    const userId = getCurrentUserId(req);
+    const task = await storage.getTaskByIdAndTenant(req.params.taskId, tenantId);
+    if (!task || !(await canViewTask(tenantId, task.id, userId))) {
+      return sendError(res, AppError.notFound("Task"), req);
+    }
+    if (!(await canViewTask(tenantId, data.predecessorTaskId, userId))) {
+      return sendError(res, AppError.notFound("Predecessor task"), req);
+    }
+
+    const dependency = await taskDependencyService.add(tenantId, task.id, data, userId);
+
+    if (task.projectId) {
+      emitTaskUpdated(task.id, task.projectId, task.parentTaskId, {});
+    }
+
+    res.status(201).json(dependency);
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/tasks/:taskId/dependencies", req);
+  }
+});
+
+router.delete("/tasks/:taskId/dependencies/:dependencyId", async (req, res) => {
+  try {
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) {
+      return sendError(res, AppError.tenantRequired(), req);
+    }
+    const task = await storage.getTaskByIdAndTenant(req.params.taskId, tenantId);
+    if (!task || !(await canViewTask(tenantId, task.id, getCurrentUserId(req)))) {
+      return sendError(res, AppError.notFound("Task"), req);
+    }
+
+    await taskDependencyService.remove(tenantId, task.id, req.params.dependencyId);
+
+    if (task.projectId) {
+      emitTaskUpdated(task.id, task.projectId, task.parentTaskId, {});
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    return handleRouteError(res, error, "DELETE /api/tasks/:taskId/dependencies/:dependencyId", req);
+  }
+});
+
+router.get("/tasks/:taskId/recurrence", async (req, res) => {
+  try {
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) {
+      return sendError(res, AppError.tenantRequired(), req);
+    }
+    const task = await storage.getTaskByIdAndTenant(req.params.taskId, tenantId);
+    if (!task || !(await canViewTask(tenantId, task.id, getCurrentUserId(req)))) {
+      return sendError(res, AppError.notFound("Task"), req);
+    }
+
+    const recurrence = await taskRecurrenceService.getForTask(tenantId, task);
+    res.json(recurrence);
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/tasks/:taskId/recurrence", req);
+  }
+});
+
+router.put("/tasks/:taskId/recurrence", async (req, res) => {
+  try {
+    const data = validateBody(req.body, setTaskRecurrenceSchema, res);
+    if (!data) return;
+
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) {
+      return sendError(res, AppError.tenantRequired(), req);
+    }
+    const userId = getCurrentUserId(req);
+    const task = await storage.getTaskByIdAndTenant(req.params.taskId, tenantId);
+    if (!task || !(await canViewTask(tenantId, task.id, userId))) {
+      return sendError(res, AppError.notFound("Task"), req);
+    }
+
+    const recurrence = await taskRecurrenceService.setForTask(tenantId, task, data, userId);
+
+    if (task.projectId) {
+      emitTaskUpdated(task.id, task.projectId, task.parentTaskId, {});
+    }
+
+    res.json(recurrence);
+  } catch (error) {
+    return handleRouteError(res, error, "PUT /api/tasks/:taskId/recurrence", req);
+  }
+});
+
+router.delete("/tasks/:taskId/recurrence", async (req, res) => {
+  try {
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) {
+      return sendError(res, AppError.tenantRequired(), req);
+    }
+    const task = await storage.getTaskByIdAndTenant(req.params.taskId, tenantId);
+    if (!task || !(await canViewTask(tenantId, task.id, getCurrentUserId(req)))) {
+      return sendError(res, AppError.notFound("Task"), req);
+    }
+
+    await taskRecurrenceService.stopForTask(tenantId, task);
+    res.status(204).send();
+  } catch (error) {
+    return handleRouteError(res, error, "DELETE /api/tasks/:taskId/recurrence", req);
+  }
+});
+
+async function emitRecurringInstanceCreated(instance: Task, workspaceId: string): Promise<void> {
+  const withRelations = await storage.getTaskWithRelations(instance.id);
+  if (!withRelations) return;
+  if (instance.isPersonal && instance.createdBy) {
+    emitMyTaskCreated(instance.createdBy, withRelations as any, workspaceId);
+  } else if (instance.projectId) {
+    emitTaskCreated(instance.projectId, withRelations as any);
+  }
+}
+
+function isLater(next: Date | null | undefined, previous: Date | string | null | undefined): boolean {
+  if (!next || !previous) return false;
+  return next.getTime() > new Date(previous).getTime();
+}
+
 export default router;
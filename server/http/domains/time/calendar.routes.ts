@@ -10,6 +10,8 @@ import {
 } from "./shared";
 import { config } from "../../../config";
 import { getAccessiblePrivateTaskIds, getAccessiblePrivateProjectIds } from "../../../lib/privateVisibility";
+import { capacityService, toIsoDate } from "../../../features/capacity/capacity.service";
+import { TimeOffStatus } from "@shared/schema";
 
 const router = Router();
 
@@ -76,12 +78,30 @@ router.get("/calendar/events", async (req, res) => {
       );
     }
 
+    const from = toIsoDate(startDate);
+    const to = toIsoDate(endDate);
+    const [timeOff, holidays] = tenantId
+      ? await Promise.all([
+          capacityService.listTimeOff(tenantId, { status: TimeOffStatus.APPROVED, from, to }),
+          capacityService.holidaysFor(tenantId, null, from, to),
+        ])
+      : [[], []];
+
     res.json({
       tasks: filteredTasks,
       timeEntries,
       clients,
       projects: filteredProjects,
       users: users || [],
+      timeOff: timeOff.map((request) => ({
+        id: request.id,
+        userId: request.userId,
+        userName: request.userName || request.userEmail,
+        startDate: request.startDate,
+        endDate: request.endDate,
+        minutesPerDay: request.minutesPerDay,
+      })),
+      holidays,
     });
   } catch (error) {
     return handleRouteError(res, error, "GET /api/calendar/events", req);
@@ -150,10 +170,23 @@ router.get("/my-calendar/events", async (req, res) => {
       });
     }
 
+    const from = toIsoDate(startDate);
+    const to = toIsoDate(endDate);
+    const [timeOff, holidays] = tenantId
+      ? await Promise.all([
+          capacityService.listTimeOff(tenantId, { userId, from, to }),
+          capacityService.holidaysFor(tenantId, userId, from, to),
+        ])
+      : [[], []];
+
     res.json({
       tasks: userTasks,
       personalTasks,
       timeEntries,
+      timeOff: timeOff.filter((request) =>
+        request.status === TimeOffStatus.APPROVED || request.status === TimeOffStatus.PENDING
+      ),
+      holidays,
     });
   } catch (error) {
     return handleRouteError(res, error, "GET /api/my-calendar/events", req);
@@ -14,6 +14,9 @@ import {
   emitTimeEntryCreated,
   emitTimeEntryUpdated,
   emitTimeEntryDeleted,
+  timesheetService,
+  publishWebhookEvent,
+  WEBHOOK_EVENTS,
 } from "./shared";
 import { perfLog } from "../../../lib/queryDebug";
 
@@ -215,7 +218,7 @@ router.post("/time-entries", async (req, res) => {
     const tenantId = getEffectiveTenantId(req);
     const workspaceId = getCurrentWorkspaceId(req);
     const userId = getCurrentUserId(req);
-    const { startTime, endTime, durationSeconds, ...rest } = req.body;
+    const { startTime, endTime, durationSeconds, invoiceId: _invoiceId, ...rest } = req.body;
 
     let duration = durationSeconds;
     let start = startTime ? new Date(startTime) : new Date();
@@ -237,6 +240,7 @@ router.post("/time-entries", async (req, res) => {
       isManual: true,
       scope: rest.scope || "in_scope",
     });
+    await timesheetService.assertEntryUnlocked(tenantId, userId, data.startTime);
 
     let entry;
     if (tenantId) {
@@ -267,6 +271,7 @@ router.post("/time-entries", async (req, res) => {
       },
       workspaceId,
     );
+    publishWebhookEvent(entry.tenantId, WEBHOOK_EVENTS.TIME_ENTRY_CREATED, { timeEntry: entry });
 
     res.status(201).json(entry);
   } catch (error) {
@@ -298,8 +303,10 @@ router.patch("/time-entries/:id", async (req, res) => {
     }
     
     if (!entry) throw AppError.notFound("Time entry");
+    if (entry.invoiceId) throw AppError.conflict("Time entry is on an invoice and cannot be changed");
+    await timesheetService.assertEntryUnlocked(entry.tenantId, entry.userId, entry.startTime);
 
-    const { startTime, endTime, durationSeconds, clientId, projectId, taskId, ...rest } = req.body;
+    const { startTime, endTime, durationSeconds, clientId, projectId, taskId, invoiceId: _invoiceId, ...rest } = req.body;
 
     const finalClientId = clientId !== undefined ? clientId : entry.clientId;
     const finalProjectId = projectId !== undefined ? projectId : entry.projectId;
@@ -324,7 +331,10 @@ router.patch("/time-entries/:id", async (req, res) => {
     if (clientId !== undefined) updates.clientId = clientId;
     if (projectId !== undefined) updates.projectId = projectId;
     if (taskId !== undefined) updates.taskId = taskId;
-    if (startTime) updates.startTime = new Date(startTime);
+    if (startTime) {
+      updates.startTime = new Date(startTime);
+      await timesheetService.assertEntryUnlocked(entry.tenantId, entry.userId, updates.startTime);
+    }
     if (endTime !== undefined) updates.endTime = endTime ? new Date(endTime) : null;
     if (durationSeconds !== undefined) updates.durationSeconds = durationSeconds;
 
@@ -369,6 +379,8 @@ router.delete("/time-entries/:id", async (req, res) => {
     }
     
     if (!entry) throw AppError.notFound("Time entry");
+    if (entry.invoiceId) throw AppError.conflict("Time entry is on an invoice and cannot be deleted");
+    await timesheetService.assertEntryUnlocked(entry.tenantId, entry.userId, entry.startTime);
 
     if (entry.tenantId) {
       await storage.deleteTimeEntryWithTenant(req.params.id, entry.tenantId);
@@ -6,6 +6,9 @@ export {
 } from "@shared/schema";
 export type { ActiveTimer } from "@shared/schema";
 export { getEffectiveTenantId } from "../../../middleware/tenantContext";
+export { timesheetService } from "../../../features/timesheets/timesheet.service";
+export { publishWebhookEvent } from "../../../features/webhooks/webhook.service";
+export { WEBHOOK_EVENTS } from "@shared/events";
 export {
   isStrictMode,
   isSoftMode,
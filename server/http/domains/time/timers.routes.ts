@@ -18,6 +18,9 @@ import {
   emitTimerStopped,
   emitTimerUpdated,
   emitTimeEntryCreated,
+  timesheetService,
+  publishWebhookEvent,
+  WEBHOOK_EVENTS,
 } from "./shared";
 
 const router = Router();
@@ -339,6 +342,7 @@ router.post("/timer/stop", async (req, res) => {
 
       let timeEntry;
       const effectiveTenantId = timer.tenantId || tenantId;
+      await timesheetService.assertEntryUnlocked(effectiveTenantId, userId, startTime);
       if (effectiveTenantId) {
         timeEntry = await storage.createTimeEntryWithTenant(entryData, effectiveTenantId);
       } else {
@@ -369,6 +373,7 @@ router.post("/timer/stop", async (req, res) => {
         },
         workspaceId,
       );
+      publishWebhookEvent(timeEntry.tenantId, WEBHOOK_EVENTS.TIME_ENTRY_CREATED, { timeEntry });
     }
 
     if (timer.tenantId) {
@@ -0,0 +1,159 @@
+/**
+ * Timesheets Domain Router
+ *
+ * Weekly timesheet submission by each user and review by admins. An approved week locks the
+ * user's time entries that start in it (enforced in the time-entry and timer routes).
+ *
+ * Endpoint inventory (7 endpoints):
+ *   GET  /timesheets/week?weekStart=&userId=  — a user's week with entries and daily totals (others: admin)
+ *   GET  /timesheets?userId=&status=          — list timesheets (own unless admin)
+ *   POST /timesheets/submit                   — submit the current user's week
+ *   GET  /timesheets/review?weekStart=        — admin review queue: hours vs capacity and status per user
+ *   POST /timesheets/:id/review               — admin: approve, or reject with a comment
+ *   POST /timesheets/:id/reopen               — admin: return to draft, unlocking entries
+ *   POST /timesheets/reminders                — admin: notify users who have not submitted a week
+ */
+import { Request, Response } from "express";
+import { createApiRouter } from "../routerFactory";
+import { getEffectiveTenantId } from "../../middleware/tenantContext";
+import { getCurrentUserId } from "../../routes/helpers";
+import { AppError, handleRouteError, sendError, validateBody } from "../../lib/errors";
+import {
+  UserRole,
+  submitTimesheetSchema,
+  reviewTimesheetSchema,
+  timesheetRemindersSchema,
+} from "@shared/schema";
+import { timesheetService, type TimesheetActor } from "../../features/timesheets/timesheet.service";
+import { weekStartOf } from "../../features/timesheets/timesheetWeek";
+
+const router = createApiRouter({
+  policy: "authTenant",
+  skipEnvelope: true,
+});
+
+const WEEK_START_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isAdmin(req: Request): boolean {
+  const role = req.user?.role;
+  return role === UserRole.ADMIN || role === UserRole.SUPER_USER;
+}
+
+function requireTenant(req: Request, res: Response): string | null {
+  const tenantId = getEffectiveTenantId(req);
+  if (!tenantId) {
+    sendError(res, AppError.tenantRequired(), req);
+    return null;
+  }
+  return tenantId;
+}
+
+function requireAdminTenant(req: Request, res: Response): string | null {
+  if (!isAdmin(req)) {
+    sendError(res, AppError.forbidden("Admin access required"), req);
+    return null;
+  }
+  return requireTenant(req, res);
+}
+
+function currentActor(req: Request): TimesheetActor {
+  return {
+    id: getCurrentUserId(req),
+    name: req.user?.name || req.user?.email || "Someone",
+  };
+}
+
+/** Normalizes `?weekStart=` to its Monday; defaults to the current week. */
+function parseWeekStart(value: unknown): string {
+  if (typeof value !== "string" || !WEEK_START_PATTERN.test(value)) return weekStartOf(new Date());
+  const date = new Date(`${value}T00:00:00.000Z`);
+  if (Number.isNaN(date.getTime())) throw AppError.badRequest("Invalid weekStart");
+  return weekStartOf(date);
+}
+
+router.get("/timesheets/week", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    const currentUserId = getCurrentUserId(req);
+    const userId = typeof req.query.userId === "string" ? req.query.userId : currentUserId;
+    if (userId !== currentUserId && !isAdmin(req)) {
+      throw AppError.forbidden("Only admins can view other users' timesheets");
+    }
+    res.json(await timesheetService.getWeek(tenantId, userId, parseWeekStart(req.query.weekStart)));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/timesheets/week", req);
+  }
+});
+
+router.get("/timesheets", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    const requestedUserId = typeof req.query.userId === "string" ? req.query.userId : undefined;
+    const userId = isAdmin(req) ? requestedUserId : getCurrentUserId(req);
+    const status = typeof req.query.status === "string" ? req.query.status : undefined;
+    res.json(await timesheetService.list(tenantId, { userId, status }));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/timesheets", req);
+  }
+});
+
+router.post("/timesheets/submit", async (req, res) => {
+  try {
+    const tenantId = requireTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, submitTimesheetSchema, res);
+    if (!data) return;
+    res.json(await timesheetService.submit(tenantId, currentActor(req), data.weekStart));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/timesheets/submit", req);
+  }
+});
+
+router.get("/timesheets/review", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const weekStart = parseWeekStart(req.query.weekStart);
+    res.json({ weekStart, rows: await timesheetService.reviewQueue(tenantId, weekStart) });
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/timesheets/review", req);
+  }
+});
+
+router.post("/timesheets/reminders", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, timesheetRemindersSchema, res);
+    if (!data) return;
+    res.json(await timesheetService.sendReminders(tenantId, data.weekStart, { userIds: data.userIds }));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/timesheets/reminders", req);
+  }
+});
+
+router.post("/timesheets/:id/review", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, reviewTimesheetSchema, res);
+    if (!data) return;
+    res.json(await timesheetService.review(tenantId, req.params.id, currentActor(req), data));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/timesheets/:id/review", req);
+  }
+});
+
+router.post("/timesheets/:id/reopen", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    res.json(await timesheetService.reopen(tenantId, req.params.id));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/timesheets/:id/reopen", req);
+  }
+});
+
+export default router;
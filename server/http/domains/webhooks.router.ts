@@ -0,0 +1,139 @@
+/**
+ * Outbound Webhooks Domain Router
+ *
+ * Tenant admins register HTTPS endpoints for domain events and inspect the delivery log. Paths
+ * avoid the /api/webhooks/ prefix, which is reserved for inbound provider callbacks (and exempt
+ * from CSRF protection).
+ *
+ * Endpoint inventory (8 endpoints):
+ *   GET    /webhook-endpoints                   — list endpoints
+ *   POST   /webhook-endpoints                   — register an endpoint; the secret is only returned here
+ *   PATCH  /webhook-endpoints/:id               — update URL, description, events or active flag
+ *   DELETE /webhook-endpoints/:id               — delete an endpoint and its delivery log
+ *   POST   /webhook-endpoints/:id/rotate-secret — issue a new signing secret
+ *   GET    /webhook-deliveries?endpointId=&status= — delivery log (status=dead for the dead-letter list)
+ *   GET    /webhook-deliveries/:id              — one delivery with payload and last response
+ *   POST   /webhook-deliveries/:id/redeliver    — send a delivery again
+ */
+import { Request, Response } from "express";
+import { createApiRouter } from "../routerFactory";
+import { getEffectiveTenantId } from "../../middleware/tenantContext";
+import { getCurrentUserId } from "../../routes/helpers";
+import { AppError, handleRouteError, sendError, validateBody } from "../../lib/errors";
+import {
+  UserRole,
+  createWebhookEndpointSchema,
+  updateWebhookEndpointSchema,
+} from "@shared/schema";
+import { webhookService } from "../../features/webhooks/webhook.service";
+
+const router = createApiRouter({
+  policy: "authTenant",
+  skipEnvelope: true,
+});
+
+function requireAdminTenant(req: Request, res: Response): string | null {
+  const role = req.user?.role;
+  if (role !== UserRole.ADMIN && role !== UserRole.SUPER_USER) {
+    sendError(res, AppError.forbidden("Admin access required"), req);
+    return null;
+  }
+  const tenantId = getEffectiveTenantId(req);
+  if (!tenantId) {
+    sendError(res, AppError.tenantRequired(), req);
+    return null;
+  }
+  return tenantId;
+}
+
+router.get("/webhook-endpoints", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    res.json(await webhookService.listEndpoints(tenantId));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/webhook-endpoints", req);
+  }
+});
+
+router.post("/webhook-endpoints", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, createWebhookEndpointSchema, res);
+    if (!data) return;
+    res.status(201).json(await webhookService.createEndpoint(tenantId, getCurrentUserId(req), data));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/webhook-endpoints", req);
+  }
+});
+
+router.patch("/webhook-endpoints/:id", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const data = validateBody(req.body, updateWebhookEndpointSchema, res);
+    if (!data) return;
+    res.json(await webhookService.updateEndpoint(tenantId, req.params.id, data));
+  } catch (error) {
+    return handleRouteError(res, error, "PATCH /api/webhook-endpoints/:id", req);
+  }
+});
+
+router.delete("/webhook-endpoints/:id", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    await webhookService.deleteEndpoint(tenantId, req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    return handleRouteError(res, error, "DELETE /api/webhook-endpoints/:id", req);
+  }
+});
+
+router.post("/webhook-endpoints/:id/rotate-secret", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    res.json(await webhookService.rotateSecret(tenantId, req.params.id));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/webhook-endpoints/:id/rotate-secret", req);
+  }
+});
+
+router.get("/webhook-deliveries", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    const { endpointId, status, limit } = req.query;
+    res.json(await webhookService.listDeliveries(tenantId, {
+      endpointId: typeof endpointId === "string" ? endpointId : undefined,
+      status: typeof status === "string" ? status : undefined,
+      limit: typeof limit === "string" ? Number(limit) || undefined : undefined,
+    }));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/webhook-deliveries", req);
+  }
+});
+
+router.get("/webhook-deliveries/:id", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    res.json(await webhookService.getDelivery(tenantId, req.params.id));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/webhook-deliveries/:id", req);
+  }
+});
+
+router.post("/webhook-deliveries/:id/redeliver", async (req, res) => {
+  try {
+    const tenantId = requireAdminTenant(req, res);
+    if (!tenantId) return;
+    res.status(202).json(await webhookService.redeliver(tenantId, req.params.id, getCurrentUserId(req)));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/webhook-deliveries/:id/redeliver", req);
+  }
+});
+
+export default router;
@@ -0,0 +1,144 @@
+/**
+ * Workflows Domain Router
+ *
+ * Tenant-defined task status sets ("workflows"). Each status has a name, colour and category
+ * (not started / active / done / cancelled), optional allowed transitions and fields required
+ * on entry. Projects without a workflow use the built-in statuses. Reports read categories,
+ * never status names.
+ *
+ * Endpoint inventory (7 endpoints):
+ *   Status sets:
+ *     GET    /workflows                         — list sets with statuses and project counts (any member)
+ *     GET    /workflows/:id                     — one set (any member)
+ *     POST   /workflows                         — create set (admin)
+ *     PUT    /workflows/:id                     — replace name and statuses; tasks on removed statuses
+ *                                                 move to a status of the same category (admin)
+ *     DELETE /workflows/:id                     — delete set; its projects revert to built-in statuses (admin)
+ *
+ *   Project assignment:
+ *     GET    /projects/:projectId/workflow      — the project's workflow ({ statusSet: null } = built-in)
+ *     PUT    /projects/:projectId/workflow      — switch workflow, remapping task statuses by category
+ *                                                 (admin, project creator or project access admin)
+ */
+import { Request, Response } from "express";
+import { createApiRouter } from "../routerFactory";
+import { getEffectiveTenantId } from "../../middleware/tenantContext";
+import { getCurrentUserId } from "../../routes/helpers";
+import { AppError, handleRouteError, sendError, validateBody } from "../../lib/errors";
+import { canManageProjectAccess, canViewProject } from "../../lib/privateVisibility";
+import { UserRole, setProjectWorkflowSchema, upsertWorkflowStatusSetSchema } from "@shared/schema";
+import { workflowService } from "../../features/workflows/workflow.service";
+
+const router = createApiRouter({
+  policy: "authTenant",
+  skipEnvelope: true,
+});
+
+function isAdmin(req: Request): boolean {
+  const role = (req.user as any)?.role;
+  return role === UserRole.ADMIN || role === UserRole.SUPER_USER;
+}
+
+function requireAdminRole(req: Request, res: Response): boolean {
+  if (!isAdmin(req)) {
+    sendError(res, AppError.forbidden("Admin access required"), req);
+    return false;
+  }
+  return true;
+}
+
+router.get("/workflows", async (req, res) => {
+  try {
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) return sendError(res, AppError.tenantRequired(), req);
+    res.json(await workflowService.listSets(tenantId));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/workflows", req);
+  }
+});
+
+router.get("/workflows/:id", async (req, res) => {
+  try {
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) return sendError(res, AppError.tenantRequired(), req);
+    res.json(await workflowService.getSet(tenantId, req.params.id));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/workflows/:id", req);
+  }
+});
+
+router.post("/workflows", async (req, res) => {
+  try {
+    if (!requireAdminRole(req, res)) return;
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) return sendError(res, AppError.tenantRequired(), req);
+
+    const data = validateBody(req.body, upsertWorkflowStatusSetSchema, res);
+    if (!data) return;
+
+    res.status(201).json(await workflowService.createSet(tenantId, data, getCurrentUserId(req)));
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/workflows", req);
+  }
+});
+
+router.put("/workflows/:id", async (req, res) => {
+  try {
+    if (!requireAdminRole(req, res)) return;
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) return sendError(res, AppError.tenantRequired(), req);
+
+    const data = validateBody(req.body, upsertWorkflowStatusSetSchema, res);
+    if (!data) return;
+
+    res.json(await workflowService.updateSet(tenantId, req.params.id, data));
+  } catch (error) {
+    return handleRouteError(res, error, "PUT /api/workflows/:id", req);
+  }
+});
+
+router.delete("/workflows/:id", async (req, res) => {
+  try {
+    if (!requireAdminRole(req, res)) return;
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) return sendError(res, AppError.tenantRequired(), req);
+
+    await workflowService.deleteSet(tenantId, req.params.id);
+    res.status(204).send();
+  } catch (error) {
+    return handleRouteError(res, error, "DELETE /api/workflows/:id", req);
+  }
+});
+
+router.get("/projects/:projectId/workflow", async (req, res) => {
+  try {
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) return sendError(res, AppError.tenantRequired(), req);
+    if (!(await canViewProject(tenantId, req.params.projectId, getCurrentUserId(req)))) {
+      return sendError(res, AppError.notFound("Project"), req);
+    }
+    res.json(await workflowService.getProjectWorkflow(tenantId, req.params.projectId));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/projects/:projectId/workflow", req);
+  }
+});
+
+router.put("/projects/:projectId/workflow", async (req, res) => {
+  try {
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) return sendError(res, AppError.tenantRequired(), req);
+    const { projectId } = req.params;
+    if (!isAdmin(req) && !(await canManageProjectAccess(tenantId, projectId, getCurrentUserId(req)))) {
+      return sendError(res, AppError.forbidden("Only admins and project managers can change the workflow"), req);
+    }
+
+    const data = validateBody(req.body, setProjectWorkflowSchema, res);
+    if (!data) return;
+
+    res.json(await workflowService.setProjectWorkflow(tenantId, projectId, data.statusSetId));
+  } catch (error) {
+    return handleRouteError(res, error, "PUT /api/projects/:projectId/workflow", req);
+  }
+});
+
+export default router;
@@ -4,6 +4,7 @@ import { DatabaseStorage } from "../../storage";
 import { getEffectiveTenantId } from "../../middleware/tenantContext";
 import { UserRole, User, TaskWithRelations } from "@shared/schema";
 import { AppError, handleRouteError } from "../../lib/errors";
+import { workflowService } from "../../features/workflows/workflow.service";
 
 const router = createApiRouter({
   policy: "authTenant",
@@ -55,13 +56,14 @@ router.get("/workload/tasks-by-employee", async (req, res) => {
     if (!users || users.length === 0) {
       return res.json([]);
     }
+    const { isDone, isOpen } = await workflowService.statusChecks(tenantId);
 
     const workloadData: EmployeeWorkload[] = await Promise.all(
       users.map(async (user: User) => {
         const allTasks = await storage.getTasksByUser(user.id);
         
-        let openTasks = allTasks.filter((t: TaskWithRelations) => t.status !== "done");
-        let completedTasks = allTasks.filter((t: TaskWithRelations) => t.status === "done");
+        let openTasks = allTasks.filter((t: TaskWithRelations) => isOpen(t));
+        let completedTasks = allTasks.filter((t: TaskWithRelations) => isDone(t));
         
         if (status === "open") {
           completedTasks = [];
@@ -147,6 +149,7 @@ router.get("/workload/employee/:userId/tasks", async (req, res) => {
     }
 
     const allTasks = await storage.getTasksByUser(userId);
+    const { isOpen } = await workflowService.statusChecks(tenantId);
     
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -159,27 +162,27 @@ router.get("/workload/employee/:userId/tasks", async (req, res) => {
 
     if (filter === "overdue") {
       filteredTasks = allTasks.filter((t: TaskWithRelations) => {
-        if (t.status === "done" || !t.dueDate) return false;
+        if (!isOpen(t) || !t.dueDate) return false;
         const dueDate = new Date(t.dueDate);
         dueDate.setHours(0, 0, 0, 0);
         return dueDate < today;
       });
     } else if (filter === "today") {
       filteredTasks = allTasks.filter((t: TaskWithRelations) => {
-        if (t.status === "done" || !t.dueDate) return false;
+        if (!isOpen(t) || !t.dueDate) return false;
         const dueDate = new Date(t.dueDate);
         dueDate.setHours(0, 0, 0, 0);
         return dueDate.getTime() === today.getTime();
       });
     } else if (filter === "next7days") {
       filteredTasks = allTasks.filter((t: TaskWithRelations) => {
-        if (t.status === "done" || !t.dueDate) return false;
+        if (!isOpen(t) || !t.dueDate) return false;
         const dueDate = new Date(t.dueDate);
         dueDate.setHours(0, 0, 0, 0);
         return dueDate >= tomorrow && dueDate <= next7Days;
       });
     } else if (filter === "open") {
-      filteredTasks = allTasks.filter((t: TaskWithRelations) => t.status !== "done");
+      filteredTasks = allTasks.filter((t: TaskWithRelations) => isOpen(t));
     }
 
     const tasksWithProject = await Promise.all(
@@ -226,11 +229,12 @@ router.get("/workload/unassigned", async (req, res) => {
       : await storage.getProjectsByWorkspace(workspaceId);
 
     const unassignedTasks: any[] = [];
+    const { isOpen } = await workflowService.statusChecks(tenantId);
 
     for (const project of projects) {
       const tasks = await storage.getTasksByProject(project.id);
       for (const task of tasks) {
-        if (task.status === "done") continue;
+        if (!isOpen(task)) continue;
         const hasAssignees = task.assignees && task.assignees.length > 0;
         if (!hasAssignees) {
           unassignedTasks.push({
@@ -318,11 +322,12 @@ router.get("/workload/by-priority", async (req, res) => {
       high: 0,
       urgent: 0,
     };
+    const { isOpen } = await workflowService.statusChecks(tenantId);
 
     for (const project of projects) {
       const tasks = await storage.getTasksByProject(project.id);
       for (const task of tasks) {
-        if (task.status === "done") continue;
+        if (!isOpen(task)) continue;
         const priority = task.priority || "none";
         priorityCounts[priority] = (priorityCounts[priority] || 0) + 1;
       }
@@ -357,6 +362,7 @@ router.get("/workload/summary", async (req, res) => {
     let totalOpenTasks = 0;
     let totalCompletedTasks = 0;
     let totalOverdueTasks = 0;
+    const { isDone, isOpen } = await workflowService.statusChecks(tenantId);
 
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -365,9 +371,9 @@ router.get("/workload/summary", async (req, res) => {
       const tasks = await storage.getTasksByProject(project.id);
       
       for (const task of tasks) {
-        if (task.status === "done") {
+        if (isDone(task)) {
           totalCompletedTasks++;
-        } else {
+        } else if (isOpen(task)) {
           totalOpenTasks++;
           if (task.dueDate) {
             const dueDate = new Date(task.dueDate);
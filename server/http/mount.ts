@@ -1,6 +1,7 @@
 import type { Express } from "express";
 import type { Server } from "http";
 import { registerRoute, clearRouteRegistry, getRouteRegistry } from "./routeRegistry";
+import { ApiTokenResource, type ApiTokenResourceValue } from "@shared/schema";
 import { apiNoCacheMiddleware } from "../middleware/apiCacheControl";
 import {
   startDeadlineChecker,
@@ -36,16 +37,33 @@ import reportsV2DigestRouter from "./domains/reports-v2-digest.router";
 import { startAlertScheduler, stopAlertScheduler } from "../alerts/alertScheduler";
 import { startDigestScheduler, stopDigestScheduler } from "../digests/digestScheduler";
 import { startRetentionScheduler, stopRetentionScheduler } from "../retention/retentionScheduler";
+import { startTimesheetReminderScheduler } from "../features/timesheets/timesheetReminders";
 import { jobsRouter } from "../jobs/jobs.router";
 import supportRouter from "./domains/support.router";
 import clientDocumentsRouter from "./domains/clientDocuments.router";
 import automationRouter from "./domains/automation.router";
 import assetsRouter from "./domains/assets.router";
+import proofingRouter from "./domains/proofing.router";
 import tenantDefaultDocsRouter from "./domains/tenantDefaultDocs.router";
 import controlCenterRouter from "./domains/controlCenter.router";
 import emailTemplatesRouter from "./domains/emailTemplates.router";
 import fileServeRouter from "./domains/fileServe.router";
 import accessRouter from "./domains/access.router";
+import customFieldsRouter from "./domains/customFields.router";
+import billingRouter from "./domains/billing.router";
+import timesheetsRouter from "./domains/timesheets.router";
+import apiTokensRouter from "./domains/apiTokens.router";
+import webhooksRouter from "./domains/webhooks.router";
+import syncRouter from "./domains/sync.router";
+import privacyRouter from "./domains/privacy.router";
+import ssoRouter from "./domains/sso.router";
+import remindersRouter from "./domains/reminders.router";
+import workflowsRouter from "./domains/workflows.router";
+import capacityRouter from "./domains/capacity.router";
+import inboundEmailRouter from "./domains/inboundEmail.router";
+import savedViewsRouter from "./domains/savedViews.router";
+import inboundEmailWebhookRouter from "./domains/inboundEmailWebhook.router";
+import openApiRouter from "./domains/openapi.router";
 import retentionRouter from "./domains/retention.router";
 
 import usersRouter from "../routes/users.router";
@@ -76,9 +94,18 @@ interface DomainEntry {
   policy: import("./policy/requiredMiddleware").PolicyName;
   domain: string;
   description: string;
+  apiResource?: ApiTokenResourceValue;
+  apiEndpoints?: ReadonlyArray<string>;
 }
 
 const REGISTERED_DOMAINS: DomainEntry[] = [
+  {
+    path: "/api/v1",
+    router: openApiRouter,
+    policy: "public",
+    domain: "openapi",
+    description: "OpenAPI document for the endpoints callable with API tokens.",
+  },
   {
     path: "/api/v1/system",
     router: systemRouter,
@@ -99,6 +126,7 @@ const REGISTERED_DOMAINS: DomainEntry[] = [
     policy: "authTenant",
     domain: "tags",
     description: "Tag CRUD and task-tag associations.",
+    apiResource: ApiTokenResource.TAGS,
   },
   {
     path: "/api",
@@ -113,6 +141,7 @@ const REGISTERED_DOMAINS: DomainEntry[] = [
     policy: "authTenant",
     domain: "comments",
     description: "Comment CRUD, resolve/unresolve.",
+    apiResource: ApiTokenResource.COMMENTS,
   },
   {
     path: "/api",
@@ -162,6 +191,7 @@ const REGISTERED_DOMAINS: DomainEntry[] = [
     policy: "authTenant",
     domain: "time",
     description: "Time tracking: active timers, time entries CRUD, calendar views, reporting, CSV export.",
+    apiResource: ApiTokenResource.TIME,
   },
   {
     path: "/api",
@@ -169,6 +199,7 @@ const REGISTERED_DOMAINS: DomainEntry[] = [
     policy: "authTenant",
     domain: "projects",
     description: "Projects core: CRUD, members, visibility (hide/unhide), sections, task reorder.",
+    apiResource: ApiTokenResource.PROJECTS,
   },
   {
     path: "/api",
@@ -176,6 +207,7 @@ const REGISTERED_DOMAINS: DomainEntry[] = [
     policy: "authTenant",
     domain: "tasks",
     description: "Tasks core: CRUD, assignees, watchers, move, personal tasks, personal sections, child tasks, calendar events, project activity.",
+    apiResource: ApiTokenResource.TASKS,
   },
   {
     path: "/api",
@@ -183,6 +215,7 @@ const REGISTERED_DOMAINS: DomainEntry[] = [
     policy: "authTenant",
     domain: "subtasks",
     description: "Subtasks: CRUD, move, assignees, tags, comments, full detail.",
+    apiResource: ApiTokenResource.TASKS,
   },
   {
     path: "/api",
@@ -211,6 +244,7 @@ const REGISTERED_DOMAINS: DomainEntry[] = [
     policy: "authTenant",
     domain: "workload-reports",
     description: "Workload reports: tasks-by-employee, unassigned, by-status, by-priority, summary.",
+    apiResource: ApiTokenResource.REPORTS,
   },
   {
     path: "/api/v1",
@@ -218,6 +252,7 @@ const REGISTERED_DOMAINS: DomainEntry[] = [
     policy: "authTenant",
     domain: "analytics-reports",
     description: "Analytics reports: overview KPIs, task analytics, client analytics dashboards.",
+    apiResource: ApiTokenResource.REPORTS,
   },
   {
     path: "/api/reports/v2",
@@ -225,6 +260,7 @@ const REGISTERED_DOMAINS: DomainEntry[] = [
     policy: "authTenant",
     domain: "reports-v2-workload",
     description: "Workload Reports V2: team summary, employee drilldown, capacity planning, risk flags.",
+    apiResource: ApiTokenResource.REPORTS,
   },
   {
     path: "/api/reports/v2",
@@ -232,6 +268,7 @@ const REGISTERED_DOMAINS: DomainEntry[] = [
     policy: "authTenant",
     domain: "reports-v2-employee",
     description: "Employee Command Center: overview, workload, time, capacity, risk, trends.",
+    apiResource: ApiTokenResource.REPORTS,
   },
   {
     path: "/api/reports/v2",
@@ -239,6 +276,7 @@ const REGISTERED_DOMAINS: DomainEntry[] = [
     policy: "authTenant",
     domain: "reports-v2-client",
     description: "Client Command Center: overview, activity, time, tasks, SLA, risk.",
+    apiResource: ApiTokenResource.REPORTS,
   },
   {
     path: "/api/reports/v2",
@@ -246,6 +284,7 @@ const REGISTERED_DOMAINS: DomainEntry[] = [
     policy: "authTenant",
     domain: "reports-v2-forecasting",
     description: "Forecasting Layer V1: capacity overload, project deadline risk, client risk trend.",
+    apiResource: ApiTokenResource.REPORTS,
   },
   {
     path: "/api/reports/v2",
@@ -303,6 +342,13 @@ const REGISTERED_DOMAINS: DomainEntry[] = [
     domain: "assets",
     description: "Asset Library: unified asset management, folders, upload, download.",
   },
+  {
+    path: "/api/v1",
+    router: proofingRouter,
+    policy: "authTenant",
+    domain: "proofing",
+    description: "Asset proofing: version stack, pinned review comments, client approval of a version.",
+  },
   {
     path: "/api/v1",
     router: tenantDefaultDocsRouter,
@@ -331,12 +377,129 @@ const REGISTERED_DOMAINS: DomainEntry[] = [
     domain: "access",
     description: "Private access management for tasks and projects.",
   },
+  {
+    path: "/api",
+    router: customFieldsRouter,
+    policy: "authTenant",
+    domain: "custom-fields",
+    description: "Tenant-defined custom fields: definition CRUD and per-entity values.",
+  },
+  {
+    path: "/api",
+    router: billingRouter,
+    policy: "authTenant",
+    domain: "billing",
+    description: "Billing rate cards and client invoices generated from time entries.",
+    apiResource: ApiTokenResource.BILLING,
+  },
+  {
+    path: "/api",
+    router: timesheetsRouter,
+    policy: "authTenant",
+    domain: "timesheets",
+    description: "Weekly timesheet submission, manager review and missing-submission reminders.",
+    apiResource: ApiTokenResource.TIME,
+    // Manager review stays session-only
+    apiEndpoints: ["GET /timesheets/week", "GET /timesheets", "POST /timesheets/submit"],
+  },
+  {
+    path: "/api",
+    router: apiTokensRouter,
+    policy: "authTenant",
+    domain: "api-tokens",
+    description: "Personal API tokens: list, create and revoke (session only).",
+  },
+  {
+    path: "/api",
+    router: webhooksRouter,
+    policy: "authTenant",
+    domain: "outbound-webhooks",
+    description: "Outbound webhooks: endpoint registration, delivery log and redelivery (admin).",
+  },
+  {
+    path: "/api",
+    router: syncRouter,
+    policy: "authTenant",
+    domain: "two-way-sync",
+    description: "Two-way task sync with external trackers: connections, field rules, run log (admin).",
+  },
+  {
+    path: "/api",
+    router: privacyRouter,
+    policy: "authTenant",
+    domain: "privacy",
+    description: "Data subject requests: export and erasure with approval and audit trail (admin).",
+  },
+  {
+    path: "/api",
+    router: ssoRouter,
+    policy: "authTenant",
+    domain: "sso",
+    description: "Single sign-on identity provider settings (admin).",
+  },
+  {
+    path: "/api",
+    router: remindersRouter,
+    policy: "authTenant",
+    domain: "reminders",
+    description: "Personal reminders for tasks, comments and chat: list, create, snooze and cancel.",
+  },
+  {
+    path: "/api",
+    router: workflowsRouter,
+    policy: "authTenant",
+    domain: "workflows",
+    description: "Per-project task workflows: status sets with categories, transitions and required fields.",
+  },
+  {
+    path: "/api",
+    router: capacityRouter,
+    policy: "authTenant",
+    domain: "capacity",
+    description: "Per-user working hours, holiday calendars and time-off requests with approval.",
+    apiResource: ApiTokenResource.TIME,
+    // Approving time off stays session-only
+    apiEndpoints: [
+      "GET /capacity/profiles",
+      "PUT /capacity/profiles/:userId",
+      "DELETE /capacity/profiles/:id",
+      "GET /capacity/availability",
+      "GET /holiday-calendars",
+      "POST /holiday-calendars",
+      "PATCH /holiday-calendars/:id",
+      "DELETE /holiday-calendars/:id",
+      "POST /holiday-calendars/:id/holidays",
+      "DELETE /holiday-calendars/:id/holidays/:holidayId",
+      "GET /time-off",
+      "GET /time-off/calendar",
+      "POST /time-off",
+      "POST /time-off/:id/cancel",
+    ],
+  },
+  {
+    path: "/api",
+    router: inboundEmailRouter,
+    policy: "authTenant",
+    domain: "inbound-email",
+    description: "Inbound email mailbox settings and quarantine review (admin).",
+  },
+  {
+    path: "/api",
+    router: savedViewsRouter,
+    policy: "authTenant",
+    domain: "saved-views",
+    description: "Server-side task filter queries and saved task views (personal or team).",
+    apiResource: ApiTokenResource.TASKS,
+  },
   {
     path: "/api",
     router: usersRouter,
     policy: "authTenant",
     domain: "users",
     description: "User management: CRUD, invitations, password reset, avatar, UI preferences.",
+    apiResource: ApiTokenResource.USERS,
+    // Credentials, 2FA, account status, invitations and mail settings stay session-only
+    apiEndpoints: ["GET /users", "GET /tenant/users", "PATCH /users/me"],
   },
   {
     path: "/api",
@@ -351,20 +514,21 @@ const REGISTERED_DOMAINS: DomainEntry[] = [
     policy: "authTenant",
     domain: "clients",
     description: "Client management: CRUD, contacts, invites, projects, divisions, notes, documents.",
+    apiResource: ApiTokenResource.CLIENTS,
   },
   {
     path: "/api",
     router: searchRouter,
     policy: "authTenant",
     domain: "search",
-    description: "Global search for command palette and quick navigation.",
+    description: "Global search for command palette and quick navigation; full-text search across all entities.",
   },
   {
     path: "/api/v1/super/retention",
     router: retentionRouter,
     policy: "superUser",
     domain: "data-retention",
-    description: "Data retention: audit, run, and policy management.",
+    description: "Data retention: audit, dry run, run, restore, legal holds and policy management.",
   },
   {
     path: "/api",
@@ -485,6 +649,13 @@ const REGISTERED_DOMAINS: DomainEntry[] = [
     domain: "webhooks",
     description: "Stripe webhook routes (signature-verified, no session auth).",
   },
+  {
+    path: "/api/v1/webhooks",
+    router: inboundEmailWebhookRouter,
+    policy: "public",
+    domain: "inbound-email-webhook",
+    description: "Inbound email from the mail provider (shared-secret auth, no session).",
+  },
 ];
 
 export async function mountAllRoutes(
@@ -503,6 +674,8 @@ export async function mountAllRoutes(
       domain: entry.domain,
       description: entry.description,
       legacy: false,
+      apiResource: entry.apiResource,
+      apiEndpoints: entry.apiEndpoints,
     });
   }
 
@@ -518,6 +691,7 @@ export async function mountAllRoutes(
   startAlertScheduler();
   startDigestScheduler();
   startRetentionScheduler();
+  startTimesheetReminderScheduler();
 
   return httpServer;
 }
@@ -0,0 +1,40 @@
+import type { RequestHandler } from "express";
+import { AppError, handleRouteError, sendError } from "../../lib/errors";
+import { apiTokenService } from "../../features/apiTokens/apiToken.service";
+import { hasScope, readBearerToken } from "../../features/apiTokens/apiTokenSecrets";
+import { findEndpoint } from "../publicApi";
+
+/**
+ * Authenticates `Authorization: Bearer <api token>` requests for the authOnly/authTenant policies.
+ *
+ * Runs before requireAuth. Session requests and requests without a token pass straight through.
+ * A token request is only let through to endpoints in the public API (see publicApi.ts) for which
+ * the token holds the required scope; the token's user then becomes req.user with their own
+ * tenant as context. Several domain routers share a mount path, so a request already resolved
+ * by an earlier router is not authenticated twice.
+ */
+export const authenticateApiToken: RequestHandler = async (req, res, next) => {
+  if (req.apiToken || req.user) return next();
+  const secret = readBearerToken(req.headers.authorization);
+  if (!secret) return next();
+
+  try {
+    const { user, token } = await apiTokenService.authenticate(secret, req.ip ?? null);
+
+    const requestPath = req.originalUrl.split("?")[0];
+    const endpoint = findEndpoint(req.method, requestPath);
+    if (!endpoint?.scope) {
+      return sendError(res, AppError.forbidden("This endpoint is not available to API tokens"), req);
+    }
+    if (!hasScope(token.scopes, endpoint.scope)) {
+      return sendError(res, AppError.forbidden(`API token is missing the ${endpoint.scope} scope`), req);
+    }
+
+    req.user = user;
+    req.apiToken = { id: token.id, scopes: token.scopes };
+    req.tenant = { tenantId: user.tenantId, effectiveTenantId: user.tenantId, isSuperUser: false };
+    next();
+  } catch (error) {
+    handleRouteError(res, error, "authenticateApiToken", req);
+  }
+};
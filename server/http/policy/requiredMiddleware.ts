@@ -1,6 +1,7 @@
 import type { RequestHandler } from "express";
 import { requireAuth } from "../../auth";
 import { requireTenantContext, requireSuperUser } from "../../middleware/tenantContext";
+import { authenticateApiToken } from "./apiTokenAuth";
 
 export type PolicyName = "public" | "authOnly" | "authTenant" | "superUser";
 
@@ -18,13 +19,13 @@ const POLICY_DEFINITIONS: Record<PolicyName, PolicyDefinition> = {
   },
   authOnly: {
     name: "authOnly",
-    description: "Authentication required, tenant context optional.",
-    middleware: [requireAuth],
+    description: "Authentication (session or API token) required, tenant context optional.",
+    middleware: [authenticateApiToken, requireAuth],
   },
   authTenant: {
     name: "authTenant",
-    description: "Authentication and tenant context required.",
-    middleware: [requireAuth, requireTenantContext],
+    description: "Authentication (session or API token) and tenant context required.",
+    middleware: [authenticateApiToken, requireAuth, requireTenantContext],
   },
   superUser: {
     name: "superUser",
@@ -0,0 +1,171 @@
+/**
+ * Public API surface
+ *
+ * Derives the endpoints API tokens may call from the route registry: every route of a domain
+ * registered with an `apiResource` is reachable, unless the domain narrows it to `apiEndpoints`,
+ * and needs `read:<resource>` (GET) or `write:<resource>` (anything else). The same list is
+ * published as an OpenAPI document.
+ *
+ * Routes are discovered by walking each mounted Express router, including sub-routers mounted
+ * at "/". Sub-routers mounted at other paths are not discovered.
+ */
+import type { Router } from "express";
+import type { ApiTokenResourceValue } from "@shared/schema";
+import { getRouteRegistry, type RouteMount } from "./routeRegistry";
+import { requiredScope } from "../features/apiTokens/apiTokenSecrets";
+
+export const PUBLIC_API_VERSION = "1.0.0";
+
+export interface PublicApiEndpoint {
+  method: string;
+  /** Full path in OpenAPI form, e.g. `/api/tasks/{id}`. */
+  path: string;
+  pathParams: string[];
+  domain: string;
+  domainDescription: string;
+  resource: ApiTokenResourceValue | null;
+  scope: string | null;
+  matches(method: string, requestPath: string): boolean;
+}
+
+interface StackLayer {
+  route?: { path: unknown; methods: Record<string, boolean> };
+  handle: { stack?: StackLayer[] };
+  regexp: RegExp & { fast_slash?: boolean };
+}
+
+function joinPath(mountPath: string, routePath: string): string {
+  const joined = `${mountPath.replace(/\/$/, "")}/${routePath.replace(/^\//, "")}`;
+  return joined.length > 1 ? joined.replace(/\/$/, "") : joined;
+}
+
+function toOpenApiPath(expressPath: string): { path: string; params: string[] } {
+  const params: string[] = [];
+  const path = expressPath.replace(/:(\w+)\??/g, (_match, name: string) => {
+    params.push(name);
+    return `{${name}}`;
+  });
+  return { path, params };
+}
+
+function collectRouteLayers(stack: StackLayer[] | undefined, out: StackLayer[]): void {
+  for (const layer of stack ?? []) {
+    if (layer.route) {
+      out.push(layer);
+    } else if (layer.handle.stack && layer.regexp.fast_slash) {
+      collectRouteLayers(layer.handle.stack, out);
+    }
+  }
+}
+
+/** Every routed endpoint of `mounts`, in Express dispatch order. */
+export function collectEndpoints(mounts: ReadonlyArray<RouteMount>): PublicApiEndpoint[] {
+  const endpoints: PublicApiEndpoint[] = [];
+  for (const mount of mounts) {
+    const layers: StackLayer[] = [];
+    collectRouteLayers((mount.router as Router & { stack?: StackLayer[] }).stack, layers);
+    for (const layer of layers) {
+      const route = layer.route!;
+      if (typeof route.path !== "string") continue;
+      const { path, params } = toOpenApiPath(joinPath(mount.path, route.path));
+      const methods = Object.keys(route.methods).filter((m) => route.methods[m] && m !== "_all");
+      for (const method of methods) {
+        const upper = method.toUpperCase();
+        const exposed = !mount.apiEndpoints || mount.apiEndpoints.includes(`${upper} ${route.path}`);
+        const resource = exposed ? mount.apiResource ?? null : null;
+        endpoints.push({
+          method: upper,
+          path,
+          pathParams: params,
+          domain: mount.domain,
+          domainDescription: mount.description,
+          resource,
+          scope: resource ? requiredScope(upper, resource) : null,
+          matches(requestMethod, requestPath) {
+            const wanted = requestMethod.toUpperCase() === "HEAD" ? "GET" : requestMethod.toUpperCase();
+            if (wanted !== upper) return false;
+            if (requestPath !== mount.path && !requestPath.startsWith(`${mount.path.replace(/\/$/, "")}/`)) {
+              return false;
+            }
+            const rest = requestPath.slice(mount.path.replace(/\/$/, "").length) || "/";
+            return layer.regexp.test(rest);
+          },
+        });
+      }
+    }
+  }
+  return endpoints;
+}
+
+let cachedEndpoints: { registrySize: number; endpoints: PublicApiEndpoint[] } | null = null;
+
+function registeredEndpoints(): PublicApiEndpoint[] {
+  const registry = getRouteRegistry();
+  if (!cachedEndpoints || cachedEndpoints.registrySize !== registry.length) {
+    cachedEndpoints = { registrySize: registry.length, endpoints: collectEndpoints(registry) };
+  }
+  return cachedEndpoints.endpoints;
+}
+
+/**
+ * The endpoint Express would dispatch `method path` to, or undefined. Callers check `scope`:
+ * null means the endpoint is not part of the public API.
+ */
+export function findEndpoint(
+  method: string,
+  requestPath: string,
+  endpoints: PublicApiEndpoint[] = registeredEndpoints(),
+): PublicApiEndpoint | undefined {
+  return endpoints.find((endpoint) => endpoint.matches(method, requestPath));
+}
+
+/** OpenAPI 3 document for the token-reachable endpoints. */
+export function buildOpenApiSpec(endpoints: PublicApiEndpoint[] = registeredEndpoints()) {
+  const publicEndpoints = endpoints.filter((endpoint) => endpoint.scope);
+  const paths: Record<string, Record<string, unknown>> = {};
+  const tags = new Map<string, string>();
+
+  for (const endpoint of publicEndpoints) {
+    tags.set(endpoint.domain, endpoint.domainDescription);
+    const operations = paths[endpoint.path] ?? (paths[endpoint.path] = {});
+    const method = endpoint.method.toLowerCase();
+    if (operations[method]) continue;
+    operations[method] = {
+      tags: [endpoint.domain],
+      operationId: `${method}_${endpoint.path.replace(/[^a-zA-Z0-9]+/g, "_").replace(/^_|_$/g, "")}`,
+      summary: `${endpoint.method} ${endpoint.path}`,
+      parameters: endpoint.pathParams.map((name) => ({
+        name,
+        in: "path",
+        required: true,
+        schema: { type: "string" },
+      })),
+      security: [{ bearerAuth: [endpoint.scope] }],
+      "x-required-scope": endpoint.scope,
+      responses: {
+        "200": { description: "Success" },
+        "401": { description: "Missing, invalid, revoked or expired API token" },
+        "403": { description: "The token lacks the required scope" },
+      },
+    };
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "MyWorkDay API",
+      version: PUBLIC_API_VERSION,
+      description:
+        "Endpoints callable with a personal API token (`Authorization: Bearer <token>`). " +
+        "GET requests need `read:<resource>`; all other methods need `write:<resource>`, which also grants read.",
+    },
+    tags: Array.from(tags, ([name, description]) => ({ name, description })),
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+      },
+    },
+    security: [{ bearerAuth: [] }],
+    paths,
+  };
+}
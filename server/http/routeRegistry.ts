@@ -1,5 +1,6 @@
 import type { Router } from "express";
 import type { PolicyName } from "./policy/requiredMiddleware";
+import type { ApiTokenResourceValue } from "@shared/schema";
 
 export interface RouteMount {
   path: string;
@@ -8,6 +9,13 @@ export interface RouteMount {
   domain: string;
   description: string;
   legacy: boolean;
+  /** When set, API tokens holding this resource's scopes may call the domain's routes. */
+  apiResource?: ApiTokenResourceValue;
+  /**
+   * Limits token access to these routes, written as `METHOD /router/path` (e.g. `GET /users`).
+   * Without it every route of the domain is reachable.
+   */
+  apiEndpoints?: ReadonlyArray<string>;
 }
 
 const registry: RouteMount[] = [];
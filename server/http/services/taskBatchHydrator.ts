@@ -51,6 +51,18 @@ export async function getTasksByUserBatched(userId: string, tenantId: string, in
   }
   if (filteredTasks.length === 0) return [];
 
+  const result = await hydrateTasks(filteredTasks);
+  return result.sort((a, b) => {
+    if (!a.dueDate && !b.dueDate) return 0;
+    if (!a.dueDate) return 1;
+    if (!b.dueDate) return -1;
+    return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+  });
+}
+
+/** Attach assignees, watchers, tags, child tasks, section and project to already-visible tasks, keeping their order. */
+export async function hydrateTasks(filteredTasks: typeof tasks.$inferSelect[]): Promise<TaskWithRelations[]> {
+  if (filteredTasks.length === 0) return [];
   const taskIds = filteredTasks.map(t => t.id);
 
   const [assigneeRows2, watcherRows, tagRows, subtaskRows] = await Promise.all([
@@ -120,7 +132,7 @@ export async function getTasksByUserBatched(userId: string, tenantId: string, in
     project: undefined,
   });
 
-  const result: TaskWithRelations[] = filteredTasks.map(task => ({
+  return filteredTasks.map(task => ({
     ...task,
     assignees: assigneesByTask.get(task.id) ?? [],
     watchers: watchersByTask.get(task.id) ?? [],
@@ -135,11 +147,4 @@ export async function getTasksByUserBatched(userId: string, tenantId: string, in
     section: task.sectionId ? sectionById.get(task.sectionId) : undefined,
     project: task.projectId ? projectById.get(task.projectId) : undefined,
   }));
-
-  return result.sort((a, b) => {
-    if (!a.dueDate && !b.dueDate) return 0;
-    if (!a.dueDate) return 1;
-    if (!b.dueDate) return -1;
-    return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
-  });
 }
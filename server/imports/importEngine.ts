@@ -1,11 +1,14 @@
 import { db } from "../db";
 import { storage } from "../storage";
-import { clients, projects, tasks, users, timeEntries } from "@shared/schema";
+import { clients, projects, tasks, users, timeEntries, CustomFieldType, type CustomFieldDefinition, type CustomFieldEntityTypeValue } from "@shared/schema";
 import { eq, and } from "drizzle-orm";
 import { applyMapping } from "./applyMapping";
 import type { ImportJob } from "./jobStore";
 import { updateJob } from "./jobStore";
-import type { EntityType, ColumnMapping, ValidationError, ValidationWarning, ValidationSummary, ImportSummary, MissingDependency } from "../../shared/imports/fieldCatalog";
+import { CUSTOM_FIELD_ENTITY_TYPES, CUSTOM_FIELD_KEY_PREFIX, ENTITY_FIELD_MAP, customFieldsToFieldDefinitions, extractCustomFieldValues } from "../../shared/imports/fieldCatalog";
+import type { EntityType, ColumnMapping, FieldDefinition, ValidationError, ValidationWarning, ValidationSummary, ImportSummary, MissingDependency } from "../../shared/imports/fieldCatalog";
+import { normalizeCustomFieldValue } from "@shared/customFields";
+import { customFieldRepo, type CustomFieldValueWrite } from "../features/customFields/customField.repo";
 
 interface RowResult {
   action: "create" | "update" | "skip";
@@ -23,6 +26,7 @@ interface TenantLookups {
   tasksByKey: Map<string, { id: string; title: string; projectId: string | null }>;
   tasksByTitle: Map<string, { id: string; title: string; projectId: string | null }>;
   existingTimeEntryKeys: Set<string>;
+  customFields: CustomFieldDefinition[];
 }
 
 async function buildLookups(tenantId: string): Promise<TenantLookups> {
@@ -79,7 +83,59 @@ async function buildLookups(tenantId: string): Promise<TenantLookups> {
     })
   );
 
-  return { tenantId, workspaceId, usersByEmail, usersByName, clientsByName, projectsByName, tasksByKey, tasksByTitle, existingTimeEntryKeys };
+  const customFields = await customFieldRepo.listDefinitions(tenantId);
+
+  return { tenantId, workspaceId, usersByEmail, usersByName, clientsByName, projectsByName, tasksByKey, tasksByTitle, existingTimeEntryKeys, customFields };
+}
+
+/**
+ * Validates the row's `custom.*` columns against the tenant's field definitions. User fields
+ * accept an email address or a user id.
+ */
+function resolveCustomFields(
+  entityType: CustomFieldEntityTypeValue,
+  m: Record<string, string>,
+  row: number,
+  lookups: TenantLookups,
+): { values: CustomFieldValueWrite[]; error?: ValidationError } {
+  const definitions = lookups.customFields.filter(f => f.entityType === entityType);
+  const raw = extractCustomFieldValues(m);
+  const values: CustomFieldValueWrite[] = [];
+
+  for (const [key, input] of Object.entries(raw)) {
+    const field = `${CUSTOM_FIELD_KEY_PREFIX}${key}`;
+    const definition = definitions.find(d => d.key === key);
+    if (!definition) return { values, error: { row, field, code: "UNKNOWN_CUSTOM_FIELD", message: `Unknown custom field "${key}"` } };
+
+    let value: unknown = input;
+    if (definition.fieldType === CustomFieldType.USER && input.includes("@")) {
+      const user = lookups.usersByEmail.get(input.trim().toLowerCase());
+      if (!user) return { values, error: { row, field, code: "USER_NOT_FOUND", message: `User "${input}" not found` } };
+      value = user.id;
+    }
+
+    const result = normalizeCustomFieldValue(definition, value);
+    if (!result.ok) return { values, error: { row, field, code: "INVALID_CUSTOM_FIELD", message: result.error } };
+    if (result.value !== null) values.push({ fieldId: definition.id, value: result.value });
+  }
+
+  const missing = definitions.find(d => d.isRequired && !values.some(v => v.fieldId === d.id));
+  if (missing) {
+    return { values, error: { row, field: `${CUSTOM_FIELD_KEY_PREFIX}${missing.key}`, code: "REQUIRED", message: `${missing.label} is required` } };
+  }
+  return { values };
+}
+
+async function saveCustomFields(lookups: TenantLookups, entityType: CustomFieldEntityTypeValue, entityId: string, values: CustomFieldValueWrite[]) {
+  await customFieldRepo.writeValues(lookups.tenantId, entityType, entityId, values, null);
+}
+
+/** Built-in import fields for an entity type followed by the tenant's custom fields for it. */
+export async function getEntityFields(tenantId: string, entityType: EntityType): Promise<FieldDefinition[]> {
+  const customEntityType = CUSTOM_FIELD_ENTITY_TYPES[entityType];
+  if (!customEntityType) return ENTITY_FIELD_MAP[entityType];
+  const definitions = await customFieldRepo.listDefinitions(tenantId, customEntityType);
+  return [...ENTITY_FIELD_MAP[entityType], ...customFieldsToFieldDefinitions(definitions)];
 }
 
 export async function validateJob(job: ImportJob): Promise<ValidationSummary> {
@@ -231,6 +287,8 @@ function validateClient(m: Record<string, string>, row: number, lookups: TenantL
   if (m.parentClientName?.trim() && !lookups.clientsByName.has(m.parentClientName.trim().toLowerCase())) {
     warning = { row, field: "parentClientName", code: "PARENT_WILL_CREATE", message: `Parent client "${m.parentClientName}" will be created` };
   }
+  const custom = resolveCustomFields("client", m, row, lookups);
+  if (custom.error) return { action: "skip", error: custom.error };
   return { action: "create", warning };
 }
 
@@ -241,6 +299,8 @@ function validateProject(m: Record<string, string>, row: number, lookups: Tenant
   if (m.clientName?.trim() && !lookups.clientsByName.has(m.clientName.trim().toLowerCase())) {
     return { action: "create", error: { row, field: "clientName", code: "CLIENT_NOT_FOUND", message: `Client "${m.clientName}" not found` } };
   }
+  const custom = resolveCustomFields("project", m, row, lookups);
+  if (custom.error) return { action: "skip", error: custom.error };
   return { action: "create" };
 }
 
@@ -257,6 +317,8 @@ function validateTask(m: Record<string, string>, row: number, lookups: TenantLoo
       return { action: "create", error: { row, field: "assigneeEmail", code: "ASSIGNEE_NOT_FOUND", message: `User "${m.assigneeEmail}" not found` } };
     }
   }
+  const custom = resolveCustomFields("task", m, row, lookups);
+  if (custom.error) return { action: "skip", error: custom.error };
   return { action: "create" };
 }
 
@@ -569,6 +631,9 @@ async function importClient(m: Record<string, string>, row: number, lookups: Ten
 
   if (lookups.clientsByName.has(companyName.toLowerCase())) return { action: "skip" };
 
+  const custom = resolveCustomFields("client", m, row, lookups);
+  if (custom.error) return { action: "skip", error: custom.error };
+
   let parentClientId: string | null = null;
   if (m.parentClientName?.trim()) {
     let parent = lookups.clientsByName.get(m.parentClientName.trim().toLowerCase());
@@ -605,6 +670,7 @@ async function importClient(m: Record<string, string>, row: number, lookups: Ten
     country: m.country?.trim() || null,
   }).returning({ id: clients.id, companyName: clients.companyName, parentClientId: clients.parentClientId });
   lookups.clientsByName.set(companyName.toLowerCase(), newClient);
+  await saveCustomFields(lookups, "client", newClient.id, custom.values);
   return { action: "create" };
 }
 
@@ -614,6 +680,9 @@ async function importProject(m: Record<string, string>, row: number, lookups: Te
 
   if (lookups.projectsByName.has(name.toLowerCase())) return { action: "skip" };
 
+  const custom = resolveCustomFields("project", m, row, lookups);
+  if (custom.error) return { action: "skip", error: custom.error };
+
   let clientId: string | null = null;
   if (m.clientName?.trim()) {
     const client = lookups.clientsByName.get(m.clientName.trim().toLowerCase());
@@ -637,6 +706,7 @@ async function importProject(m: Record<string, string>, row: number, lookups: Te
     budgetMinutes,
   }).returning({ id: projects.id, name: projects.name, clientId: projects.clientId });
   lookups.projectsByName.set(name.toLowerCase(), newProject);
+  await saveCustomFields(lookups, "project", newProject.id, custom.values);
   return { action: "create" };
 }
 
@@ -654,6 +724,9 @@ async function importTask(m: Record<string, string>, row: number, lookups: Tenan
   const key = `${projectId || "none"}::${title.toLowerCase()}`;
   if (lookups.tasksByKey.has(key)) return { action: "skip" };
 
+  const custom = resolveCustomFields("task", m, row, lookups);
+  if (custom.error) return { action: "skip", error: custom.error };
+
   let dueDate: Date | null = null;
   if (m.dueDate?.trim()) {
     const d = new Date(m.dueDate);
@@ -692,6 +765,7 @@ async function importTask(m: Record<string, string>, row: number, lookups: Tenan
     estimateMinutes,
   }).returning({ id: tasks.id, title: tasks.title, projectId: tasks.projectId });
   lookups.tasksByKey.set(key, newTask);
+  await saveCustomFields(lookups, "task", newTask.id, custom.values);
 
   if (m.assigneeEmail?.trim()) {
     const assignee = lookups.usersByEmail.get(m.assigneeEmail.trim().toLowerCase());
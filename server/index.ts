@@ -6,11 +6,15 @@ import { mountAllRoutes } from "./http/mount";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import { initializeSocketIO } from "./realtime/socket";
+import { configureSharedState } from "./lib/sharedState";
 import { setupAuth, setupBootstrapEndpoints, setupPlatformInviteEndpoints, setupTenantInviteEndpoints, setupPasswordResetEndpoints } from "./auth";
 import { bootstrapAdminUser } from "./bootstrap";
 import { runProductionParityCheck } from "./scripts/production-parity-check";
 import { tenantContextMiddleware } from "./middleware/tenantContext";
 import { agreementEnforcementGuard } from "./middleware/agreementEnforcement";
+import { twoFactorEnforcementGuard } from "./middleware/twoFactorEnforcement";
+import { setupTwoFactorEndpoints } from "./features/twoFactor/twoFactor.routes";
+import { setupSsoEndpoints } from "./features/sso/sso.routes";
 import { requestIdMiddleware } from "./middleware/requestId";
 import { errorHandler } from "./middleware/errorHandler";
 import { errorLoggingMiddleware } from "./middleware/errorLogging";
@@ -169,8 +173,11 @@ app.use(express.urlencoded({ extended: false }));
 // Setup authentication middleware (session + passport) - must be before Socket.IO
 setupAuth(app);
 
+// Shared realtime state (cluster bus, rate-limit counters) per REALTIME_BACKEND
+const sharedState = configureSharedState();
+
 // Initialize Socket.IO server for real-time updates (after auth for session access)
-initializeSocketIO(httpServer);
+initializeSocketIO(httpServer, sharedState.bus);
 
 // Setup bootstrap endpoints (first-user registration)
 setupBootstrapEndpoints(app);
@@ -184,6 +191,12 @@ setupTenantInviteEndpoints(app);
 // Setup password reset endpoints (public, no auth required)
 setupPasswordResetEndpoints(app);
 
+// Setup two-factor endpoints (also serve logins that are waiting for a code)
+setupTwoFactorEndpoints(app);
+
+// Setup single sign-on endpoints (public discovery, IdP redirects and callbacks)
+setupSsoEndpoints(app);
+
 // Public file serving proxy (before auth middleware, no auth required)
 import fileServeRouter from "./http/domains/fileServe.router";
 app.use("/api/v1/files/serve", fileServeRouter);
@@ -200,6 +213,9 @@ app.use(requestPerfMiddleware);
 // Unified perf logger (always on — sampled at 5% in production, 100% in dev)
 app.use(perfLoggerMiddleware);
 
+// Two-factor enforcement (after auth; blocks sessions that still owe a 2FA code)
+app.use(twoFactorEnforcementGuard);
+
 // Setup agreement enforcement (must be after tenant context)
 app.use(agreementEnforcementGuard);
 
@@ -763,6 +779,9 @@ async function gracefulShutdown(signal: string) {
     } catch {
       console.log("[shutdown] 3/4  Socket.IO was not initialised — skipped");
     }
+    await sharedState.close().catch((err) => {
+      console.error("[shutdown] 3/4  Failed to leave the cluster:", err);
+    });
 
     console.log("[shutdown] 4/4  Draining database pool...");
     try {
@@ -12,7 +12,14 @@ import {
   suggestProjectPlan,
   generateTaskDescription,
 } from "../services/ai/aiService";
-import { runSoftArchive } from "../retention/softArchiveRunner";
+import { runRetention } from "../retention/retentionRunner";
+import { taskRecurrenceService, RECURRING_TASK_JOB_TYPE } from "../features/recurrence/recurrence.service";
+import { emitTaskCreated } from "../realtime/events";
+import { webhookService, WEBHOOK_DELIVERY_JOB_TYPE } from "../features/webhooks/webhook.service";
+import { webhookRetryDelayMs } from "../features/webhooks/webhookSecurity";
+import { reminderService, REMINDER_JOB_TYPE } from "../features/reminders/reminders.service";
+import { syncService, SYNC_JOB_TYPE } from "../features/sync/sync.service";
+import { privacyService, PRIVACY_JOB_TYPE } from "../features/privacy/privacy.service";
 import { storage } from "../storage";
 import * as schema from "@shared/schema";
 import { and, sql } from "drizzle-orm";
@@ -25,7 +32,7 @@ async function handleDataRetention(ctx: JobContext): Promise<void> {
   }
 
   await ctx.updateProgress({ current: 0, total: 100, phase: "Starting retention job..." });
-  const result = await runSoftArchive(tenantId);
+  const result = await runRetention(tenantId);
   await ctx.setResult(result);
   await ctx.updateProgress({ current: 100, total: 100, phase: "Retention job complete" });
 }
@@ -298,24 +305,25 @@ async function handleBulkTasksImport(ctx: JobContext): Promise<void> {
 
 async function handleAiGeneration(ctx: JobContext): Promise<void> {
   const { action, taskTitle, taskDescription, projectContext, projectName, projectDescription, clientName, teamSize } = ctx.payload;
+  const aiContext = { tenantId: ctx.tenantId, userId: ctx.userId };
 
   await ctx.updateProgress({ current: 0, total: 1, phase: `Running AI ${action}...` });
 
   switch (action) {
     case "task-breakdown": {
-      const result = await suggestTaskBreakdown(taskTitle, taskDescription, projectContext);
+      const result = await suggestTaskBreakdown(aiContext, taskTitle, taskDescription, projectContext);
       if (!result) throw new Error("AI returned no result");
       await ctx.setResult(result);
       break;
     }
     case "project-plan": {
-      const result = await suggestProjectPlan(projectName, projectDescription, clientName, teamSize);
+      const result = await suggestProjectPlan(aiContext, projectName, projectDescription, clientName, teamSize);
       if (!result) throw new Error("AI returned no result");
       await ctx.setResult(result);
       break;
     }
     case "task-description": {
-      const description = await generateTaskDescription(taskTitle, projectContext);
+      const description = await generateTaskDescription(aiContext, taskTitle, projectContext);
       if (!description) throw new Error("AI returned no result");
       await ctx.setResult({ description });
       break;
@@ -327,12 +335,71 @@ async function handleAiGeneration(ctx: JobContext): Promise<void> {
   await ctx.updateProgress({ current: 1, total: 1, phase: "Done" });
 }
 
+async function handleRecurringTask(ctx: JobContext): Promise<void> {
+  const { recurrenceId } = ctx.payload;
+  if (!recurrenceId) {
+    throw new Error("Missing recurrenceId in recurring_task job payload");
+  }
+
+  const instance = await taskRecurrenceService.runScheduledJob(ctx.tenantId, recurrenceId, ctx.jobId);
+  if (instance?.projectId) {
+    const withRelations = await storage.getTaskWithRelations(instance.id);
+    if (withRelations) emitTaskCreated(instance.projectId, withRelations as any);
+  }
+  await ctx.setResult({ createdTaskId: instance?.id ?? null });
+}
+
+async function handleWebhookDelivery(ctx: JobContext): Promise<void> {
+  const { deliveryId } = ctx.payload;
+  if (!deliveryId) {
+    throw new Error("Missing deliveryId in webhook_delivery job payload");
+  }
+
+  const status = await webhookService.deliver(ctx.tenantId, deliveryId);
+  await ctx.setResult({ status });
+}
+
+async function handleReminder(ctx: JobContext): Promise<void> {
+  const { reminderId } = ctx.payload;
+  if (!reminderId) {
+    throw new Error("Missing reminderId in reminder job payload");
+  }
+
+  const reminder = await reminderService.runScheduledJob(ctx.tenantId, reminderId, ctx.jobId);
+  await ctx.setResult({ delivered: reminder !== null });
+}
+
+async function handleTaskSync(ctx: JobContext): Promise<void> {
+  const { connectionId, trigger } = ctx.payload;
+  if (!connectionId) {
+    throw new Error("Missing connectionId in task_sync job payload");
+  }
+
+  const run = await syncService.runJob(ctx.tenantId, connectionId, ctx.jobId, trigger === "manual" ? "manual" : "schedule");
+  await ctx.setResult({ runId: run?.id ?? null, status: run?.status ?? "skipped" });
+}
+
+async function handleDataSubjectRequest(ctx: JobContext): Promise<void> {
+  const { requestId } = ctx.payload;
+  if (!requestId) {
+    throw new Error("Missing requestId in data_subject_request job payload");
+  }
+
+  const request = await privacyService.processJob(ctx.tenantId, requestId);
+  await ctx.setResult({ requestId, status: request?.status ?? "skipped" });
+}
+
 export function registerAllHandlers(): void {
   registerHandler("asana_import", handleAsanaImport, 1);
   registerHandler("csv_import", handleCsvImport, 1);
   registerHandler("bulk_tasks_import", handleBulkTasksImport, 2);
   registerHandler("ai_generation", handleAiGeneration, 3);
   registerHandler("data_retention", handleDataRetention, 1);
+  registerHandler(RECURRING_TASK_JOB_TYPE, handleRecurringTask, 2);
+  registerHandler(WEBHOOK_DELIVERY_JOB_TYPE, handleWebhookDelivery, 4, { retryDelayMs: webhookRetryDelayMs });
+  registerHandler(REMINDER_JOB_TYPE, handleReminder, 4);
+  registerHandler(SYNC_JOB_TYPE, handleTaskSync, 2);
+  registerHandler(PRIVACY_JOB_TYPE, handleDataSubjectRequest, 1);
 
   console.log("[jobs] All job handlers registered");
 }
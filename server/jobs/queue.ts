@@ -23,9 +23,15 @@ export interface JobContext {
   isCancelled: () => Promise<boolean>;
 }
 
+export interface HandlerOptions {
+  /** Delay before retrying a failed attempt (1-based). Without it, retries run on the next poll. */
+  retryDelayMs?: (attempt: number) => number;
+}
+
 interface HandlerRegistration {
   handler: JobHandler;
   concurrency: number;
+  options: HandlerOptions;
 }
 
 const handlers = new Map<string, HandlerRegistration>();
@@ -36,8 +42,8 @@ const POLL_INTERVAL_MS = 3000;
 const LOCK_TIMEOUT_MS = 30 * 60 * 1000;
 const INSTANCE_ID = randomUUID().slice(0, 8);
 
-export function registerHandler(type: string, handler: JobHandler, concurrency = 1): void {
-  handlers.set(type, { handler, concurrency });
+export function registerHandler(type: string, handler: JobHandler, concurrency = 1, options: HandlerOptions = {}): void {
+  handlers.set(type, { handler, concurrency, options });
   runningCounts.set(type, 0);
 }
 
@@ -47,8 +53,9 @@ export async function enqueueJob(options: {
   type: string;
   payload: any;
   maxAttempts?: number;
+  runAfter?: Date;
 }): Promise<string> {
-  const { tenantId, userId, type, payload, maxAttempts = 1 } = options;
+  const { tenantId, userId, type, payload, maxAttempts = 1, runAfter } = options;
 
   if (!handlers.has(type)) {
     throw new Error(`No handler registered for job type: ${type}`);
@@ -61,11 +68,14 @@ export async function enqueueJob(options: {
     status: BackgroundJobStatus.PENDING,
     payload,
     maxAttempts,
+    runAfter: runAfter ?? null,
   }).returning({ id: backgroundJobs.id });
 
-  console.log(`[jobs] Enqueued job ${job.id} type=${type} tenant=${tenantId}`);
+  console.log(`[jobs] Enqueued job ${job.id} type=${type} tenant=${tenantId}${runAfter ? ` runAfter=${runAfter.toISOString()}` : ""}`);
 
-  setImmediate(() => pollOnce().catch(() => {}));
+  if (!runAfter || runAfter <= new Date()) {
+    setImmediate(() => pollOnce().catch(() => {}));
+  }
 
   return job.id;
 }
@@ -159,6 +169,7 @@ async function claimSingleJob(
       SELECT id FROM ${backgroundJobs}
       WHERE type = ${type}
         AND status = ${status}
+        AND (run_after IS NULL OR run_after <= ${now})
         ${lockCondition}
       ORDER BY created_at ASC
       LIMIT 1
@@ -237,6 +248,9 @@ async function executeJob(job: any): Promise<void> {
     console.error(`[jobs] Job ${job.id} failed: ${errorMsg}`);
 
     const shouldRetry = job.attempts < job.maxAttempts;
+    const retryAfter = shouldRetry && reg.options.retryDelayMs
+      ? new Date(Date.now() + reg.options.retryDelayMs(job.attempts))
+      : null;
 
     await db.update(backgroundJobs).set({
       status: shouldRetry ? BackgroundJobStatus.PENDING : BackgroundJobStatus.FAILED,
@@ -244,10 +258,11 @@ async function executeJob(job: any): Promise<void> {
       lockedAt: null,
       completedAt: shouldRetry ? null : new Date(),
       updatedAt: new Date(),
+      ...(retryAfter ? { runAfter: retryAfter } : {}),
     }).where(eq(backgroundJobs.id, job.id));
 
     if (shouldRetry) {
-      console.log(`[jobs] Job ${job.id} will retry (attempt ${job.attempts}/${job.maxAttempts})`);
+      console.log(`[jobs] Job ${job.id} will retry (attempt ${job.attempts}/${job.maxAttempts})${retryAfter ? ` after ${retryAfter.toISOString()}` : ""}`);
     }
   } finally {
     const count = runningCounts.get(job.type) || 0;
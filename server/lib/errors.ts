@@ -23,6 +23,7 @@
  * - CONFLICT: Resource state conflict (409)
  * - TENANT_REQUIRED: Tenant context missing (400/403)
  * - AGREEMENT_REQUIRED: Agreement acceptance needed (451)
+ * - TWO_FACTOR_REQUIRED: Session must complete 2FA enrollment or verification (403)
  * - TENANCY_VIOLATION: Cross-tenant access attempt (403)
  * - RATE_LIMITED: Too many requests (429)
  * - INTERNAL_ERROR: Server error (500)
@@ -46,6 +47,7 @@ export type ErrorCode =
   | "TENANCY_VIOLATION"
   | "TENANT_REQUIRED"
   | "AGREEMENT_REQUIRED"
+  | "TWO_FACTOR_REQUIRED"
   | "RATE_LIMITED";
 
 /**
@@ -106,6 +108,10 @@ export class AppError extends Error {
     return new AppError(451, "AGREEMENT_REQUIRED", message, { redirectTo });
   }
 
+  static twoFactorRequired(message = "Two-factor authentication required", gate: "enroll" | "verify" = "verify"): AppError {
+    return new AppError(403, "TWO_FACTOR_REQUIRED", message, { gate });
+  }
+
   static rateLimited(message = "Too many requests"): AppError {
     return new AppError(429, "RATE_LIMITED", message);
   }
@@ -1,6 +1,6 @@
 import { db } from "../db";
 import { tasks, taskAccess, projectAccess, projects } from "@shared/schema";
-import { eq, and, or, sql, inArray, ne, SQL } from "drizzle-orm";
+import { eq, and, or, sql, inArray, ne, isNull, SQL } from "drizzle-orm";
 import { config } from "../config";
 
 export function taskVisibilityFilter(userId: string, tenantId: string): SQL {
@@ -62,6 +62,20 @@ export async function canViewProject(tenantId: string, projectId: string, userId
   return !!access;
 }
 
+/**
+ * Tasks a user may see in cross-project lists: their tenant's tasks minus other people's
+ * personal tasks, private tasks they cannot open and tasks in hidden projects.
+ * The query must LEFT JOIN projects on tasks.project_id.
+ */
+export function visibleTaskFilter(userId: string, tenantId: string): SQL {
+  return and(
+    eq(tasks.tenantId, tenantId),
+    or(eq(tasks.isPersonal, false), eq(tasks.createdBy, userId)),
+    taskVisibilityFilter(userId, tenantId),
+    or(isNull(tasks.projectId), projectVisibilityFilter(userId, tenantId)),
+  )!;
+}
+
 export async function canManageTaskAccess(tenantId: string, taskId: string, userId: string): Promise<boolean> {
   const [task] = await db.select({ createdBy: tasks.createdBy })
     .from(tasks).where(eq(tasks.id, taskId)).limit(1);
@@ -0,0 +1,59 @@
+/**
+ * Shared State Configuration
+ *
+ * Chooses where state that must agree across server instances lives, based on
+ * REALTIME_BACKEND (see realtime/clusterBus.ts):
+ * - "memory": everything stays in process (single instance)
+ * - "postgres": Socket.IO broadcasts, presence and typing go over LISTEN/NOTIFY,
+ *   rate-limit counters live in rate_limit_counters
+ *
+ * Call configureSharedState() once at startup, before initializeSocketIO().
+ */
+
+import { pool } from "../db";
+import { createLogger } from "./logger";
+import { getRealtimeBackend, PgNotifyClusterBus, type ClusterBus, type RealtimeBackend } from "../realtime/clusterBus";
+import { attachPresenceToCluster, detachPresenceFromCluster } from "../realtime/presence";
+import { attachTypingToCluster, detachTypingFromCluster } from "../realtime/typing";
+import { setRateLimitStore } from "../middleware/rateLimit";
+import { PostgresRateLimitStore } from "../middleware/rateLimitPostgresStore";
+
+const sharedStateLog = createLogger("shared-state");
+
+export interface SharedState {
+  backend: RealtimeBackend;
+  /** Null for the single-instance memory backend. */
+  bus: ClusterBus | null;
+  close(): Promise<void>;
+}
+
+export function configureSharedState(): SharedState {
+  const backend = getRealtimeBackend();
+  if (backend === "memory") {
+    return { backend, bus: null, close: async () => {} };
+  }
+
+  const bus = new PgNotifyClusterBus(pool, {
+    connectionString: process.env.DATABASE_URL,
+    ssl: process.env.NODE_ENV === "production" ? { rejectUnauthorized: false } : false,
+  });
+  void bus.start();
+
+  attachPresenceToCluster(bus);
+  attachTypingToCluster(bus);
+  const rateLimitStore = new PostgresRateLimitStore();
+  setRateLimitStore(rateLimitStore);
+
+  sharedStateLog.info("Shared state configured", { backend, nodeId: bus.nodeId });
+
+  return {
+    backend,
+    bus,
+    async close() {
+      await detachPresenceFromCluster();
+      detachTypingFromCluster();
+      rateLimitStore.destroy();
+      await bus.close();
+    },
+  };
+}
@@ -1,3 +1,7 @@
+/**
+ * Per-instance read-through cache of each tenant's default workspace.
+ * Entries expire after WORKSPACE_CACHE_TTL, so instances converge without invalidation.
+ */
 import { db } from "../db";
 import { eq, and } from "drizzle-orm";
 import { workspaces } from "@shared/schema";
@@ -11,17 +11,22 @@
  * - All rate limit events are logged via structured logger
  * 
  * Architecture:
- * - RateLimitStore interface enables pluggable backends (in-memory default, Redis future)
+ * - RateLimitStore interface enables pluggable backends: InMemoryRateLimitStore (default)
+ *   and PostgresRateLimitStore (REALTIME_BACKEND=postgres, shared by all instances)
+ * - Both the per-IP limiters (via SharedRateLimitStore) and the per-email limiters
+ *   count in the active store
  * - InMemoryRateLimitStore handles cleanup via periodic sweep
  * - Tenant ID is extracted from req.user when available for scoped rate limits
  * 
  * Sharp Edges:
- * - Uses in-memory store; limits reset on server restart
+ * - The in-memory store is per process; limits reset on restart and are not shared
+ *   between instances
+ * - Store errors fail open: the request is let through and the error logged
  * - Set RATE_LIMIT_DEV_ENABLED=true to test rate limiting in development
  * - To use a custom store, call setRateLimitStore() before server starts
  */
 
-import rateLimit from "express-rate-limit";
+import rateLimit, { type Options as RateLimitOptions, type Store as ExpressRateLimitStore } from "express-rate-limit";
 import { Request, Response, NextFunction } from "express";
 import { createLogger, ctxFromReq } from "../lib/logger";
 
@@ -33,11 +38,11 @@ export interface RateLimitEntry {
 }
 
 export interface RateLimitStore {
-  get(key: string): RateLimitEntry | undefined;
-  set(key: string, entry: RateLimitEntry): void;
-  delete(key: string): void;
-  clear(): void;
-  cleanup(): void;
+  /** Count a hit for key, starting a new window of windowMs when none is running. */
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+  decrement(key: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
 }
 
 export class InMemoryRateLimitStore implements RateLimitStore {
@@ -51,19 +56,28 @@ export class InMemoryRateLimitStore implements RateLimitStore {
     }
   }
 
-  get(key: string): RateLimitEntry | undefined {
-    return this.store.get(key);
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const now = Date.now();
+    const entry = this.store.get(key);
+    if (!entry || entry.resetAt <= now) {
+      const fresh = { count: 1, resetAt: now + windowMs };
+      this.store.set(key, fresh);
+      return { ...fresh };
+    }
+    entry.count++;
+    return { ...entry };
   }
 
-  set(key: string, entry: RateLimitEntry): void {
-    this.store.set(key, entry);
+  async decrement(key: string): Promise<void> {
+    const entry = this.store.get(key);
+    if (entry && entry.count > 0) entry.count--;
   }
 
-  delete(key: string): void {
+  async delete(key: string): Promise<void> {
     this.store.delete(key);
   }
 
-  clear(): void {
+  async clear(): Promise<void> {
     this.store.clear();
   }
 
@@ -89,7 +103,7 @@ export class InMemoryRateLimitStore implements RateLimitStore {
 let activeStore: RateLimitStore = new InMemoryRateLimitStore();
 
 export function setRateLimitStore(store: RateLimitStore): void {
-  activeStore.clear();
+  void activeStore.clear();
   activeStore = store;
 }
 
@@ -97,6 +111,41 @@ export function getRateLimitStore(): RateLimitStore {
   return activeStore;
 }
 
+/**
+ * express-rate-limit store counting in the active RateLimitStore, looked up per
+ * request so that setRateLimitStore() also applies to limiters created earlier.
+ */
+export class SharedRateLimitStore implements ExpressRateLimitStore {
+  private windowMs = 60000;
+
+  constructor(readonly prefix: string) {}
+
+  init(options: RateLimitOptions): void {
+    this.windowMs = options.windowMs;
+  }
+
+  async increment(key: string) {
+    const entry = await activeStore.increment(this.storeKey(key), this.windowMs);
+    return { totalHits: entry.count, resetTime: new Date(entry.resetAt) };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await activeStore.decrement(this.storeKey(key));
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await activeStore.delete(this.storeKey(key));
+  }
+
+  private storeKey(key: string): string {
+    return `ip:${this.prefix}:${key}`;
+  }
+}
+
+function sharedStoreOptions(prefix: string): Pick<RateLimitOptions, "store" | "passOnStoreError"> {
+  return { store: new SharedRateLimitStore(prefix), passOnStoreError: true };
+}
+
 const RATE_LIMIT_LOGIN_WINDOW_MS = parseInt(process.env.RATE_LIMIT_LOGIN_WINDOW_MS || "60000", 10);
 const RATE_LIMIT_LOGIN_MAX_IP = parseInt(process.env.RATE_LIMIT_LOGIN_MAX_IP || "10", 10);
 const RATE_LIMIT_LOGIN_MAX_EMAIL = parseInt(process.env.RATE_LIMIT_LOGIN_MAX_EMAIL || "5", 10);
@@ -107,6 +156,12 @@ const RATE_LIMIT_BOOTSTRAP_MAX_IP = parseInt(process.env.RATE_LIMIT_BOOTSTRAP_MA
 const RATE_LIMIT_INVITE_WINDOW_MS = parseInt(process.env.RATE_LIMIT_INVITE_WINDOW_MS || "60000", 10);
 const RATE_LIMIT_INVITE_MAX_IP = parseInt(process.env.RATE_LIMIT_INVITE_MAX_IP || "10", 10);
 
+const RATE_LIMIT_TWO_FACTOR_WINDOW_MS = parseInt(process.env.RATE_LIMIT_TWO_FACTOR_WINDOW_MS || "60000", 10);
+const RATE_LIMIT_TWO_FACTOR_MAX_IP = parseInt(process.env.RATE_LIMIT_TWO_FACTOR_MAX_IP || "10", 10);
+
+const RATE_LIMIT_SSO_WINDOW_MS = parseInt(process.env.RATE_LIMIT_SSO_WINDOW_MS || "60000", 10);
+const RATE_LIMIT_SSO_MAX_IP = parseInt(process.env.RATE_LIMIT_SSO_MAX_IP || "30", 10);
+
 const RATE_LIMIT_FORGOT_PASSWORD_WINDOW_MS = parseInt(process.env.RATE_LIMIT_FORGOT_PASSWORD_WINDOW_MS || "60000", 10);
 const RATE_LIMIT_FORGOT_PASSWORD_MAX_IP = parseInt(process.env.RATE_LIMIT_FORGOT_PASSWORD_MAX_IP || "5", 10);
 const RATE_LIMIT_FORGOT_PASSWORD_MAX_EMAIL = parseInt(process.env.RATE_LIMIT_FORGOT_PASSWORD_MAX_EMAIL || "3", 10);
@@ -165,44 +220,25 @@ function rateLimitHandler(limiterName: string, message: string) {
   };
 }
 
-const emailStore = new Map<string, RateLimitEntry>();
-
-function cleanupExpiredEntries(): void {
-  const now = Date.now();
-  emailStore.forEach((entry, key) => {
-    if (entry.resetAt <= now) {
-      emailStore.delete(key);
-    }
-  });
-}
-
-setInterval(cleanupExpiredEntries, 60000);
-
-function checkEmailRateLimit(
+async function checkEmailRateLimit(
   email: string,
   maxRequests: number,
   windowMs: number,
   keyPrefix: string,
   req?: Request
-): { allowed: boolean; remaining: number; resetAt: number } {
-  const now = Date.now();
+): Promise<{ allowed: boolean; remaining: number; resetAt: number }> {
   const key = buildScopedKey(keyPrefix, email, req);
-  const entry = activeStore.get(key) || emailStore.get(`${keyPrefix}:${email}`);
-
-  if (!entry || entry.resetAt <= now) {
-    const resetAt = now + windowMs;
-    const newEntry = { count: 1, resetAt };
-    activeStore.set(key, newEntry);
-    emailStore.set(`${keyPrefix}:${email}`, newEntry);
-    return { allowed: true, remaining: maxRequests - 1, resetAt };
-  }
-
-  if (entry.count >= maxRequests) {
-    return { allowed: false, remaining: 0, resetAt: entry.resetAt };
+  try {
+    const entry = await activeStore.increment(key, windowMs);
+    return {
+      allowed: entry.count <= maxRequests,
+      remaining: Math.max(0, maxRequests - entry.count),
+      resetAt: entry.resetAt,
+    };
+  } catch (err) {
+    rlLog.error("Rate limit store failed, allowing request", { limiter: `${keyPrefix}:email`, error: String(err) });
+    return { allowed: true, remaining: maxRequests, resetAt: Date.now() + windowMs };
   }
-
-  entry.count++;
-  return { allowed: true, remaining: maxRequests - entry.count, resetAt: entry.resetAt };
 }
 
 function createEmailRateLimiter(
@@ -210,14 +246,14 @@ function createEmailRateLimiter(
   windowMs: number,
   keyPrefix: string
 ) {
-  return (req: Request, res: Response, next: NextFunction) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
     if (shouldSkipRateLimit()) return next();
     if (maxRequestsPerEmail <= 0) return next();
     
     const email = req.body?.email?.toLowerCase?.();
     if (!email) return next();
 
-    const emailCheck = checkEmailRateLimit(email, maxRequestsPerEmail, windowMs, keyPrefix, req);
+    const emailCheck = await checkEmailRateLimit(email, maxRequestsPerEmail, windowMs, keyPrefix, req);
     
     if (!emailCheck.allowed) {
       const requestId = getReqId(req);
@@ -251,6 +287,7 @@ function createCombinedRateLimiter(
   keyPrefix: string
 ) {
   const ipLimiter = rateLimit({
+    ...sharedStoreOptions(keyPrefix),
     windowMs,
     max: maxRequestsPerIP,
     standardHeaders: true,
@@ -278,6 +315,7 @@ export const loginRateLimiter = createCombinedRateLimiter(
 );
 
 export const bootstrapRateLimiter = rateLimit({
+  ...sharedStoreOptions("bootstrap"),
   windowMs: RATE_LIMIT_BOOTSTRAP_WINDOW_MS,
   max: RATE_LIMIT_BOOTSTRAP_MAX_IP,
   standardHeaders: true,
@@ -287,6 +325,7 @@ export const bootstrapRateLimiter = rateLimit({
 });
 
 export const inviteAcceptRateLimiter = rateLimit({
+  ...sharedStoreOptions("invite-accept"),
   windowMs: RATE_LIMIT_INVITE_WINDOW_MS,
   max: RATE_LIMIT_INVITE_MAX_IP,
   standardHeaders: true,
@@ -295,6 +334,26 @@ export const inviteAcceptRateLimiter = rateLimit({
   handler: rateLimitHandler("invite-accept", "Too many invite acceptance attempts. Please try again later."),
 });
 
+export const twoFactorRateLimiter = rateLimit({
+  ...sharedStoreOptions("two-factor"),
+  windowMs: RATE_LIMIT_TWO_FACTOR_WINDOW_MS,
+  max: RATE_LIMIT_TWO_FACTOR_MAX_IP,
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: shouldSkipRateLimit,
+  handler: rateLimitHandler("two-factor", "Too many authentication code attempts. Please try again later."),
+});
+
+export const ssoRateLimiter = rateLimit({
+  ...sharedStoreOptions("sso"),
+  windowMs: RATE_LIMIT_SSO_WINDOW_MS,
+  max: RATE_LIMIT_SSO_MAX_IP,
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: shouldSkipRateLimit,
+  handler: rateLimitHandler("sso", "Too many single sign-on requests. Please try again later."),
+});
+
 export const forgotPasswordRateLimiter = createCombinedRateLimiter(
   RATE_LIMIT_FORGOT_PASSWORD_WINDOW_MS,
   RATE_LIMIT_FORGOT_PASSWORD_MAX_IP,
@@ -303,6 +362,7 @@ export const forgotPasswordRateLimiter = createCombinedRateLimiter(
 );
 
 export const uploadRateLimiter = rateLimit({
+  ...sharedStoreOptions("upload"),
   windowMs: RATE_LIMIT_UPLOAD_WINDOW_MS,
   max: RATE_LIMIT_UPLOAD_MAX_IP,
   standardHeaders: true,
@@ -315,6 +375,7 @@ const RATE_LIMIT_INVITE_CREATE_WINDOW_MS = parseInt(process.env.RATE_LIMIT_INVIT
 const RATE_LIMIT_INVITE_CREATE_MAX_IP = parseInt(process.env.RATE_LIMIT_INVITE_CREATE_MAX_IP || "20", 10);
 
 export const inviteCreateRateLimiter = rateLimit({
+  ...sharedStoreOptions("invite-create"),
   windowMs: RATE_LIMIT_INVITE_CREATE_WINDOW_MS,
   max: RATE_LIMIT_INVITE_CREATE_MAX_IP,
   standardHeaders: true,
@@ -327,6 +388,7 @@ const RATE_LIMIT_USER_CREATE_WINDOW_MS = parseInt(process.env.RATE_LIMIT_USER_CR
 const RATE_LIMIT_USER_CREATE_MAX_IP = parseInt(process.env.RATE_LIMIT_USER_CREATE_MAX_IP || "10", 10);
 
 export const userCreateRateLimiter = rateLimit({
+  ...sharedStoreOptions("user-create"),
   windowMs: RATE_LIMIT_USER_CREATE_WINDOW_MS,
   max: RATE_LIMIT_USER_CREATE_MAX_IP,
   standardHeaders: true,
@@ -339,6 +401,7 @@ const RATE_LIMIT_CHAT_SEND_WINDOW_MS = parseInt(process.env.RATE_LIMIT_CHAT_SEND
 const RATE_LIMIT_CHAT_SEND_MAX_IP = parseInt(process.env.RATE_LIMIT_CHAT_SEND_MAX_IP || "30", 10);
 
 export const chatSendRateLimiter = rateLimit({
+  ...sharedStoreOptions("chat-send"),
   windowMs: RATE_LIMIT_CHAT_SEND_WINDOW_MS,
   max: RATE_LIMIT_CHAT_SEND_MAX_IP,
   standardHeaders: true,
@@ -351,6 +414,7 @@ const RATE_LIMIT_CLIENT_MSG_WINDOW_MS = parseInt(process.env.RATE_LIMIT_CLIENT_M
 const RATE_LIMIT_CLIENT_MSG_MAX_IP = parseInt(process.env.RATE_LIMIT_CLIENT_MSG_MAX_IP || "20", 10);
 
 export const clientMessageRateLimiter = rateLimit({
+  ...sharedStoreOptions("client-message"),
   windowMs: RATE_LIMIT_CLIENT_MSG_WINDOW_MS,
   max: RATE_LIMIT_CLIENT_MSG_MAX_IP,
   standardHeaders: true,
@@ -360,8 +424,7 @@ export const clientMessageRateLimiter = rateLimit({
 });
 
 export function resetRateLimitStores(): void {
-  emailStore.clear();
-  activeStore.clear();
+  void activeStore.clear();
 }
 
 export interface CreateRateLimiterOptions {
@@ -375,6 +438,7 @@ export function createRateLimiter(options: CreateRateLimiterOptions) {
   const { windowMs, maxRequestsPerIP, maxRequestsPerEmail, keyPrefix } = options;
 
   const ipLimiter = rateLimit({
+    ...sharedStoreOptions(keyPrefix),
     windowMs,
     max: maxRequestsPerIP,
     standardHeaders: true,
@@ -397,11 +461,11 @@ export function createRateLimiter(options: CreateRateLimiterOptions) {
     },
   });
 
-  const emailLimiterMw = (req: Request, res: Response, next: NextFunction) => {
+  const emailLimiterMw = async (req: Request, res: Response, next: NextFunction) => {
     if (maxRequestsPerEmail <= 0) return next();
     const email = req.body?.email?.toLowerCase?.();
     if (!email) return next();
-    const emailCheck = checkEmailRateLimit(email, maxRequestsPerEmail, windowMs, keyPrefix, req);
+    const emailCheck = await checkEmailRateLimit(email, maxRequestsPerEmail, windowMs, keyPrefix, req);
     if (!emailCheck.allowed) {
       const requestId = getReqId(req);
       const retryAfter = Math.ceil((emailCheck.resetAt - Date.now()) / 1000);
@@ -431,4 +495,3 @@ export function createRateLimiter(options: CreateRateLimiterOptions) {
   };
 }
 
-export { emailStore };
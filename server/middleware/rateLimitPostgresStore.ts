@@ -0,0 +1,72 @@
+/**
+ * Postgres Rate Limit Store
+ *
+ * Fixed-window counters in rate_limit_counters, shared by every instance.
+ * Each hit is a single upsert, so concurrent instances never lose increments.
+ * Window math uses the database clock only; resetAt is converted back to the
+ * local clock via the remaining milliseconds.
+ */
+
+import { eq, lte, sql } from "drizzle-orm";
+import { db } from "../db";
+import { rateLimitCounters } from "@shared/schema";
+import { createLogger } from "../lib/logger";
+import type { RateLimitEntry, RateLimitStore } from "./rateLimit";
+
+const storeLog = createLogger("rate-limit");
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  private cleanupInterval: ReturnType<typeof setInterval>;
+
+  constructor(cleanupIntervalMs = 60000) {
+    this.cleanupInterval = setInterval(() => {
+      this.cleanup().catch((err) => storeLog.warn("Rate limit counter cleanup failed", { error: String(err) }));
+    }, cleanupIntervalMs);
+    if (this.cleanupInterval.unref) {
+      this.cleanupInterval.unref();
+    }
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const windowEnd = sql`now() + ${windowMs} * interval '1 millisecond'`;
+    const expired = sql`${rateLimitCounters.resetAt} <= now()`;
+    const [row] = await db
+      .insert(rateLimitCounters)
+      .values({ key, hits: 1, resetAt: windowEnd })
+      .onConflictDoUpdate({
+        target: rateLimitCounters.key,
+        set: {
+          hits: sql`CASE WHEN ${expired} THEN 1 ELSE ${rateLimitCounters.hits} + 1 END`,
+          resetAt: sql`CASE WHEN ${expired} THEN excluded.reset_at ELSE ${rateLimitCounters.resetAt} END`,
+        },
+      })
+      .returning({
+        hits: rateLimitCounters.hits,
+        msLeft: sql<string>`extract(epoch from (${rateLimitCounters.resetAt} - now())) * 1000`,
+      });
+    return { count: row.hits, resetAt: Date.now() + Math.max(0, Math.round(Number(row.msLeft))) };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await db
+      .update(rateLimitCounters)
+      .set({ hits: sql`greatest(${rateLimitCounters.hits} - 1, 0)` })
+      .where(eq(rateLimitCounters.key, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await db.delete(rateLimitCounters).where(eq(rateLimitCounters.key, key));
+  }
+
+  async clear(): Promise<void> {
+    await db.delete(rateLimitCounters);
+  }
+
+  async cleanup(): Promise<void> {
+    await db.delete(rateLimitCounters).where(lte(rateLimitCounters.resetAt, sql`now()`));
+  }
+
+  destroy(): void {
+    clearInterval(this.cleanupInterval);
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Two-Factor Enforcement Middleware
+ *
+ * Blocks authenticated sessions that have not completed two-factor authentication
+ * when the user has 2FA enabled, or when their tenant or the platform requires it.
+ *
+ * ============================================================================
+ * SECURITY INVARIANTS
+ * ============================================================================
+ *
+ * 1. VERIFIED SESSIONS PASS:
+ *    Password login with 2FA never creates an authenticated session until a code,
+ *    recovery code or remembered device is accepted; that step stamps
+ *    session.twoFactorVerifiedAt. Stamped sessions are not rechecked.
+ *
+ * 2. OTHER LOGIN PATHS ARE GATED HERE:
+ *    Invite acceptance, bootstrap and SSO log users in directly. Until they verify or
+ *    enroll, every API route except /api/auth/* returns 403 TWO_FACTOR_REQUIRED
+ *    with details.gate = "enroll" | "verify".
+ *
+ * 3. POLICY CHANGES APPLY TO LIVE SESSIONS:
+ *    Unverified sessions are re-evaluated at most once a minute, so turning on a
+ *    tenant or platform requirement gates existing sessions without a re-login.
+ *
+ * 4. FAIL-CLOSED BEHAVIOR:
+ *    If the check throws, the request is blocked.
+ *
+ * 5. UNAUTHENTICATED REQUESTS AND API TOKENS:
+ *    Requests without a session user pass through; requireAuth and the public API
+ *    token authentication handle them.
+ *
+ * ============================================================================
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { AppError, sendError } from "../lib/errors";
+import { twoFactorService, type TwoFactorGate } from "../features/twoFactor/twoFactor.service";
+
+const EXEMPT_ROUTE_PATTERNS = [
+  /^\/api\/auth\//,       // Login, logout, /me and the 2FA endpoints themselves
+  /^\/api\/v1\/auth\//,   // Password reset
+];
+
+const GATE_RECHECK_MS = 60 * 1000;
+
+function isExemptRoute(path: string): boolean {
+  if (!path.startsWith("/api/")) {
+    return true;
+  }
+  return EXEMPT_ROUTE_PATTERNS.some(pattern => pattern.test(path));
+}
+
+/**
+ * Resolves what the current session still needs, caching a "nothing" answer in the
+ * session for GATE_RECHECK_MS. Also used by /api/auth/me.
+ */
+export async function getSessionTwoFactorGate(req: Request): Promise<TwoFactorGate> {
+  if (!req.user || req.session.twoFactorVerifiedAt) {
+    return null;
+  }
+  const checkedAt = req.session.twoFactorCheckedAt;
+  if (checkedAt && Date.now() - checkedAt < GATE_RECHECK_MS) {
+    return null;
+  }
+  const gate = await twoFactorService.getGate(req.user);
+  if (gate === null) {
+    req.session.twoFactorCheckedAt = Date.now();
+  }
+  return gate;
+}
+
+export async function twoFactorEnforcementGuard(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  if (isExemptRoute(req.path)) {
+    return next();
+  }
+  if (!req.isAuthenticated || !req.isAuthenticated() || !req.user) {
+    return next();
+  }
+
+  try {
+    const gate = await getSessionTwoFactorGate(req);
+    if (gate === null) {
+      return next();
+    }
+    const message = gate === "enroll"
+      ? "Set up two-factor authentication to continue."
+      : "Enter your authentication code to continue.";
+    sendError(res, AppError.twoFactorRequired(message, gate), req);
+  } catch (error) {
+    console.warn(`[2fa] Enforcement check failed for user ${req.user.id} on ${req.path} - blocking (fail-closed):`, error);
+    sendError(res, AppError.twoFactorRequired(), req);
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Socket.IO Cluster Adapter
+ *
+ * Relays broadcasts, room joins/leaves and fetchSockets() between instances over a
+ * ClusterBus, so io.to(room).emit() reaches sockets connected to any instance.
+ * Message routing, heartbeats and node tracking come from socket.io-adapter's
+ * ClusterAdapterWithHeartbeat; this module only moves its messages over the bus.
+ *
+ * Sharp Edges:
+ * - Messages travel as JSON, so binary payloads are not supported across instances
+ * - Connection state recovery is not available in cluster mode (see socket.ts)
+ */
+
+import {
+  ClusterAdapterWithHeartbeat,
+  type ClusterAdapterOptions,
+  type ClusterMessage,
+  type ClusterResponse,
+  type ServerId,
+} from "socket.io-adapter";
+import type { ClusterBus } from "./clusterBus";
+import { createLogger } from "../lib/logger";
+
+const adapterLog = createLogger("socket.io-cluster");
+
+interface BusResponse {
+  to: ServerId;
+  response: ClusterResponse;
+}
+
+class BusAdapter extends ClusterAdapterWithHeartbeat {
+  private unsubscribers: Array<() => void>;
+
+  constructor(nsp: any, private bus: ClusterBus, opts: ClusterAdapterOptions) {
+    super(nsp, opts);
+    const channel = `sio:${nsp.name}`;
+    this.unsubscribers = [
+      bus.subscribe(channel, (message: ClusterMessage) => this.onMessage(message)),
+      bus.subscribe(`${channel}:responses`, ({ to, response }: BusResponse) => {
+        if (to === this.uid) this.onResponse(response);
+      }),
+    ];
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<string> {
+    // Errors are swallowed: a failed relay must not stop delivery to local sockets
+    await this.bus.publish(`sio:${message.nsp}`, message).catch((err) => {
+      adapterLog.error("Failed to relay Socket.IO message", { type: message.type, error: String(err) });
+    });
+    return "";
+  }
+
+  protected async doPublishResponse(requesterUid: ServerId, response: ClusterResponse): Promise<void> {
+    const envelope: BusResponse = { to: requesterUid, response };
+    await this.bus.publish(`sio:${response.nsp}:responses`, envelope).catch((err) => {
+      adapterLog.error("Failed to relay Socket.IO response", { type: response.type, error: String(err) });
+    });
+  }
+
+  close(): void {
+    super.close();
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }
+}
+
+/**
+ * Adapter constructor for `new Server(http, { adapter: createClusterAdapter(bus) })`.
+ */
+export function createClusterAdapter(bus: ClusterBus, opts: ClusterAdapterOptions = {}) {
+  return function (nsp: any) {
+    return new BusAdapter(nsp, bus, opts);
+  };
+}
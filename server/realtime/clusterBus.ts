@@ -0,0 +1,266 @@
+/**
+ * Cluster Bus
+ *
+ * Pub/sub between server instances. Socket.IO broadcasts (clusterAdapter.ts), presence
+ * and typing ride on it so that several instances behind a load balancer behave as one.
+ *
+ * Backends (REALTIME_BACKEND):
+ * - "memory" (default): single instance, no bus at all
+ * - "postgres": LISTEN/NOTIFY on the application database, no extra infrastructure
+ *
+ * Anything with pub/sub (e.g. Redis) can back the cluster by implementing ClusterBus.
+ * Messages are JSON, and a bus never delivers a node's own messages back to it.
+ *
+ * Sharp Edges:
+ * - LISTEN needs a session-mode connection; it does not work through a transaction-mode pooler
+ * - NOTIFY payloads are capped at 8000 bytes, so larger messages are parked in
+ *   realtime_cluster_payloads and the notification only carries the row id
+ */
+
+import { randomUUID } from "crypto";
+import pg from "pg";
+import { createLogger } from "../lib/logger";
+
+const clusterLog = createLogger("cluster");
+
+export type RealtimeBackend = "memory" | "postgres";
+
+export type ClusterHandler = (message: any, fromNodeId: string) => void;
+
+export interface ClusterBus {
+  readonly nodeId: string;
+  publish(channel: string, message: unknown): Promise<void>;
+  subscribe(channel: string, handler: ClusterHandler): () => void;
+  close(): Promise<void>;
+}
+
+export function getRealtimeBackend(): RealtimeBackend {
+  const value = (process.env.REALTIME_BACKEND || "memory").toLowerCase();
+  if (value === "memory" || value === "postgres") return value;
+  clusterLog.warn("Unknown REALTIME_BACKEND, falling back to memory", { value });
+  return "memory";
+}
+
+abstract class BaseClusterBus implements ClusterBus {
+  readonly nodeId = randomUUID();
+  private handlers = new Map<string, Set<ClusterHandler>>();
+
+  abstract publish(channel: string, message: unknown): Promise<void>;
+
+  subscribe(channel: string, handler: ClusterHandler): () => void {
+    let channelHandlers = this.handlers.get(channel);
+    if (!channelHandlers) {
+      channelHandlers = new Set();
+      this.handlers.set(channel, channelHandlers);
+    }
+    channelHandlers.add(handler);
+    return () => {
+      channelHandlers!.delete(handler);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+  }
+
+  protected deliver(channel: string, message: unknown, fromNodeId: string): void {
+    if (fromNodeId === this.nodeId) return;
+    this.handlers.get(channel)?.forEach((handler) => {
+      try {
+        handler(message, fromNodeId);
+      } catch (err) {
+        clusterLog.error("Cluster handler failed", { channel, error: String(err) });
+      }
+    });
+  }
+}
+
+// =============================================================================
+// IN-PROCESS HUB
+// =============================================================================
+
+/**
+ * Connects buses living in one process, e.g. several Socket.IO servers in a test.
+ * Messages are JSON round-tripped and delivered asynchronously, like a real transport.
+ */
+export class LocalClusterHub {
+  private buses = new Set<LocalClusterBus>();
+
+  createBus(): ClusterBus {
+    const bus = new LocalClusterBus(this);
+    this.buses.add(bus);
+    return bus;
+  }
+
+  /** @internal */
+  send(from: LocalClusterBus, channel: string, wire: string): void {
+    setImmediate(() => {
+      this.buses.forEach((bus) => {
+        if (bus !== from) bus.receive(channel, JSON.parse(wire), from.nodeId);
+      });
+    });
+  }
+
+  /** @internal */
+  remove(bus: LocalClusterBus): void {
+    this.buses.delete(bus);
+  }
+}
+
+class LocalClusterBus extends BaseClusterBus {
+  constructor(private hub: LocalClusterHub) {
+    super();
+  }
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    this.hub.send(this, channel, JSON.stringify(message));
+  }
+
+  receive(channel: string, message: unknown, fromNodeId: string): void {
+    this.deliver(channel, message, fromNodeId);
+  }
+
+  async close(): Promise<void> {
+    this.hub.remove(this);
+    await super.close();
+  }
+}
+
+// =============================================================================
+// POSTGRES LISTEN/NOTIFY
+// =============================================================================
+
+const PG_CHANNEL = "app_cluster";
+const MAX_NOTIFY_BYTES = 7500;
+const RECONNECT_DELAY_MS = 2000;
+const PAYLOAD_SWEEP_INTERVAL_MS = 60000;
+const PAYLOAD_TTL_MINUTES = 5;
+
+interface PgEnvelope {
+  n: string;
+  c?: string;
+  d?: unknown;
+  ref?: string;
+}
+
+export class PgNotifyClusterBus extends BaseClusterBus {
+  private listener: pg.Client | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private inbox: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  /**
+   * @param pool - Shared pool used for NOTIFY and the payload table
+   * @param listenerConfig - Connection for the dedicated LISTEN client
+   */
+  constructor(private pool: pg.Pool, private listenerConfig: pg.ClientConfig) {
+    super();
+  }
+
+  /** Connect the listener; retries in the background until close(). */
+  async start(): Promise<void> {
+    if (this.closed || this.listener) return;
+
+    const client = new pg.Client(this.listenerConfig);
+    let retired = false;
+    const retire = (reason: string) => {
+      if (retired) return;
+      retired = true;
+      if (this.listener === client) this.listener = null;
+      client.removeAllListeners();
+      client.on("error", () => {});
+      client.end().catch(() => {});
+      if (this.closed) return;
+      clusterLog.warn("Cluster listener lost, reconnecting", { reason });
+      this.scheduleReconnect();
+    };
+
+    client.on("notification", (msg) => {
+      if (msg.channel !== PG_CHANNEL || !msg.payload) return;
+      const raw = msg.payload;
+      // Chained so that messages fetched from the payload table keep their order
+      this.inbox = this.inbox.then(() => this.receive(raw));
+    });
+    client.on("error", (err) => retire(String(err)));
+    client.on("end", () => retire("connection ended"));
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${PG_CHANNEL}`);
+      this.listener = client;
+      clusterLog.info("Cluster listener connected", { nodeId: this.nodeId });
+    } catch (err) {
+      retire(String(err));
+      return;
+    }
+
+    if (!this.sweepTimer) {
+      this.sweepTimer = setInterval(() => this.sweepPayloads(), PAYLOAD_SWEEP_INTERVAL_MS);
+      this.sweepTimer.unref?.();
+    }
+  }
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    const full: PgEnvelope = { n: this.nodeId, c: channel, d: message };
+    const envelope = JSON.stringify(full);
+    if (Buffer.byteLength(envelope) <= MAX_NOTIFY_BYTES) {
+      await this.pool.query("SELECT pg_notify($1, $2)", [PG_CHANNEL, envelope]);
+      return;
+    }
+    const { rows } = await this.pool.query<{ id: string }>(
+      "INSERT INTO realtime_cluster_payloads (payload) VALUES ($1) RETURNING id",
+      [envelope],
+    );
+    const pointer: PgEnvelope = { n: this.nodeId, ref: rows[0].id };
+    await this.pool.query("SELECT pg_notify($1, $2)", [PG_CHANNEL, JSON.stringify(pointer)]);
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.reconnectTimer = null;
+    this.sweepTimer = null;
+    const client = this.listener;
+    this.listener = null;
+    if (client) {
+      client.removeAllListeners();
+      client.on("error", () => {});
+      await client.end().catch(() => {});
+    }
+    await super.close();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || this.closed) return;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.start();
+    }, RECONNECT_DELAY_MS);
+  }
+
+  private async receive(raw: string): Promise<void> {
+    try {
+      let envelope = JSON.parse(raw) as PgEnvelope;
+      if (envelope.n === this.nodeId) return;
+      if (envelope.ref) {
+        const { rows } = await this.pool.query<{ payload: string }>(
+          "SELECT payload FROM realtime_cluster_payloads WHERE id = $1",
+          [envelope.ref],
+        );
+        if (!rows[0]) return;
+        envelope = JSON.parse(rows[0].payload) as PgEnvelope;
+      }
+      if (envelope.c) this.deliver(envelope.c, envelope.d, envelope.n);
+    } catch (err) {
+      clusterLog.error("Dropped unreadable cluster message", { error: String(err) });
+    }
+  }
+
+  private sweepPayloads(): void {
+    this.pool
+      .query(`DELETE FROM realtime_cluster_payloads WHERE created_at < now() - interval '${PAYLOAD_TTL_MINUTES} minutes'`)
+      .catch((err) => clusterLog.warn("Cluster payload sweep failed", { error: String(err) }));
+  }
+}
@@ -543,6 +543,8 @@ import {
   NotificationAllReadPayload,
   NotificationDeletedPayload,
   NotificationPayload,
+  REMINDER_EVENTS,
+  ReminderDuePayload,
 } from '@shared/events';
 import { emitToUser } from './socket';
 
@@ -581,3 +583,11 @@ export function emitNotificationDeleted(userId: string, notificationId: string):
   emitToUser(userId, NOTIFICATION_EVENTS.DELETED, payload);
   log(`Emitted ${NOTIFICATION_EVENTS.DELETED} for notification ${notificationId}`, 'events');
 }
+
+/**
+ * Emit when one of the user's reminders fires.
+ */
+export function emitReminderDue(userId: string, payload: ReminderDuePayload): void {
+  emitToUser(userId, REMINDER_EVENTS.DUE, payload);
+  log(`Emitted ${REMINDER_EVENTS.DUE} for reminder ${payload.reminderId}`, 'events');
+}
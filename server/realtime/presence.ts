@@ -16,9 +16,17 @@
  * 
  * lastSeenAt: Updated on connect, ping, disconnect
  * lastActiveAt: Updated on connect, ping, and when returning from idle
+ *
+ * Clustering (see attachPresenceToCluster):
+ * - presenceStore only holds sockets connected to this instance
+ * - Other instances' entries arrive over the cluster bus and are merged on read:
+ *   socket counts add up, timestamps take the latest, status takes the most active
+ * - Each instance re-sends a snapshot every PRESENCE_SYNC_INTERVAL_MS; an instance
+ *   silent for CLUSTER_NODE_TIMEOUT_MS is treated as gone and its users go offline
  */
 
 import { log } from '../lib/log';
+import type { ClusterBus } from './clusterBus';
 
 export type PresenceStatus = 'online' | 'idle' | 'offline';
 
@@ -34,16 +42,54 @@ export interface PresenceInfo {
 // In-memory presence store: key = `${tenantId}:${userId}`
 const presenceStore = new Map<string, PresenceInfo>();
 
+// Entries reported by other instances: nodeId -> entries by key
+interface RemoteNode {
+  heardAt: number;
+  entries: Map<string, PresenceInfo>;
+}
+const remoteNodes = new Map<string, RemoteNode>();
+
+const STATUS_RANK: Record<PresenceStatus, number> = { offline: 0, idle: 1, online: 2 };
+
 function getKey(tenantId: string, userId: string): string {
   return `${tenantId}:${userId}`;
 }
 
+/**
+ * This instance's entry merged with other instances' entries for the same user.
+ * Without remote entries the local entry is returned as is.
+ */
+function resolvePresence(key: string): PresenceInfo | null {
+  const local = presenceStore.get(key);
+  const entries: PresenceInfo[] = local ? [local] : [];
+  remoteNodes.forEach((node) => {
+    const remote = node.entries.get(key);
+    if (remote) entries.push(remote);
+  });
+  if (entries.length <= 1) return entries[0] || null;
+
+  return entries.reduce((merged, info) => ({
+    ...merged,
+    activeSocketCount: merged.activeSocketCount + info.activeSocketCount,
+    lastSeenAt: info.lastSeenAt > merged.lastSeenAt ? info.lastSeenAt : merged.lastSeenAt,
+    lastActiveAt: info.lastActiveAt > merged.lastActiveAt ? info.lastActiveAt : merged.lastActiveAt,
+    status: STATUS_RANK[info.status] > STATUS_RANK[merged.status] ? info.status : merged.status,
+  }));
+}
+
+function allPresenceKeys(): string[] {
+  const keys = new Set<string>();
+  presenceStore.forEach((_info, key) => keys.add(key));
+  remoteNodes.forEach((node) => node.entries.forEach((_info, key) => keys.add(key)));
+  return Array.from(keys);
+}
+
 /**
  * Get presence info for a user within a tenant.
  */
 export function getPresence(tenantId: string, userId: string): PresenceInfo | null {
   const key = getKey(tenantId, userId);
-  return presenceStore.get(key) || null;
+  return resolvePresence(key);
 }
 
 /**
@@ -72,28 +118,43 @@ export function getPresenceForUsers(tenantId: string, userIds: string[]): Presen
  * Get all online or idle users for a tenant (users with active sockets).
  */
 export function getOnlineUsersForTenant(tenantId: string): PresenceInfo[] {
-  const online: PresenceInfo[] = [];
-  presenceStore.forEach((info, key) => {
-    if (info.tenantId === tenantId && (info.status === 'online' || info.status === 'idle')) {
-      online.push(info);
-    }
-  });
-  return online;
+  return getAllPresenceForTenant(tenantId).filter(
+    (info) => info.status === 'online' || info.status === 'idle'
+  );
 }
 
 /**
  * Get all presence info for a tenant (online and offline).
  */
 export function getAllPresenceForTenant(tenantId: string): PresenceInfo[] {
+  const prefix = `${tenantId}:`;
   const all: PresenceInfo[] = [];
-  presenceStore.forEach((info, key) => {
-    if (info.tenantId === tenantId) {
-      all.push(info);
-    }
-  });
+  for (const key of allPresenceKeys()) {
+    if (!key.startsWith(prefix)) continue;
+    const info = resolvePresence(key);
+    if (info) all.push(info);
+  }
   return all;
 }
 
+/**
+ * Publish a local change and report the change as seen cluster-wide:
+ * statusChanged is true only when the merged status moved.
+ */
+function settleLocalChange(
+  key: string,
+  previousStatus: PresenceStatus,
+  local: PresenceInfo
+): { info: PresenceInfo; statusChanged: boolean } {
+  publishPresence({ type: 'entry', entry: serializePresence(local) });
+  const info = resolvePresence(key) || local;
+  return { info, statusChanged: info.status !== previousStatus };
+}
+
+function mergedStatus(key: string): PresenceStatus {
+  return resolvePresence(key)?.status ?? 'offline';
+}
+
 /**
  * Mark a user as connected (increment socket count).
  * Returns the updated presence info and whether status changed.
@@ -103,18 +164,17 @@ export function markConnected(
   userId: string
 ): { info: PresenceInfo; statusChanged: boolean } {
   const key = getKey(tenantId, userId);
+  const previousStatus = mergedStatus(key);
   const existing = presenceStore.get(key);
   const now = new Date();
 
   if (existing) {
-    const previousStatus = existing.status;
     existing.activeSocketCount += 1;
     existing.lastSeenAt = now;
     existing.lastActiveAt = now;
     existing.status = 'online';
-    const statusChanged = previousStatus !== 'online';
     log(`[presence] User ${userId} connected (sockets: ${existing.activeSocketCount})`, 'presence');
-    return { info: existing, statusChanged };
+    return settleLocalChange(key, previousStatus, existing);
   } else {
     const info: PresenceInfo = {
       tenantId,
@@ -126,7 +186,7 @@ export function markConnected(
     };
     presenceStore.set(key, info);
     log(`[presence] User ${userId} connected (first socket)`, 'presence');
-    return { info, statusChanged: true };
+    return settleLocalChange(key, previousStatus, info);
   }
 }
 
@@ -139,20 +199,18 @@ export function markDisconnected(
   userId: string
 ): { info: PresenceInfo; statusChanged: boolean } {
   const key = getKey(tenantId, userId);
+  const previousStatus = mergedStatus(key);
   const existing = presenceStore.get(key);
   const now = new Date();
 
   if (existing) {
-    const previousStatus = existing.status;
     existing.activeSocketCount = Math.max(0, existing.activeSocketCount - 1);
     existing.lastSeenAt = now;
-    const wentOffline = existing.activeSocketCount === 0;
-    if (wentOffline) {
+    if (existing.activeSocketCount === 0) {
       existing.status = 'offline';
     }
-    const statusChanged = wentOffline && previousStatus !== 'offline';
     log(`[presence] User ${userId} disconnected (sockets: ${existing.activeSocketCount})`, 'presence');
-    return { info: existing, statusChanged };
+    return settleLocalChange(key, previousStatus, existing);
   } else {
     // Shouldn't happen, but handle gracefully
     const info: PresenceInfo = {
@@ -164,7 +222,7 @@ export function markDisconnected(
       status: 'offline',
     };
     presenceStore.set(key, info);
-    return { info, statusChanged: false };
+    return { info: resolvePresence(key) || info, statusChanged: false };
   }
 }
 
@@ -177,19 +235,18 @@ export function recordPing(
   userId: string
 ): { info: PresenceInfo; statusChanged: boolean } {
   const key = getKey(tenantId, userId);
+  const previousStatus = mergedStatus(key);
   const existing = presenceStore.get(key);
   const now = new Date();
 
   if (existing) {
-    const previousStatus = existing.status;
     existing.lastSeenAt = now;
     existing.lastActiveAt = now;
     // If user was idle, return them to online
     if (existing.status === 'idle') {
       existing.status = 'online';
     }
-    const statusChanged = previousStatus !== existing.status;
-    return { info: existing, statusChanged };
+    return settleLocalChange(key, previousStatus, existing);
   } else {
     // User pinged without prior connect (edge case), create entry
     const info: PresenceInfo = {
@@ -201,7 +258,7 @@ export function recordPing(
       status: 'online',
     };
     presenceStore.set(key, info);
-    return { info, statusChanged: true };
+    return settleLocalChange(key, previousStatus, info);
   }
 }
 
@@ -215,13 +272,14 @@ export function setIdle(
   isIdle: boolean
 ): { info: PresenceInfo; statusChanged: boolean } {
   const key = getKey(tenantId, userId);
+  const previousStatus = mergedStatus(key);
   const existing = presenceStore.get(key);
   const now = new Date();
 
   if (!existing || existing.activeSocketCount === 0) {
-    // Can't set idle for offline user
+    // Can't set idle for a user with no sockets on this instance
     return { 
-      info: existing || {
+      info: resolvePresence(key) || {
         tenantId,
         userId,
         activeSocketCount: 0,
@@ -233,7 +291,6 @@ export function setIdle(
     };
   }
 
-  const previousStatus = existing.status;
   existing.lastSeenAt = now;
   
   if (isIdle) {
@@ -245,8 +302,7 @@ export function setIdle(
     log(`[presence] User ${userId} returned from idle`, 'presence');
   }
   
-  const statusChanged = previousStatus !== existing.status;
-  return { info: existing, statusChanged };
+  return settleLocalChange(key, previousStatus, existing);
 }
 
 /**
@@ -289,6 +345,7 @@ export function onUserOffline(callback: OfflineCallback): void {
  * Sweep the presence store and mark stale sessions as offline.
  * A session is stale if lastSeenAt is older than STALE_THRESHOLD_MS
  * and activeSocketCount is 0 (all sockets disconnected but user still "online").
+ * Instances that stopped syncing are dropped the same way.
  */
 function sweepStalePresence(): void {
   const now = Date.now();
@@ -301,12 +358,23 @@ function sweepStalePresence(): void {
     const isStale = (now - lastSeenMs) > STALE_THRESHOLD_MS;
     
     if (info.status === 'online' && isStale && info.activeSocketCount === 0) {
+      const previousStatus = mergedStatus(key);
       info.status = 'offline';
-      staleUsers.push({ tenantId: info.tenantId, userId: info.userId, info });
+      const settled = settleLocalChange(key, previousStatus, info);
+      if (settled.statusChanged) {
+        staleUsers.push({ tenantId: info.tenantId, userId: info.userId, info: settled.info });
+      }
       log(`[presence] User ${info.userId} marked offline (stale session)`, 'presence');
     }
   });
 
+  remoteNodes.forEach((node, nodeId) => {
+    if (now - node.heardAt > CLUSTER_NODE_TIMEOUT_MS) {
+      log(`[presence] Instance ${nodeId} stopped syncing, dropping its presence`, 'presence');
+      staleUsers.push(...dropRemoteNode(nodeId));
+    }
+  });
+
   // Notify callbacks for stale users
   for (const { tenantId, userId, info } of staleUsers) {
     for (const callback of offlineCallbacks) {
@@ -339,3 +407,157 @@ export function stopPresenceCleanup(): void {
     log('[presence] Stopped stale session cleanup interval', 'presence');
   }
 }
+
+// =============================================================================
+// CLUSTER SYNC
+// =============================================================================
+
+const PRESENCE_CHANNEL = 'presence';
+const PRESENCE_SYNC_INTERVAL_MS = 15000; // Snapshot (and liveness signal) to other instances
+const CLUSTER_NODE_TIMEOUT_MS = 45000; // Instance silent this long = gone
+
+interface SerializedPresence {
+  tenantId: string;
+  userId: string;
+  activeSocketCount: number;
+  status: PresenceStatus;
+  lastSeenAt: string;
+  lastActiveAt: string;
+}
+
+type PresenceClusterMessage =
+  | { type: 'hello' }
+  | { type: 'entry'; entry: SerializedPresence }
+  | { type: 'snapshot'; entries: SerializedPresence[] }
+  | { type: 'bye' };
+
+let clusterBus: ClusterBus | null = null;
+let unsubscribeCluster: (() => void) | null = null;
+let syncInterval: ReturnType<typeof setInterval> | null = null;
+
+function serializePresence(info: PresenceInfo): SerializedPresence {
+  return {
+    tenantId: info.tenantId,
+    userId: info.userId,
+    activeSocketCount: info.activeSocketCount,
+    status: info.status,
+    lastSeenAt: info.lastSeenAt.toISOString(),
+    lastActiveAt: info.lastActiveAt.toISOString(),
+  };
+}
+
+function deserializePresence(entry: SerializedPresence): PresenceInfo {
+  return {
+    ...entry,
+    lastSeenAt: new Date(entry.lastSeenAt),
+    lastActiveAt: new Date(entry.lastActiveAt),
+  };
+}
+
+function publishPresence(message: PresenceClusterMessage): void {
+  if (!clusterBus) return;
+  clusterBus.publish(PRESENCE_CHANNEL, message).catch((err) => {
+    log(`[presence] Failed to publish ${message.type} to cluster: ${err}`, 'presence');
+  });
+}
+
+function localSnapshot(): SerializedPresence[] {
+  const entries: SerializedPresence[] = [];
+  presenceStore.forEach((info) => {
+    if (info.activeSocketCount > 0) entries.push(serializePresence(info));
+  });
+  return entries;
+}
+
+function heardFrom(nodeId: string): RemoteNode {
+  let node = remoteNodes.get(nodeId);
+  if (!node) {
+    node = { heardAt: 0, entries: new Map() };
+    remoteNodes.set(nodeId, node);
+  }
+  node.heardAt = Date.now();
+  return node;
+}
+
+/** Forget an instance; returns users that went offline because of it. */
+function dropRemoteNode(nodeId: string): { tenantId: string; userId: string; info: PresenceInfo }[] {
+  const node = remoteNodes.get(nodeId);
+  if (!node) return [];
+  const before = new Map<string, PresenceStatus>();
+  node.entries.forEach((_info, key) => before.set(key, mergedStatus(key)));
+  remoteNodes.delete(nodeId);
+
+  const wentOffline: { tenantId: string; userId: string; info: PresenceInfo }[] = [];
+  node.entries.forEach((remote, key) => {
+    if (before.get(key) === 'offline' || mergedStatus(key) !== 'offline') return;
+    const info = resolvePresence(key) || { ...remote, activeSocketCount: 0, status: 'offline' as const };
+    wentOffline.push({ tenantId: remote.tenantId, userId: remote.userId, info });
+  });
+  return wentOffline;
+}
+
+function handleClusterMessage(message: PresenceClusterMessage, fromNodeId: string): void {
+  switch (message.type) {
+    case 'hello':
+      heardFrom(fromNodeId);
+      publishPresence({ type: 'snapshot', entries: localSnapshot() });
+      break;
+    case 'entry': {
+      const info = deserializePresence(message.entry);
+      heardFrom(fromNodeId).entries.set(getKey(info.tenantId, info.userId), info);
+      break;
+    }
+    case 'snapshot': {
+      const node = heardFrom(fromNodeId);
+      const reported = new Set<string>();
+      for (const entry of message.entries) {
+        const info = deserializePresence(entry);
+        const key = getKey(info.tenantId, info.userId);
+        reported.add(key);
+        node.entries.set(key, info);
+      }
+      // Connected entries missing from the snapshot lost their sockets while a message was lost
+      node.entries.forEach((info, key) => {
+        if (!reported.has(key) && info.activeSocketCount > 0) {
+          info.activeSocketCount = 0;
+          info.status = 'offline';
+        }
+      });
+      break;
+    }
+    case 'bye':
+      // A departing instance already reported its sockets disconnecting
+      remoteNodes.delete(fromNodeId);
+      break;
+  }
+}
+
+/**
+ * Share presence with other instances over the cluster bus.
+ */
+export function attachPresenceToCluster(bus: ClusterBus): void {
+  if (clusterBus) return;
+  clusterBus = bus;
+  unsubscribeCluster = bus.subscribe(PRESENCE_CHANNEL, handleClusterMessage);
+  publishPresence({ type: 'hello' });
+
+  syncInterval = setInterval(() => {
+    publishPresence({ type: 'snapshot', entries: localSnapshot() });
+  }, PRESENCE_SYNC_INTERVAL_MS);
+  syncInterval.unref?.();
+
+  log('[presence] Sharing presence over the cluster bus', 'presence');
+}
+
+export async function detachPresenceFromCluster(): Promise<void> {
+  if (!clusterBus) return;
+  const bus = clusterBus;
+  const bye: PresenceClusterMessage = { type: 'bye' };
+  await bus.publish(PRESENCE_CHANNEL, bye).catch(() => {});
+  unsubscribeCluster?.();
+  if (syncInterval) clearInterval(syncInterval);
+  clusterBus = null;
+  unsubscribeCluster = null;
+  syncInterval = null;
+  remoteNodes.clear();
+}
@@ -12,6 +12,10 @@
  * Security:
  * - Chat room joins are validated using authenticated session data
  * - User identity is extracted from session cookies, not client-supplied
+ *
+ * Clustering:
+ * - Given a cluster bus, broadcasts reach sockets on every instance (clusterAdapter.ts)
+ * - Connection state recovery is single-instance only and is off in cluster mode
  */
 
 import { Server as HttpServer, IncomingMessage } from 'http';
@@ -57,6 +61,8 @@ import {
 } from './typing';
 import { storage } from '../storage';
 import { withSocketPolicy, cleanupSocketMembershipCache, invalidateMembershipCache } from './socketPolicy';
+import type { ClusterBus } from './clusterBus';
+import { createClusterAdapter } from './clusterAdapter';
 
 // Extended socket interface with authenticated user data
 interface AuthenticatedSocket extends Socket<ClientToServerEvents, ServerToClientEvents> {
@@ -72,20 +78,28 @@ let io: Server<ClientToServerEvents, ServerToClientEvents> | null = null;
  * This should be called once during server startup.
  * 
  * @param httpServer - The HTTP server to attach Socket.IO to
+ * @param clusterBus - Bus shared with other instances, or null when running alone
  * @returns The initialized Socket.IO server instance
  */
-export function initializeSocketIO(httpServer: HttpServer): Server<ClientToServerEvents, ServerToClientEvents> {
+export function initializeSocketIO(
+  httpServer: HttpServer,
+  clusterBus: ClusterBus | null = null
+): Server<ClientToServerEvents, ServerToClientEvents> {
   io = new Server<ClientToServerEvents, ServerToClientEvents>(httpServer, {
     cors: {
       origin: '*', // In production, restrict to specific origins
       methods: ['GET', 'POST'],
       credentials: true, // Enable credentials for session cookies
     },
-    // Enable connection state recovery for brief disconnections
-    connectionStateRecovery: {
-      maxDisconnectionDuration: 2 * 60 * 1000, // 2 minutes
-      skipMiddlewares: true,
-    },
+    ...(clusterBus
+      ? { adapter: createClusterAdapter(clusterBus) }
+      : {
+          // Enable connection state recovery for brief disconnections
+          connectionStateRecovery: {
+            maxDisconnectionDuration: 2 * 60 * 1000, // 2 minutes
+            skipMiddlewares: true,
+          },
+        }),
   });
 
   // Add session middleware to Socket.IO for authentication
@@ -428,7 +442,7 @@ export function initializeSocketIO(httpServer: HttpServer): Server<ClientToServe
     }
   });
 
-  log('Socket.IO server initialized', 'socket.io');
+  log(`Socket.IO server initialized${clusterBus ? ` (cluster node ${clusterBus.nodeId})` : ''}`, 'socket.io');
   return io;
 }
 
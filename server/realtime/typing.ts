@@ -8,9 +8,12 @@
  * - Typing state auto-expires after 5 seconds without refresh
  * - State is cleaned up on disconnect
  * - Tenant-scoped and membership-validated
+ * - With a cluster bus, starts and stops are mirrored to other instances; each
+ *   instance only reports expiry for typing that started on it
  */
 
 import { log } from "../lib/log";
+import type { ClusterBus } from "./clusterBus";
 
 const TYPING_EXPIRY_MS = 5000; // 5 seconds
 
@@ -18,6 +21,10 @@ interface TypingEntry {
   userId: string;
   tenantId: string;
   expiresAt: number;
+  // Instance the typing started on; unset for this instance
+  nodeId?: string;
+  // Last time a local entry was mirrored to the cluster
+  publishedAt?: number;
 }
 
 // Map: conversationId -> Map<userId, TypingEntry>
@@ -53,12 +60,22 @@ export function startTyping(
     typingState.set(conversationId, conversationTypers);
   }
 
-  const wasTyping = conversationTypers.has(userId);
-  conversationTypers.set(userId, {
+  const previous = conversationTypers.get(userId);
+  const wasTyping = !!previous;
+  const now = Date.now();
+  const entry: TypingEntry = {
     userId,
     tenantId,
-    expiresAt: Date.now() + TYPING_EXPIRY_MS,
-  });
+    expiresAt: now + TYPING_EXPIRY_MS,
+    publishedAt: previous?.publishedAt,
+  };
+  conversationTypers.set(userId, entry);
+
+  // Refreshes are mirrored at most every half expiry so remote copies stay alive
+  if (!entry.publishedAt || now - entry.publishedAt >= TYPING_EXPIRY_MS / 2) {
+    entry.publishedAt = now;
+    publishTyping({ type: "start", conversationId, userId, tenantId });
+  }
 
   // Track which conversations this socket is typing in
   const socketConvs = socketConversations.get(socketId);
@@ -85,6 +102,9 @@ export function stopTyping(
 
   const wasTyping = conversationTypers.has(userId);
   conversationTypers.delete(userId);
+  if (wasTyping) {
+    publishTyping({ type: "stop", conversationId, userId });
+  }
 
   // Clean up empty map
   if (conversationTypers.size === 0) {
@@ -132,7 +152,10 @@ export function cleanupExpiredTyping(): Array<{ conversationId: string; userId:
   Array.from(typingState.entries()).forEach(([conversationId, typers]) => {
     Array.from(typers.entries()).forEach(([userId, entry]) => {
       if (entry.expiresAt <= now) {
-        expired.push({ conversationId, userId, tenantId: entry.tenantId });
+        // Mirrored entries expire silently; their own instance reports them
+        if (!entry.nodeId) {
+          expired.push({ conversationId, userId, tenantId: entry.tenantId });
+        }
         typers.delete(userId);
       }
     });
@@ -167,6 +190,7 @@ export function cleanupSocketTyping(socketId: string): Array<{ conversationId: s
     if (conversationTypers && conversationTypers.has(userInfo.userId)) {
       conversationTypers.delete(userInfo.userId);
       cleaned.push({ conversationId, userId: userInfo.userId });
+      publishTyping({ type: "stop", conversationId, userId: userInfo.userId });
 
       if (conversationTypers.size === 0) {
         typingState.delete(conversationId);
@@ -236,3 +260,61 @@ export function parseConversationId(conversationId: string): { type: 'channel' |
   }
   return null;
 }
+
+// =============================================================================
+// CLUSTER MIRRORING
+// =============================================================================
+
+const TYPING_CHANNEL = "typing";
+
+type TypingClusterMessage =
+  | { type: "start"; conversationId: string; userId: string; tenantId: string }
+  | { type: "stop"; conversationId: string; userId: string };
+
+let clusterBus: ClusterBus | null = null;
+let unsubscribeCluster: (() => void) | null = null;
+
+function publishTyping(message: TypingClusterMessage): void {
+  if (!clusterBus) return;
+  clusterBus.publish(TYPING_CHANNEL, message).catch((err) => {
+    log(`[typing] Failed to publish ${message.type} to cluster: ${err}`, "typing");
+  });
+}
+
+function handleClusterMessage(message: TypingClusterMessage, fromNodeId: string): void {
+  let conversationTypers = typingState.get(message.conversationId);
+
+  if (message.type === "stop") {
+    if (!conversationTypers) return;
+    conversationTypers.delete(message.userId);
+    if (conversationTypers.size === 0) typingState.delete(message.conversationId);
+    return;
+  }
+
+  if (!conversationTypers) {
+    conversationTypers = new Map();
+    typingState.set(message.conversationId, conversationTypers);
+  }
+  conversationTypers.set(message.userId, {
+    userId: message.userId,
+    tenantId: message.tenantId,
+    expiresAt: Date.now() + TYPING_EXPIRY_MS,
+    nodeId: fromNodeId,
+  });
+}
+
+/**
+ * Mirror typing state to and from other instances over the cluster bus.
+ */
+export function attachTypingToCluster(bus: ClusterBus): void {
+  if (clusterBus) return;
+  clusterBus = bus;
+  unsubscribeCluster = bus.subscribe(TYPING_CHANNEL, handleClusterMessage);
+  log("[typing] Mirroring typing state over the cluster bus", "typing");
+}
+
+export function detachTypingFromCluster(): void {
+  unsubscribeCluster?.();
+  clusterBus = null;
+  unsubscribeCluster = null;
+}
@@ -1,6 +1,7 @@
 import { db } from "../db";
 import { sql } from "drizzle-orm";
 import { calculateClientHealth } from "./health/calculateClientHealth";
+import { taskIsDone, taskIsOpen } from "./taskStatusSql";
 
 function toRows<T>(result: unknown): T[] {
   if (Array.isArray(result)) return result as T[];
@@ -59,9 +60,9 @@ export async function getClientProfileReport({
   }>(sql`
     SELECT
       COUNT(DISTINCT CASE WHEN p.status = 'active' THEN p.id END) AS active_projects,
-      COUNT(DISTINCT CASE WHEN t.status NOT IN ('done', 'cancelled') THEN t.id END) AS open_tasks,
-      COUNT(DISTINCT CASE WHEN t.status NOT IN ('done', 'cancelled') AND t.due_date < NOW() THEN t.id END) AS overdue_tasks,
-      COUNT(DISTINCT CASE WHEN t.status = 'done' AND t.updated_at BETWEEN ${startDate} AND ${endDate} THEN t.id END) AS completed_in_range,
+      COUNT(DISTINCT CASE WHEN ${taskIsOpen()} THEN t.id END) AS open_tasks,
+      COUNT(DISTINCT CASE WHEN ${taskIsOpen()} AND t.due_date < NOW() THEN t.id END) AS overdue_tasks,
+      COUNT(DISTINCT CASE WHEN ${taskIsDone()} AND t.completed_at BETWEEN ${startDate} AND ${endDate} THEN t.id END) AS completed_in_range,
       COALESCE(SUM(CASE WHEN te.start_time BETWEEN ${startDate} AND ${endDate} THEN te.duration_seconds ELSE 0 END), 0) AS total_seconds,
       GREATEST(MAX(t.updated_at), MAX(te.start_time)) AS last_activity_date
     FROM clients c
@@ -96,7 +97,7 @@ export async function getClientProfileReport({
     SELECT
       COALESCE(SUM(CASE WHEN te.start_time BETWEEN ${startDate} AND ${endDate} THEN te.duration_seconds ELSE 0 END), 0) AS total_seconds,
       0 AS billable_seconds,
-      COALESCE(SUM(CASE WHEN t.status NOT IN ('done','cancelled') THEN COALESCE(t.estimate_minutes, 0) ELSE 0 END), 0) AS estimated_minutes
+      COALESCE(SUM(CASE WHEN ${taskIsOpen()} THEN COALESCE(t.estimate_minutes, 0) ELSE 0 END), 0) AS estimated_minutes
     FROM clients c
     LEFT JOIN projects p ON p.client_id = c.id AND p.tenant_id = ${tenantId}
     LEFT JOIN tasks t ON t.project_id = p.id AND t.tenant_id = ${tenantId} AND t.archived_at IS NULL
@@ -112,9 +113,9 @@ export async function getClientProfileReport({
   }>(sql`
     SELECT
       COUNT(DISTINCT t.id) AS total_tasks,
-      COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') AND t.due_date < NOW() THEN t.id END) AS overdue_count,
-      COUNT(DISTINCT CASE WHEN t.status = 'done' AND t.due_date IS NOT NULL AND t.updated_at <= t.due_date THEN t.id END) AS completed_on_time,
-      COUNT(DISTINCT CASE WHEN t.status = 'done' AND t.due_date IS NOT NULL THEN t.id END) AS total_done_with_due
+      COUNT(DISTINCT CASE WHEN ${taskIsOpen()} AND t.due_date < NOW() THEN t.id END) AS overdue_count,
+      COUNT(DISTINCT CASE WHEN ${taskIsDone()} AND t.due_date IS NOT NULL AND t.completed_at <= t.due_date THEN t.id END) AS completed_on_time,
+      COUNT(DISTINCT CASE WHEN ${taskIsDone()} AND t.due_date IS NOT NULL THEN t.id END) AS total_done_with_due
     FROM clients c
     LEFT JOIN projects p ON p.client_id = c.id AND p.tenant_id = ${tenantId}
     LEFT JOIN tasks t ON t.project_id = p.id AND t.tenant_id = ${tenantId} AND t.archived_at IS NULL
@@ -129,20 +130,20 @@ export async function getClientProfileReport({
   }>(sql`
     SELECT
       COUNT(DISTINCT CASE
-        WHEN t.status NOT IN ('done','cancelled') AND EXTRACT(days FROM NOW() - t.created_at) < 7
+        WHEN ${taskIsOpen()} AND EXTRACT(days FROM NOW() - t.created_at) < 7
         THEN t.id END) AS aging_under7,
       COUNT(DISTINCT CASE
-        WHEN t.status NOT IN ('done','cancelled')
+        WHEN ${taskIsOpen()}
           AND EXTRACT(days FROM NOW() - t.created_at) >= 7
           AND EXTRACT(days FROM NOW() - t.created_at) < 14
         THEN t.id END) AS aging_7_14,
       COUNT(DISTINCT CASE
-        WHEN t.status NOT IN ('done','cancelled')
+        WHEN ${taskIsOpen()}
           AND EXTRACT(days FROM NOW() - t.created_at) >= 14
           AND EXTRACT(days FROM NOW() - t.created_at) < 30
         THEN t.id END) AS aging_14_30,
       COUNT(DISTINCT CASE
-        WHEN t.status NOT IN ('done','cancelled') AND EXTRACT(days FROM NOW() - t.created_at) >= 30
+        WHEN ${taskIsOpen()} AND EXTRACT(days FROM NOW() - t.created_at) >= 30
         THEN t.id END) AS aging_over30
     FROM clients c
     LEFT JOIN projects p ON p.client_id = c.id AND p.tenant_id = ${tenantId}
@@ -190,6 +191,40 @@ export async function getClientProfileReport({
     LIMIT 10
   `);
 
+  // Hours are summed straight from time_entries (no task join) so they line up with invoiced revenue
+  const billingHoursPromise = db.execute<{
+    worked_seconds: string;
+    billable_seconds: string;
+  }>(sql`
+    SELECT
+      COALESCE(SUM(te.duration_seconds), 0) AS worked_seconds,
+      COALESCE(SUM(CASE WHEN te.scope = 'out_of_scope' THEN te.duration_seconds ELSE 0 END), 0) AS billable_seconds
+    FROM time_entries te
+    LEFT JOIN projects p ON p.id = te.project_id
+    WHERE te.tenant_id = ${tenantId}
+      AND (te.client_id = ${clientId} OR p.client_id = ${clientId})
+      AND te.start_time BETWEEN ${startDate} AND ${endDate}
+  `);
+
+  // Issued and paid invoices whose billing period ends in range; drafts and voids are not revenue
+  const revenuePromise = db.execute<{
+    currency: string;
+    revenue_cents: string;
+    billed_seconds: string;
+  }>(sql`
+    SELECT
+      i.currency,
+      COALESCE(SUM(i.subtotal_cents), 0) AS revenue_cents,
+      COALESCE(SUM(i.total_seconds), 0) AS billed_seconds
+    FROM invoices i
+    WHERE i.tenant_id = ${tenantId}
+      AND i.client_id = ${clientId}
+      AND i.status IN ('issued', 'paid')
+      AND i.period_end BETWEEN ${startDate} AND ${endDate}
+    GROUP BY i.currency
+    ORDER BY revenue_cents DESC
+  `);
+
   const healthPromise = calculateClientHealth({
     tenantId,
     startDate,
@@ -209,6 +244,8 @@ export async function getClientProfileReport({
     breakdownStatus,
     breakdownPriority,
     topProjectsResult,
+    billingHoursResult,
+    revenueResult,
     healthResult,
   ] = await Promise.all([
     clientInfoPromise,
@@ -220,6 +257,8 @@ export async function getClientProfileReport({
     breakdownStatusPromise,
     breakdownPriorityPromise,
     topProjectsPromise,
+    billingHoursPromise,
+    revenuePromise,
     healthPromise,
   ]);
 
@@ -235,10 +274,19 @@ export async function getClientProfileReport({
   const statusRows = toRows<any>(breakdownStatus);
   const priorityRows = toRows<any>(breakdownPriority);
   const projectRows = toRows<any>(topProjectsResult);
+  const billingHours = toRows<any>(billingHoursResult)[0];
+  const revenueRows = toRows<any>(revenueResult);
   const health = healthResult.results[0];
 
   const totalHours = Math.round(Number(time.total_seconds) / 3600 * 10) / 10;
-  const billableHours = Math.round(Number(time.billable_seconds) / 3600 * 10) / 10;
+  const billableHours = Math.round(Number(billingHours?.billable_seconds ?? time.billable_seconds) / 3600 * 10) / 10;
+
+  // Revenue is reported in the client's main invoicing currency; other currencies are listed separately
+  const workedHours = Number(billingHours?.worked_seconds ?? 0) / 3600;
+  const primaryRevenue = revenueRows[0];
+  const revenue = primaryRevenue ? Number(primaryRevenue.revenue_cents) / 100 : 0;
+  const billedHours = primaryRevenue ? Math.round(Number(primaryRevenue.billed_seconds) / 3600 * 10) / 10 : 0;
+  const realizedRate = workedHours > 0 ? Math.round((revenue / workedHours) * 100) / 100 : null;
   const estimatedHours = Math.round(Number(time.estimated_minutes) / 60 * 10) / 10;
 
   const openTasks = Number(overview.open_tasks);
@@ -334,6 +382,14 @@ export async function getClientProfileReport({
       nonBillableHours: Math.round((totalHours - billableHours) * 10) / 10,
       estimatedHours,
       variance: Math.round((totalHours - estimatedHours) * 10) / 10,
+      revenue,
+      revenueCurrency: primaryRevenue?.currency ?? null,
+      billedHours,
+      realizedRate,
+      otherCurrencyRevenue: revenueRows.slice(1).map((r: any) => ({
+        currency: r.currency,
+        revenue: Number(r.revenue_cents) / 100,
+      })),
     },
     sla: {
       totalTasks,
@@ -6,8 +6,8 @@
  * consistent field usage across Employee CC, Client CC, and Workload V2.
  *
  * Canonical field mapping (enforced):
- *  - Task completion  → tasks.updated_at  WHERE status = 'done'
- *    (no dedicated completed_at column exists in the current schema)
+ *  - Task completion  → tasks.completed_at  WHERE the status category is done
+ *    (see taskStatusSql; statuses are configurable per project)
  *  - Task creation    → tasks.created_at
  *  - Time entries     → time_entries.start_time
  *  - Due-date checks  → tasks.due_date
@@ -43,7 +43,7 @@ export interface ResolvedDateRange {
  * Import and reference these in V2 routers instead of bare strings.
  */
 export const DateFields = {
-  taskCompletion: "t.updated_at",
+  taskCompletion: "t.completed_at",
   taskCreation: "t.created_at",
   taskDue: "t.due_date",
   timeEntry: "te.start_time",
@@ -2,6 +2,10 @@ import { db } from "../db";
 import { sql } from "drizzle-orm";
 import { formatMinutesToHours } from "./utils";
 import { calculateEmployeePerformance } from "./performance/calculateEmployeePerformance";
+import { taskIsClosed, taskIsDone, taskIsOpen } from "./taskStatusSql";
+import { getFlowSummary, getTimeInStatus } from "./flowMetrics";
+import { computeUtilizationPct } from "./metricDefinitions";
+import { capacityService, toIsoDate } from "../features/capacity/capacity.service";
 
 function toRows<T>(result: unknown): T[] {
   if (Array.isArray(result)) return result as T[];
@@ -24,11 +28,6 @@ export async function getEmployeeProfileReport({
   startDate,
   endDate,
 }: EmployeeProfileParams) {
-  const daysInRange = Math.max(
-    Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1,
-    1
-  );
-
   // 1. Employee Info
   const employeeInfoPromise = db.execute<{
     id: string;
@@ -66,30 +65,30 @@ export async function getEmployeeProfileReport({
     avg_completion_days: string | null;
   }>(sql`
     SELECT
-      COUNT(DISTINCT CASE WHEN t.status NOT IN ('done', 'cancelled') THEN t.id END) AS active_tasks,
-      COUNT(DISTINCT CASE WHEN t.status NOT IN ('done', 'cancelled') AND t.due_date < NOW() THEN t.id END) AS overdue_tasks,
+      COUNT(DISTINCT CASE WHEN ${taskIsOpen()} THEN t.id END) AS active_tasks,
+      COUNT(DISTINCT CASE WHEN ${taskIsOpen()} AND t.due_date < NOW() THEN t.id END) AS overdue_tasks,
       COUNT(DISTINCT CASE 
-        WHEN t.status NOT IN ('done', 'cancelled') 
+        WHEN ${taskIsOpen()} 
         AND t.due_date > NOW() 
         AND t.due_date <= NOW() + INTERVAL '7 days' 
         THEN t.id 
       END) AS due_soon,
       COUNT(DISTINCT CASE 
-        WHEN t.status NOT IN ('done', 'cancelled') 
+        WHEN ${taskIsOpen()} 
         AND t.updated_at < NOW() - INTERVAL '14 days' 
         THEN t.id 
       END) AS backlog,
       COUNT(DISTINCT CASE 
-        WHEN t.status = 'done' 
-        AND t.updated_at >= ${startDate} 
-        AND t.updated_at <= ${endDate} 
+        WHEN ${taskIsDone()} 
+        AND t.completed_at >= ${startDate} 
+        AND t.completed_at <= ${endDate} 
         THEN t.id 
       END) AS completed_in_range,
       AVG(CASE 
-        WHEN t.status = 'done' 
-        AND t.updated_at >= ${startDate} 
-        AND t.updated_at <= ${endDate} 
-        THEN EXTRACT(days FROM (t.updated_at - t.created_at)) 
+        WHEN ${taskIsDone()} 
+        AND t.completed_at >= ${startDate} 
+        AND t.completed_at <= ${endDate} 
+        THEN EXTRACT(days FROM (t.completed_at - t.created_at)) 
       END) AS avg_completion_days
     FROM task_assignees ta
     JOIN tasks t ON t.id = ta.task_id AND t.tenant_id = ${tenantId}
@@ -113,7 +112,7 @@ export async function getEmployeeProfileReport({
         FROM task_assignees ta2
         JOIN tasks t2 ON t2.id = ta2.task_id AND t2.tenant_id = ${tenantId}
         WHERE ta2.user_id = ${employeeId} AND ta2.tenant_id = ${tenantId}
-          AND t2.status NOT IN ('done', 'cancelled')
+          AND ${taskIsOpen("t2")}
           AND t2.archived_at IS NULL
       ), 0) AS estimated_minutes
     FROM time_entries te
@@ -130,7 +129,7 @@ export async function getEmployeeProfileReport({
       date_trunc('week', gs.week)::date AS week_start,
       COALESCE(SUM(CASE
         WHEN t.due_date >= gs.week AND t.due_date < gs.week + INTERVAL '7 days'
-          AND t.status NOT IN ('done', 'cancelled')
+          AND ${taskIsOpen()}
         THEN COALESCE(t.estimate_minutes, 0) ELSE 0
       END), 0) AS planned_minutes,
       COALESCE(SUM(CASE
@@ -210,8 +209,8 @@ export async function getEmployeeProfileReport({
     WHERE ta.user_id = ${employeeId} AND ta.tenant_id = ${tenantId}
       AND t.archived_at IS NULL
     ORDER BY
-      CASE WHEN t.status IN ('done','cancelled') THEN 1 ELSE 0 END,
-      CASE WHEN t.due_date IS NOT NULL AND t.due_date < NOW() AND t.status NOT IN ('done','cancelled') THEN 0 ELSE 1 END,
+      CASE WHEN ${taskIsClosed()} THEN 1 ELSE 0 END,
+      CASE WHEN t.due_date IS NOT NULL AND t.due_date < NOW() AND ${taskIsOpen()} THEN 0 ELSE 1 END,
       t.due_date ASC NULLS LAST,
       t.updated_at DESC
     LIMIT 100
@@ -225,6 +224,11 @@ export async function getEmployeeProfileReport({
     userId: employeeId,
   });
 
+  // 8. Flow metrics (lead / cycle / time in status)
+  const flowScope = { tenantId, startDate, endDate, userId: employeeId };
+  const flowPromise = getFlowSummary(flowScope);
+  const timeInStatusPromise = getTimeInStatus(flowScope);
+
   // Wait for all
   const [
     employeeInfoResult,
@@ -236,6 +240,8 @@ export async function getEmployeeProfileReport({
     breakdownProject,
     assignedTasksResult,
     performance,
+    flow,
+    timeInStatus,
   ] = await Promise.all([
     employeeInfoPromise,
     workloadStatsPromise,
@@ -246,6 +252,8 @@ export async function getEmployeeProfileReport({
     breakdownProjectPromise,
     assignedTasksPromise,
     performancePromise,
+    flowPromise,
+    timeInStatusPromise,
   ]);
 
   const employeeRows = toRows<typeof employeeInfoResult extends (infer U)[] ? U : any>(employeeInfoResult);
@@ -276,15 +284,23 @@ export async function getEmployeeProfileReport({
   const overdueCount = Number(workload.overdue_tasks);
   const overdueRate = activeTasks > 0 ? Math.round((overdueCount / activeTasks) * 100) : 0;
 
+  const weekKey = (value: string) => toIsoDate(new Date(value));
+  const [availableHours, weeklyCapacity] = await Promise.all([
+    capacityService.availableHoursByUser(tenantId, [employeeId], startDate, endDate),
+    capacityService.weeklyHoursByUser(tenantId, [employeeId], capacityRows.map(r => weekKey(r.week_start))),
+  ]);
+
   const weeklyData = capacityRows.map(r => {
     const actHours = Math.round(Number(r.actual_seconds) / 3600 * 10) / 10;
     const planHours = Math.round(Number(r.planned_minutes) / 60 * 10) / 10;
+    const availHours = weeklyCapacity.get(employeeId)?.get(weekKey(r.week_start))?.availableHours ?? 0;
     return {
       week: r.week_start,
       plannedHours: planHours,
       actualHours: actHours,
-      utilization: Math.round((actHours / 40) * 100),
-      overAllocated: actHours > 40,
+      availableHours: availHours,
+      utilization: computeUtilizationPct(actHours, availHours) ?? 0,
+      overAllocated: actHours > availHours,
     };
   });
 
@@ -312,7 +328,7 @@ export async function getEmployeeProfileReport({
       performanceTier: perf?.performanceTier || "Stable",
       riskLevel: riskIndicators.length > 2 ? "Critical" : riskIndicators.length > 0 ? "At Risk" : "Healthy",
       utilization: perf?.rawMetrics.utilizationPct || 0,
-      capacityUsage: Math.round((totalHours / (daysInRange * 8)) * 100),
+      capacityUsage: computeUtilizationPct(totalHours, availableHours.get(employeeId) ?? 0) ?? 0,
       completionRate,
       overdueRate,
     },
@@ -324,6 +340,10 @@ export async function getEmployeeProfileReport({
       backlog: Number(workload.backlog),
       avgCompletionDays: workload.avg_completion_days ? Math.round(Number(workload.avg_completion_days) * 10) / 10 : null,
     },
+    flow: {
+      ...flow,
+      timeInStatus,
+    },
     timeTracking: {
       totalHours,
       billableHours,
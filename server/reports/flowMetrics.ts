@@ -0,0 +1,209 @@
+/**
+ * FLOW METRICS — Reporting Governance Layer
+ *
+ * Lead time, cycle time and time in status, built on tasks.completed_at and
+ * task_status_history:
+ *  - Lead time      → completed_at - created_at
+ *  - Cycle time     → completed_at - first move into an active-category status;
+ *                     tasks with no recorded start are excluded
+ *  - Time in status → hours each not-started / active status was held within the range;
+ *                     the segment before a task's first recorded change starts at created_at
+ *
+ * completed_at is null unless the task is in a done-category status, so it alone selects
+ * completed tasks. Durations are in days (lead/cycle) and hours (time in status), rounded
+ * to one decimal; averages over no tasks are null.
+ *
+ * @module server/reports/flowMetrics
+ */
+
+import { sql, type SQL } from "drizzle-orm";
+import { db } from "../db";
+import { statusCategorySql } from "./taskStatusSql";
+
+export interface FlowScope {
+  tenantId: string;
+  startDate: Date;
+  endDate: Date;
+  /** Only tasks assigned to this user. */
+  userId?: string | null;
+  projectId?: string | null;
+}
+
+export interface FlowSummary {
+  completedCount: number;
+  avgLeadTimeDays: number | null;
+  medianLeadTimeDays: number | null;
+  avgCycleTimeDays: number | null;
+  medianCycleTimeDays: number | null;
+}
+
+export interface UserFlow {
+  userId: string;
+  completedCount: number;
+  avgLeadTimeDays: number | null;
+  avgCycleTimeDays: number | null;
+}
+
+export interface TimeInStatus {
+  status: string;
+  category: string;
+  taskCount: number;
+  totalHours: number;
+  avgHours: number;
+}
+
+function toRows<T>(result: unknown): T[] {
+  if (Array.isArray(result)) return result as T[];
+  if (result && typeof result === "object" && "rows" in result) {
+    return (result as { rows: T[] }).rows;
+  }
+  return result as unknown as T[];
+}
+
+function round1(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  return Math.round(Number(value) * 10) / 10;
+}
+
+function scopeFilter({ tenantId, userId, projectId }: FlowScope): SQL {
+  return sql`
+    ${userId ? sql`AND EXISTS (
+      SELECT 1 FROM task_assignees sa WHERE sa.task_id = t.id AND sa.user_id = ${userId} AND sa.tenant_id = ${tenantId}
+    )` : sql``}
+    ${projectId ? sql`AND t.project_id = ${projectId}` : sql``}
+  `;
+}
+
+/** Days from the first move into an active status to completion, per completed task. */
+const CYCLE_START = sql`(
+  SELECT MIN(h.changed_at) FROM task_status_history h
+  WHERE h.task_id = t.id AND h.to_category = 'active' AND h.changed_at <= t.completed_at
+)`;
+
+const LEAD_DAYS = sql`EXTRACT(EPOCH FROM (t.completed_at - t.created_at)) / 86400.0`;
+const CYCLE_DAYS = sql`EXTRACT(EPOCH FROM (t.completed_at - ${CYCLE_START})) / 86400.0`;
+
+export async function getFlowSummary(scope: FlowScope): Promise<FlowSummary> {
+  const { tenantId, startDate, endDate } = scope;
+  const [row] = toRows<{
+    completed_count: string;
+    avg_lead: string | null;
+    median_lead: string | null;
+    avg_cycle: string | null;
+    median_cycle: string | null;
+  }>(await db.execute(sql`
+    SELECT
+      COUNT(*) AS completed_count,
+      AVG(lead_days) AS avg_lead,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY lead_days) AS median_lead,
+      AVG(cycle_days) AS avg_cycle,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY cycle_days) AS median_cycle
+    FROM (
+      SELECT ${LEAD_DAYS} AS lead_days, ${CYCLE_DAYS} AS cycle_days
+      FROM tasks t
+      WHERE t.tenant_id = ${tenantId}
+        AND t.completed_at >= ${startDate}
+        AND t.completed_at <= ${endDate}
+        ${scopeFilter(scope)}
+    ) done_tasks
+  `));
+  return {
+    completedCount: Number(row?.completed_count ?? 0),
+    avgLeadTimeDays: round1(row?.avg_lead),
+    medianLeadTimeDays: round1(row?.median_lead),
+    avgCycleTimeDays: round1(row?.avg_cycle),
+    medianCycleTimeDays: round1(row?.median_cycle),
+  };
+}
+
+/** Lead and cycle time per assignee, for tasks completed in the range. */
+export async function getFlowByUser(scope: Omit<FlowScope, "userId"> & { userIds?: string[] }): Promise<Map<string, UserFlow>> {
+  const { tenantId, startDate, endDate, userIds } = scope;
+  const userFilter = userIds && userIds.length > 0
+    ? sql`AND ta.user_id = ANY(ARRAY[${sql.join(userIds.map((id) => sql`${id}`), sql`, `)}]::text[])`
+    : sql``;
+  const rows = toRows<{ user_id: string; completed_count: string; avg_lead: string | null; avg_cycle: string | null }>(
+    await db.execute(sql`
+      SELECT
+        ta.user_id,
+        COUNT(DISTINCT t.id) AS completed_count,
+        AVG(${LEAD_DAYS}) AS avg_lead,
+        AVG(${CYCLE_DAYS}) AS avg_cycle
+      FROM task_assignees ta
+      JOIN tasks t ON t.id = ta.task_id AND t.tenant_id = ${tenantId}
+      WHERE ta.tenant_id = ${tenantId}
+        AND t.completed_at >= ${startDate}
+        AND t.completed_at <= ${endDate}
+        ${scope.projectId ? sql`AND t.project_id = ${scope.projectId}` : sql``}
+        ${userFilter}
+      GROUP BY ta.user_id
+    `),
+  );
+  return new Map(rows.map((r) => [r.user_id, {
+    userId: r.user_id,
+    completedCount: Number(r.completed_count),
+    avgLeadTimeDays: round1(r.avg_lead),
+    avgCycleTimeDays: round1(r.avg_cycle),
+  }]));
+}
+
+/** Hours spent in each open status within the range, longest first. */
+export async function getTimeInStatus(scope: FlowScope): Promise<TimeInStatus[]> {
+  const { tenantId, startDate, endDate } = scope;
+  const rows = toRows<{ status: string; category: string; task_count: string; total_hours: string }>(
+    await db.execute(sql`
+      WITH scoped AS (
+        SELECT t.id, t.status, t.project_id, t.created_at
+        FROM tasks t
+        WHERE t.tenant_id = ${tenantId}
+          AND t.created_at <= ${endDate}
+          AND (t.completed_at IS NULL OR t.completed_at >= ${startDate})
+          ${scopeFilter(scope)}
+      ),
+      changes AS (
+        SELECT h.task_id, h.from_status, h.to_status, h.to_category, h.changed_at,
+          ROW_NUMBER() OVER w AS rn,
+          LEAD(h.changed_at) OVER w AS next_at
+        FROM task_status_history h
+        JOIN scoped s ON s.id = h.task_id
+        WINDOW w AS (PARTITION BY h.task_id ORDER BY h.changed_at)
+      ),
+      segments AS (
+        SELECT c.task_id, c.to_status AS status, c.to_category AS category,
+          c.changed_at AS started_at, COALESCE(c.next_at, NOW()) AS ended_at
+        FROM changes c
+        UNION ALL
+        SELECT s.id, COALESCE(c.from_status, s.status),
+          ${statusCategorySql(sql.raw("COALESCE(c.from_status, s.status)"), sql.raw("s.project_id"))},
+          s.created_at, COALESCE(c.changed_at, NOW())
+        FROM scoped s
+        LEFT JOIN changes c ON c.task_id = s.id AND c.rn = 1
+        WHERE c.task_id IS NULL OR c.from_status IS NOT NULL
+      )
+      SELECT
+        status,
+        MIN(category) AS category,
+        COUNT(DISTINCT task_id) AS task_count,
+        SUM(EXTRACT(EPOCH FROM (
+          LEAST(ended_at, ${endDate}::timestamp) - GREATEST(started_at, ${startDate}::timestamp)
+        ))) / 3600.0 AS total_hours
+      FROM segments
+      WHERE started_at < ${endDate}::timestamp
+        AND ended_at > ${startDate}::timestamp
+        AND category NOT IN ('done', 'cancelled')
+      GROUP BY status
+      ORDER BY total_hours DESC
+    `),
+  );
+  return rows.map((r) => {
+    const taskCount = Number(r.task_count);
+    const totalHours = round1(r.total_hours) ?? 0;
+    return {
+      status: r.status,
+      category: r.category,
+      taskCount,
+      totalHours,
+      avgHours: taskCount > 0 ? Math.round((Number(r.total_hours) / taskCount) * 10) / 10 : 0,
+    };
+  });
+}
@@ -1,5 +1,7 @@
 import { db } from "../../db";
 import { sql } from "drizzle-orm";
+import { taskIsDone, taskIsOpen } from "../taskStatusSql";
+import { capacityService } from "../../features/capacity/capacity.service";
 
 async function dbRows<T extends Record<string, unknown>>(
   q: Parameters<typeof db.execute>[0]
@@ -145,7 +147,7 @@ export async function computeCapacityOverload(
     FROM tasks t
     JOIN task_assignees ta ON ta.task_id = t.id AND ta.tenant_id = ${tenantId}
     WHERE t.tenant_id = ${tenantId}
-      AND t.status NOT IN ('done', 'cancelled')
+      AND ${taskIsOpen()}
       AND t.due_date IS NOT NULL
       AND t.due_date BETWEEN ${isoDate(forecastStart)} AND ${isoDate(forecastEnd)}
     GROUP BY ta.user_id, date_trunc('week', t.due_date)
@@ -162,8 +164,8 @@ export async function computeCapacityOverload(
       (SELECT COUNT(DISTINCT user_id) FROM time_entries
         WHERE tenant_id = ${tenantId}
         AND start_time >= ${isoDate(historyStart)} AND start_time < ${isoDate(historyEnd)}) AS users_with_time,
-      (SELECT COUNT(*) FROM tasks WHERE tenant_id = ${tenantId} AND status NOT IN ('done','cancelled')) AS tasks_total,
-      (SELECT COUNT(*) FROM tasks WHERE tenant_id = ${tenantId} AND status NOT IN ('done','cancelled') AND estimate_minutes IS NOT NULL AND estimate_minutes > 0) AS tasks_with_estimate
+      (SELECT COUNT(*) FROM tasks WHERE tenant_id = ${tenantId} AND ${taskIsOpen("tasks")}) AS tasks_total,
+      (SELECT COUNT(*) FROM tasks WHERE tenant_id = ${tenantId} AND ${taskIsOpen("tasks")} AND estimate_minutes IS NOT NULL AND estimate_minutes > 0) AS tasks_with_estimate
   `));
 
   const totalUsers = Number(countRow?.total_users ?? 0);
@@ -194,6 +196,12 @@ export async function computeCapacityOverload(
   const confidence = buildConfidence(timePct, estimatePct);
   const dataQualityFlags = buildDataQualityFlags(timePct, estimatePct, distinctHistWeeks.size);
 
+  const capacityByUser = await capacityService.weeklyHoursByUser(
+    tenantId,
+    allUsersRows.map((u) => u.user_id),
+    forecastWeeks.map(isoDate),
+  );
+
   const users = allUsersRows.map((u) => {
     const weeklyMap = userActualByWeek.get(u.user_id) ?? new Map();
     const weeklyHours = Array.from(weeklyMap.values());
@@ -204,23 +212,30 @@ export async function computeCapacityOverload(
     const weeks = forecastWeeks.map((wStart) => {
       const weekKey = isoDate(wStart);
       const dueEstimated = userDueEstByWeek.get(u.user_id)?.get(weekKey) ?? 0;
+      const { baseHours, availableHours } = capacityByUser.get(u.user_id)?.get(weekKey)
+        ?? { baseHours: 40, availableHours: 40 };
+      // Time off and holidays scale the usual pace down; work that is due still lands
+      const availabilityRatio = baseHours > 0 ? availableHours / baseHours : 0;
       const pressureFactor = Math.min(dueEstimated * 0.25, historicalAvg * 0.4);
-      const predictedHours = Math.round((historicalAvg + pressureFactor) * 10) / 10;
-      const predictedUtilizationPct = Math.round(predictedHours / 40 * 100);
+      const predictedHours = Math.round((historicalAvg * availabilityRatio + pressureFactor) * 10) / 10;
+      const predictedUtilizationPct = Math.round(predictedHours / Math.max(availableHours, 1) * 100);
       const overloadRisk: "Low" | "Medium" | "High" =
         predictedUtilizationPct >= 110 ? "High" :
         predictedUtilizationPct >= 90 ? "Medium" : "Low";
 
       const explanation: string[] = [];
       explanation.push(`Historical avg ${Math.round(historicalAvg * 10) / 10}h/wk over last 4 weeks`);
+      if (availableHours < baseHours) {
+        explanation.push(`${Math.round((baseHours - availableHours) * 10) / 10}h of holidays or time off this week`);
+      }
       if (dueEstimated > 0) explanation.push(`${Math.round(dueEstimated * 10) / 10}h of estimated work due this week`);
-      explanation.push(`Predicted: ${predictedHours}h → ${predictedUtilizationPct}% of 40h`);
+      explanation.push(`Predicted: ${predictedHours}h → ${predictedUtilizationPct}% of ${availableHours}h available`);
       if (overloadRisk === "High") explanation.push("⚠ High overload risk — over 110% capacity");
       else if (overloadRisk === "Medium") explanation.push("Approaching capacity threshold (90–110%)");
 
       return {
         weekStart: weekKey,
-        availableHours: 40,
+        availableHours,
         historicalAvgHours: Math.round(historicalAvg * 10) / 10,
         dueEstimatedHours: Math.round(dueEstimated * 10) / 10,
         predictedHours,
@@ -237,11 +252,12 @@ export async function computeCapacityOverload(
     asOfDate: asOfDate.toISOString(),
     horizonWeeks,
     confidence,
-    modelVersion: "v1.0",
+    modelVersion: "v1.1",
     dataQualityFlags,
     explanations: [
-      "Predicted hours = historical 4-week average + 25% of estimated work due that week",
-      "Overload risk: High ≥110%, Medium 90–109%, Low <90% of 40h",
+      "Predicted hours = historical 4-week average (scaled by the week's availability) + 25% of estimated work due that week",
+      "Available hours come from each user's working hours, less holidays and approved time off",
+      "Overload risk: High ≥110%, Medium 90–109%, Low <90% of available hours",
     ],
     users,
   };
@@ -293,10 +309,10 @@ export async function computeProjectDeadlineRisk(
       p.id AS project_id,
       p.name AS project_name,
       to_char(p.due_date, 'YYYY-MM-DD') AS due_date,
-      COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') THEN t.id END) AS open_task_count,
-      COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') AND t.due_date < NOW() THEN t.id END) AS overdue_count,
-      COALESCE(SUM(CASE WHEN t.status NOT IN ('done','cancelled') THEN COALESCE(t.estimate_minutes, 0) ELSE 0 END) / 60.0, 0) AS open_estimated_hours,
-      COUNT(DISTINCT CASE WHEN t.status = 'done' AND t.updated_at >= ${isoDate(historyStart)} THEN t.id END) AS completed_in_history
+      COUNT(DISTINCT CASE WHEN ${taskIsOpen()} THEN t.id END) AS open_task_count,
+      COUNT(DISTINCT CASE WHEN ${taskIsOpen()} AND t.due_date < NOW() THEN t.id END) AS overdue_count,
+      COALESCE(SUM(CASE WHEN ${taskIsOpen()} THEN COALESCE(t.estimate_minutes, 0) ELSE 0 END) / 60.0, 0) AS open_estimated_hours,
+      COUNT(DISTINCT CASE WHEN ${taskIsDone()} AND t.completed_at >= ${isoDate(historyStart)} THEN t.id END) AS completed_in_history
     FROM projects p
     LEFT JOIN tasks t ON t.project_id = p.id AND t.tenant_id = ${tenantId}
     WHERE p.tenant_id = ${tenantId}
@@ -313,7 +329,7 @@ export async function computeProjectDeadlineRisk(
       COUNT(*) AS tasks_total,
       COUNT(CASE WHEN estimate_minutes IS NOT NULL AND estimate_minutes > 0 THEN 1 END) AS tasks_with_estimate
     FROM tasks
-    WHERE tenant_id = ${tenantId} AND status NOT IN ('done','cancelled')
+    WHERE tenant_id = ${tenantId} AND ${taskIsOpen("tasks")}
   `));
 
   const tasksTotal = Number(countRow?.tasks_total ?? 0);
@@ -454,14 +470,14 @@ export async function computeClientRiskTrend(
     SELECT
       c.id AS client_id,
       c.company_name,
-      COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') THEN t.id END) AS curr_open,
-      COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') AND t.due_date < NOW() THEN t.id END) AS curr_overdue,
+      COUNT(DISTINCT CASE WHEN ${taskIsOpen()} THEN t.id END) AS curr_open,
+      COUNT(DISTINCT CASE WHEN ${taskIsOpen()} AND t.due_date < NOW() THEN t.id END) AS curr_overdue,
       COALESCE(SUM(CASE WHEN te.start_time >= ${isoDate(currentStart)} THEN te.duration_seconds ELSE 0 END) / 3600.0, 0) AS curr_hours,
-      COUNT(DISTINCT CASE WHEN t.status = 'done' AND t.updated_at >= ${isoDate(currentStart)} THEN t.id END) AS curr_completed,
-      COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') AND t.created_at < ${isoDate(currentStart)} THEN t.id END) AS prior_open,
-      COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') AND t.due_date < ${isoDate(currentStart)} AND t.created_at < ${isoDate(currentStart)} THEN t.id END) AS prior_overdue,
+      COUNT(DISTINCT CASE WHEN ${taskIsDone()} AND t.completed_at >= ${isoDate(currentStart)} THEN t.id END) AS curr_completed,
+      COUNT(DISTINCT CASE WHEN ${taskIsOpen()} AND t.created_at < ${isoDate(currentStart)} THEN t.id END) AS prior_open,
+      COUNT(DISTINCT CASE WHEN ${taskIsOpen()} AND t.due_date < ${isoDate(currentStart)} AND t.created_at < ${isoDate(currentStart)} THEN t.id END) AS prior_overdue,
       COALESCE(SUM(CASE WHEN te.start_time >= ${isoDate(priorStart)} AND te.start_time < ${isoDate(currentStart)} THEN te.duration_seconds ELSE 0 END) / 3600.0, 0) AS prior_hours,
-      COUNT(DISTINCT CASE WHEN t.status = 'done' AND t.updated_at >= ${isoDate(priorStart)} AND t.updated_at < ${isoDate(currentStart)} THEN t.id END) AS prior_completed
+      COUNT(DISTINCT CASE WHEN ${taskIsDone()} AND t.completed_at >= ${isoDate(priorStart)} AND t.completed_at < ${isoDate(currentStart)} THEN t.id END) AS prior_completed
     FROM clients c
     LEFT JOIN projects p ON p.client_id = c.id AND p.tenant_id = ${tenantId}
     LEFT JOIN tasks t ON t.project_id = p.id AND t.tenant_id = ${tenantId}
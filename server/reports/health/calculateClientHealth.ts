@@ -20,6 +20,7 @@ import {
   type HealthComponentScores,
   type HealthTier,
 } from "./clientHealthModel";
+import { taskIsDone, taskIsOpen } from "../taskStatusSql";
 
 export interface ClientHealthResult {
   clientId: string;
@@ -78,23 +79,23 @@ export async function calculateClientHealth(
       c.company_name,
       COUNT(DISTINCT t.id) AS total_tasks,
       COUNT(DISTINCT CASE
-        WHEN t.status NOT IN ('done','cancelled') AND t.due_date < NOW() THEN t.id
+        WHEN ${taskIsOpen()} AND t.due_date < NOW() THEN t.id
       END) AS overdue_count,
       COUNT(DISTINCT CASE
-        WHEN t.status = 'done'
+        WHEN ${taskIsDone()}
           AND t.due_date IS NOT NULL
-          AND t.updated_at <= t.due_date
+          AND t.completed_at <= t.due_date
         THEN t.id
       END) AS completed_on_time,
       COUNT(DISTINCT CASE
-        WHEN t.status = 'done' AND t.due_date IS NOT NULL THEN t.id
+        WHEN ${taskIsDone()} AND t.due_date IS NOT NULL THEN t.id
       END) AS total_done_with_due,
       COALESCE(SUM(
         CASE WHEN te.start_time >= ${startDate} AND te.start_time <= ${endDate}
         THEN te.duration_seconds ELSE 0 END
       ), 0) AS total_seconds,
       COALESCE(SUM(
-        CASE WHEN t.status NOT IN ('done','cancelled')
+        CASE WHEN ${taskIsOpen()}
         THEN COALESCE(t.estimate_minutes, 0) ELSE 0 END
       ), 0) AS estimated_minutes,
       COUNT(DISTINCT CASE
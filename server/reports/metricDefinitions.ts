@@ -11,6 +11,8 @@
  *  - Utilization cap at 200% before flagging
  *  - estimatedHours = null → excluded from efficiency
  *  - No data → return 0 (not null), except ratio/derived metrics
+ *  - status_category is the task status mapped through the project's workflow
+ *    (see taskStatusSql), never a literal status
  *
  * @module server/reports/metricDefinitions
  */
@@ -39,48 +41,72 @@ export const MetricDefinitions: Record<string, MetricDefinition> = {
 
   completedCount: {
     description: "Tasks marked done within the selected date range",
-    calculation: "COUNT(tasks WHERE status = 'done' AND updated_at BETWEEN startDate AND endDate)",
+    calculation: "COUNT(tasks WHERE status_category = 'done' AND completed_at BETWEEN startDate AND endDate)",
     type: "range_based",
-    dateField: "tasks.updated_at",
-    nullHandling: "Returns 0 if no completed tasks. NOTE: database uses updated_at+status='done' as a proxy for completion timestamp since no dedicated completed_at column exists.",
+    dateField: "tasks.completed_at",
+    nullHandling: "Returns 0 if no completed tasks. completed_at is set on entering a done-category status and cleared on leaving one.",
   },
 
   activeTasks: {
     description: "Tasks currently open (not done or cancelled), irrespective of date range",
-    calculation: "COUNT(tasks WHERE status NOT IN ('done', 'cancelled'))",
+    calculation: "COUNT(tasks WHERE status_category NOT IN ('done','cancelled'))",
     type: "current_state",
     nullHandling: "Returns 0 if none",
   },
 
   overdueTasks: {
     description: "Open tasks whose due_date has passed",
-    calculation: "COUNT(tasks WHERE status NOT IN ('done','cancelled') AND due_date < NOW())",
+    calculation: "COUNT(tasks WHERE status_category NOT IN ('done','cancelled') AND due_date < NOW())",
     type: "current_state",
     nullHandling: "Returns 0 if none. Tasks with NULL due_date are excluded.",
   },
 
   dueSoonCount: {
     description: "Open tasks with due_date within the next 7 days",
-    calculation: "COUNT(tasks WHERE status NOT IN ('done','cancelled') AND due_date BETWEEN NOW() AND NOW()+7days)",
+    calculation: "COUNT(tasks WHERE status_category NOT IN ('done','cancelled') AND due_date BETWEEN NOW() AND NOW()+7days)",
     type: "current_state",
     nullHandling: "Returns 0 if none",
   },
 
   backlogCount: {
     description: "Open tasks that have not been updated in more than 14 days",
-    calculation: "COUNT(tasks WHERE status NOT IN ('done','cancelled') AND updated_at < NOW() - INTERVAL '14 days')",
+    calculation: "COUNT(tasks WHERE status_category NOT IN ('done','cancelled') AND updated_at < NOW() - INTERVAL '14 days')",
     type: "current_state",
     nullHandling: "Returns 0 if none",
   },
 
   avgCompletionDays: {
     description: "Average calendar days from task creation to completion, for tasks completed in range",
-    calculation: "AVG(EXTRACT(days FROM (updated_at - created_at))) WHERE status='done' AND updated_at BETWEEN startDate AND endDate",
+    calculation: "AVG(EXTRACT(days FROM (completed_at - created_at))) WHERE status_category = 'done' AND completed_at BETWEEN startDate AND endDate",
     type: "range_based",
-    dateField: "tasks.updated_at",
+    dateField: "tasks.completed_at",
     nullHandling: "Returns null if no completed tasks in range",
   },
 
+  leadTimeDays: {
+    description: "Average days from task creation to completion, for tasks completed in range",
+    calculation: "AVG(EPOCH(completed_at - created_at) / 86400) WHERE completed_at BETWEEN startDate AND endDate",
+    type: "range_based",
+    dateField: "tasks.completed_at",
+    nullHandling: "Returns null if no completed tasks in range",
+  },
+
+  cycleTimeDays: {
+    description: "Average days from a task's first move into an active status to completion, for tasks completed in range",
+    calculation: "AVG(EPOCH(completed_at - MIN(task_status_history.changed_at WHERE to_category = 'active')) / 86400) WHERE completed_at BETWEEN startDate AND endDate",
+    type: "range_based",
+    dateField: "tasks.completed_at",
+    nullHandling: "Returns null if no completed tasks in range. Tasks never recorded as active are excluded.",
+  },
+
+  timeInStatusHours: {
+    description: "Hours tasks spent in each not-started or active status within the date range",
+    calculation: "SUM(overlap of [changed_at, next changed_at) with [startDate, endDate]) per task_status_history.to_status; the span before the first change starts at tasks.created_at",
+    type: "range_based",
+    dateField: "task_status_history.changed_at",
+    nullHandling: "Statuses with no time in range are omitted",
+  },
+
   // ── TIME ENTRY METRICS ───────────────────────────────────────────────────────
 
   totalHours: {
@@ -108,7 +134,7 @@ export const MetricDefinitions: Record<string, MetricDefinition> = {
 
   estimatedHours: {
     description: "Sum of estimate_minutes / 60 for active tasks assigned to user",
-    calculation: "SUM(COALESCE(tasks.estimate_minutes, 0)) / 60 WHERE status NOT IN ('done','cancelled')",
+    calculation: "SUM(COALESCE(tasks.estimate_minutes, 0)) / 60 WHERE status_category NOT IN ('done','cancelled')",
     type: "current_state",
     nullHandling: "NULL estimate_minutes treated as 0. Returns 0 if no active tasks.",
   },
@@ -124,8 +150,8 @@ export const MetricDefinitions: Record<string, MetricDefinition> = {
   // ── DERIVED / RATIO METRICS ──────────────────────────────────────────────────
 
   utilizationPct: {
-    description: "Actual hours tracked as a percentage of available hours (8h/day × days in range)",
-    calculation: "ROUND((totalHours / (daysInRange × 8)) × 100)",
+    description: "Actual hours tracked as a percentage of available hours (working hours in range less holidays and approved time off)",
+    calculation: "ROUND((totalHours / availableHours) × 100); availableHours from user_capacity_profiles (default 8h Mon–Fri)",
     type: "derived",
     nullHandling: "If availableHours = 0, returns null (not 0). If totalHours = 0, returns 0.",
   },
@@ -192,7 +218,7 @@ export const MetricDefinitions: Record<string, MetricDefinition> = {
 
   plannedHoursWeekly: {
     description: "Sum of estimate_minutes / 60 for active tasks due within a given calendar week",
-    calculation: "SUM(tasks.estimate_minutes / 60) WHERE due_date BETWEEN weekStart AND weekEnd AND status NOT IN ('done','cancelled')",
+    calculation: "SUM(tasks.estimate_minutes / 60) WHERE due_date BETWEEN weekStart AND weekEnd AND status_category NOT IN ('done','cancelled')",
     type: "range_based",
     dateField: "tasks.due_date",
     nullHandling: "NULL estimate_minutes excluded. Returns 0 if no tasks.",
@@ -207,10 +233,18 @@ export const MetricDefinitions: Record<string, MetricDefinition> = {
   },
 
   weeklyUtilizationPct: {
-    description: "Actual weekly hours as a percentage of standard 40-hour work week",
-    calculation: "actualHoursWeekly / 40 × 100",
+    description: "Actual weekly hours as a percentage of the user's available hours that week",
+    calculation: "actualHoursWeekly / availableHoursWeekly × 100",
     type: "derived",
-    nullHandling: "Always uses 40h denominator — never null. Returns 0 if no time logged.",
+    nullHandling: "Returns null for weeks with no available hours (fully off). Returns 0 if no time logged.",
+  },
+
+  availableHours: {
+    description: "Working hours in range from the user's capacity profile, less holidays on their calendar and approved time off",
+    calculation: "SUM(weekday_minutes[weekday] / 60) per day, 0 on holidays, minus time_off_requests.minutes_per_day (whole day when null)",
+    type: "range_based",
+    dateField: "calendar date (YYYY-MM-DD)",
+    nullHandling: "Users without a profile get 8h Monday to Friday. Never null; 0 when fully off.",
   },
 };
 
@@ -292,10 +326,9 @@ export function safeDivide(numerator: number, denominator: number): number | nul
 /**
  * Safe utilization — returns null when no available hours.
  */
-export function computeUtilizationPct(totalHours: number, daysInRange: number): number | null {
-  const available = daysInRange * 8;
-  if (available <= 0) return null;
-  return Math.round((totalHours / available) * 100);
+export function computeUtilizationPct(totalHours: number, availableHours: number): number | null {
+  if (availableHours <= 0) return null;
+  return Math.round((totalHours / availableHours) * 100);
 }
 
 /**
@@ -25,6 +25,8 @@ import {
   type PerformanceTier,
 } from "./employeePerformanceModel";
 import { validateMetricConsistency } from "../../reports/metricDefinitions";
+import { taskIsDone, taskIsOpen } from "../taskStatusSql";
+import { capacityService } from "../../features/capacity/capacity.service";
 
 export interface EmployeePerformanceResult {
   userId: string;
@@ -95,14 +97,14 @@ export async function calculateEmployeePerformance(
       u.last_name,
       u.email,
       u.avatar_url,
-      COUNT(DISTINCT CASE WHEN t.status NOT IN ('done','cancelled') THEN t.id END) AS active_tasks,
+      COUNT(DISTINCT CASE WHEN ${taskIsOpen()} THEN t.id END) AS active_tasks,
       COUNT(DISTINCT CASE
-        WHEN t.status NOT IN ('done','cancelled') AND t.due_date < NOW() THEN t.id
+        WHEN ${taskIsOpen()} AND t.due_date < NOW() THEN t.id
       END) AS overdue_tasks,
       COUNT(DISTINCT CASE
-        WHEN t.status = 'done'
-          AND t.updated_at >= ${startDate}
-          AND t.updated_at <= ${endDate}
+        WHEN ${taskIsDone()}
+          AND t.completed_at >= ${startDate}
+          AND t.completed_at <= ${endDate}
         THEN t.id
       END) AS completed_in_range,
       COALESCE(SUM(
@@ -110,7 +112,7 @@ export async function calculateEmployeePerformance(
         THEN te.duration_seconds ELSE 0 END
       ), 0) AS total_seconds,
       COALESCE(SUM(
-        CASE WHEN t.status NOT IN ('done','cancelled')
+        CASE WHEN ${taskIsOpen()}
         THEN COALESCE(t.estimate_minutes, 0) ELSE 0 END
       ), 0) AS estimated_minutes,
       COUNT(DISTINCT
@@ -140,6 +142,13 @@ export async function calculateEmployeePerformance(
 
   const total = rowsArr.length > 0 ? Number(rowsArr[0].total_count) : 0;
 
+  const availableByUser = await capacityService.availableHoursByUser(
+    tenantId,
+    rowsArr.map((row) => row.user_id as string),
+    startDate,
+    endDate,
+  );
+
   const results: EmployeePerformanceResult[] = rowsArr.map((row) => {
     const activeTasks = Number(row.active_tasks);
     const overdueCount = Number(row.overdue_tasks);
@@ -150,7 +159,7 @@ export async function calculateEmployeePerformance(
 
     const totalHours = Math.round((totalSeconds / 3600) * 10) / 10;
     const estimatedHours = Math.round((estimatedMinutes / 60) * 10) / 10;
-    const availableHours = daysInRange * 8;
+    const availableHours = availableByUser.get(row.user_id) ?? 0;
 
     const utilizationPct = availableHours > 0
       ? Math.round((totalHours / availableHours) * 100)
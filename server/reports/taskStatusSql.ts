@@ -0,0 +1,50 @@
+/**
+ * TASK STATUS CATEGORIES — Reporting Governance Layer
+ *
+ * Task statuses are per-project (workflow status sets), so reports must never compare
+ * tasks.status with literals such as 'done'. Use these fragments instead; they resolve a
+ * task's status to its category through the project's workflow, falling back to the
+ * built-in statuses for projects without one.
+ *
+ * @module server/reports/taskStatusSql
+ */
+
+import { sql, type SQL } from "drizzle-orm";
+import { BUILT_IN_STATUS_CATEGORIES } from "../features/workflows/workflowRules";
+
+const BUILT_IN_CASE = Object.entries(BUILT_IN_STATUS_CATEGORIES)
+  .map(([status, category]) => `WHEN '${status}' THEN '${category}'`)
+  .join(" ");
+
+/** Category of any status value, resolved through the given project's workflow. */
+export function statusCategorySql(status: SQL, projectId: SQL): SQL {
+  return sql`COALESCE(
+    (SELECT ws.category FROM projects wp
+       JOIN workflow_statuses ws ON ws.status_set_id = wp.workflow_status_set_id
+      WHERE wp.id = ${projectId} AND ws.key = ${status}),
+    CASE ${status} ${sql.raw(BUILT_IN_CASE)} ELSE 'active' END
+  )`;
+}
+
+/**
+ * Category of a task row: one of the StatusCategory values.
+ * @param alias  the tasks table alias in the surrounding query
+ */
+export function taskStatusCategory(alias = "t"): SQL {
+  return statusCategorySql(sql.raw(`${alias}.status`), sql.raw(`${alias}.project_id`));
+}
+
+/** Task is neither done nor cancelled. */
+export function taskIsOpen(alias = "t"): SQL {
+  return sql`${taskStatusCategory(alias)} NOT IN ('done', 'cancelled')`;
+}
+
+/** Task is done or cancelled. */
+export function taskIsClosed(alias = "t"): SQL {
+  return sql`${taskStatusCategory(alias)} IN ('done', 'cancelled')`;
+}
+
+/** Task is in a done-category status. */
+export function taskIsDone(alias = "t"): SQL {
+  return sql`${taskStatusCategory(alias)} = 'done'`;
+}
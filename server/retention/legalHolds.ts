@@ -0,0 +1,46 @@
+import { db } from "../db";
+import { clients, retentionLegalHolds, type CreateLegalHold, type RetentionLegalHold } from "@shared/schema";
+import { and, desc, eq, isNull, sql } from "drizzle-orm";
+import { AppError } from "../lib/errors";
+
+/** Every hold of a tenant, active ones first. */
+export async function listLegalHolds(tenantId: string): Promise<(RetentionLegalHold & { clientName: string })[]> {
+  const rows = await db.select({ hold: retentionLegalHolds, clientName: clients.companyName })
+    .from(retentionLegalHolds)
+    .innerJoin(clients, eq(clients.id, retentionLegalHolds.clientId))
+    .where(eq(retentionLegalHolds.tenantId, tenantId))
+    .orderBy(sql`${retentionLegalHolds.releasedAt} IS NOT NULL`, desc(retentionLegalHolds.placedAt));
+  return rows.map((row) => ({ ...row.hold, clientName: row.clientName }));
+}
+
+export async function placeLegalHold(tenantId: string, userId: string | null, data: CreateLegalHold): Promise<RetentionLegalHold> {
+  const [client] = await db.select({ id: clients.id }).from(clients)
+    .where(and(eq(clients.id, data.clientId), eq(clients.tenantId, tenantId)));
+  if (!client) throw AppError.notFound("Client");
+
+  const [active] = await db.select({ id: retentionLegalHolds.id }).from(retentionLegalHolds)
+    .where(and(
+      eq(retentionLegalHolds.tenantId, tenantId),
+      eq(retentionLegalHolds.clientId, data.clientId),
+      isNull(retentionLegalHolds.releasedAt),
+    ));
+  if (active) throw AppError.conflict("This client is already under a legal hold");
+
+  const [hold] = await db.insert(retentionLegalHolds)
+    .values({ tenantId, clientId: data.clientId, reason: data.reason, placedByUserId: userId })
+    .returning();
+  return hold;
+}
+
+export async function releaseLegalHold(tenantId: string, holdId: string, userId: string | null): Promise<RetentionLegalHold> {
+  const [hold] = await db.update(retentionLegalHolds)
+    .set({ releasedAt: new Date(), releasedByUserId: userId })
+    .where(and(
+      eq(retentionLegalHolds.id, holdId),
+      eq(retentionLegalHolds.tenantId, tenantId),
+      isNull(retentionLegalHolds.releasedAt),
+    ))
+    .returning();
+  if (!hold) throw AppError.notFound("Active legal hold");
+  return hold;
+}
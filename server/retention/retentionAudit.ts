@@ -1,6 +1,17 @@
 import { db } from "../db";
-import { tasks, chatMessages, dataRetentionPolicies, tenants } from "@shared/schema";
+import {
+  tasks,
+  chatMessages,
+  dataRetentionPolicies,
+  tenants,
+  retentionLegalHolds,
+  RETENTION_ENTITY_TYPES,
+  type DataRetentionPolicy,
+  type RetentionEntityType,
+  type RetentionLegalHold,
+} from "@shared/schema";
 import { eq, and, isNull, isNotNull, lt, count } from "drizzle-orm";
+import { RETENTION_ENTITIES, countCandidates, countRows, planRetention, supportsSoftArchive } from "./retentionEntities";
 
 export interface RetentionAuditSummary {
   tenantId: string;
@@ -46,7 +57,7 @@ export async function getRetentionAuditSummary(tenantId: string): Promise<Retent
 
   // Chat stats
   const [chatTotal] = await db.select({ value: count() }).from(chatMessages).where(eq(chatMessages.tenantId, tenantId));
-  const [chatArchived] = await db.select({ value: count() }).from(chatMessages).where(and(eq(chatMessages.tenantId, tenantId), sql`archived_at IS NOT NULL`));
+  const [chatArchived] = await db.select({ value: count() }).from(chatMessages).where(and(eq(chatMessages.tenantId, tenantId), isNotNull(chatMessages.archivedAt)));
   
   const chatPolicy = policies.find(p => p.entityType === "chat_messages");
   const chatRetentionDays = chatPolicy?.retentionDays ?? 30;
@@ -83,3 +94,71 @@ export async function getAllTenantsAuditSummary(): Promise<RetentionAuditSummary
   const summaries = await Promise.all(allTenants.map(t => getRetentionAuditSummary(t.id)));
   return summaries;
 }
+
+export interface RetentionEntityReport {
+  entityType: RetentionEntityType;
+  label: string;
+  policy: DataRetentionPolicy | null;
+  supportsSoftArchive: boolean;
+  total: number;
+  archived: number;
+  wouldArchive: number;
+  wouldPurge: number;
+  /** Rows due for purging that an active legal hold keeps */
+  heldByLegalHold: number;
+  /** Archived rows that can still be restored before a purge removes them */
+  restorable: number;
+}
+
+export interface RetentionDryRunReport {
+  tenantId: string;
+  generatedAt: string;
+  entities: RetentionEntityReport[];
+  activeLegalHolds: RetentionLegalHold[];
+}
+
+/** What runRetention would do right now, without changing anything. */
+export async function getRetentionDryRun(tenantId: string, now: Date = new Date()): Promise<RetentionDryRunReport> {
+  const [policies, activeLegalHolds] = await Promise.all([
+    db.select().from(dataRetentionPolicies).where(eq(dataRetentionPolicies.tenantId, tenantId)),
+    db.select().from(retentionLegalHolds).where(and(eq(retentionLegalHolds.tenantId, tenantId), isNull(retentionLegalHolds.releasedAt))),
+  ]);
+
+  const entities: RetentionEntityReport[] = [];
+  for (const entityType of RETENTION_ENTITY_TYPES) {
+    const def = RETENTION_ENTITIES[entityType];
+    const policy = policies.find((p) => p.entityType === entityType) ?? null;
+    const plan = policy ? planRetention(policy, now) : null;
+    const { total, archived } = await countRows(def, tenantId);
+
+    const report: RetentionEntityReport = {
+      entityType,
+      label: def.label,
+      policy,
+      supportsSoftArchive: supportsSoftArchive(entityType),
+      total,
+      archived,
+      wouldArchive: 0,
+      wouldPurge: 0,
+      heldByLegalHold: 0,
+      restorable: archived,
+    };
+    if (plan?.archiveBefore) {
+      report.wouldArchive = (await countCandidates(def, tenantId, "archive", plan.archiveBefore)).eligible;
+    }
+    if (plan?.purgeArchivedBefore) {
+      const due = await countCandidates(def, tenantId, "purge_archived", plan.purgeArchivedBefore);
+      report.wouldPurge += due.eligible;
+      report.heldByLegalHold += due.held;
+      report.restorable = archived - due.eligible;
+    }
+    if (plan?.purgeLiveBefore) {
+      const due = await countCandidates(def, tenantId, "purge_live", plan.purgeLiveBefore);
+      report.wouldPurge += due.eligible;
+      report.heldByLegalHold += due.held;
+    }
+    entities.push(report);
+  }
+
+  return { tenantId, generatedAt: now.toISOString(), entities, activeLegalHolds };
+}
@@ -0,0 +1,363 @@
+import { db } from "../db";
+import { storage } from "../storage";
+import {
+  RETENTION_ENTITY_TYPES,
+  RETENTION_SOFT_ARCHIVE_TYPES,
+  RetentionArchiveMode,
+  activityLog,
+  assetLinks,
+  assetVersions,
+  assets,
+  chatAttachments,
+  chatMentions,
+  chatMessageReactions,
+  chatMessages,
+  chatPins,
+  chatReads,
+  clientMessages,
+  commentMentions,
+  comments,
+  emailOutbox,
+  errorLogs,
+  supportTickets,
+  taskAttachments,
+  tasks,
+  timeEntries,
+  type DataRetentionPolicy,
+  type RetentionEntityType,
+} from "@shared/schema";
+import { inArray, or, sql, type SQL } from "drizzle-orm";
+import { taskIsDone } from "../reports/taskStatusSql";
+
+/**
+ * How one entity type ages out. Conditions are raw SQL on the alias `r` so the runner and the
+ * dry-run report can share one query shape across tables.
+ */
+export interface RetentionEntityDefinition {
+  type: RetentionEntityType;
+  label: string;
+  table: string;
+  /** Column compared against the policy's retentionDays */
+  ageColumn: string;
+  /** Restricts `r` to one tenant's rows */
+  tenantScope(tenantId: string): SQL;
+  /** The owning client of `r`, checked against legal holds; null when the type has no client */
+  clientId: SQL | null;
+  /** Further condition before a row ages out, e.g. only closed tickets */
+  eligible?: SQL;
+  /** Rows that must never be purged, e.g. billed time */
+  purgeGuard?: SQL;
+  /** Whether archiving also records archived_reason */
+  archiveReason?: boolean;
+  /** Deletes the rows with everything that hangs off them; returns object storage keys to remove */
+  purge(ids: string[]): Promise<string[]>;
+}
+
+const taskClientId = (taskId: SQL) =>
+  sql`(SELECT p.client_id FROM tasks t JOIN projects p ON p.id = t.project_id WHERE t.id = ${taskId})`;
+const commentTaskId = sql`COALESCE(r.task_id, (SELECT s.task_id FROM subtasks s WHERE s.id = r.subtask_id))`;
+
+function byTenantColumn(tenantId: string): SQL {
+  return sql`r.tenant_id = ${tenantId}`;
+}
+
+export const RETENTION_ENTITIES: Record<RetentionEntityType, RetentionEntityDefinition> = {
+  tasks: {
+    type: "tasks",
+    label: "Tasks",
+    table: "tasks",
+    ageColumn: "updated_at",
+    tenantScope: byTenantColumn,
+    clientId: taskClientId(sql`r.id`),
+    eligible: taskIsDone("r"),
+    purgeGuard: sql`NOT EXISTS (
+      SELECT 1 FROM time_entries te
+      WHERE te.invoice_id IS NOT NULL
+        AND te.task_id IN (SELECT c.id FROM tasks c WHERE c.id = r.id OR c.parent_task_id = r.id)
+    )`,
+    archiveReason: true,
+    async purge(ids) {
+      const attachments = await db.select({ storageKey: taskAttachments.storageKey })
+        .from(taskAttachments)
+        .where(or(
+          inArray(taskAttachments.taskId, ids),
+          inArray(taskAttachments.taskId, db.select({ id: tasks.id }).from(tasks).where(inArray(tasks.parentTaskId, ids))),
+        ));
+      for (const id of ids) {
+        await storage.deleteTask(id);
+      }
+      return attachments.map((a) => a.storageKey);
+    },
+  },
+  chat_messages: {
+    type: "chat_messages",
+    label: "Chat messages",
+    table: "chat_messages",
+    ageColumn: "created_at",
+    tenantScope: byTenantColumn,
+    clientId: null,
+    async purge(ids) {
+      const attachments = await db.select({ s3Key: chatAttachments.s3Key })
+        .from(chatAttachments)
+        .where(inArray(chatAttachments.messageId, ids));
+      await db.delete(chatMessageReactions).where(inArray(chatMessageReactions.messageId, ids));
+      await db.delete(chatMentions).where(inArray(chatMentions.messageId, ids));
+      await db.delete(chatPins).where(inArray(chatPins.messageId, ids));
+      await db.delete(chatAttachments).where(inArray(chatAttachments.messageId, ids));
+      await db.update(chatReads).set({ lastReadMessageId: null }).where(inArray(chatReads.lastReadMessageId, ids));
+      await db.delete(chatMessages).where(inArray(chatMessages.id, ids));
+      return attachments.map((a) => a.s3Key);
+    },
+  },
+  comments: {
+    type: "comments",
+    label: "Task comments",
+    table: "comments",
+    ageColumn: "created_at",
+    tenantScope: (tenantId) => sql`${commentTaskId} IN (SELECT t.id FROM tasks t WHERE t.tenant_id = ${tenantId})`,
+    clientId: taskClientId(commentTaskId),
+    async purge(ids) {
+      await db.delete(commentMentions).where(inArray(commentMentions.commentId, ids));
+      await db.delete(comments).where(inArray(comments.id, ids));
+      return [];
+    },
+  },
+  activity_log: {
+    type: "activity_log",
+    label: "Activity log",
+    table: "activity_log",
+    ageColumn: "created_at",
+    tenantScope: (tenantId) => sql`r.workspace_id IN (SELECT w.id FROM workspaces w WHERE w.tenant_id = ${tenantId})`,
+    clientId: null,
+    async purge(ids) {
+      await db.delete(activityLog).where(inArray(activityLog.id, ids));
+      return [];
+    },
+  },
+  time_entries: {
+    type: "time_entries",
+    label: "Time entries",
+    table: "time_entries",
+    ageColumn: "start_time",
+    tenantScope: byTenantColumn,
+    clientId: sql`r.client_id`,
+    eligible: sql`r.end_time IS NOT NULL`,
+    purgeGuard: sql`r.invoice_id IS NULL`,
+    async purge(ids) {
+      await db.delete(timeEntries).where(inArray(timeEntries.id, ids));
+      return [];
+    },
+  },
+  client_messages: {
+    type: "client_messages",
+    label: "Client messages",
+    table: "client_messages",
+    ageColumn: "created_at",
+    tenantScope: byTenantColumn,
+    clientId: sql`(SELECT cc.client_id FROM client_conversations cc WHERE cc.id = r.conversation_id)`,
+    async purge(ids) {
+      await db.delete(clientMessages).where(inArray(clientMessages.id, ids));
+      return [];
+    },
+  },
+  support_tickets: {
+    type: "support_tickets",
+    label: "Closed support tickets",
+    table: "support_tickets",
+    ageColumn: "closed_at",
+    tenantScope: byTenantColumn,
+    clientId: sql`r.client_id`,
+    eligible: sql`r.status = 'closed'`,
+    async purge(ids) {
+      // Messages and events cascade
+      await db.delete(supportTickets).where(inArray(supportTickets.id, ids));
+      return [];
+    },
+  },
+  email_outbox: {
+    type: "email_outbox",
+    label: "Email outbox",
+    table: "email_outbox",
+    ageColumn: "created_at",
+    tenantScope: byTenantColumn,
+    clientId: null,
+    eligible: sql`r.status <> 'queued'`,
+    async purge(ids) {
+      await db.delete(emailOutbox).where(inArray(emailOutbox.id, ids));
+      return [];
+    },
+  },
+  error_logs: {
+    type: "error_logs",
+    label: "Error logs",
+    table: "error_logs",
+    ageColumn: "created_at",
+    tenantScope: byTenantColumn,
+    clientId: null,
+    async purge(ids) {
+      await db.delete(errorLogs).where(inArray(errorLogs.id, ids));
+      return [];
+    },
+  },
+  assets: {
+    type: "assets",
+    label: "Client assets",
+    table: "assets",
+    ageColumn: "created_at",
+    tenantScope: byTenantColumn,
+    clientId: sql`r.client_id`,
+    async purge(ids) {
+      const [current, versions] = await Promise.all([
+        db.select({ r2Key: assets.r2Key }).from(assets).where(inArray(assets.id, ids)),
+        db.select({ r2Key: assetVersions.r2Key }).from(assetVersions).where(inArray(assetVersions.assetId, ids)),
+      ]);
+      await db.delete(assetLinks).where(inArray(assetLinks.assetId, ids));
+      // Versions and proof comments cascade; approval requests keep their row with the asset cleared
+      await db.delete(assets).where(inArray(assets.id, ids));
+      return Array.from(new Set(current.concat(versions).map((row) => row.r2Key)));
+    },
+  },
+};
+
+export function isRetentionEntityType(value: string): value is RetentionEntityType {
+  return (RETENTION_ENTITY_TYPES as readonly string[]).includes(value);
+}
+
+export function supportsSoftArchive(type: RetentionEntityType): boolean {
+  return RETENTION_SOFT_ARCHIVE_TYPES.includes(type);
+}
+
+/**
+ * Cutoffs for one policy. Archivable types are archived first; in hard mode they are purged once
+ * they have sat in the archive for restoreWindowDays. Other types are purged directly in hard mode.
+ */
+export interface RetentionPlan {
+  archiveBefore: Date | null;
+  purgeLiveBefore: Date | null;
+  purgeArchivedBefore: Date | null;
+}
+
+type PlannedPolicy = Pick<DataRetentionPolicy, "entityType" | "isEnabled" | "retentionDays" | "archiveMode" | "restoreWindowDays">;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function planRetention(policy: PlannedPolicy, now: Date): RetentionPlan | null {
+  if (!policy.isEnabled || !isRetentionEntityType(policy.entityType)) return null;
+  const hard = policy.archiveMode === RetentionArchiveMode.HARD;
+  const aged = new Date(now.getTime() - policy.retentionDays * DAY_MS);
+
+  if (supportsSoftArchive(policy.entityType)) {
+    return {
+      archiveBefore: aged,
+      purgeLiveBefore: null,
+      purgeArchivedBefore: hard ? new Date(now.getTime() - policy.restoreWindowDays * DAY_MS) : null,
+    };
+  }
+  if (!hard) return null;
+  return { archiveBefore: null, purgeLiveBefore: aged, purgeArchivedBefore: null };
+}
+
+export type RetentionPhase = "archive" | "purge_live" | "purge_archived";
+
+function phaseCondition(def: RetentionEntityDefinition, phase: RetentionPhase, cutoff: Date): SQL {
+  const age = sql.raw(`r.${def.ageColumn}`);
+  const conditions: SQL[] = [];
+  if (phase === "purge_archived") {
+    conditions.push(sql`r.archived_at IS NOT NULL`, sql`r.archived_at <= ${cutoff}`);
+  } else {
+    if (phase === "archive") conditions.push(sql`r.archived_at IS NULL`);
+    conditions.push(sql`${age} < ${cutoff}`);
+    if (def.eligible) conditions.push(def.eligible);
+  }
+  if (phase !== "archive" && def.purgeGuard) conditions.push(def.purgeGuard);
+  return sql.join(conditions, sql` AND `);
+}
+
+/** True for rows whose client is under an active legal hold. */
+function heldCondition(def: RetentionEntityDefinition, tenantId: string): SQL {
+  if (!def.clientId) return sql`false`;
+  return sql`COALESCE(${def.clientId} IN (
+    SELECT h.client_id FROM retention_legal_holds h WHERE h.tenant_id = ${tenantId} AND h.released_at IS NULL
+  ), false)`;
+}
+
+function fromTable(def: RetentionEntityDefinition): SQL {
+  return sql.raw(`${def.table} r`);
+}
+
+/** Counts rows a phase would touch, split by whether a legal hold keeps them (purges only). */
+export async function countCandidates(
+  def: RetentionEntityDefinition,
+  tenantId: string,
+  phase: RetentionPhase,
+  cutoff: Date,
+): Promise<{ eligible: number; held: number }> {
+  const held = phase === "archive" ? sql`false` : heldCondition(def, tenantId);
+  const result = await db.execute(sql`
+    SELECT
+      count(*) FILTER (WHERE NOT ${held})::int AS eligible,
+      count(*) FILTER (WHERE ${held})::int AS held
+    FROM ${fromTable(def)}
+    WHERE ${def.tenantScope(tenantId)} AND ${phaseCondition(def, phase, cutoff)}
+  `);
+  const [row] = result.rows as unknown as { eligible: number; held: number }[];
+  return { eligible: row?.eligible ?? 0, held: row?.held ?? 0 };
+}
+
+export async function selectPurgeBatch(
+  def: RetentionEntityDefinition,
+  tenantId: string,
+  phase: Exclude<RetentionPhase, "archive">,
+  cutoff: Date,
+  limit: number,
+): Promise<string[]> {
+  const result = await db.execute(sql`
+    SELECT r.id FROM ${fromTable(def)}
+    WHERE ${def.tenantScope(tenantId)} AND ${phaseCondition(def, phase, cutoff)}
+      AND NOT ${heldCondition(def, tenantId)}
+    LIMIT ${limit}
+  `);
+  return (result.rows as unknown as { id: string }[]).map((row) => row.id);
+}
+
+export async function archiveRows(
+  def: RetentionEntityDefinition,
+  tenantId: string,
+  cutoff: Date,
+  now: Date,
+  reason: string,
+): Promise<number> {
+  const set = def.archiveReason
+    ? sql`archived_at = ${now}, archived_reason = ${reason}`
+    : sql`archived_at = ${now}`;
+  const result = await db.execute(sql`
+    UPDATE ${fromTable(def)} SET ${set}
+    WHERE ${def.tenantScope(tenantId)} AND ${phaseCondition(def, "archive", cutoff)}
+    RETURNING r.id
+  `);
+  return result.rows.length;
+}
+
+/** Un-archives soft-archived rows, either the given ids or every archived row of the tenant. */
+export async function restoreRows(def: RetentionEntityDefinition, tenantId: string, ids?: string[]): Promise<number> {
+  if (ids && ids.length === 0) return 0;
+  const set = def.archiveReason ? sql`archived_at = NULL, archived_reason = NULL` : sql`archived_at = NULL`;
+  const only = ids ? sql` AND r.id IN (${sql.join(ids.map((id) => sql`${id}`), sql`, `)})` : sql``;
+  const result = await db.execute(sql`
+    UPDATE ${fromTable(def)} SET ${set}
+    WHERE ${def.tenantScope(tenantId)} AND r.archived_at IS NOT NULL${only}
+    RETURNING r.id
+  `);
+  return result.rows.length;
+}
+
+export async function countRows(def: RetentionEntityDefinition, tenantId: string): Promise<{ total: number; archived: number }> {
+  const archived = supportsSoftArchive(def.type) ? sql`count(*) FILTER (WHERE r.archived_at IS NOT NULL)::int` : sql`0`;
+  const result = await db.execute(sql`
+    SELECT count(*)::int AS total, ${archived} AS archived
+    FROM ${fromTable(def)}
+    WHERE ${def.tenantScope(tenantId)}
+  `);
+  const [row] = result.rows as unknown as { total: number; archived: number }[];
+  return { total: row?.total ?? 0, archived: row?.archived ?? 0 };
+}
@@ -0,0 +1,105 @@
+import { db } from "../db";
+import { deleteS3Object } from "../s3";
+import { dataRetentionPolicies, type RetentionEntityType } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import {
+  RETENTION_ENTITIES,
+  archiveRows,
+  countCandidates,
+  isRetentionEntityType,
+  planRetention,
+  selectPurgeBatch,
+  type RetentionEntityDefinition,
+} from "./retentionEntities";
+
+const PURGE_BATCH_SIZE = 500;
+// Bounds one run; whatever is left is picked up by the next daily tick
+const MAX_PURGE_BATCHES = 20;
+
+export interface RetentionEntityResult {
+  entityType: RetentionEntityType;
+  archived: number;
+  purged: number;
+  /** Rows due for purging that a legal hold kept */
+  held: number;
+  objectsDeleted: number;
+}
+
+export interface RetentionRunResult {
+  tenantId: string;
+  archived: number;
+  purged: number;
+  entities: RetentionEntityResult[];
+  errors: string[];
+}
+
+async function purgeBatches(
+  def: RetentionEntityDefinition,
+  tenantId: string,
+  phase: "purge_live" | "purge_archived",
+  cutoff: Date,
+  entity: RetentionEntityResult,
+  errors: string[],
+): Promise<void> {
+  for (let batch = 0; batch < MAX_PURGE_BATCHES; batch++) {
+    const ids = await selectPurgeBatch(def, tenantId, phase, cutoff, PURGE_BATCH_SIZE);
+    if (ids.length === 0) break;
+
+    const keys = await def.purge(ids);
+    entity.purged += ids.length;
+    for (const key of keys) {
+      try {
+        await deleteS3Object(key, tenantId);
+        entity.objectsDeleted++;
+      } catch (err: any) {
+        errors.push(`${def.type}: could not delete object ${key}: ${err.message || String(err)}`);
+      }
+    }
+    if (ids.length < PURGE_BATCH_SIZE) break;
+  }
+  entity.held += (await countCandidates(def, tenantId, phase, cutoff)).held;
+}
+
+/**
+ * Applies every enabled retention policy of a tenant: archives what has aged out, purges what
+ * hard-mode policies allow, and leaves rows of clients under a legal hold in place.
+ */
+export async function runRetention(tenantId: string, now: Date = new Date()): Promise<RetentionRunResult> {
+  const result: RetentionRunResult = { tenantId, archived: 0, purged: 0, entities: [], errors: [] };
+
+  let policies;
+  try {
+    policies = await db.select().from(dataRetentionPolicies).where(eq(dataRetentionPolicies.tenantId, tenantId));
+  } catch (err: any) {
+    result.errors.push(err.message || String(err));
+    return result;
+  }
+
+  for (const policy of policies) {
+    const plan = planRetention(policy, now);
+    if (!plan || !isRetentionEntityType(policy.entityType)) continue;
+
+    const def = RETENTION_ENTITIES[policy.entityType];
+    const entity: RetentionEntityResult = { entityType: def.type, archived: 0, purged: 0, held: 0, objectsDeleted: 0 };
+    result.entities.push(entity);
+
+    try {
+      if (plan.archiveBefore) {
+        entity.archived = await archiveRows(def, tenantId, plan.archiveBefore, now, `Retention policy: ${policy.retentionDays} days`);
+      }
+      if (plan.purgeArchivedBefore) {
+        await purgeBatches(def, tenantId, "purge_archived", plan.purgeArchivedBefore, entity, result.errors);
+      }
+      if (plan.purgeLiveBefore) {
+        await purgeBatches(def, tenantId, "purge_live", plan.purgeLiveBefore, entity, result.errors);
+      }
+    } catch (err: any) {
+      result.errors.push(`${def.type}: ${err.message || String(err)}`);
+    }
+
+    result.archived += entity.archived;
+    result.purged += entity.purged;
+  }
+
+  return result;
+}
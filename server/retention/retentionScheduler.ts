@@ -1,6 +1,6 @@
 import { db } from "../db";
 import { tenants } from "@shared/schema";
-import { runSoftArchive } from "./softArchiveRunner";
+import { runRetention } from "./retentionRunner";
 
 let intervalHandle: NodeJS.Timeout | null = null;
 let initialDelayHandle: NodeJS.Timeout | null = null;
@@ -10,20 +10,23 @@ const INITIAL_DELAY_MS = 5 * 60 * 1000; // 5 minutes after startup
 
 async function tick(): Promise<void> {
   try {
-    console.log("[retention] Starting daily soft archive run for all tenants");
+    console.log("[retention] Starting daily retention run for all tenants");
     const allTenants = await db.select({ id: tenants.id }).from(tenants);
     
     for (const tenant of allTenants) {
       try {
-        const result = await runSoftArchive(tenant.id);
-        if (result.tasksArchived > 0 || result.messagesArchived > 0) {
-          console.log(`[retention] Archived for tenant ${tenant.id}: ${result.tasksArchived} tasks, ${result.messagesArchived} messages`);
+        const result = await runRetention(tenant.id);
+        if (result.archived > 0 || result.purged > 0) {
+          console.log(`[retention] Tenant ${tenant.id}: ${result.archived} archived, ${result.purged} purged`);
+        }
+        if (result.errors.length > 0) {
+          console.error(`[retention] Errors for tenant ${tenant.id}:`, result.errors);
         }
       } catch (err) {
-        console.error(`[retention] Failed to run archive for tenant ${tenant.id}:`, err);
+        console.error(`[retention] Failed to run retention for tenant ${tenant.id}:`, err);
       }
     }
-    console.log("[retention] Daily soft archive run complete");
+    console.log("[retention] Daily retention run complete");
   } catch (err) {
     console.error("[retention] Retention scheduler tick failed:", err);
   }
@@ -8,6 +8,8 @@ import { eq, and, desc, sql, count, inArray } from "drizzle-orm";
 import { AppError, handleRouteError, sendError, validateBody } from "../lib/errors";
 import { getEffectiveTenantId } from "../middleware/tenantContext";
 import { requireAuth } from "../auth";
+import { publishWebhookEvent } from "../features/webhooks/webhook.service";
+import { WEBHOOK_EVENTS } from "@shared/events";
 import {
   insertClientSchema,
   insertClientContactSchema,
@@ -185,6 +187,7 @@ router.post("/clients", async (req, res) => {
       },
       workspaceId,
     );
+    publishWebhookEvent(client.tenantId, WEBHOOK_EVENTS.CLIENT_CREATED, { client });
 
     console.log(`[POST /api/clients] Created client ${client.id}, requestId=${requestId}`);
     res.status(201).json(client);
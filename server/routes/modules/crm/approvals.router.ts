@@ -7,6 +7,8 @@ import { getEffectiveTenantId } from "../../../middleware/tenantContext";
 import { requireAuth } from "../../../auth";
 import {
   approvalRequests,
+  assets,
+  assetVersions,
   clients,
   users,
   updateApprovalStatusSchema,
@@ -14,6 +16,7 @@ import {
 } from "@shared/schema";
 import { getCurrentUserId } from "../../helpers";
 import { isAdminOrSuper, verifyClientTenancy } from "./crm.helpers";
+import { proofingService } from "../../../features/proofing/proofing.service";
 
 const router = Router();
 
@@ -83,9 +86,14 @@ router.get("/crm/clients/:clientId/approvals", requireAuth, async (req: Request,
     let query = db.select({
       approval: approvalRequests,
       requesterName: users.name,
+      assetTitle: assets.title,
+      versionNumber: assetVersions.versionNumber,
+      versionMimeType: assetVersions.mimeType,
     })
       .from(approvalRequests)
       .leftJoin(users, eq(approvalRequests.requestedByUserId, users.id))
+      .leftJoin(assets, eq(approvalRequests.assetId, assets.id))
+      .leftJoin(assetVersions, eq(approvalRequests.assetVersionId, assetVersions.id))
       .where(
         and(
           eq(approvalRequests.tenantId, tenantId),
@@ -101,6 +109,9 @@ router.get("/crm/clients/:clientId/approvals", requireAuth, async (req: Request,
     const approvals = results.map((r) => ({
       ...r.approval,
       requesterName: r.requesterName || "Unknown",
+      proof: r.approval.assetVersionId && r.versionNumber !== null
+        ? { assetTitle: r.assetTitle, versionNumber: r.versionNumber, mimeType: r.versionMimeType }
+        : null,
     }));
 
     res.json(approvals);
@@ -154,6 +165,8 @@ router.patch("/crm/approvals/:id", requireAuth, async (req: Request, res: Respon
       .where(and(eq(approvalRequests.id, id), eq(approvalRequests.tenantId, tenantId)))
       .returning();
 
+    await proofingService.applyApprovalResponse(updated, body.status);
+
     try {
       const { notifyApprovalResponse } = await import("../../../features/notifications/notification.service");
       await notifyApprovalResponse(
@@ -195,10 +208,15 @@ router.get("/crm/portal/approvals", requireAuth, async (req: Request, res: Respo
       approval: approvalRequests,
       requesterName: users.name,
       clientName: clients.companyName,
+      assetTitle: assets.title,
+      versionNumber: assetVersions.versionNumber,
+      versionMimeType: assetVersions.mimeType,
     })
       .from(approvalRequests)
       .leftJoin(users, eq(approvalRequests.requestedByUserId, users.id))
       .leftJoin(clients, eq(approvalRequests.clientId, clients.id))
+      .leftJoin(assets, eq(approvalRequests.assetId, assets.id))
+      .leftJoin(assetVersions, eq(approvalRequests.assetVersionId, assetVersions.id))
       .where(
         and(
           eq(approvalRequests.tenantId, tenantId),
@@ -211,6 +229,9 @@ router.get("/crm/portal/approvals", requireAuth, async (req: Request, res: Respo
       ...r.approval,
       requesterName: r.requesterName || "Unknown",
       clientName: r.clientName || "Unknown",
+      proof: r.approval.assetVersionId && r.versionNumber !== null
+        ? { assetTitle: r.assetTitle, versionNumber: r.versionNumber, mimeType: r.versionMimeType }
+        : null,
     }));
 
     res.json(approvals);
@@ -3,7 +3,8 @@
  * 
  * Global search endpoint for command palette and quick navigation.
  * Provides tenant-scoped search across clients, projects, and tasks.
- * Also provides client-scoped search for the client command palette.
+ * Also provides client-scoped search for the client command palette, and full-text
+ * search across every indexed entity type (features/search).
  */
 import { createApiRouter } from '../../../http/routerFactory';
 import { storage } from '../../../storage';
@@ -11,9 +12,39 @@ import { AppError, handleRouteError, sendError } from '../../../lib/errors';
 import { getEffectiveTenantId, getCurrentWorkspaceIdAsync, getCurrentUserId } from '../../helpers';
 import { config } from '../../../config';
 import { getAccessiblePrivateProjectIds, getAccessiblePrivateTaskIds } from '../../../lib/privateVisibility';
+import { customFieldService } from '../../../features/customFields/customField.service';
+import { formatCustomFieldValue, matchesCustomFieldFilters } from '@shared/customFields';
+import { CustomFieldEntityType, UserRole, type CustomFieldEntityTypeValue } from '@shared/schema';
+import { SearchEntityType } from '@shared/search';
+import { searchService } from '../../../features/search/search.service';
+import { parseSearchTypes } from '../../../features/search/searchQuery';
 
 export const searchRouter = createApiRouter({ policy: "authTenant" });
 
+/** `cf[fieldKey]=filter` query params, e.g. `cf[deliverable_type]=Video&cf[contract_value]=1000..` */
+function parseCustomFieldFilters(raw: unknown): Record<string, string> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+  const filters: Record<string, string> = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (typeof value === "string" && value.trim()) filters[key] = value;
+  }
+  return filters;
+}
+
+/** Custom field definitions and values of one entity type, for matching search results. */
+async function loadCustomFieldIndex(tenantId: string, entityType: CustomFieldEntityTypeValue) {
+  const definitions = await customFieldService.listDefinitions(tenantId, entityType);
+  const values = definitions.length > 0
+    ? await customFieldService.getValuesForEntities(tenantId, entityType)
+    : {};
+  const textFor = (entityId: string) => {
+    const entityValues = values[entityId];
+    if (!entityValues) return "";
+    return definitions.map(d => formatCustomFieldValue(d, entityValues[d.key])).join(" ");
+  };
+  return { definitions, values, textFor };
+}
+
 /**
  * Global Search Endpoint for Command Palette
  * 
@@ -26,13 +57,17 @@ export const searchRouter = createApiRouter({ policy: "authTenant" });
  * - Tasks fetched via project ownership (inherently tenant-scoped)
  * 
  * Performance:
- * - Parallel fetches for clients and projects
- * - Single batch query for tasks (getTasksByProjectIds)
- * - In-memory filtering with simple scoring (startsWith = 2, includes = 1)
+ * - Without custom field filters: ranked full-text matches from the search index
+ *   (prefix terms, so partial words match while typing)
+ * - With custom field filters: parallel fetches for clients and projects, a single batch
+ *   query for tasks (getTasksByProjectIds), then in-memory filtering with simple scoring
+ *   (startsWith = 2, includes = 1); custom field values count as an "includes" match
  * - Results limited to maxResults (default 10, max 50)
  * 
  * @query q - Search query string (min 2 chars for results)
  * @query limit - Max results per category (default 10, max 50)
+ * @query cf[fieldKey] - Custom field filters (see matchesCustomFieldFilter); entity types
+ *   without the field return no results. With filters, q may be empty.
  * @returns { clients, projects, tasks } - Matching items with id, name, type
  */
 searchRouter.get("/search", async (req, res) => {
@@ -46,18 +81,37 @@ searchRouter.get("/search", async (req, res) => {
     const { q, limit = "10" } = req.query;
     const searchQuery = String(q || "").trim().toLowerCase();
     const maxResults = Math.min(parseInt(String(limit), 10) || 10, 50);
+    const customFilters = parseCustomFieldFilters(req.query.cf);
+    const hasCustomFilters = Object.keys(customFilters).length > 0;
     
-    if (!searchQuery) {
+    if (!searchQuery && !hasCustomFilters) {
       return res.json({ clients: [], projects: [], tasks: [] });
     }
 
-    const workspaceId = await getCurrentWorkspaceIdAsync(req);
-
     const userId = getCurrentUserId(req);
 
-    const [clientsList, projectsList] = await Promise.all([
+    if (!hasCustomFilters) {
+      const options = { tenantId, userId, q: searchQuery, limit: maxResults };
+      const [clients, projects, tasks] = await Promise.all([
+        searchService.searchType(options, SearchEntityType.CLIENT),
+        searchService.searchType(options, SearchEntityType.PROJECT),
+        searchService.searchType(options, SearchEntityType.TASK),
+      ]);
+      return res.json({
+        clients: clients.map(c => ({ id: c.id, name: c.title, type: "client" })),
+        projects: projects.map(p => ({ id: p.id, name: p.title, type: "project", status: p.status })),
+        tasks: tasks.map(t => ({ id: t.id, name: t.title, type: "task", projectId: t.projectId, status: t.status })),
+      });
+    }
+
+    const workspaceId = await getCurrentWorkspaceIdAsync(req);
+
+    const [clientsList, projectsList, clientFields, projectFields, taskFields] = await Promise.all([
       storage.getClientsByTenant(tenantId, workspaceId),
       storage.getProjectsByTenant(tenantId, workspaceId),
+      loadCustomFieldIndex(tenantId, CustomFieldEntityType.CLIENT),
+      loadCustomFieldIndex(tenantId, CustomFieldEntityType.PROJECT),
+      loadCustomFieldIndex(tenantId, CustomFieldEntityType.TASK),
     ]);
 
     let filteredProjectsList = projectsList;
@@ -96,14 +150,22 @@ searchRouter.get("/search", async (req, res) => {
 
     const filterAndScore = <T extends { id: string }>(
       items: T[],
-      getSearchText: (item: T) => string
+      getSearchText: (item: T) => string,
+      customFields: Awaited<ReturnType<typeof loadCustomFieldIndex>>
     ) => {
       return items
         .map(item => {
+          if (hasCustomFilters && !matchesCustomFieldFilters(customFields.definitions, customFields.values[item.id], customFilters)) {
+            return null;
+          }
           const text = getSearchText(item).toLowerCase();
-          if (!text.includes(searchQuery)) return null;
-          const score = text.startsWith(searchQuery) ? 2 : 1;
-          return { item, score };
+          if (text.includes(searchQuery)) {
+            return { item, score: text.startsWith(searchQuery) ? 2 : 1 };
+          }
+          if (customFields.textFor(item.id).toLowerCase().includes(searchQuery)) {
+            return { item, score: 1 };
+          }
+          return null;
         })
         .filter((r): r is { item: T; score: number } => r !== null)
         .sort((a, b) => b.score - a.score)
@@ -111,9 +173,9 @@ searchRouter.get("/search", async (req, res) => {
         .map(r => r.item);
     };
 
-    const clients = filterAndScore(clientsList, c => c.companyName);
-    const projects = filterAndScore(filteredProjectsList, p => p.name);
-    const filteredTasks = filterAndScore(tasksList, t => t.title);
+    const clients = filterAndScore(clientsList, c => c.companyName, clientFields);
+    const projects = filterAndScore(filteredProjectsList, p => p.name, projectFields);
+    const filteredTasks = filterAndScore(tasksList, t => t.title, taskFields);
 
     res.json({ 
       clients: clients.map(c => ({ id: c.id, name: c.companyName, type: "client" })),
@@ -125,6 +187,49 @@ searchRouter.get("/search", async (req, res) => {
   }
 });
 
+/**
+ * Full-text search across tasks, comments, notes, tickets, conversations, chat and files
+ *
+ * Ranked with ts_rank over the GIN-indexed search vectors (migration 0059); each hit
+ * carries a snippet with highlight ranges. Private tasks and projects follow
+ * lib/privateVisibility, chat follows channel and DM membership.
+ *
+ * @query q - Search text (min 2 chars); every word must match, the last ones as prefixes
+ * @query types - Comma-separated SearchEntityType values (default: all)
+ * @query limit - Page size (default 20, max 50)
+ * @query offset - Page offset (max 200)
+ * @returns SearchResponse - { hits, counts per type, total }
+ */
+searchRouter.get("/search/all", async (req, res) => {
+  try {
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) {
+      return sendError(res, AppError.forbidden("Tenant context required for search"), req);
+    }
+    if (req.user?.role === UserRole.CLIENT) {
+      return sendError(res, AppError.forbidden("Search is not available to portal users"), req);
+    }
+
+    const searchQuery = String(req.query.q || "").trim();
+    const limit = Math.min(parseInt(String(req.query.limit), 10) || 20, 50);
+    const offset = Math.min(Math.max(parseInt(String(req.query.offset), 10) || 0, 0), 200);
+    if (searchQuery.length < 2) {
+      return res.json({ hits: [], counts: {}, total: 0 });
+    }
+
+    res.json(await searchService.search({
+      tenantId,
+      userId: getCurrentUserId(req),
+      q: searchQuery,
+      types: parseSearchTypes(req.query.types),
+      limit,
+      offset,
+    }));
+  } catch (error) {
+    return handleRouteError(res, error, "GET /api/search/all", req);
+  }
+});
+
 searchRouter.get("/clients/:clientId/search", async (req, res) => {
   try {
     const tenantId = getEffectiveTenantId(req);
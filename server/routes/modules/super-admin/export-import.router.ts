@@ -9,8 +9,9 @@ import { z } from 'zod';
 import { recordTenantAuditEvent } from '../../superAdmin';
 import { parseCsv } from '../../../imports/csvParser';
 import { createJob, getJob, getJobsForTenant, updateJob, jobToDTO } from '../../../imports/jobStore';
-import { validateJob, executeJob } from '../../../imports/importEngine';
-import { ENTITY_FIELD_MAP, suggestMappings, type EntityType, type ColumnMapping } from '../../../../shared/imports/fieldCatalog';
+import { validateJob, executeJob, getEntityFields } from '../../../imports/importEngine';
+import { suggestMappings, type EntityType, type ColumnMapping } from '../../../../shared/imports/fieldCatalog';
+import { customFieldService } from '../../../features/customFields/customField.service';
 
 const largeJsonParser = express.json({ limit: "200mb" });
 
@@ -41,8 +42,9 @@ exportImportRouter.get("/tenants/:tenantId/export/clients", requireSuperUser, as
     }
     
     const tenantClients = await db.select().from(clients).where(eq(clients.tenantId, tenantId));
+    const custom = await customFieldService.getExportColumns(tenantId, "client");
     
-    const headers = ["companyName", "displayName", "industry", "website", "phone", "email", "status", "notes", "addressLine1", "addressLine2", "city", "state", "postalCode", "country"];
+    const headers = ["companyName", "displayName", "industry", "website", "phone", "email", "status", "notes", "addressLine1", "addressLine2", "city", "state", "postalCode", "country", ...custom.headers];
     const rows = tenantClients.map(c => [
       c.companyName,
       c.displayName,
@@ -58,6 +60,7 @@ exportImportRouter.get("/tenants/:tenantId/export/clients", requireSuperUser, as
       c.state,
       c.postalCode,
       c.country,
+      ...custom.cells(c.id),
     ]);
     
     const csv = generateCsv(headers, rows);
@@ -631,7 +634,7 @@ exportImportRouter.post("/tenants/:tenantId/import/jobs/:jobId/upload", largeJso
       return res.status(400).json({ error: `Too many rows. Maximum is ${MAX_ROW_COUNT}. File has ${parsed.rawRowCount} rows.` });
     }
 
-    const fields = ENTITY_FIELD_MAP[job.entityType];
+    const fields = await getEntityFields(tenantId, job.entityType);
     const suggestedMapping = suggestMappings(parsed.headers, fields);
 
     updateJob(jobId, {
@@ -767,7 +770,7 @@ exportImportRouter.get("/tenants/:tenantId/import/fields/:entityType", requireSu
     if (!VALID_ENTITY_TYPES.includes(entityType as EntityType)) {
       return res.status(400).json({ error: "Invalid entity type" });
     }
-    const fields = ENTITY_FIELD_MAP[entityType as EntityType];
+    const fields = await getEntityFields(req.params.tenantId, entityType as EntityType);
     res.json({ fields });
   } catch (error) {
     res.status(500).json({ error: "Failed to get fields" });
@@ -5,6 +5,8 @@ import { tenants, tenantAuditEvents } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import { z } from 'zod';
 import { recordTenantAuditEvent } from '../../superAdmin';
+import { AppError, sendError } from '../../../lib/errors';
+import { twoFactorService } from '../../../features/twoFactor/twoFactor.service';
 
 export const impersonationRouter = Router();
 
@@ -118,6 +120,12 @@ impersonationRouter.post("/impersonate/start", requireSuperUser, async (req, res
       return res.status(404).json({ error: "Tenant not found" });
     }
     
+    const { targetRequiresTwoFactor } = await twoFactorService.assertCanImpersonate(
+      user,
+      req.session.twoFactorVerifiedAt,
+      { userId: null, tenantId },
+    );
+    
     await db.insert(tenantAuditEvents).values({
       tenantId,
       userId: user.id,
@@ -128,6 +136,8 @@ impersonationRouter.post("/impersonate/start", requireSuperUser, async (req, res
         superUserId: user.id,
         superUserEmail: user.email,
         tenantName: tenant.name,
+        targetRequiresTwoFactor,
+        superUserTwoFactorVerified: !!req.session.twoFactorVerifiedAt,
         timestamp: new Date().toISOString(),
       },
     });
@@ -143,6 +153,9 @@ impersonationRouter.post("/impersonate/start", requireSuperUser, async (req, res
       }
     });
   } catch (error) {
+    if (error instanceof AppError) {
+      return sendError(res, error, req);
+    }
     console.error("[impersonate/start] Failed to start impersonation:", error);
     res.status(500).json({ error: "Failed to start impersonation" });
   }
@@ -2,8 +2,9 @@ import { Router } from 'express';
 import { requireSuperUser } from '../../../middleware/tenantContext';
 import { db } from '../../../db';
 import { tenants, TenantStatus, UserRole, users, projects, tasks, timeEntries, tenantAgreements, tenantSettings, invitations, taskAssignees } from '@shared/schema';
-import { eq, count, gte, lt, isNotNull, ne, desc, and, sql } from 'drizzle-orm';
+import { eq, count, gte, lt, isNotNull, desc, and, sql } from 'drizzle-orm';
 import * as schema from '@shared/schema';
+import { taskIsDone, taskIsOpen } from '../../../reports/taskStatusSql';
 
 export const reportsRouter = Router();
 
@@ -95,7 +96,7 @@ reportsRouter.get("/reports/projects-summary", requireSuperUser, async (req, res
       .where(and(
         isNotNull(tasks.projectId),
         lt(tasks.dueDate, now),
-        ne(tasks.status, "done")
+        taskIsOpen("tasks")
       ))
       .groupBy(tasks.projectId);
     const withOverdueTasks = projectsWithOverdue.length;
@@ -214,14 +215,14 @@ reportsRouter.get("/reports/tasks-summary", requireSuperUser, async (req, res) =
     
     const doneResult = await db.select({ count: count() })
       .from(tasks)
-      .where(eq(tasks.status, "done"));
+      .where(taskIsDone("tasks"));
     const doneCount = doneResult[0]?.count || 0;
     
     const overdueResult = await db.select({ count: count() })
       .from(tasks)
       .where(and(
         lt(tasks.dueDate, now),
-        ne(tasks.status, "done")
+        taskIsOpen("tasks")
       ));
     const overdue = overdueResult[0]?.count || 0;
     
@@ -230,7 +231,7 @@ reportsRouter.get("/reports/tasks-summary", requireSuperUser, async (req, res) =
       .where(and(
         gte(tasks.dueDate, startOfToday),
         lt(tasks.dueDate, endOfToday),
-        ne(tasks.status, "done")
+        taskIsOpen("tasks")
       ));
     const dueToday = dueTodayResult[0]?.count || 0;
     
@@ -239,7 +240,7 @@ reportsRouter.get("/reports/tasks-summary", requireSuperUser, async (req, res) =
       .where(and(
         gte(tasks.dueDate, endOfToday),
         lt(tasks.dueDate, in7Days),
-        ne(tasks.status, "done")
+        taskIsOpen("tasks")
       ));
     const upcoming = upcomingResult[0]?.count || 0;
     
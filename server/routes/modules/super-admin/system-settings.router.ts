@@ -3,6 +3,7 @@ import { requireSuperUser } from '../../../middleware/tenantContext';
 import { db } from '../../../db';
 import { systemSettings, updateSystemSettingsSchema } from '@shared/schema';
 import { eq } from 'drizzle-orm';
+import { twoFactorService } from '../../../features/twoFactor/twoFactor.service';
 
 export const systemSettingsRouter = Router();
 
@@ -22,6 +23,7 @@ systemSettingsRouter.get("/system-settings", requireSuperUser, async (req, res)
         platformVersion: "1.0.0",
         maintenanceMode: false,
         maintenanceMessage: null,
+        requireTwoFactor: false,
       });
     }
     
@@ -46,6 +48,10 @@ systemSettingsRouter.patch("/system-settings", requireSuperUser, async (req, res
     
     const [existing] = await db.select().from(systemSettings).limit(1);
     
+    if (updateData.requireTwoFactor !== undefined && updateData.requireTwoFactor !== (existing?.requireTwoFactor ?? false)) {
+      await twoFactorService.recordRequirementChange(null, req.user!, updateData.requireTwoFactor);
+    }
+    
     if (!existing) {
       const [newSettings] = await db.insert(systemSettings).values({
         id: 1,
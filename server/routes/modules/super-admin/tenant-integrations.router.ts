@@ -3,10 +3,11 @@ import { requireSuperUser } from '../../../middleware/tenantContext';
 import { storage } from '../../../storage';
 import { z } from 'zod';
 import { tenantIntegrationService, IntegrationProvider } from '../../../services/tenantIntegrations';
+import { emailIntegrationUpdateSchema, splitEmailIntegrationUpdate } from '../../../services/email/getEmailTransport';
 
 export const tenantIntegrationsRouter = Router();
 
-const validProviders: IntegrationProvider[] = ["mailgun", "s3"];
+const validProviders: IntegrationProvider[] = ["mailgun", "email", "s3"];
 
 function isValidProvider(provider: string): provider is IntegrationProvider {
   return validProviders.includes(provider as IntegrationProvider);
@@ -102,6 +103,10 @@ tenantIntegrationsRouter.put("/tenants/:tenantId/integrations/:provider", requir
       if (data.apiKey) {
         secretConfig = { apiKey: data.apiKey };
       }
+    } else if (provider === "email") {
+      const split = splitEmailIntegrationUpdate(emailIntegrationUpdateSchema.parse(req.body));
+      publicConfig = split.publicConfig;
+      secretConfig = split.secretConfig ?? {};
     } else if (provider === "s3") {
       const data = s3UpdateSchema.parse(req.body);
       publicConfig = {
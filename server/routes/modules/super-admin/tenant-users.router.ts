@@ -28,6 +28,8 @@ import { tenantIntegrationService } from '../../../services/tenantIntegrations';
 import Mailgun from 'mailgun.js';
 import FormData from 'form-data';
 import { recordTenantAuditEvent } from '../../superAdmin';
+import { AppError, sendError } from '../../../lib/errors';
+import { twoFactorService } from '../../../features/twoFactor/twoFactor.service';
 
 export const tenantUsersRouter = Router();
 
@@ -731,6 +733,12 @@ tenantUsersRouter.post("/tenants/:tenantId/users/:userId/impersonate-login", req
       return res.status(400).json({ error: "Cannot impersonate an inactive user" });
     }
     
+    const { targetRequiresTwoFactor } = await twoFactorService.assertCanImpersonate(
+      superUser,
+      req.session.twoFactorVerifiedAt,
+      { userId: targetUser.id, tenantId },
+    );
+    
     await recordTenantAuditEvent(
       tenantId,
       "super_impersonate_user",
@@ -740,7 +748,9 @@ tenantUsersRouter.post("/tenants/:tenantId/users/:userId/impersonate-login", req
         targetUserId: userId, 
         targetEmail: targetUser.email,
         superAdminId: superUser?.id,
-        superAdminEmail: superUser?.email
+        superAdminEmail: superUser?.email,
+        targetRequiresTwoFactor,
+        superAdminTwoFactorVerified: !!req.session.twoFactorVerifiedAt,
       }
     );
     
@@ -776,6 +786,9 @@ tenantUsersRouter.post("/tenants/:tenantId/users/:userId/impersonate-login", req
       message: `Now impersonating ${targetUser.email}. You will see the app as this user sees it.`,
     });
   } catch (error) {
+    if (error instanceof AppError) {
+      return sendError(res, error, req);
+    }
     console.error("Error impersonating user:", error);
     res.status(500).json({ error: "Failed to start impersonation" });
   }
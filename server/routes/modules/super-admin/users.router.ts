@@ -58,6 +58,8 @@ import * as schema from '@shared/schema';
 import { cleanupUserReferences } from '../../../utils/userDeletion';
 import { eq, sql, desc, and, count, gte, isNull, ne, inArray } from 'drizzle-orm';
 import { z } from 'zod';
+import { AppError, sendError } from '../../../lib/errors';
+import { twoFactorService } from '../../../features/twoFactor/twoFactor.service';
 
 export const superUsersRouter = Router();
 
@@ -526,6 +528,31 @@ superUsersRouter.post("/users/:userId/set-password", requireSuperUser, async (re
   }
 });
 
+superUsersRouter.post("/users/:userId/2fa/reset", requireSuperUser, async (req, res) => {
+  try {
+    const { userId } = req.params;
+    
+    if (userId === req.user!.id) {
+      return res.status(400).json({ error: "Use your profile to manage your own two-factor authentication" });
+    }
+    
+    const existingUser = await storage.getUser(userId);
+    if (!existingUser) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    
+    await twoFactorService.reset(existingUser, req.user!);
+    
+    res.json({ message: `Two-factor authentication reset for ${existingUser.email}` });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return sendError(res, error, req);
+    }
+    console.error("[super/users/:userId/2fa/reset] Error:", error);
+    res.status(500).json({ error: "Failed to reset two-factor authentication" });
+  }
+});
+
 superUsersRouter.post("/users/:userId/generate-reset-link", requireSuperUser, async (req, res) => {
   try {
     const { userId } = req.params;
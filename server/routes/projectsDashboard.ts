@@ -6,6 +6,7 @@ import { UserRole, TaskWithRelations } from "@shared/schema";
 import { AppError, handleRouteError } from "../lib/errors";
 import { config } from "../config";
 import { getAccessiblePrivateProjectIds, getAccessiblePrivateTaskIds } from "../lib/privateVisibility";
+import { workflowService, type TaskStatusChecks } from "../features/workflows/workflow.service";
 
 const router = createApiRouter({ policy: "authTenant" });
 const storage = new DatabaseStorage();
@@ -22,8 +23,8 @@ interface LightweightTask {
   updatedAt: Date;
 }
 
-function isTaskOverdue(task: TaskWithRelations | LightweightTask): boolean {
-  if (!task.dueDate || task.status === "done") return false;
+function isTaskOverdue(task: TaskWithRelations | LightweightTask, checks: TaskStatusChecks): boolean {
+  if (!task.dueDate || !checks.isOpen(task)) return false;
   const today = new Date();
   today.setHours(0, 0, 0, 0);
   const dueDate = new Date(task.dueDate);
@@ -31,8 +32,8 @@ function isTaskOverdue(task: TaskWithRelations | LightweightTask): boolean {
   return dueDate < today;
 }
 
-function isTaskDueToday(task: TaskWithRelations | LightweightTask): boolean {
-  if (!task.dueDate || task.status === "done") return false;
+function isTaskDueToday(task: TaskWithRelations | LightweightTask, checks: TaskStatusChecks): boolean {
+  if (!task.dueDate || !checks.isOpen(task)) return false;
   const today = new Date();
   today.setHours(0, 0, 0, 0);
   const dueDate = new Date(task.dueDate);
@@ -158,6 +159,7 @@ router.get("/projects/analytics/summary", async (req, res) => {
     // Batch fetch all tasks for all projects at once
     const projectIds = projects.map(p => p.id);
     const tasksByProject = await storage.getTasksByProjectIds(projectIds);
+    const checks = await workflowService.statusChecks(tenantId);
 
     let totalOpenTasks = 0;
     let totalOverdueTasks = 0;
@@ -178,10 +180,10 @@ router.get("/projects/analytics/summary", async (req, res) => {
     for (const project of projects) {
       const tasks = tasksByProject.get(project.id) || [];
       
-      const openTasks = tasks.filter(t => t.status !== "done");
-      const completedTasks = tasks.filter(t => t.status === "done");
-      const overdueTasks = tasks.filter(isTaskOverdue);
-      const dueToday = tasks.filter(isTaskDueToday);
+      const openTasks = tasks.filter(checks.isOpen);
+      const completedTasks = tasks.filter(checks.isDone);
+      const overdueTasks = tasks.filter((t) => isTaskOverdue(t, checks));
+      const dueToday = tasks.filter((t) => isTaskDueToday(t, checks));
       const unassignedOpen = openTasks.filter(t => t.assigneeUserIds.length === 0);
 
       totalOpenTasks += openTasks.length;
@@ -255,11 +257,12 @@ router.get("/projects/:projectId/analytics", async (req, res) => {
     }
 
     const tasks = await storage.getTasksByProject(projectId);
+    const checks = await workflowService.statusChecks(tenantId);
 
-    const openTasks = tasks.filter(t => t.status !== "done");
-    const completedTasks = tasks.filter(t => t.status === "done");
-    const overdueTasks = tasks.filter(isTaskOverdue);
-    const dueTodayTasks = tasks.filter(isTaskDueToday);
+    const openTasks = tasks.filter(checks.isOpen);
+    const completedTasks = tasks.filter(checks.isDone);
+    const overdueTasks = tasks.filter((t) => isTaskOverdue(t, checks));
+    const dueTodayTasks = tasks.filter((t) => isTaskDueToday(t, checks));
     const unassignedOpenTasks = openTasks.filter(t => !t.assignees || t.assignees.length === 0);
 
     const byStatus: Array<{ status: string; count: number }> = [];
@@ -394,8 +397,9 @@ router.get("/projects/:projectId/forecast", async (req, res) => {
     }
 
     const tasks = await storage.getTasksByProject(projectId);
-    const openTasks = tasks.filter(t => t.status !== "done");
-    const overdueTasks = tasks.filter(isTaskOverdue);
+    const checks = await workflowService.statusChecks(tenantId);
+    const openTasks = tasks.filter(checks.isOpen);
+    const overdueTasks = tasks.filter((t) => isTaskOverdue(t, checks));
 
     let timeEntries;
     if (tenantId) {
@@ -477,7 +481,7 @@ router.get("/projects/:projectId/forecast", async (req, res) => {
         assigneeData[userId].openTasks++;
         assigneeData[userId].estimateMinutesOpen += estimatePerAssignee;
 
-        if (isTaskOverdue(task)) {
+        if (isTaskOverdue(task, checks)) {
           assigneeData[userId].overdueTasks++;
         }
       }
@@ -620,6 +624,7 @@ router.get("/projects/forecast/summary", async (req, res) => {
         : storage.getTimeEntriesByWorkspace(workspaceId, {}),
       storage.getTasksByProjectIds(projectIds),
     ]);
+    const checks = await workflowService.statusChecks(tenantId);
 
     const perProject: Array<{
       projectId: string;
@@ -632,7 +637,7 @@ router.get("/projects/forecast/summary", async (req, res) => {
 
     for (const project of projects) {
       const tasks = tasksByProject.get(project.id) || [];
-      const openTasks = tasks.filter(t => t.status !== "done");
+      const openTasks = tasks.filter(checks.isOpen);
 
       const taskEstimateMinutes = tasks.reduce((sum, t) => sum + (t.estimateMinutes || 0), 0);
       const openTaskEstimateMinutes = openTasks.reduce((sum, t) => sum + (t.estimateMinutes || 0), 0);
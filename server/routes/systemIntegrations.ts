@@ -11,6 +11,8 @@ import { Router, Request, Response } from "express";
 import { z } from "zod";
 import { UserRole } from "@shared/schema";
 import { tenantIntegrationService } from "../services/tenantIntegrations";
+import { systemEmailIntegrationUpdateSchema, splitEmailIntegrationUpdate } from "../services/email/getEmailTransport";
+import { splitAIIntegrationUpdate, systemAIIntegrationUpdateSchema } from "../services/ai/getAIProvider";
 import { getStorageStatus } from "../storage/getStorageProvider";
 import { isEncryptionAvailable } from "../lib/encryption";
 import { AppError, handleRouteError } from "../lib/errors";
@@ -385,4 +387,134 @@ router.post("/integrations/openai/test", requireSuperUser, async (req: Request,
   }
 });
 
+// =============================================================================
+// EMAIL TRANSPORT - SYSTEM-LEVEL CONFIGURATION
+// =============================================================================
+
+/**
+ * GET /api/v1/system/integrations/email
+ * Get the system-level email transport used when a tenant has none
+ */
+router.get("/integrations/email", requireSuperUser, async (req: Request, res: Response) => {
+  try {
+    const integration = await tenantIntegrationService.getIntegration(null, "email");
+    res.json({
+      ...(integration ?? {
+        provider: "email",
+        status: "not_configured",
+        publicConfig: null,
+        secretConfigured: false,
+        lastTestedAt: null,
+      }),
+      isSystemDefault: true,
+    });
+  } catch (error) {
+    handleRouteError(res, error, "systemIntegrations.getEmail", req);
+  }
+});
+
+/**
+ * PUT /api/v1/system/integrations/email
+ * Update the system-level email transport (driver, sender and credentials)
+ */
+router.put("/integrations/email", requireSuperUser, async (req: Request, res: Response) => {
+  try {
+    if (process.env.NODE_ENV === "production" && !isEncryptionAvailable()) {
+      throw AppError.badRequest("Encryption key not configured. Cannot save secrets.");
+    }
+
+    const data = systemEmailIntegrationUpdateSchema.parse(req.body);
+    const result = await tenantIntegrationService.upsertIntegration(null, "email", splitEmailIntegrationUpdate(data));
+
+    res.json({
+      ...result,
+      isSystemDefault: true,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleRouteError(res, AppError.badRequest("Invalid request data"), "systemIntegrations.updateEmail", req);
+    }
+    handleRouteError(res, error, "systemIntegrations.updateEmail", req);
+  }
+});
+
+/**
+ * POST /api/v1/system/integrations/email/test
+ * Verify the system-level email transport without sending
+ */
+router.post("/integrations/email/test", requireSuperUser, async (req: Request, res: Response) => {
+  try {
+    const result = await tenantIntegrationService.testIntegration(null, "email");
+    res.json(result);
+  } catch (error) {
+    console.error("[system-integrations] Error testing email integration:", error);
+    res.json({ success: false, message: "Failed to test email integration" });
+  }
+});
+
+// =============================================================================
+// AI PROVIDER - SYSTEM-LEVEL CONFIGURATION
+// =============================================================================
+
+/**
+ * GET /api/v1/system/integrations/ai
+ * Get the system-level AI provider used when a tenant has none
+ */
+router.get("/integrations/ai", requireSuperUser, async (req: Request, res: Response) => {
+  try {
+    const integration = await tenantIntegrationService.getIntegration(null, "ai");
+    res.json({
+      ...(integration ?? {
+        provider: "ai",
+        status: "not_configured",
+        publicConfig: null,
+        secretConfigured: false,
+        lastTestedAt: null,
+      }),
+      isSystemDefault: true,
+    });
+  } catch (error) {
+    handleRouteError(res, error, "systemIntegrations.getAI", req);
+  }
+});
+
+/**
+ * PUT /api/v1/system/integrations/ai
+ * Update the system-level AI provider (driver, models and credentials)
+ */
+router.put("/integrations/ai", requireSuperUser, async (req: Request, res: Response) => {
+  try {
+    if (process.env.NODE_ENV === "production" && !isEncryptionAvailable()) {
+      throw AppError.badRequest("Encryption key not configured. Cannot save secrets.");
+    }
+
+    const data = systemAIIntegrationUpdateSchema.parse(req.body);
+    const result = await tenantIntegrationService.upsertIntegration(null, "ai", splitAIIntegrationUpdate(data));
+
+    res.json({
+      ...result,
+      isSystemDefault: true,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleRouteError(res, AppError.badRequest("Invalid request data"), "systemIntegrations.updateAI", req);
+    }
+    handleRouteError(res, error, "systemIntegrations.updateAI", req);
+  }
+});
+
+/**
+ * POST /api/v1/system/integrations/ai/test
+ * Send a one-token prompt through the system-level AI provider
+ */
+router.post("/integrations/ai/test", requireSuperUser, async (req: Request, res: Response) => {
+  try {
+    const result = await tenantIntegrationService.testIntegration(null, "ai");
+    res.json(result);
+  } catch (error) {
+    console.error("[system-integrations] Error testing AI integration:", error);
+    res.json({ success: false, message: "Failed to test AI integration" });
+  }
+});
+
 export default router;
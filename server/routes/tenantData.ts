@@ -10,8 +10,9 @@ import { getEffectiveTenantId } from "../middleware/tenantContext";
 import { AppError, handleRouteError } from "../lib/errors";
 import { parseCsv } from "../imports/csvParser";
 import { createJob, getJob, getJobsForTenant, updateJob, jobToDTO } from "../imports/jobStore";
-import { validateJob, executeJob } from "../imports/importEngine";
-import { ENTITY_FIELD_MAP, suggestMappings, type EntityType, type ColumnMapping } from "../../shared/imports/fieldCatalog";
+import { validateJob, executeJob, getEntityFields } from "../imports/importEngine";
+import { suggestMappings, type EntityType, type ColumnMapping } from "../../shared/imports/fieldCatalog";
+import { customFieldService } from "../features/customFields/customField.service";
 import { tenantIntegrationService } from "../services/tenantIntegrations";
 import { AsanaClient } from "../services/asana/asanaClient";
 import { AsanaImportPipeline, type AsanaImportOptions } from "../services/asana/importPipeline";
@@ -59,9 +60,12 @@ router.get("/export/clients", requireAuth, requireTenantAdmin, async (req: any,
 
     const tenantClients = await db.select().from(clients).where(eq(clients.tenantId, tenantId));
 
-    const headers = ["companyName", "displayName", "industry", "website", "phone", "email", "status", "notes", "addressLine1", "addressLine2", "city", "state", "postalCode", "country"];
+    const custom = await customFieldService.getExportColumns(tenantId, "client");
+
+    const headers = ["companyName", "displayName", "industry", "website", "phone", "email", "status", "notes", "addressLine1", "addressLine2", "city", "state", "postalCode", "country", ...custom.headers];
     const rows = tenantClients.map(c => [
       c.companyName, c.displayName, c.industry, c.website, c.phone, c.email, c.status, c.notes, c.addressLine1, c.addressLine2, c.city, c.state, c.postalCode, c.country,
+      ...custom.cells(c.id),
     ]);
 
     const csv = generateCsv(headers, rows);
@@ -74,6 +78,62 @@ router.get("/export/clients", requireAuth, requireTenantAdmin, async (req: any,
   }
 });
 
+router.get("/export/projects", requireAuth, requireTenantAdmin, async (req: any, res) => {
+  try {
+    const tenantId = req.effectiveTenantId;
+    const tenant = await storage.getTenant(tenantId);
+    if (!tenant) return res.status(404).json({ error: "Tenant not found" });
+
+    const tenantProjects = await db.select({ project: projects, clientName: clients.companyName })
+      .from(projects)
+      .leftJoin(clients, eq(projects.clientId, clients.id))
+      .where(eq(projects.tenantId, tenantId));
+    const custom = await customFieldService.getExportColumns(tenantId, "project");
+
+    const headers = ["name", "clientName", "description", "status", "color", "budgetMinutes", ...custom.headers];
+    const rows = tenantProjects.map(({ project: p, clientName }) => [
+      p.name, clientName, p.description, p.status, p.color, p.budgetMinutes,
+      ...custom.cells(p.id),
+    ]);
+
+    const csv = generateCsv(headers, rows);
+    res.setHeader("Content-Type", "text/csv");
+    res.setHeader("Content-Disposition", `attachment; filename="${tenant.slug}-projects.csv"`);
+    res.send(csv);
+  } catch (error) {
+    console.error("[tenant-export] Failed to export projects:", error);
+    res.status(500).json({ error: "Failed to export projects" });
+  }
+});
+
+router.get("/export/tasks", requireAuth, requireTenantAdmin, async (req: any, res) => {
+  try {
+    const tenantId = req.effectiveTenantId;
+    const tenant = await storage.getTenant(tenantId);
+    if (!tenant) return res.status(404).json({ error: "Tenant not found" });
+
+    const tenantTasks = await db.select({ task: tasks, projectName: projects.name })
+      .from(tasks)
+      .leftJoin(projects, eq(tasks.projectId, projects.id))
+      .where(and(eq(tasks.tenantId, tenantId), eq(tasks.isPersonal, false)));
+    const custom = await customFieldService.getExportColumns(tenantId, "task");
+
+    const headers = ["title", "projectName", "status", "priority", "startDate", "dueDate", "estimateMinutes", ...custom.headers];
+    const rows = tenantTasks.map(({ task: t, projectName }) => [
+      t.title, projectName, t.status, t.priority, t.startDate?.toISOString(), t.dueDate?.toISOString(), t.estimateMinutes,
+      ...custom.cells(t.id),
+    ]);
+
+    const csv = generateCsv(headers, rows);
+    res.setHeader("Content-Type", "text/csv");
+    res.setHeader("Content-Disposition", `attachment; filename="${tenant.slug}-tasks.csv"`);
+    res.send(csv);
+  } catch (error) {
+    console.error("[tenant-export] Failed to export tasks:", error);
+    res.status(500).json({ error: "Failed to export tasks" });
+  }
+});
+
 router.get("/export/users", requireAuth, requireTenantAdmin, async (req: any, res) => {
   try {
     const tenantId = req.effectiveTenantId;
@@ -329,7 +389,7 @@ router.post("/import/jobs/:jobId/upload", largeJsonParser, requireAuth, requireT
     if (parsed.rows.length === 0) return res.status(400).json({ error: "CSV file is empty or has no data rows" });
     if (parsed.rawRowCount > MAX_ROW_COUNT) return res.status(400).json({ error: `Too many rows. Maximum is ${MAX_ROW_COUNT}.` });
 
-    const fields = ENTITY_FIELD_MAP[job.entityType];
+    const fields = await getEntityFields(tenantId, job.entityType);
     const suggestedMapping = suggestMappings(parsed.headers, fields);
 
     updateJob(jobId, {
@@ -467,7 +527,7 @@ router.get("/import/fields/:entityType", requireAuth, requireTenantAdmin, async
     if (!VALID_ENTITY_TYPES.includes(entityType as EntityType)) {
       return res.status(400).json({ error: "Invalid entity type" });
     }
-    const fields = ENTITY_FIELD_MAP[entityType as EntityType];
+    const fields = await getEntityFields(req.effectiveTenantId, entityType as EntityType);
     res.json({ fields });
   } catch (error) {
     res.status(500).json({ error: "Failed to get fields" });
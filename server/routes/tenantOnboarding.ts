@@ -14,6 +14,7 @@
  * - GET  /api/v1/tenant/integrations/:provider - Get specific integration
  * - PUT  /api/v1/tenant/integrations/:provider - Update integration
  * - POST /api/v1/tenant/integrations/:provider/test - Test integration
+ * - POST /api/v1/tenant/integrations/email/send-test-email - Send a test email via the resolved transport
  */
 
 import { Request, Response, NextFunction } from "express";
@@ -27,10 +28,14 @@ import { eq } from "drizzle-orm";
 import { requireAuth } from "../auth";
 import { getEffectiveTenantId } from "../middleware/tenantContext";
 import { tenantIntegrationService, IntegrationProvider } from "../services/tenantIntegrations";
+import { emailIntegrationUpdateSchema, splitEmailIntegrationUpdate } from "../services/email/getEmailTransport";
+import { aiIntegrationUpdateSchema, splitAIIntegrationUpdate } from "../services/ai/getAIProvider";
+import { emailOutboxService } from "../services/emailOutbox";
 import multer from "multer";
 import { validateBrandAsset, generateBrandAssetKey, uploadToS3, isS3Configured, getMimeType } from "../s3";
 import { getStorageStatus } from "../storage/getStorageProvider";
 import { AppError, handleRouteError } from "../lib/errors";
+import { twoFactorService } from "../features/twoFactor/twoFactor.service";
 
 const upload = multer({ 
   storage: multer.memoryStorage(),
@@ -189,6 +194,7 @@ const updateSettingsSchema = z.object({
   hideVendorBranding: z.boolean().optional(),
   messagePermissions: messagePermissionsSchema.optional(),
   aiChatEnabled: z.boolean().optional(),
+  requireTwoFactor: z.boolean().optional(),
 });
 
 router.patch("/settings", requireAuth, requireTenantAdmin, async (req, res) => {
@@ -210,6 +216,10 @@ router.patch("/settings", requireAuth, requireTenantAdmin, async (req, res) => {
     }
 
     const updatedSettings = await storage.updateTenantSettings(tenantId, data);
+
+    if (data.requireTwoFactor !== undefined && data.requireTwoFactor !== settings.requireTwoFactor) {
+      await twoFactorService.recordRequirementChange(tenantId, req.user!, data.requireTwoFactor);
+    }
     
     res.json({
       success: true,
@@ -394,6 +404,7 @@ router.get("/settings", requireAuth, requireTenantAdmin, async (req, res) => {
         hideVendorBranding: settings.hideVendorBranding,
         messagePermissions: parsedPerms?.success ? parsedPerms.data : DEFAULT_MESSAGE_PERMISSIONS,
         aiChatEnabled: settings.aiChatEnabled ?? false,
+        requireTwoFactor: settings.requireTwoFactor,
       },
     });
   } catch (error) {
@@ -405,7 +416,7 @@ router.get("/settings", requireAuth, requireTenantAdmin, async (req, res) => {
 // INTEGRATION ENDPOINTS
 // =============================================================================
 
-const validProviders: IntegrationProvider[] = ["mailgun", "s3", "r2", "openai"];
+const validProviders: IntegrationProvider[] = ["mailgun", "email", "s3", "r2", "openai", "ai"];
 
 function isValidProvider(provider: string): provider is IntegrationProvider {
   return validProviders.includes(provider as IntegrationProvider);
@@ -502,6 +513,10 @@ router.put("/integrations/:provider", requireAuth, requireTenantAdmin, async (re
       if (data.apiKey) {
         secretConfig = { apiKey: data.apiKey };
       }
+    } else if (provider === "email") {
+      const split = splitEmailIntegrationUpdate(emailIntegrationUpdateSchema.parse(req.body));
+      publicConfig = split.publicConfig;
+      secretConfig = split.secretConfig ?? {};
     } else if (provider === "s3") {
       const data = s3UpdateSchema.parse(req.body);
       publicConfig = {
@@ -533,6 +548,10 @@ router.put("/integrations/:provider", requireAuth, requireTenantAdmin, async (re
           secretAccessKey: data.secretAccessKey,
         };
       }
+    } else if (provider === "ai") {
+      const split = splitAIIntegrationUpdate(aiIntegrationUpdateSchema.parse(req.body));
+      publicConfig = split.publicConfig;
+      secretConfig = split.secretConfig ?? {};
     } else if (provider === "openai") {
       const data = openaiUpdateSchema.parse(req.body);
       publicConfig = {
@@ -608,6 +627,41 @@ router.post("/integrations/mailgun/send-test-email", requireAuth, requireTenantA
   }
 });
 
+// POST /api/v1/tenant/integrations/email/send-test-email - Send a test email through the outbox
+router.post("/integrations/email/send-test-email", requireAuth, requireTenantAdmin, async (req, res) => {
+  const requestId = crypto.randomUUID();
+  res.setHeader("X-Request-Id", requestId);
+
+  try {
+    const tenantId = getEffectiveTenantId(req);
+    if (!tenantId) throw AppError.tenantRequired();
+    const { toEmail } = req.body;
+
+    if (!toEmail || typeof toEmail !== "string" || !toEmail.includes("@")) {
+      throw AppError.badRequest("A valid recipient email address is required");
+    }
+
+    const tenant = await storage.getTenant(tenantId);
+    const timestamp = new Date().toISOString();
+    const result = await emailOutboxService.sendEmail({
+      tenantId,
+      messageType: "test_email",
+      toEmail,
+      subject: "Email Test - MyWorkDay",
+      textBody: `This is a test email from MyWorkDay.\n\nTenant: ${tenant?.name || "Unknown Tenant"}\nTimestamp: ${timestamp}\nRequest ID: ${requestId}\n\nIf you received this email, your email integration is working correctly.`,
+      requestId,
+    });
+
+    if (!result.success) {
+      throw AppError.badRequest(result.error || "Failed to send test email");
+    }
+
+    res.json({ success: true, message: "Test email sent successfully", emailId: result.emailId });
+  } catch (error) {
+    handleRouteError(res, error, "tenantOnboarding.sendTestEmailViaTransport", req);
+  }
+});
+
 // =============================================================================
 // STORAGE STATUS ENDPOINT
 // =============================================================================
@@ -29,6 +29,7 @@ import {
   comments,
 } from "@shared/schema";
 import { cleanupUserReferences } from "../utils/userDeletion";
+import { twoFactorService } from "../features/twoFactor/twoFactor.service";
 
 const router = createApiRouter({ policy: "authTenant" });
 
@@ -418,6 +419,29 @@ router.post("/users/:id/activate", requireAdmin, async (req, res) => {
   }
 });
 
+router.post("/users/:id/reset-two-factor", requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const currentUser = req.user as any;
+    const tenantId = req.tenant?.effectiveTenantId || currentUser?.tenantId;
+
+    if (!tenantId) throw AppError.tenantRequired();
+
+    if (id === currentUser.id) {
+      throw AppError.badRequest("Use your profile to manage your own two-factor authentication");
+    }
+
+    const targetUser = await storage.getUserByIdAndTenant(id, tenantId);
+    if (!targetUser) throw AppError.notFound("User not found in your organization");
+
+    await twoFactorService.reset(targetUser, currentUser);
+
+    res.json({ message: "Two-factor authentication reset. The user will set it up again at next sign-in if required." });
+  } catch (error) {
+    return handleRouteError(res, error, "POST /api/users/:id/reset-two-factor", req);
+  }
+});
+
 router.post("/users/:id/deactivate", requireAdmin, async (req, res) => {
   try {
     const { id } = req.params;
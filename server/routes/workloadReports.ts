@@ -3,6 +3,7 @@ import { DatabaseStorage } from "../storage";
 import { getEffectiveTenantId } from "../middleware/tenantContext";
 import { UserRole, User, TaskWithRelations } from "@shared/schema";
 import { AppError, handleRouteError } from "../lib/errors";
+import { workflowService } from "../features/workflows/workflow.service";
 
 const router = Router();
 const storage = new DatabaseStorage();
@@ -43,6 +44,7 @@ router.get("/workload/tasks-by-employee", async (req, res) => {
     }
 
     const tenantId = getEffectiveTenantId(req);
+    const { isDone } = await workflowService.statusChecks(tenantId);
     const status = typeof req.query.status === "string" ? req.query.status : undefined;
 
     const users = await storage.getUsersByTenant(tenantId || "");
@@ -55,8 +57,8 @@ router.get("/workload/tasks-by-employee", async (req, res) => {
       users.map(async (user: User) => {
         const allTasks = await storage.getTasksByUser(user.id);
         
-        let openTasks = allTasks.filter((t: TaskWithRelations) => t.status !== "done");
-        let completedTasks = allTasks.filter((t: TaskWithRelations) => t.status === "done");
+        let openTasks = allTasks.filter((t: TaskWithRelations) => !isDone(t));
+        let completedTasks = allTasks.filter((t: TaskWithRelations) => isDone(t));
         
         if (status === "open") {
           completedTasks = [];
@@ -134,6 +136,7 @@ router.get("/workload/employee/:userId/tasks", async (req, res) => {
     }
 
     const tenantId = getEffectiveTenantId(req);
+    const { isDone } = await workflowService.statusChecks(tenantId);
     const { userId } = req.params;
     const filter = typeof req.query.filter === "string" ? req.query.filter : undefined;
 
@@ -155,27 +158,27 @@ router.get("/workload/employee/:userId/tasks", async (req, res) => {
 
     if (filter === "overdue") {
       filteredTasks = allTasks.filter((t: TaskWithRelations) => {
-        if (t.status === "done" || !t.dueDate) return false;
+        if (isDone(t) || !t.dueDate) return false;
         const dueDate = new Date(t.dueDate);
         dueDate.setHours(0, 0, 0, 0);
         return dueDate < today;
       });
     } else if (filter === "today") {
       filteredTasks = allTasks.filter((t: TaskWithRelations) => {
-        if (t.status === "done" || !t.dueDate) return false;
+        if (isDone(t) || !t.dueDate) return false;
         const dueDate = new Date(t.dueDate);
         dueDate.setHours(0, 0, 0, 0);
         return dueDate.getTime() === today.getTime();
       });
     } else if (filter === "next7days") {
       filteredTasks = allTasks.filter((t: TaskWithRelations) => {
-        if (t.status === "done" || !t.dueDate) return false;
+        if (isDone(t) || !t.dueDate) return false;
         const dueDate = new Date(t.dueDate);
         dueDate.setHours(0, 0, 0, 0);
         return dueDate >= tomorrow && dueDate <= next7Days;
       });
     } else if (filter === "open") {
-      filteredTasks = allTasks.filter((t: TaskWithRelations) => t.status !== "done");
+      filteredTasks = allTasks.filter((t: TaskWithRelations) => !isDone(t));
     }
 
     const tasksWithProject = await Promise.all(
@@ -216,6 +219,7 @@ router.get("/workload/unassigned", async (req, res) => {
     }
 
     const tenantId = getEffectiveTenantId(req);
+    const { isDone } = await workflowService.statusChecks(tenantId);
     const workspaceId = getCurrentWorkspaceId(req);
 
     const projects = tenantId 
@@ -227,7 +231,7 @@ router.get("/workload/unassigned", async (req, res) => {
     for (const project of projects) {
       const tasks = await storage.getTasksByProject(project.id);
       for (const task of tasks) {
-        if (task.status === "done") continue;
+        if (isDone(task)) continue;
         const hasAssignees = task.assignees && task.assignees.length > 0;
         if (!hasAssignees) {
           unassignedTasks.push({
@@ -304,6 +308,7 @@ router.get("/workload/by-priority", async (req, res) => {
     }
 
     const tenantId = getEffectiveTenantId(req);
+    const { isDone } = await workflowService.statusChecks(tenantId);
     const workspaceId = getCurrentWorkspaceId(req);
 
     const projects = tenantId 
@@ -321,7 +326,7 @@ router.get("/workload/by-priority", async (req, res) => {
     for (const project of projects) {
       const tasks = await storage.getTasksByProject(project.id);
       for (const task of tasks) {
-        if (task.status === "done") continue;
+        if (isDone(task)) continue;
         const priority = task.priority || "none";
         priorityCounts[priority] = (priorityCounts[priority] || 0) + 1;
       }
@@ -346,6 +351,7 @@ router.get("/workload/summary", async (req, res) => {
     }
 
     const tenantId = getEffectiveTenantId(req);
+    const { isDone } = await workflowService.statusChecks(tenantId);
     const workspaceId = getCurrentWorkspaceId(req);
 
     const users = await storage.getUsersByTenant(tenantId || "");
@@ -364,7 +370,7 @@ router.get("/workload/summary", async (req, res) => {
       const tasks = await storage.getTasksByProject(project.id);
       
       for (const task of tasks) {
-        if (task.status === "done") {
+        if (isDone(task)) {
           totalCompletedTasks++;
         } else {
           totalOpenTasks++;
@@ -4,7 +4,7 @@
  * This module provides storage operations using Cloudflare R2 as the exclusive storage provider.
  * Uses S3-compatible API via AWS SDK for R2 operations.
  */
-import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, HeadObjectCommand } from "@aws-sdk/client-s3";
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, HeadObjectCommand, CopyObjectCommand } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import mime from "mime-types";
 import { getStorageProvider, createS3ClientFromConfig, StorageNotConfiguredError, type S3Config } from "./storage/getStorageProvider";
@@ -222,6 +222,18 @@ export async function deleteS3Object(storageKey: string, tenantId: string | null
   await client.send(command);
 }
 
+export async function copyS3Object(sourceKey: string, destinationKey: string, tenantId: string | null = null): Promise<void> {
+  const { client, config } = await initStorageConfig(tenantId);
+
+  const command = new CopyObjectCommand({
+    Bucket: config.bucketName,
+    CopySource: `${config.bucketName}/${encodeURIComponent(sourceKey).replace(/%2F/g, "/")}`,
+    Key: destinationKey,
+  });
+
+  await client.send(command);
+}
+
 export async function checkObjectExists(storageKey: string, tenantId: string | null = null): Promise<boolean> {
   const { client, config } = await initStorageConfig(tenantId);
   
@@ -324,6 +336,17 @@ export function generateAvatarKey(
   return `system/users/${userId}/avatar/${uuid}-${sanitized}`;
 }
 
+/** Every template attachment of a tenant lives under this prefix. */
+export function templateAttachmentPrefix(tenantId: string): string {
+  return `project-templates/${tenantId}/`;
+}
+
+export function generateTemplateAttachmentKey(tenantId: string, fileName: string): string {
+  const uuid = crypto.randomUUID();
+  const sanitized = sanitizeFileName(fileName);
+  return `${templateAttachmentPrefix(tenantId)}${uuid}-${sanitized}`;
+}
+
 export async function uploadToS3(
   buffer: Buffer,
   storageKey: string,
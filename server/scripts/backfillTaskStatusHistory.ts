@@ -0,0 +1,41 @@
+/**
+ * Task Status History Backfill
+ *
+ * One-time backfill after migration 0055:
+ * 1. Copies task `status_changed` / `completed` entries from activity_log into task_status_history
+ * 2. Sets tasks.completed_at on done tasks from the last recorded completion, else updated_at
+ *
+ * Safe to re-run; rows already copied are skipped.
+ *
+ * Run with: npx tsx server/scripts/backfillTaskStatusHistory.ts [--dry-run]
+ */
+
+import { statusHistoryRepo } from "../features/statusHistory/statusHistory.repo";
+
+async function main() {
+  const isDryRun = process.argv.includes("--dry-run");
+
+  if (isDryRun) {
+    console.log("[backfill] DRY RUN - no records will be written");
+    const history = await statusHistoryRepo.backfillFromActivityLog(true);
+    const completed = await statusHistoryRepo.backfillCompletedAt(true);
+    console.log(`[backfill] Would copy ${history} status changes and stamp ${completed} completed tasks`);
+    process.exit(0);
+  }
+
+  console.log("[backfill] Copying task status changes from activity_log...");
+  const history = await statusHistoryRepo.backfillFromActivityLog();
+  console.log(`[backfill] Status history rows created: ${history}`);
+
+  console.log("[backfill] Setting completed_at on done tasks...");
+  const completed = await statusHistoryRepo.backfillCompletedAt();
+  console.log(`[backfill] Tasks stamped: ${completed}`);
+
+  console.log("[backfill] Backfill complete");
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("[backfill] Fatal error:", err);
+  process.exit(1);
+});
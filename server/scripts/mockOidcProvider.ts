@@ -0,0 +1,173 @@
+/**
+ * Mock OIDC Identity Provider
+ *
+ * A minimal local IdP for trying tenant single sign-on without a real provider. It supports
+ * discovery, the authorization code flow with PKCE, signed ID tokens, userinfo and JWKS.
+ * The authorize page lets you type any email, so JIT provisioning can be exercised too.
+ *
+ * Run with: npx tsx server/scripts/mockOidcProvider.ts
+ * Then in Settings → Single Sign-On choose OIDC with:
+ *   Issuer URL:    http://localhost:5055
+ *   Client ID:     myworkday        (MOCK_IDP_CLIENT_ID)
+ *   Client secret: mock-secret      (MOCK_IDP_CLIENT_SECRET)
+ *
+ * Development only: codes and tokens live in memory and every login is approved.
+ */
+
+import express from "express";
+import { createHash, randomBytes } from "crypto";
+import { SignJWT, exportJWK, generateKeyPair } from "jose";
+
+const PORT = parseInt(process.env.MOCK_IDP_PORT || "5055", 10);
+const ISSUER = process.env.MOCK_IDP_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_IDP_CLIENT_ID || "myworkday";
+const CLIENT_SECRET = process.env.MOCK_IDP_CLIENT_SECRET || "mock-secret";
+const DEFAULT_EMAIL = process.env.MOCK_IDP_EMAIL || "sso.user@example.com";
+const CODE_TTL_MS = 60 * 1000;
+
+interface PendingCode {
+  redirectUri: string;
+  nonce: string | undefined;
+  codeChallenge: string | undefined;
+  email: string;
+  givenName: string;
+  familyName: string;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+const accessTokens = new Map<string, PendingCode>();
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+}
+
+function subjectFor(email: string): string {
+  return createHash("sha256").update(email.toLowerCase()).digest("hex").slice(0, 24);
+}
+
+function clientCredentials(req: express.Request): { id?: string; secret?: string } {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Basic ")) {
+    const [id, secret] = Buffer.from(header.slice(6), "base64").toString().split(":");
+    return { id: decodeURIComponent(id), secret: decodeURIComponent(secret ?? "") };
+  }
+  return { id: req.body.client_id, secret: req.body.client_secret };
+}
+
+async function main() {
+  const { publicKey, privateKey } = await generateKeyPair("RS256");
+  const jwk = { ...(await exportJWK(publicKey)), kid: "mock-key", alg: "RS256", use: "sig" };
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get("/.well-known/openid-configuration", (_req, res) => {
+    res.json({
+      issuer: ISSUER,
+      authorization_endpoint: `${ISSUER}/authorize`,
+      token_endpoint: `${ISSUER}/token`,
+      userinfo_endpoint: `${ISSUER}/userinfo`,
+      jwks_uri: `${ISSUER}/jwks`,
+      response_types_supported: ["code"],
+      subject_types_supported: ["public"],
+      id_token_signing_alg_values_supported: ["RS256"],
+      scopes_supported: ["openid", "email", "profile"],
+      token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post"],
+      code_challenge_methods_supported: ["S256"],
+    });
+  });
+
+  app.get("/jwks", (_req, res) => {
+    res.json({ keys: [jwk] });
+  });
+
+  app.get("/authorize", (req, res) => {
+    const q = req.query as Record<string, string>;
+    if (q.client_id !== CLIENT_ID) return res.status(400).send("Unknown client_id");
+    const hidden = ["redirect_uri", "state", "nonce", "code_challenge"]
+      .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(q[name] ?? "")}">`)
+      .join("");
+    res.send(`<!doctype html><title>Mock IdP</title>
+      <form method="post" style="font-family:sans-serif;max-width:320px;margin:80px auto;display:grid;gap:8px">
+        <h2>Mock identity provider</h2>
+        ${hidden}
+        <label>Email <input name="email" value="${escapeHtml(DEFAULT_EMAIL)}" style="width:100%"></label>
+        <label>First name <input name="given_name" value="Sso" style="width:100%"></label>
+        <label>Last name <input name="family_name" value="User" style="width:100%"></label>
+        <button type="submit">Sign in</button>
+      </form>`);
+  });
+
+  app.post("/authorize", (req, res) => {
+    const code = randomBytes(16).toString("hex");
+    codes.set(code, {
+      redirectUri: req.body.redirect_uri,
+      nonce: req.body.nonce || undefined,
+      codeChallenge: req.body.code_challenge || undefined,
+      email: String(req.body.email || DEFAULT_EMAIL).trim(),
+      givenName: String(req.body.given_name || ""),
+      familyName: String(req.body.family_name || ""),
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+    const redirect = new URL(req.body.redirect_uri);
+    redirect.searchParams.set("code", code);
+    if (req.body.state) redirect.searchParams.set("state", req.body.state);
+    res.redirect(redirect.toString());
+  });
+
+  app.post("/token", async (req, res) => {
+    const client = clientCredentials(req);
+    if (client.id !== CLIENT_ID || client.secret !== CLIENT_SECRET) {
+      return res.status(401).json({ error: "invalid_client" });
+    }
+    const pending = codes.get(req.body.code);
+    codes.delete(req.body.code);
+    if (!pending || pending.expiresAt < Date.now() || pending.redirectUri !== req.body.redirect_uri) {
+      return res.status(400).json({ error: "invalid_grant" });
+    }
+    if (pending.codeChallenge) {
+      const challenge = createHash("sha256").update(String(req.body.code_verifier ?? "")).digest("base64url");
+      if (challenge !== pending.codeChallenge) return res.status(400).json({ error: "invalid_grant" });
+    }
+
+    const idToken = await new SignJWT({
+      email: pending.email,
+      email_verified: true,
+      given_name: pending.givenName,
+      family_name: pending.familyName,
+      nonce: pending.nonce,
+    })
+      .setProtectedHeader({ alg: "RS256", kid: jwk.kid })
+      .setIssuer(ISSUER)
+      .setAudience(CLIENT_ID)
+      .setSubject(subjectFor(pending.email))
+      .setIssuedAt()
+      .setExpirationTime("5m")
+      .sign(privateKey);
+    const accessToken = randomBytes(16).toString("hex");
+    accessTokens.set(accessToken, pending);
+    res.json({ access_token: accessToken, token_type: "Bearer", expires_in: 300, id_token: idToken });
+  });
+
+  app.get("/userinfo", (req, res) => {
+    const pending = accessTokens.get((req.headers.authorization ?? "").replace(/^Bearer /, ""));
+    if (!pending) return res.status(401).json({ error: "invalid_token" });
+    res.json({
+      sub: subjectFor(pending.email),
+      email: pending.email,
+      email_verified: true,
+      given_name: pending.givenName,
+      family_name: pending.familyName,
+    });
+  });
+
+  app.listen(PORT, () => {
+    console.log(`[mock-idp] OIDC provider listening on ${ISSUER} (client_id=${CLIENT_ID})`);
+  });
+}
+
+main().catch((error) => {
+  console.error("[mock-idp] Failed to start:", error);
+  process.exit(1);
+});
@@ -1,123 +1,13 @@
-import OpenAI from "openai";
-import { db } from "../../db";
-import { systemSettings } from "@shared/schema";
-import { eq } from "drizzle-orm";
-import crypto from "crypto";
+import { completeAI, completeAIJson } from "./completeAI";
+import { AI_DRIVERS, createAIProvider, type AIDriver } from "./providers";
+import { getAIConfigStatus } from "./systemAIConfig";
 
-function getEncryptionSecret(): string {
-  const secret = process.env.SESSION_SECRET;
-  if (!secret || secret.length < 16) {
-    throw new Error("SESSION_SECRET environment variable is required for AI encryption (minimum 16 characters)");
-  }
-  return secret;
-}
-
-function getEncryptionKey(): Buffer {
-  const secret = getEncryptionSecret();
-  const salt = crypto.createHash("sha256").update(secret).digest().slice(0, 16);
-  return crypto.scryptSync(secret, salt, 32);
-}
-
-export function encryptApiKey(apiKey: string): string {
-  const iv = crypto.randomBytes(16);
-  const key = getEncryptionKey();
-  const cipher = crypto.createCipheriv("aes-256-cbc", key, iv);
-  let encrypted = cipher.update(apiKey, "utf8", "hex");
-  encrypted += cipher.final("hex");
-  return iv.toString("hex") + ":" + encrypted;
-}
-
-export function decryptApiKey(encryptedKey: string): string {
-  const parts = encryptedKey.split(":");
-  if (parts.length !== 2) {
-    throw new Error("Invalid encrypted key format");
-  }
-  const iv = Buffer.from(parts[0], "hex");
-  const encrypted = parts[1];
-  const key = getEncryptionKey();
-  const decipher = crypto.createDecipheriv("aes-256-cbc", key, iv);
-  let decrypted = decipher.update(encrypted, "hex", "utf8");
-  decrypted += decipher.final("utf8");
-  return decrypted;
-}
-
-interface AIConfig {
-  enabled: boolean;
-  provider: string;
-  model: string;
-  apiKey: string | null;
-  maxTokens: number;
-  temperature: number;
-}
-
-export interface AIConfigStatus {
-  config: AIConfig | null;
-  error?: string;
-}
-
-async function getAIConfig(): Promise<AIConfig | null> {
-  const [settings] = await db.select().from(systemSettings).where(eq(systemSettings.id, 1));
-  
-  if (!settings || !settings.aiEnabled || !settings.aiApiKeyEncrypted) {
-    return null;
-  }
+export { encryptApiKey, decryptApiKey, getAIConfigStatus, type AIConfigStatus } from "./systemAIConfig";
 
-  try {
-    const apiKey = decryptApiKey(settings.aiApiKeyEncrypted);
-    return {
-      enabled: settings.aiEnabled,
-      provider: settings.aiProvider || "openai",
-      model: settings.aiModel || "gpt-4o-mini",
-      apiKey,
-      maxTokens: settings.aiMaxTokens || 2000,
-      temperature: parseFloat(settings.aiTemperature || "0.7"),
-    };
-  } catch (error) {
-    console.error("[AI] Failed to decrypt API key:", error);
-    return null;
-  }
-}
-
-export async function getAIConfigStatus(): Promise<AIConfigStatus> {
-  const [settings] = await db.select().from(systemSettings).where(eq(systemSettings.id, 1));
-  
-  if (!settings) {
-    return { config: null, error: "System settings not found" };
-  }
-  
-  if (!settings.aiEnabled) {
-    return { config: null, error: "AI is not enabled" };
-  }
-  
-  if (!settings.aiApiKeyEncrypted) {
-    return { config: null, error: "API key not configured" };
-  }
-
-  try {
-    getEncryptionSecret();
-  } catch (error) {
-    return { config: null, error: "Encryption configuration error - check SESSION_SECRET" };
-  }
-
-  try {
-    const apiKey = decryptApiKey(settings.aiApiKeyEncrypted);
-    return {
-      config: {
-        enabled: settings.aiEnabled,
-        provider: settings.aiProvider || "openai",
-        model: settings.aiModel || "gpt-4o-mini",
-        apiKey,
-        maxTokens: settings.aiMaxTokens || 2000,
-        temperature: parseFloat(settings.aiTemperature || "0.7"),
-      }
-    };
-  } catch (error) {
-    return { config: null, error: "Failed to decrypt API key - key may be corrupted or encryption secret changed" };
-  }
-}
-
-function getOpenAIClient(apiKey: string): OpenAI {
-  return new OpenAI({ apiKey });
+/** Who is asking; usage is metered against the tenant. */
+export interface AIRequestContext {
+  tenantId: string;
+  userId?: string | null;
 }
 
 export interface TaskBreakdownSuggestion {
@@ -142,11 +32,6 @@ export interface ProjectPlanningSuggestion {
   recommendations?: string[];
 }
 
-export async function isAIEnabled(): Promise<boolean> {
-  const config = await getAIConfig();
-  return config !== null && config.enabled;
-}
-
 export async function testAIConnection(): Promise<{ success: boolean; message: string; model?: string }> {
   const configStatus = await getAIConfigStatus();
   
@@ -159,46 +44,35 @@ export async function testAIConnection(): Promise<{ success: boolean; message: s
     return { success: false, message: "API key is missing" };
   }
 
+  const driver = (AI_DRIVERS as readonly string[]).includes(config.provider) ? config.provider as AIDriver : "openai";
   try {
-    const client = getOpenAIClient(config.apiKey);
-    const response = await client.chat.completions.create({
-      model: config.model,
+    const provider = createAIProvider({ driver, model: config.model }, { apiKey: config.apiKey });
+    const response = await provider.complete({
       messages: [{ role: "user", content: "Say 'Hello' in one word." }],
-      max_tokens: 10,
+      maxTokens: 10,
     });
 
-    if (response.choices && response.choices.length > 0) {
-      return { 
-        success: true, 
-        message: "Connection successful",
-        model: response.model,
-      };
-    }
-    return { success: false, message: "No response from API" };
+    return { 
+      success: true, 
+      message: "Connection successful",
+      model: response.model,
+    };
   } catch (error: any) {
     console.error("[AI] Connection test failed:", error);
     return { 
       success: false, 
-      message: error.message || "Failed to connect to OpenAI API",
+      message: error.message || `Failed to connect to the ${driver} API`,
     };
   }
 }
 
 export async function suggestTaskBreakdown(
+  ctx: AIRequestContext,
   taskTitle: string,
   taskDescription?: string,
   projectContext?: string
-): Promise<TaskBreakdownSuggestion | null> {
-  const config = await getAIConfig();
-  
-  if (!config || !config.apiKey) {
-    console.log("[AI] Task breakdown requested but AI is not configured");
-    return null;
-  }
-
+): Promise<TaskBreakdownSuggestion> {
   try {
-    const client = getOpenAIClient(config.apiKey);
-    
     const prompt = `You are a project management assistant. Break down the following task into smaller, actionable subtasks.
 
 Task Title: ${taskTitle}
@@ -222,42 +96,26 @@ Respond in JSON format:
   "reasoning": "Brief explanation of why you broke it down this way"
 }`;
 
-    const response = await client.chat.completions.create({
-      model: config.model,
+    const { data } = await completeAIJson<TaskBreakdownSuggestion>({
+      ...ctx,
+      feature: "task_breakdown",
       messages: [{ role: "user", content: prompt }],
-      max_tokens: config.maxTokens,
-      temperature: config.temperature,
-      response_format: { type: "json_object" },
     });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      return null;
-    }
-
-    return JSON.parse(content) as TaskBreakdownSuggestion;
+    return data;
   } catch (error: any) {
     console.error("[AI] Task breakdown failed:", error);
-    throw new Error(error.message || "Failed to generate task breakdown");
+    throw error;
   }
 }
 
 export async function suggestProjectPlan(
+  ctx: AIRequestContext,
   projectName: string,
   projectDescription?: string,
   clientName?: string,
   teamSize?: number
-): Promise<ProjectPlanningSuggestion | null> {
-  const config = await getAIConfig();
-  
-  if (!config || !config.apiKey) {
-    console.log("[AI] Project planning requested but AI is not configured");
-    return null;
-  }
-
+): Promise<ProjectPlanningSuggestion> {
   try {
-    const client = getOpenAIClient(config.apiKey);
-    
     const prompt = `You are a project management assistant. Create a project plan for the following project.
 
 Project Name: ${projectName}
@@ -289,39 +147,24 @@ Respond in JSON format:
   "recommendations": ["Key recommendation 1", "Key recommendation 2"]
 }`;
 
-    const response = await client.chat.completions.create({
-      model: config.model,
+    const { data } = await completeAIJson<ProjectPlanningSuggestion>({
+      ...ctx,
+      feature: "project_plan",
       messages: [{ role: "user", content: prompt }],
-      max_tokens: config.maxTokens,
-      temperature: config.temperature,
-      response_format: { type: "json_object" },
     });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      return null;
-    }
-
-    return JSON.parse(content) as ProjectPlanningSuggestion;
+    return data;
   } catch (error: any) {
     console.error("[AI] Project planning failed:", error);
-    throw new Error(error.message || "Failed to generate project plan");
+    throw error;
   }
 }
 
 export async function generateTaskDescription(
+  ctx: AIRequestContext,
   taskTitle: string,
   projectContext?: string
 ): Promise<string | null> {
-  const config = await getAIConfig();
-  
-  if (!config || !config.apiKey) {
-    return null;
-  }
-
   try {
-    const client = getOpenAIClient(config.apiKey);
-    
     const prompt = `You are a project management assistant. Write a clear, concise task description for the following task.
 
 Task Title: ${taskTitle}
@@ -329,16 +172,17 @@ ${projectContext ? `Project Context: ${projectContext}` : ""}
 
 Write a 1-3 sentence description that clarifies what needs to be done. Be specific and actionable.`;
 
-    const response = await client.chat.completions.create({
-      model: config.model,
+    const completion = await completeAI({
+      ...ctx,
+      feature: "task_description",
       messages: [{ role: "user", content: prompt }],
-      max_tokens: 200,
+      maxTokens: 200,
       temperature: 0.7,
     });
 
-    return response.choices[0]?.message?.content || null;
+    return completion.text || null;
   } catch (error: any) {
     console.error("[AI] Description generation failed:", error);
-    throw new Error(error.message || "Failed to generate task description");
+    throw error;
   }
 }
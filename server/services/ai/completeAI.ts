@@ -0,0 +1,145 @@
+/**
+ * Single entry point for feature code that needs a model completion. Resolves the
+ * tenant's provider, picks the model configured for the feature and meters the call
+ * in ai_usage_events.
+ */
+
+import { and, desc, eq, gte, sql } from "drizzle-orm";
+import { db } from "../../db";
+import { aiUsageEvents } from "@shared/schema";
+import { createLogger } from "../../lib/logger";
+import { getAIProviderOrThrow, type AIProviderResult } from "./getAIProvider";
+import { modelForFeature, type AICompletion, type AIFeature, type AIMessage } from "./providers";
+
+const log = createLogger("ai-usage");
+
+export interface CompleteAIInput {
+  tenantId: string | null;
+  userId?: string | null;
+  feature: AIFeature;
+  messages: AIMessage[];
+  json?: boolean;
+  /** Defaults to the provider's configured max tokens. */
+  maxTokens?: number;
+  /** Defaults to the provider's configured temperature. */
+  temperature?: number;
+  /** An already resolved provider, to avoid resolving twice. */
+  provider?: AIProviderResult;
+}
+
+async function recordUsage(
+  input: CompleteAIInput,
+  resolved: AIProviderResult,
+  model: string,
+  completion: AICompletion | null,
+): Promise<void> {
+  try {
+    await db.insert(aiUsageEvents).values({
+      tenantId: input.tenantId,
+      userId: input.userId ?? null,
+      feature: input.feature,
+      driver: resolved.config.driver,
+      model: completion?.model || model,
+      source: resolved.source,
+      inputTokens: completion?.usage.inputTokens ?? 0,
+      outputTokens: completion?.usage.outputTokens ?? 0,
+      succeeded: completion !== null,
+    });
+  } catch (error) {
+    // Metering must never fail the feature itself
+    log.warn("Failed to record AI usage", { tenantId: input.tenantId ?? undefined, feature: input.feature, error: String(error) });
+  }
+}
+
+/**
+ * Runs one completion for a feature. Throws AINotConfiguredError when the tenant has
+ * no provider, and rethrows provider errors after metering the failed call.
+ */
+export async function completeAI(input: CompleteAIInput): Promise<AICompletion> {
+  const resolved = input.provider ?? await getAIProviderOrThrow(input.tenantId);
+  const model = modelForFeature(resolved.config, input.feature);
+
+  let completion: AICompletion;
+  try {
+    completion = await resolved.provider.complete({
+      messages: input.messages,
+      model,
+      maxTokens: input.maxTokens ?? resolved.config.maxTokens,
+      temperature: input.temperature ?? resolved.config.temperature,
+      json: input.json,
+      feature: input.feature,
+    });
+  } catch (error) {
+    await recordUsage(input, resolved, model, null);
+    throw error;
+  }
+
+  await recordUsage(input, resolved, model, completion);
+  return completion;
+}
+
+/** Runs a JSON-mode completion and parses the response. */
+export async function completeAIJson<T>(input: Omit<CompleteAIInput, "json">): Promise<{ data: T; completion: AICompletion }> {
+  const completion = await completeAI({ ...input, json: true });
+  if (!completion.text) throw new Error("AI returned an empty response.");
+  try {
+    return { data: JSON.parse(completion.text) as T, completion };
+  } catch {
+    throw new Error("AI returned a response that is not valid JSON.");
+  }
+}
+
+export interface AIUsageTotals {
+  calls: number;
+  failedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AIUsageSummary {
+  since: Date;
+  totals: AIUsageTotals;
+  byFeature: Array<AIUsageTotals & { feature: string }>;
+  byModel: Array<AIUsageTotals & { driver: string; model: string }>;
+  byDay: Array<AIUsageTotals & { day: string }>;
+}
+
+/** Token usage for a tenant since a date, totalled and broken down by feature, model and day. */
+export async function getAIUsageSummary(tenantId: string, since: Date): Promise<AIUsageSummary> {
+  const where = and(eq(aiUsageEvents.tenantId, tenantId), gte(aiUsageEvents.createdAt, since));
+  const totals = {
+    calls: sql<number>`count(*)::int`,
+    failedCalls: sql<number>`(count(*) filter (where not ${aiUsageEvents.succeeded}))::int`,
+    inputTokens: sql<number>`coalesce(sum(${aiUsageEvents.inputTokens}), 0)::int`,
+    outputTokens: sql<number>`coalesce(sum(${aiUsageEvents.outputTokens}), 0)::int`,
+  };
+  const day = sql<string>`to_char(${aiUsageEvents.createdAt}, 'YYYY-MM-DD')`;
+
+  const [overall] = await db.select(totals).from(aiUsageEvents).where(where);
+  const byFeature = await db
+    .select({ feature: aiUsageEvents.feature, ...totals })
+    .from(aiUsageEvents)
+    .where(where)
+    .groupBy(aiUsageEvents.feature)
+    .orderBy(desc(totals.calls));
+  const byModel = await db
+    .select({ driver: aiUsageEvents.driver, model: aiUsageEvents.model, ...totals })
+    .from(aiUsageEvents)
+    .where(where)
+    .groupBy(aiUsageEvents.driver, aiUsageEvents.model)
+    .orderBy(desc(totals.calls));
+  const byDay = await db
+    .select({ day, ...totals })
+    .from(aiUsageEvents)
+    .where(where)
+    .groupBy(day)
+    .orderBy(day);
+
+  return {
+    since,
+    totals: overall ?? { calls: 0, failedCalls: 0, inputTokens: 0, outputTokens: 0 },
+    byFeature,
+    byModel,
+    byDay,
+  };
+}
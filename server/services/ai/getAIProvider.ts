@@ -1,41 +1,69 @@
 /**
  * Centralized AI Provider Resolver
- * 
- * Implements hierarchical OpenAI configuration:
- * 1. Tenant-specific OpenAI config (priority)
- * 2. System-level OpenAI config (fallback)
- * 3. Environment variable fallback (OPENAI_API_KEY)
- * 4. Returns null if no configuration found
- * 
+ *
+ * Implements hierarchical AI configuration:
+ * 1. Tenant `ai` integration (any driver)
+ * 2. Tenant `openai` integration (legacy)
+ * 3. System-level `ai` integration
+ * 4. System-level `openai` integration (legacy)
+ * 5. system_settings AI fields (Super Admin > AI)
+ * 6. Environment: AI_PROVIDER (any driver, e.g. `fake` for offline tests), else OPENAI_API_KEY
+ * 7. Returns null if no configuration found
+ *
  * SECURITY:
  * - API keys never exposed to client
  * - All resolution is server-side
  * - Tenant isolation enforced
  */
 
+import { z } from "zod";
 import { db } from "../../db";
 import { tenantIntegrations, IntegrationStatus } from "@shared/schema";
 import { eq, and, isNull } from "drizzle-orm";
 import { decryptValue, isEncryptionAvailable } from "../../lib/encryption";
-import OpenAI from "openai";
+import { getAIConfigStatus } from "./systemAIConfig";
+import {
+  AI_DRIVERS,
+  AI_FEATURES,
+  DEFAULT_AI_MODELS,
+  TENANT_AI_DRIVERS,
+  createAIProvider,
+  isAzureOpenAIEndpoint,
+  missingProviderSettings,
+  tenantSettingsViolation,
+  type AIDriver,
+  type AIFeature,
+  type AIProvider,
+  type AIProviderSecrets,
+  type AIProviderSettings,
+} from "./providers";
 
 export interface AIConfig {
   enabled: boolean;
+  driver: AIDriver;
   model: string;
-  apiKey: string;
+  featureModels: Partial<Record<AIFeature, string>>;
   maxTokens: number;
   temperature: number;
 }
 
+export type AIProviderSource = "tenant" | "system" | "system_settings" | "environment";
+
 export interface AIProviderResult {
   config: AIConfig;
-  source: "tenant" | "system" | "environment";
+  provider: AIProvider;
+  source: AIProviderSource;
   sourceId: string | null;
 }
 
+/** Public config of the `ai` integration. */
+export interface AIIntegrationPublicConfig extends AIProviderSettings {
+  enabled: boolean;
+}
+
 export class AINotConfiguredError extends Error {
   code = "AI_NOT_CONFIGURED";
-  
+
   constructor(message?: string) {
     super(message || "AI integration has not been configured. Contact your administrator.");
     this.name = "AINotConfiguredError";
@@ -49,8 +77,53 @@ interface OpenAIPublicConfig {
   temperature: string;
 }
 
-interface OpenAISecretConfig {
-  apiKey: string;
+const DEFAULT_MAX_TOKENS = 2000;
+const DEFAULT_TEMPERATURE = 0.7;
+
+/** Tenant admin update: hosted drivers only, and Azure endpoints on Azure OpenAI hosts. */
+export const aiIntegrationUpdateSchema = z.object({
+  enabled: z.boolean().optional(),
+  driver: z.enum(TENANT_AI_DRIVERS),
+  model: z.string().max(200).optional(),
+  featureModels: z.record(z.enum(AI_FEATURES), z.string().max(200)).optional(),
+  maxTokens: z.number().int().min(1).max(200000).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  azureEndpoint: z.string().url()
+    .refine(isAzureOpenAIEndpoint, "Enter an https://<resource>.openai.azure.com address")
+    .optional().or(z.literal("")),
+  azureApiVersion: z.string().max(40).optional(),
+  apiKey: z.string().optional(),
+});
+
+/** Super admin update: any driver, custom API URLs and any Azure endpoint. */
+export const systemAIIntegrationUpdateSchema = aiIntegrationUpdateSchema.extend({
+  driver: z.enum(AI_DRIVERS),
+  baseUrl: z.string().url().optional().or(z.literal("")),
+  azureEndpoint: z.string().url().optional().or(z.literal("")),
+});
+
+/** Splits a validated update into the integration's public and secret halves. */
+export function splitAIIntegrationUpdate(data: z.infer<typeof systemAIIntegrationUpdateSchema>): {
+  publicConfig: AIIntegrationPublicConfig;
+  secretConfig: AIProviderSecrets | undefined;
+} {
+  const { apiKey, featureModels, ...rest } = data;
+  const publicConfig: Record<string, unknown> = { enabled: true };
+  for (const [key, value] of Object.entries(rest)) {
+    publicConfig[key] = value === "" ? undefined : value;
+  }
+  if (featureModels) {
+    // Blank overrides fall back to the default model
+    const models: Record<string, string> = {};
+    for (const [feature, model] of Object.entries(featureModels)) {
+      if (model && model.trim()) models[feature] = model.trim();
+    }
+    publicConfig.featureModels = models;
+  }
+  return {
+    publicConfig: publicConfig as unknown as AIIntegrationPublicConfig,
+    secretConfig: apiKey && apiKey.trim() ? { apiKey } : undefined,
+  };
 }
 
 function debugLog(message: string, data?: Record<string, any>) {
@@ -63,21 +136,44 @@ function debugLog(message: string, data?: Record<string, any>) {
 
 export class AIDecryptionError extends Error {
   code = "AI_DECRYPTION_FAILED";
-  
+
   constructor(integrationId: string) {
     super(`Failed to decrypt AI credentials for integration ${integrationId}. Check APP_ENCRYPTION_KEY configuration.`);
     this.name = "AIDecryptionError";
   }
 }
 
-async function getIntegrationConfig(tenantId: string | null): Promise<{
-  config: AIConfig | null;
-  source: "tenant" | "system";
-  sourceId: string | null;
-}> {
+function toResult(
+  settings: AIProviderSettings,
+  secrets: AIProviderSecrets,
+  source: AIProviderSource,
+  sourceId: string | null,
+): AIProviderResult {
+  return {
+    config: {
+      enabled: true,
+      driver: settings.driver,
+      model: settings.model || DEFAULT_AI_MODELS[settings.driver] || "",
+      featureModels: settings.featureModels ?? {},
+      maxTokens: settings.maxTokens || DEFAULT_MAX_TOKENS,
+      temperature: settings.temperature ?? DEFAULT_TEMPERATURE,
+    },
+    provider: createAIProvider(settings, secrets),
+    source,
+    sourceId,
+  };
+}
+
+/** Loads one integration row with its decrypted secrets, or null when absent. */
+async function loadIntegration(tenantId: string | null, provider: "ai" | "openai"): Promise<{
+  id: string;
+  status: string;
+  publicConfig: unknown;
+  secrets: Record<string, string>;
+} | null> {
   const condition = tenantId
-    ? and(eq(tenantIntegrations.tenantId, tenantId), eq(tenantIntegrations.provider, "openai"))
-    : and(isNull(tenantIntegrations.tenantId), eq(tenantIntegrations.provider, "openai"));
+    ? and(eq(tenantIntegrations.tenantId, tenantId), eq(tenantIntegrations.provider, provider))
+    : and(isNull(tenantIntegrations.tenantId), eq(tenantIntegrations.provider, provider));
 
   try {
     const [integration] = await db
@@ -86,101 +182,161 @@ async function getIntegrationConfig(tenantId: string | null): Promise<{
       .where(condition)
       .limit(1);
 
-    if (!integration || integration.status !== IntegrationStatus.CONFIGURED) {
-      return { config: null, source: tenantId ? "tenant" : "system", sourceId: null };
-    }
-
-    const publicConfig = integration.configPublic as OpenAIPublicConfig | null;
-    if (!publicConfig?.enabled) {
-      return { config: null, source: tenantId ? "tenant" : "system", sourceId: null };
-    }
-
-    if (!integration.configEncrypted || !isEncryptionAvailable()) {
-      return { config: null, source: tenantId ? "tenant" : "system", sourceId: null };
-    }
+    if (!integration) return null;
 
-    try {
-      const secretConfig = JSON.parse(decryptValue(integration.configEncrypted)) as OpenAISecretConfig;
-      
-      if (!secretConfig.apiKey) {
-        return { config: null, source: tenantId ? "tenant" : "system", sourceId: null };
+    let secrets: Record<string, string> = {};
+    if (integration.configEncrypted && isEncryptionAvailable()) {
+      try {
+        secrets = JSON.parse(decryptValue(integration.configEncrypted));
+      } catch (decryptError) {
+        debugLog("Failed to decrypt AI config", { tenantId, provider, error: String(decryptError) });
+        throw new AIDecryptionError(integration.id);
       }
-
-      return {
-        config: {
-          enabled: publicConfig.enabled,
-          model: publicConfig.model || "gpt-4o-mini",
-          apiKey: secretConfig.apiKey,
-          maxTokens: publicConfig.maxTokens || 2000,
-          temperature: parseFloat(publicConfig.temperature || "0.7"),
-        },
-        source: tenantId ? "tenant" : "system",
-        sourceId: integration.id,
-      };
-    } catch (decryptError) {
-      debugLog("Failed to decrypt AI config", { tenantId, error: String(decryptError) });
-      throw new AIDecryptionError(integration.id);
     }
+
+    return {
+      id: integration.id,
+      status: integration.status,
+      publicConfig: integration.configPublic,
+      secrets,
+    };
   } catch (dbError: unknown) {
+    if (dbError instanceof AIDecryptionError) throw dbError;
     const message = dbError instanceof Error ? dbError.message : String(dbError);
     if (message.includes("does not exist") || message.includes("column")) {
       debugLog("Database schema issue", { tenantId, error: message });
-      return { config: null, source: tenantId ? "tenant" : "system", sourceId: null };
+      return null;
     }
     throw dbError;
   }
 }
 
-/**
- * Resolve AI configuration with hierarchical fallback:
- * 1. Tenant-specific config (if tenantId provided)
- * 2. System-level config (tenantId = NULL)
- * 3. Environment variable (OPENAI_API_KEY)
- * 4. Null if nothing configured
- */
-export async function getAIProvider(tenantId: string | null): Promise<AIProviderResult | null> {
-  debugLog("Resolving AI provider", { tenantId });
+async function fromAIIntegration(tenantId: string | null): Promise<AIProviderResult | null> {
+  const integration = await loadIntegration(tenantId, "ai");
+  const cfg = integration?.publicConfig as AIIntegrationPublicConfig | null | undefined;
+  if (!integration || !cfg?.driver || cfg.enabled === false) return null;
+  const violation = tenantId ? tenantSettingsViolation(cfg) : null;
+  if (violation) {
+    debugLog("tenant ai integration ignored", { tenantId, driver: cfg.driver, violation });
+    return null;
+  }
 
-  // Step 1: Try tenant-specific config
-  if (tenantId) {
-    const tenantResult = await getIntegrationConfig(tenantId);
-    if (tenantResult.config) {
-      debugLog("Using tenant-specific AI config", { tenantId, sourceId: tenantResult.sourceId });
-      return {
-        config: tenantResult.config,
-        source: "tenant",
-        sourceId: tenantResult.sourceId,
-      };
-    }
-    debugLog("No tenant-specific AI config, falling back to system", { tenantId });
+  const secrets: AIProviderSecrets = { apiKey: integration.secrets.apiKey };
+  const missing = missingProviderSettings(cfg, secrets);
+  if (missing) {
+    debugLog("ai integration incomplete", { tenantId, driver: cfg.driver, missing });
+    return null;
   }
+  return toResult(cfg, secrets, tenantId ? "tenant" : "system", integration.id);
+}
 
-  // Step 2: Try system-level config
-  const systemResult = await getIntegrationConfig(null);
-  if (systemResult.config) {
-    debugLog("Using system-level AI config", { sourceId: systemResult.sourceId });
-    return {
-      config: systemResult.config,
-      source: "system",
-      sourceId: systemResult.sourceId,
+async function fromOpenAIIntegration(tenantId: string | null): Promise<AIProviderResult | null> {
+  const integration = await loadIntegration(tenantId, "openai");
+  if (!integration || integration.status !== IntegrationStatus.CONFIGURED) return null;
+
+  const cfg = integration.publicConfig as OpenAIPublicConfig | null;
+  if (!cfg?.enabled || !integration.secrets.apiKey) return null;
+
+  return toResult(
+    {
+      driver: "openai",
+      model: cfg.model || DEFAULT_AI_MODELS.openai,
+      maxTokens: cfg.maxTokens || DEFAULT_MAX_TOKENS,
+      temperature: parseFloat(cfg.temperature || String(DEFAULT_TEMPERATURE)),
+    },
+    { apiKey: integration.secrets.apiKey },
+    tenantId ? "tenant" : "system",
+    integration.id,
+  );
+}
+
+async function fromSystemSettings(): Promise<AIProviderResult | null> {
+  let status;
+  try {
+    status = await getAIConfigStatus();
+  } catch (error) {
+    debugLog("system_settings AI config unavailable", { error: String(error) });
+    return null;
+  }
+  const cfg = status.config;
+  if (!cfg?.enabled || !cfg.apiKey) return null;
+
+  const driver = (AI_DRIVERS as readonly string[]).includes(cfg.provider) ? cfg.provider as AIDriver : "openai";
+  const settings: AIProviderSettings = {
+    driver,
+    model: cfg.model,
+    maxTokens: cfg.maxTokens,
+    temperature: cfg.temperature,
+  };
+  if (missingProviderSettings(settings, { apiKey: cfg.apiKey })) return null;
+  return toResult(settings, { apiKey: cfg.apiKey }, "system_settings", null);
+}
+
+function fromEnvironment(): AIProviderResult | null {
+  const driver = process.env.AI_PROVIDER;
+  if (driver) {
+    if (!(AI_DRIVERS as readonly string[]).includes(driver)) {
+      console.warn(`[AIProvider] Ignoring unknown AI_PROVIDER "${driver}"`);
+      return null;
+    }
+    const settings: AIProviderSettings = {
+      driver: driver as AIDriver,
+      model: process.env.AI_MODEL || undefined,
+      baseUrl: process.env.AI_BASE_URL || undefined,
+      azureEndpoint: process.env.AZURE_OPENAI_ENDPOINT || undefined,
+      maxTokens: process.env.AI_MAX_TOKENS ? parseInt(process.env.AI_MAX_TOKENS, 10) : undefined,
+      temperature: process.env.AI_TEMPERATURE ? parseFloat(process.env.AI_TEMPERATURE) : undefined,
     };
+    const secrets: AIProviderSecrets = { apiKey: process.env.AI_API_KEY || undefined };
+    const missing = missingProviderSettings(settings, secrets);
+    if (missing) {
+      console.warn(`[AIProvider] AI_PROVIDER=${driver} is missing ${missing}`);
+      return null;
+    }
+    return toResult(settings, secrets, "environment", null);
   }
 
-  // Step 3: Try environment variable fallback
   const envApiKey = process.env.OPENAI_API_KEY;
   if (envApiKey) {
-    debugLog("Using environment variable OPENAI_API_KEY");
-    return {
-      config: {
-        enabled: true,
-        model: process.env.OPENAI_MODEL || "gpt-4o-mini",
-        apiKey: envApiKey,
-        maxTokens: parseInt(process.env.OPENAI_MAX_TOKENS || "2000", 10),
-        temperature: parseFloat(process.env.OPENAI_TEMPERATURE || "0.7"),
+    return toResult(
+      {
+        driver: "openai",
+        model: process.env.OPENAI_MODEL || DEFAULT_AI_MODELS.openai,
+        maxTokens: parseInt(process.env.OPENAI_MAX_TOKENS || String(DEFAULT_MAX_TOKENS), 10),
+        temperature: parseFloat(process.env.OPENAI_TEMPERATURE || String(DEFAULT_TEMPERATURE)),
       },
-      source: "environment",
-      sourceId: null,
-    };
+      { apiKey: envApiKey },
+      "environment",
+      null,
+    );
+  }
+  return null;
+}
+
+/**
+ * Resolve the AI provider for a tenant, walking the chain documented at the top of
+ * this file. Returns null when nothing is configured.
+ */
+export async function getAIProvider(tenantId: string | null): Promise<AIProviderResult | null> {
+  debugLog("Resolving AI provider", { tenantId });
+
+  const steps: Array<() => Promise<AIProviderResult | null>> = [];
+  if (tenantId) {
+    steps.push(() => fromAIIntegration(tenantId), () => fromOpenAIIntegration(tenantId));
+  }
+  steps.push(
+    () => fromAIIntegration(null),
+    () => fromOpenAIIntegration(null),
+    fromSystemSettings,
+    async () => fromEnvironment(),
+  );
+
+  for (const step of steps) {
+    const result = await step();
+    if (result) {
+      debugLog("Resolved AI provider", { tenantId, source: result.source, driver: result.config.driver, sourceId: result.sourceId });
+      return result;
+    }
   }
 
   debugLog("No AI configuration found");
@@ -206,32 +362,23 @@ export async function isAIAvailable(tenantId: string | null): Promise<boolean> {
   return result !== null;
 }
 
-/**
- * Get OpenAI client with hierarchical config resolution
- */
-export async function getOpenAIClient(tenantId: string | null): Promise<OpenAI | null> {
-  const result = await getAIProvider(tenantId);
-  if (!result) {
-    return null;
-  }
-  return new OpenAI({ apiKey: result.config.apiKey });
-}
-
 /**
  * Get AI status for display in UI
  */
 export async function getAIStatus(tenantId: string | null): Promise<{
   available: boolean;
-  source: "tenant" | "system" | "environment" | null;
+  source: AIProviderSource | null;
+  driver: AIDriver | null;
   model: string | null;
   enabled: boolean;
 }> {
   const result = await getAIProvider(tenantId);
-  
+
   if (!result) {
     return {
       available: false,
       source: null,
+      driver: null,
       model: null,
       enabled: false,
     };
@@ -240,6 +387,7 @@ export async function getAIStatus(tenantId: string | null): Promise<{
   return {
     available: true,
     source: result.source,
+    driver: result.config.driver,
     model: result.config.model,
     enabled: result.config.enabled,
   };
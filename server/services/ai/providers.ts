@@ -0,0 +1,404 @@
+/**
+ * AI Provider Drivers
+ *
+ * One interface over every model backend we can send a prompt to. Callers build
+ * provider-neutral messages; a driver maps them to its API and reports token usage
+ * so completions can be metered per tenant (see completeAI.ts).
+ *
+ * Drivers:
+ * - openai            — OpenAI API
+ * - anthropic         — Anthropic Messages API
+ * - azure_openai      — Azure OpenAI deployment
+ * - openai_compatible — any OpenAI-compatible endpoint, e.g. Ollama or vLLM on-prem
+ * - fake              — deterministic canned responses; for tests and offline development
+ */
+
+import { createHash } from "crypto";
+import OpenAI, { AzureOpenAI } from "openai";
+
+export const AI_DRIVERS = ["openai", "anthropic", "azure_openai", "openai_compatible", "fake"] as const;
+export type AIDriver = typeof AI_DRIVERS[number];
+
+/** Drivers that can run without any stored secret. */
+export const SECRETLESS_AI_DRIVERS = new Set<AIDriver>(["openai_compatible", "fake"]);
+
+/**
+ * Drivers a tenant may configure. Requests leave from our network, so self-hosted endpoints
+ * and custom API URLs are for system or environment config only.
+ */
+export const TENANT_AI_DRIVERS = ["openai", "anthropic", "azure_openai", "fake"] as const;
+
+const AZURE_OPENAI_HOST = /^[a-z0-9][a-z0-9-]*\.(openai\.azure\.com|cognitiveservices\.azure\.com|services\.ai\.azure\.com)$/;
+
+/** HTTPS on an Azure OpenAI resource host, e.g. https://my-resource.openai.azure.com. */
+export function isAzureOpenAIEndpoint(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === "https:" && !parsed.port && AZURE_OPENAI_HOST.test(parsed.hostname.toLowerCase());
+  } catch {
+    return false;
+  }
+}
+
+/** Why tenant-stored settings may not be used, or null when a tenant may use them. */
+export function tenantSettingsViolation(settings: AIProviderSettings): string | null {
+  if (!(TENANT_AI_DRIVERS as readonly string[]).includes(settings.driver)) {
+    return `The ${settings.driver} driver can only be configured by a system administrator`;
+  }
+  if (settings.baseUrl) return "Custom API URLs can only be configured by a system administrator";
+  if (settings.azureEndpoint && !isAzureOpenAIEndpoint(settings.azureEndpoint)) {
+    return "The Azure endpoint must be an https://<resource>.openai.azure.com address";
+  }
+  return null;
+}
+
+/** Features that call a model; each can be pointed at its own model. */
+export const AI_FEATURES = [
+  "task_breakdown",
+  "project_plan",
+  "task_description",
+  "chat_summary",
+  "chat_reply",
+  "chat_to_task",
+  "employee_summary",
+] as const;
+export type AIFeature = typeof AI_FEATURES[number];
+
+export interface AIMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface AICompletionRequest {
+  messages: AIMessage[];
+  /** Overrides the provider's default model. */
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  /** Ask for a single JSON object as the response text. */
+  json?: boolean;
+  /** Lets the fake driver pick a canned response shape. */
+  feature?: AIFeature;
+}
+
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AICompletion {
+  text: string;
+  model: string;
+  usage: AIUsage;
+}
+
+export interface AIProvider {
+  driver: AIDriver;
+  /** Model used when a request does not name one. */
+  defaultModel: string;
+  complete(request: AICompletionRequest): Promise<AICompletion>;
+  /** Sends a one-token prompt to check credentials and connectivity. */
+  verify(): Promise<void>;
+}
+
+/** Driver settings as stored in the `ai` integration's public config. */
+export interface AIProviderSettings {
+  driver: AIDriver;
+  /** Default model; for Azure this is the deployment name. */
+  model?: string;
+  /** Per-feature model overrides, falling back to `model`. */
+  featureModels?: Partial<Record<AIFeature, string>>;
+  maxTokens?: number;
+  temperature?: number;
+  // openai, anthropic and openai_compatible
+  baseUrl?: string;
+  // azure_openai
+  azureEndpoint?: string;
+  azureApiVersion?: string;
+}
+
+/** Driver credentials as stored (encrypted) in the `ai` integration's secret config. */
+export interface AIProviderSecrets {
+  apiKey?: string;
+}
+
+export class AIProviderConfigError extends Error {
+  code = "AI_PROVIDER_MISCONFIGURED";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "AIProviderConfigError";
+  }
+}
+
+export const DEFAULT_AI_MODELS: Partial<Record<AIDriver, string>> = {
+  openai: "gpt-4o-mini",
+  anthropic: "claude-3-5-haiku-latest",
+  fake: "fake-model",
+};
+
+const DEFAULT_ANTHROPIC_URL = "https://api.anthropic.com";
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_AZURE_API_VERSION = "2024-10-21";
+const DEFAULT_MAX_TOKENS = 2000;
+const REQUEST_TIMEOUT_MS = 60_000;
+
+/** The settings a driver cannot work without, or null when complete. */
+export function missingProviderSettings(settings: AIProviderSettings, secrets: AIProviderSecrets): string | null {
+  switch (settings.driver) {
+    case "openai":
+    case "anthropic":
+      if (!secrets.apiKey) return "API key";
+      return null;
+    case "azure_openai":
+      if (!settings.azureEndpoint) return "Azure endpoint";
+      if (!settings.model) return "Azure deployment name";
+      if (!secrets.apiKey) return "API key";
+      return null;
+    case "openai_compatible":
+      if (!settings.baseUrl) return "Base URL";
+      if (!settings.model) return "Model";
+      return null;
+    case "fake":
+      return null;
+  }
+}
+
+/** The model a feature should use: its override, else the provider default. */
+export function modelForFeature(settings: Pick<AIProviderSettings, "driver" | "model" | "featureModels">, feature: AIFeature): string {
+  return settings.featureModels?.[feature] || settings.model || DEFAULT_AI_MODELS[settings.driver] || "";
+}
+
+/** Rough token count for drivers that do not report usage. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Strips a Markdown code fence some models wrap around JSON. */
+function unwrapJson(text: string): string {
+  const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return match ? match[1] : text.trim();
+}
+
+function chatCompletionsProvider(driver: AIDriver, client: OpenAI, settings: AIProviderSettings): AIProvider {
+  const defaultModel = settings.model || DEFAULT_AI_MODELS[driver] || "";
+
+  async function complete(request: AICompletionRequest): Promise<AICompletion> {
+    const response = await client.chat.completions.create({
+      model: request.model || defaultModel,
+      messages: request.messages,
+      max_tokens: request.maxTokens ?? settings.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature ?? settings.temperature,
+      ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+    });
+    const text = response.choices[0]?.message?.content ?? "";
+    return {
+      text: request.json ? unwrapJson(text) : text,
+      model: response.model || request.model || defaultModel,
+      usage: {
+        inputTokens: response.usage?.prompt_tokens ?? 0,
+        outputTokens: response.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+
+  return {
+    driver,
+    defaultModel,
+    complete,
+    async verify() {
+      await complete({ messages: [{ role: "user", content: "Reply with OK." }], maxTokens: 5 });
+    },
+  };
+}
+
+function openaiProvider(settings: AIProviderSettings, secrets: AIProviderSecrets): AIProvider {
+  const client = new OpenAI({
+    apiKey: secrets.apiKey,
+    baseURL: settings.baseUrl || undefined,
+    timeout: REQUEST_TIMEOUT_MS,
+  });
+  return chatCompletionsProvider("openai", client, settings);
+}
+
+function azureOpenAIProvider(settings: AIProviderSettings, secrets: AIProviderSecrets): AIProvider {
+  const client = new AzureOpenAI({
+    apiKey: secrets.apiKey,
+    endpoint: settings.azureEndpoint,
+    deployment: settings.model,
+    apiVersion: settings.azureApiVersion || DEFAULT_AZURE_API_VERSION,
+    timeout: REQUEST_TIMEOUT_MS,
+  });
+  return chatCompletionsProvider("azure_openai", client, settings);
+}
+
+function openaiCompatibleProvider(settings: AIProviderSettings, secrets: AIProviderSecrets): AIProvider {
+  // Local servers usually ignore the key, but the SDK requires one
+  const client = new OpenAI({
+    apiKey: secrets.apiKey || "not-needed",
+    baseURL: settings.baseUrl,
+    timeout: REQUEST_TIMEOUT_MS,
+  });
+  return chatCompletionsProvider("openai_compatible", client, settings);
+}
+
+/** Maps provider-neutral messages to an Anthropic Messages API request body. */
+export function toAnthropicRequest(request: AICompletionRequest, settings: AIProviderSettings): Record<string, unknown> {
+  const system: string[] = [];
+  const messages: Array<{ role: "user" | "assistant"; content: string }> = [];
+  for (const message of request.messages) {
+    if (message.role === "system") {
+      system.push(message.content);
+      continue;
+    }
+    // The API requires alternating turns, so consecutive turns of one role are merged
+    const previous = messages[messages.length - 1];
+    if (previous && previous.role === message.role) previous.content += `\n\n${message.content}`;
+    else messages.push({ role: message.role, content: message.content });
+  }
+  if (request.json) system.push("Respond with a single JSON object and nothing else.");
+
+  const body: Record<string, unknown> = {
+    model: request.model || settings.model || DEFAULT_AI_MODELS.anthropic,
+    max_tokens: request.maxTokens ?? settings.maxTokens ?? DEFAULT_MAX_TOKENS,
+    messages,
+  };
+  const temperature = request.temperature ?? settings.temperature;
+  // Anthropic accepts 0-1, OpenAI 0-2
+  if (temperature !== undefined) body.temperature = Math.min(temperature, 1);
+  if (system.length > 0) body.system = system.join("\n\n");
+  return body;
+}
+
+function anthropicProvider(settings: AIProviderSettings, secrets: AIProviderSecrets): AIProvider {
+  const baseUrl = (settings.baseUrl || DEFAULT_ANTHROPIC_URL).replace(/\/+$/, "");
+  const defaultModel = settings.model || DEFAULT_AI_MODELS.anthropic!;
+
+  async function complete(request: AICompletionRequest): Promise<AICompletion> {
+    const res = await fetch(`${baseUrl}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "x-api-key": secrets.apiKey!,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify(toAnthropicRequest(request, settings)),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const payload = await res.json().catch(() => null) as {
+      model?: string;
+      content?: Array<{ type: string; text?: string }>;
+      usage?: { input_tokens?: number; output_tokens?: number };
+      error?: { type?: string; message?: string };
+    } | null;
+    if (!res.ok) {
+      throw new Error(`Anthropic error ${res.status}: ${payload?.error?.message || res.statusText}`);
+    }
+    const text = (payload?.content ?? [])
+      .filter((block) => block.type === "text")
+      .map((block) => block.text ?? "")
+      .join("");
+    return {
+      text: request.json ? unwrapJson(text) : text,
+      model: payload?.model || request.model || defaultModel,
+      usage: {
+        inputTokens: payload?.usage?.input_tokens ?? 0,
+        outputTokens: payload?.usage?.output_tokens ?? 0,
+      },
+    };
+  }
+
+  return {
+    driver: "anthropic",
+    defaultModel,
+    complete,
+    async verify() {
+      await complete({ messages: [{ role: "user", content: "Reply with OK." }], maxTokens: 5 });
+    },
+  };
+}
+
+/** Canned JSON shaped like each feature's expected response. */
+function fakeJson(feature: AIFeature | undefined, digest: string): Record<string, unknown> {
+  switch (feature) {
+    case "task_breakdown":
+      return {
+        subtasks: [
+          { title: `Plan the work (${digest})`, estimatedMinutes: 30 },
+          { title: "Do the work", estimatedMinutes: 120 },
+          { title: "Review the result", estimatedMinutes: 30 },
+        ],
+        reasoning: "Fake provider response",
+      };
+    case "project_plan":
+      return {
+        phases: [{
+          name: "Discovery",
+          description: `Fake plan ${digest}`,
+          suggestedDuration: "1 week",
+          tasks: [{ title: "Kickoff meeting", priority: "high" }],
+        }],
+        recommendations: ["Fake provider response"],
+      };
+    case "chat_to_task":
+      return { title: `Follow up (${digest})`, description: "Fake provider response", priority: "medium" };
+    case "employee_summary":
+      return {
+        headline: `Fake summary ${digest}`,
+        markdown: "",
+        wins: [],
+        risks: [],
+        notableChanges: [],
+        recommendedActions: [],
+        confidence: "Low",
+        supportingMetrics: [],
+      };
+    default:
+      return { result: `fake-${digest}` };
+  }
+}
+
+/** Deterministic: the same messages always produce the same text and usage. */
+function fakeProvider(settings: AIProviderSettings): AIProvider {
+  const defaultModel = settings.model || DEFAULT_AI_MODELS.fake!;
+
+  async function complete(request: AICompletionRequest): Promise<AICompletion> {
+    const prompt = request.messages.map((m) => `${m.role}: ${m.content}`).join("\n");
+    const digest = createHash("sha256").update(prompt).digest("hex").slice(0, 8);
+    const text = request.json
+      ? JSON.stringify(fakeJson(request.feature, digest))
+      : `Fake response ${digest}${request.feature ? ` for ${request.feature}` : ""}.`;
+    return {
+      text,
+      model: request.model || defaultModel,
+      usage: { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text) },
+    };
+  }
+
+  return {
+    driver: "fake",
+    defaultModel,
+    complete,
+    async verify() {},
+  };
+}
+
+export function createAIProvider(settings: AIProviderSettings, secrets: AIProviderSecrets = {}): AIProvider {
+  const missing = missingProviderSettings(settings, secrets);
+  if (missing) throw new AIProviderConfigError(`${missing} is required for the ${settings.driver} AI driver`);
+
+  switch (settings.driver) {
+    case "openai":
+      return openaiProvider(settings, secrets);
+    case "anthropic":
+      return anthropicProvider(settings, secrets);
+    case "azure_openai":
+      return azureOpenAIProvider(settings, secrets);
+    case "openai_compatible":
+      return openaiCompatibleProvider(settings, secrets);
+    case "fake":
+      return fakeProvider(settings);
+    default:
+      throw new AIProviderConfigError(`Unknown AI driver: ${(settings as { driver: string }).driver}`);
+  }
+}
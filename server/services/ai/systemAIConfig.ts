@@ -0,0 +1,99 @@
+/**
+ * Platform-wide AI settings stored on system_settings (Super Admin > AI). These predate
+ * the `ai` and `openai` integrations and are the last configured step before the
+ * environment in getAIProvider's resolution chain.
+ */
+
+import { db } from "../../db";
+import { systemSettings } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import crypto from "crypto";
+
+function getEncryptionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret || secret.length < 16) {
+    throw new Error("SESSION_SECRET environment variable is required for AI encryption (minimum 16 characters)");
+  }
+  return secret;
+}
+
+function getEncryptionKey(): Buffer {
+  const secret = getEncryptionSecret();
+  const salt = crypto.createHash("sha256").update(secret).digest().slice(0, 16);
+  return crypto.scryptSync(secret, salt, 32);
+}
+
+export function encryptApiKey(apiKey: string): string {
+  const iv = crypto.randomBytes(16);
+  const key = getEncryptionKey();
+  const cipher = crypto.createCipheriv("aes-256-cbc", key, iv);
+  let encrypted = cipher.update(apiKey, "utf8", "hex");
+  encrypted += cipher.final("hex");
+  return iv.toString("hex") + ":" + encrypted;
+}
+
+export function decryptApiKey(encryptedKey: string): string {
+  const parts = encryptedKey.split(":");
+  if (parts.length !== 2) {
+    throw new Error("Invalid encrypted key format");
+  }
+  const iv = Buffer.from(parts[0], "hex");
+  const encrypted = parts[1];
+  const key = getEncryptionKey();
+  const decipher = crypto.createDecipheriv("aes-256-cbc", key, iv);
+  let decrypted = decipher.update(encrypted, "hex", "utf8");
+  decrypted += decipher.final("utf8");
+  return decrypted;
+}
+
+export interface SystemAIConfig {
+  enabled: boolean;
+  provider: string;
+  model: string;
+  apiKey: string | null;
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface AIConfigStatus {
+  config: SystemAIConfig | null;
+  error?: string;
+}
+
+export async function getAIConfigStatus(): Promise<AIConfigStatus> {
+  const [settings] = await db.select().from(systemSettings).where(eq(systemSettings.id, 1));
+  
+  if (!settings) {
+    return { config: null, error: "System settings not found" };
+  }
+  
+  if (!settings.aiEnabled) {
+    return { config: null, error: "AI is not enabled" };
+  }
+  
+  if (!settings.aiApiKeyEncrypted) {
+    return { config: null, error: "API key not configured" };
+  }
+
+  try {
+    getEncryptionSecret();
+  } catch (error) {
+    return { config: null, error: "Encryption configuration error - check SESSION_SECRET" };
+  }
+
+  try {
+    const apiKey = decryptApiKey(settings.aiApiKeyEncrypted);
+    return {
+      config: {
+        enabled: settings.aiEnabled,
+        provider: settings.aiProvider || "openai",
+        model: settings.aiModel || "gpt-4o-mini",
+        apiKey,
+        maxTokens: settings.aiMaxTokens || 2000,
+        temperature: parseFloat(settings.aiTemperature || "0.7"),
+      }
+    };
+  } catch (error) {
+    return { config: null, error: "Failed to decrypt API key - key may be corrupted or encryption secret changed" };
+  }
+}
@@ -4,6 +4,7 @@ const ASANA_API_BASE = "https://app.asana.com/api/1.0";
 const MAX_RETRIES = 3;
 const BASE_DELAY_MS = 1000;
 const REQUEST_INTERVAL_MS = 200;
+const TASK_FIELDS = "gid,name,notes,completed,completed_at,created_at,modified_at,due_on,start_on,assignee,assignee.name,assignee.email,memberships.project,memberships.section,parent,parent.name,num_subtasks,custom_fields,custom_fields.name,custom_fields.display_value,custom_fields.text_value";
 
 export interface AsanaWorkspace {
   gid: string;
@@ -48,6 +49,13 @@ export interface AsanaTask {
   custom_fields?: Array<{ gid: string; name: string; display_value: string | null; text_value?: string | null }>;
 }
 
+export interface AsanaTaskUpdate {
+  name?: string;
+  notes?: string;
+  completed?: boolean;
+  due_on?: string | null;
+}
+
 export interface AsanaUser {
   gid: string;
   name: string;
@@ -70,7 +78,12 @@ async function throttle(): Promise<void> {
   lastRequestTime = Date.now();
 }
 
-async function asanaFetch<T>(token: string, path: string, params?: Record<string, string>): Promise<AsanaApiResponse<T>> {
+async function asanaFetch<T>(
+  token: string,
+  path: string,
+  params?: Record<string, string>,
+  init?: { method: "PUT" | "POST"; body: unknown },
+): Promise<AsanaApiResponse<T>> {
   const url = new URL(`${ASANA_API_BASE}${path}`);
   if (params) {
     for (const [k, v] of Object.entries(params)) {
@@ -82,10 +95,13 @@ async function asanaFetch<T>(token: string, path: string, params?: Record<string
     await throttle();
 
     const res = await fetch(url.toString(), {
+      method: init?.method ?? "GET",
       headers: {
         Authorization: `Bearer ${token}`,
         Accept: "application/json",
+        ...(init ? { "Content-Type": "application/json" } : {}),
       },
+      body: init ? JSON.stringify({ data: init.body }) : undefined,
     });
 
     if (res.ok) {
@@ -182,16 +198,33 @@ export class AsanaClient {
 
   async getTasksForSection(sectionGid: string): Promise<AsanaTask[]> {
     return paginateAll<AsanaTask>(this.token, `/sections/${sectionGid}/tasks`, {
-      opt_fields: "gid,name,notes,completed,completed_at,created_at,modified_at,due_on,start_on,assignee,assignee.name,assignee.email,memberships.project,memberships.section,parent,parent.name,num_subtasks,custom_fields,custom_fields.name,custom_fields.display_value,custom_fields.text_value",
+      opt_fields: TASK_FIELDS,
     });
   }
 
   async getTasksForProject(projectGid: string): Promise<AsanaTask[]> {
     return paginateAll<AsanaTask>(this.token, `/projects/${projectGid}/tasks`, {
-      opt_fields: "gid,name,notes,completed,completed_at,created_at,modified_at,due_on,start_on,assignee,assignee.name,assignee.email,memberships.project,memberships.section,parent,parent.name,num_subtasks,custom_fields,custom_fields.name,custom_fields.display_value,custom_fields.text_value",
+      opt_fields: TASK_FIELDS,
     });
   }
 
+  /** Top-level tasks of a project modified after `since`, or all of them without it. */
+  async getTasksModifiedSince(projectGid: string, since: string | null): Promise<AsanaTask[]> {
+    const params: Record<string, string> = { project: projectGid, opt_fields: TASK_FIELDS };
+    if (since) params.modified_since = since;
+    return paginateAll<AsanaTask>(this.token, "/tasks", params);
+  }
+
+  async getTask(taskGid: string): Promise<AsanaTask> {
+    const res = await asanaFetch<AsanaTask>(this.token, `/tasks/${taskGid}`, { opt_fields: TASK_FIELDS });
+    return res.data;
+  }
+
+  async updateTask(taskGid: string, data: AsanaTaskUpdate): Promise<AsanaTask> {
+    const res = await asanaFetch<AsanaTask>(this.token, `/tasks/${taskGid}`, { opt_fields: TASK_FIELDS }, { method: "PUT", body: data });
+    return res.data;
+  }
+
   async getSubtasks(taskGid: string): Promise<AsanaTask[]> {
     return paginateAll<AsanaTask>(this.token, `/tasks/${taskGid}/subtasks`, {
       opt_fields: "gid,name,notes,completed,completed_at,created_at,modified_at,due_on,start_on,assignee,assignee.name,assignee.email,parent,parent.name",
@@ -514,6 +514,7 @@ export class AsanaImportPipeline {
       priority: mapAsanaPriority(),
       startDate: parseDate(task.start_on),
       dueDate: parseDate(task.due_on),
+      completedAt: task.completed ? parseDate(task.completed_at) ?? new Date() : null,
       createdBy: this.actorUserId,
       orderIndex: orderIdx,
     };
@@ -528,6 +529,7 @@ export class AsanaImportPipeline {
         sectionId: taskData.sectionId,
         startDate: taskData.startDate,
         dueDate: taskData.dueDate,
+        completedAt: taskData.completedAt,
         updatedAt: new Date(),
       }).where(eq(tasks.id, existingTaskId));
       localTaskId = existingTaskId;
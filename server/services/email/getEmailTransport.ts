@@ -0,0 +1,201 @@
+/**
+ * Centralized Email Transport Resolver
+ *
+ * Implements hierarchical email configuration:
+ * 1. Tenant `email` integration (delivery drivers only)
+ * 2. Tenant `mailgun` integration (legacy)
+ * 3. System-level `email` integration
+ * 4. System-level `mailgun` integration (legacy)
+ * 5. system_settings Mailgun fields (Super Admin > Integrations)
+ * 6. EMAIL_TRANSPORT=log|file environment fallback, for development
+ * 7. Returns null if no configuration found
+ *
+ * SECURITY:
+ * - Credentials never exposed to client
+ * - All resolution is server-side
+ * - Tenant isolation enforced
+ */
+
+import { z } from "zod";
+import { db } from "../../db";
+import { systemSettings } from "@shared/schema";
+import { tenantIntegrationService } from "../tenantIntegrations";
+import { decryptValue, isEncryptionAvailable } from "../../lib/encryption";
+import {
+  DELIVERY_EMAIL_DRIVERS,
+  EMAIL_DRIVERS,
+  createEmailTransport,
+  isDeliveryEmailDriver,
+  missingTransportSettings,
+  type EmailTransport,
+  type EmailTransportSecrets,
+  type EmailTransportSettings,
+} from "./transports";
+
+/** Public config of the `email` integration. */
+export interface EmailIntegrationPublicConfig extends EmailTransportSettings {
+  fromEmail: string;
+  replyTo?: string | null;
+}
+
+export interface ResolvedEmailTransport {
+  transport: EmailTransport;
+  fromEmail: string;
+  replyTo: string | null;
+  source: "tenant" | "system" | "system_settings" | "environment";
+}
+
+const DEV_FROM_EMAIL = "MyWorkDay <no-reply@localhost>";
+
+/** Tenant email settings: delivery drivers only. */
+export const emailIntegrationUpdateSchema = z.object({
+  driver: z.enum(DELIVERY_EMAIL_DRIVERS),
+  fromEmail: z.string().min(3).max(320),
+  replyTo: z.string().email().optional().nullable(),
+  mailgunDomain: z.string().optional(),
+  mailgunRegion: z.enum(["US", "EU"]).optional(),
+  smtpHost: z.string().optional(),
+  smtpPort: z.number().int().min(1).max(65535).optional(),
+  smtpSecure: z.boolean().optional(),
+  smtpUsername: z.string().optional(),
+  sesRegion: z.string().optional(),
+  sesEndpoint: z.string().url().optional().or(z.literal("")),
+  sesConfigurationSet: z.string().optional(),
+  postmarkServerUrl: z.string().url().optional().or(z.literal("")),
+  postmarkMessageStream: z.string().optional(),
+  mailgunApiKey: z.string().optional(),
+  smtpPassword: z.string().optional(),
+  sesAccessKeyId: z.string().optional(),
+  sesSecretAccessKey: z.string().optional(),
+  postmarkServerToken: z.string().optional(),
+});
+
+/** System email settings, which may also use the development `log` and `file` drivers. */
+export const systemEmailIntegrationUpdateSchema = emailIntegrationUpdateSchema.extend({
+  driver: z.enum(EMAIL_DRIVERS),
+  fileDirectory: z.string().optional(),
+});
+
+const SECRET_KEYS = ["mailgunApiKey", "smtpPassword", "sesAccessKeyId", "sesSecretAccessKey", "postmarkServerToken"] as const;
+
+/** Splits a validated update into the integration's public and secret halves. */
+export function splitEmailIntegrationUpdate(data: z.infer<typeof systemEmailIntegrationUpdateSchema>): {
+  publicConfig: EmailIntegrationPublicConfig;
+  secretConfig: EmailTransportSecrets | undefined;
+} {
+  const publicConfig: Record<string, unknown> = {};
+  const secretConfig: Record<string, string> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if ((SECRET_KEYS as readonly string[]).includes(key)) {
+      if (typeof value === "string" && value.trim()) secretConfig[key] = value;
+    } else {
+      publicConfig[key] = value === "" ? undefined : value;
+    }
+  }
+  return {
+    publicConfig: publicConfig as unknown as EmailIntegrationPublicConfig,
+    secretConfig: Object.keys(secretConfig).length > 0 ? secretConfig : undefined,
+  };
+}
+
+function debugLog(message: string, data?: Record<string, unknown>) {
+  if (process.env.EMAIL_DEBUG === "true" || process.env.MAILGUN_DEBUG === "true") {
+    console.log(`[EmailTransport DEBUG] ${message}`, data ? JSON.stringify(data) : "");
+  }
+}
+
+async function fromEmailIntegration(tenantId: string | null): Promise<ResolvedEmailTransport | null> {
+  const data = await tenantIntegrationService.getIntegrationWithSecrets(tenantId, "email");
+  const cfg = data?.publicConfig as EmailIntegrationPublicConfig | null;
+  if (!cfg?.driver || !cfg.fromEmail) return null;
+  if (tenantId && !isDeliveryEmailDriver(cfg.driver)) {
+    debugLog("development driver ignored for tenant", { tenantId, driver: cfg.driver });
+    return null;
+  }
+  const secrets = (data?.secretConfig ?? {}) as EmailTransportSecrets;
+  const missing = missingTransportSettings(cfg, secrets);
+  if (missing) {
+    debugLog("email integration incomplete", { tenantId, driver: cfg.driver, missing });
+    return null;
+  }
+  return {
+    transport: createEmailTransport(cfg, secrets),
+    fromEmail: cfg.fromEmail,
+    replyTo: cfg.replyTo ?? null,
+    source: tenantId ? "tenant" : "system",
+  };
+}
+
+async function fromMailgunIntegration(tenantId: string | null): Promise<ResolvedEmailTransport | null> {
+  const data = await tenantIntegrationService.getIntegrationWithSecrets(tenantId, "mailgun");
+  const cfg = data?.publicConfig as { domain?: string; fromEmail?: string; region?: "US" | "EU"; replyTo?: string | null } | null;
+  const sec = data?.secretConfig as { apiKey?: string } | null;
+  if (!cfg?.domain || !cfg?.fromEmail || !sec?.apiKey) return null;
+  return {
+    transport: createEmailTransport(
+      { driver: "mailgun", mailgunDomain: cfg.domain, mailgunRegion: cfg.region },
+      { mailgunApiKey: sec.apiKey },
+    ),
+    fromEmail: cfg.fromEmail,
+    replyTo: cfg.replyTo ?? null,
+    source: tenantId ? "tenant" : "system",
+  };
+}
+
+async function fromSystemSettings(): Promise<ResolvedEmailTransport | null> {
+  if (!isEncryptionAvailable()) return null;
+  const [settings] = await db.select().from(systemSettings).limit(1);
+  if (!settings?.mailgunDomain || !settings?.mailgunFromEmail || !settings?.mailgunApiKeyEncrypted) return null;
+  try {
+    const apiKey = decryptValue(settings.mailgunApiKeyEncrypted);
+    return {
+      transport: createEmailTransport(
+        { driver: "mailgun", mailgunDomain: settings.mailgunDomain, mailgunRegion: settings.mailgunRegion === "EU" ? "EU" : "US" },
+        { mailgunApiKey: apiKey },
+      ),
+      fromEmail: settings.mailgunFromEmail,
+      replyTo: null,
+      source: "system_settings",
+    };
+  } catch {
+    console.error("[EmailTransport] Failed to decrypt system-level Mailgun API key");
+    return null;
+  }
+}
+
+function fromEnvironment(): ResolvedEmailTransport | null {
+  const driver = process.env.EMAIL_TRANSPORT;
+  if (driver !== "log" && driver !== "file") return null;
+  return {
+    transport: createEmailTransport({ driver, fileDirectory: process.env.EMAIL_FILE_DIR }),
+    fromEmail: process.env.EMAIL_FROM || DEV_FROM_EMAIL,
+    replyTo: null,
+    source: "environment",
+  };
+}
+
+/**
+ * The transport to deliver a tenant's mail with (pass null for system mail), or null
+ * when nothing is configured anywhere in the chain.
+ */
+export async function getEmailTransport(tenantId: string | null): Promise<ResolvedEmailTransport | null> {
+  const resolvers: Array<() => Promise<ResolvedEmailTransport | null>> = [];
+  if (tenantId) {
+    resolvers.push(() => fromEmailIntegration(tenantId), () => fromMailgunIntegration(tenantId));
+  }
+  resolvers.push(
+    () => fromEmailIntegration(null),
+    () => fromMailgunIntegration(null),
+    fromSystemSettings,
+    async () => fromEnvironment(),
+  );
+
+  for (const resolve of resolvers) {
+    const resolved = await resolve();
+    if (resolved) {
+      debugLog("resolved", { tenantId, driver: resolved.transport.driver, source: resolved.source });
+      return resolved;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,320 @@
+/**
+ * Email Transport Drivers
+ *
+ * One interface over every way we can hand a message to a mail provider. The outbox
+ * (services/emailOutbox.ts) owns queuing, status and resend; a transport only delivers
+ * a single message and reports the provider's message id.
+ *
+ * Drivers:
+ * - mailgun  — Mailgun HTTP API (mailgun.js)
+ * - smtp     — any SMTP relay (nodemailer)
+ * - ses      — Amazon SES v2 API, or an SES-compatible endpoint
+ * - postmark — Postmark HTTP API, or a Postmark-compatible endpoint
+ * - log      — prints the message; for development
+ * - file     — writes each message as an .eml file; for development
+ */
+
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import Mailgun from "mailgun.js";
+import FormData from "form-data";
+import nodemailer from "nodemailer";
+import { SESv2Client, SendEmailCommand, GetAccountCommand } from "@aws-sdk/client-sesv2";
+
+export const EMAIL_DRIVERS = ["mailgun", "smtp", "ses", "postmark", "log", "file"] as const;
+export type EmailDriver = typeof EMAIL_DRIVERS[number];
+
+/**
+ * Drivers that deliver mail. `log` and `file` are for development: they write messages,
+ * password reset links included, to the server, so only system or environment config may use them.
+ */
+export const DELIVERY_EMAIL_DRIVERS = ["mailgun", "smtp", "ses", "postmark"] as const;
+
+export function isDeliveryEmailDriver(driver: string | undefined): boolean {
+  return (DELIVERY_EMAIL_DRIVERS as readonly string[]).includes(driver ?? "");
+}
+
+/** Drivers that can run without any stored secret. */
+export const SECRETLESS_EMAIL_DRIVERS = new Set<EmailDriver>(["smtp", "ses", "log", "file"]);
+
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  replyTo?: string | null;
+}
+
+export interface EmailTransport {
+  driver: EmailDriver;
+  send(message: OutgoingEmail): Promise<{ messageId: string | null }>;
+  /** Checks credentials and connectivity without sending anything. */
+  verify(): Promise<void>;
+}
+
+/** Driver settings as stored in the `email` integration's public config. */
+export interface EmailTransportSettings {
+  driver: EmailDriver;
+  // mailgun
+  mailgunDomain?: string;
+  mailgunRegion?: "US" | "EU";
+  // smtp
+  smtpHost?: string;
+  smtpPort?: number;
+  /** true = implicit TLS (usually port 465); false = STARTTLS when offered. */
+  smtpSecure?: boolean;
+  smtpUsername?: string;
+  // ses
+  sesRegion?: string;
+  sesEndpoint?: string;
+  sesConfigurationSet?: string;
+  // postmark
+  postmarkServerUrl?: string;
+  postmarkMessageStream?: string;
+  // file
+  fileDirectory?: string;
+}
+
+/** Driver credentials as stored (encrypted) in the `email` integration's secret config. */
+export interface EmailTransportSecrets {
+  mailgunApiKey?: string;
+  smtpPassword?: string;
+  sesAccessKeyId?: string;
+  sesSecretAccessKey?: string;
+  postmarkServerToken?: string;
+}
+
+export class EmailTransportConfigError extends Error {
+  code = "EMAIL_TRANSPORT_MISCONFIGURED";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "EmailTransportConfigError";
+  }
+}
+
+const DEFAULT_POSTMARK_URL = "https://api.postmarkapp.com";
+const DEFAULT_FILE_DIRECTORY = ".data/mail";
+
+/** The settings a driver cannot work without, or null when complete. */
+export function missingTransportSettings(settings: EmailTransportSettings, secrets: EmailTransportSecrets): string | null {
+  switch (settings.driver) {
+    case "mailgun":
+      if (!settings.mailgunDomain) return "Mailgun domain";
+      if (!secrets.mailgunApiKey) return "Mailgun API key";
+      return null;
+    case "smtp":
+      if (!settings.smtpHost) return "SMTP host";
+      if (settings.smtpUsername && !secrets.smtpPassword) return "SMTP password";
+      return null;
+    case "ses":
+      if (!settings.sesRegion) return "SES region";
+      if (!!secrets.sesAccessKeyId !== !!secrets.sesSecretAccessKey) return "SES access key pair";
+      return null;
+    case "postmark":
+      if (!secrets.postmarkServerToken) return "Postmark server token";
+      return null;
+    case "log":
+    case "file":
+      return null;
+  }
+}
+
+function mailgunTransport(settings: EmailTransportSettings, secrets: EmailTransportSecrets): EmailTransport {
+  const mailgun = new Mailgun(FormData);
+  const clientOpts: Record<string, string> = { username: "api", key: secrets.mailgunApiKey! };
+  if (settings.mailgunRegion === "EU") clientOpts.url = "https://api.eu.mailgun.net";
+  const mg = mailgun.client(clientOpts as any);
+  const domain = settings.mailgunDomain!;
+
+  return {
+    driver: "mailgun",
+    async send(message) {
+      const data: any = { from: message.from, to: [message.to], subject: message.subject, text: message.text };
+      if (message.html) data.html = message.html;
+      if (message.replyTo) data["h:Reply-To"] = message.replyTo;
+      const response = await mg.messages.create(domain, data);
+      return { messageId: response.id || null };
+    },
+    async verify() {
+      await mg.domains.get(domain);
+    },
+  };
+}
+
+function smtpTransport(settings: EmailTransportSettings, secrets: EmailTransportSecrets): EmailTransport {
+  const port = settings.smtpPort ?? (settings.smtpSecure ? 465 : 587);
+  const transporter = nodemailer.createTransport({
+    host: settings.smtpHost,
+    port,
+    secure: settings.smtpSecure ?? port === 465,
+    auth: settings.smtpUsername ? { user: settings.smtpUsername, pass: secrets.smtpPassword } : undefined,
+    connectionTimeout: 15_000,
+    greetingTimeout: 15_000,
+    socketTimeout: 30_000,
+  });
+
+  return {
+    driver: "smtp",
+    async send(message) {
+      const info = await transporter.sendMail({
+        from: message.from,
+        to: message.to,
+        replyTo: message.replyTo ?? undefined,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+      if (info.rejected.length > 0) {
+        throw new Error(`SMTP server rejected ${info.rejected.join(", ")}: ${info.response}`);
+      }
+      return { messageId: info.messageId || null };
+    },
+    async verify() {
+      await transporter.verify();
+    },
+  };
+}
+
+function sesTransport(settings: EmailTransportSettings, secrets: EmailTransportSecrets): EmailTransport {
+  const client = new SESv2Client({
+    region: settings.sesRegion,
+    endpoint: settings.sesEndpoint || undefined,
+    // Without keys the SDK's default chain applies (instance role, env vars)
+    credentials: secrets.sesAccessKeyId && secrets.sesSecretAccessKey
+      ? { accessKeyId: secrets.sesAccessKeyId, secretAccessKey: secrets.sesSecretAccessKey }
+      : undefined,
+  });
+
+  return {
+    driver: "ses",
+    async send(message) {
+      const response = await client.send(new SendEmailCommand({
+        FromEmailAddress: message.from,
+        Destination: { ToAddresses: [message.to] },
+        ReplyToAddresses: message.replyTo ? [message.replyTo] : undefined,
+        ConfigurationSetName: settings.sesConfigurationSet || undefined,
+        Content: {
+          Simple: {
+            Subject: { Data: message.subject, Charset: "UTF-8" },
+            Body: {
+              Text: { Data: message.text, Charset: "UTF-8" },
+              ...(message.html ? { Html: { Data: message.html, Charset: "UTF-8" } } : {}),
+            },
+          },
+        },
+      }));
+      return { messageId: response.MessageId ?? null };
+    },
+    async verify() {
+      await client.send(new GetAccountCommand({}));
+    },
+  };
+}
+
+function postmarkTransport(settings: EmailTransportSettings, secrets: EmailTransportSecrets): EmailTransport {
+  const baseUrl = (settings.postmarkServerUrl || DEFAULT_POSTMARK_URL).replace(/\/+$/, "");
+  const headers = {
+    Accept: "application/json",
+    "Content-Type": "application/json",
+    "X-Postmark-Server-Token": secrets.postmarkServerToken!,
+  };
+
+  async function call(method: "GET" | "POST", pathname: string, body?: unknown): Promise<any> {
+    const res = await fetch(`${baseUrl}${pathname}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(30_000),
+    });
+    const payload = await res.json().catch(() => null) as { ErrorCode?: number; Message?: string } | null;
+    if (!res.ok || (payload?.ErrorCode ?? 0) !== 0) {
+      throw new Error(`Postmark error ${payload?.ErrorCode ?? res.status}: ${payload?.Message || res.statusText}`);
+    }
+    return payload;
+  }
+
+  return {
+    driver: "postmark",
+    async send(message) {
+      const result = await call("POST", "/email", {
+        From: message.from,
+        To: message.to,
+        ReplyTo: message.replyTo || undefined,
+        Subject: message.subject,
+        TextBody: message.text,
+        HtmlBody: message.html,
+        MessageStream: settings.postmarkMessageStream || "outbound",
+      });
+      return { messageId: result?.MessageID ?? null };
+    },
+    async verify() {
+      await call("GET", "/server");
+    },
+  };
+}
+
+function logTransport(): EmailTransport {
+  return {
+    driver: "log",
+    async send(message) {
+      const messageId = `log-${randomUUID()}`;
+      console.log(
+        `[EmailTransport:log] ${messageId}\n  From: ${message.from}\n  To: ${message.to}\n  Subject: ${message.subject}\n\n${message.text}\n`,
+      );
+      return { messageId };
+    },
+    async verify() {},
+  };
+}
+
+function fileTransport(settings: EmailTransportSettings): EmailTransport {
+  const directory = path.resolve(settings.fileDirectory || DEFAULT_FILE_DIRECTORY);
+  // Renders the full RFC 822 message without sending it
+  const renderer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+
+  return {
+    driver: "file",
+    async send(message) {
+      const info = await renderer.sendMail({
+        from: message.from,
+        to: message.to,
+        replyTo: message.replyTo ?? undefined,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+      await mkdir(directory, { recursive: true });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID().slice(0, 8)}.eml`;
+      await writeFile(path.join(directory, fileName), info.message as Buffer);
+      return { messageId: info.messageId || fileName };
+    },
+    async verify() {
+      await mkdir(directory, { recursive: true });
+    },
+  };
+}
+
+export function createEmailTransport(settings: EmailTransportSettings, secrets: EmailTransportSecrets = {}): EmailTransport {
+  const missing = missingTransportSettings(settings, secrets);
+  if (missing) throw new EmailTransportConfigError(`${missing} is required for the ${settings.driver} email driver`);
+
+  switch (settings.driver) {
+    case "mailgun":
+      return mailgunTransport(settings, secrets);
+    case "smtp":
+      return smtpTransport(settings, secrets);
+    case "ses":
+      return sesTransport(settings, secrets);
+    case "postmark":
+      return postmarkTransport(settings, secrets);
+    case "log":
+      return logTransport();
+    case "file":
+      return fileTransport(settings);
+    default:
+      throw new EmailTransportConfigError(`Unknown email driver: ${(settings as { driver: string }).driver}`);
+  }
+}
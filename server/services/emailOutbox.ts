@@ -1,66 +1,14 @@
 import { db } from "../db";
-import { emailOutbox, users, systemSettings, InsertEmailOutbox, EmailOutbox } from "@shared/schema";
+import { emailOutbox, users, InsertEmailOutbox, EmailOutbox } from "@shared/schema";
 import { eq, and, desc, sql, gte, lte } from "drizzle-orm";
-import { tenantIntegrationService } from "./tenantIntegrations";
-import { decryptValue, isEncryptionAvailable } from "../lib/encryption";
-import Mailgun from "mailgun.js";
-import FormData from "form-data";
-
-interface ResolvedMailgunConfig {
-  domain: string;
-  fromEmail: string;
-  region?: string;
-  apiKey: string;
-}
-
-async function resolveMailgunConfig(tenantId: string | null): Promise<ResolvedMailgunConfig | null> {
-  // 1. Try tenant-specific config from tenantIntegrations
-  if (tenantId) {
-    const data = await tenantIntegrationService.getIntegrationWithSecrets(tenantId, "mailgun");
-    const cfg = data?.publicConfig as { domain?: string; fromEmail?: string; region?: string } | null;
-    const sec = data?.secretConfig as { apiKey?: string } | null;
-    if (cfg?.domain && cfg?.fromEmail && sec?.apiKey) {
-      return { domain: cfg.domain, fromEmail: cfg.fromEmail, region: cfg.region, apiKey: sec.apiKey };
-    }
-  }
-
-  // 2. Try system-level config from tenantIntegrations (tenantId = null row)
-  const sysData = await tenantIntegrationService.getIntegrationWithSecrets(null, "mailgun");
-  const sysCfg = sysData?.publicConfig as { domain?: string; fromEmail?: string; region?: string } | null;
-  const sysSec = sysData?.secretConfig as { apiKey?: string } | null;
-  if (sysCfg?.domain && sysCfg?.fromEmail && sysSec?.apiKey) {
-    return { domain: sysCfg.domain, fromEmail: sysCfg.fromEmail, region: sysCfg.region, apiKey: sysSec.apiKey };
-  }
-
-  // 3. Final fallback: system_settings table (set via Super Admin > Integrations UI)
-  if (!isEncryptionAvailable()) return null;
-  const [settings] = await db.select().from(systemSettings).limit(1);
-  if (
-    settings?.mailgunDomain &&
-    settings?.mailgunFromEmail &&
-    settings?.mailgunApiKeyEncrypted
-  ) {
-    try {
-      const apiKey = decryptValue(settings.mailgunApiKeyEncrypted);
-      return {
-        domain: settings.mailgunDomain,
-        fromEmail: settings.mailgunFromEmail,
-        region: settings.mailgunRegion ?? undefined,
-        apiKey,
-      };
-    } catch {
-      console.error("[EmailOutbox] Failed to decrypt system-level Mailgun API key");
-    }
-  }
-
-  return null;
-}
+import { getEmailTransport } from "./email/getEmailTransport";
 
 export type EmailMessageType = 
   | "invitation"
   | "mention_notification"
   | "forgot_password"
   | "test_email"
+  | "support_reply"
   | "other";
 
 export type EmailStatus = "queued" | "sent" | "failed";
@@ -72,6 +20,8 @@ interface SendEmailOptions {
   subject: string;
   textBody: string;
   htmlBody?: string;
+  /** Overrides the transport's configured Reply-To, e.g. with an inbound reply address. */
+  replyTo?: string | null;
   requestId?: string;
   metadata?: Record<string, unknown>;
 }
@@ -105,7 +55,7 @@ function debugLog(message: string, data?: Record<string, unknown>) {
 
 export class EmailOutboxService {
   async sendEmail(options: SendEmailOptions): Promise<{ success: boolean; emailId: string; error?: string }> {
-    const { tenantId, messageType, toEmail, subject, textBody, htmlBody, requestId, metadata } = options;
+    const { tenantId, messageType, toEmail, subject, textBody, htmlBody, replyTo, requestId, metadata } = options;
 
     const emailId = crypto.randomUUID();
 
@@ -123,34 +73,36 @@ export class EmailOutboxService {
     debugLog("Email queued", { emailId, tenantId, messageType, toEmail, subject });
 
     try {
-      const mailgunConfig = await resolveMailgunConfig(tenantId);
+      const resolved = await getEmailTransport(tenantId);
 
-      if (!mailgunConfig) {
-        await this.updateEmailStatus(emailId, "failed", null, "Mailgun not configured (checked tenant config, system tenantIntegrations, and system_settings)");
-        return { success: false, emailId, error: "Mailgun not configured" };
+      if (!resolved) {
+        await this.updateEmailStatus(emailId, "failed", null, "Email not configured (checked tenant and system email integrations, system_settings, and EMAIL_TRANSPORT)");
+        return { success: false, emailId, error: "Email not configured" };
       }
 
-      const mailgun = new Mailgun(FormData);
-      const clientOpts: Record<string, string> = { username: "api", key: mailgunConfig.apiKey };
-      if (mailgunConfig.region === "EU") clientOpts.url = "https://api.eu.mailgun.net";
-      const mg = mailgun.client(clientOpts as any);
+      await db
+        .update(emailOutbox)
+        .set({ transport: resolved.transport.driver })
+        .where(eq(emailOutbox.id, emailId));
 
-      const messageData: any = {
-        from: mailgunConfig.fromEmail,
-        to: [toEmail],
+      const response = await resolved.transport.send({
+        from: resolved.fromEmail,
+        to: toEmail,
+        replyTo: replyTo || resolved.replyTo,
         subject,
         text: textBody,
-      };
-
-      if (htmlBody) {
-        messageData.html = htmlBody;
-      }
-
-      const response = await mg.messages.create(mailgunConfig.domain, messageData);
-
-      debugLog("Email sent successfully", { emailId, tenantId, providerMessageId: response.id });
-
-      await this.updateEmailStatus(emailId, "sent", response.id || null, null);
+        html: htmlBody,
+      });
+
+      debugLog("Email sent successfully", {
+        emailId,
+        tenantId,
+        transport: resolved.transport.driver,
+        source: resolved.source,
+        providerMessageId: response.messageId,
+      });
+
+      await this.updateEmailStatus(emailId, "sent", response.messageId, null);
 
       return { success: true, emailId };
     } catch (error: any) {
@@ -4,8 +4,24 @@ import { eq, and, isNull } from "drizzle-orm";
 import { encryptValue, decryptValue, isEncryptionAvailable } from "../lib/encryption";
 import Mailgun from "mailgun.js";
 import FormData from "form-data";
-
-export type IntegrationProvider = "mailgun" | "s3" | "r2" | "openai" | "asana";
+import {
+  SECRETLESS_EMAIL_DRIVERS,
+  createEmailTransport,
+  isDeliveryEmailDriver,
+  missingTransportSettings,
+  type EmailTransportSecrets,
+  type EmailTransportSettings,
+} from "./email/transports";
+import {
+  SECRETLESS_AI_DRIVERS,
+  createAIProvider,
+  missingProviderSettings,
+  tenantSettingsViolation,
+  type AIProviderSecrets,
+  type AIProviderSettings,
+} from "./ai/providers";
+
+export type IntegrationProvider = "mailgun" | "email" | "s3" | "r2" | "openai" | "ai" | "asana" | "sso";
 
 interface MailgunPublicConfig {
   domain: string;
@@ -25,6 +41,14 @@ interface MailgunSecretConfig {
   apiKey: string;
 }
 
+/** Outbound email through any transport driver; supersedes the `mailgun` integration when set. */
+interface EmailPublicConfig extends EmailTransportSettings {
+  fromEmail: string;
+  replyTo?: string | null;
+}
+
+type EmailSecretConfig = EmailTransportSecrets;
+
 interface S3PublicConfig {
   bucketName: string;
   region: string;
@@ -65,6 +89,13 @@ export interface OpenAISecretConfig {
   apiKey: string;
 }
 
+/** Model access through any AI driver; supersedes the `openai` integration when set. */
+export interface AIPublicConfig extends AIProviderSettings {
+  enabled: boolean;
+}
+
+export type AISecretConfig = AIProviderSecrets;
+
 export interface AsanaPublicConfig {
   enabled: boolean;
   workspaceGid?: string;
@@ -75,11 +106,34 @@ export interface AsanaSecretConfig {
   personalAccessToken: string;
 }
 
-type PublicConfig = MailgunPublicConfig | S3PublicConfig | R2PublicConfig | OpenAIPublicConfig | AsanaPublicConfig;
-type SecretConfig = MailgunSecretConfig | S3SecretConfig | R2SecretConfig | OpenAISecretConfig | AsanaSecretConfig;
+/**
+ * Single sign-on identity provider. The SAML IdP certificate is public; only the OIDC client
+ * secret is encrypted.
+ */
+export interface SsoPublicConfig {
+  enabled: boolean;
+  protocol: "oidc" | "saml";
+  displayName?: string | null;
+  emailDomains: string[];
+  allowJitProvisioning: boolean;
+  passwordLoginDisabled: boolean;
+  oidcIssuerUrl?: string | null;
+  oidcClientId?: string | null;
+  samlEntryPoint?: string | null;
+  samlIdpIssuer?: string | null;
+  samlIdpCert?: string | null;
+}
+
+export interface SsoSecretConfig {
+  clientSecret?: string;
+}
+
+type PublicConfig = MailgunPublicConfig | EmailPublicConfig | S3PublicConfig | R2PublicConfig | OpenAIPublicConfig | AIPublicConfig | AsanaPublicConfig | SsoPublicConfig;
+type SecretConfig = MailgunSecretConfig | EmailSecretConfig | S3SecretConfig | R2SecretConfig | OpenAISecretConfig | AISecretConfig | AsanaSecretConfig | SsoSecretConfig;
 
 interface SecretMaskedInfo {
   apiKeyMasked?: string | null;
+  passwordMasked?: string | null;
   accessKeyIdMasked?: string | null;
   secretAccessKeyMasked?: string | null;
   clientSecretMasked?: string | null;
@@ -109,6 +163,15 @@ function maskSecret(secret: string | undefined | null): string | null {
   return "••••" + secret.slice(-4);
 }
 
+function maskEmailSecrets(secrets: EmailSecretConfig): SecretMaskedInfo {
+  return {
+    apiKeyMasked: maskSecret(secrets.mailgunApiKey ?? secrets.postmarkServerToken),
+    passwordMasked: maskSecret(secrets.smtpPassword),
+    accessKeyIdMasked: maskSecret(secrets.sesAccessKeyId),
+    secretAccessKeyMasked: maskSecret(secrets.sesSecretAccessKey),
+  };
+}
+
 export interface IntegrationUpdateInput {
   publicConfig?: Partial<PublicConfig>;
   secretConfig?: Partial<SecretConfig>;
@@ -153,6 +216,8 @@ export class TenantIntegrationService {
           secretMasked = {
             apiKeyMasked: maskSecret(mgSecrets.apiKey),
           };
+        } else if (provider === "email") {
+          secretMasked = maskEmailSecrets(secrets as EmailSecretConfig);
         } else if (provider === "s3") {
           const s3Secrets = secrets as S3SecretConfig;
           secretMasked = {
@@ -165,7 +230,7 @@ export class TenantIntegrationService {
             accessKeyIdMasked: maskSecret(r2Secrets.accessKeyId),
             secretAccessKeyMasked: maskSecret(r2Secrets.secretAccessKey),
           };
-        } else if (provider === "openai") {
+        } else if (provider === "openai" || provider === "ai") {
           const aiSecrets = secrets as OpenAISecretConfig;
           secretMasked = {
             apiKeyMasked: maskSecret(aiSecrets.apiKey),
@@ -175,6 +240,11 @@ export class TenantIntegrationService {
           secretMasked = {
             apiKeyMasked: maskSecret(asanaSecrets.personalAccessToken),
           };
+        } else if (provider === "sso") {
+          const ssoSecrets = secrets as SsoSecretConfig;
+          secretMasked = {
+            clientSecretMasked: maskSecret(ssoSecrets.clientSecret),
+          };
         }
       } catch (err) {
         debugLog("getIntegration - failed to decrypt secrets for masking", { tenantId, provider });
@@ -216,7 +286,7 @@ export class TenantIntegrationService {
       if (message.includes("does not exist") || message.includes("column")) {
         console.warn("[TenantIntegrations] listIntegrations table/column issue:", message);
         // Return empty list with not_configured status for all providers
-        return ["mailgun", "s3", "r2", "openai"].map(p => ({
+        return ["mailgun", "email", "s3", "r2", "openai", "ai"].map(p => ({
           provider: p,
           status: IntegrationStatus.NOT_CONFIGURED,
           publicConfig: null,
@@ -227,7 +297,7 @@ export class TenantIntegrationService {
       throw dbError;
     }
 
-    const providers: IntegrationProvider[] = ["mailgun", "s3", "r2", "openai"];
+    const providers: IntegrationProvider[] = ["mailgun", "email", "s3", "r2", "openai", "ai"];
     const result: IntegrationResponse[] = [];
 
     for (const provider of providers) {
@@ -240,13 +310,15 @@ export class TenantIntegrationService {
             if (provider === "mailgun") {
               const mgSecrets = secrets as MailgunSecretConfig;
               secretMasked = { apiKeyMasked: maskSecret(mgSecrets.apiKey) };
+            } else if (provider === "email") {
+              secretMasked = maskEmailSecrets(secrets as EmailSecretConfig);
             } else if (provider === "s3") {
               const s3Secrets = secrets as S3SecretConfig;
               secretMasked = {
                 accessKeyIdMasked: maskSecret(s3Secrets.accessKeyId),
                 secretAccessKeyMasked: maskSecret(s3Secrets.secretAccessKey),
               };
-            } else if (provider === "openai") {
+            } else if (provider === "openai" || provider === "ai") {
               const aiSecrets = secrets as OpenAISecretConfig;
               secretMasked = { apiKeyMasked: maskSecret(aiSecrets.apiKey) };
             }
@@ -454,6 +526,9 @@ export class TenantIntegrationService {
         case "mailgun":
           testResult = await this.testMailgun(tenantId);
           break;
+        case "email":
+          testResult = await this.testEmail(tenantId);
+          break;
         case "s3":
           testResult = await this.testS3(tenantId);
           break;
@@ -463,6 +538,9 @@ export class TenantIntegrationService {
         case "openai":
           testResult = await this.testOpenAI(tenantId);
           break;
+        case "ai":
+          testResult = await this.testAI(tenantId);
+          break;
         default:
           testResult = { success: false, message: `Unknown provider: ${provider}` };
       }
@@ -525,6 +603,31 @@ export class TenantIntegrationService {
     }
   }
 
+  private async testEmail(tenantId: string | null): Promise<{ success: boolean; message: string }> {
+    const data = await this.getIntegrationWithSecrets(tenantId, "email");
+    const config = data?.publicConfig as EmailPublicConfig | null;
+    if (!config?.driver || !config.fromEmail) {
+      return { success: false, message: "Email driver or from address not configured" };
+    }
+    if (tenantId && !isDeliveryEmailDriver(config.driver)) {
+      return { success: false, message: `The ${config.driver} driver is only available in system settings` };
+    }
+    const secrets = (data?.secretConfig ?? {}) as EmailSecretConfig;
+    const missing = missingTransportSettings(config, secrets);
+    if (missing) {
+      return { success: false, message: `${missing} is required for the ${config.driver} driver` };
+    }
+
+    try {
+      await createEmailTransport(config, secrets).verify();
+      debugLog("testEmail - transport verified", { tenantId, driver: config.driver });
+      return { success: true, message: `${config.driver} transport is reachable` };
+    } catch (error: any) {
+      debugLog("testEmail - failed", { tenantId, driver: config.driver, error: error.message });
+      return { success: false, message: error.message || `Failed to verify ${config.driver} transport` };
+    }
+  }
+
   async sendTestEmail(
     tenantId: string,
     toEmail: string,
@@ -636,6 +739,13 @@ export class TenantIntegrationService {
         }
         break;
       }
+      case "email": {
+        const config = publicConfig as EmailPublicConfig;
+        if (config.driver && config.fromEmail && (hasSecret || SECRETLESS_EMAIL_DRIVERS.has(config.driver))) {
+          return IntegrationStatus.CONFIGURED;
+        }
+        break;
+      }
       case "s3": {
         const config = publicConfig as S3PublicConfig;
         // S3 requires bucketName, region, AND secrets (accessKeyId, secretAccessKey)
@@ -652,6 +762,24 @@ export class TenantIntegrationService {
         }
         break;
       }
+      case "ai": {
+        const config = publicConfig as AIPublicConfig;
+        if (config.driver && (hasSecret || SECRETLESS_AI_DRIVERS.has(config.driver))) {
+          return IntegrationStatus.CONFIGURED;
+        }
+        break;
+      }
+      case "sso": {
+        const config = publicConfig as SsoPublicConfig;
+        // OIDC needs the client secret; SAML only needs the IdP endpoint and certificate
+        const ready = config.protocol === "saml"
+          ? !!(config.samlEntryPoint && config.samlIdpCert)
+          : !!(config.oidcIssuerUrl && config.oidcClientId && hasSecret);
+        if (ready) {
+          return IntegrationStatus.CONFIGURED;
+        }
+        break;
+      }
     }
 
     return IntegrationStatus.NOT_CONFIGURED;
@@ -675,25 +803,43 @@ export class TenantIntegrationService {
     }
 
     try {
-      const OpenAI = (await import("openai")).default;
-      const client = new OpenAI({ apiKey: secrets.apiKey });
-      
-      const response = await client.chat.completions.create({
-        model: config.model || "gpt-4o-mini",
-        messages: [{ role: "user", content: "Say 'OK' in one word." }],
-        max_tokens: 10,
-      });
-
-      if (response.choices && response.choices.length > 0) {
-        return { success: true, message: `OpenAI connection successful (model: ${response.model})` };
-      }
-      return { success: false, message: "No response from OpenAI API" };
+      const response = await createAIProvider(
+        { driver: "openai", model: config.model || "gpt-4o-mini" },
+        { apiKey: secrets.apiKey },
+      ).complete({ messages: [{ role: "user", content: "Say 'OK' in one word." }], maxTokens: 10 });
+      return { success: true, message: `OpenAI connection successful (model: ${response.model})` };
     } catch (error: any) {
       console.error("[OpenAI] Test failed:", error);
       return { success: false, message: error.message || "Failed to connect to OpenAI API" };
     }
   }
 
+  private async testAI(tenantId: string | null): Promise<{ success: boolean; message: string }> {
+    const data = await this.getIntegrationWithSecrets(tenantId, "ai");
+    const config = data?.publicConfig as AIPublicConfig | null;
+    if (!config?.driver) {
+      return { success: false, message: "AI driver not configured" };
+    }
+    const violation = tenantId ? tenantSettingsViolation(config) : null;
+    if (violation) {
+      return { success: false, message: violation };
+    }
+    const secrets = (data?.secretConfig ?? {}) as AISecretConfig;
+    const missing = missingProviderSettings(config, secrets);
+    if (missing) {
+      return { success: false, message: `${missing} is required for the ${config.driver} driver` };
+    }
+
+    try {
+      await createAIProvider(config, secrets).verify();
+      debugLog("testAI - provider verified", { tenantId, driver: config.driver });
+      return { success: true, message: `${config.driver} provider is reachable` };
+    } catch (error: any) {
+      debugLog("testAI - failed", { tenantId, driver: config.driver, error: error.message });
+      return { success: false, message: error.message || `Failed to verify ${config.driver} provider` };
+    }
+  }
+
   async clearSecret(tenantId: string | null, provider: IntegrationProvider, secretName: string): Promise<void> {
     const condition = tenantId
       ? and(eq(tenantIntegrations.tenantId, tenantId), eq(tenantIntegrations.provider, provider))
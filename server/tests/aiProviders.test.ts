@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  AIProviderConfigError,
+  createAIProvider,
+  missingProviderSettings,
+  modelForFeature,
+  tenantSettingsViolation,
+  toAnthropicRequest,
+} from "../services/ai/providers";
+import { aiIntegrationUpdateSchema, splitAIIntegrationUpdate, systemAIIntegrationUpdateSchema } from "../services/ai/getAIProvider";
+
+describe("AI providers", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reports the first missing setting per driver", () => {
+    expect(missingProviderSettings({ driver: "openai" }, {})).toBe("API key");
+    expect(missingProviderSettings({ driver: "anthropic" }, { apiKey: "k" })).toBeNull();
+    expect(missingProviderSettings({ driver: "azure_openai", model: "gpt4o" }, { apiKey: "k" })).toBe("Azure endpoint");
+    expect(missingProviderSettings({ driver: "azure_openai", azureEndpoint: "https://x.openai.azure.com" }, { apiKey: "k" }))
+      .toBe("Azure deployment name");
+    expect(missingProviderSettings({ driver: "openai_compatible", baseUrl: "http://localhost:11434/v1" }, {})).toBe("Model");
+    expect(missingProviderSettings({ driver: "openai_compatible", baseUrl: "http://localhost:11434/v1", model: "llama3.1" }, {}))
+      .toBeNull();
+    expect(missingProviderSettings({ driver: "fake" }, {})).toBeNull();
+  });
+
+  it("refuses to build an incomplete provider", () => {
+    expect(() => createAIProvider({ driver: "anthropic" })).toThrow(AIProviderConfigError);
+  });
+
+  it("uses the per-feature model, else the default model, else the driver default", () => {
+    const settings = { driver: "openai" as const, model: "gpt-4o", featureModels: { chat_summary: "gpt-4o-mini" } };
+    expect(modelForFeature(settings, "chat_summary")).toBe("gpt-4o-mini");
+    expect(modelForFeature(settings, "project_plan")).toBe("gpt-4o");
+    expect(modelForFeature({ driver: "anthropic" }, "project_plan")).toBe("claude-3-5-haiku-latest");
+  });
+
+  it("gives the same fake response and usage for the same prompt", async () => {
+    const provider = createAIProvider({ driver: "fake" });
+    const request = { messages: [{ role: "user" as const, content: "Summarize the launch plan" }] };
+
+    const first = await provider.complete(request);
+    const second = await provider.complete(request);
+    const other = await provider.complete({ messages: [{ role: "user", content: "Something else" }] });
+
+    expect(first).toEqual(second);
+    expect(first.text).not.toBe(other.text);
+    expect(first.model).toBe("fake-model");
+    expect(first.usage.inputTokens).toBeGreaterThan(0);
+  });
+
+  it("returns feature-shaped JSON from the fake provider", async () => {
+    const provider = createAIProvider({ driver: "fake" });
+    const completion = await provider.complete({
+      messages: [{ role: "user", content: "Break down: ship v2" }],
+      json: true,
+      feature: "task_breakdown",
+    });
+    const parsed = JSON.parse(completion.text);
+    expect(Array.isArray(parsed.subtasks)).toBe(true);
+    expect(parsed.subtasks.length).toBeGreaterThan(0);
+  });
+
+  it("maps messages to the Anthropic format", () => {
+    const body = toAnthropicRequest({
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "First" },
+        { role: "user", content: "Second" },
+        { role: "assistant", content: "Ok" },
+      ],
+      temperature: 1.4,
+      json: true,
+    }, { driver: "anthropic", model: "claude-test", maxTokens: 500 });
+
+    expect(body).toEqual({
+      model: "claude-test",
+      max_tokens: 500,
+      temperature: 1,
+      system: "Be brief.\n\nRespond with a single JSON object and nothing else.",
+      messages: [
+        { role: "user", content: "First\n\nSecond" },
+        { role: "assistant", content: "Ok" },
+      ],
+    });
+  });
+
+  it("calls the Anthropic Messages API and reads text and usage", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      model: "claude-test",
+      content: [{ type: "text", text: "```json\n{\"ok\":true}\n```" }],
+      usage: { input_tokens: 12, output_tokens: 5 },
+    }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = createAIProvider({ driver: "anthropic", model: "claude-test" }, { apiKey: "sk-ant" });
+    const completion = await provider.complete({ messages: [{ role: "user", content: "Hi" }], json: true });
+
+    expect(completion).toEqual({ text: "{\"ok\":true}", model: "claude-test", usage: { inputTokens: 12, outputTokens: 5 } });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://api.anthropic.com/v1/messages");
+    expect(init.headers["x-api-key"]).toBe("sk-ant");
+  });
+
+  it("surfaces Anthropic API errors", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      error: { type: "authentication_error", message: "invalid x-api-key" },
+    }), { status: 401 })));
+
+    const provider = createAIProvider({ driver: "anthropic" }, { apiKey: "bad" });
+    await expect(provider.complete({ messages: [{ role: "user", content: "Hi" }] })).rejects.toThrow("invalid x-api-key");
+  });
+
+  it("splits an update into public settings and the API key", () => {
+    const data = systemAIIntegrationUpdateSchema.parse({
+      driver: "openai_compatible",
+      baseUrl: "http://ollama.internal:11434/v1",
+      model: "llama3.1",
+      featureModels: { chat_summary: "llama3.1:70b", project_plan: "  " },
+      azureEndpoint: "",
+      apiKey: "",
+    });
+    const { publicConfig, secretConfig } = splitAIIntegrationUpdate(data);
+    expect(publicConfig).toMatchObject({ enabled: true, driver: "openai_compatible", model: "llama3.1" });
+    expect(publicConfig.featureModels).toEqual({ chat_summary: "llama3.1:70b" });
+    expect(publicConfig.azureEndpoint).toBeUndefined();
+    expect(secretConfig).toBeUndefined();
+
+    expect(systemAIIntegrationUpdateSchema.safeParse({ driver: "mystery" }).success).toBe(false);
+  });
+
+  it("keeps tenants off self-hosted drivers, custom URLs and non-Azure endpoints", () => {
+    expect(aiIntegrationUpdateSchema.safeParse({ driver: "openai_compatible", baseUrl: "https://llm.example.com/v1" }).success).toBe(false);
+    expect(aiIntegrationUpdateSchema.parse({ driver: "anthropic", baseUrl: "http://169.254.169.254" })).not.toHaveProperty("baseUrl");
+    expect(aiIntegrationUpdateSchema.safeParse({ driver: "azure_openai", azureEndpoint: "https://my-resource.openai.azure.com" }).success).toBe(true);
+    for (const azureEndpoint of ["http://my-resource.openai.azure.com", "https://10.0.0.5", "https://openai.azure.com.evil.io", "https://x.openai.azure.com:8443"]) {
+      expect(aiIntegrationUpdateSchema.safeParse({ driver: "azure_openai", azureEndpoint }).success, azureEndpoint).toBe(false);
+    }
+  });
+
+  it("flags stored tenant settings only the system may use", () => {
+    expect(tenantSettingsViolation({ driver: "openai" })).toBeNull();
+    expect(tenantSettingsViolation({ driver: "openai_compatible", baseUrl: "http://localhost:11434/v1" })).toMatch(/system administrator/);
+    expect(tenantSettingsViolation({ driver: "openai", baseUrl: "http://127.0.0.1" })).toMatch(/system administrator/);
+    expect(tenantSettingsViolation({ driver: "azure_openai", azureEndpoint: "https://internal.corp" })).toMatch(/Azure endpoint/);
+  });
+});
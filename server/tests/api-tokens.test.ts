@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { Router } from "express";
+import {
+  API_TOKEN_PREFIX,
+  generateApiTokenSecret,
+  hashApiToken,
+  hasScope,
+  readBearerToken,
+  requiredScope,
+} from "../features/apiTokens/apiTokenSecrets";
+import { buildOpenApiSpec, collectEndpoints, findEndpoint } from "../http/publicApi";
+import type { RouteMount } from "../http/routeRegistry";
+import { createApiTokenSchema } from "@shared/schema";
+
+const noop = () => undefined;
+
+function mounts(): RouteMount[] {
+  const tasks = Router();
+  tasks.get("/tasks/:id", noop);
+  tasks.patch("/tasks/:id", noop);
+  const nested = Router();
+  nested.post("/tasks/:taskId/comments", noop);
+  tasks.use("/", nested);
+
+  const admin = Router();
+  admin.get("/tenants", noop);
+
+  const users = Router();
+  users.get("/users", noop);
+  users.post("/users/:id/generate-reset-link", noop);
+
+  return [
+    { path: "/api", router: users, policy: "authTenant", domain: "users", description: "Users", legacy: false, apiResource: "users", apiEndpoints: ["GET /users"] },
+    { path: "/api", router: tasks, policy: "authTenant", domain: "tasks", description: "Tasks", legacy: false, apiResource: "tasks" },
+    { path: "/api/v1/super", router: admin, policy: "superUser", domain: "super-admin", description: "Super", legacy: false },
+  ];
+}
+
+describe("API token secrets", () => {
+  it("generates prefixed secrets and stores only their hash", () => {
+    const { token, tokenPrefix, tokenHash } = generateApiTokenSecret();
+    expect(token.startsWith(API_TOKEN_PREFIX)).toBe(true);
+    expect(token.startsWith(tokenPrefix)).toBe(true);
+    expect(tokenPrefix.length).toBeLessThan(token.length);
+    expect(tokenHash).toBe(hashApiToken(token));
+    expect(tokenHash).not.toContain(token);
+  });
+
+  it("only reads bearer headers carrying an API token", () => {
+    expect(readBearerToken(`Bearer ${API_TOKEN_PREFIX}abc`)).toBe(`${API_TOKEN_PREFIX}abc`);
+    expect(readBearerToken(`bearer ${API_TOKEN_PREFIX}abc`)).toBe(`${API_TOKEN_PREFIX}abc`);
+    expect(readBearerToken("Bearer some-oauth-token")).toBeNull();
+    expect(readBearerToken("Basic dXNlcjpwYXNz")).toBeNull();
+    expect(readBearerToken(undefined)).toBeNull();
+  });
+
+  it("requires read scopes for safe methods and write scopes otherwise, with write implying read", () => {
+    expect(requiredScope("GET", "tasks")).toBe("read:tasks");
+    expect(requiredScope("delete", "time")).toBe("write:time");
+    expect(hasScope(["write:time"], "read:time")).toBe(true);
+    expect(hasScope(["read:time"], "write:time")).toBe(false);
+    expect(hasScope(["read:tasks"], "read:time")).toBe(false);
+  });
+
+  it("validates requested scopes", () => {
+    expect(createApiTokenSchema.safeParse({ name: "BI export", scopes: ["read:time"] }).success).toBe(true);
+    expect(createApiTokenSchema.safeParse({ name: "BI export", scopes: [] }).success).toBe(false);
+    expect(createApiTokenSchema.safeParse({ name: "BI export", scopes: ["admin:everything"] }).success).toBe(false);
+  });
+});
+
+describe("public API endpoints", () => {
+  it("collects routes from domain routers and root-mounted sub-routers", () => {
+    const endpoints = collectEndpoints(mounts());
+    expect(endpoints.map((e) => `${e.method} ${e.path} ${e.scope}`)).toEqual([
+      "GET /api/users read:users",
+      "POST /api/users/{id}/generate-reset-link null",
+      "GET /api/tasks/{id} read:tasks",
+      "PATCH /api/tasks/{id} write:tasks",
+      "POST /api/tasks/{taskId}/comments write:tasks",
+      "GET /api/v1/super/tenants null",
+    ]);
+  });
+
+  it("matches requests to the endpoint Express would dispatch to", () => {
+    const endpoints = collectEndpoints(mounts());
+    expect(findEndpoint("GET", "/api/tasks/t1", endpoints)?.scope).toBe("read:tasks");
+    expect(findEndpoint("HEAD", "/api/tasks/t1", endpoints)?.scope).toBe("read:tasks");
+    expect(findEndpoint("PATCH", "/api/tasks/t1/", endpoints)?.scope).toBe("write:tasks");
+    expect(findEndpoint("DELETE", "/api/tasks/t1", endpoints)).toBeUndefined();
+    expect(findEndpoint("GET", "/api/v1/super/tenants", endpoints)?.scope).toBeNull();
+    expect(findEndpoint("GET", "/api/tasksx/t1", endpoints)).toBeUndefined();
+  });
+
+  it("documents only token-reachable endpoints in the OpenAPI spec", () => {
+    const spec = buildOpenApiSpec(collectEndpoints(mounts()));
+    expect(Object.keys(spec.paths)).toEqual(["/api/users", "/api/tasks/{id}", "/api/tasks/{taskId}/comments"]);
+    const get = spec.paths["/api/tasks/{id}"].get as Record<string, any>;
+    expect(get["x-required-scope"]).toBe("read:tasks");
+    expect(get.parameters).toEqual([{ name: "id", in: "path", required: true, schema: { type: "string" } }]);
+    expect(spec.tags).toEqual([{ name: "users", description: "Users" }, { name: "tasks", description: "Tasks" }]);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import { resolveRate, buildInvoice, amountForSeconds, type RateCard, type BillableEntry } from "../features/billing/invoiceBuilder";
+import { renderInvoiceCsv, renderInvoicePdf } from "../features/billing/invoiceExport";
+import type { Invoice } from "@shared/schema";
+
+function card(overrides: Partial<RateCard> & { id: string; rateCents: number }): RateCard {
+  return {
+    userId: null,
+    role: null,
+    projectId: null,
+    clientId: null,
+    currency: "USD",
+    effectiveFrom: "2025-01-01",
+    effectiveTo: null,
+    ...overrides,
+  };
+}
+
+function entry(overrides: Partial<BillableEntry> & { id: string }): BillableEntry {
+  return {
+    userId: "u1",
+    userRole: "employee",
+    userName: "Ana",
+    clientId: "c1",
+    projectId: "p1",
+    projectName: "Website",
+    taskId: null,
+    taskTitle: null,
+    startTime: new Date("2025-03-10T09:00:00Z"),
+    durationSeconds: 3600,
+    ...overrides,
+  };
+}
+
+describe("resolveRate", () => {
+  const cards = [
+    card({ id: "default", rateCents: 10000 }),
+    card({ id: "role", role: "employee", rateCents: 11000 }),
+    card({ id: "user", userId: "u1", rateCents: 12000 }),
+    card({ id: "client", clientId: "c1", rateCents: 13000 }),
+    card({ id: "project", projectId: "p1", rateCents: 14000 }),
+  ];
+
+  it("prefers project over client over person over role over default", () => {
+    expect(resolveRate(entry({ id: "e" }), cards)?.id).toBe("project");
+    expect(resolveRate(entry({ id: "e", projectId: "p2" }), cards)?.id).toBe("client");
+    expect(resolveRate(entry({ id: "e", projectId: "p2", clientId: "c2" }), cards)?.id).toBe("user");
+    expect(resolveRate(entry({ id: "e", projectId: "p2", clientId: "c2", userId: "u2" }), cards)?.id).toBe("role");
+    expect(resolveRate(entry({ id: "e", projectId: "p2", clientId: "c2", userId: "u2", userRole: "admin" }), cards)?.id).toBe("default");
+  });
+
+  it("ranks a person's project rate above the project rate", () => {
+    const withCombo = [...cards, card({ id: "combo", projectId: "p1", userId: "u1", rateCents: 15000 })];
+    expect(resolveRate(entry({ id: "e" }), withCombo)?.id).toBe("combo");
+    expect(resolveRate(entry({ id: "e", userId: "u2" }), withCombo)?.id).toBe("project");
+  });
+
+  it("honours inclusive effective dates and prefers the latest among equals", () => {
+    const dated = [
+      card({ id: "old", rateCents: 10000, effectiveFrom: "2024-01-01", effectiveTo: "2025-03-09" }),
+      card({ id: "new", rateCents: 12000, effectiveFrom: "2025-03-10" }),
+      card({ id: "older-open", rateCents: 9000, effectiveFrom: "2023-01-01" }),
+    ];
+    expect(resolveRate(entry({ id: "e" }), dated)?.id).toBe("new");
+    expect(resolveRate(entry({ id: "e", startTime: new Date("2025-03-09T23:59:00Z") }), dated)?.id).toBe("old");
+    expect(resolveRate(entry({ id: "e", startTime: new Date("2022-06-01T00:00:00Z") }), dated)).toBeNull();
+  });
+});
+
+describe("buildInvoice", () => {
+  const cards = [
+    card({ id: "default", rateCents: 10000 }),
+    card({ id: "senior", userId: "u2", rateCents: 20000 }),
+  ];
+
+  it("groups by project with a blended rate and sums totals", () => {
+    const built = buildInvoice([
+      entry({ id: "e1", durationSeconds: 3600 }),
+      entry({ id: "e2", userId: "u2", userName: "Bo", durationSeconds: 3600 }),
+      entry({ id: "e3", projectId: null, projectName: null, durationSeconds: 1800 }),
+    ], cards, "project");
+
+    expect(built.lines.map((l) => l.description)).toEqual(["General time", "Website"]);
+    const website = built.lines[1];
+    expect(website.quantitySeconds).toBe(7200);
+    expect(website.amountCents).toBe(30000);
+    expect(website.rateCents).toBe(15000);
+    expect(website.entryIds).toEqual(["e1", "e2"]);
+    expect(built.totalSeconds).toBe(9000);
+    expect(built.subtotalCents).toBe(35000);
+    expect(built.currency).toBe("USD");
+  });
+
+  it("groups by task and by person", () => {
+    const entries = [
+      entry({ id: "e1", taskId: "t1", taskTitle: "Design" }),
+      entry({ id: "e2", userId: "u2", userName: "Bo" }),
+    ];
+    expect(buildInvoice(entries, cards, "task").lines.map((l) => l.description))
+      .toEqual(["Website (general)", "Website: Design"]);
+    expect(buildInvoice(entries, cards, "user").lines.map((l) => l.description)).toEqual(["Ana", "Bo"]);
+  });
+
+  it("reports unrated entries and mixed currencies", () => {
+    const built = buildInvoice([
+      entry({ id: "e1" }),
+      entry({ id: "e2", userId: "u2" }),
+      entry({ id: "e3", userId: "u3", startTime: new Date("2020-01-01T00:00:00Z") }),
+    ], [card({ id: "usd", userId: "u1", rateCents: 100 }), card({ id: "eur", userId: "u2", rateCents: 100, currency: "EUR" })], "project");
+
+    expect(built.unratedEntryIds).toEqual(["e3"]);
+    expect(built.currencies.sort()).toEqual(["EUR", "USD"]);
+  });
+
+  it("rounds partial hours to the nearest cent", () => {
+    expect(amountForSeconds(1000, 10000)).toBe(2778);
+  });
+});
+
+describe("invoice export", () => {
+  const invoice = {
+    id: "i1",
+    tenantId: "t1",
+    clientId: "c1",
+    number: "INV-0001",
+    status: "draft",
+    groupBy: "project",
+    periodStart: "2025-03-01",
+    periodEnd: "2025-03-31",
+    currency: "USD",
+    totalSeconds: 5400,
+    subtotalCents: 15000,
+    notes: "Thanks \"team\"",
+    dueDate: null,
+    issuedAt: null,
+    paidAt: null,
+    voidedAt: null,
+    createdBy: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  } as Invoice;
+  const lines = [{
+    id: "l1", tenantId: "t1", invoiceId: "i1", groupKey: "p1", description: "Website, \"phase 1\"",
+    quantitySeconds: 5400, rateCents: 10000, amountCents: 15000, orderIndex: 0,
+  }];
+  const context = { invoice, lines, clientName: "Acme", tenantName: "Studio" } as any;
+
+  it("writes quoted CSV rows with a total", () => {
+    const rows = renderInvoiceCsv(context).split("\n");
+    expect(rows).toHaveLength(3);
+    expect(rows[1]).toContain('"Website, ""phase 1"""');
+    expect(rows[1]).toContain('"1.50","100.00","150.00","USD"');
+    expect(rows[2]).toContain('"Total","1.50","","150.00"');
+  });
+
+  it("produces a well-formed PDF", () => {
+    const pdf = renderInvoicePdf(context).toString("latin1");
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf.trimEnd().endsWith("%%EOF")).toBe(true);
+    expect(pdf).toContain("(Invoice INV-0001)");
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe("xref");
+  });
+});
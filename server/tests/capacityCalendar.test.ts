@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  availableMinutes,
+  capacityDays,
+  capacityForDay,
+  daysOff,
+  profileOn,
+  weekdayIndex,
+  type CapacityCalendarInput,
+  type CapacityProfileRule,
+} from "../features/capacity/capacityCalendar";
+
+const PART_TIME: CapacityProfileRule = {
+  weekdayMinutes: [360, 360, 360, 360, 0, 0, 0],
+  holidayCalendarId: null,
+  effectiveFrom: "2026-03-09",
+  effectiveTo: null,
+};
+
+function input(overrides: Partial<CapacityCalendarInput> = {}): CapacityCalendarInput {
+  return {
+    profiles: [],
+    holidays: new Map(),
+    defaultCalendarId: null,
+    timeOff: [],
+    ...overrides,
+  };
+}
+
+describe("capacityCalendar", () => {
+  it("numbers weekdays from Monday", () => {
+    expect(weekdayIndex("2026-03-02")).toBe(0);
+    expect(weekdayIndex("2026-03-08")).toBe(6);
+  });
+
+  it("falls back to 8h Monday to Friday without a profile", () => {
+    expect(availableMinutes(input(), "2026-03-02", "2026-03-08")).toBe(5 * 480);
+  });
+
+  it("applies the latest profile in effect on each day", () => {
+    const later = { ...PART_TIME, weekdayMinutes: [240, 240, 240, 240, 240, 0, 0], effectiveFrom: "2026-03-16" };
+    expect(profileOn([later, PART_TIME], "2026-03-05")).toBeNull();
+    expect(profileOn([later, PART_TIME], "2026-03-12")).toBe(PART_TIME);
+    expect(profileOn([later, PART_TIME], "2026-03-20")).toBe(later);
+    expect(profileOn([{ ...PART_TIME, effectiveTo: "2026-03-10" }], "2026-03-11")).toBeNull();
+
+    const calendar = input({ profiles: [PART_TIME] });
+    expect(availableMinutes(calendar, "2026-03-09", "2026-03-15")).toBe(4 * 360);
+  });
+
+  it("zeroes holidays on the profile's calendar or the tenant default", () => {
+    const holidays = new Map([["default", new Set(["2026-03-03", "2026-03-11"])], ["uk", new Set(["2026-03-10"])]]);
+    expect(capacityForDay(input({ holidays, defaultCalendarId: "default" }), "2026-03-03")).toMatchObject({
+      holiday: true,
+      availableMinutes: 0,
+    });
+
+    const onUk = input({ holidays, defaultCalendarId: "default", profiles: [{ ...PART_TIME, holidayCalendarId: "uk" }] });
+    expect(capacityForDay(onUk, "2026-03-10").holiday).toBe(true);
+    expect(capacityForDay(onUk, "2026-03-11").holiday).toBe(false);
+  });
+
+  it("subtracts full and partial days of time off, capped at the working day", () => {
+    const calendar = input({
+      timeOff: [
+        { startDate: "2026-03-02", endDate: "2026-03-03", minutesPerDay: null },
+        { startDate: "2026-03-04", endDate: "2026-03-04", minutesPerDay: 240 },
+        { startDate: "2026-03-04", endDate: "2026-03-04", minutesPerDay: 480 },
+      ],
+    });
+    const days = capacityDays(calendar, "2026-03-02", "2026-03-06");
+    expect(days.map((day) => day.availableMinutes)).toEqual([0, 0, 0, 480, 480]);
+    expect(days[2].timeOffMinutes).toBe(480);
+    expect(daysOff(days)).toBe(3);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  normalizeCustomFieldValue,
+  formatCustomFieldValue,
+  matchesCustomFieldFilter,
+  matchesCustomFieldFilters,
+  type CustomFieldSpec,
+} from "@shared/customFields";
+import { customFieldsToFieldDefinitions, extractCustomFieldValues } from "@shared/imports/fieldCatalog";
+
+const repo = vi.hoisted(() => ({
+  listVisibleEntityIds: vi.fn(),
+  entityExists: vi.fn(),
+  listDefinitions: vi.fn(),
+  listValues: vi.fn(),
+}));
+vi.mock("../features/customFields/customField.repo", () => ({ customFieldRepo: repo }));
+
+import { customFieldService } from "../features/customFields/customField.service";
+
+const field = (fieldType: string, extra: Partial<CustomFieldSpec> = {}): CustomFieldSpec => ({
+  key: "f",
+  label: "Field",
+  fieldType,
+  ...extra,
+});
+
+describe("normalizeCustomFieldValue", () => {
+  it("treats empty input as a clear", () => {
+    expect(normalizeCustomFieldValue(field("number"), "  ")).toEqual({ ok: true, value: null });
+    expect(normalizeCustomFieldValue(field("multi_select", { options: ["A"] }), [])).toEqual({ ok: true, value: null });
+  });
+
+  it("coerces numbers and rounds currency amounts", () => {
+    expect(normalizeCustomFieldValue(field("number"), "1,250.5")).toEqual({ ok: true, value: 1250.5 });
+    expect(normalizeCustomFieldValue(field("currency"), "$19.999")).toEqual({ ok: true, value: 20 });
+    expect(normalizeCustomFieldValue(field("number"), "abc").ok).toBe(false);
+  });
+
+  it("stores dates as YYYY-MM-DD", () => {
+    expect(normalizeCustomFieldValue(field("date"), "2025-03-04")).toEqual({ ok: true, value: "2025-03-04" });
+    expect(normalizeCustomFieldValue(field("date"), "2025-03-04T15:00:00Z")).toEqual({ ok: true, value: "2025-03-04" });
+    expect(normalizeCustomFieldValue(field("date"), "not a date").ok).toBe(false);
+  });
+
+  it("only accepts http(s) URLs", () => {
+    expect(normalizeCustomFieldValue(field("url"), "https://example.com/x").ok).toBe(true);
+    expect(normalizeCustomFieldValue(field("url"), "javascript:alert(1)").ok).toBe(false);
+  });
+
+  it("matches select options case-insensitively and keeps the canonical spelling", () => {
+    const select = field("select", { options: ["Video", "Print"] });
+    expect(normalizeCustomFieldValue(select, "video")).toEqual({ ok: true, value: "Video" });
+    expect(normalizeCustomFieldValue(select, "Radio").ok).toBe(false);
+
+    const multi = field("multi_select", { options: ["Video", "Print"] });
+    expect(normalizeCustomFieldValue(multi, "print; video; Print")).toEqual({ ok: true, value: ["Print", "Video"] });
+    expect(normalizeCustomFieldValue(multi, ["Video", "Radio"]).ok).toBe(false);
+  });
+});
+
+describe("formatCustomFieldValue", () => {
+  it("joins multi-select values and appends the currency code", () => {
+    expect(formatCustomFieldValue(field("multi_select"), ["A", "B"])).toBe("A; B");
+    expect(formatCustomFieldValue(field("currency", { currencyCode: "EUR" }), 1200)).toBe("1200.00 EUR");
+    expect(formatCustomFieldValue(field("text"), undefined)).toBe("");
+  });
+});
+
+describe("matchesCustomFieldFilter", () => {
+  it("supports exact values and open-ended ranges for numbers and dates", () => {
+    expect(matchesCustomFieldFilter(field("number"), 10, "10")).toBe(true);
+    expect(matchesCustomFieldFilter(field("number"), 10, "5..20")).toBe(true);
+    expect(matchesCustomFieldFilter(field("currency"), 10, "..5")).toBe(false);
+    expect(matchesCustomFieldFilter(field("date"), "2025-02-10", "2025-02-01..")).toBe(true);
+    expect(matchesCustomFieldFilter(field("date"), "2025-02-10", "..2025-01-31")).toBe(false);
+  });
+
+  it("matches text by substring and multi-select by any option", () => {
+    expect(matchesCustomFieldFilter(field("text"), "Spring Campaign", "campaign")).toBe(true);
+    expect(matchesCustomFieldFilter(field("multi_select"), ["Video", "Print"], "radio; print")).toBe(true);
+    expect(matchesCustomFieldFilter(field("select"), "Video", "print")).toBe(false);
+  });
+
+  it("uses ! to match missing values", () => {
+    expect(matchesCustomFieldFilter(field("text"), undefined, "!")).toBe(true);
+    expect(matchesCustomFieldFilter(field("text"), "x", "!")).toBe(false);
+    expect(matchesCustomFieldFilter(field("text"), undefined, "x")).toBe(false);
+  });
+});
+
+describe("matchesCustomFieldFilters", () => {
+  const fields = [field("text", { key: "campaign" }), field("number", { key: "budget" })];
+
+  it("requires every filter to match and rejects unknown keys", () => {
+    const values = { campaign: "Spring", budget: 500 };
+    expect(matchesCustomFieldFilters(fields, values, { campaign: "spr", budget: "100..1000" })).toBe(true);
+    expect(matchesCustomFieldFilters(fields, values, { campaign: "spr", budget: "..100" })).toBe(false);
+    expect(matchesCustomFieldFilters(fields, values, { missing: "x" })).toBe(false);
+    expect(matchesCustomFieldFilters(fields, undefined, { campaign: "" })).toBe(true);
+  });
+});
+
+describe("custom field import catalog", () => {
+  it("exposes custom fields as custom.<key> import targets", () => {
+    const [def] = customFieldsToFieldDefinitions([
+      { key: "contract_value", label: "Contract Value", fieldType: "currency", isRequired: true, description: null },
+    ]);
+    expect(def).toMatchObject({
+      key: "custom.contract_value",
+      label: "Contract Value",
+      type: "number",
+      required: true,
+      aliases: ["contract_value", "Contract Value"],
+    });
+  });
+
+  it("extracts custom values from a mapped row", () => {
+    expect(extractCustomFieldValues({ name: "Acme", "custom.campaign": "Spring", "custom.tier": "" }))
+      .toEqual({ campaign: "Spring", tier: "" });
+  });
+});
+
+describe("custom field value visibility", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repo.listDefinitions.mockResolvedValue([{ id: "f1", key: "value" }]);
+    repo.listValues.mockResolvedValue([
+      { entityId: "t1", fieldId: "f1", value: 10 },
+      { entityId: "t2", fieldId: "f1", value: 20 },
+    ]);
+  });
+
+  it("leaves out tasks the user cannot see", async () => {
+    repo.listVisibleEntityIds.mockResolvedValue(["t1"]);
+    expect(await customFieldService.getVisibleValues("tenant", "task", "u1")).toEqual({ t1: { value: 10 } });
+  });
+
+  it("treats a hidden task as missing", async () => {
+    repo.listVisibleEntityIds.mockResolvedValue([]);
+    await expect(customFieldService.assertCanAccess("tenant", "task", "t2", "u1")).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it("only checks that a client exists", async () => {
+    repo.listVisibleEntityIds.mockResolvedValue(undefined);
+    repo.entityExists.mockResolvedValue(true);
+    await expect(customFieldService.assertCanAccess("tenant", "client", "c1", "u1")).resolves.toBeUndefined();
+  });
+});
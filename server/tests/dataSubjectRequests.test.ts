@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { DataSubjectRequestStatus, type DataSubjectRequest } from "@shared/schema";
+
+const mocks = vi.hoisted(() => ({
+  repo: {
+    getRequest: vi.fn(),
+    transitionRequest: vi.fn(),
+    updateRequest: vi.fn(),
+    addEvent: vi.fn(),
+    resolveSubject: vi.fn(),
+    getTenantUser: vi.fn(),
+  },
+  enqueueJob: vi.fn(),
+}));
+
+vi.mock("../features/privacy/privacy.repo", () => ({ privacyRepo: mocks.repo }));
+vi.mock("../jobs/queue", () => ({ enqueueJob: mocks.enqueueJob }));
+vi.mock("../s3", () => ({ uploadToS3: vi.fn(), createPresignedDownloadUrl: vi.fn(), deleteS3Object: vi.fn() }));
+
+import { pseudonymFor, redactionNeedles, redactionPattern } from "../features/privacy/dataSubjectErasure";
+import {
+  DATA_SUBJECT_CATEGORIES,
+  buildExportArchive,
+  ticketsOpenedBy,
+  type DataSubjectSections,
+} from "../features/privacy/dataSubjectExport";
+import { privacyService } from "../features/privacy/privacy.service";
+
+const now = new Date("2026-06-01T00:00:00Z");
+
+function request(overrides: Partial<DataSubjectRequest>): DataSubjectRequest {
+  return {
+    id: "r1",
+    tenantId: "t1",
+    type: "erasure",
+    subjectType: "user",
+    subjectUserId: "u-subject",
+    subjectContactId: null,
+    subjectLabel: "Ada Lovelace <ada@example.com>",
+    reason: "Emailed request",
+    status: DataSubjectRequestStatus.PENDING_APPROVAL,
+    requestedByUserId: "u-admin1",
+    decidedByUserId: null,
+    decidedAt: null,
+    decisionNote: null,
+    jobId: null,
+    summary: null,
+    archiveKey: null,
+    archiveSizeBytes: null,
+    error: null,
+    completedAt: null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+describe("data subject requests", () => {
+  describe("pseudonymFor", () => {
+    it("is stable per request and gives each record its own email", () => {
+      const a = pseudonymFor("r1");
+      const b = pseudonymFor("r1");
+      expect(a.label).toBe(b.label);
+      expect(a.label).toMatch(/^Erased user [0-9a-f]{8}$/);
+      expect(a.emailFor("u1")).toBe(b.emailFor("u1"));
+      expect(a.emailFor("u1")).not.toBe(a.emailFor("u2"));
+      expect(a.emailFor("u1")).toMatch(/^erased-[0-9a-f]{16}@erased\.invalid$/);
+      expect(pseudonymFor("r2").label).not.toBe(a.label);
+    });
+  });
+
+  describe("redaction", () => {
+    it("skips single and short names and puts longer needles first", () => {
+      expect(redactionNeedles({
+        names: ["Ada", "Al Bo", "Ada Lovelace", "Ada Lovelace"],
+        emails: ["ada@example.com"],
+      })).toEqual(["ada@example.com", "Ada Lovelace", "Al Bo"]);
+    });
+
+    it("escapes regex characters and returns null without needles", () => {
+      expect(redactionPattern(["a.b+c@example.com", "Ann (Jr) Smith"]))
+        .toBe("a\\.b\\+c@example\\.com|Ann \\(Jr\\) Smith");
+      expect(redactionPattern([])).toBeNull();
+    });
+  });
+
+  describe("buildExportArchive", () => {
+    it("summarizes every category and records the approval time", () => {
+      const records = Object.fromEntries(DATA_SUBJECT_CATEGORIES.map((c) => [c, []])) as unknown as DataSubjectSections;
+      records.comments = [{ id: "c1" }, { id: "c2" }];
+      const subject = { tenantId: "t1", userIds: ["u1"], contactIds: ["k1"], emails: ["ada@example.com"], names: ["Ada Lovelace"] };
+
+      const archive = buildExportArchive(request({ type: "export", decidedAt: now }), subject, records, [], now);
+
+      expect(archive.summary.comments).toBe(2);
+      expect(archive.summary.tasks).toBe(0);
+      expect(Object.keys(archive.summary)).toEqual([...DATA_SUBJECT_CATEGORIES]);
+      expect(archive.request.approvedAt).toBe(now.toISOString());
+      expect(archive.subject).toEqual({ userIds: ["u1"], contactIds: ["k1"], emails: ["ada@example.com"] });
+    });
+  });
+
+  describe("ticket export", () => {
+    it("finds tickets a client contact opened by email", () => {
+      const query = new PgDialect().sqlToQuery(ticketsOpenedBy({ userIds: [], emails: ["ada@example.com"] }));
+      expect(query.sql).toContain(`lower("support_tickets"."metadata_json"->>'requesterEmail') in ($1)`);
+      expect(query.params).toEqual(["ada@example.com"]);
+    });
+  });
+
+  describe("approval", () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      mocks.repo.resolveSubject.mockResolvedValue({ tenantId: "t1", userIds: ["u-subject"], contactIds: [], emails: [], names: [] });
+      mocks.repo.getTenantUser.mockResolvedValue({ id: "u-subject", role: "employee" });
+      mocks.repo.transitionRequest.mockImplementation(async (_id, _tenantId, _from, updates) => request(updates));
+      mocks.repo.updateRequest.mockImplementation(async (_id, _tenantId, updates) => request({ status: "approved", ...updates }));
+      mocks.enqueueJob.mockResolvedValue("job1");
+    });
+
+    it("requires a different admin than the requester", async () => {
+      mocks.repo.getRequest.mockResolvedValue(request({}));
+      await expect(privacyService.approve("t1", "u-admin1", "r1"))
+        .rejects.toMatchObject({ statusCode: 403 });
+      expect(mocks.enqueueJob).not.toHaveBeenCalled();
+    });
+
+    it("does not let a super user approve their own request", async () => {
+      mocks.repo.getRequest.mockResolvedValue(request({ requestedByUserId: "u-super" }));
+      await expect(privacyService.approve("t1", "u-super", "r1"))
+        .rejects.toMatchObject({ statusCode: 403 });
+      expect(mocks.enqueueJob).not.toHaveBeenCalled();
+    });
+
+    it("refuses to let the approver erase themselves", async () => {
+      mocks.repo.getRequest.mockResolvedValue(request({ subjectUserId: "u-admin2" }));
+      mocks.repo.resolveSubject.mockResolvedValue({ tenantId: "t1", userIds: ["u-admin2"], contactIds: [], emails: [], names: [] });
+      await expect(privacyService.approve("t1", "u-admin2", "r1"))
+        .rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it("queues the job and records the decision", async () => {
+      mocks.repo.getRequest.mockResolvedValue(request({}));
+      await privacyService.approve("t1", "u-admin2", "r1", "Verified by phone");
+
+      expect(mocks.repo.transitionRequest).toHaveBeenCalledWith("r1", "t1", ["pending_approval"], expect.objectContaining({
+        status: "approved",
+        decidedByUserId: "u-admin2",
+        decisionNote: "Verified by phone",
+      }));
+      expect(mocks.enqueueJob).toHaveBeenCalledWith(expect.objectContaining({ type: "data_subject_request", payload: { requestId: "r1" } }));
+      expect(mocks.repo.addEvent).toHaveBeenCalledWith(expect.objectContaining({ eventType: "approved", actorUserId: "u-admin2" }));
+    });
+
+    it("only approves pending requests", async () => {
+      mocks.repo.getRequest.mockResolvedValue(request({ status: "completed" }));
+      await expect(privacyService.approve("t1", "u-admin2", "r1"))
+        .rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+});
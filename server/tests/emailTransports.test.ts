@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtemp, readdir, readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import {
+  createEmailTransport,
+  missingTransportSettings,
+  EmailTransportConfigError,
+} from "../services/email/transports";
+import {
+  emailIntegrationUpdateSchema,
+  splitEmailIntegrationUpdate,
+  systemEmailIntegrationUpdateSchema,
+} from "../services/email/getEmailTransport";
+
+const MESSAGE = {
+  from: "Acme <noreply@acme.test>",
+  to: "jane@example.test",
+  subject: "Hello",
+  text: "Plain body",
+  replyTo: "support@acme.test",
+};
+
+describe("email transports", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("reports the first missing setting per driver", () => {
+    expect(missingTransportSettings({ driver: "smtp" }, {})).toBe("SMTP host");
+    expect(missingTransportSettings({ driver: "smtp", smtpHost: "mail.test", smtpUsername: "u" }, {})).toBe("SMTP password");
+    expect(missingTransportSettings({ driver: "smtp", smtpHost: "mail.test" }, {})).toBeNull();
+    expect(missingTransportSettings({ driver: "ses", sesRegion: "eu-west-1" }, { sesAccessKeyId: "AKIA" })).toBe("SES access key pair");
+    expect(missingTransportSettings({ driver: "ses", sesRegion: "eu-west-1" }, {})).toBeNull();
+    expect(missingTransportSettings({ driver: "postmark" }, {})).toBe("Postmark server token");
+    expect(missingTransportSettings({ driver: "mailgun", mailgunDomain: "mg.test" }, {})).toBe("Mailgun API key");
+    expect(missingTransportSettings({ driver: "log" }, {})).toBeNull();
+  });
+
+  it("refuses to build an incomplete transport", () => {
+    expect(() => createEmailTransport({ driver: "postmark" })).toThrow(EmailTransportConfigError);
+  });
+
+  it("splits an update into public settings and non-empty secrets", () => {
+    const data = emailIntegrationUpdateSchema.parse({
+      driver: "smtp",
+      fromEmail: "noreply@acme.test",
+      smtpHost: "mail.test",
+      smtpPort: 587,
+      smtpUsername: "mailer",
+      smtpPassword: "s3cret",
+      postmarkServerToken: "  ",
+      sesEndpoint: "",
+    });
+    const { publicConfig, secretConfig } = splitEmailIntegrationUpdate(data);
+    expect(publicConfig).toMatchObject({ driver: "smtp", smtpHost: "mail.test", smtpPort: 587, smtpUsername: "mailer" });
+    expect(publicConfig).not.toHaveProperty("smtpPassword");
+    expect(publicConfig.sesEndpoint).toBeUndefined();
+    expect(secretConfig).toEqual({ smtpPassword: "s3cret" });
+
+    expect(splitEmailIntegrationUpdate(systemEmailIntegrationUpdateSchema.parse({ driver: "log", fromEmail: "dev@localhost" })).secretConfig)
+      .toBeUndefined();
+  });
+
+  it("keeps the development drivers out of tenant settings", () => {
+    expect(emailIntegrationUpdateSchema.safeParse({ driver: "log", fromEmail: "dev@localhost" }).success).toBe(false);
+    expect(emailIntegrationUpdateSchema.safeParse({ driver: "file", fromEmail: "dev@localhost" }).success).toBe(false);
+    const tenant = emailIntegrationUpdateSchema.parse({ driver: "smtp", fromEmail: "noreply@acme.test", fileDirectory: "/etc" });
+    expect(tenant).not.toHaveProperty("fileDirectory");
+    expect(systemEmailIntegrationUpdateSchema.parse({ driver: "file", fromEmail: "dev@localhost", fileDirectory: ".data/mail" }))
+      .toMatchObject({ driver: "file", fileDirectory: ".data/mail" });
+  });
+
+  it("logs messages with the log driver", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    const result = await createEmailTransport({ driver: "log" }).send(MESSAGE);
+    expect(result.messageId).toMatch(/^log-/);
+    expect(log.mock.calls[0][0]).toContain("Subject: Hello");
+  });
+
+  it("writes .eml files with the file driver", async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), "mail-"));
+    try {
+      const transport = createEmailTransport({ driver: "file", fileDirectory: directory });
+      await transport.verify();
+      const result = await transport.send({ ...MESSAGE, html: "<p>HTML body</p>" });
+      expect(result.messageId).toBeTruthy();
+
+      const files = await readdir(directory);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/\.eml$/);
+      const raw = await readFile(path.join(directory, files[0]), "utf8");
+      expect(raw).toContain("To: jane@example.test");
+      expect(raw).toContain("Reply-To: support@acme.test");
+      expect(raw).toContain("Subject: Hello");
+      expect(raw).toContain("Plain body");
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
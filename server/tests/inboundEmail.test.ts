@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  repo: {
+    getMailboxByKey: vi.fn(),
+    createInboundEmail: vi.fn(),
+    findSender: vi.fn(),
+    getReplyToken: vi.fn(),
+    touchReplyToken: vi.fn(),
+    getTask: vi.fn(),
+    updateInboundEmail: vi.fn(),
+  },
+  createComment: vi.fn(),
+  canViewTask: vi.fn(),
+}));
+
+vi.mock("../features/inboundEmail/inboundEmail.repo", () => ({ inboundEmailRepo: mocks.repo }));
+vi.mock("../storage", () => ({ storage: { createComment: mocks.createComment } }));
+vi.mock("../lib/privateVisibility", () => ({ canViewTask: mocks.canViewTask }));
+vi.mock("../s3", () => ({ uploadToS3: vi.fn(), validateFile: vi.fn() }));
+import {
+  inboundWebhookPayloadSchema,
+  isAutoGenerated,
+  parseAddressList,
+  parseInboundAddress,
+  parseMime,
+  parseWebhookPayload,
+  stripQuotedReply,
+} from "../features/inboundEmail/inboundParser";
+import { clientForNewMail, describeSender, inboundEmailService } from "../features/inboundEmail/inboundEmail.service";
+import { InboundQuarantineReason } from "@shared/schema";
+
+const DOMAIN = "in.example.test";
+
+const RAW_MESSAGE = [
+  "From: \"Jane Doe\" <Jane@Client.test>",
+  "To: acme@in.example.test",
+  "Cc: bob@client.test",
+  "Subject: Re: Invoice question",
+  "Message-ID: <abc123@client.test>",
+  "MIME-Version: 1.0",
+  "Content-Type: multipart/mixed; boundary=\"b1\"",
+  "",
+  "--b1",
+  "Content-Type: text/plain; charset=utf-8",
+  "",
+  "Thanks, that works.",
+  "",
+  "On Mon, 2 Mar 2026 at 10:00, Support <acme@in.example.test> wrote:",
+  "> Earlier message",
+  "--b1",
+  "Content-Type: application/pdf; name=\"invoice.pdf\"",
+  "Content-Disposition: attachment; filename=\"invoice.pdf\"",
+  "Content-Transfer-Encoding: base64",
+  "",
+  Buffer.from("%PDF-1.4 test").toString("base64"),
+  "--b1--",
+  "",
+].join("\r\n");
+
+describe("inbound email parsing", () => {
+  it("parses address lists with display names", () => {
+    expect(parseAddressList("\"Doe, Jane\" <Jane@X.test>, bob@y.test")).toEqual([
+      { address: "jane@x.test", name: "Doe, Jane" },
+      { address: "bob@y.test", name: null },
+    ]);
+    expect(parseAddressList(undefined)).toEqual([]);
+  });
+
+  it("splits inbound addresses into mailbox key and reply token", () => {
+    expect(parseInboundAddress("acme@in.example.test", DOMAIN)).toEqual({ mailboxKey: "acme", token: null });
+    expect(parseInboundAddress("Acme+K3J9@IN.example.test", DOMAIN)).toEqual({ mailboxKey: "acme", token: "k3j9" });
+    expect(parseInboundAddress("acme@other.test", DOMAIN)).toBeNull();
+  });
+
+  it("keeps only the new part of a reply", () => {
+    expect(stripQuotedReply("Sounds good.\n\nOn Tue, 3 Mar 2026, Jane <j@x.test> wrote:\n> old")).toBe("Sounds good.");
+    expect(stripQuotedReply("Fine\n-----Original Message-----\nFrom: x")).toBe("Fine");
+    expect(stripQuotedReply("Yes\nOn Tue, 3 Mar 2026 at 09:00, Jane Doe <j@x.test>\nwrote:\n> old")).toBe("Yes");
+    expect(stripQuotedReply("> only quoted")).toBe("> only quoted");
+  });
+
+  it("recognizes auto-replies and bounces", () => {
+    expect(isAutoGenerated({ "auto-submitted": "auto-replied" }, "jane@x.test")).toBe(true);
+    expect(isAutoGenerated({ "auto-submitted": "no" }, "jane@x.test")).toBe(false);
+    expect(isAutoGenerated({ precedence: "bulk" }, "jane@x.test")).toBe(true);
+    expect(isAutoGenerated({}, "MAILER-DAEMON@x.test")).toBe(true);
+    expect(isAutoGenerated({}, "jane@x.test")).toBe(false);
+  });
+
+  it("parses raw MIME messages", async () => {
+    const parsed = await parseMime(RAW_MESSAGE);
+    expect(parsed.messageId).toBe("<abc123@client.test>");
+    expect(parsed.from).toEqual({ address: "jane@client.test", name: "Jane Doe" });
+    expect(parsed.recipients).toEqual(["acme@in.example.test", "bob@client.test"]);
+    expect(parsed.subject).toBe("Re: Invoice question");
+    expect(stripQuotedReply(parsed.text)).toBe("Thanks, that works.");
+    expect(parsed.attachments).toHaveLength(1);
+    expect(parsed.attachments[0].fileName).toBe("invoice.pdf");
+    expect(parsed.attachments[0].content.toString()).toBe("%PDF-1.4 test");
+  });
+
+  it("parses both webhook payload shapes", async () => {
+    const fields = await parseWebhookPayload(inboundWebhookPayloadSchema.parse({
+      from: "Jane <jane@client.test>",
+      to: ["acme+tok@in.example.test"],
+      recipient: "acme+tok@in.example.test",
+      html: "<p>Hello &amp; thanks</p>",
+      headers: { "Auto-Submitted": "auto-replied", "X-Other": "1" },
+      attachments: [{ filename: "a.txt", content: Buffer.from("hi").toString("base64") }],
+    }));
+    expect(fields.recipients).toEqual(["acme+tok@in.example.test"]);
+    expect(fields.text).toBe("Hello & thanks");
+    expect(fields.headers).toEqual({ "auto-submitted": "auto-replied" });
+    expect(fields.attachments[0]).toMatchObject({ fileName: "a.txt", mimeType: "application/octet-stream" });
+    expect(fields.messageId).toMatch(/@inbound\.local>$/);
+
+    const raw = await parseWebhookPayload(inboundWebhookPayloadSchema.parse({
+      raw: Buffer.from(RAW_MESSAGE).toString("base64"),
+      encoding: "base64",
+    }));
+    expect(raw.messageId).toBe("<abc123@client.test>");
+  });
+});
+
+describe("inbound email senders", () => {
+  const user = { id: "u1", role: "employee", isActive: true, tenantId: "t1" };
+
+  it("files new mail under the sender's only client", () => {
+    const sender = describeSender("jane@client.test", null, {
+      user: null,
+      portalClientIds: [],
+      contacts: [{ id: "c1", clientId: "client-1" }],
+    });
+    expect(sender.contactIdByClient.get("client-1")).toBe("c1");
+    expect(clientForNewMail(sender)).toEqual({ clientId: "client-1" });
+  });
+
+  it("counts portal access only for portal users", () => {
+    const portal = describeSender("p@client.test", null, {
+      user: { ...user, role: "client" },
+      portalClientIds: ["client-1"],
+      contacts: [],
+    });
+    expect(portal.portalUserId).toBe("u1");
+    expect(portal.staffUserId).toBeNull();
+    expect(clientForNewMail(portal)).toEqual({ clientId: "client-1" });
+
+    const inactive = describeSender("p@client.test", null, {
+      user: { ...user, role: "client", isActive: false },
+      portalClientIds: ["client-1"],
+      contacts: [],
+    });
+    expect(clientForNewMail(inactive)).toEqual({ quarantineReason: InboundQuarantineReason.UNKNOWN_SENDER });
+  });
+
+  it("quarantines mail it cannot attribute to one client", () => {
+    const ambiguous = describeSender("jane@client.test", null, {
+      user: null,
+      portalClientIds: [],
+      contacts: [{ id: "c1", clientId: "client-1" }, { id: "c2", clientId: "client-2" }],
+    });
+    expect(clientForNewMail(ambiguous)).toEqual({ quarantineReason: InboundQuarantineReason.AMBIGUOUS_SENDER });
+
+    const staff = describeSender("me@acme.test", null, { user, portalClientIds: [], contacts: [] });
+    expect(staff.staffUserId).toBe("u1");
+    expect(clientForNewMail(staff)).toEqual({ quarantineReason: InboundQuarantineReason.INTERNAL_SENDER });
+  });
+});
+
+describe("inbound task replies", () => {
+  const reply = {
+    messageId: "<r1@acme.test>",
+    from: { address: "me@acme.test", name: "Me" },
+    recipients: [`acme+tok1@${DOMAIN}`],
+    subject: "Re: Launch",
+    text: "Done on my side.",
+    headers: {},
+    attachments: [],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.INBOUND_EMAIL_DOMAIN = DOMAIN;
+    mocks.repo.getMailboxByKey.mockResolvedValue({ tenantId: "t1", enabled: true });
+    mocks.repo.createInboundEmail.mockImplementation(async (values) => ({ ...values, attachments: [] }));
+    mocks.repo.findSender.mockResolvedValue({
+      user: { id: "u1", role: "employee", isActive: true, tenantId: "t1" },
+      portalClientIds: [],
+      contacts: [],
+    });
+    mocks.repo.getReplyToken.mockResolvedValue({ id: "tok1", tenantId: "t1", targetType: "task", targetId: "task1" });
+    mocks.repo.getTask.mockResolvedValue({ id: "task1", title: "Launch", tenantId: "t1", clientId: null });
+    mocks.repo.updateInboundEmail.mockImplementation(async (_id, _tenantId, updates) => updates);
+  });
+
+  it("posts the reply as a comment when the sender can see the task", async () => {
+    mocks.canViewTask.mockResolvedValue(true);
+    const result = await inboundEmailService.receive(reply);
+
+    expect(mocks.canViewTask).toHaveBeenCalledWith("t1", "task1", "u1");
+    expect(mocks.createComment).toHaveBeenCalledWith({ taskId: "task1", userId: "u1", body: "Done on my side." });
+    expect(result).toMatchObject({ accepted: true, status: "processed" });
+  });
+
+  it("quarantines replies to tasks the sender can no longer see", async () => {
+    mocks.canViewTask.mockResolvedValue(false);
+    const result = await inboundEmailService.receive(reply);
+
+    expect(mocks.createComment).not.toHaveBeenCalled();
+    expect(mocks.repo.updateInboundEmail).toHaveBeenCalledWith(expect.any(String), "t1", expect.objectContaining({
+      status: "quarantined",
+      quarantineReason: InboundQuarantineReason.NOT_PERMITTED,
+    }));
+    expect(result).toMatchObject({ accepted: true, status: "quarantined" });
+  });
+});
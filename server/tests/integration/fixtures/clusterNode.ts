@@ -0,0 +1,114 @@
+/**
+ * One server instance for the realtime cluster test, run as a child process.
+ *
+ * CLUSTER_BUS=ipc relays bus messages through the parent process (no database);
+ * CLUSTER_BUS=postgres uses LISTEN/NOTIFY on DATABASE_URL.
+ *
+ * Sockets authenticate with handshake auth { userId, tenantId, rooms }.
+ * The parent drives the node with IPC commands and gets { kind: "reply", id, result }.
+ */
+
+import { createServer } from "http";
+import { randomUUID } from "crypto";
+import pg from "pg";
+import { Server } from "socket.io";
+import { PgNotifyClusterBus, type ClusterBus, type ClusterHandler } from "../../../realtime/clusterBus";
+import { createClusterAdapter } from "../../../realtime/clusterAdapter";
+import {
+  attachPresenceToCluster,
+  getPresence,
+  markConnected,
+  markDisconnected,
+  toPresencePayload,
+} from "../../../realtime/presence";
+
+type NodeCommand =
+  | { kind: "bus"; channel: string; message: unknown; from: string }
+  | { kind: "emit"; id: number; room: string; event: string; payload: unknown }
+  | { kind: "presence"; id: number; tenantId: string; userId: string }
+  | { kind: "count"; id: number; room: string };
+
+class IpcClusterBus implements ClusterBus {
+  readonly nodeId = randomUUID();
+  private handlers = new Map<string, Set<ClusterHandler>>();
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    process.send!({ kind: "bus", channel, message, from: this.nodeId });
+  }
+
+  subscribe(channel: string, handler: ClusterHandler): () => void {
+    if (!this.handlers.has(channel)) this.handlers.set(channel, new Set());
+    this.handlers.get(channel)!.add(handler);
+    return () => this.handlers.get(channel)?.delete(handler);
+  }
+
+  receive(channel: string, message: unknown, from: string): void {
+    if (from === this.nodeId) return;
+    this.handlers.get(channel)?.forEach((handler) => handler(message, from));
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+  }
+}
+
+async function createBus(): Promise<ClusterBus> {
+  if (process.env.CLUSTER_BUS === "postgres") {
+    const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL, max: 2 });
+    const bus = new PgNotifyClusterBus(pool, { connectionString: process.env.DATABASE_URL });
+    await bus.start();
+    return bus;
+  }
+  return new IpcClusterBus();
+}
+
+async function main(): Promise<void> {
+  const bus = await createBus();
+  const httpServer = createServer();
+  const io = new Server(httpServer, { adapter: createClusterAdapter(bus) });
+  attachPresenceToCluster(bus);
+
+  io.on("connection", (socket) => {
+    const { userId, tenantId, rooms = [] } = socket.handshake.auth as {
+      userId: string;
+      tenantId: string;
+      rooms?: string[];
+    };
+    socket.join(rooms);
+    markConnected(tenantId, userId);
+    socket.on("disconnect", () => markDisconnected(tenantId, userId));
+  });
+
+  process.on("message", async (command: NodeCommand) => {
+    switch (command.kind) {
+      case "bus":
+        if (bus instanceof IpcClusterBus) bus.receive(command.channel, command.message, command.from);
+        return;
+      case "emit":
+        io.to(command.room).emit(command.event, command.payload);
+        process.send!({ kind: "reply", id: command.id, result: true });
+        return;
+      case "presence": {
+        const info = getPresence(command.tenantId, command.userId);
+        process.send!({ kind: "reply", id: command.id, result: info ? toPresencePayload(info) : null });
+        return;
+      }
+      case "count": {
+        const sockets = await io.in(command.room).fetchSockets();
+        process.send!({ kind: "reply", id: command.id, result: sockets.length });
+        return;
+      }
+    }
+  });
+
+  httpServer.listen(0, () => {
+    const address = httpServer.address();
+    const port = typeof address === "object" && address ? address.port : 0;
+    process.send!({ kind: "ready", port, nodeId: bus.nodeId });
+  });
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,134 @@
+/**
+ * @file Realtime Cluster Tests
+ * @description Runs two server instances as separate processes and checks that
+ * broadcasts, fetchSockets() and presence cross between them. The IPC suite relays the
+ * cluster bus through this process; the Postgres suite runs when DATABASE_URL is set.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { fork, type ChildProcess } from "child_process";
+import path from "path";
+import { io as connectClient, type Socket } from "socket.io-client";
+
+const FIXTURE = path.resolve(__dirname, "fixtures/clusterNode.ts");
+
+interface ClusterNode {
+  child: ChildProcess;
+  port: number;
+  request<T>(command: Record<string, unknown>): Promise<T>;
+}
+
+async function startNode(bus: "ipc" | "postgres", relay: (message: any, from: ChildProcess) => void): Promise<ClusterNode> {
+  const child = fork(FIXTURE, [], {
+    execArgv: ["--import", "tsx"],
+    env: { ...process.env, CLUSTER_BUS: bus },
+    stdio: ["ignore", "ignore", "inherit", "ipc"],
+  });
+  const pending = new Map<number, (result: any) => void>();
+  let nextId = 1;
+
+  const port = await new Promise<number>((resolve, reject) => {
+    child.once("exit", (code) => reject(new Error(`cluster node exited with ${code}`)));
+    child.on("message", (message: any) => {
+      if (message.kind === "ready") resolve(message.port);
+      else if (message.kind === "reply") pending.get(message.id)?.(message.result);
+      else if (message.kind === "bus") relay(message, child);
+    });
+  });
+
+  return {
+    child,
+    port,
+    request<T>(command: Record<string, unknown>) {
+      const id = nextId++;
+      return new Promise<T>((resolve) => {
+        pending.set(id, resolve);
+        child.send({ ...command, id });
+      });
+    },
+  };
+}
+
+function connect(node: ClusterNode, auth: { userId: string; tenantId: string; rooms?: string[] }): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = connectClient(`http://localhost:${node.port}`, { auth, transports: ["websocket"], reconnection: false });
+    socket.once("connect", () => resolve(socket));
+    socket.once("connect_error", reject);
+  });
+}
+
+async function eventually<T>(read: () => Promise<T>, done: (value: T) => boolean, timeoutMs = 10000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  let value = await read();
+  while (!done(value) && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    value = await read();
+  }
+  return value;
+}
+
+function describeCluster(bus: "ipc" | "postgres") {
+  let nodes: ClusterNode[] = [];
+  const sockets: Socket[] = [];
+
+  beforeAll(async () => {
+    const relay = (message: any, from: ChildProcess) => {
+      nodes.forEach((node) => {
+        // A node that is shutting down may close its channel mid-relay
+        if (node.child !== from && node.child.connected) node.child.send(message, () => {});
+      });
+    };
+    nodes = [await startNode(bus, relay), await startNode(bus, relay)];
+  }, 30000);
+
+  afterAll(async () => {
+    sockets.forEach((socket) => socket.disconnect());
+    await Promise.all(nodes.map((node) => new Promise((resolve) => {
+      node.child.once("exit", resolve);
+      node.child.kill();
+    })));
+  });
+
+  it("delivers a broadcast from one instance to a client connected to the other", async () => {
+    const [nodeA, nodeB] = nodes;
+    const client = await connect(nodeB, { userId: "u-broadcast", tenantId: "t1", rooms: ["project:p1"] });
+    sockets.push(client);
+
+    const received = new Promise<unknown>((resolve) => client.once("task:updated", resolve));
+    // The instances discover each other by heartbeat; wait until A sees B's socket
+    await eventually(() => nodeA.request<number>({ kind: "count", room: "project:p1" }), (count) => count === 1);
+    await nodeA.request({ kind: "emit", room: "project:p1", event: "task:updated", payload: { id: "task-1" } });
+
+    await expect(received).resolves.toEqual({ id: "task-1" });
+  });
+
+  it("counts sockets across instances", async () => {
+    const [nodeA, nodeB] = nodes;
+    sockets.push(await connect(nodeA, { userId: "u-count-a", tenantId: "t1", rooms: ["client:c1"] }));
+    sockets.push(await connect(nodeB, { userId: "u-count-b", tenantId: "t1", rooms: ["client:c1"] }));
+
+    const count = await eventually(() => nodeB.request<number>({ kind: "count", room: "client:c1" }), (n) => n === 2);
+    expect(count).toBe(2);
+  });
+
+  it("shares presence between instances", async () => {
+    const [nodeA, nodeB] = nodes;
+    const readOnA = () => nodeA.request<{ status: string } | null>({ kind: "presence", tenantId: "t1", userId: "u-presence" });
+
+    const client = await connect(nodeB, { userId: "u-presence", tenantId: "t1" });
+    const online = await eventually(readOnA, (info) => info?.status === "online");
+    expect(online?.status).toBe("online");
+
+    client.disconnect();
+    const offline = await eventually(readOnA, (info) => info?.status === "offline");
+    expect(offline?.status).toBe("offline");
+  });
+}
+
+describe("Realtime cluster over IPC relay", () => {
+  describeCluster("ipc");
+});
+
+describe.skipIf(!process.env.DATABASE_URL)("Realtime cluster over Postgres LISTEN/NOTIFY", () => {
+  describeCluster("postgres");
+});
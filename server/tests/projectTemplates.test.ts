@@ -0,0 +1,191 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyProjectTemplateSchema,
+  collectTemplateRoles,
+  projectTemplateContentSchema,
+  templateUsesDates,
+  type ProjectTemplateContent,
+} from "@shared/projectTemplates";
+import {
+  captureProjectAsTemplate,
+  planTemplateApplication,
+  type ProjectSnapshotTask,
+} from "../features/templates/templatePlanner";
+import { assertTemplateAttachmentsOwned } from "../features/templates/template.service";
+
+const content: ProjectTemplateContent = {
+  roles: ["PM"],
+  sections: [{
+    name: "Kickoff",
+    tasks: [
+      {
+        title: "Brief",
+        priority: "high",
+        startOffsetDays: 0,
+        dueOffsetDays: 2,
+        estimateMinutes: 90,
+        assigneeRoles: ["PM", "Designer"],
+        tags: ["kickoff", "kickoff"],
+        subtasks: ["Book call", { title: "Send agenda", dueOffsetDays: 1, assigneeRole: "Designer" }],
+      },
+      { title: "Launch", dueOffsetDays: 30, isMilestone: true },
+    ],
+  }],
+};
+
+function snapshotTask(overrides: Partial<ProjectSnapshotTask>): ProjectSnapshotTask {
+  return {
+    title: "Task",
+    description: null,
+    priority: "medium",
+    startDate: null,
+    dueDate: null,
+    estimateMinutes: null,
+    isMilestone: false,
+    assigneeIds: [],
+    tagNames: [],
+    subtasks: [],
+    attachments: [],
+    ...overrides,
+  };
+}
+
+describe("projectTemplateContentSchema", () => {
+  it("still accepts the original title-only format", () => {
+    const legacy = { sections: [{ name: "A", tasks: [{ title: "One", subtasks: ["x", "y"] }] }] };
+    expect(projectTemplateContentSchema.safeParse(legacy).success).toBe(true);
+  });
+
+  it("rejects a task that starts after it is due", () => {
+    const bad = { sections: [{ name: "A", tasks: [{ title: "One", startOffsetDays: 5, dueOffsetDays: 2 }] }] };
+    expect(projectTemplateContentSchema.safeParse(bad).success).toBe(false);
+  });
+
+  it("requires an ISO day for the start date when applying", () => {
+    expect(applyProjectTemplateSchema.safeParse({ templateId: "t", startDate: "2026-03-02" }).success).toBe(true);
+    expect(applyProjectTemplateSchema.safeParse({ templateId: "t", startDate: "03/02/2026" }).success).toBe(false);
+  });
+});
+
+describe("template helpers", () => {
+  it("collects declared roles and roles used only by tasks", () => {
+    expect(collectTemplateRoles(content)).toEqual(["PM", "Designer"]);
+  });
+
+  it("detects relative dates", () => {
+    expect(templateUsesDates(content)).toBe(true);
+    expect(templateUsesDates({ sections: [{ name: "A", tasks: [{ title: "One" }] }] })).toBe(false);
+  });
+});
+
+describe("planTemplateApplication", () => {
+  it("anchors offsets on the start date and resolves roles", () => {
+    const plan = planTemplateApplication(content, {
+      startDate: "2026-03-30",
+      roleAssignments: { PM: "user-pm", Designer: "user-designer" },
+    });
+    const [brief, launch] = plan.sections[0].tasks;
+
+    expect(brief.startDate?.toISOString()).toBe("2026-03-30T00:00:00.000Z");
+    expect(brief.dueDate?.toISOString()).toBe("2026-04-01T00:00:00.000Z");
+    expect(brief.priority).toBe("high");
+    expect(brief.estimateMinutes).toBe(90);
+    expect(brief.assigneeIds).toEqual(["user-pm", "user-designer"]);
+    expect(brief.tags).toEqual(["kickoff"]);
+    expect(brief.subtasks).toEqual([
+      { title: "Book call", dueDate: null, estimateMinutes: null, assigneeId: null },
+      { title: "Send agenda", dueDate: new Date("2026-03-31T00:00:00.000Z"), estimateMinutes: null, assigneeId: "user-designer" },
+    ]);
+    expect(launch.dueDate?.toISOString()).toBe("2026-04-29T00:00:00.000Z");
+    expect(launch.isMilestone).toBe(true);
+    expect(launch.priority).toBe("medium");
+    expect(plan.unmappedRoles).toEqual([]);
+  });
+
+  it("leaves tasks undated without a start date and reports unmapped roles", () => {
+    const plan = planTemplateApplication(content, { roleAssignments: { PM: "user-pm" } });
+    const [brief] = plan.sections[0].tasks;
+
+    expect(brief.startDate).toBeNull();
+    expect(brief.dueDate).toBeNull();
+    expect(brief.assigneeIds).toEqual(["user-pm"]);
+    expect(brief.subtasks[1].assigneeId).toBeNull();
+    expect(plan.unmappedRoles).toEqual(["Designer"]);
+  });
+});
+
+describe("captureProjectAsTemplate", () => {
+  const sections = [{
+    name: "Build",
+    tasks: [
+      snapshotTask({
+        title: "Design",
+        priority: "urgent",
+        startDate: new Date("2026-05-04T09:30:00Z"),
+        dueDate: new Date("2026-05-08T17:00:00Z"),
+        estimateMinutes: 240,
+        assigneeIds: ["u1", "u2"],
+        tagNames: ["design"],
+        subtasks: [
+          { title: "Wireframes", dueDate: new Date("2026-05-06T00:00:00Z"), estimateMinutes: null, assigneeId: "u1" },
+          { title: "Review", dueDate: null, estimateMinutes: null, assigneeId: null },
+        ],
+      }),
+      snapshotTask({ title: "Go live", dueDate: new Date("2026-05-20T00:00:00Z"), isMilestone: true }),
+    ],
+  }];
+
+  it("stores dates as offsets from the earliest date and maps assignees to roles", () => {
+    const captured = captureProjectAsTemplate(sections, { roles: { u1: "Designer" } });
+
+    expect(captured.roles).toEqual(["Designer"]);
+    expect(captured.sections[0].tasks[0]).toEqual({
+      title: "Design",
+      priority: "urgent",
+      startOffsetDays: 0,
+      dueOffsetDays: 4,
+      estimateMinutes: 240,
+      assigneeRoles: ["Designer"],
+      tags: ["design"],
+      subtasks: [{ title: "Wireframes", dueOffsetDays: 2, assigneeRole: "Designer" }, "Review"],
+    });
+    expect(captured.sections[0].tasks[1]).toEqual({ title: "Go live", dueOffsetDays: 16, isMilestone: true });
+    expect(projectTemplateContentSchema.safeParse(captured).success).toBe(true);
+  });
+
+  it("uses an explicit start date and round-trips through the planner", () => {
+    const captured = captureProjectAsTemplate(sections, { startDate: "2026-05-01", roles: {} });
+    expect(captured.sections[0].tasks[0].dueOffsetDays).toBe(7);
+    expect(captured.roles).toBeUndefined();
+
+    const plan = planTemplateApplication(captured, { startDate: "2026-05-01" });
+    expect(plan.sections[0].tasks[1].dueDate?.toISOString()).toBe("2026-05-20T00:00:00.000Z");
+  });
+
+  it("drops a start date that falls after the due date", () => {
+    const captured = captureProjectAsTemplate([{
+      name: "A",
+      tasks: [snapshotTask({ startDate: new Date("2026-05-10T00:00:00Z"), dueDate: new Date("2026-05-05T00:00:00Z") })],
+    }], { roles: {} });
+    expect(captured.sections[0].tasks[0]).toEqual({ title: "Task", dueOffsetDays: 0 });
+  });
+});
+
+describe("assertTemplateAttachmentsOwned", () => {
+  const withKey = (storageKey: string): ProjectTemplateContent => ({
+    sections: [{
+      name: "Files",
+      tasks: [{ title: "Brief", attachments: [{ fileName: "brief.pdf", mimeType: "application/pdf", sizeBytes: 10, storageKey }] }],
+    }],
+  });
+
+  it("accepts keys under the tenant's template prefix", () => {
+    expect(() => assertTemplateAttachmentsOwned("t1", withKey("project-templates/t1/abc-brief.pdf"))).not.toThrow();
+  });
+
+  it("rejects keys belonging to other tenants or other files", () => {
+    expect(() => assertTemplateAttachmentsOwned("t1", withKey("project-templates/t2/abc-brief.pdf"))).toThrow();
+    expect(() => assertTemplateAttachmentsOwned("t1", withKey("projects/p1/tasks/x/brief.pdf"))).toThrow();
+    expect(() => assertTemplateAttachmentsOwned("t1", withKey("project-templates/t1/../t2/brief.pdf"))).toThrow();
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { createProofCommentSchema, proofPinSchema } from "@shared/schema";
+import { isProofableMimeType, normalizePin } from "../features/proofing/proofPins";
+
+describe("proofPinSchema", () => {
+  it("accepts a point and a region inside the page", () => {
+    expect(proofPinSchema.safeParse({ x: 0.2, y: 0.8 }).success).toBe(true);
+    expect(proofPinSchema.safeParse({ page: 3, x: 0.5, y: 0.5, width: 0.5, height: 0.25 }).success).toBe(true);
+  });
+
+  it("rejects coordinates outside 0..1", () => {
+    expect(proofPinSchema.safeParse({ x: 1.2, y: 0.5 }).success).toBe(false);
+    expect(proofPinSchema.safeParse({ x: 0.5, y: -0.1 }).success).toBe(false);
+  });
+
+  it("rejects a region with only one dimension", () => {
+    expect(proofPinSchema.safeParse({ x: 0.1, y: 0.1, width: 0.2 }).success).toBe(false);
+  });
+
+  it("rejects a region that spills off the page", () => {
+    expect(proofPinSchema.safeParse({ x: 0.8, y: 0.1, width: 0.3, height: 0.1 }).success).toBe(false);
+  });
+
+  it("rejects a zero or fractional page number", () => {
+    expect(proofPinSchema.safeParse({ page: 0, x: 0.1, y: 0.1 }).success).toBe(false);
+    expect(proofPinSchema.safeParse({ page: 1.5, x: 0.1, y: 0.1 }).success).toBe(false);
+  });
+
+  it("lets a comment leave the pin out", () => {
+    expect(createProofCommentSchema.safeParse({ body: "Looks good" }).success).toBe(true);
+    expect(createProofCommentSchema.safeParse({ body: "   " }).success).toBe(false);
+  });
+});
+
+describe("normalizePin", () => {
+  it("requires a page on PDFs", () => {
+    expect(normalizePin({ x: 0.5, y: 0.5 }, "application/pdf")).toEqual({ error: "Pins on a PDF need a page number" });
+    expect(normalizePin({ page: 2, x: 0.5, y: 0.5 }, "application/pdf")).toEqual({ pin: { page: 2, x: 0.5, y: 0.5 } });
+  });
+
+  it("rejects a page on images", () => {
+    expect(normalizePin({ page: 1, x: 0.5, y: 0.5 }, "image/png")).toEqual({ error: "Pins on an image cannot have a page number" });
+  });
+
+  it("rejects pins on file types the viewer cannot render", () => {
+    expect(normalizePin({ x: 0.5, y: 0.5 }, "application/zip")).toEqual({ error: "Pins can only be placed on images and PDFs" });
+  });
+
+  it("rounds coordinates and keeps regions on the page", () => {
+    const result = normalizePin({ x: 0.123456, y: 0.5, width: 0.876549, height: 0.2 }, "image/jpeg");
+    expect(result).toEqual({ pin: { x: 0.1235, y: 0.5, width: 0.8765, height: 0.2 } });
+  });
+});
+
+describe("isProofableMimeType", () => {
+  it("covers images and PDFs only", () => {
+    expect(isProofableMimeType("image/webp")).toBe(true);
+    expect(isProofableMimeType("application/pdf")).toBe(true);
+    expect(isProofableMimeType("video/mp4")).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { parseRRule, formatRRule, nextOccurrence, RRuleError } from "../features/recurrence/rrule";
+
+const d = (iso: string) => new Date(iso);
+
+/** Expands the first `n` occurrences the way the recurrence service walks a series. */
+function expand(rrule: string, dtstart: Date, n: number): string[] {
+  const rule = parseRRule(rrule);
+  const out = [dtstart.toISOString()];
+  let current: Date | null = dtstart;
+  while (out.length < n) {
+    current = nextOccurrence(rule, dtstart, current, out.length);
+    if (!current) break;
+    out.push(current.toISOString());
+  }
+  return out;
+}
+
+describe("parseRRule", () => {
+  it("parses the supported parts and round-trips through formatRRule", () => {
+    const rule = parseRRule("RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR;COUNT=6");
+    expect(rule).toEqual({
+      freq: "MONTHLY",
+      interval: 2,
+      byDay: [{ weekday: 2, ordinal: 2 }, { weekday: 5, ordinal: -1 }],
+      byMonthDay: [],
+      count: 6,
+      until: undefined,
+    });
+    expect(formatRRule(rule)).toBe("FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR;COUNT=6");
+  });
+
+  it("treats a date-only UNTIL as inclusive of that day", () => {
+    expect(parseRRule("FREQ=DAILY;UNTIL=20250110").until).toEqual(d("2025-01-10T23:59:59Z"));
+  });
+
+  it.each([
+    ["", "empty"],
+    ["INTERVAL=2", "missing FREQ"],
+    ["FREQ=YEARLY", "unsupported FREQ"],
+    ["FREQ=DAILY;BYDAY=MO", "BYDAY on DAILY"],
+    ["FREQ=WEEKLY;BYDAY=2MO", "ordinal outside MONTHLY"],
+    ["FREQ=MONTHLY;BYDAY=MO;BYMONTHDAY=1", "BYDAY with BYMONTHDAY"],
+    ["FREQ=DAILY;COUNT=3;UNTIL=20250101", "COUNT with UNTIL"],
+    ["FREQ=DAILY;INTERVAL=0", "zero interval"],
+    ["FREQ=DAILY;BYHOUR=9", "unsupported part"],
+  ])("rejects %s (%s)", (input) => {
+    expect(() => parseRRule(input)).toThrow(RRuleError);
+  });
+});
+
+describe("nextOccurrence", () => {
+  it("steps daily by interval and honours COUNT", () => {
+    expect(expand("FREQ=DAILY;INTERVAL=3;COUNT=3", d("2025-01-01T09:00:00Z"), 10)).toEqual([
+      "2025-01-01T09:00:00.000Z",
+      "2025-01-04T09:00:00.000Z",
+      "2025-01-07T09:00:00.000Z",
+    ]);
+  });
+
+  it("expands weekly BYDAY within each week and keeps the time of day", () => {
+    // 2025-01-01 is a Wednesday
+    expect(expand("FREQ=WEEKLY;BYDAY=MO,WE,FR", d("2025-01-01T14:30:00Z"), 5)).toEqual([
+      "2025-01-01T14:30:00.000Z",
+      "2025-01-03T14:30:00.000Z",
+      "2025-01-06T14:30:00.000Z",
+      "2025-01-08T14:30:00.000Z",
+      "2025-01-10T14:30:00.000Z",
+    ]);
+  });
+
+  it("skips whole weeks for INTERVAL>1", () => {
+    expect(expand("FREQ=WEEKLY;INTERVAL=2", d("2025-01-06T00:00:00Z"), 3)).toEqual([
+      "2025-01-06T00:00:00.000Z",
+      "2025-01-20T00:00:00.000Z",
+      "2025-02-03T00:00:00.000Z",
+    ]);
+  });
+
+  it("resolves nth and last weekdays of the month", () => {
+    expect(expand("FREQ=MONTHLY;BYDAY=-1FR", d("2025-01-31T00:00:00Z"), 3)).toEqual([
+      "2025-01-31T00:00:00.000Z",
+      "2025-02-28T00:00:00.000Z",
+      "2025-03-28T00:00:00.000Z",
+    ]);
+    expect(expand("FREQ=MONTHLY;BYDAY=2TU", d("2025-01-14T00:00:00Z"), 2)[1]).toBe("2025-02-11T00:00:00.000Z");
+  });
+
+  it("skips months that lack the day and supports negative BYMONTHDAY", () => {
+    expect(expand("FREQ=MONTHLY", d("2025-01-31T00:00:00Z"), 3)).toEqual([
+      "2025-01-31T00:00:00.000Z",
+      "2025-03-31T00:00:00.000Z",
+      "2025-05-31T00:00:00.000Z",
+    ]);
+    expect(expand("FREQ=MONTHLY;BYMONTHDAY=-1", d("2025-01-31T00:00:00Z"), 2)[1]).toBe("2025-02-28T00:00:00.000Z");
+  });
+
+  it("stops at UNTIL", () => {
+    expect(expand("FREQ=DAILY;UNTIL=20250103", d("2025-01-01T10:00:00Z"), 10)).toHaveLength(3);
+  });
+
+  it("jumps straight to the first occurrence after a distant date", () => {
+    const rule = parseRRule("FREQ=DAILY");
+    const next = nextOccurrence(rule, d("2020-01-01T08:00:00Z"), d("2025-06-15T12:00:00Z"), 1);
+    expect(next).toEqual(d("2025-06-16T08:00:00Z"));
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { parseReminderTime, splitReminderText } from "../features/reminders/reminderTime";
+import { createReminderSchema } from "@shared/schema";
+
+// Wednesday 2026-03-04 10:00 in New York (EST, UTC-5); DST starts Sunday 2026-03-08
+const NOW = new Date("2026-03-04T15:00:00Z");
+const NY = { now: NOW, timeZone: "America/New_York" };
+
+function at(input: string, options: { now: Date; timeZone?: string } = NY): string | null {
+  return parseReminderTime(input, options)?.toISOString() ?? null;
+}
+
+describe("parseReminderTime", () => {
+  it("adds relative offsets", () => {
+    expect(at("in 30 minutes")).toBe("2026-03-04T15:30:00.000Z");
+    expect(at("in an hour")).toBe("2026-03-04T16:00:00.000Z");
+    expect(at("in 2 days")).toBe("2026-03-06T15:00:00.000Z");
+    expect(at("in 1 week")).toBe("2026-03-11T15:00:00.000Z");
+    expect(at("in 0 minutes")).toBeNull();
+    expect(at("in 5 fortnights")).toBeNull();
+  });
+
+  it("reads days and clock times in the caller's zone", () => {
+    expect(at("tomorrow 9am")).toBe("2026-03-05T14:00:00.000Z");
+    expect(at("tomorrow at 14:30")).toBe("2026-03-05T19:30:00.000Z");
+    expect(at("9am tomorrow")).toBe("2026-03-05T14:00:00.000Z");
+    expect(at("tomorrow morning")).toBe("2026-03-05T14:00:00.000Z");
+    expect(at("fri noon")).toBe("2026-03-06T17:00:00.000Z");
+    expect(at("tonight")).toBe("2026-03-05T01:00:00.000Z");
+    expect(at("tomorrow 9am", { now: NOW })).toBe("2026-03-05T09:00:00.000Z");
+  });
+
+  it("resolves weekdays across the DST change", () => {
+    expect(at("next monday")).toBe("2026-03-09T13:00:00.000Z");
+    expect(at("next week")).toBe("2026-03-09T13:00:00.000Z");
+    expect(at("monday 10am")).toBe("2026-03-09T14:00:00.000Z");
+    // A bare weekday naming today means today while the time is ahead, else next week
+    expect(at("wednesday 11pm")).toBe("2026-03-05T04:00:00.000Z");
+    expect(at("wednesday 9am")).toBe("2026-03-11T13:00:00.000Z");
+    expect(at("next wednesday")).toBe("2026-03-11T13:00:00.000Z");
+  });
+
+  it("rolls a bare clock time over to tomorrow once it has passed", () => {
+    expect(at("11pm")).toBe("2026-03-05T04:00:00.000Z");
+    expect(at("8am")).toBe("2026-03-05T13:00:00.000Z");
+    expect(at("at 9")).toBe("2026-03-05T14:00:00.000Z");
+  });
+
+  it("accepts ISO dates and timestamps", () => {
+    expect(at("2026-03-15")).toBe("2026-03-15T13:00:00.000Z");
+    expect(at("2026-03-15 14:00")).toBe("2026-03-15T18:00:00.000Z");
+    expect(at("2026-03-15T10:00")).toBe("2026-03-15T14:00:00.000Z");
+    expect(at("2026-03-15T10:00:00Z")).toBe("2026-03-15T10:00:00.000Z");
+    expect(at("2026-02-30")).toBeNull();
+  });
+
+  it("moves wall times inside a DST gap forward", () => {
+    expect(at("2026-03-08 2:30am")).toBe("2026-03-08T07:30:00.000Z");
+  });
+
+  it("rejects past times, nonsense and bare numbers", () => {
+    expect(at("today 9am")).toBeNull();
+    expect(at("yesterday")).toBeNull();
+    expect(at("2025-01-01")).toBeNull();
+    expect(at("13pm")).toBeNull();
+    expect(at("9")).toBeNull();
+    expect(at("soon")).toBeNull();
+  });
+
+  it("falls back to UTC for unknown zones", () => {
+    expect(at("tomorrow 9am", { now: NOW, timeZone: "Mars/Olympus_Mons" })).toBe("2026-03-05T09:00:00.000Z");
+  });
+});
+
+describe("splitReminderText", () => {
+  it("takes the longest leading time phrase and keeps the rest as the message", () => {
+    expect(splitReminderText("me tomorrow at 9am to check the deploy", NY)).toEqual({
+      remindAt: new Date("2026-03-05T14:00:00.000Z"),
+      message: "check the deploy",
+    });
+    expect(splitReminderText("next Monday 10am Standup notes", NY)?.remindAt.toISOString()).toBe("2026-03-09T14:00:00.000Z");
+    expect(splitReminderText("in 30 minutes Check deployment", NY)?.message).toBe("Check deployment");
+  });
+
+  it("requires both a time and a message", () => {
+    expect(splitReminderText("tomorrow 9am", NY)).toBeNull();
+    expect(splitReminderText("3 things to do", NY)).toBeNull();
+  });
+});
+
+describe("createReminderSchema", () => {
+  it("only accepts task and comment sources", () => {
+    const base = { message: "Follow up", remindAt: "tomorrow 9am", sourceId: "task-1" };
+    expect(createReminderSchema.safeParse({ ...base, sourceType: "task" }).success).toBe(true);
+    expect(createReminderSchema.safeParse({ ...base, sourceType: "comment" }).success).toBe(true);
+    expect(createReminderSchema.safeParse({ ...base, sourceType: "chat" }).success).toBe(false);
+    expect(createReminderSchema.safeParse({ ...base, sourceType: "task", message: " " }).success).toBe(false);
+  });
+});
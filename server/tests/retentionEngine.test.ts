@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import {
+  RETENTION_ENTITY_TYPES,
+  upsertDataRetentionPolicySchema,
+  type DataRetentionPolicy,
+} from "@shared/schema";
+
+const mocks = vi.hoisted(() => ({
+  policies: [] as Partial<DataRetentionPolicy>[],
+  deleteS3Object: vi.fn(),
+  archiveRows: vi.fn(),
+  selectPurgeBatch: vi.fn(),
+  countCandidates: vi.fn(),
+  purge: vi.fn(),
+}));
+
+vi.mock("../db", () => ({
+  db: { select: () => ({ from: () => ({ where: async () => mocks.policies }) }) },
+}));
+vi.mock("../s3", () => ({ deleteS3Object: mocks.deleteS3Object }));
+vi.mock("../retention/retentionEntities", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../retention/retentionEntities")>();
+  const entities = Object.fromEntries(
+    Object.entries(actual.RETENTION_ENTITIES).map(([type, def]) => [type, { ...def, purge: mocks.purge }]),
+  );
+  return {
+    ...actual,
+    RETENTION_ENTITIES: entities,
+    archiveRows: mocks.archiveRows,
+    selectPurgeBatch: mocks.selectPurgeBatch,
+    countCandidates: mocks.countCandidates,
+  };
+});
+
+import { RETENTION_ENTITIES, planRetention } from "../retention/retentionEntities";
+import { runRetention } from "../retention/retentionRunner";
+
+const now = new Date("2026-06-01T00:00:00Z");
+const daysBefore = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+function policy(overrides: Partial<DataRetentionPolicy>): DataRetentionPolicy {
+  return {
+    id: "p1",
+    tenantId: "t1",
+    entityType: "tasks",
+    retentionDays: 90,
+    isEnabled: true,
+    archiveMode: "soft",
+    restoreWindowDays: 30,
+    createdByUserId: null,
+    updatedByUserId: null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+describe("retention engine", () => {
+  describe("planRetention", () => {
+    it("only archives in soft mode", () => {
+      expect(planRetention(policy({}), now)).toEqual({
+        archiveBefore: daysBefore(90),
+        purgeLiveBefore: null,
+        purgeArchivedBefore: null,
+      });
+    });
+
+    it("purges archived records once the restore window has passed in hard mode", () => {
+      expect(planRetention(policy({ entityType: "chat_messages", archiveMode: "hard", restoreWindowDays: 7 }), now)).toEqual({
+        archiveBefore: daysBefore(90),
+        purgeLiveBefore: null,
+        purgeArchivedBefore: daysBefore(7),
+      });
+    });
+
+    it("purges types without an archive column directly", () => {
+      expect(planRetention(policy({ entityType: "assets", archiveMode: "hard" }), now)).toEqual({
+        archiveBefore: null,
+        purgeLiveBefore: daysBefore(90),
+        purgeArchivedBefore: null,
+      });
+      expect(planRetention(policy({ entityType: "assets", archiveMode: "soft" }), now)).toBeNull();
+    });
+
+    it("skips disabled and unknown policies", () => {
+      expect(planRetention(policy({ isEnabled: false }), now)).toBeNull();
+      expect(planRetention(policy({ entityType: "invoices", archiveMode: "hard" }), now)).toBeNull();
+    });
+  });
+
+  describe("policy validation", () => {
+    it("rejects soft archiving for types that can only be purged", () => {
+      const result = upsertDataRetentionPolicySchema.safeParse({
+        entityType: "error_logs",
+        isEnabled: true,
+        retentionDays: 30,
+        archiveMode: "soft",
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("defaults to soft archive with a 30 day restore window", () => {
+      expect(upsertDataRetentionPolicySchema.parse({ entityType: "tasks", isEnabled: true, retentionDays: 30 }))
+        .toMatchObject({ archiveMode: "soft", restoreWindowDays: 30 });
+    });
+  });
+
+  describe("entity registry", () => {
+    const dialect = new PgDialect();
+
+    it("defines every retention entity type", () => {
+      expect(Object.keys(RETENTION_ENTITIES).sort()).toEqual([...RETENTION_ENTITY_TYPES].sort());
+    });
+
+    it("scopes every type to one tenant", () => {
+      for (const def of Object.values(RETENTION_ENTITIES)) {
+        const query = dialect.sqlToQuery(def.tenantScope("t1"));
+        expect(query.params).toContain("t1");
+      }
+    });
+
+    it("never purges invoiced time", () => {
+      expect(dialect.sqlToQuery(RETENTION_ENTITIES.time_entries.purgeGuard!).sql).toContain("r.invoice_id IS NULL");
+      expect(dialect.sqlToQuery(RETENTION_ENTITIES.tasks.purgeGuard!).sql).toContain("te.invoice_id IS NOT NULL");
+    });
+  });
+
+  describe("runRetention", () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      mocks.countCandidates.mockResolvedValue({ eligible: 0, held: 2 });
+    });
+
+    it("purges in batches, deletes stored objects and reports held rows", async () => {
+      mocks.policies = [policy({ entityType: "assets", archiveMode: "hard", retentionDays: 365 })];
+      mocks.selectPurgeBatch.mockResolvedValueOnce(["a1", "a2"]);
+      mocks.purge.mockResolvedValueOnce(["assets/t1/c1/a1.png", "assets/t1/c1/a2.pdf"]);
+      mocks.deleteS3Object.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error("AccessDenied"));
+
+      const result = await runRetention("t1", now);
+
+      expect(mocks.selectPurgeBatch).toHaveBeenCalledWith(RETENTION_ENTITIES.assets, "t1", "purge_live", daysBefore(365), 500);
+      expect(mocks.purge).toHaveBeenCalledWith(["a1", "a2"]);
+      expect(mocks.archiveRows).not.toHaveBeenCalled();
+      expect(result.entities).toEqual([
+        { entityType: "assets", archived: 0, purged: 2, held: 2, objectsDeleted: 1 },
+      ]);
+      expect(result.purged).toBe(2);
+      expect(result.errors).toEqual(["assets: could not delete object assets/t1/c1/a2.pdf: AccessDenied"]);
+    });
+
+    it("archives before purging what has outlived the restore window", async () => {
+      mocks.policies = [policy({ entityType: "tasks", archiveMode: "hard", restoreWindowDays: 14 })];
+      mocks.archiveRows.mockResolvedValueOnce(3);
+      mocks.selectPurgeBatch.mockResolvedValueOnce([]);
+
+      const result = await runRetention("t1", now);
+
+      expect(mocks.archiveRows).toHaveBeenCalledWith(RETENTION_ENTITIES.tasks, "t1", daysBefore(90), now, "Retention policy: 90 days");
+      expect(mocks.selectPurgeBatch).toHaveBeenCalledWith(RETENTION_ENTITIES.tasks, "t1", "purge_archived", daysBefore(14), 500);
+      expect(result).toMatchObject({ archived: 3, purged: 0, errors: [] });
+    });
+
+    it("keeps going when one entity type fails", async () => {
+      mocks.policies = [
+        policy({ entityType: "error_logs", archiveMode: "hard" }),
+        policy({ entityType: "chat_messages" }),
+      ];
+      mocks.selectPurgeBatch.mockRejectedValueOnce(new Error("statement timeout"));
+      mocks.archiveRows.mockResolvedValueOnce(5);
+
+      const result = await runRetention("t1", now);
+
+      expect(result.errors).toEqual(["error_logs: statement timeout"]);
+      expect(result.archived).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { parseHeadline, parseSearchTypes, toPrefixTsQuery } from "../features/search/searchQuery";
+import { SEARCH_ENTITY_TYPES } from "@shared/search";
+
+describe("toPrefixTsQuery", () => {
+  it("ANDs prefix terms and drops tsquery syntax", () => {
+    expect(toPrefixTsQuery("Overdue invoice")).toBe("overdue:* & invoice:*");
+    expect(toPrefixTsQuery("a & b | !c:*")).toBe("a:* & b:* & c:*");
+    expect(toPrefixTsQuery("café déjà")).toBe("café:* & déjà:*");
+  });
+
+  it("dedupes, caps the number of terms and rejects empty input", () => {
+    expect(toPrefixTsQuery("tax tax TAX")).toBe("tax:*");
+    expect(toPrefixTsQuery("a b c d e f g h i j")!.split(" & ")).toHaveLength(8);
+    expect(toPrefixTsQuery("  ()!  ")).toBeNull();
+  });
+});
+
+describe("parseHeadline", () => {
+  it("turns delimiters into highlight ranges", () => {
+    const snippet = parseHeadline("the \u0001invoice\u0002 is \u0001overdue\u0002");
+    expect(snippet).toEqual({ text: "the invoice is overdue", highlights: [[4, 11], [15, 22]] });
+  });
+
+  it("collapses whitespace without shifting ranges", () => {
+    const snippet = parseHeadline("line one\n\n  then \u0001match\u0002 here");
+    expect(snippet!.text).toBe("line one then match here");
+    const [[start, end]] = snippet!.highlights;
+    expect(snippet!.text.slice(start, end)).toBe("match");
+  });
+
+  it("returns null for empty headlines", () => {
+    expect(parseHeadline("")).toBeNull();
+    expect(parseHeadline("   \n")).toBeNull();
+    expect(parseHeadline(null)).toBeNull();
+  });
+});
+
+describe("parseSearchTypes", () => {
+  it("keeps known types from comma lists and repeated params", () => {
+    expect(parseSearchTypes("task,comment,bogus")).toEqual(["task", "comment"]);
+    expect(parseSearchTypes(["chat_message", "asset"])).toEqual(["chat_message", "asset"]);
+  });
+
+  it("defaults to every type", () => {
+    expect(parseSearchTypes(undefined)).toEqual(SEARCH_ENTITY_TYPES);
+    expect(parseSearchTypes("")).toEqual(SEARCH_ENTITY_TYPES);
+  });
+});
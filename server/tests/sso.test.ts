@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  repo: {
+    findTenantsClaimingDomain: vi.fn(),
+    issueRelayState: vi.fn(),
+    consumeRelayState: vi.fn(),
+    findIdentity: vi.fn(),
+    getTenant: vi.fn(),
+  },
+  storage: {
+    getUserByEmail: vi.fn(),
+    getPrimaryWorkspaceId: vi.fn(),
+  },
+  getIntegrationWithSecrets: vi.fn(),
+}));
+
+vi.mock("../features/sso/sso.repo", () => ({ ssoRepo: mocks.repo }));
+vi.mock("../storage", () => ({ storage: mocks.storage }));
+vi.mock("../db", () => ({ db: {} }));
+vi.mock("../services/tenantIntegrations", () => ({
+  tenantIntegrationService: { getIntegrationWithSecrets: mocks.getIntegrationWithSecrets },
+}));
+
+import {
+  RELAY_STATE_TTL_MS,
+  emailDomain,
+  isEmailInDomains,
+  mapOidcClaims,
+  mapSamlProfile,
+  signRelayState,
+  verifyRelayState,
+} from "../features/sso/ssoIdentity";
+import { ssoService } from "../features/sso/sso.service";
+import { updateSsoConfigSchema } from "@shared/schema";
+import type { SsoPublicConfig } from "../services/tenantIntegrations";
+
+const SECRET = "test-session-secret";
+
+describe("email domains", () => {
+  it("extracts and matches domains exactly and case-insensitively", () => {
+    expect(emailDomain("Ada@Example.COM")).toBe("example.com");
+    expect(emailDomain("not-an-email")).toBeNull();
+    expect(emailDomain("@example.com")).toBeNull();
+    expect(isEmailInDomains("ada@example.com", ["EXAMPLE.com"])).toBe(true);
+    expect(isEmailInDomains("ada@eu.example.com", ["example.com"])).toBe(false);
+    expect(isEmailInDomains("ada@example.com.evil.io", ["example.com"])).toBe(false);
+  });
+});
+
+describe("mapOidcClaims", () => {
+  it("maps standard claims and lowercases the email", () => {
+    expect(mapOidcClaims({ sub: "abc", email: "Ada@Example.com", given_name: "Ada", family_name: "Lovelace" })).toEqual({
+      subject: "abc",
+      email: "ada@example.com",
+      firstName: "Ada",
+      lastName: "Lovelace",
+      emailVerified: true,
+    });
+  });
+
+  it("falls back to the full name and honours email_verified=false", () => {
+    const identity = mapOidcClaims({ sub: "abc", email: "ada@example.com", name: "Ada King Lovelace", email_verified: false });
+    expect(identity?.firstName).toBe("Ada");
+    expect(identity?.lastName).toBe("King Lovelace");
+    expect(identity?.emailVerified).toBe(false);
+  });
+
+  it("requires a subject and an email", () => {
+    expect(mapOidcClaims({ email: "ada@example.com" })).toBeNull();
+    expect(mapOidcClaims({ sub: "abc" })).toBeNull();
+  });
+});
+
+describe("mapSamlProfile", () => {
+  it("reads common attribute names", () => {
+    const identity = mapSamlProfile({
+      nameID: "00u1abcd",
+      "http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress": "ada@example.com",
+      "http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname": "Ada",
+      "urn:oid:2.5.4.4": ["Lovelace"],
+    });
+    expect(identity).toEqual({
+      subject: "00u1abcd",
+      email: "ada@example.com",
+      firstName: "Ada",
+      lastName: "Lovelace",
+      emailVerified: true,
+    });
+  });
+
+  it("uses an email-formatted NameID when no email attribute is sent", () => {
+    expect(mapSamlProfile({ nameID: "Ada@Example.com" })?.email).toBe("ada@example.com");
+    expect(mapSamlProfile({ nameID: "opaque-id" })).toBeNull();
+  });
+});
+
+describe("relay state", () => {
+  it("round-trips the tenant id with a fresh nonce", () => {
+    const now = new Date("2026-03-01T12:00:00Z");
+    const first = verifyRelayState(signRelayState("tenant-1", SECRET, now), SECRET, now);
+    const second = verifyRelayState(signRelayState("tenant-1", SECRET, now), SECRET, now);
+    expect(first).toMatchObject({ tenantId: "tenant-1", expiresAt: new Date(now.getTime() + RELAY_STATE_TTL_MS) });
+    expect(first?.nonce).toMatch(/^[0-9a-f]{32}$/);
+    expect(second?.nonce).not.toBe(first?.nonce);
+  });
+
+  it("rejects tampering, other secrets and expired values", () => {
+    const now = new Date("2026-03-01T12:00:00Z");
+    const value = signRelayState("tenant-1", SECRET, now);
+    const [payload, signature] = value.split(".");
+    const forged = Buffer.from(JSON.stringify({ t: "tenant-2", n: "x", e: now.getTime() + 1000 })).toString("base64url");
+    expect(verifyRelayState(`${forged}.${signature}`, SECRET, now)).toBeNull();
+    expect(verifyRelayState(`${payload}.${signature}x`, SECRET, now)).toBeNull();
+    expect(verifyRelayState(value, "other-secret", now)).toBeNull();
+    expect(verifyRelayState(value, SECRET, new Date(now.getTime() + RELAY_STATE_TTL_MS + 1))).toBeNull();
+  });
+});
+
+describe("updateSsoConfigSchema", () => {
+  it("requires protocol fields only when enabled", () => {
+    expect(updateSsoConfigSchema.safeParse({ enabled: false, protocol: "oidc" }).success).toBe(true);
+    expect(updateSsoConfigSchema.safeParse({ enabled: true, protocol: "oidc" }).success).toBe(false);
+    expect(updateSsoConfigSchema.safeParse({
+      enabled: true,
+      protocol: "oidc",
+      emailDomains: ["example.com"],
+      oidcIssuerUrl: "https://login.example.com",
+      oidcClientId: "client",
+    }).success).toBe(true);
+    expect(updateSsoConfigSchema.safeParse({ enabled: true, protocol: "saml", samlEntryPoint: "https://idp.example.com/sso" }).success).toBe(false);
+  });
+
+  it("normalizes domains and rejects invalid ones", () => {
+    const parsed = updateSsoConfigSchema.parse({ enabled: false, protocol: "saml", emailDomains: [" Example.COM "] });
+    expect(parsed.emailDomains).toEqual(["example.com"]);
+    expect(parsed.allowJitProvisioning).toBe(true);
+    expect(updateSsoConfigSchema.safeParse({ enabled: false, protocol: "oidc", emailDomains: ["@example.com"] }).success).toBe(false);
+  });
+
+  it("requires a claimed domain for JIT provisioning and SSO-only sign-in", () => {
+    const oidc = { enabled: true, protocol: "oidc", oidcIssuerUrl: "https://login.example.com", oidcClientId: "client" } as const;
+    expect(updateSsoConfigSchema.safeParse(oidc).success).toBe(false);
+    expect(updateSsoConfigSchema.safeParse({ ...oidc, allowJitProvisioning: false }).success).toBe(true);
+    expect(updateSsoConfigSchema.safeParse({ ...oidc, allowJitProvisioning: false, passwordLoginDisabled: true }).success).toBe(false);
+  });
+
+  it("has no way to provision admins", () => {
+    const parsed = updateSsoConfigSchema.parse({ enabled: false, protocol: "oidc", defaultRole: "admin" });
+    expect(parsed).not.toHaveProperty("defaultRole");
+  });
+});
+
+describe("ssoService", () => {
+  const config: SsoPublicConfig = {
+    enabled: true,
+    protocol: "saml",
+    displayName: "Acme SSO",
+    emailDomains: ["acme.com"],
+    allowJitProvisioning: true,
+    passwordLoginDisabled: false,
+    samlEntryPoint: "https://idp.acme.com/sso",
+    samlIdpCert: "cert",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.repo.findTenantsClaimingDomain.mockResolvedValue([{ tenantId: "tenant-1", config }]);
+    mocks.getIntegrationWithSecrets.mockResolvedValue({ publicConfig: config, secretConfig: null });
+    mocks.storage.getUserByEmail.mockResolvedValue(undefined);
+  });
+
+  it("discovers only through a claimed domain", async () => {
+    expect(await ssoService.discover("new@acme.com")).toMatchObject({ sso: true, tenantId: "tenant-1" });
+
+    mocks.repo.findTenantsClaimingDomain.mockResolvedValue([]);
+    mocks.storage.getUserByEmail.mockResolvedValue({ id: "u1", role: "employee", tenantId: "tenant-1" });
+    expect(await ssoService.discover("ada@gmail.com")).toEqual({ sso: false });
+  });
+
+  it("does not route users of another tenant through a claimed domain", async () => {
+    mocks.storage.getUserByEmail.mockResolvedValue({ id: "u1", role: "employee", tenantId: "tenant-2" });
+    expect(await ssoService.discover("ada@acme.com")).toEqual({ sso: false });
+  });
+
+  it("refuses a RelayState that was already used", async () => {
+    mocks.repo.consumeRelayState.mockResolvedValue(null);
+    const RelayState = signRelayState("tenant-1", process.env.SESSION_SECRET || "dasana-dev-secret-key");
+    const nonce = verifyRelayState(RelayState, process.env.SESSION_SECRET || "dasana-dev-secret-key")!.nonce;
+    await expect(ssoService.completeSamlLogin("tenant-1", "https://app.example.com", { RelayState, SAMLResponse: "x" }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    expect(mocks.repo.consumeRelayState).toHaveBeenCalledWith(nonce, "tenant-1");
+    expect(mocks.repo.getTenant).not.toHaveBeenCalled();
+  });
+
+  it("stores the AuthnRequest ID with the RelayState it issues", async () => {
+    mocks.repo.getTenant.mockResolvedValue({ id: "tenant-1", name: "Acme", status: "active" });
+    const { redirectUrl } = await ssoService.beginLogin("tenant-1", "https://app.example.com");
+    const [stored] = mocks.repo.issueRelayState.mock.calls[0];
+    expect(stored).toMatchObject({ tenantId: "tenant-1", requestId: expect.stringMatching(/^_/) });
+    const relayState = new URL(redirectUrl).searchParams.get("RelayState")!;
+    expect(verifyRelayState(relayState, process.env.SESSION_SECRET || "dasana-dev-secret-key")?.nonce).toBe(stored.nonce);
+  });
+
+  it("does not provision accounts when no domain is claimed", async () => {
+    mocks.repo.findIdentity.mockResolvedValue(undefined);
+    const identity = { subject: "s1", email: "ada@gmail.com", firstName: null, lastName: null, emailVerified: true };
+    await expect(ssoService.resolveUser("tenant-1", { ...config, emailDomains: [] }, "saml", "idp", identity))
+      .rejects.toMatchObject({ statusCode: 403 });
+    expect(mocks.storage.getPrimaryWorkspaceId).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { nextCompletedAt } from "../features/statusHistory/statusHistory.service";
+
+const NOW = new Date("2026-03-04T15:00:00Z");
+const EARLIER = new Date("2026-03-01T09:00:00Z");
+
+describe("nextCompletedAt", () => {
+  it("stamps the time a task enters a done status", () => {
+    expect(nextCompletedAt("active", "done", null, NOW)).toEqual(NOW);
+    expect(nextCompletedAt("not_started", "done", null, NOW)).toEqual(NOW);
+  });
+
+  it("keeps the original stamp when moving between done statuses", () => {
+    expect(nextCompletedAt("done", "done", EARLIER, NOW)).toEqual(EARLIER);
+  });
+
+  it("restamps a done task that has no completion time yet", () => {
+    expect(nextCompletedAt("done", "done", null, NOW)).toEqual(NOW);
+  });
+
+  it("clears the stamp when a task leaves done", () => {
+    expect(nextCompletedAt("done", "active", EARLIER, NOW)).toBeNull();
+    expect(nextCompletedAt("done", "cancelled", EARLIER, NOW)).toBeNull();
+    expect(nextCompletedAt("active", "not_started", null, NOW)).toBeNull();
+  });
+
+  it("restamps a reopened task on its next completion", () => {
+    expect(nextCompletedAt("active", "done", EARLIER, NOW)).toEqual(NOW);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import type { StatusCategoryValue } from "@shared/schema";
+import {
+  wouldCreateCycle,
+  isBlockingEdge,
+  getBlockedTaskMap,
+  computeCascadeShifts,
+  computeCriticalPath,
+  type DependencyEdge,
+  type ScheduledTask,
+} from "../features/taskDependencies/dependencyGraph";
+
+function link(predecessorTaskId: string, successorTaskId: string, lagDays = 0): DependencyEdge {
+  return { predecessorTaskId, successorTaskId, type: "finish_to_start", lagDays };
+}
+
+function task(id: string, overrides: Partial<ScheduledTask> = {}): ScheduledTask {
+  return { id, category: "not_started", startDate: null, dueDate: null, estimateMinutes: null, ...overrides };
+}
+
+const d = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+describe("wouldCreateCycle", () => {
+  it("rejects self links", () => {
+    expect(wouldCreateCycle([], "a", "a")).toBe(true);
+  });
+
+  it("detects direct and transitive cycles", () => {
+    const edges = [link("a", "b"), link("b", "c")];
+    expect(wouldCreateCycle(edges, "b", "a")).toBe(true);
+    expect(wouldCreateCycle(edges, "c", "a")).toBe(true);
+  });
+
+  it("allows links that keep the graph acyclic", () => {
+    const edges = [link("a", "b"), link("b", "c")];
+    expect(wouldCreateCycle(edges, "a", "c")).toBe(false);
+    expect(wouldCreateCycle(edges, "d", "a")).toBe(false);
+  });
+});
+
+describe("isBlockingEdge / getBlockedTaskMap", () => {
+  it("finish-to-start blocks until the predecessor is done", () => {
+    expect(isBlockingEdge(link("a", "b"), "active")).toBe(true);
+    expect(isBlockingEdge(link("a", "b"), "done")).toBe(false);
+    expect(isBlockingEdge(link("a", "b"), "cancelled")).toBe(false);
+  });
+
+  it("start-to-start only blocks while the predecessor has not started", () => {
+    const edge: DependencyEdge = { ...link("a", "b"), type: "start_to_start" };
+    expect(isBlockingEdge(edge, "not_started")).toBe(true);
+    expect(isBlockingEdge(edge, "active")).toBe(false);
+  });
+
+  it("maps open successors to their blocking predecessors", () => {
+    const edges = [link("a", "c"), link("b", "c"), link("a", "d")];
+    const categories = new Map<string, StatusCategoryValue>([
+      ["a", "active"],
+      ["b", "done"],
+      ["c", "not_started"],
+      ["d", "done"],
+    ]);
+    const blocked = getBlockedTaskMap(edges, categories);
+    expect(Object.fromEntries(blocked)).toEqual({ c: ["a"] });
+  });
+});
+
+describe("computeCascadeShifts", () => {
+  it("pushes successors later and keeps their duration", () => {
+    const tasks = new Map([
+      ["a", task("a", { startDate: d("2025-01-01"), dueDate: d("2025-01-10") })],
+      ["b", task("b", { startDate: d("2025-01-05"), dueDate: d("2025-01-07") })],
+      ["c", task("c", { startDate: d("2025-01-08"), dueDate: d("2025-01-09") })],
+    ]);
+    const shifts = computeCascadeShifts(tasks, [link("a", "b", 1), link("b", "c")], "a");
+    const byId = Object.fromEntries(shifts.map((s) => [s.taskId, s]));
+
+    expect(byId.b.startDate).toEqual(d("2025-01-11"));
+    expect(byId.b.dueDate).toEqual(d("2025-01-13"));
+    expect(byId.b.shiftDays).toBe(6);
+    expect(byId.c.startDate).toEqual(d("2025-01-13"));
+    expect(byId.c.dueDate).toEqual(d("2025-01-14"));
+  });
+
+  it("never pulls tasks earlier and skips closed successors", () => {
+    const tasks = new Map([
+      ["a", task("a", { dueDate: d("2025-01-10") })],
+      ["b", task("b", { startDate: d("2025-02-01"), dueDate: d("2025-02-02") })],
+      ["c", task("c", { category: "done", startDate: d("2025-01-01"), dueDate: d("2025-01-02") })],
+    ]);
+    expect(computeCascadeShifts(tasks, [link("a", "b"), link("a", "c")], "a")).toEqual([]);
+  });
+});
+
+describe("computeCriticalPath", () => {
+  it("returns the heaviest finish-to-start chain of open tasks", () => {
+    const tasks = [
+      task("a", { estimateMinutes: 60 }),
+      task("b", { estimateMinutes: 120 }),
+      task("c", { estimateMinutes: 30 }),
+      task("d", { estimateMinutes: 240 }),
+      task("e", { estimateMinutes: 600, category: "done" }),
+    ];
+    const edges = [link("a", "b"), link("b", "d"), link("a", "c"), link("e", "a")];
+    expect(computeCriticalPath(tasks, edges)).toEqual({ taskIds: ["a", "b", "d"], totalMinutes: 420 });
+  });
+
+  it("ignores overlapping link types", () => {
+    const tasks = [task("a", { estimateMinutes: 60 }), task("b", { estimateMinutes: 90 })];
+    const edges: DependencyEdge[] = [{ ...link("a", "b"), type: "start_to_start" }];
+    expect(computeCriticalPath(tasks, edges).totalMinutes).toBe(90);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { taskFilterGroupSchema, type TaskFilterGroup } from "@shared/taskFilters";
+import { createSavedViewSchema } from "@shared/schema";
+import { compileTaskFilter, compileTaskSort } from "../features/savedViews/taskFilterCompiler";
+
+const dialect = new PgDialect();
+const ctx = { userId: "user-1", now: new Date("2026-03-10T15:30:00Z") };
+
+function compile(filter: TaskFilterGroup) {
+  const where = compileTaskFilter(filter, ctx);
+  return where ? dialect.sqlToQuery(where) : null;
+}
+
+describe("taskFilterGroupSchema", () => {
+  it("accepts nested groups of well-formed conditions", () => {
+    const result = taskFilterGroupSchema.safeParse({
+      combinator: "and",
+      rules: [
+        { field: "status", op: "in", value: ["todo", "in_progress"] },
+        { combinator: "or", rules: [
+          { field: "dueDate", op: "next_days", value: 7 },
+          { field: "estimateMinutes", op: "between", value: 30, valueTo: 120 },
+        ] },
+      ],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects operators that do not fit the field and missing values", () => {
+    expect(taskFilterGroupSchema.safeParse({ combinator: "and", rules: [{ field: "status", op: "before", value: "2026-01-01" }] }).success).toBe(false);
+    expect(taskFilterGroupSchema.safeParse({ combinator: "and", rules: [{ field: "tag", op: "in", value: [] }] }).success).toBe(false);
+    expect(taskFilterGroupSchema.safeParse({ combinator: "and", rules: [{ field: "dueDate", op: "after", value: "next week" }] }).success).toBe(false);
+  });
+
+  it("caps nesting depth", () => {
+    const deep = { combinator: "and", rules: [{ combinator: "or", rules: [{ combinator: "and", rules: [{ combinator: "or", rules: [] }] }] }] };
+    expect(taskFilterGroupSchema.safeParse(deep).success).toBe(false);
+  });
+
+  it("requires a team for shared views", () => {
+    const base = { name: "Overdue", filter: { combinator: "and", rules: [] } };
+    expect(createSavedViewSchema.safeParse({ ...base, visibility: "team" }).success).toBe(false);
+    expect(createSavedViewSchema.parse(base)).toMatchObject({ visibility: "personal", layout: "list", groupBy: "none", sort: [] });
+  });
+});
+
+describe("compileTaskFilter", () => {
+  it("matches everything when there are no conditions", () => {
+    expect(compile({ combinator: "and", rules: [] })).toBeNull();
+    expect(compile({ combinator: "or", rules: [{ combinator: "and", rules: [] }] })).toBeNull();
+  });
+
+  it("combines groups with AND and OR", () => {
+    const query = compile({
+      combinator: "and",
+      rules: [
+        { field: "priority", op: "in", value: ["high", "urgent"] },
+        { combinator: "or", rules: [
+          { field: "status", op: "not_in", value: ["done"] },
+          { field: "estimateMinutes", op: "is_empty" },
+        ] },
+      ],
+    })!;
+    expect(query.sql).toMatch(/^\("tasks"\."priority" in \(\$1, \$2\) and \("tasks"\."status" not in \(\$3\) or "tasks"\."estimate_minutes" is null\)\)$/);
+    expect(query.params).toEqual(["high", "urgent", "done"]);
+  });
+
+  it("resolves the current user in assignee conditions", () => {
+    const query = compile({ combinator: "and", rules: [{ field: "assignee", op: "in", value: ["me", "user-2", "user-1"] }] })!;
+    expect(query.sql).toContain(`EXISTS (SELECT 1 FROM "task_assignees" WHERE "task_assignees"."task_id" = "tasks"."id" AND "task_assignees"."user_id" IN ($1, $2))`);
+    expect(query.params).toEqual(["user-1", "user-2"]);
+  });
+
+  it("uses whole UTC days for date conditions", () => {
+    const between = compile({ combinator: "and", rules: [{ field: "dueDate", op: "between", value: "2026-03-01", valueTo: "2026-03-31" }] })!;
+    expect(between.params).toEqual(["2026-03-01T00:00:00.000Z", "2026-04-01T00:00:00.000Z"]);
+
+    const next = compile({ combinator: "and", rules: [{ field: "dueDate", op: "next_days", value: 7 }] })!;
+    expect(next.params).toEqual(["2026-03-10T00:00:00.000Z", "2026-03-18T00:00:00.000Z"]);
+  });
+
+  it("escapes LIKE wildcards in text conditions", () => {
+    const query = compile({ combinator: "and", rules: [{ field: "text", op: "not_contains", value: " 100%_done " }] })!;
+    expect(query.sql).toMatch(/^not \(/);
+    expect(query.params).toEqual(["%100\\%\\_done%", "%100\\%\\_done%"]);
+  });
+
+  it("keeps tasks without a client in not_in client conditions", () => {
+    const query = compile({ combinator: "and", rules: [{ field: "client", op: "not_in", value: ["client-1"] }] })!;
+    expect(query.sql).toContain(`IS NULL OR (SELECT "projects"."client_id"`);
+  });
+});
+
+describe("compileTaskSort", () => {
+  it("defaults to due date and always ends with the id", () => {
+    const terms = compileTaskSort([]).map((term) => dialect.sqlToQuery(term).sql);
+    expect(terms).toEqual([`"tasks"."due_date" ASC NULLS LAST`, `"tasks"."created_at" desc`, `"tasks"."id" asc`]);
+  });
+
+  it("ranks statuses by the project's workflow order, then the built-in order", () => {
+    const [status] = compileTaskSort([{ field: "status", direction: "asc" }]).map((term) => dialect.sqlToQuery(term));
+    expect(status.sql).toContain(`SELECT "workflow_statuses"."order_index" FROM "projects"`);
+    expect(status.sql).toContain(`"workflow_statuses"."key" = "tasks"."status"`);
+    expect(status.params).toEqual(["todo", "in_progress", "blocked", "done"]);
+  });
+
+  it("ranks priorities instead of sorting them alphabetically", () => {
+    const [priority] = compileTaskSort([{ field: "priority", direction: "asc" }]).map((term) => dialect.sqlToQuery(term));
+    expect(priority.sql).toMatch(/^CASE "tasks"\."priority"/);
+    expect(priority.params).toEqual(["urgent", "high", "medium", "low"]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  getTaskSpan,
+  getTimelineRange,
+  dayOffset,
+  applyBarDrag,
+  findBudgetExhaustionDate,
+} from "../../client/src/features/projects/timeline-utils";
+
+const local = (y: number, m: number, d: number, h = 0) => new Date(y, m - 1, d, h);
+
+describe("getTaskSpan", () => {
+  it("returns null for unscheduled tasks and a single day for one-sided dates", () => {
+    expect(getTaskSpan({})).toBeNull();
+    expect(getTaskSpan({ dueDate: local(2025, 3, 10, 17) })).toEqual({
+      start: local(2025, 3, 10),
+      end: local(2025, 3, 10),
+    });
+  });
+
+  it("normalizes reversed start/due dates", () => {
+    const span = getTaskSpan({ startDate: local(2025, 3, 12), dueDate: local(2025, 3, 10) });
+    expect(span).toEqual({ start: local(2025, 3, 10), end: local(2025, 3, 12) });
+  });
+});
+
+describe("getTimelineRange", () => {
+  it("covers all spans and today with padding", () => {
+    const today = local(2025, 3, 1, 9);
+    const range = getTimelineRange(
+      [{ start: local(2025, 3, 5), end: local(2025, 3, 20) }],
+      today,
+      2,
+    );
+    expect(range.start).toEqual(local(2025, 2, 27));
+    expect(dayOffset(range, local(2025, 3, 22))).toBe(range.days - 1);
+  });
+});
+
+describe("applyBarDrag", () => {
+  const task = { startDate: local(2025, 3, 3, 9), dueDate: local(2025, 3, 7, 17) };
+
+  it("moves both dates and keeps the time of day", () => {
+    expect(applyBarDrag(task, "move", 2)).toEqual({
+      startDate: local(2025, 3, 5, 9),
+      dueDate: local(2025, 3, 9, 17),
+    });
+  });
+
+  it("clamps resizing so the start never passes the due date", () => {
+    expect(applyBarDrag(task, "resize-start", 10).startDate).toEqual(local(2025, 3, 7));
+    expect(applyBarDrag(task, "resize-end", -10).dueDate).toEqual(task.startDate);
+  });
+
+  it("fills in a missing start date when resizing a due-date-only task", () => {
+    expect(applyBarDrag({ dueDate: local(2025, 3, 7) }, "resize-start", -2)).toEqual({
+      startDate: local(2025, 3, 5),
+      dueDate: local(2025, 3, 7),
+    });
+  });
+});
+
+describe("findBudgetExhaustionDate", () => {
+  const tasks = [
+    { dueDate: local(2025, 3, 10), estimateMinutes: 120 },
+    { dueDate: local(2025, 3, 3), estimateMinutes: 60 },
+    { estimateMinutes: 600 },
+  ];
+
+  it("returns the due date of the task that pushes estimates over budget", () => {
+    expect(findBudgetExhaustionDate(tasks, 150)).toEqual(local(2025, 3, 10));
+  });
+
+  it("returns null when estimates fit or no budget is set", () => {
+    expect(findBudgetExhaustionDate(tasks, 180)).toBeNull();
+    expect(findBudgetExhaustionDate(tasks, null)).toBeNull();
+  });
+});
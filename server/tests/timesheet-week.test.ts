@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { weekStartOf, weekBounds, shiftWeek, dailyTotals } from "../features/timesheets/timesheetWeek";
+import { submitTimesheetSchema, reviewTimesheetSchema } from "@shared/schema";
+
+describe("timesheet weeks", () => {
+  it("maps any instant to the Monday of its UTC week", () => {
+    expect(weekStartOf(new Date("2025-03-10T00:00:00Z"))).toBe("2025-03-10");
+    expect(weekStartOf(new Date("2025-03-12T15:30:00Z"))).toBe("2025-03-10");
+    expect(weekStartOf(new Date("2025-03-16T23:59:59Z"))).toBe("2025-03-10");
+    expect(weekStartOf(new Date("2025-03-17T00:00:00Z"))).toBe("2025-03-17");
+  });
+
+  it("crosses month and year boundaries", () => {
+    expect(weekStartOf(new Date("2025-01-01T12:00:00Z"))).toBe("2024-12-30");
+    expect(shiftWeek("2024-12-30", 1)).toBe("2025-01-06");
+    expect(shiftWeek("2025-03-03", -1)).toBe("2025-02-24");
+  });
+
+  it("bounds a week as [Monday, next Monday)", () => {
+    const { start, end } = weekBounds("2025-03-10");
+    expect(start.toISOString()).toBe("2025-03-10T00:00:00.000Z");
+    expect(end.toISOString()).toBe("2025-03-17T00:00:00.000Z");
+  });
+
+  it("totals seconds per weekday and ignores entries outside the week", () => {
+    const days = dailyTotals("2025-03-10", [
+      { startTime: new Date("2025-03-10T09:00:00Z"), durationSeconds: 3600 },
+      { startTime: new Date("2025-03-10T13:00:00Z"), durationSeconds: 1800 },
+      { startTime: new Date("2025-03-16T22:00:00Z"), durationSeconds: 600 },
+      { startTime: new Date("2025-03-17T00:00:00Z"), durationSeconds: 9999 },
+      { startTime: new Date("2025-03-09T23:00:00Z"), durationSeconds: 9999 },
+    ]);
+    expect(days).toEqual([5400, 0, 0, 0, 0, 0, 600]);
+  });
+});
+
+describe("timesheet schemas", () => {
+  it("only accepts Mondays as the week start", () => {
+    expect(submitTimesheetSchema.safeParse({ weekStart: "2025-03-10" }).success).toBe(true);
+    expect(submitTimesheetSchema.safeParse({ weekStart: "2025-03-11" }).success).toBe(false);
+    expect(submitTimesheetSchema.safeParse({ weekStart: "03/10/2025" }).success).toBe(false);
+  });
+
+  it("requires a comment to reject", () => {
+    expect(reviewTimesheetSchema.safeParse({ status: "approved" }).success).toBe(true);
+    expect(reviewTimesheetSchema.safeParse({ status: "rejected" }).success).toBe(false);
+    expect(reviewTimesheetSchema.safeParse({ status: "rejected", comment: "Missing Friday" }).success).toBe(true);
+    expect(reviewTimesheetSchema.safeParse({ status: "submitted" }).success).toBe(false);
+  });
+});
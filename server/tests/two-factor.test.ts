@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  RECOVERY_CODE_COUNT,
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  totpCode,
+  totpStep,
+  verifyTotp,
+} from "../features/twoFactor/totp";
+import { verifyTwoFactorSchema } from "@shared/schema";
+
+// RFC 6238 appendix B test secret (ASCII "12345678901234567890")
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("totp", () => {
+  it("round-trips base32 and matches the RFC secret encoding", () => {
+    expect(base32Encode(Buffer.from("12345678901234567890"))).toBe(RFC_SECRET);
+    expect(base32Decode(RFC_SECRET).toString()).toBe("12345678901234567890");
+    const secret = generateTotpSecret();
+    expect(base32Encode(base32Decode(secret))).toBe(secret);
+    expect(base32Decode(secret)).toHaveLength(20);
+  });
+
+  it("produces the RFC 6238 SHA-1 codes (last six digits)", () => {
+    expect(totpCode(RFC_SECRET, totpStep(new Date(59 * 1000)))).toBe("287082");
+    expect(totpCode(RFC_SECRET, totpStep(new Date(1111111109 * 1000)))).toBe("081804");
+    expect(totpCode(RFC_SECRET, totpStep(new Date(1234567890 * 1000)))).toBe("005924");
+  });
+
+  it("accepts one step of clock drift and returns the matched step", () => {
+    const now = new Date(1234567890 * 1000);
+    const step = totpStep(now);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step), now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), now)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), now)).toBeNull();
+  });
+
+  it("rejects malformed codes", () => {
+    expect(verifyTotp(RFC_SECRET, "12345", new Date())).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abcdef", new Date())).toBeNull();
+  });
+
+  it("builds an otpauth URI authenticator apps understand", () => {
+    const uri = new URL(buildOtpauthUri("MyWorkDay", "ada@example.com", RFC_SECRET));
+    expect(uri.protocol).toBe("otpauth:");
+    expect(uri.host).toBe("totp");
+    expect(decodeURIComponent(uri.pathname)).toBe("/MyWorkDay:ada@example.com");
+    expect(uri.searchParams.get("secret")).toBe(RFC_SECRET);
+    expect(uri.searchParams.get("issuer")).toBe("MyWorkDay");
+  });
+});
+
+describe("recovery codes", () => {
+  it("generates unique codes in the xxxxx-xxxxx format", () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(new Set(codes).size).toBe(codes.length);
+    for (const code of codes) expect(code).toMatch(/^[a-z2-9]{5}-[a-z2-9]{5}$/);
+  });
+
+  it("hashes case- and separator-insensitively", () => {
+    expect(hashRecoveryCode("abcde-fghij")).toBe(hashRecoveryCode(" ABCDE FGHIJ "));
+    expect(hashRecoveryCode("abcde-fghij")).not.toBe(hashRecoveryCode("abcde-fghik"));
+  });
+});
+
+describe("verifyTwoFactorSchema", () => {
+  it("requires exactly one of code or recoveryCode", () => {
+    expect(verifyTwoFactorSchema.safeParse({ code: "123456" }).success).toBe(true);
+    expect(verifyTwoFactorSchema.safeParse({ recoveryCode: "abcde-fghij", rememberDevice: true }).success).toBe(true);
+    expect(verifyTwoFactorSchema.safeParse({}).success).toBe(false);
+    expect(verifyTwoFactorSchema.safeParse({ code: "123456", recoveryCode: "abcde-fghij" }).success).toBe(false);
+    expect(verifyTwoFactorSchema.safeParse({ code: "12345" }).success).toBe(false);
+  });
+});
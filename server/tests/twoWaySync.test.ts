@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import recorded from "./recorded/asana-sync.json";
+import { AsanaClient } from "../services/asana/asanaClient";
+import { createAsanaSyncAdapter, toAsanaTaskUpdate } from "../features/sync/asanaSyncAdapter";
+import {
+  mergeTaskValues,
+  syncStatusMap,
+  taskSyncValues,
+  taskUpdateFromSync,
+  type SyncTaskValues,
+} from "../features/sync/syncMerge";
+
+type Recording = { status: number; body: unknown };
+
+/** Replays recorded Asana responses, keyed by method, path and the params that select data. */
+function replayAsana() {
+  const recordings = recorded as Record<string, Recording>;
+  const fetchMock = vi.fn(async (input: string, init?: RequestInit) => {
+    const url = new URL(input);
+    url.searchParams.delete("opt_fields");
+    url.searchParams.delete("limit");
+    const query = url.searchParams.toString();
+    const key = `${init?.method ?? "GET"} ${url.pathname.replace("/api/1.0", "")}${query ? `?${decodeURIComponent(query)}` : ""}`;
+    const recording = recordings[key];
+    if (!recording) throw new Error(`No recording for ${key}`);
+    return new Response(JSON.stringify(recording.body), { status: recording.status });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+const base: SyncTaskValues = { title: "Ship v2", description: null, completed: false, dueDate: "2026-03-06" };
+const earlier = new Date("2026-03-01T09:00:00Z");
+const later = new Date("2026-03-01T10:00:00Z");
+
+describe("two-way sync", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("Asana adapter against recorded responses", () => {
+    it("pulls changed tasks across pages and advances the cursor with an overlap", async () => {
+      replayAsana();
+      const adapter = createAsanaSyncAdapter(new AsanaClient("pat"), () => new Date("2026-03-01T10:30:00.000Z"));
+
+      const page = await adapter.listChangedTasks("1205000000000001", "2026-03-01T09:00:00.000Z");
+
+      expect(page.cursor).toBe("2026-03-01T10:29:00.000Z");
+      expect(page.tasks.map((t) => t.remoteId)).toEqual(["1205000000000101", "1205000000000102"]);
+      expect(page.tasks[0]).toEqual({
+        remoteId: "1205000000000101",
+        remoteProjectId: "1205000000000001",
+        remoteSectionId: "1205000000000051",
+        parentRemoteId: null,
+        values: {
+          title: "Write launch announcement",
+          description: "Draft for the blog and newsletter",
+          completed: false,
+          dueDate: "2026-03-06",
+        },
+        modifiedAt: new Date("2026-03-01T09:41:07.502Z"),
+      });
+      expect(page.tasks[1].values).toMatchObject({ description: null, completed: true, dueDate: null });
+    });
+
+    it("pushes only the changed fields in Asana's shape", async () => {
+      const fetchMock = replayAsana();
+      const adapter = createAsanaSyncAdapter(new AsanaClient("pat"));
+
+      const updated = await adapter.updateTask("1205000000000101", { completed: true, dueDate: "2026-03-09" });
+
+      const [, init] = fetchMock.mock.calls[0];
+      expect(init?.method).toBe("PUT");
+      expect(JSON.parse(String(init?.body))).toEqual({ data: { completed: true, due_on: "2026-03-09" } });
+      expect(updated.values).toMatchObject({ completed: true, dueDate: "2026-03-09" });
+      expect(updated.modifiedAt).toEqual(new Date("2026-03-01T10:02:13.391Z"));
+    });
+
+    it("surfaces Asana errors", async () => {
+      replayAsana();
+      const adapter = createAsanaSyncAdapter(new AsanaClient("pat"));
+      await expect(adapter.getTask("1205000000000199")).rejects.toThrow("Asana API error 404");
+    });
+
+    it("clears notes and due dates with Asana's empty values", () => {
+      expect(toAsanaTaskUpdate({ description: null, dueDate: null })).toEqual({ notes: "", due_on: null });
+    });
+  });
+
+  describe("field merge", () => {
+    it("sends one-sided edits to the other side without conflicts", () => {
+      const result = mergeTaskValues({
+        base,
+        local: { ...base, title: "Ship v2 beta" },
+        localModifiedAt: earlier,
+        remote: { ...base, completed: true },
+        remoteModifiedAt: later,
+        rules: {},
+        direction: "both",
+      });
+      expect(result.toRemote).toEqual({ title: "Ship v2 beta" });
+      expect(result.toLocal).toEqual({ completed: true });
+      expect(result.merged).toEqual({ ...base, title: "Ship v2 beta", completed: true });
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it("lets the later writer win a conflict", () => {
+      const input = {
+        base,
+        local: { ...base, dueDate: "2026-03-09" },
+        remote: { ...base, dueDate: "2026-03-12" },
+        rules: {},
+        direction: "both" as const,
+      };
+
+      const remoteNewer = mergeTaskValues({ ...input, localModifiedAt: earlier, remoteModifiedAt: later });
+      expect(remoteNewer.toLocal).toEqual({ dueDate: "2026-03-12" });
+      expect(remoteNewer.conflicts).toEqual([
+        { field: "dueDate", localValue: "2026-03-09", remoteValue: "2026-03-12", winner: "remote" },
+      ]);
+
+      const localNewer = mergeTaskValues({ ...input, localModifiedAt: later, remoteModifiedAt: earlier });
+      expect(localNewer.toRemote).toEqual({ dueDate: "2026-03-09" });
+      expect(localNewer.conflicts[0].winner).toBe("local");
+    });
+
+    it("keeps local-authoritative fields local even when only the remote side changed", () => {
+      const result = mergeTaskValues({
+        base,
+        local: base,
+        localModifiedAt: earlier,
+        remote: { ...base, title: "Renamed in Asana", completed: true },
+        remoteModifiedAt: later,
+        rules: { title: "local_authoritative" },
+        direction: "both",
+      });
+      expect(result.toRemote).toEqual({ title: "Ship v2" });
+      expect(result.toLocal).toEqual({ completed: true });
+    });
+
+    it("treats every difference as a conflict before the first sync", () => {
+      const result = mergeTaskValues({
+        base: null,
+        local: base,
+        localModifiedAt: later,
+        remote: { ...base, description: "From Asana" },
+        remoteModifiedAt: earlier,
+        rules: {},
+        direction: "both",
+      });
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.toRemote).toEqual({ description: null });
+    });
+
+    it("makes one side win every field for one-way directions", () => {
+      const input = {
+        base,
+        local: { ...base, title: "Local title" },
+        localModifiedAt: later,
+        remote: { ...base, completed: true },
+        remoteModifiedAt: earlier,
+        rules: {},
+      };
+      const pull = mergeTaskValues({ ...input, direction: "pull" });
+      expect(pull.toRemote).toEqual({});
+      expect(pull.toLocal).toEqual({ title: "Ship v2", completed: true });
+
+      const push = mergeTaskValues({ ...input, direction: "push" });
+      expect(push.toLocal).toEqual({});
+      expect(push.toRemote).toEqual({ title: "Local title", completed: false });
+    });
+  });
+
+  describe("local task mapping", () => {
+    const builtIn = syncStatusMap(null);
+    const workflowStatus = (key: string, category: string) =>
+      ({ key, name: key, category, requiredFields: [], allowedTransitions: null });
+    const workflow = syncStatusMap([
+      workflowStatus("backlog", "not_started"),
+      workflowStatus("doing", "active"),
+      workflowStatus("shipped", "done"),
+      workflowStatus("dropped", "cancelled"),
+    ]);
+
+    it("reads done tasks as completed and dates as calendar days", () => {
+      expect(taskSyncValues({ title: "A", description: "", status: "done", dueDate: new Date("2026-03-06T00:00:00Z") }, builtIn))
+        .toEqual({ title: "A", description: null, completed: true, dueDate: "2026-03-06" });
+      expect(taskSyncValues({ title: "A", description: null, status: "completed", dueDate: null }, builtIn).completed).toBe(true);
+    });
+
+    it("reads completion from the project's done category", () => {
+      expect(taskSyncValues({ title: "A", description: null, status: "shipped", dueDate: null }, workflow).completed).toBe(true);
+      expect(taskSyncValues({ title: "A", description: null, status: "dropped", dueDate: null }, workflow).completed).toBe(false);
+    });
+
+    it("only moves the status across the done boundary", () => {
+      const now = new Date("2026-03-01T12:00:00Z");
+      expect(taskUpdateFromSync({ status: "in_progress" }, { completed: true }, builtIn, now)).toEqual({ status: "done", completedAt: now });
+      expect(taskUpdateFromSync({ status: "done" }, { completed: false }, builtIn, now)).toEqual({ status: "todo", completedAt: null });
+      expect(taskUpdateFromSync({ status: "in_progress" }, { completed: false }, builtIn, now)).toEqual({});
+      expect(taskUpdateFromSync({ status: "todo" }, { dueDate: "2026-03-09" }, builtIn, now))
+        .toEqual({ dueDate: new Date("2026-03-09T00:00:00.000Z") });
+    });
+
+    it("completes and reopens into the workflow's own statuses", () => {
+      const now = new Date("2026-03-01T12:00:00Z");
+      expect(taskUpdateFromSync({ status: "doing" }, { completed: true }, workflow, now)).toEqual({ status: "shipped", completedAt: now });
+      expect(taskUpdateFromSync({ status: "shipped" }, { completed: false }, workflow, now)).toEqual({ status: "backlog", completedAt: null });
+      expect(taskUpdateFromSync({ status: "shipped" }, { completed: true }, workflow, now)).toEqual({});
+    });
+  });
+});
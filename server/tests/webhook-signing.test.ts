@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from "vitest";
+import { createHmac } from "crypto";
+
+const mocks = vi.hoisted(() => ({ lookup: vi.fn() }));
+
+vi.mock("dns", () => ({ lookup: mocks.lookup }));
+
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  generateWebhookSecret,
+  isAllowedWebhookUrl,
+  publicOnlyLookup,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  webhookRetryDelayMs,
+} from "../features/webhooks/webhookSecurity";
+import { createWebhookEndpointSchema } from "@shared/schema";
+import { WEBHOOK_EVENTS } from "@shared/events";
+
+describe("webhook signing", () => {
+  const secret = generateWebhookSecret();
+  const body = JSON.stringify({ id: "evt_1", type: "task:created", data: { task: { id: "t1" } } });
+
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const header = signWebhookPayload(secret, body, 1_700_000_000);
+    const expected = createHmac("sha256", secret).update(`1700000000.${body}`).digest("hex");
+    expect(header).toBe(`t=1700000000,v1=${expected}`);
+  });
+
+  it("verifies its own signatures within the tolerance window", () => {
+    const header = signWebhookPayload(secret, body, 1_700_000_000);
+    expect(verifyWebhookSignature(secret, body, header, 1_700_000_100)).toBe(true);
+    expect(verifyWebhookSignature(secret, body, header, 1_700_000_000 + 301)).toBe(false);
+  });
+
+  it("rejects tampered bodies, wrong secrets and malformed headers", () => {
+    const header = signWebhookPayload(secret, body, 1_700_000_000);
+    expect(verifyWebhookSignature(secret, `${body} `, header, 1_700_000_000)).toBe(false);
+    expect(verifyWebhookSignature(generateWebhookSecret(), body, header, 1_700_000_000)).toBe(false);
+    expect(verifyWebhookSignature(secret, body, "v1=abc", 1_700_000_000)).toBe(false);
+  });
+
+  it("generates distinct prefixed secrets", () => {
+    expect(secret.startsWith("whsec_")).toBe(true);
+    expect(generateWebhookSecret()).not.toBe(secret);
+  });
+});
+
+describe("webhook retry backoff", () => {
+  it("doubles from one minute and caps at an hour", () => {
+    expect(webhookRetryDelayMs(1)).toBe(60_000);
+    expect(webhookRetryDelayMs(2)).toBe(120_000);
+    expect(webhookRetryDelayMs(4)).toBe(480_000);
+    expect(webhookRetryDelayMs(WEBHOOK_MAX_ATTEMPTS)).toBe(60 * 60_000);
+  });
+});
+
+describe("webhook endpoint URLs", () => {
+  it("accepts public HTTPS hosts", () => {
+    expect(isAllowedWebhookUrl("https://hooks.example.com/myworkday")).toBe(true);
+    expect(isAllowedWebhookUrl("https://93.184.216.34/hook")).toBe(true);
+  });
+
+  it("rejects plain HTTP, internal hosts and private addresses", () => {
+    for (const url of [
+      "http://hooks.example.com",
+      "https://localhost/hook",
+      "https://db.internal/hook",
+      "https://printer.local/hook",
+      "https://127.0.0.1/hook",
+      "https://10.1.2.3/hook",
+      "https://172.20.0.1/hook",
+      "https://192.168.1.10/hook",
+      "https://169.254.169.254/latest/meta-data",
+      "https://[::1]/hook",
+      "https://[fd00::1]/hook",
+      "https://[::ffff:127.0.0.1]/hook",
+      "not a url",
+    ]) {
+      expect(isAllowedWebhookUrl(url), url).toBe(false);
+    }
+  });
+});
+
+describe("publicOnlyLookup", () => {
+  function resolveWith(addresses: Array<{ address: string; family: number }>, all = false) {
+    mocks.lookup.mockImplementation((_host: string, _options: unknown, cb: (err: null, a: typeof addresses) => void) => cb(null, addresses));
+    return new Promise<{ err: Error | null; address: unknown }>((resolve) => {
+      publicOnlyLookup("hooks.example.com", { all }, (err, address) => resolve({ err, address }));
+    });
+  }
+
+  it("passes public addresses through", async () => {
+    expect(await resolveWith([{ address: "93.184.216.34", family: 4 }])).toEqual({ err: null, address: "93.184.216.34" });
+    const all = await resolveWith([{ address: "93.184.216.34", family: 4 }, { address: "2606:2800:220:1::1", family: 6 }], true);
+    expect(all.address).toHaveLength(2);
+  });
+
+  it("fails when any resolved address is private", async () => {
+    for (const address of ["127.0.0.1", "10.0.0.5", "169.254.169.254", "::1", "fe80::1", "::ffff:192.168.0.1"]) {
+      const result = await resolveWith([{ address: "93.184.216.34", family: 4 }, { address, family: address.includes(":") ? 6 : 4 }]);
+      expect(result.err?.message, address).toMatch(/non-public address/);
+    }
+  });
+});
+
+describe("createWebhookEndpointSchema", () => {
+  it("requires HTTPS and at least one known event", () => {
+    expect(createWebhookEndpointSchema.safeParse({
+      url: "https://hooks.example.com",
+      events: [WEBHOOK_EVENTS.TASK_COMPLETED],
+    }).success).toBe(true);
+    expect(createWebhookEndpointSchema.safeParse({ url: "http://hooks.example.com", events: ["task:created"] }).success).toBe(false);
+    expect(createWebhookEndpointSchema.safeParse({ url: "https://hooks.example.com", events: [] }).success).toBe(false);
+    expect(createWebhookEndpointSchema.safeParse({ url: "https://hooks.example.com", events: ["task:exploded"] }).success).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import {
+  builtInStatusFor,
+  checkStatusChange,
+  remapStatus,
+  statusCategory,
+  type TaskFieldFacts,
+  type WorkflowStatusRule,
+} from "../features/workflows/workflowRules";
+import { upsertWorkflowStatusSetSchema } from "@shared/schema";
+
+const STATUSES: WorkflowStatusRule[] = [
+  { key: "backlog", name: "Backlog", category: "not_started", requiredFields: [], allowedTransitions: ["design"] },
+  { key: "design", name: "Design", category: "active", requiredFields: ["assignee"], allowedTransitions: null },
+  { key: "qa", name: "QA", category: "active", requiredFields: ["dueDate", "estimate"], allowedTransitions: null },
+  { key: "shipped", name: "Shipped", category: "done", requiredFields: [], allowedTransitions: null },
+];
+
+const TASK: TaskFieldFacts = { assigneeCount: 1, dueDate: "2026-03-01", estimateMinutes: 60, description: "Brief" };
+
+describe("statusCategory", () => {
+  it("uses the workflow status category, then the built-in mapping", () => {
+    expect(statusCategory("shipped", STATUSES)).toBe("done");
+    expect(statusCategory("backlog", STATUSES)).toBe("not_started");
+    expect(statusCategory("done")).toBe("done");
+    expect(statusCategory("completed")).toBe("done");
+    expect(statusCategory("todo", null)).toBe("not_started");
+    expect(statusCategory("cancelled")).toBe("cancelled");
+    expect(statusCategory("something_else")).toBe("active");
+  });
+});
+
+describe("checkStatusChange", () => {
+  it("enforces allowed transitions", () => {
+    expect(checkStatusChange(STATUSES, "backlog", "design", TASK)).toEqual([]);
+    expect(checkStatusChange(STATUSES, "backlog", "shipped", TASK)).toEqual(["Tasks cannot move from Backlog to Shipped"]);
+    expect(checkStatusChange(STATUSES, "design", "backlog", TASK)).toEqual([]);
+  });
+
+  it("reports missing required fields", () => {
+    expect(checkStatusChange(STATUSES, "design", "qa", { ...TASK, dueDate: null, estimateMinutes: 0 }))
+      .toEqual(["QA requires a due date, an estimate"]);
+    expect(checkStatusChange(STATUSES, "backlog", "design", { ...TASK, assigneeCount: 0 }))
+      .toEqual(["Design requires an assignee"]);
+  });
+
+  it("rejects unknown targets and lets tasks on foreign statuses move anywhere", () => {
+    expect(checkStatusChange(STATUSES, "backlog", "done", TASK)).toEqual([`"done" is not a status in this project's workflow`]);
+    expect(checkStatusChange(STATUSES, "in_progress", "shipped", TASK)).toEqual([]);
+  });
+});
+
+describe("remapStatus / builtInStatusFor", () => {
+  it("keeps matching keys and otherwise maps by category", () => {
+    expect(remapStatus("qa", "active", STATUSES)).toBe("qa");
+    expect(remapStatus("in_review", "active", STATUSES)).toBe("design");
+    expect(remapStatus("done", "done", STATUSES)).toBe("shipped");
+    expect(remapStatus("cancelled", "cancelled", STATUSES)).toBe("backlog");
+  });
+
+  it("falls back to the built-in status of the same category", () => {
+    expect(builtInStatusFor("blocked", "active")).toBe("blocked");
+    expect(builtInStatusFor("shipped", "done")).toBe("done");
+    expect(builtInStatusFor("backlog", "not_started")).toBe("todo");
+    expect(builtInStatusFor("design", "active")).toBe("in_progress");
+  });
+});
+
+describe("upsertWorkflowStatusSetSchema", () => {
+  const status = (key: string, category: string, allowedTransitions: string[] | null = null) =>
+    ({ key, name: key, category, allowedTransitions });
+
+  it("accepts a set with a starting and a done status", () => {
+    const parsed = upsertWorkflowStatusSetSchema.safeParse({
+      name: "Creative",
+      statuses: [status("backlog", "not_started", ["shipped"]), status("shipped", "done")],
+    });
+    expect(parsed.success).toBe(true);
+  });
+
+  it("rejects duplicate keys, unknown transition targets and missing categories", () => {
+    expect(upsertWorkflowStatusSetSchema.safeParse({
+      name: "Dupes",
+      statuses: [status("a", "not_started"), status("a", "done")],
+    }).success).toBe(false);
+    expect(upsertWorkflowStatusSetSchema.safeParse({
+      name: "Dangling",
+      statuses: [status("a", "not_started", ["zzz"]), status("b", "done")],
+    }).success).toBe(false);
+    expect(upsertWorkflowStatusSetSchema.safeParse({
+      name: "No done",
+      statuses: [status("a", "not_started"), status("b", "active")],
+    }).success).toBe(false);
+    expect(upsertWorkflowStatusSetSchema.safeParse({
+      name: "Bad key",
+      statuses: [status("Not A Key", "not_started"), status("b", "done")],
+    }).success).toBe(false);
+  });
+});
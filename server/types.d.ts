@@ -31,6 +31,14 @@ interface ClientAccessContext {
   createdAt: Date;
 }
 
+/**
+ * API token attached by authenticateApiToken when a request carries a bearer token
+ */
+interface ApiTokenContext {
+  id: string;
+  scopes: string[];
+}
+
 declare global {
   namespace Express {
     interface Request {
@@ -51,6 +59,12 @@ declare global {
        * Attached by requireClientAccess middleware.
        */
       clientAccess?: ClientAccessContext;
+
+      /**
+       * Set when the request was authenticated with a personal API token
+       * instead of a session. Attached by authenticateApiToken.
+       */
+      apiToken?: ApiTokenContext;
       
       /**
        * Workspace ID for demo/legacy routes.
@@ -61,4 +75,4 @@ declare global {
   }
 }
 
-export { TenantContext, ClientAccessContext };
+export { TenantContext, ClientAccessContext, ApiTokenContext };
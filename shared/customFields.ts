@@ -0,0 +1,181 @@
+import { CustomFieldType, type CustomFieldTypeValue } from "./schema";
+
+/** Stored value of a custom field: numbers for number/currency, string[] for multi-select, strings otherwise. */
+export type CustomFieldValue = string | number | string[];
+
+/** Custom field values of one entity, keyed by field key. */
+export type CustomFieldValueMap = Record<string, CustomFieldValue>;
+
+/** The parts of a field definition that value handling depends on. */
+export interface CustomFieldSpec {
+  key: string;
+  label: string;
+  fieldType: CustomFieldTypeValue | string;
+  options?: string[] | null;
+  currencyCode?: string | null;
+}
+
+export type NormalizeResult =
+  | { ok: true; value: CustomFieldValue | null }
+  | { ok: false; error: string };
+
+const MAX_TEXT_LENGTH = 2000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function toNumber(raw: unknown): number | null {
+  if (typeof raw === "number") return Number.isFinite(raw) ? raw : null;
+  if (typeof raw !== "string") return null;
+  const cleaned = raw.trim().replace(/[,\s]/g, "").replace(/^[^\d.-]+/, "");
+  if (!cleaned) return null;
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function toDateOnly(raw: unknown): string | null {
+  if (raw instanceof Date) return isNaN(raw.getTime()) ? null : raw.toISOString().slice(0, 10);
+  if (typeof raw !== "string") return null;
+  const trimmed = raw.trim();
+  if (DATE_ONLY.test(trimmed)) return trimmed;
+  const parsed = new Date(trimmed);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString().slice(0, 10);
+}
+
+function isEmpty(raw: unknown): boolean {
+  return raw === null || raw === undefined || (typeof raw === "string" && raw.trim() === "") ||
+    (Array.isArray(raw) && raw.length === 0);
+}
+
+/**
+ * Validates and coerces a raw input (JSON body or CSV cell) into the stored representation
+ * for the field's type. Empty input normalizes to null, which clears the value.
+ */
+export function normalizeCustomFieldValue(field: CustomFieldSpec, raw: unknown): NormalizeResult {
+  if (isEmpty(raw)) return { ok: true, value: null };
+  const options = field.options ?? [];
+
+  switch (field.fieldType) {
+    case CustomFieldType.TEXT: {
+      const text = String(raw).trim();
+      if (text.length > MAX_TEXT_LENGTH) return { ok: false, error: `${field.label} must be at most ${MAX_TEXT_LENGTH} characters` };
+      return { ok: true, value: text };
+    }
+    case CustomFieldType.NUMBER: {
+      const num = toNumber(raw);
+      return num === null ? { ok: false, error: `${field.label} must be a number` } : { ok: true, value: num };
+    }
+    case CustomFieldType.CURRENCY: {
+      const num = toNumber(raw);
+      if (num === null) return { ok: false, error: `${field.label} must be an amount` };
+      return { ok: true, value: Math.round(num * 100) / 100 };
+    }
+    case CustomFieldType.DATE: {
+      const date = toDateOnly(raw);
+      return date === null ? { ok: false, error: `${field.label} must be a date` } : { ok: true, value: date };
+    }
+    case CustomFieldType.URL: {
+      const text = String(raw).trim();
+      try {
+        const url = new URL(text);
+        if (url.protocol !== "http:" && url.protocol !== "https:") throw new Error("protocol");
+        return { ok: true, value: text };
+      } catch {
+        return { ok: false, error: `${field.label} must be an http(s) URL` };
+      }
+    }
+    case CustomFieldType.SELECT: {
+      const choice = String(raw).trim();
+      const match = options.find((o) => o.toLowerCase() === choice.toLowerCase());
+      return match ? { ok: true, value: match } : { ok: false, error: `"${choice}" is not an option of ${field.label}` };
+    }
+    case CustomFieldType.MULTI_SELECT: {
+      const choices = Array.isArray(raw) ? raw.map(String) : String(raw).split(";");
+      const result: string[] = [];
+      for (const choice of choices.map((c) => c.trim()).filter(Boolean)) {
+        const match = options.find((o) => o.toLowerCase() === choice.toLowerCase());
+        if (!match) return { ok: false, error: `"${choice}" is not an option of ${field.label}` };
+        if (!result.includes(match)) result.push(match);
+      }
+      return { ok: true, value: result.length > 0 ? result : null };
+    }
+    case CustomFieldType.USER:
+      return typeof raw === "string" ? { ok: true, value: raw.trim() } : { ok: false, error: `${field.label} must be a user id` };
+    default:
+      return { ok: false, error: `Unsupported field type "${field.fieldType}"` };
+  }
+}
+
+/** Plain-text rendering used for CSV export, search matching and read-only display. */
+export function formatCustomFieldValue(field: CustomFieldSpec, value: CustomFieldValue | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.join("; ");
+  if (field.fieldType === CustomFieldType.CURRENCY && typeof value === "number") {
+    return field.currencyCode ? `${value.toFixed(2)} ${field.currencyCode}` : value.toFixed(2);
+  }
+  return String(value);
+}
+
+function parseRange(filter: string): [string, string] | null {
+  const idx = filter.indexOf("..");
+  return idx === -1 ? null : [filter.slice(0, idx).trim(), filter.slice(idx + 2).trim()];
+}
+
+/**
+ * Whether a stored value satisfies a filter string. Text and URL fields match by substring,
+ * number/currency/date fields accept an exact value or a `min..max` range (either side may be
+ * empty), selects match an option, multi-selects match when any option is present, and
+ * the literal `!` filter matches entities with no value.
+ */
+export function matchesCustomFieldFilter(
+  field: CustomFieldSpec,
+  value: CustomFieldValue | null | undefined,
+  filter: string,
+): boolean {
+  const wanted = filter.trim();
+  if (!wanted) return true;
+  const missing = value === null || value === undefined || (Array.isArray(value) && value.length === 0);
+  if (wanted === "!") return missing;
+  if (missing) return false;
+
+  switch (field.fieldType) {
+    case CustomFieldType.NUMBER:
+    case CustomFieldType.CURRENCY: {
+      const num = typeof value === "number" ? value : toNumber(value);
+      if (num === null) return false;
+      const range = parseRange(wanted);
+      if (!range) return num === toNumber(wanted);
+      const [min, max] = range.map(toNumber);
+      return (min === null || num >= min) && (max === null || num <= max);
+    }
+    case CustomFieldType.DATE: {
+      const date = String(value);
+      const range = parseRange(wanted);
+      if (!range) return date === toDateOnly(wanted);
+      const [from, to] = range.map(toDateOnly);
+      return (from === null || date >= from) && (to === null || date <= to);
+    }
+    case CustomFieldType.SELECT:
+    case CustomFieldType.USER:
+      return String(value).toLowerCase() === wanted.toLowerCase();
+    case CustomFieldType.MULTI_SELECT: {
+      const wantedOptions = wanted.split(";").map((w) => w.trim().toLowerCase()).filter(Boolean);
+      const present = (Array.isArray(value) ? value : [String(value)]).map((v) => v.toLowerCase());
+      return wantedOptions.some((w) => present.includes(w));
+    }
+    default:
+      return formatCustomFieldValue(field, value).toLowerCase().includes(wanted.toLowerCase());
+  }
+}
+
+/** Whether an entity's values satisfy every `{ fieldKey: filter }` entry; unknown keys never match. */
+export function matchesCustomFieldFilters(
+  fields: CustomFieldSpec[],
+  values: CustomFieldValueMap | undefined,
+  filters: Record<string, string>,
+): boolean {
+  for (const [key, filter] of Object.entries(filters)) {
+    if (!filter.trim()) continue;
+    const field = fields.find((f) => f.key === key);
+    if (!field || !matchesCustomFieldFilter(field, values?.[key], filter)) return false;
+  }
+  return true;
+}
@@ -107,6 +107,7 @@ export interface TaskPayload {
   priority: string;
   dueDate: Date | null;
   startDate: Date | null;
+  isMilestone?: boolean;
   projectId: string;
   sectionId: string | null;
   parentTaskId: string | null;
@@ -780,6 +781,21 @@ export interface NotificationDeletedPayload {
   userId: string;
 }
 
+// =============================================================================
+// REMINDER EVENTS
+// =============================================================================
+
+export const REMINDER_EVENTS = {
+  DUE: 'reminder:due',
+} as const;
+
+export interface ReminderDuePayload {
+  reminderId: string;
+  message: string;
+  remindAt: Date;
+  href: string | null;
+}
+
 // =============================================================================
 // ALL EVENTS TYPE (for type-safe event handling)
 // =============================================================================
@@ -848,6 +864,8 @@ export type ServerToClientEvents = {
   [NOTIFICATION_EVENTS.READ]: (payload: NotificationReadPayload) => void;
   [NOTIFICATION_EVENTS.ALL_READ]: (payload: NotificationAllReadPayload) => void;
   [NOTIFICATION_EVENTS.DELETED]: (payload: NotificationDeletedPayload) => void;
+  // Reminder events
+  [REMINDER_EVENTS.DUE]: (payload: ReminderDuePayload) => void;
   // Presence events
   [PRESENCE_EVENTS.UPDATE]: (payload: PresenceUpdatePayload) => void;
   [PRESENCE_EVENTS.BULK_UPDATE]: (payload: PresenceBulkUpdatePayload) => void;
@@ -979,3 +997,37 @@ export interface ClientConversationMergedPayload {
   clientId: string;
   mergedByUserId: string;
 }
+
+// =============================================================================
+// OUTBOUND WEBHOOK EVENTS
+// =============================================================================
+
+/**
+ * Event types tenant admins can subscribe webhook endpoints to. Most reuse the Socket.IO event
+ * names above; `task:completed` and `client:stageChanged` exist only as webhook events.
+ */
+export const WEBHOOK_EVENTS = {
+  PROJECT_CREATED: PROJECT_EVENTS.CREATED,
+  TASK_CREATED: TASK_EVENTS.CREATED,
+  TASK_UPDATED: TASK_EVENTS.UPDATED,
+  TASK_COMPLETED: 'task:completed',
+  TASK_DELETED: TASK_EVENTS.DELETED,
+  CLIENT_CREATED: CLIENT_EVENTS.CREATED,
+  CLIENT_STAGE_CHANGED: 'client:stageChanged',
+  SUPPORT_TICKET_CREATED: SUPPORT_TICKET_EVENTS.CREATED,
+  SUPPORT_TICKET_STATUS_CHANGED: SUPPORT_TICKET_EVENTS.STATUS_CHANGED,
+  TIME_ENTRY_CREATED: TIME_ENTRY_EVENTS.CREATED,
+} as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[keyof typeof WEBHOOK_EVENTS];
+
+export const WEBHOOK_EVENT_TYPES = Object.values(WEBHOOK_EVENTS) as WebhookEventType[];
+
+/** The JSON body POSTed to webhook endpoints. */
+export interface WebhookEventEnvelope<TData = Record<string, unknown>> {
+  id: string;
+  type: WebhookEventType;
+  tenantId: string;
+  createdAt: string;
+  data: TData;
+}
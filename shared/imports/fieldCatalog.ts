@@ -108,6 +108,56 @@ export const ENTITY_FIELD_MAP: Record<EntityType, FieldDefinition[]> = {
   time_entries: TIME_ENTRY_FIELDS,
 };
 
+/** Target-field prefix for columns that map to tenant-defined custom fields, e.g. `custom.campaign_id`. */
+export const CUSTOM_FIELD_KEY_PREFIX = "custom.";
+
+/** Import entity types that support custom fields, with the custom-field entity type they map to. */
+export const CUSTOM_FIELD_ENTITY_TYPES: Partial<Record<EntityType, "task" | "project" | "client">> = {
+  clients: "client",
+  projects: "project",
+  tasks: "task",
+};
+
+export interface CustomFieldCatalogInput {
+  key: string;
+  label: string;
+  fieldType: string;
+  isRequired: boolean;
+  options?: string[] | null;
+  description?: string | null;
+}
+
+const CUSTOM_FIELD_IMPORT_TYPES: Record<string, FieldType> = {
+  number: "number",
+  currency: "number",
+  date: "datetime",
+  select: "enum",
+};
+
+/** Import field definitions for a tenant's custom fields, to be appended to ENTITY_FIELD_MAP entries. */
+export function customFieldsToFieldDefinitions(fields: CustomFieldCatalogInput[]): FieldDefinition[] {
+  return fields.map((field) => ({
+    key: `${CUSTOM_FIELD_KEY_PREFIX}${field.key}`,
+    label: field.label,
+    type: CUSTOM_FIELD_IMPORT_TYPES[field.fieldType] ?? "string",
+    required: field.isRequired,
+    description: field.description ?? undefined,
+    aliases: [field.key, field.label],
+    enumValues: field.fieldType === "select" ? field.options ?? [] : undefined,
+  }));
+}
+
+/** Splits mapped row values into custom-field values keyed by field key. */
+export function extractCustomFieldValues(mapped: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [target, value] of Object.entries(mapped)) {
+    if (target.startsWith(CUSTOM_FIELD_KEY_PREFIX)) {
+      result[target.slice(CUSTOM_FIELD_KEY_PREFIX.length)] = value;
+    }
+  }
+  return result;
+}
+
 export interface ColumnMapping {
   sourceColumn: string;
   targetField: string;
@@ -0,0 +1,115 @@
+/**
+ * Project template content: sections of tasks with relative dates, role placeholders,
+ * subtasks, tags, estimates and default attachments. Stored in project_templates.content,
+ * applied by server/features/templates/templatePlanner.ts.
+ *
+ * Older templates only carry titles, descriptions and subtask titles; every other field
+ * is optional so they still parse.
+ */
+import { z } from "zod";
+
+export const TEMPLATE_TASK_PRIORITIES = ["low", "medium", "high", "urgent"] as const;
+
+/** Day offsets from the project start date; 0 is the start date itself. */
+const dayOffsetSchema = z.number().int().min(-3650).max(3650);
+
+const roleNameSchema = z.string().trim().min(1).max(60);
+
+export const templateAttachmentSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  mimeType: z.string().min(1),
+  sizeBytes: z.number().int().nonnegative(),
+  /** Template-owned copy of the file; applying copies it again for each task. */
+  storageKey: z.string().min(1),
+});
+
+export const templateSubtaskSchema = z.object({
+  title: z.string().trim().min(1).max(500),
+  dueOffsetDays: dayOffsetSchema.optional(),
+  estimateMinutes: z.number().int().positive().optional(),
+  assigneeRole: roleNameSchema.optional(),
+});
+
+export const templateTaskSchema = z.object({
+  title: z.string().trim().min(1).max(500),
+  description: z.string().optional(),
+  priority: z.enum(TEMPLATE_TASK_PRIORITIES).optional(),
+  startOffsetDays: dayOffsetSchema.optional(),
+  dueOffsetDays: dayOffsetSchema.optional(),
+  estimateMinutes: z.number().int().positive().optional(),
+  isMilestone: z.boolean().optional(),
+  assigneeRoles: z.array(roleNameSchema).max(20).optional(),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  // Plain strings are the original subtask format
+  subtasks: z.array(z.union([z.string().trim().min(1), templateSubtaskSchema])).optional(),
+  attachments: z.array(templateAttachmentSchema).max(20).optional(),
+}).refine((task) => (
+  task.startOffsetDays === undefined || task.dueOffsetDays === undefined || task.startOffsetDays <= task.dueOffsetDays
+), {
+  message: "A task cannot start after it is due",
+  path: ["startOffsetDays"],
+});
+
+export const projectTemplateContentSchema = z.object({
+  /** Placeholders such as "Designer" or "PM", mapped to people when the template is applied. */
+  roles: z.array(roleNameSchema).max(30).optional(),
+  sections: z.array(z.object({
+    name: z.string().trim().min(1),
+    tasks: z.array(templateTaskSchema),
+  })),
+});
+
+export type TemplateTaskPriority = typeof TEMPLATE_TASK_PRIORITIES[number];
+export type TemplateAttachment = z.infer<typeof templateAttachmentSchema>;
+export type TemplateSubtask = z.infer<typeof templateSubtaskSchema>;
+export type TemplateTask = z.infer<typeof templateTaskSchema>;
+export type ProjectTemplateContent = z.infer<typeof projectTemplateContentSchema>;
+
+/** Every role a template uses: the declared list plus any referenced only by tasks or subtasks. */
+export function collectTemplateRoles(content: ProjectTemplateContent | null | undefined): string[] {
+  const roles: string[] = [];
+  const add = (role: string | undefined) => {
+    if (role && !roles.includes(role)) roles.push(role);
+  };
+  (content?.roles ?? []).forEach(add);
+  (content?.sections ?? []).forEach((section) => {
+    section.tasks.forEach((task) => {
+      (task.assigneeRoles ?? []).forEach(add);
+      (task.subtasks ?? []).forEach((subtask) => {
+        if (typeof subtask !== "string") add(subtask.assigneeRole);
+      });
+    });
+  });
+  return roles;
+}
+
+/** True when any task or subtask carries a relative date, so applying needs a start date. */
+export function templateUsesDates(content: ProjectTemplateContent | null | undefined): boolean {
+  return (content?.sections ?? []).some((section) => section.tasks.some((task) => (
+    task.startOffsetDays !== undefined ||
+    task.dueOffsetDays !== undefined ||
+    (task.subtasks ?? []).some((subtask) => typeof subtask !== "string" && subtask.dueOffsetDays !== undefined)
+  )));
+}
+
+/** Maps each template role to a user; unmapped roles leave their tasks unassigned. */
+export const applyProjectTemplateSchema = z.object({
+  templateId: z.string().min(1),
+  /** Anchor for relative dates, YYYY-MM-DD. Without it tasks are created undated. */
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").optional(),
+  roleAssignments: z.record(roleNameSchema, z.string().min(1)).optional(),
+});
+
+export const saveProjectAsTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required").max(200),
+  description: z.string().max(2000).optional(),
+  category: z.string().default("general"),
+  /** Dates are stored relative to this day; defaults to the earliest task date in the project. */
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").optional(),
+  /** Maps project members to role names; assignees without a role are dropped from the template. */
+  roles: z.record(z.string().min(1), roleNameSchema).default({}),
+  includeAttachments: z.boolean().default(true),
+});
+
+export type ApplyProjectTemplate = z.infer<typeof applyProjectTemplateSchema>;
+export type SaveProjectAsTemplate = z.input<typeof saveProjectAsTemplateSchema>;
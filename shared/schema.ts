@@ -2,6 +2,17 @@ import { sql, relations } from "drizzle-orm";
 import { pgTable, text, varchar, timestamp, date, integer, boolean, jsonb, uniqueIndex, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { WEBHOOK_EVENT_TYPES } from "./events";
+import {
+  TaskGroupBy,
+  TaskViewLayout,
+  taskFilterGroupSchema,
+  taskSortSchema,
+  type TaskFilterGroup,
+  type TaskGroupByValue,
+  type TaskSort,
+  type TaskViewLayoutValue,
+} from "./taskFilters";
 
 // Enums as const objects
 export const TaskStatus = {
@@ -18,6 +29,48 @@ export const TaskPriority = {
   URGENT: "urgent",
 } as const;
 
+export const TaskDependencyType = {
+  FINISH_TO_START: "finish_to_start",
+  START_TO_START: "start_to_start",
+  FINISH_TO_FINISH: "finish_to_finish",
+  START_TO_FINISH: "start_to_finish",
+} as const;
+
+export type TaskDependencyTypeValue = typeof TaskDependencyType[keyof typeof TaskDependencyType];
+
+// How a recurring series produces its next instance
+export const RecurrenceGenerateMode = {
+  ON_COMPLETION: "on_completion", // next instance is created when the current one is completed
+  ON_SCHEDULE: "on_schedule",     // next instance is created by a background job once the current one comes due
+} as const;
+
+// Scope of an edit made to one instance of a recurring series
+export const RecurrenceEditScope = {
+  THIS: "this",
+  FUTURE: "future",
+} as const;
+
+// Entities that tenant-defined custom fields can be attached to
+export const CustomFieldEntityType = {
+  TASK: "task",
+  PROJECT: "project",
+  CLIENT: "client",
+} as const;
+
+export const CustomFieldType = {
+  TEXT: "text",
+  NUMBER: "number",
+  DATE: "date",
+  SELECT: "select",
+  MULTI_SELECT: "multi_select",
+  USER: "user",
+  URL: "url",
+  CURRENCY: "currency",
+} as const;
+
+export type CustomFieldEntityTypeValue = typeof CustomFieldEntityType[keyof typeof CustomFieldEntityType];
+export type CustomFieldTypeValue = typeof CustomFieldType[keyof typeof CustomFieldType];
+
 export const WorkspaceMemberRole = {
   OWNER: "owner",
   ADMIN: "admin",
@@ -65,6 +118,102 @@ export const TimerStatus = {
   PAUSED: "paused",
 } as const;
 
+// Billing enums
+export const InvoiceStatus = {
+  DRAFT: "draft",
+  ISSUED: "issued",
+  PAID: "paid",
+  VOID: "void",
+} as const;
+
+export type InvoiceStatusValue = (typeof InvoiceStatus)[keyof typeof InvoiceStatus];
+
+export const InvoiceGroupBy = {
+  PROJECT: "project",
+  TASK: "task",
+  USER: "user",
+} as const;
+
+export type InvoiceGroupByValue = (typeof InvoiceGroupBy)[keyof typeof InvoiceGroupBy];
+
+// Timesheet approval status
+export const TimesheetStatus = {
+  DRAFT: "draft",
+  SUBMITTED: "submitted",
+  APPROVED: "approved",
+  REJECTED: "rejected",
+} as const;
+
+export type TimesheetStatusValue = (typeof TimesheetStatus)[keyof typeof TimesheetStatus];
+
+// Resources an API token can be scoped to; each grants `read:<resource>` and/or `write:<resource>`
+export const ApiTokenResource = {
+  TASKS: "tasks",
+  PROJECTS: "projects",
+  CLIENTS: "clients",
+  TIME: "time",
+  COMMENTS: "comments",
+  TAGS: "tags",
+  USERS: "users",
+  BILLING: "billing",
+  REPORTS: "reports",
+} as const;
+
+export type ApiTokenResourceValue = (typeof ApiTokenResource)[keyof typeof ApiTokenResource];
+
+export const API_TOKEN_SCOPES = Object.values(ApiTokenResource).flatMap(
+  (resource) => [`read:${resource}`, `write:${resource}`] as const,
+);
+
+// Outbound webhook delivery status; DEAD deliveries exhausted their retries (the dead-letter list)
+export const WebhookDeliveryStatus = {
+  PENDING: "pending",
+  RETRYING: "retrying",
+  SUCCEEDED: "succeeded",
+  DEAD: "dead",
+} as const;
+
+export type WebhookDeliveryStatusValue = (typeof WebhookDeliveryStatus)[keyof typeof WebhookDeliveryStatus];
+
+// External task trackers a tenant can sync with two ways; only providers with an adapter can be connected
+export const SyncProvider = {
+  ASANA: "asana",
+  JIRA: "jira",
+  TRELLO: "trello",
+  LINEAR: "linear",
+} as const;
+
+export type SyncProviderValue = (typeof SyncProvider)[keyof typeof SyncProvider];
+
+// BOTH reconciles per field rules; PULL makes the remote side win, PUSH makes the local side win
+export const SyncDirection = {
+  BOTH: "both",
+  PULL: "pull",
+  PUSH: "push",
+} as const;
+
+export type SyncDirectionValue = (typeof SyncDirection)[keyof typeof SyncDirection];
+
+// How a synced task field is reconciled when local and remote values differ
+export const SyncFieldRule = {
+  LAST_WRITER_WINS: "last_writer_wins",
+  LOCAL_AUTHORITATIVE: "local_authoritative",
+} as const;
+
+export type SyncFieldRuleValue = (typeof SyncFieldRule)[keyof typeof SyncFieldRule];
+
+export const SYNC_TASK_FIELDS = ["title", "description", "completed", "dueDate"] as const;
+
+export type SyncTaskField = (typeof SYNC_TASK_FIELDS)[number];
+
+export const SyncRunStatus = {
+  RUNNING: "running",
+  SUCCEEDED: "succeeded",
+  FAILED: "failed",
+} as const;
+
+export type SyncRunStatusValue = (typeof SyncRunStatus)[keyof typeof SyncRunStatus];
+
 // User role enum (Admin, Employee, Client, Super User)
 export const UserRole = {
   SUPER_USER: "super_user",
@@ -207,6 +356,8 @@ export const tenantSettings = pgTable("tenant_settings", {
   defaultConversationAssigneeId: varchar("default_conversation_assignee_id").references(() => users.id),
   // AI Chat Assist feature flag (tenant-level toggle)
   aiChatEnabled: boolean("ai_chat_enabled").notNull().default(false),
+  // Require TOTP two-factor authentication for every user in the tenant
+  requireTwoFactor: boolean("require_two_factor").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => [
@@ -290,7 +441,8 @@ export const emailOutbox = pgTable("email_outbox", {
   toEmail: text("to_email").notNull(),
   subject: text("subject").notNull(),
   status: text("status").notNull().default("queued"), // queued, sent, failed
-  providerMessageId: text("provider_message_id"), // Mailgun message ID for tracking
+  transport: text("transport"), // Driver that handled it: mailgun, smtp, ses, postmark, log, file
+  providerMessageId: text("provider_message_id"), // Transport's message ID for tracking
   lastError: text("last_error"), // Error message if failed
   requestId: text("request_id"), // Correlation ID for debugging
   resendCount: integer("resend_count").default(0),
@@ -736,7 +888,7 @@ export type InsertClientStageAutomationEvent = typeof clientStageAutomationEvent
 
 export const ASSET_SOURCE_TYPES = [
   "manual", "task", "subtask", "comment", "message",
-  "support_ticket", "work_order", "chat", "project", "system",
+  "support_ticket", "work_order", "chat", "project", "system", "email",
 ] as const;
 export type AssetSourceType = typeof ASSET_SOURCE_TYPES[number];
 
@@ -829,6 +981,115 @@ export const insertAssetLinkSchema = createInsertSchema(assetLinks).omit({
   createdAt: true,
 });
 
+// =============================================================================
+// ASSET PROOFING (version stack and pinned review comments on deliverables)
+// =============================================================================
+
+export const ASSET_VERSION_STATUSES = ["draft", "in_review", "approved", "changes_requested"] as const;
+export type AssetVersionStatus = typeof ASSET_VERSION_STATUSES[number];
+
+export const assetVersions = pgTable("asset_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id, { onDelete: "cascade" }).notNull(),
+  assetId: varchar("asset_id").references(() => assets.id, { onDelete: "cascade" }).notNull(),
+  versionNumber: integer("version_number").notNull(),
+  r2Key: text("r2_key").notNull(),
+  mimeType: text("mime_type").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  checksum: text("checksum"),
+  note: text("note"),
+  status: text("status").$type<AssetVersionStatus>().notNull().default("draft"),
+  uploadedByUserId: varchar("uploaded_by_user_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("asset_versions_asset_number_idx").on(table.assetId, table.versionNumber),
+  index("asset_versions_tenant_idx").on(table.tenantId),
+]);
+
+/**
+ * Where a proof comment points. Coordinates are fractions of the rendered image or
+ * page (0..1 from the top-left); width/height mark a region instead of a point.
+ * page is 1-based and set only for PDFs.
+ */
+export interface ProofPin {
+  page?: number;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+}
+
+export const proofComments = pgTable("proof_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id, { onDelete: "cascade" }).notNull(),
+  assetId: varchar("asset_id").references(() => assets.id, { onDelete: "cascade" }).notNull(),
+  versionId: varchar("version_id").references(() => assetVersions.id, { onDelete: "cascade" }).notNull(),
+  // Replies point at a top-level comment and carry no pin of their own
+  parentCommentId: varchar("parent_comment_id"),
+  authorUserId: varchar("author_user_id").references(() => users.id, { onDelete: "set null" }),
+  body: text("body").notNull(),
+  pin: jsonb("pin").$type<ProofPin>(),
+  resolvedAt: timestamp("resolved_at"),
+  resolvedByUserId: varchar("resolved_by_user_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("proof_comments_version_created_idx").on(table.versionId, table.createdAt),
+  index("proof_comments_parent_idx").on(table.parentCommentId),
+]);
+
+/** Allowance for rounding when a region is dragged to the very edge. */
+const PIN_EDGE_TOLERANCE = 1e-6;
+
+export const proofPinSchema = z.object({
+  page: z.number().int().min(1).optional(),
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().positive().max(1).optional(),
+  height: z.number().positive().max(1).optional(),
+}).refine((pin) => (pin.width === undefined) === (pin.height === undefined), {
+  message: "A region needs both width and height",
+}).refine((pin) => pin.width === undefined || (
+  pin.x + pin.width <= 1 + PIN_EDGE_TOLERANCE && pin.y + (pin.height ?? 0) <= 1 + PIN_EDGE_TOLERANCE
+), {
+  message: "The region must fit inside the page",
+});
+
+export const createAssetVersionSchema = z.object({
+  r2Key: z.string().min(1),
+  mimeType: z.string().min(1),
+  sizeBytes: z.number().int().positive(),
+  checksum: z.string().optional(),
+  note: z.string().trim().max(1000).optional(),
+});
+
+export const createProofCommentSchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+  pin: proofPinSchema.nullable().optional(),
+  parentCommentId: z.string().min(1).optional(),
+});
+
+export const resolveProofCommentSchema = z.object({
+  resolved: z.boolean(),
+});
+
+export const requestProofApprovalSchema = z.object({
+  // Defaults to the latest version
+  versionId: z.string().min(1).optional(),
+  title: z.string().trim().min(1).max(200).optional(),
+  instructions: z.string().max(5000).optional(),
+  projectId: z.string().uuid().optional(),
+  dueAt: z.string().optional(),
+});
+
+export type AssetVersion = typeof assetVersions.$inferSelect;
+export type InsertAssetVersion = typeof assetVersions.$inferInsert;
+export type ProofComment = typeof proofComments.$inferSelect;
+export type InsertProofComment = typeof proofComments.$inferInsert;
+export type CreateAssetVersion = z.infer<typeof createAssetVersionSchema>;
+export type CreateProofComment = z.infer<typeof createProofCommentSchema>;
+export type RequestProofApproval = z.infer<typeof requestProofApprovalSchema>;
+
 // =============================================================================
 // TENANT DEFAULT DOCUMENTS (Canonical tenant-wide document library)
 // =============================================================================
@@ -1285,6 +1546,8 @@ export const timeEntries = pgTable("time_entries", {
   endTime: timestamp("end_time"),
   durationSeconds: integer("duration_seconds").notNull().default(0),
   isManual: boolean("is_manual").default(false).notNull(),
+  // Set while the entry is billed on a non-void invoice; invoiced entries are locked
+  invoiceId: varchar("invoice_id").references(() => invoices.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => [
@@ -1299,6 +1562,7 @@ export const timeEntries = pgTable("time_entries", {
   index("time_entries_tenant_project_start_idx").on(table.tenantId, table.projectId, table.startTime),
   index("time_entries_tenant_client_idx").on(table.tenantId, table.clientId),
   index("time_entries_tenant_created_at_idx").on(table.tenantId, table.createdAt),
+  index("time_entries_invoice_idx").on(table.invoiceId),
 ]);
 
 /**
@@ -1341,6 +1605,7 @@ export const projects = pgTable("projects", {
   status: text("status").notNull().default("active"),
   color: text("color").default("#3B82F6"),
   budgetMinutes: integer("budget_minutes"), // Optional project budget in minutes for workload forecasting
+  workflowStatusSetId: varchar("workflow_status_set_id").references(() => workflowStatusSets.id, { onDelete: "set null" }), // null = built-in statuses
   stickyAt: timestamp("sticky_at"),
   createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -1386,7 +1651,8 @@ export const projectTemplates = pgTable("project_templates", {
   description: text("description"),
   category: text("category").default("general"), // e.g., 'client_onboarding', 'website_build', 'general'
   isDefault: boolean("is_default").default(false), // Whether this is a default template
-  content: jsonb("content").notNull(), // JSON structure with sections and tasks
+  content: jsonb("content").notNull(), // ProjectTemplateContent: sections, tasks, roles and relative dates
+  workflowStatusSetId: varchar("workflow_status_set_id").references(() => workflowStatusSets.id, { onDelete: "set null" }), // Assigned to projects created from the template
   createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -1421,6 +1687,7 @@ export const tasks = pgTable("tasks", {
   startDate: timestamp("start_date"),
   dueDate: timestamp("due_date"),
   estimateMinutes: integer("estimate_minutes"), // Optional task estimate in minutes for workload forecasting
+  isMilestone: boolean("is_milestone").notNull().default(false), // Rendered as a diamond at dueDate on the project timeline
   isPersonal: boolean("is_personal").notNull().default(false),
   visibility: text("visibility").notNull().default("workspace"),
   createdBy: varchar("created_by").references(() => users.id),
@@ -1428,6 +1695,10 @@ export const tasks = pgTable("tasks", {
   // Personal task organization fields (only used when isPersonal=true)
   personalSectionId: varchar("personal_section_id"),
   personalSortOrder: integer("personal_sort_order"),
+  // Recurring series this task was generated from / belongs to (see taskRecurrences)
+  recurrenceId: varchar("recurrence_id"),
+  // Set when the task enters a done-category status, cleared when it leaves one (see taskStatusHistory)
+  completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   archivedAt: timestamp("archived_at"),
@@ -1449,6 +1720,8 @@ export const tasks = pgTable("tasks", {
   index("tasks_tenant_visibility_idx").on(table.tenantId, table.visibility),
   index("tasks_tenant_archived_idx").on(table.tenantId, table.archivedAt),
   index("tasks_tenant_status_archived_idx").on(table.tenantId, table.status, table.archivedAt),
+  index("tasks_recurrence_idx").on(table.recurrenceId),
+  index("tasks_tenant_completed_idx").on(table.tenantId, table.completedAt),
 ]);
 
 // Task Assignees table (for multiple assignees)
@@ -1510,6 +1783,47 @@ export const projectAccess = pgTable("project_access", {
   index("project_access_tenant_project_idx").on(table.tenantId, table.projectId),
 ]);
 
+// Task Dependencies table — predecessor/successor links between tasks ("blocked by" / "blocking")
+// lagDays shifts the constraint, e.g. finish_to_start with lagDays=2 means the successor
+// may start two days after the predecessor is due.
+export const taskDependencies = pgTable("task_dependencies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(),
+  predecessorTaskId: varchar("predecessor_task_id").references(() => tasks.id, { onDelete: "cascade" }).notNull(),
+  successorTaskId: varchar("successor_task_id").references(() => tasks.id, { onDelete: "cascade" }).notNull(),
+  type: text("type").notNull().default("finish_to_start"),
+  lagDays: integer("lag_days").notNull().default(0),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("task_dependencies_unique").on(table.predecessorTaskId, table.successorTaskId),
+  index("task_dependencies_successor_idx").on(table.successorTaskId),
+  index("task_dependencies_tenant_idx").on(table.tenantId),
+]);
+
+// Task Recurrences table — a repeating series defined by an RFC 5545 RRULE subset
+// (FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY incl. nth weekday, BYMONTHDAY, COUNT, UNTIL).
+// templateTaskId is the latest instance; the next one is copied from it.
+// scheduledJobId is the pending background job for on_schedule series, so stale jobs can be ignored.
+export const taskRecurrences = pgTable("task_recurrences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(),
+  templateTaskId: varchar("template_task_id").references(() => tasks.id, { onDelete: "set null" }),
+  rrule: text("rrule").notNull(),
+  dtstart: timestamp("dtstart").notNull(),
+  generateMode: text("generate_mode").notNull().default("on_completion"),
+  occurrenceCount: integer("occurrence_count").notNull().default(1),
+  nextOccurrenceAt: timestamp("next_occurrence_at"),
+  scheduledJobId: varchar("scheduled_job_id"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("task_recurrences_tenant_idx").on(table.tenantId),
+  index("task_recurrences_template_idx").on(table.templateTaskId),
+]);
+
 // Personal Task Sections table - user-defined sections for organizing personal tasks in My Tasks view
 export const personalTaskSections = pgTable("personal_task_sections", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1885,6 +2199,8 @@ export const systemSettings = pgTable("system_settings", {
   aiMaxTokens: integer("ai_max_tokens").default(2000),
   aiTemperature: text("ai_temperature").default("0.7"), // Stored as text for precision
   aiLastTestedAt: timestamp("ai_last_tested_at"),
+  // Require TOTP two-factor authentication for every user on the platform
+  requireTwoFactor: boolean("require_two_factor").default(false),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -2747,6 +3063,8 @@ export const insertTaskSchema = createInsertSchema(tasks).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  recurrenceId: true,
+  completedAt: true,
 }).extend({
   // Override date fields to accept ISO strings from JSON
   startDate: coercedDate,
@@ -2773,6 +3091,25 @@ export const insertProjectAccessSchema = createInsertSchema(projectAccess).omit(
   createdAt: true,
 });
 
+export const insertTaskDependencySchema = createInsertSchema(taskDependencies).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  type: z.enum([
+    TaskDependencyType.FINISH_TO_START,
+    TaskDependencyType.START_TO_START,
+    TaskDependencyType.FINISH_TO_FINISH,
+    TaskDependencyType.START_TO_FINISH,
+  ]).default(TaskDependencyType.FINISH_TO_START),
+  lagDays: z.number().int().min(-365).max(365).default(0),
+});
+
+export const insertTaskRecurrenceSchema = createInsertSchema(taskRecurrences).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertPersonalTaskSectionSchema = createInsertSchema(personalTaskSections).omit({
   id: true,
   createdAt: true,
@@ -2998,6 +3335,7 @@ export const updateSystemSettingsSchema = z.object({
   platformVersion: z.string().optional(),
   maintenanceMode: z.boolean().optional(),
   maintenanceMessage: z.string().nullable().optional(),
+  requireTwoFactor: z.boolean().optional(),
 });
 
 export const insertCommentMentionSchema = createInsertSchema(commentMentions).omit({
@@ -3132,17 +3470,8 @@ export type InsertProjectMember = z.infer<typeof insertProjectMemberSchema>;
 export type ProjectTemplate = typeof projectTemplates.$inferSelect;
 export type InsertProjectTemplate = z.infer<typeof insertProjectTemplateSchema>;
 
-// Template content structure type
-export interface ProjectTemplateContent {
-  sections: Array<{
-    name: string;
-    tasks: Array<{
-      title: string;
-      description?: string;
-      subtasks?: string[];
-    }>;
-  }>;
-}
+// Template content structure type (schema and helpers live in ./projectTemplates)
+export type { ProjectTemplateContent } from "./projectTemplates";
 
 export type HiddenProject = typeof hiddenProjects.$inferSelect;
 
@@ -3164,6 +3493,12 @@ export type InsertTaskAccess = z.infer<typeof insertTaskAccessSchema>;
 export type ProjectAccess = typeof projectAccess.$inferSelect;
 export type InsertProjectAccess = z.infer<typeof insertProjectAccessSchema>;
 
+export type TaskDependency = typeof taskDependencies.$inferSelect;
+export type InsertTaskDependency = z.infer<typeof insertTaskDependencySchema>;
+
+export type TaskRecurrence = typeof taskRecurrences.$inferSelect;
+export type InsertTaskRecurrence = z.infer<typeof insertTaskRecurrenceSchema>;
+
 export type PersonalTaskSection = typeof personalTaskSections.$inferSelect;
 export type InsertPersonalTaskSection = z.infer<typeof insertPersonalTaskSectionSchema>;
 
@@ -3440,7 +3775,8 @@ export interface ChatExportOutputLocation {
 
 export const updateWorkspaceSchema = insertWorkspaceSchema.partial();
 export const updateTeamSchema = insertTeamSchema.partial();
-export const updateProjectSchema = insertProjectSchema.partial().extend({
+// Workflow changes go through PUT /projects/:id/workflow, which also remaps task statuses
+export const updateProjectSchema = insertProjectSchema.omit({ workflowStatusSetId: true }).partial().extend({
   stickyAt: z.union([z.string().datetime(), z.null()]).optional().transform((val) => {
     if (val === null || val === undefined) return val;
     return new Date(val);
@@ -3487,6 +3823,20 @@ export const addAssigneeSchema = z.object({
   userId: z.string().min(1),
 });
 
+export const addTaskDependencySchema = insertTaskDependencySchema.pick({
+  predecessorTaskId: true,
+  type: true,
+  lagDays: true,
+});
+
+export const setTaskRecurrenceSchema = z.object({
+  rrule: z.string().min(1).max(500),
+  generateMode: z.enum([
+    RecurrenceGenerateMode.ON_COMPLETION,
+    RecurrenceGenerateMode.ON_SCHEDULE,
+  ]).default(RecurrenceGenerateMode.ON_COMPLETION),
+});
+
 export const addTagToTaskSchema = z.object({
   tagId: z.string().uuid(),
 });
@@ -3586,10 +3936,14 @@ export const approvalRequests = pgTable("approval_requests", {
   respondedByName: text("responded_by_name"),
   respondedAt: timestamp("responded_at"),
   dueAt: timestamp("due_at"),
+  // Set when the request asks the client to sign off a specific asset version (proofing)
+  assetId: varchar("asset_id").references(() => assets.id, { onDelete: "set null" }),
+  assetVersionId: varchar("asset_version_id").references(() => assetVersions.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => [
   index("approval_requests_tenant_idx").on(table.tenantId),
+  index("approval_requests_asset_idx").on(table.assetId),
   index("approval_requests_client_idx").on(table.clientId),
   index("approval_requests_status_idx").on(table.status),
 ]);
@@ -3795,6 +4149,7 @@ export const backgroundJobs = pgTable("background_jobs", {
   progress: jsonb("progress"),
   attempts: integer("attempts").notNull().default(0),
   maxAttempts: integer("max_attempts").notNull().default(1),
+  runAfter: timestamp("run_after"), // delayed jobs are not claimed before this time
   lockedAt: timestamp("locked_at"),
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
@@ -3862,11 +4217,14 @@ export const SupportTicketCategory = {
 export const SupportTicketSource = {
   PORTAL: "portal",
   TENANT: "tenant",
+  EMAIL: "email",
 } as const;
 
 export const SupportTicketAuthorType = {
   TENANT_USER: "tenant_user",
   PORTAL_USER: "portal_user",
+  /** A client contact without a portal account, writing by email; see authorEmail. */
+  CONTACT: "contact",
   SYSTEM: "system",
 } as const;
 
@@ -3938,6 +4296,7 @@ export const supportTicketMessages = pgTable("support_ticket_messages", {
   authorType: text("author_type").notNull().default("tenant_user"),
   authorUserId: varchar("author_user_id").references(() => users.id),
   authorPortalUserId: varchar("author_portal_user_id").references(() => users.id),
+  authorEmail: text("author_email"),
   bodyText: text("body_text").notNull(),
   visibility: text("visibility").notNull().default("public"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -4244,6 +4603,8 @@ export const dataRetentionPolicies = pgTable("data_retention_policies", {
   retentionDays: integer("retention_days").notNull().default(365),
   isEnabled: boolean("is_enabled").notNull().default(false),
   archiveMode: text("archive_mode").notNull().default("soft"),
+  // Hard mode only: days a soft-archived record stays restorable before it is purged
+  restoreWindowDays: integer("restore_window_days").notNull().default(30),
   createdByUserId: varchar("created_by_user_id").references(() => users.id),
   updatedByUserId: varchar("updated_by_user_id").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -4261,6 +4622,65 @@ export const insertDataRetentionPolicySchema = createInsertSchema(dataRetentionP
 export type InsertDataRetentionPolicy = z.infer<typeof insertDataRetentionPolicySchema>;
 export type DataRetentionPolicy = typeof dataRetentionPolicies.$inferSelect;
 
+export const RETENTION_ENTITY_TYPES = [
+  "tasks",
+  "chat_messages",
+  "comments",
+  "activity_log",
+  "time_entries",
+  "client_messages",
+  "support_tickets",
+  "email_outbox",
+  "error_logs",
+  "assets",
+] as const;
+export type RetentionEntityType = typeof RETENTION_ENTITY_TYPES[number];
+
+// Only these tables carry an archived_at column; every other type can only be purged
+export const RETENTION_SOFT_ARCHIVE_TYPES: readonly RetentionEntityType[] = ["tasks", "chat_messages"];
+
+export const RetentionArchiveMode = {
+  SOFT: "soft",
+  HARD: "hard",
+} as const;
+
+export const upsertDataRetentionPolicySchema = z.object({
+  entityType: z.enum(RETENTION_ENTITY_TYPES),
+  isEnabled: z.boolean(),
+  retentionDays: z.number().int().min(1),
+  archiveMode: z.enum([RetentionArchiveMode.SOFT, RetentionArchiveMode.HARD]).default(RetentionArchiveMode.SOFT),
+  restoreWindowDays: z.number().int().min(0).max(3650).default(30),
+}).refine(
+  (policy) => policy.archiveMode === RetentionArchiveMode.HARD || RETENTION_SOFT_ARCHIVE_TYPES.includes(policy.entityType),
+  { message: "This entity type can only be purged (archiveMode \"hard\")", path: ["archiveMode"] },
+);
+export type UpsertDataRetentionPolicy = z.infer<typeof upsertDataRetentionPolicySchema>;
+
+/**
+ * Legal holds — while a hold on a client is active, no record linked to that client is purged.
+ * Soft archiving still runs, since it can be undone.
+ */
+export const retentionLegalHolds = pgTable("retention_legal_holds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  clientId: varchar("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  reason: text("reason").notNull(),
+  placedByUserId: varchar("placed_by_user_id").references(() => users.id, { onDelete: "set null" }),
+  placedAt: timestamp("placed_at").defaultNow().notNull(),
+  releasedAt: timestamp("released_at"),
+  releasedByUserId: varchar("released_by_user_id").references(() => users.id, { onDelete: "set null" }),
+}, (table) => [
+  index("retention_legal_holds_tenant_client_idx").on(table.tenantId, table.clientId),
+]);
+
+export const createLegalHoldSchema = z.object({
+  clientId: z.string().min(1),
+  reason: z.string().trim().min(1).max(2000),
+});
+
+export type RetentionLegalHold = typeof retentionLegalHolds.$inferSelect;
+export type CreateLegalHold = z.infer<typeof createLegalHoldSchema>;
+
 // ============================================================
 // AI SUMMARIES — cached AI-generated content per entity
 // ============================================================
@@ -4289,3 +4709,1257 @@ export const aiSummaries = pgTable("ai_summaries", {
 ]);
 
 export type AiSummary = typeof aiSummaries.$inferSelect;
+
+// ============================================================
+// AI USAGE — one row per model call, for per-tenant token metering
+// ============================================================
+
+export const aiUsageEvents = pgTable("ai_usage_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  feature: text("feature").notNull(),
+  driver: text("driver").notNull(),
+  model: text("model").notNull(),
+  /** Where the provider config came from: tenant, system, system_settings or environment. */
+  source: text("source").notNull(),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  succeeded: boolean("succeeded").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("ai_usage_events_tenant_created_idx").on(table.tenantId, table.createdAt),
+]);
+
+export type AiUsageEvent = typeof aiUsageEvents.$inferSelect;
+
+// ============================================================
+// CUSTOM FIELDS — tenant-defined typed fields on tasks, projects and clients
+// ============================================================
+
+export const customFieldDefinitions = pgTable("custom_field_definitions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  entityType: text("entity_type").notNull(),
+  key: text("key").notNull(),
+  label: text("label").notNull(),
+  fieldType: text("field_type").notNull(),
+  description: text("description"),
+  options: jsonb("options").$type<string[]>().notNull().default([]),
+  currencyCode: text("currency_code"),
+  isRequired: boolean("is_required").notNull().default(false),
+  orderIndex: integer("order_index").notNull().default(0),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("custom_field_definitions_tenant_entity_key_idx").on(table.tenantId, table.entityType, table.key),
+  index("custom_field_definitions_tenant_entity_idx").on(table.tenantId, table.entityType),
+]);
+
+export const customFieldValues = pgTable("custom_field_values", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  fieldId: varchar("field_id").notNull().references(() => customFieldDefinitions.id, { onDelete: "cascade" }),
+  entityType: text("entity_type").notNull(),
+  entityId: varchar("entity_id").notNull(),
+  value: jsonb("value").notNull(),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("custom_field_values_field_entity_idx").on(table.fieldId, table.entityId),
+  index("custom_field_values_entity_idx").on(table.tenantId, table.entityType, table.entityId),
+]);
+
+const customFieldKeySchema = z.string().min(1).max(64).regex(/^[a-z][a-z0-9_]*$/, "Key must be lowercase letters, digits and underscores");
+
+export const insertCustomFieldDefinitionSchema = createInsertSchema(customFieldDefinitions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  entityType: z.enum([CustomFieldEntityType.TASK, CustomFieldEntityType.PROJECT, CustomFieldEntityType.CLIENT]),
+  key: customFieldKeySchema,
+  label: z.string().min(1).max(100),
+  fieldType: z.enum([
+    CustomFieldType.TEXT,
+    CustomFieldType.NUMBER,
+    CustomFieldType.DATE,
+    CustomFieldType.SELECT,
+    CustomFieldType.MULTI_SELECT,
+    CustomFieldType.USER,
+    CustomFieldType.URL,
+    CustomFieldType.CURRENCY,
+  ]),
+  options: z.array(z.string().trim().min(1).max(100)).max(100).optional(),
+  currencyCode: z.string().length(3).toUpperCase().nullable().optional(),
+});
+
+export const createCustomFieldDefinitionSchema = insertCustomFieldDefinitionSchema.omit({
+  tenantId: true,
+  createdBy: true,
+});
+
+// Entity type, key and field type are fixed once values may exist
+export const updateCustomFieldDefinitionSchema = createCustomFieldDefinitionSchema.omit({
+  entityType: true,
+  key: true,
+  fieldType: true,
+}).partial();
+
+export const setCustomFieldValuesSchema = z.object({
+  values: z.record(z.string(), z.unknown()),
+});
+
+export type InsertCustomFieldDefinition = z.infer<typeof insertCustomFieldDefinitionSchema>;
+export type CustomFieldDefinition = typeof customFieldDefinitions.$inferSelect;
+export type CustomFieldValueRow = typeof customFieldValues.$inferSelect;
+
+// ============================================================
+// BILLING — rate cards and invoices built from time entries
+// ============================================================
+
+/**
+ * Hourly rate card. Each of userId / role / projectId / clientId narrows where the rate applies;
+ * a card with none set is the tenant default. The most specific matching card wins.
+ */
+export const billingRates = pgTable("billing_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  role: text("role"),
+  projectId: varchar("project_id").references(() => projects.id, { onDelete: "cascade" }),
+  clientId: varchar("client_id").references(() => clients.id, { onDelete: "cascade" }),
+  rateCents: integer("rate_cents").notNull(),
+  currency: text("currency").notNull().default("USD"),
+  effectiveFrom: date("effective_from").notNull(),
+  effectiveTo: date("effective_to"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("billing_rates_tenant_idx").on(table.tenantId),
+  index("billing_rates_tenant_client_idx").on(table.tenantId, table.clientId),
+]);
+
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  clientId: varchar("client_id").notNull().references(() => clients.id),
+  number: text("number").notNull(),
+  status: text("status").notNull().default(InvoiceStatus.DRAFT),
+  groupBy: text("group_by").notNull().default(InvoiceGroupBy.PROJECT),
+  periodStart: date("period_start").notNull(),
+  periodEnd: date("period_end").notNull(),
+  currency: text("currency").notNull().default("USD"),
+  totalSeconds: integer("total_seconds").notNull().default(0),
+  subtotalCents: integer("subtotal_cents").notNull().default(0),
+  notes: text("notes"),
+  dueDate: date("due_date"),
+  issuedAt: timestamp("issued_at"),
+  paidAt: timestamp("paid_at"),
+  voidedAt: timestamp("voided_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("invoices_tenant_number_idx").on(table.tenantId, table.number),
+  index("invoices_tenant_client_idx").on(table.tenantId, table.clientId),
+  index("invoices_tenant_status_idx").on(table.tenantId, table.status),
+]);
+
+export const invoiceLines = pgTable("invoice_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  invoiceId: varchar("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  groupKey: varchar("group_key"),
+  description: text("description").notNull(),
+  quantitySeconds: integer("quantity_seconds").notNull(),
+  rateCents: integer("rate_cents").notNull(),
+  amountCents: integer("amount_cents").notNull(),
+  orderIndex: integer("order_index").notNull().default(0),
+}, (table) => [
+  index("invoice_lines_invoice_idx").on(table.invoiceId),
+]);
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+export const insertBillingRateSchema = createInsertSchema(billingRates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  role: z.enum([UserRole.ADMIN, UserRole.EMPLOYEE]).nullable().optional(),
+  rateCents: z.number().int().min(0),
+  currency: z.string().length(3).toUpperCase().optional(),
+  effectiveFrom: isoDateSchema,
+  effectiveTo: isoDateSchema.nullable().optional(),
+});
+
+export const createBillingRateSchema = insertBillingRateSchema.omit({
+  tenantId: true,
+  createdBy: true,
+}).refine(
+  (rate) => !rate.effectiveTo || rate.effectiveTo >= rate.effectiveFrom,
+  { message: "effectiveTo must not be before effectiveFrom", path: ["effectiveTo"] },
+);
+
+export const updateBillingRateSchema = z.object({
+  rateCents: z.number().int().min(0).optional(),
+  currency: z.string().length(3).toUpperCase().optional(),
+  effectiveFrom: isoDateSchema.optional(),
+  effectiveTo: isoDateSchema.nullable().optional(),
+});
+
+export const generateInvoiceSchema = z.object({
+  clientId: z.string().min(1),
+  periodStart: isoDateSchema,
+  periodEnd: isoDateSchema,
+  groupBy: z.enum([InvoiceGroupBy.PROJECT, InvoiceGroupBy.TASK, InvoiceGroupBy.USER]).default(InvoiceGroupBy.PROJECT),
+  notes: z.string().max(5000).nullable().optional(),
+  dueDate: isoDateSchema.nullable().optional(),
+}).refine((input) => input.periodEnd >= input.periodStart, {
+  message: "periodEnd must not be before periodStart",
+  path: ["periodEnd"],
+});
+
+export const updateInvoiceSchema = z.object({
+  status: z.enum([InvoiceStatus.ISSUED, InvoiceStatus.PAID, InvoiceStatus.VOID]).optional(),
+  notes: z.string().max(5000).nullable().optional(),
+  dueDate: isoDateSchema.nullable().optional(),
+});
+
+export type InsertBillingRate = z.infer<typeof insertBillingRateSchema>;
+export type BillingRate = typeof billingRates.$inferSelect;
+export type Invoice = typeof invoices.$inferSelect;
+export type InvoiceLine = typeof invoiceLines.$inferSelect;
+export type InvoiceWithLines = Invoice & { lines: InvoiceLine[] };
+
+// ============================================================
+// TIMESHEETS — weekly submission and approval of time entries
+// ============================================================
+
+/**
+ * One row per user per week (weekStart is the Monday, UTC). A missing row is an unsubmitted
+ * draft. While approved, the user's entries starting in that week cannot be changed.
+ */
+export const timesheets = pgTable("timesheets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  weekStart: date("week_start").notNull(),
+  status: text("status").notNull().default(TimesheetStatus.DRAFT),
+  totalSeconds: integer("total_seconds").notNull().default(0),
+  submittedAt: timestamp("submitted_at"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewComment: text("review_comment"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("timesheets_tenant_user_week_idx").on(table.tenantId, table.userId, table.weekStart),
+  index("timesheets_tenant_status_idx").on(table.tenantId, table.status),
+]);
+
+const weekStartSchema = isoDateSchema.refine(
+  (value) => new Date(`${value}T00:00:00.000Z`).getUTCDay() === 1,
+  "weekStart must be a Monday",
+);
+
+export const submitTimesheetSchema = z.object({
+  weekStart: weekStartSchema,
+});
+
+export const reviewTimesheetSchema = z.object({
+  status: z.enum([TimesheetStatus.APPROVED, TimesheetStatus.REJECTED]),
+  comment: z.string().trim().max(2000).nullable().optional(),
+}).refine(
+  (review) => review.status !== TimesheetStatus.REJECTED || !!review.comment,
+  { message: "A comment is required when rejecting a timesheet", path: ["comment"] },
+);
+
+export const timesheetRemindersSchema = z.object({
+  weekStart: weekStartSchema,
+  userIds: z.array(z.string()).optional(),
+});
+
+export type Timesheet = typeof timesheets.$inferSelect;
+
+
+// ============================================================
+// API TOKENS — personal bearer tokens for scripts and integrations
+// ============================================================
+
+/**
+ * A user's personal API token, valid only in its tenant. Only the SHA-256 hash of the secret is
+ * stored; `tokenPrefix` is kept so users can tell their tokens apart.
+ */
+export const apiTokens = pgTable("api_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenPrefix: text("token_prefix").notNull(),
+  tokenHash: text("token_hash").notNull(),
+  scopes: jsonb("scopes").$type<string[]>().notNull().default([]),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("api_tokens_token_hash_idx").on(table.tokenHash),
+  index("api_tokens_tenant_user_idx").on(table.tenantId, table.userId),
+]);
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES as [string, ...string[]])).min(1),
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+});
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type PublicApiToken = Omit<ApiToken, "tokenHash">;
+
+
+// ============================================================
+// OUTBOUND WEBHOOKS — signed event delivery to tenant endpoints
+// ============================================================
+
+/**
+ * A tenant's HTTPS endpoint subscribed to webhook event types. The HMAC signing secret is stored
+ * encrypted and only returned in plaintext when it is created or rotated.
+ */
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  url: text("url").notNull(),
+  description: text("description"),
+  events: jsonb("events").$type<string[]>().notNull().default([]),
+  secretEncrypted: text("secret_encrypted").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdByUserId: varchar("created_by_user_id").notNull().references(() => users.id),
+  lastSuccessAt: timestamp("last_success_at"),
+  lastFailureAt: timestamp("last_failure_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("webhook_endpoints_tenant_idx").on(table.tenantId),
+]);
+
+/**
+ * One event sent to one endpoint. Retries update the row in place; a manual redelivery creates a
+ * new row pointing at the original through `redeliveryOf`.
+ */
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  endpointId: varchar("endpoint_id").notNull().references(() => webhookEndpoints.id, { onDelete: "cascade" }),
+  eventId: varchar("event_id").notNull(),
+  eventType: text("event_type").notNull(),
+  payload: jsonb("payload").notNull(),
+  status: text("status").notNull().default(WebhookDeliveryStatus.PENDING),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull(),
+  lastStatusCode: integer("last_status_code"),
+  lastError: text("last_error"),
+  lastResponseBody: text("last_response_body"),
+  lastDurationMs: integer("last_duration_ms"),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  deliveredAt: timestamp("delivered_at"),
+  redeliveryOf: varchar("redelivery_of"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("webhook_deliveries_endpoint_created_idx").on(table.endpointId, table.createdAt),
+  index("webhook_deliveries_tenant_status_idx").on(table.tenantId, table.status),
+]);
+
+const webhookEventTypeSchema = z.enum(WEBHOOK_EVENT_TYPES as [string, ...string[]]);
+
+export const webhookUrlSchema = z.string().trim().url().max(2000).refine(
+  (value) => value.startsWith("https://"),
+  "Webhook URLs must use HTTPS",
+);
+
+export const createWebhookEndpointSchema = z.object({
+  url: webhookUrlSchema,
+  description: z.string().trim().max(500).nullable().optional(),
+  events: z.array(webhookEventTypeSchema).min(1),
+  isActive: z.boolean().optional(),
+});
+
+export const updateWebhookEndpointSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+  events: z.array(webhookEventTypeSchema).min(1).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type PublicWebhookEndpoint = Omit<WebhookEndpoint, "secretEncrypted">;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+// ============================================================
+// TWO-FACTOR AUTHENTICATION — TOTP enrollment, recovery codes, remembered devices
+// ============================================================
+
+/**
+ * A user's TOTP enrollment, kept out of `users` so the secret never reaches req.user. A row with
+ * a null `enabledAt` is an enrollment that was started but not yet confirmed with a code.
+ */
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secretEncrypted: text("secret_encrypted").notNull(),
+  enabledAt: timestamp("enabled_at"),
+  recoveryCodeHashes: jsonb("recovery_code_hashes").$type<string[]>().notNull().default([]),
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+/** Browsers that skip the TOTP prompt until `expiresAt`. Only the token hash is stored. */
+export const trustedDevices = pgTable("trusted_devices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull(),
+  label: text("label"),
+  ipAddress: text("ip_address"),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("trusted_devices_token_hash_idx").on(table.tokenHash),
+  index("trusted_devices_user_idx").on(table.userId),
+]);
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app"),
+});
+
+export const verifyTwoFactorSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/).optional(),
+  recoveryCode: z.string().trim().min(8).max(20).optional(),
+  rememberDevice: z.boolean().optional(),
+}).refine((value) => !!value.code !== !!value.recoveryCode, {
+  message: "Provide either an authenticator code or a recovery code",
+});
+
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type TrustedDevice = typeof trustedDevices.$inferSelect;
+export type PublicTrustedDevice = Omit<TrustedDevice, "tokenHash">;
+
+// ============================================================
+// SINGLE SIGN-ON — per-tenant OIDC / SAML identity providers
+// ============================================================
+
+export const SsoProtocol = {
+  OIDC: "oidc",
+  SAML: "saml",
+} as const;
+
+export type SsoProtocolType = typeof SsoProtocol[keyof typeof SsoProtocol];
+
+/**
+ * Links an IdP subject (OIDC `sub` or SAML NameID) to a user. Lookups go by (issuer, subject)
+ * first so a later change of email at the IdP still signs in the same account.
+ */
+export const userSsoIdentities = pgTable("user_sso_identities", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  protocol: text("protocol").notNull(),
+  issuer: text("issuer").notNull(),
+  subject: text("subject").notNull(),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("user_sso_identities_issuer_subject_idx").on(table.issuer, table.subject),
+  index("user_sso_identities_user_idx").on(table.userId),
+]);
+
+/**
+ * SAML RelayState nonces already used at the ACS. Responses are not matched to request ids,
+ * so consuming the nonce is what stops a captured response from being posted twice.
+ */
+export const ssoRelayStates = pgTable("sso_relay_states", {
+  nonce: varchar("nonce").primaryKey(),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  /** The AuthnRequest ID the IdP's response must answer (InResponseTo). */
+  requestId: varchar("request_id").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("sso_relay_states_expires_idx").on(table.expiresAt),
+]);
+
+const ssoDomainSchema = z.string().trim().toLowerCase().regex(
+  /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/,
+  "Enter a domain such as example.com",
+);
+
+/** Tenant admin form for the SSO integration. Secrets are write-only; omit to keep the stored value. */
+export const updateSsoConfigSchema = z.object({
+  enabled: z.boolean(),
+  protocol: z.enum([SsoProtocol.OIDC, SsoProtocol.SAML]),
+  displayName: z.string().trim().max(100).nullable().optional(),
+  emailDomains: z.array(ssoDomainSchema).max(20).default([]),
+  allowJitProvisioning: z.boolean().default(true),
+  passwordLoginDisabled: z.boolean().default(false),
+  oidcIssuerUrl: z.string().trim().url().max(2000).nullable().optional(),
+  oidcClientId: z.string().trim().max(500).nullable().optional(),
+  oidcClientSecret: z.string().trim().max(2000).optional(),
+  samlEntryPoint: z.string().trim().url().max(2000).nullable().optional(),
+  samlIdpIssuer: z.string().trim().max(2000).nullable().optional(),
+  samlIdpCert: z.string().trim().max(20000).nullable().optional(),
+}).superRefine((value, ctx) => {
+  if (!value.enabled) return;
+  // The login page and JIT provisioning only route addresses at claimed domains.
+  if ((value.emailDomains ?? []).length === 0 && (value.allowJitProvisioning !== false || value.passwordLoginDisabled)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["emailDomains"],
+      message: "Add at least one email domain to create accounts on first sign-in or turn off password sign-in",
+    });
+  }
+  const required: Array<keyof typeof value> = value.protocol === SsoProtocol.OIDC
+    ? ["oidcIssuerUrl", "oidcClientId"]
+    : ["samlEntryPoint", "samlIdpCert"];
+  for (const field of required) {
+    if (!value[field]) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: "Required when SSO is enabled" });
+  }
+});
+
+export type UpdateSsoConfig = z.input<typeof updateSsoConfigSchema>;
+export type UserSsoIdentity = typeof userSsoIdentities.$inferSelect;
+
+
+// ============================================================
+// REMINDERS — personal reminders delivered through the job queue
+// ============================================================
+
+export const ReminderStatus = {
+  PENDING: "pending",
+  SENT: "sent",
+  CANCELLED: "cancelled",
+} as const;
+
+export type ReminderStatusValue = typeof ReminderStatus[keyof typeof ReminderStatus];
+
+/** Where a reminder was created from; `sourceId` is the task, comment or chat channel id. */
+export const ReminderSource = {
+  CHAT: "chat",
+  TASK: "task",
+  COMMENT: "comment",
+} as const;
+
+export type ReminderSourceType = typeof ReminderSource[keyof typeof ReminderSource];
+
+/**
+ * A reminder for one user. While pending, `scheduledJobId` is the queued job that fires it;
+ * snoozing reschedules the same row, so a job only fires if it is still the scheduled one.
+ */
+export const reminders = pgTable("reminders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  message: text("message").notNull(),
+  remindAt: timestamp("remind_at").notNull(),
+  status: text("status").notNull().default(ReminderStatus.PENDING),
+  sourceType: text("source_type").notNull().default(ReminderSource.CHAT),
+  sourceId: varchar("source_id"),
+  taskId: varchar("task_id").references(() => tasks.id, { onDelete: "set null" }),
+  scheduledJobId: varchar("scheduled_job_id"),
+  snoozeCount: integer("snooze_count").notNull().default(0),
+  firedAt: timestamp("fired_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("reminders_tenant_user_status_idx").on(table.tenantId, table.userId, table.status, table.remindAt),
+  index("reminders_task_idx").on(table.taskId),
+]);
+
+/** `remindAt`/`until` accept an ISO timestamp or a phrase such as "tomorrow 9am" (see features/reminders/reminderTime.ts). */
+const reminderWhenSchema = z.string().trim().min(1).max(100);
+
+export const createReminderSchema = z.object({
+  message: z.string().trim().min(1).max(1000),
+  remindAt: reminderWhenSchema,
+  timezone: z.string().max(64).optional(),
+  sourceType: z.enum([ReminderSource.TASK, ReminderSource.COMMENT]),
+  sourceId: z.string().min(1),
+});
+
+export const snoozeReminderSchema = z.object({
+  until: reminderWhenSchema,
+  timezone: z.string().max(64).optional(),
+});
+
+export type Reminder = typeof reminders.$inferSelect;
+export type CreateReminder = z.input<typeof createReminderSchema>;
+
+// ============================================================
+// WORKFLOW STATUSES — per-project task status sets with transition rules
+// ============================================================
+
+/**
+ * What a task status means. Reporting, forecasting and completion logic go through the
+ * category so tenants can name their statuses freely.
+ */
+export const StatusCategory = {
+  NOT_STARTED: "not_started",
+  ACTIVE: "active",
+  DONE: "done",
+  CANCELLED: "cancelled",
+} as const;
+
+export type StatusCategoryValue = typeof StatusCategory[keyof typeof StatusCategory];
+
+/** Task fields a status can require before a task may enter it. */
+export const WorkflowRequiredField = {
+  ASSIGNEE: "assignee",
+  DUE_DATE: "dueDate",
+  ESTIMATE: "estimate",
+  DESCRIPTION: "description",
+} as const;
+
+export type WorkflowRequiredFieldValue = typeof WorkflowRequiredField[keyof typeof WorkflowRequiredField];
+
+/** A named, ordered set of task statuses. Projects without a set use the built-in statuses. */
+export const workflowStatusSets = pgTable("workflow_status_sets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  name: text("name").notNull(),
+  description: text("description"),
+  isDefault: boolean("is_default").notNull().default(false), // Assigned to new projects
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("workflow_status_sets_tenant_idx").on(table.tenantId),
+]);
+
+/**
+ * One status in a set. `key` is the value stored in `tasks.status`; `allowedTransitions`
+ * lists the keys a task may move to from here (null = any).
+ */
+export const workflowStatuses = pgTable("workflow_statuses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  statusSetId: varchar("status_set_id").notNull().references(() => workflowStatusSets.id, { onDelete: "cascade" }),
+  key: text("key").notNull(),
+  name: text("name").notNull(),
+  color: text("color").notNull().default("#6B7280"),
+  category: text("category").notNull().default(StatusCategory.ACTIVE),
+  orderIndex: integer("order_index").notNull().default(0),
+  requiredFields: jsonb("required_fields").$type<WorkflowRequiredFieldValue[]>().notNull().default([]),
+  allowedTransitions: jsonb("allowed_transitions").$type<string[] | null>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("workflow_statuses_set_key_unique").on(table.statusSetId, table.key),
+  index("workflow_statuses_tenant_idx").on(table.tenantId),
+]);
+
+const workflowStatusKeySchema = z.string().trim().min(1).max(40)
+  .regex(/^[a-z][a-z0-9_]*$/, "Use lowercase letters, digits and underscores");
+
+export const workflowStatusInputSchema = z.object({
+  key: workflowStatusKeySchema,
+  name: z.string().trim().min(1).max(60),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/).default("#6B7280"),
+  category: z.enum([StatusCategory.NOT_STARTED, StatusCategory.ACTIVE, StatusCategory.DONE, StatusCategory.CANCELLED]),
+  requiredFields: z.array(z.enum([
+    WorkflowRequiredField.ASSIGNEE,
+    WorkflowRequiredField.DUE_DATE,
+    WorkflowRequiredField.ESTIMATE,
+    WorkflowRequiredField.DESCRIPTION,
+  ])).max(4).default([]),
+  allowedTransitions: z.array(workflowStatusKeySchema).max(50).nullable().default(null),
+});
+
+/** Creates or replaces a status set; the statuses array is the complete, ordered list. */
+export const upsertWorkflowStatusSetSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  isDefault: z.boolean().optional(),
+  statuses: z.array(workflowStatusInputSchema).min(1).max(30),
+}).superRefine((data, ctx) => {
+  const keys = new Set<string>();
+  data.statuses.forEach((status, i) => {
+    if (keys.has(status.key)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["statuses", i, "key"], message: `Duplicate status key "${status.key}"` });
+    }
+    keys.add(status.key);
+  });
+  data.statuses.forEach((status, i) => {
+    for (const target of status.allowedTransitions ?? []) {
+      if (!keys.has(target)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["statuses", i, "allowedTransitions"], message: `Unknown status "${target}"` });
+      }
+    }
+  });
+  if (!data.statuses.some((s) => s.category === StatusCategory.NOT_STARTED)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["statuses"], message: "A workflow needs at least one not-started status" });
+  }
+  if (!data.statuses.some((s) => s.category === StatusCategory.DONE)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["statuses"], message: "A workflow needs at least one done status" });
+  }
+});
+
+export const setProjectWorkflowSchema = z.object({
+  statusSetId: z.string().min(1).nullable(),
+});
+
+export type WorkflowStatusSet = typeof workflowStatusSets.$inferSelect;
+export type WorkflowStatus = typeof workflowStatuses.$inferSelect;
+export type WorkflowStatusInput = z.input<typeof workflowStatusInputSchema>;
+export type UpsertWorkflowStatusSet = z.input<typeof upsertWorkflowStatusSetSchema>;
+
+// =============================================================================
+// TASK STATUS HISTORY
+// =============================================================================
+
+export const StatusChangeSource = {
+  USER: "user",
+  WORKFLOW: "workflow",
+  BACKFILL: "backfill",
+  SYNC: "sync",
+} as const;
+
+export type StatusChangeSourceValue = typeof StatusChangeSource[keyof typeof StatusChangeSource];
+
+/** One row per task status transition; fromStatus is null only for backfilled completions. */
+export const taskStatusHistory = pgTable("task_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(),
+  taskId: varchar("task_id").references(() => tasks.id, { onDelete: "cascade" }).notNull(),
+  fromStatus: text("from_status"),
+  toStatus: text("to_status").notNull(),
+  // Category of toStatus when the change happened; workflows may be edited later
+  toCategory: text("to_category").notNull(),
+  changedBy: varchar("changed_by").references(() => users.id, { onDelete: "set null" }),
+  source: text("source").notNull().default(StatusChangeSource.USER),
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+}, (table) => [
+  index("task_status_history_task_idx").on(table.taskId, table.changedAt),
+  index("task_status_history_tenant_idx").on(table.tenantId, table.changedAt),
+]);
+
+export type TaskStatusHistory = typeof taskStatusHistory.$inferSelect;
+export type InsertTaskStatusHistory = typeof taskStatusHistory.$inferInsert;
+
+// =============================================================================
+// CAPACITY — working hours, holiday calendars and time off
+// =============================================================================
+
+export const TimeOffStatus = {
+  PENDING: "pending",
+  APPROVED: "approved",
+  REJECTED: "rejected",
+  CANCELLED: "cancelled",
+} as const;
+
+export type TimeOffStatusValue = typeof TimeOffStatus[keyof typeof TimeOffStatus];
+
+export const TimeOffType = {
+  VACATION: "vacation",
+  SICK: "sick",
+  PERSONAL: "personal",
+  OTHER: "other",
+} as const;
+
+export type TimeOffTypeValue = typeof TimeOffType[keyof typeof TimeOffType];
+
+/** A named set of public holidays; the default calendar applies to users whose profile names none. */
+export const holidayCalendars = pgTable("holiday_calendars", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  name: text("name").notNull(),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("holiday_calendars_tenant_idx").on(table.tenantId),
+]);
+
+export const holidays = pgTable("holidays", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  calendarId: varchar("calendar_id").notNull().references(() => holidayCalendars.id, { onDelete: "cascade" }),
+  date: date("date").notNull(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("holidays_calendar_date_unique").on(table.calendarId, table.date),
+  index("holidays_tenant_date_idx").on(table.tenantId, table.date),
+]);
+
+/**
+ * A user's working hours from effectiveFrom until the next profile starts (or effectiveTo).
+ * weekdayMinutes holds minutes per day, index 0 = Monday. Users without a profile work the
+ * tenant-wide default of 8h Monday to Friday.
+ */
+export const userCapacityProfiles = pgTable("user_capacity_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  timezone: text("timezone").notNull().default("UTC"),
+  weekdayMinutes: jsonb("weekday_minutes").$type<number[]>().notNull(),
+  holidayCalendarId: varchar("holiday_calendar_id").references(() => holidayCalendars.id, { onDelete: "set null" }),
+  effectiveFrom: date("effective_from").notNull(),
+  effectiveTo: date("effective_to"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("user_capacity_profiles_user_from_unique").on(table.tenantId, table.userId, table.effectiveFrom),
+]);
+
+/** Time off requested by a user; only approved requests reduce capacity. minutesPerDay null = full days. */
+export const timeOffRequests = pgTable("time_off_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: text("type").notNull().default(TimeOffType.VACATION),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(),
+  minutesPerDay: integer("minutes_per_day"),
+  note: text("note"),
+  status: text("status").notNull().default(TimeOffStatus.PENDING),
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewComment: text("review_comment"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("time_off_requests_tenant_user_idx").on(table.tenantId, table.userId, table.startDate),
+  index("time_off_requests_tenant_status_idx").on(table.tenantId, table.status),
+]);
+
+const isValidTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const upsertCapacityProfileSchema = z.object({
+  timezone: z.string().trim().min(1).max(64).refine(isValidTimeZone, "Unknown time zone").default("UTC"),
+  weekdayMinutes: z.array(z.number().int().min(0).max(24 * 60)).length(7),
+  holidayCalendarId: z.string().min(1).nullable().optional(),
+  effectiveFrom: isoDateSchema,
+  effectiveTo: isoDateSchema.nullable().optional(),
+}).refine(
+  (profile) => !profile.effectiveTo || profile.effectiveTo >= profile.effectiveFrom,
+  { message: "effectiveTo must not be before effectiveFrom", path: ["effectiveTo"] },
+);
+
+export const upsertHolidayCalendarSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  isDefault: z.boolean().optional(),
+});
+
+export const createHolidaySchema = z.object({
+  date: isoDateSchema,
+  name: z.string().trim().min(1).max(100),
+});
+
+export const createTimeOffRequestSchema = z.object({
+  type: z.enum([TimeOffType.VACATION, TimeOffType.SICK, TimeOffType.PERSONAL, TimeOffType.OTHER]).default(TimeOffType.VACATION),
+  startDate: isoDateSchema,
+  endDate: isoDateSchema,
+  minutesPerDay: z.number().int().min(15).max(24 * 60).nullable().optional(),
+  note: z.string().trim().max(1000).nullable().optional(),
+}).refine(
+  (request) => request.endDate >= request.startDate,
+  { message: "endDate must not be before startDate", path: ["endDate"] },
+);
+
+export const reviewTimeOffRequestSchema = z.object({
+  status: z.enum([TimeOffStatus.APPROVED, TimeOffStatus.REJECTED]),
+  comment: z.string().trim().max(2000).nullable().optional(),
+});
+
+export type HolidayCalendar = typeof holidayCalendars.$inferSelect;
+export type Holiday = typeof holidays.$inferSelect;
+export type UserCapacityProfile = typeof userCapacityProfiles.$inferSelect;
+export type TimeOffRequest = typeof timeOffRequests.$inferSelect;
+export type UpsertCapacityProfile = z.input<typeof upsertCapacityProfileSchema>;
+export type CreateTimeOffRequest = z.input<typeof createTimeOffRequestSchema>;
+
+// =============================================================================
+// INBOUND EMAIL — tenant mailboxes, reply tokens and the received-mail log
+// =============================================================================
+
+export const InboundEmailStatus = {
+  PROCESSED: "processed",
+  QUARANTINED: "quarantined",
+  DISCARDED: "discarded",
+  /** Auto-replies, bounces and duplicates; kept for troubleshooting only. */
+  IGNORED: "ignored",
+  FAILED: "failed",
+} as const;
+
+export type InboundEmailStatusValue = typeof InboundEmailStatus[keyof typeof InboundEmailStatus];
+
+export const InboundEmailTarget = {
+  SUPPORT_TICKET: "support_ticket",
+  CLIENT_CONVERSATION: "client_conversation",
+  TASK: "task",
+} as const;
+
+export type InboundEmailTargetType = typeof InboundEmailTarget[keyof typeof InboundEmailTarget];
+
+export const InboundQuarantineReason = {
+  UNKNOWN_SENDER: "unknown_sender",
+  /** The sender is a contact or portal user of more than one client. */
+  AMBIGUOUS_SENDER: "ambiguous_sender",
+  /** A tenant user wrote to the mailbox without a reply token. */
+  INTERNAL_SENDER: "internal_sender",
+  /** The sender is known but may not post to the replied-to item. */
+  NOT_PERMITTED: "not_permitted",
+  /** The replied-to item no longer takes replies. */
+  TARGET_CLOSED: "target_closed",
+} as const;
+
+/** One mailbox per tenant: `<mailboxKey>@INBOUND_EMAIL_DOMAIN`, replies to `<mailboxKey>+<token>@…`. */
+export const inboundMailboxes = pgTable("inbound_mailboxes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  mailboxKey: text("mailbox_key").notNull(),
+  enabled: boolean("enabled").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("inbound_mailboxes_tenant_unique").on(table.tenantId),
+  uniqueIndex("inbound_mailboxes_key_unique").on(table.mailboxKey),
+]);
+
+/** Addresses replies to the ticket, conversation or task an outgoing email was about. */
+export const inboundReplyTokens = pgTable("inbound_reply_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  token: text("token").notNull(),
+  targetType: text("target_type").notNull(),
+  targetId: varchar("target_id").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("inbound_reply_tokens_token_unique").on(table.token),
+  uniqueIndex("inbound_reply_tokens_target_unique").on(table.tenantId, table.targetType, table.targetId),
+]);
+
+export interface InboundEmailAttachment {
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  /** Object storage key; null when the file was rejected or storage is not configured. */
+  storageKey: string | null;
+  assetId?: string | null;
+  skippedReason?: string | null;
+}
+
+/** Every message received for a tenant mailbox, and what became of it. */
+export const inboundEmails = pgTable("inbound_emails", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  messageId: text("message_id").notNull(),
+  fromEmail: text("from_email").notNull(),
+  fromName: text("from_name"),
+  recipient: text("recipient").notNull(),
+  subject: text("subject").notNull().default(""),
+  bodyText: text("body_text").notNull().default(""),
+  attachments: jsonb("attachments").$type<InboundEmailAttachment[]>().notNull().default([]),
+  status: text("status").notNull(),
+  quarantineReason: text("quarantine_reason"),
+  error: text("error"),
+  targetType: text("target_type"),
+  targetId: varchar("target_id"),
+  clientId: varchar("client_id").references(() => clients.id, { onDelete: "set null" }),
+  senderUserId: varchar("sender_user_id").references(() => users.id, { onDelete: "set null" }),
+  senderContactId: varchar("sender_contact_id").references(() => clientContacts.id, { onDelete: "set null" }),
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("inbound_emails_message_unique").on(table.tenantId, table.messageId),
+  index("inbound_emails_tenant_status_idx").on(table.tenantId, table.status, table.receivedAt),
+]);
+
+export const updateInboundMailboxSchema = z.object({
+  enabled: z.boolean(),
+  mailboxKey: z.string().trim().toLowerCase().min(3).max(40)
+    .regex(/^[a-z0-9](?:[a-z0-9.-]*[a-z0-9])?$/, "Use lowercase letters, digits, dots and dashes"),
+});
+
+export const releaseInboundEmailSchema = z.object({
+  clientId: z.string().min(1),
+  /** Also save the sender as a contact of the client, so later mail is accepted directly. */
+  addContact: z.boolean().optional().default(false),
+});
+
+export type InboundMailbox = typeof inboundMailboxes.$inferSelect;
+export type InboundReplyToken = typeof inboundReplyTokens.$inferSelect;
+export type InboundEmail = typeof inboundEmails.$inferSelect;
+export type InsertInboundEmail = typeof inboundEmails.$inferInsert;
+export type UpdateInboundMailbox = z.infer<typeof updateInboundMailboxSchema>;
+export type ReleaseInboundEmail = z.input<typeof releaseInboundEmailSchema>;
+
+// ============================================================
+// SAVED VIEWS — named task filters with layout, sort and grouping
+// ============================================================
+
+export const SavedViewVisibility = {
+  PERSONAL: "personal",
+  TEAM: "team",
+} as const;
+
+export type SavedViewVisibilityValue = typeof SavedViewVisibility[keyof typeof SavedViewVisibility];
+
+export const savedViews = pgTable("saved_views", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  ownerUserId: varchar("owner_user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  visibility: text("visibility").$type<SavedViewVisibilityValue>().notNull().default("personal"),
+  // Set when visibility is "team": every member of the team sees the view
+  teamId: varchar("team_id").references(() => teams.id, { onDelete: "cascade" }),
+  filter: jsonb("filter").$type<TaskFilterGroup>().notNull(),
+  sort: jsonb("sort").$type<TaskSort>().notNull().default([]),
+  groupBy: text("group_by").$type<TaskGroupByValue>().notNull().default("none"),
+  layout: text("layout").$type<TaskViewLayoutValue>().notNull().default("list"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("saved_views_tenant_owner_idx").on(table.tenantId, table.ownerUserId),
+  index("saved_views_team_idx").on(table.teamId),
+]);
+
+const savedViewGroupBySchema = z.enum(Object.values(TaskGroupBy) as [TaskGroupByValue, ...TaskGroupByValue[]]);
+const savedViewLayoutSchema = z.enum(Object.values(TaskViewLayout) as [TaskViewLayoutValue, ...TaskViewLayoutValue[]]);
+
+export const createSavedViewSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  visibility: z.enum([SavedViewVisibility.PERSONAL, SavedViewVisibility.TEAM]).default(SavedViewVisibility.PERSONAL),
+  teamId: z.string().min(1).nullable().optional(),
+  filter: taskFilterGroupSchema,
+  sort: taskSortSchema.default([]),
+  groupBy: savedViewGroupBySchema.default(TaskGroupBy.NONE),
+  layout: savedViewLayoutSchema.default(TaskViewLayout.LIST),
+}).refine((view) => view.visibility !== SavedViewVisibility.TEAM || !!view.teamId, {
+  message: "Pick the team to share the view with",
+  path: ["teamId"],
+});
+
+export const updateSavedViewSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  visibility: z.enum([SavedViewVisibility.PERSONAL, SavedViewVisibility.TEAM]).optional(),
+  teamId: z.string().min(1).nullable().optional(),
+  filter: taskFilterGroupSchema.optional(),
+  sort: taskSortSchema.optional(),
+  groupBy: savedViewGroupBySchema.optional(),
+  layout: savedViewLayoutSchema.optional(),
+});
+
+export const taskQuerySchema = z.object({
+  filter: taskFilterGroupSchema,
+  sort: taskSortSchema.default([]),
+  limit: z.number().int().min(1).max(500).default(200),
+  offset: z.number().int().min(0).default(0),
+});
+
+export type SavedView = typeof savedViews.$inferSelect;
+export type InsertSavedView = typeof savedViews.$inferInsert;
+export type CreateSavedView = z.input<typeof createSavedViewSchema>;
+export type UpdateSavedView = z.infer<typeof updateSavedViewSchema>;
+export type TaskQuery = z.input<typeof taskQuerySchema>;
+
+// ============================================================
+// SHARED REALTIME STATE — state that must agree across server instances
+// ============================================================
+
+// Fixed-window hit counters for rate limiting (REALTIME_BACKEND=postgres)
+export const rateLimitCounters = pgTable("rate_limit_counters", {
+  key: text("key").primaryKey(),
+  hits: integer("hits").notNull(),
+  resetAt: timestamp("reset_at").notNull(),
+}, (table) => [
+  index("rate_limit_counters_reset_idx").on(table.resetAt),
+]);
+
+// Cluster bus messages too large for a NOTIFY payload; the notification carries the row id
+export const realtimeClusterPayloads = pgTable("realtime_cluster_payloads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  payload: text("payload").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("realtime_cluster_payloads_created_idx").on(table.createdAt),
+]);
+
+// ============================================================
+// TWO-WAY SYNC — task sync with external trackers (see server/features/sync)
+// ============================================================
+
+/**
+ * A tenant's sync with one provider. Task ID mappings and the last synced field values live in
+ * integrationEntityMap; `cursor` holds the per remote project watermark for incremental pulls.
+ */
+export const syncConnections = pgTable("sync_connections", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  provider: text("provider").notNull(),
+  direction: text("direction").notNull().default(SyncDirection.BOTH),
+  remoteProjectIds: jsonb("remote_project_ids").$type<string[]>().notNull().default([]),
+  fieldRules: jsonb("field_rules").$type<Partial<Record<SyncTaskField, SyncFieldRuleValue>>>().notNull().default({}),
+  pollIntervalMinutes: integer("poll_interval_minutes").notNull().default(15),
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  cursor: jsonb("cursor").$type<Record<string, string>>().notNull().default({}),
+  // Queued job for the next scheduled run; manual runs never replace it
+  scheduledJobId: varchar("scheduled_job_id"),
+  nextRunAt: timestamp("next_run_at"),
+  lastRunAt: timestamp("last_run_at"),
+  lastSuccessAt: timestamp("last_success_at"),
+  lastError: text("last_error"),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("sync_connections_tenant_provider_idx").on(table.tenantId, table.provider),
+]);
+
+export interface SyncConflictRecord {
+  localTaskId: string;
+  remoteId: string;
+  field: SyncTaskField;
+  localValue: unknown;
+  remoteValue: unknown;
+  winner: "local" | "remote";
+}
+
+export interface SyncErrorRecord {
+  remoteId: string | null;
+  localTaskId: string | null;
+  message: string;
+}
+
+// One pull-and-push pass of a connection, for the sync status dashboard
+export const syncRuns = pgTable("sync_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  connectionId: varchar("connection_id").notNull().references(() => syncConnections.id, { onDelete: "cascade" }),
+  trigger: text("trigger").notNull(),
+  status: text("status").notNull().default(SyncRunStatus.RUNNING),
+  createdCount: integer("created_count").notNull().default(0),
+  pulledCount: integer("pulled_count").notNull().default(0),
+  pushedCount: integer("pushed_count").notNull().default(0),
+  conflictCount: integer("conflict_count").notNull().default(0),
+  errorCount: integer("error_count").notNull().default(0),
+  conflicts: jsonb("conflicts").$type<SyncConflictRecord[]>().notNull().default([]),
+  errors: jsonb("errors").$type<SyncErrorRecord[]>().notNull().default([]),
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("sync_runs_connection_started_idx").on(table.connectionId, table.startedAt),
+]);
+
+export const upsertSyncConnectionSchema = z.object({
+  direction: z.enum([SyncDirection.BOTH, SyncDirection.PULL, SyncDirection.PUSH]).optional(),
+  remoteProjectIds: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+  fieldRules: z.record(
+    z.enum(SYNC_TASK_FIELDS),
+    z.enum([SyncFieldRule.LAST_WRITER_WINS, SyncFieldRule.LOCAL_AUTHORITATIVE]),
+  ).optional(),
+  pollIntervalMinutes: z.number().int().min(5).max(1440).optional(),
+  isEnabled: z.boolean().optional(),
+});
+
+export type SyncConnection = typeof syncConnections.$inferSelect;
+export type SyncRun = typeof syncRuns.$inferSelect;
+export type UpsertSyncConnection = z.infer<typeof upsertSyncConnectionSchema>;
+
+// =============================================================================
+// DATA SUBJECT REQUESTS (privacy export and erasure)
+// =============================================================================
+
+export const DataSubjectRequestType = {
+  EXPORT: "export",
+  ERASURE: "erasure",
+} as const;
+export type DataSubjectRequestTypeValue = typeof DataSubjectRequestType[keyof typeof DataSubjectRequestType];
+
+export const DataSubjectType = {
+  USER: "user",
+  CLIENT_CONTACT: "client_contact",
+} as const;
+export type DataSubjectTypeValue = typeof DataSubjectType[keyof typeof DataSubjectType];
+
+export const DataSubjectRequestStatus = {
+  PENDING_APPROVAL: "pending_approval",
+  APPROVED: "approved",
+  PROCESSING: "processing",
+  COMPLETED: "completed",
+  REJECTED: "rejected",
+  FAILED: "failed",
+} as const;
+export type DataSubjectRequestStatusValue = typeof DataSubjectRequestStatus[keyof typeof DataSubjectRequestStatus];
+
+export const dataSubjectRequests = pgTable("data_subject_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  type: text("type").$type<DataSubjectRequestTypeValue>().notNull(),
+  subjectType: text("subject_type").$type<DataSubjectTypeValue>().notNull(),
+  subjectUserId: varchar("subject_user_id").references(() => users.id, { onDelete: "set null" }),
+  subjectContactId: varchar("subject_contact_id").references(() => clientContacts.id, { onDelete: "set null" }),
+  // Name and email at request time; replaced by the pseudonym once an erasure completes
+  subjectLabel: text("subject_label").notNull(),
+  reason: text("reason").notNull(),
+  status: text("status").$type<DataSubjectRequestStatusValue>().notNull().default(DataSubjectRequestStatus.PENDING_APPROVAL),
+  requestedByUserId: varchar("requested_by_user_id").references(() => users.id, { onDelete: "set null" }),
+  decidedByUserId: varchar("decided_by_user_id").references(() => users.id, { onDelete: "set null" }),
+  decidedAt: timestamp("decided_at"),
+  decisionNote: text("decision_note"),
+  jobId: varchar("job_id"),
+  // Records found (export) or changed (erasure), per category
+  summary: jsonb("summary").$type<Record<string, number>>(),
+  archiveKey: text("archive_key"),
+  archiveSizeBytes: integer("archive_size_bytes"),
+  error: text("error"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("data_subject_requests_tenant_created_idx").on(table.tenantId, table.createdAt),
+  index("data_subject_requests_status_idx").on(table.status),
+]);
+
+// Audit trail of a request, from creation through approval to download
+export const dataSubjectRequestEvents = pgTable("data_subject_request_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  requestId: varchar("request_id").notNull().references(() => dataSubjectRequests.id, { onDelete: "cascade" }),
+  actorUserId: varchar("actor_user_id").references(() => users.id, { onDelete: "set null" }),
+  eventType: text("event_type").notNull(),
+  message: text("message").notNull(),
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("data_subject_request_events_request_idx").on(table.requestId, table.createdAt),
+]);
+
+export const createDataSubjectRequestSchema = z.object({
+  type: z.enum([DataSubjectRequestType.EXPORT, DataSubjectRequestType.ERASURE]),
+  subjectType: z.enum([DataSubjectType.USER, DataSubjectType.CLIENT_CONTACT]),
+  subjectId: z.string().min(1),
+  reason: z.string().trim().min(1).max(2000),
+});
+
+export const decideDataSubjectRequestSchema = z.object({
+  note: z.string().trim().max(2000).optional(),
+});
+
+export type DataSubjectRequest = typeof dataSubjectRequests.$inferSelect;
+export type DataSubjectRequestEvent = typeof dataSubjectRequestEvents.$inferSelect;
+export type CreateDataSubjectRequest = z.infer<typeof createDataSubjectRequestSchema>;
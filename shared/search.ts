@@ -0,0 +1,64 @@
+/** Entity types covered by the full-text search index. */
+export const SearchEntityType = {
+  CLIENT: "client",
+  PROJECT: "project",
+  TASK: "task",
+  COMMENT: "comment",
+  CLIENT_NOTE: "client_note",
+  PROJECT_NOTE: "project_note",
+  TICKET: "ticket",
+  TICKET_MESSAGE: "ticket_message",
+  CONVERSATION: "conversation",
+  CONVERSATION_MESSAGE: "conversation_message",
+  CHAT_MESSAGE: "chat_message",
+  ASSET: "asset",
+} as const;
+
+export type SearchEntityTypeValue = typeof SearchEntityType[keyof typeof SearchEntityType];
+
+export const SEARCH_ENTITY_TYPES = Object.values(SearchEntityType) as SearchEntityTypeValue[];
+
+export const SEARCH_ENTITY_LABELS: Record<SearchEntityTypeValue, string> = {
+  client: "Clients",
+  project: "Projects",
+  task: "Tasks",
+  comment: "Comments",
+  client_note: "Client notes",
+  project_note: "Project notes",
+  ticket: "Tickets",
+  ticket_message: "Ticket replies",
+  conversation: "Conversations",
+  conversation_message: "Conversation messages",
+  chat_message: "Chat",
+  asset: "Files",
+};
+
+/** A highlighted excerpt: the text plus [start, end) character ranges of the matched terms. */
+export interface SearchSnippet {
+  text: string;
+  highlights: Array<[number, number]>;
+}
+
+export interface SearchHit {
+  type: SearchEntityTypeValue;
+  id: string;
+  title: string;
+  /** Status of tasks, projects, clients and tickets; visibility of messages; MIME type of files. */
+  status: string | null;
+  snippet: SearchSnippet | null;
+  rank: number;
+  createdAt: string;
+  /** Where the hit lives, for building a link: whichever of these apply to the type. */
+  clientId: string | null;
+  projectId: string | null;
+  taskId: string | null;
+  /** Ticket, conversation, channel or DM thread the hit belongs to; folder for files. */
+  parentId: string | null;
+}
+
+export interface SearchResponse {
+  hits: SearchHit[];
+  /** Matches per requested type, for filter counts. */
+  counts: Partial<Record<SearchEntityTypeValue, number>>;
+  total: number;
+}
@@ -0,0 +1,235 @@
+/**
+ * Task filter language: nested AND/OR groups of field conditions, as stored in saved views
+ * and sent to POST /api/tasks/query. Compiled to SQL by server/features/savedViews/taskFilterCompiler.ts.
+ */
+import { z } from "zod";
+
+export const TaskFilterField = {
+  STATUS: "status",
+  PRIORITY: "priority",
+  ASSIGNEE: "assignee",
+  TAG: "tag",
+  PROJECT: "project",
+  CLIENT: "client",
+  START_DATE: "startDate",
+  DUE_DATE: "dueDate",
+  CREATED_AT: "createdAt",
+  COMPLETED_AT: "completedAt",
+  ESTIMATE: "estimateMinutes",
+  TEXT: "text",
+} as const;
+
+export type TaskFilterFieldValue = typeof TaskFilterField[keyof typeof TaskFilterField];
+
+export const TaskFilterOperator = {
+  IN: "in",
+  NOT_IN: "not_in",
+  IS_EMPTY: "is_empty",
+  IS_NOT_EMPTY: "is_not_empty",
+  BEFORE: "before",
+  AFTER: "after",
+  BETWEEN: "between",
+  LAST_DAYS: "last_days",
+  NEXT_DAYS: "next_days",
+  EQ: "eq",
+  LT: "lt",
+  GT: "gt",
+  CONTAINS: "contains",
+  NOT_CONTAINS: "not_contains",
+} as const;
+
+export type TaskFilterOperatorValue = typeof TaskFilterOperator[keyof typeof TaskFilterOperator];
+
+/** Stands for the requesting user in assignee conditions, so shared views work for everyone. */
+export const CURRENT_USER = "me";
+
+const LIST_OPS = [TaskFilterOperator.IN, TaskFilterOperator.NOT_IN] as const;
+const PRESENCE_OPS = [TaskFilterOperator.IS_EMPTY, TaskFilterOperator.IS_NOT_EMPTY] as const;
+const DATE_OPS = [
+  TaskFilterOperator.BEFORE, TaskFilterOperator.AFTER, TaskFilterOperator.BETWEEN,
+  TaskFilterOperator.LAST_DAYS, TaskFilterOperator.NEXT_DAYS,
+] as const;
+const NUMBER_OPS = [TaskFilterOperator.EQ, TaskFilterOperator.LT, TaskFilterOperator.GT, TaskFilterOperator.BETWEEN] as const;
+const TEXT_OPS = [TaskFilterOperator.CONTAINS, TaskFilterOperator.NOT_CONTAINS] as const;
+
+export const TASK_FILTER_OPERATORS: Record<TaskFilterFieldValue, readonly TaskFilterOperatorValue[]> = {
+  status: LIST_OPS,
+  priority: LIST_OPS,
+  assignee: [...LIST_OPS, ...PRESENCE_OPS],
+  tag: [...LIST_OPS, ...PRESENCE_OPS],
+  project: [...LIST_OPS, ...PRESENCE_OPS],
+  client: [...LIST_OPS, ...PRESENCE_OPS],
+  startDate: [...DATE_OPS, ...PRESENCE_OPS],
+  dueDate: [...DATE_OPS, ...PRESENCE_OPS],
+  createdAt: DATE_OPS,
+  completedAt: [...DATE_OPS, ...PRESENCE_OPS],
+  estimateMinutes: [...NUMBER_OPS, ...PRESENCE_OPS],
+  text: TEXT_OPS,
+};
+
+export const TASK_FILTER_FIELD_LABELS: Record<TaskFilterFieldValue, string> = {
+  status: "Status",
+  priority: "Priority",
+  assignee: "Assignee",
+  tag: "Tag",
+  project: "Project",
+  client: "Client",
+  startDate: "Start date",
+  dueDate: "Due date",
+  createdAt: "Created",
+  completedAt: "Completed",
+  estimateMinutes: "Estimate (min)",
+  text: "Title or description",
+};
+
+export const TASK_FILTER_OPERATOR_LABELS: Record<TaskFilterOperatorValue, string> = {
+  in: "is any of",
+  not_in: "is none of",
+  is_empty: "is empty",
+  is_not_empty: "is set",
+  before: "is before",
+  after: "is after",
+  between: "is between",
+  last_days: "in the last … days",
+  next_days: "in the next … days",
+  eq: "equals",
+  lt: "is less than",
+  gt: "is greater than",
+  contains: "contains",
+  not_contains: "does not contain",
+};
+
+const MAX_DEPTH = 3;
+const MAX_CONDITIONS = 50;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface TaskFilterCondition {
+  field: TaskFilterFieldValue;
+  op: TaskFilterOperatorValue;
+  /** string[] for list operators, a YYYY-MM-DD date, a number (minutes or days) or search text. */
+  value?: string | number | string[] | null;
+  /** Upper bound for `between`. */
+  valueTo?: string | number | null;
+}
+
+export interface TaskFilterGroup {
+  combinator: "and" | "or";
+  rules: Array<TaskFilterCondition | TaskFilterGroup>;
+}
+
+export function isFilterGroup(rule: TaskFilterCondition | TaskFilterGroup): rule is TaskFilterGroup {
+  return "rules" in rule;
+}
+
+const FIELDS = Object.values(TaskFilterField) as [TaskFilterFieldValue, ...TaskFilterFieldValue[]];
+const OPERATORS = Object.values(TaskFilterOperator) as [TaskFilterOperatorValue, ...TaskFilterOperatorValue[]];
+
+const conditionSchema = z.object({
+  field: z.enum(FIELDS),
+  op: z.enum(OPERATORS),
+  value: z.union([z.string().max(500), z.number(), z.array(z.string().min(1)).max(100)]).nullable().optional(),
+  valueTo: z.union([z.string().max(500), z.number()]).nullable().optional(),
+}).superRefine((condition, ctx) => {
+  const problem = conditionProblem(condition);
+  if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+});
+
+export const taskFilterGroupSchema: z.ZodType<TaskFilterGroup> = z.lazy(() => z.object({
+  combinator: z.enum(["and", "or"]),
+  rules: z.array(z.union([conditionSchema, taskFilterGroupSchema])).max(MAX_CONDITIONS),
+})).superRefine((group, ctx) => {
+  const { depth, conditions } = measure(group);
+  if (depth > MAX_DEPTH) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Filters nest at most ${MAX_DEPTH} groups deep` });
+  if (conditions > MAX_CONDITIONS) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Filters have at most ${MAX_CONDITIONS} conditions` });
+});
+
+function measure(group: TaskFilterGroup): { depth: number; conditions: number } {
+  let depth = 1;
+  let conditions = 0;
+  for (const rule of group.rules) {
+    if (isFilterGroup(rule)) {
+      const inner = measure(rule);
+      depth = Math.max(depth, inner.depth + 1);
+      conditions += inner.conditions;
+    } else {
+      conditions += 1;
+    }
+  }
+  return { depth, conditions };
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === "string" && DATE_ONLY.test(value) && !isNaN(new Date(value).getTime());
+}
+
+/** Why a condition cannot be evaluated, or null when it is well-formed. */
+export function conditionProblem(condition: TaskFilterCondition): string | null {
+  const { field, op, value, valueTo } = condition;
+  if (!TASK_FILTER_OPERATORS[field]?.includes(op)) {
+    return `"${op}" does not apply to ${field}`;
+  }
+  switch (op) {
+    case TaskFilterOperator.IN:
+    case TaskFilterOperator.NOT_IN:
+      return Array.isArray(value) && value.length > 0 ? null : `${field} needs at least one value`;
+    case TaskFilterOperator.IS_EMPTY:
+    case TaskFilterOperator.IS_NOT_EMPTY:
+      return null;
+    case TaskFilterOperator.LAST_DAYS:
+    case TaskFilterOperator.NEXT_DAYS:
+      return typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 3650
+        ? null
+        : `${field} needs a number of days`;
+    case TaskFilterOperator.CONTAINS:
+    case TaskFilterOperator.NOT_CONTAINS:
+      return typeof value === "string" && value.trim() ? null : "Enter text to search for";
+  }
+  if (field === TaskFilterField.ESTIMATE) {
+    const bounds = op === TaskFilterOperator.BETWEEN ? [value, valueTo] : [value];
+    return bounds.every((bound) => typeof bound === "number" && bound >= 0) ? null : "Estimate needs minutes";
+  }
+  const bounds = op === TaskFilterOperator.BETWEEN ? [value, valueTo] : [value];
+  return bounds.every(isDate) ? null : `${field} needs a YYYY-MM-DD date`;
+}
+
+export const TaskSortField = {
+  DUE_DATE: "dueDate",
+  START_DATE: "startDate",
+  PRIORITY: "priority",
+  STATUS: "status",
+  TITLE: "title",
+  ESTIMATE: "estimateMinutes",
+  CREATED_AT: "createdAt",
+  UPDATED_AT: "updatedAt",
+} as const;
+
+export type TaskSortFieldValue = typeof TaskSortField[keyof typeof TaskSortField];
+
+export const taskSortSchema = z.array(z.object({
+  field: z.enum(Object.values(TaskSortField) as [TaskSortFieldValue, ...TaskSortFieldValue[]]),
+  direction: z.enum(["asc", "desc"]),
+})).max(3);
+
+export type TaskSort = z.infer<typeof taskSortSchema>;
+
+export const TaskGroupBy = {
+  NONE: "none",
+  STATUS: "status",
+  PRIORITY: "priority",
+  ASSIGNEE: "assignee",
+  PROJECT: "project",
+  CLIENT: "client",
+  DUE_DATE: "dueDate",
+} as const;
+
+export type TaskGroupByValue = typeof TaskGroupBy[keyof typeof TaskGroupBy];
+
+export const TaskViewLayout = {
+  LIST: "list",
+  BOARD: "board",
+  TABLE: "table",
+} as const;
+
+export type TaskViewLayoutValue = typeof TaskViewLayout[keyof typeof TaskViewLayout];
+
+export const EMPTY_TASK_FILTER: TaskFilterGroup = { combinator: "and", rules: [] };